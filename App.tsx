@@ -10,12 +10,21 @@ if (__DEV__) {
 }
 
 import { AuthProvider } from './src/context/AuthContext';
+import { AppLockProvider } from './src/context/AppLockContext';
+import { StepUpProvider } from './src/context/StepUpContext';
+import { RealtimeProvider } from './src/context/RealtimeContext';
 import AppNavigator from './src/navigation/AppNavigator';
 
 export default function App() {
   return (
     <AuthProvider key="app-root">
-      <AppNavigator />
+      <AppLockProvider>
+        <RealtimeProvider>
+          <StepUpProvider>
+            <AppNavigator />
+          </StepUpProvider>
+        </RealtimeProvider>
+      </AppLockProvider>
     </AuthProvider>
   );
 }
@@ -0,0 +1,463 @@
+-- Lost-authenticator 2FA recovery
+-- A user who has lost both their authenticator and their backup codes can ask
+-- for two-factor authentication to be turned off from the 2FA login step:
+--   1. confirm an email code (checked here through the session's JWT),
+--   2. take a fresh selfie, which support compares with the verified KYC face
+--      image (review_two_factor_recovery, service role only),
+--   3. wait two_factor_recovery_wait_hours (48h by default) from the request.
+-- Only then can complete_two_factor_recovery run the same change as
+-- disable_2fa. The user is notified at every step, so the real owner still
+-- signed in elsewhere can cancel a request they did not make.
+--
+-- Withdrawals are frozen from the request until 2FA is set up again.
+--
+-- NOTE: rows in public.notifications are meant to be emailed as well; point a
+-- database webhook at the table to deliver them.
+
+ALTER TABLE public.security_config
+ADD COLUMN IF NOT EXISTS two_factor_recovery_wait_hours INTEGER NOT NULL DEFAULT 48;
+
+-- Notifications shown in the app (and delivered by email through a webhook)
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications" ON public.notifications
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON public.notifications(user_id);
+
+CREATE TABLE IF NOT EXISTS public.two_factor_recoveries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled', 'completed')),
+    selfie_url TEXT NOT NULL,
+    -- The KYC face image at the time of the request, for the reviewer
+    kyc_face_image_url TEXT NOT NULL,
+    available_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    reviewer_notes TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    -- Set when the user turns 2FA back on, which lifts the withdrawal freeze
+    reenrolled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- No policies: only the SECURITY DEFINER functions below touch this table
+ALTER TABLE public.two_factor_recoveries ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_two_factor_recoveries_user_id ON public.two_factor_recoveries(user_id);
+
+-- At most one open request per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_two_factor_recoveries_open
+    ON public.two_factor_recoveries(user_id)
+    WHERE status IN ('pending', 'approved');
+
+CREATE TRIGGER update_two_factor_recoveries_updated_at
+    BEFORE UPDATE ON public.two_factor_recoveries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The KYC face image is what recovery selfies are compared with, and users may
+-- update their own KYC row. A new face image from the app goes back to review.
+CREATE OR REPLACE FUNCTION public.reset_kyc_status_on_face_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL AND NEW.face_image_url IS DISTINCT FROM OLD.face_image_url THEN
+        NEW.status := 'pending';
+        NEW.reviewed_at := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_kyc_status_on_face_change ON public.kyc;
+CREATE TRIGGER reset_kyc_status_on_face_change
+    BEFORE UPDATE ON public.kyc
+    FOR EACH ROW EXECUTE FUNCTION public.reset_kyc_status_on_face_change();
+
+CREATE OR REPLACE FUNCTION public.notify_user(
+    p_user_id UUID,
+    p_type TEXT,
+    p_title TEXT,
+    p_body TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.notifications (user_id, type, title, body)
+    VALUES (p_user_id, p_type, p_title, p_body);
+END;
+$$;
+
+-- Why withdrawals are blocked for a user, or NULL when they are allowed
+CREATE OR REPLACE FUNCTION public.withdrawal_block_reason(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM public.two_factor_recoveries
+        WHERE user_id = p_user_id
+          AND (status IN ('pending', 'approved') OR (status = 'completed' AND reenrolled_at IS NULL))
+    ) THEN
+        RETURN 'Withdrawals are paused after two-factor recovery. Set up two-factor authentication again to continue';
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_withdrawal_block_reason()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN public.withdrawal_block_reason(auth.uid());
+END;
+$$;
+
+-- The caller's open recovery request, or the latest one if none is open
+CREATE OR REPLACE FUNCTION public.get_two_factor_recovery_status()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    recovery RECORD;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO recovery
+    FROM public.two_factor_recoveries
+    WHERE user_id = auth.uid()
+      AND status <> 'completed'
+    ORDER BY (status IN ('pending', 'approved')) DESC, created_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'id', recovery.id,
+        'status', recovery.status,
+        'requested_at', recovery.created_at,
+        'available_at', recovery.available_at,
+        'reviewer_notes', recovery.reviewer_notes
+    );
+END;
+$$;
+
+-- Open a recovery request. Needs a session re-established with an email code
+-- within step_up_email_otp_minutes and a selfie uploaded to the user's own
+-- kyc-documents folder.
+CREATE OR REPLACE FUNCTION public.start_two_factor_recovery(p_selfie_url TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    config RECORD;
+    kyc_record RECORD;
+    recovery_available_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.user_profile
+        WHERE uid = auth.uid() AND two_factor_enabled = TRUE
+    ) THEN
+        RAISE EXCEPTION 'Two-factor authentication is not enabled';
+    END IF;
+
+    SELECT * INTO config FROM public.security_config WHERE id = 1;
+
+    IF NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(COALESCE(auth.jwt() -> 'amr', '[]'::jsonb)) AS amr
+        WHERE amr ->> 'method' = 'otp'
+          AND to_timestamp((amr ->> 'timestamp')::BIGINT) > NOW() - make_interval(mins => config.step_up_email_otp_minutes)
+    ) THEN
+        RAISE EXCEPTION 'Email verification expired. Request a new code';
+    END IF;
+
+    SELECT status, face_image_url INTO kyc_record
+    FROM public.kyc
+    WHERE uid = auth.uid();
+
+    IF kyc_record.status IS DISTINCT FROM 'verified' OR kyc_record.face_image_url IS NULL THEN
+        RAISE EXCEPTION 'Recovery needs a verified identity. Please contact support';
+    END IF;
+
+    IF p_selfie_url IS NULL OR position('/kyc-documents/' || auth.uid()::TEXT || '/' IN p_selfie_url) = 0 THEN
+        RAISE EXCEPTION 'Invalid selfie';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.two_factor_recoveries
+        WHERE user_id = auth.uid() AND status IN ('pending', 'approved')
+    ) THEN
+        RAISE EXCEPTION 'A recovery request is already in progress';
+    END IF;
+
+    recovery_available_at := NOW() + make_interval(hours => config.two_factor_recovery_wait_hours);
+
+    INSERT INTO public.two_factor_recoveries (user_id, selfie_url, kyc_face_image_url, available_at)
+    VALUES (auth.uid(), p_selfie_url, kyc_record.face_image_url, recovery_available_at);
+
+    PERFORM public.notify_user(
+        auth.uid(),
+        'two_factor_recovery_requested',
+        'Two-factor recovery requested',
+        'Someone asked to turn off two-factor authentication on your account. It can take effect after '
+            || to_char(recovery_available_at AT TIME ZONE 'UTC', 'DD Mon YYYY HH24:MI') || ' UTC. '
+            || 'Withdrawals are paused until then. If this was not you, cancel the request in the app and change your password.'
+    );
+
+    RETURN jsonb_build_object('status', 'pending', 'available_at', recovery_available_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_two_factor_recovery()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    UPDATE public.two_factor_recoveries
+    SET status = 'cancelled'
+    WHERE user_id = auth.uid()
+      AND status IN ('pending', 'approved');
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    PERFORM public.notify_user(
+        auth.uid(),
+        'two_factor_recovery_cancelled',
+        'Two-factor recovery cancelled',
+        'The request to turn off two-factor authentication was cancelled. Your authenticator app is still required to sign in.'
+    );
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Called by support after comparing the selfie with the KYC face image
+CREATE OR REPLACE FUNCTION public.review_two_factor_recovery(
+    p_recovery_id UUID,
+    p_approved BOOLEAN,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    recovery_user_id UUID;
+BEGIN
+    UPDATE public.two_factor_recoveries
+    SET status = CASE WHEN p_approved THEN 'approved' ELSE 'rejected' END,
+        reviewed_at = NOW(),
+        reviewer_notes = p_notes
+    WHERE id = p_recovery_id
+      AND status = 'pending'
+    RETURNING user_id INTO recovery_user_id;
+
+    IF recovery_user_id IS NULL THEN
+        RAISE EXCEPTION 'Recovery request not found or already reviewed';
+    END IF;
+
+    IF NOT p_approved THEN
+        PERFORM public.notify_user(
+            recovery_user_id,
+            'two_factor_recovery_rejected',
+            'Two-factor recovery declined',
+            'We could not match your selfie with your verified identity, so two-factor authentication stays on. Please contact support.'
+        );
+    END IF;
+END;
+$$;
+
+-- Turn off 2FA once the request is approved and the wait is over
+CREATE OR REPLACE FUNCTION public.complete_two_factor_recovery()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    recovery RECORD;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO recovery
+    FROM public.two_factor_recoveries
+    WHERE user_id = auth.uid()
+      AND status IN ('pending', 'approved')
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No recovery request in progress';
+    END IF;
+
+    IF recovery.status <> 'approved' THEN
+        RAISE EXCEPTION 'Your selfie is still being reviewed';
+    END IF;
+
+    IF recovery.available_at > NOW() THEN
+        RAISE EXCEPTION 'Recovery is available after %', to_char(recovery.available_at AT TIME ZONE 'UTC', 'DD Mon YYYY HH24:MI "UTC"');
+    END IF;
+
+    UPDATE public.user_profile
+    SET two_factor_enabled = FALSE,
+        two_factor_secret = NULL
+    WHERE uid = auth.uid();
+
+    DELETE FROM public.two_factor_backup_codes WHERE user_id = auth.uid();
+
+    UPDATE public.two_factor_recoveries
+    SET status = 'completed',
+        completed_at = NOW()
+    WHERE id = recovery.id;
+
+    PERFORM public.notify_user(
+        auth.uid(),
+        'two_factor_recovery_completed',
+        'Two-factor authentication turned off',
+        'Two-factor authentication was turned off through account recovery. Set it up again to resume withdrawals.'
+    );
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Enabling 2FA now checks the caller and lifts a recovery withdrawal freeze
+CREATE OR REPLACE FUNCTION enable_2fa(user_id UUID, secret TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL OR auth.uid() <> enable_2fa.user_id THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    UPDATE public.user_profile
+    SET two_factor_enabled = TRUE,
+        two_factor_secret = enable_2fa.secret
+    WHERE uid = enable_2fa.user_id;
+
+    UPDATE public.two_factor_recoveries
+    SET reenrolled_at = NOW()
+    WHERE two_factor_recoveries.user_id = enable_2fa.user_id
+      AND status = 'completed'
+      AND reenrolled_at IS NULL;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Withdrawals also respect withdrawal_block_reason
+CREATE OR REPLACE FUNCTION public.process_pkr_withdrawal(
+    user_id uuid,
+    withdrawal_amount decimal(15,2),
+    step_up_token text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    current_balance decimal(15,2);
+    block_reason TEXT;
+BEGIN
+    IF auth.uid() IS NULL OR auth.uid() <> process_pkr_withdrawal.user_id THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    block_reason := public.withdrawal_block_reason(process_pkr_withdrawal.user_id);
+    IF block_reason IS NOT NULL THEN
+        RAISE EXCEPTION '%', block_reason;
+    END IF;
+
+    PERFORM public.consume_step_up_token(process_pkr_withdrawal.user_id, 'withdraw_pkr', step_up_token);
+
+    SELECT pkr_balance
+    INTO current_balance
+    FROM public.wallets
+    WHERE uid = process_pkr_withdrawal.user_id
+    FOR UPDATE;
+
+    IF current_balance IS NULL OR current_balance < withdrawal_amount THEN
+        RETURN false;
+    END IF;
+
+    UPDATE public.wallets
+    SET
+        pkr_balance = pkr_balance - withdrawal_amount,
+        pkr_locked = pkr_locked + withdrawal_amount,
+        updated_at = NOW()
+    WHERE uid = process_pkr_withdrawal.user_id;
+
+    RETURN true;
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION public.notify_user(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.withdrawal_block_reason(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.review_two_factor_recovery(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.review_two_factor_recovery(UUID, BOOLEAN, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_withdrawal_block_reason() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_two_factor_recovery_status() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_two_factor_recovery(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_two_factor_recovery() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_two_factor_recovery() TO authenticated;
+GRANT EXECUTE ON FUNCTION enable_2fa(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.process_pkr_withdrawal(UUID, DECIMAL, TEXT) TO authenticated;
@@ -0,0 +1,172 @@
+-- Self-service account closure
+-- close_account refuses while the wallet holds or has locked funds, or while
+-- a deposit or withdrawal is still open. Otherwise, after a close_account
+-- step-up, it:
+--   * marks the profile closed and locked, and deactivates the wallet and
+--     bank accounts
+--   * bans the auth user, so no new session can be created, and deletes the
+--     existing sessions
+--   * revokes every device and biometric credential
+--
+-- Nothing is deleted. Every table hangs off auth.users with ON DELETE CASCADE,
+-- so removing the auth user would also remove the KYC and transaction records
+-- that must be retained. retain_until records how long that is
+-- (security_config.closed_account_retention_years); a purge job may remove
+-- the account after that date.
+
+ALTER TABLE public.user_profile
+ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS retain_until TIMESTAMP WITH TIME ZONE;
+
+GRANT SELECT (closed_at) ON public.user_profile TO authenticated;
+
+ALTER TABLE public.security_config
+ADD COLUMN IF NOT EXISTS closed_account_retention_years INTEGER NOT NULL DEFAULT 10;
+
+-- Closing the account needs the same factors as changing the password
+INSERT INTO public.step_up_action_requirements (action, requirements) VALUES
+    ('close_account', ARRAY['password', 'second_factor'])
+ON CONFLICT (action) DO UPDATE
+SET requirements = EXCLUDED.requirements,
+    updated_at = NOW();
+
+-- Everything that stops the account from being closed right now
+CREATE OR REPLACE FUNCTION public.account_closure_blockers(p_user_id UUID)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    wallet RECORD;
+    blockers TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+    SELECT pkr_balance, usdt_balance, pkr_locked, usdt_locked
+    INTO wallet
+    FROM public.wallets
+    WHERE uid = p_user_id;
+
+    IF COALESCE(wallet.pkr_balance, 0) <> 0 OR COALESCE(wallet.usdt_balance, 0) <> 0 THEN
+        blockers := blockers || 'Withdraw or transfer your remaining balance';
+    END IF;
+
+    IF COALESCE(wallet.pkr_locked, 0) <> 0 OR COALESCE(wallet.usdt_locked, 0) <> 0 THEN
+        blockers := blockers || 'Some of your funds are locked in an open transaction';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.pkr_deposits
+        WHERE user_id = p_user_id AND status = 'pending'
+    ) THEN
+        blockers := blockers || 'Wait for your pending deposits to be reviewed';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.pkr_withdrawals
+        WHERE user_id = p_user_id AND status IN ('pending', 'processing')
+    ) THEN
+        blockers := blockers || 'Wait for your pending withdrawals to complete';
+    END IF;
+
+    RETURN blockers;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_account_closure_blockers()
+RETURNS TEXT[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN public.account_closure_blockers(auth.uid());
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_account(p_step_up_token TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    blockers TEXT[];
+    retention_years INTEGER;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Hold the wallet so no deposit or withdrawal lands while closing
+    PERFORM 1 FROM public.wallets WHERE uid = auth.uid() FOR UPDATE;
+
+    blockers := public.account_closure_blockers(auth.uid());
+    IF array_length(blockers, 1) > 0 THEN
+        RAISE EXCEPTION 'Your account cannot be closed yet: %', array_to_string(blockers, '; ');
+    END IF;
+
+    PERFORM public.consume_step_up_token(auth.uid(), 'close_account', p_step_up_token);
+
+    SELECT closed_account_retention_years INTO retention_years
+    FROM public.security_config
+    WHERE id = 1;
+
+    UPDATE public.user_profile
+    SET closed_at = NOW(),
+        retain_until = NOW() + make_interval(years => retention_years),
+        is_locked = TRUE,
+        locked_at = NOW(),
+        lock_reason = 'This account has been closed'
+    WHERE uid = auth.uid();
+
+    UPDATE public.wallets
+    SET is_active = FALSE
+    WHERE uid = auth.uid();
+
+    UPDATE public.user_bank_accounts
+    SET is_active = FALSE
+    WHERE user_id = auth.uid();
+
+    UPDATE public.user_devices
+    SET revoked_at = NOW()
+    WHERE user_id = auth.uid()
+      AND revoked_at IS NULL;
+
+    UPDATE public.biometric_credentials
+    SET revoked_at = NOW()
+    WHERE user_id = auth.uid()
+      AND revoked_at IS NULL;
+
+    PERFORM public.log_security_event(auth.uid(), 'account_closed', '{}'::jsonb);
+
+    PERFORM public.notify_user(
+        auth.uid(),
+        'account_closed',
+        'Your account has been closed',
+        'Your CoinSensei account was closed at your request. We keep your identity and transaction records for the period the law requires. If you did not close your account, contact support right away.'
+    );
+
+    -- Banned users cannot sign in or refresh; deleting the sessions
+    -- (including this one) invalidates their refresh tokens
+    UPDATE auth.users
+    SET banned_until = 'infinity',
+        updated_at = NOW()
+    WHERE id = auth.uid();
+
+    DELETE FROM auth.sessions
+    WHERE user_id = auth.uid();
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION public.account_closure_blockers(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_account_closure_blockers() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.close_account(TEXT) TO authenticated;
@@ -0,0 +1,300 @@
+-- Hashed one-time backup codes
+-- Backup codes used to sit in plaintext in user_profile.backup_codes, where the
+-- app (and anyone with the session) could read them back. They now live in a
+-- table clients cannot read, as bcrypt hashes only. Each code is marked used by
+-- a single UPDATE so two concurrent sign-ins cannot both spend it. The plaintext
+-- is returned once, from the function that generated it.
+
+CREATE TABLE IF NOT EXISTS public.two_factor_backup_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_two_factor_backup_codes_user_id
+    ON public.two_factor_backup_codes(user_id);
+
+-- No policies: only the SECURITY DEFINER functions below touch this table
+ALTER TABLE public.two_factor_backup_codes ENABLE ROW LEVEL SECURITY;
+
+-- Move any existing codes over as hashes, then drop the plaintext column
+INSERT INTO public.two_factor_backup_codes (user_id, code_hash)
+SELECT p.uid, extensions.crypt(code, extensions.gen_salt('bf'))
+FROM public.user_profile p, unnest(p.backup_codes) AS code
+WHERE p.backup_codes IS NOT NULL;
+
+ALTER TABLE public.user_profile DROP COLUMN IF EXISTS backup_codes;
+
+-- Replace the user's codes with a fresh set of 8 and return them in plaintext.
+-- Internal: callers decide whether the user may do this.
+CREATE OR REPLACE FUNCTION public.replace_backup_codes(p_user_id UUID)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    codes TEXT[] := ARRAY[]::TEXT[];
+    code TEXT;
+    i INTEGER;
+BEGIN
+    DELETE FROM public.two_factor_backup_codes WHERE user_id = p_user_id;
+
+    FOR i IN 1..8 LOOP
+        -- 8 digits from a CSPRNG rather than random()
+        code := lpad(((('x' || encode(gen_random_bytes(4), 'hex'))::BIT(32)::BIGINT) % 100000000)::TEXT, 8, '0');
+        codes := array_append(codes, code);
+
+        INSERT INTO public.two_factor_backup_codes (user_id, code_hash)
+        VALUES (p_user_id, crypt(code, gen_salt('bf')));
+    END LOOP;
+
+    RETURN codes;
+END;
+$$;
+
+-- Spend a backup code. Returns TRUE only for the one caller that marks it used.
+CREATE OR REPLACE FUNCTION public.consume_backup_code(p_user_id UUID, p_code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+    IF p_code IS NULL OR p_code !~ '^[0-9]{8}$' THEN
+        RETURN FALSE;
+    END IF;
+
+    -- used_at is re-checked after any concurrent update, so only one wins
+    UPDATE public.two_factor_backup_codes
+    SET used_at = NOW()
+    WHERE id = (
+        SELECT id
+        FROM public.two_factor_backup_codes
+        WHERE user_id = p_user_id
+          AND used_at IS NULL
+          AND code_hash = crypt(p_code, code_hash)
+        LIMIT 1
+    )
+    AND used_at IS NULL;
+
+    RETURN FOUND;
+END;
+$$;
+
+-- Codes for 2FA setup, before two-factor is turned on. Once it is on, new codes
+-- need an authenticator code (regenerate_backup_codes).
+CREATE OR REPLACE FUNCTION generate_backup_codes(user_id UUID)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL OR auth.uid() <> generate_backup_codes.user_id THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.user_profile
+        WHERE uid = generate_backup_codes.user_id AND two_factor_enabled = TRUE
+    ) THEN
+        RAISE EXCEPTION 'Two-factor authentication is already on. Confirm with your authenticator code to get new backup codes';
+    END IF;
+
+    RETURN public.replace_backup_codes(generate_backup_codes.user_id);
+END;
+$$;
+
+-- Replace all backup codes after checking a current authenticator code.
+-- Backup codes are not accepted here. Returns NULL for a wrong code; the
+-- failure is counted, so this must not raise afterwards.
+CREATE OR REPLACE FUNCTION public.regenerate_backup_codes(p_otp TEXT)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    profile RECORD;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT two_factor_enabled, is_locked, failed_login_attempts, last_failed_login_at
+    INTO profile
+    FROM public.user_profile
+    WHERE uid = auth.uid();
+
+    IF NOT COALESCE(profile.two_factor_enabled, FALSE) THEN
+        RAISE EXCEPTION 'Two-factor authentication is not enabled';
+    END IF;
+
+    IF COALESCE(profile.is_locked, FALSE)
+       OR public.login_retry_after(profile.failed_login_attempts, profile.last_failed_login_at) > 0 THEN
+        RETURN NULL;
+    END IF;
+
+    IF p_otp IS NULL OR p_otp !~ '^[0-9]{6}$' OR NOT public.verify_totp(auth.uid(), p_otp) THEN
+        PERFORM public.register_login_failure(auth.uid(), 'two-factor code');
+        RETURN NULL;
+    END IF;
+
+    RETURN public.replace_backup_codes(auth.uid());
+END;
+$$;
+
+-- How many unused backup codes the current user has left
+CREATE OR REPLACE FUNCTION public.get_backup_code_count()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COUNT(*)::INTEGER
+    FROM public.two_factor_backup_codes
+    WHERE user_id = auth.uid()
+      AND used_at IS NULL;
+$$;
+
+-- Verify OTP: same rules as before, with backup codes checked against hashes
+CREATE OR REPLACE FUNCTION verify_otp(user_id UUID, otp TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    profile RECORD;
+    verified BOOLEAN := FALSE;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM user_id THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT is_locked, failed_login_attempts, last_failed_login_at
+    INTO profile
+    FROM user_profile
+    WHERE uid = user_id;
+
+    IF COALESCE(profile.is_locked, FALSE)
+       OR public.login_retry_after(profile.failed_login_attempts, profile.last_failed_login_at) > 0 THEN
+        RETURN FALSE;
+    END IF;
+
+    -- Authenticator codes are 6 digits, backup codes 8
+    IF length(otp) = 8 THEN
+        verified := public.consume_backup_code(user_id, otp);
+    ELSE
+        verified := verify_totp(user_id, otp);
+    END IF;
+
+    IF NOT verified THEN
+        PERFORM public.register_login_failure(user_id, 'two-factor code');
+    END IF;
+
+    RETURN verified;
+END;
+$$;
+
+-- Unlock with an authenticator or backup code, now checked against hashes
+CREATE OR REPLACE FUNCTION public.unlock_account(otp TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    profile RECORD;
+    wait_seconds INTEGER;
+    verified BOOLEAN := FALSE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT is_locked, two_factor_enabled, failed_login_attempts, last_failed_login_at
+    INTO profile
+    FROM public.user_profile
+    WHERE uid = auth.uid()
+    FOR UPDATE;
+
+    IF NOT COALESCE(profile.is_locked, FALSE) THEN
+        RETURN TRUE;
+    END IF;
+
+    IF COALESCE(profile.two_factor_enabled, FALSE) THEN
+        wait_seconds := public.login_retry_after(profile.failed_login_attempts, profile.last_failed_login_at);
+        IF wait_seconds > 0 THEN
+            RAISE EXCEPTION 'Too many failed attempts. Try again in % seconds', wait_seconds;
+        END IF;
+
+        IF otp IS NOT NULL AND length(otp) = 8 THEN
+            verified := public.consume_backup_code(auth.uid(), otp);
+        ELSIF otp IS NOT NULL THEN
+            verified := public.verify_totp(auth.uid(), otp);
+        END IF;
+
+        IF NOT verified THEN
+            UPDATE public.user_profile
+            SET failed_login_attempts = COALESCE(failed_login_attempts, 0) + 1,
+                last_failed_login_at = NOW()
+            WHERE uid = auth.uid();
+            RETURN FALSE;
+        END IF;
+    END IF;
+
+    UPDATE public.user_profile
+    SET is_locked = FALSE,
+        locked_at = NULL,
+        lock_reason = NULL,
+        failed_login_attempts = 0,
+        last_failed_login_at = NULL
+    WHERE uid = auth.uid();
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Disabling 2FA also discards the backup codes
+CREATE OR REPLACE FUNCTION public.disable_2fa(
+    user_id UUID,
+    step_up_token TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL OR auth.uid() <> disable_2fa.user_id THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    PERFORM public.consume_step_up_token(disable_2fa.user_id, 'disable_2fa', step_up_token);
+
+    UPDATE public.user_profile
+    SET two_factor_enabled = FALSE,
+        two_factor_secret = NULL
+    WHERE uid = disable_2fa.user_id;
+
+    DELETE FROM public.two_factor_backup_codes
+    WHERE two_factor_backup_codes.user_id = disable_2fa.user_id;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION public.replace_backup_codes(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_backup_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION generate_backup_codes(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.regenerate_backup_codes(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_backup_code_count() TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_otp(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unlock_account(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.disable_2fa(UUID, TEXT) TO authenticated;
@@ -0,0 +1,167 @@
+-- Per-device biometric credentials
+-- Instead of keeping the user's password on the device, biometric login unlocks a
+-- random device secret. Only its SHA-256 hash is stored here; the
+-- biometric-sign-in edge function exchanges a valid secret for a session.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS public.biometric_credentials (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    device_id TEXT NOT NULL,
+    device_name TEXT,
+    credential_hash TEXT NOT NULL,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, device_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.biometric_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Users can see which devices have biometric login, but never write directly
+CREATE POLICY "Users can view their own biometric credentials" ON public.biometric_credentials
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_biometric_credentials_user_id ON public.biometric_credentials(user_id);
+
+-- Register (or replace) the biometric credential for the calling user's device
+CREATE OR REPLACE FUNCTION public.register_biometric_credential(
+    p_device_id TEXT,
+    p_credential_hash TEXT,
+    p_device_name TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF p_credential_hash !~ '^[0-9a-f]{64}$' THEN
+        RAISE EXCEPTION 'Invalid credential hash';
+    END IF;
+
+    INSERT INTO public.biometric_credentials (user_id, device_id, device_name, credential_hash)
+    VALUES (auth.uid(), p_device_id, p_device_name, p_credential_hash)
+    ON CONFLICT (user_id, device_id) DO UPDATE
+    SET credential_hash = EXCLUDED.credential_hash,
+        device_name = EXCLUDED.device_name,
+        last_used_at = NULL,
+        revoked_at = NULL,
+        created_at = NOW();
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Revoke the biometric credential for one of the calling user's devices
+CREATE OR REPLACE FUNCTION public.revoke_biometric_credential(p_device_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.biometric_credentials
+    SET revoked_at = NOW()
+    WHERE user_id = auth.uid()
+      AND device_id = p_device_id
+      AND revoked_at IS NULL;
+
+    RETURN FOUND;
+END;
+$$;
+
+-- Exchange a device secret for the account email (service role only).
+-- Called by the biometric-sign-in edge function before it issues a session.
+-- The account an active credential belongs to, without using it, so the
+-- sign-in function can turn locked accounts away first
+CREATE OR REPLACE FUNCTION public.find_biometric_credential_user(
+    p_device_id TEXT,
+    p_credential TEXT
+)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+    SELECT user_id
+    FROM public.biometric_credentials
+    WHERE device_id = p_device_id
+      AND credential_hash = encode(digest(p_credential, 'sha256'), 'hex')
+      AND revoked_at IS NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.consume_biometric_credential(
+    p_device_id TEXT,
+    p_credential TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    credential_record RECORD;
+    account_email TEXT;
+BEGIN
+    SELECT * INTO credential_record
+    FROM public.biometric_credentials
+    WHERE device_id = p_device_id
+      AND credential_hash = encode(digest(p_credential, 'sha256'), 'hex')
+      AND revoked_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE public.biometric_credentials
+    SET last_used_at = NOW()
+    WHERE id = credential_record.id;
+
+    SELECT email INTO account_email
+    FROM auth.users
+    WHERE id = credential_record.user_id;
+
+    RETURN account_email;
+END;
+$$;
+
+-- Revoke every biometric credential when the password changes
+CREATE OR REPLACE FUNCTION public.revoke_biometric_on_password_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.encrypted_password IS DISTINCT FROM OLD.encrypted_password THEN
+        UPDATE public.biometric_credentials
+        SET revoked_at = NOW()
+        WHERE user_id = NEW.id
+          AND revoked_at IS NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS revoke_biometric_on_password_change ON auth.users;
+CREATE TRIGGER revoke_biometric_on_password_change
+    AFTER UPDATE OF encrypted_password ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.revoke_biometric_on_password_change();
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.register_biometric_credential(TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_biometric_credential(TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.find_biometric_credential_user(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_biometric_credential_user(TEXT, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.consume_biometric_credential(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_biometric_credential(TEXT, TEXT) TO service_role;
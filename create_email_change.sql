@@ -0,0 +1,213 @@
+-- Email address change with double confirmation
+-- The app asks for a change_email step-up, then calls begin_email_change,
+-- which records the request. Only then does the auth server accept
+-- supabase.auth.updateUser({ email }) for that address: the trigger below
+-- rejects email changes that were not started here. With "Secure email change"
+-- on, the auth server emails a code to both the old and the new address and
+-- switches the email only once both codes are verified.
+--
+-- When the email changes the request is closed, user_profile.email follows,
+-- the change is written to the security history and withdrawals are paused for
+-- security_config.email_change_withdrawal_hold_hours (24 by default).
+--
+-- NOTE: turn on Authentication -> Providers -> Email -> "Secure email change",
+-- and include {{ .Token }} in the "Change Email Address" email template so both
+-- messages carry a code.
+
+ALTER TABLE public.security_config
+ADD COLUMN IF NOT EXISTS email_change_withdrawal_hold_hours INTEGER NOT NULL DEFAULT 24,
+ADD COLUMN IF NOT EXISTS email_change_request_minutes INTEGER NOT NULL DEFAULT 60;
+
+CREATE TABLE IF NOT EXISTS public.email_change_requests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    old_email TEXT NOT NULL,
+    new_email TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'completed', 'cancelled')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    applied_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_change_requests_user_id ON public.email_change_requests(user_id);
+
+-- No policies: only the SECURITY DEFINER functions below touch this table
+ALTER TABLE public.email_change_requests ENABLE ROW LEVEL SECURITY;
+
+-- change_email needs the same factors as change_password
+INSERT INTO public.step_up_action_requirements (action, requirements) VALUES
+    ('change_email', ARRAY['password', 'second_factor'])
+ON CONFLICT (action) DO UPDATE
+SET requirements = EXCLUDED.requirements,
+    updated_at = NOW();
+
+-- Allow the auth server to start a change to p_new_email
+CREATE OR REPLACE FUNCTION public.begin_email_change(
+    p_new_email TEXT,
+    p_step_up_token TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    current_email TEXT;
+    new_email TEXT := lower(trim(COALESCE(p_new_email, '')));
+    request_minutes INTEGER;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF new_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+        RAISE EXCEPTION 'Please enter a valid email address';
+    END IF;
+
+    SELECT email INTO current_email
+    FROM auth.users
+    WHERE id = auth.uid();
+
+    IF lower(current_email) = new_email THEN
+        RAISE EXCEPTION 'That is already your email address';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM auth.users WHERE lower(email) = new_email) THEN
+        RAISE EXCEPTION 'That email address is already in use';
+    END IF;
+
+    PERFORM public.consume_step_up_token(auth.uid(), 'change_email', p_step_up_token);
+
+    SELECT email_change_request_minutes INTO request_minutes
+    FROM public.security_config
+    WHERE id = 1;
+
+    UPDATE public.email_change_requests
+    SET status = 'cancelled'
+    WHERE user_id = auth.uid()
+      AND status = 'pending';
+
+    INSERT INTO public.email_change_requests (user_id, old_email, new_email, expires_at)
+    VALUES (auth.uid(), current_email, new_email, NOW() + make_interval(mins => request_minutes));
+
+    PERFORM public.log_security_event(auth.uid(), 'email_change_requested', jsonb_build_object('new_email', new_email));
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Reject email changes that did not go through begin_email_change
+CREATE OR REPLACE FUNCTION public.require_email_change_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF COALESCE(NEW.email_change, '') <> ''
+       AND NEW.email_change IS DISTINCT FROM OLD.email_change
+       AND NOT EXISTS (
+           SELECT 1 FROM public.email_change_requests
+           WHERE user_id = NEW.id
+             AND status = 'pending'
+             AND new_email = lower(NEW.email_change)
+             AND expires_at > NOW()
+       ) THEN
+        RAISE EXCEPTION 'Email changes must be confirmed in the app first';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS require_email_change_request ON auth.users;
+CREATE TRIGGER require_email_change_request
+    BEFORE UPDATE OF email_change ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.require_email_change_request();
+
+-- Both codes verified: close the request and record the change
+CREATE OR REPLACE FUNCTION public.log_email_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.email IS DISTINCT FROM OLD.email THEN
+        UPDATE public.email_change_requests
+        SET status = 'completed',
+            applied_at = NOW()
+        WHERE user_id = NEW.id
+          AND status = 'pending'
+          AND new_email = lower(NEW.email);
+
+        UPDATE public.user_profile
+        SET email = NEW.email
+        WHERE uid = NEW.id;
+
+        PERFORM public.log_security_event(
+            NEW.id,
+            'email_changed',
+            jsonb_build_object('old_email', OLD.email, 'new_email', NEW.email)
+        );
+
+        PERFORM public.notify_user(
+            NEW.id,
+            'email_changed',
+            'Your email address was changed',
+            'The email address on your account is now ' || NEW.email || '. '
+                || 'Withdrawals are paused for 24 hours. If you did not make this change, contact support right away.'
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_email_change ON auth.users;
+CREATE TRIGGER log_email_change
+    AFTER UPDATE OF email ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.log_email_change();
+
+-- Withdrawals also wait out the hold after an email change
+CREATE OR REPLACE FUNCTION public.withdrawal_block_reason(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    hold_hours INTEGER;
+    hold_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM public.two_factor_recoveries
+        WHERE user_id = p_user_id
+          AND (status IN ('pending', 'approved') OR (status = 'completed' AND reenrolled_at IS NULL))
+    ) THEN
+        RETURN 'Withdrawals are paused after two-factor recovery. Set up two-factor authentication again to continue';
+    END IF;
+
+    SELECT email_change_withdrawal_hold_hours INTO hold_hours
+    FROM public.security_config
+    WHERE id = 1;
+
+    SELECT MAX(applied_at) + make_interval(hours => hold_hours) INTO hold_until
+    FROM public.email_change_requests
+    WHERE user_id = p_user_id
+      AND status = 'completed';
+
+    IF hold_until > NOW() THEN
+        RETURN 'Withdrawals are paused after an email change until '
+            || to_char(hold_until AT TIME ZONE 'UTC', 'DD Mon YYYY HH24:MI "UTC"');
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION public.withdrawal_block_reason(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.begin_email_change(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,302 @@
+-- Internal PKR transfers
+-- Users can send PKR to another user's wallet address (PKR-XXXX-XXXX-XXXX).
+-- Before sending, lookup_pkr_recipient shows a masked name ("A*** K***") so
+-- the sender can check the address without revealing who owns it.
+--
+-- transfer_pkr_internal, after a send_pkr step-up, creates the pkr_transfers
+-- row and moves the amount from the sender's available balance to the
+-- recipient's in one ledger journal, so both sides change together or not
+-- at all. Like request_pkr_withdrawal it takes an idempotency key, and it is
+-- held back by the same withdrawal pauses (2FA recovery, email change),
+-- since it also moves money out of the account.
+
+ALTER TABLE public.security_config
+ADD COLUMN IF NOT EXISTS pkr_transfer_max_amount DECIMAL(20,2) NOT NULL DEFAULT 500000,
+ADD COLUMN IF NOT EXISTS pkr_transfer_daily_limit DECIMAL(20,2) NOT NULL DEFAULT 1000000;
+
+CREATE TABLE IF NOT EXISTS public.pkr_transfers (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    sender_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    recipient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    amount DECIMAL(20,2) NOT NULL CHECK (amount > 0),
+    note TEXT CHECK (char_length(note) <= 140),
+    idempotency_key UUID NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (sender_id <> recipient_id)
+);
+
+ALTER TABLE public.pkr_transfers ENABLE ROW LEVEL SECURITY;
+
+-- Both sides can see a transfer; rows are only written by transfer_pkr_internal
+DROP POLICY IF EXISTS "Users can view their own transfers" ON public.pkr_transfers;
+CREATE POLICY "Users can view their own transfers" ON public.pkr_transfers
+    FOR SELECT USING (auth.uid() = sender_id OR auth.uid() = recipient_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pkr_transfers_idempotency_key
+    ON public.pkr_transfers(sender_id, idempotency_key);
+CREATE INDEX IF NOT EXISTS idx_pkr_transfers_sender_created
+    ON public.pkr_transfers(sender_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pkr_transfers_recipient_created
+    ON public.pkr_transfers(recipient_id, created_at DESC);
+
+-- Recipients hear about incoming transfers as they happen
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+          AND schemaname = 'public'
+          AND tablename = 'pkr_transfers'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.pkr_transfers;
+    END IF;
+END;
+$$;
+
+-- Sending PKR needs the same factors as a withdrawal
+INSERT INTO public.step_up_action_requirements (action, requirements) VALUES
+    ('send_pkr', ARRAY['transaction_pin', 'second_factor'])
+ON CONFLICT (action) DO UPDATE
+SET requirements = EXCLUDED.requirements,
+    updated_at = NOW();
+
+-- First letter of each name, e.g. "Ahmed Ali Khan" -> "A*** A*** K***"
+CREATE OR REPLACE FUNCTION public.mask_full_name(p_full_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT COALESCE(string_agg(upper(left(word, 1)) || '***', ' '), '***')
+    FROM regexp_split_to_table(trim(COALESCE(p_full_name, '')), '\s+') AS word
+    WHERE word <> '';
+$$;
+
+-- The active wallet behind an address, if any
+CREATE OR REPLACE FUNCTION public.find_pkr_recipient(p_address TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    recipient_id UUID;
+BEGIN
+    SELECT w.uid INTO recipient_id
+    FROM public.wallets w
+    JOIN public.user_profile p ON p.uid = w.uid
+    WHERE w.pkr_wallet_address = upper(trim(p_address))
+      AND w.is_active = TRUE
+      AND p.closed_at IS NULL;
+
+    IF recipient_id IS NULL THEN
+        RAISE EXCEPTION 'No active wallet has this address';
+    END IF;
+
+    IF recipient_id = auth.uid() THEN
+        RAISE EXCEPTION 'This is your own wallet address';
+    END IF;
+
+    RETURN recipient_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.lookup_pkr_recipient(p_address TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    recipient_name TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT full_name INTO recipient_name
+    FROM public.user_profile
+    WHERE uid = public.find_pkr_recipient(p_address);
+
+    RETURN public.mask_full_name(recipient_name);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.transfer_pkr_internal(
+    p_recipient_address TEXT,
+    p_amount DECIMAL,
+    p_note TEXT,
+    p_idempotency_key UUID,
+    p_step_up_token TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    recipient UUID;
+    existing RECORD;
+    config RECORD;
+    block_reason TEXT;
+    available DECIMAL(20,2);
+    sent_today DECIMAL(20,2);
+    note TEXT := NULLIF(trim(p_note), '');
+    sender_name TEXT;
+    new_transfer_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF p_idempotency_key IS NULL THEN
+        RAISE EXCEPTION 'Missing idempotency key';
+    END IF;
+
+    -- Retries with the same key wait for each other, so one of them sees the
+    -- transfer the other made
+    PERFORM pg_advisory_xact_lock(hashtextextended(auth.uid()::TEXT || p_idempotency_key::TEXT, 0));
+
+    -- A retry gets the transfer it already made, even if the recipient's
+    -- wallet has since been closed
+    SELECT t.id, t.amount, w.pkr_wallet_address INTO existing
+    FROM public.pkr_transfers t
+    JOIN public.wallets w ON w.uid = t.recipient_id
+    WHERE t.sender_id = auth.uid()
+      AND t.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+        IF existing.pkr_wallet_address IS DISTINCT FROM upper(trim(p_recipient_address))
+           OR existing.amount IS DISTINCT FROM p_amount THEN
+            RAISE EXCEPTION 'This request was already used for a different transfer';
+        END IF;
+        RETURN existing.id;
+    END IF;
+
+    recipient := public.find_pkr_recipient(p_recipient_address);
+
+    -- Both wallets, in a fixed order so opposite transfers can't deadlock
+    PERFORM 1 FROM public.wallets
+    WHERE uid IN (auth.uid(), recipient)
+    ORDER BY uid
+    FOR UPDATE;
+
+    block_reason := public.withdrawal_block_reason(auth.uid());
+    IF block_reason IS NOT NULL THEN
+        RAISE EXCEPTION '%', block_reason;
+    END IF;
+
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Enter an amount to send';
+    END IF;
+
+    IF p_amount <> round(p_amount, 2) THEN
+        RAISE EXCEPTION 'Amounts can have at most two decimal places';
+    END IF;
+
+    IF char_length(note) > 140 THEN
+        RAISE EXCEPTION 'Notes can be at most 140 characters';
+    END IF;
+
+    SELECT pkr_transfer_max_amount, pkr_transfer_daily_limit
+    INTO config
+    FROM public.security_config
+    WHERE id = 1;
+
+    IF p_amount > config.pkr_transfer_max_amount THEN
+        RAISE EXCEPTION 'Maximum transfer amount is Rs. %', config.pkr_transfer_max_amount;
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO sent_today
+    FROM public.pkr_transfers
+    WHERE sender_id = auth.uid()
+      AND created_at > NOW() - INTERVAL '24 hours';
+
+    IF sent_today + p_amount > config.pkr_transfer_daily_limit THEN
+        RAISE EXCEPTION 'This would exceed your daily transfer limit of Rs. % (Rs. % left)',
+            config.pkr_transfer_daily_limit,
+            GREATEST(config.pkr_transfer_daily_limit - sent_today, 0);
+    END IF;
+
+    PERFORM public.consume_step_up_token(auth.uid(), 'send_pkr', p_step_up_token);
+
+    SELECT pkr_balance INTO available
+    FROM public.wallets
+    WHERE uid = auth.uid();
+
+    IF available < p_amount THEN
+        RAISE EXCEPTION 'Insufficient balance';
+    END IF;
+
+    INSERT INTO public.pkr_transfers (sender_id, recipient_id, amount, note, idempotency_key)
+    VALUES (auth.uid(), recipient, p_amount, note, p_idempotency_key)
+    RETURNING id INTO new_transfer_id;
+
+    PERFORM public.post_ledger_movement(
+        'PKR', p_amount,
+        auth.uid(), 'available',
+        recipient, 'available',
+        'transfer', new_transfer_id, 'PKR transfer'
+    );
+
+    SELECT full_name INTO sender_name
+    FROM public.user_profile
+    WHERE uid = auth.uid();
+
+    PERFORM public.notify_user(
+        recipient,
+        'pkr_transfer_received',
+        'You received PKR',
+        format('%s sent you Rs. %s.', public.mask_full_name(sender_name), p_amount)
+    );
+
+    RETURN new_transfer_id;
+END;
+$$;
+
+-- The caller's transfers, newest first, from their side: the other party is
+-- shown by wallet address and masked name
+CREATE OR REPLACE FUNCTION public.get_pkr_transfers()
+RETURNS TABLE (
+    id UUID,
+    direction TEXT,
+    amount DECIMAL,
+    note TEXT,
+    counterparty_address TEXT,
+    counterparty_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        t.id,
+        CASE WHEN t.sender_id = auth.uid() THEN 'sent' ELSE 'received' END,
+        t.amount,
+        t.note,
+        w.pkr_wallet_address,
+        public.mask_full_name(p.full_name),
+        t.created_at
+    FROM public.pkr_transfers t
+    JOIN public.wallets w
+      ON w.uid = CASE WHEN t.sender_id = auth.uid() THEN t.recipient_id ELSE t.sender_id END
+    LEFT JOIN public.user_profile p ON p.uid = w.uid
+    WHERE t.sender_id = auth.uid() OR t.recipient_id = auth.uid()
+    ORDER BY t.created_at DESC;
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION public.find_pkr_recipient(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.lookup_pkr_recipient(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.transfer_pkr_internal(TEXT, DECIMAL, TEXT, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_pkr_transfers() TO authenticated;
@@ -0,0 +1,612 @@
+-- Double-entry ledger
+-- ledger_entries is the source of truth for every balance. Money never
+-- appears or disappears: each movement is a journal of entries that sum to
+-- zero per asset, e.g. a withdrawal lock is -amount on the user's available
+-- account and +amount on their locked account. Entries are never updated or
+-- deleted; a mistake is corrected with a new 'adjustment' journal.
+--
+-- Accounts:
+--   available, locked  the user's spendable and reserved funds (user_id set)
+--   bank               PKR held in our bank accounts (deposits in, payouts out)
+--   blockchain         USDT held on-chain
+--   trading            counterparty for trades
+--   adjustments        opening balances and manual corrections
+--
+-- The balance columns on wallets are a cached projection of the user
+-- accounts, kept in step by a trigger on ledger_entries. Anything else that
+-- tries to change them is rejected. ledger_wallet_mismatches() compares the
+-- two for reconciliation.
+--
+-- Deposits and withdrawals post their own entries when their status changes,
+-- so admin tools only have to set the status:
+--   deposit    -> completed   bank      -> available
+--   withdrawal -> completed   locked    -> bank
+--   withdrawal -> declined    locked    -> available
+-- The lock itself (available -> locked) is posted by process_pkr_withdrawal.
+-- The app inserts the withdrawal row after that call returns, so those locks
+-- don't reference a withdrawal yet.
+
+CREATE TABLE IF NOT EXISTS public.ledger_entries (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    journal_id UUID NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    account TEXT NOT NULL CHECK (account IN ('available', 'locked', 'bank', 'blockchain', 'trading', 'adjustments')),
+    asset TEXT NOT NULL CHECK (asset IN ('PKR', 'USDT')),
+    amount DECIMAL(20,8) NOT NULL CHECK (amount <> 0),
+    source_type TEXT NOT NULL CHECK (source_type IN ('deposit', 'withdrawal', 'transfer', 'trade', 'adjustment')),
+    source_id UUID,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- User accounts belong to a user, system accounts to nobody
+    CONSTRAINT ledger_entries_account_owner
+        CHECK ((account IN ('available', 'locked')) = (user_id IS NOT NULL)),
+    CONSTRAINT ledger_entries_pkr_precision
+        CHECK (asset <> 'PKR' OR amount = round(amount, 2))
+);
+
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own entries; there are no write policies
+DROP POLICY IF EXISTS "Users can view their own ledger entries" ON public.ledger_entries;
+CREATE POLICY "Users can view their own ledger entries" ON public.ledger_entries
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_user_asset
+    ON public.ledger_entries(user_id, asset, id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_journal
+    ON public.ledger_entries(journal_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_source
+    ON public.ledger_entries(source_type, source_id);
+
+-- Append-only
+CREATE OR REPLACE FUNCTION public.prevent_ledger_entry_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    -- Entries go away only with their user: the retention purge deletes the
+    -- auth user and ON DELETE CASCADE reaches here through the foreign key's
+    -- own trigger
+    IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+        RETURN OLD;
+    END IF;
+
+    RAISE EXCEPTION 'Ledger entries are append-only; post an adjustment instead';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_ledger_entry_changes ON public.ledger_entries;
+CREATE TRIGGER prevent_ledger_entry_changes
+    BEFORE UPDATE OR DELETE ON public.ledger_entries
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_ledger_entry_changes();
+
+DROP TRIGGER IF EXISTS prevent_ledger_truncate ON public.ledger_entries;
+CREATE TRIGGER prevent_ledger_truncate
+    BEFORE TRUNCATE ON public.ledger_entries
+    FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_ledger_entry_changes();
+
+-- Every journal sums to zero per asset. Deferred to commit so a journal's
+-- entries can be inserted one at a time.
+CREATE OR REPLACE FUNCTION public.check_ledger_journal_balanced()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF (
+        SELECT SUM(amount)
+        FROM public.ledger_entries
+        WHERE journal_id = NEW.journal_id
+          AND asset = NEW.asset
+    ) <> 0 THEN
+        RAISE EXCEPTION 'Ledger journal % does not balance for %', NEW.journal_id, NEW.asset;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_ledger_journal_balanced ON public.ledger_entries;
+CREATE CONSTRAINT TRIGGER check_ledger_journal_balanced
+    AFTER INSERT ON public.ledger_entries
+    DEFERRABLE INITIALLY DEFERRED
+    FOR EACH ROW EXECUTE FUNCTION public.check_ledger_journal_balanced();
+
+-- Wallet balances as a projection of the ledger
+ALTER TABLE public.wallets
+ALTER COLUMN pkr_locked TYPE DECIMAL(20,2),
+ALTER COLUMN usdt_locked TYPE DECIMAL(20,8);
+
+-- Only the projection below may change balances; it sets this flag while it runs
+CREATE OR REPLACE FUNCTION public.guard_wallet_balances()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF current_setting('coinsensei.ledger_projection', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF COALESCE(NEW.pkr_balance, 0) <> 0 OR COALESCE(NEW.usdt_balance, 0) <> 0
+           OR COALESCE(NEW.pkr_locked, 0) <> 0 OR COALESCE(NEW.usdt_locked, 0) <> 0 THEN
+            RAISE EXCEPTION 'New wallets start empty; fund them through the ledger';
+        END IF;
+    ELSIF (NEW.pkr_balance, NEW.usdt_balance, NEW.pkr_locked, NEW.usdt_locked)
+          IS DISTINCT FROM (OLD.pkr_balance, OLD.usdt_balance, OLD.pkr_locked, OLD.usdt_locked) THEN
+        RAISE EXCEPTION 'Wallet balances are derived from the ledger and cannot be changed directly';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_wallet_balances ON public.wallets;
+CREATE TRIGGER guard_wallet_balances
+    BEFORE INSERT OR UPDATE ON public.wallets
+    FOR EACH ROW EXECUTE FUNCTION public.guard_wallet_balances();
+
+CREATE OR REPLACE FUNCTION public.project_ledger_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    previous_flag TEXT := current_setting('coinsensei.ledger_projection', true);
+BEGIN
+    PERFORM set_config('coinsensei.ledger_projection', 'on', true);
+
+    UPDATE public.wallets
+    SET
+        pkr_balance = pkr_balance + CASE WHEN NEW.asset = 'PKR' AND NEW.account = 'available' THEN NEW.amount ELSE 0 END,
+        pkr_locked = pkr_locked + CASE WHEN NEW.asset = 'PKR' AND NEW.account = 'locked' THEN NEW.amount ELSE 0 END,
+        usdt_balance = usdt_balance + CASE WHEN NEW.asset = 'USDT' AND NEW.account = 'available' THEN NEW.amount ELSE 0 END,
+        usdt_locked = usdt_locked + CASE WHEN NEW.asset = 'USDT' AND NEW.account = 'locked' THEN NEW.amount ELSE 0 END,
+        updated_at = NOW()
+    WHERE uid = NEW.user_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No wallet for user %', NEW.user_id;
+    END IF;
+
+    PERFORM set_config('coinsensei.ledger_projection', COALESCE(previous_flag, 'off'), true);
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS project_ledger_entry ON public.ledger_entries;
+CREATE TRIGGER project_ledger_entry
+    AFTER INSERT ON public.ledger_entries
+    FOR EACH ROW
+    WHEN (NEW.user_id IS NOT NULL)
+    EXECUTE FUNCTION public.project_ledger_entry();
+
+-- Users could previously write their own wallet row, balances included
+DROP POLICY IF EXISTS "Users can update own wallet" ON public.wallets;
+
+-- Move p_amount from one account to another as one balanced journal.
+-- Pass p_journal_id to group several movements (e.g. both legs of a trade).
+-- Callers lock the wallets involved and check balances first; the wallets
+-- CHECK constraints are the backstop against overdrafts.
+CREATE OR REPLACE FUNCTION public.post_ledger_movement(
+    p_asset TEXT,
+    p_amount DECIMAL,
+    p_from_user UUID,
+    p_from_account TEXT,
+    p_to_user UUID,
+    p_to_account TEXT,
+    p_source_type TEXT,
+    p_source_id UUID,
+    p_description TEXT,
+    p_journal_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    journal UUID := COALESCE(p_journal_id, gen_random_uuid());
+BEGIN
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Ledger amounts must be positive';
+    END IF;
+
+    INSERT INTO public.ledger_entries (
+        journal_id, user_id, account, asset, amount, source_type, source_id, description
+    )
+    VALUES
+        (journal, p_from_user, p_from_account, p_asset, -p_amount, p_source_type, p_source_id, p_description),
+        (journal, p_to_user, p_to_account, p_asset, p_amount, p_source_type, p_source_id, p_description);
+
+    RETURN journal;
+END;
+$$;
+
+-- Opening balances for wallets that predate the ledger: zero the projection,
+-- then post what was there so the trigger puts it back
+DO $$
+DECLARE
+    w RECORD;
+BEGIN
+    PERFORM set_config('coinsensei.ledger_projection', 'on', true);
+
+    FOR w IN
+        SELECT uid, pkr_balance, usdt_balance, pkr_locked, usdt_locked
+        FROM public.wallets
+        WHERE NOT EXISTS (
+            SELECT 1 FROM public.ledger_entries WHERE ledger_entries.user_id = wallets.uid
+        )
+        FOR UPDATE
+    LOOP
+        UPDATE public.wallets
+        SET pkr_balance = 0, usdt_balance = 0, pkr_locked = 0, usdt_locked = 0
+        WHERE uid = w.uid;
+
+        IF COALESCE(w.pkr_balance, 0) <> 0 THEN
+            PERFORM public.post_ledger_movement('PKR', w.pkr_balance, NULL, 'adjustments', w.uid, 'available', 'adjustment', NULL, 'Opening balance');
+        END IF;
+        IF COALESCE(w.pkr_locked, 0) <> 0 THEN
+            PERFORM public.post_ledger_movement('PKR', w.pkr_locked, NULL, 'adjustments', w.uid, 'locked', 'adjustment', NULL, 'Opening balance');
+        END IF;
+        IF COALESCE(w.usdt_balance, 0) <> 0 THEN
+            PERFORM public.post_ledger_movement('USDT', w.usdt_balance, NULL, 'adjustments', w.uid, 'available', 'adjustment', NULL, 'Opening balance');
+        END IF;
+        IF COALESCE(w.usdt_locked, 0) <> 0 THEN
+            PERFORM public.post_ledger_movement('USDT', w.usdt_locked, NULL, 'adjustments', w.uid, 'locked', 'adjustment', NULL, 'Opening balance');
+        END IF;
+    END LOOP;
+
+    PERFORM set_config('coinsensei.ledger_projection', 'off', true);
+END;
+$$;
+
+ALTER TABLE public.wallets
+ALTER COLUMN pkr_balance SET NOT NULL,
+ALTER COLUMN usdt_balance SET NOT NULL,
+ALTER COLUMN pkr_locked SET NOT NULL,
+ALTER COLUMN usdt_locked SET NOT NULL;
+
+ALTER TABLE public.wallets
+DROP CONSTRAINT IF EXISTS wallets_balances_non_negative;
+
+ALTER TABLE public.wallets
+ADD CONSTRAINT wallets_balances_non_negative
+CHECK (pkr_balance >= 0 AND usdt_balance >= 0 AND pkr_locked >= 0 AND usdt_locked >= 0);
+
+-- Wallets whose cached balances differ from the ledger (should be none)
+CREATE OR REPLACE FUNCTION public.ledger_wallet_mismatches()
+RETURNS TABLE (
+    uid UUID,
+    asset TEXT,
+    account TEXT,
+    wallet_amount DECIMAL,
+    ledger_amount DECIMAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH ledger AS (
+        SELECT user_id, asset, account, SUM(amount) AS total
+        FROM public.ledger_entries
+        WHERE user_id IS NOT NULL
+        GROUP BY user_id, asset, account
+    ),
+    projected AS (
+        SELECT w.uid, v.asset, v.account, v.amount
+        FROM public.wallets w
+        CROSS JOIN LATERAL (VALUES
+            ('PKR', 'available', w.pkr_balance),
+            ('PKR', 'locked', w.pkr_locked),
+            ('USDT', 'available', w.usdt_balance),
+            ('USDT', 'locked', w.usdt_locked)
+        ) AS v(asset, account, amount)
+    )
+    SELECT p.uid, p.asset, p.account, p.amount, COALESCE(l.total, 0)
+    FROM projected p
+    LEFT JOIN ledger l
+      ON l.user_id = p.uid AND l.asset = p.asset AND l.account = p.account
+    WHERE p.amount <> COALESCE(l.total, 0);
+$$;
+
+-- Deposits are credited when they are marked completed, however that happens
+CREATE OR REPLACE FUNCTION public.post_pkr_deposit_to_ledger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND OLD.status = 'completed' AND NEW.status <> 'completed' THEN
+        RAISE EXCEPTION 'A completed deposit cannot be reopened; correct the balance with an adjustment';
+    END IF;
+
+    IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status <> 'completed') THEN
+        PERFORM public.post_ledger_movement(
+            'PKR', NEW.amount, NULL, 'bank', NEW.user_id, 'available', 'deposit', NEW.id, 'PKR deposit'
+        );
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS post_pkr_deposit_to_ledger ON public.pkr_deposits;
+CREATE TRIGGER post_pkr_deposit_to_ledger
+    AFTER INSERT OR UPDATE OF status ON public.pkr_deposits
+    FOR EACH ROW EXECUTE FUNCTION public.post_pkr_deposit_to_ledger();
+
+-- Withdrawals settle or release their locked funds when they are finished
+CREATE OR REPLACE FUNCTION public.post_pkr_withdrawal_to_ledger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status = OLD.status THEN
+        RETURN NULL;
+    END IF;
+
+    IF OLD.status IN ('completed', 'declined') THEN
+        RAISE EXCEPTION 'A % withdrawal cannot be reopened', OLD.status;
+    END IF;
+
+    IF NEW.status = 'completed' THEN
+        PERFORM public.post_ledger_movement(
+            'PKR', NEW.amount, NEW.user_id, 'locked', NULL, 'bank', 'withdrawal', NEW.id, 'PKR withdrawal paid out'
+        );
+    ELSIF NEW.status = 'declined' THEN
+        PERFORM public.post_ledger_movement(
+            'PKR', NEW.amount, NEW.user_id, 'locked', NEW.user_id, 'available', 'withdrawal', NEW.id, 'PKR withdrawal declined'
+        );
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS post_pkr_withdrawal_to_ledger ON public.pkr_withdrawals;
+CREATE TRIGGER post_pkr_withdrawal_to_ledger
+    AFTER UPDATE OF status ON public.pkr_withdrawals
+    FOR EACH ROW EXECUTE FUNCTION public.post_pkr_withdrawal_to_ledger();
+
+-- With status changes now moving money, users may only create and edit
+-- requests that are still pending
+DROP POLICY IF EXISTS "Users can create deposits" ON public.pkr_deposits;
+CREATE POLICY "Users can create deposits" ON public.pkr_deposits
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid() AND status = 'pending'
+    );
+
+DROP POLICY IF EXISTS "Users can update own pending deposits" ON public.pkr_deposits;
+CREATE POLICY "Users can update own pending deposits" ON public.pkr_deposits
+    FOR UPDATE USING (
+        user_id = auth.uid() AND status = 'pending'
+    ) WITH CHECK (
+        user_id = auth.uid() AND status = 'pending'
+    );
+
+DROP POLICY IF EXISTS "Users can create their own withdrawal requests" ON public.pkr_withdrawals;
+CREATE POLICY "Users can create their own withdrawal requests" ON public.pkr_withdrawals
+    FOR INSERT WITH CHECK (auth.uid() = user_id AND status = 'pending');
+
+DROP POLICY IF EXISTS "Users can update their own pending withdrawals" ON public.pkr_withdrawals;
+CREATE POLICY "Users can update their own pending withdrawals" ON public.pkr_withdrawals
+    FOR UPDATE USING (auth.uid() = user_id AND status = 'pending')
+    WITH CHECK (auth.uid() = user_id AND status = 'pending');
+
+-- Balance-moving functions, rewritten to post to the ledger
+CREATE OR REPLACE FUNCTION public.process_pkr_withdrawal(
+    user_id uuid,
+    withdrawal_amount decimal(15,2),
+    step_up_token text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    current_balance decimal(20,2);
+    block_reason TEXT;
+BEGIN
+    IF auth.uid() IS NULL OR auth.uid() <> process_pkr_withdrawal.user_id THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    block_reason := public.withdrawal_block_reason(process_pkr_withdrawal.user_id);
+    IF block_reason IS NOT NULL THEN
+        RAISE EXCEPTION '%', block_reason;
+    END IF;
+
+    PERFORM public.consume_step_up_token(process_pkr_withdrawal.user_id, 'withdraw_pkr', step_up_token);
+
+    SELECT pkr_balance
+    INTO current_balance
+    FROM public.wallets
+    WHERE uid = process_pkr_withdrawal.user_id
+    FOR UPDATE;
+
+    IF current_balance IS NULL OR withdrawal_amount <= 0 OR current_balance < withdrawal_amount THEN
+        RETURN false;
+    END IF;
+
+    PERFORM public.post_ledger_movement(
+        'PKR', withdrawal_amount,
+        process_pkr_withdrawal.user_id, 'available',
+        process_pkr_withdrawal.user_id, 'locked',
+        'withdrawal', NULL, 'PKR withdrawal requested'
+    );
+
+    RETURN true;
+END;
+$$;
+
+-- Admin actions on a pending or processing withdrawal; the withdrawal trigger
+-- posts the entries
+CREATE OR REPLACE FUNCTION public.confirm_pkr_withdrawal(
+    withdrawal_id uuid
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.pkr_withdrawals
+    SET
+        status = 'completed',
+        processed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = confirm_pkr_withdrawal.withdrawal_id AND status IN ('pending', 'processing');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Withdrawal % is not pending or processing', confirm_pkr_withdrawal.withdrawal_id;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decline_pkr_withdrawal(
+    withdrawal_id uuid,
+    admin_notes text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.pkr_withdrawals
+    SET
+        status = 'declined',
+        admin_notes = decline_pkr_withdrawal.admin_notes,
+        processed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = decline_pkr_withdrawal.withdrawal_id AND status IN ('pending', 'processing');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Withdrawal % is not pending or processing', decline_pkr_withdrawal.withdrawal_id;
+    END IF;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Legacy admin tool that set absolute balances; now posts the difference as
+-- an adjustment
+CREATE OR REPLACE FUNCTION public.update_wallet_balance(
+    user_id UUID,
+    pkr_amount DECIMAL DEFAULT NULL,
+    usdt_amount DECIMAL DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    wallet RECORD;
+BEGIN
+    SELECT pkr_balance, usdt_balance
+    INTO wallet
+    FROM public.wallets
+    WHERE uid = update_wallet_balance.user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Wallet not found';
+    END IF;
+
+    IF pkr_amount > wallet.pkr_balance THEN
+        PERFORM public.post_ledger_movement(
+            'PKR', pkr_amount - wallet.pkr_balance, NULL, 'adjustments',
+            update_wallet_balance.user_id, 'available', 'adjustment', NULL, 'Balance adjustment'
+        );
+    ELSIF pkr_amount < wallet.pkr_balance THEN
+        PERFORM public.post_ledger_movement(
+            'PKR', wallet.pkr_balance - pkr_amount, update_wallet_balance.user_id, 'available',
+            NULL, 'adjustments', 'adjustment', NULL, 'Balance adjustment'
+        );
+    END IF;
+
+    IF usdt_amount > wallet.usdt_balance THEN
+        PERFORM public.post_ledger_movement(
+            'USDT', usdt_amount - wallet.usdt_balance, NULL, 'adjustments',
+            update_wallet_balance.user_id, 'available', 'adjustment', NULL, 'Balance adjustment'
+        );
+    ELSIF usdt_amount < wallet.usdt_balance THEN
+        PERFORM public.post_ledger_movement(
+            'USDT', wallet.usdt_balance - usdt_amount, update_wallet_balance.user_id, 'available',
+            NULL, 'adjustments', 'adjustment', NULL, 'Balance adjustment'
+        );
+    END IF;
+END;
+$$;
+
+-- The caller's entries for one asset, newest first, with the available and
+-- locked balances right after each entry
+CREATE OR REPLACE FUNCTION public.get_ledger_history(p_asset TEXT DEFAULT 'PKR')
+RETURNS TABLE (
+    id BIGINT,
+    journal_id UUID,
+    account TEXT,
+    amount DECIMAL,
+    source_type TEXT,
+    source_id UUID,
+    description TEXT,
+    available_balance DECIMAL,
+    locked_balance DECIMAL,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        e.id,
+        e.journal_id,
+        e.account,
+        e.amount,
+        e.source_type,
+        e.source_id,
+        e.description,
+        SUM(CASE WHEN e.account = 'available' THEN e.amount ELSE 0 END) OVER running,
+        SUM(CASE WHEN e.account = 'locked' THEN e.amount ELSE 0 END) OVER running,
+        e.created_at
+    FROM public.ledger_entries e
+    WHERE e.user_id = auth.uid()
+      AND e.asset = p_asset
+    WINDOW running AS (ORDER BY e.id)
+    ORDER BY e.id DESC;
+END;
+$$;
+
+-- Grant permissions
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.ledger_entries FROM anon, authenticated;
+GRANT SELECT ON public.ledger_entries TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_ledger_movement(TEXT, DECIMAL, UUID, TEXT, UUID, TEXT, TEXT, UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ledger_wallet_mismatches() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ledger_wallet_mismatches() TO service_role;
+REVOKE EXECUTE ON FUNCTION public.confirm_pkr_withdrawal(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_pkr_withdrawal(UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.decline_pkr_withdrawal(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.decline_pkr_withdrawal(UUID, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.update_wallet_balance(UUID, DECIMAL, DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.update_wallet_balance(UUID, DECIMAL, DECIMAL) TO service_role;
+GRANT EXECUTE ON FUNCTION public.process_pkr_withdrawal(UUID, DECIMAL, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_ledger_history(TEXT) TO authenticated;
@@ -0,0 +1,320 @@
+-- Login throttling and automatic account lockout
+-- Failed password and 2FA attempts are counted per account, only on the
+-- server: wrong passwords in the password verification hook, wrong codes in
+-- verify_otp. Each failure adds an exponentially growing delay before the next
+-- attempt, and after max_failed_login_attempts the account is locked
+-- (user_profile.is_locked). A locked account can be unlocked by the owner with
+-- an email OTP session plus their authenticator code (see unlock_account).
+--
+-- Nothing callable before sign-in reveals whether an account exists or is
+-- locked. The hook only says an account is locked when the correct password
+-- was given.
+--
+-- NOTE: enable the password verification hook in the Supabase dashboard:
+-- Authentication -> Hooks -> Password Verification Attempt ->
+-- public.hook_password_verification_attempt
+
+-- Add lockout tracking fields to user_profile
+ALTER TABLE user_profile
+ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_failed_login_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS lock_reason TEXT;
+
+-- Single-row table holding the lockout policy
+CREATE TABLE IF NOT EXISTS public.security_config (
+    id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+    max_failed_login_attempts INTEGER NOT NULL DEFAULT 5,
+    throttle_base_seconds INTEGER NOT NULL DEFAULT 2,
+    throttle_max_seconds INTEGER NOT NULL DEFAULT 300,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO public.security_config (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.security_config ENABLE ROW LEVEL SECURITY;
+
+-- Seconds the account must wait before the next login attempt
+CREATE OR REPLACE FUNCTION public.login_retry_after(
+    attempts INTEGER,
+    last_failed_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    config RECORD;
+    delay_seconds INTEGER;
+    elapsed_seconds INTEGER;
+BEGIN
+    IF COALESCE(attempts, 0) = 0 OR last_failed_at IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    SELECT * INTO config FROM public.security_config WHERE id = 1;
+
+    delay_seconds := LEAST(
+        config.throttle_base_seconds * power(2, LEAST(attempts - 1, 20))::INTEGER,
+        config.throttle_max_seconds
+    );
+    elapsed_seconds := floor(extract(epoch FROM (NOW() - last_failed_at)))::INTEGER;
+
+    RETURN GREATEST(delay_seconds - elapsed_seconds, 0);
+END;
+$$;
+
+-- Count a failed attempt and lock the account once the limit is reached
+CREATE OR REPLACE FUNCTION public.register_login_failure(
+    target_user_id UUID,
+    stage TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    attempts INTEGER;
+    max_attempts INTEGER;
+BEGIN
+    SELECT max_failed_login_attempts INTO max_attempts
+    FROM public.security_config
+    WHERE id = 1;
+
+    UPDATE public.user_profile
+    SET failed_login_attempts = COALESCE(failed_login_attempts, 0) + 1,
+        last_failed_login_at = NOW()
+    WHERE uid = target_user_id
+    RETURNING failed_login_attempts INTO attempts;
+
+    IF attempts >= max_attempts THEN
+        UPDATE public.user_profile
+        SET is_locked = TRUE,
+            locked_at = NOW(),
+            lock_reason = format('Locked after %s failed sign-in attempts (%s)', attempts, stage)
+        WHERE uid = target_user_id
+          AND COALESCE(is_locked, FALSE) = FALSE;
+    END IF;
+END;
+$$;
+
+-- Password verification hook: enforce lockout/delays and count wrong passwords
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target_user_id UUID := (event ->> 'user_id')::UUID;
+    profile RECORD;
+    wait_seconds INTEGER;
+BEGIN
+    SELECT is_locked, lock_reason, failed_login_attempts, last_failed_login_at
+    INTO profile
+    FROM public.user_profile
+    WHERE uid = target_user_id;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('decision', 'continue');
+    END IF;
+
+    -- The lock reason is shown once the owner has passed email OTP; a wrong
+    -- password gets the usual error so the lock can't be probed for
+    IF COALESCE(profile.is_locked, FALSE) THEN
+        RETURN jsonb_build_object(
+            'decision', 'reject',
+            'message', CASE WHEN (event ->> 'valid')::BOOLEAN IS TRUE
+                            THEN 'This account is locked'
+                            ELSE 'Invalid login credentials' END,
+            'should_logout_user', TRUE
+        );
+    END IF;
+
+    wait_seconds := public.login_retry_after(profile.failed_login_attempts, profile.last_failed_login_at);
+    IF wait_seconds > 0 THEN
+        RETURN jsonb_build_object(
+            'decision', 'reject',
+            'message', format('Too many failed attempts. Try again in %s seconds', wait_seconds)
+        );
+    END IF;
+
+    IF (event ->> 'valid')::BOOLEAN IS DISTINCT FROM TRUE THEN
+        PERFORM public.register_login_failure(target_user_id, 'password');
+    END IF;
+
+    RETURN jsonb_build_object('decision', 'continue');
+END;
+$$;
+
+-- Lockout status of the caller's own account. Anyone else, including callers
+-- who aren't signed in yet, gets the same all-clear answer whether or not the
+-- email belongs to an account.
+CREATE OR REPLACE FUNCTION public.get_login_status(p_email TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    profile RECORD;
+BEGIN
+    SELECT p.is_locked, p.lock_reason, p.failed_login_attempts, p.last_failed_login_at
+    INTO profile
+    FROM auth.users u
+    JOIN public.user_profile p ON p.uid = u.id
+    WHERE u.id = auth.uid()
+      AND lower(u.email) = lower(trim(p_email));
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('locked', FALSE, 'lock_reason', NULL, 'retry_after_seconds', 0);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'locked', COALESCE(profile.is_locked, FALSE),
+        'lock_reason', profile.lock_reason,
+        'retry_after_seconds', public.login_retry_after(profile.failed_login_attempts, profile.last_failed_login_at)
+    );
+END;
+$$;
+
+-- Failures were once reported by the client, which let anyone lock an
+-- account knowing only its email
+DROP FUNCTION IF EXISTS public.report_login_failure(TEXT, TEXT);
+
+-- Clear the failure counter after a fully completed login
+CREATE OR REPLACE FUNCTION public.record_login_success()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.user_profile
+    SET failed_login_attempts = 0,
+        last_failed_login_at = NULL
+    WHERE uid = auth.uid()
+      AND COALESCE(is_locked, FALSE) = FALSE;
+END;
+$$;
+
+-- Unlock the caller's account. Requires a session (obtained through email OTP)
+-- plus an authenticator or backup code when 2FA is enabled.
+CREATE OR REPLACE FUNCTION public.unlock_account(otp TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    profile RECORD;
+    wait_seconds INTEGER;
+    verified BOOLEAN := FALSE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT is_locked, two_factor_enabled, backup_codes, failed_login_attempts, last_failed_login_at
+    INTO profile
+    FROM public.user_profile
+    WHERE uid = auth.uid()
+    FOR UPDATE;
+
+    IF NOT COALESCE(profile.is_locked, FALSE) THEN
+        RETURN TRUE;
+    END IF;
+
+    IF COALESCE(profile.two_factor_enabled, FALSE) THEN
+        wait_seconds := public.login_retry_after(profile.failed_login_attempts, profile.last_failed_login_at);
+        IF wait_seconds > 0 THEN
+            RAISE EXCEPTION 'Too many failed attempts. Try again in % seconds', wait_seconds;
+        END IF;
+
+        IF otp IS NOT NULL AND profile.backup_codes IS NOT NULL AND otp = ANY(profile.backup_codes) THEN
+            UPDATE public.user_profile
+            SET backup_codes = array_remove(backup_codes, otp)
+            WHERE uid = auth.uid();
+            verified := TRUE;
+        ELSIF otp IS NOT NULL THEN
+            verified := public.verify_totp(auth.uid(), otp);
+        END IF;
+
+        IF NOT verified THEN
+            UPDATE public.user_profile
+            SET failed_login_attempts = COALESCE(failed_login_attempts, 0) + 1,
+                last_failed_login_at = NOW()
+            WHERE uid = auth.uid();
+            RETURN FALSE;
+        END IF;
+    END IF;
+
+    UPDATE public.user_profile
+    SET is_locked = FALSE,
+        locked_at = NULL,
+        lock_reason = NULL,
+        failed_login_attempts = 0,
+        last_failed_login_at = NULL
+    WHERE uid = auth.uid();
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Verify OTP: refuse while locked/throttled and count failures toward the lockout
+CREATE OR REPLACE FUNCTION verify_otp(user_id UUID, otp TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    profile RECORD;
+    verified BOOLEAN := FALSE;
+BEGIN
+    IF auth.uid() IS DISTINCT FROM user_id THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT backup_codes, is_locked, failed_login_attempts, last_failed_login_at
+    INTO profile
+    FROM user_profile
+    WHERE uid = user_id;
+
+    IF COALESCE(profile.is_locked, FALSE)
+       OR public.login_retry_after(profile.failed_login_attempts, profile.last_failed_login_at) > 0 THEN
+        RETURN FALSE;
+    END IF;
+
+    -- Check if OTP is a backup code
+    IF profile.backup_codes IS NOT NULL AND otp = ANY(profile.backup_codes) THEN
+        -- Remove used backup code
+        UPDATE user_profile
+        SET backup_codes = array_remove(backup_codes, otp)
+        WHERE uid = user_id;
+
+        verified := TRUE;
+    ELSE
+        verified := verify_totp(user_id, otp);
+    END IF;
+
+    IF NOT verified THEN
+        PERFORM public.register_login_failure(user_id, 'two-factor code');
+    END IF;
+
+    RETURN verified;
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.register_login_failure(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.login_retry_after(INTEGER, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_login_status(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_login_success() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unlock_account(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_otp(UUID, TEXT) TO authenticated;
@@ -0,0 +1,537 @@
+-- New-device sign-in alerts
+-- register_user_device now raises an alert the first time a device id it has
+-- never seen signs in to an account that already has other devices. The owner
+-- is notified in the app (on their other devices) and by email, through the
+-- notifications webhook, with a one-tap "This wasn't me" link:
+--     coinsensei://secure-account?token=<token>
+-- The link works without being signed in: only a hash of the token is stored.
+-- The link itself goes in notifications.email_action_url, which only the email
+-- webhook reads; clients can't select that column, so a session alone never
+-- reveals the token.
+--
+-- Only a device that was already registered before the alert, and isn't the
+-- new device itself, is asked about it or can confirm it. Otherwise whoever
+-- signed in could sign in again on the same device and dismiss their own alert.
+--
+-- Reporting a sign-in revokes that device's session and biometric login and
+-- locks the account (user_profile.is_locked, lock_kind 'device_report'). The
+-- app then emails a password reset link. Whoever reported it may not be the
+-- only one with the email and second factor, so unlock_account refuses this
+-- lock: only completing the reset lifts it.
+
+-- Why the account is locked, where the unlock rules differ; NULL for the
+-- failed-attempts lock
+ALTER TABLE public.user_profile
+ADD COLUMN IF NOT EXISTS lock_kind TEXT;
+
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS action_url TEXT,
+ADD COLUMN IF NOT EXISTS email_action_url TEXT;
+
+-- Everything but the emailed link is readable by the owner
+REVOKE SELECT ON public.notifications FROM anon, authenticated;
+GRANT SELECT (id, user_id, type, title, body, action_url, read_at, created_at)
+    ON public.notifications TO authenticated;
+
+CREATE TABLE IF NOT EXISTS public.new_device_alerts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    device_id TEXT NOT NULL,
+    device_name TEXT,
+    platform TEXT,
+    session_id UUID,
+    ip_address TEXT,
+    deny_token_hash TEXT NOT NULL UNIQUE,
+    status TEXT NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'confirmed', 'denied')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '7 days',
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_new_device_alerts_user_id ON public.new_device_alerts(user_id);
+
+-- No policies: only the SECURITY DEFINER functions below touch this table
+ALTER TABLE public.new_device_alerts ENABLE ROW LEVEL SECURITY;
+
+-- notify_user gains an optional action link (rendered as a button in the email)
+DROP FUNCTION IF EXISTS public.notify_user(UUID, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.notify_user(
+    p_user_id UUID,
+    p_type TEXT,
+    p_title TEXT,
+    p_body TEXT,
+    p_action_url TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.notifications (user_id, type, title, body, action_url)
+    VALUES (p_user_id, p_type, p_title, p_body, p_action_url);
+END;
+$$;
+
+-- Register the calling device; alert the owner when the device is new
+CREATE OR REPLACE FUNCTION public.register_user_device(
+    p_device_id TEXT,
+    p_device_name TEXT DEFAULT NULL,
+    p_platform TEXT DEFAULT NULL,
+    p_app_version TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    current_session_id UUID := (auth.jwt() ->> 'session_id')::UUID;
+    headers JSONB := NULLIF(current_setting('request.headers', TRUE), '')::JSONB;
+    previous_session_id UUID;
+    is_new_device BOOLEAN;
+    is_new_session BOOLEAN;
+    has_other_devices BOOLEAN;
+    deny_token TEXT;
+    session_started_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- A signed-out device stays signed out: its access token is valid until it
+    -- expires, so only a sign-in made after the revocation registers it again
+    SELECT created_at INTO session_started_at
+    FROM auth.sessions
+    WHERE id = current_session_id
+      AND user_id = auth.uid();
+
+    IF session_started_at IS NULL OR EXISTS (
+        SELECT 1 FROM public.user_devices
+        WHERE user_id = auth.uid()
+          AND device_id = p_device_id
+          AND revoked_at >= session_started_at
+    ) THEN
+        RAISE EXCEPTION 'This device has been signed out. Please sign in again'
+            USING ERRCODE = '28000';
+    END IF;
+
+    SELECT session_id INTO previous_session_id
+    FROM public.user_devices
+    WHERE user_id = auth.uid()
+      AND device_id = p_device_id
+      AND revoked_at IS NULL;
+
+    is_new_session := NOT FOUND OR previous_session_id IS DISTINCT FROM current_session_id;
+
+    -- Devices signed out before still count as known
+    is_new_device := NOT EXISTS (
+        SELECT 1 FROM public.user_devices
+        WHERE user_id = auth.uid()
+          AND device_id = p_device_id
+    );
+
+    -- The very first device of an account is not worth an alert
+    has_other_devices := EXISTS (
+        SELECT 1 FROM public.user_devices WHERE user_id = auth.uid()
+    );
+
+    INSERT INTO public.user_devices (user_id, device_id, device_name, platform, app_version, session_id)
+    VALUES (auth.uid(), p_device_id, p_device_name, p_platform, p_app_version, current_session_id)
+    ON CONFLICT (user_id, device_id) WHERE revoked_at IS NULL DO UPDATE
+    SET device_name = EXCLUDED.device_name,
+        platform = EXCLUDED.platform,
+        app_version = EXCLUDED.app_version,
+        session_id = EXCLUDED.session_id,
+        last_seen_at = NOW();
+
+    IF is_new_session THEN
+        PERFORM public.log_security_event(auth.uid(), 'login', jsonb_build_object('platform', p_platform));
+    END IF;
+
+    IF is_new_device AND has_other_devices THEN
+        deny_token := encode(gen_random_bytes(32), 'hex');
+
+        INSERT INTO public.new_device_alerts (
+            user_id, device_id, device_name, platform, session_id, ip_address, deny_token_hash
+        )
+        VALUES (
+            auth.uid(),
+            p_device_id,
+            p_device_name,
+            p_platform,
+            current_session_id,
+            NULLIF(trim(split_part(COALESCE(headers ->> 'cf-connecting-ip', headers ->> 'x-forwarded-for', ''), ',', 1)), ''),
+            encode(digest(deny_token, 'sha256'), 'hex')
+        );
+
+        PERFORM public.log_security_event(auth.uid(), 'new_device_login', jsonb_build_object('device_name', p_device_name));
+
+        -- The deny link goes to the email only
+        INSERT INTO public.notifications (user_id, type, title, body, email_action_url)
+        VALUES (
+            auth.uid(),
+            'new_device_login',
+            'New sign-in to your account',
+            'Your account was just signed in to from ' || COALESCE(p_device_name, 'an unrecognised device') || ' at '
+                || to_char(NOW() AT TIME ZONE 'UTC', 'DD Mon YYYY HH24:MI') || ' UTC. '
+                || 'If this wasn''t you, tap "This wasn''t me" to sign that device out and lock your account.',
+            'coinsensei://secure-account?token=' || deny_token
+        );
+    END IF;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Sign the reported device out, lock the account and close the alert.
+-- Internal: callers have already matched the alert to its owner.
+CREATE OR REPLACE FUNCTION public.secure_account_after_new_device(p_alert_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    alert RECORD;
+BEGIN
+    UPDATE public.new_device_alerts
+    SET status = 'denied',
+        resolved_at = NOW()
+    WHERE id = p_alert_id
+    RETURNING * INTO alert;
+
+    UPDATE public.user_devices
+    SET revoked_at = NOW()
+    WHERE user_id = alert.user_id
+      AND device_id = alert.device_id
+      AND revoked_at IS NULL;
+
+    UPDATE public.biometric_credentials
+    SET revoked_at = NOW()
+    WHERE user_id = alert.user_id
+      AND device_id = alert.device_id
+      AND revoked_at IS NULL;
+
+    -- Deleting the auth session invalidates its refresh tokens
+    IF alert.session_id IS NOT NULL THEN
+        DELETE FROM auth.sessions
+        WHERE id = alert.session_id
+          AND user_id = alert.user_id;
+    END IF;
+
+    -- Password sign-ins are rejected until the password is reset
+    UPDATE public.user_profile
+    SET is_locked = TRUE,
+        locked_at = NOW(),
+        lock_reason = 'Locked after a sign-in from an unrecognised device was reported. Reset your password to unlock it.',
+        lock_kind = 'device_report'
+    WHERE uid = alert.user_id;
+
+    PERFORM public.log_security_event(
+        alert.user_id,
+        'new_device_reported',
+        jsonb_build_object('device_name', alert.device_name)
+    );
+END;
+$$;
+
+-- Whether the caller's device may vouch for an alert: it must be a different
+-- device that was registered before the alert was raised
+CREATE OR REPLACE FUNCTION public.can_confirm_new_device_alert(
+    p_alert_device_id TEXT,
+    p_alert_created_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.user_devices d
+        WHERE d.user_id = auth.uid()
+          AND d.session_id = (auth.jwt() ->> 'session_id')::UUID
+          AND d.revoked_at IS NULL
+          AND d.device_id <> p_alert_device_id
+          AND d.first_seen_at < p_alert_created_at
+    );
+$$;
+
+-- Open alerts for sign-ins on other devices, for the in-app prompt
+CREATE OR REPLACE FUNCTION public.get_new_device_alerts()
+RETURNS TABLE (
+    id UUID,
+    device_name TEXT,
+    platform TEXT,
+    ip_address TEXT,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT a.id, a.device_name, a.platform, a.ip_address, a.created_at
+    FROM public.new_device_alerts a
+    WHERE a.user_id = auth.uid()
+      AND a.status = 'open'
+      AND a.expires_at > NOW()
+      AND public.can_confirm_new_device_alert(a.device_id, a.created_at)
+    ORDER BY a.created_at DESC;
+$$;
+
+-- "It was me": dismiss the alert
+CREATE OR REPLACE FUNCTION public.confirm_new_device_login(p_alert_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    UPDATE public.new_device_alerts
+    SET status = 'confirmed',
+        resolved_at = NOW()
+    WHERE id = p_alert_id
+      AND user_id = auth.uid()
+      AND status = 'open'
+      AND public.can_confirm_new_device_alert(device_id, created_at);
+
+    RETURN FOUND;
+END;
+$$;
+
+-- "This wasn't me" from the in-app prompt on another signed-in device
+CREATE OR REPLACE FUNCTION public.report_new_device_login(p_alert_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    PERFORM 1
+    FROM public.new_device_alerts
+    WHERE id = p_alert_id
+      AND user_id = auth.uid()
+      AND status = 'open'
+      AND expires_at > NOW()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    PERFORM public.secure_account_after_new_device(p_alert_id);
+    RETURN TRUE;
+END;
+$$;
+
+-- "This wasn't me" from the emailed link (callable before sign-in). Returns the
+-- account email so the app can send the password reset, or NULL for a used or
+-- expired link.
+CREATE OR REPLACE FUNCTION public.report_new_device_login_by_token(p_token TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    alert RECORD;
+    account_email TEXT;
+BEGIN
+    IF p_token IS NULL OR p_token !~ '^[0-9a-f]{64}$' THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT id, user_id INTO alert
+    FROM public.new_device_alerts
+    WHERE deny_token_hash = encode(digest(p_token, 'sha256'), 'hex')
+      AND status = 'open'
+      AND expires_at > NOW()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM public.secure_account_after_new_device(alert.id);
+
+    SELECT email INTO account_email
+    FROM auth.users
+    WHERE id = alert.user_id;
+
+    RETURN account_email;
+END;
+$$;
+
+-- Unlock with an authenticator or backup code, as before, except after a
+-- reported sign-in: that lock needs a password reset (complete_password_reset)
+CREATE OR REPLACE FUNCTION public.unlock_account(otp TEXT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    profile RECORD;
+    wait_seconds INTEGER;
+    verified BOOLEAN := FALSE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT is_locked, lock_kind, two_factor_enabled, failed_login_attempts, last_failed_login_at
+    INTO profile
+    FROM public.user_profile
+    WHERE uid = auth.uid()
+    FOR UPDATE;
+
+    IF NOT COALESCE(profile.is_locked, FALSE) THEN
+        RETURN TRUE;
+    END IF;
+
+    IF profile.lock_kind = 'device_report' THEN
+        RAISE EXCEPTION 'Reset your password to unlock this account';
+    END IF;
+
+    IF COALESCE(profile.two_factor_enabled, FALSE) THEN
+        wait_seconds := public.login_retry_after(profile.failed_login_attempts, profile.last_failed_login_at);
+        IF wait_seconds > 0 THEN
+            RAISE EXCEPTION 'Too many failed attempts. Try again in % seconds', wait_seconds;
+        END IF;
+
+        IF otp IS NOT NULL AND length(otp) = 8 THEN
+            verified := public.consume_backup_code(auth.uid(), otp);
+        ELSIF otp IS NOT NULL THEN
+            verified := public.verify_totp(auth.uid(), otp);
+        END IF;
+
+        IF NOT verified THEN
+            UPDATE public.user_profile
+            SET failed_login_attempts = COALESCE(failed_login_attempts, 0) + 1,
+                last_failed_login_at = NOW()
+            WHERE uid = auth.uid();
+            RETURN FALSE;
+        END IF;
+    END IF;
+
+    UPDATE public.user_profile
+    SET is_locked = FALSE,
+        locked_at = NULL,
+        lock_reason = NULL,
+        failed_login_attempts = 0,
+        last_failed_login_at = NULL
+    WHERE uid = auth.uid();
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Password reset also lifts an account lock: the reset link proves control of
+-- the email, and 2FA accounts still need their code (checked here directly,
+-- since verify_otp refuses locked accounts)
+CREATE OR REPLACE FUNCTION public.complete_password_reset(
+    p_new_password TEXT,
+    p_otp TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    profile RECORD;
+    wait_seconds INTEGER;
+    verified BOOLEAN := FALSE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Only sessions created from a recent recovery link may reset the password
+    IF NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(COALESCE(auth.jwt() -> 'amr', '[]'::jsonb)) AS amr
+        WHERE amr ->> 'method' = 'recovery'
+          AND to_timestamp((amr ->> 'timestamp')::BIGINT) > NOW() - INTERVAL '1 hour'
+    ) THEN
+        RAISE EXCEPTION 'Password reset link has expired. Please request a new one';
+    END IF;
+
+    IF p_new_password IS NULL OR length(p_new_password) < 6 THEN
+        RAISE EXCEPTION 'Password must be at least 6 characters long';
+    END IF;
+
+    SELECT COALESCE(two_factor_enabled, FALSE) AS two_factor_enabled, failed_login_attempts, last_failed_login_at
+    INTO profile
+    FROM public.user_profile
+    WHERE uid = auth.uid();
+
+    IF profile.two_factor_enabled THEN
+        wait_seconds := public.login_retry_after(profile.failed_login_attempts, profile.last_failed_login_at);
+        IF wait_seconds > 0 THEN
+            RAISE EXCEPTION 'Too many failed attempts. Try again in % seconds', wait_seconds;
+        END IF;
+
+        IF p_otp IS NOT NULL AND length(p_otp) = 8 THEN
+            verified := public.consume_backup_code(auth.uid(), p_otp);
+        ELSIF p_otp IS NOT NULL THEN
+            verified := public.verify_totp(auth.uid(), p_otp);
+        END IF;
+
+        IF NOT verified THEN
+            PERFORM public.register_login_failure(auth.uid(), 'two-factor code');
+            RETURN FALSE;
+        END IF;
+    END IF;
+
+    UPDATE auth.users
+    SET encrypted_password = crypt(p_new_password, gen_salt('bf')),
+        updated_at = NOW()
+    WHERE id = auth.uid();
+
+    UPDATE public.user_profile
+    SET is_locked = FALSE,
+        locked_at = NULL,
+        lock_reason = NULL,
+        lock_kind = NULL,
+        failed_login_attempts = 0,
+        last_failed_login_at = NULL
+    WHERE uid = auth.uid();
+
+    -- Sign out everywhere, including the recovery session itself
+    UPDATE public.user_devices
+    SET revoked_at = NOW()
+    WHERE user_id = auth.uid()
+      AND revoked_at IS NULL;
+
+    DELETE FROM auth.sessions
+    WHERE user_id = auth.uid();
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION public.notify_user(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.secure_account_after_new_device(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.can_confirm_new_device_alert(TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.register_user_device(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_new_device_alerts() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_new_device_login(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.report_new_device_login(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.report_new_device_login_by_token(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.unlock_account(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_password_reset(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,248 @@
+-- Password policy
+-- The rules from src/services/passwordPolicy.ts, enforced on the server:
+--   * 10 to 128 characters
+--   * at least 3 of: lowercase, uppercase, digits, symbols
+--   * must not contain the email's local part or a part of the full name
+--   * must not be a breached password, ignoring case and any digits/symbols
+--     around it ("Summer2024!" counts as "summer")
+-- Change both together.
+--
+-- Sign-up goes through the sign-up edge function, which checks the policy
+-- before creating the user. Password changes go through change_password and
+-- resets through complete_password_reset. Auth can't hand the new password to
+-- a hook, so a trigger on auth.users rejects any other password change,
+-- including supabase.auth.updateUser({ password }).
+--
+-- NOTE: turn off "Allow new users to sign up" under Authentication -> Sign In /
+-- Providers (the edge function uses the admin API, which still works), and set
+-- Authentication -> Passwords to a minimum length of 10 with leaked password
+-- protection on, so direct Auth API calls are held to the same floor.
+
+CREATE TABLE IF NOT EXISTS public.breached_passwords (
+    password TEXT PRIMARY KEY
+);
+
+-- No policies: only the SECURITY DEFINER functions below touch this table
+ALTER TABLE public.breached_passwords ENABLE ROW LEVEL SECURITY;
+
+-- Filled by seed_breached_passwords.sql, generated together with
+-- src/services/breachedPasswords.ts by scripts/generate-breached-passwords.js
+
+-- The first rule the password breaks, or NULL if it passes
+CREATE OR REPLACE FUNCTION public.password_policy_violation(
+    p_password TEXT,
+    p_email TEXT DEFAULT NULL,
+    p_full_name TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    lower_password TEXT := lower(COALESCE(p_password, ''));
+    core_password TEXT;
+    local_part TEXT := lower(split_part(trim(COALESCE(p_email, '')), '@', 1));
+    personal_tokens TEXT[];
+    class_count INTEGER;
+BEGIN
+    IF p_password IS NULL OR length(p_password) < 10 THEN
+        RETURN 'Password must be at least 10 characters long';
+    END IF;
+
+    IF length(p_password) > 128 THEN
+        RETURN 'Password must be at most 128 characters long';
+    END IF;
+
+    class_count := (p_password ~ '[a-z]')::INTEGER
+        + (p_password ~ '[A-Z]')::INTEGER
+        + (p_password ~ '[0-9]')::INTEGER
+        + (p_password ~ '[^a-zA-Z0-9]')::INTEGER;
+    IF class_count < 3 THEN
+        RETURN 'Password must use at least 3 of: lowercase letters, uppercase letters, numbers and symbols';
+    END IF;
+
+    personal_tokens := ARRAY[local_part]
+        || regexp_split_to_array(local_part, '[^a-z0-9]+')
+        || regexp_split_to_array(lower(trim(COALESCE(p_full_name, ''))), '\s+');
+    IF EXISTS (
+        SELECT 1 FROM unnest(personal_tokens) AS token
+        WHERE length(token) >= 3
+          AND strpos(lower_password, token) > 0
+    ) THEN
+        RETURN 'Password must not contain your name or email address';
+    END IF;
+
+    core_password := regexp_replace(lower_password, '^[^a-z]+|[^a-z]+$', '', 'g');
+    IF EXISTS (
+        SELECT 1 FROM public.breached_passwords
+        WHERE password = lower_password
+           OR (length(core_password) >= 4 AND password = core_password)
+    ) THEN
+        RETURN 'This password has appeared in data breaches. Please choose a different one';
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+-- Change the signed-in user's password, after a change_password step-up
+CREATE OR REPLACE FUNCTION public.change_password(
+    p_new_password TEXT,
+    p_step_up_token TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    account_email TEXT;
+    account_name TEXT;
+    violation TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT u.email, p.full_name INTO account_email, account_name
+    FROM auth.users u
+    LEFT JOIN public.user_profile p ON p.uid = u.id
+    WHERE u.id = auth.uid();
+
+    violation := public.password_policy_violation(p_new_password, account_email, account_name);
+    IF violation IS NOT NULL THEN
+        RAISE EXCEPTION '%', violation;
+    END IF;
+
+    PERFORM public.consume_step_up_token(auth.uid(), 'change_password', p_step_up_token);
+
+    PERFORM set_config('app.password_policy_checked', auth.uid()::TEXT, TRUE);
+    UPDATE auth.users
+    SET encrypted_password = crypt(p_new_password, gen_salt('bf')),
+        updated_at = NOW()
+    WHERE id = auth.uid();
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Password reset, now held to the policy
+CREATE OR REPLACE FUNCTION public.complete_password_reset(
+    p_new_password TEXT,
+    p_otp TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    profile RECORD;
+    wait_seconds INTEGER;
+    verified BOOLEAN := FALSE;
+    violation TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Only sessions created from a recent recovery link may reset the password
+    IF NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(COALESCE(auth.jwt() -> 'amr', '[]'::jsonb)) AS amr
+        WHERE amr ->> 'method' = 'recovery'
+          AND to_timestamp((amr ->> 'timestamp')::BIGINT) > NOW() - INTERVAL '1 hour'
+    ) THEN
+        RAISE EXCEPTION 'Password reset link has expired. Please request a new one';
+    END IF;
+
+    SELECT COALESCE(p.two_factor_enabled, FALSE) AS two_factor_enabled,
+           p.failed_login_attempts,
+           p.last_failed_login_at,
+           p.full_name,
+           u.email
+    INTO profile
+    FROM auth.users u
+    LEFT JOIN public.user_profile p ON p.uid = u.id
+    WHERE u.id = auth.uid();
+
+    violation := public.password_policy_violation(p_new_password, profile.email, profile.full_name);
+    IF violation IS NOT NULL THEN
+        RAISE EXCEPTION '%', violation;
+    END IF;
+
+    IF profile.two_factor_enabled THEN
+        wait_seconds := public.login_retry_after(profile.failed_login_attempts, profile.last_failed_login_at);
+        IF wait_seconds > 0 THEN
+            RAISE EXCEPTION 'Too many failed attempts. Try again in % seconds', wait_seconds;
+        END IF;
+
+        IF p_otp IS NOT NULL AND length(p_otp) = 8 THEN
+            verified := public.consume_backup_code(auth.uid(), p_otp);
+        ELSIF p_otp IS NOT NULL THEN
+            verified := public.verify_totp(auth.uid(), p_otp);
+        END IF;
+
+        IF NOT verified THEN
+            PERFORM public.register_login_failure(auth.uid(), 'two-factor code');
+            RETURN FALSE;
+        END IF;
+    END IF;
+
+    PERFORM set_config('app.password_policy_checked', auth.uid()::TEXT, TRUE);
+    UPDATE auth.users
+    SET encrypted_password = crypt(p_new_password, gen_salt('bf')),
+        updated_at = NOW()
+    WHERE id = auth.uid();
+
+    UPDATE public.user_profile
+    SET is_locked = FALSE,
+        locked_at = NULL,
+        lock_reason = NULL,
+        lock_kind = NULL,
+        failed_login_attempts = 0,
+        last_failed_login_at = NULL
+    WHERE uid = auth.uid();
+
+    -- Sign out everywhere, including the recovery session itself
+    UPDATE public.user_devices
+    SET revoked_at = NOW()
+    WHERE user_id = auth.uid()
+      AND revoked_at IS NULL;
+
+    DELETE FROM auth.sessions
+    WHERE user_id = auth.uid();
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Reject password changes that did not pass the policy in the functions above
+CREATE OR REPLACE FUNCTION public.require_password_policy_check()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.encrypted_password IS DISTINCT FROM OLD.encrypted_password
+       AND current_setting('app.password_policy_checked', TRUE) IS DISTINCT FROM NEW.id::TEXT THEN
+        RAISE EXCEPTION 'Passwords can only be changed in the app';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS require_password_policy_check ON auth.users;
+CREATE TRIGGER require_password_policy_check
+    BEFORE UPDATE OF encrypted_password ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.require_password_policy_check();
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION public.password_policy_violation(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.password_policy_violation(TEXT, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.change_password(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_password_reset(TEXT, TEXT) TO authenticated;
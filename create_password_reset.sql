@@ -0,0 +1,69 @@
+-- Password reset (forgot password) completion
+-- The app opens the emailed recovery link (coinsensei://reset-password), which
+-- gives it a short-lived recovery session. complete_password_reset sets the new
+-- password from that session, requires a 2FA code when 2FA is enabled, and
+-- signs out every session. Biometric credentials are revoked by the
+-- revoke_biometric_on_password_change trigger.
+--
+-- NOTE: add coinsensei://reset-password to Authentication -> URL Configuration ->
+-- Redirect URLs in the Supabase dashboard.
+
+CREATE OR REPLACE FUNCTION public.complete_password_reset(
+    p_new_password TEXT,
+    p_otp TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    requires_2fa BOOLEAN;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Only sessions created from a recent recovery link may reset the password
+    IF NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(COALESCE(auth.jwt() -> 'amr', '[]'::jsonb)) AS amr
+        WHERE amr ->> 'method' = 'recovery'
+          AND to_timestamp((amr ->> 'timestamp')::BIGINT) > NOW() - INTERVAL '1 hour'
+    ) THEN
+        RAISE EXCEPTION 'Password reset link has expired. Please request a new one';
+    END IF;
+
+    IF p_new_password IS NULL OR length(p_new_password) < 6 THEN
+        RAISE EXCEPTION 'Password must be at least 6 characters long';
+    END IF;
+
+    SELECT COALESCE(two_factor_enabled, FALSE) INTO requires_2fa
+    FROM public.user_profile
+    WHERE uid = auth.uid();
+
+    -- verify_otp also counts failures toward the login lockout
+    IF requires_2fa AND (p_otp IS NULL OR NOT public.verify_otp(auth.uid(), p_otp)) THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE auth.users
+    SET encrypted_password = crypt(p_new_password, gen_salt('bf')),
+        updated_at = NOW()
+    WHERE id = auth.uid();
+
+    -- Sign out everywhere, including the recovery session itself
+    UPDATE public.user_devices
+    SET revoked_at = NOW()
+    WHERE user_id = auth.uid()
+      AND revoked_at IS NULL;
+
+    DELETE FROM auth.sessions
+    WHERE user_id = auth.uid();
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.complete_password_reset(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,333 @@
+-- Phone number verification by SMS
+-- The send-sms-otp edge function asks issue_sms_code for a code and sends it
+-- through the configured SMS provider. Codes are stored as bcrypt hashes,
+-- expire after security_config.sms_code_seconds and allow
+-- sms_code_max_attempts guesses.
+--
+-- purpose 'verify_phone': the code goes to a new number; verify_phone_code
+-- then saves the number with phone_verified_at. Clients can no longer write
+-- user_profile.phone_number directly, so a saved number is always verified.
+-- Replacing a verified number also needs a change_phone step-up (password and
+-- second factor): SMS codes work as a login second factor, so a session alone
+-- must not be enough to move them to another phone. The old number is texted
+-- when a replacement is requested, and the owner is notified once it changes.
+--
+-- purpose 'second_factor': the code goes to the verified number and
+-- verify_sms_second_factor accepts it in place of an authenticator code at
+-- sign-in. Step-up actions and password reset don't take SMS codes.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.user_profile
+ADD COLUMN IF NOT EXISTS phone_verified_at TIMESTAMP WITH TIME ZONE;
+
+GRANT SELECT (phone_verified_at) ON public.user_profile TO authenticated;
+REVOKE UPDATE (phone_number) ON public.user_profile FROM authenticated;
+
+ALTER TABLE public.security_config
+ADD COLUMN IF NOT EXISTS sms_code_seconds INTEGER NOT NULL DEFAULT 300,
+ADD COLUMN IF NOT EXISTS sms_code_max_attempts INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN IF NOT EXISTS sms_codes_per_hour INTEGER NOT NULL DEFAULT 5;
+
+-- change_phone needs the same factors as change_email
+INSERT INTO public.step_up_action_requirements (action, requirements) VALUES
+    ('change_phone', ARRAY['password', 'second_factor'])
+ON CONFLICT (action) DO UPDATE
+SET requirements = EXCLUDED.requirements,
+    updated_at = NOW();
+
+CREATE TABLE IF NOT EXISTS public.sms_codes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    phone_number TEXT NOT NULL,
+    purpose TEXT NOT NULL CHECK (purpose IN ('verify_phone', 'second_factor')),
+    code_hash TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_codes_user_id ON public.sms_codes(user_id);
+
+-- No policies: only the SECURITY DEFINER functions below touch this table
+ALTER TABLE public.sms_codes ENABLE ROW LEVEL SECURITY;
+
+-- New code for the edge function to send. Returns the plaintext code, how
+-- long it stays valid and the number to send it to, plus the verified number
+-- being replaced, if any, so it can be warned. Any earlier open code for the same purpose is voided.
+CREATE OR REPLACE FUNCTION public.issue_sms_code(
+    p_user_id UUID,
+    p_purpose TEXT,
+    p_phone_number TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    config RECORD;
+    target_phone TEXT;
+    previous_phone TEXT;
+    sent_last_hour INTEGER;
+    code TEXT;
+BEGIN
+    SELECT * INTO config FROM public.security_config WHERE id = 1;
+
+    IF p_purpose = 'verify_phone' THEN
+        target_phone := p_phone_number;
+
+        IF target_phone IS NULL OR target_phone !~ '^\+923[0-9]{9}$' THEN
+            RAISE EXCEPTION 'Please enter a valid Pakistani mobile number';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1 FROM public.user_profile
+            WHERE phone_number = target_phone
+              AND phone_verified_at IS NOT NULL
+              AND uid <> p_user_id
+        ) THEN
+            RAISE EXCEPTION 'This number is already verified on another account';
+        END IF;
+
+        SELECT phone_number INTO previous_phone
+        FROM public.user_profile
+        WHERE uid = p_user_id
+          AND phone_verified_at IS NOT NULL
+          AND phone_number <> target_phone;
+    ELSIF p_purpose = 'second_factor' THEN
+        SELECT phone_number INTO target_phone
+        FROM public.user_profile
+        WHERE uid = p_user_id
+          AND phone_verified_at IS NOT NULL;
+
+        IF target_phone IS NULL THEN
+            RAISE EXCEPTION 'No verified phone number on this account';
+        END IF;
+    ELSE
+        RAISE EXCEPTION 'Unknown SMS code purpose: %', p_purpose;
+    END IF;
+
+    SELECT COUNT(*) INTO sent_last_hour
+    FROM public.sms_codes
+    WHERE user_id = p_user_id
+      AND created_at > NOW() - INTERVAL '1 hour';
+
+    IF sent_last_hour >= config.sms_codes_per_hour THEN
+        RAISE EXCEPTION 'Too many codes requested. Please try again later';
+    END IF;
+
+    UPDATE public.sms_codes
+    SET used_at = NOW()
+    WHERE user_id = p_user_id
+      AND purpose = p_purpose
+      AND used_at IS NULL;
+
+    code := lpad(((('x' || encode(gen_random_bytes(4), 'hex'))::BIT(32)::BIGINT) % 1000000)::TEXT, 6, '0');
+
+    INSERT INTO public.sms_codes (user_id, phone_number, purpose, code_hash, expires_at)
+    VALUES (
+        p_user_id,
+        target_phone,
+        p_purpose,
+        crypt(code, gen_salt('bf')),
+        NOW() + make_interval(secs => config.sms_code_seconds)
+    );
+
+    RETURN jsonb_build_object(
+        'code', code,
+        'expires_in_seconds', config.sms_code_seconds,
+        'phone_number', target_phone,
+        'previous_phone_number', previous_phone
+    );
+END;
+$$;
+
+-- Check a code against the user's open code for this purpose. Wrong guesses
+-- are counted; the code is voided once they run out. Returns the number the
+-- code was sent to, or NULL.
+CREATE OR REPLACE FUNCTION public.consume_sms_code(
+    p_user_id UUID,
+    p_purpose TEXT,
+    p_code TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    max_attempts INTEGER;
+    open_code RECORD;
+BEGIN
+    IF p_code IS NULL OR p_code !~ '^[0-9]{6}$' THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT sms_code_max_attempts INTO max_attempts
+    FROM public.security_config
+    WHERE id = 1;
+
+    SELECT * INTO open_code
+    FROM public.sms_codes
+    WHERE user_id = p_user_id
+      AND purpose = p_purpose
+      AND used_at IS NULL
+      AND expires_at > NOW()
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF open_code.code_hash = crypt(p_code, open_code.code_hash) THEN
+        UPDATE public.sms_codes
+        SET used_at = NOW()
+        WHERE id = open_code.id;
+
+        RETURN open_code.phone_number;
+    END IF;
+
+    UPDATE public.sms_codes
+    SET attempts = attempts + 1,
+        used_at = CASE WHEN attempts + 1 >= max_attempts THEN NOW() END
+    WHERE id = open_code.id;
+
+    RETURN NULL;
+END;
+$$;
+
+-- Save the number once the code sent to it is confirmed. Replacing a
+-- verified number takes a change_phone step-up token as well.
+DROP FUNCTION IF EXISTS public.verify_phone_code(TEXT);
+
+CREATE OR REPLACE FUNCTION public.verify_phone_code(
+    p_code TEXT,
+    p_step_up_token TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    verified_phone TEXT;
+    previous_phone TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    verified_phone := public.consume_sms_code(auth.uid(), 'verify_phone', p_code);
+    IF verified_phone IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT phone_number INTO previous_phone
+    FROM public.user_profile
+    WHERE uid = auth.uid()
+      AND phone_verified_at IS NOT NULL;
+
+    -- Raising here also leaves the SMS code unused, so it can be retried
+    IF previous_phone IS NOT NULL THEN
+        PERFORM public.consume_step_up_token(auth.uid(), 'change_phone', p_step_up_token);
+    END IF;
+
+    UPDATE public.user_profile
+    SET phone_number = verified_phone,
+        phone_verified_at = NOW()
+    WHERE uid = auth.uid();
+
+    IF previous_phone IS NULL THEN
+        PERFORM public.log_security_event(auth.uid(), 'phone_verified', jsonb_build_object('phone_last4', right(verified_phone, 4)));
+    ELSE
+        PERFORM public.log_security_event(
+            auth.uid(),
+            'phone_changed',
+            jsonb_build_object('old_phone_last4', right(previous_phone, 4), 'phone_last4', right(verified_phone, 4))
+        );
+
+        PERFORM public.notify_user(
+            auth.uid(),
+            'phone_changed',
+            'Your phone number was changed',
+            'The phone number on your account changed from one ending in ' || right(previous_phone, 4)
+                || ' to one ending in ' || right(verified_phone, 4) || '. '
+                || 'SMS sign-in codes now go to the new number. If you did not make this change, contact support right away.'
+        );
+    END IF;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- SMS code as the login second factor, in place of an authenticator code.
+-- Only the sign-in step takes it: verify_otp, which step-up and password
+-- reset use, still wants an authenticator or backup code, so a code texted
+-- to the phone can't move money or turn 2FA off. Wrong codes count toward
+-- the login lockout like wrong authenticator codes.
+CREATE OR REPLACE FUNCTION public.verify_sms_second_factor(p_code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    profile RECORD;
+    verified BOOLEAN;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT is_locked, failed_login_attempts, last_failed_login_at
+    INTO profile
+    FROM public.user_profile
+    WHERE uid = auth.uid();
+
+    IF COALESCE(profile.is_locked, FALSE)
+       OR public.login_retry_after(profile.failed_login_attempts, profile.last_failed_login_at) > 0 THEN
+        RETURN FALSE;
+    END IF;
+
+    verified := public.consume_sms_code(auth.uid(), 'second_factor', p_code) IS NOT NULL;
+
+    IF NOT verified THEN
+        PERFORM public.register_login_failure(auth.uid(), 'SMS code');
+    END IF;
+
+    RETURN verified;
+END;
+$$;
+
+-- The caller's verified number, or NULL; decides whether to offer SMS codes
+CREATE OR REPLACE FUNCTION public.get_verified_phone()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN (
+        SELECT phone_number FROM public.user_profile
+        WHERE uid = auth.uid()
+          AND phone_verified_at IS NOT NULL
+    );
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION public.issue_sms_code(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_sms_code(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.issue_sms_code(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.verify_phone_code(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_sms_second_factor(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_verified_phone() TO authenticated;
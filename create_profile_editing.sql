@@ -0,0 +1,108 @@
+-- Profile editing
+-- Usernames are lowercase, 3-20 letters, digits or underscores, and unique.
+-- Each user has one avatar, <uid>/avatar.jpg in the public avatars bucket.
+-- Once KYC is verified the identity fields it checked (full name, CNIC, date
+-- of birth) can no longer be changed by the user; support can still correct
+-- them with the service role.
+
+-- Usernames
+ALTER TABLE public.user_profile
+DROP CONSTRAINT IF EXISTS user_profile_username_format;
+
+-- NOT VALID: existing usernames are left alone until they are next edited
+ALTER TABLE public.user_profile
+ADD CONSTRAINT user_profile_username_format
+CHECK (username ~ '^[a-z0-9_]{3,20}$') NOT VALID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_profile_username_unique
+ON public.user_profile (lower(username))
+WHERE username IS NOT NULL;
+
+-- Profiles of other users aren't readable, so availability is checked here
+CREATE OR REPLACE FUNCTION public.is_username_available(p_username TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    RETURN NOT EXISTS (
+        SELECT 1 FROM public.user_profile
+        WHERE lower(username) = lower(p_username)
+          AND uid <> auth.uid()
+    );
+END;
+$$;
+
+-- KYC-verified identity fields
+CREATE OR REPLACE FUNCTION public.lock_kyc_verified_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.kyc_status = 'verified'
+       AND auth.uid() = OLD.uid
+       AND (NEW.full_name IS DISTINCT FROM OLD.full_name
+            OR NEW.cnic_number IS DISTINCT FROM OLD.cnic_number
+            OR NEW.dob IS DISTINCT FROM OLD.dob) THEN
+        RAISE EXCEPTION 'Your name, CNIC and date of birth are verified and can only be changed by support';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lock_kyc_verified_fields ON public.user_profile;
+CREATE TRIGGER lock_kyc_verified_fields
+    BEFORE UPDATE ON public.user_profile
+    FOR EACH ROW EXECUTE FUNCTION public.lock_kyc_verified_fields();
+
+-- Avatars
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'avatars',
+    'avatars',
+    true,
+    2097152, -- 2MB limit
+    ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload own avatar" ON storage.objects;
+CREATE POLICY "Users can upload own avatar" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'avatars' AND
+        auth.uid()::text = (storage.foldername(name))[1]
+    );
+
+-- Reads go through the public URL; this is for replacing the file (upsert)
+DROP POLICY IF EXISTS "Users can view own avatar" ON storage.objects;
+CREATE POLICY "Users can view own avatar" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'avatars' AND
+        auth.uid()::text = (storage.foldername(name))[1]
+    );
+
+DROP POLICY IF EXISTS "Users can update own avatar" ON storage.objects;
+CREATE POLICY "Users can update own avatar" ON storage.objects
+    FOR UPDATE USING (
+        bucket_id = 'avatars' AND
+        auth.uid()::text = (storage.foldername(name))[1]
+    );
+
+DROP POLICY IF EXISTS "Users can delete own avatar" ON storage.objects;
+CREATE POLICY "Users can delete own avatar" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'avatars' AND
+        auth.uid()::text = (storage.foldername(name))[1]
+    );
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.is_username_available(TEXT) TO authenticated;
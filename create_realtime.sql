@@ -0,0 +1,22 @@
+-- Realtime updates
+-- Publishes changes to wallets, pkr_deposits and pkr_withdrawals so the app
+-- can update balances and request statuses as they happen. Realtime applies
+-- each table's SELECT policies to the changes it sends, so a user only
+-- receives their own rows.
+
+DO $$
+DECLARE
+    table_name TEXT;
+BEGIN
+    FOREACH table_name IN ARRAY ARRAY['wallets', 'pkr_deposits', 'pkr_withdrawals'] LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime'
+              AND schemaname = 'public'
+              AND tablename = table_name
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+        END IF;
+    END LOOP;
+END;
+$$;
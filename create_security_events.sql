@@ -0,0 +1,367 @@
+-- Security audit log
+-- Append-only record of security-relevant account events, shown to the user
+-- on the Security Activity screen. Rows are written by the triggers and
+-- functions below, never by clients. Each row keeps the device (resolved from
+-- the session in the caller's JWT via user_devices), IP address and user agent
+-- of the request that caused it, when there was one. Events raised by the auth
+-- server itself (e.g. the password hook) have no request metadata.
+
+CREATE TABLE IF NOT EXISTS public.security_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    event_type TEXT NOT NULL,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    device_id TEXT,
+    device_name TEXT,
+    ip_address TEXT,
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.security_events ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own history; there are no write policies
+CREATE POLICY "Users can view their own security events" ON public.security_events
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_security_events_user_created
+    ON public.security_events(user_id, created_at DESC);
+
+-- Record an event with whatever request metadata is available
+CREATE OR REPLACE FUNCTION public.log_security_event(
+    p_user_id UUID,
+    p_event_type TEXT,
+    p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    headers JSONB := NULLIF(current_setting('request.headers', TRUE), '')::JSONB;
+    current_session_id UUID := NULLIF(auth.jwt() ->> 'session_id', '')::UUID;
+    event_device_id TEXT;
+    event_device_name TEXT;
+BEGIN
+    IF p_user_id IS NULL THEN
+        RETURN;
+    END IF;
+
+    IF current_session_id IS NOT NULL THEN
+        SELECT device_id, device_name INTO event_device_id, event_device_name
+        FROM public.user_devices
+        WHERE user_id = p_user_id
+          AND session_id = current_session_id;
+    END IF;
+
+    INSERT INTO public.security_events (user_id, event_type, details, device_id, device_name, ip_address, user_agent)
+    VALUES (
+        p_user_id,
+        p_event_type,
+        COALESCE(p_details, '{}'::jsonb),
+        event_device_id,
+        event_device_name,
+        NULLIF(trim(split_part(COALESCE(headers ->> 'cf-connecting-ip', headers ->> 'x-forwarded-for', ''), ',', 1)), ''),
+        headers ->> 'user-agent'
+    );
+END;
+$$;
+
+-- Failed sign-in steps (password, email code, 2FA code) and lockouts
+CREATE OR REPLACE FUNCTION public.register_login_failure(
+    target_user_id UUID,
+    stage TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    attempts INTEGER;
+    max_attempts INTEGER;
+BEGIN
+    SELECT max_failed_login_attempts INTO max_attempts
+    FROM public.security_config
+    WHERE id = 1;
+
+    UPDATE public.user_profile
+    SET failed_login_attempts = COALESCE(failed_login_attempts, 0) + 1,
+        last_failed_login_at = NOW()
+    WHERE uid = target_user_id
+    RETURNING failed_login_attempts INTO attempts;
+
+    PERFORM public.log_security_event(target_user_id, 'login_failed', jsonb_build_object('stage', stage));
+
+    IF attempts >= max_attempts THEN
+        UPDATE public.user_profile
+        SET is_locked = TRUE,
+            locked_at = NOW(),
+            lock_reason = format('Locked after %s failed sign-in attempts (%s)', attempts, stage)
+        WHERE uid = target_user_id
+          AND COALESCE(is_locked, FALSE) = FALSE;
+    END IF;
+END;
+$$;
+
+-- A new session on a device is a sign-in
+CREATE OR REPLACE FUNCTION public.register_user_device(
+    p_device_id TEXT,
+    p_device_name TEXT DEFAULT NULL,
+    p_platform TEXT DEFAULT NULL,
+    p_app_version TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    current_session_id UUID := (auth.jwt() ->> 'session_id')::UUID;
+    previous_session_id UUID;
+    is_new_session BOOLEAN;
+    session_started_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- A signed-out device stays signed out: its access token is valid until it
+    -- expires, so only a sign-in made after the revocation registers it again
+    SELECT created_at INTO session_started_at
+    FROM auth.sessions
+    WHERE id = current_session_id
+      AND user_id = auth.uid();
+
+    IF session_started_at IS NULL OR EXISTS (
+        SELECT 1 FROM public.user_devices
+        WHERE user_id = auth.uid()
+          AND device_id = p_device_id
+          AND revoked_at >= session_started_at
+    ) THEN
+        RAISE EXCEPTION 'This device has been signed out. Please sign in again'
+            USING ERRCODE = '28000';
+    END IF;
+
+    SELECT session_id INTO previous_session_id
+    FROM public.user_devices
+    WHERE user_id = auth.uid()
+      AND device_id = p_device_id
+      AND revoked_at IS NULL;
+
+    is_new_session := NOT FOUND OR previous_session_id IS DISTINCT FROM current_session_id;
+
+    INSERT INTO public.user_devices (user_id, device_id, device_name, platform, app_version, session_id)
+    VALUES (auth.uid(), p_device_id, p_device_name, p_platform, p_app_version, current_session_id)
+    ON CONFLICT (user_id, device_id) WHERE revoked_at IS NULL DO UPDATE
+    SET device_name = EXCLUDED.device_name,
+        platform = EXCLUDED.platform,
+        app_version = EXCLUDED.app_version,
+        session_id = EXCLUDED.session_id,
+        last_seen_at = NOW();
+
+    IF is_new_session THEN
+        PERFORM public.log_security_event(auth.uid(), 'login', jsonb_build_object('platform', p_platform));
+    END IF;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- 2FA switched on/off and account lock changes
+CREATE OR REPLACE FUNCTION public.log_user_profile_security_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF COALESCE(NEW.two_factor_enabled, FALSE) IS DISTINCT FROM COALESCE(OLD.two_factor_enabled, FALSE) THEN
+        PERFORM public.log_security_event(
+            NEW.uid,
+            CASE WHEN NEW.two_factor_enabled THEN 'two_factor_enabled' ELSE 'two_factor_disabled' END
+        );
+    END IF;
+
+    IF COALESCE(NEW.is_locked, FALSE) IS DISTINCT FROM COALESCE(OLD.is_locked, FALSE) THEN
+        IF NEW.is_locked THEN
+            PERFORM public.log_security_event(NEW.uid, 'account_locked', jsonb_build_object('reason', NEW.lock_reason));
+        ELSE
+            PERFORM public.log_security_event(NEW.uid, 'account_unlocked');
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_user_profile_security_events ON public.user_profile;
+CREATE TRIGGER log_user_profile_security_events
+    AFTER UPDATE OF two_factor_enabled, is_locked ON public.user_profile
+    FOR EACH ROW EXECUTE FUNCTION public.log_user_profile_security_events();
+
+-- Password changes, whether through the app, a reset link or the dashboard
+CREATE OR REPLACE FUNCTION public.log_password_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.encrypted_password IS DISTINCT FROM OLD.encrypted_password THEN
+        PERFORM public.log_security_event(NEW.id, 'password_changed');
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_password_change ON auth.users;
+CREATE TRIGGER log_password_change
+    AFTER UPDATE OF encrypted_password ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.log_password_change();
+
+-- Biometric login turned on or off for a device
+CREATE OR REPLACE FUNCTION public.log_biometric_credential_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.revoked_at IS NULL THEN
+            PERFORM public.log_security_event(OLD.user_id, 'biometric_disabled', jsonb_build_object('device_name', OLD.device_name));
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF NEW.revoked_at IS NULL AND (
+        TG_OP = 'INSERT'
+        OR OLD.revoked_at IS NOT NULL
+        OR NEW.credential_hash IS DISTINCT FROM OLD.credential_hash
+    ) THEN
+        PERFORM public.log_security_event(NEW.user_id, 'biometric_enabled', jsonb_build_object('device_name', NEW.device_name));
+    ELSIF TG_OP = 'UPDATE' AND OLD.revoked_at IS NULL AND NEW.revoked_at IS NOT NULL THEN
+        PERFORM public.log_security_event(NEW.user_id, 'biometric_disabled', jsonb_build_object('device_name', NEW.device_name));
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_biometric_credential_events ON public.biometric_credentials;
+CREATE TRIGGER log_biometric_credential_events
+    AFTER INSERT OR UPDATE OR DELETE ON public.biometric_credentials
+    FOR EACH ROW EXECUTE FUNCTION public.log_biometric_credential_events();
+
+-- Devices signed out from Devices & Sessions
+CREATE OR REPLACE FUNCTION public.log_user_device_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.revoked_at IS NULL AND NEW.revoked_at IS NOT NULL THEN
+        PERFORM public.log_security_event(NEW.user_id, 'device_signed_out', jsonb_build_object('device_name', NEW.device_name));
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_user_device_events ON public.user_devices;
+CREATE TRIGGER log_user_device_events
+    AFTER UPDATE OF revoked_at ON public.user_devices
+    FOR EACH ROW EXECUTE FUNCTION public.log_user_device_events();
+
+-- Bank accounts added, edited or deleted. Only the last 4 IBAN characters are kept.
+CREATE OR REPLACE FUNCTION public.log_bank_account_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    account RECORD;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        account := OLD;
+    ELSE
+        account := NEW;
+    END IF;
+
+    PERFORM public.log_security_event(
+        account.user_id,
+        CASE TG_OP
+            WHEN 'INSERT' THEN 'bank_account_added'
+            WHEN 'UPDATE' THEN 'bank_account_updated'
+            ELSE 'bank_account_deleted'
+        END,
+        jsonb_build_object(
+            'bank_name', account.bank_name,
+            'account_title', account.account_title,
+            'iban_last4', right(account.account_iban, 4)
+        )
+    );
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_bank_account_events ON public.user_bank_accounts;
+CREATE TRIGGER log_bank_account_events
+    AFTER INSERT OR UPDATE OR DELETE ON public.user_bank_accounts
+    FOR EACH ROW EXECUTE FUNCTION public.log_bank_account_events();
+
+-- Transaction PIN set or changed
+CREATE OR REPLACE FUNCTION public.log_transaction_pin_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM public.log_security_event(NEW.user_id, 'transaction_pin_set');
+    ELSIF NEW.pin_hash IS DISTINCT FROM OLD.pin_hash THEN
+        PERFORM public.log_security_event(NEW.user_id, 'transaction_pin_changed');
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_transaction_pin_events ON public.transaction_pins;
+CREATE TRIGGER log_transaction_pin_events
+    AFTER INSERT OR UPDATE OF pin_hash ON public.transaction_pins
+    FOR EACH ROW EXECUTE FUNCTION public.log_transaction_pin_events();
+
+-- Lost-authenticator recovery requests and their outcome
+CREATE OR REPLACE FUNCTION public.log_two_factor_recovery_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        PERFORM public.log_security_event(NEW.user_id, 'two_factor_recovery_requested');
+    ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+        PERFORM public.log_security_event(NEW.user_id, 'two_factor_recovery_' || NEW.status);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_two_factor_recovery_events ON public.two_factor_recoveries;
+CREATE TRIGGER log_two_factor_recovery_events
+    AFTER INSERT OR UPDATE OF status ON public.two_factor_recoveries
+    FOR EACH ROW EXECUTE FUNCTION public.log_two_factor_recovery_events();
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION public.log_security_event(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.register_login_failure(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.register_user_device(TEXT, TEXT, TEXT, TEXT) TO authenticated;
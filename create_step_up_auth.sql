@@ -0,0 +1,455 @@
+-- Step-up authentication for sensitive actions
+-- Before a sensitive action the app collects the factors that
+-- step_up_requirements lists for it and exchanges them for a short-lived,
+-- single-use step-up token (issue_step_up_token). The RPC that performs the
+-- action consumes the token, so skipping the prompt in the client does not
+-- skip the check. The policy here mirrors src/services/stepUpPolicy.ts;
+-- change both together.
+--
+-- This replaces the transaction PIN verification window from
+-- create_transaction_pin.sql: the PIN is now one of the step-up factors.
+--
+-- The email factor is a reauthentication code (supabase.auth.reauthenticate,
+-- the "Reauthentication" email template), not the sign-in OTP: a code sent
+-- to log in can't also confirm a sensitive action. It is checked here against
+-- auth.users, counts failures like a wrong password, and is cleared once used.
+
+CREATE TABLE IF NOT EXISTS public.step_up_tokens (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    action TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    consumed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- No policies: only the SECURITY DEFINER functions below touch this table
+ALTER TABLE public.step_up_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_step_up_tokens_user_id ON public.step_up_tokens(user_id);
+
+ALTER TABLE public.security_config
+ADD COLUMN IF NOT EXISTS step_up_token_seconds INTEGER NOT NULL DEFAULT 300,
+ADD COLUMN IF NOT EXISTS step_up_email_otp_minutes INTEGER NOT NULL DEFAULT 10;
+
+COMMENT ON COLUMN public.security_config.step_up_email_otp_minutes IS
+    'How long a step-up reauthentication code stays valid';
+
+-- Retire the PIN verification window
+DROP TRIGGER IF EXISTS require_transaction_pin_for_bank_accounts ON public.user_bank_accounts;
+DROP FUNCTION IF EXISTS public.require_transaction_pin_for_bank_accounts();
+DROP FUNCTION IF EXISTS public.verify_transaction_pin(TEXT);
+DROP FUNCTION IF EXISTS public.consume_transaction_pin_verification(UUID);
+ALTER TABLE public.transaction_pins DROP COLUMN IF EXISTS verified_at;
+ALTER TABLE public.security_config DROP COLUMN IF EXISTS transaction_pin_window_minutes;
+
+-- check_transaction_pin no longer clears verified_at
+CREATE OR REPLACE FUNCTION public.check_transaction_pin(
+    p_user_id UUID,
+    p_pin TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    pin_record RECORD;
+    config RECORD;
+    attempts INTEGER;
+    cooldown_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+    SELECT * INTO pin_record
+    FROM public.transaction_pins
+    WHERE user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('valid', FALSE, 'is_set', FALSE, 'attempts_left', 0, 'locked_until', NULL);
+    END IF;
+
+    SELECT * INTO config FROM public.security_config WHERE id = 1;
+
+    IF pin_record.locked_until IS NOT NULL AND pin_record.locked_until > NOW() THEN
+        RETURN jsonb_build_object('valid', FALSE, 'is_set', TRUE, 'attempts_left', 0, 'locked_until', pin_record.locked_until);
+    END IF;
+
+    IF p_pin IS NOT NULL AND pin_record.pin_hash = crypt(p_pin, pin_record.pin_hash) THEN
+        UPDATE public.transaction_pins
+        SET failed_attempts = 0,
+            locked_until = NULL
+        WHERE user_id = p_user_id;
+
+        RETURN jsonb_build_object('valid', TRUE, 'is_set', TRUE, 'attempts_left', config.transaction_pin_max_attempts, 'locked_until', NULL);
+    END IF;
+
+    -- A cooldown that has run out starts a fresh count
+    attempts := CASE WHEN pin_record.locked_until IS NOT NULL THEN 1 ELSE pin_record.failed_attempts + 1 END;
+    cooldown_until := NULL;
+
+    IF attempts >= config.transaction_pin_max_attempts THEN
+        cooldown_until := NOW() + make_interval(mins => config.transaction_pin_cooldown_minutes);
+    END IF;
+
+    UPDATE public.transaction_pins
+    SET failed_attempts = attempts,
+        locked_until = cooldown_until
+    WHERE user_id = p_user_id;
+
+    RETURN jsonb_build_object(
+        'valid', FALSE,
+        'is_set', TRUE,
+        'attempts_left', GREATEST(config.transaction_pin_max_attempts - attempts, 0),
+        'locked_until', cooldown_until
+    );
+END;
+$$;
+
+-- Requirements per action. 'second_factor' is TOTP (or a backup code) when
+-- 2FA is enabled, otherwise this device's biometric credential or a
+-- reauthentication code sent by email. Migrations that add a sensitive
+-- action insert its row here rather than redefining step_up_requirements.
+CREATE TABLE IF NOT EXISTS public.step_up_action_requirements (
+    action TEXT PRIMARY KEY,
+    requirements TEXT[] NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- No policies: read through step_up_requirements only
+ALTER TABLE public.step_up_action_requirements ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.step_up_action_requirements (action, requirements) VALUES
+    ('withdraw_pkr', ARRAY['transaction_pin', 'second_factor']),
+    ('add_bank', ARRAY['transaction_pin', 'second_factor']),
+    ('edit_bank', ARRAY['transaction_pin', 'second_factor']),
+    ('delete_bank', ARRAY['transaction_pin', 'second_factor']),
+    ('change_password', ARRAY['password', 'second_factor']),
+    ('disable_2fa', ARRAY['password', 'second_factor'])
+ON CONFLICT (action) DO UPDATE
+SET requirements = EXCLUDED.requirements,
+    updated_at = NOW();
+
+CREATE OR REPLACE FUNCTION public.step_up_requirements(p_action TEXT)
+RETURNS TEXT[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    requirements TEXT[];
+BEGIN
+    SELECT r.requirements INTO requirements
+    FROM public.step_up_action_requirements r
+    WHERE r.action = p_action;
+
+    IF requirements IS NULL THEN
+        RAISE EXCEPTION 'Unknown step-up action: %', p_action;
+    END IF;
+
+    RETURN requirements;
+END;
+$$;
+
+-- Verify the factors for an action and issue a single-use token. Wrong
+-- factors are reported in the result rather than raised so that failure
+-- counters are kept.
+CREATE OR REPLACE FUNCTION public.issue_step_up_token(
+    p_action TEXT,
+    p_password TEXT DEFAULT NULL,
+    p_transaction_pin TEXT DEFAULT NULL,
+    p_otp TEXT DEFAULT NULL,
+    p_device_id TEXT DEFAULT NULL,
+    p_biometric_credential TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    requirements TEXT[];
+    profile RECORD;
+    config RECORD;
+    stored_password TEXT;
+    reauth RECORD;
+    pin_result JSONB;
+    raw_token TEXT;
+    token_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    requirements := public.step_up_requirements(p_action);
+
+    SELECT is_locked, COALESCE(two_factor_enabled, FALSE) AS two_factor_enabled
+    INTO profile
+    FROM public.user_profile
+    WHERE uid = auth.uid();
+
+    IF profile.is_locked THEN
+        RETURN jsonb_build_object('token', NULL, 'factor', NULL, 'message', 'Your account is locked');
+    END IF;
+
+    SELECT * INTO config FROM public.security_config WHERE id = 1;
+
+    IF 'password' = ANY(requirements) THEN
+        SELECT encrypted_password INTO stored_password
+        FROM auth.users
+        WHERE id = auth.uid();
+
+        IF p_password IS NULL OR stored_password IS NULL
+           OR stored_password <> crypt(p_password, stored_password) THEN
+            PERFORM public.register_login_failure(auth.uid(), 'step-up password');
+            RETURN jsonb_build_object('token', NULL, 'factor', 'password', 'message', 'Incorrect password');
+        END IF;
+    END IF;
+
+    IF 'transaction_pin' = ANY(requirements) THEN
+        pin_result := public.check_transaction_pin(auth.uid(), p_transaction_pin);
+        IF NOT (pin_result ->> 'valid')::BOOLEAN THEN
+            RETURN jsonb_build_object('token', NULL, 'factor', 'transaction_pin', 'message', NULL, 'pin', pin_result);
+        END IF;
+    END IF;
+
+    IF 'second_factor' = ANY(requirements) THEN
+        IF profile.two_factor_enabled THEN
+            -- verify_otp counts failures toward the account lockout
+            IF p_otp IS NULL OR NOT public.verify_otp(auth.uid(), p_otp) THEN
+                RETURN jsonb_build_object('token', NULL, 'factor', 'totp', 'message', 'The verification code is incorrect');
+            END IF;
+        ELSIF p_biometric_credential IS NOT NULL THEN
+            UPDATE public.biometric_credentials
+            SET last_used_at = NOW()
+            WHERE user_id = auth.uid()
+              AND device_id = p_device_id
+              AND credential_hash = encode(digest(p_biometric_credential, 'sha256'), 'hex')
+              AND revoked_at IS NULL;
+
+            IF NOT FOUND THEN
+                RETURN jsonb_build_object('token', NULL, 'factor', 'biometric', 'message', 'Biometric login is no longer valid on this device');
+            END IF;
+        ELSE
+            -- Auth keeps the latest reauthentication code as sha224(email || code)
+            SELECT email, reauthentication_token, reauthentication_sent_at
+            INTO reauth
+            FROM auth.users
+            WHERE id = auth.uid()
+            FOR UPDATE;
+
+            IF COALESCE(reauth.reauthentication_token, '') = ''
+               OR reauth.reauthentication_sent_at IS NULL
+               OR reauth.reauthentication_sent_at < NOW() - make_interval(mins => config.step_up_email_otp_minutes) THEN
+                RETURN jsonb_build_object('token', NULL, 'factor', 'email_otp', 'message', 'Email verification expired. Request a new code');
+            END IF;
+
+            IF p_otp IS NULL OR p_otp !~ '^[0-9]{6}$'
+               OR reauth.reauthentication_token <> encode(digest(reauth.email || p_otp, 'sha224'), 'hex') THEN
+                PERFORM public.register_login_failure(auth.uid(), 'step-up email code');
+                RETURN jsonb_build_object('token', NULL, 'factor', 'email_otp', 'message', 'The email code is incorrect');
+            END IF;
+
+            -- Single use
+            UPDATE auth.users
+            SET reauthentication_token = '',
+                reauthentication_sent_at = NULL
+            WHERE id = auth.uid();
+        END IF;
+    END IF;
+
+    raw_token := encode(gen_random_bytes(32), 'hex');
+    token_expires_at := NOW() + make_interval(secs => config.step_up_token_seconds);
+
+    INSERT INTO public.step_up_tokens (user_id, action, token_hash, expires_at)
+    VALUES (auth.uid(), p_action, encode(digest(raw_token, 'sha256'), 'hex'), token_expires_at);
+
+    RETURN jsonb_build_object('token', raw_token, 'expires_at', token_expires_at);
+END;
+$$;
+
+-- Use up a step-up token for an action, or fail the calling statement
+CREATE OR REPLACE FUNCTION public.consume_step_up_token(
+    p_user_id UUID,
+    p_action TEXT,
+    p_token TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+    UPDATE public.step_up_tokens
+    SET consumed_at = NOW()
+    WHERE user_id = p_user_id
+      AND action = p_action
+      AND token_hash = encode(digest(COALESCE(p_token, ''), 'sha256'), 'hex')
+      AND consumed_at IS NULL
+      AND expires_at > NOW();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Verification expired. Please confirm again';
+    END IF;
+END;
+$$;
+
+-- Withdrawals: the caller's own balance only, with a withdraw_pkr token
+DROP FUNCTION IF EXISTS public.process_pkr_withdrawal(uuid, decimal);
+
+CREATE OR REPLACE FUNCTION public.process_pkr_withdrawal(
+    user_id uuid,
+    withdrawal_amount decimal(15,2),
+    step_up_token text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    current_balance decimal(15,2);
+BEGIN
+    IF auth.uid() IS NULL OR auth.uid() <> process_pkr_withdrawal.user_id THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    PERFORM public.consume_step_up_token(process_pkr_withdrawal.user_id, 'withdraw_pkr', step_up_token);
+
+    SELECT pkr_balance
+    INTO current_balance
+    FROM public.wallets
+    WHERE uid = process_pkr_withdrawal.user_id
+    FOR UPDATE;
+
+    IF current_balance IS NULL OR current_balance < withdrawal_amount THEN
+        RETURN false;
+    END IF;
+
+    UPDATE public.wallets
+    SET
+        pkr_balance = pkr_balance - withdrawal_amount,
+        pkr_locked = pkr_locked + withdrawal_amount,
+        updated_at = NOW()
+    WHERE uid = process_pkr_withdrawal.user_id;
+
+    RETURN true;
+END;
+$$;
+
+-- Bank accounts are now changed only through these RPCs
+DROP POLICY IF EXISTS "Users can insert their own bank accounts" ON public.user_bank_accounts;
+DROP POLICY IF EXISTS "Users can update their own bank accounts" ON public.user_bank_accounts;
+DROP POLICY IF EXISTS "Users can delete their own bank accounts" ON public.user_bank_accounts;
+
+-- Add a bank account, or update one when p_bank_account_id is given
+CREATE OR REPLACE FUNCTION public.save_user_bank_account(
+    p_step_up_token TEXT,
+    p_bank_name TEXT,
+    p_account_title TEXT,
+    p_account_iban TEXT,
+    p_is_active BOOLEAN DEFAULT TRUE,
+    p_bank_account_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    saved_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    PERFORM public.consume_step_up_token(
+        auth.uid(),
+        CASE WHEN p_bank_account_id IS NULL THEN 'add_bank' ELSE 'edit_bank' END,
+        p_step_up_token
+    );
+
+    IF p_bank_account_id IS NULL THEN
+        INSERT INTO public.user_bank_accounts (user_id, bank_name, account_title, account_iban, is_active)
+        VALUES (auth.uid(), p_bank_name, p_account_title, p_account_iban, COALESCE(p_is_active, TRUE))
+        RETURNING id INTO saved_id;
+    ELSE
+        UPDATE public.user_bank_accounts
+        SET bank_name = p_bank_name,
+            account_title = p_account_title,
+            account_iban = p_account_iban,
+            is_active = COALESCE(p_is_active, is_active)
+        WHERE id = p_bank_account_id
+          AND user_id = auth.uid()
+        RETURNING id INTO saved_id;
+
+        IF saved_id IS NULL THEN
+            RAISE EXCEPTION 'Bank account not found';
+        END IF;
+    END IF;
+
+    RETURN saved_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_user_bank_account(
+    p_step_up_token TEXT,
+    p_bank_account_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    PERFORM public.consume_step_up_token(auth.uid(), 'delete_bank', p_step_up_token);
+
+    DELETE FROM public.user_bank_accounts
+    WHERE id = p_bank_account_id
+      AND user_id = auth.uid();
+
+    RETURN FOUND;
+END;
+$$;
+
+-- Disabling 2FA: the caller's own account only, with a disable_2fa token
+DROP FUNCTION IF EXISTS disable_2fa(UUID);
+
+CREATE OR REPLACE FUNCTION public.disable_2fa(
+    user_id UUID,
+    step_up_token TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL OR auth.uid() <> disable_2fa.user_id THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    PERFORM public.consume_step_up_token(disable_2fa.user_id, 'disable_2fa', step_up_token);
+
+    UPDATE public.user_profile
+    SET two_factor_enabled = FALSE,
+        two_factor_secret = NULL,
+        backup_codes = NULL
+    WHERE uid = disable_2fa.user_id;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION public.consume_step_up_token(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.issue_step_up_token(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.process_pkr_withdrawal(UUID, DECIMAL, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_user_bank_account(TEXT, TEXT, TEXT, TEXT, BOOLEAN, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_user_bank_account(TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.disable_2fa(UUID, TEXT) TO authenticated;
@@ -0,0 +1,267 @@
+-- Encrypt the TOTP secret at rest
+-- user_profile.two_factor_secret now holds pgp_sym_encrypt ciphertext (BYTEA)
+-- under a key kept in Supabase Vault. Only the SECURITY DEFINER functions
+-- below decrypt it. Column privileges stop clients from reading it (or the
+-- replay marker) at all: select('*') on user_profile is no longer allowed,
+-- so the app selects the columns it needs by name.
+--
+-- The same column privileges limit client UPDATEs to the plain profile
+-- fields; 2FA and lock state change only through the functions.
+--
+-- Setup changes too: generate_2fa_secret refuses to replace the secret while
+-- 2FA is on, and enable_2fa no longer takes the secret from the client. It
+-- turns on the secret generated here, once a code from it has been verified
+-- with verify_2fa_setup_code. verify_totp itself stays internal: it counts no
+-- failures, so signed-in clients reach it only through verify_otp and the
+-- step-up functions.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- One key for all secrets, created on first run
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'totp_encryption_key') THEN
+        PERFORM vault.create_secret(
+            encode(extensions.gen_random_bytes(32), 'base64'),
+            'totp_encryption_key',
+            'Encrypts user_profile.two_factor_secret'
+        );
+    END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.encrypt_totp_secret(p_secret TEXT)
+RETURNS BYTEA
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    encryption_key TEXT;
+BEGIN
+    IF p_secret IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT decrypted_secret INTO encryption_key
+    FROM vault.decrypted_secrets
+    WHERE name = 'totp_encryption_key';
+
+    RETURN pgp_sym_encrypt(p_secret, encryption_key);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decrypt_totp_secret(p_ciphertext BYTEA)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    encryption_key TEXT;
+BEGIN
+    IF p_ciphertext IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT decrypted_secret INTO encryption_key
+    FROM vault.decrypted_secrets
+    WHERE name = 'totp_encryption_key';
+
+    RETURN pgp_sym_decrypt(p_ciphertext, encryption_key);
+END;
+$$;
+
+-- Encrypt existing secrets in place. Functions that only clear the column
+-- (disable_2fa, complete_two_factor_recovery) keep working unchanged.
+ALTER TABLE public.user_profile
+ALTER COLUMN two_factor_secret TYPE BYTEA
+USING public.encrypt_totp_secret(two_factor_secret);
+
+-- Column privileges: every column except the 2FA internals is readable;
+-- only the profile fields are writable
+REVOKE SELECT, INSERT, UPDATE ON public.user_profile FROM anon, authenticated;
+
+DO $$
+DECLARE
+    readable_columns TEXT;
+    writable_columns TEXT;
+BEGIN
+    SELECT string_agg(quote_ident(column_name), ', ')
+    INTO readable_columns
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'user_profile'
+      AND column_name NOT IN ('two_factor_secret', 'two_factor_last_step');
+
+    SELECT string_agg(quote_ident(column_name), ', ')
+    INTO writable_columns
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'user_profile'
+      AND column_name IN ('full_name', 'username', 'phone_number', 'avatar_url', 'address', 'cnic_number', 'dob');
+
+    EXECUTE format('GRANT SELECT (%s) ON public.user_profile TO authenticated', readable_columns);
+    EXECUTE format('GRANT UPDATE (%s) ON public.user_profile TO authenticated', writable_columns);
+END;
+$$;
+
+-- Verify a TOTP code for the calling user against the decrypted secret
+CREATE OR REPLACE FUNCTION verify_totp(user_id UUID, otp TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    encrypted_secret BYTEA;
+    user_secret TEXT;
+    last_step BIGINT;
+    current_step BIGINT;
+    candidate_step BIGINT;
+    drift INTEGER;
+BEGIN
+    -- Users can only verify codes for their own account
+    IF auth.uid() IS DISTINCT FROM user_id THEN
+        RETURN FALSE;
+    END IF;
+
+    IF otp IS NULL OR otp !~ '^[0-9]{6}$' THEN
+        RETURN FALSE;
+    END IF;
+
+    -- Lock the row so two concurrent requests can't both accept the same code
+    SELECT two_factor_secret, two_factor_last_step
+    INTO encrypted_secret, last_step
+    FROM user_profile
+    WHERE uid = user_id
+    FOR UPDATE;
+
+    user_secret := public.decrypt_totp_secret(encrypted_secret);
+    IF user_secret IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    current_step := floor(extract(epoch FROM now()) / 30)::BIGINT;
+
+    FOR drift IN -1..1 LOOP
+        candidate_step := current_step + drift;
+
+        IF (last_step IS NULL OR candidate_step > last_step)
+           AND totp_code(user_secret, candidate_step) = otp THEN
+            UPDATE user_profile
+            SET two_factor_last_step = candidate_step
+            WHERE uid = user_id;
+
+            RETURN TRUE;
+        END IF;
+    END LOOP;
+
+    RETURN FALSE;
+END;
+$$;
+
+-- New secret for 2FA setup. The plaintext is returned once, for the QR code.
+CREATE OR REPLACE FUNCTION generate_2fa_secret(user_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    secret TEXT := '';
+    chars TEXT := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+    random_bytes BYTEA := gen_random_bytes(32);
+    i INTEGER;
+BEGIN
+    IF auth.uid() IS NULL OR auth.uid() <> generate_2fa_secret.user_id THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.user_profile
+        WHERE uid = generate_2fa_secret.user_id AND two_factor_enabled = TRUE
+    ) THEN
+        RAISE EXCEPTION 'Two-factor authentication is already on';
+    END IF;
+
+    -- 32 base32 characters from a CSPRNG rather than random()
+    FOR i IN 0..31 LOOP
+        secret := secret || substr(chars, (get_byte(random_bytes, i) % 32) + 1, 1);
+    END LOOP;
+
+    -- A NULL replay marker also means no code has been verified yet
+    UPDATE public.user_profile
+    SET two_factor_secret = public.encrypt_totp_secret(secret),
+        two_factor_last_step = NULL
+    WHERE uid = generate_2fa_secret.user_id;
+
+    RETURN secret;
+END;
+$$;
+
+-- Check a code against the secret from generate_2fa_secret during setup.
+-- Only while 2FA is off, so it can't be used to guess codes for a live secret.
+CREATE OR REPLACE FUNCTION public.verify_2fa_setup_code(user_id UUID, otp TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL OR auth.uid() <> verify_2fa_setup_code.user_id THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.user_profile
+        WHERE uid = verify_2fa_setup_code.user_id AND two_factor_enabled = TRUE
+    ) THEN
+        RAISE EXCEPTION 'Two-factor authentication is already on';
+    END IF;
+
+    RETURN public.verify_totp(verify_2fa_setup_code.user_id, verify_2fa_setup_code.otp);
+END;
+$$;
+
+-- Turn on the secret from generate_2fa_secret once a code from it was verified
+DROP FUNCTION IF EXISTS enable_2fa(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.enable_2fa(user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL OR auth.uid() <> enable_2fa.user_id THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    UPDATE public.user_profile
+    SET two_factor_enabled = TRUE
+    WHERE uid = enable_2fa.user_id
+      AND two_factor_secret IS NOT NULL
+      AND two_factor_last_step IS NOT NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Verify a code from your authenticator app first';
+    END IF;
+
+    UPDATE public.two_factor_recoveries
+    SET reenrolled_at = NOW()
+    WHERE two_factor_recoveries.user_id = enable_2fa.user_id
+      AND status = 'completed'
+      AND reenrolled_at IS NULL;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION public.encrypt_totp_secret(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.decrypt_totp_secret(BYTEA) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION verify_totp(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_2fa_setup_code(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION generate_2fa_secret(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.enable_2fa(UUID) TO authenticated;
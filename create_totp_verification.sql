@@ -0,0 +1,191 @@
+-- Server-side TOTP verification
+-- Codes are checked against the stored secret inside the database so the
+-- client never needs to read two_factor_secret. A ±1 step (30s) window absorbs
+-- clock drift, and the last accepted step is recorded so a code can't be replayed.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Track the last time step that was successfully used
+ALTER TABLE user_profile
+ADD COLUMN IF NOT EXISTS two_factor_last_step BIGINT;
+
+-- Decode an RFC 4648 base32 string (authenticator secret) into raw bytes
+CREATE OR REPLACE FUNCTION base32_decode(input TEXT)
+RETURNS BYTEA
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    alphabet TEXT := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+    clean TEXT := upper(regexp_replace(input, '[\s=]', '', 'g'));
+    buffer BIGINT := 0;
+    buffer_bits INTEGER := 0;
+    result BYTEA := ''::BYTEA;
+    char_index INTEGER;
+    i INTEGER;
+BEGIN
+    FOR i IN 1..length(clean) LOOP
+        char_index := strpos(alphabet, substr(clean, i, 1)) - 1;
+        IF char_index < 0 THEN
+            RAISE EXCEPTION 'Invalid base32 character in secret';
+        END IF;
+
+        buffer := (buffer << 5) | char_index;
+        buffer_bits := buffer_bits + 5;
+
+        IF buffer_bits >= 8 THEN
+            buffer_bits := buffer_bits - 8;
+            result := result || set_byte('\x00'::BYTEA, 0, ((buffer >> buffer_bits) & 255)::INTEGER);
+            buffer := buffer & ((1::BIGINT << buffer_bits) - 1);
+        END IF;
+    END LOOP;
+
+    RETURN result;
+END;
+$$;
+
+-- Generate the 6-digit TOTP code (RFC 6238, HMAC-SHA1) for a given time step
+CREATE OR REPLACE FUNCTION totp_code(secret TEXT, time_step BIGINT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+    hash BYTEA;
+    hash_offset INTEGER;
+    binary_code BIGINT;
+BEGIN
+    hash := hmac(int8send(time_step), base32_decode(secret), 'sha1');
+    hash_offset := get_byte(hash, 19) & 15;
+
+    binary_code := ((get_byte(hash, hash_offset) & 127)::BIGINT << 24)
+                 | (get_byte(hash, hash_offset + 1)::BIGINT << 16)
+                 | (get_byte(hash, hash_offset + 2)::BIGINT << 8)
+                 | get_byte(hash, hash_offset + 3)::BIGINT;
+
+    RETURN lpad((binary_code % 1000000)::TEXT, 6, '0');
+END;
+$$;
+
+-- Verify a TOTP code for the calling user
+CREATE OR REPLACE FUNCTION verify_totp(user_id UUID, otp TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    user_secret TEXT;
+    last_step BIGINT;
+    current_step BIGINT;
+    candidate_step BIGINT;
+    drift INTEGER;
+BEGIN
+    -- Users can only verify codes for their own account
+    IF auth.uid() IS DISTINCT FROM user_id THEN
+        RETURN FALSE;
+    END IF;
+
+    IF otp IS NULL OR otp !~ '^[0-9]{6}$' THEN
+        RETURN FALSE;
+    END IF;
+
+    -- Lock the row so two concurrent requests can't both accept the same code
+    SELECT two_factor_secret, two_factor_last_step
+    INTO user_secret, last_step
+    FROM user_profile
+    WHERE uid = user_id
+    FOR UPDATE;
+
+    IF user_secret IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    current_step := floor(extract(epoch FROM now()) / 30)::BIGINT;
+
+    FOR drift IN -1..1 LOOP
+        candidate_step := current_step + drift;
+
+        IF (last_step IS NULL OR candidate_step > last_step)
+           AND totp_code(user_secret, candidate_step) = otp THEN
+            UPDATE user_profile
+            SET two_factor_last_step = candidate_step
+            WHERE uid = user_id;
+
+            RETURN TRUE;
+        END IF;
+    END LOOP;
+
+    RETURN FALSE;
+END;
+$$;
+
+-- Reset the replay marker whenever a new secret is generated
+CREATE OR REPLACE FUNCTION generate_2fa_secret(user_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    secret TEXT;
+    chars TEXT := 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+    i INTEGER;
+    random_byte INTEGER;
+BEGIN
+    -- Generate a random 32-character base32 secret
+    secret := '';
+    FOR i IN 1..32 LOOP
+        random_byte := floor(random() * 32) + 1;
+        secret := secret || substr(chars, random_byte, 1);
+    END LOOP;
+
+    -- Update user profile with the secret
+    UPDATE user_profile
+    SET two_factor_secret = secret,
+        two_factor_last_step = NULL
+    WHERE uid = user_id;
+
+    RETURN secret;
+END;
+$$;
+
+-- Verify OTP: backup codes first, then the authenticator code
+CREATE OR REPLACE FUNCTION verify_otp(user_id UUID, otp TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    user_backup_codes TEXT[];
+BEGIN
+    IF auth.uid() IS DISTINCT FROM user_id THEN
+        RETURN FALSE;
+    END IF;
+
+    SELECT backup_codes
+    INTO user_backup_codes
+    FROM user_profile
+    WHERE uid = user_id;
+
+    -- Check if OTP is a backup code
+    IF user_backup_codes IS NOT NULL AND otp = ANY(user_backup_codes) THEN
+        -- Remove used backup code
+        UPDATE user_profile
+        SET backup_codes = array_remove(backup_codes, otp)
+        WHERE uid = user_id;
+
+        RETURN TRUE;
+    END IF;
+
+    RETURN verify_totp(user_id, otp);
+END;
+$$;
+
+-- Grant permissions
+-- No failure counting here, so clients go through verify_otp instead
+REVOKE EXECUTE ON FUNCTION verify_totp(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION verify_otp(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION totp_code(TEXT, BIGINT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION base32_decode(TEXT) FROM PUBLIC;
@@ -0,0 +1,287 @@
+-- Transaction PIN
+-- A 6-digit PIN, separate from the login password, that confirms money
+-- movements and bank account changes. Only a bcrypt hash is stored, in a table
+-- that clients cannot read. The app verifies the PIN with
+-- verify_transaction_pin, which opens a short window that the next withdrawal
+-- or bank account change consumes. Repeated wrong entries start a cooldown.
+
+CREATE TABLE IF NOT EXISTS public.transaction_pins (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    pin_hash TEXT NOT NULL,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- No policies: only the SECURITY DEFINER functions below touch this table
+ALTER TABLE public.transaction_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_transaction_pins_updated_at
+    BEFORE UPDATE ON public.transaction_pins
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.security_config
+ADD COLUMN IF NOT EXISTS transaction_pin_max_attempts INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN IF NOT EXISTS transaction_pin_cooldown_minutes INTEGER NOT NULL DEFAULT 15,
+ADD COLUMN IF NOT EXISTS transaction_pin_window_minutes INTEGER NOT NULL DEFAULT 5;
+
+-- Check a PIN, counting wrong entries. Never raises after counting so the
+-- failure is not rolled back.
+CREATE OR REPLACE FUNCTION public.check_transaction_pin(
+    p_user_id UUID,
+    p_pin TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    pin_record RECORD;
+    config RECORD;
+    attempts INTEGER;
+    cooldown_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+    SELECT * INTO pin_record
+    FROM public.transaction_pins
+    WHERE user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('valid', FALSE, 'is_set', FALSE, 'attempts_left', 0, 'locked_until', NULL);
+    END IF;
+
+    SELECT * INTO config FROM public.security_config WHERE id = 1;
+
+    IF pin_record.locked_until IS NOT NULL AND pin_record.locked_until > NOW() THEN
+        RETURN jsonb_build_object('valid', FALSE, 'is_set', TRUE, 'attempts_left', 0, 'locked_until', pin_record.locked_until);
+    END IF;
+
+    IF p_pin IS NOT NULL AND pin_record.pin_hash = crypt(p_pin, pin_record.pin_hash) THEN
+        UPDATE public.transaction_pins
+        SET failed_attempts = 0,
+            locked_until = NULL
+        WHERE user_id = p_user_id;
+
+        RETURN jsonb_build_object('valid', TRUE, 'is_set', TRUE, 'attempts_left', config.transaction_pin_max_attempts, 'locked_until', NULL);
+    END IF;
+
+    -- A cooldown that has run out starts a fresh count
+    attempts := CASE WHEN pin_record.locked_until IS NOT NULL THEN 1 ELSE pin_record.failed_attempts + 1 END;
+    cooldown_until := NULL;
+
+    IF attempts >= config.transaction_pin_max_attempts THEN
+        cooldown_until := NOW() + make_interval(mins => config.transaction_pin_cooldown_minutes);
+    END IF;
+
+    UPDATE public.transaction_pins
+    SET failed_attempts = attempts,
+        locked_until = cooldown_until,
+        verified_at = NULL
+    WHERE user_id = p_user_id;
+
+    RETURN jsonb_build_object(
+        'valid', FALSE,
+        'is_set', TRUE,
+        'attempts_left', GREATEST(config.transaction_pin_max_attempts - attempts, 0),
+        'locked_until', cooldown_until
+    );
+END;
+$$;
+
+-- Whether the current user has a PIN, and any cooldown in effect
+CREATE OR REPLACE FUNCTION public.get_transaction_pin_status()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    pin_record RECORD;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO pin_record
+    FROM public.transaction_pins
+    WHERE user_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('is_set', FALSE, 'locked_until', NULL);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'is_set', TRUE,
+        'locked_until', CASE WHEN pin_record.locked_until > NOW() THEN pin_record.locked_until END
+    );
+END;
+$$;
+
+-- Set the PIN for the first time, or change it with the current PIN
+CREATE OR REPLACE FUNCTION public.set_transaction_pin(
+    p_new_pin TEXT,
+    p_current_pin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    result JSONB;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF p_new_pin IS NULL OR p_new_pin !~ '^[0-9]{6}$' THEN
+        RAISE EXCEPTION 'Transaction PIN must be 6 digits';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.transaction_pins WHERE user_id = auth.uid()) THEN
+        result := public.check_transaction_pin(auth.uid(), p_current_pin);
+        IF NOT (result ->> 'valid')::BOOLEAN THEN
+            RETURN result;
+        END IF;
+    END IF;
+
+    INSERT INTO public.transaction_pins (user_id, pin_hash)
+    VALUES (auth.uid(), crypt(p_new_pin, gen_salt('bf')))
+    ON CONFLICT (user_id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash,
+        failed_attempts = 0,
+        locked_until = NULL,
+        verified_at = NULL;
+
+    RETURN jsonb_build_object('valid', TRUE, 'is_set', TRUE, 'attempts_left', NULL, 'locked_until', NULL);
+END;
+$$;
+
+-- Verify the PIN before a sensitive action. A correct PIN authorises the next
+-- withdrawal or bank account change within the configured window.
+CREATE OR REPLACE FUNCTION public.verify_transaction_pin(p_pin TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    result JSONB;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    result := public.check_transaction_pin(auth.uid(), p_pin);
+
+    IF (result ->> 'valid')::BOOLEAN THEN
+        UPDATE public.transaction_pins
+        SET verified_at = NOW()
+        WHERE user_id = auth.uid();
+    END IF;
+
+    RETURN result;
+END;
+$$;
+
+-- Use up a recent PIN verification, or fail the calling statement
+CREATE OR REPLACE FUNCTION public.consume_transaction_pin_verification(p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    window_minutes INTEGER;
+BEGIN
+    SELECT transaction_pin_window_minutes INTO window_minutes
+    FROM public.security_config
+    WHERE id = 1;
+
+    UPDATE public.transaction_pins
+    SET verified_at = NULL
+    WHERE user_id = p_user_id
+      AND verified_at > NOW() - make_interval(mins => window_minutes);
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transaction PIN confirmation required';
+    END IF;
+END;
+$$;
+
+-- Bank account changes made by the user need a fresh PIN verification.
+-- Requests without a user JWT (service role, dashboard) are not affected.
+CREATE OR REPLACE FUNCTION public.require_transaction_pin_for_bank_accounts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL THEN
+        PERFORM public.consume_transaction_pin_verification(auth.uid());
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS require_transaction_pin_for_bank_accounts ON public.user_bank_accounts;
+CREATE TRIGGER require_transaction_pin_for_bank_accounts
+    BEFORE INSERT OR UPDATE OR DELETE ON public.user_bank_accounts
+    FOR EACH ROW EXECUTE FUNCTION public.require_transaction_pin_for_bank_accounts();
+
+-- Withdrawals now need a fresh PIN verification and may only move the
+-- caller's own balance
+CREATE OR REPLACE FUNCTION public.process_pkr_withdrawal(
+    user_id uuid,
+    withdrawal_amount decimal(15,2)
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    current_balance decimal(15,2);
+BEGIN
+    IF auth.uid() IS NULL OR auth.uid() <> process_pkr_withdrawal.user_id THEN
+        RAISE EXCEPTION 'Not authorized';
+    END IF;
+
+    PERFORM public.consume_transaction_pin_verification(process_pkr_withdrawal.user_id);
+
+    SELECT pkr_balance
+    INTO current_balance
+    FROM public.wallets
+    WHERE uid = process_pkr_withdrawal.user_id
+    FOR UPDATE;
+
+    IF current_balance IS NULL OR current_balance < withdrawal_amount THEN
+        RETURN false;
+    END IF;
+
+    UPDATE public.wallets
+    SET
+        pkr_balance = pkr_balance - withdrawal_amount,
+        pkr_locked = pkr_locked + withdrawal_amount,
+        updated_at = NOW()
+    WHERE uid = process_pkr_withdrawal.user_id;
+
+    RETURN true;
+END;
+$$;
+
+-- Grant permissions
+REVOKE EXECUTE ON FUNCTION public.check_transaction_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_transaction_pin_verification(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_transaction_pin_status() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_transaction_pin(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_transaction_pin(TEXT) TO authenticated;
@@ -0,0 +1,209 @@
+-- Track the devices/sessions a user is signed in on
+-- AuthContext registers the current device after every sign-in; the Devices &
+-- Sessions screen lists these rows and can revoke them. Revoked rows are kept
+-- as they are; signing in on that device again adds a new row.
+
+CREATE TABLE IF NOT EXISTS public.user_devices (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    device_id TEXT NOT NULL,
+    device_name TEXT,
+    platform TEXT,
+    app_version TEXT,
+    session_id UUID,
+    first_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One active row per device
+ALTER TABLE public.user_devices DROP CONSTRAINT IF EXISTS user_devices_user_id_device_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_devices_active_device
+    ON public.user_devices(user_id, device_id)
+    WHERE revoked_at IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.user_devices ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own devices; all writes go through the functions below
+CREATE POLICY "Users can view their own devices" ON public.user_devices
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_user_devices_user_id ON public.user_devices(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_devices_last_seen_at ON public.user_devices(last_seen_at);
+
+-- Register the calling device for the current session (called on sign-in)
+CREATE OR REPLACE FUNCTION public.register_user_device(
+    p_device_id TEXT,
+    p_device_name TEXT DEFAULT NULL,
+    p_platform TEXT DEFAULT NULL,
+    p_app_version TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    current_session_id UUID := (auth.jwt() ->> 'session_id')::UUID;
+    session_started_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- A signed-out device stays signed out: its access token is valid until it
+    -- expires, so only a sign-in made after the revocation registers it again
+    SELECT created_at INTO session_started_at
+    FROM auth.sessions
+    WHERE id = current_session_id
+      AND user_id = auth.uid();
+
+    IF session_started_at IS NULL OR EXISTS (
+        SELECT 1 FROM public.user_devices
+        WHERE user_id = auth.uid()
+          AND device_id = p_device_id
+          AND revoked_at >= session_started_at
+    ) THEN
+        RAISE EXCEPTION 'This device has been signed out. Please sign in again'
+            USING ERRCODE = '28000';
+    END IF;
+
+    INSERT INTO public.user_devices (user_id, device_id, device_name, platform, app_version, session_id)
+    VALUES (auth.uid(), p_device_id, p_device_name, p_platform, p_app_version, current_session_id)
+    ON CONFLICT (user_id, device_id) WHERE revoked_at IS NULL DO UPDATE
+    SET device_name = EXCLUDED.device_name,
+        platform = EXCLUDED.platform,
+        app_version = EXCLUDED.app_version,
+        session_id = EXCLUDED.session_id,
+        last_seen_at = NOW();
+
+    RETURN TRUE;
+END;
+$$;
+
+-- List the calling user's active devices with biometric status
+CREATE OR REPLACE FUNCTION public.get_user_devices()
+RETURNS TABLE (
+    id UUID,
+    device_id TEXT,
+    device_name TEXT,
+    platform TEXT,
+    app_version TEXT,
+    first_seen_at TIMESTAMP WITH TIME ZONE,
+    last_seen_at TIMESTAMP WITH TIME ZONE,
+    biometric_enabled BOOLEAN,
+    is_current BOOLEAN
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        d.id,
+        d.device_id,
+        d.device_name,
+        d.platform,
+        d.app_version,
+        d.first_seen_at,
+        d.last_seen_at,
+        EXISTS (
+            SELECT 1 FROM public.biometric_credentials b
+            WHERE b.user_id = d.user_id
+              AND b.device_id = d.device_id
+              AND b.revoked_at IS NULL
+        ) AS biometric_enabled,
+        d.session_id IS NOT DISTINCT FROM (auth.jwt() ->> 'session_id')::UUID AS is_current
+    FROM public.user_devices d
+    WHERE d.user_id = auth.uid()
+      AND d.revoked_at IS NULL
+    ORDER BY d.last_seen_at DESC;
+$$;
+
+-- Revoke one device: end its session and disable its biometric credential
+CREATE OR REPLACE FUNCTION public.revoke_user_device(p_device_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    device_record RECORD;
+BEGIN
+    SELECT * INTO device_record
+    FROM public.user_devices
+    WHERE user_id = auth.uid()
+      AND device_id = p_device_id
+      AND revoked_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE public.user_devices
+    SET revoked_at = NOW()
+    WHERE id = device_record.id;
+
+    -- Deleting the auth session invalidates its refresh tokens
+    IF device_record.session_id IS NOT NULL THEN
+        DELETE FROM auth.sessions
+        WHERE id = device_record.session_id
+          AND user_id = auth.uid();
+    END IF;
+
+    UPDATE public.biometric_credentials
+    SET revoked_at = NOW()
+    WHERE user_id = auth.uid()
+      AND device_id = p_device_id
+      AND revoked_at IS NULL;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Revoke every device except the one making the call
+CREATE OR REPLACE FUNCTION public.revoke_other_user_devices()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    current_session_id UUID := (auth.jwt() ->> 'session_id')::UUID;
+    revoked_count INTEGER;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    UPDATE public.biometric_credentials b
+    SET revoked_at = NOW()
+    FROM public.user_devices d
+    WHERE b.user_id = auth.uid()
+      AND d.user_id = b.user_id
+      AND d.device_id = b.device_id
+      AND d.session_id IS DISTINCT FROM current_session_id
+      AND b.revoked_at IS NULL;
+
+    UPDATE public.user_devices
+    SET revoked_at = NOW()
+    WHERE user_id = auth.uid()
+      AND session_id IS DISTINCT FROM current_session_id
+      AND revoked_at IS NULL;
+
+    GET DIAGNOSTICS revoked_count = ROW_COUNT;
+
+    DELETE FROM auth.sessions
+    WHERE user_id = auth.uid()
+      AND id IS DISTINCT FROM current_session_id;
+
+    RETURN revoked_count;
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.register_user_device(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_devices() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_user_device(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_other_user_devices() TO authenticated;
@@ -0,0 +1,206 @@
+-- Cancelling pending withdrawals
+-- A user can cancel their own withdrawal while it is still pending. The
+-- status becomes 'cancelled' and the withdrawal trigger unlocks the amount
+-- back to the available balance in the same transaction. Once an admin moves
+-- it to 'processing' the payout may already be under way, so it can no longer
+-- be cancelled.
+
+ALTER TABLE public.pkr_withdrawals
+DROP CONSTRAINT IF EXISTS pkr_withdrawals_status_check;
+
+ALTER TABLE public.pkr_withdrawals
+ADD CONSTRAINT pkr_withdrawals_status_check
+CHECK (status IN ('pending', 'processing', 'completed', 'declined', 'cancelled'));
+
+CREATE OR REPLACE FUNCTION public.post_pkr_withdrawal_to_ledger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status = OLD.status THEN
+        RETURN NULL;
+    END IF;
+
+    IF OLD.status IN ('completed', 'declined', 'cancelled') THEN
+        RAISE EXCEPTION 'A % withdrawal cannot be reopened', OLD.status;
+    END IF;
+
+    IF NEW.status = 'completed' THEN
+        PERFORM public.post_ledger_movement(
+            'PKR', NEW.amount, NEW.user_id, 'locked', NULL, 'bank', 'withdrawal', NEW.id, 'PKR withdrawal paid out'
+        );
+    ELSIF NEW.status = 'declined' THEN
+        PERFORM public.post_ledger_movement(
+            'PKR', NEW.amount, NEW.user_id, 'locked', NEW.user_id, 'available', 'withdrawal', NEW.id, 'PKR withdrawal declined'
+        );
+    ELSIF NEW.status = 'cancelled' THEN
+        PERFORM public.post_ledger_movement(
+            'PKR', NEW.amount, NEW.user_id, 'locked', NEW.user_id, 'available', 'withdrawal', NEW.id, 'PKR withdrawal cancelled'
+        );
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_pkr_withdrawal(p_withdrawal_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    withdrawal_status TEXT;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Same lock order as request_pkr_withdrawal: wallet, then withdrawal
+    PERFORM 1 FROM public.wallets WHERE uid = auth.uid() FOR UPDATE;
+
+    SELECT status INTO withdrawal_status
+    FROM public.pkr_withdrawals
+    WHERE id = p_withdrawal_id
+      AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Withdrawal not found';
+    END IF;
+
+    IF withdrawal_status = 'processing' THEN
+        RAISE EXCEPTION 'This withdrawal is already being processed and can no longer be cancelled';
+    ELSIF withdrawal_status <> 'pending' THEN
+        RAISE EXCEPTION 'Only pending withdrawals can be cancelled';
+    END IF;
+
+    UPDATE public.pkr_withdrawals
+    SET status = 'cancelled',
+        processed_at = NOW()
+    WHERE id = p_withdrawal_id;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- Cancelled requests don't count towards the daily limit
+CREATE OR REPLACE FUNCTION public.request_pkr_withdrawal(
+    p_bank_account_id UUID,
+    p_amount DECIMAL,
+    p_idempotency_key UUID,
+    p_step_up_token TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    existing RECORD;
+    config RECORD;
+    block_reason TEXT;
+    available DECIMAL(20,2);
+    requested_today DECIMAL(20,2);
+    new_withdrawal_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF p_idempotency_key IS NULL THEN
+        RAISE EXCEPTION 'Missing idempotency key';
+    END IF;
+
+    -- Serialises this user's withdrawal requests, including retries with the
+    -- same key, until this transaction commits
+    SELECT pkr_balance INTO available
+    FROM public.wallets
+    WHERE uid = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Wallet not found';
+    END IF;
+
+    SELECT id, user_bank_account_id, amount INTO existing
+    FROM public.pkr_withdrawals
+    WHERE user_id = auth.uid()
+      AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+        IF existing.user_bank_account_id <> p_bank_account_id OR existing.amount <> p_amount THEN
+            RAISE EXCEPTION 'This request was already used for a different withdrawal';
+        END IF;
+        RETURN existing.id;
+    END IF;
+
+    block_reason := public.withdrawal_block_reason(auth.uid());
+    IF block_reason IS NOT NULL THEN
+        RAISE EXCEPTION '%', block_reason;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.user_bank_accounts
+        WHERE id = p_bank_account_id
+          AND user_id = auth.uid()
+          AND is_active = TRUE
+    ) THEN
+        RAISE EXCEPTION 'Choose one of your active bank accounts';
+    END IF;
+
+    SELECT pkr_withdrawal_min_amount, pkr_withdrawal_max_amount, pkr_withdrawal_daily_limit
+    INTO config
+    FROM public.security_config
+    WHERE id = 1;
+
+    IF p_amount IS NULL OR p_amount <> round(p_amount, 2) THEN
+        RAISE EXCEPTION 'Amounts can have at most two decimal places';
+    END IF;
+
+    IF p_amount < config.pkr_withdrawal_min_amount THEN
+        RAISE EXCEPTION 'Minimum withdrawal amount is Rs. %', config.pkr_withdrawal_min_amount;
+    END IF;
+
+    IF p_amount > config.pkr_withdrawal_max_amount THEN
+        RAISE EXCEPTION 'Maximum withdrawal amount is Rs. %', config.pkr_withdrawal_max_amount;
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO requested_today
+    FROM public.pkr_withdrawals
+    WHERE user_id = auth.uid()
+      AND status NOT IN ('declined', 'cancelled')
+      AND created_at > NOW() - INTERVAL '24 hours';
+
+    IF requested_today + p_amount > config.pkr_withdrawal_daily_limit THEN
+        RAISE EXCEPTION 'This would exceed your daily withdrawal limit of Rs. % (Rs. % left)',
+            config.pkr_withdrawal_daily_limit,
+            GREATEST(config.pkr_withdrawal_daily_limit - requested_today, 0);
+    END IF;
+
+    PERFORM public.consume_step_up_token(auth.uid(), 'withdraw_pkr', p_step_up_token);
+
+    IF available < p_amount THEN
+        RAISE EXCEPTION 'Insufficient balance';
+    END IF;
+
+    INSERT INTO public.pkr_withdrawals (user_id, user_bank_account_id, amount, status, idempotency_key)
+    VALUES (auth.uid(), p_bank_account_id, p_amount, 'pending', p_idempotency_key)
+    RETURNING id INTO new_withdrawal_id;
+
+    PERFORM public.post_ledger_movement(
+        'PKR', p_amount,
+        auth.uid(), 'available',
+        auth.uid(), 'locked',
+        'withdrawal', new_withdrawal_id, 'PKR withdrawal requested'
+    );
+
+    RETURN new_withdrawal_id;
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.cancel_pkr_withdrawal(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_pkr_withdrawal(UUID, DECIMAL, UUID, TEXT) TO authenticated;
@@ -0,0 +1,149 @@
+-- Atomic PKR withdrawal requests
+-- request_pkr_withdrawal checks the bank account and limits, locks the amount
+-- in the ledger and creates the pkr_withdrawals row in one transaction, so a
+-- failure can no longer leave funds locked without a request. It replaces
+-- process_pkr_withdrawal plus a client-side insert; users can no longer
+-- write pkr_withdrawals directly.
+--
+-- The app sends an idempotency key it generates once per withdrawal. Calling
+-- again with the same key returns the withdrawal already created instead of
+-- making a second one, so a double tap or a retry after a dropped response is
+-- safe.
+--
+-- Limits live in security_config: a minimum and maximum per request, and a
+-- cap on the total requested in any 24 hours (declined requests don't count).
+
+ALTER TABLE public.security_config
+ADD COLUMN IF NOT EXISTS pkr_withdrawal_min_amount DECIMAL(20,2) NOT NULL DEFAULT 100,
+ADD COLUMN IF NOT EXISTS pkr_withdrawal_max_amount DECIMAL(20,2) NOT NULL DEFAULT 500000,
+ADD COLUMN IF NOT EXISTS pkr_withdrawal_daily_limit DECIMAL(20,2) NOT NULL DEFAULT 1000000;
+
+ALTER TABLE public.pkr_withdrawals
+ADD COLUMN IF NOT EXISTS idempotency_key UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pkr_withdrawals_idempotency_key
+ON public.pkr_withdrawals (user_id, idempotency_key)
+WHERE idempotency_key IS NOT NULL;
+
+-- Rows are only created by request_pkr_withdrawal
+DROP POLICY IF EXISTS "Users can create their own withdrawal requests" ON public.pkr_withdrawals;
+DROP POLICY IF EXISTS "Users can update their own pending withdrawals" ON public.pkr_withdrawals;
+
+DROP FUNCTION IF EXISTS public.process_pkr_withdrawal(UUID, DECIMAL, TEXT);
+
+CREATE OR REPLACE FUNCTION public.request_pkr_withdrawal(
+    p_bank_account_id UUID,
+    p_amount DECIMAL,
+    p_idempotency_key UUID,
+    p_step_up_token TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    existing RECORD;
+    config RECORD;
+    block_reason TEXT;
+    available DECIMAL(20,2);
+    requested_today DECIMAL(20,2);
+    new_withdrawal_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF p_idempotency_key IS NULL THEN
+        RAISE EXCEPTION 'Missing idempotency key';
+    END IF;
+
+    -- Serialises this user's withdrawal requests, including retries with the
+    -- same key, until this transaction commits
+    SELECT pkr_balance INTO available
+    FROM public.wallets
+    WHERE uid = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Wallet not found';
+    END IF;
+
+    SELECT id, user_bank_account_id, amount INTO existing
+    FROM public.pkr_withdrawals
+    WHERE user_id = auth.uid()
+      AND idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+        IF existing.user_bank_account_id <> p_bank_account_id OR existing.amount <> p_amount THEN
+            RAISE EXCEPTION 'This request was already used for a different withdrawal';
+        END IF;
+        RETURN existing.id;
+    END IF;
+
+    block_reason := public.withdrawal_block_reason(auth.uid());
+    IF block_reason IS NOT NULL THEN
+        RAISE EXCEPTION '%', block_reason;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.user_bank_accounts
+        WHERE id = p_bank_account_id
+          AND user_id = auth.uid()
+          AND is_active = TRUE
+    ) THEN
+        RAISE EXCEPTION 'Choose one of your active bank accounts';
+    END IF;
+
+    SELECT pkr_withdrawal_min_amount, pkr_withdrawal_max_amount, pkr_withdrawal_daily_limit
+    INTO config
+    FROM public.security_config
+    WHERE id = 1;
+
+    IF p_amount IS NULL OR p_amount <> round(p_amount, 2) THEN
+        RAISE EXCEPTION 'Amounts can have at most two decimal places';
+    END IF;
+
+    IF p_amount < config.pkr_withdrawal_min_amount THEN
+        RAISE EXCEPTION 'Minimum withdrawal amount is Rs. %', config.pkr_withdrawal_min_amount;
+    END IF;
+
+    IF p_amount > config.pkr_withdrawal_max_amount THEN
+        RAISE EXCEPTION 'Maximum withdrawal amount is Rs. %', config.pkr_withdrawal_max_amount;
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO requested_today
+    FROM public.pkr_withdrawals
+    WHERE user_id = auth.uid()
+      AND status <> 'declined'
+      AND created_at > NOW() - INTERVAL '24 hours';
+
+    IF requested_today + p_amount > config.pkr_withdrawal_daily_limit THEN
+        RAISE EXCEPTION 'This would exceed your daily withdrawal limit of Rs. % (Rs. % left)',
+            config.pkr_withdrawal_daily_limit,
+            GREATEST(config.pkr_withdrawal_daily_limit - requested_today, 0);
+    END IF;
+
+    PERFORM public.consume_step_up_token(auth.uid(), 'withdraw_pkr', p_step_up_token);
+
+    IF available < p_amount THEN
+        RAISE EXCEPTION 'Insufficient balance';
+    END IF;
+
+    INSERT INTO public.pkr_withdrawals (user_id, user_bank_account_id, amount, status, idempotency_key)
+    VALUES (auth.uid(), p_bank_account_id, p_amount, 'pending', p_idempotency_key)
+    RETURNING id INTO new_withdrawal_id;
+
+    PERFORM public.post_ledger_movement(
+        'PKR', p_amount,
+        auth.uid(), 'available',
+        auth.uid(), 'locked',
+        'withdrawal', new_withdrawal_id, 'PKR withdrawal requested'
+    );
+
+    RETURN new_withdrawal_id;
+END;
+$$;
+
+-- Grant permissions
+GRANT EXECUTE ON FUNCTION public.request_pkr_withdrawal(UUID, DECIMAL, UUID, TEXT) TO authenticated;
@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+// Builds the breached password list used by the password policy from the
+// SecLists top-100k list (Passwords/Common-Credentials/
+// 10-million-password-list-top-100000.txt) plus the local additions in
+// breached-passwords-extra.txt, and writes:
+//
+//   src/services/breachedPasswords.ts  Bloom filter for the app
+//   seed_breached_passwords.sql        exact list for the breached_passwords table
+//
+// Usage: node scripts/generate-breached-passwords.js <top-100k list>
+//
+// The policy compares the whole password (at least 10 characters) and its
+// letters-only core (at least 4, starting and ending with a letter), so
+// entries that can't match either way are left out.
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.join(__dirname, '..');
+const FALSE_POSITIVE_RATE = 0.0001;
+const SQL_ROWS_PER_INSERT = 500;
+const SQL_ROWS_PER_LINE = 8;
+
+// Same hashing as src/services/bloomFilter.ts
+const fnv1a = (value, seed) => {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const bloomFilterIndexes = (value, hashCount, bitCount) => {
+  const h1 = fnv1a(value, 0x811c9dc5);
+  const h2 = fnv1a(value, 0x5bd1e995) | 1;
+  const indexes = [];
+  for (let i = 0; i < hashCount; i++) {
+    indexes.push(((h1 + Math.imul(i, h2)) >>> 0) % bitCount);
+  }
+  return indexes;
+};
+
+const readList = file =>
+  fs.readFileSync(file, 'utf8')
+    .split(/\r?\n/)
+    .map(line => line.trim().toLowerCase())
+    .filter(Boolean);
+
+const canMatch = password =>
+  password.length >= 10 || (password.length >= 4 && /^[a-z](.*[a-z])?$/.test(password));
+
+const main = () => {
+  const source = process.argv[2];
+  if (!source) {
+    console.error('Usage: node scripts/generate-breached-passwords.js <top-100k list>');
+    process.exit(1);
+  }
+
+  const passwords = [...new Set([
+    ...readList(source).slice(0, 100000),
+    ...readList(path.join(__dirname, 'breached-passwords-extra.txt')),
+  ])]
+    .filter(canMatch)
+    .sort();
+
+  const bitCount = Math.ceil((-passwords.length * Math.log(FALSE_POSITIVE_RATE)) / Math.LN2 ** 2);
+  const hashCount = Math.round((bitCount / passwords.length) * Math.LN2);
+  const bits = new Uint8Array(Math.ceil(bitCount / 8));
+  for (const password of passwords) {
+    for (const index of bloomFilterIndexes(password, hashCount, bitCount)) {
+      bits[index >> 3] |= 1 << (index & 7);
+    }
+  }
+
+  const base64Lines = Buffer.from(bits).toString('base64').match(/.{1,100}/g);
+  fs.writeFileSync(
+    path.join(ROOT, 'src/services/breachedPasswords.ts'),
+    [
+      '// Generated by scripts/generate-breached-passwords.js - do not edit.',
+      '//',
+      `// Bloom filter of ${passwords.length} breached passwords (lowercase): the SecLists`,
+      '// top-100k list and local additions, the same list as the breached_passwords',
+      `// table (seed_breached_passwords.sql). About 1 in ${Math.round(1 / FALSE_POSITIVE_RATE)} other passwords is`,
+      '// reported as breached; the server check is exact.',
+      "import { createBloomFilter } from './bloomFilter';",
+      '',
+      `const BIT_COUNT = ${bitCount};`,
+      `const HASH_COUNT = ${hashCount};`,
+      '',
+      'const BITS = [',
+      ...base64Lines.map(line => `  '${line}',`),
+      "].join('');",
+      '',
+      'export const BREACHED_PASSWORDS = createBloomFilter(BITS, BIT_COUNT, HASH_COUNT);',
+      '',
+    ].join('\n')
+  );
+
+  const quote = password => `('${password.replace(/'/g, "''")}')`;
+  const inserts = [];
+  for (let i = 0; i < passwords.length; i += SQL_ROWS_PER_INSERT) {
+    const rows = passwords.slice(i, i + SQL_ROWS_PER_INSERT).map(quote);
+    const lines = [];
+    for (let j = 0; j < rows.length; j += SQL_ROWS_PER_LINE) {
+      lines.push('    ' + rows.slice(j, j + SQL_ROWS_PER_LINE).join(', '));
+    }
+    inserts.push(
+      'INSERT INTO public.breached_passwords (password) VALUES\n' +
+        lines.join(',\n') +
+        '\nON CONFLICT (password) DO NOTHING;'
+    );
+  }
+  fs.writeFileSync(
+    path.join(ROOT, 'seed_breached_passwords.sql'),
+    [
+      '-- Breached passwords for password_policy_violation (create_password_policy.sql)',
+      '-- Generated by scripts/generate-breached-passwords.js - do not edit. Run after',
+      `-- create_password_policy.sql. ${passwords.length} entries: the SecLists top-100k list and`,
+      '-- local additions, lowercase, leaving out those the policy check can never',
+      '-- match. The app checks the same list through a Bloom filter.',
+    ].join('\n') + '\n\n' + inserts.join('\n\n') + '\n'
+  );
+
+  console.log(`${passwords.length} passwords, ${bits.length} byte filter with ${hashCount} hashes`);
+};
+
+main();
@@ -0,0 +1,6020 @@
+-- Breached passwords for password_policy_violation (create_password_policy.sql)
+-- Generated by scripts/generate-breached-passwords.js - do not edit. Run after
+-- create_password_policy.sql. 45547 entries: the SecLists top-100k list and
+-- local additions, lowercase, leaving out those the policy check can never
+-- match. The app checks the same list through a Bloom filter.
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('..qlvvcvdeero'), ('0000000000'), ('000000000000'), ('0000000000d'), ('0000000000o'), ('000777fffa'), ('0102030405'), ('010203040506'),
+    ('0123456789'), ('01234567890'), ('012345678910'), ('0123654789'), ('0123698745'), ('014702580369'), ('0147258369'), ('0147852369'),
+    ('0147896325'), ('0192837465'), ('01telemike01'), ('02987654321'), ('050605rostik'), ('0528325452mr'), ('070793monolit'), ('0987612345'),
+    ('0987654321'), ('0987654321a'), ('0987654321q'), ('0995359291'), ('0cdh0v99ue'), ('0o9i8u7y6t'), ('100894olol'), ('1010101010'),
+    ('1010810108'), ('1020304050'), ('102030405060'), ('1029384756'), ('1029384756q'), ('10293847qp'), ('10987654321'), ('1111111111'),
+    ('11111111111'), ('111111111111'), ('1111111111111'), ('111111111111111'), ('11111111111111111111'), ('1111111111a'), ('1111111111q'), ('1111111111zz'),
+    ('1111122222'), ('11111aaaaa'), ('1112131415'), ('111222333000'), ('111222333444'), ('111222333444555'), ('111222333a'), ('111222333q'),
+    ('1122112211'), ('1122334455'), ('112233445566'), ('1123581321'), ('112358132134'), ('1133557799'), ('1212121212'), ('1212312121'),
+    ('1213141516'), ('1213141516171819'), ('1223334444'), ('122333444455555'), ('1223505sayana'), ('123123123123'), ('123123123123123'), ('1231231234'),
+    ('123123123a'), ('123123123q'), ('123123123z'), ('123123qweqwe'), ('123321123321'), ('123321456654'), ('123321qweewq'), ('123412341234'),
+    ('1234509876'), ('1234512345'), ('123451234512345'), ('1234554321'), ('1234554321a'), ('1234554321q'), ('123456123456'), ('1234562000'),
+    ('12345654321'), ('123456654321'), ('123456654321a'), ('12345672000'), ('12345677654321'), ('1234567812345678'), ('123456782000'), ('1234567887654321'),
+    ('123456789*'), ('123456789.'), ('1234567890'), ('1234567890-'), ('12345678900'), ('123456789000'), ('12345678900987654321'), ('12345678901'),
+    ('123456789012'), ('1234567890123'), ('12345678901234567890'), ('1234567890987654321'), ('1234567890a'), ('1234567890d'), ('1234567890g'), ('1234567890l'),
+    ('1234567890m'), ('1234567890o'), ('1234567890p'), ('1234567890q'), ('1234567890qaz'), ('1234567890qw'), ('1234567890qwe'), ('1234567890qwerty'),
+    ('1234567890qwertyuiop'), ('1234567890s'), ('1234567890v'), ('1234567890w'), ('1234567890z'), ('1234567890zzz'), ('1234567891'), ('12345678910'),
+    ('123456789101'), ('1234567891011'), ('123456789101112'), ('12345678912'), ('123456789123'), ('123456789123456'), ('123456789123456789'), ('1234567892000'),
+    ('12345678987654321'), ('1234567899'), ('123456789987'), ('1234567899876543'), ('123456789987654321'), ('12345678999'), ('123456789a'), ('123456789aa'),
+    ('123456789aaa'), ('123456789abc'), ('123456789as'), ('123456789asd'), ('123456789azat'), ('123456789b'), ('123456789c'), ('123456789d'),
+    ('123456789e'), ('123456789f'), ('123456789g'), ('123456789i'), ('123456789j'), ('123456789k'), ('123456789l'), ('123456789m'),
+    ('123456789n'), ('123456789o'), ('123456789p'), ('123456789q'), ('123456789qaz'), ('123456789qq'), ('123456789qqq'), ('123456789qw'),
+    ('123456789qwe'), ('123456789qwer'), ('123456789qwerty'), ('123456789r'), ('123456789s'), ('123456789t'), ('123456789v'), ('123456789w'),
+    ('123456789x'), ('123456789y'), ('123456789z'), ('123456789zx'), ('123456789zxc'), ('123456789zz'), ('12345678qwe'), ('12345678qwertyu'),
+    ('1234567qwerty'), ('1234567qwertyu'), ('123456qwer'), ('123456qwert'), ('123456qwerty'), ('123456zxcvbn'), ('12345abcde'), ('12345asdfg'),
+    ('12345q12345'), ('12345qazwsx'), ('12345qwert'), ('12345qwert7'), ('12345qwerty'), ('12345trewq'), ('12345zxcvb'), ('1234qw1234qw'),
+    ('1234qwerasdf'), ('1234qwerasdfzxcv'), ('1234qwerty'), ('1236547890'), ('123654789a'), ('1236987005'), ('12369874123'), ('123698745a'),
+    ('123ewqasdcxz'), ('123hfjdk147'), ('123qazwsxedc'), ('123qwe123qwe'), ('123qwe456rty'), ('123qweasdzx'), ('123qweasdzxc'), ('123qwerty123'),
+    ('123qwerty456'), ('123qwertyuiop'), ('123sas4758'), ('125712571257d'), ('12andriy14'), ('12qw34er56ty'), ('1302alex1994'), ('1313131313'),
+    ('131313131313'), ('1324354657'), ('1324354657687980'), ('132forever'), ('1346798520'), ('1357908642'), ('1357913579'), ('1357924680'),
+    ('1357997531'), ('141312190296q'), ('1472583690'), ('147258369a'), ('147258369q'), ('1478963215'), ('1488ss1488'), ('14bestlist'),
+    ('159357159357'), ('159753159753'), ('1597532486'), ('159753258456'), ('159753456852'), ('17171717aa'), ('1928374650'), ('1928374655'),
+    ('192837465q'), ('193570356033'), ('193711101994a'), ('1958proman'), ('1986irachka'), ('198719871987'), ('198919891989'), ('1994200414'),
+    ('19952009sa'), ('19960610ilja'), ('19mtpgam19'), ('1a2a3a4a5a'), ('1a2a3a4a5a6a'), ('1a2b3c4d5e'), ('1a2s3d4f5g'), ('1a2s3d4f5g6h'),
+    ('1pass1page'), ('1q2q3q4q5q'), ('1q2w3e4r5t'), ('1q2w3e4r5t6y'), ('1q3e5t7u9o'), ('1qa2ws3ed4rf'), ('1qa2ws3ed4rf5tg'), ('1qaz1qaz1qaz'),
+    ('1qaz2wsx3ed'), ('1qaz2wsx3edc'), ('1qaz2wsx3edc4rfv'), ('1qazwsxedc'), ('1qazxsw23edc'), ('1qazxsw23edcvfr4'), ('1qwertyuiop'), ('1rus27540102'),
+    ('1z2x3c4v5b'), ('20102010ss'), ('20162016up'), ('2143658709'), ('2222222222'), ('2222333344445555'), ('2244668800'), ('2267137151'),
+    ('23176djivanfros'), ('2347172123'), ('23wkoa0fp78dk'), ('2468013579'), ('2507905048'), ('2606642yra'), ('26429vadim'), ('277rte87hryloitru'),
+    ('2dumb2live'), ('2pacshakur'), ('3012292113'), ('30secondstomars'), ('31217221027711'), ('31321dj51982'), ('3141592654'), ('3216732167'),
+    ('3240500777'), ('32615948worms'), ('3322607093'), ('3333333333'), ('3454051maksim'), ('3478526129'), ('38gjgeuftd'), ('3f3fpht7op'),
+    ('3rjs1la7qe'), ('3syqo15hil'), ('413276191q'), ('41d8cd98f00b'), ('420842084208555'), ('4294967296'), ('42qwerty42'), ('4444444444'),
+    ('4465134444'), ('456456456q'), ('4648246482'), ('4815162342'), ('4815162342a'), ('4815162342lf'), ('4815162342lost'), ('4815162342q'),
+    ('4815162342s'), ('4815162342z'), ('4904s677075'), ('4rdf_king7'), ('51051051051'), ('5152535455'), ('541233432442'), ('5432112345'),
+    ('5432167890'), ('54322q22345'), ('5544332211'), ('5555555555'), ('5566778899'), ('5647382910'), ('5858855abc'), ('59382113kevinp'),
+    ('5hsu75kpot'), ('5t4r3e2w1q'), ('6215mila6215'), ('6666666666'), ('671fsa75yt'), ('675675675a'), ('68iypneg6u'), ('6969696969'),
+    ('70780070780'), ('7410258963'), ('7410852963'), ('7418529630'), ('741852963q'), ('742617000027'), ('7777755102q'), ('7777777777'),
+    ('777777777777'), ('787898mich'), ('7894561230'), ('789456123a'), ('789456123q'), ('7elephants'), ('7jokx7b9du'), ('7ugd5hip2j'),
+    ('80070633pc'), ('80361665abc'), ('80633459472qw'), ('80637852730'), ('80663635606'), ('80672091913'), ('80679047880'), ('8096468644q'),
+    ('80966095182z'), ('80969260620'), ('80972694711'), ('80988218126'), ('80990606390'), ('87654321vv'), ('87e5nclizry'), ('88002000600'),
+    ('8888888888'), ('89015173454'), ('89023346574'), ('89032073168'), ('89055521933'), ('89057003343'), ('89063032220m'), ('89128830153'),
+    ('89132664230'), ('89172735872'), ('89181502334'), ('89211375759'), ('89231243658s'), ('89600506779'), ('89614774181'), ('89876065093rax'),
+    ('89semtsriuty'), ('8phrowz622'), ('8phrowz624'), ('9021090210'), ('9085084232'), ('9085603566'), ('9105425888'), ('9293709b13'),
+    ('92k2cizcdp'), ('951753852456'), ('9638527410'), ('9731553197'), ('9874563210'), ('9876543210'), ('987654321a'), ('987654321d'),
+    ('987654321g'), ('987654321q'), ('987654321w'), ('987654321z'), ('989244342a'), ('9988776655'), ('999111999q'), ('9999999999'),
+    ('99999999999'), ('999999999999'), ('99strenght'), ('9z5ve9rrcz'), ('a123456789'), ('a1234567890'), ('a123456789a'), ('a123456a'),
+    ('a123456b'), ('a123456z'), ('a12345a'), ('a1234a'), ('a1234b'), ('a1a1a'), ('a1a2a3a'), ('a1a2a3a4a5'),
+    ('a1b2c'), ('a1b2c3d'), ('a1b2c3d4e5'), ('a1s2d3f'), ('a1s2d3f4g5'), ('a1s2d3f4g5h6'), ('a32tv8ls'), ('a3eilm2s2y'),
+    ('a3jtni'), ('a4tech'), ('a514527514'), ('a550777954'), ('a58wtjuz4u'), ('a6pihd'), ('a789456123'), ('a9387670a'),
+    ('a987654321'), ('aa1111aa'), ('aa123456s'), ('aaa123a'), ('aaa123aaa'), ('aaaa'), ('aaaaa'), ('aaaaaa'),
+    ('aaaaaaa'), ('aaaaaaaa'), ('aaaaaaaaa'), ('aaaaaaaaaa'), ('aaaaaaaaaaa'), ('aaaaaaaaaaaa'), ('aaaaaas'), ('aaaabbbb'),
+    ('aaaassss'), ('aaabbb'), ('aaabbbccc'), ('aaaddd'), ('aaasss'), ('aaazzz'), ('aabbcc'), ('aabbccdd'),
+    ('aachen'), ('aadams'), ('aalborg'), ('aaliyah'), ('aamaax'), ('aapjes'), ('aardvark'), ('aaro'),
+    ('aaron'), ('aaronb'), ('aarong'), ('aarons'), ('aass'), ('aassaa'), ('aassdd'), ('aassddff'),
+    ('aaurafmf'), ('abab'), ('ababab'), ('abababab')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('ababagalamaga'), ('abacab'), ('abacabb'), ('abacus'), ('abadan'), ('abaddon'), ('abagail'), ('abakan'),
+    ('abalone'), ('abandon'), ('abarth'), ('abba'), ('abbaabba'), ('abbas'), ('abbasov'), ('abbey'),
+    ('abbeyroa'), ('abbeyroad'), ('abbie'), ('abbot'), ('abbott'), ('abby'), ('abbyabby'), ('abbydog'),
+    ('abbygirl'), ('abc123456789'), ('abc123a'), ('abc123abc'), ('abc123abc123'), ('abc123de'), ('abcabc'), ('abccba'),
+    ('abcd'), ('abcd123456'), ('abcdabcd'), ('abcde'), ('abcde12345'), ('abcdef'), ('abcdefg'), ('abcdefgh'),
+    ('abcdefghi'), ('abcdefghij'), ('abcdefghijk'), ('abcdefghijkl'), ('abcjm'), ('abcxyz'), ('abdul'), ('abdula'),
+    ('abdulla'), ('abdullah'), ('abdullayev'), ('abeatle'), ('abeille'), ('abel'), ('abelard'), ('abercrom'),
+    ('abercrombie'), ('aberdeen'), ('abfkrf'), ('abgrtyu'), ('abhishek'), ('abigai'), ('abigail'), ('abigale'),
+    ('abihsot'), ('ability'), ('abingdon'), ('abington'), ('abiodun'), ('abitch'), ('abkbgg'), ('abkbvjy'),
+    ('able'), ('ableable'), ('ablett'), ('abner'), ('abnormal'), ('abnrgr'), ('abogado'), ('about'),
+    ('above'), ('abpbrf'), ('abra'), ('abracada'), ('abracadabr'), ('abracadabra'), ('abraham'), ('abrakadabra'),
+    ('abramo'), ('abramov'), ('abramova'), ('abrams'), ('abraxas'), ('abroad'), ('abrupt'), ('absalom'),
+    ('absent'), ('absinthe'), ('absolut'), ('absolute'), ('absolutely'), ('abstr'), ('abstract'), ('absurd'),
+    ('abubakar'), ('abubakr'), ('abudfv'), ('abuela'), ('abuelita'), ('abuelo'), ('abulafia'), ('abundance'),
+    ('abuse'), ('abused'), ('abuser'), ('abyfycbcn'), ('abyss'), ('ac2zxdty'), ('acacia'), ('academia'),
+    ('academic'), ('academy'), ('acadia'), ('acapulco'), ('acarrids'), ('acc3ss'), ('accent'), ('accept'),
+    ('acces'), ('access'), ('accessibilit'), ('accessme'), ('accessno'), ('accident'), ('acclaim'), ('accobra'),
+    ('accord'), ('accordex'), ('accoun'), ('account'), ('accounta'), ('accountant'), ('accountbloc'), ('accounti'),
+    ('accounting'), ('accounts'), ('accreader'), ('accura'), ('accurate'), ('accusync'), ('acdc'), ('acdcacdc'),
+    ('acdeehan'), ('ace2luv'), ('aceace'), ('acehigh'), ('aceman'), ('acer'), ('aceracer'), ('acerview'),
+    ('aces'), ('acesfull'), ('aceshigh'), ('acess'), ('acetate'), ('acetone'), ('acheron'), ('achieve'),
+    ('achiever'), ('achill'), ('achille'), ('achilles'), ('achilleus'), ('achmed'), ('achtung'), ('acid'),
+    ('acidbath'), ('acidburn'), ('acidic'), ('acidrain'), ('acinom'), ('acissej'), ('ackack'), ('ackbar'),
+    ('ackerman'), ('acls2h'), ('acme'), ('acmila'), ('acmilan'), ('acolyte'), ('acorn'), ('acorns'),
+    ('acosta'), ('acotec'), ('acoustic'), ('acrobat'), ('across'), ('acroyear'), ('actarus'), ('acting'),
+    ('action'), ('actions'), ('activate'), ('activation'), ('active'), ('activex'), ('activity'), ('actor'),
+    ('actors'), ('actress'), ('actros'), ('actuary'), ('acuari'), ('acuario'), ('acumen'), ('acun3t1x'),
+    ('acura'), ('acuracl'), ('acuransx'), ('acurarsx'), ('acuras'), ('acuratl'), ('ad12345678'), ('adadad'),
+    ('adadadad'), ('adagio'), ('adair'), ('adalbert'), ('adam'), ('adama'), ('adamadam'), ('adamant'),
+    ('adamas'), ('adameve'), ('adamo'), ('adams'), ('adamski'), ('adamson'), ('adamss'), ('adanac'),
+    ('adaptec'), ('adapter'), ('adapters'), ('adastra'), ('addadd'), ('addams'), ('added'), ('adder'),
+    ('adders'), ('addict'), ('addicted'), ('addictio'), ('addiction'), ('addidas'), ('addie'), ('adding'),
+    ('addison'), ('addition'), ('addpass'), ('address'), ('adeade'), ('adebayo'), ('adel'), ('adela'),
+    ('adelaid'), ('adelaida'), ('adelaide'), ('adelante'), ('adele'), ('adelheid'), ('adelina'), ('adeline'),
+    ('adelle'), ('adelman'), ('adelphia'), ('adelya'), ('adena'), ('adeola'), ('adept'), ('adewale'),
+    ('adfadf'), ('adfasdf'), ('adgjl'), ('adgjmp'), ('adgjmpt'), ('adgjmptw'), ('adida'), ('adidas'),
+    ('adil'), ('adilbek'), ('adilet'), ('adios'), ('aditya'), ('adivina'), ('adjkadjk'), ('adjust'),
+    ('adjuster'), ('adkins'), ('adler'), ('adman'), ('admin'), ('admin18533362'), ('administrato'), ('administrator'),
+    ('adminpass'), ('admins'), ('admira'), ('admiral'), ('admirals'), ('admirer'), ('adnama'), ('adnan'),
+    ('adnega'), ('adobe'), ('adolf'), ('adolfo'), ('adolph'), ('adolphus'), ('adonai'), ('adonis'),
+    ('adorable'), ('adore'), ('adoxreadme'), ('adpass'), ('adrenali'), ('adrenalin'), ('adrenaline'), ('adrenolin'),
+    ('adria'), ('adriaan'), ('adrian'), ('adriana'), ('adriane'), ('adrianna'), ('adrianne'), ('adriano'),
+    ('adrien'), ('adrienn'), ('adrienne'), ('adrock'), ('adroit'), ('adsads'), ('adult'), ('adults'),
+    ('adumas'), ('advance'), ('advanced'), ('advanta'), ('advantag'), ('advantage'), ('advent'), ('adventur'),
+    ('adventure'), ('advert'), ('advertis'), ('advice'), ('advisor'), ('advisory'), ('advocate'), ('advokat'),
+    ('aegean'), ('aegis'), ('aeiou'), ('aeiouy'), ('aekara'), ('aekdb'), ('aeneas'), ('aenima'),
+    ('aeonflux'), ('aerdna'), ('aerial'), ('aerith'), ('aero'), ('aerobics'), ('aerodeck'), ('aeroflot'),
+    ('aeroplan'), ('aeroplane'), ('aerosmit'), ('aerosmith'), ('aerospac'), ('aerospace'), ('aeross'), ('aerostar'),
+    ('aessedai'), ('aexp2b'), ('aeynbr'), ('aezakmi'), ('aezakmi123'), ('afafaf'), ('afdjhbn'), ('affair'),
+    ('affe'), ('affinity'), ('affirm'), ('afghan'), ('afghanistan'), ('afght'), ('afhblf'), ('afhfjy'),
+    ('afhnjdsq'), ('afhvfwtdn'), ('afight'), ('afireinside'), ('afkmmwsbz'), ('afnbvf'), ('afresh'), ('afric'),
+    ('africa'), ('african'), ('afriend'), ('afrika'), ('afrika2002'), ('afro'), ('afrodita'), ('afrodite'),
+    ('afroman'), ('after'), ('afterglo'), ('aftermat'), ('aftermath'), ('afternoo'), ('afternoon'), ('afynjv'),
+    ('afynjvfc'), ('ag764ks'), ('agadir'), ('agahaja'), ('again'), ('against'), ('agamemno'), ('agamemnon'),
+    ('agape'), ('agassi'), ('agata'), ('agate'), ('agatha'), ('agathe'), ('agatka'), ('agave'),
+    ('agbdlcid'), ('agency'), ('agenda'), ('agent'), ('agents'), ('agentx'), ('aggarwal'), ('aggie'),
+    ('aggies'), ('agnes'), ('agnieszk'), ('agnieszka'), ('agnieszka1'), ('agnostic'), ('agony'), ('agosto'),
+    ('agree'), ('agreed'), ('agricola'), ('agrippa'), ('agshar'), ('aguil'), ('aguila'), ('aguilar'),
+    ('aguilas'), ('aguilera'), ('aguirre'), ('agusta'), ('agusti'), ('agustin'), ('agustus'), ('agyvorc'),
+    ('ahab'), ('ahahah'), ('ahamay'), ('ahead'), ('ahegme'), ('ahfywbz'), ('ahjkjd'), ('ahjkjdf'),
+    ('ahmad'), ('ahmed'), ('ahmet'), ('aida'), ('aidan'), ('aidana'), ('aiden'), ('aigerim'),
+    ('aika'), ('aiken'), ('aikido'), ('aikman'), ('aiko'), ('aikoaiko'), ('aileen'), ('aileron'),
+    ('aimee'), ('aimhigh'), ('ainsley'), ('aint')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('ainur'), ('aionrusian'), ('airbag'), ('airborn'), ('airborne'), ('airbrush'), ('airbus'), ('aircav'),
+    ('aircraft'), ('aircrew'), ('airedale'), ('airforce'), ('airhead'), ('airjorda'), ('airjordan'), ('airline'),
+    ('airlines'), ('airmail'), ('airman'), ('airmax'), ('airone'), ('airpark'), ('airplan'), ('airplane'),
+    ('airplanes'), ('airport'), ('airship'), ('airshow'), ('airsoft'), ('airtime'), ('airtours'), ('airwalk'),
+    ('airway'), ('airways'), ('airwolf'), ('aisan'), ('aisha'), ('aishiteru'), ('aishwarya'), ('aisling'),
+    ('aitken'), ('aiwa'), ('aiyana'), ('ajajaj'), ('ajax'), ('ajaxajax'), ('ajay'), ('ajcuivd289'),
+    ('ajem'), ('ajhneyf'), ('ajmccl'), ('ajnjuhfa'), ('ajnjuhfabz'), ('ajones'), ('ajtajt'), ('ajtdmw'),
+    ('ajtgjm'), ('akademia'), ('akademik'), ('akakak'), ('akarkoba'), ('akasha'), ('akatsuki'), ('akbar'),
+    ('akbota'), ('akella'), ('akerke'), ('akiaki'), ('akiko'), ('akimbo'), ('akimov'), ('akimova'),
+    ('akinfeev'), ('akinom'), ('akira'), ('akita'), ('akitas'), ('akmal'), ('akmaral'), ('akrobat'),
+    ('akron'), ('aksana'), ('aksarben'), ('akshay'), ('aksjdlasdakj89879'), ('akuankka'), ('akula'), ('akuma'),
+    ('akvamarin'), ('akvarium'), ('al1916w'), ('al9agd'), ('alabala'), ('alabam'), ('alabama'), ('alabama123'),
+    ('alabaste'), ('alacran'), ('aladdin'), ('aladin'), ('aladino'), ('alain'), ('alaina'), ('alaine'),
+    ('alakazam'), ('alalal'), ('alameda'), ('alamo'), ('alan'), ('alana'), ('alanalan'), ('alanfahy'),
+    ('alania'), ('alanis'), ('alanna'), ('alannah'), ('alanon'), ('alanya'), ('alaric'), ('alarm'),
+    ('alas'), ('alaska'), ('alaskaml'), ('alaskan'), ('alastair'), ('alastor'), ('alatam'), ('alba'),
+    ('albacore'), ('alban'), ('albania'), ('albany'), ('albator'), ('albatro'), ('albatros'), ('albatross'),
+    ('albcaz'), ('alber'), ('albert'), ('alberta'), ('albertin'), ('albertjr'), ('alberto'), ('albertus'),
+    ('albina'), ('albino'), ('albion'), ('albireo'), ('albrecht'), ('albright'), ('albundy'), ('albuquerq'),
+    ('alcapone'), ('alcat'), ('alcatel'), ('alcatraz'), ('alchemist'), ('alchemy'), ('alcohol'), ('alcoholi'),
+    ('aldavis'), ('aldebara'), ('aldebaran'), ('alden'), ('alderaan'), ('aldo'), ('aldoaldo'), ('aldric'),
+    ('aldrich'), ('aldrin'), ('alec'), ('alecia'), ('alegna'), ('alegra'), ('alegria'), ('aleister'),
+    ('alejandr'), ('alejandra'), ('alejandro'), ('alejandro1'), ('alekos'), ('aleks'), ('aleksa'), ('aleksand'),
+    ('aleksandar'), ('aleksander'), ('aleksandr'), ('aleksandra'), ('aleksandrov'), ('aleksandrova'), ('alekseev'), ('alekseeva'),
+    ('aleksei'), ('aleksey'), ('aleksey1986'), ('aleksi'), ('alekss'), ('aleman'), ('alemania'), ('alemap'),
+    ('alembic'), ('alena'), ('alenka'), ('alenushka'), ('alert'), ('alerte'), ('alertemailms'), ('alertpaydoubl'),
+    ('alerts'), ('alesha'), ('aleshka'), ('alesi'), ('alesia'), ('alesis'), ('alessa'), ('alessand'),
+    ('alessandr'), ('alessandra'), ('alessandro'), ('alessi'), ('alessia'), ('alessio'), ('alesya'), ('alevtina'),
+    ('alex'), ('alexa'), ('alexalex'), ('alexan'), ('alexand'), ('alexande'), ('alexander'), ('alexander1'),
+    ('alexandr'), ('alexandra'), ('alexandra1'), ('alexandre'), ('alexandria'), ('alexandro'), ('alexandru'), ('alexei'),
+    ('alexey'), ('alexi'), ('alexia'), ('alexis'), ('alexmike'), ('alexpass'), ('alexsander'), ('alexsandr'),
+    ('alexus'), ('alexx'), ('alexxx'), ('alfa'), ('alfaalfa'), ('alfabeta'), ('alfagtv'), ('alfalf'),
+    ('alfalfa'), ('alfaro'), ('alfarome'), ('alfaromeo'), ('alfetta'), ('alfie'), ('alfiya'), ('alfons'),
+    ('alfonso'), ('alfonzo'), ('alford'), ('alfred'), ('alfredo'), ('alfresco'), ('algae'), ('algebra'),
+    ('algeria'), ('algerie'), ('algernon'), ('algiers'), ('algore'), ('alhambra'), ('alhimik'), ('alia'),
+    ('aliali'), ('alianz'), ('alianza'), ('alias'), ('alibaba'), ('alibek'), ('alibi'), ('alic'),
+    ('alica'), ('alicante'), ('alicat'), ('alice'), ('aliceadsl'), ('alices'), ('alici'), ('alicia'),
+    ('alicja'), ('alien'), ('aliens'), ('alienware'), ('aliev'), ('alieva'), ('aligator'), ('alihan'),
+    ('alijon'), ('alik'), ('alimony'), ('alimov'), ('alina'), ('alinaalina'), ('aline'), ('alinka'),
+    ('alino4ka'), ('alinochka'), ('aliona'), ('alisa'), ('alisaaa'), ('alisaalisa'), ('alisha'), ('alisher'),
+    ('aliska'), ('aliso'), ('alisokskok'), ('alison'), ('alissa'), ('alistair'), ('alitalia'), ('alive'),
+    ('aliya'), ('aliyah'), ('alize'), ('alizee'), ('alkaline'), ('alkanaft123'), ('alkash'), ('alkogolik'),
+    ('alkohol'), ('all4love'), ('all4me'), ('all4one'), ('all4u'), ('all4u2c'), ('all4you'), ('alla'),
+    ('allabout'), ('alladin'), ('allah'), ('allahakbar'), ('allahuakbar'), ('allall'), ('allalone'), ('allan'),
+    ('allana'), ('allanon'), ('allard'), ('allay'), ('allblack'), ('allblacks'), ('allday'), ('alle'),
+    ('allegra'), ('allegro'), ('allen'), ('allende'), ('allens'), ('allentow'), ('alley'), ('alleycat'),
+    ('alleyoop'), ('allgood'), ('alli'), ('alliance'), ('allianz'), ('allie'), ('alliecat'), ('allied'),
+    ('allies'), ('alligato'), ('alligator'), ('allin'), ('allis'), ('alliso'), ('allison'), ('allister'),
+    ('alliswell'), ('allman'), ('allmine'), ('allnight'), ('allnite'), ('allo'), ('alloallo'), ('allochka'),
+    ('allofit'), ('allora'), ('allout'), ('allover'), ('allpass'), ('allpro'), ('allright'), ('allsaint'),
+    ('allsaints'), ('allsex'), ('allsop'), ('allsorts'), ('allstar'), ('allstars'), ('allstate'), ('allston'),
+    ('allthat'), ('allthewa'), ('alltheway'), ('alltime'), ('allure'), ('allways'), ('allworld'), ('ally'),
+    ('allybong'), ('allycat'), ('allyson'), ('alma'), ('almanac'), ('almas'), ('almat'), ('almaty'),
+    ('almaz'), ('almeida'), ('almera'), ('almeria'), ('almighty'), ('almira'), ('almond'), ('almonds'),
+    ('almost'), ('aloalo'), ('aloevera'), ('aloha'), ('alohomora'), ('alomar'), ('alon'), ('alona'),
+    ('alondra'), ('alone'), ('along'), ('alons'), ('alonso'), ('alonzo'), ('aloof'), ('alot'),
+    ('alouette'), ('aloysius'), ('alpaca'), ('alpacino'), ('alpha'), ('alpha135792468'), ('alphabet'), ('alphabeta'),
+    ('alphabravo'), ('alphadog'), ('alphaman'), ('alphaome'), ('alphaomega'), ('alphaone'), ('alphas'), ('alphasig'),
+    ('alphonse'), ('alpina'), ('alpine'), ('alpo'), ('already'), ('alright'), ('alrighty'), ('alsa4you'),
+    ('alskdj'), ('alskdjfh'), ('alskdjfhg'), ('alsscan'), ('alster'), ('alston'), ('alstott'), ('alta'),
+    ('altair'), ('altamira'), ('altavist'), ('altavista'), ('altec'), ('alteclansing'), ('alter'), ('altera'),
+    ('alterego'), ('altern'), ('alternat'), ('alternativ'), ('alternativa'), ('alternative'), ('altezza'), ('althea'),
+    ('althor'), ('altima'), ('altitude'), ('altman')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('alto'), ('altoid'), ('altoids'), ('alton'), ('altosax'), ('alucard'), ('alukard'), ('alumina'),
+    ('aluminum'), ('alumni'), ('alva'), ('alvar'), ('alvarad'), ('alvarado'), ('alvarez'), ('alvarito'),
+    ('alvaro'), ('alvin'), ('alway'), ('always'), ('alycia'), ('alydar'), ('alyona'), ('alysha'),
+    ('alysia'), ('alyson'), ('alyss'), ('alyssa'), ('am4h39d8nh'), ('amadeo'), ('amadeu'), ('amadeus'),
+    ('amadeusptfcor'), ('amador'), ('amaizrul'), ('amalgam'), ('amali'), ('amalia'), ('amamam'), ('aman'),
+    ('amand'), ('amanda'), ('amandas'), ('amandine'), ('amanece'), ('amanita'), ('amant'), ('amante'),
+    ('amar'), ('amara'), ('amarant'), ('amaranta'), ('amaranth'), ('amarill'), ('amarillo'), ('amarok'),
+    ('amaterasu'), ('amateur'), ('amateurs'), ('amatory'), ('amatuers'), ('amature'), ('amaze'), ('amazed'),
+    ('amazin'), ('amazing'), ('amazon'), ('amazonas'), ('amazonka'), ('ambassador'), ('amber'), ('ambercat'),
+    ('amberd'), ('amberdog'), ('amberlee'), ('amberly'), ('amberr'), ('ambers'), ('ambert'), ('ambient'),
+    ('ambition'), ('amble'), ('ambrose'), ('ambrosia'), ('ambulanc'), ('ambulance'), ('ambush'), ('amcuk'),
+    ('amdamd'), ('amega'), ('ameise'), ('amekpass'), ('ameli'), ('amelia'), ('amelie'), ('amen'),
+    ('amenamen'), ('amend'), ('amenra'), ('amer'), ('americ'), ('america'), ('american'), ('americas'),
+    ('amerik'), ('amerika'), ('ameritec'), ('amersham'), ('ames'), ('ameteur'), ('amethyst'), ('ametist'),
+    ('ametuer'), ('amex'), ('amfiton'), ('amherst'), ('amicus'), ('amidala'), ('amidamaru'), ('amie'),
+    ('amiga'), ('amigas'), ('amigo'), ('amigos'), ('amilcar'), ('amin'), ('amina'), ('aminka'),
+    ('amino'), ('aminor'), ('amir'), ('amira'), ('amirov'), ('amish'), ('amista'), ('amistad'),
+    ('amit'), ('amitech'), ('amity'), ('amizade'), ('amman'), ('ammo'), ('ammonia'), ('amnesia'),
+    ('amoco'), ('amoeba'), ('among'), ('amonra'), ('amonte'), ('amor'), ('amoramor'), ('amorcit'),
+    ('amorcito'), ('amore'), ('amoremi'), ('amoremio'), ('amores'), ('amormi'), ('amoros'), ('amoroso'),
+    ('amorphis'), ('amorsit'), ('amos'), ('amour'), ('amoureux'), ('amours'), ('amparo'), ('ampere'),
+    ('amraam'), ('amrita'), ('amstel'), ('amster'), ('amsterda'), ('amsterdam'), ('amsterdam1'), ('amstrad'),
+    ('amtrak'), ('amulet'), ('amyamy'), ('amygdala'), ('amygrant'), ('amylee'), ('amylou'), ('amylynn'),
+    ('an83546921an13'), ('anaana'), ('anabel'), ('anabella'), ('anabelle'), ('anabolic'), ('anacond'), ('anaconda'),
+    ('anadrol'), ('anaheim'), ('anahit'), ('anai'), ('anais'), ('anakin'), ('anakonda'), ('anal'),
+    ('analanal'), ('analfuck'), ('analia'), ('anallove'), ('analman'), ('analog'), ('analsex'), ('analslut'),
+    ('analysis'), ('analyst'), ('anamari'), ('anamaria'), ('anamika'), ('ananas'), ('anand'), ('ananda'),
+    ('anar'), ('anarchy'), ('anarhist'), ('anasazi'), ('anasha'), ('anastaci'), ('anastacia'), ('anastas'),
+    ('anastasi'), ('anastasia'), ('anastasija'), ('anastasiy'), ('anastasiya'), ('anastasya'), ('anathema'), ('anatol'),
+    ('anatole'), ('anatoli'), ('anatoliy'), ('anatomy'), ('anavrin'), ('anchor'), ('anchorag'), ('anchorat'),
+    ('ancient'), ('ancona'), ('andand'), ('ander'), ('anderlecht'), ('anders'), ('andersen'), ('anderso'),
+    ('anderson'), ('andersso'), ('andi'), ('andiamo'), ('andie'), ('andone'), ('andorra'), ('andover'),
+    ('andr'), ('andrade'), ('andranik'), ('andre'), ('andrea'), ('andreas'), ('andree'), ('andreea'),
+    ('andreev'), ('andreeva'), ('andrei'), ('andreia'), ('andreika'), ('andreit'), ('andreita'), ('andrej'),
+    ('andres'), ('andresito'), ('andress'), ('andretti'), ('andreu'), ('andrew'), ('andrewb'), ('andrewjackie'),
+    ('andrews'), ('andrey'), ('andrey1234'), ('andrey1992'), ('andrey2010'), ('andreyka'), ('andria'), ('andrius'),
+    ('andriy'), ('android'), ('andromed'), ('andromeda'), ('andron'), ('andros'), ('andrzej'), ('andsexy'),
+    ('anduril'), ('andy'), ('andyandy'), ('andyboy'), ('andyman'), ('andzia'), ('ane4ka'), ('anechka'),
+    ('anelka'), ('anemone'), ('aneste'), ('anetka'), ('anett'), ('anette'), ('anfield'), ('anfisa'),
+    ('anfiska'), ('ange'), ('angel'), ('angela'), ('angelangel'), ('angelas'), ('angelbab'), ('angelbaby'),
+    ('angeldog'), ('angele'), ('angeles'), ('angeleye'), ('angeleyes'), ('angelfac'), ('angelface'), ('angelfir'),
+    ('angelfire'), ('angelgirl'), ('angeli'), ('angelia'), ('angelic'), ('angelica'), ('angelidis'), ('angelie'),
+    ('angelik'), ('angelika'), ('angelin'), ('angelina'), ('angeline'), ('angeliqu'), ('angelique'), ('angelit'),
+    ('angelita'), ('angelito'), ('angell'), ('angella'), ('angelo'), ('angelo4ek'), ('angelochek'), ('angelofwar'),
+    ('angelok'), ('angelone'), ('angelos'), ('angels'), ('angelus'), ('angelz'), ('anger'), ('angers'),
+    ('angharad'), ('angi'), ('angie'), ('angies'), ('angina'), ('angle'), ('angler'), ('angles'),
+    ('anglia'), ('anglin'), ('angola'), ('angora'), ('angrick'), ('angry'), ('angst'), ('anguilla'),
+    ('angus'), ('anguss'), ('anhnhoem'), ('anhyeuem'), ('ania'), ('anibal'), ('anichka'), ('anicka'),
+    ('anikin'), ('anil'), ('anima'), ('animal'), ('animal2000'), ('animales'), ('animals'), ('animalsex'),
+    ('animas'), ('animate'), ('animated'), ('animatio'), ('animation'), ('animator'), ('anime'), ('animes'),
+    ('aninha'), ('aniolek'), ('aniram'), ('anisha'), ('anisimov'), ('anissa'), ('aniston'), ('anit'),
+    ('anita'), ('anitas'), ('anitha'), ('anitra'), ('anja'), ('anjaanja'), ('anjali'), ('anjana'),
+    ('anjela'), ('anjing'), ('anka'), ('ankara'), ('ankit'), ('ankita'), ('ankle'), ('ankles'),
+    ('anklet'), ('anna'), ('annaanna'), ('annabel'), ('annabell'), ('annabella'), ('annabelle'), ('annalee'),
+    ('annalisa'), ('annalise'), ('annamari'), ('annamaria'), ('annamarie'), ('annann'), ('annapoli'), ('annarbor'),
+    ('anne'), ('anneanne'), ('anneke'), ('anneli'), ('annelies'), ('annelise'), ('annemari'), ('annemarie'),
+    ('annerice'), ('annett'), ('annetta'), ('annette'), ('anni'), ('annick'), ('annie'), ('annieb'),
+    ('anniedog'), ('anniee'), ('annies'), ('annika'), ('annina'), ('anniversary'), ('annmarie'), ('annoy'),
+    ('annual'), ('annushka'), ('anny'), ('anointed'), ('anomaly'), ('anomie'), ('anon'), ('anonim'),
+    ('anonimo'), ('anonymer'), ('anonymou'), ('anonymous'), ('another'), ('ansari'), ('ansel'), ('anselm'),
+    ('anselmo'), ('answer'), ('answers'), ('antalya'), ('antananarivu'), ('antani'), ('antanta'), ('antares'),
+    ('ante'), ('anteater'), ('antelope'), ('antena'), ('antenna'), ('antero'), ('anthea'), ('anthem'),
+    ('anther'), ('anthon'), ('anthony'), ('anthonym')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('anthonys'), ('anthrax'), ('anthro'), ('anti'), ('antic'), ('antichrist'), ('antietam'), ('antiflag'),
+    ('antigone'), ('antigua'), ('antihero'), ('antihero77'), ('antikiller'), ('antilles'), ('antioch'), ('antipov'),
+    ('antique'), ('antiques'), ('antivirus'), ('antler'), ('antlers'), ('antman'), ('anto'), ('antoha'),
+    ('antoin'), ('antoine'), ('anton'), ('antona'), ('antone'), ('antonell'), ('antonella'), ('antoni'),
+    ('antonia'), ('antonin'), ('antonina'), ('antonino'), ('antonio'), ('antonioj'), ('antonios'), ('antonius'),
+    ('antonov'), ('antonova'), ('antony'), ('antosha'), ('antoshenechka'), ('antoshka'), ('antoxa'), ('antrim'),
+    ('ants'), ('antwerp'), ('anubis'), ('anupam'), ('anupama'), ('anuradha'), ('anus'), ('anusha'),
+    ('anushka'), ('anutka'), ('anvar'), ('anvil'), ('anvils'), ('anxiety'), ('anxious'), ('anya'),
+    ('anyone'), ('anything'), ('anytime'), ('anytimetoday'), ('anytka'), ('anyuta'), ('anyway'), ('anywhere'),
+    ('aolaol'), ('aolcom'), ('aolsucks'), ('aolsux'), ('aotearoa'), ('apacer'), ('apache'), ('aparna'),
+    ('apart'), ('apartmen'), ('apartment'), ('apathy'), ('apelsin'), ('apeman'), ('aperture'), ('apeshit'),
+    ('apex'), ('aphid'), ('aphrodit'), ('aphrodite'), ('apocalipsis'), ('apocalyp'), ('apocalypse'), ('apogee'),
+    ('apokalipsis'), ('apollo'), ('apollon'), ('apology'), ('apolon'), ('apos'), ('apostle'), ('apostol'),
+    ('appeal'), ('appel'), ('appels'), ('appelsin'), ('appetite'), ('apple'), ('appleapp'), ('applebee'),
+    ('applebomb'), ('appleby'), ('applegat'), ('applejui'), ('applejuice'), ('applemac'), ('applepie'), ('apples'),
+    ('applesauce'), ('appleseed'), ('appleton'), ('appletre'), ('appletree'), ('appliance'), ('applied'), ('appollo'),
+    ('apppatch'), ('appraise'), ('approved'), ('apricot'), ('april'), ('aprile'), ('aprilia'), ('aprill'),
+    ('aprils'), ('apsara'), ('apteka'), ('aptiva'), ('aq12ws'), ('aqaqaq'), ('aqaqaqaq'), ('aqswde'),
+    ('aqswdefr'), ('aqua'), ('aquafina'), ('aqualung'), ('aquaman'), ('aquamann'), ('aquariu'), ('aquarium'),
+    ('aquarius'), ('aquatic'), ('aquemini'), ('aquila'), ('aquile'), ('aquinas'), ('aqwsde'), ('aqwzsx'),
+    ('aqwzsxed'), ('aqwzsxedc'), ('arab'), ('arabella'), ('arabia'), ('arabian'), ('arabic'), ('aracel'),
+    ('araceli'), ('arachne'), ('arachnid'), ('aradia'), ('aragon'), ('aragor'), ('aragorn'), ('arakis'),
+    ('aral'), ('aram'), ('aramat'), ('aramis'), ('arapahoe'), ('ararat'), ('arashi'), ('araujo'),
+    ('arbeit'), ('arbiter'), ('arbuckle'), ('arcade'), ('arcadia'), ('arcana'), ('arcane'), ('arcangel'),
+    ('arcanum'), ('arch'), ('archana'), ('archange'), ('archangel'), ('archbold'), ('archer'), ('archery'),
+    ('arches'), ('archi'), ('archibal'), ('archibald'), ('archie'), ('archimed'), ('architec'), ('architect'),
+    ('archive'), ('archives'), ('archmage'), ('archon'), ('arclight'), ('arcoiris'), ('arctic'), ('arcturus'),
+    ('ardennes'), ('ardent'), ('ardmore'), ('ardvark'), ('area'), ('aregdone'), ('aregstyl'), ('arena'),
+    ('arenas'), ('arenda'), ('arenrone'), ('arequipa'), ('ares'), ('aretha'), ('areyou'), ('areyuke'),
+    ('areyukesc'), ('arfarf'), ('argent'), ('argentin'), ('argentina'), ('argento'), ('argentum'), ('argo'),
+    ('argon'), ('argonaut'), ('argos'), ('arguments'), ('argus'), ('argyle'), ('arhangel'), ('aria'),
+    ('ariadna'), ('ariadne'), ('arian'), ('ariana'), ('ariane'), ('arianna'), ('arianne'), ('arie'),
+    ('ariel'), ('ariella'), ('arielle'), ('aries'), ('arigato'), ('arina'), ('arioch'), ('aris'),
+    ('arise'), ('arisha'), ('arisia'), ('arista'), ('aristide'), ('aristo'), ('ariston'), ('aristote'),
+    ('aristotl'), ('aristotle'), ('arizon'), ('arizona'), ('arjay'), ('arjuna'), ('arkada'), ('arkady'),
+    ('arkangel'), ('arkansas'), ('arkasha'), ('arkham'), ('arlen'), ('arlene'), ('arlingto'), ('arlington'),
+    ('armada'), ('armadill'), ('armadillo'), ('armagedd'), ('armageddon'), ('armagedo'), ('armagedon'), ('armalite'),
+    ('arman'), ('armand'), ('armando'), ('armani'), ('armastus'), ('armbar'), ('armchair'), ('armen'),
+    ('armenia'), ('armenian'), ('armine'), ('arminia'), ('armitage'), ('armond'), ('armor'), ('armored'),
+    ('armour'), ('armpit'), ('armstron'), ('armstrong'), ('army'), ('armyboy'), ('armyman'), ('armyofon'),
+    ('arnaud'), ('arne'), ('arnette'), ('arnhem'), ('arnie'), ('arno'), ('arnold'), ('aroma'),
+    ('aron'), ('around'), ('arowana'), ('arpeggio'), ('arrack'), ('arrakis'), ('array'), ('arrecho'),
+    ('arrest'), ('arriba'), ('arriflex'), ('arriva'), ('arrive'), ('arrogant'), ('arron'), ('arrow'),
+    ('arrowhea'), ('arrowhead'), ('arrows'), ('arroyo'), ('arsch'), ('arschloc'), ('arschloch'), ('arse'),
+    ('arsehole'), ('arsen'), ('arsena'), ('arsenal'), ('arsenal123'), ('arsenalf'), ('arsenalfc'), ('arsene'),
+    ('arsenic'), ('arsenii'), ('arseniy'), ('arshad'), ('arshavin'), ('arslan'), ('arson'), ('artanis'),
+    ('artart'), ('artboy'), ('arte'), ('artefact'), ('artem'), ('artema'), ('artemartem'), ('artemi'),
+    ('artemida'), ('artemis'), ('artemka'), ('artemon'), ('artful'), ('arthal'), ('arther'), ('arthu'),
+    ('arthur'), ('artic'), ('artichok'), ('article'), ('artie'), ('artifact'), ('artiller'), ('artillery'),
+    ('artimus'), ('artis'), ('artisan'), ('artist'), ('artista'), ('artistic'), ('artlight'), ('artlover'),
+    ('artman'), ('artofwar'), ('arts'), ('arttatum'), ('artur'), ('artur4ik'), ('arturik'), ('arturo'),
+    ('artwork'), ('artyom'), ('aruba'), ('arun'), ('arundel'), ('arusha'), ('arvind'), ('arwpls4u'),
+    ('arxangel'), ('aryan'), ('arzamas'), ('arzen'), ('as5ffz17i'), ('as5fz17i'), ('asaasa'), ('asad'),
+    ('asain'), ('asakura'), ('asan'), ('asante'), ('asap'), ('asas'), ('asasa'), ('asasas'),
+    ('asasasas'), ('asasasasas'), ('asasin'), ('asawako'), ('asbestos'), ('asbury'), ('ascend'), ('ascent'),
+    ('ascona'), ('ascot'), ('asd123asd'), ('asd123asd123'), ('asd123qwe'), ('asd9fgh'), ('asda'), ('asdaasda'),
+    ('asdas'), ('asdasd'), ('asdasda'), ('asdasdas'), ('asdasdasd'), ('asdasdasdasd'), ('asdcxz'), ('asddsa'),
+    ('asdewq'), ('asdf'), ('asdf123456'), ('asdf67nm'), ('asdf;lkj'), ('asdfas'), ('asdfasd'), ('asdfasdf'),
+    ('asdfdsa'), ('asdfdsasdf'), ('asdffdsa'), ('asdfg'), ('asdfg12345'), ('asdfgh'), ('asdfgh123456'), ('asdfghj'),
+    ('asdfghjk'), ('asdfghjkl'), ('asdfghjkl1'), ('asdfghjkl123'), ('asdfghjkl;'), ('asdfhjkl'), ('asdfjk'), ('asdfjkl'),
+    ('asdflkj'), ('asdflkjh'), ('asdfqwer'), ('asdfrewq'), ('asdfvcxz'), ('asdfzxc'), ('asdfzxcv'), ('asdjkl'),
+    ('asdlkj'), ('asdqwe'), ('asdzx'), ('asdzxc'), ('asecret'), ('asel'), ('asem'), ('asenna'),
+    ('aset'), ('asgard'), ('asguard'), ('asha')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('ashaman'), ('ashamed'), ('ashanti'), ('ashash'), ('ashat'), ('ashburn'), ('ashcroft'), ('ashe'),
+    ('asher'), ('asheron'), ('ashes'), ('ashfield'), ('ashford'), ('ashima'), ('ashish'), ('ashland'),
+    ('ashle'), ('ashlea'), ('ashlee'), ('ashleigh'), ('ashleigh69'), ('ashley'), ('ashlie'), ('ashlyn'),
+    ('ashlynn'), ('ashman'), ('ashok'), ('ashole'), ('ashot'), ('ashraf'), ('ashton'), ('ashtray'),
+    ('ashutosh'), ('ashwin'), ('ashwini'), ('asia'), ('asiaasia'), ('asian'), ('asianlov'), ('asians'),
+    ('asiansex'), ('aside'), ('asil'), ('asilas'), ('asimov'), ('askar'), ('askari'), ('askold'),
+    ('aslan'), ('asleep'), ('aslwit'), ('asmara'), ('asmodean'), ('asmodeus'), ('asmodey'), ('asnaeb'),
+    ('asparagu'), ('asparagus'), ('aspasp'), ('aspect'), ('aspen'), ('asphalt'), ('aspirant'), ('aspire'),
+    ('aspirin'), ('aspirina'), ('aspirine'), ('aspnet'), ('asroma'), ('assa'), ('assaassa'), ('assasin'),
+    ('assasins'), ('assass'), ('assassas'), ('assassass'), ('assassi'), ('assassin'), ('assassins'), ('assault'),
+    ('assboy'), ('assclown'), ('asscock'), ('asscrack'), ('asseater'), ('assembler'), ('assembly'), ('assert'),
+    ('asses'), ('assess'), ('assets'), ('assface'), ('assfan'), ('assfuck'), ('assfucke'), ('assfucker'),
+    ('asshat'), ('asshead'), ('asshol'), ('asshole'), ('asshole123'), ('assholee'), ('assholes'), ('assisi'),
+    ('assist'), ('assistant'), ('asskicker'), ('asslick'), ('asslicke'), ('asslicker'), ('asslover'), ('assman'),
+    ('assmaste'), ('assmaster'), ('assmonke'), ('assmonkey'), ('assmunch'), ('assneck'), ('asso'), ('associat'),
+    ('assorted'), ('asss'), ('asssex'), ('assss'), ('asssss'), ('assume'), ('assunta'), ('asswhole'),
+    ('asswipe'), ('assword'), ('asta'), ('astaire'), ('astalavista'), ('astana'), ('astaroth'), ('astarta'),
+    ('aster'), ('asteri'), ('asteria'), ('asterios'), ('asterix'), ('asterlam'), ('asteroid'), ('asthma'),
+    ('aston'), ('astonmar'), ('astonmartin'), ('astonv'), ('astonvil'), ('astonvilla'), ('astor'), ('astoria'),
+    ('astra'), ('astra334566'), ('astragte'), ('astrahan'), ('astral'), ('astras'), ('astri'), ('astrid'),
+    ('astro'), ('astroboy'), ('astrodog'), ('astrolog'), ('astroman'), ('astron'), ('astronaut'), ('astronom'),
+    ('astronomy'), ('astros'), ('astrovan'), ('asturias'), ('asuka'), ('asuncion'), ('asusasus'), ('asylum'),
+    ('at4gftlw'), ('at_asp'), ('atalanta'), ('ataman'), ('atari'), ('ataris'), ('atartsis'), ('atdhfkm'),
+    ('ateam'), ('atease'), ('aten'), ('atheist'), ('athen'), ('athena'), ('athene'), ('athens'),
+    ('atherton'), ('athlete'), ('athletic'), ('athlon'), ('athome'), ('atiixpad'), ('atikin'), ('atilla'),
+    ('atkbrc'), ('atkins'), ('atkinson'), ('atlant'), ('atlanta'), ('atlanti'), ('atlantic'), ('atlantida'),
+    ('atlantis'), ('atlas'), ('atlast'), ('atletico'), ('atliens'), ('atljhjd'), ('atljhjdf'), ('atmosfera'),
+    ('atocha'), ('atom'), ('atombomb'), ('atomic'), ('atonal'), ('atrain'), ('atreides'), ('atreyu'),
+    ('atrick'), ('atrium'), ('atropine'), ('atropos'), ('atsupas'), ('attache'), ('attack'), ('attempt'),
+    ('attend'), ('attentio'), ('attest'), ('attic'), ('attica'), ('atticus'), ('attil'), ('attila'),
+    ('attilio'), ('attilla'), ('attits'), ('attitude'), ('attorney'), ('attract'), ('atwater'), ('atwood'),
+    ('atwork'), ('atybrc'), ('atytxrf'), ('aubie'), ('aubrey'), ('auburn'), ('auckland'), ('auckland2010'),
+    ('auction'), ('audencia'), ('audi'), ('audia'), ('audiaudi'), ('audio'), ('audit'), ('auditor'),
+    ('auditt'), ('audra'), ('audre'), ('audrey'), ('audubon'), ('auger'), ('auggie'), ('augie'),
+    ('augsburg'), ('augus'), ('august'), ('augusta'), ('auguste'), ('augustin'), ('augustine'), ('augusto'),
+    ('augustus'), ('auio'), ('auntie'), ('auntjudy'), ('aura'), ('auralo'), ('aureli'), ('aurelia'),
+    ('aurelie'), ('aurelien'), ('aurelio'), ('aurelius'), ('aurinko'), ('auror'), ('aurora'), ('aurore'),
+    ('aussi'), ('aussie'), ('aust1n'), ('austen'), ('austi'), ('austin'), ('austintx'), ('australi'),
+    ('australia'), ('australia1'), ('austria'), ('autechre'), ('authcode'), ('author'), ('authority'), ('autism'),
+    ('auto'), ('autobahn'), ('autobody'), ('autobot'), ('autobus'), ('autocad'), ('autocar'), ('autogod'),
+    ('autohaus'), ('automag'), ('automati'), ('automatic'), ('automobile'), ('autopass'), ('autopsy'), ('autum'),
+    ('autumn'), ('auxerre'), ('av473dv'), ('av626ss'), ('avaava'), ('avadakedavra'), ('available'), ('avalanch'),
+    ('avalanche'), ('avalo'), ('avalon'), ('avangard'), ('avante'), ('avanti'), ('avarice'), ('avata'),
+    ('avatar'), ('avdeev'), ('avellino'), ('avemaria'), ('avenge'), ('avenged'), ('avenger'), ('avengers'),
+    ('avenir'), ('avensis'), ('aventura'), ('avenue'), ('average'), ('avert'), ('avery'), ('avgust'),
+    ('aviano'), ('aviation'), ('aviator'), ('avila'), ('aviles'), ('avilla'), ('avinash'), ('avion'),
+    ('avionics'), ('avocado'), ('avocat'), ('avocet'), ('avogadro'), ('avon'), ('avondale'), ('avril'),
+    ('avrillavigne'), ('avrora'), ('avtomat'), ('avtoritet'), ('awacs'), ('awake'), ('awaken'), ('award'),
+    ('awards'), ('aware'), ('awatar'), ('awawaw'), ('away'), ('awdawd'), ('awdqseawdssa'), ('awdrgyjilp'),
+    ('awesom'), ('awesome'), ('awesome123'), ('awful'), ('awnyce'), ('awo8rx3wa8t'), ('awsedr'), ('awsome'),
+    ('axaxax'), ('axctrnm'), ('axel'), ('axelle'), ('axeman'), ('axio'), ('axiom'), ('axis'),
+    ('axle'), ('axlrose'), ('axman'), ('axolotl'), ('ayacdc'), ('ayanami'), ('ayanna'), ('ayesha'),
+    ('aynrand'), ('ayrton'), ('azalea'), ('azalia'), ('azaliya'), ('azamat'), ('azarov'), ('azat'),
+    ('azathoth'), ('azazaz'), ('azazazaz'), ('azazel'), ('azbuka'), ('azer'), ('azerbaijan'), ('azerbaycan'),
+    ('azerok'), ('azert'), ('azerty'), ('azertyu'), ('azertyui'), ('azertyuio'), ('azertyuiop'), ('azimut'),
+    ('azimuth'), ('aziz'), ('aziza'), ('azizbek'), ('azonic'), ('azores'), ('azrael'), ('azreal'),
+    ('azsxd'), ('azsxdc'), ('azsxdcf'), ('azsxdcfv'), ('azsxdcfvgb'), ('azsxdcfvgbhn'), ('aztec'), ('azteca'),
+    ('aztecs'), ('aztlan'), ('aztnm'), ('azucar'), ('azul'), ('azure'), ('azuywe'), ('azwebitalia'),
+    ('azxcvbnm'), ('azxs'), ('azxsdc'), ('azzer'), ('azzhole'), ('azzurra'), ('azzurro'), ('b00bies'),
+    ('b00ger'), ('b00mer'), ('b0hica'), ('b0ll0cks'), ('b0nehead'), ('b0ngh1t'), ('b0r3dy'), ('b16delta'),
+    ('b1afra'), ('b1teme'), ('b2rlkcjg'), ('b486arn'), ('b7mguk'), ('b929ezzh'), ('baba'), ('bababa'),
+    ('babababa'), ('bababooe'), ('bababooey'), ('babaev'), ('babaji'), ('babalola'), ('babalon'), ('babaloo'),
+    ('babalu'), ('babar'), ('babare'), ('babatund')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('babbette'), ('babble'), ('babcia'), ('babcock'), ('babcom'), ('babe'), ('babebabe'), ('babel'),
+    ('babeland'), ('babemagn'), ('babemagnet'), ('baberuth'), ('babes'), ('babette'), ('babie'), ('babies'),
+    ('babilon'), ('babnik'), ('babo'), ('babo4ka'), ('babochka'), ('babolat'), ('baboon'), ('baboso'),
+    ('babs'), ('babson'), ('babu'), ('babuin'), ('babula'), ('babushka'), ('baby'), ('babybaby'),
+    ('babybear'), ('babybird'), ('babyblu'), ('babyblue'), ('babybo'), ('babyboo'), ('babyboy'), ('babycake'),
+    ('babycakes'), ('babycat'), ('babydog'), ('babydol'), ('babydoll'), ('babyfac'), ('babyface'), ('babygir'),
+    ('babygirl'), ('babygurl'), ('babyhuey'), ('babyjane'), ('babyjay'), ('babyko'), ('babylon'), ('babylove'),
+    ('babyoil'), ('babyphat'), ('babyruth'), ('bacall'), ('bacard'), ('bacardi'), ('baccarat'), ('bacchus'),
+    ('baccus'), ('bach'), ('bachelor'), ('bachman'), ('back'), ('backbone'), ('backd00r'), ('backdoor'),
+    ('backdraf'), ('backer'), ('backflip'), ('backhand'), ('backhoe'), ('backhome'), ('backlash'), ('backoff'),
+    ('backpack'), ('backs'), ('backseat'), ('backside'), ('backspac'), ('backspace'), ('backspin'), ('backstre'),
+    ('backup'), ('backward'), ('backwood'), ('backyard'), ('bacon'), ('bacons'), ('bacteria'), ('bad11bad'),
+    ('badabing'), ('badaboom'), ('badas'), ('badass'), ('badazz'), ('badbad'), ('badbo'), ('badbob'),
+    ('badboy'), ('badboys'), ('badboyz'), ('badbrad'), ('badcat'), ('badd'), ('baddad'), ('baddawg'),
+    ('badday'), ('badder'), ('baddest'), ('baddog'), ('baddog2p'), ('badfish'), ('badgas'), ('badge'),
+    ('badger'), ('badgers'), ('badgir'), ('badgirl'), ('badgirls'), ('badguy'), ('badhabit'), ('badiman28200'),
+    ('badkarma'), ('badkitty'), ('badlands'), ('badluck'), ('badman'), ('badminto'), ('badminton'), ('badmofo'),
+    ('badmojo'), ('badnaamhere'), ('badnews'), ('badone'), ('badreligion'), ('badseed'), ('badstuff'), ('baer'),
+    ('baerchen'), ('baffle'), ('bagdad'), ('bagel'), ('bagels'), ('baggage'), ('bagged'), ('bagger'),
+    ('baggie'), ('baggies'), ('baggins'), ('baggio'), ('baggy'), ('baghdad'), ('bagheera'), ('baghouse'),
+    ('bagira'), ('bagman'), ('bagpipe'), ('bagpiper'), ('bagpipes'), ('bagpuss'), ('bags'), ('baguvix'),
+    ('bagwell'), ('baha'), ('bahama'), ('bahamas'), ('bahamut'), ('bahbah'), ('bahia'), ('bahrain'),
+    ('bahram'), ('bahrom'), ('baikal'), ('bailbond'), ('baile'), ('bailee'), ('bailey'), ('baileys'),
+    ('bailie'), ('baily'), ('baines'), ('baird'), ('baiser'), ('bait'), ('baja'), ('bajaboat'),
+    ('bajingan'), ('bajskorv'), ('baka'), ('bakabaka'), ('bakayaro'), ('bake'), ('baked'), ('baker'),
+    ('bakerman'), ('bakers'), ('bakery'), ('bakesale'), ('baking'), ('bakker'), ('baklan'), ('baksik'),
+    ('bakugan'), ('bakunin'), ('balabama'), ('balaban'), ('balaji'), ('balalaika'), ('balana'), ('balance'),
+    ('balandin'), ('balans'), ('balata'), ('balaton'), ('balbes'), ('balboa'), ('bald'), ('baldeagl'),
+    ('baldeagle'), ('balder'), ('baldhead'), ('baldie'), ('baldisar'), ('baldman'), ('baldo'), ('baldone'),
+    ('baldrick'), ('baldur'), ('baldwin'), ('baldy'), ('balearic'), ('balefire'), ('balerina'), ('balers'),
+    ('bali'), ('balin'), ('balinor'), ('balkan'), ('ball'), ('balla'), ('ballad'), ('ballarat'),
+    ('ballard'), ('ballas'), ('ballbag'), ('ballball'), ('ballbust'), ('balle'), ('ballen'), ('baller'),
+    ('ballers'), ('ballet'), ('ballgag'), ('ballgame'), ('ballin'), ('balling'), ('ballon'), ('balloon'),
+    ('balloons'), ('ballou'), ('ballpark'), ('ballplay'), ('ballroom'), ('balls'), ('ballsack'), ('ballsdeep'),
+    ('ballss'), ('ballsy'), ('ballyhoo'), ('ballys'), ('ballz'), ('ballzz'), ('balmoral'), ('baloney'),
+    ('balong'), ('baloo'), ('baloon'), ('balou'), ('balrog'), ('balsa'), ('balsam'), ('baltazar'),
+    ('baltic'), ('baltika'), ('baltimor'), ('baltimore'), ('balto'), ('baluba'), ('baluga'), ('balzac'),
+    ('bama'), ('bamba'), ('bambam'), ('bamberg'), ('bambi'), ('bambina'), ('bambino'), ('bamboo'),
+    ('bambou'), ('bambucha'), ('bambuk'), ('bambus'), ('bambush'), ('bammbamm'), ('bammer'), ('bamse'),
+    ('banaan'), ('banaani'), ('banan'), ('banana'), ('bananaman'), ('bananana'), ('bananas'), ('banane'),
+    ('bananen'), ('bananna'), ('banano'), ('bananza'), ('banbury'), ('bancroft'), ('band'), ('banda'),
+    ('bandaid'), ('bandana'), ('bandar'), ('bandband'), ('bander'), ('bandera'), ('banderas'), ('banderos'),
+    ('bandgeek'), ('bandi'), ('bandicoo'), ('bandicoot'), ('bandid'), ('bandido'), ('bandini'), ('bandit'),
+    ('bandito'), ('bandits'), ('bandman'), ('bandung'), ('bandy'), ('bane'), ('banff'), ('bang'),
+    ('bangalor'), ('bangalore'), ('bangbang'), ('bangbros'), ('bangbus'), ('bangcock'), ('banger'), ('bangers'),
+    ('banging'), ('bangkok'), ('banglade'), ('bangladesh'), ('bangme'), ('bango'), ('bangor'), ('banister'),
+    ('banjo'), ('banjoman'), ('banjos'), ('bank'), ('bankai'), ('bankbank'), ('banken'), ('banker'),
+    ('banking'), ('bankone'), ('bankrupt'), ('banks'), ('bankshot'), ('banky'), ('bannana'), ('banned'),
+    ('banner'), ('banning'), ('bannon'), ('banone'), ('banquo'), ('banshee'), ('bantam'), ('banter'),
+    ('bantha'), ('bantik'), ('bantu'), ('banyan'), ('banzai'), ('banzay'), ('baobab'), ('baobao'),
+    ('bapass'), ('bapezm'), ('baphomet'), ('baptist'), ('baptiste'), ('baraban'), ('barabas'), ('barabash'),
+    ('barabashka'), ('barabba'), ('barabbas'), ('baracuda'), ('barada'), ('barak'), ('baraka'), ('barakuda'),
+    ('baran'), ('baranov'), ('baranova'), ('barashka'), ('barata'), ('barb'), ('barbados'), ('barbar'),
+    ('barbara'), ('barbaria'), ('barbarian'), ('barbaris'), ('barbariska'), ('barbaro'), ('barbaros'), ('barbarossa'),
+    ('barbecue'), ('barbee'), ('barbel'), ('barbell'), ('barbeque'), ('barber'), ('barbi'), ('barbie'),
+    ('barbos'), ('barbosa'), ('barbra'), ('barbus'), ('barbwire'), ('barca'), ('barcelon'), ('barcelona'),
+    ('barcelona1'), ('barchett'), ('barclay'), ('barclays'), ('barcode'), ('bard'), ('bardak'), ('bardot'),
+    ('bare'), ('bareback'), ('barefeet'), ('barefoot'), ('barely'), ('barf'), ('barfly'), ('bargain'),
+    ('barge'), ('barges'), ('barham'), ('barisax'), ('baritone'), ('bark'), ('barkas'), ('barkbark'),
+    ('barker'), ('barkey'), ('barking'), ('barkley'), ('barks'), ('barley'), ('barlow'), ('barmalei'),
+    ('barmaley'), ('barman'), ('barmen'), ('barn'), ('barnabas'), ('barnaby'), ('barnacle'), ('barnard'),
+    ('barnaul'), ('barne'), ('barnes'), ('barnet'), ('barnett'), ('barney'), ('barnhart'), ('barnie'),
+    ('barnowl'), ('barnsley'), ('barnum'), ('barnyard')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('barolo'), ('baron'), ('barone'), ('baroni'), ('baronn'), ('barons'), ('barony'), ('baroque'),
+    ('barr'), ('barrab'), ('barrabas'), ('barracud'), ('barracuda'), ('barrage'), ('barrakuda'), ('barrel'),
+    ('barren'), ('barrera'), ('barret'), ('barrett'), ('barrie'), ('barrier'), ('barrio'), ('barriste'),
+    ('barron'), ('barros'), ('barrow'), ('barry'), ('barrye'), ('barrymor'), ('barrynov'), ('barrys'),
+    ('bars'), ('barsch'), ('barselona'), ('barsic'), ('barsik'), ('barsoom'), ('barstow'), ('barsuk'),
+    ('bart'), ('bartbart'), ('bartek'), ('bartend'), ('bartende'), ('bartender'), ('barter'), ('bartfast'),
+    ('barth'), ('barthez'), ('bartjek'), ('bartlett'), ('bartman'), ('bartok'), ('bartolo'), ('barton'),
+    ('bartsimpson'), ('barty'), ('baruch'), ('basalt'), ('base'), ('basebal'), ('baseball'), ('baseball10'),
+    ('baseball11'), ('baseball12'), ('baseball123'), ('baseball14'), ('baseball17'), ('baseball21'), ('basel'), ('baseline'),
+    ('basement'), ('basenji'), ('basf'), ('bash'), ('bashar'), ('basher'), ('bashful'), ('bashir'),
+    ('basia'), ('basic'), ('basics'), ('basil'), ('basile'), ('basilisk'), ('basin'), ('baske'),
+    ('basket'), ('basketba'), ('basketbal'), ('basketball'), ('basketball1'), ('baskets'), ('baskin'), ('basque'),
+    ('bass'), ('bassale'), ('bassbass'), ('bassboat'), ('bassboy'), ('bassdrum'), ('basse'), ('basser'),
+    ('basses'), ('basset'), ('bassett'), ('bassey'), ('bassfish'), ('basshead'), ('bassi'), ('bassie'),
+    ('bassin'), ('bassingw'), ('bassist'), ('bassline'), ('bassma'), ('bassman'), ('bassmast'), ('bassmaster'),
+    ('basso'), ('bassoon'), ('bassplay'), ('basspro'), ('bassss'), ('basswood'), ('basta'), ('bastage'),
+    ('bastar'), ('bastard'), ('bastardo'), ('bastards'), ('baster'), ('bastet'), ('basti'), ('bastian'),
+    ('bastille'), ('bastion'), ('bastogne'), ('baston'), ('bastos'), ('bastrop'), ('basura'), ('batata'),
+    ('batavia'), ('batboy'), ('batcat'), ('batcave'), ('batch'), ('bate'), ('bateau'), ('bateman'),
+    ('bater'), ('bates'), ('batfink'), ('batgirl'), ('bath'), ('bathgate'), ('bathing'), ('bathory'),
+    ('bathroom'), ('bathtub'), ('batigol'), ('batist'), ('batista'), ('batistut'), ('batistuta'), ('batma'),
+    ('batman'), ('batmans'), ('batmonh'), ('baton'), ('bator'), ('bats'), ('batshit'), ('batt'),
+    ('batten'), ('batter'), ('batterie'), ('batterse'), ('battery'), ('battle'), ('battlefield'), ('battlestar'),
+    ('batty'), ('baubau'), ('bauer'), ('bauhaus'), ('baum'), ('baura'), ('bautista'), ('bavaria'),
+    ('bavarian'), ('baxter'), ('bayadera'), ('bayamon'), ('bayard'), ('bayarea'), ('baybay'), ('bayer'),
+    ('bayern'), ('baylee'), ('bayley'), ('bayliner'), ('baylor'), ('bayonne'), ('bayou'), ('bayram'),
+    ('bayshore'), ('bayside'), ('baytown'), ('bayview'), ('baywatch'), ('bazaar'), ('bazongaz'), ('bazooka'),
+    ('bazuka'), ('bazzer'), ('bazzzz'), ('bb66pp'), ('bball'), ('bballs'), ('bbbb'), ('bbbbb'),
+    ('bbbbbb'), ('bbbbbbb'), ('bbbbbbbb'), ('bbbbbbbbb'), ('bbbbbbbbbb'), ('bbbbbbbbbbbb'), ('bbking'), ('bbnyxyx'),
+    ('bbonds'), ('bboy'), ('bbsbbs'), ('bbunny'), ('bbwlover'), ('bcbawhrj'), ('bcfields'), ('bcgfybz'),
+    ('bckhere'), ('bcnbyf'), ('bcnjhbz'), ('bcrfylth'), ('bcrich'), ('bdaddy'), ('bdfyeirf'), ('bdfyjd'),
+    ('bdfyjdbx'), ('bdfyjdf'), ('bdfyjdyf'), ('bdfysx'), ('bdfytyrj'), ('bdiddy'), ('bdog'), ('bdsm'),
+    ('bdsmbdsm'), ('bdusty'), ('bdylan'), ('beabea'), ('beach'), ('beachboy'), ('beachbum'), ('beaches'),
+    ('beachs'), ('beachy'), ('beacon'), ('beadle'), ('beagle'), ('beagles'), ('beaker'), ('beaks'),
+    ('beales'), ('beam'), ('beamer'), ('beamish'), ('bean'), ('beanbag'), ('beanbean'), ('beandip'),
+    ('beaner'), ('beanhead'), ('beani'), ('beanie'), ('beanies'), ('beans'), ('beantown'), ('bear'),
+    ('bearbear'), ('bearboy'), ('bearcat'), ('bearcats'), ('bearclaw'), ('bearcub'), ('beard'), ('bearded'),
+    ('bearden'), ('beardog'), ('beardown'), ('bearing'), ('bearman'), ('bears'), ('bearshar'), ('bearshare'),
+    ('bearss'), ('beasley'), ('beast'), ('beastie'), ('beasties'), ('beastly'), ('beastman'), ('beasts'),
+    ('beasty'), ('beat'), ('beatbox'), ('beater'), ('beating'), ('beatit'), ('beatle'), ('beatles'),
+    ('beatme'), ('beatnik'), ('beatoff'), ('beatri'), ('beatrice'), ('beatrix'), ('beatriz'), ('beats'),
+    ('beattie'), ('beatty'), ('beau'), ('beaudog'), ('beauford'), ('beaufort'), ('beaulieu'), ('beaumont'),
+    ('beaut'), ('beauties'), ('beautifu'), ('beautiful'), ('beautiful1'), ('beauty'), ('beaver'), ('beavers'),
+    ('beaversx'), ('beavis'), ('bebe'), ('bebebe'), ('bebebebe'), ('bebert'), ('bebeto'), ('bebit'),
+    ('bebita'), ('bebito'), ('bebop'), ('because'), ('becca'), ('beccaboo'), ('bechtel'), ('beck'),
+    ('becker'), ('becket'), ('beckett'), ('beckham'), ('beckie'), ('beckman'), ('becks'), ('becky'),
+    ('beckys'), ('become'), ('becool'), ('bedbug'), ('bedford'), ('bedlam'), ('bedpan'), ('bedrock'),
+    ('bedroom'), ('bedtime'), ('beebee'), ('beeble'), ('beeboo'), ('beebop'), ('beech'), ('beef'),
+    ('beefbeef'), ('beefcake'), ('beefer'), ('beefheart'), ('beefstew'), ('beefy'), ('beegee'), ('beegees'),
+    ('beehive'), ('beejay'), ('beeker'), ('beelch'), ('beeldbuis'), ('beeline'), ('beeman'), ('beemer'),
+    ('been'), ('beenie'), ('beenther'), ('beep'), ('beepbeep'), ('beeper'), ('beer'), ('beer4me'),
+    ('beerbeer'), ('beerbong'), ('beerboy'), ('beercan'), ('beergod'), ('beergood'), ('beerguy'), ('beerlove'),
+    ('beerman'), ('beerme'), ('beernuts'), ('beers'), ('beerss'), ('beertje'), ('bees'), ('beeson'),
+    ('beeswax'), ('beet'), ('beethove'), ('beethoven'), ('beetle'), ('beezer'), ('before'), ('befree'),
+    ('begemot'), ('begemotik'), ('beggar'), ('begin'), ('beginner'), ('begone'), ('begonia'), ('begood'),
+    ('behappy'), ('behave'), ('behemoth'), ('behind'), ('behold'), ('beholder'), ('beijing'), ('being'),
+    ('beirut'), ('beisbol'), ('bekzat'), ('bela'), ('belair'), ('belarus'), ('belaya'), ('belcher'),
+    ('belette'), ('belfast'), ('belfour'), ('belgacom'), ('belgar'), ('belgarat'), ('belgario'), ('belgique'),
+    ('belgium'), ('belgorod'), ('belial'), ('belief'), ('believe'), ('believer'), ('belind'), ('belinda'),
+    ('belinea'), ('belive'), ('belize'), ('belka'), ('belkin'), ('bell'), ('bella'), ('bellaa'),
+    ('bellaboo'), ('bellaco'), ('belladog'), ('belladon'), ('belladonna'), ('bellagio'), ('bellaire'), ('bellamy'),
+    ('bellas'), ('bellbell'), ('bellboy'), ('belldandy'), ('belle'), ('bellend'), ('beller'), ('belles'),
+    ('bellevue'), ('bellhop'), ('bellini'), ('bello')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('bellow'), ('bellows'), ('bells'), ('bellsout'), ('bellss'), ('bellum'), ('belluno'), ('belly'),
+    ('bellybut'), ('belmar'), ('belmondo'), ('belmont'), ('belo'), ('belo4ka'), ('belochka'), ('beloit'),
+    ('belomor'), ('belong'), ('belous'), ('belova'), ('belove'), ('beloved'), ('below'), ('belt'),
+    ('beltran'), ('beluga'), ('belveder'), ('belvedere'), ('belvoir'), ('belzagor'), ('bemine'), ('benard'),
+    ('benben'), ('benbow'), ('bench'), ('bend'), ('bendan'), ('bender'), ('bendis'), ('bendix'),
+    ('bendog'), ('bendover'), ('bene'), ('benedict'), ('benedikt'), ('benefit'), ('benefits'), ('benelli'),
+    ('benessere'), ('benetton'), ('benfic'), ('benfica'), ('beng'), ('bengal'), ('bengali'), ('bengals'),
+    ('bengel'), ('bengrimm'), ('bengt'), ('benhogan'), ('benhur'), ('benidorm'), ('benita'), ('benitez'),
+    ('benito'), ('benj'), ('benjami'), ('benjamin'), ('benji'), ('benjie'), ('benjij'), ('benjis'),
+    ('benladen'), ('benn'), ('benner'), ('bennet'), ('bennett'), ('bennevis'), ('benni'), ('bennie'),
+    ('benning'), ('benno'), ('benny'), ('bennyboy'), ('benoit'), ('bens'), ('bensam'), ('benso'),
+    ('benson'), ('bent'), ('bentle'), ('bentley'), ('bently'), ('benton'), ('benway'), ('benwin'),
+    ('benz'), ('benzene'), ('benzino'), ('beograd'), ('beotch'), ('beowolf'), ('beowulf'), ('beppe'),
+    ('berbatov'), ('berber'), ('berenger'), ('berenice'), ('beret'), ('beretta'), ('bereza'), ('berezin'),
+    ('berezuckiy'), ('berg'), ('berge'), ('bergen'), ('berger'), ('bergerac'), ('bergeron'), ('bergie'),
+    ('bergkamp'), ('bergman'), ('berik'), ('bering'), ('beringer'), ('berk'), ('berkeley'), ('berkley'),
+    ('berkshir'), ('berkut'), ('berli'), ('berlin'), ('berliner'), ('berlingo'), ('berlioz'), ('berlit'),
+    ('berman'), ('bermuda'), ('bern'), ('berna'), ('bernadet'), ('bernadett'), ('bernadette'), ('bernal'),
+    ('bernar'), ('bernard'), ('bernardi'), ('bernardo'), ('bernd'), ('berner'), ('bernhard'), ('berni'),
+    ('bernice'), ('bernie'), ('berrie'), ('berries'), ('berry'), ('berryman'), ('berrys'), ('bersercer'),
+    ('berserk'), ('berserke'), ('berserker'), ('bert'), ('berta'), ('bertbert'), ('berth'), ('bertha'),
+    ('bertho'), ('berti'), ('bertie'), ('bertil'), ('bertone'), ('bertram'), ('bertrand'), ('bertus'),
+    ('bertuzzi'), ('berty'), ('berwick'), ('beryl'), ('beset'), ('beside'), ('besiktas'), ('bespin'),
+    ('bess'), ('bessie'), ('besson'), ('best'), ('bestbest'), ('bestboy'), ('bestbuy'), ('bester'),
+    ('bestever'), ('bestfriend'), ('bestia'), ('bestial'), ('bestpker09'), ('beszoptad'), ('beta'), ('betabeta'),
+    ('betacam'), ('beth'), ('bethan'), ('bethann'), ('bethany'), ('bethbeth'), ('bethel'), ('bethesda'),
+    ('bethie'), ('betina'), ('betito'), ('betmen'), ('beto'), ('betrayal'), ('betrayed'), ('betsey'),
+    ('betsie'), ('betsy'), ('betta'), ('bette'), ('better'), ('betterth'), ('bettie'), ('bettina'),
+    ('bettis'), ('betty'), ('bettyboo'), ('bettyboop'), ('bettylou'), ('bettyp'), ('bettys'), ('betula'),
+    ('between'), ('beulah'), ('beverage'), ('beverl'), ('beverley'), ('beverly'), ('bevinlee'), ('bevis'),
+    ('bevo'), ('beware'), ('bexley'), ('beyblade'), ('beyonce'), ('beyond'), ('bezparolya'), ('bftest'),
+    ('bg6njokf'), ('bgbgbg'), ('bhammer'), ('bharat'), ('bharath'), ('bhatti'), ('bhavani'), ('bhbcrf'),
+    ('bhbhbh'), ('bhbir'), ('bhbirf'), ('bhbitxrf'), ('bhbyf'), ('bhbyjxrf'), ('bhbyrf'), ('bhecbr'),
+    ('bhfbhf'), ('bhjxrf'), ('bhrh0h2oof6xbqjeh'), ('bhutan'), ('biabia'), ('biafra'), ('bian'), ('bianc'),
+    ('bianca'), ('bianchi'), ('bianco'), ('bianka'), ('biao'), ('biarritz'), ('biatch'), ('bibble'),
+    ('bibi'), ('bibibi'), ('bibibibi'), ('bibigon'), ('bibika'), ('bible'), ('bibles'), ('biblioteka'),
+    ('bicep'), ('biceps'), ('bicho'), ('bichon'), ('bicycle'), ('bicycles'), ('bidden'), ('biddy'),
+    ('bidule'), ('bieber'), ('biedronka'), ('biene'), ('bier'), ('biff'), ('biffbiff'), ('biffer'),
+    ('big1foot'), ('bigair'), ('bigal'), ('bigals'), ('bigapple'), ('bigass'), ('bigasses'), ('bigb'),
+    ('bigbaby'), ('bigbad'), ('bigball'), ('bigballa'), ('bigballe'), ('bigballer'), ('bigballs'), ('bigbang'),
+    ('bigbass'), ('bigbear'), ('bigben'), ('bigberth'), ('bigbertha'), ('bigbig'), ('bigbill'), ('bigbird'),
+    ('bigbitch'), ('bigblack'), ('bigbloc'), ('bigblock'), ('bigblue'), ('bigbo'), ('bigboat'), ('bigbob'),
+    ('bigboi'), ('bigbone'), ('bigboner'), ('bigboob'), ('bigboobi'), ('bigboobs'), ('bigbooty'), ('bigbos'),
+    ('bigboss'), ('bigboy'), ('bigboys'), ('bigbri'), ('bigbro'), ('bigbroth'), ('bigbrother'), ('bigbubba'),
+    ('bigbuck'), ('bigbucks'), ('bigbud'), ('bigbuds'), ('bigbug'), ('bigbull'), ('bigbum'), ('bigbush'),
+    ('bigbut'), ('bigbutt'), ('bigbutts'), ('bigc'), ('bigcat'), ('bigcats'), ('bigcheese'), ('bigchief'),
+    ('bigcoc'), ('bigcock'), ('bigcocks'), ('bigd'), ('bigdad'), ('bigdadd'), ('bigdaddy'), ('bigdady'),
+    ('bigdan'), ('bigdave'), ('bigdawg'), ('bigdeal'), ('bigdee'), ('bigdeer'), ('bigdic'), ('bigdick'),
+    ('bigdicks'), ('bigdik'), ('bigdo'), ('bigdog'), ('bigdogg'), ('bigdogs'), ('bigdon'), ('bigdong'),
+    ('bigdoug'), ('bigdude'), ('bigdummy'), ('bige'), ('bigeagle'), ('bigears'), ('bigeasy'), ('biged'),
+    ('bigelow'), ('bigern'), ('bigeye'), ('bigfan'), ('bigfat'), ('bigfeet'), ('bigfella'), ('bigfish'),
+    ('bigfoo'), ('bigfoot'), ('bigfun'), ('bigg'), ('biggame'), ('biggdogg'), ('bigge'), ('biggen'),
+    ('bigger'), ('biggest'), ('biggi'), ('biggie'), ('biggin'), ('biggins'), ('biggio'), ('biggirl'),
+    ('biggirls'), ('biggles'), ('biggreen'), ('biggs'), ('biggums'), ('biggun'), ('bigguns'), ('biggus'),
+    ('bigguy'), ('biggy'), ('bighead'), ('bighorn'), ('bighouse'), ('bighurt'), ('bigjack'), ('bigjake'),
+    ('bigjay'), ('bigjim'), ('bigjoe'), ('bigjohn'), ('bigjon'), ('bigjuggs'), ('bigjugs'), ('bigkahun'),
+    ('bigkat'), ('bigkev'), ('biglips'), ('bigload'), ('bigloser'), ('biglou'), ('biglove'), ('bigmac'),
+    ('bigmack'), ('bigmama'), ('bigman'), ('bigmatt'), ('bigmax'), ('bigmaxxx'), ('bigmig'), ('bigmike'),
+    ('bigmoe'), ('bigmomma'), ('bigmoney'), ('bigmoose'), ('bigmouth'), ('bignasty'), ('bignose'), ('bignuts'),
+    ('bigo'), ('bigone'), ('bigones'), ('bigpapa'), ('bigpappa'), ('bigpenis'), ('bigphil'), ('bigpig'),
+    ('bigpimp'), ('bigpimpi'), ('bigpimpin'), ('bigpimpn'), ('bigpipe'), ('bigpoppa'), ('bigpun'), ('bigpussy'),
+    ('bigqueer'), ('bigrat'), ('bigred'), ('bigrick'), ('bigrig'), ('bigrob'), ('bigrock'), ('bigrod'),
+    ('bigron'), ('bigs'), ('bigsam'), ('bigsexxy')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('bigsexy'), ('bigshit'), ('bigshot'), ('bigshow'), ('bigsky'), ('bigslick'), ('bigsmall'), ('bigsmurf'),
+    ('bigsteve'), ('bigstick'), ('bigstud'), ('bigstuff'), ('bigsur'), ('bigt'), ('bigted'), ('bigtee'),
+    ('bigten'), ('bigtex'), ('bigtim'), ('bigtime'), ('bigtimer'), ('bigtit'), ('bigtits'), ('bigtitts'),
+    ('bigtitty'), ('bigtoe'), ('bigtom'), ('bigtop'), ('bigtrain'), ('bigtree'), ('bigtruck'), ('bigtuna'),
+    ('bigtymer'), ('bigun'), ('biguns'), ('bigwave'), ('bigwaves'), ('bigwig'), ('bigwill'), ('bigwilli'),
+    ('bigwilly'), ('bigwin'), ('bigworm'), ('biit'), ('bijoux'), ('bike'), ('bikebike'), ('bikeboy'),
+    ('biker'), ('bikerboy'), ('bikers'), ('bikes'), ('biking'), ('bikini'), ('bikman'), ('bilabong'),
+    ('bilbao'), ('bilbo'), ('bilbob'), ('bilbobag'), ('bilbos'), ('bilder'), ('bilge'), ('bill'),
+    ('billa'), ('billabon'), ('billabong'), ('billard'), ('billards'), ('billb'), ('billbill'), ('billbo'),
+    ('billbob'), ('billee'), ('biller'), ('billet'), ('billfish'), ('billg'), ('billgate'), ('billgates'),
+    ('billi'), ('billiam'), ('billiard'), ('billie'), ('billies'), ('billing'), ('billings'), ('billion'),
+    ('billionaire'), ('billions'), ('billll'), ('billly'), ('billows'), ('bills'), ('billy'), ('billyb'),
+    ('billybo'), ('billybob'), ('billyboy'), ('billyc'), ('billycat'), ('billyd'), ('billydog'), ('billyg'),
+    ('billygoa'), ('billygoat'), ('billyjo'), ('billyjoe'), ('billyk'), ('billyray'), ('billys'), ('biloute'),
+    ('bimbam'), ('bimbim'), ('bimbo'), ('bimbos'), ('bimini'), ('bimmer'), ('bimota'), ('bina'),
+    ('binance'), ('binary'), ('binbin'), ('binder'), ('bine'), ('binford'), ('bing'), ('bingbing'),
+    ('bingbong'), ('binge'), ('binger'), ('bingham'), ('bingle'), ('bingo'), ('bingobin'), ('bingoo'),
+    ('bingos'), ('bink'), ('binker'), ('binkie'), ('binkley'), ('binky'), ('binladen'), ('binman'),
+    ('binnen'), ('binnie'), ('bintang'), ('biochem'), ('biodtl'), ('biohazar'), ('biohazard'), ('biolog'),
+    ('biologia'), ('biology'), ('bioman'), ('biomed'), ('bionic'), ('bionicle'), ('bioshock'), ('biosinfo'),
+    ('biotch'), ('biotech'), ('bipbip'), ('biplane'), ('bipolar'), ('birch'), ('bird'), ('birdbath'),
+    ('birdbird'), ('birdcage'), ('birddog'), ('birder'), ('birdhous'), ('birdhouse'), ('birdi'), ('birdie'),
+    ('birdies'), ('birdland'), ('birdman'), ('birds'), ('birdseed'), ('birdseye'), ('birdsong'), ('birdy'),
+    ('birgit'), ('birgitta'), ('birillo'), ('birmingh'), ('birmingham'), ('birthda'), ('birthday'), ('birthday10'),
+    ('birthday100'), ('birthday133'), ('birthday21'), ('birthday26'), ('birthday27'), ('birthday28'), ('birthday299'), ('birthday36'),
+    ('birthday52'), ('birthday54'), ('biscayne'), ('biscuit'), ('biscuits'), ('bisexual'), ('bishkek'), ('bisho'),
+    ('bishop'), ('bishops'), ('biskit'), ('bismarck'), ('bismark'), ('bismilah'), ('bismilla'), ('bismillah'),
+    ('bismillah786'), ('bison'), ('bisons'), ('bisou'), ('bisous'), ('bisquit'), ('bissjop'), ('bistro'),
+    ('bitbit'), ('bitburg'), ('bitch'), ('bitchass'), ('bitchboy'), ('bitche'), ('bitchedu'), ('bitchedup'),
+    ('bitches'), ('bitchin'), ('bitchs'), ('bitchsla'), ('bitchy'), ('bitcoin'), ('bite'), ('bitem'),
+    ('biteme'), ('bits'), ('bitten'), ('bitter'), ('bittle'), ('bittner'), ('biturbo'), ('bitwise'),
+    ('bixler'), ('bizarre'), ('bizarro'), ('bizkit'), ('biznes'), ('bizness'), ('bizzare'), ('bizzaro'),
+    ('bizzy'), ('bjackson'), ('bjarne'), ('bjbjbj'), ('bjhgfi'), ('bjoern'), ('bjones'), ('bjork'),
+    ('bjorn'), ('bjsbjs'), ('bk.irf'), ('bkmifn'), ('bkmlfh'), ('bkmyeh'), ('blaat'), ('blabl'),
+    ('blabla'), ('blablabl'), ('blablabla'), ('blac'), ('black'), ('blackadd'), ('blackadder'), ('blackand'),
+    ('blackangel'), ('blackass'), ('blackb'), ('blackbas'), ('blackbea'), ('blackbel'), ('blackbelt'), ('blackber'),
+    ('blackberry'), ('blackbir'), ('blackbird'), ('blackbla'), ('blackboo'), ('blackbox'), ('blackboy'), ('blackbur'),
+    ('blackburn'), ('blackcar'), ('blackcat'), ('blackcoc'), ('blackcock'), ('blackcow'), ('blackdic'), ('blackdick'),
+    ('blackdog'), ('blackdra'), ('blackdragon'), ('blacke'), ('blacken'), ('blacker'), ('blackeye'), ('blackfin'),
+    ('blackflag'), ('blackfly'), ('blackfoo'), ('blackgir'), ('blackhat'), ('blackhaw'), ('blackhawk'), ('blackhawks'),
+    ('blackhea'), ('blackheart'), ('blackhol'), ('blackhole'), ('blackhor'), ('blackhorse'), ('blacki'), ('blackice'),
+    ('blackie'), ('blackjac'), ('blackjack'), ('blackk'), ('blacklab'), ('blacklabel'), ('blackmag'), ('blackmagic'),
+    ('blackmai'), ('blackman'), ('blackmen'), ('blackmetal'), ('blackmor'), ('blackone'), ('blackops'), ('blackout'),
+    ('blackpoo'), ('blackpool'), ('blackpus'), ('blackros'), ('blackrose'), ('blacks'), ('blacksab'), ('blacksex'),
+    ('blackshadow'), ('blackshe'), ('blacksheep'), ('blacksmi'), ('blacksonblon'), ('blacksta'), ('blackstar'), ('blacksto'),
+    ('blackstone'), ('blacksun'), ('blacktie'), ('blacktop'), ('blackwat'), ('blackwhite'), ('blackwid'), ('blackwol'),
+    ('blackwoo'), ('blacky'), ('bladder'), ('blade'), ('blademan'), ('blader'), ('bladerun'), ('bladerunner'),
+    ('blades'), ('bladez'), ('blah'), ('blahbla'), ('blahblah'), ('blahblahblah'), ('blaine'), ('blair'),
+    ('blaise'), ('blake'), ('blakeca'), ('blaker'), ('blakes'), ('blakey'), ('blakstar'), ('blam'),
+    ('blammo'), ('blanc'), ('blanca'), ('blanch'), ('blanche'), ('blanco'), ('blaney'), ('blank'),
+    ('blanka'), ('blanked'), ('blanket'), ('blankman'), ('blanks'), ('blaque'), ('blarg'), ('blargh'),
+    ('blarney'), ('blasen'), ('blaser'), ('blass'), ('blast'), ('blaste'), ('blasted'), ('blaster'),
+    ('blasters'), ('blasto'), ('blastoff'), ('blather'), ('blaze'), ('blazed'), ('blazer'), ('blazers'),
+    ('blazin'), ('blazing'), ('blcktrn'), ('bldass'), ('bleach'), ('bleacher'), ('bleat'), ('bledsoe'),
+    ('bleed'), ('bleeding'), ('bleh'), ('blehbleh'), ('blend'), ('blender'), ('blenheim'), ('bless'),
+    ('blesse'), ('blessed'), ('blessing'), ('blessings'), ('blessme'), ('blessyou'), ('bleu'), ('blight'),
+    ('blimey'), ('blimp'), ('blind'), ('blindax'), ('blinded'), ('blinder'), ('blindman'), ('blinds'),
+    ('bling'), ('blingbli'), ('blingbling'), ('blink'), ('blinker'), ('blinkers'), ('blinkme'), ('blinky'),
+    ('blinn'), ('blip'), ('bliss'), ('blister'), ('blitz'), ('blitzen'), ('blitzer'), ('blitzkri'),
+    ('blitzkrieg'), ('bliznec'), ('blizzar'), ('blizzard'), ('blob'), ('blobby'), ('block'), ('blockbus'),
+    ('blocked'), ('blocker'), ('blocks'), ('bloembol'), ('blofeld'), ('blog'), ('blogger'), ('bloggs'),
+    ('blojob'), ('bloke'), ('blome'), ('blond'), ('blonde'), ('blondes'), ('blondi'), ('blondie'),
+    ('blondin'), ('blondinka'), ('blonds'), ('blondy')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('blood'), ('bloodhou'), ('bloodlus'), ('bloodlust'), ('bloodmoon'), ('bloodred'), ('bloods'), ('bloody'),
+    ('bloom'), ('bloomberg'), ('bloomer'), ('bloomers'), ('bloomin'), ('blooming'), ('blooms'), ('bloop'),
+    ('bloopers'), ('blossom'), ('blossoms'), ('blotter'), ('blotto'), ('blount'), ('blouse'), ('blow'),
+    ('blower'), ('blowfish'), ('blowhard'), ('blowj'), ('blowjo'), ('blowjob'), ('blowjobs'), ('blowjoe'),
+    ('blowme'), ('blown'), ('blowpop'), ('blows'), ('blowup'), ('bltynbabrfwbz'), ('blub'), ('blubber'),
+    ('blucher'), ('blue'), ('bluearmy'), ('bluebaby'), ('blueball'), ('blueballs'), ('bluebear'), ('bluebel'),
+    ('bluebell'), ('blueberr'), ('blueberry'), ('blueberry1'), ('bluebir'), ('bluebird'), ('blueblue'), ('bluebook'),
+    ('bluebox'), ('blueboy'), ('blueboys'), ('bluecar'), ('bluecat'), ('bluecrab'), ('bluedevi'), ('bluedevils'),
+    ('bluedog'), ('bluedot'), ('bluedragon'), ('blueduck'), ('blueee'), ('blueeye'), ('blueeyes'), ('bluefin'),
+    ('bluefire'), ('bluefish'), ('bluefox'), ('bluefrog'), ('bluegill'), ('bluegirl'), ('bluegold'), ('bluegras'),
+    ('bluegrass'), ('bluegree'), ('bluegreen'), ('bluehair'), ('bluehawk'), ('bluehen'), ('blueice'), ('bluejay'),
+    ('bluejays'), ('bluejean'), ('blueligh'), ('bluelight'), ('blueline'), ('bluelove'), ('blueman'), ('bluemax'),
+    ('bluemonkey'), ('bluemoon'), ('bluenose'), ('bluenote'), ('blueone'), ('blueprin'), ('blueprint'), ('bluered'),
+    ('blueroom'), ('bluerose'), ('blues'), ('bluesea'), ('blueskie'), ('blueskies'), ('bluesky'), ('bluesman'),
+    ('bluess'), ('bluestar'), ('bluesy'), ('bluetick'), ('bluetooth'), ('bluewate'), ('bluewater'), ('bluewave'),
+    ('bluewolf'), ('blueyes'), ('bluish'), ('blume'), ('blumen'), ('blumpkin'), ('blunder'), ('blunt'),
+    ('blunted'), ('bluntman'), ('blunts'), ('bluntz'), ('bluphi'), ('blur'), ('blurry'), ('blush'),
+    ('blythe'), ('bman'), ('bmbmbm'), ('bmvm3e46gtr'), ('bmw318i'), ('bmw318is'), ('bmw320d'), ('bmw320i'),
+    ('bmw325ci'), ('bmw325i'), ('bmw325is'), ('bmw328i'), ('bmw330ci'), ('bmw540i'), ('bmw750il'), ('bmwbmw'),
+    ('bmwk75s'), ('bmwpower'), ('bmx4life'), ('bncnbxc'), ('bnfkbz'), ('bnmbnm'), ('bo243ns'), ('board'),
+    ('boarder'), ('boarding'), ('boards'), ('boardwal'), ('boat'), ('boater'), ('boating'), ('boatman'),
+    ('boats'), ('boaz'), ('boba'), ('bobafett'), ('bobb'), ('bobbafet'), ('bobbbb'), ('bobber'),
+    ('bobbi'), ('bobbie'), ('bobbijo'), ('bobbilly'), ('bobbin'), ('bobbins'), ('bobble'), ('bobbles'),
+    ('bobbo'), ('bobbob'), ('bobbobbo'), ('bobbobbob'), ('bobby'), ('bobbyb'), ('bobbybob'), ('bobbyboy'),
+    ('bobbyd'), ('bobbyg'), ('bobbyj'), ('bobbyjoe'), ('bobbym'), ('bobbyorr'), ('bobbys'), ('bobbyt'),
+    ('bobbyv'), ('bobbyy'), ('bobcat'), ('bobcats'), ('bobdog'), ('bobdole'), ('bobdylan'), ('bobert'),
+    ('bobette'), ('bobhope'), ('bobi'), ('bobjoe'), ('bobjones'), ('bobman'), ('bobmarle'), ('bobmarley'),
+    ('bobmarley1'), ('bobo'), ('bobob'), ('bobobo'), ('bobobobo'), ('bobolina'), ('bobolink'), ('bobrik'),
+    ('bobrov'), ('bobs'), ('bobsmith'), ('bobster'), ('bobthedo'), ('bobweir'), ('bobwhite'), ('boby'),
+    ('boca'), ('bocachic'), ('boccoli'), ('bocephus'), ('bochum'), ('bock'), ('bocman'), ('boddyb'),
+    ('bodean'), ('bodega'), ('bodensee'), ('bodger'), ('bodhi'), ('bodie'), ('bodies'), ('bodine'),
+    ('bodiroga'), ('bodo'), ('body'), ('bodybuil'), ('bodyhamm'), ('bodyman'), ('bodyshop'), ('boeder'),
+    ('boeing'), ('bofa'), ('boffin'), ('bogart'), ('bogdan'), ('bogdana'), ('bogdanov'), ('bogdanova'),
+    ('bogey'), ('bogeyman'), ('bogeys'), ('bogger'), ('boggie'), ('boggle'), ('boggy'), ('bogie'),
+    ('bogies'), ('bogner'), ('bogomol'), ('bogos'), ('bogota'), ('bogus'), ('bogy'), ('bohemia'),
+    ('bohemian'), ('bohica'), ('boiler'), ('boilerma'), ('boilers'), ('boing'), ('boingo'), ('boink'),
+    ('boise'), ('bojack'), ('bojangle'), ('bojangles'), ('bokbok'), ('bokkie'), ('bokonon'), ('bokser'),
+    ('bolabola'), ('bolat'), ('bolbo6a6s'), ('bolbol'), ('bold'), ('bolder'), ('bolero'), ('boleslaw'),
+    ('bolita'), ('bolitas'), ('boliva'), ('bolivar'), ('bolivi'), ('bolivia'), ('bolle'), ('bolleke'),
+    ('bollen'), ('bollie'), ('bollix'), ('bollock'), ('bollocks'), ('bollox'), ('bollywood'), ('bolo'),
+    ('bologna'), ('boloto'), ('bolt'), ('bolton'), ('boludo'), ('bomb'), ('bomba'), ('bombadil'),
+    ('bombarde'), ('bombay'), ('bomber'), ('bomberman'), ('bombero'), ('bomberos'), ('bombers'), ('bombo'),
+    ('bombom'), ('bombon'), ('bombs'), ('bombshel'), ('bommel'), ('bommer'), ('bonafont'), ('bonaire'),
+    ('bonanza'), ('bonapart'), ('bonbo'), ('bonbon'), ('bond'), ('bondage'), ('bondages'), ('bondar'),
+    ('bondarenko'), ('bondbond'), ('bonded'), ('bondie'), ('bonding'), ('bondone'), ('bonds'), ('bone'),
+    ('bonebone'), ('boneca'), ('bonedadd'), ('bonefish'), ('bonehead'), ('boneman'), ('boner'), ('boners'),
+    ('bones'), ('boness'), ('bonethug'), ('bonethugs'), ('boney'), ('boneyard'), ('boneym'), ('bonfire'),
+    ('bong'), ('bongbong'), ('bonger'), ('bonghit'), ('bonghits'), ('bongload'), ('bongo'), ('bongos'),
+    ('bongtoke'), ('bongwate'), ('bongwater'), ('bonham'), ('boniface'), ('bonit'), ('bonita'), ('bonito'),
+    ('bonjou'), ('bonjour'), ('bonjours'), ('bonjov'), ('bonjovi'), ('bonk'), ('bonker'), ('bonkers'),
+    ('bonn'), ('bonner'), ('bonneville'), ('bonney'), ('bonni'), ('bonnie'), ('bonnies'), ('bonny'),
+    ('bono'), ('bonobo'), ('bonobono'), ('bonoedge'), ('bonovox'), ('bonsai'), ('bonscott'), ('bonsoir'),
+    ('bonus'), ('bonzai'), ('bonzo'), ('bonzodog'), ('boob'), ('boobboob'), ('boobear'), ('boobed'),
+    ('boobee'), ('boober'), ('boobers'), ('boobie'), ('boobies'), ('boobis'), ('boobless'), ('booblove'),
+    ('boobman'), ('boobo'), ('booboo'), ('booboobo'), ('booboos'), ('booboy'), ('boobs'), ('boobs4me'),
+    ('boobss'), ('booby'), ('boobys'), ('boobz'), ('boocat'), ('boochie'), ('boodie'), ('boodle'),
+    ('boodles'), ('boodog'), ('boofer'), ('boog'), ('booga'), ('boogaloo'), ('booge'), ('booger'),
+    ('boogers'), ('boogey'), ('boogi'), ('boogie'), ('boogiema'), ('boogies'), ('boogle'), ('boognish'),
+    ('boogs'), ('boogyman'), ('boohoo'), ('boojum'), ('book'), ('bookbook'), ('bookcase'), ('bookem'),
+    ('bookend'), ('booker'), ('bookert'), ('bookie'), ('booking'), ('booklover'), ('bookman'), ('bookmark'),
+    ('books'), ('bookworm'), ('boolean'), ('boom'), ('booman'), ('boomba'), ('boomboom'), ('boombox'),
+    ('boome'), ('boomer'), ('boomeran'), ('boomerang'), ('boomers'), ('boomstic'), ('boomtown'), ('boon'),
+    ('boondock'), ('boone'), ('boonedog'), ('booner')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('boones'), ('boonie'), ('booo'), ('booobs'), ('booom'), ('boooom'), ('booooo'), ('boooty'),
+    ('boop'), ('boopboop'), ('booper'), ('boopie'), ('boost'), ('boosted'), ('booster'), ('boot'),
+    ('bootay'), ('bootboot'), ('bootboy'), ('bootcamp'), ('booter'), ('bootie'), ('booties'), ('bootleg'),
+    ('bootmort'), ('bootneck'), ('boots'), ('bootsie'), ('bootsman'), ('bootsy'), ('booty'), ('bootycal'),
+    ('bootycall'), ('bootyman'), ('bootys'), ('booya'), ('booyaa'), ('booyah'), ('booyaka'), ('booyeah'),
+    ('booze'), ('boozer'), ('bopper'), ('boppers'), ('bora'), ('borabora'), ('boracay'), ('borat'),
+    ('bordeau'), ('bordeaux'), ('bordello'), ('borden'), ('border'), ('borders'), ('bore'), ('boreal'),
+    ('borealis'), ('bored'), ('boredboi4u'), ('boredom'), ('borg'), ('borges'), ('borgia'), ('boricua'),
+    ('boring'), ('boriqua'), ('boris'), ('borisenko'), ('boriska'), ('borisov'), ('borisova'), ('boriss'),
+    ('borland'), ('borman'), ('born'), ('born2run'), ('borneo'), ('bornfree'), ('borntorun'), ('boro'),
+    ('boroboro'), ('boroda'), ('borodin'), ('borodina'), ('boromir'), ('borracho'), ('borris'), ('borussia'),
+    ('borzoi'), ('bosch'), ('bosco'), ('boscoe'), ('boscos'), ('bose'), ('boske'), ('bosley'),
+    ('bosnia'), ('bosom'), ('bosox'), ('boss'), ('bossboss'), ('bossdog'), ('bosse'), ('bosses'),
+    ('bosshog'), ('bosshogg'), ('bosslady'), ('bossman'), ('bossss'), ('bosstone'), ('bossyak123'), ('bosto'),
+    ('boston'), ('bostonli'), ('boswell'), ('bosworth'), ('bot_schokk'), ('botafogo'), ('botanik'), ('botany'),
+    ('botbot'), ('bother'), ('bots'), ('botswana'), ('bottle'), ('bottleca'), ('bottles'), ('bottom'),
+    ('bottoms'), ('boubo'), ('boubou'), ('bouboule'), ('bouboune'), ('bouchard'), ('bouche'), ('boucher'),
+    ('bouchra'), ('boudin'), ('boudreau'), ('boulder'), ('boulevar'), ('boulou'), ('bounce'), ('bouncer'),
+    ('bouncing'), ('bouncy'), ('bound'), ('boundary'), ('bounder'), ('bounty'), ('bourbon'), ('bourne'),
+    ('bourque'), ('bout'), ('boutique'), ('boutit'), ('bouvier'), ('bovine'), ('bowbow'), ('bowden'),
+    ('bowel'), ('bowen'), ('bowens'), ('bowers'), ('bowflex'), ('bowhunt'), ('bowhunte'), ('bowhunter'),
+    ('bowie'), ('bowl'), ('bowler'), ('bowles'), ('bowlin'), ('bowling'), ('bowman'), ('bowmore'),
+    ('bowser'), ('bowtie'), ('bowwo'), ('bowwow'), ('bowzer'), ('boxbox'), ('boxcar'), ('boxer'),
+    ('boxerdog'), ('boxers'), ('boxes'), ('boxhead'), ('boxing'), ('boxman'), ('boxster'), ('boxsters'),
+    ('boxter'), ('boxxer'), ('boy1cool23'), ('boy4u2ownnyc'), ('boyar'), ('boyblue'), ('boyboy'), ('boyce'),
+    ('boycott'), ('boyd'), ('boyfriend'), ('boyle'), ('boys'), ('boyscout'), ('boytoy'), ('boywonde'),
+    ('boywonder'), ('boyz'), ('bozeman'), ('bozo'), ('bozobozo'), ('bozwell'), ('bpevhel'), ('bpgjldsgjldthnf'),
+    ('bpvtyf'), ('br00klyn'), ('br0d3r'), ('br0ken'), ('br1ttany'), ('brabus'), ('brace'), ('bracelet'),
+    ('braces'), ('bracken'), ('bracket'), ('brad'), ('bradbrad'), ('bradbury'), ('braddock'), ('braden'),
+    ('bradford'), ('bradipo'), ('bradle'), ('bradley'), ('bradly'), ('bradman'), ('bradpitt'), ('bradshaw'),
+    ('brady'), ('brahma'), ('brahms'), ('brain'), ('braindea'), ('brainiac'), ('brains'), ('brainy'),
+    ('brake'), ('brakes'), ('bramble'), ('brampton'), ('bran'), ('branca'), ('branch'), ('branco'),
+    ('brancusi'), ('brand'), ('brandan'), ('brande'), ('brandee'), ('branden'), ('brandi'), ('brandie'),
+    ('brandnew'), ('brando'), ('brandon'), ('brandonl'), ('brandonn'), ('brands'), ('brandt'), ('brandy'),
+    ('branford'), ('brannon'), ('branson'), ('branston'), ('brant'), ('brantley'), ('brasco'), ('brasi'),
+    ('brasil'), ('brasilia'), ('brasov'), ('brass'), ('brasse'), ('brasskey'), ('brat'), ('bratan'),
+    ('bratpack'), ('brattax'), ('bratty'), ('bratva'), ('braun'), ('brause'), ('bravada'), ('bravado'),
+    ('brave'), ('bravehea'), ('braveheart'), ('braves'), ('bravo'), ('bravos'), ('brawley'), ('braxton'),
+    ('brayden'), ('brazen'), ('brazil'), ('brazilia'), ('brazzers'), ('brea'), ('breach'), ('bread'),
+    ('breadman'), ('breads'), ('break'), ('breakdance'), ('breakdow'), ('breakdown'), ('breaker'), ('breakers'),
+    ('breakfas'), ('breakfast'), ('breakin'), ('breaking'), ('breakout'), ('breaks'), ('bream'), ('breanna'),
+    ('breanne'), ('breast'), ('breasts'), ('breath'), ('breathe'), ('brebre'), ('brechin'), ('bree'),
+    ('breeanna'), ('breed'), ('breeder'), ('breez'), ('breeze'), ('breezer'), ('breezy'), ('brehznev'),
+    ('breitlin'), ('breizh'), ('bremen'), ('bremer'), ('bren'), ('brend'), ('brenda'), ('brendan'),
+    ('brenden'), ('brendon'), ('brenna'), ('brennan'), ('brennen'), ('brenner'), ('brent'), ('brentfor'),
+    ('brentford'), ('brenton'), ('brents'), ('brentwoo'), ('brescia'), ('brest'), ('bret'), ('bretagne'),
+    ('brethart'), ('breton'), ('brett'), ('brevard'), ('brew'), ('brewcrew'), ('brewer'), ('brewers'),
+    ('brewery'), ('brewski'), ('brewster'), ('bria'), ('brian'), ('briana'), ('brianb'), ('brianc'),
+    ('briand'), ('briane'), ('brianf'), ('briang'), ('brianj'), ('brianjo'), ('briank'), ('brianl'),
+    ('brianm'), ('briann'), ('brianna'), ('brianne'), ('briano'), ('brianp'), ('brianr'), ('brians'),
+    ('briant'), ('brianw'), ('bribri'), ('brice'), ('brick'), ('brickhou'), ('bricks'), ('bricky'),
+    ('bride'), ('brides'), ('bridge'), ('bridger'), ('bridges'), ('bridget'), ('bridgett'), ('bridgette'),
+    ('bridie'), ('brief'), ('briefs'), ('brielle'), ('brigada'), ('brigade'), ('briggs'), ('brigham'),
+    ('bright'), ('brighto'), ('brighton'), ('brigid'), ('brigit'), ('brigitta'), ('brigitte'), ('briguy'),
+    ('brijam'), ('brille'), ('brillian'), ('brilliant'), ('brillig'), ('brillo'), ('brimston'), ('brimstone'),
+    ('brindisi'), ('brindle'), ('bringit'), ('bringiton'), ('brinkley'), ('brinkman'), ('brinks'), ('briony'),
+    ('brisbane'), ('brisco'), ('brissonl'), ('bristol'), ('bristolc'), ('brit'), ('britain'), ('britania'),
+    ('britanni'), ('britany'), ('britches'), ('british'), ('britne'), ('britney'), ('britneys'), ('britni'),
+    ('britt'), ('britta'), ('brittan'), ('brittani'), ('brittany'), ('britten'), ('brittle'), ('brittney'),
+    ('brittni'), ('britton'), ('britty'), ('brixton'), ('brmfcsto'), ('broad'), ('broadban'), ('broadband'),
+    ('broadcast'), ('broadway'), ('broccoli'), ('brochet'), ('brock'), ('brockton'), ('brodeur'), ('brodie'),
+    ('brody'), ('brogan'), ('broil'), ('broke'), ('broken'), ('broker'), ('brolly'), ('bromley'),
+    ('brompton'), ('bronc'), ('bronco'), ('broncos')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('brondby'), ('bronica'), ('bronson'), ('bronte'), ('bronwyn'), ('bronx'), ('bronze'), ('brood'),
+    ('broodwar'), ('brook'), ('brooke'), ('brooker'), ('brookes'), ('brookie'), ('brooking'), ('brooklin'),
+    ('brookly'), ('brooklyn'), ('brooks'), ('brooksie'), ('brooms'), ('brooze'), ('brophy'), ('bros'),
+    ('brothe'), ('brothel'), ('brother'), ('brotherhood'), ('brothers'), ('broward'), ('brown'), ('browncat'),
+    ('browncow'), ('browndog'), ('browne'), ('browner'), ('browneye'), ('browneyes'), ('browni'), ('brownie'),
+    ('brownies'), ('browning'), ('brownlov'), ('brownn'), ('browns'), ('browntro'), ('browny'), ('browser'),
+    ('browseui'), ('bruce'), ('brucelee'), ('bruces'), ('brucew'), ('brucewayne'), ('brucey'), ('brucie'),
+    ('bruckner'), ('bruder'), ('bruin'), ('bruins'), ('bruise'), ('bruiser'), ('brujah'), ('brun'),
+    ('brune'), ('brunel'), ('brunello'), ('brunette'), ('brunner'), ('bruno'), ('brunob'), ('brunodog'),
+    ('brunos'), ('brunswic'), ('brunswick'), ('brush'), ('brushy'), ('bruski'), ('brussel'), ('brussels'),
+    ('brutal'), ('brute'), ('bruteforce'), ('brutis'), ('brutu'), ('brutus'), ('bruxelle'), ('bryan'),
+    ('bryana'), ('bryanna'), ('bryant'), ('bryce'), ('brydges'), ('bryguy'), ('bryony'), ('bryson'),
+    ('bsaltz'), ('bsanders'), ('bsmith'), ('btnjey'), ('bu7re8au'), ('buba'), ('bubabuba'), ('bubb'),
+    ('bubba'), ('bubbaa'), ('bubbaboy'), ('bubbabub'), ('bubbacat'), ('bubbadog'), ('bubbagum'), ('bubbagump'),
+    ('bubbah'), ('bubbaman'), ('bubbas'), ('bubber'), ('bubbie'), ('bubbl'), ('bubble'), ('bubblebox'),
+    ('bubblebu'), ('bubblegu'), ('bubblegum'), ('bubbler'), ('bubbles'), ('bubbly'), ('bubby'), ('bublik'),
+    ('bubluk'), ('bubu'), ('bububu'), ('bubun'), ('bucaneer'), ('buccanee'), ('buccaneers'), ('buceta'),
+    ('buchanan'), ('buchholz'), ('buck'), ('buckaroo'), ('buckbuck'), ('buckdeer'), ('bucker'), ('bucket'),
+    ('buckethe'), ('buckets'), ('buckey'), ('buckeye'), ('buckeyes'), ('buckfast'), ('buckie'), ('buckle'),
+    ('buckles'), ('buckley'), ('buckman'), ('buckner'), ('bucko'), ('bucks'), ('buckshot'), ('buckskin'),
+    ('buckster'), ('buckwhea'), ('buckwheat'), ('buckwild'), ('bucky'), ('bucs'), ('buda'), ('budapest'),
+    ('budbud'), ('budd'), ('budda'), ('buddah'), ('buddha'), ('buddie'), ('buddies'), ('buddog'),
+    ('buddy'), ('buddyboy'), ('buddycat'), ('buddydog'), ('buddylee'), ('buddys'), ('buddyy'), ('budge'),
+    ('budget'), ('budgie'), ('budice'), ('budligh'), ('budlight'), ('budlite'), ('budman'), ('buds'),
+    ('budster'), ('budweise'), ('budweiser'), ('budwiser'), ('budz'), ('buell'), ('bueller'), ('buena'),
+    ('bueno'), ('buenos'), ('buff'), ('buffa'), ('buffal'), ('buffalo'), ('buffaloe'), ('buffalos'),
+    ('buffer'), ('buffet'), ('buffett'), ('buffie'), ('buffman'), ('buffon'), ('bufford'), ('buffs'),
+    ('buffster'), ('buffy'), ('buffy1ma'), ('buffys'), ('buford'), ('bugaboo'), ('bugaga'), ('bugatti'),
+    ('bugbug'), ('bugeye'), ('bugfree'), ('bugg'), ('bugged'), ('bugger'), ('buggerme'), ('buggers'),
+    ('buggie'), ('buggin'), ('buggs'), ('buggss'), ('buggy'), ('bugler'), ('bugman'), ('bugmenot'),
+    ('bugs'), ('bugsbugs'), ('bugsbunn'), ('bugsbunny'), ('bugssgub'), ('bugsy'), ('buhbuh'), ('buheirb'),
+    ('buheirf'), ('buhjvfybz'), ('buick'), ('buicks'), ('build'), ('builder'), ('builders'), ('building'),
+    ('bujhm'), ('bujhmbujhm'), ('bujhtdbx'), ('bujhtr'), ('bujinkan'), ('bukkake'), ('bukowski'), ('bulabula'),
+    ('bulbs'), ('bulbul'), ('buldog'), ('buldozer'), ('bulgakov'), ('bulgaria'), ('bulge'), ('bulger'),
+    ('bull'), ('bullard'), ('bullbull'), ('bullcrap'), ('bulldawg'), ('bulldo'), ('bulldog'), ('bulldogg'),
+    ('bulldogs'), ('bulldoze'), ('bulldozer'), ('bulle'), ('bullen'), ('buller'), ('bullet'), ('bulletin'),
+    ('bulletproof'), ('bullets'), ('bullett'), ('bullfrog'), ('bullgod'), ('bullhead'), ('bullish'), ('bullit'),
+    ('bullitt'), ('bullman'), ('bullnuts'), ('bullnuts2003'), ('bullock'), ('bullocks'), ('bullpen'), ('bullride'),
+    ('bullrider'), ('bullrun'), ('bulls'), ('bullseye'), ('bullshi'), ('bullshit'), ('bullss'), ('bullwhip'),
+    ('bullwink'), ('bullwinkle'), ('bully'), ('bullyboy'), ('bulma'), ('bulova'), ('bulsara'), ('bultaco'),
+    ('bulwark'), ('bumble'), ('bumblebe'), ('bumblebee'), ('bumbling'), ('bumbum'), ('bumerang'), ('bumfuck'),
+    ('bumhole'), ('bummer'), ('bump'), ('bumper'), ('bumpkin'), ('bums'), ('bumsen'), ('bunbun'),
+    ('bunch'), ('bunches'), ('bunda'), ('bundao'), ('bundas'), ('bundle'), ('bundy'), ('bung'),
+    ('bungalow'), ('bungee'), ('bunghole'), ('bungie'), ('bungle'), ('bunk'), ('bunker'), ('bunkie'),
+    ('bunky'), ('bunkys'), ('bunner'), ('bunnie'), ('bunnies'), ('bunnihoni'), ('bunns'), ('bunny'),
+    ('bunnyhop'), ('bunnyman'), ('bunnys'), ('buns'), ('bunsen'), ('bunter'), ('bunyan'), ('buratino'),
+    ('burbank'), ('burberry'), ('burbon'), ('burden'), ('bureau'), ('burford'), ('burg'), ('burge'),
+    ('burger'), ('burgerki'), ('burgerking'), ('burgers'), ('burgess'), ('burgos'), ('burgundy'), ('burke'),
+    ('burley'), ('burlpony'), ('burlroad'), ('burlroof'), ('burlsink'), ('burltree'), ('burly'), ('burmese'),
+    ('burn'), ('burnburn'), ('burned'), ('burner'), ('burnett'), ('burnette'), ('burnham'), ('burnin'),
+    ('burning'), ('burnley'), ('burnout'), ('burns'), ('burnside'), ('burnt'), ('burp'), ('burr'),
+    ('burrell'), ('burrfoot'), ('burrito'), ('burritos'), ('burro'), ('burrows'), ('burst'), ('burt'),
+    ('burto'), ('burton'), ('burtons'), ('burundi'), ('burunduk'), ('burwell'), ('bury'), ('burzum'),
+    ('busch'), ('busdrive'), ('busdriver'), ('busen'), ('bush'), ('bushbush'), ('bushed'), ('bushel'),
+    ('bushes'), ('bushhog'), ('bushido'), ('bushka'), ('bushman'), ('bushmast'), ('bushmaster'), ('bushmill'),
+    ('bushnell'), ('bushra'), ('bushwack'), ('bushwick'), ('busines'), ('business'), ('businessbabe'), ('businka'),
+    ('busman'), ('buss'), ('busstop'), ('bust'), ('busta'), ('bustanut'), ('buste'), ('busted'),
+    ('buster'), ('busterb'), ('busters'), ('bustle'), ('busty'), ('busway'), ('busybee'), ('butane'),
+    ('butch'), ('butchdog'), ('butche'), ('butcher'), ('butchie'), ('butchy'), ('buterfly'), ('buthead'),
+    ('buthole'), ('butkis'), ('butkus'), ('butler'), ('butnut'), ('butt'), ('buttboy'), ('buttbutt'),
+    ('butte'), ('butter'), ('butterba'), ('butterbe'), ('butterbean'), ('buttercu'), ('buttercup'), ('butterfl'),
+    ('butterfly'), ('butterfly1'), ('butters'), ('buttface'), ('buttfuck'), ('butthea'), ('butthead'), ('butthole'),
+    ('buttlick'), ('buttlove'), ('buttman'), ('buttmunc')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('buttmunch'), ('buttnut'), ('buttnutt'), ('buttock'), ('buttocks'), ('button'), ('buttons'), ('buttplug'),
+    ('buttrock'), ('butts'), ('buttsex'), ('buttss'), ('butttt'), ('butty'), ('butyl'), ('buxton'),
+    ('buyer'), ('buziaczek'), ('buzz'), ('buzzard'), ('buzzbait'), ('buzzbomb'), ('buzzbuzz'), ('buzzed'),
+    ('buzzer'), ('buzzers'), ('buzzkill'), ('buzzman'), ('buzzsaw'), ('buzzword'), ('buzzy'), ('buzzzz'),
+    ('bvcxz'), ('bvgthbz'), ('bvgthfnjh'), ('bvlgari'), ('bvncnbnvvbn'), ('bwana'), ('byabybnb'), ('byajhvfnbrf'),
+    ('bycgtrnjh'), ('bycnbnen'), ('bydand'), ('byebye'), ('byers'), ('bygger'), ('bygone'), ('bygrace'),
+    ('bykemo'), ('bynthytn'), ('byntuhfk'), ('byoung'), ('bypass'), ('bypop'), ('byrd'), ('byrdman'),
+    ('byrjuybnj'), ('byrne'), ('byrnes'), ('byron'), ('bysunsu'), ('bytccf'), ('byte'), ('byteme'),
+    ('bytor'), ('byyjrtynbq'), ('byyjxrf'), ('c00kie'), ('c00kies'), ('c00per'), ('c0cac0la'), ('c0mputer'),
+    ('c0rvette'), ('c123456789'), ('c2h5oh'), ('c3po'), ('c43dae874d'), ('c43qpul5rz'), ('c5vette'), ('c7e4f8ezqh'),
+    ('c7lrwu'), ('caball'), ('caballer'), ('caballero'), ('caballo'), ('cabana'), ('cabaret'), ('cabbage'),
+    ('cabbages'), ('cabbie'), ('cabby'), ('cabernet'), ('cabeza'), ('cabezon'), ('cabibble'), ('cabible'),
+    ('cabin'), ('cabinboy'), ('cabinet'), ('cabinets'), ('cabins'), ('cable'), ('cabledog'), ('cableguy'),
+    ('cableman'), ('cables'), ('cabo'), ('caboose'), ('cabot'), ('cabowabo'), ('cabrera'), ('cabrio'),
+    ('cabron'), ('cabview'), ('cabyrc'), ('caca'), ('cacaca'), ('cacacaca'), ('cacao'), ('cacapipi'),
+    ('caccola'), ('cacete'), ('cache'), ('cachero'), ('cachito'), ('cachondo'), ('cachorro'), ('cachou'),
+    ('cacique'), ('cactus'), ('cadaver'), ('cadbury'), ('caddie'), ('caddis'), ('caddy'), ('cade'),
+    ('cadence'), ('cadenza'), ('cadet'), ('cadets'), ('cadilac'), ('cadilla'), ('cadillac'), ('cadman'),
+    ('cadmus'), ('cadr14nu'), ('caesa'), ('caesar'), ('caesars'), ('caeser'), ('cafe'), ('caffeine'),
+    ('caffreys'), ('cage'), ('cagiva'), ('cagliari'), ('cagliostro'), ('cagney'), ('cahill'), ('caillou'),
+    ('caiman'), ('cain'), ('caine'), ('caio'), ('cairn'), ('cairns'), ('cairo'), ('caitlin'),
+    ('caitlyn'), ('cajun'), ('cajuns'), ('cake'), ('cakes'), ('cakewalk'), ('calabria'), ('caladan'),
+    ('calais'), ('calamar'), ('calamari'), ('calamity'), ('calavera'), ('calbear'), ('calbears'), ('calcio'),
+    ('calculator'), ('calculus'), ('calcutta'), ('calder'), ('caldera'), ('calderon'), ('caldwell'), ('caleb'),
+    ('calendar'), ('calender'), ('calgary'), ('calhoun'), ('cali'), ('caliban'), ('caliber'), ('calibra'),
+    ('calibre'), ('caliburn'), ('calicali'), ('calicat'), ('calico'), ('calida'), ('calient'), ('caliente'),
+    ('calif'), ('californ'), ('californi'), ('california'), ('caligula'), ('calimer'), ('calimero'), ('caline'),
+    ('calipso'), ('calista'), ('call'), ('calla'), ('callahan'), ('callan'), ('callas'), ('callaway'),
+    ('calle'), ('caller'), ('calley'), ('calli'), ('callie'), ('calling'), ('calliope'), ('callista'),
+    ('callisto'), ('callme'), ('callofduty'), ('callofduty4'), ('calloway'), ('callscesetup'), ('callum'), ('cally'),
+    ('calpoly'), ('calumet'), ('calv1n'), ('calvary'), ('calvert'), ('calves'), ('calvi'), ('calvin'),
+    ('calypso'), ('calzone'), ('camacho'), ('camaleo'), ('camaleon'), ('camaleun'), ('camano'), ('camar'),
+    ('camara'), ('camaro'), ('camaron'), ('camaross'), ('camaroz'), ('camber'), ('cambiami'), ('cambodia'),
+    ('cambria'), ('cambridg'), ('cambridge'), ('camcam'), ('camden'), ('camel'), ('camela'), ('cameleon'),
+    ('camelia'), ('cameljoe'), ('camell'), ('camello'), ('camelo'), ('camelot'), ('camels'), ('cameltoe'),
+    ('cameo'), ('cameosis'), ('camera'), ('camero'), ('cameron'), ('cameroon'), ('cami'), ('camil'),
+    ('camila'), ('camilit'), ('camill'), ('camilla'), ('camille'), ('camillo'), ('camilo'), ('camino'),
+    ('camion'), ('camman'), ('cammer'), ('cammie'), ('cammy'), ('camneely'), ('camp'), ('campagno'),
+    ('campari'), ('campbell'), ('campeo'), ('campeon'), ('camper'), ('campfire'), ('camping'), ('campion'),
+    ('campo'), ('campos'), ('campus'), ('camron'), ('camry'), ('cams'), ('camshaft'), ('camster'),
+    ('camus'), ('canabis'), ('canad'), ('canada'), ('canadarr'), ('canadian'), ('canadien'), ('canadiens'),
+    ('canal'), ('canalc'), ('canales'), ('canard'), ('canari'), ('canarias'), ('canaries'), ('canario'),
+    ('canarsie'), ('canary'), ('canbeef'), ('canberra'), ('cancan'), ('cance'), ('cancel'), ('cancer'),
+    ('cancun'), ('cand'), ('candace'), ('candance'), ('candel'), ('candela'), ('candi'), ('candice'),
+    ('candid'), ('candide'), ('candie'), ('candies'), ('candle'), ('candlebo'), ('candles'), ('cando'),
+    ('candoo'), ('candy'), ('candyass'), ('candybar'), ('candycan'), ('candycane'), ('candyeater'), ('candyfinger'),
+    ('candygirl'), ('candyman'), ('candys'), ('candyy'), ('cane'), ('canel'), ('canela'), ('canes'),
+    ('canesfan'), ('canfield'), ('cang'), ('canibus'), ('caniinac'), ('canine'), ('canino'), ('canis'),
+    ('canman'), ('cannabi'), ('cannabis'), ('cannelle'), ('cannes'), ('cannibal'), ('cannibus'), ('canno'),
+    ('cannon'), ('cannonba'), ('cannonda'), ('cannondale'), ('cannot'), ('canoe'), ('canoes'), ('canon'),
+    ('canoneos'), ('canons'), ('canopus'), ('canopy'), ('canseco'), ('cant'), ('canter'), ('cantik'),
+    ('cantina'), ('canto'), ('canton'), ('cantona'), ('cantor'), ('cantrell'), ('cantstop'), ('cantwait'),
+    ('canuck'), ('canucks'), ('canvas'), ('canyon'), ('caocao'), ('capacity'), ('capcom'), ('cape'),
+    ('capecod'), ('capella'), ('caper'), ('capetown'), ('capita'), ('capital'), ('capitals'), ('capitan'),
+    ('capitano'), ('capitol'), ('capitola'), ('capman'), ('capo'), ('capoeira'), ('capon'), ('capone'),
+    ('capper'), ('cappy'), ('capri'), ('caprice'), ('capricor'), ('capricorn'), ('caprisun'), ('caps'),
+    ('capser'), ('capslock'), ('capstan'), ('capstick'), ('capsule'), ('capt'), ('captai'), ('captain'),
+    ('captaink'), ('captian'), ('caption'), ('captiva'), ('capture'), ('capucine'), ('capulet'), ('capullo'),
+    ('cara'), ('caraca'), ('caracas'), ('caracol'), ('caraj'), ('carajo'), ('caralho'), ('caramail'),
+    ('caramba'), ('carame'), ('caramel'), ('caramelo'), ('caramon'), ('caravan'), ('carbine'), ('carbon'),
+    ('carbone'), ('carcar'), ('carcass'), ('card'), ('carded'), ('cardenas'), ('cardiac'), ('cardiff'),
+    ('cardigan'), ('cardinal'), ('cardinals'), ('cardio'), ('cardman'), ('cardoso'), ('cards'), ('cardss'),
+    ('care'), ('carebear'), ('carebears'), ('career')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('careers'), ('carefree'), ('careful'), ('caress'), ('carey'), ('cargo'), ('carguy'), ('cari'),
+    ('cariad'), ('carib'), ('caribbea'), ('caribbean'), ('caribe'), ('caribou'), ('carin'), ('carina'),
+    ('carine'), ('caring'), ('carino'), ('carioca'), ('carisma'), ('carissa'), ('carita'), ('caritas'),
+    ('carl'), ('carla'), ('carlas'), ('carleton'), ('carletto'), ('carley'), ('carlie'), ('carlin'),
+    ('carling'), ('carlisle'), ('carlit'), ('carlito'), ('carlitos'), ('carlo'), ('carlos'), ('carlosa'),
+    ('carlot'), ('carlotta'), ('carlsbad'), ('carlsber'), ('carlsberg'), ('carlson'), ('carlton'), ('carly'),
+    ('carlyle'), ('carmack'), ('carman'), ('carme'), ('carmel'), ('carmela'), ('carmelit'), ('carmella'),
+    ('carmelo'), ('carmen'), ('carmex'), ('carmilla'), ('carmin'), ('carmina'), ('carmine'), ('carmona'),
+    ('carnage'), ('carnal'), ('carnaval'), ('carnegie'), ('carney'), ('carnie'), ('carnival'), ('carnut'),
+    ('caro'), ('carokann'), ('carol'), ('carola'), ('carolann'), ('carolcox'), ('carole'), ('caroleen'),
+    ('caroli'), ('carolin'), ('carolina'), ('caroline'), ('caroll'), ('carols'), ('carolyn'), ('carolynn'),
+    ('carousel'), ('carp'), ('carpe'), ('carpedie'), ('carpediem'), ('carpente'), ('carpenter'), ('carper'),
+    ('carpet'), ('carpets'), ('carr'), ('carrera'), ('carreras'), ('carri'), ('carriage'), ('carrick'),
+    ('carrie'), ('carrier'), ('carrillo'), ('carrion'), ('carro'), ('carrol'), ('carroll'), ('carros'),
+    ('carrot'), ('carrots'), ('carryon'), ('cars'), ('carsales'), ('carsca'), ('carson'), ('carsten'),
+    ('cart'), ('cartagen'), ('carte'), ('cartel'), ('carter'), ('carthage'), ('cartier'), ('cartma'),
+    ('cartman'), ('cartmann'), ('cartmen'), ('carton'), ('cartoon'), ('cartoons'), ('caruso'), ('carvalho'),
+    ('carver'), ('carvin'), ('carwash'), ('cary'), ('caryl'), ('casa'), ('casablan'), ('casablanca'),
+    ('casado'), ('casandra'), ('casanov'), ('casanova'), ('casbah'), ('cascada'), ('cascade'), ('cascades'),
+    ('cascas'), ('case'), ('caseih'), ('caserta'), ('casey'), ('caseyboy'), ('caseydog'), ('caseys'),
+    ('cash'), ('cashcash'), ('cashcow'), ('cashed'), ('cashel'), ('cashew'), ('cashflow'), ('cashin'),
+    ('cashman'), ('cashmere'), ('cashmone'), ('cashmoney'), ('casillas'), ('casimir'), ('casin'), ('casino'),
+    ('casio'), ('casita'), ('casket'), ('caso'), ('caspar'), ('caspe'), ('casper'), ('caspian'),
+    ('cass'), ('cassady'), ('cassandr'), ('cassandra'), ('cassel'), ('cassell'), ('cassey'), ('cassi'),
+    ('cassidy'), ('cassie'), ('cassin'), ('cassini'), ('cassiope'), ('cassis'), ('cassius'), ('cassy'),
+    ('cast'), ('casta'), ('castaneda'), ('castaway'), ('caste'), ('castell'), ('castello'), ('caster'),
+    ('castill'), ('castilla'), ('castillo'), ('casting'), ('castings'), ('castle'), ('castles'), ('castor'),
+    ('castro'), ('castrol'), ('casual'), ('casull'), ('catalan'), ('cataldo'), ('catalin'), ('catalina'),
+    ('catalog'), ('catalyst'), ('catamoun'), ('catania'), ('catapult'), ('cataract'), ('catarina'), ('catatoni'),
+    ('catawba'), ('catbert'), ('catbird'), ('catbox'), ('catboy'), ('catbutt'), ('catcat'), ('catch'),
+    ('catcher'), ('catchme'), ('catdaddy'), ('catdog'), ('cater'), ('catera'), ('caterham'), ('caterina'),
+    ('catering'), ('caterpil'), ('caterpillar'), ('cateye'), ('catfight'), ('catfish'), ('catfood'), ('cathal'),
+    ('cathat'), ('cathay'), ('catherin'), ('catherine'), ('cathie'), ('cathleen'), ('catholic'), ('cathouse'),
+    ('cathrine'), ('cathryn'), ('cathy'), ('cathyl'), ('catinhat'), ('catlin'), ('catlover'), ('catman'),
+    ('catmando'), ('catnap'), ('catnip'), ('catolica'), ('catracho'), ('catrin'), ('catrina'), ('catriona'),
+    ('cats'), ('catscats'), ('catsdogs'), ('catseye'), ('catskill'), ('catsmeow'), ('catsss'), ('catsup'),
+    ('catt'), ('cattail'), ('catter'), ('cattle'), ('catttt'), ('catty'), ('catullus'), ('catv'),
+    ('catwalk'), ('catwoman'), ('catz'), ('caught'), ('cauldron'), ('cause'), ('caustic'), ('caution'),
+    ('cavalera'), ('cavalier'), ('cavalla'), ('cavallo'), ('cavalo'), ('cavalry'), ('cave'), ('caveat'),
+    ('caveman'), ('cavendish'), ('cavern'), ('caverns'), ('caviar'), ('cavid'), ('cavs'), ('cavscout'),
+    ('cayenne'), ('cayley'), ('cayman'), ('cayuga'), ('cazador'), ('cazzo'), ('cazzone'), ('cb207sl'),
+    ('cbanch'), ('cbarkley'), ('cbcbcb'), ('cbcmrb'), ('cbcmrf'), ('cbcntvf'), ('cbhbec'), ('cbhtym'),
+    ('cbkmdf'), ('cbljhjdf'), ('cbljhtyrj'), ('cbr600rr'), ('cbr900rr'), ('cbr929rr'), ('cbreeze'), ('cbrown'),
+    ('cbufhtnf'), ('cbvcbv'), ('cbvjyf'), ('cbvtycbyjrbz'), ('cc219fi'), ('ccbill'), ('cccc'), ('ccccc'),
+    ('cccccc'), ('ccccccc'), ('cccccccc'), ('ccccccccc'), ('cccccccccc'), ('cccdemo'), ('cccp'), ('cchaiyas'),
+    ('cdavis'), ('cdbymz'), ('cdcdcd'), ('cde34rfv'), ('cderfv'), ('cdexswzaq'), ('cdfhobr'), ('cdfoli'),
+    ('cdgirls'), ('cdjjlf'), ('cdjkjxb'), ('cdjkjxm'), ('cdog'), ('cdtnbr'), ('cdtnekz'), ('cdtnf'),
+    ('cdtnjxrf'), ('cdtnkfy'), ('cdtnkfyf'), ('cdtnkfyrf'), ('cdtnkzxjr'), ('cdtnrf'), ('cdznjckfd'), ('ce5939ae'),
+    ('ceasar'), ('ceaser'), ('cece'), ('cecece'), ('cecelia'), ('cecil'), ('cecile'), ('cecili'),
+    ('cecilia'), ('cecille'), ('cecily'), ('ceckbr'), ('cedar'), ('cedars'), ('cedri'), ('cedric'),
+    ('ceejay'), ('cegthgegth'), ('cegthgfhjkm'), ('cegthvty'), ('ceilidh'), ('celeb'), ('celebrat'), ('celebrate'),
+    ('celebrit'), ('celebrity'), ('celebs'), ('celeron'), ('celery'), ('celest'), ('celeste'), ('celestia'),
+    ('celestin'), ('celestine'), ('celexa'), ('celia'), ('celica'), ('celicagt'), ('celin'), ('celina'),
+    ('celine'), ('cell'), ('cellar'), ('cellardo'), ('cello'), ('cellos'), ('cellphon'), ('cellphone'),
+    ('cellular'), ('celt'), ('celti'), ('celtic'), ('celtic1888'), ('celticfc'), ('celtics'), ('celula'),
+    ('celular'), ('cement'), ('cemetery'), ('ceng'), ('censor'), ('censored'), ('cent'), ('centaur'),
+    ('centauri'), ('center'), ('centra'), ('central'), ('centre'), ('centric'), ('centrino'), ('centro'),
+    ('centrum'), ('cents'), ('centurion'), ('century'), ('cepeda'), ('cephas'), ('cepseoun'), ('ceramic'),
+    ('ceramics'), ('cerber'), ('cerbera'), ('cerberus'), ('cereal'), ('cerebro'), ('cerebus'), ('ceres'),
+    ('cerfcerf'), ('cerise'), ('cerritos'), ('cerro'), ('certain'), ('certclas'), ('certified'), ('certobj'),
+    ('cerulean'), ('cervante'), ('cervelo'), ('cerveza'), ('cesa'), ('cesar'), ('cesare'), ('cessna'),
+    ('cestmoi'), ('cevthrb'), ('cexfhf'), ('cextxrf'), ('ceyhun'), ('ceylon'), ('cezanne'), ('cf510cr'),
+    ('cfdbyf'), ('cfdtkbq'), ('cfgabh'), ('cfhfnjd')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('cfiekmrf'), ('cfiekz'), ('cfieyz'), ('cfif'), ('cfifcfif'), ('cfifvfif211'), ('cfitymrf'), ('cfkfdfn'),
+    ('cfkfvfylhf'), ('cfnehy'), ('cfnfyf'), ('cfrehf'), ('cft6yhn'), ('cftvgy'), ('cfvceyu'), ('cfvcjy'),
+    ('cfvehfq'), ('cfvfhf'), ('cfvfhrfyl'), ('cfvfzcxfcnkbdfz'), ('cfvfzkexifz'), ('cfvfzrhfcbdfz'), ('cfvjktn'), ('cfvjujy'),
+    ('cfvlehfr'), ('cfycfysx'), ('cfymrf'), ('cfytxrf'), ('cfyzcfyz'), ('cgfhnf'), ('cgfhnfr'), ('cgfhnfrvjcrdf'),
+    ('cgfhnfrxtvgbjy'), ('cghfdjxybr'), ('cgtkcbyuth'), ('cgtwbfkbcn'), ('cgzfrhuf'), ('ch1tt1ck'), ('ch3ch2oh'), ('ch3cooh'),
+    ('ch5nmk'), ('chaazmo'), ('chablis'), ('chaca'), ('chacal'), ('chach'), ('chacha'), ('chachi'),
+    ('chaching'), ('chacho'), ('chad'), ('chadchad'), ('chaddy'), ('chadley'), ('chadwick'), ('chaff'),
+    ('chai'), ('chaika'), ('chain'), ('chains'), ('chainsaw'), ('chair'), ('chairman'), ('chairs'),
+    ('chaise'), ('chaka'), ('chakra'), ('chalice'), ('chalky'), ('challeng'), ('challenge'), ('challenger'),
+    ('chalmers'), ('chalupa'), ('chaman'), ('chamber'), ('chamberl'), ('chambers'), ('chameleo'), ('chameleon'),
+    ('chamois'), ('chamonix'), ('chamorro'), ('champ'), ('champa'), ('champagn'), ('champagne'), ('champer'),
+    ('champio'), ('champion'), ('champions'), ('champo'), ('champs'), ('champy'), ('chan'), ('chanc'),
+    ('chance'), ('chancer'), ('chances'), ('chancey'), ('chanchal'), ('chanchan'), ('chancho'), ('chancy'),
+    ('chand'), ('chanda'), ('chandle'), ('chandler'), ('chandos'), ('chandra'), ('chandu'), ('chane'),
+    ('chanel'), ('chanelle'), ('chaney'), ('chang'), ('changa'), ('change'), ('changed'), ('changeit'),
+    ('changelangms'), ('changeme'), ('changepa'), ('changer'), ('changes'), ('changing'), ('chango'), ('channa'),
+    ('channel'), ('channels'), ('channing'), ('chant'), ('chanta'), ('chantal'), ('chante'), ('chantel'),
+    ('chantell'), ('chantelle'), ('chanter'), ('chanti'), ('chao'), ('chaos'), ('chaoss'), ('chaotic'),
+    ('chap'), ('chaparra'), ('chapel'), ('chapin'), ('chaplain'), ('chaplin'), ('chapman'), ('chapper'),
+    ('chappi'), ('chappie'), ('chappy'), ('chaps'), ('chapstic'), ('chapter'), ('char'), ('char4u'),
+    ('characte'), ('character'), ('characters'), ('charade'), ('charchar'), ('charcoal'), ('chard'), ('charge'),
+    ('charged'), ('charger'), ('chargers'), ('chariot'), ('charis'), ('charisma'), ('charissa'), ('charisse'),
+    ('charit'), ('charity'), ('charizard'), ('charl'), ('charla'), ('charle'), ('charlee'), ('charleen'),
+    ('charlene'), ('charles'), ('charless'), ('charlest'), ('charleston'), ('charley'), ('charli'), ('charlie'),
+    ('charlie111'), ('charlie123'), ('charlieb'), ('charlied'), ('charliedog'), ('charliem'), ('charlies'), ('charline'),
+    ('charlize'), ('charlot'), ('charlott'), ('charlotte'), ('charlotte1'), ('charlton'), ('charlus'), ('charly'),
+    ('charm'), ('charmain'), ('charmaine'), ('charmander'), ('charme'), ('charmed'), ('charmer'), ('charmin'),
+    ('charming'), ('charms'), ('charon'), ('charoot'), ('charro'), ('chart'), ('charter'), ('charts'),
+    ('charvel'), ('chas'), ('chase'), ('chaser'), ('chases'), ('chasey'), ('chasity'), ('chasm'),
+    ('chasman'), ('chasmo'), ('chassis'), ('chastity'), ('chat'), ('chatchat'), ('chateau'), ('chateaux'),
+    ('chatham'), ('chato'), ('chaton'), ('chatroom'), ('chatte'), ('chatter'), ('chatting'), ('chatty'),
+    ('chau'), ('chaucer'), ('chauncey'), ('chauncy'), ('chavez'), ('chawanxan'), ('chaz'), ('chazz'),
+    ('chbjun'), ('cheap'), ('cheaphornybastard'), ('cheat'), ('cheater'), ('cheaters'), ('cheating'), ('cheats'),
+    ('cheburashka'), ('cheburek'), ('checco'), ('chech'), ('cheche'), ('chechen'), ('chechnya'), ('check'),
+    ('checked'), ('checker'), ('checkers'), ('checkin'), ('checking'), ('checkit'), ('checkito'), ('checkitout'),
+    ('checkmat'), ('checkmate'), ('checkout'), ('checks'), ('checkup'), ('cheddar'), ('chedder'), ('chee'),
+    ('cheeba'), ('cheech'), ('cheechee'), ('cheek'), ('cheeks'), ('cheeky'), ('cheer'), ('cheerful'),
+    ('cheering'), ('cheerio'), ('cheerios'), ('cheerlea'), ('cheerleader'), ('cheerleaers'), ('cheers'), ('cheery'),
+    ('chees'), ('cheese'), ('cheeseburger'), ('cheeseca'), ('cheesecake'), ('cheeseman'), ('cheeser'), ('cheesey'),
+    ('cheesy'), ('cheeta'), ('cheetah'), ('cheetahs'), ('cheeto'), ('cheetos'), ('cheever'), ('cheez'),
+    ('cheeze'), ('cheezit'), ('cheezy'), ('chef'), ('chefchef'), ('chegevara'), ('chekhov'), ('chelios'),
+    ('chella'), ('chelle'), ('chello'), ('chelly'), ('chelovek'), ('chelse'), ('chelsea'), ('chelseaf'),
+    ('chelseafc'), ('chelsey'), ('chelsi'), ('chelsie'), ('chelsy'), ('chem'), ('chemical'), ('chemist'),
+    ('chemistr'), ('chemistry'), ('chemnitz'), ('chen'), ('cheney'), ('cheng'), ('chennai'), ('cheops'),
+    ('cher'), ('cheri'), ('cherie'), ('cherise'), ('cherish'), ('chernov'), ('chernova'), ('cheroke'),
+    ('cherokee'), ('cherr'), ('cherri'), ('cherries'), ('cherry'), ('cherrypi'), ('cherub'), ('chery'),
+    ('cheryl'), ('cheshire'), ('chesney'), ('chess'), ('chessie'), ('chessman'), ('chessmas'), ('chessmaster'),
+    ('chesss'), ('chessy'), ('chest'), ('cheste'), ('chester'), ('chester123'), ('chesterfield'), ('chesters'),
+    ('chestnut'), ('chesty'), ('chet'), ('cheung'), ('chev'), ('cheval'), ('chevalier'), ('chevell'),
+    ('chevelle'), ('chevette'), ('chevie'), ('chevrole'), ('chevrolet'), ('chevron'), ('chevvy'), ('chevy'),
+    ('chevyman'), ('chevys'), ('chevyss'), ('chevytru'), ('chevyy'), ('chew'), ('chewbaca'), ('chewbacc'),
+    ('chewbacca'), ('chewey'), ('chewie'), ('chewy'), ('cheyanne'), ('cheyenn'), ('cheyenne'), ('chez'),
+    ('chgobndg'), ('chia'), ('chiang'), ('chianti'), ('chiapet'), ('chiar'), ('chiara'), ('chibears'),
+    ('chic'), ('chica'), ('chicag'), ('chicago'), ('chicane'), ('chicano'), ('chicas'), ('chicc'),
+    ('chicca'), ('chicco'), ('chich'), ('chichago'), ('chichi'), ('chicho'), ('chick'), ('chickade'),
+    ('chicke'), ('chicken'), ('chicken123'), ('chickenb'), ('chickens'), ('chickenwing101'), ('chickie'), ('chicklet'),
+    ('chicks'), ('chicky'), ('chico'), ('chicony'), ('chicos'), ('chicubs'), ('chidori'), ('chief'),
+    ('chiefs'), ('chieftai'), ('chieftan'), ('chiefy'), ('chiemsee'), ('chien'), ('chiens'), ('chiffon'),
+    ('chigga'), ('chigger'), ('chihuahu'), ('chihuahua'), ('chijioke'), ('chika'), ('chikara'), ('chiken'),
+    ('chiks'), ('chikung'), ('chilango'), ('child'), ('childre'), ('children'), ('chile'), ('chileno'),
+    ('chiles'), ('chili'), ('chilidog'), ('chilis'), ('chill'), ('chilla'), ('chiller'), ('chilli'),
+    ('chillin'), ('chilling'), ('chillout'), ('chills'), ('chilly'), ('chilton'), ('chimaera'), ('chimaira'),
+    ('chimay'), ('chimchim'), ('chime'), ('chimera')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('chimney'), ('chimp'), ('chimpo'), ('chimps'), ('chimpy'), ('chin'), ('china'), ('chinacat'),
+    ('chinadol'), ('chinadoll'), ('chinaman'), ('chinaski'), ('chinatow'), ('chinatown'), ('chinch'), ('chinchil'),
+    ('chinchilla'), ('chinchin'), ('chinedu'), ('chinese'), ('ching'), ('chinga'), ('chingada'), ('chingon'),
+    ('chingy'), ('chinit'), ('chinita'), ('chinito'), ('chink'), ('chinky'), ('chinna'), ('chinni'),
+    ('chinnu'), ('chinny'), ('chino'), ('chinook'), ('chinos'), ('chintu'), ('chip'), ('chipchop'),
+    ('chiper'), ('chiphi'), ('chipie'), ('chipman'), ('chipmonk'), ('chipmunk'), ('chipotle'), ('chippe'),
+    ('chipper'), ('chippers'), ('chippewa'), ('chippie'), ('chippy'), ('chips'), ('chipster'), ('chiqui'),
+    ('chiquit'), ('chiquita'), ('chiquito'), ('chiro'), ('chiron'), ('chisel'), ('chisholm'), ('chisox'),
+    ('chispa'), ('chiswick'), ('chitarra'), ('chitchat'), ('chitown'), ('chitra'), ('chitty'), ('chiva'),
+    ('chivalry'), ('chivas'), ('chix'), ('chkdsk'), ('chlo'), ('chloe'), ('chloecat'), ('chloedog'),
+    ('chloes'), ('chlorine'), ('choad'), ('chobits'), ('choc'), ('choccy'), ('chocha'), ('chocho'),
+    ('chochoz'), ('choclate'), ('choco'), ('chocobo'), ('chocola'), ('chocolat'), ('chocolate'), ('chocolate1'),
+    ('chocolate2'), ('choctaw'), ('chode'), ('chodu'), ('choice'), ('choices'), ('choirboy'), ('chojin'),
+    ('choke'), ('choker'), ('cholera'), ('chomp'), ('chomper'), ('chomsky'), ('chong'), ('chongo'),
+    ('chooch'), ('choochoo'), ('choose'), ('chop'), ('chopchop'), ('chopin'), ('choppe'), ('chopper'),
+    ('choppers'), ('choppy'), ('chops'), ('chopsuey'), ('chorizo'), ('chorly'), ('chorus'), ('chosen'),
+    ('chou'), ('choucho'), ('chouchou'), ('chouette'), ('chow'), ('chowchow'), ('chowdary'), ('chowder'),
+    ('chowmein'), ('chri'), ('chris'), ('chrisa'), ('chrisb'), ('chrisbl'), ('chrisbln'), ('chrisbrown'),
+    ('chrisc'), ('chrisd'), ('chrisf'), ('chrisg'), ('chrish'), ('chrisi'), ('chrisj'), ('chrisk'),
+    ('chrisl'), ('chrism'), ('chrisman'), ('chrisn'), ('chrisp'), ('chrisr'), ('chrisrey'), ('chriss'),
+    ('chrissi'), ('chrissie'), ('chrissy'), ('christ'), ('christa'), ('christal'), ('christel'), ('christen'),
+    ('christer'), ('christi'), ('christia'), ('christiaan'), ('christian'), ('christian1'), ('christie'), ('christin'),
+    ('christina'), ('christine'), ('christma'), ('christmas'), ('christo'), ('christof'), ('christop'), ('christoph'),
+    ('christophe'), ('christopher'), ('christopher1'), ('christos'), ('christy'), ('chrisw'), ('chrisx'), ('chrome'),
+    ('chronic'), ('chronicle'), ('chrono'), ('chronos'), ('chrysler'), ('chrystal'), ('chuai'), ('chuan'),
+    ('chuang'), ('chubb'), ('chubba'), ('chubbs'), ('chubby'), ('chuch'), ('chucha'), ('chuchi'),
+    ('chucho'), ('chuchu'), ('chuck'), ('chuckd'), ('chucker'), ('chucki'), ('chuckie'), ('chuckle'),
+    ('chuckles'), ('chucknorris'), ('chucko'), ('chucks'), ('chuckste'), ('chucky'), ('chuggy'), ('chui'),
+    ('chukcha'), ('chula'), ('chulai'), ('chuleta'), ('chulita'), ('chulo'), ('chuluthu'), ('chum'),
+    ('chumley'), ('chumly'), ('chummy'), ('chump'), ('chumpy'), ('chun'), ('chung'), ('chunga'),
+    ('chunk'), ('chunks'), ('chunky'), ('chunli'), ('chuo'), ('chupa'), ('chupacab'), ('chupakabra'),
+    ('chupas'), ('church'), ('churchil'), ('churchill'), ('chutiya'), ('chutney'), ('chuvak'), ('chyna'),
+    ('chynna'), ('ciao'), ('ciaociao'), ('ciara'), ('ciaran'), ('cicci'), ('ciccia'), ('ciccio'),
+    ('ciccione'), ('ciccone'), ('cicely'), ('cicero'), ('cichlid'), ('cider'), ('cielo'), ('cierra'),
+    ('cigar'), ('cigarett'), ('cigarette'), ('cigars'), ('cilantro'), ('cilia'), ('cimbo'), ('cimbom'),
+    ('cincin'), ('cincinna'), ('cincinnati'), ('cinco'), ('cincy'), ('cindee'), ('cinder'), ('cinderel'),
+    ('cinderella'), ('cinders'), ('cindy'), ('cindyb'), ('cindyc'), ('cindyl'), ('cindylou'), ('cindys'),
+    ('cinema'), ('cinemax'), ('cingular'), ('cinnamon'), ('cinque'), ('cinta'), ('cintaku'), ('cinzia'),
+    ('ciotion'), ('cious'), ('cipa'), ('cipher'), ('cipolla'), ('cippalippa'), ('ciprian'), ('circle'),
+    ('circles'), ('circuit'), ('circus'), ('cire'), ('ciro'), ('cirque'), ('cirrus'), ('cisco'),
+    ('ciscokid'), ('cisneros'), ('citabria'), ('citadel'), ('citation'), ('citibank'), ('cities'), ('citizen'),
+    ('citroen'), ('citron'), ('citrus'), ('city'), ('cityboy'), ('cium'), ('civic'), ('civicex'),
+    ('civics'), ('civicsi'), ('civil'), ('civilian'), ('civilization'), ('civilwar'), ('cjcbcrf'), ('cjcfnmdctv'),
+    ('cjdtcnm'), ('cjdthitycndj'), ('cjfrf'), ('cjhjrbyf'), ('cjhjrf'), ('cjkjdmtdf'), ('cjkjdtq'), ('cjklfn'),
+    ('cjkysir'), ('cjkysirj'), ('cjkytxyfz'), ('cjkyw'), ('cjkywt'), ('cjlove'), ('cjrhjdbot'), ('cjrjkjdf'),
+    ('cjybthbrcjy'), ('cjymrf'), ('cjytxrf'), ('cjytxrj'), ('ckfdbr'), ('ckfdjxrf'), ('ckfdrf'), ('ckflrbq'),
+    ('ckflrfz'), ('ckfltymrfz'), ('ckjdfhm'), ('ckjybr'), ('ckjytyjr'), ('clacker'), ('claddagh'), ('clahay'),
+    ('claims'), ('clair'), ('claire'), ('clam'), ('clambake'), ('clan'), ('clancy'), ('clancys'),
+    ('clannad'), ('clansman'), ('clapper'), ('clapton'), ('clara'), ('clarabino'), ('clare'), ('clarence'),
+    ('claret'), ('clarets'), ('clarice'), ('clarinet'), ('clarion'), ('clarissa'), ('clarisse'), ('clarity'),
+    ('clark'), ('clarke'), ('clarkent'), ('clarkie'), ('clarkken'), ('clarkkent'), ('clarks'), ('clarkson'),
+    ('clarky'), ('clash'), ('class'), ('classact'), ('classe'), ('classi'), ('classic'), ('classica'),
+    ('classical'), ('classics'), ('classifi'), ('classy'), ('claud'), ('claude'), ('claudett'), ('claudi'),
+    ('claudia'), ('claudine'), ('claudio'), ('claudiu'), ('claudius'), ('claudy'), ('claus'), ('clause'),
+    ('clausen'), ('clave'), ('claw'), ('claws'), ('clay'), ('claybird'), ('clayman'), ('claymore'),
+    ('claypool'), ('clayto'), ('clayton'), ('clean'), ('cleaner'), ('cleaners'), ('cleaning'), ('cleanup'),
+    ('clear'), ('clearwat'), ('cleary'), ('cleavage'), ('cleaver'), ('cleburne'), ('clem'), ('clemen'),
+    ('clemence'), ('clemens'), ('clement'), ('clemente'), ('clementi'), ('clementin'), ('clementine'), ('clements'),
+    ('clemson'), ('cleo'), ('cleocat'), ('cleocleo'), ('cleodog'), ('cleopatr'), ('cleopatra'), ('clergy'),
+    ('cleric'), ('clerks'), ('clermont'), ('cletus'), ('clevelan'), ('cleveland'), ('clever'), ('click'),
+    ('clicker'), ('clickit'), ('clicks'), ('client'), ('cliff'), ('clifford'), ('cliffy'), ('clifton'),
+    ('climax'), ('climb'), ('climber'), ('climbing'), ('climbon'), ('clinch'), ('clinic'), ('clinique'),
+    ('clint'), ('clinton'), ('clio'), ('clioclio')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('clip'), ('clipper'), ('clippers'), ('clips'), ('clique'), ('clit'), ('clitclit'), ('clitlick'),
+    ('clitoris'), ('clitring'), ('clitrub'), ('clitty'), ('clive'), ('cloak'), ('clock'), ('clocker'),
+    ('clocks'), ('clockwor'), ('clockwork'), ('cloclo'), ('cloggy'), ('clone'), ('clones'), ('clooney'),
+    ('close'), ('close-up'), ('closed'), ('closer'), ('closet'), ('closeup'), ('closter'), ('closure'),
+    ('cloth'), ('clothes'), ('clothing'), ('clotilde'), ('cloud'), ('clouds'), ('cloudy'), ('clough'),
+    ('clouseau'), ('clout'), ('clove'), ('clover'), ('clovis'), ('clown'), ('clownboy'), ('clownfis'),
+    ('clowns'), ('clticic'), ('club'), ('clubber'), ('clubbing'), ('clubcapt'), ('clubmed'), ('clubpenguin'),
+    ('clubs'), ('cluedo'), ('clueless'), ('clues'), ('clumsy'), ('clung'), ('cluster'), ('clusters'),
+    ('clutch'), ('clyde'), ('cmfnpu'), ('cmoney'), ('cmu9ggzh'), ('cmxmyi9h'), ('cn42qj'), ('cneltyn'),
+    ('cneltynrf'), ('cnfc35762209'), ('cnfcbr'), ('cnfdhjgjkm'), ('cnfhjghfvty'), ('cnfhsq'), ('cnfkrbh'), ('cnfkrth'),
+    ('cnfnbcnbrf'), ('cnfrfy'), ('cnfybckfd'), ('cnfylfhn'), ('cnhfcnm'), ('cnhfntubz'), ('cnhfyybr'), ('cnhjbntkm'),
+    ('cnhjbntkmcndj'), ('cnhjqrf'), ('cnhtkjr'), ('cnhtktw'), ('cnhtrjpf'), ('cnjvfnjkju'), ('cntgfirf'), ('cntgfy'),
+    ('cntgfyjd'), ('cntgfyjdf'), ('cnthdf'), ('cnthdjxrf'), ('cntkkf'), ('co437at'), ('coach'), ('coachk'),
+    ('coachman'), ('coal'), ('coast'), ('coastal'), ('coaster'), ('coasters'), ('coastie'), ('coates'),
+    ('coaxial'), ('cobain'), ('cobaka'), ('cobalt'), ('cobb'), ('cobber'), ('cobble'), ('cobbler'),
+    ('cobblers'), ('cobol'), ('cobra'), ('cobrajet'), ('cobras'), ('cobrasvt'), ('cobraya'), ('cobweb'),
+    ('coby'), ('coca'), ('cocacol'), ('cocacola'), ('cocaine'), ('coccinel'), ('coccinella'), ('cochabamb'),
+    ('cocheese'), ('cochino'), ('cochise'), ('cochon'), ('cochran'), ('cochrane'), ('cock'), ('cockcock'),
+    ('cocker'), ('cockface'), ('cockgobbler'), ('cocklover'), ('cockman'), ('cockpit'), ('cockring'), ('cockroach'),
+    ('cocks'), ('cockslut'), ('cockss'), ('cocksuck'), ('cocksucker'), ('cocktail'), ('cocky'), ('coco'),
+    ('cocoa'), ('cocoas'), ('cocobean'), ('cococo'), ('cocococo'), ('cocodog'), ('cocoliso'), ('cocoloco'),
+    ('cocomo'), ('coconut'), ('coconuts'), ('cocoon'), ('cocopops'), ('cocopuff'), ('cocorico'), ('cocotte'),
+    ('cocteau'), ('coda'), ('code'), ('codeblue'), ('codeman'), ('codename'), ('coder'), ('codered'),
+    ('codfish'), ('codie'), ('cody'), ('codyboy'), ('codycody'), ('codydog'), ('codyman'), ('coelho'),
+    ('coffe'), ('coffee'), ('coffees'), ('coffey'), ('coffin'), ('cogito'), ('coglione'), ('cognac'),
+    ('cognit'), ('cohen'), ('cohiba'), ('coimbra'), ('coin'), ('coinage'), ('coinbase'), ('coincoin'),
+    ('coitus'), ('cojones'), ('coke'), ('cokecoke'), ('cokeisit'), ('cokeman'), ('cola'), ('colacola'),
+    ('colada'), ('colbert'), ('colby'), ('colchester'), ('cold'), ('coldbeer'), ('coldcold'), ('colder'),
+    ('coldfire'), ('coldgin'), ('coldone'), ('coldplay'), ('coldshot'), ('cole'), ('colecole'), ('coleen'),
+    ('colegiata'), ('coleman'), ('coleslaw'), ('coleta'), ('colette'), ('colfax'), ('colgate'), ('coli'),
+    ('colibri'), ('colima'), ('colin'), ('colins'), ('colita'), ('collant'), ('collants'), ('collar'),
+    ('collect'), ('collecti'), ('collection'), ('collecto'), ('collector'), ('colleen'), ('colleg'), ('college'),
+    ('colleges'), ('collet'), ('collette'), ('collie'), ('collier'), ('collin'), ('collingw'), ('collins'),
+    ('colman'), ('colnago'), ('colo'), ('colocolo'), ('cologne'), ('colombi'), ('colombia'), ('colombo'),
+    ('colon'), ('colonel'), ('colonels'), ('colonia'), ('colonial'), ('colony'), ('color'), ('colorado'),
+    ('coloring'), ('colors'), ('colossus'), ('colour'), ('colours'), ('colt'), ('colter'), ('colton'),
+    ('coltrane'), ('colts'), ('colucci'), ('columbia'), ('columbo'), ('columbus'), ('column'), ('coma'),
+    ('comanche'), ('comand'), ('comander'), ('comando'), ('comatose'), ('combat'), ('combat123654'), ('combine'),
+    ('combined'), ('combos'), ('combs'), ('comcast'), ('comcom'), ('come'), ('come2me'), ('comeback'),
+    ('comedia'), ('comedy'), ('comedyclub'), ('comein'), ('comeon'), ('comet'), ('cometa'), ('cometh'),
+    ('cometome'), ('comets'), ('comfort'), ('comic'), ('comicboo'), ('comicbook'), ('comicbookdb'), ('comicbooks'),
+    ('comics'), ('comicsans'), ('comida'), ('coming'), ('comma'), ('command'), ('commande'), ('commander'),
+    ('commando'), ('commandos'), ('comment'), ('comments'), ('commerce'), ('commerci'), ('commercial'), ('commie'),
+    ('commish'), ('commit'), ('commo'), ('commodor'), ('commodore'), ('common'), ('communic'), ('communit'),
+    ('community'), ('comp'), ('comp967r'), ('compa'), ('compac'), ('compact'), ('company'), ('compaq'),
+    ('compare'), ('compas'), ('compass'), ('compatible'), ('compete'), ('comphh'), ('compiling'), ('complete'),
+    ('completed'), ('complex'), ('compliance'), ('comply'), ('compose'), ('composer'), ('compost'), ('compound'),
+    ('compress'), ('compton'), ('compusa'), ('computador'), ('computadora'), ('compute'), ('computer'), ('computer12'),
+    ('computer123'), ('computers'), ('comrade'), ('comrades'), ('comrereg'), ('comstock'), ('conair'), ('conan'),
+    ('concac'), ('concept'), ('concepts'), ('concern'), ('concert'), ('concerto'), ('concetta'), ('conch'),
+    ('concha'), ('conchita'), ('concho'), ('concise'), ('concon'), ('concord'), ('concorde'), ('concordi'),
+    ('concrete'), ('conditio'), ('condition'), ('condo'), ('condom'), ('condoms'), ('condon'), ('condor'),
+    ('condos'), ('conducto'), ('conduit'), ('conehead'), ('conej'), ('conejit'), ('conejito'), ('conejo'),
+    ('coney'), ('confed'), ('confess'), ('confetti'), ('confiden'), ('confidence'), ('config'), ('confirm'),
+    ('conflict'), ('confmsp'), ('confuse'), ('confused'), ('confusio'), ('cong'), ('congas'), ('conger'),
+    ('congo'), ('congress'), ('conifer'), ('conker'), ('conklin'), ('conley'), ('conlon'), ('conman'),
+    ('conn'), ('connard'), ('connect'), ('connecte'), ('connecti'), ('connection'), ('connecto'), ('connell'),
+    ('connelly'), ('conner'), ('connery'), ('connex'), ('conni'), ('connie'), ('conno'), ('connolly'),
+    ('connor'), ('connors'), ('conny'), ('conor'), ('conover'), ('conquer'), ('conquest'), ('conrad'),
+    ('conrado'), ('conrail'), ('conroy'), ('consense'), ('consilium'), ('consist'), ('console'), ('constabl'),
+    ('constan'), ('constanc'), ('constance'), ('constant'), ('constanta'), ('constantin'), ('constantine'), ('constanz'),
+    ('constitution'), ('construc'), ('construction'), ('consuelo'), ('consul'), ('consult'), ('consulta'), ('consultant'),
+    ('consulting'), ('consume'), ('consumer'), ('cont')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('contact'), ('contacts'), ('containe'), ('contains'), ('contax'), ('content'), ('contessa'), ('contest'),
+    ('contests'), ('contex'), ('continen'), ('continue'), ('contortionist'), ('contour'), ('contra'), ('contract'),
+    ('contrasena'), ('contrast'), ('contrera'), ('contro'), ('control'), ('controle'), ('controll'), ('controller'),
+    ('controls'), ('conundru'), ('conundrum'), ('convair'), ('converge'), ('converse'), ('convert'), ('convex'),
+    ('convict'), ('convoy'), ('conway'), ('coochie'), ('coocoo'), ('cooder'), ('cook'), ('cookbook'),
+    ('cooke'), ('cooked'), ('cooker'), ('cooki'), ('cookie'), ('cookiemo'), ('cookies'), ('cookin'),
+    ('cooking'), ('cookman'), ('cooky'), ('cool'), ('cool-ca'), ('cool-cat'), ('coolass'), ('coolbean'),
+    ('coolbeans'), ('coolbob'), ('coolboy'), ('coolbree'), ('coolbugi2000'), ('coolcat'), ('coolcool'), ('cooldog'),
+    ('cooldood'), ('cooldude'), ('cooler'), ('coolest'), ('cooley'), ('coolfool'), ('coolgirl'), ('coolguy'),
+    ('coolguys'), ('coolhand'), ('coolidge'), ('coolie'), ('coolin'), ('cooling'), ('coolio'), ('coolit'),
+    ('coolkid'), ('coolman'), ('coolness'), ('coolone'), ('cools'), ('coolshit'), ('coolwhip'), ('coolz'),
+    ('coon'), ('coonass'), ('coondog'), ('cooney'), ('cooool'), ('coop'), ('coope'), ('cooper'),
+    ('coopers'), ('coors'), ('coorslig'), ('coorslight'), ('coorslit'), ('coorslt'), ('coos'), ('cooter'),
+    ('cootie'), ('copa'), ('cope'), ('copeland'), ('copenhag'), ('copenhagen'), ('copernic'), ('copier'),
+    ('copies'), ('copland'), ('copley'), ('coppe'), ('copper'), ('copperco'), ('copperfi'), ('coppers'),
+    ('cops'), ('copter'), ('copy'), ('copycat'), ('copyright'), ('coquet'), ('cora'), ('coral'),
+    ('coralie'), ('corazo'), ('corazon'), ('corbett'), ('corbin'), ('corcoran'), ('cord'), ('cordelia'),
+    ('cordell'), ('cordero'), ('cordless'), ('cordoba'), ('cordov'), ('cordova'), ('corduroy'), ('core'),
+    ('core2rap'), ('corecore'), ('corelli'), ('corellia'), ('corenti'), ('corey'), ('coreys'), ('corgan'),
+    ('corgi'), ('corgis'), ('cori'), ('corina'), ('corine'), ('corinna'), ('corinne'), ('corinth'),
+    ('corinthians'), ('coriolis'), ('cork'), ('corker'), ('corkey'), ('corkie'), ('corky'), ('corleone'),
+    ('corliss'), ('cormac'), ('corn'), ('cornball'), ('cornbrea'), ('cornbread'), ('corndog'), ('cornea'),
+    ('cornel'), ('cornelia'), ('cornelis'), ('corneliu'), ('cornelius'), ('cornell'), ('corner'), ('cornerst'),
+    ('cornet'), ('corney'), ('cornfed'), ('cornflak'), ('cornhole'), ('cornholi'), ('cornholio'), ('cornhusk'),
+    ('corning'), ('cornish'), ('cornman'), ('cornwall'), ('cornwell'), ('corny'), ('corolla'), ('coron'),
+    ('corona'), ('coronado'), ('coronas'), ('corone'), ('coroner'), ('coronet'), ('corp'), ('corperfmonsy'),
+    ('corporal'), ('corporat'), ('corps'), ('corpse'), ('corpsman'), ('corpus'), ('corrado'), ('corraggi'),
+    ('corral'), ('corran'), ('corratec'), ('correa'), ('correct'), ('corrie'), ('corrigan'), ('corrina'),
+    ('corrine'), ('corrupt'), ('corsa'), ('corsair'), ('corsano'), ('corsar'), ('corset'), ('corsica'),
+    ('cortana'), ('corte'), ('cortes'), ('cortex'), ('cortez'), ('cortina'), ('cortland'), ('cortney'),
+    ('corvair'), ('corvet'), ('corvett'), ('corvette'), ('corvus'), ('corwin'), ('cory'), ('corycory'),
+    ('cosanostra'), ('cosby'), ('cosenza'), ('cosette'), ('cosgrove'), ('cosima'), ('cosimo'), ('cosine'),
+    ('cosit'), ('cosita'), ('cosmetic'), ('cosmic'), ('cosmin'), ('cosmo'), ('cosmocat'), ('cosmodog'),
+    ('cosmopolitan'), ('cosmos'), ('cossack'), ('cossacks'), ('cossie'), ('costa'), ('costanza'), ('costaric'),
+    ('costarica'), ('costas'), ('costco'), ('costello'), ('costing'), ('costume'), ('cosworth'), ('cottage'),
+    ('cottages'), ('cotton'), ('couch'), ('couco'), ('coucou'), ('couga'), ('cougar'), ('cougars'),
+    ('couger'), ('cough'), ('coulter'), ('counchac'), ('council'), ('counsel'), ('count'), ('countach'),
+    ('counte'), ('counter'), ('counters'), ('counterstrike'), ('countess'), ('counting'), ('countr'), ('country'),
+    ('countryb'), ('county'), ('countyli'), ('coupcir'), ('coupe'), ('couple'), ('couples'), ('coupon'),
+    ('coupons'), ('courage'), ('courier'), ('course'), ('court'), ('courtne'), ('courtney'), ('courts'),
+    ('courty'), ('couscous'), ('cousin'), ('cousins'), ('cousteau'), ('couture'), ('coven'), ('covenant'),
+    ('coventry'), ('cover'), ('coverall'), ('covers'), ('covert'), ('covet'), ('covingto'), ('covington'),
+    ('cowabung'), ('cowan'), ('coward'), ('cowbo'), ('cowboy'), ('cowboys'), ('cowboyss'), ('cowboyup'),
+    ('cowcow'), ('cowd00d'), ('cowdog'), ('cowgirl'), ('cowgirls'), ('cowman'), ('cowmoo'), ('cowpie'),
+    ('cows'), ('cowshit'), ('cowsrule'), ('coyee'), ('coyot'), ('coyote'), ('coyotes'), ('cozumel'),
+    ('cpcpcp'), ('cpe1704t'), ('cprofile'), ('cq2kph'), ('cq883tv'), ('cqnwhy'), ('cr1cket'), ('cr250r'),
+    ('crab'), ('crabby'), ('crabcake'), ('crabtree'), ('crack'), ('crackass'), ('cracked'), ('cracker'),
+    ('crackerj'), ('crackers'), ('crackhea'), ('crackhead'), ('cracking'), ('crackle'), ('crackpot'), ('cracks'),
+    ('cracksevi'), ('crackwho'), ('cracky'), ('craddock'), ('cradle'), ('craft'), ('crafts'), ('crafty'),
+    ('craig'), ('craiger'), ('craigs'), ('cram'), ('cramer'), ('cramps'), ('cranberr'), ('cranberries'),
+    ('cranberry'), ('crane'), ('cranes'), ('cranford'), ('cranium'), ('crank'), ('crankers'), ('cranky'),
+    ('cranston'), ('crap'), ('crapcrap'), ('crapola'), ('crapper'), ('crappie'), ('crappy'), ('craps'),
+    ('crash'), ('crashed'), ('crasher'), ('crass'), ('crate'), ('crave'), ('craven'), ('craving'),
+    ('crawdad'), ('crawdads'), ('crawfish'), ('crawford'), ('crawler'), ('crawling'), ('craxxxs'), ('crayfish'),
+    ('crayola'), ('crayon'), ('craz'), ('crazed'), ('crazy'), ('crazy4u'), ('crazyass'), ('crazybab'),
+    ('crazyboy'), ('crazyc'), ('crazycat'), ('crazyd'), ('crazydog'), ('crazydude'), ('crazyfrog'), ('crazyguy'),
+    ('crazyhor'), ('crazyhorse'), ('crazyj'), ('crazyman'), ('crazyone'), ('crazyzil'), ('crazzy'), ('cream'),
+    ('creamer'), ('creampie'), ('creams'), ('creamy'), ('creamyou'), ('crease'), ('create'), ('creatine'),
+    ('creation'), ('creativ'), ('creative'), ('creator'), ('creature'), ('creaven'), ('credit'), ('creditca'),
+    ('credo'), ('creech'), ('creed'), ('creek'), ('creeks'), ('creeksid'), ('creep'), ('creeper'),
+    ('creepers'), ('creepy'), ('crenshaw'), ('creole'), ('creosote'), ('crepusculo'), ('crescent'), ('crespo'),
+    ('cressida'), ('crest'), ('cresta'), ('crete'), ('cretin'), ('crevette'), ('crevice'), ('crew'),
+    ('crewcom'), ('crewman'), ('crfnbyf'), ('crfprf')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('crhbgrf'), ('crhtgrf'), ('cribbage'), ('crichton'), ('cricke'), ('cricket'), ('cricket123'), ('crickets'),
+    ('crickett'), ('cricri'), ('criket'), ('crime'), ('crimea'), ('crimedog'), ('crimes'), ('criminal'),
+    ('crimso'), ('crimson'), ('crinkle'), ('crip'), ('cripple'), ('crippler'), ('cris'), ('crisco'),
+    ('crisis'), ('crisp'), ('crispin'), ('crispy'), ('criss'), ('crissy'), ('crist'), ('crista'),
+    ('cristal'), ('cristan'), ('cristi'), ('cristia'), ('cristian'), ('cristiana'), ('cristiano'), ('cristin'),
+    ('cristina'), ('cristine'), ('cristo'), ('cristobal'), ('cristopher'), ('cristy'), ('critic'), ('critical'),
+    ('criton'), ('critter'), ('critters'), ('crjhgbjy'), ('crjhjcnm'), ('crjnbyf'), ('croaker'), ('croatia'),
+    ('croc'), ('crock'), ('crocker'), ('crocket'), ('crockett'), ('croco'), ('crocodil'), ('crocodile'),
+    ('crocus'), ('croft'), ('cromwell'), ('cronaldo'), ('cronic'), ('cronos'), ('cronus'), ('crook'),
+    ('crooked'), ('crooks'), ('crosby'), ('cross'), ('crossbow'), ('crosser'), ('crossfir'), ('crossfire'),
+    ('crossing'), ('crossman'), ('crossroa'), ('crosswor'), ('crotch'), ('crouch'), ('croucher'), ('crouton'),
+    ('crow'), ('crowbar'), ('crowe'), ('crowes'), ('crowley'), ('crown'), ('crowns'), ('crownvic'),
+    ('crows'), ('croydon'), ('crue'), ('cruel'), ('cruella'), ('cruise'), ('cruiser'), ('cruisers'),
+    ('cruises'), ('cruising'), ('crumbs'), ('crump'), ('crumpet'), ('crunch'), ('crunchie'), ('crunchy'),
+    ('crusade'), ('crusader'), ('crush'), ('crushed'), ('crusher'), ('crushme'), ('crusoe'), ('crust'),
+    ('crusty'), ('crutch'), ('cruz'), ('cruzados'), ('cruzan'), ('cruzazul'), ('cruzeiro'), ('cruzer'),
+    ('crybaby'), ('crying'), ('crypt'), ('cryptic'), ('crypto'), ('crysis'), ('crysta'), ('crystal'),
+    ('crystals'), ('cscomp'), ('cscscs'), ('csfbr5yy'), ('csmith'), ('csrnsdrfh'), ('cstock'), ('cstrike'),
+    ('csyekmrf'), ('csyekz'), ('csyjxtr'), ('ctcnhf'), ('ctdfcnjgjkm'), ('ctdthysq'), ('cthdbc'), ('cthlwt'),
+    ('cthnbabrfn'), ('cthtuf'), ('cthueyz'), ('cthulhu'), ('cthulu'), ('cthutq'), ('cthuttd'), ('cthuttdbx'),
+    ('cthuttdf'), ('cthuttdyf'), ('ctktlrf'), ('ctqkjhvey'), ('ctrhtn'), ('ctrhtnfhm'), ('ctrhtnyj'), ('ctrnjhufpf'),
+    ('ctvthrf'), ('ctvtqrf'), ('ctvtyjd'), ('ctvtyjdf'), ('cuan'), ('cuba'), ('cubalibr'), ('cubalibre'),
+    ('cubamar'), ('cuban'), ('cubana'), ('cubano'), ('cubans'), ('cubase'), ('cubbie'), ('cubbies'),
+    ('cubby'), ('cubbys'), ('cube'), ('cubfan'), ('cubiche'), ('cubs'), ('cubsfan'), ('cubssuck'),
+    ('cubswin'), ('cuca'), ('cucciol'), ('cucciolo'), ('cuchito'), ('cucina'), ('cuckold'), ('cuckoo'),
+    ('cuco'), ('cucu'), ('cucumber'), ('cuda'), ('cudacuda'), ('cuddle'), ('cuddles'), ('cuddly'),
+    ('cueball'), ('cuenca'), ('cuerv'), ('cuervo'), ('cuestick'), ('cuisine'), ('cujo'), ('culebra'),
+    ('culero'), ('culinary'), ('culito'), ('cullen'), ('culloden'), ('culo'), ('culoculo'), ('culotte'),
+    ('culture'), ('culver'), ('cum2me'), ('cum4me'), ('cumalot'), ('cumberla'), ('cumberland'), ('cumboy'),
+    ('cumcum'), ('cumeater'), ('cumface'), ('cumhard'), ('cumin'), ('cuminme'), ('cumload'), ('cumlover'),
+    ('cumm'), ('cummer'), ('cummin'), ('cumming'), ('cummings'), ('cummins'), ('cummy'), ('cumnow'),
+    ('cumon'), ('cumonme'), ('cumquat'), ('cums'), ('cumsalot'), ('cumshot'), ('cumshots'), ('cumslut'),
+    ('cumsluts'), ('cumstain'), ('cumsuck'), ('cumsucker'), ('cumtome'), ('cumulus'), ('cumwhore'), ('cunning'),
+    ('cunningh'), ('cunny'), ('cunt'), ('cuntcunt'), ('cuntface'), ('cuntfinger'), ('cunthole'), ('cuntlick'),
+    ('cuntlicker'), ('cuntlips'), ('cunts'), ('cuntsoup'), ('cupboard'), ('cupcak'), ('cupcake'), ('cupcakes'),
+    ('cupid'), ('cupido'), ('cupidon'), ('cupoftea'), ('cupoi'), ('cups'), ('curacao'), ('cure'),
+    ('curio'), ('curioso'), ('curious'), ('curitiba'), ('curiva'), ('curlew'), ('curley'), ('curling'),
+    ('curly'), ('currahee'), ('curran'), ('currency'), ('current'), ('currie'), ('curry'), ('cursed'),
+    ('cursive'), ('cursor'), ('curt'), ('curtain'), ('curtains'), ('curtis'), ('curve'), ('curves'),
+    ('curzon'), ('cushing'), ('cushion'), ('custard'), ('custer'), ('custom'), ('customer'), ('customs'),
+    ('cute'), ('cuteako'), ('cutegirl'), ('cuteme'), ('cutgrass'), ('cuthbert'), ('cutie'), ('cutiepie'),
+    ('cuties'), ('cutlass'), ('cutler'), ('cutoff'), ('cutout'), ('cutter'), ('cuttie'), ('cutting'),
+    ('cuxldv'), ('cuyahoga'), ('cuzz'), ('cv141ab'), ('cvbcvb'), ('cvbhyjd'), ('cvbhyjdf'), ('cvbn'),
+    ('cvbncvbn'), ('cvbnm'), ('cvbnnbvc'), ('cvetlana'), ('cvetok'), ('cville'), ('cvthnm'), ('cvtifhbr'),
+    ('cvtifhbrb'), ('cvtnfyf'), ('cvyx76h'), ('cvzefh1gk'), ('cvzefh1gkc'), ('cwilliam'), ('cwizintr'), ('cwoodson'),
+    ('cwoui'), ('cx18ka'), ('cxcxcx'), ('cxfcnkbdfz'), ('cxfcnkbdxbr'), ('cxfcnm'), ('cxfcnmt'), ('cxfcnmttcnm'),
+    ('cxzcxz'), ('cxzdsaewq'), ('cyanide'), ('cyber'), ('cyberia'), ('cyberman'), ('cybermax'), ('cybernet'),
+    ('cyberonline'), ('cyberpun'), ('cybersex'), ('cybershot'), ('cyborg'), ('cybrthc'), ('cycle'), ('cycles'),
+    ('cycling'), ('cyclist'), ('cyclone'), ('cyclones'), ('cyclope'), ('cyclops'), ('cydonia'), ('cyecvevhbr'),
+    ('cyfqgth'), ('cygnet'), ('cygnus'), ('cyjdsvujljv'), ('cyklone'), ('cylinder'), ('cymbals'), ('cymru'),
+    ('cynical'), ('cynthi'), ('cynthia'), ('cypher'), ('cypress'), ('cyprus'), ('cyrano'), ('cyril'),
+    ('cyrille'), ('cyrus'), ('cytuehjxrf'), ('cytujdbr'), ('cyzkhw'), ('czar'), ('czarny'), ('czekolada'),
+    ('czps5nyndwcksc'), ('d0ct0r'), ('d1arrhea'), ('d1lakiss'), ('d2000lb'), ('d36e96c'), ('d36e96d'), ('d36rkqdff'),
+    ('d41d8c'), ('d50gnn'), ('d6o8pm'), ('d6wnro'), ('d78unhxq'), ('d9ungl'), ('da0206sf'), ('daba3ff'),
+    ('dabass'), ('dabble'), ('dabdab'), ('dabear'), ('dabears'), ('dabomb'), ('daboss'), ('daboys'),
+    ('daboyz'), ('dabulls'), ('dackel'), ('dad2ownu'), ('dada'), ('dadad'), ('dadada'), ('dadadada'),
+    ('dadd'), ('daddad'), ('daddie'), ('daddies'), ('daddio'), ('daddy'), ('daddyboy'), ('daddyd'),
+    ('daddymac'), ('daddyo'), ('daddys'), ('daddysgirl'), ('daddyy'), ('dado'), ('dads'), ('dady'),
+    ('daedalus'), ('daemon'), ('daewo'), ('daewoo'), ('daffodil'), ('daffy'), ('daffyd'), ('daffyduc'),
+    ('daffyduck'), ('dafotre'), ('daftpunk'), ('dafydd'), ('dagame'), ('dagestan'), ('dagfadg'), ('dagger'),
+    ('daggers'), ('dagmar'), ('dagmara'), ('dagny'), ('dago'), ('dagobah'), ('dagobert'), ('dagwood'),
+    ('dahlia'), ('dahmer'), ('daidai'), ('dailey'), ('daily'), ('daimler'), ('daimon'), ('dainty'),
+    ('dairy'), ('daisey'), ('daishi'), ('daisho')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('daisie'), ('daisies'), ('daisuke'), ('daisuki'), ('daisy'), ('daisydog'), ('daisymae'), ('daisymay'),
+    ('daisys'), ('dak06ota'), ('dakar'), ('dakary'), ('dakine'), ('daking'), ('dakini'), ('dakot'),
+    ('dakota'), ('dakotah'), ('dakotas'), ('daktari'), ('dalamar'), ('dale'), ('daledale'), ('dalejr'),
+    ('daleks'), ('dalene'), ('dalglish'), ('dali'), ('dalia'), ('dalibor'), ('dalila'), ('dalla'),
+    ('dallas'), ('dallastx'), ('dallen'), ('dally'), ('dalmatio'), ('dalshe'), ('dalto'), ('dalton'),
+    ('daly'), ('damage'), ('damaged'), ('damager'), ('daman'), ('damann'), ('damari'), ('damaris'),
+    ('damascus'), ('damasta'), ('damdam'), ('dame'), ('dameon'), ('damia'), ('damian'), ('damiano'),
+    ('damie'), ('damien'), ('damilola'), ('damion'), ('damir'), ('damirka'), ('dammit'), ('damn'),
+    ('damnation'), ('damned'), ('damngood'), ('damnit'), ('damnyou'), ('damo'), ('damocles'), ('damon'),
+    ('damons'), ('damore'), ('damp'), ('damsel'), ('dan1el'), ('dana'), ('danadana'), ('danang'),
+    ('danbury'), ('dance'), ('dance4life'), ('dancedance'), ('dancer'), ('dancers'), ('dances'), ('dancin'),
+    ('dancing'), ('dandan'), ('dandelio'), ('dandelion'), ('dandfa'), ('dandie'), ('dandy'), ('dane'),
+    ('danechka'), ('danette'), ('dang'), ('dange'), ('dangel'), ('danger'), ('dangermo'), ('dangerou'),
+    ('dangerous'), ('dangit'), ('dangle'), ('dani'), ('dania'), ('danial'), ('danica'), ('danidani'),
+    ('danie'), ('daniel'), ('daniela'), ('daniele'), ('danielit'), ('daniell'), ('daniella'), ('danielle'),
+    ('danielm'), ('daniels'), ('danifilth'), ('daniil'), ('danijela'), ('danika'), ('danil'), ('danila'),
+    ('danildanil'), ('danilka'), ('danilo'), ('danilov'), ('danilova'), ('danimal'), ('danish'), ('dank'),
+    ('dankdank'), ('danknugs'), ('dankster'), ('danman'), ('danmark'), ('dann'), ('danna'), ('danner'),
+    ('danni'), ('danniash'), ('dannie'), ('dannii'), ('danno'), ('dannon'), ('danny'), ('dannyb'),
+    ('dannyboy'), ('dannyd'), ('dannyg'), ('dannyl'), ('dannys'), ('dano'), ('danone'), ('danser'),
+    ('dante'), ('dantes'), ('danthema'), ('dantheman'), ('dantheman123'), ('dantist'), ('danton'), ('danube'),
+    ('danuta'), ('danville'), ('dany'), ('danyelle'), ('danzig'), ('danziger'), ('daociyiy'), ('dapdap'),
+    ('daphne'), ('dapimp'), ('dapper'), ('dapple'), ('darb'), ('darby'), ('darcey'), ('darcy'),
+    ('dardar'), ('dare'), ('daredevi'), ('daredevil'), ('darhan'), ('dari'), ('daria'), ('darian'),
+    ('darien'), ('darima'), ('darin'), ('darina'), ('daring'), ('darinka'), ('dario'), ('darion'),
+    ('dariu'), ('darius'), ('darjeeling'), ('dark'), ('darkange'), ('darkangel'), ('darkblue'), ('darkcave'),
+    ('darkcity'), ('darkdark'), ('darkelf'), ('darken'), ('darker'), ('darkfire'), ('darkhors'), ('darkhorse'),
+    ('darkie'), ('darkjedi'), ('darkknig'), ('darkknight'), ('darkling'), ('darklord'), ('darkmage'), ('darkman'),
+    ('darkmanx'), ('darkmoon'), ('darknes'), ('darkness'), ('darknigh'), ('darknight'), ('darknite'), ('darkomen'),
+    ('darkone'), ('darkover'), ('darkroom'), ('darks'), ('darkseed'), ('darksid'), ('darkside'), ('darksoul'),
+    ('darksta'), ('darkstar'), ('darksun'), ('darkwing'), ('darkwolf'), ('darla'), ('darlene'), ('darlin'),
+    ('darling'), ('darlingt'), ('darmstad'), ('darnell'), ('darnit'), ('darnoc'), ('darock'), ('darre'),
+    ('darrel'), ('darrell'), ('darren'), ('darrian'), ('darrin'), ('darrow'), ('darryl'), ('darshan'),
+    ('darsol'), ('dart'), ('darter'), ('darth'), ('darthmau'), ('darthmaul'), ('darthvad'), ('darthvader'),
+    ('dartman'), ('dartmout'), ('dartmouth'), ('darts'), ('daruma'), ('darvin'), ('darwei'), ('darwin'),
+    ('darya'), ('daryl'), ('dasani'), ('dasboot'), ('dascha'), ('dasdas'), ('dasdasd'), ('dasein'),
+    ('dash'), ('dasha'), ('dashadasha'), ('dashenka'), ('dasher'), ('dashit'), ('dashka'), ('dasreich'),
+    ('dass'), ('dastan'), ('dastin'), ('data'), ('database'), ('datadata'), ('datalife'), ('datalore'),
+    ('date'), ('datho'), ('dating'), ('datnigga'), ('datsun'), ('datuna'), ('daugavpils1'), ('daughter'),
+    ('daulet'), ('dauntivi'), ('dauphin'), ('dauphine'), ('dauren'), ('davcprox'), ('dave'), ('davecole'),
+    ('davedave'), ('daveman'), ('davenpor'), ('davenport'), ('davex'), ('davey'), ('daveyboy'), ('davi'),
+    ('david'), ('davida'), ('davidb'), ('davidc'), ('davidd'), ('davide'), ('davidf'), ('davidg'),
+    ('davidh'), ('davidhbk'), ('davidj'), ('davidk'), ('davidkin'), ('davidl'), ('davidlee'), ('davidm'),
+    ('davido'), ('davidoff'), ('davidp'), ('davidr'), ('davidruiz'), ('davids'), ('davidson'), ('davidt'),
+    ('davidw'), ('davies'), ('davila'), ('davin'), ('davina'), ('davinc'), ('davinchi'), ('davinci'),
+    ('davion'), ('davis'), ('davison'), ('davita'), ('davout'), ('davron'), ('davros'), ('dawg'),
+    ('dawgdawg'), ('dawggy'), ('dawgpound'), ('dawgs'), ('dawidek'), ('dawkins'), ('dawn'), ('dawndawn'),
+    ('dawnie'), ('dawns'), ('dawson'), ('daxada'), ('daxdax'), ('daxter'), ('dayan'), ('dayana'),
+    ('daybreak'), ('daycare'), ('dayday'), ('daydream'), ('daylight'), ('daylily'), ('days'), ('daystar'),
+    ('daytek'), ('daytime'), ('dayton'), ('daytona'), ('daytrip'), ('daywalke'), ('daywalker'), ('dazdraperma'),
+    ('daze'), ('dazed'), ('dazz'), ('dazzle'), ('dazzler'), ('dbacks'), ('dbdbdbdb'), ('dbityrf'),
+    ('dbjktnnf'), ('dblock'), ('dbm123dm'), ('dbnfkbq'), ('dbnfkbr'), ('dbnfkbyf'), ('dbnfkmrf'), ('dbnfkz'),
+    ('dbrbyu'), ('dbrecmrf'), ('dbrecz'), ('dbrekz'), ('dbrfdbrf'), ('dbrnjh'), ('dbrnjhbz'), ('dbrnjhjdbx'),
+    ('dbrnjhjdyf'), ('dbrown'), ('dbyjuhfl'), ('dbzdbz'), ('dc3ubn'), ('dcba'), ('dclxvi'), ('dcowboys'),
+    ('dcpugh'), ('dctcerb'), ('dctdjkjl'), ('dctktyyfz'), ('dctulf'), ('dctvcjcfnm'), ('dctvgbplf'), ('dctvghbdf'),
+    ('dctvghbdtn'), ('dcunited'), ('ddavis'), ('dddd'), ('ddddd'), ('dddddd'), ('ddddddd'), ('dddddddd'),
+    ('ddddddddd'), ('dddddddddd'), ('dddsss'), ('ddgirls'), ('ddkk'), ('ddss'), ('de1987ma'), ('de7mdf'),
+    ('deacon'), ('deacons'), ('dead'), ('deadass'), ('deadbeat'), ('deadbird'), ('deadbolt'), ('deadboy'),
+    ('deadcat'), ('deaddead'), ('deaddog'), ('deadend'), ('deader'), ('deadeye'), ('deadfish'), ('deadfred'),
+    ('deadguy'), ('deadhead'), ('deadlift'), ('deadline'), ('deadlock'), ('deadly'), ('deadman'), ('deadmazay'),
+    ('deadmeat'), ('deadmoin'), ('deadpool'), ('deadsexy'), ('deadsoul'), ('deadspace'), ('deadspin'), ('deadwood'),
+    ('deadzone'), ('deagle'), ('deal'), ('dealer'), ('deamon'), ('dean'), ('deandean'), ('deandre'),
+    ('deaner'), ('deangelo'), ('deanna'), ('deanne')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('deano'), ('dear'), ('dearborn'), ('dearest'), ('death'), ('deathblo'), ('deathman'), ('deathnote'),
+    ('deathrow'), ('deaths'), ('deathsta'), ('deathstar'), ('deathwish'), ('debaser'), ('debate'), ('debbi'),
+    ('debbie'), ('debby'), ('debeers'), ('debi'), ('debiloid'), ('debora'), ('deborah'), ('debra'),
+    ('debtfree'), ('debugger'), ('debussy'), ('deca'), ('decade'), ('decatur'), ('decaview'), ('decay'),
+    ('decca'), ('decembe'), ('december'), ('december12'), ('decembre'), ('decent'), ('decibel'), ('decimal'),
+    ('decipher'), ('decision'), ('deck'), ('deckard'), ('decker'), ('declan'), ('decline'), ('deco'),
+    ('decoder'), ('decor'), ('decoy'), ('dedalus'), ('dedbol'), ('dede'), ('dedede'), ('dededede'),
+    ('dedham'), ('dedhed'), ('dediko'), ('dedmoroz'), ('dedushka'), ('deeann'), ('deebee'), ('deecee'),
+    ('deed'), ('deedee'), ('deedlit'), ('deedra'), ('deejay'), ('deeker'), ('deeman'), ('deep'),
+    ('deepak'), ('deepblue'), ('deepdeep'), ('deepdive'), ('deeper'), ('deepika'), ('deeply'), ('deeppurple'),
+    ('deepred'), ('deepsea'), ('deepsix'), ('deepspac'), ('deepthro'), ('deepthroat'), ('deepwate'), ('deer'),
+    ('deere'), ('deerhunt'), ('deerhunter'), ('deering'), ('deerpark'), ('deesnuts'), ('deez'), ('deeznuts'),
+    ('deeznutz'), ('defamer'), ('default'), ('defcon'), ('defeat'), ('defect'), ('defence'), ('defend'),
+    ('defende'), ('defender'), ('defense'), ('defiance'), ('defiant'), ('defjam'), ('deflep'), ('defrag'),
+    ('deftone'), ('deftones'), ('degauss'), ('degenerationx'), ('degree'), ('degrees'), ('dehpye'), ('deicide'),
+    ('deidara'), ('deidre'), ('deimos'), ('deirdre'), ('deisel'), ('deivis'), ('deja'), ('dejavu'),
+    ('dejesus'), ('dekal'), ('dekalb'), ('dekcah'), ('deke'), ('dekker'), ('delacruz'), ('delane'),
+    ('delaney'), ('delano'), ('delasoul'), ('delavega'), ('delaware'), ('delay'), ('delbert'), ('delboy'),
+    ('delegwiz'), ('delenn'), ('deleon'), ('delerium'), ('deles'), ('delet'), ('delete'), ('deleted'),
+    ('delfi'), ('delfin'), ('delfina'), ('delfino'), ('delgado'), ('delhi'), ('deli'), ('delia'),
+    ('delicia'), ('deliciou'), ('delicious'), ('delight'), ('delights'), ('delila'), ('delilah'), ('delillo'),
+    ('delirium'), ('delite'), ('deliver'), ('delivery'), ('dell'), ('della'), ('delldell'), ('delmar'),
+    ('delo'), ('deloitte'), ('delong'), ('delonge'), ('delorean'), ('delores'), ('delphi'), ('delphin'),
+    ('delphine'), ('delpiero'), ('delray'), ('delrio'), ('delsol'), ('delt'), ('delta'), ('deltachi'),
+    ('deltafor'), ('deltaforce'), ('deltaone'), ('deltapi'), ('deltas'), ('deltasig'), ('deltatau'), ('deltic'),
+    ('delton'), ('deltron'), ('deluca'), ('deluge'), ('delux'), ('deluxe'), ('delwyn'), ('demand'),
+    ('demarco'), ('dembel'), ('demchenko'), ('demented'), ('dementia'), ('demeter'), ('demetra'), ('demetri'),
+    ('demetria'), ('demetrio'), ('demetriu'), ('demetrius'), ('demi'), ('demian'), ('demidov'), ('demigod'),
+    ('demina'), ('demise'), ('demiurg'), ('demo'), ('democrat'), ('demodemo'), ('demolay'), ('demolition'),
+    ('demoman'), ('demon'), ('demona'), ('demond'), ('demonic'), ('demonik'), ('demonio'), ('demons'),
+    ('dempsey'), ('demur'), ('den1020834880'), ('den4ik'), ('denali'), ('denchik'), ('denden'), ('dendenden'),
+    ('deneme'), ('deng'), ('dengad'), ('denhaag'), ('denham'), ('deni'), ('denial'), ('denice'),
+    ('denied'), ('deniro'), ('denis'), ('denis12345'), ('denisa'), ('denisdenis'), ('denise'), ('deniska'),
+    ('denison'), ('denisov'), ('deniss'), ('denisz'), ('denmark'), ('denn'), ('denni'), ('dennie'),
+    ('dennis'), ('dennise'), ('denny'), ('dennys'), ('density'), ('denson'), ('dent'), ('dental'),
+    ('dentist'), ('dentista'), ('dentman'), ('denton'), ('denture'), ('denver'), ('denwer'), ('denzel'),
+    ('denzil'), ('depart'), ('department'), ('depaul'), ('depeche'), ('depechemode'), ('deploy'), ('deposit'),
+    ('depot'), ('depp'), ('deputy'), ('derail'), ('derby'), ('derderder'), ('derek'), ('dereks'),
+    ('derelict'), ('derevo'), ('derf'), ('derfderf'), ('derfla'), ('derick'), ('derive'), ('dermot'),
+    ('dern'), ('derosa'), ('derparol'), ('derrek'), ('derren'), ('derric'), ('derrick'), ('derrickh'),
+    ('derrida'), ('dert'), ('derty'), ('dervish'), ('derwent'), ('desade'), ('desadov'), ('desant'),
+    ('descarte'), ('descent'), ('description'), ('desdemon'), ('desember'), ('desert'), ('desertfo'), ('deshaun'),
+    ('deshawn'), ('deshon'), ('desi'), ('desig'), ('design'), ('designer'), ('designs'), ('desirae'),
+    ('desire'), ('desiree'), ('desires'), ('desk'), ('deskjet'), ('desklamp'), ('deskpro'), ('desktop'),
+    ('desmond'), ('desoto'), ('despair'), ('desperad'), ('desperado'), ('desperados'), ('desperate'), ('despina'),
+    ('dessar'), ('dessert'), ('dessie'), ('destin'), ('destination'), ('destinee'), ('destini'), ('destiny'),
+    ('destro'), ('destroy'), ('destroye'), ('destroyer'), ('destruct'), ('destruction'), ('detail'), ('details'),
+    ('detect'), ('detectiv'), ('detective'), ('dethklok'), ('detlef'), ('detnews'), ('detour'), ('detritus'),
+    ('detroit'), ('deuce'), ('deus'), ('deusex'), ('deutsch'), ('deutsche'), ('deutschl'), ('deutschland'),
+    ('devadeva'), ('devan'), ('devante'), ('devastator'), ('develop'), ('develope'), ('developer'), ('deven'),
+    ('devere'), ('deviant'), ('deviate'), ('device'), ('deviceclass'), ('devices'), ('devil'), ('devilboy'),
+    ('devildo'), ('devildoc'), ('devildog'), ('devildriver'), ('devilish'), ('deville'), ('devilman'), ('devilmay'),
+    ('devilmaycry'), ('devilmaycry4'), ('devils'), ('devin'), ('devine'), ('devinn'), ('devious'), ('devitt'),
+    ('devlin'), ('devo'), ('devochka'), ('devon'), ('devotee'), ('devotion'), ('devries'), ('dewalt'),
+    ('dewar'), ('dewars'), ('dewayne'), ('dewdew'), ('dewdrop'), ('dewdrops'), ('dewey'), ('dewitt'),
+    ('dexte'), ('dexter'), ('dextur'), ('dezamone'), ('dezember'), ('dezembro'), ('df3sypro'), ('dfadan'),
+    ('dfcbkbcf'), ('dfcbkbcr'), ('dfcbkbq'), ('dfcbkbyf'), ('dfcbkmtd'), ('dfcbkmtdf'), ('dfcbkmtdyf'), ('dfcbktr'),
+    ('dfcmrf'), ('dfcz'), ('dfczdfcz'), ('dfdf'), ('dfdfdf'), ('dfdfdfdf'), ('dfgdfg'), ('dfgdfgdf'),
+    ('dfgdfgdfg'), ('dfgdrb5se4'), ('dfghjc'), ('dfghjk'), ('dfhbfyn'), ('dfhdfh'), ('dfhdfhf'), ('dfhrhfan'),
+    ('dfhtybr'), ('dfhtymt'), ('dfkmltvfh'), ('dfkmrbhbz'), ('dfknjhyf'), ('dfkthbq'), ('dfkthbr'), ('dfkthbz'),
+    ('dfkthf'), ('dfktxrf'), ('dfktyjr'), ('dfktynby'), ('dfktynbyf'), ('dfktynbyrf'), ('dfktyrb'), ('dflbvrf'),
+    ('dflmqljm'), ('dfnheirf'), ('dfrgifps'), ('dfrgui'), ('dfubyf'), ('dfvdfvdfv'), ('dfvgbh'), ('dfybkkf'),
+    ('dfymrf'), ('dfytxrf'), ('dfyzdfyz'), ('dga9la')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('dgoins'), ('dgthtl'), ('dharma'), ('dhip6a'), ('dhjnvytyjub'), ('dhtlbyf'), ('dhtlbyrf'), ('diabetes'),
+    ('diabetic'), ('diabl'), ('diablito'), ('diablo'), ('diablos'), ('diabolic'), ('diabolik'), ('diabolo'),
+    ('diactfrm'), ('diadora'), ('diagonal'), ('diakonos'), ('dial'), ('dialer'), ('dialog'), ('dialtone'),
+    ('dialup'), ('diamand'), ('diamant'), ('diamante'), ('diamon'), ('diamond'), ('diamondb'), ('diamondd'),
+    ('diamondg'), ('diamondj'), ('diamondp'), ('diamonds'), ('diamondt'), ('diamondz'), ('dian'), ('diana'),
+    ('dianas'), ('diane'), ('dianes'), ('dianita'), ('dianka'), ('diann'), ('dianna'), ('dianne'),
+    ('dianochka'), ('diao'), ('diapason'), ('diaper'), ('diapers'), ('diario'), ('diavolo'), ('diaz'),
+    ('dibble'), ('dicanio'), ('dicaprio'), ('dicarlo'), ('dice'), ('diceman'), ('diciembr'), ('dick'),
+    ('dick4u'), ('dickdick'), ('dickens'), ('dicker'), ('dickey'), ('dickface'), ('dickhea'), ('dickhead'),
+    ('dickie'), ('dickies'), ('dickless'), ('dicklick'), ('dicklips'), ('dickman'), ('dickme'), ('dicks'),
+    ('dickson'), ('dickss'), ('dickster'), ('dicksuck'), ('dickweed'), ('dicky'), ('dictator'), ('dictiona'),
+    ('dictionary'), ('diddle'), ('diddy'), ('didenko'), ('didi'), ('dididi'), ('didier'), ('didit'),
+    ('dido'), ('didou'), ('diebitch'), ('diebold'), ('diedie'), ('diediedie'), ('dieg'), ('diego'),
+    ('dieguit'), ('diehard'), ('diem'), ('dienstag'), ('diese'), ('diesel'), ('diesirae'), ('diet'),
+    ('dietcok'), ('dietcoke'), ('dieter'), ('dietmar'), ('dietpeps'), ('dietrich'), ('differen'), ('difference'),
+    ('difranco'), ('digby'), ('digdog'), ('digdug'), ('digest'), ('digge'), ('digger'), ('diggerdo'),
+    ('diggers'), ('diggit'), ('diggity'), ('diggle'), ('diggler'), ('digi'), ('digimon'), ('digit'),
+    ('digita'), ('digital'), ('digitalprodu'), ('digitex'), ('digits'), ('digiview'), ('digler'), ('dignity'),
+    ('digweed'), ('dikdik'), ('dikkelul'), ('dikkie'), ('dikobraz'), ('dilara'), ('dilate'), ('dilbert'),
+    ('dildo'), ('dildos'), ('dill'), ('dillan'), ('dillard'), ('diller'), ('dillhole'), ('dilligaf'),
+    ('dilligas'), ('dillinge'), ('dillion'), ('dillon'), ('dillweed'), ('dilly'), ('dilnoza'), ('dilshod'),
+    ('dima'), ('dimabilan'), ('dimadima'), ('dimaggio'), ('diman'), ('dimanche'), ('dimarik'), ('dimas'),
+    ('dimasik'), ('dimazarya'), ('dimdim'), ('dime'), ('dimebag'), ('dimedrol'), ('dimensio'), ('dimension'),
+    ('dimes'), ('dimidrol'), ('dimitri'), ('dimitris'), ('dimitry'), ('dimka'), ('dimo4ka'), ('dimochka'),
+    ('dimon'), ('dimon4ik'), ('dimonchik'), ('dimple'), ('dimples'), ('dimsum'), ('dimwit'), ('dina'),
+    ('dinadina'), ('dinah'), ('dinamit'), ('dinamite'), ('dinamo'), ('dinar'), ('dinara'), ('dindin'),
+    ('dindom'), ('dindon'), ('diner'), ('dinero'), ('dinesh'), ('ding'), ('dingalin'), ('dingaling'),
+    ('dingbat'), ('dingding'), ('dingdong'), ('dinger'), ('dingle'), ('dingo'), ('dingoman'), ('dingos'),
+    ('dingus'), ('dinho'), ('dink'), ('dinkel'), ('dinker'), ('dinkey'), ('dinkie'), ('dinkle'),
+    ('dinkus'), ('dinky'), ('dinmamma'), ('dinmor'), ('dinner'), ('dino'), ('dinochka'), ('dinodino'),
+    ('dinodog'), ('dinodogg'), ('dinosaur'), ('dinozavr'), ('dinsdale'), ('diode'), ('diogenes'), ('diomedes'),
+    ('dion'), ('dionis'), ('dionne'), ('dionysus'), ('dios'), ('diosesamo'), ('dipascuc'), ('diplom'),
+    ('diploma'), ('diplomat'), ('dipper'), ('dippy'), ('dipset'), ('dipshit'), ('dipstick'), ('dirac'),
+    ('direct'), ('director'), ('directory'), ('direktor'), ('direwolf'), ('dirk'), ('dirkdirk'), ('dirkpitt'),
+    ('dirt'), ('dirtbag'), ('dirtball'), ('dirtbike'), ('dirtdog'), ('dirty'), ('dirtybir'), ('dirtyboy'),
+    ('dirtycunt'), ('dirtyd'), ('dirtydog'), ('dirtygirl'), ('dirtyman'), ('dirtyone'), ('dirtypop'), ('dirtysouth'),
+    ('dirtywhore'), ('disable'), ('disabled'), ('disarm'), ('disaster'), ('disc'), ('discgolf'), ('disciple'),
+    ('discman'), ('disco'), ('discord'), ('discordi'), ('discos'), ('discount'), ('discover'), ('discovery'),
+    ('discreet'), ('discrete'), ('discus'), ('discworld'), ('disease'), ('disguise'), ('dishes'), ('dishwash'),
+    ('disk'), ('diskette'), ('disne'), ('disney'), ('disneyland'), ('disorder'), ('dispatch'), ('display'),
+    ('displays'), ('dispute'), ('distal'), ('distance'), ('distant'), ('distress'), ('district'), ('disturb'),
+    ('disturbe'), ('disturbed'), ('ditch'), ('ditka'), ('ditto'), ('ditty'), ('diunilaobu8*'), ('diva'),
+    ('divad'), ('divan'), ('dive'), ('divedeep'), ('diver'), ('diverdow'), ('divers'), ('diversio'),
+    ('divide'), ('divided'), ('divider'), ('divin'), ('divina'), ('divine'), ('diving'), ('divinity'),
+    ('division'), ('divorce'), ('divorced'), ('divx'), ('dixie'), ('dixiedog'), ('dixies'), ('dixon'),
+    ('dizzie'), ('dizzle'), ('dizzy'), ('djamaal'), ('django'), ('djclue'), ('djcnjr'), ('djcross'),
+    ('djctvm'), ('djdfdjdf'), ('djdjdj'), ('djdjxrf'), ('djdxbr'), ('djembe'), ('djengis'), ('djeter'),
+    ('djfpass'), ('djg4bb4b'), ('djgabbab'), ('djghjc'), ('djhjyf'), ('djhjyjdf'), ('djhvbrc'), ('djibouti'),
+    ('djkjlz'), ('djkrjd'), ('djkrjdf'), ('djkrjlfd'), ('djkujuhfl'), ('djkxbwf'), ('djkxfhf'), ('djljgfl'),
+    ('djljghjdjl'), ('djljktq'), ('djlzhf'), ('djmuls'), ('djtiesto'), ('dkalis'), ('dkfcjdf'), ('dkfcntkby'),
+    ('dkflbckfd'), ('dkflbdjcnjr'), ('dkflbr'), ('dkflbvbh'), ('dkflbvbhjdbx'), ('dkflbvbhjdyf'), ('dkfljxrf'), ('dkjfghdk'),
+    ('dknight'), ('dkny'), ('dlanod'), ('dlanor'), ('dlgddm'), ('dm6tzsgp'), ('dman'), ('dmarink'),
+    ('dmband'), ('dmfxhkju'), ('dmiller12as'), ('dmitri'), ('dmitriev'), ('dmitrieva'), ('dmitrii'), ('dmitrij'),
+    ('dmitriy'), ('dmitry'), ('dmoney'), ('dmxdmx'), ('dnalor'), ('dnevnik'), ('dnjhybr'), ('dnodno'),
+    ('dnomyar'), ('dnsadm'), ('dnstuff'), ('dobber'), ('dobbin'), ('dobbs'), ('doberman'), ('dobie'),
+    ('dobson'), ('docdoc'), ('docent'), ('dochenka'), ('dochka'), ('dock'), ('docker'), ('dockers'),
+    ('docter'), ('docteur'), ('docto'), ('doctor'), ('doctorj'), ('doctorno'), ('doctorwh'), ('doctorwho'),
+    ('document'), ('dodadoda'), ('dodge'), ('dodgeman'), ('dodger'), ('dodgeram'), ('dodgers'), ('dodges'),
+    ('dodgeviper'), ('dodo'), ('dodobird'), ('dododo'), ('dodododo'), ('dodson'), ('doeboy'), ('doedel'),
+    ('doedoe'), ('does'), ('doesit'), ('dog4life'), ('dogballs'), ('dogbert'), ('dogbite'), ('dogbone'),
+    ('dogbones'), ('dogboy'), ('dogbreat'), ('dogbreath'), ('dogbutt'), ('dogcat'), ('dogday'), ('dogdays'),
+    ('dogdog'), ('dogdogdog'), ('dogeatdo'), ('dogeral'), ('dogface'), ('dogfart'), ('dogfight'), ('dogfish'),
+    ('dogfood'), ('dogfuck'), ('dogg'), ('doggdogg')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('dogged'), ('dogger'), ('doggg'), ('dogggg'), ('dogggy'), ('doggie'), ('doggies'), ('doggiest'),
+    ('doggod'), ('doggone'), ('doggss'), ('doggy'), ('doggydog'), ('doggys'), ('doggysty'), ('doggystyle'),
+    ('doghead'), ('doghot'), ('doghouse'), ('dogleg'), ('doglover'), ('dogma'), ('dogman'), ('dogmatic'),
+    ('dogmatix'), ('dogmeat'), ('dognuts'), ('dogone'), ('dogpatch'), ('dogphil3650'), ('dogpile'), ('dogpound'),
+    ('dogs'), ('dogsdogs'), ('dogshit'), ('dogshow'), ('dogsss'), ('dogstar'), ('dogstyle'), ('dogtown'),
+    ('dogwood'), ('dohcvtec'), ('doherty'), ('doingit'), ('doit'), ('doitnow'), ('dokken'), ('doktor'),
+    ('dolan'), ('dolboeb'), ('dolby'), ('dolce'), ('dolcevita'), ('dole'), ('dolemite'), ('dolfan'),
+    ('dolfijn'), ('dolfin'), ('dolgov'), ('dolina'), ('dolittle'), ('doll'), ('dolla'), ('dollar'),
+    ('dollarbi'), ('dollarbill'), ('dollars'), ('dollbaby'), ('doller'), ('dollface'), ('dollie'), ('dollop'),
+    ('dolls'), ('dolly'), ('dolomite'), ('dolore'), ('dolores'), ('dolphi'), ('dolphin'), ('dolphine'),
+    ('dolphins'), ('doma77ns'), ('domain'), ('domainlock2005'), ('domani'), ('domdom'), ('dome'), ('domedome'),
+    ('domehard'), ('domenic'), ('domenico'), ('domenow'), ('domestic'), ('domi'), ('domin'), ('domina'),
+    ('dominant'), ('dominate'), ('dominati'), ('domination'), ('dominator'), ('doming'), ('domingo'), ('domingue'),
+    ('domini'), ('dominic'), ('dominica'), ('dominick'), ('dominik'), ('dominika'), ('dominio'), ('dominion'),
+    ('dominiqu'), ('dominique'), ('domino'), ('dominoes'), ('dominos'), ('dominus'), ('domodedovo'), ('domodo'),
+    ('domodomo'), ('domolink'), ('domovoi'), ('domovoy'), ('donahue'), ('donal'), ('donald'), ('donaldduck'),
+    ('donaldo'), ('donatas'), ('donatella'), ('donatello'), ('donato'), ('dondi'), ('dondon'), ('done'),
+    ('donegal'), ('doneit'), ('donetsk'), ('dong'), ('donger'), ('dongle'), ('donita'), ('donjuan'),
+    ('donk'), ('donke'), ('donkey'), ('donkeykong'), ('donkeys'), ('donking'), ('donn'), ('donna'),
+    ('donnab'), ('donnalee'), ('donnas'), ('donnell'), ('donnelly'), ('donner'), ('donnie'), ('donny'),
+    ('donor'), ('donovan'), ('donsdad'), ('dont'), ('dont4get'), ('dontae'), ('dontask'), ('dontcare'),
+    ('dontdoit'), ('dontforg'), ('dontforget'), ('dontgotm'), ('donthate'), ('dontknow'), ('dontlook'), ('dontstop'),
+    ('donttell'), ('donut'), ('donuts'), ('donvito'), ('doober'), ('doobie'), ('dooby'), ('dood'),
+    ('doodad'), ('doodah'), ('dooder'), ('doodie'), ('doodl'), ('doodle'), ('doodlebu'), ('doodlebug'),
+    ('doodles'), ('doodoo'), ('doody'), ('doofer'), ('doofus'), ('doog'), ('doogan'), ('dooger'),
+    ('doogie'), ('doogle'), ('doohan'), ('dooker'), ('dookie'), ('dooley'), ('doolittl'), ('doolittle'),
+    ('doom'), ('doomdoom'), ('doomed'), ('doomer'), ('doomsday'), ('dooper'), ('door'), ('doorbell'),
+    ('doordie'), ('doorknob'), ('doorman'), ('doormat'), ('doors'), ('doorss'), ('doorstop'), ('doorway'),
+    ('doos'), ('doowop'), ('doozer'), ('dopamine'), ('dope'), ('dopehead'), ('dopeman'), ('dopey'),
+    ('doppler'), ('dora'), ('dorado'), ('doraemon'), ('doral'), ('dorcas'), ('doreen'), ('doremi'),
+    ('dorene'), ('dorf'), ('dori'), ('doria'), ('dorian'), ('dorien'), ('doright'), ('dorina'),
+    ('doris'), ('doritos'), ('dork'), ('dorkboy'), ('dorkdork'), ('dorkus'), ('dorman'), ('dornier'),
+    ('doroga'), ('doromich'), ('doronina'), ('dorota'), ('doroth'), ('dorothea'), ('dorothee'), ('dorothy'),
+    ('dorsai'), ('dorset'), ('dorsett'), ('dorsey'), ('dorthe'), ('dortmund'), ('dory'), ('doss'),
+    ('dostup'), ('dotcom'), ('dotdot'), ('dothedew'), ('dotnet'), ('dotson'), ('dott'), ('dottie'),
+    ('double'), ('doubled'), ('doublej'), ('doubles'), ('doublet'), ('doubt'), ('douce'), ('douche'),
+    ('douchebag'), ('doudo'), ('doudou'), ('doudouth'), ('doug'), ('dougal'), ('dough'), ('doughboy'),
+    ('doughnut'), ('dougie'), ('dougla'), ('douglas'), ('douglass'), ('doulos'), ('douse'), ('dovajb'),
+    ('dove'), ('dover'), ('doverdel'), ('dovetail'), ('dowjones'), ('dowling'), ('down'), ('downdown'),
+    ('downer'), ('downey'), ('downfall'), ('downhill'), ('downing'), ('download'), ('downloads'), ('downlow'),
+    ('downset'), ('downtime'), ('downtown'), ('downunde'), ('doyle'), ('dozer'), ('dozers'), ('dozier'),
+    ('dozzer'), ('dpcdpc'), ('dposton'), ('dpxtrm'), ('drac'), ('drache'), ('drachen'), ('draco'),
+    ('dracon'), ('draconia'), ('draconian'), ('draconis'), ('dracos'), ('dracul'), ('dracula'), ('draft'),
+    ('drafting'), ('drag'), ('drag0n'), ('dragan'), ('dragnet'), ('drago'), ('dragon'), ('dragonba'),
+    ('dragonball'), ('dragonballz'), ('dragonbo'), ('dragones'), ('dragonfi'), ('dragonfire'), ('dragonfl'), ('dragonfly'),
+    ('dragonforce'), ('dragonla'), ('dragonlord'), ('dragonma'), ('dragonman'), ('dragons'), ('dragonslayer'), ('dragonss'),
+    ('dragonx'), ('dragonz'), ('dragoo'), ('dragoon'), ('dragos'), ('dragrace'), ('dragstar'), ('dragster'),
+    ('dragula'), ('drahcir'), ('drain'), ('drains'), ('drakcap'), ('drake'), ('draken'), ('drakes'),
+    ('drakkar'), ('drako'), ('drakon'), ('drakula'), ('drakyla'), ('drama'), ('dranoel'), ('dranreb'),
+    ('draper'), ('drastic'), ('draven'), ('draw'), ('drawde'), ('drawer'), ('drawing'), ('drawoh'),
+    ('drayton'), ('drazil'), ('drdeath'), ('drdoom'), ('drdrdrdr'), ('drdre'), ('dre3dre'), ('drea'),
+    ('dread'), ('dreadful'), ('dreads'), ('dream'), ('dreamcas'), ('dreamcast'), ('dreame'), ('dreamer'),
+    ('dreamers'), ('dreamgirl'), ('dreamin'), ('dreaming'), ('dreamlan'), ('dreamon'), ('dreamonline'), ('dreams'),
+    ('dreamtea'), ('dreamteam'), ('dreamwor'), ('dreamworks'), ('dreamy'), ('dreday'), ('dredd'), ('dredre'),
+    ('dreher'), ('drella'), ('dresden'), ('dress'), ('dressage'), ('dresser'), ('dressing'), ('drevil'),
+    ('drew'), ('drewdrew'), ('drewman'), ('drewski'), ('drexel'), ('drexler'), ('drexploi'), ('dreyfus'),
+    ('drgonzo'), ('dribble'), ('drift'), ('drifter'), ('drifting'), ('drill'), ('driller'), ('drilling'),
+    ('drills'), ('drillsgt'), ('drink'), ('drinker'), ('drinking'), ('drinkme'), ('drinks'), ('dripdrip'),
+    ('dripik'), ('dripping'), ('drippy'), ('driscoll'), ('drive'), ('driven'), ('driver'), ('drivers'),
+    ('drives'), ('driving'), ('drizzit'), ('drizzle'), ('drizzt'), ('drjynfrnt'), ('drkenny'), ('drlove'),
+    ('dro8smwq'), ('droffilc'), ('drogba'), ('droid'), ('dron'), ('drone'), ('drones'), ('drongo'),
+    ('drool'), ('droop'), ('droopy'), ('drop'), ('dropdead'), ('dropkick'), ('droptop'), ('dropzone'),
+    ('drowning'), ('drowssa'), ('drowssap'), ('drpeppe')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('drpepper'), ('drucker'), ('drug'), ('drugba'), ('drugfree'), ('drugs'), ('druhill'), ('druid'),
+    ('druids'), ('drum'), ('drumandbass'), ('drumbass'), ('drumbeat'), ('drumdrum'), ('drumer'), ('drumline'),
+    ('drumme'), ('drummer'), ('drummerb'), ('drummers'), ('drumming'), ('drummond'), ('drumms'), ('drumnbas'),
+    ('drumnbass'), ('drums'), ('drumset'), ('drumss'), ('drunk'), ('drunkard'), ('drunken'), ('drunks'),
+    ('drusilla'), ('druss'), ('druuna'), ('drwho'), ('dryden'), ('dryfly'), ('drywall'), ('ds7zamnw'),
+    ('dsade'), ('dsadsa'), ('dsaewq'), ('dsds'), ('dsdsds'), ('dsfdsf'), ('dshade'), ('dslack'),
+    ('dsmith'), ('dsnfksr'), ('dsnine'), ('dsobwick'), ('dstars'), ('dt58sck'), ('dtctkmxfr'), ('dtcyeirf'),
+    ('dtdtdt'), ('dte4uw'), ('dtheyxbr'), ('dthjxrf'), ('dthjybrf'), ('dthjybxrf'), ('dthyjcnm'), ('dtkjcbgtl'),
+    ('dtlmvf'), ('dtnfkm'), ('dtnthbyfh'), ('dtrain'), ('dtxyjcnm'), ('dtybfvby'), ('dtynbkznjh'), ('dtythf'),
+    ('dually'), ('duan'), ('duane'), ('duarte'), ('dubai'), ('dubbie'), ('dubesor'), ('dublin'),
+    ('dubois'), ('dubstep'), ('dubuque'), ('ducados'), ('ducat'), ('ducati'), ('duce'), ('duchess'),
+    ('duck'), ('duckbutt'), ('duckduck'), ('ducker'), ('duckey'), ('duckhead'), ('duckhunt'), ('duckie'),
+    ('duckies'), ('duckling'), ('duckman'), ('duckpond'), ('ducks'), ('ducksoup'), ('ducky'), ('ductile'),
+    ('ducttape'), ('dudder'), ('dude'), ('dudedude'), ('dudelove'), ('dudeman'), ('duder'), ('dudes'),
+    ('dudess'), ('dudester'), ('dudley'), ('dudnik'), ('dudu'), ('dududu'), ('duduka'), ('due911q'),
+    ('duece'), ('duecebox'), ('duende'), ('duetto'), ('duff'), ('duffbeer'), ('duffel'), ('duffer'),
+    ('duffie'), ('duffman'), ('duffy'), ('duffydog'), ('dufresne'), ('dufus'), ('dugan'), ('duggan'),
+    ('dugout'), ('dugway'), ('duhast'), ('duhduh'), ('duilio'), ('duisburg'), ('duke'), ('duke3d'),
+    ('dukeblue'), ('dukedog'), ('dukeduke'), ('dukeman'), ('dukenuke'), ('dukenukem'), ('dukers'), ('dukes'),
+    ('dukester'), ('dukey'), ('dukies'), ('dulce'), ('dulcinea'), ('dulles'), ('duluth'), ('dumars'),
+    ('dumass'), ('dumb'), ('dumbass'), ('dumbdumb'), ('dumber'), ('dumbfuck'), ('dumbo'), ('dumbshit'),
+    ('dumdum'), ('dumitru'), ('dummer'), ('dummie'), ('dummies'), ('dummy'), ('dummys'), ('dumont'),
+    ('dump'), ('dumper'), ('dumplin'), ('dumpling'), ('dumpster'), ('dumptruck'), ('dumpty'), ('dumpy'),
+    ('dun6sm'), ('dunamis'), ('dunbar'), ('dunca'), ('duncan'), ('dundas'), ('dundee'), ('dunduk'),
+    ('dundun'), ('dune'), ('dunedin'), ('dungeon'), ('dunham'), ('dunhill'), ('dunk'), ('dunkan'),
+    ('dunker'), ('dunkin'), ('dunlap'), ('dunlop'), ('dunn'), ('dunno'), ('dunnowho89'), ('dunwoody'),
+    ('dupa'), ('dupadupa'), ('duper'), ('duplex'), ('duplicate'), ('dupont'), ('dupree'), ('durable'),
+    ('duracell'), ('duramax'), ('duran'), ('durand'), ('durandal'), ('duranduran'), ('durango'), ('durant'),
+    ('durban'), ('durden'), ('durdom'), ('durex'), ('durham'), ('durian'), ('durkin'), ('duro'),
+    ('dust'), ('dustbin'), ('dusted'), ('duster'), ('dusti'), ('dustin'), ('dustman'), ('dustoff'),
+    ('dusty'), ('dustyboy'), ('dustydog'), ('dutch'), ('dutchboy'), ('dutches'), ('dutchess'), ('dutchie'),
+    ('dutchman'), ('dutchy'), ('dutton'), ('duty'), ('duval'), ('duvall'), ('duvvvvvy'), ('dvader'),
+    ('dvdcom'), ('dvddvd'), ('dvdrom'), ('dvorak'), ('dvtcntyfdctulf'), ('dwarf'), ('dwayne'), ('dwdrums'),
+    ('dweeb'), ('dweezil'), ('dwell'), ('dwells'), ('dwight'), ('dwilla'), ('dwml9f'), ('dxtmsft'),
+    ('dyanna'), ('dybvfybt'), ('dyexrf'), ('dying'), ('dyke'), ('dylan'), ('dylandog'), ('dylans'),
+    ('dynamic'), ('dynamics'), ('dynamite'), ('dynamo'), ('dynastar'), ('dynasty'), ('dyno'), ('dynomite'),
+    ('dynxyu'), ('dzakuni'), ('dzdzdzdz'), ('dziadzia'), ('dzxtckfd'), ('e1l2e3n4a5'), ('e280bis'), ('e2fq7fzj'),
+    ('e5pftu'), ('e6pz84qfcj'), ('e6z8jh'), ('eadgbe'), ('eager'), ('eagle'), ('eagleeye'), ('eagleman'),
+    ('eagleone'), ('eagles'), ('eamonn'), ('eanut'), ('earl'), ('earlgrey'), ('earlmill'), ('early'),
+    ('earnest'), ('earnhard'), ('earnhardt'), ('earnhart'), ('earring'), ('ears'), ('earth'), ('earthlin'),
+    ('earthlink'), ('earthquake'), ('earthy'), ('earwax'), ('earwig'), ('easier'), ('easley'), ('easports'),
+    ('east'), ('eastbay'), ('easter'), ('eastern'), ('eastham'), ('eastlake'), ('easton'), ('eastpak'),
+    ('eastside'), ('eastwest'), ('eastwood'), ('easy'), ('easyeasy'), ('easyed'), ('easygo'), ('easylife'),
+    ('easynews'), ('easyonmy'), ('easypass'), ('easypay'), ('easyride'), ('easyrider'), ('eatadick'), ('eatass'),
+    ('eatcum'), ('eatcunt'), ('eateat'), ('eater'), ('eaters'), ('eather'), ('eating'), ('eatit'),
+    ('eatme'), ('eatmeat'), ('eatmee'), ('eatmenow'), ('eatmeraw'), ('eatmyass'), ('eatmycum'), ('eaton'),
+    ('eatpie'), ('eatpuss'), ('eatpussy'), ('eats'), ('eatshit'), ('eatthis'), ('ebbs'), ('ebenezer'),
+    ('ebirtog'), ('ebonee'), ('ebony'), ('eccles'), ('echelon'), ('echidna'), ('echo'), ('echoecho'),
+    ('echoes'), ('echostar'), ('eckerd'), ('eclair'), ('eclectic'), ('eclips'), ('eclipse'), ('ecnirp'),
+    ('econom'), ('economia'), ('economic'), ('economics'), ('economist'), ('economy'), ('ecosse'), ('ecstacy'),
+    ('ecstasy'), ('ecuado'), ('ecuador'), ('ecurb'), ('ecwecw'), ('edcba'), ('edcrfv'), ('edcvfr'),
+    ('edcwsxqaz'), ('eddie'), ('eddieboy'), ('eddies'), ('eddings'), ('eddy'), ('eded'), ('ededed'),
+    ('edededed'), ('edelveis'), ('edelweis'), ('eden'), ('edgar'), ('edgard'), ('edgars'), ('edge'),
+    ('edgehill'), ('edgerton'), ('edgewise'), ('edgewood'), ('edibey'), ('edifier'), ('edinburg'), ('edinburgh'),
+    ('edinorog'), ('edisni'), ('edison'), ('edit'), ('edith'), ('edition'), ('editor'), ('edmond'),
+    ('edmonds'), ('edmonton'), ('edmund'), ('edmundo'), ('edna'), ('edoardo'), ('edouard'), ('edthom'),
+    ('eduard'), ('eduardo'), ('educatio'), ('education'), ('edvard'), ('edwar'), ('edward'), ('edwardcullen'),
+    ('edwardo'), ('edwards'), ('edwardss'), ('edwin'), ('edwina'), ('eeee'), ('eeeee'), ('eeeeee'),
+    ('eeeeeee'), ('eeeeeeee'), ('eeeeeeeee'), ('eetfuk'), ('eeyore'), ('efbcapa201'), ('effect'), ('effects'),
+    ('effie'), ('efgh'), ('efremov'), ('efremova'), ('efwe5tgwa5twhgd'), ('efyreg'), ('egbert'), ('eggbert'),
+    ('eggert'), ('egghead'), ('eggjuice'), ('eggman'), ('eggnog'), ('eggplant'), ('eggroll'), ('eggs'),
+    ('eggseggs'), ('eghfdktybt'), ('egipto'), ('egoist'), ('egoiste'), ('egon'), ('egor'), ('egoregor'),
+    ('egorka'), ('egorov'), ('egorova'), ('egroeg')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('egwene'), ('egypt'), ('egypte'), ('egyptian'), ('ehcrew'), ('ehidkbd'), ('eider'), ('eieio'),
+    ('eieiou'), ('eiffel'), ('eight'), ('eightbal'), ('eightball'), ('eighteen'), ('eights'), ('eighty'),
+    ('eileen'), ('eingang'), ('einnor'), ('einstei'), ('einstein'), ('einstien'), ('eintrach'), ('eintracht'),
+    ('eintritt'), ('eire'), ('eisbaer'), ('eisregen'), ('eistee'), ('ejaculation'), ('eject'), ('ekaj'),
+    ('ekaterina'), ('ekaterina20'), ('ekbnrf'), ('ekilpool'), ('ekim'), ('ekimekim'), ('eklhigcz'), ('ekmzyf'),
+    ('eknock'), ('ekx1x3k9bs'), ('eladio'), ('elain'), ('elaina'), ('elaine'), ('elaman'), ('elan'),
+    ('elanor'), ('elantra'), ('elastic'), ('elate'), ('elates_y'), ('elayne'), ('elbarto'), ('elbereth'),
+    ('elbert'), ('elbow'), ('elbows'), ('elcamino'), ('elcid'), ('eldar'), ('elder'), ('eldest'),
+    ('eldiablo'), ('eldon'), ('eldora'), ('eldorado'), ('eldridge'), ('eldritch'), ('eleanor'), ('election'),
+    ('electr'), ('electra'), ('electri'), ('electric'), ('electrical'), ('electro'), ('electron'), ('electronic'),
+    ('electronics'), ('elefant'), ('elefante'), ('elegance'), ('elegant'), ('elektra'), ('elektrik'), ('elektro'),
+    ('elemen'), ('element'), ('elementa'), ('elemental'), ('elements'), ('elena'), ('elenas'), ('elenberg'),
+    ('elendil'), ('elene'), ('eleni'), ('eleniko'), ('elenka'), ('elenor'), ('eleonor'), ('eleonora'),
+    ('elephan'), ('elephant'), ('elephants'), ('elessar'), ('elevatio'), ('elevation'), ('elevator'), ('eleven'),
+    ('elflord'), ('elfman'), ('elfquest'), ('elfriede'), ('elfstone'), ('elgato'), ('elgin'), ('elgordo'),
+    ('elguapo'), ('elia'), ('elian'), ('eliana'), ('eliane'), ('elias'), ('elieli'), ('eliezer'),
+    ('elijah'), ('elina'), ('elinor'), ('eliot'), ('elisa'), ('elisabet'), ('elisabeth'), ('elise'),
+    ('eliseev'), ('elisha'), ('elissa'), ('eliston'), ('elite'), ('elites'), ('elixir'), ('eliz'),
+    ('eliza'), ('elizabe'), ('elizabet'), ('elizabeth'), ('elizabeth1'), ('elizavet'), ('elizaveta'), ('eljefe'),
+    ('elkabong'), ('elke'), ('elkhart'), ('ella'), ('ellada'), ('elland'), ('elle'), ('ellehcim'),
+    ('ellen'), ('ellens'), ('elli'), ('ellie'), ('elliedog'), ('elliemae'), ('ellina'), ('elliot'),
+    ('elliott'), ('ellis'), ('ellison'), ('ellobo'), ('elloco'), ('ellswort'), ('ellsworth'), ('ellwood'),
+    ('elmago'), ('elmejor'), ('elmer'), ('elmerfud'), ('elmers'), ('elmira'), ('elmo'), ('elmoelmo'),
+    ('elmore'), ('elmwood'), ('elnino'), ('elocin'), ('elodi'), ('elodie'), ('elohim'), ('eloisa'),
+    ('eloise'), ('elpaso'), ('elric'), ('elrond'), ('elroy'), ('elsa'), ('elsaelsa'), ('elsalvador'),
+    ('elsie'), ('elsinore'), ('elsled'), ('elspeth'), ('elsworth'), ('eltigre'), ('elton'), ('eltons'),
+    ('eltoro'), ('elusive'), ('elves'), ('elvi'), ('elvin'), ('elvina'), ('elvir'), ('elvira'),
+    ('elvis'), ('elvisliv'), ('elvisp'), ('elviss'), ('elway'), ('elwood'), ('elysium'), ('elzorro'),
+    ('emachine'), ('emachines'), ('email'), ('emails'), ('eman'), ('emanon'), ('emanue'), ('emanuel'),
+    ('emanuela'), ('emanuele'), ('embalm'), ('embalmer'), ('embark'), ('embassy'), ('ember'), ('embers'),
+    ('emblem'), ('embrace'), ('emely'), ('emeral'), ('emerald'), ('emeralds'), ('emergenc'), ('emergency'),
+    ('emerica'), ('emerso'), ('emerson'), ('emery'), ('emiguo'), ('emil'), ('emile'), ('emilee'),
+    ('emili'), ('emilia'), ('emilian'), ('emiliano'), ('emilie'), ('emilio'), ('emilka'), ('emily'),
+    ('emilyann'), ('emilyany'), ('emilyb'), ('emilyg'), ('emilys'), ('emin'), ('emine'), ('eminem'),
+    ('emirates'), ('emit'), ('emma'), ('emmaemma'), ('emmajane'), ('emmalee'), ('emmalou'), ('emmanue'),
+    ('emmanuel'), ('emmapeel'), ('emmarose'), ('emmaus'), ('emmett'), ('emmi'), ('emmit'), ('emmitt'),
+    ('emmons'), ('emmy'), ('emmylou'), ('emoboy'), ('emocore'), ('emoemo'), ('emokid'), ('emoney'),
+    ('emory'), ('emotion'), ('emotional'), ('emotions'), ('empacher'), ('empathy'), ('emperor'), ('empir'),
+    ('empire'), ('empires'), ('employee'), ('emporio'), ('emporium'), ('empower'), ('empress'), ('empty'),
+    ('emulator'), ('emyeuanh'), ('enable'), ('enamorad'), ('encarta'), ('enchante'), ('enclave'), ('encore'),
+    ('encounte'), ('encounter'), ('endeavor'), ('ender'), ('enders'), ('endgame'), ('ending'), ('endless'),
+    ('endure'), ('enduro'), ('endymion'), ('endzone'), ('enemy'), ('energ'), ('energia'), ('energie'),
+    ('energize'), ('energizer'), ('energy'), ('enfant'), ('enfield'), ('enforcer'), ('enfuego'), ('engage'),
+    ('engaged'), ('engel'), ('engels'), ('engeltje'), ('engine'), ('enginee'), ('engineer'), ('engineering'),
+    ('engines'), ('englan'), ('england'), ('english'), ('enhanced'), ('enigm'), ('enigma'), ('enjoy'),
+    ('enjoyit'), ('enkeli'), ('enkidu'), ('enlarge'), ('enlighte'), ('enolagay'), ('enomis'), ('enormous'),
+    ('enough'), ('enric'), ('enrico'), ('enriqu'), ('enrique'), ('ensemble'), ('ensign'), ('entele'),
+    ('enter'), ('entered'), ('enterent'), ('entering'), ('enterme'), ('enternow'), ('enterpri'), ('enterprise'),
+    ('enterr'), ('enters'), ('entertai'), ('entertain'), ('entertainment'), ('entity'), ('entrada'), ('entrance'),
+    ('entrar'), ('entre'), ('entree'), ('entrez'), ('entropy'), ('entry'), ('envelope'), ('envision'),
+    ('enzo'), ('enzyme'), ('epaulson'), ('epervier'), ('ephraim'), ('epic'), ('epidemia'), ('epiphany'),
+    ('epiphone'), ('episode'), ('epoch'), ('epping'), ('epsilon'), ('epson'), ('epstein'), ('eqes606898'),
+    ('equal'), ('equate'), ('equine'), ('equinox'), ('equity'), ('eragon'), ('erase'), ('eraser'),
+    ('erasmus'), ('erasure'), ('erathia'), ('erbol'), ('ercole'), ('erdfcv'), ('erdna'), ('erebus'),
+    ('erect'), ('erection'), ('ereiamjh'), ('eremeev'), ('eremin'), ('erer'), ('ererer'), ('erererer'),
+    ('erevan'), ('ereyes4269'), ('erfolg'), ('erfurt'), ('erhfbyf'), ('eric'), ('erica'), ('ericcc'),
+    ('ericeric'), ('erich'), ('erick'), ('ericka'), ('erickson'), ('ericson'), ('ericsso'), ('ericsson'),
+    ('eriepa'), ('erik'), ('erika'), ('erikerik'), ('eriksson'), ('erin'), ('erinerin'), ('erkebulan'),
+    ('erkin'), ('erkina'), ('erlan'), ('erling'), ('ermakov'), ('ermakova'), ('ermine'), ('ern3sto'),
+    ('ernes'), ('ernest'), ('ernesto'), ('ernie'), ('ernies'), ('ernst'), ('erocdrah'), ('eroero'),
+    ('eroica'), ('eros'), ('eroseros'), ('erotic'), ('erotica'), ('erotik'), ('erotika'), ('errata'),
+    ('erreway'), ('errol'), ('error'), ('errors'), ('ersatz'), ('ershov'), ('erskine'), ('ertert'),
+    ('erty'), ('ertyu'), ('ertyui'), ('ertyuiop')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('erudite'), ('erunda'), ('eruption'), ('ervin'), ('erving'), ('erwin'), ('es206en'), ('esbjerg'),
+    ('escada'), ('escaflowne'), ('escalade'), ('escapade'), ('escape'), ('escargot'), ('escher'), ('esco'),
+    ('escobar'), ('escola'), ('escondido'), ('escorpi'), ('escorpio'), ('escorpion'), ('escort'), ('escorts'),
+    ('escrima'), ('escrow'), ('esenin'), ('eshesh'), ('eshort'), ('eskimo'), ('esmerald'), ('esmeralda'),
+    ('esmith'), ('esoteric'), ('espace'), ('espada'), ('espagne'), ('espana'), ('espanol'), ('especial'),
+    ('esperanto'), ('esperanz'), ('esperanza'), ('espero'), ('espinosa'), ('espinoza'), ('espire'), ('espiritu'),
+    ('espn'), ('espoir'), ('esposito'), ('espraber'), ('espresso'), ('esprit'), ('esquire'), ('essayons'),
+    ('esselte'), ('essen'), ('essence'), ('essendon'), ('essentia'), ('essential'), ('essex'), ('estate'),
+    ('esteba'), ('esteban'), ('esteem'), ('estefan'), ('estefani'), ('estefania'), ('estel'), ('estela'),
+    ('estell'), ('estella'), ('estelle'), ('ester'), ('estes'), ('esthe'), ('esther'), ('estonia'),
+    ('estoppel'), ('estrada'), ('estrange'), ('estreet'), ('estrela'), ('estrell'), ('estrella'), ('estrellit'),
+    ('etalon'), ('etaylor'), ('eternal'), ('eternit'), ('eternity'), ('etetet'), ('ethan'), ('ethel'),
+    ('ether'), ('ethereal'), ('ethereum'), ('ethernet'), ('ethics'), ('ethiopia'), ('etienne'), ('etketk'),
+    ('etnies'), ('etoile'), ('etower'), ('etrigan'), ('ettore'), ('etud'), ('etude'), ('euclid'),
+    ('eudora'), ('eugen'), ('eugene'), ('eugeni'), ('eugenia'), ('eugenie'), ('eugenio'), ('eulacomplete'),
+    ('eumeamo'), ('eumesmo'), ('eunice'), ('euphoniu'), ('euphoria'), ('eurek'), ('eureka'), ('euro'),
+    ('eurocard'), ('euroline'), ('europ'), ('europa'), ('europe'), ('european'), ('eurostar'), ('eusebio'),
+    ('euskadi'), ('euteamo'), ('evad'), ('evaeva'), ('evaluate'), ('evamaria'), ('evan'), ('evander'),
+    ('evanescence'), ('evangeli'), ('evangeline'), ('evangelion'), ('evans'), ('evanston'), ('evdokimov'), ('eveli'),
+    ('evelin'), ('evelina'), ('eveline'), ('evely'), ('evelyn'), ('evenflow'), ('evening'), ('evenpar'),
+    ('evenstar'), ('event'), ('eventlog'), ('events'), ('ever'), ('everclea'), ('everest'), ('everett'),
+    ('evergree'), ('evergreen'), ('everlast'), ('everlong'), ('evermore'), ('everques'), ('everquest'), ('everto'),
+    ('everton'), ('evertonf'), ('evertonfc'), ('every'), ('everybody'), ('everyday'), ('everyone'), ('everythi'),
+    ('everything'), ('evets'), ('evette'), ('evgen'), ('evgeni'), ('evgenia'), ('evgenii'), ('evgenij'),
+    ('evgeniy'), ('evgeniya'), ('evgeny'), ('evgesha'), ('evidence'), ('evie'), ('evil'), ('evildead'),
+    ('evilevil'), ('evileye'), ('evilive'), ('evillive'), ('evilone'), ('evinrude'), ('evita'), ('evol'),
+    ('evolutio'), ('evolution'), ('evolve'), ('evrika'), ('evropa'), ('evseeva'), ('ewanko'), ('ewelina'),
+    ('ewelinka'), ('ewing'), ('ewqdsacxz'), ('ewqewq'), ('ewqewqewq'), ('ewtosi'), ('ewyuza'), ('examiner'),
+    ('example'), ('exarkun'), ('exbntkm'), ('excalibe'), ('excaliber'), ('excalibu'), ('excalibur'), ('exceed'),
+    ('excel'), ('excell'), ('excellen'), ('excellence'), ('excellent'), ('excelsio'), ('excelsior'), ('except'),
+    ('excess'), ('exchange'), ('excite'), ('excited'), ('exciteme'), ('exciter'), ('exciting'), ('exclusiv'),
+    ('exclusive'), ('execute'), ('executiv'), ('executive'), ('executor'), ('exercise'), ('exeter'), ('exhale'),
+    ('exhaust'), ('exigen'), ('exigent'), ('exile'), ('exiles'), ('existenz'), ('exit'), ('exocet'),
+    ('exodus'), ('exorcist'), ('exotic'), ('exotica'), ('expand'), ('expediti'), ('expedition'), ('experience'),
+    ('experienced'), ('expert'), ('expired'), ('explicit'), ('explode'), ('exploite'), ('exploiter'), ('explor'),
+    ('explore'), ('explorer'), ('explosion'), ('explosiv'), ('expo'), ('export'), ('expos'), ('exposed'),
+    ('exposure'), ('expres'), ('express'), ('expresso'), ('extacy'), ('extasy'), ('extensa'), ('extent'),
+    ('external'), ('extra'), ('extras'), ('extrem'), ('extreme'), ('extremes'), ('exxon'), ('eybdth'),
+    ('eybdthcbntn'), ('eyeball'), ('eyeballs'), ('eyebrow'), ('eyecandy'), ('eyedoc'), ('eyeless'), ('eyelid'),
+    ('eyes'), ('eyesonly'), ('eyespy'), ('eyphed'), ('ezcleo'), ('ezekiel'), ('ezequiel'), ('ezmoney'),
+    ('ezra'), ('ezrider'), ('f**k'), ('f00b4r'), ('f00bar'), ('f00tball'), ('f14tomca'), ('f14tomcat'),
+    ('f15eagle'), ('f1atus'), ('f22raptor'), ('f64579820f'), ('f8yruxoj'), ('f9lmwd'), ('faaxma'), ('faber'),
+    ('faberlic'), ('fabfive'), ('fabfour'), ('fabi'), ('fabia'), ('fabian'), ('fabiana'), ('fabiano'),
+    ('fabie'), ('fabien'), ('fabienn'), ('fabienne'), ('fabio'), ('fabiol'), ('fabiola'), ('fabius'),
+    ('fabolous'), ('fabregas'), ('fabric'), ('fabrice'), ('fabrika'), ('fabrizi'), ('fabrizio'), ('fabulous'),
+    ('facade'), ('face'), ('face2face'), ('faceboo'), ('facebook'), ('faceface'), ('facefuck'), ('faceit'),
+    ('facelift'), ('faceman'), ('faceoff'), ('faces'), ('facesit'), ('facial'), ('facials'), ('facile'),
+    ('fackoff'), ('fackyou'), ('factor'), ('factory'), ('fadi'), ('faerie'), ('fafa'), ('fafafa'),
+    ('fafnir'), ('fafyfcbq'), ('fafyfcmtd'), ('fagboy'), ('fagget'), ('faggot'), ('fagott'), ('fagsman'),
+    ('fahayek'), ('fahbrf'), ('fahjlbnf'), ('failed'), ('failsafe'), ('failte'), ('failure'), ('fair'),
+    ('fairchil'), ('fairfax'), ('fairfiel'), ('fairlady'), ('fairlane'), ('fairless'), ('fairmont'), ('fairplay'),
+    ('fairport'), ('fairview'), ('fairway'), ('fairy'), ('fairytail'), ('faisal'), ('faisalabad'), ('faith'),
+    ('faithful'), ('faithless'), ('faiths'), ('faithy'), ('fajita'), ('fake'), ('fakefake'), ('fakename'),
+    ('fakepass'), ('faktor'), ('falco'), ('falcon'), ('falcone'), ('falconer'), ('falcons'), ('falcor'),
+    ('faldo'), ('falken'), ('falkland'), ('fall'), ('fallacy'), ('fallen'), ('fallenangel'), ('fallengun'),
+    ('falling'), ('fallon'), ('fallout'), ('falloutboy'), ('falls'), ('falmouth'), ('false'), ('falstaff'),
+    ('famil'), ('famili'), ('familia'), ('familie'), ('famille'), ('family'), ('familygu'), ('familyguy'),
+    ('famine'), ('famous'), ('fanatic'), ('fanatik'), ('fanboy'), ('fanclub'), ('fancy'), ('fandango'),
+    ('fandorin'), ('fanfan'), ('fanfare'), ('fang'), ('fangio'), ('fann'), ('fannie'), ('fannies'),
+    ('fanny'), ('fansrus'), ('fanta'), ('fantan'), ('fantas'), ('fantasi'), ('fantasia'), ('fantasie'),
+    ('fantasies'), ('fantasm'), ('fantasma'), ('fantasti'), ('fantastic'), ('fantasy'), ('fantasys'), ('fantazy'),
+    ('fantik'), ('fantom'), ('fantomas'), ('fantomen'), ('faqfaq'), ('fara'), ('faraday'), ('farah'),
+    ('faramir'), ('faraon'), ('faraway'), ('farber')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('farcry'), ('farewell'), ('farfalla'), ('farfar'), ('farfel'), ('fargo'), ('fargus'), ('farhad'),
+    ('farhan'), ('farhana'), ('farid'), ('farida'), ('farina'), ('fariza'), ('farkas'), ('farkle'),
+    ('farley'), ('farm'), ('farmacia'), ('farmall'), ('farmboy'), ('farme'), ('farmer'), ('farmers'),
+    ('farmhous'), ('farming'), ('farmland'), ('farooq'), ('farouk'), ('farout'), ('farra'), ('farrah'),
+    ('farrar'), ('farrell'), ('farrier'), ('farris'), ('farrow'), ('farscape'), ('farside'), ('fart'),
+    ('farted'), ('farter'), ('fartface'), ('fartfart'), ('farthead'), ('farting'), ('fartman'), ('fartripper'),
+    ('farts'), ('fartuna'), ('farzana'), ('fashion'), ('fashist'), ('fassenoc'), ('fast'), ('fastback'),
+    ('fastball'), ('fastcar'), ('fastcars'), ('fastdraw'), ('fasted'), ('fasteddi'), ('fasteddie'), ('faster'),
+    ('fastest'), ('fastfast'), ('fastfood'), ('fastford'), ('fastfred'), ('fastfun'), ('fastlane'), ('fastman'),
+    ('fastone'), ('fastporn'), ('fatal'), ('fatal1ty'), ('fatality'), ('fatass'), ('fatb0y'), ('fatback'),
+    ('fatbitch'), ('fatbo'), ('fatbob'), ('fatboy'), ('fatcat'), ('fatcock'), ('fatcow'), ('fatdaddy'),
+    ('fatdick'), ('fatdog'), ('fate'), ('fatfat'), ('fatfree'), ('fatfuck'), ('fatgirl'), ('fatgirls'),
+    ('fatguy'), ('fathe'), ('fathead'), ('father'), ('fathom'), ('fatim'), ('fatima'), ('fatima753357'),
+    ('fatjoe'), ('fatkid'), ('fatman'), ('fatmike'), ('fatone'), ('fatpig'), ('fatpussy'), ('fatrat'),
+    ('fats'), ('fatso'), ('fatter'), ('fattie'), ('fattire'), ('fatty'), ('faty'), ('faucet'),
+    ('faulkner'), ('fault'), ('faulty'), ('faust'), ('faustino'), ('fausto'), ('faustus'), ('favorit'),
+    ('favorite'), ('favorites'), ('favour'), ('favre'), ('faxman'), ('faxmodem'), ('faye'), ('fazer'),
+    ('fcazmj'), ('fcbarcelona'), ('fcbayern'), ('fcgbhby'), ('fckfck'), ('fcnfkfdbcnf'), ('fcnfyf'), ('fcporto'),
+    ('fctymrf'), ('fdcnhfkbz'), ('fdfdfd'), ('fdfnfh'), ('fdfsfaf'), ('fdfyufhl'), ('fdhfvbyrj'), ('fdhjhf'),
+    ('fdm7ed'), ('fdnjhbpfwbz'), ('fdnjvfn'), ('fdsa'), ('fdsaf'), ('fdsafdsa'), ('fdsf'), ('fduecn'),
+    ('fe126fd'), ('feanor'), ('fear'), ('fearless'), ('fearme'), ('fearthis'), ('feast'), ('feather'),
+    ('feathers'), ('feature'), ('februar'), ('february'), ('fedcba'), ('fede'), ('fedele'), ('federal'),
+    ('federer'), ('federic'), ('federica'), ('federico'), ('federov'), ('fedex'), ('fedor'), ('fedora'),
+    ('fedorenko'), ('fedorov'), ('fedorova'), ('fedotov'), ('fedya'), ('feeble'), ('feedback'), ('feeder'),
+    ('feedme'), ('feeds'), ('feefee'), ('feel'), ('feeler'), ('feelgood'), ('feeling'), ('feelings'),
+    ('feelme'), ('feeney'), ('feenix'), ('feet'), ('feetfeet'), ('feetlove'), ('feetman'), ('feets'),
+    ('fefefe'), ('fefolico'), ('felcher'), ('felder'), ('feldman'), ('feldspar'), ('felecia'), ('feli'),
+    ('felice'), ('felici'), ('felicia'), ('felicida'), ('felicidad'), ('felicidade'), ('felicita'), ('felicity'),
+    ('feliks'), ('felina'), ('feline'), ('felip'), ('felipe'), ('felix'), ('felixcat'), ('felixs'),
+    ('felixthe'), ('felixx'), ('felixxxx'), ('fellas'), ('fellatio'), ('feller'), ('fellini'), ('fellow'),
+    ('fellowes'), ('fellows'), ('felony'), ('felton'), ('female'), ('females'), ('femmes'), ('fence'),
+    ('fencer'), ('fences'), ('fencing'), ('fende'), ('fender'), ('fenerbahc'), ('fenerbahce'), ('feng'),
+    ('fengshui'), ('fenian'), ('fenice'), ('feniks'), ('fenix'), ('fennel'), ('fenomen'), ('fenomeno'),
+    ('fenrir'), ('fenris'), ('fenriz'), ('fenster'), ('fenton'), ('fenway'), ('fenwick'), ('ferari'),
+    ('ferarri'), ('ferch'), ('ferdi'), ('ferdie'), ('ferdinan'), ('ferdinand'), ('ferenc'), ('ferfer'),
+    ('fergie'), ('fergis'), ('fergo'), ('fergus'), ('ferguson'), ('ferien'), ('fermat'), ('ferment'),
+    ('fermer'), ('fermi'), ('fern'), ('fernan'), ('fernand'), ('fernanda'), ('fernande'), ('fernandes'),
+    ('fernandez'), ('fernando'), ('ferndale'), ('fernie'), ('fernwood'), ('ferrar'), ('ferrara'), ('ferrari'),
+    ('ferrari360'), ('ferrarif'), ('ferraris'), ('ferraro'), ('ferre'), ('ferreira'), ('ferrell'), ('ferrer'),
+    ('ferrero'), ('ferret'), ('ferrets'), ('ferrina'), ('ferris'), ('ferrum'), ('ferry'), ('fest'),
+    ('fester'), ('festina'), ('festiva'), ('festival'), ('festus'), ('fetch'), ('fetisch'), ('fetish'),
+    ('fetishes'), ('fett'), ('fetter'), ('fettish'), ('fetus'), ('feuerweh'), ('feuerwehr'), ('fever'),
+    ('fevers'), ('fevral'), ('fewer'), ('feyenoor'), ('feyenoord'), ('feynman'), ('ffej'), ('ffff'),
+    ('fffff'), ('ffffff'), ('fffffff'), ('ffffffff'), ('fffffffff'), ('ffffffffff'), ('ffggyyo'), ('ffviii'),
+    ('fgdfgdfg'), ('fgfgfg'), ('fggjkbyfhbz'), ('fghbjhb'), ('fghfgh'), ('fghghgh'), ('fghj'), ('fghjfghj'),
+    ('fghjk'), ('fghjkl'), ('fghtkm'), ('fgjcnjk'), ('fgjkbyfhbz'), ('fgjrfkbgcbc'), ('fgntrf'), ('fgtkmcby'),
+    ('fgtkmcbyrf'), ('fgtkmcbyxbr'), ('fh18p2ss'), ('fhbirf'), ('fhbyjxrf'), ('fhctybq'), ('fhifdby'), ('fhnehbr'),
+    ('fhnehxbr'), ('fhntvbq'), ('fhntvjy'), ('fhntvrf'), ('fhrflbq'), ('fhutynbyf'), ('fhvfutljy'), ('fhyjkml'),
+    ('fialka'), ('fianna'), ('fiasco'), ('fiat'), ('fibber'), ('fiber'), ('fibers'), ('fibonacci'),
+    ('fica'), ('fick'), ('fickdich'), ('ficke'), ('ficken'), ('ficker'), ('fickle'), ('ficktjuv'),
+    ('fiction'), ('fiddle'), ('fiddler'), ('fidel'), ('fidelio'), ('fidelis'), ('fidelity'), ('fidget'),
+    ('fido'), ('fidodido'), ('fidofido'), ('fids'), ('field'), ('fielding'), ('fields'), ('fieldy'),
+    ('fiend'), ('fiendish'), ('fierce'), ('fiero'), ('fieruld'), ('fiesta'), ('fietsbel'), ('fifa'),
+    ('fifafifa'), ('fifi'), ('fififi'), ('fifififi'), ('fifnfy'), ('fifteen'), ('fifth'), ('fifty'),
+    ('figa'), ('figafiga'), ('figaro'), ('fight'), ('fightclu'), ('fightclub'), ('fighter'), ('fighters'),
+    ('fighting'), ('fighting54'), ('fighton'), ('fights'), ('figjam'), ('figment'), ('fignewto'), ('figona'),
+    ('figtree'), ('figueroa'), ('figure'), ('figvam'), ('fihdfv'), ('fiji'), ('fila'), ('filatov'),
+    ('filatova'), ('filbert'), ('filch'), ('file'), ('files'), ('filial'), ('filibert'), ('filimon'),
+    ('filip'), ('filipe'), ('filipina'), ('filipino'), ('filipok'), ('filipp'), ('filippo'), ('filippov'),
+    ('fill'), ('filler'), ('filles'), ('filling'), ('fillmeup'), ('fillmore'), ('filly'), ('film'),
+    ('films'), ('filmstar'), ('filo'), ('filofax'), ('filomena'), ('filter'), ('filters'), ('filth'),
+    ('filthy'), ('final'), ('finalcut'), ('finale'), ('finalfan'), ('finalfantasy'), ('finally'), ('finals'),
+    ('finance'), ('financia'), ('financial'), ('finbar')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('finch'), ('fincher'), ('find'), ('findaupair007'), ('finder'), ('finding'), ('findit'), ('findlay'),
+    ('findme'), ('findou'), ('findout'), ('findus'), ('fine'), ('fineass'), ('finesse'), ('finest'),
+    ('finfin'), ('finger'), ('fingers'), ('fingolfin'), ('finish'), ('finished'), ('finite'), ('fink'),
+    ('finland'), ('finlay'), ('finley'), ('finn'), ('finnegan'), ('finney'), ('finnish'), ('finnland'),
+    ('finster'), ('fiocco'), ('fiona'), ('fiorell'), ('fiorella'), ('fiorentina'), ('firdaus'), ('fire'),
+    ('firearms'), ('firebal'), ('fireball'), ('firebir'), ('firebird'), ('fireblad'), ('fireblade'), ('fireboy'),
+    ('firebug'), ('firecat'), ('fired'), ('firedawg'), ('firedept'), ('firedog'), ('firefall'), ('firefigh'),
+    ('firefighter'), ('firefire'), ('firefly'), ('firefox'), ('firegod'), ('firehawk'), ('firehose'), ('firehous'),
+    ('firehouse'), ('fireice'), ('firelord'), ('firema'), ('fireman'), ('firenze'), ('fireplug'), ('fires'),
+    ('fireside'), ('firestar'), ('firestarter'), ('fireston'), ('firestor'), ('firestorm'), ('firetrap'), ('firetruc'),
+    ('firetruck'), ('firewalk'), ('firewall'), ('firewate'), ('firewave'), ('firewire'), ('firewolf'), ('firewood'),
+    ('firework'), ('fireworks'), ('firhill'), ('firing'), ('firkin'), ('firm'), ('firsova'), ('first'),
+    ('firstaid'), ('firstone'), ('firstone123'), ('firstson'), ('firsttim'), ('firsttime'), ('fiscal'), ('fisch'),
+    ('fische'), ('fischer'), ('fish'), ('fishbait'), ('fishbone'), ('fishbowl'), ('fishboy'), ('fishbulb'),
+    ('fishcake'), ('fishdog'), ('fishe'), ('fishead'), ('fisher'), ('fisherma'), ('fisherman'), ('fishers'),
+    ('fishes'), ('fishey'), ('fisheye'), ('fishface'), ('fishfinger'), ('fishfish'), ('fishfood'), ('fishfry'),
+    ('fishhead'), ('fishhook'), ('fishie'), ('fishies'), ('fishin'), ('fishing'), ('fishka'), ('fishlips'),
+    ('fishman'), ('fishnet'), ('fishon'), ('fishpond'), ('fishstic'), ('fishstix'), ('fishtank'), ('fishy'),
+    ('fisse'), ('fission'), ('fist'), ('fister'), ('fistfuck'), ('fisting'), ('fitch'), ('fitnes'),
+    ('fitness'), ('fitta'), ('fittan'), ('fitte'), ('fittec'), ('fitter'), ('fitz'), ('fitzer'),
+    ('fitzgera'), ('fitzgerald'), ('fitzroy'), ('five'), ('fivefive'), ('fivehole'), ('fiveiron'), ('fivekids'),
+    ('fiver'), ('fivestar'), ('fiveten'), ('fixed'), ('fixit'), ('fixitman'), ('fixture'), ('fixxxer'),
+    ('fizban'), ('fizika'), ('fizzle'), ('fjdksl'), ('fjfjfj'), ('fk8bhydb'), ('fkbcrf'), ('fkbyjxrf'),
+    ('fkbyrf'), ('fkg7h4f3v6'), ('fkmabz'), ('fkmnfbh'), ('fkmnthyfnbdf'), ('fkojn6gb'), ('fkrjujkbr'), ('fktdnbyf'),
+    ('fktirf'), ('fktrcf'), ('fktrcfirf'), ('fktrcfyl'), ('fktrcfylh'), ('fktrcfylh1'), ('fktrcfylhf'), ('fktrcfylhjd'),
+    ('fktrcfylhjdbx'), ('fktrcfylhjdf'), ('fktrcfylhjdyf'), ('fktrcfylth'), ('fktrctq'), ('fktrcttd'), ('fktrcttdf'), ('fktyeirf'),
+    ('fktyjxrf'), ('fktyrf'), ('fl4rg3n'), ('flabby'), ('flack'), ('flag'), ('flagman'), ('flagpole'),
+    ('flags'), ('flagship'), ('flagstaf'), ('flair'), ('flake'), ('flakes'), ('flakey'), ('flam'),
+    ('flame'), ('flameboy'), ('flamenco'), ('flameng'), ('flamengo'), ('flameon'), ('flamer'), ('flames'),
+    ('flaming'), ('flamingo'), ('flanders'), ('flange'), ('flanker'), ('flannel'), ('flanner'), ('flannery'),
+    ('flap'), ('flapjack'), ('flapper'), ('flappy'), ('flapwnage'), ('flaquit'), ('flare'), ('flash'),
+    ('flashbac'), ('flasher'), ('flashes'), ('flashg'), ('flashlight'), ('flashman'), ('flashme'), ('flashnet'),
+    ('flashpoint'), ('flashy'), ('flat'), ('flatbed'), ('flatboat'), ('flatbush'), ('flathead'), ('flatiron'),
+    ('flatland'), ('flatline'), ('flatro'), ('flatron'), ('flattop'), ('flatus'), ('flavi'), ('flavia'),
+    ('flavio'), ('flavor'), ('flavour'), ('flawless'), ('flblfc'), ('fldjrfn'), ('flea'), ('fleabag'),
+    ('fleck'), ('flee'), ('fleece'), ('fleet'), ('fleets'), ('fleetwoo'), ('fleetwood'), ('fleming'),
+    ('flemming'), ('flesh'), ('fleshbot'), ('fleshy'), ('fletch'), ('fletcher'), ('fleur'), ('fleury'),
+    ('flex'), ('flexflex'), ('flexible'), ('flexscan'), ('flhrci'), ('flhtyfkby'), ('flibble'), ('flick'),
+    ('flicka'), ('flicker'), ('flicks'), ('fliege'), ('fliegen'), ('flight'), ('flights'), ('flim'),
+    ('flimflam'), ('flinders'), ('fling'), ('flint'), ('flints'), ('flintsto'), ('flintstone'), ('flip'),
+    ('fliper'), ('flipflop'), ('flipmode'), ('flipoff'), ('flippe'), ('flipper'), ('flippers'), ('flippo'),
+    ('flippy'), ('flipside'), ('fliptop'), ('flipyou'), ('flirt'), ('floflo'), ('flog'), ('floger'),
+    ('flogger'), ('flomaster'), ('flood'), ('floods'), ('floor'), ('flooring'), ('floors'), ('floppy'),
+    ('flopsy'), ('flor'), ('flora'), ('floral'), ('flore'), ('florenc'), ('florence'), ('florenci'),
+    ('florencia'), ('florent'), ('flores'), ('flori'), ('floria'), ('florian'), ('florid'), ('florida'),
+    ('florin'), ('floris'), ('floss'), ('flossie'), ('flossy'), ('flotilla'), ('flotsam'), ('flounder'),
+    ('flow'), ('flowe'), ('flower'), ('flowers'), ('flowerss'), ('flowing'), ('flown'), ('floyd'),
+    ('floydd'), ('floyds'), ('fltkbyf'), ('flubber'), ('fluff'), ('fluffer'), ('fluffy'), ('flugel'),
+    ('fluid'), ('fluke'), ('flurry'), ('flush'), ('flushing'), ('flute'), ('flutes'), ('flutie'),
+    ('flutter'), ('flux'), ('flvbhfk'), ('flvbybcnhfnjh'), ('flvbybcnhfwbz'), ('flyaway'), ('flyboy'), ('flyer'),
+    ('flyers'), ('flyfish'), ('flyfishi'), ('flyfishing'), ('flyfly'), ('flyguy'), ('flyhigh'), ('flying'),
+    ('flyingv'), ('flyleaf'), ('flyman'), ('flynavy'), ('flynn'), ('flypaper'), ('flyrod'), ('flyvholm'),
+    ('flywheel'), ('fmale'), ('fnkfynblf'), ('fnord'), ('foamy'), ('focal'), ('focker'), ('focus'),
+    ('focused'), ('foda'), ('fodase'), ('fodder'), ('fofinha'), ('fofofo'), ('fogger'), ('foggy'),
+    ('foghat'), ('foghorn'), ('foible'), ('foiegras'), ('fokina'), ('fokker'), ('folder'), ('folders'),
+    ('foley'), ('folgers'), ('folgore'), ('folio'), ('folk'), ('follett'), ('follies'), ('follow'),
+    ('followme'), ('folly'), ('folsom'), ('fomina'), ('fomoco'), ('fonda'), ('fondle'), ('fonfon'),
+    ('fonseca'), ('fontaine'), ('fontana'), ('fonz'), ('fonzie'), ('foobar'), ('food'), ('foodfood'),
+    ('foodie'), ('foodman'), ('foods'), ('fooey'), ('foofer'), ('foofight'), ('foofoo'), ('fool'),
+    ('fooler'), ('foolfool'), ('foolio'), ('foolish'), ('foosball'), ('foot'), ('footbabe'), ('footbal'),
+    ('football'), ('football10'), ('football11'), ('football12'), ('football123'), ('football22'), ('football24'), ('footballs'),
+    ('footboy'), ('footed'), ('footer'), ('footfeti'), ('footfoot'), ('footfuck'), ('foothill'), ('footie'),
+    ('footjob'), ('footjobs'), ('footlock'), ('footlong')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('footloos'), ('footlove'), ('footman'), ('footsex'), ('footsie'), ('footsies'), ('footslav'), ('footsy'),
+    ('footy'), ('forall'), ('forbes'), ('forbidde'), ('forbidden'), ('forbin'), ('force'), ('forced'),
+    ('forces'), ('ford'), ('fordboy'), ('fordcar'), ('fordfocu'), ('fordfocus'), ('fordford'), ('fordgt'),
+    ('fordham'), ('fordman'), ('fordmust'), ('fords'), ('fordtruc'), ('fordtruck'), ('fordvan'), ('fore'),
+    ('forecast'), ('foreign'), ('foreman'), ('forensic'), ('foreplay'), ('fores'), ('foreskin'), ('forest'),
+    ('forester'), ('forestman'), ('forestry'), ('foreve'), ('forever'), ('foreverlove'), ('foreveryoung'), ('forfar'),
+    ('forfree'), ('forfun'), ('forge'), ('forget'), ('forgetit'), ('forgetme'), ('forgetmenot'), ('forgive'),
+    ('forgiven'), ('forgo'), ('forgot'), ('forgotit'), ('forgotte'), ('forgotten'), ('fork'), ('forklift'),
+    ('forlife'), ('forlorn'), ('form'), ('forman'), ('format'), ('formatters'), ('forme'), ('formee'),
+    ('formel'), ('former'), ('formic'), ('formica'), ('forms'), ('formula'), ('fornow'), ('forplay'),
+    ('forreal'), ('forrest'), ('forsaken'), ('forsale'), ('forsberg'), ('forsex'), ('forster'), ('forsure'),
+    ('forsyth'), ('forsythe'), ('fort'), ('forte'), ('fortis'), ('fortitud'), ('fortknox'), ('fortnite'),
+    ('fortran'), ('fortress'), ('fortun'), ('fortuna'), ('fortunat'), ('fortune'), ('forty'), ('fortyone'),
+    ('fortytwo'), ('foru'), ('forum'), ('forums'), ('forumwp'), ('forvard'), ('forward'), ('foryou'),
+    ('forza'), ('forzainter'), ('forzamilan'), ('forzaroma'), ('forzima'), ('fosgate'), ('fossil'), ('foster'),
+    ('fosters'), ('fostex'), ('fotball'), ('foto'), ('fotograf'), ('fotze'), ('foucault'), ('foufou'),
+    ('foulball'), ('found'), ('foundati'), ('foundation'), ('founder'), ('fountain'), ('four'), ('fourcats'),
+    ('foureyes'), ('fourfour'), ('fourier'), ('fourkids'), ('fournier'), ('fourplay'), ('fourramv'), ('foursome'),
+    ('fourstar'), ('fourteen'), ('fourth'), ('fourtrax'), ('fourty'), ('foutre'), ('fowler'), ('foxbat'),
+    ('foxdie'), ('foxes'), ('foxfire'), ('foxfox'), ('foxglove'), ('foxhole'), ('foxhound'), ('foxman'),
+    ('foxmulde'), ('foxmulder'), ('foxrun'), ('foxtail'), ('foxtrot'), ('foxwoods'), ('foxx'), ('foxxx'),
+    ('foxxxy'), ('foxy'), ('foxylady'), ('foxyroxy'), ('foyer'), ('fozzie'), ('fozzy'), ('fpfkbz'),
+    ('fqkw5m'), ('fquekm'), ('fr33d0m'), ('frack'), ('fractal'), ('fractals'), ('fraction'), ('fracture'),
+    ('fraggle'), ('fragile'), ('fragment'), ('frail'), ('fraise'), ('fram'), ('frame'), ('framed'),
+    ('framer'), ('frames'), ('fran'), ('franc'), ('franca'), ('francais'), ('france'), ('frances'),
+    ('francesc'), ('francesca'), ('francesco'), ('franchis'), ('franci'), ('francia'), ('francine'), ('francis'),
+    ('francisc'), ('francisca'), ('francisco'), ('franck'), ('franco'), ('francoi'), ('francois'), ('francoise'),
+    ('francuz'), ('francy'), ('frank'), ('franka'), ('frankb'), ('frankd'), ('franke'), ('franken'),
+    ('frankenstein'), ('frankfur'), ('frankfurt'), ('franki'), ('frankie'), ('frankli'), ('franklin'), ('frankly'),
+    ('franklyn'), ('franko'), ('franks'), ('franky'), ('frankzap'), ('frankzappa'), ('frannie'), ('franny'),
+    ('frantic'), ('frantz'), ('franway'), ('franz'), ('franzi'), ('franzisk'), ('fraser'), ('frasier'),
+    ('frasse'), ('fraud'), ('frauke'), ('frazer'), ('frazier'), ('frazzle'), ('frdfhbev'), ('frdfhtkm'),
+    ('frdfkfyu'), ('frdfvfhby'), ('fre_ak8yj'), ('freak'), ('freakboy'), ('freakdog'), ('freaked'), ('freaker'),
+    ('freakin'), ('freaking'), ('freakme'), ('freaknas'), ('freakout'), ('freaks'), ('freaksho'), ('freakshow'),
+    ('freaky'), ('freckle'), ('freckles'), ('fred'), ('freda'), ('fredd'), ('freddd'), ('fredderf'),
+    ('freddi'), ('freddie'), ('freddo'), ('freddog'), ('freddy'), ('fredek'), ('freder'), ('frederi'),
+    ('frederic'), ('frederick'), ('frederico'), ('frederik'), ('frederiksberg'), ('fredfred'), ('fredi'), ('fredie'),
+    ('fredo'), ('fredonia'), ('fredrau'), ('fredric'), ('fredrick'), ('fredrik'), ('freds'), ('fredy'),
+    ('free'), ('free4all'), ('free4me'), ('freeaccess'), ('freebee'), ('freebeer'), ('freebie'), ('freebird'),
+    ('freecell'), ('freeclus'), ('freed'), ('freedo'), ('freedom'), ('freedom123'), ('freedoms'), ('freee'),
+    ('freeee'), ('freefall'), ('freefly'), ('freefree'), ('freefuck'), ('freehand'), ('freehold'), ('freejack'),
+    ('freek'), ('freeky'), ('freelanc'), ('freelance'), ('freelancer'), ('freeland'), ('freelander'), ('freelove'),
+    ('freely'), ('freema'), ('freemail'), ('freeman'), ('freemaso'), ('freeme'), ('freemind'), ('freemont'),
+    ('freenet'), ('freeones'), ('freepass'), ('freeporn'), ('freeport'), ('freepussy'), ('freeride'), ('freerun'),
+    ('freeserv'), ('freesex'), ('freeshit'), ('freespace'), ('freestuff'), ('freestyl'), ('freestyle'), ('freesurf'),
+    ('freetime'), ('freetraffic'), ('freeuse'), ('freeuser'), ('freeway'), ('freewill'), ('freewilly'), ('freewin'),
+    ('freeworld'), ('freeza'), ('freeze'), ('freezer'), ('freezing'), ('fregat'), ('frehley'), ('freiburg'),
+    ('freight'), ('freiheit'), ('freitag'), ('frem'), ('fremont'), ('french'), ('frenchfr'), ('frenchie'),
+    ('frenchy'), ('frente'), ('frenzy'), ('frequenc'), ('frequent'), ('fresca'), ('fresco'), ('fresh'),
+    ('fresher'), ('freshman'), ('fresno'), ('fretless'), ('freud'), ('freude'), ('freund'), ('freya'),
+    ('freyfvfnfnf'), ('freyja'), ('frfltvbz'), ('friar'), ('friars'), ('frick'), ('friction'), ('frida'),
+    ('friday'), ('fridays'), ('fridge'), ('fridolin'), ('fried'), ('frieda'), ('friedman'), ('friedric'),
+    ('frien'), ('friend'), ('friendly'), ('friends'), ('friendship'), ('friendste'), ('friendster'), ('fries'),
+    ('frigate'), ('fright'), ('frighten'), ('frigid'), ('frill'), ('fringe'), ('frisbee'), ('frisco'),
+    ('friskie'), ('frisky'), ('frisson'), ('fritolay'), ('fritos'), ('fritter'), ('fritz'), ('fritze'),
+    ('fritzy'), ('fritzz'), ('frnhbcf'), ('frodo'), ('frodobag'), ('frog'), ('froger'), ('frogface'),
+    ('frogfrog'), ('frogg'), ('frogger'), ('froggie'), ('froggies'), ('froggy'), ('froglegs'), ('frogman'),
+    ('frogs'), ('frogss'), ('froinlaven'), ('frolic'), ('frolov'), ('frolova'), ('from'), ('fromage'),
+    ('fromhell'), ('fromto'), ('fromv'), ('fromvermine'), ('front'), ('frontera'), ('frontier'), ('frontlin'),
+    ('frontline'), ('frontosa'), ('frosch'), ('frost'), ('frostbit'), ('frostbite'), ('frosted'), ('frostie'),
+    ('frosty'), ('frown'), ('frozen'), ('frozenfish'), ('frufru'), ('frugal'), ('fruit'), ('fruitbat'),
+    ('fruitcak'), ('fruitcake'), ('fruits'), ('fruity'), ('frunze'), ('frye'), ('fryguy'), ('fsd9shtyu'),
+    ('fsid3n'), ('fsunoles'), ('fthjgjhn'), ('fubar')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('fubared'), ('fubu'), ('fuchs'), ('fucing'), ('fuck'), ('fuck0ff'), ('fuck_inside'), ('fucka'),
+    ('fuckall'), ('fuckass'), ('fuckball'), ('fuckboy'), ('fucke'), ('fucked'), ('fuckedup'), ('fuckem'),
+    ('fucker'), ('fuckers'), ('fuckersss'), ('fuckface'), ('fuckfest'), ('fuckfuck'), ('fuckfuckfuck'), ('fuckgirl'),
+    ('fuckhard'), ('fuckhead'), ('fuckher'), ('fuckhole'), ('fuckin'), ('fuckina'), ('fucking'), ('fuckinglove'),
+    ('fuckings'), ('fuckingshit'), ('fuckinside'), ('fuckinti'), ('fuckintits'), ('fuckit'), ('fuckital'), ('fuckitall'),
+    ('fucklife'), ('fucklove'), ('fuckm'), ('fuckman'), ('fuckme'), ('fuckmeha'), ('fuckmehard'), ('fuckmeno'),
+    ('fuckmenow'), ('fuckmyas'), ('fuckmyass'), ('fuckmylife'), ('fucknut'), ('fucknuts'), ('fuckof'), ('fuckoff'),
+    ('fuckoff123'), ('fuckoff666'), ('fucks'), ('fuckshit'), ('fuckslut'), ('fuckstic'), ('fuckstick'), ('fucksuck'),
+    ('fucktard'), ('fuckthat'), ('fuckthem'), ('fuckthemall'), ('fucktheworld'), ('fuckthis'), ('fuckthroat'), ('fucktoy'),
+    ('fucku'), ('fuckuall'), ('fuckup'), ('fuckwit'), ('fucky'), ('fuckya'), ('fuckyea'), ('fuckyeah'),
+    ('fuckyo'), ('fuckyou'), ('fuckyou123'), ('fuckyoua'), ('fuckyoubitch'), ('fuckyouguys'), ('fuckyour'), ('fuckyous'),
+    ('fuckyu'), ('fuckzoey'), ('fuct'), ('fudd'), ('fudge'), ('fuel'), ('fuels'), ('fuente'),
+    ('fuentes'), ('fuerte'), ('fuerza'), ('fuesse'), ('fufnfrhbcnb'), ('fugazi'), ('fugger'), ('fugitive'),
+    ('fuhrer'), ('fuhrfzgc'), ('fuji'), ('fujifilm'), ('fujifuji'), ('fujiko'), ('fujimo'), ('fujisan'),
+    ('fujitsu'), ('fujiwara'), ('fuking'), ('fukoff'), ('fukuyama'), ('fukyou'), ('fulcrum'), ('fulham'),
+    ('fulhamfc'), ('full'), ('fullback'), ('fulle'), ('fuller'), ('fullhous'), ('fullhouse'), ('fullmeta'),
+    ('fullmetal'), ('fullmoon'), ('fullred'), ('fullsail'), ('fulton'), ('fulvia'), ('fumanchu'), ('fumble'),
+    ('fumbling'), ('fun4all'), ('fun4me'), ('fun4us'), ('funbags'), ('funboy'), ('funchal'), ('function'),
+    ('funding'), ('funeral'), ('funforme'), ('funfun'), ('funfunfu'), ('funfunfun'), ('fungi'), ('fungible'),
+    ('fungus'), ('funguy'), ('funhouse'), ('funk'), ('funker'), ('funkey'), ('funkie'), ('funkster'),
+    ('funky'), ('funlovin'), ('funn'), ('funnel'), ('funnies'), ('funny'), ('funnyboy'), ('funnybunny'),
+    ('funnycar'), ('funnyguy'), ('funnyman'), ('funnys'), ('funone'), ('funsex'), ('funstuff'), ('funtik'),
+    ('funtime'), ('funtimes'), ('furball'), ('furby'), ('furelise'), ('furface'), ('furious'), ('furka'),
+    ('furlong'), ('furman'), ('furnace'), ('furnitur'), ('furniture'), ('furrball'), ('furry'), ('further'),
+    ('fury'), ('fuscus'), ('fuser'), ('fusilier'), ('fusion'), ('fussbal'), ('fussball'), ('fussel'),
+    ('futaba'), ('futball'), ('futbo'), ('futbol'), ('futebol'), ('futile'), ('futur'), ('futura'),
+    ('futurama'), ('future'), ('futures'), ('futuro'), ('fuzz'), ('fuzzball'), ('fuzzbutt'), ('fuzzfuzz'),
+    ('fuzzie'), ('fuzzle'), ('fuzzy'), ('fvcnthlfv'), ('fvfnjhb'), ('fvthbrf'), ('fw190d'), ('fwsadn'),
+    ('fx3tuo'), ('fy.njxrf'), ('fy.nrf'), ('fyabcf'), ('fybcbvjdf'), ('fyfcnfcbz'), ('fyfnjkbq'), ('fyfnjkmtdbx'),
+    ('fyfnjkmtdyf'), ('fyfrjylf'), ('fyfyfc'), ('fylh.irf'), ('fylhjvtlf'), ('fylhsq'), ('fylht'), ('fylhtq'),
+    ('fylhtqrf'), ('fylhttdbx'), ('fylhttdf'), ('fylhttdyf'), ('fynbdbhec'), ('fynbkjgf'), ('fynfyfyfhbde'), ('fynjif'),
+    ('fynjirf'), ('fynjkjubz'), ('fynjy'), ('fynjybj'), ('fynjybyf'), ('fynjyjdf'), ('fyodor'), ('fytxrf'),
+    ('fyutk'), ('fyutkbyf'), ('fyutkbyrf'), ('fyutkjr'), ('fyutkjxtr'), ('fyyeirf'), ('fzappa'), ('g00ber'),
+    ('g00dpa$$w0rd'), ('g00gle'), ('g0away'), ('g1nger'), ('g3ny5yof'), ('g3ujwg'), ('gaastra'), ('gabbana'),
+    ('gabber'), ('gabbie'), ('gabby'), ('gabe'), ('gabi'), ('gabit'), ('gable'), ('gabrie'),
+    ('gabriel'), ('gabriela'), ('gabriele'), ('gabriell'), ('gabriella'), ('gabrielle'), ('gaby'), ('gadfly'),
+    ('gadget'), ('gadina'), ('gadzooks'), ('gaelic'), ('gaell'), ('gaelle'), ('gaeta'), ('gaetan'),
+    ('gaetano'), ('gaffer'), ('gaffney'), ('gaga'), ('gagaga'), ('gagagaga'), ('gagarin'), ('gagarina'),
+    ('gage'), ('gaggag'), ('gagged'), ('gagger'), ('gagging'), ('gaggle'), ('gagher'), ('gaia'),
+    ('gaijin'), ('gail'), ('gain'), ('gainer'), ('gaines'), ('gala'), ('galactic'), ('galactica'),
+    ('galactus'), ('galadriel'), ('galahad'), ('galaktika'), ('galan'), ('galant'), ('galapago'), ('galary'),
+    ('galatasa'), ('galatasara'), ('galatasaray'), ('galatea'), ('galati'), ('galax'), ('galaxie'), ('galaxy'),
+    ('galen'), ('galena'), ('galeries'), ('galileo'), ('galin'), ('galina'), ('galinka'), ('galiya'),
+    ('gallaghe'), ('galland'), ('gallant'), ('gallardo'), ('gallaries'), ('gallatin'), ('gallego'), ('gallen'),
+    ('galleon'), ('galler'), ('galleria'), ('gallerie'), ('galleries'), ('gallery'), ('galley'), ('gallo'),
+    ('gallon'), ('gallop'), ('galloway'), ('gallows'), ('gallup'), ('gallus'), ('galochka'), ('galois'),
+    ('galore'), ('galvesto'), ('galvez'), ('galway'), ('gama'), ('gambia'), ('gambino'), ('gambit'),
+    ('gamble'), ('gambler'), ('gambling'), ('game'), ('gameboy'), ('gamecock'), ('gamecocks'), ('gamecube'),
+    ('gameday'), ('gamefreak'), ('gameman'), ('gamemaster'), ('gameon'), ('gameover'), ('gameplay'), ('gamepro'),
+    ('gamer'), ('gamera'), ('gamers'), ('games'), ('gamess'), ('gametime'), ('gamez'), ('gamgee'),
+    ('gaming'), ('gamlet'), ('gamma'), ('gammas'), ('gammel'), ('gammon'), ('ganapath'), ('gandako'),
+    ('gandal'), ('gandalf'), ('gander'), ('gandhi'), ('gandolf'), ('gandon'), ('ganduras'), ('ganes'),
+    ('ganesh'), ('ganesha'), ('gang'), ('ganga'), ('gangan'), ('gangbang'), ('gangbanged'), ('ganges'),
+    ('gangrel'), ('gangst'), ('gangsta'), ('gangstar'), ('gangste'), ('gangster'), ('gangsters'), ('ganibal'),
+    ('ganja'), ('ganjaman'), ('ganjubas'), ('gankutsuou1989'), ('gannibal'), ('gannon'), ('gansta'), ('ganster'),
+    ('ganteng'), ('ganymede'), ('gaping'), ('garage'), ('garand'), ('garbage'), ('garber'), ('garbo'),
+    ('garchadas'), ('garci'), ('garcia'), ('garde'), ('garden'), ('gardena'), ('gardener'), ('gardenia'),
+    ('gardens'), ('gardiner'), ('gardner'), ('garena'), ('garet'), ('gareth'), ('garfiel'), ('garfield'),
+    ('garfild'), ('gargamel'), ('gargano'), ('gargantua'), ('gargar'), ('gargle'), ('gargoyle'), ('garibald'),
+    ('garik'), ('garion'), ('garland'), ('garlic'), ('garman'), ('garner'), ('garnet'), ('garnett'),
+    ('garnier'), ('garp'), ('garret'), ('garrett'), ('garrick'), ('garrison'), ('garry'), ('garten'),
+    ('garter'), ('garters'), ('garth'), ('gartner'), ('garuda'), ('garvey'), ('garvin'), ('garwood'),
+    ('gary'), ('garygary'), ('garylee'), ('gasanov')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('gasgas'), ('gash'), ('gashish'), ('gasket'), ('gasman'), ('gasoline'), ('gaspar'), ('gasper'),
+    ('gass'), ('gasser'), ('gasto'), ('gaston'), ('gastone'), ('gastro'), ('gate'), ('gatech'),
+    ('gateee'), ('gatekeep'), ('gatekeeper'), ('gates'), ('gatewa'), ('gateway'), ('gateways'), ('gatherin'),
+    ('gathering'), ('gatinha'), ('gatinho'), ('gatit'), ('gatita'), ('gatito'), ('gatlin'), ('gato'),
+    ('gatogato'), ('gator'), ('gatorade'), ('gatorbai'), ('gatorfan'), ('gatorman'), ('gators'), ('gatsby'),
+    ('gattaca'), ('gatto'), ('gattone'), ('gaucho'), ('gaudeamus'), ('gaudy'), ('gauhar'), ('gauloise'),
+    ('gauntlet'), ('gaura'), ('gaurav'), ('gauss'), ('gautam'), ('gauthie'), ('gauthier'), ('gautie'),
+    ('gautier'), ('gavaec'), ('gavgav'), ('gavilan'), ('gavin'), ('gaviota'), ('gavr'), ('gavrik'),
+    ('gavrilov'), ('gavrilova'), ('gawain'), ('gawker'), ('gayane'), ('gayathri'), ('gayatri'), ('gayboy'),
+    ('gaydar'), ('gaygay'), ('gaygaygay'), ('gayguy'), ('gayle'), ('gaylor'), ('gaylord'), ('gayman'),
+    ('gaymen'), ('gaypride'), ('gaysex'), ('gaz29wak'), ('gazebo'), ('gazelle'), ('gazeta'), ('gazette'),
+    ('gazprom'), ('gazza'), ('gbcmrf'), ('gbdfcbr'), ('gbdjgbdj'), ('gbfcnhs'), ('gbgbcmrf'), ('gbgtnrf'),
+    ('gbhfvblf'), ('gbhfymz'), ('gbjyth'), ('gbkbuhbv'), ('gblfhfc'), ('gblfhfcbyf'), ('gblfhfcs'), ('gbljhfc'),
+    ('gbljhfcs'), ('gbpacker'), ('gbpltw'), ('gbrfxe'), ('gbyudby'), ('gcheckou'), ('gcheckout'), ('gdansk'),
+    ('gdog'), ('gdtrfb'), ('ge0rge'), ('gear'), ('gearbox'), ('gearhead'), ('gearsofwar'), ('geaux'),
+    ('gecko'), ('geckos'), ('geddon'), ('geddy'), ('geddylee'), ('gedeon'), ('geegee'), ('geek'),
+    ('geek01d'), ('geekboy'), ('geeks'), ('geelong'), ('geeman'), ('geemoney'), ('geenidee'), ('geeque'),
+    ('geert'), ('geetha'), ('geewiz'), ('geezer'), ('gefccga'), ('gefest'), ('geforce'), ('gegcbr'),
+    ('gege'), ('gegege'), ('gegrby'), ('geheim'), ('gehenna'), ('gehrig'), ('geibcnbr'), ('geibyrf'),
+    ('geiger'), ('geil'), ('geiler'), ('geilesau'), ('geirby'), ('geisha'), ('gekko'), ('gektor'),
+    ('gelato'), ('gelios'), ('gellar'), ('geller'), ('gembird'), ('gemeni'), ('gemgem'), ('gemin'),
+    ('gemini'), ('geminis'), ('gemma'), ('gemmas'), ('gems'), ('gemstone'), ('gena'), ('gendalf'),
+    ('gender'), ('gene'), ('genera'), ('general'), ('general007'), ('generale'), ('generali'), ('generals'),
+    ('generati'), ('generation'), ('generato'), ('generator'), ('generic'), ('generous'), ('genesee'), ('geneseo'),
+    ('genesi'), ('genesis'), ('genetic'), ('genetics'), ('geneva'), ('geneve'), ('geneviev'), ('genevieve'),
+    ('geng'), ('genghis'), ('gengis'), ('genial'), ('genie'), ('geniu'), ('genius'), ('geniusgenius'),
+    ('geniusnet'), ('genlee'), ('gennadiy'), ('gennaro'), ('geno'), ('genoa'), ('genocide'), ('genova'),
+    ('genoveva'), ('gentile'), ('gentle'), ('gentlema'), ('gentleman'), ('gently'), ('gentry'), ('genuine'),
+    ('genuineintel'), ('geoff'), ('geoffrey'), ('geogeo'), ('geography'), ('geolog'), ('geology'), ('geoman'),
+    ('geometry'), ('geordie'), ('georg'), ('george'), ('georges'), ('georgetown'), ('georgi'), ('georgia'),
+    ('georgie'), ('georgin'), ('georgina'), ('georgio'), ('georgios'), ('georgiy'), ('georgy'), ('gepard'),
+    ('ger2man'), ('gera'), ('geral'), ('gerald'), ('geraldin'), ('geraldine'), ('geraldo'), ('geranium'),
+    ('gerar'), ('gerard'), ('gerardo'), ('gerasim'), ('gerasimov'), ('gerasimova'), ('gerber'), ('gerbera'),
+    ('gerbil'), ('gerd'), ('gerda'), ('gerger'), ('gerhard'), ('gerhardt'), ('geri'), ('gericom'),
+    ('gerkin'), ('gerlinde'), ('germ'), ('germa'), ('germain'), ('germaine'), ('german'), ('germania'),
+    ('germano'), ('germany'), ('germes'), ('geroin'), ('geronim'), ('geronimo'), ('geronto'), ('gerrar'),
+    ('gerrard'), ('gerrie'), ('gerrit'), ('gerry'), ('gerryber'), ('gers'), ('gersh'), ('gershwin'),
+    ('gert'), ('gertie'), ('gertrud'), ('gertruda'), ('gertrude'), ('gervais'), ('geryfe'), ('gesine'),
+    ('gesperrt'), ('gestalt'), ('gestapo'), ('getachew'), ('getajob'), ('getalife'), ('getaway'), ('getback'),
+    ('getbent'), ('getdown'), ('getfucked'), ('gethigh'), ('getin'), ('getinnow'), ('getit'), ('getitnow'),
+    ('getiton'), ('getlaid'), ('getlost'), ('getlucky'), ('getmein'), ('getmoney'), ('getnaked'), ('getoff'),
+    ('getoffme'), ('getone'), ('getout'), ('getpaid'), ('getreal'), ('getrich'), ('getright'), ('getsdown'),
+    ('getsex'), ('getsmart'), ('getsome'), ('getsum'), ('getting'), ('getty'), ('gettysbu'), ('gettysburg'),
+    ('getusome'), ('getwet'), ('geujdrf'), ('gevaudan'), ('gevorg'), ('gewitter'), ('geyser'), ('gfccdjhl'),
+    ('gfccgjhn'), ('gfcdjhl'), ('gfcgjhn'), ('gfcnthyfr'), ('gfdkbr'), ('gfdkeif'), ('gfdkjd'), ('gfdkjdf'),
+    ('gfdsa'), ('gfedcba'), ('gfgbhec'), ('gfgbhjcf'), ('gfgekz'), ('gfgf'), ('gfgfg'), ('gfgfgf'),
+    ('gfgfgfgf'), ('gfgfif'), ('gfgfrfhkj'), ('gfgfvfvf'), ('gfgfvfvfz'), ('gfgfyz'), ('gfghbrf'), ('gfgjxrf'),
+    ('gfhfcjkmrf'), ('gfhfdjp'), ('gfhfdjpbr'), ('gfhfif'), ('gfhfktkjuhfv'), ('gfhfktkm'), ('gfhflbuvf'), ('gfhfljrc'),
+    ('gfhfpbn'), ('gfhfvgfvgfv'), ('gfhfyjbr'), ('gfhfyjqz'), ('gfhfyjz'), ('gfhjdjp'), ('gfhjk'), ('gfhjkbot'),
+    ('gfhjkbr'), ('gfhjkl'), ('gfhjkm'), ('gfhjkm1234'), ('gfhjkm123456'), ('gfhjkm2011'), ('gfhjkmgfhjkm'), ('gfhjkmm'),
+    ('gfhjkmrf'), ('gfhjkmxbr'), ('gfhjkmxtu'), ('gfhjkz'), ('gfhjkzytn'), ('gfhkfvtyn'), ('gfhnbpfy'), ('gfhnbz'),
+    ('gfhreh'), ('gfhrtn'), ('gfhtym'), ('gfifgfif'), ('gfitymrf'), ('gfkjxrf'), ('gfkmvf'), ('gfktdj'),
+    ('gfnhbjn'), ('gfnhbr'), ('gfnhjy'), ('gforce'), ('gfvznm'), ('gfyfcjybr'), ('gfynthf'), ('gggg'),
+    ('ggggg'), ('gggggg'), ('ggggggg'), ('gggggggg'), ('ggggggggg'), ('gggggggggg'), ('ghana'), ('ghandi'),
+    ('ghbcnfd'), ('ghbdfn'), ('ghbdt'), ('ghbdtn'), ('ghbdtn12345'), ('ghbdtnbr'), ('ghbdtnbrb'), ('ghbdtncerf'),
+    ('ghbdtndctv'), ('ghbdtnghbdtn'), ('ghbdtngjrf'), ('ghbdtnrfrltkf'), ('ghbhjlf'), ('ghbjhbntn'), ('ghbjhf'), ('ghblehjr'),
+    ('ghblehrb'), ('ghbphfr'), ('ghbrjk'), ('ghbrjkbcn'), ('ghbrjkmyj'), ('ghbynth'), ('ghbywtcc'), ('ghbywtccf'),
+    ('gherkin'), ('ghetto'), ('ghfdlf'), ('ghfgjh'), ('ghfgjhobr'), ('ghfplybr'), ('ghfrnbrf'), ('ghgh'),
+    ('ghghgh'), ('ghghghgh'), ('ghhh47hj764'), ('ghhh47hj7649'), ('ghibli'), ('ghijkl'), ('ghislain'), ('ghjatccbjyfk'),
+    ('ghjatccjh'), ('ghjbpdjlcndj'), ('ghjcgtrn'), ('ghjcnb'), ('ghjcnbnenrf'), ('ghjcnbnewbz'), ('ghjcnbvtyz'), ('ghjcnhfycndj'),
+    ('ghjcnj'), ('ghjcnjabkz'), ('ghjcnjdkfl'), ('ghjcnjgbpltw'), ('ghjcnjgfhjkm'), ('ghjcnjghjcnj'), ('ghjcnjkjk'), ('ghjcnjnf'),
+    ('ghjcnjnfr'), ('ghjcnjnfr1'), ('ghjcnjq'), ('ghjcnjqgfhjkm'), ('ghjcnjrdfibyj'), ('ghjcnjrdfif'), ('ghjcnjz'), ('ghjdthrf'),
+    ('ghjgecr'), ('ghjgfufylf'), ('ghjghj'), ('ghjghjghj')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('ghjgtkkth'), ('ghjhjr'), ('ghjirf'), ('ghjk'), ('ghjkju'), ('ghjkl'), ('ghjnbdjcnjzybt'), ('ghjnbdjufp'),
+    ('ghjnjnbg'), ('ghjnjrjk'), ('ghjrehfnehf'), ('ghjrehjh'), ('ghjrjgtyrj'), ('ghjrkznsq'), ('ghjtrn'), ('ghjuhfvbcn'),
+    ('ghjuhfvf'), ('ghjuhfvvbcn'), ('ghjuhfvvf'), ('ghjuhtcc'), ('ghjvtntq'), ('ghost'), ('ghostdog'), ('ghoster'),
+    ('ghostfac'), ('ghostface'), ('ghostly'), ('ghostman'), ('ghostrecon'), ('ghostrid'), ('ghostrider'), ('ghosts'),
+    ('ghosty'), ('ghoti'), ('ghoul'), ('ghtdtlvtldtl'), ('ghtktcnm'), ('ghtlfntkm'), ('ghtpbltyn'), ('ghtpthdfnbd'),
+    ('ghzybr'), ('giacomin'), ('giacomo'), ('giallo'), ('giambi'), ('giampaolo'), ('giampi'), ('giancarl'),
+    ('giancarlo'), ('gianfranco'), ('gianluca'), ('gianna'), ('gianni'), ('giant'), ('giantess'), ('giants'),
+    ('gibb'), ('gibber'), ('gibbon'), ('gibbons'), ('gibbs'), ('gibby'), ('giblet'), ('giblets'),
+    ('gibralta'), ('gibso'), ('gibson'), ('gibsonsg'), ('gidday'), ('giddyup'), ('gide'), ('gideon'),
+    ('gidget'), ('gifford'), ('gifgif'), ('gift'), ('gifted'), ('giga'), ('gigabyte'), ('gigant'),
+    ('gigante'), ('gigantic'), ('gigantor'), ('gigaset'), ('gigem'), ('gigemags'), ('giggalo'), ('giggle'),
+    ('giggles'), ('giggsy'), ('gigi'), ('gigigi'), ('gigigigi'), ('gigio'), ('gigolo'), ('gijane'),
+    ('gijoe'), ('gilber'), ('gilbert'), ('gilbert2707'), ('gilberto'), ('gilead'), ('giles'), ('gilgames'),
+    ('gilgamesh'), ('gilgit'), ('gill'), ('gille'), ('gillen'), ('gilles'), ('gillespi'), ('gillette'),
+    ('gilliam'), ('gillian'), ('gillie'), ('gilligan'), ('gillingham'), ('gillis'), ('gilly'), ('gilman'),
+    ('gilmore'), ('gilmour'), ('gimlet'), ('gimli'), ('gimme'), ('gimmesum'), ('gimmie'), ('gimnazjum'),
+    ('gimp'), ('gimpy'), ('gin55ger'), ('gina'), ('ginagina'), ('ginawild'), ('gineok'), ('ginette'),
+    ('ginge'), ('ginger'), ('gingin'), ('gink'), ('ginkgo'), ('ginnie'), ('ginny'), ('gino'),
+    ('ginogino'), ('ginola'), ('ginsberg'), ('ginscoot'), ('ginseng'), ('gintonic'), ('ginuwine'), ('giogio'),
+    ('giordano'), ('giorgi'), ('giorgia'), ('giorgio'), ('giotto'), ('giovan'), ('giovani'), ('giovann'),
+    ('giovanna'), ('giovanni'), ('gipper'), ('gipsy'), ('giraffe'), ('girard'), ('girasole'), ('girdle'),
+    ('girfriend'), ('girish'), ('girl'), ('girlfrie'), ('girlfriend'), ('girlfuck'), ('girlgirl'), ('girli3s'),
+    ('girlie'), ('girlies'), ('girlpower'), ('girls'), ('girls4me'), ('girlsgir'), ('girlss'), ('girly'),
+    ('girlygirl'), ('girlz'), ('girona'), ('girsl'), ('girth'), ('gisel'), ('gisela'), ('gisele'),
+    ('gisella'), ('giselle'), ('gismo'), ('gitanes'), ('gitano'), ('gitara'), ('gitarist'), ('gitler'),
+    ('giucil'), ('giuli'), ('giulia'), ('giuliana'), ('giuliano'), ('giuliett'), ('giulio'), ('giusepp'),
+    ('giuseppe'), ('give'), ('giveit'), ('giveitup'), ('giveme'), ('given'), ('giving'), ('gixxer'),
+    ('gizmo'), ('gizmocat'), ('gizmodo'), ('gizmodog'), ('gizmodom'), ('gizmoe'), ('gizmos'), ('gizzard'),
+    ('gizzmo'), ('gizzy'), ('gjakova'), ('gjcklr2b'), ('gjdtkbntkm'), ('gjgeufq'), ('gjgjdf'), ('gjgjxrf'),
+    ('gjhjctyjr'), ('gjhjkm'), ('gjhjlfcjqrb'), ('gjikbdctyf'), ('gjkbnjkjubz'), ('gjkbyf'), ('gjkbyjxrf'), ('gjkbyrf'),
+    ('gjkjdbyrf'), ('gjkrjdybr'), ('gjkyjkeybt'), ('gjkysqgbpltw'), ('gjkzrjdf'), ('gjlcnfdf'), ('gjleirf'), ('gjlfhjr'),
+    ('gjlheuf'), ('gjmptw'), ('gjpbnbd'), ('gjrtvjy'), ('gjujlf'), ('gjvbljh'), ('gjyjvfhtdf'), ('gjyjvfhtyrj'),
+    ('gjytltkmybr'), ('gjyxbr'), ('gkfdfybt'), ('gkfnjy'), ('gkfytnf'), ('gl3bk02k'), ('glacier'), ('glacius'),
+    ('glad'), ('gladbach'), ('gladiato'), ('gladiator'), ('gladiator5'), ('gladiolus'), ('gladius'), ('gladston'),
+    ('glady'), ('gladys'), ('glamdrin'), ('glamis'), ('glamour'), ('glamur'), ('glance'), ('glaser'),
+    ('glasgow'), ('glasha'), ('glasnost'), ('glass'), ('glasses'), ('glassic'), ('glassjaw'), ('glassman'),
+    ('glasss'), ('glassy'), ('glastron'), ('glavine'), ('glazed'), ('gldmeo'), ('gleb'), ('glen'),
+    ('glencoe'), ('glenda'), ('glendale'), ('glenn'), ('glenna'), ('glennwei'), ('glenny'), ('glenwood'),
+    ('glide'), ('glider'), ('glimmer'), ('glist'), ('glisten'), ('glitch'), ('glitter'), ('global'),
+    ('globe'), ('globes'), ('globule'), ('globus'), ('glock'), ('glock9mm'), ('glofiish'), ('gloomy'),
+    ('glori'), ('gloria'), ('glorioso'), ('glorious'), ('glory'), ('glorybe'), ('gloryhol'), ('glossy'),
+    ('glotest'), ('glove'), ('glover'), ('gloves'), ('glow'), ('glowing'), ('glowworm'), ('glucas'),
+    ('glue'), ('glueck'), ('gmac'), ('gman'), ('gmcjimmy'), ('gmctruck'), ('gmoney'), ('gnaget'),
+    ('gnarly'), ('gnasher'), ('gnatsum'), ('gnbxrf'), ('gnik'), ('gnocca'), ('gnome'), ('gnomes'),
+    ('gnomik'), ('gnorman'), ('gnosis'), ('gnusmas'), ('go2hell'), ('go49ers'), ('go4broke'), ('go4it'),
+    ('go4itnow'), ('goahead'), ('goal'), ('goalie'), ('goarmy'), ('goat'), ('goatass'), ('goatboy'),
+    ('goatee'), ('goater'), ('goatgoat'), ('goathead'), ('goatman'), ('goatmilk'), ('goats'), ('goaway'),
+    ('gobama'), ('gobble'), ('gobbler'), ('gobears'), ('gobeavs'), ('gobigred'), ('gobills'), ('goblet'),
+    ('goblin'), ('goblins'), ('goblue'), ('goblues'), ('gobolts'), ('gobraves'), ('gobrowns'), ('gobruins'),
+    ('gobshite'), ('gobucks'), ('gobucs'), ('gobuffs'), ('gobulls'), ('gocanes'), ('gocaps'), ('gocards'),
+    ('gocart'), ('gocats'), ('gochiefs'), ('gococks'), ('gocolts'), ('gocougs'), ('gocubs'), ('godard'),
+    ('godawgs'), ('godbless'), ('godboy'), ('goddamn'), ('goddard'), ('goddes'), ('goddess'), ('goddog'),
+    ('godeep'), ('godess'), ('godfathe'), ('godfather'), ('godflesh'), ('godfrey'), ('godgod'), ('godhead'),
+    ('godisgoo'), ('godisgood'), ('godisgreat'), ('godislov'), ('godislove'), ('godiva'), ('godless'), ('godlike'),
+    ('godloves'), ('godman'), ('godofwar'), ('godogs'), ('godown'), ('godpasi'), ('gods'), ('godsend'),
+    ('godsgift'), ('godslove'), ('godsmack'), ('godson'), ('godspeed'), ('godswill'), ('goducks'), ('goduke'),
+    ('godwin'), ('godzila'), ('godzill'), ('godzilla'), ('godzils4s7'), ('goeagles'), ('goethe'), ('gofast'),
+    ('gofaster'), ('goffer'), ('gofish'), ('goforit'), ('goga'), ('gogagoga'), ('gogators'), ('gogeta'),
+    ('gogetit'), ('gogetter'), ('goggle'), ('goggles'), ('gogiants'), ('gogirl'), ('gogirls'), ('gogita'),
+    ('gogo'), ('gogoboy'), ('gogogo'), ('gogogogo'), ('gogolf'), ('gogosox'), ('gogreen'), ('gohabs'),
+    ('gohabsgo'), ('gohan'), ('gohard'), ('gohawks'), ('goheels'), ('goherd'), ('gohogs'), ('gohogsgo'),
+    ('gohokies'), ('gohome'), ('goin'), ('going'), ('goirish'), ('gojets'), ('gojira'), ('gokart'),
+    ('goku'), ('gokugoku'), ('golakers'), ('gold')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('goldberg'), ('golddesk'), ('golddust'), ('golde'), ('golden'), ('goldenbo'), ('goldenboy'), ('goldeney'),
+    ('goldeneye'), ('goldfing'), ('goldfinger'), ('goldfish'), ('goldgoat'), ('goldgold'), ('goldhill25'), ('goldi'),
+    ('goldie'), ('golding'), ('goldman'), ('goldmine'), ('goldone'), ('goldorak'), ('goldpony'), ('goldroad'),
+    ('goldrush'), ('goldsink'), ('goldstar'), ('goldstei'), ('goldtop'), ('goldtree'), ('goldwin'), ('goldwind'),
+    ('goldwing'), ('goldz'), ('goleafs'), ('goleafsg'), ('golem'), ('goleta'), ('golf'), ('golfball'),
+    ('golfboy'), ('golfcart'), ('golfclub'), ('golfe'), ('golfer'), ('golfers'), ('golfgolf'), ('golfgti'),
+    ('golfin'), ('golfing'), ('golfman'), ('golfnut'), ('golfpro'), ('golgotha'), ('goliat'), ('goliath'),
+    ('golions'), ('golive'), ('gollum'), ('golly'), ('golosa'), ('golova'), ('golovin'), ('golubev'),
+    ('golubeva'), ('gomango'), ('gomer'), ('gomes'), ('gomets'), ('gomez'), ('gonad'), ('gonads'),
+    ('gonavy'), ('gonchar'), ('gondola'), ('gondolin'), ('gondon'), ('gondor'), ('gonduras'), ('gone'),
+    ('gonefish'), ('gong'), ('goniners'), ('gonoles'), ('gonow'), ('gonz'), ('gonzaga'), ('gonzal'),
+    ('gonzale'), ('gonzales'), ('gonzalez'), ('gonzalo'), ('gonzo'), ('gonzoo'), ('gonzos'), ('goobe'),
+    ('goober'), ('goobers'), ('goobie'), ('gooch'), ('goochi'), ('good'), ('good123654'), ('good2go'),
+    ('good4me'), ('good4now'), ('good4u'), ('good4you'), ('goodall'), ('goodbeer'), ('goodbo'), ('goodboss'),
+    ('goodboy'), ('goodby'), ('goodbye'), ('goodday'), ('gooddog'), ('goodfell'), ('goodfella'), ('goodfellas'),
+    ('goodfood'), ('goodfuck'), ('goodgame'), ('goodgirl'), ('goodgod'), ('goodgood'), ('goodguy'), ('goodguys'),
+    ('goodhead'), ('goodie'), ('goodies'), ('gooding'), ('goodison'), ('goodjob'), ('goodlife'), ('goodlord'),
+    ('goodlove'), ('goodluck'), ('goodman'), ('goodmorning'), ('goodness'), ('goodnews'), ('goodnigh'), ('goodnight'),
+    ('goodnite'), ('goodone'), ('goodpass'), ('goodpuss'), ('goodpussy'), ('goodrich'), ('goodsex'), ('goodshit'),
+    ('goodstuf'), ('goodstuff'), ('goodtime'), ('goodtimes'), ('goodtogo'), ('goodwill'), ('goodwin'), ('goodwood'),
+    ('goody'), ('goodyear'), ('goof'), ('goofball'), ('goofie'), ('goofus'), ('goofy'), ('googgoog'),
+    ('googie'), ('googl'), ('google'), ('googlecheckou'), ('googly'), ('googoo'), ('gooliner'), ('goomba'),
+    ('goomie'), ('goon'), ('gooner'), ('gooners'), ('goonie'), ('goonies'), ('goonline'), ('goose'),
+    ('gooseman'), ('gooses'), ('goosey'), ('goosie'), ('gopack'), ('gopackgo'), ('gopats'), ('gopens'),
+    ('gopher'), ('gophers'), ('gopinath'), ('gopnik'), ('gopokes'), ('goracing'), ('gorams'), ('goran'),
+    ('gorbunov'), ('gorbunova'), ('gordan'), ('gordeeva'), ('gorden'), ('gordie'), ('gordienko'), ('gordit'),
+    ('gordita'), ('gordito'), ('gordo'), ('gordolee85'), ('gordon'), ('gordy'), ('gore'), ('goreds'),
+    ('goredsox'), ('gorf'), ('gorge'), ('gorgeous'), ('gorges'), ('gorgon'), ('gorila'), ('gorilla'),
+    ('gorillas'), ('gorillaz'), ('gorky'), ('gorman'), ('gorodok'), ('gort'), ('gosha'), ('gosharks'),
+    ('goshawk'), ('goshen'), ('gosia'), ('goskins'), ('gosling'), ('gospel'), ('gospurs'), ('gossamer'),
+    ('gosselin'), ('gossip'), ('gossipgirl'), ('gostar'), ('gostate'), ('gostosa'), ('gostosao'), ('gostoso'),
+    ('gotahack'), ('gotcha'), ('goteam'), ('gotech'), ('goten'), ('gotenks'), ('goterps'), ('goth'),
+    ('gotham'), ('gothi'), ('gothic'), ('gothica'), ('gothmog'), ('gotigers'), ('gotika'), ('gotime'),
+    ('gotit'), ('gotlove'), ('gotmilk'), ('goto'), ('gotohell'), ('gotoit'), ('gotone'), ('gotribe'),
+    ('gotrice'), ('gottago'), ('gotten'), ('gotti'), ('gottlieb'), ('gottogo'), ('gotyoass'), ('gotyou'),
+    ('gouda'), ('gouge'), ('gould'), ('gourmet'), ('governor'), ('govikes'), ('govinda'), ('govols'),
+    ('gowest'), ('gowings'), ('gowron'), ('goyanks'), ('gozo'), ('gp437oi'), ('gq361hy'), ('gr00vy'),
+    ('gr8ful'), ('gr8one'), ('grabber'), ('grabit'), ('gracchus'), ('grace'), ('gracee'), ('graceful'),
+    ('gracelan'), ('graceland'), ('graces'), ('gracey'), ('graci'), ('gracia'), ('gracias'), ('gracie'),
+    ('graciela'), ('gracious'), ('grad'), ('grader'), ('grades'), ('graduate'), ('grady'), ('graeme'),
+    ('graf'), ('graffiti'), ('graffix'), ('grafix'), ('grafton'), ('graha'), ('graham'), ('graikos'),
+    ('grail'), ('grainger'), ('gram'), ('gramma'), ('grammar'), ('grammy'), ('grampa'), ('gramps'),
+    ('granada'), ('granat'), ('granata'), ('grand'), ('granda'), ('grandad'), ('grandam'), ('grande'),
+    ('grandia'), ('grandkid'), ('grandkids'), ('grandma'), ('grandmas'), ('grandmaster'), ('grandorgue'), ('grandpa'),
+    ('grandpri'), ('grandprix'), ('grands'), ('grandson'), ('grange'), ('granger'), ('granit'), ('granite'),
+    ('granny'), ('granola'), ('granp'), ('grant'), ('granted'), ('granules'), ('granvill'), ('grape'),
+    ('grapeape'), ('grapefru'), ('grapes'), ('grapevin'), ('graphic'), ('graphics'), ('graphite'), ('graphix'),
+    ('grappa'), ('grapple'), ('grappler'), ('gras'), ('grass'), ('grasshop'), ('grasshopper'), ('grassman'),
+    ('grasso'), ('grasss'), ('grassy'), ('grata'), ('grateful'), ('grati'), ('gratis'), ('grave'),
+    ('gravedig'), ('gravel'), ('graves'), ('gravis'), ('gravity'), ('gravy'), ('gray'), ('graycat'),
+    ('grayfox'), ('grayson'), ('graywolf'), ('grazia'), ('grazie'), ('gre69kik'), ('grease'), ('greaser'),
+    ('greasy'), ('great'), ('greatdan'), ('greatday'), ('greater'), ('greatest'), ('greatful'), ('greatgoo'),
+    ('greatman'), ('greatnes'), ('greatone'), ('greats'), ('greatsex'), ('greatwhi'), ('greatwhite'), ('greatzyo'),
+    ('grecia'), ('greco'), ('greddy'), ('gree'), ('greebo'), ('greece'), ('greed'), ('greedisgood'),
+    ('greedo'), ('greedy'), ('greeen'), ('greek'), ('greekboy'), ('greekgod'), ('greeks'), ('greeley'),
+    ('green'), ('greenapple'), ('greenbay'), ('greenbean'), ('greenber'), ('greenbud'), ('greencat'), ('greenda'),
+    ('greenday'), ('greendog'), ('greene'), ('greenegg'), ('greener'), ('greenery'), ('greeneye'), ('greeneyes'),
+    ('greenfield'), ('greengrass'), ('greengre'), ('greengreen'), ('greenguy'), ('greenhor'), ('greenhou'), ('greenhouse'),
+    ('greenie'), ('greenl'), ('greenlan'), ('greenlantern'), ('greenlea'), ('greenlee'), ('greenman'), ('greenn'),
+    ('greenone'), ('greenpea'), ('greens'), ('greensky'), ('greentea'), ('greentre'), ('greentree'), ('greenvil'),
+    ('greenwav'), ('greenway'), ('greenwic'), ('greenwoo'), ('greenwood'), ('greeny'), ('greenz'), ('greer'),
+    ('greese'), ('greeting'), ('greetings'), ('greg'), ('greger'), ('gregg'), ('greggg'), ('greggreg'),
+    ('greggy'), ('grego'), ('gregor'), ('gregori')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('gregorio'), ('gregory'), ('gregster'), ('gremio'), ('gremlin'), ('gremlins'), ('grenada'), ('grenade'),
+    ('grendal'), ('grendel'), ('grenden'), ('grenoble'), ('grepw'), ('gresham'), ('greshnik'), ('greta'),
+    ('gretchen'), ('grete'), ('gretel'), ('gretsch'), ('gretta'), ('gretzky'), ('grey'), ('greybear'),
+    ('greyfox'), ('greygrey'), ('greyhawk'), ('greyhoun'), ('greyhound'), ('greylock'), ('greyson'), ('greywolf'),
+    ('gribble'), ('gridiron'), ('gridlock'), ('griff'), ('griffe'), ('griffen'), ('griffey'), ('griffi'),
+    ('griffin'), ('griffins'), ('griffith'), ('griffo'), ('griffon'), ('griffy'), ('grifon'), ('grifter'),
+    ('griggs'), ('grigio'), ('grigoryan'), ('grigri'), ('grill'), ('grillo'), ('grils'), ('grim'),
+    ('grimace'), ('grime'), ('grimes'), ('grimjack'), ('grimley'), ('grimlock'), ('grimm'), ('grimmy'),
+    ('grimreap'), ('grimreaper'), ('grimsby'), ('grin'), ('grinch'), ('grind'), ('grinder'), ('grinders'),
+    ('grinding'), ('gring'), ('gringo'), ('grinnel'), ('grinnell'), ('grip'), ('gripe'), ('gripper'),
+    ('grisha'), ('grishin'), ('grisou'), ('grissom'), ('griswold'), ('grits'), ('gritty'), ('griz'),
+    ('grizli'), ('grizly'), ('grizz'), ('grizzle'), ('grizzley'), ('grizzlie'), ('grizzly'), ('grizzy'),
+    ('groan'), ('grocer'), ('grocery'), ('groentje'), ('grog'), ('grogan'), ('groggy'), ('groin'),
+    ('grolsch'), ('gromit'), ('grommet'), ('grommit'), ('gromov'), ('gromova'), ('groom'), ('groove'),
+    ('groover'), ('grooves'), ('groovin'), ('groovy'), ('groper'), ('gross'), ('grosse'), ('grossman'),
+    ('grotto'), ('grouch'), ('groucho'), ('grouchy'), ('ground'), ('grounded'), ('groundho'), ('groundhog'),
+    ('grounds'), ('group'), ('groupd2013'), ('grouper'), ('groupie'), ('groups'), ('grouse'), ('grove'),
+    ('grover'), ('groves'), ('grow'), ('growing'), ('growl'), ('growler'), ('growth'), ('grub'),
+    ('grubber'), ('grubby'), ('gruber'), ('grudge'), ('gruesome'), ('gruffy'), ('grumble'), ('grumman'),
+    ('grump'), ('grumpy'), ('grundig'), ('grundle'), ('grundy'), ('gruner'), ('grunge'), ('grunt'),
+    ('grunting'), ('grunts'), ('gruppa'), ('grusha'), ('gruzin'), ('gryphon'), ('gscgsc'), ('gsewfmck'),
+    ('gshock'), ('gsktcjc'), ('gspot'), ('gstring'), ('gsxr'), ('gtagta'), ('gtasanandreas'), ('gtfullam'),
+    ('gtgtgt'), ('gthang'), ('gthcbr'), ('gthcgtrnbdf'), ('gthcjyfk'), ('gthdsq'), ('gthgtylbrekzh'), ('gthtcnhjqrf'),
+    ('gthtdjhjn'), ('gthtrfnbgjkt'), ('gthtrhtcnjr'), ('gti16v'), ('gtkmvtyb'), ('gtkmvtym'), ('gtnheif'), ('gtnheirf'),
+    ('gtnhj328903'), ('gtnhjczy'), ('gtnhjd'), ('gtnhjdbx'), ('gtnhjdf'), ('gtnhjdyf'), ('gtnhjpfdjlcr'), ('gtogto'),
+    ('gtxtymrf'), ('gtycbjyth'), ('gtynfujy'), ('gu1tar'), ('guadalajara'), ('guadalup'), ('guadalupe'), ('guai'),
+    ('guan'), ('guanaco'), ('guang'), ('guano'), ('guapo'), ('guarana'), ('guard'), ('guarddog'),
+    ('guardia'), ('guardian'), ('guards'), ('guatemal'), ('guatemala'), ('gubber'), ('gucci'), ('guderian'),
+    ('gudrun'), ('gudvin'), ('guelph'), ('guenter'), ('guenther'), ('guerilla'), ('guernsey'), ('guerra'),
+    ('guerrer'), ('guerrero'), ('gues'), ('guess'), ('guessit'), ('guessme'), ('guesss'), ('guesswho'),
+    ('guest'), ('guestpas'), ('guevara'), ('guggen'), ('guidance'), ('guide'), ('guido'), ('guidog'),
+    ('guigui'), ('guild'), ('guildwars'), ('guilherme'), ('guillaum'), ('guillaume'), ('guille'), ('guillerm'),
+    ('guillermo'), ('guilt'), ('guilty'), ('guinea'), ('guiness'), ('guinnes'), ('guinness'), ('guita'),
+    ('guitar'), ('guitare'), ('guitarhero'), ('guitarist'), ('guitarma'), ('guitarman'), ('guitarr'), ('guitarra'),
+    ('guitars'), ('guizmo'), ('guldana'), ('gulf'), ('gulfstre'), ('gulla'), ('gullit'), ('gulliver'),
+    ('gullwing'), ('gully'), ('gulmira'), ('gulnar'), ('gulnara'), ('gulnaz'), ('gulnur'), ('gulshan'),
+    ('gumball'), ('gumbee'), ('gumbo'), ('gumboot'), ('gumby'), ('gumdrop'), ('gummi'), ('gummie'),
+    ('gummy'), ('gump'), ('gumper'), ('gumshoe'), ('gunayka1995'), ('gunblade'), ('gunda'), ('gundam'),
+    ('gundamwing'), ('gundog'), ('gunfight'), ('gungadin'), ('gungho'), ('gungrave'), ('gungun'), ('gunit'),
+    ('gunite'), ('gunman'), ('gunmen'), ('gunn'), ('gunnar'), ('gunne'), ('gunner'), ('gunners'),
+    ('gunnison'), ('gunny'), ('guns'), ('gunsguns'), ('gunship'), ('gunshy'), ('gunsling'), ('gunslinger'),
+    ('gunsmith'), ('gunsmoke'), ('gunsnros'), ('gunsnroses'), ('gunter'), ('gunther'), ('gunz'), ('guppie'),
+    ('guppy'), ('gurami'), ('gurgen'), ('gurkan'), ('gurken'), ('gurpreet'), ('guru'), ('guruguru'),
+    ('gurumayi'), ('gusdog'), ('gusev'), ('gusgus'), ('gusher'), ('gusman'), ('guss'), ('gusset'),
+    ('gussie'), ('gussy'), ('gustaf'), ('gustav'), ('gustave'), ('gustavo'), ('gustavus'), ('guster'),
+    ('gusto'), ('gutentag'), ('guthrie'), ('gutierre'), ('gutierrez'), ('gutter'), ('guyana'), ('guybrush'),
+    ('guyguy'), ('guys'), ('guyute'), ('guyver'), ('guzman'), ('guzzi'), ('gvanca'), ('gwapoako'),
+    ('gwar'), ('gwbush'), ('gwen'), ('gwendoli'), ('gwendolyn'), ('gwju3g'), ('gwydion'), ('gxlmxbewym'),
+    ('gxtkrf'), ('gy3yt2rgls'), ('gymnast'), ('gymnastic'), ('gymrat'), ('gyozo'), ('gypsie'), ('gypsum'),
+    ('gypsy'), ('gypsydog'), ('gznfxjr'), ('gznybwf'), ('h00ters'), ('h0ck3y'), ('h0ckey'), ('h0lygr41l'),
+    ('h0td0g'), ('h1y4dua229'), ('h200svrm'), ('h2oh2o'), ('h2opolo'), ('h2oski'), ('h2slca'), ('h2tmc4g358'),
+    ('h397pnvr'), ('h4ck3d'), ('h4x3d'), ('h72sfibbnl'), ('h9iymxmc'), ('h_froeschl7'), ('ha8fyp'), ('habana'),
+    ('habanero'), ('habari'), ('habeeb'), ('habib'), ('habibi'), ('habit'), ('habitat'), ('habs'),
+    ('hacienda'), ('hack'), ('hackaren'), ('hacke'), ('hacked'), ('hackedit'), ('hacker'), ('hackers'),
+    ('hackerz'), ('hackett'), ('hacking'), ('hackit'), ('hackman'), ('hackme'), ('hackney'), ('hacksaw'),
+    ('haddad'), ('haddock'), ('hades'), ('hadley'), ('hadoken'), ('hadrian'), ('hafeez'), ('hagakure'),
+    ('hagar'), ('hagbard'), ('hagen'), ('haggard'), ('haggis'), ('hagler'), ('hagrid'), ('hague'),
+    ('haguenau'), ('haha'), ('hahah'), ('hahaha'), ('hahahah'), ('hahahaha'), ('haider'), ('hail'),
+    ('haile'), ('hailee'), ('haileris'), ('hailey'), ('haines'), ('hair'), ('hairball'), ('haircut'),
+    ('hairdo'), ('hairless'), ('hairpie'), ('hairy'), ('hairyass'), ('hairypus'), ('hajime'), ('hakan'),
+    ('hakaone'), ('hakeem'), ('haker'), ('hakim'), ('hakkinen'), ('hakr'), ('hakuna'), ('hakunamatata'),
+    ('halberd'), ('halcon'), ('halcyon'), ('hale'), ('haley'), ('half'), ('halflif'), ('halflife'),
+    ('halfmoon'), ('halford'), ('halfpint'), ('halftime')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('halfway'), ('halibut'), ('halifax'), ('halima'), ('halina'), ('hall'), ('halle'), ('hallelujah'),
+    ('haller'), ('halley'), ('hallie'), ('hallmark'), ('hallo'), ('hallodu'), ('hallon'), ('halloo'),
+    ('hallow'), ('hallowboy'), ('hallowee'), ('halloween'), ('hallway'), ('halo'), ('halogen'), ('halohalo'),
+    ('haloreach'), ('halsted'), ('halt'), ('hamada'), ('hamal'), ('hamann'), ('hamasaki'), ('hambone'),
+    ('hambur'), ('hamburg'), ('hamburge'), ('hamburger'), ('hamdan'), ('hameleon'), ('hamer'), ('hamham'),
+    ('hamid'), ('hamilton'), ('hamish'), ('hamlet'), ('hamlin'), ('hamm'), ('hammarby'), ('hamme'),
+    ('hammer'), ('hammered'), ('hammerfall'), ('hammerhe'), ('hammerhead'), ('hammers'), ('hammerti'), ('hammertime'),
+    ('hammet'), ('hammett'), ('hammie'), ('hammock'), ('hammond'), ('hammy'), ('hamper'), ('hampster'),
+    ('hampton'), ('hamradio'), ('hamster'), ('hamsters'), ('hamtaro'), ('hamzah'), ('hana'), ('hanako'),
+    ('hanalei'), ('hancock'), ('hand'), ('handbag'), ('handbags'), ('handball'), ('handbook'), ('handcuff'),
+    ('handel'), ('handgun'), ('handicap'), ('handily'), ('handiman'), ('handjob'), ('handkerchief'), ('handle'),
+    ('handler'), ('handles'), ('hands'), ('handsoff'), ('handsome'), ('handy'), ('handyman'), ('hanford'),
+    ('hang'), ('hanger'), ('hangers'), ('hanging'), ('hangman'), ('hangout'), ('hangover'), ('hangten'),
+    ('hangtime'), ('hanibal'), ('hank'), ('hanker'), ('hankhank'), ('hankhill'), ('hankster'), ('hankyun'),
+    ('hankyung'), ('hanley'), ('hann'), ('hanna'), ('hannah'), ('hannas'), ('hannele'), ('hannelor'),
+    ('hannes'), ('hanniba'), ('hannibal'), ('hannover'), ('hannover96'), ('hanover'), ('hans'), ('hanse'),
+    ('hansel'), ('hansen'), ('hanshans'), ('hansje'), ('hansol'), ('hansolo'), ('hanson'), ('hanswurst'),
+    ('hanter'), ('hanuma'), ('hanuman'), ('hapkido'), ('happ'), ('happen'), ('happens'), ('happie'),
+    ('happier'), ('happiest'), ('happines'), ('happiness'), ('happpy'), ('happy'), ('happyass'), ('happyboy'),
+    ('happycat'), ('happyday'), ('happydays'), ('happydog'), ('happyface'), ('happyfeet'), ('happyg'), ('happyguy'),
+    ('happyhap'), ('happyhappy'), ('happyjoy'), ('happylife'), ('happyman'), ('happyme'), ('happyness'), ('happyone'),
+    ('happys'), ('happytim'), ('happyy'), ('harada'), ('harakiri'), ('harald'), ('harami'), ('harare'),
+    ('haras'), ('harass'), ('harbin'), ('harbinge'), ('harbinger'), ('harbor'), ('harbour'), ('harcore'),
+    ('harcourt'), ('hard'), ('hard4u'), ('hardass'), ('hardaway'), ('hardball'), ('hardbody'), ('hardc0re'),
+    ('hardcock'), ('hardcor'), ('hardcore'), ('harddick'), ('harddriv'), ('hardee'), ('harden'), ('harder'),
+    ('hardest'), ('hardflip'), ('hardfuck'), ('hardguy'), ('hardhard'), ('hardhat'), ('hardhead'), ('hardi'),
+    ('hardie'), ('hardin'), ('harding'), ('hardkore'), ('hardline'), ('hardluck'), ('hardman'), ('hardon'),
+    ('hardone'), ('hardpack'), ('hardrock'), ('hardtail'), ('hardtime'), ('hardtoon'), ('hardup'), ('hardware'),
+    ('hardwareid'), ('hardwick'), ('hardwood'), ('hardwork'), ('hardy'), ('harekrishna'), ('harem'), ('harhar'),
+    ('hari'), ('haribo'), ('haribol'), ('haring'), ('hariom'), ('harish'), ('harkonen'), ('harkonnen'),
+    ('harlan'), ('harland'), ('harle'), ('harlee'), ('harlem'), ('harlequi'), ('harley'), ('harleyd'),
+    ('harleyma'), ('harleys'), ('harlie'), ('harlock'), ('harlot'), ('harlow'), ('harman'), ('harmless'),
+    ('harmon'), ('harmonic'), ('harmonie'), ('harmony'), ('harness'), ('harol'), ('harold'), ('harp'),
+    ('harper'), ('harpo'), ('harpoon'), ('harpos'), ('harpua'), ('harr'), ('harrahs'), ('harrell'),
+    ('harri'), ('harrie'), ('harrier'), ('harriers'), ('harriet'), ('harringt'), ('harris'), ('harriso'),
+    ('harrison'), ('harrold'), ('harrow'), ('harry'), ('harryb'), ('harryc'), ('harrydog'), ('harryhoo'),
+    ('harryp'), ('harrypot'), ('harrypotte'), ('harrypotter'), ('harrys'), ('harsha'), ('harsingh'), ('hart'),
+    ('hartford'), ('hartke'), ('hartland'), ('hartley'), ('hartman'), ('hartmann'), ('haruka'), ('harumi'),
+    ('harvard'), ('harve'), ('harvest'), ('harvey'), ('harveys'), ('harvick'), ('harwood'), ('hasan'),
+    ('hasbeen'), ('hasbro'), ('hase'), ('hasegawa'), ('hash'), ('hashem'), ('hasher'), ('hashim'),
+    ('hashish'), ('hasilein'), ('haskell'), ('haslo'), ('hasmik'), ('hass'), ('hassagjs'), ('hassan'),
+    ('hassel'), ('hassle'), ('hasting'), ('hastings'), ('hastur'), ('hasty'), ('hatagaya'), ('hatch'),
+    ('hatcher'), ('hatchet'), ('hate'), ('hatebree'), ('hatebreed'), ('hatehate'), ('hatelove'), ('hateme'),
+    ('hater'), ('haters'), ('hates'), ('hatesyou'), ('hateyou'), ('hatfield'), ('hathor'), ('hatman'),
+    ('hatrack'), ('hatred'), ('hatrick'), ('hatstand'), ('hatter'), ('hatteras'), ('hattie'), ('hattori'),
+    ('hattrick'), ('haunted'), ('haus'), ('hauser'), ('haustool'), ('havana'), ('havanna'), ('havasu'),
+    ('have'), ('haveblue'), ('havefun'), ('haveit'), ('havelock'), ('haven'), ('havens'), ('havesex'),
+    ('having'), ('havoc'), ('havock'), ('havok'), ('havvoc'), ('hawai'), ('hawaii'), ('hawaiian'),
+    ('hawaiiguy'), ('hawk'), ('hawke'), ('hawker'), ('hawkes'), ('hawkey'), ('hawkeye'), ('hawkeyes'),
+    ('hawkhawk'), ('hawking'), ('hawkins'), ('hawkman'), ('hawkmoon'), ('hawks'), ('hawkwind'), ('hawkwood'),
+    ('hawley'), ('hawthorn'), ('hawthorne'), ('hax0red'), ('hayabusa'), ('hayashi'), ('hayastan'), ('hayden'),
+    ('hayduke'), ('hayek'), ('hayes'), ('haylee'), ('hayley'), ('haylie'), ('hayman'), ('haynes'),
+    ('haystack'), ('hayward'), ('haywire'), ('haywood'), ('hazard'), ('haze'), ('hazel'), ('hazelnut'),
+    ('hazmat'), ('hazzard'), ('hball'), ('hbceyjr'), ('hbhlair'), ('hbnekz'), ('hbomb'), ('hbxfhl'),
+    ('hcappres'), ('hcir'), ('hcleeb'), ('hd764nw5d7e1vb1'), ('hd764nw5d7e1vbv'), ('hdbiker'), ('head'), ('headache'),
+    ('headbang'), ('headcase'), ('header'), ('headers'), ('headhead'), ('headhunt'), ('headhunter'), ('headless'),
+    ('headman'), ('headroom'), ('heads'), ('headshot'), ('headspin'), ('heady'), ('healer'), ('healey'),
+    ('healing'), ('health'), ('healthy'), ('hearse'), ('heart'), ('heartagram'), ('heartbeat'), ('heartbre'),
+    ('heartbreaker'), ('heartles'), ('heartless'), ('hearts'), ('hearty'), ('heat'), ('heated'), ('heater'),
+    ('heath'), ('heathe'), ('heatheat'), ('heathen'), ('heather'), ('heatherb'), ('heatherg'), ('heathers'),
+    ('heathrow'), ('heating'), ('heaton'), ('heatwave'), ('heave'), ('heaven'), ('heavenly'), ('heavy'),
+    ('heavyd'), ('heavymet'), ('heavymetal'), ('hebert'), ('hebrew'), ('hebrides'), ('hebron'), ('hecate'),
+    ('heccrbq'), ('hecfkjxrf'), ('hecfkrf'), ('heckfy')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('heckfyf'), ('heckfyxbr'), ('heckle'), ('heckler'), ('hecmax'), ('hecnfv'), ('hecto'), ('hector'),
+    ('hedge'), ('hedgehog'), ('hedges'), ('hedimaptfcor'), ('hedj2n4q'), ('hedonism'), ('hedonist'), ('hedwig'),
+    ('heehaw'), ('heehee'), ('heel'), ('heeled'), ('heeler'), ('heels'), ('heffer'), ('heffner'),
+    ('hefner'), ('hefty'), ('hegel'), ('hegemon'), ('hehe'), ('hehehe'), ('hehehehe'), ('heidelberg'),
+    ('heidi'), ('heididog'), ('heidie'), ('heidiho'), ('heidis'), ('heihei'), ('heike'), ('heiko'),
+    ('heimat'), ('heimdall'), ('heimer'), ('heimlich'), ('hein'), ('heine'), ('heineken'), ('heinlein'),
+    ('heinrich'), ('heinz'), ('heisenberg'), ('heisman'), ('hejhe'), ('hejhej'), ('hejmeddig'), ('hejsan'),
+    ('hektor'), ('helaman'), ('helen'), ('helena'), ('helene'), ('helens'), ('helga'), ('helge'),
+    ('heli'), ('helicopt'), ('helicopter'), ('helios'), ('heliski'), ('helium'), ('helix'), ('hell'),
+    ('hella'), ('hellas'), ('hellbent'), ('hellboun'), ('hellbound'), ('hellboy'), ('hellcat'), ('hellen'),
+    ('hellep'), ('heller'), ('hellfire'), ('hellgate'), ('hellhell'), ('hellhole'), ('hellhoun'), ('hellion'),
+    ('hellish'), ('hellno'), ('hello'), ('hello2u'), ('helloall'), ('hellobaby'), ('hellobob'), ('hellohel'),
+    ('hellohello'), ('hellohi'), ('hellojed'), ('hellokit'), ('hellokitt'), ('hellokitty'), ('helloman'), ('hellome'),
+    ('hellomoto'), ('helloo'), ('hellos'), ('hellothe'), ('hellothere'), ('hellou'), ('hellow'), ('helloween'),
+    ('hellowor'), ('helloworld'), ('helloyou'), ('hellrais'), ('hellraiser'), ('hellsbel'), ('hellsing'), ('hellspaw'),
+    ('hellspawn'), ('hellya'), ('hellyea'), ('hellyeah'), ('hellyes'), ('helmer'), ('helmet'), ('helmut'),
+    ('helo'), ('help'), ('helpdesk'), ('helper'), ('helpful'), ('helphelp'), ('helphost'), ('helping'),
+    ('helpless'), ('helpm'), ('helpme'), ('helpmeno'), ('helsinki'), ('helter'), ('heman'), ('hemant'),
+    ('hemi'), ('hemicuda'), ('hemingwa'), ('hemingway'), ('hemligt'), ('hemlock'), ('hemmelig'), ('hemp'),
+    ('hen3ry'), ('hender'), ('henderso'), ('henderson'), ('hendri'), ('hendrick'), ('hendrik'), ('hendrix'),
+    ('henery'), ('heng'), ('henkel'), ('henkie'), ('henley'), ('hennepin'), ('hennesse'), ('hennessy'),
+    ('henning'), ('henr'), ('henri'), ('henrie'), ('henriett'), ('henrik'), ('henrique'), ('henry'),
+    ('henrys'), ('henshin'), ('hensley'), ('henson'), ('hentai'), ('henti'), ('hepburn'), ('hepcat'),
+    ('heracles'), ('herald'), ('herb'), ('herbal'), ('herbalife'), ('herber'), ('herbert'), ('herbi'),
+    ('herbie'), ('herbs'), ('herbst'), ('herc'), ('hercul'), ('hercule'), ('hercules'), ('herder'),
+    ('here'), ('hereford'), ('herehere'), ('hereiam'), ('heresy'), ('heretic'), ('herewego'), ('hergood'),
+    ('heritage'), ('herkimer'), ('herkules'), ('herm'), ('herman'), ('hermann'), ('hermanni'), ('hermano'),
+    ('hermes'), ('hermine'), ('hermione'), ('hermit'), ('hermite'), ('hermos'), ('hermosa'), ('hernan'),
+    ('hernande'), ('hernandez'), ('hernando'), ('herndon'), ('hernia'), ('hero'), ('heroes'), ('herohero'),
+    ('heroin'), ('heroine'), ('heron'), ('herons'), ('herpderp'), ('herpes'), ('herrera'), ('herring'),
+    ('herschel'), ('hershe'), ('hershey'), ('hershil'), ('herson'), ('hertford'), ('hertha'), ('hertz'),
+    ('herve'), ('herzog'), ('hesham'), ('heskey'), ('heslo'), ('hesoyam'), ('hesoyam123'), ('hess'),
+    ('hesse'), ('hessen'), ('hester'), ('heston'), ('hetfield'), ('hettie'), ('heureka'), ('hevonen'),
+    ('hewett'), ('hewitt'), ('hewlett'), ('hewson'), ('hexagon'), ('hextall'), ('heybaby'), ('heydude'),
+    ('heyhey'), ('heyheyhey'), ('heyjoe'), ('heyjude'), ('heyman'), ('heymoe'), ('heynow'), ('heythere'),
+    ('heywood'), ('heyyo'), ('heyyou'), ('hezekiah'), ('hfccbz'), ('hfccdtn'), ('hfcgbplzq'), ('hfcnbirf'),
+    ('hfcnfvfy'), ('hfgbhf'), ('hfgcjlbz'), ('hfleuf'), ('hfljcnm'), ('hfnfneq'), ('hfpdjl'), ('hfpldfnhb'),
+    ('hfrtnf'), ('hfvbkm'), ('hfvfpfy'), ('hfytnrb'), ('hgasjasg'), ('hgfdsa'), ('hgfedcba'), ('hghghg'),
+    ('hhhh'), ('hhhhh'), ('hhhhhh'), ('hhhhhhh'), ('hhhhhhhh'), ('hhhhhhhhh'), ('hhhhhhhhhh'), ('hhhhhhhhhhh'),
+    ('hialeah'), ('hiawatha'), ('hibees'), ('hibernia'), ('hibernian'), ('hibiscus'), ('hiccup'), ('hicham'),
+    ('hickey'), ('hickman'), ('hickory'), ('hicks'), ('hidalgo'), ('hidden'), ('hide'), ('hideaki'),
+    ('hideaway'), ('hideki'), ('hideout'), ('hiding'), ('hifi'), ('hifive'), ('higashi'), ('higgins'),
+    ('high'), ('highball'), ('highboy'), ('highbury'), ('higher'), ('highest'), ('highfive'), ('highgate'),
+    ('highheel'), ('highheels'), ('highjump'), ('highland'), ('highlander'), ('highlife'), ('highroll'), ('highschool'),
+    ('highspee'), ('hightech'), ('hightide'), ('hightime'), ('hightowe'), ('highway'), ('highwind'), ('hiheels'),
+    ('hihi'), ('hihihi'), ('hihihihi'), ('hihohiho'), ('hijack'), ('hijinx'), ('hijodeputa'), ('hikari'),
+    ('hikaru'), ('hiker'), ('hiking'), ('hilander'), ('hilary'), ('hilaryduff'), ('hilda'), ('hilde'),
+    ('hilfiger'), ('hill'), ('hillary'), ('hillbill'), ('hillbilly'), ('hillcres'), ('hillel'), ('hiller'),
+    ('hilliard'), ('hillman'), ('hills'), ('hillside'), ('hilltop'), ('hillview'), ('hilly'), ('hilmar'),
+    ('hilo'), ('hilton'), ('himalaya'), ('himanshu'), ('himera'), ('himitsu'), ('himmel'), ('himmler'),
+    ('himself'), ('himura'), ('hina'), ('hinata'), ('hinckley'), ('hindustan'), ('hines'), ('hingis'),
+    ('hinton'), ('hip-hop'), ('hipho'), ('hiphop'), ('hippie'), ('hippies'), ('hippo'), ('hippos'),
+    ('hippy'), ('hipster'), ('hiram'), ('hireme'), ('hiro'), ('hirohiro'), ('hiroki'), ('hiroko'),
+    ('hiromi'), ('hiroshi'), ('hirotake'), ('hiroyuki'), ('hirsch'), ('hirsute'), ('hirurg'), ('hisashi'),
+    ('hisham'), ('hispanic'), ('histor'), ('historia'), ('history'), ('hitachi'), ('hitch'), ('hitchcoc'),
+    ('hitech'), ('hithard'), ('hither'), ('hithere'), ('hitler'), ('hitma'), ('hitman'), ('hitme'),
+    ('hitmen'), ('hitomi'), ('hits'), ('hitsquad'), ('hitter'), ('hiya'), ('hiziad'), ('hj8z6e'),
+    ('hjccbz'), ('hjcnbckfd'), ('hjcnbr'), ('hjcnjd'), ('hjkhjk'), ('hjkl'), ('hjklhjkl'), ('hjlbjy'),
+    ('hjlbntkb'), ('hjlbyf'), ('hjpjxrf'), ('hjpjxrf23062007'), ('hjvfhjvf'), ('hjvfir'), ('hjvfirf'), ('hjvfy'),
+    ('hjvfyjd'), ('hjvfyjdf'), ('hjvfynbr'), ('hjvfynbrf'), ('hjvjxrf'), ('hkmp5sd'), ('hmmapi'), ('hn261dn'),
+    ('hoagie'), ('hoangen'), ('hobart'), ('hobbe'), ('hobbes'), ('hobbies'), ('hobbit'), ('hobbiton'),
+    ('hobbits'), ('hobble'), ('hobbs'), ('hobby'), ('hobgoblin'), ('hobie'), ('hobiecat'), ('hobnob'),
+    ('hobo'), ('hoboken'), ('hobson'), ('hobune')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('hocke'), ('hockey'), ('hockeyman'), ('hocus'), ('hocuspocus'), ('hoddle'), ('hoddling'), ('hodge'),
+    ('hodges'), ('hoenix'), ('hoes'), ('hoffman'), ('hoffmann'), ('hoffnung'), ('hofner'), ('hofstra'),
+    ('hogan'), ('hogans'), ('hogdog'), ('hogfan'), ('hogg'), ('hogger'), ('hoghead'), ('hoghog'),
+    ('hogman'), ('hogs'), ('hogtie'), ('hogtied'), ('hogwarts'), ('hogwash'), ('hogwild'), ('hoho'),
+    ('hohoho'), ('hohohoho'), ('hoihoi'), ('hoilamgi'), ('hokie'), ('hokies'), ('hokuto'), ('hola'),
+    ('holahola'), ('holas'), ('holborn'), ('holbrook'), ('holcomb'), ('hold'), ('holde'), ('holdem'),
+    ('holden'), ('holder'), ('holding'), ('holdon'), ('holdup'), ('hole'), ('holeinon'), ('holeinone'),
+    ('holera'), ('holes'), ('holeshot'), ('holger'), ('holida'), ('holiday'), ('holidays'), ('holiness'),
+    ('holio'), ('holl'), ('holla'), ('hollabac'), ('hollaback'), ('hollage'), ('hollan'), ('holland'),
+    ('hollands'), ('holle'), ('holler'), ('holley'), ('holliday'), ('hollie'), ('hollis'), ('holliste'),
+    ('hollister'), ('hollister1'), ('hollow'), ('holloway'), ('holly'), ('hollyb'), ('hollycat'), ('hollydog'),
+    ('hollys'), ('hollywoo'), ('hollywood'), ('hollywood1'), ('hollyy'), ('holman'), ('holmes'), ('hologram'),
+    ('holstein'), ('holsten'), ('holt'), ('holton'), ('holy'), ('holybible'), ('holycow'), ('holycrap'),
+    ('holygrai'), ('holyholy'), ('holyman'), ('holymoly'), ('holyshit'), ('holyspirit'), ('holywood'), ('homage'),
+    ('hombre'), ('hombres'), ('homburg'), ('home'), ('homealone'), ('homebase'), ('homebody'), ('homeboy'),
+    ('homebrew'), ('homedepo'), ('homefree'), ('homegrow'), ('homehome'), ('homeland'), ('homeless'), ('homely'),
+    ('homemade'), ('homepage'), ('homer'), ('homerhom'), ('homerj'), ('homerjay'), ('homero'), ('homers'),
+    ('homersim'), ('homerun'), ('homes'), ('homesick'), ('homestar'), ('hometown'), ('homewood'), ('homework'),
+    ('homeworld'), ('homey'), ('homicide'), ('homie'), ('homies'), ('hommer'), ('hommie'), ('homo'),
+    ('homyak'), ('honcho'), ('honda'), ('hondaa'), ('hondaacc'), ('hondac'), ('hondacar'), ('hondacbr'),
+    ('hondaciv'), ('hondacivic'), ('hondacr'), ('hondacrv'), ('hondacrx'), ('hondaman'), ('hondas'), ('hondas2000'),
+    ('hondasi'), ('hondastars'), ('hondavfr'), ('hondo'), ('honduras'), ('hone'), ('honest'), ('honesty'),
+    ('honey'), ('honeyb'), ('honeybab'), ('honeybea'), ('honeybear'), ('honeybee'), ('honeyboy'), ('honeybun'),
+    ('honeydew'), ('honeydog'), ('honeymoon'), ('honeypie'), ('honeypot'), ('honeys'), ('honeyz'), ('hong'),
+    ('hongfund'), ('hongkong'), ('honker'), ('honkey'), ('honky'), ('honney'), ('honolulu'), ('honor'),
+    ('honors'), ('honour'), ('hooch'), ('hoochie'), ('hood'), ('hoodlum'), ('hoodoo'), ('hoodyhoo'),
+    ('hoohaa'), ('hoohoo'), ('hook'), ('hookah'), ('hooked'), ('hookedup'), ('hookem'), ('hooker'),
+    ('hookers'), ('hooks'), ('hookup'), ('hoolef'), ('hooligan'), ('hooligans'), ('hoop'), ('hooper'),
+    ('hoopla'), ('hoople'), ('hoops'), ('hoopstar'), ('hoopster'), ('hoopty'), ('hoorah'), ('hooray'),
+    ('hoosier'), ('hoosiers'), ('hoot'), ('hootch'), ('hooter'), ('hooters'), ('hoothoot'), ('hootie'),
+    ('hoover'), ('hooyah'), ('hopalong'), ('hope'), ('hopeful'), ('hopefull'), ('hopehope'), ('hopeless'),
+    ('hophop'), ('hoping'), ('hopkig'), ('hopkins'), ('hoppe'), ('hoppel'), ('hopper'), ('hoppers'),
+    ('hoppie'), ('hopping'), ('hoppla'), ('hoppy'), ('hops'), ('horace'), ('horacio'), ('horatio'),
+    ('horde'), ('hore'), ('hores'), ('horizon'), ('horizons'), ('hormone'), ('horn'), ('hornball'),
+    ('hornblow'), ('horndog'), ('horndogg'), ('horne'), ('horned'), ('hornee'), ('horner'), ('hornet'),
+    ('hornets'), ('horney'), ('hornie'), ('hornier'), ('horns'), ('horntoad'), ('horny'), ('horny4u'),
+    ('hornyboy'), ('hornydog'), ('hornyguy'), ('hornyman'), ('hornyme'), ('hornyone'), ('hornys'), ('hornyy'),
+    ('horosho'), ('horrible'), ('horror'), ('horse'), ('horsecoc'), ('horseman'), ('horsemen'), ('horsens'),
+    ('horsepow'), ('horsepower'), ('horses'), ('horseshi'), ('horseshit'), ('horsesho'), ('horsey'), ('horst'),
+    ('hortense'), ('horton'), ('horus'), ('hoschi'), ('hose'), ('hosebag'), ('hosehead'), ('hoseman'),
+    ('hoser'), ('hosers'), ('hosiery'), ('hoskins'), ('hospital'), ('hoss'), ('hossman'), ('host'),
+    ('hostage'), ('hosted'), ('hostel'), ('hostess'), ('hostile'), ('hosting'), ('hosty'), ('hot2trot'),
+    ('hot4sex'), ('hot4u'), ('hot4you'), ('hotass'), ('hotbabe'), ('hotbabes'), ('hotbitch'), ('hotblond'),
+    ('hotbo'), ('hotbod'), ('hotbody'), ('hotboi'), ('hotbot'), ('hotbox'), ('hotboy'), ('hotboys'),
+    ('hotboyz'), ('hotbuns'), ('hotcakes'), ('hotcat'), ('hotchick'), ('hotchkis'), ('hotcock'), ('hotcum'),
+    ('hotcunt'), ('hotdamn'), ('hotdick'), ('hotdo'), ('hotdog'), ('hotdogs'), ('hotel'), ('hotels'),
+    ('hotfeet'), ('hotfrank'), ('hotfries'), ('hotfuck'), ('hotfun'), ('hotgirl'), ('hotgirls'), ('hotguy'),
+    ('hothead'), ('hothot'), ('hothotho'), ('hothothot'), ('hotice'), ('hotlanta'), ('hotlegs'), ('hotline'),
+    ('hotlips'), ('hotlove'), ('hotmale'), ('hotmama'), ('hotman'), ('hotmom'), ('hotmomma'), ('hotmove'),
+    ('hotness'), ('hotone'), ('hotpants'), ('hotpink'), ('hotporn'), ('hotpot'), ('hotpuss'), ('hotpussy'),
+    ('hotrats'), ('hotred'), ('hotrob'), ('hotrod'), ('hotrods'), ('hots'), ('hotsauce'), ('hotsex'),
+    ('hotshit'), ('hotshot'), ('hotshots'), ('hotsocks'), ('hotspot'), ('hotspur'), ('hotspurs'), ('hotstud'),
+    ('hotstuf'), ('hotstuff'), ('hott'), ('hotte'), ('hotteens'), ('hotter'), ('hottest'), ('hotti'),
+    ('hottie'), ('hotties'), ('hottsexx'), ('hottub'), ('hottuna'), ('hotty'), ('hotwater'), ('hotwheel'),
+    ('hotwheels'), ('hotwife'), ('hotwire'), ('hotwomen'), ('houdini'), ('houghton'), ('houhou'), ('hound'),
+    ('hounddog'), ('houndog'), ('hounds'), ('hour'), ('houra'), ('house'), ('housebed'), ('housecat'),
+    ('housedoo'), ('housemou'), ('housemus'), ('housemusic'), ('housepen'), ('houser'), ('houses'), ('housetab'),
+    ('housewife'), ('housewifes'), ('housing'), ('houston'), ('hovepark'), ('hover'), ('howard'), ('howareyo'),
+    ('howareyou'), ('howdie'), ('howdy'), ('howe'), ('howell'), ('howhigh'), ('howie'), ('howies'),
+    ('howitzer'), ('howl'), ('howler'), ('howlin'), ('howling'), ('hownow'), ('howser'), ('hoyas'),
+    ('hoyasaxa'), ('hp189dn'), ('hpesoj'), ('hpk2qc'), ('hpkaaa'), ('hpojscan'), ('hpotter'), ('hpsalgay'),
+    ('hr3ytm'), ('hrfzlz'), ('hrothgar'), ('hrpsy'), ('hrvatska'), ('hshfd4n279'), ('htcgtrn'), ('htcnjhfy'),
+    ('htdjk.wbz'), ('htlbcrf'), ('html'), ('htmlctl')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('htptlf'), ('htrkfvf'), ('htubcnhfwbz'), ('htubjy'), ('htubyf'), ('htubyjxrf'), ('htvjyn'), ('htyfnf'),
+    ('huai'), ('huan'), ('huang'), ('huangjin1987'), ('huawei'), ('hubba'), ('hubbabubba'), ('hubbahub'),
+    ('hubbahubba'), ('hubbard'), ('hubbell'), ('hubble'), ('hubby'), ('hubcap'), ('hubert'), ('hubertus'),
+    ('hubris'), ('huck'), ('huckfinn'), ('huckle'), ('huckster'), ('hudhud'), ('hudson'), ('huevos'),
+    ('huey'), ('huffman'), ('hufmqw'), ('huge'), ('hugecock'), ('hugedick'), ('hugetits'), ('hugger'),
+    ('huggie'), ('huggies'), ('huggybea'), ('hugh'), ('hughes'), ('hughjass'), ('hugo'), ('hugoboss'),
+    ('hugohugo'), ('hugs'), ('hugues'), ('huhu'), ('huhuhu'), ('huivam'), ('hujhuj'), ('hulahoop'),
+    ('huligan'), ('hulk'), ('hulkhoga'), ('hulkhulk'), ('hulkster'), ('hull'), ('hullcity'), ('human'),
+    ('humanity'), ('humanoid'), ('humans'), ('humber'), ('humbert'), ('humberto'), ('humble'), ('humblepi'),
+    ('humboldt'), ('humbug'), ('humerus'), ('humility'), ('humme'), ('hummel'), ('hummer'), ('hummingb'),
+    ('hump'), ('humper'), ('humphrey'), ('humpin'), ('humpty'), ('humtum'), ('hunbun'), ('hund'),
+    ('hunden'), ('hundred'), ('hung'), ('hungary'), ('hunger'), ('hunglow'), ('hungry'), ('hungwell'),
+    ('hunk'), ('hunnie'), ('hunny'), ('hunnybun'), ('hunnybunny'), ('hunt'), ('hunt4red'), ('hunte'),
+    ('hunted'), ('hunter'), ('hunters'), ('huntin'), ('hunting'), ('huntress'), ('huntsman'), ('hurdle'),
+    ('hurdles'), ('hurensohn'), ('hurley'), ('huron'), ('hurrican'), ('hurricane'), ('hurricanes'), ('hurryup'),
+    ('hurst'), ('hurtme'), ('hurts'), ('hurzhurz'), ('husain'), ('husband'), ('huseyn'), ('hush'),
+    ('hushhush'), ('husker'), ('huskerdu'), ('huskers'), ('huskie'), ('huskies'), ('husky'), ('hussain'),
+    ('hussar'), ('hussein'), ('husten'), ('hustle'), ('hustler'), ('hustlers'), ('huston'), ('hutch'),
+    ('hutchins'), ('huthut'), ('hutton'), ('huxley'), ('huzzah'), ('hv120dv'), ('hvac'), ('hxp4life'),
+    ('hxxrvwcy'), ('hyacinth'), ('hyannis'), ('hybrid'), ('hyde'), ('hydepark'), ('hyderabad'), ('hydra'),
+    ('hydrant'), ('hydro'), ('hydrogen'), ('hydros'), ('hygge'), ('hyman'), ('hymen'), ('hype'),
+    ('hyper'), ('hyperion'), ('hyperlit'), ('hypnodanny'), ('hypnosis'), ('hyrule'), ('hysteria'), ('hyundai'),
+    ('hzgg9umc'), ('hzze929b'), ('i62gbq'), ('i81b4u'), ('iaapptfcor'), ('iago'), ('iamawesome'), ('iambigal'),
+    ('iambob'), ('iamcool'), ('iamdaman'), ('iamfree'), ('iamgay'), ('iamgod'), ('iamgood'), ('iamgreat'),
+    ('iamhappy'), ('iamhere'), ('iamhorny'), ('iaminlove'), ('iamking'), ('iamme'), ('iampurehaha2'), ('iamsam'),
+    ('iamsexy'), ('iamsocool'), ('iamsorry'), ('iamthebe'), ('iamthema'), ('iamtheman'), ('iamtheone'), ('ianian'),
+    ('ibane'), ('ibanez'), ('ibelieve'), ('iberia'), ('ibill'), ('ibilljpf'), ('ibilltes'), ('ibis'),
+    ('ibiza'), ('ibmibm'), ('ibpjahtybz'), ('ibragim'), ('ibragimov'), ('ibragimova'), ('ibrahim'), ('ibxnsm'),
+    ('ibytkm'), ('icam4usb'), ('icandoit'), ('icarus'), ('icculus'), ('iceage'), ('icebaby'), ('icebear'),
+    ('iceberg'), ('icebox'), ('iceboy'), ('icebreak'), ('icecold'), ('icecrea'), ('icecream'), ('icecube'),
+    ('icecubes'), ('iced'), ('icedog'), ('icefire'), ('icehocke'), ('icehockey'), ('icehouse'), ('iceice'),
+    ('iceking'), ('iceland'), ('icema'), ('iceman'), ('icenine'), ('icepick'), ('icequeen'), ('iceskate'),
+    ('icetea'), ('icewater'), ('icewind'), ('ichabod'), ('ichbin'), ('ichbins'), ('ichiban'), ('ichigo'),
+    ('iching'), ('ichiro'), ('ichliebe'), ('ichwill'), ('icicle'), ('icky'), ('icon'), ('iconnect'),
+    ('icpicp'), ('icthus'), ('icwtutor'), ('idaho'), ('iddqd'), ('iddqdd'), ('iddqdiddqd'), ('iddqdidkfa'),
+    ('idea'), ('ideal'), ('ideas'), ('idedevicep0t'), ('idefix'), ('identity'), ('ididit'), ('idinahui'),
+    ('idinaxyi'), ('idiocy'), ('idiom'), ('idiot'), ('idiota'), ('idiots'), ('idkfa'), ('idlewild'),
+    ('idol'), ('idontcar'), ('idontcare'), ('idontkno'), ('idontknow'), ('idontknow1'), ('idontno'), ('idspispo'),
+    ('idspispopd'), ('idteul'), ('idunno'), ('ie4bak'), ('iecnhbr'), ('iecont'), ('ifghjb'), ('ifhbyufy'),
+    ('ifiksr'), ('ifkfdf'), ('ifoptfcor'), ('iforget'), ('iforgot'), ('iforgoti'), ('iforgotit'), ('ifufkbyf'),
+    ('ifvbkm'), ('igeldcheat'), ('iggy'), ('iggyiggy'), ('iggypop'), ('iglesias'), ('igloo'), ('ignaci'),
+    ('ignacio'), ('ignatenko'), ('ignatius'), ('ignatz'), ('ignite'), ('ignition'), ('ignore'), ('igor'),
+    ('igorek'), ('igorigor'), ('igromania'), ('iguana'), ('ihateniggers'), ('ihateu'), ('ihateyo'), ('ihateyou'),
+    ('ihgfedcba'), ('iiii'), ('iiiii'), ('iiiiii'), ('iiiiiii'), ('iiiiiiii'), ('iiiiiiiiii'), ('iisrstas'),
+    ('iiyama'), ('ijrjkfl'), ('ijrjkflrf'), ('ikaika'), ('ikalcr'), ('ikari'), ('ikarus'), ('ikickass'),
+    ('ikikik'), ('ikillyou'), ('ikke'), ('ikkeikke'), ('iklo'), ('ikmujn'), ('ikoiko'), ('ilaria'),
+    ('ildar'), ('ileana'), ('ilford'), ('ilikecheese'), ('ilikeike'), ('ilikeit'), ('ilikepie'), ('ilikepor'),
+    ('ilikeporn'), ('ilikepussy'), ('ilikesex'), ('ilikeyou'), ('ilkaev'), ('illegal'), ('illest'), ('illiad'),
+    ('illicit'), ('illini'), ('illinois'), ('illmatic'), ('illumina'), ('illuminati'), ('illusion'), ('illusions'),
+    ('illwill'), ('iloilo'), ('ilona'), ('ilonka'), ('ilove'), ('iloveali'), ('iloveamy'), ('iloveass'),
+    ('ilovebig'), ('iloveboobies'), ('ilovebri'), ('ilovecock'), ('ilovedan'), ('ilovedick'), ('ilovefee'), ('ilovegirls'),
+    ('ilovegod'), ('iloveher'), ('ilovehim'), ('iloveindia'), ('iloveit'), ('ilovejen'), ('ilovejes'), ('ilovejesus'),
+    ('ilovejoe'), ('ilovekat'), ('ilovekim'), ('ilovelife'), ('iloveluc'), ('ilovelucy'), ('ilovem'), ('ilovemar'),
+    ('iloveme'), ('ilovemom'), ('ilovemusic'), ('ilovemyfamily'), ('ilovemylife'), ('ilovemyself'), ('ilovepie'), ('ilovepor'),
+    ('iloveporn'), ('ilovepus'), ('ilovepussy'), ('ilovesam'), ('ilovesex'), ('ilovetit'), ('ilovetits'), ('iloveu'),
+    ('iloveyo'), ('iloveyou'), ('iloveyou11'), ('iloveyou12'), ('iloveyou123'), ('iloveyou143'), ('iloveyou22'), ('iloveyoubaby'),
+    ('ilshat'), ('ilusha'), ('iluvatar'), ('iluvgirl'), ('iluvit'), ('iluvlisa'), ('iluvme'), ('iluvporn'),
+    ('iluvsex'), ('iluvtits'), ('iluvu'), ('ilya'), ('ilyas'), ('im2cool'), ('imac'), ('imaccess'),
+    ('imafreak'), ('image'), ('imagery'), ('images'), ('imagin'), ('imagination'), ('imagine'), ('imaging'),
+    ('imajica'), ('imaloser'), ('iman'), ('imani'), ('imation'), ('imawesome'), ('imback'), ('imbored'),
+    ('imbue'), ('imcool'), ('imdaman'), ('imelda'), ('imes'), ('imesh'), ('imfree'), ('imgood'),
+    ('imhere'), ('imhome'), ('imhorny'), ('imhotep'), ('imin'), ('imissu'), ('imissyou'), ('imjakie123'),
+    ('imladris'), ('immense'), ('immorta'), ('immortal')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('immune'), ('imogen'), ('impact'), ('impala'), ('impalas'), ('impalass'), ('impaler'), ('impeach'),
+    ('imperato'), ('imperator'), ('imperia'), ('imperial'), ('imperium'), ('implant'), ('implants'), ('import'),
+    ('importan'), ('important'), ('impossib'), ('impossible'), ('impress'), ('impreza'), ('impuls'), ('impulse'),
+    ('imran'), ('imrankhan'), ('imsexy'), ('imsingle'), ('imsocool'), ('imtheman'), ('imzadi'), ('inandout'),
+    ('inbed'), ('inbhkbw'), ('inca'), ('incest'), ('inches'), ('incident'), ('include'), ('includecatal'),
+    ('incognit'), ('incognito'), ('income'), ('incoming'), ('incorrect'), ('incredible'), ('incubus'), ('indabag'),
+    ('indaclub'), ('indahous'), ('indahouse'), ('indain'), ('indeed'), ('indeep'), ('independ'), ('independent'),
+    ('index'), ('indi'), ('india'), ('indian'), ('indiana'), ('indianali'), ('indianer'), ('indians'),
+    ('indica'), ('indie'), ('indien'), ('indies'), ('indig'), ('indiglo'), ('indigo'), ('indio'),
+    ('indira'), ('indobokep'), ('indon'), ('indonesi'), ('indonesia'), ('indoor'), ('indra'), ('indu'),
+    ('indulge'), ('indurain'), ('industry'), ('indy'), ('indycar'), ('indycars'), ('ineedajo'), ('ineedajob'),
+    ('ineedhelp'), ('ineedsex'), ('ineedyou'), ('inertia'), ('inessa'), ('inetcfg'), ('inetopts'), ('infalicall'),
+    ('infamous'), ('infantry'), ('infect'), ('infected'), ('infernal'), ('inferno'), ('infest'), ('infidel'),
+    ('infierno'), ('infinit'), ('infinite'), ('infiniti'), ('infinity'), ('infix'), ('inflames'), ('info'),
+    ('inform'), ('informat'), ('informatic'), ('information'), ('informer'), ('infotech'), ('infra'), ('infrared'),
+    ('inga'), ('ingeborg'), ('ingenier'), ('ingersol'), ('ingmar'), ('ingo'), ('ingodwetrust'), ('ingot'),
+    ('ingraham'), ('ingram'), ('ingres'), ('ingress'), ('ingri'), ('ingrid'), ('inhale'), ('inheat'),
+    ('inhere'), ('inhouse'), ('initial'), ('initiald'), ('injector'), ('injury'), ('inkjet'), ('inkognito'),
+    ('inky'), ('inline'), ('inlove'), ('inman'), ('inna'), ('innate'), ('innocent'), ('innochka'),
+    ('innova'), ('innow'), ('innuendo'), ('inout'), ('insan'), ('insane'), ('insanity'), ('insdprgm'),
+    ('insect'), ('insecure'), ('inseng'), ('insert'), ('insertion'), ('insertions'), ('inshallah'), ('inside'),
+    ('insider'), ('insight'), ('insignia'), ('insomnia'), ('insomniac'), ('inspect'), ('inspecto'), ('inspector'),
+    ('inspire'), ('inspired'), ('inspiron'), ('instagram'), ('install'), ('installdevic'), ('installsqlst'), ('installutil'),
+    ('instant'), ('instation'), ('instinct'), ('institut'), ('instruct'), ('insulin'), ('insuranc'), ('insurance'),
+    ('insure'), ('intake'), ('integer'), ('integra'), ('integral'), ('integrit'), ('integrity'), ('intel'),
+    ('intelinside'), ('intell'), ('intelligence'), ('intense'), ('intent'), ('intents'), ('inter'), ('interacial'),
+    ('interact'), ('intercep'), ('interceptor'), ('intercom'), ('intercourse'), ('interdit'), ('interest'), ('interests'),
+    ('interex'), ('interfaces'), ('interior'), ('intermil'), ('intermilan'), ('intern'), ('internacional'), ('internal'),
+    ('internat'), ('international'), ('interne'), ('internet'), ('interpol'), ('interrupt'), ('intersta'), ('intervention'),
+    ('intheass'), ('intheend'), ('inthere'), ('intimate'), ('intj3a'), ('into'), ('intoit'), ('intranet'),
+    ('intrepid'), ('intrigue'), ('introubl'), ('intrude'), ('intruder'), ('intubate'), ('inuyash'), ('inuyasha'),
+    ('invader'), ('invalid'), ('invalidp'), ('invasion'), ('invent'), ('inventor'), ('invernes'), ('inverse'),
+    ('invest'), ('investment'), ('investor'), ('invictus'), ('invincible'), ('invis'), ('invisibl'), ('invisible'),
+    ('invite'), ('invoice'), ('inxs'), ('inxsinxs'), ('ioanna'), ('iodine'), ('ioio'), ('ioioio'),
+    ('iomega'), ('ionic'), ('iopiop'), ('iowa'), ('iownyou'), ('ipanema'), ('iphone'), ('ipo54tj45uy856'),
+    ('ipod'), ('ipodnano'), ('ipoipo'), ('iponow'), ('ipswich'), ('ipswitch'), ('iraffert'), ('iraida'),
+    ('iraira'), ('irairaa'), ('irakli'), ('iran'), ('iraq'), ('irelan'), ('ireland'), ('irena'),
+    ('irene'), ('irfan'), ('iridium'), ('irie'), ('irina'), ('irinka'), ('iris'), ('irish'),
+    ('irisha'), ('irishboy'), ('irishka'), ('irishlad'), ('irishman'), ('irisiris'), ('iriska'), ('iriver'),
+    ('irjkmybr'), ('irkutsk'), ('irland'), ('irma'), ('irnbru'), ('iro4ka'), ('irochka'), ('irock'),
+    ('iron'), ('ironbird'), ('ironchef'), ('ironcity'), ('ironclad'), ('ironcouc'), ('irondesk'), ('irondoor'),
+    ('ironfish'), ('ironfist'), ('irongate'), ('irongoat'), ('ironhead'), ('ironhors'), ('ironhorse'), ('ironic'),
+    ('ironkitt'), ('ironlung'), ('ironma'), ('ironmaid'), ('ironmaiden'), ('ironman'), ('ironmike'), ('ironpen'),
+    ('ironpony'), ('ironroad'), ('ironside'), ('ironsink'), ('irontree'), ('ironwood'), ('irusik'), ('irvin'),
+    ('irvine'), ('irving'), ('irwin'), ('is211tn'), ('is3yeusc'), ('is_a_bot'), ('isaac'), ('isaacs'),
+    ('isabe'), ('isabel'), ('isabela'), ('isabell'), ('isabella'), ('isabelle'), ('isaeva'), ('isaia'),
+    ('isaiah'), ('isakov'), ('isback'), ('isbest'), ('iscariot'), ('iscool'), ('isdaman'), ('isdead'),
+    ('iseedeadpeople'), ('iseeyou'), ('isengard'), ('isetup'), ('isgay'), ('isgod'), ('isgood'), ('isgreat'),
+    ('ishard'), ('ishikawa'), ('ishmael'), ('ishorny'), ('ishot'), ('ishtar'), ('isidor'), ('isidora'),
+    ('isidoro'), ('isidro'), ('isildur'), ('isis'), ('isisisis'), ('iskakov'), ('iskander'), ('islam'),
+    ('islamabad'), ('islan'), ('island'), ('islander'), ('islanders'), ('islands'), ('ismae'), ('ismael'),
+    ('ismail'), ('ismailov'), ('ismailova'), ('ismayil'), ('isnice'), ('isobel'), ('isolde'), ('isotta'),
+    ('isotwe'), ('israe'), ('israel'), ('issexy'), ('issmall'), ('issue'), ('issues'), ('istanbu'),
+    ('istanbul'), ('isthebes'), ('isthebest'), ('istheman'), ('istina'), ('istvan'), ('isvipebaby'), ('isxxxvip'),
+    ('itachi'), ('itachi1995'), ('itali'), ('italia'), ('italian'), ('italiano'), ('italians'), ('italie'),
+    ('italien'), ('italy'), ('itch'), ('itchitch'), ('itchy'), ('itdoes'), ('itdxtyrj'), ('ithaca'),
+    ('itin'), ('itisme'), ('itout'), ('itsasecret'), ('itsme'), ('itsmee'), ('itsmine'), ('itsmylife'),
+    ('itstime'), ('itworks'), ('iubire'), ('iuliana'), ('iuytrewq'), ('ivan'), ('ivana'), ('ivanhoe'),
+    ('ivanivan'), ('ivanivanov'), ('ivanka'), ('ivanko'), ('ivanna'), ('ivanov'), ('ivanova'), ('ivanovna'),
+    ('ivashka'), ('iverso'), ('iverson'), ('ivette'), ('ivonne'), ('ivory'), ('ivycold'), ('iwanna'),
+    ('iwant'), ('iwantin'), ('iwantit'), ('iwantsex'), ('iwantu'), ('iwantyou'), ('iwillwin'), ('iwojima'),
+    ('iwonka'), ('iyaayas'), ('iyaoyas'), ('iyehjr'), ('izabela'), ('izabella'), ('izolda'), ('izumrud'),
+    ('izzard'), ('izzicam'), ('izzy'), ('j0nathan')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('j0rdan'), ('j0shua'), ('j123456789'), ('j3qq4h7h2v'), ('jaan'), ('jaba'), ('jabari'), ('jabba'),
+    ('jabbahut'), ('jabbar'), ('jabber'), ('jabberwo'), ('jabell'), ('jabo'), ('jabroni'), ('jacare'),
+    ('jachin'), ('jacinda'), ('jacinta'), ('jack'), ('jackal'), ('jackaroo'), ('jackas'), ('jackass'),
+    ('jackasss'), ('jackdani'), ('jackdaniels'), ('jackdaw'), ('jackdog'), ('jacked'), ('jackee'), ('jackel'),
+    ('jacker'), ('jacket'), ('jackets'), ('jackfros'), ('jackfrost'), ('jackfrui'), ('jackhamm'), ('jackhammer'),
+    ('jacki'), ('jackie'), ('jackiech'), ('jackin'), ('jacking'), ('jackjack'), ('jackle'), ('jacklyn'),
+    ('jackman'), ('jackme'), ('jackmeof'), ('jacko'), ('jackoff'), ('jackpot'), ('jackruss'), ('jackryan'),
+    ('jacks'), ('jackso'), ('jackson'), ('jacksons'), ('jacksparrow'), ('jackster'), ('jacky'), ('jackyboy'),
+    ('jackyl'), ('jaclyn'), ('jaco'), ('jacob'), ('jacobb'), ('jacobe'), ('jacobo'), ('jacobs'),
+    ('jacobsen'), ('jacobson'), ('jacobus'), ('jacobyte'), ('jacopo'), ('jacque'), ('jacqueli'), ('jacqueline'),
+    ('jacques'), ('jacqui'), ('jacquie'), ('jacuzzi'), ('jada'), ('jadakiss'), ('jade'), ('jaded'),
+    ('jadejade'), ('jaden'), ('jadzia'), ('jaeger'), ('jaffa'), ('jager'), ('jagged'), ('jagger'),
+    ('jagman'), ('jagoda'), ('jagoff'), ('jagr'), ('jags'), ('jagua'), ('jaguar'), ('jaguares'),
+    ('jaguars'), ('jaguarxj'), ('jaguarxk'), ('jahbless'), ('jahjah'), ('jahlove'), ('jaiden'), ('jaihind'),
+    ('jail'), ('jailbait'), ('jailbird'), ('jailer'), ('jaimatadi'), ('jaime'), ('jaimie'), ('jaimito'),
+    ('jaja'), ('jajaj'), ('jajaja'), ('jajajaja'), ('jakarta'), ('jake'), ('jakedog'), ('jakejaka'),
+    ('jakejake'), ('jakeman'), ('jakers'), ('jakes'), ('jakester'), ('jakeyboy'), ('jakob'), ('jakub'),
+    ('jalapeno'), ('jalisco'), ('jama'), ('jamaal'), ('jamaic'), ('jamaica'), ('jamaican'), ('jamaika'),
+    ('jamais'), ('jamal'), ('jamall'), ('jamar'), ('jambo'), ('jamboree'), ('jambos'), ('jamdown'),
+    ('jame'), ('jameel'), ('james'), ('jamesa'), ('jamesb'), ('jamesbon'), ('jamesbond'), ('jamesbond007'),
+    ('jamesc'), ('jamesd'), ('jamesdea'), ('jamese'), ('jamesf'), ('jamesg'), ('jamesh'), ('jamesj'),
+    ('jamesjames'), ('jamesk'), ('jamesl'), ('jameslee'), ('jameslewis'), ('jamesm'), ('jamesn'), ('jameso'),
+    ('jameson'), ('jamesp'), ('jamesr'), ('jamess'), ('jamessss'), ('jamest'), ('jamesw'), ('jamesy'),
+    ('jami'), ('jamie'), ('jamieb'), ('jamied'), ('jamielee'), ('jamies'), ('jamieson'), ('jamila'),
+    ('jamiroquai'), ('jamison'), ('jamjam'), ('jamjar'), ('jammer'), ('jammers'), ('jammie'), ('jammin'),
+    ('jamming'), ('jammy'), ('jammygirl'), ('jams'), ('jamshid'), ('jana'), ('janajana'), ('janaki'),
+    ('janbam'), ('jancok'), ('jander'), ('jandikkz'), ('jane'), ('janeair'), ('janeen'), ('janeiro'),
+    ('janejane'), ('janek'), ('janel'), ('janell'), ('janelle'), ('janes'), ('janessa'), ('janet'),
+    ('janete'), ('janeth'), ('janetj'), ('janets'), ('janett'), ('janette'), ('janeway'), ('janic'),
+    ('janice'), ('janie'), ('janin'), ('janina'), ('janine'), ('janis'), ('janitor'), ('janjan'),
+    ('janna'), ('janne'), ('jannie'), ('jannik'), ('janos'), ('jansen'), ('janson'), ('jansport'),
+    ('janssen'), ('jansson'), ('jantje'), ('januar'), ('januari'), ('january'), ('janus'), ('janusz'),
+    ('janvier'), ('janwood'), ('japan'), ('japanees'), ('japanes'), ('japanese'), ('jardin'), ('jardine'),
+    ('jared'), ('jaredleto'), ('jareth'), ('jarhead'), ('jarjar'), ('jarman'), ('jarod'), ('jaroslav'),
+    ('jarred'), ('jarrell'), ('jarret'), ('jarrett'), ('jarrod'), ('jarule'), ('jarvis'), ('jas4an'),
+    ('jasja'), ('jasjas'), ('jasman'), ('jasmi'), ('jasmin'), ('jasmina'), ('jasmine'), ('jasmine123'),
+    ('jasmines'), ('jaso'), ('jason'), ('jasona'), ('jasonb'), ('jasonc'), ('jasond'), ('jasong'),
+    ('jasonh'), ('jasonj'), ('jasonk'), ('jasonlee'), ('jasonm'), ('jasonn'), ('jasonp'), ('jasonr'),
+    ('jasons'), ('jasont'), ('jasonw'), ('jasonx'), ('jaspal'), ('jaspe'), ('jasper'), ('jaspers'),
+    ('java'), ('javabean'), ('javajava'), ('javaman'), ('javany'), ('javelin'), ('javelina'), ('javert'),
+    ('javie'), ('javier'), ('jawa'), ('jawbone'), ('jawbreak'), ('jaws'), ('jaws3d'), ('jaxson'),
+    ('jaxx'), ('jaybee'), ('jaybird'), ('jayboy'), ('jayc'), ('jaycee'), ('jaycob'), ('jayde'),
+    ('jaydee'), ('jayden'), ('jaydog'), ('jayhawk'), ('jayhawks'), ('jayja'), ('jayjay'), ('jaykay'),
+    ('jaylan'), ('jaylen'), ('jaylyn'), ('jayman'), ('jayme'), ('jaymz'), ('jayne'), ('jaynes'),
+    ('jaypee'), ('jays'), ('jayson'), ('jaysoncj'), ('jaytee'), ('jayz'), ('jazira'), ('jazman'),
+    ('jazmi'), ('jazmin'), ('jazmine'), ('jazmyn'), ('jazz'), ('jazzbass'), ('jazzbo'), ('jazzed'),
+    ('jazzer'), ('jazzie'), ('jazzjazz'), ('jazzman'), ('jazzmin'), ('jazzmine'), ('jazzy'), ('jazzzz'),
+    ('jbaby'), ('jbird'), ('jbjbjb'), ('jblaze'), ('jblpro'), ('jbond'), ('jbruton'), ('jcasas'),
+    ('jcjcjc'), ('jcnhjd'), ('jcyjdf'), ('jdavis'), ('jdeere'), ('jdog'), ('jdogg'), ('jeadmi'),
+    ('jealous'), ('jean'), ('jeanett'), ('jeanette'), ('jeanie'), ('jeanine'), ('jeanjean'), ('jeanluc'),
+    ('jeanmarc'), ('jeanna'), ('jeanne'), ('jeannett'), ('jeannie'), ('jeannine'), ('jeannot'), ('jeanpaul'),
+    ('jeans'), ('jearly'), ('jedi'), ('jedidiah'), ('jedijedi'), ('jediknig'), ('jediknight'), ('jedimast'),
+    ('jedimaster'), ('jeebus'), ('jeejee'), ('jeep'), ('jeepcj'), ('jeeper'), ('jeepers'), ('jeepin'),
+    ('jeepjeep'), ('jeepman'), ('jeepster'), ('jeeptj'), ('jeetkune'), ('jeeves'), ('jeff'), ('jeffbeck'),
+    ('jeffer'), ('jeffers'), ('jefferso'), ('jefferson'), ('jeffery'), ('jeffff'), ('jeffgord'), ('jeffgordon'),
+    ('jeffhardy'), ('jeffie'), ('jeffjeff'), ('jeffre'), ('jeffrey'), ('jeffreys'), ('jeffro'), ('jeffry'),
+    ('jeffy'), ('jehova'), ('jehovah'), ('jehuty'), ('jejeje'), ('jekyll'), ('jelena'), ('jello'),
+    ('jellob'), ('jelloo'), ('jellos'), ('jelly'), ('jellybea'), ('jellybean'), ('jellybel'), ('jellyfis'),
+    ('jellyfish'), ('jellyman'), ('jelszo'), ('jelway'), ('jembut'), ('jemima'), ('jemoeder'), ('jena'),
+    ('jendos'), ('jenechka'), ('jenelle'), ('jenifer'), ('jeniffer'), ('jenjen'), ('jenkin'), ('jenkins'),
+    ('jenn'), ('jenna'), ('jennah'), ('jennaj'), ('jennan'), ('jenner'), ('jenney'), ('jenni'),
+    ('jennie'), ('jennif'), ('jennife'), ('jennifer'), ('jennings'), ('jennjenn'), ('jenny'), ('jennyb'),
+    ('jennyc'), ('jennyfer'), ('jennyff'), ('jennyk')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('jennym'), ('jennys'), ('jennyy'), ('jenova'), ('jens'), ('jensen'), ('jenson'), ('jeopardy'),
+    ('jerald'), ('jerbear'), ('jerem'), ('jeremi'), ('jeremia'), ('jeremiah'), ('jeremias'), ('jeremie'),
+    ('jeremy'), ('jergens'), ('jeri'), ('jericho'), ('jerico'), ('jeriryan'), ('jerk'), ('jerker'),
+    ('jerkface'), ('jerkin'), ('jerking'), ('jerkit'), ('jerkoff'), ('jerky'), ('jerkyboy'), ('jermaine'),
+    ('jeroen'), ('jerom'), ('jerome'), ('jeronimo'), ('jerr'), ('jerrie'), ('jerrod'), ('jerry'),
+    ('jerryb'), ('jerryg'), ('jerrylee'), ('jerrys'), ('jersey'), ('jertoot'), ('jerusale'), ('jerusalem'),
+    ('jesica'), ('jesika'), ('jesper'), ('jess'), ('jess1ca'), ('jesse'), ('jessee'), ('jessejames'),
+    ('jessey'), ('jessi'), ('jessic'), ('jessica'), ('jessicam'), ('jessicas'), ('jessie'), ('jessika'),
+    ('jessup'), ('jessy'), ('jeste'), ('jester'), ('jesu'), ('jesucrist'), ('jesuit'), ('jesus'),
+    ('jesus4me'), ('jesusc'), ('jesuschr'), ('jesuschris'), ('jesuschrist'), ('jesuscristo'), ('jesusfreak'), ('jesusgod'),
+    ('jesusis'), ('jesusislord'), ('jesuslives'), ('jesuslovesme'), ('jesuss'), ('jesussaves'), ('jetaim'), ('jetaime'),
+    ('jetbalance'), ('jetblack'), ('jetblue'), ('jetboat'), ('jetboy'), ('jetchip'), ('jeter'), ('jethro'),
+    ('jetjet'), ('jetlag'), ('jetman'), ('jetpilot'), ('jets'), ('jetsam'), ('jetset'), ('jetsfan'),
+    ('jetsjets'), ('jetski'), ('jetson'), ('jett'), ('jetta'), ('jettas'), ('jewboy'), ('jewel'),
+    ('jewell'), ('jewelry'), ('jewels'), ('jewish'), ('jezebel'), ('jfjfjf'), ('jg3h4hfn'), ('jgarcia'),
+    ('jghy452gf'), ('jglo4erz'), ('jgordon'), ('jgthfnjh'), ('jgtxzbhr'), ('jhbaktqv'), ('jhbufvb'), ('jhereg'),
+    ('jhgfdsa'), ('jhkjdf'), ('jhon@ta2011'), ('jhonatan'), ('jhonn'), ('jhonny'), ('jian'), ('jiang'),
+    ('jiao'), ('jibber'), ('jibxhq'), ('jiffy'), ('jigaboo'), ('jigei743ks'), ('jigga'), ('jiggaman'),
+    ('jiggas'), ('jigger'), ('jiggle'), ('jiggles'), ('jiggy'), ('jigsaw'), ('jiji'), ('jijiji'),
+    ('jill'), ('jillian'), ('jilly'), ('jimandanne'), ('jimb'), ('jimbeam'), ('jimbo'), ('jimbob'),
+    ('jimboo'), ('jimbos'), ('jimboy'), ('jimdandy'), ('jimdavis'), ('jimenez'), ('jimi'), ('jimijimi'),
+    ('jiminy'), ('jimjam'), ('jimjim'), ('jimkelly'), ('jimkirk'), ('jimm'), ('jimmer'), ('jimmi'),
+    ('jimmie'), ('jimmmy'), ('jimmy'), ('jimmyb'), ('jimmyboy'), ('jimmyc'), ('jimmyd'), ('jimmyg'),
+    ('jimmyj'), ('jimmyjam'), ('jimmyjim'), ('jimmyjoe'), ('jimmymac'), ('jimmyp'), ('jimmypag'), ('jimmys'),
+    ('jimmyt'), ('jimmyz'), ('jing'), ('jingle'), ('jingles'), ('jinjin'), ('jinx'), ('jinxed'),
+    ('jiong'), ('jism'), ('jitendra'), ('jitter'), ('jitterbu'), ('jitters'), ('jiujitsu'), ('jive'),
+    ('jixian'), ('jizz'), ('jizzeater'), ('jizzer'), ('jizzman'), ('jjames'), ('jjjdsl'), ('jjjj'),
+    ('jjjjj'), ('jjjjjj'), ('jjjjjjj'), ('jjjjjjjj'), ('jjjjjjjjj'), ('jjjjjjjjjj'), ('jjjjjjjjjjjj'), ('jjjkkk'),
+    ('jjohnson'), ('jjones'), ('jkbvgbflf'), ('jkelly'), ('jkh4545jhk'), ('jkjkjk'), ('jkjkjkjk'), ('jkljkl'),
+    ('jkmuf'), ('jkmxbr'), ('jkne9y'), ('jktcmrf'), ('jktctymrf'), ('jktcz'), ('jktrcfylh'), ('jktu'),
+    ('jktujdbx'), ('jktujdyf'), ('jktujktu'), ('jktxrf'), ('jktymrf'), ('jkzjkz'), ('jlaudio'), ('jlbyjxrf'),
+    ('jlbyjxtcndj'), ('jledfyxbr'), ('jlettier'), ('jlhanes'), ('jmac'), ('jman'), ('jmarie'), ('jmhj5464dcx'),
+    ('jmiller'), ('jmoney'), ('jmzacf'), ('jncnjq'), ('jndfkb'), ('jndthnrf'), ('jne990pq23'), ('jnrhjqcz'),
+    ('jo2deh'), ('joachim'), ('joakim'), ('joan'), ('joanie'), ('joanjett'), ('joann'), ('joanna'),
+    ('joanne'), ('joao'), ('joaopedro'), ('joaqui'), ('joaquim'), ('joaquin'), ('jobber'), ('jobhunt'),
+    ('jobjob'), ('jobless'), ('jobs'), ('jobsearc'), ('jobsearch'), ('jobshop200'), ('jocelyn'), ('jocelyne'),
+    ('jochen'), ('jock'), ('jocker'), ('jockey'), ('jocko'), ('jockstra'), ('jodeci'), ('joder'),
+    ('jodi'), ('jodie'), ('jody'), ('joebar'), ('joeblack'), ('joeblow'), ('joebob'), ('joeboo'),
+    ('joeboy'), ('joecool'), ('joedog'), ('joeeee'), ('joeimlea'), ('joejoe'), ('joel'), ('joelle'),
+    ('joeload'), ('joemama'), ('joeman'), ('joes'), ('joesakic'), ('joeseph'), ('joesmith'), ('joesph'),
+    ('joey'), ('joeybear'), ('joeyboy'), ('joeyjoey'), ('joeyjojo'), ('jogger'), ('joggin'), ('johan'),
+    ('johann'), ('johanna'), ('johanne'), ('johannes'), ('johansen'), ('johanson'), ('john'), ('johna'),
+    ('johnatha'), ('johnathan'), ('johnb'), ('johnboy'), ('johncen'), ('johncena'), ('johnd'), ('johndeer'),
+    ('johndeere'), ('johndoe'), ('johngalt'), ('johnie'), ('johnjay'), ('johnjohn'), ('johnjr'), ('johnlee'),
+    ('johnlove'), ('johnmc'), ('johnmish'), ('johnn'), ('johnna'), ('johnnie'), ('johnnn'), ('johnno'),
+    ('johnny'), ('johnnyb'), ('johnnybo'), ('johnnyd'), ('johnnys'), ('johnpass'), ('johnpaul'), ('johns'),
+    ('johnsmit'), ('johnsmith'), ('johnso'), ('johnson'), ('johnston'), ('johnwayn'), ('johnwayne'), ('johnwoo'),
+    ('johny'), ('join'), ('joiner'), ('joint'), ('joints'), ('jojo'), ('jojoba'), ('jojojo'),
+    ('jojojojo'), ('joke'), ('jokeman'), ('joker'), ('jokerjoker'), ('jokerman'), ('jokerr'), ('jokers'),
+    ('jokes'), ('joking'), ('jokker'), ('jolanda'), ('jolene'), ('jolie'), ('jolien'), ('joliet'),
+    ('jolly'), ('jollymon'), ('jollyrog'), ('jolson'), ('jomama'), ('jomomma'), ('jona'), ('jonah'),
+    ('jonas'), ('jonass'), ('jonata'), ('jonatha'), ('jonathan'), ('jonathon'), ('jonboy'), ('jone'),
+    ('jones'), ('joness'), ('jonesy'), ('jong'), ('joni'), ('jonjon'), ('jonnie'), ('jonny'),
+    ('jonnyb'), ('jonnyboy'), ('jonpetter'), ('jonson'), ('joojoo'), ('jookie'), ('joonas'), ('joop'),
+    ('jopajopa'), ('joplin'), ('jor23dan'), ('jorda'), ('jordan'), ('jordana'), ('jordans'), ('jorden'),
+    ('jordi'), ('jordon'), ('jordy'), ('jordyn'), ('jorel'), ('jorge'), ('jorgen'), ('jorgito'),
+    ('joris'), ('jornada'), ('joschi'), ('jose'), ('josef'), ('josefa'), ('josefin'), ('josefina'),
+    ('josejose'), ('josel'), ('joselit'), ('joselito'), ('joselui'), ('joseluis'), ('josemanue'), ('josemari'),
+    ('josep'), ('joseph'), ('josepha'), ('josephin'), ('josephine'), ('josephphone7'), ('josette'), ('josey'),
+    ('josh'), ('joshie'), ('joshjosh'), ('joshman'), ('joshu'), ('joshua'), ('joshy'), ('josiah'),
+    ('josie'), ('josiew'), ('jossie'), ('joung'), ('jourdan'), ('journal'), ('journey'), ('jovian'),
+    ('jowgnx'), ('joxury8f'), ('joyboy'), ('joyce'), ('joyful'), ('joyjoy'), ('joyous'), ('joyride'),
+    ('joystick'), ('jpmorgan'), ('jpthjdf'), ('jq24nc')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('jrcfyf'), ('jrcfyjxrf'), ('jrjrjr'), ('jrock'), ('jroreadme'), ('jrracing'), ('jsbach'), ('jscott'),
+    ('jscript'), ('jsmith'), ('jtccbill'), ('jtjtjt'), ('jtkirk'), ('jtmoney'), ('jtuac3my'), ('juan'),
+    ('juanas'), ('juanc'), ('juancarlo'), ('juancarlos'), ('juanch'), ('juancho'), ('juanit'), ('juanita'),
+    ('juanito'), ('juanj'), ('juanjo'), ('juanjos'), ('juanjose'), ('juanjuan'), ('juanma'), ('juanpabl'),
+    ('juarez'), ('jubilee'), ('jubjub'), ('judas'), ('jude'), ('judge'), ('judges'), ('judit'),
+    ('judith'), ('judo'), ('judoka'), ('judson'), ('judy'), ('juehtw'), ('juergen'), ('juggalo'),
+    ('juggalos'), ('jugger'), ('juggerna'), ('juggernaut'), ('juggle'), ('juggler'), ('juggs'), ('jughead'),
+    ('jugs'), ('juhani'), ('juice'), ('juicebox'), ('juiced'), ('juiceman'), ('juicer'), ('juices'),
+    ('juicey'), ('juicy'), ('juicyfruit'), ('juillet'), ('jujitsu'), ('juju'), ('jujube'), ('jujuju'),
+    ('jujujuju'), ('juke'), ('jukebox'), ('jukjuk'), ('julchen'), ('jule'), ('julemand'), ('jules'),
+    ('juli'), ('julia'), ('juliaa'), ('julian'), ('juliana'), ('juliane'), ('juliann'), ('julianna'),
+    ('julianne'), ('julias'), ('julie'), ('julieann'), ('julieb'), ('julief'), ('juliem'), ('julien'),
+    ('julies'), ('juliet'), ('julieta'), ('juliett'), ('julietta'), ('juliette'), ('julija'), ('julio'),
+    ('juliocesa'), ('julit'), ('julius'), ('juliya'), ('july'), ('julyjuly'), ('jumanji'), ('jumble'),
+    ('jumbo'), ('jumbos'), ('jump'), ('jumper'), ('jumpers'), ('jumphigh'), ('jumpin'), ('jumping'),
+    ('jumpjet'), ('jumpjump'), ('jumpman'), ('jumpmast'), ('jumpmaster'), ('jumpshot'), ('jumpstar'), ('jumpstart'),
+    ('jumpup'), ('jumpy'), ('junaid'), ('junction'), ('june'), ('juneau'), ('junebug'), ('junejune'),
+    ('junfan'), ('jungfrau'), ('jungle'), ('junglist'), ('juni'), ('juninho'), ('junio'), ('junior'),
+    ('juniors'), ('juniper'), ('junito'), ('junjun'), ('junk'), ('junker'), ('junkers'), ('junkfood'),
+    ('junkie'), ('junkies'), ('junkjunk'), ('junkmail'), ('junkman'), ('junky'), ('junkyard'), ('juno'),
+    ('junojuno'), ('junta'), ('juntas'), ('jupiler'), ('jupite'), ('jupiter'), ('jurassic'), ('jurgen'),
+    ('jurist'), ('jury'), ('just'), ('just1n'), ('just4fun'), ('just4me'), ('just4u'), ('just4you'),
+    ('justdoit'), ('juster'), ('justforf'), ('justforfun'), ('justform'), ('justfun'), ('justi'), ('justic'),
+    ('justice'), ('justify'), ('justin'), ('justina'), ('justinb'), ('justinbiebe'), ('justinbieber'), ('justine'),
+    ('justjack'), ('justlook'), ('justlove'), ('justme'), ('justmine'), ('justonce'), ('justus'), ('justyna'),
+    ('jutta'), ('juve'), ('juvenile'), ('juventu'), ('juventus'), ('jvtuepip'), ('jwest'), ('jwhw6n1742'),
+    ('jxfhjdfirf'), ('jyothi'), ('jys6wz'), ('jzf7qf2e'), ('k.jdm'), ('k.ljxrf'), ('k.lvbkf'), ('k1200rs'),
+    ('k123456789'), ('k1ll3r'), ('k1ller'), ('k2trix'), ('k9dls02a'), ('k9vvos0a'), ('kabala'), ('kaball'),
+    ('kabanchik'), ('kablam'), ('kaboom'), ('kabouter'), ('kabuki'), ('kabuto'), ('kachok'), ('kacie'),
+    ('kacper'), ('kacperek'), ('kadabra'), ('kadeem'), ('kadett'), ('kaefer'), ('kafedra'), ('kaffee'),
+    ('kafka'), ('kagome'), ('kahala'), ('kahlan'), ('kahless'), ('kahlil'), ('kahlua'), ('kahn'),
+    ('kahuna'), ('kaikai'), ('kaikias'), ('kailayu'), ('kailee'), ('kailey'), ('kailua'), ('kain'),
+    ('kaioken'), ('kairat'), ('kairos'), ('kaisar'), ('kaise'), ('kaiser'), ('kaisha'), ('kaitlin'),
+    ('kaitlyn'), ('kaitlynn'), ('kaizen'), ('kaizer'), ('kajak'), ('kajlas'), ('kaka'), ('kakadu'),
+    ('kakaha'), ('kakaka'), ('kakakaka'), ('kakarot'), ('kakaroto'), ('kakashi'), ('kakashka'), ('kakaska'),
+    ('kakawka'), ('kakdela'), ('kakka'), ('kakosja'), ('kaktus'), ('kaktys'), ('kala'), ('kalahari'),
+    ('kalamata'), ('kalamazo'), ('kalamazoo'), ('kalambur'), ('kalani'), ('kalash'), ('kalashnikov'), ('kale'),
+    ('kaleka'), ('kalel'), ('kalender'), ('kali'), ('kalifornia'), ('kaligula'), ('kalikali'), ('kalima'),
+    ('kalimera'), ('kalina'), ('kaline'), ('kalinin'), ('kalinina'), ('kaliningrad'), ('kalinka'), ('kalipso'),
+    ('kalle'), ('kalleank'), ('kalleanka'), ('kallen'), ('kalli'), ('kallie'), ('kallis'), ('kallisti'),
+    ('kalman'), ('kalo'), ('kalpana'), ('kaluga'), ('kalvin'), ('kalyan'), ('kalyani'), ('kama'),
+    ('kamael'), ('kamakazi'), ('kamakiri'), ('kamakura'), ('kamal'), ('kamala'), ('kamali'), ('kamasutr'),
+    ('kamasutra'), ('kamaz'), ('kambala'), ('kambing'), ('kamchatka'), ('kamehame'), ('kamehameha'), ('kamel'),
+    ('kameleon'), ('kamelia2011'), ('kamelot'), ('kamera'), ('kameron'), ('kami'), ('kamikadze'), ('kamikaze'),
+    ('kamikazi'), ('kamil'), ('kamila'), ('kamilek'), ('kamilka'), ('kamilla'), ('kamina'), ('kamlesh'),
+    ('kamloops'), ('kamran'), ('kanabis'), ('kanada'), ('kanaka'), ('kanako'), ('kanat'), ('kanazawa'),
+    ('kandi'), ('kandy'), ('kane'), ('kaneda'), ('kanekane'), ('kang'), ('kangaroo'), ('kangol'),
+    ('kangoo'), ('kankan'), ('kanker'), ('kankudai'), ('kanmax1994'), ('kannan'), ('kansas'), ('kantot'),
+    ('kaoru'), ('kaos'), ('kapanadze'), ('kapital'), ('kapitan'), ('kaplan'), ('kappa'), ('kappaman'),
+    ('kappas'), ('kappasig'), ('kapper'), ('kapriz'), ('kapusta'), ('kar120c'), ('kara'), ('karabas'),
+    ('karachi'), ('karaganda'), ('karakara'), ('karamazo'), ('karamba'), ('karambol'), ('karamel'), ('karamelka'),
+    ('karan'), ('karandash'), ('karaoke'), ('karapetyan'), ('karapuz'), ('karas'), ('karasik'), ('karat'),
+    ('karate'), ('karatist'), ('karavan'), ('kardan'), ('kardelen'), ('kardinal'), ('kardon'), ('kare'),
+    ('kareem'), ('kareena'), ('karekare'), ('karel'), ('karelia'), ('kareltje'), ('karen'), ('karena'),
+    ('karenc'), ('karend'), ('karenina'), ('karens'), ('karenw'), ('kareta'), ('kari'), ('karibu'),
+    ('karim'), ('karima'), ('karimov'), ('karimova'), ('karin'), ('karina'), ('karine'), ('karinka'),
+    ('karishma'), ('karissa'), ('kariya'), ('karizma'), ('karkar'), ('karl'), ('karla'), ('karlie'),
+    ('karlik'), ('karlit'), ('karlito'), ('karlmarx'), ('karlmasc'), ('karloff'), ('karlos'), ('karlson'),
+    ('karlsson'), ('karma'), ('karman'), ('karmann'), ('karmen'), ('karnak'), ('karol'), ('karola'),
+    ('karolek'), ('karolin'), ('karolina'), ('karoline'), ('karolinka'), ('karpenko'), ('karper'), ('karpov'),
+    ('karpova'), ('karrie'), ('karsten'), ('kartal'), ('karter'), ('karthik'), ('kartina'), ('karting'),
+    ('kartoffe'), ('karton'), ('kartoshka'), ('karuna'), ('karups'), ('karupspc'), ('karvinen'), ('karyn'),
+    ('kasablanka'), ('kasandra'), ('kasatka'), ('kasey')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('kashif'), ('kashmir'), ('kashtan'), ('kashyyyk'), ('kasi'), ('kasia'), ('kasimir'), ('kasiunia'),
+    ('kaskad'), ('kaspar'), ('kasparov'), ('kasper'), ('kasperok'), ('kaspersky'), ('kass'), ('kassandra'),
+    ('kassargar'), ('kassel'), ('kasser'), ('kassidy'), ('kassie'), ('kasten'), ('kasumi'), ('kata'),
+    ('katalina'), ('katana'), ('katanga'), ('katarina'), ('katarsis'), ('katarzyna'), ('katastrofa'), ('kate'),
+    ('katebush'), ('katekate'), ('katelyn'), ('katelynn'), ('katemoss'), ('katenka'), ('katenok'), ('kater'),
+    ('katerin'), ('katerina'), ('katerinka'), ('katey'), ('kath'), ('katharin'), ('katharina'), ('katherin'),
+    ('katherine'), ('kathi'), ('kathie'), ('kathleen'), ('kathmand'), ('kathmandu'), ('kathrin'), ('kathrine'),
+    ('kathryn'), ('kathy'), ('kathyb'), ('kathyl'), ('kathym'), ('kati'), ('katia'), ('katie'),
+    ('katieb'), ('katiebug'), ('katiec'), ('katiecat'), ('katiedog'), ('katiee'), ('katieh'), ('katiekat'),
+    ('katier'), ('katies'), ('katiew'), ('katina'), ('katinas'), ('katinka'), ('katja'), ('katkat'),
+    ('katlyn'), ('katman'), ('katmandu'), ('kato'), ('katoom'), ('katrien'), ('katrin'), ('katrina'),
+    ('katrine'), ('katrinka'), ('kats'), ('katt'), ('katten'), ('katter'), ('kattie'), ('katuha'),
+    ('katusha'), ('katushka'), ('katuxa'), ('katy'), ('katya'), ('katyakatya'), ('katydid'), ('katysha'),
+    ('katyusha'), ('katze'), ('katzen'), ('kaufman'), ('kaufmann'), ('kaulitz'), ('kaunas'), ('kaviar'),
+    ('kavita'), ('kavitha'), ('kavkaz'), ('kawa'), ('kawaii'), ('kawasak'), ('kawasaki'), ('kawazaki'),
+    ('kawika'), ('kaya'), ('kayak'), ('kayaker'), ('kayaking'), ('kayaks'), ('kayce'), ('kaycee'),
+    ('kayden'), ('kaye'), ('kaykay'), ('kayla'), ('kaylab'), ('kaylan'), ('kaylas'), ('kayle'),
+    ('kaylee'), ('kayleen'), ('kayleigh'), ('kayley'), ('kaylie'), ('kaylin'), ('kaylyn'), ('kaylynn'),
+    ('kayode'), ('kayser'), ('kaytee'), ('kazak'), ('kazakhstan'), ('kazakov'), ('kazakova'), ('kazama'),
+    ('kazane'), ('kazanova'), ('kazantip'), ('kazbek'), ('kazman'), ('kazoo'), ('kazu'), ('kazumi'),
+    ('kazuya'), ('kbcbxrf'), ('kbcnjgfl'), ('kbctyjr'), ('kbdthgekm'), ('kbkbxrf'), ('kbndbytyrj'), ('kbnthfnehf'),
+    ('kbpfdtnf'), ('kbpjxrf'), ('kbxyjcnm'), ('kbytqrf'), ('kbytqrfpkj'), ('kcaj'), ('kcchiefs'), ('kcid'),
+    ('kcj9wx5n'), ('kcmfwesg'), ('kcng'), ('kcuf'), ('kd189nlcih'), ('kd5396b'), ('kdkdkd'), ('kealoha'),
+    ('keane'), ('keanu'), ('kearney'), ('kearns'), ('keating'), ('keaton'), ('keats'), ('kebab'),
+    ('keebler'), ('keefer'), ('keegan'), ('keekee'), ('keeley'), ('keely'), ('keen'), ('keenan'),
+    ('keener'), ('keep'), ('keeper'), ('keeping'), ('keepit'), ('keepout'), ('keepsake'), ('kees'),
+    ('keesha'), ('keeshond'), ('kegger'), ('keifer'), ('keikei'), ('keiko'), ('keines'), ('keiser'),
+    ('keisha'), ('keith'), ('keitha'), ('keithb'), ('keithm'), ('keiths'), ('keke'), ('kekeke'),
+    ('kekkut'), ('keks'), ('keksik'), ('kelbel'), ('kelebe'), ('kelebek'), ('kell'), ('kellen'),
+    ('keller'), ('kelley'), ('kelli'), ('kellie'), ('kellogg'), ('kelloggs'), ('kelly'), ('kellyann'),
+    ('kellyb'), ('kellyj'), ('kellyk'), ('kellym'), ('kellyp'), ('kellys'), ('kelse'), ('kelsey'),
+    ('kelsie'), ('kelso'), ('kelton'), ('kelvin'), ('kemerovo'), ('kemo'), ('kemp'), ('kemper'),
+    ('kenaidog'), ('kenbob'), ('kendal'), ('kendall'), ('kender'), ('kendo'), ('kendog'), ('kendra'),
+    ('kendrick'), ('keneand'), ('keng'), ('kenguru'), ('kenichi'), ('kenji'), ('kenken'), ('kenmore'),
+    ('kenn'), ('kenned'), ('kennedy'), ('kennel'), ('kenner'), ('kennet'), ('kenneth'), ('kenney'),
+    ('kennwort'), ('kenny'), ('kennyb'), ('kennyd'), ('kennyg'), ('kennys'), ('keno'), ('kenobi'),
+    ('kenpo'), ('kensai'), ('kenseth'), ('kenshi'), ('kenshin'), ('kenshiro'), ('kensingt'), ('kensington'),
+    ('kent'), ('kentaro'), ('kentavr'), ('kenton'), ('kentucky'), ('kenwood'), ('kenwort'), ('kenworth'),
+    ('kenya'), ('kenyatta'), ('kenyon'), ('kenzie'), ('kenzo'), ('kepler'), ('kerala'), ('keraskeras'),
+    ('kerberos'), ('keren'), ('keri'), ('kerimov'), ('kermi'), ('kermit'), ('kernel'), ('kernow'),
+    ('keroppi'), ('kerouac'), ('kerplunk'), ('kerri'), ('kerrie'), ('kerrigan'), ('kerry'), ('kershaw'),
+    ('kerstin'), ('kerygma'), ('kesha'), ('keshia'), ('kessel'), ('kessler'), ('kester'), ('kestrel'),
+    ('ketamine'), ('ketch'), ('ketchum'), ('ketchup'), ('ketrin'), ('kettle'), ('kevdog'), ('kevi'),
+    ('kevin'), ('kevina'), ('kevinb'), ('kevinc'), ('kevind'), ('keving'), ('kevinh'), ('kevinj'),
+    ('kevink'), ('kevinl'), ('kevinm'), ('kevinn'), ('kevinr'), ('kevins'), ('kevint'), ('kevinw'),
+    ('kevlar'), ('kewell'), ('kewl'), ('kexibq'), ('kexifz'), ('keyblade'), ('keyboard'), ('keyboards'),
+    ('keyfnbr'), ('keyhole'), ('keylargo'), ('keyman'), ('keynbr'), ('keynes'), ('keys'), ('keyser'),
+    ('keysersoze'), ('keystone'), ('keywest'), ('keyword'), ('kezman'), ('kfcnjxrf'), ('kfdfylf'), ('kfgecbr'),
+    ('kfgeirf'), ('kfgekz'), ('kfgjxrf'), ('kfhbcf'), ('kfrhbvjpf'), ('kfvgjxrf'), ('kfycth'), ('kfylsi'),
+    ('kgosfm'), ('kgvebmqy'), ('khaled'), ('khali'), ('khalid'), ('khalif'), ('khalil'), ('khalsa'),
+    ('khan'), ('khankhan'), ('kharkov'), ('khmer'), ('khongbiet'), ('khorne'), ('khushi'), ('kiakia'),
+    ('kiana'), ('kianna'), ('kiaora'), ('kiara'), ('kiba1z'), ('kibble'), ('kibbles'), ('kiborg'),
+    ('kick'), ('kickapoo'), ('kickas'), ('kickass'), ('kickback'), ('kickball'), ('kickbox'), ('kickboxing'),
+    ('kickbutt'), ('kicker'), ('kickers'), ('kickflip'), ('kickin'), ('kicking'), ('kickit'), ('kickme'),
+    ('kicks'), ('kicksass'), ('kidd'), ('kidder'), ('kiddie'), ('kidding'), ('kiddkidd'), ('kiddo'),
+    ('kidman'), ('kidney'), ('kidrock'), ('kids'), ('kiefer'), ('kiekeboe'), ('kielbasa'), ('kiera'),
+    ('kieran'), ('kierra'), ('kiersten'), ('kiesha'), ('kiisuke'), ('kika'), ('kikakika'), ('kiki'),
+    ('kikiki'), ('kikikiki'), ('kikimora'), ('kikiriki'), ('kikkeli'), ('kikker'), ('kiko'), ('kikokiko'),
+    ('kikowu'), ('kilbosik'), ('kiler'), ('kiley'), ('kilgore'), ('kilian'), ('kilimanjaro'), ('kilkenny'),
+    ('kill'), ('killa'), ('killabee'), ('killacam'), ('killah'), ('killall'), ('killas'), ('killbill'),
+    ('kille'), ('killed'), ('killeen'), ('killem'), ('killemal'), ('killemall'), ('killer'), ('killer1234'),
+    ('killerb'), ('killerbe'), ('killerbee'), ('killeri'), ('killerman'), ('killers'), ('killia'), ('killian'),
+    ('killians'), ('killie'), ('killin'), ('killing')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('killit'), ('killjoy'), ('killkill'), ('killkillkill'), ('killme'), ('killroy'), ('killshot'), ('killswit'),
+    ('killteam'), ('killyou'), ('killzone'), ('kilmer'), ('kilo'), ('kilokilo'), ('kilroy'), ('kimba'),
+    ('kimbal'), ('kimball'), ('kimber'), ('kimberl'), ('kimberle'), ('kimberlee'), ('kimberley'), ('kimberly'),
+    ('kimble'), ('kimbo'), ('kimchee'), ('kimchi'), ('kimcuong'), ('kimiko'), ('kimjjang'), ('kimkim'),
+    ('kimlee'), ('kimm'), ('kimmel'), ('kimmer'), ('kimmi'), ('kimmie'), ('kimmy'), ('kimo'),
+    ('kimono'), ('kimosabe'), ('kimota'), ('kimura'), ('kincaid'), ('kind'), ('kindbud'), ('kindbuds'),
+    ('kinder'), ('kindle'), ('kindness'), ('kindred'), ('kinetic'), ('king'), ('kingair'), ('kingcobr'),
+    ('kingdo'), ('kingdom'), ('kingdoms'), ('kinger'), ('kingfish'), ('kingfisher'), ('kingkhan'), ('kingking'),
+    ('kingkon'), ('kingkong'), ('kinglear'), ('kingly'), ('kingman'), ('kingme'), ('kingpin'), ('kingpins'),
+    ('kingrat'), ('kingrich'), ('kingring'), ('kings'), ('kingshit'), ('kingsize'), ('kingsley'), ('kingss'),
+    ('kingston'), ('kingsway'), ('kingsx'), ('kingtut'), ('kingwood'), ('kink'), ('kinkin'), ('kinkos'),
+    ('kinky'), ('kinkysex'), ('kinney'), ('kino'), ('kinsale'), ('kinsella'), ('kinsey'), ('kinshasa'),
+    ('kinski'), ('kintaro'), ('kiokio'), ('kiowa'), ('kiparis'), ('kipelov'), ('kipling'), ('kippax'),
+    ('kippe'), ('kipper'), ('kippers'), ('kippy'), ('kips'), ('kira'), ('kirakira'), ('kiran'),
+    ('kirby'), ('kirbys'), ('kirik'), ('kiril'), ('kirill'), ('kirill1995'), ('kirill1996'), ('kirill1999'),
+    ('kirill2002'), ('kirill2010'), ('kirillov'), ('kirillova'), ('kirk'), ('kirkkirk'), ('kirkland'), ('kirkwood'),
+    ('kirova'), ('kirpich'), ('kirsikka'), ('kirsten'), ('kirstin'), ('kirsty'), ('kirusha'), ('kisa'),
+    ('kisakisa'), ('kiselev'), ('kiseleva'), ('kisha'), ('kishan'), ('kishore'), ('kiska'), ('kiskis'),
+    ('kismet'), ('kiss'), ('kissa'), ('kissarmy'), ('kissass'), ('kissbutt'), ('kisse'), ('kissed'),
+    ('kissel'), ('kisser'), ('kisses'), ('kissfan'), ('kissing'), ('kissinger'), ('kissit'), ('kisska'),
+    ('kisskiss'), ('kissm'), ('kissme'), ('kissmy'), ('kissmyas'), ('kissmyass'), ('kissrock'), ('kissshot'),
+    ('kissss'), ('kissthis'), ('kisswave'), ('kissy'), ('kissyou'), ('kisulja'), ('kisulya'), ('kita'),
+    ('kitaec'), ('kitakita'), ('kitana'), ('kitaro'), ('kitcat'), ('kitchen'), ('kitchens'), ('kite'),
+    ('kiteboy'), ('kitfox'), ('kitka'), ('kitkat'), ('kitkit'), ('kitsune'), ('kitt'), ('kitte'),
+    ('kitten'), ('kittens'), ('kitti'), ('kittie'), ('kitties'), ('kittles'), ('kittty'), ('kitty'),
+    ('kittyca'), ('kittycat'), ('kittyhaw'), ('kittykat'), ('kittykit'), ('kittykitty'), ('kittys'), ('kiwi'),
+    ('kiwikiwi'), ('kiyoshi'), ('kizzie'), ('kjgfnf'), ('kjhgfdsa'), ('kjifhf'), ('kjiflm'), ('kjiflrf'),
+    ('kjkbnf'), ('kjkj'), ('kjkjkj'), ('kjkszpj'), ('kjrjvjnbd'), ('kjubrf'), ('kjubyjd'), ('kjubyjdf'),
+    ('kjujgtl'), ('kjyljy'), ('kki177hk'), ('kkkddd'), ('kkkk'), ('kkkkk'), ('kkkkkk'), ('kkkkkkk'),
+    ('kkkkkkkk'), ('kkkkkkkkkk'), ('kkklll'), ('kkonradi'), ('kl?benhavn'), ('klaatu'), ('klaipeda'), ('klapaucius'),
+    ('klara'), ('klasse'), ('klaste'), ('klaster'), ('klaudia'), ('klaus'), ('klausi'), ('klavdia'),
+    ('klavier'), ('klaxon'), ('kleaner'), ('kleenex'), ('kleevage'), ('klein'), ('kleiner'), ('kleopatr'),
+    ('kleopatra'), ('klep'), ('klepper'), ('klepto'), ('klesko'), ('klever'), ('klim'), ('klimenko'),
+    ('klimov'), ('klimova'), ('kline'), ('klinger'), ('klingon'), ('klinker'), ('klipsch'), ('klizma'),
+    ('klklkl'), ('klmklm'), ('klondike'), ('klootzak'), ('klop'), ('klopik'), ('klopklop'), ('kloster'),
+    ('kloten'), ('klover'), ('klovn'), ('klubnichka'), ('klubnika'), ('kluivert'), ('kman'), ('kmdbwf'),
+    ('kmdtyjr'), ('kmfdm'), ('kmh12025476'), ('kmjnhbgv'), ('kmn5hc'), ('kn1ght'), ('knacker'), ('knarf'),
+    ('knee'), ('kneecap'), ('kneel'), ('kneesox'), ('knick'), ('knicker'), ('knickerless'), ('knickers'),
+    ('knicks'), ('knife'), ('knifes'), ('knigh'), ('knight'), ('knightrider'), ('knights'), ('knittin'),
+    ('knitting'), ('knives'), ('knob'), ('knobby'), ('knock'), ('knocker'), ('knockers'), ('knockout'),
+    ('knocks'), ('knopfler'), ('knopka'), ('knopo4ka'), ('knopochka'), ('knot'), ('knothead'), ('knotty'),
+    ('know'), ('knowit'), ('knowledg'), ('knowledge'), ('knowles'), ('known'), ('knows'), ('knox'),
+    ('knoxvill'), ('knoxville'), ('knuckle'), ('knucklehead'), ('knuckles'), ('knuddel'), ('knudsen'), ('knulla'),
+    ('knut'), ('knute'), ('koala'), ('koalas'), ('kobalt'), ('kobayash'), ('kobe'), ('kobebrya'),
+    ('kobebryant'), ('kobetai'), ('koblenz'), ('kobold'), ('kocham'), ('kochamcie'), ('kochan'), ('kochanie'),
+    ('kociak'), ('kodak'), ('kodaks'), ('kodeord'), ('kodi'), ('kodiak'), ('kody'), ('koeman'),
+    ('koenig'), ('koffie'), ('kohler'), ('kohsamui'), ('koichi'), ('kojack'), ('kojak'), ('kojiro'),
+    ('kojzgsf'), ('kokain'), ('kokaine'), ('kokakola'), ('kokanee'), ('koketka'), ('kokikoki'), ('koko'),
+    ('kokoko'), ('kokokoko'), ('kokomo'), ('kokopell'), ('kokoro'), ('kokosik'), ('kokot'), ('kola'),
+    ('kolakola'), ('kolawole'), ('kolbasa'), ('kolding'), ('koldun'), ('kolesnik'), ('kolesnikov'), ('kolesnikova'),
+    ('koleso'), ('kolian'), ('kolibri'), ('koliko'), ('koljan'), ('kolkata'), ('kolkol'), ('koller'),
+    ('kolobok'), ('kolokol'), ('kolokolo'), ('kolombo'), ('kolomna'), ('kolonka'), ('kolort'), ('kolos'),
+    ('kolosok'), ('kolosov'), ('kolovrat'), ('kolpino'), ('kolumbus'), ('kolya'), ('kolyan'), ('komarik'),
+    ('komarov'), ('komarova'), ('komatsu'), ('kombat'), ('komlos'), ('komltptfcor'), ('kommer'), ('komodo'),
+    ('kompas'), ('kompot'), ('komputer'), ('kona'), ('konakona'), ('konakovo'), ('konami'), ('kondor'),
+    ('kondrat'), ('konfeta'), ('konfetka'), ('kong'), ('kongen'), ('koniak'), ('konica'), ('konijn'),
+    ('konnichi'), ('kononenko'), ('konoplya'), ('konovalov'), ('konovalova'), ('konrad'), ('konstantin'), ('kontakt'),
+    ('kontiki'), ('kontol'), ('konyor'), ('kook'), ('kookie'), ('kookoo'), ('kooky'), ('kool'),
+    ('koolaid'), ('kooler'), ('koolhaas'), ('koolio'), ('koolkat'), ('koolkid'), ('koolkool'), ('koolman'),
+    ('koontz'), ('kopeika'), ('kopet'), ('kopilka'), ('kopper'), ('kordell'), ('korea'), ('korean'),
+    ('koresh'), ('korn'), ('korner'), ('kornet'), ('kornev'), ('kornhead'), ('kornienko'), ('kornkid'),
+    ('kornkorn'), ('korobok'), ('korolev'), ('koroleva'), ('korona'), ('korova'), ('korsar'), ('korsika'),
+    ('korvet'), ('korvin'), ('kosarev'), ('kosenko')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('koshak'), ('koshechka'), ('kosher'), ('koshka'), ('koskesh'), ('koskos'), ('kosmonavt'), ('kosmos'),
+    ('kosova'), ('kosovo'), ('koss'), ('kosssss'), ('kostas'), ('kostenko'), ('koster'), ('kostia'),
+    ('kostik'), ('koston'), ('kostroma'), ('kostya'), ('kostyan'), ('kotaku'), ('koteczek'), ('kotenok'),
+    ('kotik'), ('kotiko'), ('kotkot'), ('kotofey'), ('kotopes'), ('kotova'), ('kottayam'), ('kotton'),
+    ('kotyara'), ('koufax'), ('koukla'), ('kourniko'), ('kournikova'), ('kourtney'), ('kouter'), ('kovacs'),
+    ('kovalenko'), ('kovalev'), ('kovaleva'), ('kovtun'), ('kowalski'), ('kowloon'), ('kozanostra'), ('kozerog'),
+    ('kozlik'), ('kozlov'), ('kozlova'), ('kpcofgs'), ('kpydskcw'), ('kr9z40sy'), ('kracker'), ('kraft'),
+    ('krakatoa'), ('kraken'), ('krakow'), ('krallen'), ('kram'), ('krame'), ('kramer'), ('kramit'),
+    ('kramkram'), ('krammer'), ('krasava'), ('krasavchik'), ('krasavica'), ('krasnodar'), ('krasnov'), ('krasota'),
+    ('krasotka'), ('kratos'), ('krause'), ('krauss'), ('kraut'), ('kravchenko'), ('kraven'), ('kravin'),
+    ('kravitz'), ('krayzie'), ('krazy'), ('krazyk'), ('krazykat'), ('kreativ'), ('kreator'), ('krebsen'),
+    ('kreker'), ('kremlin'), ('krieger'), ('kriginegor'), ('krille'), ('krillin'), ('krimml'), ('kringle'),
+    ('kris'), ('krishn'), ('krishna'), ('krishnan'), ('kriskris'), ('krispy'), ('kriss'), ('krissy'),
+    ('krist'), ('krista'), ('kristal'), ('kristall'), ('kriste'), ('kristel'), ('kristen'), ('kristi'),
+    ('kristia'), ('kristian'), ('kristie'), ('kristiina'), ('kristin'), ('kristina'), ('kristina123'), ('kristine'),
+    ('kristinka'), ('kristjan'), ('kristo'), ('kristof'), ('kristofe'), ('kristofer'), ('kristoff'), ('kristopher'),
+    ('kristy'), ('kroger'), ('kroket'), ('krokodil'), ('krokus'), ('krolik'), ('krondor'), ('kronic'),
+    ('kronik'), ('kronos'), ('kroshka'), ('krsone'), ('krswood'), ('krueger'), ('kruemel'), ('kruger'),
+    ('krunch'), ('krusty'), ('krutoi'), ('krypto'), ('krypton'), ('kryptoni'), ('kryptonite'), ('krysta'),
+    ('krystal'), ('krystina'), ('krystle'), ('krystyna'), ('kryten'), ('krzysiek12'), ('ksenia'), ('kseniya'),
+    ('ksmith'), ('kstate'), ('ksusha'), ('kswbdu'), ('kswiss'), ('ksyusha'), ('kthecz'), ('kthjxrf'),
+    ('ktjgfhl'), ('ktjgjkml'), ('ktjybl'), ('ktjynsq40147'), ('ktrcec'), ('ktutjyth333'), ('ktutylf'), ('ktybyuhfl'),
+    ('ktyecbr'), ('ktyecmrf'), ('ktyecz'), ('ktyfktyf'), ('ktyj4rf'), ('ktyjxrf'), ('ktyxbr'), ('kuai'),
+    ('kuan'), ('kuang'), ('kubiak'), ('kubota'), ('kubrick'), ('kucher'), ('kucing'), ('kudos'),
+    ('kudos4ever'), ('kugm7b'), ('kukaracha'), ('kukareku'), ('kuken'), ('kukkanen'), ('kukkuk'), ('kukolka'),
+    ('kuku'), ('kukuku'), ('kukukuku'), ('kukuruku'), ('kukuruza'), ('kukushka'), ('kuldeep'), ('kuleshov'),
+    ('kulikov'), ('kulikova'), ('kuma'), ('kumar'), ('kumari'), ('kume'), ('kumiko'), ('kumite'),
+    ('kumquat'), ('kungen'), ('kungfu'), ('kungsan'), ('kunsan'), ('kunt'), ('kuolema'), ('kurac'),
+    ('kurama'), ('kurban'), ('kurdistan'), ('kurgan'), ('kurica'), ('kurosaki'), ('kurosawa'), ('kursant'),
+    ('kurt'), ('kurtcobain'), ('kurtis'), ('kurtkurt'), ('kurupt'), ('kurvica'), ('kurwa'), ('kurwamac'),
+    ('kusanagi'), ('kutje'), ('kutter'), ('kuuipo'), ('kuwait'), ('kuzmich'), ('kuzmin'), ('kuzmina'),
+    ('kuznecova'), ('kvadrat'), ('kvartira'), ('kvazar'), ('kwan'), ('kwiatek'), ('kwiatuszek'), ('kwiettie'),
+    ('kyjelly'), ('kykyky'), ('kyla'), ('kylacole'), ('kyle'), ('kyler'), ('kyleregn'), ('kylie'),
+    ('kyliem'), ('kyocera'), ('kyoto'), ('kyra'), ('kzinti'), ('kzkmrf'), ('kzktxrf'), ('kzkzkz'),
+    ('kzueirf'), ('l.qvjdjxrf'), ('l0nd0n'), ('l0sk2e8s7a'), ('l0swf9gx'), ('l1510s'), ('l3tm31n'), ('l8g3bkde'),
+    ('l8v53x'), ('labamba'), ('labas'), ('labatt'), ('labatts'), ('label'), ('labelle'), ('labels'),
+    ('labia'), ('lablab'), ('labonte'), ('labour'), ('labrado'), ('labrador'), ('labrat'), ('labs'),
+    ('labtec'), ('labtech'), ('labuda'), ('labyrinth'), ('lace'), ('lacey'), ('lachen'), ('lachesis'),
+    ('lachlan'), ('lacie'), ('lacika'), ('lackey'), ('lacoste'), ('lacrimos'), ('lacrimosa'), ('lacroix'),
+    ('lacross'), ('lacrosse'), ('lacsap'), ('lactate'), ('lacuna'), ('lacy'), ('lada'), ('ladder'),
+    ('laddie'), ('ladeda'), ('laden'), ('ladies'), ('ladiesman'), ('ladle'), ('ladles'), ('ladodger'),
+    ('ladoga'), ('ladonna'), ('lady'), ('ladybird'), ('ladyboy'), ('ladybu'), ('ladybug'), ('ladybugs'),
+    ('ladydi'), ('ladydog'), ('ladyffesta'), ('ladygaga'), ('ladygirl'), ('ladyhawk'), ('ladylady'), ('ladylove'),
+    ('ladyluck'), ('laetitia'), ('lafarge'), ('lafayett'), ('lafayette'), ('laforge'), ('lafrance'), ('lagalaxy'),
+    ('lagarto'), ('lagavulin'), ('lager'), ('lagers'), ('lagger'), ('lagnaf'), ('lagoon'), ('lagrange'),
+    ('laguna'), ('lagwagon'), ('lahore'), ('laid'), ('laidback'), ('laika'), ('laila'), ('lainie'),
+    ('lajolla'), ('lake'), ('lakeland'), ('laker'), ('lakerfan'), ('lakers'), ('lakes'), ('lakeshow'),
+    ('lakeside'), ('laketaho'), ('laketahoe'), ('lakeview'), ('lakewood'), ('lakings'), ('lakini'), ('lakomka'),
+    ('lakota'), ('lakshmi'), ('lala'), ('lalakers'), ('lalal'), ('lalala'), ('lalalala'), ('lalalalala'),
+    ('lalaland'), ('lalena'), ('lalit'), ('lalita'), ('lalla'), ('lalo'), ('laluna'), ('lama'),
+    ('lamar'), ('lamb'), ('lambada'), ('lambchop'), ('lambda'), ('lambeau'), ('lambert'), ('lambo'),
+    ('lambofgod'), ('lamborghini'), ('lamborgini'), ('lambrett'), ('lambretta'), ('lame'), ('lament'), ('lamer'),
+    ('lamers'), ('lamerz'), ('lamesa'), ('lamina'), ('laminat'), ('lammas'), ('lammer'), ('lamont'),
+    ('lamonte'), ('lamour'), ('lamp'), ('lampar'), ('lampard'), ('lampoon'), ('lamppost'), ('lampshade'),
+    ('lana'), ('lanalana'), ('lancaste'), ('lancaster'), ('lance'), ('lancelo'), ('lancelot'), ('lancer'),
+    ('lancers'), ('lances'), ('lancia'), ('land'), ('landau'), ('landen'), ('lander'), ('landers'),
+    ('landing'), ('landis'), ('landlord'), ('landman'), ('landmark'), ('lando'), ('landon'), ('landrove'),
+    ('landrover'), ('landry'), ('lands'), ('landscap'), ('landscape'), ('landslid'), ('lane'), ('lanesra'),
+    ('lanette'), ('lanfear'), ('lang'), ('langdon'), ('lange9x'), ('langer'), ('langley'), ('langston'),
+    ('language'), ('lani'), ('lanier'), ('lanka'), ('lankford'), ('lanky'), ('lanlan'), ('lanman'),
+    ('lanmannt'), ('lannie'), ('lansing'), ('lantana'), ('lantern'), ('lanvin'), ('lanzarot'), ('laotzu'),
+    ('lapata'), ('lapdance'), ('lapdog'), ('lapin'), ('lapina'), ('laplace'), ('lapo4ka'), ('lapochka'),
+    ('lapper'), ('laptop'), ('laputa'), ('laputaxx')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('lara'), ('laracrof'), ('laracroft'), ('laralara'), ('laramie'), ('laranja'), ('laraza'), ('lardass'),
+    ('lardog'), ('laredo'), ('large'), ('larger'), ('largo'), ('lariat'), ('larina'), ('larinso'),
+    ('larionov'), ('larisa'), ('larissa'), ('lark'), ('larkin'), ('larkspur'), ('larousse'), ('larry'),
+    ('larryb'), ('larrybir'), ('larryboy'), ('larryg'), ('larryh'), ('larryr'), ('larrys'), ('larrywn'),
+    ('lars'), ('larsen'), ('larson'), ('larsson'), ('larterlarter'), ('larue'), ('lasagna'), ('lasagne'),
+    ('lasalle'), ('lasdkh'), ('laser'), ('laserjet'), ('lasers'), ('lash'), ('lasha'), ('lasher'),
+    ('laska'), ('lasombra'), ('lasse'), ('lassie'), ('lassiter'), ('last'), ('lastcall'), ('lastchan'),
+    ('lastchance'), ('lastdon'), ('laster'), ('lasting'), ('lastman'), ('lasto4ka'), ('lastochka'), ('lastone'),
+    ('lasttime'), ('lasvega'), ('lasvegas'), ('laszlo'), ('latching'), ('late'), ('lateef'), ('lately'),
+    ('latenite'), ('later'), ('lateral'), ('lateralu'), ('lateralus'), ('latex'), ('latexx'), ('latham'),
+    ('lathrop'), ('latics'), ('latif'), ('latifa'), ('latifah'), ('latigo'), ('latimer'), ('latin'),
+    ('latina'), ('latinas'), ('latino'), ('latinos'), ('latinum'), ('latinus'), ('latisha'), ('latitude'),
+    ('latour'), ('latoya'), ('latrell'), ('latrice'), ('latrobe'), ('latte'), ('latter'), ('lattice'),
+    ('latvia'), ('laudrup'), ('laufen'), ('laugh'), ('laughing'), ('laughs'), ('laughter'), ('launch'),
+    ('laundry'), ('laur'), ('laura'), ('laurab'), ('laural'), ('lauralee'), ('lauras'), ('laure'),
+    ('laurel'), ('lauren'), ('laurenc'), ('laurence'), ('laurent'), ('lauretta'), ('lauri'), ('laurie'),
+    ('lauris'), ('laurita'), ('lauryn'), ('lausanne'), ('lava'), ('lavalamp'), ('lavanda'), ('lavazza'),
+    ('lavender'), ('laverda'), ('lavern'), ('laverne'), ('lavigne'), ('lavina'), ('lavinia'), ('lavonne'),
+    ('lavrik'), ('lawdog'), ('lawina'), ('lawler'), ('lawless'), ('lawman'), ('lawn'), ('lawnboy'),
+    ('lawncare'), ('lawnmowe'), ('lawntrax'), ('lawrenc'), ('lawrence'), ('lawrun'), ('lawson'), ('lawsons'),
+    ('lawton'), ('lawyer'), ('laxman'), ('laydown'), ('layer'), ('layla'), ('layout'), ('layton'),
+    ('lazarev'), ('lazareva'), ('lazaro'), ('lazarus'), ('lazer'), ('lazers'), ('lazio'), ('lazy'),
+    ('lazyacres'), ('lazyass'), ('lazybone'), ('lazyboy'), ('lback'), ('lbfyjxrf'), ('lbfyrf'), ('lbhtrnjh'),
+    ('lbnjgtmp'), ('lbpfqy'), ('lbpfqyth'), ('lbtest'), ('lbvekmrf'), ('lbvekz'), ('lbvf'), ('lbvfcbr'),
+    ('lbvfhbr'), ('lbvflbvf'), ('lbvjxrf'), ('lbvjysxm'), ('lbyfhf'), ('lbyfvbn'), ('lbyfvj'), ('lbyjpfdh'),
+    ('lclprog'), ('lcrastes'), ('lcroft'), ('le33px'), ('leachim'), ('lead'), ('leader'), ('leaders'),
+    ('leadership'), ('leadfoot'), ('leading'), ('leaf'), ('leafs'), ('league'), ('leah'), ('leahcim'),
+    ('leaky'), ('lealea'), ('leander'), ('leandr'), ('leandra'), ('leandro'), ('leann'), ('leanna'),
+    ('leanne'), ('leaper'), ('leapfrog'), ('leapyear'), ('leardini'), ('learjet'), ('learn'), ('learning'),
+    ('lease'), ('leather'), ('leave'), ('leavemealone'), ('leaves'), ('leaving'), ('lebanon'), ('lebaron'),
+    ('lebedev'), ('lebedeva'), ('leblanc'), ('lebowski'), ('lebron'), ('leche'), ('lechef'), ('lecken'),
+    ('leckmich'), ('leclair'), ('leclerc'), ('lecter'), ('lecture'), ('ledanac'), ('ledge'), ('ledger'),
+    ('ledom'), ('ledoux'), ('leduc'), ('ledzep'), ('ledzeppe'), ('ledzeppelin'), ('leeann'), ('leecher'),
+    ('leeds'), ('leedsfc'), ('leedsu'), ('leedsuni'), ('leedsunited'), ('leedsutd'), ('leee'), ('leelee'),
+    ('leeloo'), ('leeman'), ('leeroy'), ('leet'), ('leetah'), ('leetch'), ('leeward'), ('leeway'),
+    ('left'), ('left4dead'), ('left4dead2'), ('leftee'), ('leftfiel'), ('lefthand'), ('leftie'), ('leftover'),
+    ('leftwing'), ('lefty'), ('legacy'), ('legal'), ('legalize'), ('legato'), ('legen'), ('legend'),
+    ('legenda'), ('legendar'), ('legendary'), ('legends'), ('legere'), ('leggy'), ('leghorn'), ('legion'),
+    ('legioner'), ('leglover'), ('legman'), ('lego'), ('legola'), ('legoland'), ('legolas'), ('legolego'),
+    ('legoman'), ('legos'), ('legrand'), ('legs'), ('legsex'), ('legshow'), ('legslegs'), ('lehigh'),
+    ('lehjxrf'), ('lehman'), ('leia'), ('leica'), ('leiceste'), ('leicester'), ('leiden'), ('leigh'),
+    ('leigha'), ('leighann'), ('leighton'), ('leihak'), ('leila'), ('leilani'), ('leinad'), ('leipzig'),
+    ('leisure'), ('leiter'), ('lekbyxxx'), ('lekker'), ('lekmcbytz'), ('lektor'), ('leland'), ('leman'),
+    ('lemans'), ('lemieux'), ('lemmein'), ('lemming'), ('lemmings'), ('lemmon'), ('lemon'), ('lemonade'),
+    ('lemond'), ('lemondrop'), ('lemons'), ('lemont'), ('lemony'), ('lemuel'), ('len4ik'), ('lena'),
+    ('lenalena'), ('lenard'), ('lenchik'), ('leng'), ('length'), ('lenin'), ('lenina'), ('leningra'),
+    ('leningrad'), ('lennard'), ('lennart'), ('lennie'), ('lennon'), ('lennox'), ('lenny'), ('leno4ka'),
+    ('lenochka'), ('lenoir'), ('lenora'), ('lenore'), ('lenovo'), ('lens'), ('lensman'), ('lenusik'),
+    ('leocat'), ('leodog'), ('leogetz'), ('leoleo'), ('leolion'), ('leon'), ('leona'), ('leonar'),
+    ('leonard'), ('leonardo'), ('leone'), ('leonel'), ('leones'), ('leonid'), ('leonida'), ('leonidas'),
+    ('leonie'), ('leonleon'), ('leonor'), ('leonora'), ('leonov'), ('leonova'), ('leopard'), ('leopards'),
+    ('leopold'), ('leopoldo'), ('leppard'), ('leprechaun'), ('lepton'), ('lera'), ('leralera'), ('lero4ka'),
+    ('lerochka'), ('leroy'), ('lerxst'), ('lesabre'), ('lesbain'), ('lesbean'), ('lesbens'), ('lesbia'),
+    ('lesbian'), ('lesbians'), ('lesbo'), ('lesbos'), ('leshka'), ('lesley'), ('lesli'), ('leslie'),
+    ('lesmis'), ('lesnik'), ('lespaul'), ('less'), ('lessee'), ('lesson'), ('lessons'), ('lessthan'),
+    ('lesta'), ('lestat'), ('lester'), ('lesya'), ('leszek'), ('letartee'), ('letgo'), ('lethal'),
+    ('letici'), ('leticia'), ('letitbe'), ('letitgo'), ('letitia'), ('letitrid'), ('letizia'), ('letme'),
+    ('letme1n'), ('letmec'), ('letmego'), ('letmei'), ('letmein'), ('letmein123'), ('letmeinn'), ('letmeinnow'),
+    ('letmeino'), ('letmen'), ('letmeon'), ('letmeout'), ('letmesee'), ('leto'), ('lets'), ('letsdoit'),
+    ('letsfuck'), ('letsgo'), ('letsgome'), ('letsplay'), ('letsrock'), ('letssee'), ('letter'), ('letterma'),
+    ('letters'), ('lettre'), ('lettuce'), ('levani'), ('level'), ('leveller'), ('levelone'), ('levent'),
+    ('lever'), ('leverage'), ('levi'), ('leviatan'), ('leviatha'), ('leviathan'), ('levin'), ('levina'),
+    ('levine'), ('levski'), ('levus'), ('levy')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('lewdog'), ('lewinsky'), ('lewis'), ('lewiston'), ('lewlew'), ('lexa'), ('lexalexa'), ('lexi'),
+    ('lexicon'), ('lexingky'), ('lexingto'), ('lexington'), ('lexlex'), ('lexmark'), ('lexus'), ('lexusis'),
+    ('lexx'), ('lexxus'), ('leyden'), ('leyla'), ('leyton'), ('lfhbyf'), ('lfiekmrf'), ('lfiekz'),
+    ('lfieyz'), ('lfiflfif'), ('lfitymrf'), ('lfplhfgthvf'), ('lfybbk'), ('lfybkf'), ('lfybkjd'), ('lfybkjdf'),
+    ('lfybkrf'), ('lfymrf'), ('lfytxrf'), ('lg2wmgvr'), ('lgnu9d'), ('lhbjkjubz2957704'), ('lhepmz'), ('lhfrekf'),
+    ('lhfrjif'), ('lhfrjy'), ('lhfwtyf'), ('lialia'), ('liam'), ('liamliam'), ('lian'), ('liana'),
+    ('liane'), ('liang'), ('lianna'), ('lianne'), ('liao'), ('liar'), ('liarliar'), ('libbie'),
+    ('libby'), ('libelula'), ('liberal'), ('liberate'), ('liberati'), ('liberato'), ('liberdade'), ('liberia'),
+    ('libero'), ('libert'), ('liberta'), ('libertad'), ('libertas'), ('liberte'), ('libertin'), ('liberty'),
+    ('libido'), ('libra'), ('library'), ('libras'), ('libtech'), ('license'), ('lichen'), ('lichking'),
+    ('licious'), ('lick'), ('licked'), ('lickem'), ('licker'), ('lickers'), ('lickher'), ('lickin'),
+    ('licking'), ('lickit'), ('lickitup'), ('licklick'), ('lickme'), ('lickpuss'), ('lickpussy'), ('licks'),
+    ('lickthis'), ('licku'), ('licorice'), ('lida'), ('lidia'), ('lidiya'), ('lidstrom'), ('liebe'),
+    ('lieben'), ('liebherr'), ('liebling'), ('liefde'), ('lien'), ('lies'), ('liesbeth'), ('lietome'),
+    ('lietuva'), ('life'), ('lifeboat'), ('lifecare'), ('lifeguar'), ('lifeguard'), ('lifehack'), ('lifeis'),
+    ('lifeisgood'), ('lifeless'), ('lifelife'), ('lifeline'), ('lifeson'), ('lifestyl'), ('lifestyle'), ('lifesuck'),
+    ('lifesucks'), ('lifesux'), ('lifetec'), ('lifetime'), ('lift'), ('lifted'), ('lifter'), ('lifting'),
+    ('ligaya'), ('ligeti'), ('light'), ('lightbul'), ('lightbulb'), ('lighter'), ('lighters'), ('lightfoo'),
+    ('lighthou'), ('lighthouse'), ('lighting'), ('lightman'), ('lightnin'), ('lightning'), ('lights'), ('lightsab'),
+    ('lightsaber'), ('lightspe'), ('lightwav'), ('lightyea'), ('lightyear'), ('like'), ('likeit'), ('likeme'),
+    ('likemike'), ('liken'), ('likesdick'), ('likesit'), ('likethat'), ('likethis'), ('likewhoa'), ('likuna'),
+    ('lila'), ('lilac'), ('lilacs'), ('lilbit'), ('lilcrowe'), ('lildevil'), ('lili'), ('lilia'),
+    ('lilian'), ('liliana'), ('liliane'), ('lilies'), ('lilija'), ('lilili'), ('lililili'), ('liliput'),
+    ('lilith'), ('liliya'), ('liljoe'), ('liljohn'), ('liljon'), ('lilkim'), ('lill'), ('lilleke'),
+    ('liller'), ('lilli'), ('lillian'), ('lillie'), ('lillo'), ('lilly'), ('lillypad'), ('lillys'),
+    ('lilmac'), ('lilmama'), ('lilman'), ('lilmike'), ('lilo'), ('lilone'), ('lilred'), ('lilwayne'),
+    ('lily'), ('lilyfire'), ('lilylily'), ('lilyrose'), ('lima'), ('limabean'), ('limaperu'), ('limbaugh'),
+    ('limbo'), ('lime'), ('limeligh'), ('limelite'), ('limerick'), ('limewire'), ('limit'), ('limited'),
+    ('limits'), ('limo'), ('limon'), ('limon32988'), ('limonade'), ('limousin'), ('limp'), ('limpbiz'),
+    ('limpbizk'), ('limpbizkit'), ('limpdick'), ('limpkorn'), ('limpone'), ('limpopo'), ('lina'), ('linalina'),
+    ('lincol'), ('lincoln'), ('lind'), ('linda'), ('lindaa'), ('lindab'), ('lindac'), ('lindak'),
+    ('lindalou'), ('lindam'), ('lindas'), ('lindasue'), ('lindeman'), ('linden'), ('linder'), ('lindros'),
+    ('lindsa'), ('lindsay'), ('lindse'), ('lindsey'), ('lindy'), ('lindyhop'), ('line'), ('lineage'),
+    ('lineage123'), ('linear'), ('lineback'), ('lineika'), ('lineman'), ('liners'), ('lines'), ('linette'),
+    ('ling'), ('lingam'), ('linger'), ('lingerie'), ('lingling'), ('lingua'), ('linguist'), ('lingus'),
+    ('link'), ('linkedin'), ('linker'), ('linkin'), ('linkinpark'), ('links'), ('linksys'), ('linley'),
+    ('linlin'), ('linn'), ('linnea'), ('linsey'), ('linton'), ('linus'), ('linuss'), ('linux'),
+    ('linwood'), ('liolik'), ('lion'), ('lionel'), ('lioness'), ('lionhart'), ('lionhear'), ('lionheart'),
+    ('lionkin'), ('lionking'), ('lionlion'), ('lions'), ('lionsden'), ('lionss'), ('lipid'), ('lipinski'),
+    ('lipper'), ('lipps'), ('lips'), ('lipstick'), ('lipton'), ('liquid'), ('liquor'), ('lirika'),
+    ('lisa'), ('lisaann'), ('lisabeth'), ('lisalis'), ('lisalisa'), ('lisalove'), ('lisamari'), ('lisamarie'),
+    ('lisbeth'), ('lisboa'), ('lisbon'), ('lise'), ('lisenok'), ('lisette'), ('lisica'), ('lisichka'),
+    ('lissa'), ('lissalissa'), ('lissette'), ('list'), ('listen'), ('lister'), ('listerin'), ('listing'),
+    ('listless'), ('liston'), ('listopad'), ('lita'), ('lite'), ('litebeer'), ('liten'), ('liteon'),
+    ('litespee'), ('lithe'), ('lithium'), ('litle'), ('litter'), ('little'), ('littleb'), ('littlebear'),
+    ('littlebi'), ('littlebit'), ('littlebitch'), ('littlebo'), ('littlecunt'), ('littled'), ('littledo'), ('littlee'),
+    ('littlefo'), ('littlefuck'), ('littlefucker'), ('littlegi'), ('littlegirl'), ('littleguy'), ('littlehole'), ('littlejo'),
+    ('littlema'), ('littleman'), ('littleminge'), ('littleon'), ('littleone'), ('littler'), ('littleslut'), ('littleton'),
+    ('littlewhore'), ('litvin'), ('litvinov'), ('liudmila'), ('live'), ('liveevil'), ('livefree'), ('livelife'),
+    ('livelive'), ('livelong'), ('lively'), ('liven'), ('liveoak'), ('liver'), ('liverp'), ('liverp00l'),
+    ('liverpo'), ('liverpoo'), ('liverpool'), ('liverpool1'), ('liverpoolfc'), ('liverune'), ('lives'), ('livesex'),
+    ('livestrong'), ('livewire'), ('livia'), ('livid'), ('living'), ('livre'), ('livres'), ('liz8tysiu'),
+    ('liza'), ('lizabeth'), ('lizaliza'), ('lizar'), ('lizard'), ('lizardki'), ('lizards'), ('lizardsquad'),
+    ('lizaveta'), ('lizbeth'), ('lizet'), ('lizette'), ('liziko'), ('lizliz'), ('lizottes'), ('lizzard'),
+    ('lizzi'), ('lizzie'), ('lizzy'), ('ljb4dt7n'), ('ljcneg'), ('ljcnfkb'), ('ljcnjtdcrbq'), ('ljdthbt'),
+    ('ljhjattd'), ('ljhjuf'), ('ljhjujq'), ('ljkkfh'), ('ljrnjh'), ('ljvjdjq'), ('ljxtymrf'), ('lk9slwgh3x'),
+    ('lkjasd'), ('lkjh'), ('lkjhg'), ('lkjhgf'), ('lkjhgfd'), ('lkjhgfds'), ('lkjhgfdsa'), ('lkjhgfdsaz'),
+    ('lkjhgfdsazx'), ('lkjlkj'), ('lklk'), ('llabesab'), ('llabtoof'), ('llama'), ('llamas'), ('llanelli'),
+    ('llbean'), ('llcoolj'), ('llebpmac'), ('llessur'), ('llewelly'), ('llib'), ('llll'), ('lllll'),
+    ('llllll'), ('lllllll'), ('llllllll'), ('lllllllll'), ('llllllllll'), ('lllooottt'), ('lloyd'), ('lloyds'),
+    ('lmao'), ('lmfao'), ('lmnop'), ('load'), ('loaded'), ('loader'), ('loading'), ('loads'),
+    ('loadtoad'), ('loaf'), ('loafer'), ('lobah'), ('lobby'), ('lobit'), ('lobito'), ('lobo'),
+    ('lobolobo'), ('lobster'), ('lobsters'), ('lobzik')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('loca'), ('local'), ('locals'), ('locate'), ('location'), ('locdog'), ('lochness'), ('lock'),
+    ('lockdown'), ('locke'), ('locked'), ('lockedup'), ('locker'), ('lockerroom'), ('lockhart'), ('lockheed'),
+    ('lockingservi'), ('lockout'), ('locks'), ('locksley'), ('locksmit'), ('lockup'), ('lockwood'), ('loco'),
+    ('locoloco'), ('locoman'), ('locos'), ('locote'), ('locur'), ('locura'), ('locust'), ('locutus'),
+    ('lodewijk'), ('lodge'), ('lodoss'), ('loewen'), ('lofton'), ('loftus'), ('lofty'), ('loga'),
+    ('logan'), ('logans'), ('loganx'), ('logcabin'), ('logdog'), ('logger'), ('logging'), ('loggins'),
+    ('logic'), ('logica'), ('logical'), ('login'), ('loginov'), ('loginova'), ('logist'), ('logistic'),
+    ('logistics'), ('logitec'), ('logitech'), ('logjam'), ('loglatin'), ('logmein'), ('logo'), ('logoff'),
+    ('logologo'), ('logon'), ('logos'), ('logout'), ('logroll'), ('logs'), ('lohloh'), ('lohotron'),
+    ('loin'), ('lois'), ('loislane'), ('lokator'), ('loki'), ('lokiju'), ('lokiloki'), ('lokit'),
+    ('loklok'), ('loko'), ('lokoloko'), ('lokomoti'), ('lokomotiv'), ('lola'), ('lolada'), ('lolalola'),
+    ('loli'), ('lolikas'), ('lolilol'), ('loliloli'), ('lolipo'), ('lolipop'), ('lolit'), ('lolita'),
+    ('lolitas'), ('loll'), ('lollakas'), ('loller'), ('lollero'), ('lollie'), ('lollipo'), ('lollipop'),
+    ('lollllol'), ('lollo'), ('lollol'), ('lollollol'), ('lollone'), ('lolly'), ('lollypop'), ('lolman'),
+    ('lolnoob'), ('lolo'), ('lolol'), ('lololo'), ('lololol'), ('lolololo'), ('lolololol'), ('lololyo123'),
+    ('lolomg'), ('lolopc'), ('loloxx'), ('lolp'), ('lolpop'), ('lolpot'), ('lolwut'), ('lolz'),
+    ('lombard'), ('lombardi'), ('lombardo'), ('lombok'), ('lommerse'), ('lomond'), ('lomonosov'), ('lompoc'),
+    ('londo'), ('london'), ('londoner'), ('londres'), ('lone'), ('lonely'), ('loner'), ('loneranger'),
+    ('lonesome'), ('lonestar'), ('lonestar44'), ('lonewol'), ('lonewolf'), ('long'), ('longball'), ('longbeac'),
+    ('longbeach'), ('longboar'), ('longboard'), ('longboat'), ('longbow'), ('longboy'), ('longcock'), ('longcut'),
+    ('longdick'), ('longdong'), ('longer'), ('longest'), ('longfell'), ('longford'), ('longhair'), ('longhaul'),
+    ('longhorn'), ('longhorns'), ('longines'), ('longing'), ('longjohn'), ('longjump'), ('longlegs'), ('longlife'),
+    ('longlong'), ('longman'), ('longneck'), ('longone'), ('longshot'), ('longtail'), ('longtime'), ('longtong'),
+    ('longview'), ('longwood'), ('lonley'), ('lonnie'), ('lonsdale'), ('looc'), ('look'), ('lookat'),
+    ('lookatme'), ('looker'), ('lookie'), ('lookin'), ('looking'), ('looklook'), ('lookout'), ('looksee'),
+    ('lookup'), ('lool'), ('looloo'), ('loomis'), ('looner'), ('looney'), ('loonie'), ('loop'),
+    ('looped'), ('looper'), ('loophole'), ('loopie'), ('looping'), ('looploop'), ('loops'), ('loopy'),
+    ('loose'), ('looser'), ('loot'), ('lopas'), ('lopata'), ('lope'), ('lopesk'), ('lopez'),
+    ('lopi'), ('loplop'), ('loploprock'), ('loppol'), ('loqse'), ('loquit'), ('loquito'), ('lora'),
+    ('loraine'), ('loranthos'), ('lord'), ('lordgod'), ('lordik'), ('lordlord'), ('lordof'), ('lordofth'),
+    ('lords'), ('lordsoth'), ('lore'), ('loreal'), ('loredana'), ('lorelei'), ('loreli'), ('loren'),
+    ('lorena'), ('lorencia'), ('lorene'), ('lorenz'), ('lorenzo'), ('loreto'), ('loretta'), ('lori'),
+    ('lorie'), ('lorien'), ('lorilori'), ('lorna'), ('lorraine'), ('lorrie'), ('lory'), ('losang'),
+    ('losangel'), ('losangeles'), ('losbravo'), ('lose'), ('losenord'), ('loser'), ('loserboy'), ('loserkid'),
+    ('loserman'), ('losers'), ('loshadka'), ('loshara'), ('lost'), ('lost4815162342'), ('lostboy'), ('lostboys'),
+    ('lostlost'), ('lostlove'), ('lostone'), ('lostsoul'), ('lothar'), ('lothian'), ('lothlorien'), ('lotion'),
+    ('lotrfotr34'), ('lotta'), ('lotte'), ('lottery'), ('lottie'), ('lotto'), ('lotus'), ('lotuss'),
+    ('louann'), ('loud'), ('louder'), ('loudog'), ('louie'), ('louis'), ('louisa'), ('louise'),
+    ('louisian'), ('louisvil'), ('louisvuitton'), ('loulo'), ('loulou'), ('louloute'), ('lounge'), ('lourdes'),
+    ('loureed'), ('lousy'), ('lovable'), ('love'), ('love4eve'), ('love4ever'), ('love4me'), ('love4u'),
+    ('love4you'), ('love777321777'), ('loveable'), ('loveall'), ('loveass'), ('lovebaby'), ('lovebird'), ('loveboat'),
+    ('lovebu'), ('lovebug'), ('lovebugs'), ('lovebuzz'), ('lovecock'), ('lovecraf'), ('lovecraft'), ('loved'),
+    ('lovedick'), ('lovedoc'), ('loveee'), ('lovefeet'), ('loveforever'), ('lovegame'), ('lovegirl'), ('lovegirls'),
+    ('lovegod'), ('lovegood'), ('lovegun'), ('lovehate'), ('loveher'), ('lovehim'), ('lovehina'), ('lovehurt'),
+    ('lovehurts'), ('lovehurts1'), ('lovei'), ('lovein'), ('loveing'), ('loveis'), ('loveislife'), ('loveit'),
+    ('lovejone'), ('lovejoy'), ('lovel'), ('lovelace'), ('lovelady'), ('loveland'), ('loveless'), ('lovelife'),
+    ('loveline'), ('lovelisa'), ('lovell'), ('lovelong'), ('lovelost'), ('lovelov'), ('lovelove'), ('lovelovelove'),
+    ('lovely'), ('lovem'), ('loveman'), ('loveme'), ('loveone'), ('loveplanet'), ('loveporn'), ('lovepuss'),
+    ('lovepussy'), ('lover'), ('loverbo'), ('loverboy'), ('lovergir'), ('lovergirl'), ('loverman'), ('loverr'),
+    ('lovers'), ('loves'), ('lovesazz'), ('lovesex'), ('lovesexy'), ('lovesick'), ('lovesit'), ('lovesme'),
+    ('lovesong'), ('lovespor'), ('lovesporn'), ('lovess'), ('lovestory'), ('lovesu'), ('lovesuck'), ('lovesucks'),
+    ('lovesyou'), ('lovethem'), ('lovetits'), ('lovett'), ('loveu'), ('lovey'), ('loveya'), ('loveyo'),
+    ('loveyou'), ('lovezp1314'), ('lovin'), ('loving'), ('lovinit'), ('lowboy'), ('lowdown'), ('lowe'),
+    ('lowell'), ('lower'), ('lowers'), ('lowery'), ('lowkey'), ('lowlife'), ('lowlow'), ('lowman'),
+    ('lowride'), ('lowrider'), ('loxlox'), ('loxpidr'), ('loyalty'), ('loyola'), ('lozano'), ('lozinka'),
+    ('lp2568cskt'), ('lpkoji'), ('lplplp'), ('ls101vt'), ('lsdlsd'), ('lsia9dnb9y'), ('lsk8v9sa'), ('lslsls'),
+    ('lsutiger'), ('lsutigers'), ('ltcnhjth'), ('ltdeirf'), ('ltdjxrf'), ('lthgfhjkm'), ('lthtdj'), ('lthtdyz'),
+    ('ltkmaby'), ('ltleirf'), ('ltlvjhjp'), ('ltm9z8xa'), ('ltybc'), ('ltybcjdf'), ('ltybcrf'), ('ltymub'),
+    ('luan'), ('luansantana'), ('luap'), ('lubasha'), ('lubbock'), ('lube'), ('lubimaya'), ('lubimka'),
+    ('luca'), ('lucas'), ('lucass'), ('lucca'), ('lucciano'), ('lucent'), ('lucer'), ('lucerne'),
+    ('lucero'), ('luchit'), ('luci'), ('lucia'), ('lucian'), ('luciana'), ('luciano'), ('lucid'),
+    ('lucidity'), ('lucie'), ('lucien'), ('lucife'), ('lucifer'), ('lucifer666'), ('lucile'), ('lucille'),
+    ('lucinda'), ('lucious'), ('lucius'), ('luck')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('luckee'), ('luckey'), ('luckie'), ('luckies'), ('lucky'), ('luckyboy'), ('luckycat'), ('luckycharm'),
+    ('luckycharm3'), ('luckyday'), ('luckydog'), ('luckyman'), ('luckyme'), ('luckyone'), ('luckys'), ('luckystr'),
+    ('luckyy'), ('luckzz'), ('lucozade'), ('lucretia'), ('lucy'), ('lucycat'), ('lucydog'), ('lucylu'),
+    ('lucylucy'), ('ludacris'), ('ludic'), ('ludicgirls'), ('ludlow'), ('ludmila'), ('ludmilla'), ('ludo'),
+    ('ludovic'), ('ludovico'), ('ludvig'), ('ludwig'), ('luebri'), ('luetdi'), ('lufkin'), ('lugano'),
+    ('luger'), ('luggage'), ('lughser'), ('lugnut'), ('lugosi'), ('luigi'), ('luis'), ('luisa'),
+    ('luisfigo'), ('luisit'), ('luisito'), ('luisluis'), ('luismigue'), ('luiza'), ('luka'), ('lukas'),
+    ('lukasz'), ('luke'), ('lukeluke'), ('lukester'), ('luki'), ('lukoil'), ('lula'), ('lullaby'),
+    ('lulu'), ('lululu'), ('lulululu'), ('lumber'), ('lumberjack'), ('lumen'), ('lumina'), ('lump'),
+    ('lumper'), ('lumpkin'), ('lumpur'), ('lumpy'), ('luna'), ('lunacy'), ('lunaluna'), ('lunar'),
+    ('lunatic'), ('lunatik'), ('lunch'), ('lunchbox'), ('lund'), ('luners'), ('lung'), ('lunge'),
+    ('lunit'), ('lunita'), ('lunker'), ('luntik'), ('luojianhua'), ('lupe'), ('lupin'), ('lupine'),
+    ('lupit'), ('lupita'), ('lupo'), ('lupus'), ('lurch'), ('lurcher'), ('lurker'), ('lusaka'),
+    ('luscious'), ('luscombe'), ('lush'), ('lust'), ('luster'), ('lustful'), ('lustig'), ('lusting'),
+    ('lusty'), ('luther'), ('lutheran'), ('luthien'), ('luthor'), ('luton'), ('lutscher'), ('lutz'),
+    ('luv2epus'), ('luv2fish'), ('luv2fuck'), ('luv4ever'), ('luvbekki'), ('luvbug'), ('luvfeet'), ('luvfur'),
+    ('luvluv'), ('luvpussy'), ('luvsex'), ('luxor'), ('luxury'), ('luzern'), ('luzifer'), ('lv125is'),
+    ('lvbnhbq'), ('lvbnhbtdf'), ('lxgiwyl'), ('lyalya'), ('lydia'), ('lying'), ('lyle'), ('lyman'),
+    ('lynch'), ('lynda'), ('lyndon'), ('lyndsay'), ('lyndsey'), ('lynette'), ('lynn'), ('lynne'),
+    ('lynnette'), ('lynnie'), ('lynnlynn'), ('lynsey'), ('lynx'), ('lynyrd'), ('lyons'), ('lyric'),
+    ('lyrical'), ('lyrics'), ('lysander'), ('lytdybr'), ('lytdybrbdfvgbhf'), ('lytghjgtnhjdcr'), ('lyubov'), ('lyudmila'),
+    ('lzbs2twz'), ('lzhan16889'), ('lzlzdfcz'), ('m0nk3y'), ('m0nkey'), ('m0nster'), ('m0ntlure'), ('m123456789'),
+    ('m1chael'), ('m1garand'), ('m1sf1t'), ('m249saw'), ('m5wkqf'), ('m69fg1w'), ('m69fg2w'), ('m6cjy69u35'),
+    ('m7hsqstm'), ('m7n56xo'), ('m_roesel'), ('ma123123123'), ('maandag'), ('maarten'), ('maasikas'), ('mabel'),
+    ('mabelle'), ('mable'), ('mabuhay'), ('mac2olli'), ('macabre'), ('macaco'), ('macanudo'), ('macarena'),
+    ('macaroni'), ('macavity'), ('macbeth'), ('macbook'), ('macc'), ('macca'), ('maccom'), ('macdad'),
+    ('macdaddy'), ('macdog'), ('macdonal'), ('macduff'), ('mace'), ('macedonia'), ('maceo'), ('macfly'),
+    ('macgyver'), ('mach'), ('machado'), ('machete'), ('machi'), ('machin'), ('machina'), ('machine'),
+    ('machines'), ('macho'), ('machoman'), ('machone'), ('maciej'), ('maciek'), ('macintos'), ('macintosh'),
+    ('macizo'), ('mack'), ('mackay'), ('mackdad'), ('mackdadd'), ('mackdaddy'), ('mackenzi'), ('mackenzie'),
+    ('macker'), ('mackey'), ('mackie'), ('mackin'), ('mackmack'), ('macko'), ('mackster'), ('maclaren'),
+    ('maclean'), ('macleod'), ('macmac'), ('macman'), ('macon'), ('macondo'), ('macro'), ('macron'),
+    ('macros'), ('macross'), ('macy'), ('macys'), ('mada'), ('madafaka'), ('madagascar'), ('madagaskar'),
+    ('madalena'), ('madalin'), ('madalina'), ('madam'), ('madame'), ('madara'), ('madarchod'), ('madball'),
+    ('madcap'), ('madcat'), ('madcow'), ('madd'), ('maddawg'), ('madden'), ('maddi'), ('maddie'),
+    ('maddison'), ('maddmaxx'), ('maddo'), ('maddoc'), ('maddog'), ('maddogg'), ('maddox'), ('maddux'),
+    ('maddy'), ('made'), ('made40media'), ('madeira'), ('madelein'), ('madeleine'), ('madelin'), ('madeline'),
+    ('madelyn'), ('mademan'), ('madera'), ('madge'), ('madhatte'), ('madhatter'), ('madhavi'), ('madhouse'),
+    ('madhu'), ('madhuri'), ('madi'), ('madina'), ('madinina'), ('madiso'), ('madison'), ('madjack'),
+    ('madlen'), ('madma'), ('madmac'), ('madmad'), ('madman'), ('madmax'), ('madmike'), ('madmoney'),
+    ('madmonk'), ('madnes'), ('madness'), ('madoka'), ('madona'), ('madone'), ('madonn'), ('madonna'),
+    ('madras'), ('madre'), ('madri'), ('madrid'), ('madrigal'), ('madriver'), ('madrox'), ('madsen'),
+    ('maduro'), ('mady'), ('madzia'), ('maelstro'), ('maelstrom'), ('maemae'), ('maersk'), ('maestr'),
+    ('maestro'), ('mafald'), ('mafalda'), ('maffia'), ('mafia'), ('mafiaman'), ('mafioso'), ('maga'),
+    ('magadan'), ('magal'), ('magali'), ('magamed'), ('magand'), ('maganda'), ('magazin'), ('magazine'),
+    ('magda'), ('magdalen'), ('magdalena'), ('mage'), ('magee'), ('magelan'), ('magellan'), ('magenta'),
+    ('maggi'), ('maggie'), ('maggiema'), ('maggio'), ('maggot'), ('maggy'), ('magi'), ('magic'),
+    ('magica'), ('magical'), ('magical123'), ('magicc'), ('magichat'), ('magician'), ('magick'), ('magicman'),
+    ('magico'), ('magicone'), ('magics'), ('magik'), ('magika'), ('magill'), ('magilla'), ('magister'),
+    ('magistr'), ('magius'), ('magma'), ('magmag'), ('magman'), ('magna'), ('magnat'), ('magnavox'),
+    ('magnet'), ('magnetic'), ('magneto'), ('magnific'), ('magnit'), ('magnoli'), ('magnolia'), ('magnu'),
+    ('magnum'), ('magnumpi'), ('magnus'), ('magodeoz'), ('magomed'), ('magoo'), ('magoos'), ('magpie'),
+    ('magpies'), ('magrat'), ('magritte'), ('mags'), ('maguire'), ('magura'), ('magus'), ('magyar'),
+    ('maha'), ('mahal'), ('mahalk'), ('mahalkit'), ('mahalkita'), ('mahalko'), ('mahalo'), ('mahaon'),
+    ('mahatma'), ('mahendra'), ('mahesh'), ('mahimahi'), ('mahina'), ('mahjong'), ('mahler'), ('mahmoud'),
+    ('mahmud'), ('mahmudov'), ('mahmut'), ('mahogany'), ('mahone'), ('mahoney'), ('mahoomar'), ('maia'),
+    ('maico'), ('maid'), ('maide'), ('maiden'), ('maier'), ('maigan'), ('maikel'), ('mail'),
+    ('mailbox'), ('mailcreated5240'), ('mailer'), ('mailliw'), ('mailmail'), ('mailman'), ('mailme'), ('mailmsg'),
+    ('mailroom'), ('mailru'), ('mailto'), ('maimai'), ('main'), ('maine'), ('mainer'), ('mainland'),
+    ('mainline'), ('mainman'), ('mainst'), ('mainstay'), ('mainstre'), ('maint'), ('maintain'), ('maintenance'),
+    ('maisie'), ('maiso'), ('maison'), ('maisuradze'), ('maitai'), ('maitland'), ('maitre'), ('maiyeuem'),
+    ('maja'), ('majere'), ('majestic'), ('majesty'), ('majic'), ('majick'), ('majik'), ('majinbuu'),
+    ('major'), ('majora'), ('majors'), ('majortom')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('makaka'), ('makalu'), ('makarenko'), ('makaron'), ('makaroni'), ('makarov'), ('makarova'), ('makassar'),
+    ('makavel'), ('makaveli'), ('makayla'), ('makcim'), ('make'), ('makeit'), ('makeitso'), ('makelove'),
+    ('makeme'), ('makemone'), ('makemoney'), ('makena'), ('makenna'), ('makenzie'), ('makeover'), ('maker'),
+    ('makers'), ('makeup'), ('maki'), ('making'), ('makisupa'), ('makita'), ('mako'), ('makomako'),
+    ('makoto'), ('maks'), ('maksat'), ('maksik'), ('maksim'), ('maksimka'), ('maksimov'), ('maksimova'),
+    ('maksimus'), ('maksimuss'), ('maksmaks'), ('makson'), ('maktub'), ('mala'), ('malabar'), ('malachi'),
+    ('malachy'), ('malacon'), ('malady'), ('malaga'), ('malahit'), ('malaika'), ('malaka'), ('malakas'),
+    ('malaki'), ('malamute'), ('malandro'), ('malaria'), ('malawi'), ('malay'), ('malaya'), ('malaysia'),
+    ('malboro'), ('malcolm'), ('malcolmx'), ('malcom'), ('malden'), ('maldini'), ('maldito'), ('maldives'),
+    ('maldonad'), ('maldonado'), ('male'), ('malena'), ('mali'), ('malib'), ('malibog'), ('malibu'),
+    ('malice'), ('malik'), ('malika'), ('malin'), ('malina'), ('malinda'), ('maling'), ('malinka'),
+    ('malinois'), ('malish'), ('malishi'), ('malishka'), ('malkav'), ('malkavian'), ('malkuth'), ('mall'),
+    ('mallard'), ('mallards'), ('mallet'), ('mallorca'), ('mallory'), ('malloy'), ('mallrat'), ('mallrats'),
+    ('malmal'), ('malmstee'), ('malmsteen'), ('malo'), ('malone'), ('maloney'), ('malory'), ('maltby'),
+    ('maltese'), ('maluco'), ('malutka'), ('malvern'), ('malvin'), ('malvina'), ('malysh'), ('malyshka'),
+    ('mama'), ('mamabear'), ('mamacita'), ('mamada'), ('mamadas'), ('mamadou'), ('mamaeva'), ('mamaipapa'),
+    ('mamakin'), ('mamaliga'), ('mamama'), ('mamamama'), ('mamami'), ('mamamia'), ('maman'), ('mamanunya'),
+    ('mamapap'), ('mamapapa'), ('mamas'), ('mamasboy'), ('mamasha'), ('mamasita'), ('mamata'), ('mamatata'),
+    ('mambo'), ('mamedov'), ('mamedova'), ('mami'), ('maminka'), ('mamit'), ('mamita'), ('mamiya'),
+    ('mamma'), ('mammal'), ('mammamia'), ('mammas'), ('mammon'), ('mammoth'), ('mammut'), ('mammy'),
+    ('mamo4ka'), ('mamochka'), ('mamon'), ('mamont'), ('mamoru'), ('mamou'), ('mamour'), ('mamoxa'),
+    ('mamuka'), ('mamula'), ('mamulya'), ('mamusia'), ('man22man'), ('mana'), ('manage'), ('manageme'),
+    ('management'), ('manager'), ('managers'), ('managua'), ('manamana'), ('manami'), ('manana'), ('manara'),
+    ('manasa'), ('manassas'), ('manatee'), ('mancha'), ('manchest'), ('mancheste'), ('manchester'), ('manchester1'),
+    ('manchesterunited'), ('manchild'), ('manchu'), ('mancini'), ('mancity'), ('mancow'), ('mand'), ('manda'),
+    ('mandal'), ('mandala'), ('mandalay'), ('mandarin'), ('mandarinka'), ('mandate'), ('mandel'), ('mandela'),
+    ('mander'), ('manders'), ('mandi'), ('mandie'), ('mandigo'), ('mandingo'), ('mandms'), ('mando'),
+    ('mandog'), ('mandolin'), ('mandragora'), ('mandrake'), ('mandreki'), ('mandy'), ('mandymoo'), ('mandys'),
+    ('manester'), ('manfred'), ('mang'), ('manga'), ('mangas'), ('mange'), ('manger'), ('mangesh'),
+    ('mango'), ('mangoes'), ('mangoo'), ('mangos'), ('mangus'), ('mangust6403'), ('manhatta'), ('manhattan'),
+    ('manhole'), ('manhood'), ('manhunt'), ('mani'), ('mania'), ('maniac'), ('maniaco'), ('maniacs'),
+    ('maniak'), ('manic'), ('manics'), ('maniek'), ('manifest'), ('manifold'), ('manija'), ('manila'),
+    ('manilow'), ('manimal'), ('manina'), ('manish'), ('manisha'), ('manit'), ('manito'), ('manitoba'),
+    ('manitou'), ('manjula'), ('mankato'), ('mankind'), ('manko'), ('manley'), ('manly'), ('manman'),
+    ('manmanman'), ('manmeat'), ('mann'), ('manna'), ('manner'), ('manners'), ('mannheim'), ('manni'),
+    ('mannie'), ('manning'), ('mannix'), ('mannn'), ('manny'), ('mannys'), ('mano'), ('manoj'),
+    ('manol'), ('manolis'), ('manolito'), ('manolo'), ('manoman'), ('manon'), ('manor'), ('manouche'),
+    ('manowa'), ('manowar'), ('manpower'), ('manpreet'), ('manray'), ('manse'), ('mansel'), ('mansell'),
+    ('mansfiel'), ('mansfield'), ('mansikka'), ('mansion'), ('manso'), ('manson'), ('mansoor'), ('mansour'),
+    ('manstein'), ('mansur'), ('manta'), ('mantaray'), ('mantas'), ('manteca'), ('mantel'), ('mantha'),
+    ('mantis'), ('mantle'), ('mantra'), ('manu'), ('manual'), ('manuals'), ('manue'), ('manuel'),
+    ('manuela'), ('manunite'), ('manunited'), ('manure'), ('manut'), ('manutd'), ('manwhore'), ('many'),
+    ('manyak'), ('manzan'), ('manzana'), ('maomao'), ('mapet123456'), ('maple'), ('maplelea'), ('mapleleaf'),
+    ('mapleleafs'), ('maples'), ('mapper'), ('maps'), ('mara'), ('maraca'), ('maradon'), ('maradona'),
+    ('marajade'), ('marakesh'), ('maral'), ('marameo'), ('maranafa'), ('maranata'), ('maranath'), ('maranda'),
+    ('maranell'), ('maranello'), ('marantz'), ('marat'), ('marathon'), ('maratik'), ('maraton'), ('maraud'),
+    ('marauder'), ('marbella'), ('marble'), ('marbles'), ('marboro'), ('marbury'), ('marc'), ('marce'),
+    ('marceau'), ('marcel'), ('marcela'), ('marcelin'), ('marcelit'), ('marcell'), ('marcella'), ('marcelle'),
+    ('marcello'), ('marcellu'), ('marcelo'), ('march'), ('marchand'), ('marche'), ('marchenko'), ('marci'),
+    ('marcia'), ('marciano'), ('marcie'), ('marcin'), ('marcio'), ('marcmarc'), ('marco'), ('marconi'),
+    ('marcop'), ('marcopol'), ('marcopolo'), ('marcos'), ('marcu'), ('marcus'), ('marcuseckos'), ('marcy'),
+    ('marder'), ('mardi'), ('mardigra'), ('marduk'), ('mare'), ('marek'), ('maremma'), ('marengo'),
+    ('marfa'), ('margare'), ('margaret'), ('margarida'), ('margarit'), ('margarita'), ('margaux'), ('marge'),
+    ('margera'), ('margherita'), ('margie'), ('margin'), ('margit'), ('margo'), ('margosha'), ('margot'),
+    ('margret'), ('margus'), ('marhaba'), ('mari'), ('maria'), ('maria32b'), ('mariaa'), ('mariac'),
+    ('mariachi'), ('mariah'), ('mariajos'), ('marial'), ('mariam'), ('mariamar'), ('mariamaria'), ('mariami'),
+    ('marian'), ('mariana'), ('marianas'), ('mariann'), ('marianna'), ('marianne'), ('mariano'), ('marias'),
+    ('maribe'), ('maribel'), ('maric'), ('marica'), ('maricel'), ('maricela'), ('marico'), ('maricon'),
+    ('maridon'), ('marie'), ('mariel'), ('mariela'), ('mariella'), ('marielle'), ('maries'), ('marietta'),
+    ('mariette'), ('marigol'), ('marigold'), ('marihuana'), ('marija'), ('marijane'), ('marijke'), ('marijuan'),
+    ('marijuana'), ('marika'), ('mariko'), ('marilena'), ('marillio'), ('marillion'), ('marilu'), ('marilyn'),
+    ('marimar'), ('marimari'), ('marimba'), ('marin'), ('marina'), ('marinamarina'), ('marinaro'), ('marinas'),
+    ('marine'), ('mariner'), ('mariners'), ('marines')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('marinka'), ('marino'), ('marinochka'), ('marinus'), ('mario'), ('mariol'), ('marion'), ('marios'),
+    ('maripos'), ('mariposa'), ('maris'), ('marisa'), ('marisela'), ('marisha'), ('marishka'), ('mariska'),
+    ('mariso'), ('marisol'), ('mariss'), ('marissa'), ('marist'), ('marit'), ('marita'), ('maritime'),
+    ('maritt'), ('maritz'), ('maritza'), ('mariu'), ('mariupol'), ('marius'), ('mariusz'), ('mariya'),
+    ('marjan'), ('marjon'), ('marjorie'), ('mark'), ('marked'), ('markel'), ('marker'), ('markers'),
+    ('market'), ('marketin'), ('marketing'), ('markham'), ('markhegarty'), ('markie'), ('markii'), ('markin'),
+    ('markis'), ('markiz'), ('markiza'), ('markmark'), ('marko'), ('markos'), ('markov'), ('markova'),
+    ('markovka'), ('markp'), ('marks'), ('marku'), ('markus'), ('marky'), ('markymark'), ('marla'),
+    ('marlbor'), ('marlboro'), ('marle'), ('marlee'), ('marleen'), ('marlen'), ('marlena'), ('marlene'),
+    ('marley'), ('marlin'), ('marlins'), ('marlo'), ('marlon'), ('marlow'), ('marlowe'), ('marma'),
+    ('marmaduke'), ('marmalad'), ('marmalade'), ('marmar'), ('marmaris'), ('marmelad'), ('marmeladka'), ('marmite'),
+    ('marmot'), ('marmstad'), ('marnie'), ('marocas'), ('maroon'), ('marque'), ('marques'), ('marquett'),
+    ('marquez'), ('marquis'), ('marquise'), ('marrero'), ('marriage'), ('married'), ('marriott'), ('marron'),
+    ('marrow'), ('marry'), ('marryher'), ('marryme'), ('mars'), ('marsala'), ('marsbar'), ('marsbars'),
+    ('marsden'), ('marseill'), ('marseille'), ('marsel'), ('marsface'), ('marsh'), ('marsha'), ('marshal'),
+    ('marshall'), ('marsik'), ('marsland'), ('marsmars'), ('marston'), ('mart'), ('marta'), ('martel'),
+    ('martell'), ('marten'), ('martens'), ('martesana'), ('marth'), ('martha'), ('marthe'), ('marti'),
+    ('martial'), ('martian'), ('martie'), ('martijn'), ('martin'), ('martina'), ('martine'), ('martinet'),
+    ('martinez'), ('martini'), ('martiniq'), ('martinka'), ('martino'), ('martins'), ('martmart'), ('martusia'),
+    ('marty'), ('martymar'), ('martyn'), ('martyna'), ('martyr'), ('martys'), ('marugame'), ('maruni'),
+    ('marusa'), ('marusia'), ('marusja'), ('maruska'), ('marusy'), ('marusya'), ('marv'), ('marvel'),
+    ('marvi'), ('marvin'), ('marwan'), ('marx'), ('mary'), ('maryam'), ('maryan'), ('maryann'),
+    ('maryanne'), ('marybeth'), ('maryjan'), ('maryjane'), ('maryjo'), ('maryjoy'), ('marykate'), ('marykay'),
+    ('maryland'), ('marylee'), ('marylin'), ('marylou'), ('marymary'), ('maryna'), ('maryse'), ('marysia'),
+    ('marzena'), ('marzia'), ('marzipan'), ('masa'), ('masahiko'), ('masahiro'), ('masaki'), ('masala'),
+    ('masamasa'), ('masami'), ('masamune'), ('masana'), ('masaru'), ('masayuki'), ('mascara'), ('mascha'),
+    ('mascitti'), ('mascot'), ('mase'), ('maser'), ('maserati'), ('mash'), ('masha'), ('mashamasha'),
+    ('mashed'), ('mashenka'), ('masher'), ('mashie'), ('mashina'), ('mashinka'), ('mashka'), ('mashmash'),
+    ('mashoutq'), ('masi'), ('masiania'), ('masina'), ('mask'), ('masked'), ('maslov'), ('maslova'),
+    ('masmas'), ('mason'), ('masonic'), ('masonry'), ('masons'), ('masoud'), ('masque'), ('mass'),
+    ('massacre'), ('massage'), ('masseffect'), ('masser'), ('massey'), ('massi'), ('massie'), ('massilia'),
+    ('massim'), ('massimiliano'), ('massimo'), ('massive'), ('masson'), ('mast'), ('masta'), ('maste'),
+    ('master'), ('master1234'), ('masterb'), ('masterba'), ('masterbaiting'), ('masterbate'), ('masterbating'), ('masterca'),
+    ('mastercard'), ('masterch'), ('masterchief'), ('mastercr'), ('masterg'), ('masterkey'), ('masterlo'), ('masterma'),
+    ('mastermi'), ('mastermind'), ('masterof'), ('masterok'), ('masterp'), ('masters'), ('mastert'), ('masterx'),
+    ('mastery'), ('mastiff'), ('mastro'), ('masturba'), ('masturbate'), ('masturbation'), ('masyanya'), ('mata'),
+    ('matado'), ('matador'), ('matahari'), ('matako'), ('matata'), ('match'), ('matchbox'), ('matchbox20'),
+    ('matches'), ('mate'), ('matelot'), ('matematica'), ('matematika'), ('mateo'), ('materia'), ('material'),
+    ('mateus'), ('mateusz'), ('math'), ('mathe'), ('mathematics'), ('mather'), ('mathers'), ('matheus'),
+    ('matheus123'), ('mathew'), ('mathews'), ('mathias'), ('mathie'), ('mathieu'), ('mathilda'), ('mathilde'),
+    ('mathis'), ('mathman'), ('mathmath'), ('matia'), ('matias'), ('matic'), ('matild'), ('matilda'),
+    ('matilde'), ('matiss'), ('matisse'), ('matkhau'), ('matlock'), ('matman'), ('matmat'), ('matr1x'),
+    ('matri'), ('matric'), ('matrica'), ('matrim'), ('matrix'), ('matrixx'), ('matrixxx'), ('matros'),
+    ('matrox'), ('matson'), ('matsui'), ('matt'), ('matte'), ('matteo'), ('matter'), ('matterho'),
+    ('matters'), ('mattes'), ('mattfz'), ('matthe'), ('matthew'), ('matthewd'), ('matthewj'), ('matthewp'),
+    ('matthews'), ('matthias'), ('matthieu'), ('matti'), ('mattia'), ('mattias'), ('mattie'), ('mattingl'),
+    ('mattman'), ('mattmatt'), ('matto'), ('mattress'), ('matty'), ('mattyboy'), ('mattylad10'), ('matulino'),
+    ('mature'), ('maturin'), ('matveev'), ('matveeva'), ('matvei'), ('matvey'), ('maude'), ('maudit'),
+    ('maui'), ('maul'), ('maulwurf'), ('maumau'), ('maura'), ('maureen'), ('mauric'), ('maurice'),
+    ('maurici'), ('mauricio'), ('mauritius'), ('maurizio'), ('mauro'), ('maurolarastefy'), ('maus'), ('mausbaer'),
+    ('mausen'), ('mauser'), ('mausi'), ('mausmaus'), ('maveric'), ('maverick'), ('mavericks'), ('maverik'),
+    ('mavipies'), ('mavis'), ('mavrick'), ('mavrik'), ('mavs'), ('mawmaw'), ('maxcat'), ('maxdog'),
+    ('maxell'), ('maxfli'), ('maxi'), ('maxie'), ('maxim'), ('maxima'), ('maximal'), ('maxime'),
+    ('maximi'), ('maximili'), ('maximilian'), ('maximiliano'), ('maximill'), ('maximize'), ('maximka'), ('maximo'),
+    ('maximu'), ('maximum'), ('maximus'), ('maximuss'), ('maxin'), ('maxine'), ('maxivan'), ('maxman'),
+    ('maxmax'), ('maxmaxma'), ('maxmaxmax'), ('maxmotives'), ('maxogo'), ('maxpayne'), ('maxpower'), ('maxrebo'),
+    ('maxsam'), ('maxsim'), ('maxthedo'), ('maxtor'), ('maxwel'), ('maxwell'), ('maxx'), ('maxxam'),
+    ('maxxie'), ('maxxim'), ('maxxmaxx'), ('maxxtro'), ('maxxum'), ('maxxx'), ('maxxxx'), ('maya'),
+    ('mayamaya'), ('maybach'), ('maybe'), ('maybelle'), ('maybenot'), ('mayberry'), ('mayday'), ('mayer'),
+    ('mayfair'), ('mayfield'), ('mayflowe'), ('mayflower'), ('mayfly'), ('mayhem'), ('mayhew'), ('maymay'),
+    ('maynard'), ('mayo'), ('mayor'), ('maytag'), ('mayumi'), ('mayurs'), ('maywood'), ('mazafaka'),
+    ('mazafaker'), ('mazahaka'), ('mazatlan'), ('mazda'), ('mazda323f'), ('mazdarx'), ('mazepa'), ('mazinger'),
+    ('mbkugegs'), ('mbrown'), ('mcafee'), ('mcardle')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('mcbride'), ('mccabe'), ('mccain'), ('mccall'), ('mccallum'), ('mccann'), ('mccarthy'), ('mccarty'),
+    ('mcclain'), ('mcclane'), ('mccloud'), ('mcclure'), ('mccord'), ('mccoy'), ('mcdaniel'), ('mcdonald'),
+    ('mcdonalds'), ('mcdougal'), ('mcdowell'), ('mcduff'), ('mcelroy'), ('mcescher'), ('mcfadden'), ('mcfarland'),
+    ('mcfly'), ('mcgee'), ('mcgill'), ('mcgowan'), ('mcgrady'), ('mcgrath'), ('mcgraw'), ('mcgregor'),
+    ('mcguire'), ('mcgwire'), ('mchale'), ('mcintosh'), ('mcintyre'), ('mckay'), ('mckenna'), ('mckenzie'),
+    ('mckinley'), ('mckinney'), ('mcknight'), ('mclane'), ('mclaren'), ('mclarenf'), ('mclean'), ('mcleod'),
+    ('mcmahon'), ('mcmaster'), ('mcmcmc'), ('mcmillan'), ('mcnabb'), ('mcnair'), ('mcnasty'), ('mcneil'),
+    ('mcqueen'), ('mcse'), ('mdavis'), ('mdmboca'), ('mdmcrtix'), ('mdmgatew'), ('mdmgen'), ('mdmmcom'),
+    ('mdmmoto'), ('mdmnis1u'), ('mdmnttp'), ('mdmolic'), ('mdmrock'), ('mdmvdot'), ('mdmzyxel'), ('mdogg'),
+    ('mdxpain'), ('me262a'), ('me2you'), ('meade'), ('meadow'), ('meadows'), ('meagain'), ('meagan'),
+    ('meaghan'), ('mean'), ('meandme'), ('meandyou'), ('meanie'), ('meaning'), ('meanone'), ('measure'),
+    ('measures'), ('meat'), ('meatball'), ('meathead'), ('meatloaf'), ('meatman'), ('meatmeat'), ('meatwad'),
+    ('meaty'), ('mebaby'), ('mecanic'), ('mecano'), ('mecca'), ('mech'), ('mechanic'), ('mechanical'),
+    ('mechta'), ('mecmec'), ('medal'), ('meddle'), ('medeiros'), ('medellin'), ('medford'), ('media'),
+    ('medias'), ('medic'), ('medical'), ('medicare'), ('medici'), ('medicin'), ('medicina'), ('medicine'),
+    ('medicman'), ('medico'), ('medics'), ('medicus'), ('medieval'), ('medin'), ('medina'), ('medion'),
+    ('meditate'), ('meditation'), ('medium'), ('medley'), ('medlock'), ('medman'), ('medstar'), ('medtech'),
+    ('medus'), ('medusa'), ('meduza'), ('medved'), ('medvedev'), ('medvedeva'), ('meee'), ('meeeee'),
+    ('meeker'), ('meeko'), ('meemaw'), ('meemee'), ('meenter'), ('meep'), ('meepmeep'), ('meerkat'),
+    ('meesha'), ('meester'), ('meet'), ('meeting'), ('meetme'), ('meetoo'), ('mefisto'), ('mega'),
+    ('megabass'), ('megabyte'), ('megadeth'), ('megafon'), ('megagerka'), ('megama'), ('megaman'), ('megamanx'),
+    ('megamega'), ('megamon'), ('megan'), ('meganb'), ('megane'), ('meganfox'), ('megans'), ('megapass'),
+    ('megapolis'), ('megastar'), ('megat'), ('megaton'), ('megatron'), ('megazone'), ('meggie'), ('megha'),
+    ('meghan'), ('megiddo'), ('megmeg'), ('megryan'), ('megumi'), ('megusta'), ('mehmet'), ('mehoff'),
+    ('mehves'), ('meier'), ('meijer'), ('meiling'), ('meimei'), ('mein'), ('meiner'), ('meiser'),
+    ('meisha'), ('meissen'), ('meister'), ('meknes'), ('mekong'), ('melange'), ('melani'), ('melania'),
+    ('melanie'), ('melaniec'), ('melany'), ('melbourn'), ('melbourne'), ('melchior'), ('melena'), ('meli'),
+    ('melin'), ('melina'), ('melinda'), ('melis'), ('melisa'), ('meliss'), ('melissa'), ('melissaa'),
+    ('melissas'), ('melita'), ('melkiy'), ('melkor'), ('mellie'), ('mellisa'), ('mellissa'), ('mello'),
+    ('mellon'), ('mellons'), ('mellow'), ('melly'), ('melmac'), ('melman'), ('melmel'), ('melnik'),
+    ('melnikova'), ('melod'), ('melodie'), ('melody'), ('meloman'), ('melon'), ('melone'), ('meloni'),
+    ('melonie'), ('melons'), ('melony'), ('melrose'), ('melt'), ('meltdown'), ('meltin'), ('melting'),
+    ('melton'), ('melvi'), ('melville'), ('melvin'), ('melvins'), ('membe'), ('member'), ('membrane'),
+    ('meme'), ('memem'), ('mememe'), ('memememe'), ('memento'), ('memnoch'), ('memnon'), ('memo'),
+    ('memor'), ('memorex'), ('memorial'), ('memories'), ('memory'), ('memphi'), ('memphis'), ('memyself'),
+    ('menace'), ('menage'), ('menard'), ('menards'), ('mendel'), ('mendes'), ('mendez'), ('mendoz'),
+    ('mendoza'), ('meng'), ('menina'), ('menlo'), ('menow'), ('mens'), ('mensch'), ('mensos'),
+    ('mensuck'), ('ment'), ('mental'), ('mentat'), ('menthol'), ('mention'), ('mentor'), ('mentos'),
+    ('menudo'), ('menzies'), ('meoff'), ('meonly'), ('meow'), ('meowmeow'), ('meowmix'), ('mephisto'),
+    ('merc'), ('mercado'), ('mercator'), ('merced'), ('mercede'), ('mercedes'), ('mercedez'), ('mercenar'),
+    ('mercenary'), ('mercer'), ('merchant'), ('merci'), ('merckx'), ('mercur'), ('mercure'), ('mercuri'),
+    ('mercurio'), ('mercury'), ('mercutio'), ('mercy'), ('merda'), ('merdas'), ('merde'), ('merdes'),
+    ('meredith'), ('merengue'), ('merete'), ('merger'), ('merhaba'), ('meriba'), ('meribel'), ('merida'),
+    ('meridian'), ('merino'), ('merit'), ('merkava'), ('merkel'), ('merkin'), ('merkur'), ('merl'),
+    ('merl1n'), ('merle'), ('merli'), ('merlin'), ('merlino'), ('merlo'), ('merlot'), ('merlyn'),
+    ('mermaid'), ('mermaids'), ('merman'), ('merrick'), ('merrill'), ('merritt'), ('merry'), ('mersedes'),
+    ('merson'), ('merton'), ('mervin'), ('mervyn'), ('merzario'), ('mesa'), ('meshugga'), ('mesohorn'),
+    ('mesohorny'), ('mesquite'), ('mess'), ('message'), ('messages'), ('messenge'), ('messenger'), ('messer'),
+    ('messi'), ('messiah'), ('messier'), ('messina'), ('messy'), ('mester'), ('mestre'), ('meta'),
+    ('metadata'), ('metal'), ('metalcore'), ('metalgea'), ('metalgear'), ('metalgod'), ('metalhea'), ('metalhead'),
+    ('metalic'), ('metalica'), ('metalist'), ('metall'), ('metallic'), ('metallica'), ('metallica1'), ('metalman'),
+    ('metals'), ('metanoia'), ('metaphor'), ('metart'), ('metatron'), ('metaxa'), ('metcalf'), ('meteor'),
+    ('meteora'), ('meteoro'), ('meter'), ('metfan'), ('meth'), ('methane'), ('methanol'), ('metheny'),
+    ('method'), ('methodma'), ('methodman'), ('methods'), ('methos'), ('metlife'), ('meto'), ('metoo'),
+    ('metoyou'), ('metree'), ('metro'), ('metroid'), ('metrolog'), ('metroman'), ('metron'), ('metropol'),
+    ('metropolis'), ('metros'), ('mets'), ('metsjets'), ('mettss'), ('metzger'), ('mevefalkcakk'), ('mewtwo'),
+    ('mexic'), ('mexica'), ('mexicali'), ('mexican'), ('mexicano'), ('mexico'), ('mexiko'), ('meyer'),
+    ('meyers'), ('mgmgmg'), ('mgoblue'), ('mhorgan'), ('miah'), ('miami'), ('miamia'), ('miamo'),
+    ('miamor'), ('mian'), ('miao'), ('miasma'), ('miata'), ('miaumiau'), ('mibbes'), ('mibeb'),
+    ('mica'), ('micael'), ('micaela'), ('micah'), ('micasa'), ('mice'), ('mich'), ('micha'),
+    ('michae'), ('michael'), ('michael123'), ('michaela'), ('michaelb'), ('michaelc'), ('michaeld'), ('michaele'),
+    ('michaelf'), ('michaelg'), ('michaelj'), ('michaeljackson'), ('michaelk'), ('michaell'), ('michaelm'), ('michaeln'),
+    ('michaelp'), ('michaels'), ('michaelt'), ('michail')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('michal'), ('miche'), ('micheal'), ('michel'), ('michela'), ('michelangelo'), ('michele'), ('michelin'),
+    ('michell'), ('michelle'), ('michelob'), ('michi'), ('michiga'), ('michigan'), ('michiko'), ('michou'),
+    ('micio'), ('mick'), ('mickael'), ('micke'), ('mickel'), ('mickey'), ('mickeymo'), ('mickeymouse'),
+    ('mickeys'), ('micki'), ('mickie'), ('mickmick'), ('micky'), ('micmac'), ('micmic'), ('micra'),
+    ('micro'), ('microbe'), ('microlab'), ('micron'), ('microphone'), ('micros'), ('microsca'), ('microsof'),
+    ('microsoft'), ('microtek'), ('microwav'), ('midas'), ('midcon'), ('middle'), ('middlese'), ('middleto'),
+    ('midgar'), ('midgard'), ('midge'), ('midget'), ('midgie'), ('midian'), ('midiland'), ('midland'),
+    ('midnigh'), ('midnight'), ('midnite'), ('midori'), ('midtown'), ('midway'), ('midwest'), ('midwife'),
+    ('mierd'), ('mierda'), ('mifune'), ('mighty'), ('mightymo'), ('mignon'), ('migue'), ('miguel'),
+    ('miguelange'), ('miguelit'), ('miguelito'), ('mihael'), ('mihaela'), ('mihai'), ('mihail'), ('miheeva'),
+    ('mika'), ('mikado'), ('mikael'), ('mikaela'), ('mikala'), ('mikamika'), ('mikasa'), ('mikayla'),
+    ('mike'), ('mikeb'), ('miked'), ('mikeee'), ('mikehunt'), ('mikejone'), ('mikel'), ('mikele'),
+    ('mikell'), ('mikem'), ('mikeman'), ('mikemike'), ('mikep'), ('mikes'), ('mikesch'), ('mikess'),
+    ('mikey'), ('mikeyb'), ('mikeyg'), ('mikeys'), ('mikeyt'), ('mikhail'), ('miki'), ('mikie'),
+    ('mikimaus'), ('mikimiki'), ('mikita'), ('mikkel'), ('mikki'), ('miklos'), ('mikmik'), ('miko'),
+    ('mikola'), ('mikvarxar'), ('mila'), ('milagro'), ('milagros'), ('milamber'), ('milamila'), ('milan'),
+    ('milana'), ('milanka'), ('milano'), ('milashka'), ('milaya'), ('milburn'), ('mild'), ('mildew'),
+    ('mildred'), ('mile'), ('miledi'), ('milehigh'), ('milen'), ('milena'), ('milenium'), ('milenko'),
+    ('miles'), ('milesd'), ('milesdav'), ('milesdavis'), ('milf'), ('milfhunter'), ('milfnew'), ('milford'),
+    ('milhouse'), ('milion'), ('militar'), ('military'), ('militia'), ('milk'), ('milka'), ('milkbone'),
+    ('milkdud'), ('milker'), ('milking'), ('milkmaid'), ('milkman'), ('milkmilk'), ('milkshak'), ('milkshake'),
+    ('milky'), ('milkyway'), ('mill'), ('milla'), ('millan'), ('millar'), ('millard'), ('mille'),
+    ('millen'), ('millenia'), ('milleniu'), ('millenium'), ('millenni'), ('millennium'), ('miller'), ('millerli'),
+    ('millerlite'), ('millers'), ('millerti'), ('millertime'), ('millhaus'), ('millhous'), ('milli'), ('millie'),
+    ('milligan'), ('million'), ('milliona'), ('millionaire'), ('millioner'), ('millions'), ('millman'), ('millos'),
+    ('mills'), ('millwall'), ('milly'), ('milner'), ('milo'), ('milomilo'), ('milorad'), ('milord'),
+    ('milosc'), ('milou'), ('milto'), ('milton'), ('milwauke'), ('milwaukee'), ('mimi'), ('mimic'),
+    ('mimimi'), ('mimimimi'), ('mimino'), ('mimmo'), ('mimosa'), ('mimoza'), ('mina'), ('minaise'),
+    ('minako'), ('minami'), ('minamina'), ('minarets'), ('minato'), ('minchia'), ('mind'), ('mindcrim'),
+    ('minddoc'), ('minded'), ('minden'), ('minder'), ('mindfuck'), ('mindgame'), ('mindless'), ('mindspri'),
+    ('mindwarp'), ('mindy'), ('mine'), ('minecraft'), ('minecraft1'), ('minecraft123'), ('minemine'), ('mineonly'),
+    ('miner'), ('mineral'), ('miners'), ('minerva'), ('mines'), ('minett'), ('minette'), ('minfd'),
+    ('ming'), ('minge'), ('minger'), ('mingle'), ('mingming'), ('mingus'), ('minhasenha'), ('mini'),
+    ('miniclip'), ('minicoop'), ('minicooper'), ('minidisc'), ('minigolf'), ('minigun'), ('minim'), ('minima'),
+    ('minimal'), ('miniman'), ('minimax'), ('minime'), ('minimi'), ('minimini'), ('minimo'), ('minimoni'),
+    ('minimum'), ('minin'), ('minina'), ('minioc'), ('minion'), ('miniskir'), ('minister'), ('ministr'),
+    ('ministry'), ('minivan'), ('mink'), ('minka'), ('minkax'), ('minkey'), ('minkie'), ('minky'),
+    ('minmin'), ('minnesot'), ('minnesota'), ('minnesota_hp'), ('minnette'), ('minni'), ('minnie'), ('minniemouse'),
+    ('minnow'), ('minntwin'), ('minoan'), ('minogue'), ('minolta'), ('minor'), ('minority'), ('minot'),
+    ('minotaur'), ('minotavr'), ('minou'), ('minouche'), ('minpin'), ('minsk'), ('minster'), ('minstrel'),
+    ('mint'), ('mintman'), ('minty'), ('minus'), ('minute'), ('minutes'), ('miquel'), ('mira'),
+    ('mirabell'), ('mirabella'), ('miracle'), ('miracles'), ('mirage'), ('miramar'), ('mirand'), ('miranda'),
+    ('miras'), ('mircea'), ('mireille'), ('mirela'), ('mirella'), ('miria'), ('miriam'), ('mirinda'),
+    ('mirjam'), ('mirko'), ('mirkone'), ('mirkwood'), ('miro'), ('mironenko'), ('mironov'), ('mironova'),
+    ('miroslav'), ('miroslava'), ('mirror'), ('mirrors'), ('mirumir'), ('misa'), ('misamisa'), ('misamore'),
+    ('misato'), ('misawa'), ('mischa'), ('mischief'), ('miser'), ('misery'), ('misfit'), ('misfits'),
+    ('misha'), ('mishanya'), ('mishaoooyeah'), ('mishel'), ('mishima'), ('mishka'), ('mishmash'), ('mishra'),
+    ('mishutka'), ('misiaczek'), ('misiaczek1'), ('misiek'), ('miss'), ('missed'), ('misses'), ('missey'),
+    ('missie'), ('missile'), ('missin'), ('missing'), ('mission'), ('missions'), ('missis'), ('mississi'),
+    ('mississipp'), ('mississippi'), ('misskitt'), ('misskitty'), ('missle'), ('missmiss'), ('missmolly'), ('missoula'),
+    ('missouri'), ('misspigg'), ('missy'), ('missydog'), ('missyou'), ('missys'), ('mist'), ('mistake'),
+    ('mister'), ('mistere'), ('mistered'), ('misteri'), ('misterio'), ('misterma'), ('misterme'), ('mistert'),
+    ('mistery'), ('misti'), ('mistic'), ('mistie'), ('mistik'), ('mistral'), ('mistress'), ('misty'),
+    ('mistyblu'), ('mistycat'), ('mistydog'), ('mistys'), ('mita'), ('mitch'), ('mitche'), ('mitchel'),
+    ('mitchell'), ('mite'), ('mithrand'), ('mithril'), ('mitico'), ('mitino'), ('mitsou'), ('mitsu'),
+    ('mitsub'), ('mitsubis'), ('mitsubishi'), ('mitten'), ('mittens'), ('mitter'), ('mitzi'), ('mitzie'),
+    ('miumiu'), ('mivid'), ('miwako'), ('mixail'), ('mixer'), ('mixers'), ('mixing'), ('mixmaster'),
+    ('mixtape'), ('mixture'), ('miyagi'), ('miyamoto'), ('miyuki'), ('miyvarxar'), ('mizredhe'), ('mizuno'),
+    ('mizzou'), ('mjollnir'), ('mjolnir'), ('mjones'), ('mjordan'), ('mjujuj'), ('mkjhfg'), ('mkmkmk'),
+    ('mko09ijn'), ('mkonji'), ('mkvdari'), ('mlforman'), ('mm111qm'), ('mm259up'), ('mmaaxx'), ('mmartin'),
+    ('mmmbeer'), ('mmmkkk'), ('mmmm'), ('mmmmm'), ('mmmmmm'), ('mmmmmmm'), ('mmmmmmmm'), ('mmmmmmmmm'),
+    ('mmmmmmmmmm'), ('mmmnnn'), ('mmouse'), ('mmxxmm'), ('mnbmnb'), ('mnbv'), ('mnbvc'), ('mnbvcx'),
+    ('mnbvcxy'), ('mnbvcxz'), ('mnbvcxza'), ('mnemonic')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('mnlicens'), ('mnmcmg'), ('mnmnmn'), ('mntwins'), ('mo5kva'), ('mo987vu'), ('mobbdeep'), ('mobetta'),
+    ('mobil'), ('mobila'), ('mobile'), ('mobilemail'), ('mobility'), ('mobius'), ('mobley'), ('mobster'),
+    ('moby'), ('mobydick'), ('mocajo'), ('moccasin'), ('mocelot'), ('mocha'), ('mochaj'), ('mockba'),
+    ('modaddy'), ('modano'), ('modder'), ('mode'), ('model'), ('modeling'), ('models'), ('modelsne'),
+    ('modelt'), ('modem'), ('modems'), ('modena'), ('moderator'), ('modern'), ('modest'), ('modesto'),
+    ('modesty'), ('modified'), ('modify'), ('modles'), ('modular'), ('module'), ('moebius'), ('moejoe'),
+    ('moeman'), ('moemoe'), ('mofo'), ('mogens'), ('moggie'), ('mogilny'), ('mogli'), ('mogul'),
+    ('moguls'), ('mogwai'), ('mogwai1976'), ('mohame'), ('mohamed'), ('mohamma'), ('mohammad'), ('mohamme'),
+    ('mohammed'), ('mohan'), ('mohawk'), ('mohican'), ('mohicans'), ('mohinder'), ('mohsen'), ('mohsin'),
+    ('moikka'), ('moimeme'), ('moimoi'), ('moinmoin'), ('moira'), ('moise'), ('moiseeva'), ('moises'),
+    ('moishe'), ('moist'), ('moisture'), ('mojave'), ('mojo'), ('mojojo'), ('mojojojo'), ('mojoman'),
+    ('mojomojo'), ('mojorisi'), ('moksha'), ('molar'), ('molars'), ('molder'), ('moldir'), ('moldova'),
+    ('mole'), ('molecule'), ('moleman'), ('molina'), ('moline'), ('molitor'), ('moll'), ('moller'),
+    ('molley'), ('molli'), ('mollie'), ('mollusk'), ('molly'), ('mollyb'), ('mollycat'), ('mollydog'),
+    ('mollymoo'), ('mollys'), ('mollyy'), ('moloch'), ('molodec'), ('molokai'), ('moloko'), ('molotok'),
+    ('molotov'), ('molson'), ('molten'), ('mom4u4mm'), ('moma'), ('moman'), ('momanddad'), ('mombasa'),
+    ('momdad'), ('moment'), ('moments'), ('momentum'), ('momma'), ('mommie'), ('mommom'), ('mommy'),
+    ('mommys'), ('momo'), ('momoko'), ('momomo'), ('momomomo'), ('momoney'), ('moms'), ('momsanaladventure'),
+    ('momsuck'), ('mona'), ('monaco'), ('monaghan'), ('monalis'), ('monalisa'), ('monaliza'), ('monami'),
+    ('monamona'), ('monamour'), ('monange'), ('monarch'), ('monarchs'), ('monaro'), ('monchi'), ('moncho'),
+    ('monda'), ('monday'), ('monde'), ('mondeo'), ('mondo'), ('mone'), ('monet'), ('moneta'),
+    ('monette'), ('money'), ('money4me'), ('moneybag'), ('moneybags'), ('moneymak'), ('moneymaker'), ('moneyman'),
+    ('moneymon'), ('moneymoney'), ('moneys'), ('moneysho'), ('moneyy'), ('mong1ni'), ('monger'), ('mongini'),
+    ('mongo'), ('mongol'), ('mongolia'), ('mongoose'), ('mongrel'), ('mongush'), ('moni'), ('monic'),
+    ('monica'), ('monies'), ('monik'), ('monika'), ('monimo'), ('monique'), ('monit'), ('monito'),
+    ('monitor'), ('monitoring'), ('monk'), ('monk3y'), ('monke'), ('monkee'), ('monkees'), ('monker'),
+    ('monkey'), ('monkeyas'), ('monkeyba'), ('monkeybo'), ('monkeyboy'), ('monkeybu'), ('monkeybutt'), ('monkeydo'),
+    ('monkeyma'), ('monkeyman'), ('monkeynuts'), ('monkeys'), ('monkfish'), ('monkie'), ('monkies'), ('monkman'),
+    ('monkmonk'), ('monmon'), ('monmouth'), ('mono'), ('monolit'), ('monolith'), ('mononoke'), ('monopoli'),
+    ('monopoly'), ('monorail'), ('monoxide'), ('monreal'), ('monro'), ('monroe'), ('monrovia'), ('monsoon'),
+    ('monsta'), ('monste'), ('monster'), ('monster123'), ('monsterkill'), ('monsters'), ('monstr'), ('mont'),
+    ('monta'), ('montag'), ('montage'), ('montagna'), ('montagne'), ('montague'), ('montan'), ('montana'),
+    ('montauk'), ('montblanc'), ('monte'), ('montec'), ('montecar'), ('montecarlo'), ('montee'), ('montego'),
+    ('monteiro'), ('montell'), ('montella'), ('montenegro'), ('monterey'), ('montero'), ('monterre'), ('monterrey'),
+    ('montes'), ('montesa'), ('montess'), ('montez'), ('montgom240'), ('montgome'), ('montgomery'), ('month'),
+    ('monthly'), ('montie'), ('montoya'), ('montre'), ('montreal'), ('montrell'), ('montreux'), ('montrose'),
+    ('montse'), ('monty'), ('montydog'), ('monument'), ('mony'), ('monyet'), ('monza'), ('mooch'),
+    ('moocher'), ('moochie'), ('moocow'), ('mood'), ('moody'), ('moog'), ('moogie'), ('moogle'),
+    ('moojuice'), ('mook'), ('mooker'), ('mookey'), ('mooki'), ('mookie'), ('moolah'), ('mooman'),
+    ('moomin'), ('moomoo'), ('moon'), ('moon5leg'), ('moonbar'), ('moonbeam'), ('moonchil'), ('moonchild'),
+    ('moondanc'), ('moondance'), ('moondog'), ('mooner'), ('mooney'), ('moonglow'), ('moonie'), ('moonligh'),
+    ('moonlight'), ('moonlite'), ('moonman'), ('moonmoon'), ('moonpie'), ('moonrake'), ('moonrise'), ('moons'),
+    ('moonshin'), ('moonshine'), ('moonshot'), ('moonstafa'), ('moonstar'), ('moonsun'), ('moontime'), ('moonunit'),
+    ('moonwalk'), ('mooo'), ('mooooo'), ('mooose'), ('moore'), ('moorea'), ('moores'), ('moose'),
+    ('moosehea'), ('moosejaw'), ('mooseman'), ('mooser'), ('mooses'), ('moosey'), ('moosie'), ('mopar'),
+    ('moparman'), ('mopars'), ('mopmop'), ('moppel'), ('moppie'), ('mops'), ('mor_pass'), ('mora'),
+    ('morale'), ('morales'), ('moran'), ('morango'), ('morbid'), ('morbius'), ('mordor'), ('mordred'),
+    ('more'), ('morebeer'), ('morefire'), ('morefun'), ('morehead'), ('moreira'), ('moreland'), ('morelia'),
+    ('morelli'), ('morello'), ('morelove'), ('moreman'), ('moremone'), ('moremoney'), ('moremore'), ('moren'),
+    ('morena'), ('moreno'), ('moreporn'), ('moresex'), ('moretti'), ('morfeo'), ('morga'), ('morgaine'),
+    ('morgan'), ('morgana'), ('morgane'), ('morgans'), ('morganstanley'), ('morgen'), ('morgoth'), ('morgue'),
+    ('moria'), ('moriah'), ('moriarty'), ('morimori'), ('moritz'), ('morkovka'), ('morley'), ('morlii'),
+    ('mormon'), ('mormor'), ('morning'), ('mornings'), ('morocco'), ('moron'), ('moroni'), ('morons'),
+    ('moroz'), ('morozko'), ('morozov'), ('morozova'), ('morph'), ('morpheus'), ('morphine'), ('morphius'),
+    ('morpho'), ('morphy'), ('morri'), ('morrigan'), ('morris'), ('morrisey'), ('morrison'), ('morrisse'),
+    ('morrissey'), ('morrow'), ('morrowin'), ('morrowind'), ('morse'), ('mort'), ('mortal'), ('mortalkombat'),
+    ('mortar'), ('mortars'), ('morte'), ('morten'), ('mortgage'), ('morticia'), ('mortimer'), ('mortis'),
+    ('mortise'), ('morton'), ('morty'), ('mosaic'), ('mosca'), ('moschino'), ('moscow'), ('mosdef'),
+    ('moser'), ('moses'), ('mosesblk'), ('mosfet'), ('moshe'), ('mosher'), ('moskow'), ('moskva'),
+    ('moskwa'), ('mosley'), ('mosquito'), ('moss'), ('mossad'), ('mossberg'), ('mossimo'), ('mossman'),
+    ('mossyoak'), ('mostafa'), ('mostar'), ('mostro'), ('mostwanted'), ('mota'), ('motaro'), ('motdepas'),
+    ('motdepass'), ('motdepasse'), ('motel'), ('moth'), ('mothe'), ('mother'), ('motherfu'), ('motherfuck'),
+    ('motherfucker'), ('motherlo'), ('motherlode'), ('mothers')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('mothra'), ('motilda'), ('motion'), ('motivate'), ('motley'), ('motmot'), ('moto'), ('motocros'),
+    ('motocross'), ('motogp'), ('motoguzz'), ('motoko'), ('motoman'), ('motomoto'), ('motor'), ('motorbik'),
+    ('motorbike'), ('motorcyc'), ('motorcycle'), ('motorhea'), ('motorhead'), ('motorman'), ('motorol'), ('motorola'),
+    ('motorolla'), ('motorrad'), ('motors'), ('motorspo'), ('motown'), ('motox'), ('motoxxx'), ('mott'),
+    ('motto'), ('motylek'), ('motzart'), ('mouche'), ('mould'), ('moulin'), ('mouloud'), ('moulton'),
+    ('moumou'), ('moumoune'), ('mound'), ('mounds'), ('mount'), ('mounta1n'), ('mountai'), ('mountain'),
+    ('mountaindew'), ('mountains'), ('mountie'), ('mountmgr'), ('mourid'), ('mourning'), ('mous'), ('mouse'),
+    ('mousee'), ('mouseman'), ('mousemouse'), ('mousepad'), ('mouser'), ('mouses'), ('mousey'), ('mousie'),
+    ('mousse'), ('mousy'), ('mouth'), ('mouton'), ('movado'), ('move'), ('moveit'), ('movement'),
+    ('moveon'), ('mover'), ('movers'), ('movie'), ('moviebuf'), ('movieman'), ('movies'), ('moving'),
+    ('mowerman'), ('mowers'), ('mowgli'), ('moxie'), ('mozar'), ('mozart'), ('mozilla'), ('mozzer'),
+    ('mp127mb'), ('mp8o6d'), ('mpegs'), ('mpetroff'), ('mpgs'), ('mpower'), ('mrbean'), ('mrbig'),
+    ('mrbill'), ('mrblonde'), ('mrblue'), ('mrbrown'), ('mrbrownx'), ('mrbrownxx'), ('mrbungle'), ('mrclark'),
+    ('mrclean'), ('mrcool'), ('mrfish'), ('mrgreen'), ('mrhappy'), ('mrjones'), ('mrkitty'), ('mrkmrk'),
+    ('mrlover'), ('mrmagic'), ('mrmagoo'), ('mrmike'), ('mrmojo'), ('mrpibb'), ('mrpink'), ('mrskin'),
+    ('mrsmith'), ('mrspock'), ('mrtibbs'), ('mrwhite'), ('ms241cr'), ('ms6nud'), ('ms911sc'), ('msadco'),
+    ('msadox'), ('msconfig'), ('mscorie'), ('mscormmc'), ('mscorpe'), ('mscorsecr'), ('msdaorar'), ('msdasc'),
+    ('msdn'), ('msimnimp'), ('msinfo'), ('msnetmtg'), ('msnxbi'), ('msoracle32re'), ('msouthwa'), ('mspaul'),
+    ('msstate'), ('mst3k'), ('mstask'), ('msujoe'), ('mt73sb'), ('mtdew'), ('mtgl5r'), ('mtgox'),
+    ('mtndew'), ('mtnman'), ('mtsadmin'), ('mtwapa1a'), ('mty3rh'), ('mu11igan'), ('muaddib'), ('muadib'),
+    ('muaythai'), ('much'), ('muchacha'), ('muchacho'), ('mucker'), ('mucsaj'), ('mucus'), ('mudbone'),
+    ('mudbug'), ('mudcat'), ('mudd'), ('mudddd'), ('mudder'), ('muddog'), ('muddy'), ('mudflap'),
+    ('mudhen'), ('mudhoney'), ('mudman'), ('mudpie'), ('mudpuppy'), ('mudshark'), ('mudslide'), ('mudvayne'),
+    ('mueller'), ('muenchen'), ('muerte'), ('mufasa'), ('mufc'), ('muff'), ('muffdive'), ('muffdiver'),
+    ('muffer'), ('muffi'), ('muffie'), ('muffin'), ('muffinma'), ('muffinman'), ('muffins'), ('muffler'),
+    ('muffmuff'), ('muffy'), ('mugen'), ('muggins'), ('muggles'), ('muggs'), ('muggsy'), ('mughal'),
+    ('mugsy'), ('mugwump'), ('muhamed'), ('muhamma'), ('muhammad'), ('muhammad123'), ('muhammed'), ('muhtar'),
+    ('muie'), ('muiemuie'), ('muirhead'), ('mujeres'), ('mukesh'), ('mukkula'), ('mulberry'), ('mulch'),
+    ('mulder'), ('mule'), ('muledeer'), ('muleman'), ('mullen'), ('muller'), ('mullet'), ('mulligan'),
+    ('mullin'), ('mullins'), ('multan'), ('multi'), ('multik'), ('multimed'), ('multimedia'), ('multipas'),
+    ('multipass'), ('multiple'), ('multiplelo'), ('multiplelog'), ('multisca'), ('multiscan'), ('multisyn'), ('multisync'),
+    ('mumanddad'), ('mumbai'), ('mumble'), ('mumbles'), ('mumdad'), ('mumford'), ('mummy'), ('mumu'),
+    ('mumumu'), ('munch'), ('munchen'), ('muncher'), ('munchie'), ('munchies'), ('munchkin'), ('muncho'),
+    ('munchy'), ('muncie'), ('mundaka'), ('mundell'), ('mundo'), ('muneca'), ('mung'), ('mungo'),
+    ('munich'), ('munk'), ('munkee'), ('munkey'), ('munky'), ('munson'), ('munster'), ('munter'),
+    ('muppet'), ('muppets'), ('mura'), ('murad'), ('murakami'), ('murali'), ('murano'), ('murasaki'),
+    ('murasame'), ('murat'), ('muratti'), ('murciela'), ('murcielag'), ('murcielago'), ('murder'), ('murderer'),
+    ('murdoch'), ('murdock'), ('murena'), ('murf'), ('muriel'), ('murielle'), ('murillo'), ('murka'),
+    ('murmansk'), ('murmel'), ('murmur'), ('murph'), ('murphy'), ('murphydo'), ('murphys'), ('murray'),
+    ('murre'), ('murry'), ('murugan'), ('murzik'), ('murzilka'), ('musa'), ('musashi'), ('muscat'),
+    ('muschi'), ('muscle'), ('muscles'), ('muse'), ('muselman'), ('museum'), ('mush'), ('mushin'),
+    ('mushka'), ('mushmush'), ('mushroom'), ('mushrooms'), ('mushu'), ('musi'), ('musial'), ('music'),
+    ('musica'), ('musical'), ('musicals'), ('musicbox'), ('musicc'), ('musician'), ('musick'), ('musiclover'),
+    ('musicman'), ('musics'), ('musik'), ('musique'), ('muskan'), ('musket'), ('muskie'), ('muskies'),
+    ('muskogee'), ('muskoka'), ('muskrat'), ('muslim'), ('mustaf'), ('mustafa'), ('mustaine'), ('mustan'),
+    ('mustang'), ('mustangg'), ('mustanggt'), ('mustangs'), ('mustapha'), ('mustard'), ('mustdie'), ('mustek'),
+    ('muster'), ('mustikka'), ('mustkill'), ('musty'), ('mutabor'), ('mutant'), ('mutate'), ('mutation'),
+    ('mute'), ('muthafuc'), ('mutiny'), ('mutley'), ('mutt'), ('mutt22pu'), ('mutter'), ('muttley'),
+    ('muttly'), ('mutton'), ('mutty'), ('mutual'), ('muzika'), ('muzyka'), ('muzzle'), ('muzzy'),
+    ('mv943fc'), ('mwalsh'), ('mwq6qlzo'), ('mxyzptlk'), ('my2girls'), ('my2kids'), ('my3boys'), ('my3girls'),
+    ('my3kids'), ('my3sons'), ('my4kids'), ('my_pass'), ('myangel'), ('myangels'), ('myass'), ('mybab'),
+    ('mybabe'), ('mybabies'), ('mybaby'), ('myballs'), ('mybike'), ('mybitch'), ('myboys'), ('mybud'),
+    ('mybuddy'), ('mybutt'), ('mycat'), ('mycats'), ('mycock'), ('mycomput'), ('mycroft'), ('mydaddy'),
+    ('mydear'), ('mydick'), ('mydog'), ('mydoggy'), ('mydogs'), ('mydream'), ('myemail'), ('myers'),
+    ('myeyes'), ('myfamily'), ('myfriend'), ('mygal'), ('mygirl'), ('mygirls'), ('myheart'), ('myhero'),
+    ('myhome'), ('myhoney'), ('myhouse'), ('myjdxtcxks'), ('myjeep'), ('mykids'), ('mykiss'), ('mykitty'),
+    ('mykonos'), ('mylady'), ('mylake'), ('mylene'), ('myles'), ('mylif'), ('mylife'), ('mylord'),
+    ('mylov'), ('mylove'), ('mylover'), ('mymail'), ('mymoney'), ('mymother'), ('mymusic'), ('mymy'),
+    ('mymymy'), ('myname'), ('mynameis'), ('mynewbots'), ('mynewpas'), ('mynigga'), ('mynuts'), ('myopia'),
+    ('myoplex'), ('myosin'), ('mypass'), ('mypasswo'), ('mypassword'), ('myporn'), ('mypuppy'), ('mypussy'),
+    ('myriad'), ('myriam'), ('myron'), ('myrtle'), ('myrzik'), ('mysecret'), ('myself'), ('mysex'),
+    ('myshit'), ('mysite'), ('mysmut'), ('myspace'), ('myst'), ('mystere'), ('mysterio'), ('mystery'),
+    ('mystic'), ('mystical'), ('mystikal'), ('mystique')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('mystra'), ('mystuff'), ('myszka'), ('mytest'), ('myth'), ('mythic'), ('mythology'), ('mythos'),
+    ('mytime'), ('mytruck'), ('myturn'), ('myway'), ('mywife'), ('myword'), ('myworld'), ('myxworld'),
+    ('mzepab'), ('n.kmgfy'), ('n0th1ng'), ('n123456789'), ('n123at'), ('n1k1ta'), ('n2deep'), ('n7dj3saa'),
+    ('n7td4bjl'), ('n8skfswa'), ('nabeel'), ('nabila'), ('nabisco'), ('nabokov'), ('nacho'), ('nachodog'),
+    ('nachos'), ('nacichal'), ('naciona'), ('nacional'), ('nacked'), ('nacnud'), ('nada'), ('nadanada'),
+    ('nadano'), ('nadeem'), ('nadegda'), ('nadege'), ('nadejda'), ('nadezda'), ('nadezhda'), ('nadi'),
+    ('nadia'), ('nadin'), ('nadine'), ('nadira'), ('nadja'), ('nadler'), ('nadnerb'), ('nadroj'),
+    ('nadya'), ('naenae'), ('nafana'), ('nafania'), ('nafanya'), ('nafets'), ('nafisa'), ('nafnaf'),
+    ('naga'), ('nagano'), ('nagasaki'), ('nagash'), ('nagato'), ('nagel'), ('nagging'), ('nagoya'),
+    ('nagrom'), ('nagshead'), ('nagual'), ('nahlik'), ('nahtan'), ('nahtanoj'), ('nail'), ('nailed'),
+    ('nailer'), ('nails'), ('naima'), ('nairda'), ('nairobi'), ('najah'), ('nakamura'), ('nakata'),
+    ('nakatomi'), ('naked'), ('nakedteens'), ('nakita'), ('nala'), ('nalani'), ('nalgas'), ('nalgene'),
+    ('nalini'), ('nallepuh'), ('namaste'), ('namath'), ('name'), ('nameless'), ('namibia'), ('namita'),
+    ('namor'), ('namrepus'), ('namron'), ('namtab'), ('nana'), ('nanana'), ('nananana'), ('nancy'),
+    ('nando'), ('nanette'), ('nang'), ('nani'), ('nanna'), ('nanner'), ('nannie'), ('nanny'),
+    ('nano'), ('nanonano'), ('nanook'), ('nanotech'), ('nantes'), ('nantucke'), ('nantucket'), ('naomi'),
+    ('naosei'), ('napalm'), ('napass'), ('napier'), ('napkin'), ('naples'), ('napol'), ('napolean'),
+    ('napoleo'), ('napoleon'), ('napoli'), ('napper'), ('napster'), ('nara'), ('naranja'), ('narayan'),
+    ('narayana'), ('narcis'), ('narendra'), ('naresh'), ('narf'), ('narfnarf'), ('nargiz'), ('nargiza'),
+    ('nariman'), ('narine'), ('narkoman'), ('narnia'), ('narsil'), ('narut'), ('naruto'), ('naruto2010'),
+    ('narutouzumaki'), ('narvik'), ('nasa'), ('nasca'), ('nascar'), ('nasdaq'), ('nash'), ('nashua'),
+    ('nashvill'), ('nashville'), ('nasir'), ('naslund'), ('nasnas'), ('nassar'), ('nassau'), ('nasser'),
+    ('nastay'), ('nastena'), ('nastenka'), ('nastia'), ('nastik'), ('nastja'), ('nasty'), ('nastya'),
+    ('nastya1995'), ('nastya1996'), ('nastya1997'), ('nastya1999'), ('nastya2010'), ('nastyanastya'), ('nastyass'), ('nastyboy'),
+    ('nastygirl'), ('nastyman'), ('nastyone'), ('nata'), ('natacha'), ('nataha'), ('nataku'), ('natal'),
+    ('natala'), ('natale'), ('natalee'), ('natali'), ('natalia'), ('natalie'), ('nataliya'), ('natalja'),
+    ('natalka'), ('nataly'), ('natalya'), ('natanata'), ('natas'), ('natasa'), ('natascha'), ('natash'),
+    ('natasha'), ('natasha123'), ('natashka'), ('natawa'), ('nataxa'), ('natchez'), ('nate'), ('natedawg'),
+    ('natedog'), ('natedogg'), ('natha'), ('nathal'), ('nathali'), ('nathalia'), ('nathalie'), ('nathan'),
+    ('nathanae'), ('nathanie'), ('nathaniel'), ('nathanm'), ('nathans'), ('natia'), ('natick'), ('nation'),
+    ('national'), ('nationals'), ('nations'), ('native'), ('natnat'), ('nato'), ('natron'), ('nats'),
+    ('natsuko'), ('natty'), ('natura'), ('natural'), ('naturals'), ('nature'), ('naturebo'), ('naturist'),
+    ('natusik'), ('natwest'), ('naught'), ('naughty'), ('naughtya'), ('naughtyb'), ('naughtyboy'), ('naumenko'),
+    ('naumov'), ('naumova'), ('nausicaa'), ('nautica'), ('nautical'), ('nautilus'), ('nautique'), ('navajo'),
+    ('navarr'), ('navarre'), ('navarro'), ('naveed'), ('naveen'), ('navidad'), ('navigate'), ('navigation'),
+    ('navigato'), ('navigator'), ('navillus'), ('navisite'), ('navistar'), ('navy'), ('navyblue'), ('navyman'),
+    ('navyseal'), ('naylor'), ('naynay'), ('nazar'), ('nazarenko'), ('nazaret'), ('nazareth'), ('nazarov'),
+    ('nazarova'), ('nazgul'), ('nazi'), ('nazira'), ('nbanba'), ('nbibyf'), ('nbnfybr'), ('nbnjdf'),
+    ('nbu3cd'), ('nbuhbwf'), ('nbuhtyjr'), ('nbvcxw'), ('nbvcxz'), ('nbveh'), ('nbvehrf'), ('nbvfnb'),
+    ('nbvibt'), ('nbvjatq'), ('nbvjif'), ('nbvjirf'), ('nbvjityrj'), ('nbvjxrf'), ('ncbound'), ('ncc1701a'),
+    ('ncc1701b'), ('ncc1701d'), ('ncc1701e'), ('nccpl25282'), ('ncstate'), ('ndaswf'), ('ndbyrb'), ('ndirish'),
+    ('ndisip'), ('ndshnx4s'), ('ne_e_pod_chehyl'), ('neal'), ('nebesa'), ('nebraska'), ('nebula'), ('nebulous'),
+    ('neckbone'), ('neckk'), ('necklace'), ('necnec'), ('necro'), ('necroman'), ('necromancer'), ('necromant'),
+    ('necron'), ('necronom'), ('necronomicon'), ('necros'), ('nectar'), ('nectarin'), ('nederlan'), ('nederland'),
+    ('nedkelly'), ('nedlog'), ('nedved'), ('need'), ('need4speed'), ('needajob'), ('needed'), ('needforspeed'),
+    ('needhelp'), ('needit'), ('needle'), ('needles'), ('needsex'), ('needsome'), ('needy'), ('neekeri'),
+    ('neelam'), ('neely'), ('neenee'), ('neener'), ('neeraj'), ('neerg'), ('nefertit'), ('nefertiti'),
+    ('nefilim'), ('negative'), ('neggy'), ('negr'), ('negra'), ('negras'), ('negril'), ('negrit'),
+    ('negrita'), ('negrito'), ('negro'), ('negros'), ('nehpets'), ('neighbor'), ('neil'), ('neilneil'),
+    ('neirfyxbr'), ('neither'), ('nekkid'), ('neko'), ('nekochan'), ('nekoneko'), ('nekrasova'), ('nekromant'),
+    ('nell'), ('nella'), ('nelli'), ('nellie'), ('nellis'), ('nelly'), ('nelso'), ('nelson'),
+    ('nemesi'), ('nemesis'), ('nemezida'), ('nemiroff'), ('nemisis'), ('nemo'), ('nemonemo'), ('nemrac'),
+    ('nemvxyheqdd5oqxyxyzi'), ('nena'), ('nene'), ('neng'), ('nenit'), ('nenita'), ('neo20xx'), ('neogeo'),
+    ('neon'), ('neoneo'), ('neopet'), ('neopets'), ('neophyte'), ('nepal'), ('nepali'), ('nepenthe'),
+    ('nephew'), ('nephilim'), ('neptun'), ('neptune'), ('nerd'), ('nerf'), ('nermal'), ('nermin'),
+    ('nero'), ('neron'), ('nerone'), ('neronero'), ('nerual'), ('neruda'), ('nervous'), ('nesakysiu'),
+    ('nescafe'), ('ness'), ('nessa'), ('nessie'), ('nesta'), ('nestea'), ('nester'), ('nesterenko'),
+    ('nesterov'), ('nesterova'), ('nestle'), ('nestor'), ('netbcm4e'), ('netcom'), ('netel90b'), ('netel99x'),
+    ('netgear'), ('nether'), ('netlpd'), ('netmadge'), ('netman'), ('netnet'), ('netnovel'), ('netnwlnk'),
+    ('neto'), ('netpass'), ('nets'), ('netscape'), ('netsnip'), ('netter'), ('nettie'), ('nettiger'),
+    ('netvideo'), ('netware'), ('network'), ('networkingpe'), ('networks'), ('networth'), ('netzwerk'), ('neuken'),
+    ('neuman'), ('neumann'), ('neuroman'), ('neuron'), ('neurosis'), ('neuspeed'), ('neutrino'), ('neutron'),
+    ('nevada'), ('nevaeh'), ('never'), ('nevera')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('neveraga'), ('neveragain'), ('neverdie'), ('neverever'), ('nevergiveup'), ('neverhood'), ('neverlan'), ('neverland'),
+    ('neverman'), ('nevermin'), ('nevermind'), ('nevermor'), ('nevermore'), ('neversaymypassword'), ('neversaynever'), ('neversmile'),
+    ('neverwinter'), ('nevets'), ('neville'), ('nevins'), ('newage'), ('newark'), ('newbaby'), ('newberry'),
+    ('newbie'), ('newblood'), ('newborn'), ('newboy'), ('newburgh'), ('newcar'), ('newcastl'), ('newcastle'),
+    ('newcomer'), ('newday'), ('newdelhi'), ('newell'), ('newera'), ('newfie'), ('newfound'), ('newguy'),
+    ('newhaven'), ('newhome'), ('newhope'), ('newhouse'), ('newjack'), ('newjerse'), ('newjersey'), ('newjob'),
+    ('newkid'), ('newleaf'), ('newlif'), ('newlife'), ('newlook'), ('newlove'), ('newman'), ('newmedia'),
+    ('newmexic'), ('newmexico'), ('newmoney'), ('newmoon'), ('newness'), ('newnew'), ('newone'), ('neworder'),
+    ('neworlea'), ('neworleans'), ('newpass'), ('newpassw'), ('newpassword'), ('newpoint'), ('newport'), ('newports'),
+    ('newproject2004'), ('news'), ('newshoes'), ('newsman'), ('newspape'), ('newspaper'), ('newstart'), ('newstyle'),
+    ('newt'), ('newt7899onrs'), ('newto'), ('newton'), ('newtown'), ('newuser'), ('newwave'), ('newworld'),
+    ('newyear'), ('newyears'), ('newyor'), ('newyork'), ('newyorke'), ('newzeala'), ('newzealand'), ('next'),
+    ('nextdoor'), ('nextel'), ('nextgen'), ('nextoff'), ('nextone'), ('nexus'), ('nexxus'), ('neyland'),
+    ('neymar'), ('nezabudka'), ('neznakomka'), ('nfbcbz'), ('nfgbpltwq'), ('nfhfcjd'), ('nfhfctyrj'), ('nfhfrfy'),
+    ('nfhfynek'), ('nfhtkrf'), ('nfkbcvfy'), ('nfnecz'), ('nfnfhby'), ('nfnmzyf'), ('nfnmzyrf'), ('nfqaey'),
+    ('nfqcjy'), ('nfvfhf'), ('nfvthkfy'), ('nfy.irf'), ('nfymrf'), ('nfyrbcn'), ('nfytxrf'), ('nfyufh'),
+    ('nfyz'), ('nfyznfyz'), ('ngentot'), ('ngga'), ('nguyen'), ('nhatrang'), ('nhbujyjvtnhbz'), ('nhbybnhjnjkejk'),
+    ('nhecsyfujkjdt'), ('nhfdvfnjkju123'), ('nhfkbdfkb'), ('nhfkzkz'), ('nhfnfnf'), ('nhfrnjh'), ('nhfrnjhbcn'), ('nhfycajhvth'),
+    ('nhfycajhvths'), ('nhjabvjdf'), ('nhjkkm'), ('nhoj'), ('niagara'), ('niagra'), ('nian'), ('niang'),
+    ('niao'), ('nibble'), ('nibbler'), ('nibbles'), ('nibiru'), ('niblet'), ('niblick'), ('nicanor'),
+    ('nicaragu'), ('niccolo'), ('nice'), ('niceass'), ('niceboy'), ('nicebutt'), ('niceday'), ('nicegirl'),
+    ('niceguy'), ('nicelegs'), ('nicely'), ('nicenice'), ('niceone'), ('nicerack'), ('nicetits'), ('nicetry'),
+    ('nicglobal'), ('nichelle'), ('nichol'), ('nichola'), ('nicholas'), ('nichole'), ('nichols'), ('nichon'),
+    ('nici'), ('nick'), ('nick1234-rem936'), ('nickc'), ('nickcave'), ('nickel'), ('nickelfi'), ('nickels'),
+    ('nickers'), ('nickey'), ('nicki'), ('nickie'), ('nickjonas'), ('nicklas'), ('nicklaus'), ('nickle'),
+    ('nickname'), ('nicknick'), ('nicko'), ('nickolas'), ('nicks'), ('nicksfun'), ('nickster'), ('nicky'),
+    ('niclas'), ('nicnac'), ('nicnic'), ('nico'), ('nicol'), ('nicola'), ('nicolai'), ('nicolas'),
+    ('nicolay'), ('nicole'), ('nicoleta'), ('nicolett'), ('nicoletta'), ('nicolette'), ('nicolino'), ('nicolle'),
+    ('nicolo'), ('niconico'), ('nicosia'), ('nicosnn'), ('nicotine'), ('nicrasow212'), ('nielsen'), ('nielson'),
+    ('niemtel'), ('nietzsch'), ('nietzsche'), ('nieves'), ('niewiem'), ('nifty'), ('nigar'), ('nigel'),
+    ('nigels'), ('niger'), ('nigeria'), ('nigga'), ('niggas'), ('niggaz'), ('nigge'), ('nigger'),
+    ('niggers'), ('night'), ('nightcra'), ('nightcrawler'), ('nightfal'), ('nightfall'), ('nighthaw'), ('nighthawk'),
+    ('nightime'), ('nightlife'), ('nightly'), ('nightman'), ('nightmar'), ('nightmare'), ('nightmare1'), ('nightowl'),
+    ('nightrider'), ('nights'), ('nightshade'), ('nightwin'), ('nightwing'), ('nightwis'), ('nightwish'), ('nightwolf'),
+    ('nighty'), ('nigora'), ('nihaoma'), ('nihil'), ('nihongo'), ('nijmegen'), ('nika'), ('nikanika'),
+    ('nike'), ('nikeair'), ('nikegolf'), ('nikenike'), ('nikhil'), ('niki'), ('nikifor'), ('nikiforova'),
+    ('nikiniki'), ('nikit'), ('nikita'), ('nikita1994'), ('nikita1996'), ('nikita1997'), ('nikita1998'), ('nikita2000'),
+    ('nikita2002'), ('nikita2010'), ('nikita2011'), ('nikitin'), ('nikitina'), ('nikitka'), ('nikitos'), ('nikki'),
+    ('nikkie'), ('nikkii'), ('nikkin'), ('nikkis'), ('nikkita'), ('nikko'), ('niklas'), ('niknak'),
+    ('niknik'), ('niko'), ('nikol'), ('nikola'), ('nikolaev'), ('nikolaeva'), ('nikolaevna'), ('nikolai'),
+    ('nikolaj'), ('nikolas'), ('nikolaus'), ('nikolay'), ('nikole'), ('nikolj'), ('nikolya'), ('nikon'),
+    ('nikoniko'), ('nikopol'), ('nikotin'), ('nikson'), ('nikusha'), ('niles'), ('nilknarf'), ('nilrem'),
+    ('nils'), ('nilson'), ('nilufar'), ('nimajneb'), ('nimble'), ('nimbus'), ('nimda'), ('nimda2k'),
+    ('nimitz'), ('nimnim'), ('nimrod'), ('nina'), ('ninanina'), ('nine'), ('nineball'), ('nineinch'),
+    ('ninenine'), ('niner'), ('niners'), ('nineteen'), ('ninety'), ('ning'), ('ninguna'), ('nini'),
+    ('niniko'), ('ninini'), ('ninja'), ('ninjaman'), ('ninjamonkey'), ('ninjas'), ('ninjitsu'), ('ninjutsu'),
+    ('ninnin'), ('nino'), ('ninochka'), ('ninonino'), ('ninpo'), ('nintend'), ('nintendo'), ('nintendo64'),
+    ('nintendods'), ('ninth'), ('nipper'), ('nipple'), ('nipples'), ('nippon'), ('nirmal'), ('nirmala'),
+    ('nirvan'), ('nirvana'), ('nisha'), ('nishiki'), ('nissa'), ('nissan'), ('nissan350z'), ('nisse'),
+    ('nissen'), ('nite'), ('nitehawk'), ('nitemare'), ('nithya'), ('nitra'), ('nitram'), ('nitrate'),
+    ('nitro'), ('nitrogen'), ('nitros'), ('nitrous'), ('nitrox'), ('nitsua'), ('nitsuj'), ('nittany'),
+    ('nitti'), ('nitty'), ('nitwit'), ('niunia'), ('nivek'), ('nivlac'), ('nivram'), ('nixon'),
+    ('nixons'), ('nizmo400r'), ('njdevils'), ('njgjkm'), ('njhnbr'), ('njhvjp'), ('njhyflj'), ('nji90okm'),
+    ('njkcnsq'), ('njkmrjz'), ('njkmznnb'), ('njnets'), ('njnjirf'), ('njqjnf'), ('nloq_010101'), ('nm310fn'),
+    ('nmminmmi'), ('nmnmnm'), ('nn527hp'), ('nnagqx'), ('nnamdi'), ('nnmaster'), ('nnnmmm'), ('nnnn'),
+    ('nnnnn'), ('nnnnnn'), ('nnnnnnn'), ('nnnnnnnn'), ('nnnnnnnnn'), ('nnnnnnnnnn'), ('nnssnn'), ('nntpapi'),
+    ('no1knows'), ('no1z'), ('noaccess'), ('noadmi'), ('noah'), ('noahfish'), ('noahnoah'), ('noahsark'),
+    ('noanswer'), ('nobber'), ('nobby'), ('noble'), ('nobody'), ('nobull'), ('nobunaga'), ('nochance'),
+    ('nochnik104'), ('noclaf'), ('noclue'), ('nocode'), ('nocturne'), ('noddy'), ('nodnarb'), ('nodnol'),
+    ('nodoubt'), ('nodrog'), ('noel'), ('noeli'), ('noelia'), ('noelle'), ('noemi'), ('noemie'),
+    ('noentry'), ('nofags'), ('nofate'), ('nofear'), ('nofx'), ('nofxnofx'), ('nogales'), ('nogard'),
+    ('noggin'), ('nogood'), ('nogueira'), ('nohanada'), ('nohitter'), ('nohope'), ('noidea'), ('noir'),
+    ('noise'), ('noisette'), ('nokia'), ('nokia6230i')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('nokiaa'), ('nokiadermo'), ('nokian'), ('nokianokia'), ('nokias'), ('nokids'), ('noknok'), ('nola'),
+    ('nolan'), ('noland'), ('noles'), ('nolife'), ('nolimit'), ('nolimits'), ('noller'), ('nollie'),
+    ('nolose'), ('nolove'), ('nomad'), ('nomadic'), ('nomads'), ('nomames'), ('nomar'), ('nomarg'),
+    ('nomeacuerdo'), ('nomercy'), ('nomi'), ('nomis'), ('nomoney'), ('nomore'), ('nona'), ('noname'),
+    ('nondriversig'), ('none'), ('nonenone'), ('noneya'), ('nong'), ('nonmembe'), ('nonnahs'), ('nonnie'),
+    ('nono'), ('nonono'), ('nononono'), ('nonrev'), ('nonsense'), ('nonstop'), ('noo2ga'), ('noob'),
+    ('noobie'), ('noodle'), ('noodles'), ('noof'), ('nookie'), ('noon'), ('noonan'), ('noone'),
+    ('noonehackme'), ('nooner'), ('noonie'), ('noonoo'), ('nopain'), ('nopasaran'), ('nopass'), ('nopasswo'),
+    ('nopassword'), ('nope'), ('nopenope'), ('noproblem'), ('nora'), ('norad'), ('norbert'), ('norcal'),
+    ('norcross'), ('nord'), ('nordic'), ('nordland'), ('nordman'), ('noreaga'), ('noreen'), ('noremac'),
+    ('norfolk'), ('norge'), ('noriko'), ('norm'), ('norma'), ('normal'), ('norman'), ('normand'),
+    ('normandy'), ('norrie'), ('norris'), ('norseman'), ('norsemen'), ('norstar'), ('norte'), ('nortel'),
+    ('north'), ('northeas'), ('northern'), ('northland'), ('northpol'), ('northpole'), ('northside'), ('northsta'),
+    ('northstar'), ('northwes'), ('northwest'), ('northwoo'), ('norton'), ('norwalk'), ('norway'), ('norwegen'),
+    ('norwest'), ('norwich'), ('norwood'), ('nosaints'), ('nosaj'), ('nosbig'), ('nose'), ('nosenose'),
+    ('noser'), ('nosferat'), ('nosferatu'), ('nosgoth'), ('noshit'), ('noskcaj'), ('nosleep'), ('nosliw'),
+    ('nosmas'), ('nosnibor'), ('nosnos'), ('nosorog'), ('nosotros'), ('nosova'), ('nospam'), ('nosredna'),
+    ('nostra'), ('nostradamus'), ('nostril'), ('nostromo'), ('not4long'), ('not4me'), ('not4u'), ('not4u2c'),
+    ('not4u2no'), ('not4you'), ('notagain'), ('notch'), ('note'), ('notebook'), ('notepad'), ('notes'),
+    ('notgood'), ('nothanks'), ('nothere'), ('nothin'), ('nothing'), ('notice'), ('notime'), ('notlim'),
+    ('notlob'), ('notme'), ('notmine'), ('notnot'), ('notnow'), ('notone'), ('notoriou'), ('notorious'),
+    ('notrab'), ('notredam'), ('notredame'), ('notrub'), ('nottingh'), ('nottingham'), ('nottoday'), ('notused'),
+    ('notyou'), ('notyours'), ('nougat'), ('noumea'), ('nounou'), ('nounour'), ('nounours'), ('nouveau'),
+    ('nouvelle'), ('nova'), ('novak'), ('novanova'), ('novartis'), ('novass'), ('novastar'), ('novato'),
+    ('novell'), ('novella'), ('novembe'), ('november'), ('novembre'), ('novgorod'), ('novice'), ('noviembr'),
+    ('noviembre'), ('novifarm'), ('novikov'), ('novikova'), ('novosib'), ('novosibirsk'), ('now0new'), ('noway'),
+    ('nowayin'), ('nowayman'), ('nowayout'), ('nowhere'), ('nownow'), ('nowwowtg'), ('noxious'), ('nozadze'),
+    ('nozomi'), ('nozzle'), ('nqdgxz'), ('nremtp'), ('ns410fr'), ('ns910cv'), ('nsync'), ('nt5iis'),
+    ('ntense'), ('ntfsdrct'), ('nthtvjr'), ('nthvbyfk'), ('nthvbyfnjh'), ('nthvbyfnjh2'), ('ntktajy'), ('ntktdbpjh'),
+    ('ntktdbpjh1994'), ('ntktgepbr'), ('ntnhflm'), ('ntyybc'), ('nuaddn9561'), ('nuan'), ('nuance'), ('nubia'),
+    ('nubian'), ('nubnub'), ('nuclear'), ('nude'), ('nudegirl'), ('nudelamb'), ('nudes'), ('nudge'),
+    ('nudies'), ('nudism'), ('nudist'), ('nudity'), ('nufc'), ('nugent'), ('nugget'), ('nuggets'),
+    ('nuggett'), ('nugs'), ('nujbhc'), ('nuke'), ('nukem'), ('nukenuke'), ('nuknuk'), ('nulife'),
+    ('null'), ('numark'), ('numb'), ('number'), ('numberon'), ('numbers'), ('numbnuts'), ('numlock'),
+    ('numnum'), ('numnuts'), ('numpty'), ('nunu'), ('nununu'), ('nunya'), ('nunzio'), ('nuqneh'),
+    ('nurbek'), ('nurbol'), ('nurgle'), ('nurgul'), ('nurich'), ('nurik'), ('nurjan'), ('nurlan'),
+    ('nurse'), ('nursery'), ('nurses'), ('nursing'), ('nursultan'), ('nusrat'), ('nutcase'), ('nutella'),
+    ('nutmeg'), ('nuts'), ('nutsac'), ('nutsack'), ('nutshell'), ('nutt'), ('nutter'), ('nuttertools'),
+    ('nuttin'), ('nutts'), ('nutty'), ('nutz'), ('nvidia'), ('nwctrinity'), ('nwo4life'), ('nygiants'),
+    ('nyisles'), ('nyjets'), ('nyknicks'), ('nylon'), ('nylons'), ('nymets'), ('nymph'), ('nympho'),
+    ('nynyny'), ('nyquist'), ('nyranger'), ('nyrangers'), ('nytimes'), ('nyvott'), ('nyyankee'), ('nyyankees'),
+    ('nyyanks'), ('o236nq'), ('o4izdmxu'), ('oakdale'), ('oaken'), ('oakenfol'), ('oakland'), ('oakle'),
+    ('oakley'), ('oakman'), ('oakpark'), ('oakridge'), ('oaktown'), ('oaktree'), ('oakville'), ('oakwood'),
+    ('oap9uto293'), ('oasis'), ('oasiss'), ('oatmeal'), ('oaxaca'), ('obafgkm'), ('obama'), ('obelisk'),
+    ('obelix'), ('oberon'), ('oberst'), ('obinna'), ('obiwan'), ('object'), ('objects'), ('objsel'),
+    ('oblako'), ('oblivion'), ('obninsk'), ('obobob'), ('oboy'), ('obrien'), ('obscene'), ('obscure'),
+    ('observer'), ('obsessed'), ('obsessio'), ('obsession'), ('obsidian'), ('obsolete'), ('obvious'), ('oc247ngucz'),
+    ('ocarina'), ('ocean'), ('oceane'), ('oceania'), ('oceanic'), ('oceans'), ('oceanside'), ('ocelot'),
+    ('oclock'), ('oconnell'), ('oconnor'), ('octagon'), ('octane'), ('octave'), ('octavia'), ('octavian'),
+    ('octavio'), ('octavius'), ('octet'), ('octobe'), ('october'), ('octobre'), ('octopus'), ('octopuss'),
+    ('octubr'), ('odbcinst'), ('oddball'), ('oddity'), ('oddjob'), ('oddworld'), ('oded99aa'), ('odelay'),
+    ('odense'), ('odess'), ('odessa'), ('odette'), ('odie'), ('odieodie'), ('odin'), ('odinodin'),
+    ('odinthor'), ('odonnell'), ('odranoel'), ('oduvanchik'), ('odysseus'), ('odyssey'), ('oedipus'), ('oejunk'),
+    ('oemdlg'), ('ofborg'), ('ofcourse'), ('ofelia'), ('offend'), ('offense'), ('offer'), ('offering'),
+    ('office'), ('officer'), ('official'), ('offline'), ('offroad'), ('offset'), ('offshore'), ('offside'),
+    ('offsprin'), ('offspring'), ('oflife'), ('oflove'), ('ogden'), ('oglala'), ('ogoshi'), ('ogrady'),
+    ('ogre'), ('ohbaby'), ('ohboy'), ('ohfuck'), ('ohio'), ('ohiost'), ('ohiostat'), ('ohiostate'),
+    ('ohlala'), ('ohmy'), ('ohmygod'), ('ohno'), ('ohotnik'), ('ohrana'), ('ohshit'), ('ohwell'),
+    ('ohyeah'), ('ohyes'), ('oigres'), ('oilcan'), ('oilers'), ('oilman'), ('oink'), ('oinker'),
+    ('oinkoink'), ('oioi'), ('oioioi'), ('oiseau'), ('ojojoj'), ('okay'), ('okaykk'), ('okayokay'),
+    ('okidoki'), ('okie'), ('okinawa'), ('oklahoma'), ('oklapro'), ('oklick'), ('okmijn'), ('okmnji'),
+    ('okocha'), ('okok'), ('okokok'), ('okokokok'), ('oksana'), ('oksanka'), ('oktober'), ('olaf'),
+    ('olamide'), ('olaola'), ('olav'), ('olcrackmaster')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('oldblue'), ('oldboy'), ('oldcar'), ('oldcrow'), ('olddog'), ('older'), ('oldfart'), ('oldgoat'),
+    ('oldgold'), ('oldguy'), ('oldham'), ('oldies'), ('oldlady'), ('oldman'), ('oldmans'), ('oldnavy'),
+    ('oldone'), ('oldpussy'), ('olds'), ('oldschoo'), ('oldschool'), ('oldskool'), ('oldsmobi'), ('oldsmobile'),
+    ('oldspice'), ('oldtimer'), ('ole4ka'), ('oleacc'), ('oleander'), ('oleary'), ('olechka'), ('oleg'),
+    ('olegator'), ('olegdivov'), ('olegna'), ('olegnaruto'), ('olegoleg'), ('oleksandr'), ('olemiss'), ('olenka'),
+    ('oleole'), ('olesia'), ('olesica'), ('olesja'), ('olesya'), ('olga'), ('olgaolga'), ('oliebol'),
+    ('olietjoc'), ('olifant'), ('oligarh'), ('olimpia'), ('olin'), ('olioli'), ('oliphant'), ('olive'),
+    ('oliveira'), ('oliveoil'), ('oliver'), ('olives'), ('olivetti'), ('olivi'), ('olivia'), ('olivie'),
+    ('olivier'), ('oliviero'), ('oliwia'), ('olk98usr'), ('olle'), ('olli'), ('ollie'), ('ollieb'),
+    ('olliedog'), ('olly'), ('ololo'), ('ololol'), ('olorin'), ('olsen'), ('olson'), ('olsson'),
+    ('olufsen'), ('olusia'), ('olya'), ('olympia'), ('olympic'), ('olympics'), ('olympus'), ('omaha'),
+    ('omalley'), ('omanko'), ('omar'), ('omarion'), ('omaromar'), ('omarov'), ('omega'), ('omegaa'),
+    ('omegaman'), ('omegared'), ('omegas'), ('omen'), ('omerta'), ('omfg'), ('omgkremidia'), ('omglol'),
+    ('omglolomg'), ('omgomg'), ('omgomgomg'), ('omgwtf'), ('omgwtfbbq'), ('omicron'), ('omni'), ('omnibus'),
+    ('omnislash'), ('omomom'), ('omsairam'), ('omygod'), ('omysut'), ('once'), ('onclick'), ('ondine'),
+    ('one1one'), ('one2one'), ('one2three'), ('one4all'), ('oneday'), ('onedog'), ('oneeye'), ('oneida'),
+    ('oneil'), ('oneill'), ('onelife'), ('onelov'), ('onelove'), ('oneluv'), ('oneman'), ('onemore'),
+    ('oneone'), ('onepiece'), ('oneputt'), ('onering'), ('ones'), ('oneshot'), ('onestep'), ('onestop'),
+    ('onetime'), ('oneton'), ('onetwo'), ('onetwothree'), ('oneway'), ('oneworld'), ('onfire'), ('onimusha'),
+    ('onion'), ('onions'), ('onit'), ('onizuka'), ('onkelz'), ('onlin'), ('online'), ('only'),
+    ('only4me'), ('only4u'), ('onlygod'), ('onlylove'), ('onlyme'), ('onlyone'), ('onlyyou'), ('onme'),
+    ('ononon'), ('onotole'), ('onslow'), ('onspeed'), ('ontario'), ('ontheoutside'), ('ontheroad'), ('ontheroc'),
+    ('ontherocks'), ('ontime'), ('onurtitz'), ('onward'), ('onyx'), ('oodles'), ('oohrah'), ('oompah'),
+    ('oooo'), ('ooooo'), ('oooooo'), ('ooooooo'), ('oooooooo'), ('ooooooooo'), ('oooooooooo'), ('oooppp'),
+    ('oops'), ('opal'), ('opaopa'), ('opaque'), ('opel'), ('opelagila'), ('opelastr'), ('opelastra'),
+    ('opelgt'), ('open'), ('open4me'), ('opendoor'), ('opened'), ('opening'), ('openit'), ('openme'),
+    ('opennow'), ('openopen'), ('opensesa'), ('opensesame'), ('openup'), ('openupno'), ('openwide'), ('opera'),
+    ('operas'), ('operate'), ('operatio'), ('operation'), ('operations'), ('operator'), ('opeyemi'), ('ophelia'),
+    ('ophelie'), ('opiate'), ('opie'), ('opinion'), ('opium'), ('opopop'), ('opopopop'), ('opossum'),
+    ('oppo'), ('optic'), ('optical'), ('optics'), ('optima'), ('optimal'), ('optimist'), ('optimum'),
+    ('optimus'), ('option'), ('optional'), ('options'), ('optiplex'), ('optiques'), ('optiquest'), ('opus'),
+    ('opusone'), ('opusopus'), ('opusxx'), ('oracle'), ('oral'), ('oralsex'), ('orang'), ('orange'),
+    ('oranges'), ('orazio'), ('orbit'), ('orbita'), ('orbital'), ('orbiter'), ('orca'), ('orchard'),
+    ('orchid'), ('orchids'), ('order'), ('orders'), ('ordinateur'), ('ordnance'), ('oregano'), ('oregon'),
+    ('oren'), ('orenburg'), ('oreo'), ('oreocat'), ('oreooreo'), ('orestes'), ('org4sm'), ('organ'),
+    ('organa'), ('organic'), ('organist'), ('organs'), ('orgasm'), ('orgasmic'), ('orgasms'), ('orgy'),
+    ('orhidea'), ('orhideya'), ('orian'), ('oriana'), ('orient'), ('oriental'), ('oriflame'), ('origami'),
+    ('origin'), ('original'), ('orinoco'), ('oriole'), ('orioles'), ('orion'), ('orione'), ('orions'),
+    ('orland'), ('orlando'), ('orleans'), ('orlov'), ('orlova'), ('ornw6d'), ('orochi'), ('orochimaru'),
+    ('orologio'), ('orphan'), ('orpheus'), ('ortega'), ('ortezza'), ('ortho'), ('orthodox'), ('orville'),
+    ('orvokki'), ('orwell'), ('orxan'), ('osaka'), ('osama'), ('osasuna'), ('osborn'), ('osborne'),
+    ('osbourne'), ('osca'), ('oscar'), ('oscarcat'), ('oscardog'), ('oscarito'), ('oscarr'), ('oscars'),
+    ('osceola'), ('osgood'), ('oshkosh'), ('osier'), ('osipov'), ('osipova'), ('osiri'), ('osiris'),
+    ('osirus'), ('osit'), ('osito'), ('oskar'), ('oskari'), ('oslo'), ('osman'), ('osmosis'),
+    ('osprey'), ('ossi'), ('ostate'), ('ostrich'), ('ostrov'), ('ostsee'), ('osvald'), ('osvaldo'),
+    ('oswald'), ('oswego'), ('otabek'), ('otacon'), ('otaku'), ('otello'), ('othello'), ('other'),
+    ('others'), ('otherside'), ('otis'), ('otisotis'), ('otrends'), ('ottawa'), ('otter'), ('otters'),
+    ('otto'), ('ottokar'), ('ottom'), ('ottoman'), ('ottootto'), ('ou8124me'), ('ou812a'), ('ou812ic'),
+    ('ouachita'), ('ouch'), ('ounce'), ('ousooner'), ('oussama'), ('out3xf'), ('outatime'), ('outback'),
+    ('outbound'), ('outbreak'), ('outcast'), ('outdoor'), ('outdoors'), ('outhouse'), ('outkast'), ('outland'),
+    ('outlaw'), ('outlaws'), ('outlawz'), ('outlet'), ('outlook'), ('outoutout'), ('outpost'), ('outrage'),
+    ('outrider'), ('outside'), ('outsider'), ('outstand'), ('outthere'), ('ov3ajy'), ('ovaltine'), ('ovation'),
+    ('ovechkin'), ('oven'), ('over'), ('overcome'), ('overdose'), ('overdriv'), ('overdrive'), ('overflow'),
+    ('overhead'), ('overkill'), ('overland'), ('overload'), ('overlook'), ('overlord'), ('overmars'), ('overmind'),
+    ('override'), ('overseas'), ('overseer'), ('overtime'), ('overton'), ('overture'), ('ow8jtcs8t'), ('owen'),
+    ('owenhart'), ('owens'), ('ownage'), ('owned'), ('owner'), ('owns'), ('ownsu'), ('ownz'),
+    ('ownzyou'), ('ox3ford'), ('oxana'), ('oxcart'), ('oxford'), ('oxnard'), ('oxygen'), ('oxymoron'),
+    ('oyasumi'), ('oyoyoy'), ('oyster'), ('ozarks'), ('ozlq6qwm'), ('ozone'), ('ozwald'), ('ozzfest'),
+    ('ozzie'), ('ozzman'), ('ozzmosis'), ('ozzy'), ('ozzyfan'), ('ozzyman'), ('ozzyozzy'), ('p00kie'),
+    ('p030710p$e4o'), ('p0o9i8u7y6'), ('p0rnlove'), ('p0rnstar'), ('p0tl8dje'), ('p2ssw0rd'), ('p3corion'), ('p3e85tr'),
+    ('p3nnywiz'), ('p3orion'), ('p3wqaw'), ('p455w0rd'), ('p4ss'), ('p4ssw0rd'), ('p4ssword'), ('p51mustang'),
+    ('p9ujkuf36d'), ('p@ssw0rd'), ('p@ssword'), ('pa437tu'), ('pa55w0rd'), ('pa55wd'), ('pa55word'), ('paashaas'),
+    ('pabl'), ('pablit'), ('pablito'), ('pablo')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('pablos'), ('pabst'), ('pacbell'), ('pace'), ('pacer'), ('pacers'), ('pachanga'), ('pacheco'),
+    ('pacific'), ('pacifica'), ('pacifico'), ('pacino'), ('pack'), ('package'), ('packages'), ('packard'),
+    ('packardbell'), ('packer'), ('packers'), ('packet'), ('packing'), ('packman'), ('packrat'), ('pacman'),
+    ('paco'), ('pacopaco'), ('pacotaco'), ('pacpac'), ('padawan'), ('paddingt'), ('paddle'), ('paddler'),
+    ('paddles'), ('paddy'), ('padilla'), ('padlock'), ('padma'), ('padova'), ('padraic'), ('padre'),
+    ('padres'), ('padrino'), ('padron'), ('pagan'), ('paganini'), ('pagans'), ('page'), ('pagedown'),
+    ('pager'), ('pages'), ('pageup'), ('pagoda'), ('paid'), ('paige'), ('paigow'), ('pain'),
+    ('pain4me'), ('painful'), ('painkill'), ('painkiller'), ('painless'), ('paint'), ('paintbal'), ('paintball'),
+    ('paintball1'), ('painted'), ('painter'), ('painters'), ('painting'), ('paints'), ('paisley'), ('paiste'),
+    ('paixao'), ('pajarito'), ('pajaro'), ('pajero'), ('pakalolo'), ('paki'), ('pakista'), ('pakistan'),
+    ('pakistan123'), ('pakistan786'), ('pakistani'), ('pakpak'), ('pala'), ('palace'), ('palacio'), ('palacios'),
+    ('paladi'), ('paladin'), ('paladine'), ('paladino'), ('paladins'), ('palamino'), ('palani'), ('palantir'),
+    ('palce'), ('paleale'), ('palenque'), ('palermo'), ('palestine'), ('palette'), ('palevo'), ('palito'),
+    ('pall'), ('palla'), ('palladin'), ('palladio'), ('palladium'), ('pallas'), ('pallavi'), ('palle'),
+    ('pallet'), ('pallina'), ('pallino'), ('pallmall'), ('pallone'), ('palm'), ('palme'), ('palmeira'),
+    ('palmeiras'), ('palmer'), ('palmetto'), ('palmtree'), ('palmyra'), ('paloalt'), ('paloalto'), ('palom'),
+    ('paloma'), ('palomino'), ('palomo'), ('palpal'), ('palpatin'), ('pamel'), ('pamela'), ('pammie'),
+    ('pammy'), ('pampa'), ('pampam'), ('pampers'), ('pamplona'), ('pana'), ('panacea'), ('panache'),
+    ('panadol'), ('panam'), ('panama'), ('panasoni'), ('panasonic'), ('panasonik'), ('panatha'), ('panavisi'),
+    ('pancake'), ('pancakes'), ('panch'), ('panchit'), ('panchito'), ('pancho'), ('pancreas'), ('panda'),
+    ('pandabea'), ('pandabear'), ('pandas'), ('pandemonium'), ('pander'), ('pandor'), ('pandora'), ('pandoras'),
+    ('pane'), ('panel'), ('panels'), ('pang'), ('pangaea'), ('panget'), ('pangit'), ('pangolin'),
+    ('panhead'), ('panic'), ('panika'), ('panina'), ('paninaro'), ('panini'), ('pankaj'), ('panman'),
+    ('panocha'), ('panorama'), ('panova'), ('panpan'), ('pansy'), ('pantat'), ('pantech'), ('panter'),
+    ('pantera'), ('panthe'), ('pantheon'), ('panther'), ('panthera'), ('panthers'), ('panthose'), ('pantie'),
+    ('panties'), ('panton'), ('pantry'), ('pants'), ('pantss'), ('panty'), ('pantyhos'), ('pantyhose'),
+    ('pantyman'), ('pantys'), ('panzer'), ('paokara'), ('paol'), ('paola'), ('paolino'), ('paolit'),
+    ('paolo'), ('paopao'), ('papa'), ('papabear'), ('papageno'), ('papajohn'), ('papamama'), ('papapa'),
+    ('papapapa'), ('paparazzi'), ('paparoach'), ('papas'), ('papasha'), ('papasmur'), ('papasmurf'), ('papaw'),
+    ('papaya'), ('paper'), ('paperboy'), ('papercli'), ('paperclip'), ('papercut'), ('paperino'), ('paperman'),
+    ('papero'), ('papers'), ('papi'), ('papichul'), ('papichulo'), ('papier'), ('papillon'), ('papirus'),
+    ('papit'), ('papito'), ('papo'), ('papoose'), ('papote'), ('pappa'), ('pappas'), ('papper'),
+    ('pappnase'), ('pappy'), ('paprika'), ('paps'), ('papuas'), ('papyrus'), ('paquito'), ('para'),
+    ('parabellum'), ('parabola'), ('parachut'), ('parachute'), ('parade'), ('paradice'), ('paradigm'), ('paradis'),
+    ('paradise'), ('paradiso'), ('paradiz'), ('paradize'), ('paradoks'), ('paradox'), ('paradoxx'), ('paragon'),
+    ('paraguay'), ('paraiso'), ('paraklast1974'), ('parallax'), ('parallel'), ('paramed'), ('paramedi'), ('paramedic'),
+    ('paramon'), ('paramore'), ('paramoun'), ('paramount'), ('parana'), ('paranoia'), ('paranoid'), ('paranoya'),
+    ('parapa'), ('parapet'), ('parasha'), ('parasite'), ('parasol'), ('paratroo'), ('paravoz'), ('parazit'),
+    ('parcel'), ('parcells'), ('pardon'), ('pardonme'), ('paredes'), ('parent'), ('parents'), ('parfilev'),
+    ('parfois'), ('parfour'), ('pargolf'), ('pariah'), ('paris'), ('parish'), ('parisi'), ('parisien'),
+    ('pariss'), ('park'), ('parkave'), ('parke'), ('parker'), ('parkers'), ('parkhead'), ('parking'),
+    ('parkland'), ('parklane'), ('parkour'), ('parkplac'), ('parks'), ('parkside'), ('parkur'), ('parkview'),
+    ('parkway'), ('parlament'), ('parlay'), ('parliame'), ('parliament'), ('parma'), ('parmalat'), ('parman'),
+    ('parnell'), ('parol'), ('parola'), ('parolamea'), ('parole'), ('paroli'), ('paroll'), ('parolparol'),
+    ('parool'), ('parovoz'), ('parpar'), ('parris'), ('parrish'), ('parrot'), ('parrothe'), ('parrotts'),
+    ('parry'), ('parsec'), ('parsifal'), ('parsley'), ('parsnip'), ('parson'), ('parsons'), ('part'),
+    ('partagas'), ('particle'), ('partie'), ('parties'), ('partizan'), ('partner'), ('partners'), ('parton'),
+    ('partridg'), ('partridge'), ('parts'), ('party'), ('partyboy'), ('partyman'), ('partyon'), ('partys'),
+    ('partytim'), ('partytime'), ('parvin'), ('parviz'), ('pasa'), ('pasadena'), ('pasanko'), ('pasca'),
+    ('pascal'), ('pascale'), ('pascha'), ('pascual'), ('pasha'), ('pashademon'), ('pashka'), ('pashtet'),
+    ('pasion'), ('paska'), ('paskal'), ('paspas'), ('pasport'), ('pasquale'), ('pass'), ('pass1wor'),
+    ('pass1word'), ('pass3s'), ('passa'), ('passage'), ('passagen'), ('passat'), ('passcode'), ('passe'),
+    ('passed'), ('passer'), ('passes'), ('passfan'), ('passfind'), ('passgas'), ('passin'), ('passing'),
+    ('passio'), ('passion'), ('passionate'), ('passions'), ('passit'), ('passive'), ('passkey'), ('passking'),
+    ('passman'), ('passmast'), ('passmaster'), ('passme'), ('passon'), ('passord'), ('passout'), ('passover'),
+    ('passpage'), ('passpass'), ('passport'), ('passss'), ('passssap'), ('passsword'), ('passthie'), ('passthief'),
+    ('passtrader'), ('passw'), ('passw0r'), ('passw0rd'), ('passward'), ('passwd'), ('passwerd'), ('passwo'),
+    ('passwod'), ('passwor'), ('password'), ('password00'), ('password01'), ('password10'), ('password101'), ('password11'),
+    ('password12'), ('password123'), ('password1234'), ('password13'), ('password21'), ('password22'), ('password23'), ('password33'),
+    ('password69'), ('password88'), ('password99'), ('password@123'), ('passwordassword'), ('passwordd'), ('passwordpassword'), ('passwords'),
+    ('passwordstandard'), ('passworld'), ('passwort'), ('passwrd'), ('passwurd'), ('passzone'), ('past'), ('pasta'),
+    ('pastas'), ('paste'), ('pastel'), ('pastis'), ('pastor'), ('pastrami'), ('pastry'), ('pasture'),
+    ('pasty'), ('paswoord'), ('pasword'), ('patagoni')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('patat'), ('patata'), ('patate'), ('patatina'), ('patch'), ('patche'), ('patches'), ('patchess'),
+    ('patchy'), ('patel'), ('patent'), ('pater'), ('paterno'), ('paterson'), ('path'), ('pathetic'),
+    ('pathfind'), ('pathfinder'), ('patholog'), ('patience'), ('patient'), ('patina'), ('patino'), ('patio'),
+    ('patit'), ('patito'), ('patlabor'), ('patman'), ('pato'), ('patoloco'), ('patou'), ('patpat'),
+    ('patri'), ('patric'), ('patrice'), ('patrici'), ('patricia'), ('patricio'), ('patrick'), ('patrickj'),
+    ('patricks'), ('patrik'), ('patriot'), ('patriots'), ('patrizia'), ('patroclo'), ('patrol'), ('patron'),
+    ('patrycja'), ('patryk'), ('pats'), ('patsfan'), ('patsy'), ('patt'), ('pattar'), ('pattaya'),
+    ('patten'), ('patter'), ('pattern'), ('patterso'), ('patterson'), ('patti'), ('pattie'), ('patton'),
+    ('patty'), ('paul'), ('paula'), ('paula13e'), ('paulaner'), ('paulas'), ('paulchen'), ('paule'),
+    ('paulette'), ('pauli'), ('paulie'), ('paulin'), ('paulina'), ('pauline'), ('paulinka'), ('paulista'),
+    ('paulita'), ('paulius'), ('pauljr'), ('paully'), ('paulo'), ('paulpaul'), ('paulus'), ('pauly'),
+    ('pause'), ('pavel'), ('pavell'), ('pavement'), ('pavilio'), ('pavilion'), ('pavlenko'), ('pavlik'),
+    ('pavlin'), ('pavlov'), ('pavlova'), ('pavlusha'), ('pawelek'), ('pawnee'), ('pawnshop'), ('pawpaw'),
+    ('paws'), ('paxton'), ('payaso'), ('payback'), ('paycheck'), ('paycom'), ('payday'), ('payless'),
+    ('payman'), ('payment'), ('payne'), ('paypal'), ('payroll'), ('payson'), ('payton'), ('pazzkrew'),
+    ('pazzword'), ('pbeach'), ('pbvfktnj'), ('pbyfblf'), ('pcgamer'), ('pchela'), ('pcmcia'), ('pdaddy'),
+    ('pdiddy'), ('pdnejoh'), ('pdtplf'), ('pdtpljxrf'), ('peabody'), ('peace'), ('peaceful'), ('peacemaker'),
+    ('peaceman'), ('peacenow'), ('peaceout'), ('peaces'), ('peach'), ('peache'), ('peaches'), ('peachfuz'),
+    ('peachie'), ('peachy'), ('peacock'), ('peak'), ('peakaboo'), ('peanu'), ('peanut'), ('peanutbu'),
+    ('peanutbutter'), ('peanuts'), ('peapod'), ('pear'), ('pearce'), ('pearl'), ('pearlja'), ('pearljam'),
+    ('pearls'), ('pearly'), ('pearson'), ('peartree'), ('pease'), ('peasoup'), ('peavey'), ('pebble'),
+    ('pebbles'), ('pecan'), ('pechenka'), ('peck'), ('pecker'), ('pecos'), ('pedal'), ('pedant'),
+    ('peddler'), ('peder'), ('pederast'), ('pedersen'), ('pedigree'), ('pedr'), ('pedrito'), ('pedro'),
+    ('pedros'), ('peebles'), ('peedee'), ('peeing'), ('peejay'), ('peek'), ('peekaboo'), ('peeker'),
+    ('peeler'), ('peep'), ('peepee'), ('peeper'), ('peepers'), ('peeping'), ('peeps'), ('peepshow'),
+    ('peerless'), ('peetee'), ('peeter'), ('peewe'), ('peewee'), ('pegas'), ('pegase'), ('pegaso'),
+    ('pegasu'), ('pegasus'), ('peggie'), ('peggy'), ('peggys'), ('peggysue'), ('pegleg'), ('peikko'),
+    ('peiper'), ('pekin'), ('peking'), ('pekpek'), ('pelado'), ('pelaez'), ('pelepele'), ('pelham'),
+    ('pelican'), ('peligro'), ('pelikan'), ('pelle'), ('pellet'), ('pelmen'), ('pelmeni'), ('pelon'),
+    ('pelosa'), ('pelot'), ('pelota'), ('peloton'), ('peluch'), ('peluche'), ('peludo'), ('pelus'),
+    ('pelusa'), ('pelvis'), ('pembroke'), ('pena'), ('penal'), ('penalty'), ('penchair'), ('pencil'),
+    ('pencils'), ('pendej'), ('pendejo'), ('pender'), ('pendrago'), ('pendragon'), ('pendulum'), ('pene'),
+    ('penelop'), ('penelopa'), ('penelope'), ('penetrating'), ('penetration'), ('penfloor'), ('penfold'), ('peng'),
+    ('pengui'), ('penguin'), ('penguins'), ('penhorse'), ('peni'), ('penile'), ('penis'), ('peniss'),
+    ('penman'), ('penmen'), ('penmouse'), ('penn'), ('pennant'), ('penner'), ('penney'), ('pennie'),
+    ('pennies'), ('pennst'), ('pennstat'), ('pennstate'), ('penny'), ('pennydog'), ('pennys'), ('pennywis'),
+    ('pennywise'), ('penpal'), ('penpen'), ('penquin'), ('pens'), ('pensacol'), ('pensacola'), ('pension'),
+    ('penske'), ('pentable'), ('pentacle'), ('pentagon'), ('pentagram'), ('pentax'), ('penthous'), ('penthouse'),
+    ('pentium'), ('penumbra'), ('penwindo'), ('peopl'), ('people'), ('peoples'), ('peoria'), ('pepe'),
+    ('pepepe'), ('pepepepe'), ('pepete'), ('pepino'), ('pepit'), ('pepita'), ('pepito'), ('pepluv'),
+    ('pepote'), ('peppe'), ('pepper'), ('peppermint'), ('pepperon'), ('pepperoni'), ('peppers'), ('peppi'),
+    ('peppie'), ('peppino'), ('peppy'), ('peps'), ('pepsi'), ('pepsico'), ('pepsicol'), ('pepsicola'),
+    ('pepsiman'), ('pepsimax'), ('pepsinsx'), ('pepsione'), ('pepsis'), ('peralta'), ('perasperaadastra'), ('percent'),
+    ('perch'), ('percival'), ('percussi'), ('percussion'), ('percy'), ('perdido'), ('peregrin'), ('pereira'),
+    ('peresvet'), ('perez'), ('perfect'), ('perfectexploiter'), ('perfecti'), ('perfection'), ('perfecto'), ('perform'),
+    ('performa'), ('performance'), ('performing'), ('perfume'), ('perhaps'), ('pericles'), ('perico'), ('perils'),
+    ('period'), ('perish'), ('perkele'), ('perkin'), ('perkins'), ('perkman'), ('perky'), ('permanen'),
+    ('permanent'), ('permit'), ('pernell'), ('pernilla'), ('pernille'), ('peroni'), ('peropero'), ('perova'),
+    ('perpetua'), ('perr'), ('perra'), ('perrier'), ('perrin'), ('perrine'), ('perrit'), ('perrito'),
+    ('perro'), ('perron'), ('perros'), ('perry'), ('perrys'), ('persepho'), ('persephone'), ('perseus'),
+    ('pershing'), ('persia'), ('persian'), ('persik'), ('persimmon'), ('persist'), ('person'), ('persona'),
+    ('personal'), ('personne'), ('persson'), ('perth'), ('pertinant'), ('peru'), ('peruan'), ('peruano'),
+    ('peruperu'), ('peruvian'), ('perv'), ('pervasive'), ('perver'), ('pervert'), ('perverts'), ('perviz'),
+    ('pescado'), ('pescator'), ('peshawar'), ('pest'), ('petal'), ('petals'), ('pete'), ('petepete'),
+    ('peter'), ('petera'), ('peterb'), ('peterbil'), ('peterbilt'), ('peterbui'), ('peterburg'), ('peterc'),
+    ('petercar'), ('peterd'), ('peterf'), ('peterg'), ('petergun'), ('peterh'), ('peterj'), ('peterk'),
+    ('peterm'), ('peterman'), ('petern'), ('peternor'), ('peternorth'), ('peterose'), ('peterp'), ('peterpan'),
+    ('peterpeter'), ('peterr'), ('peters'), ('petersen'), ('peterson'), ('petert'), ('petey'), ('petit'),
+    ('petite'), ('petpet'), ('petr'), ('petra'), ('petras'), ('petrenko'), ('petri'), ('petrie'),
+    ('petrik'), ('petro'), ('petrol'), ('petros'), ('petrosyan'), ('petrov'), ('petrova'), ('petrovich'),
+    ('petrovna'), ('petruha'), ('petrus'), ('petrusha'), ('petrushka'), ('pets'), ('petshop'), ('petter'),
+    ('petticoa'), ('petticoat'), ('pettie'), ('petty'), ('petunia'), ('peugeo'), ('peugeot'), ('peugeot406'),
+    ('pewter'), ('peyote'), ('peyton'), ('pfchfyrf')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('pfchfytw'), ('pfeffer'), ('pfeiffer'), ('pfhbyf'), ('pfhfnecnhf'), ('pfhfpf'), ('pfizer'), ('pfkegf'),
+    ('pflhjn'), ('pflhjncndj'), ('pfloyd'), ('pflybwf'), ('pfnvtybt'), ('pfobnf'), ('pfqrf'), ('pfqwtd27121988'),
+    ('pfqwtdf'), ('pfqxbr'), ('pfqxjyjr'), ('pfqxtyjr'), ('pfrhsnj'), ('pfuflrf'), ('pfunk'), ('pgszt6md'),
+    ('phaedra'), ('phaedrus'), ('phalanx'), ('phantasm'), ('phantasy'), ('phanto'), ('phantom'), ('phantoms'),
+    ('pharao'), ('pharaoh'), ('pharcyde'), ('pharma'), ('pharmacy'), ('pharmd'), ('pharoah'), ('pharoh'),
+    ('phase'), ('phaser'), ('phat'), ('phatass'), ('phatboy'), ('phatcat'), ('phatfarm'), ('phatty'),
+    ('phazer'), ('pheasant'), ('phelan'), ('phelge'), ('phelps'), ('phenix'), ('phenmarr'), ('phenom'),
+    ('pheobe'), ('pheonix'), ('phezc419hv'), ('phialpha'), ('phidelt'), ('phigam'), ('phikap'), ('phil'),
+    ('philadelphia'), ('philbert'), ('phildec'), ('phildo'), ('philemon'), ('phili'), ('philip'), ('philipp'),
+    ('philippe'), ('philippines'), ('philips'), ('phill'), ('phillesh'), ('philli'), ('phillie'), ('phillies'),
+    ('phillip'), ('phillipa'), ('phillips'), ('philly'), ('philmont'), ('philo'), ('philos'), ('philosop'),
+    ('philosophy'), ('philou'), ('phineas'), ('phinupi'), ('phiphi'), ('phipps'), ('phipsi'), ('phish'),
+    ('phishin'), ('phishing'), ('phishman'), ('phishy'), ('phisig'), ('phitau'), ('phlegm'), ('phobia'),
+    ('phobos'), ('phoeb'), ('phoebe'), ('phoebus'), ('phoeni'), ('phoenix'), ('phoenix123'), ('phone'),
+    ('phoneman'), ('phones'), ('phooey'), ('phose'), ('photo'), ('photoes'), ('photog'), ('photogra'),
+    ('photography'), ('photoman'), ('photon'), ('photos'), ('photosho'), ('photoshop'), ('photowiz'), ('phpbb'),
+    ('phrases'), ('phreak'), ('phreaker'), ('phred'), ('phuket'), ('phunky'), ('phuon'), ('phuong'),
+    ('phydeaux'), ('phyllis'), ('physic'), ('physical'), ('physics'), ('piacenza'), ('piaggio'), ('pian'),
+    ('pianeta'), ('pianino'), ('piano'), ('pianoman'), ('pianos'), ('piao'), ('piazza'), ('pic\''s'),
+    ('pica'), ('picabo'), ('picachu'), ('picapica'), ('picard'), ('picaso'), ('picass'), ('picasso'),
+    ('piccard'), ('piccol'), ('piccolo'), ('picher'), ('pichon'), ('pick'), ('pickel'), ('pickens'),
+    ('picker'), ('pickerin'), ('picket'), ('pickett'), ('pickl'), ('pickle'), ('pickles'), ('pickme'),
+    ('picks'), ('pickup'), ('pickwick'), ('picnic'), ('pico'), ('picolo'), ('pics'), ('picsou'),
+    ('pictere'), ('pictman'), ('pictuers'), ('picture'), ('pictures'), ('picturs'), ('pidaras'), ('piddle'),
+    ('pidoras'), ('pieces'), ('piedmont'), ('pieface'), ('piehonkii'), ('pieman'), ('pieper'), ('piepie'),
+    ('pier'), ('pierce'), ('pierced'), ('piercing'), ('pierino'), ('piero'), ('pierr'), ('pierre'),
+    ('pierrot'), ('pies'), ('piesek'), ('piet'), ('pieter'), ('pietje'), ('pietro'), ('pifagor'),
+    ('piffle'), ('pigboy'), ('pigdog'), ('pigeon'), ('pigeons'), ('pigface'), ('pigg'), ('piggie'),
+    ('piggies'), ('pigglet'), ('piggly'), ('piggy'), ('piggy15708'), ('piggys'), ('piglet'), ('piglets'),
+    ('piglett'), ('pigman'), ('pigpen'), ('pigpig'), ('pigs'), ('pigskin'), ('pigtails'), ('pika'),
+    ('pikach'), ('pikachu'), ('pikapi'), ('pikapika'), ('pikapp'), ('pike'), ('piknik'), ('pilar'),
+    ('pilatus'), ('pilchard'), ('piledriv'), ('pilgrim'), ('pilgrims'), ('piligrim'), ('pilipenko'), ('pill'),
+    ('pillage'), ('pillar'), ('pillars'), ('pillow'), ('pills'), ('pilot'), ('pilote'), ('piloto'),
+    ('pilots'), ('pilou'), ('pilsbury'), ('pilsner'), ('pilsung'), ('pimaou'), ('pimmel'), ('pimp'),
+    ('pimpdad'), ('pimpdadd'), ('pimpdaddy'), ('pimpdady'), ('pimpdogg'), ('pimper'), ('pimphard'), ('pimpi'),
+    ('pimpin'), ('pimping'), ('pimpit'), ('pimpjuic'), ('pimpjuice'), ('pimple'), ('pimpman'), ('pimppimp'),
+    ('pimps'), ('pimpshit'), ('pimpsta'), ('pimpster'), ('pina'), ('pinarell'), ('pinball'), ('pinch'),
+    ('pinche'), ('pincher'), ('pinder'), ('pine'), ('pineappl'), ('pineapple'), ('pineapple1'), ('pinecone'),
+    ('pineda'), ('pines'), ('pinetop'), ('pinetree'), ('pinewood'), ('ping'), ('pinga'), ('pinger'),
+    ('pinggolf'), ('pingisi'), ('pingon'), ('pingping'), ('pingpon'), ('pingpong'), ('pingu'), ('pinguin'),
+    ('pinguino'), ('pingvin'), ('pingzing'), ('pinhead'), ('pinheiro'), ('pink'), ('pinkdot'), ('pinker'),
+    ('pinkerto'), ('pinkey'), ('pinkfl'), ('pinkfloy'), ('pinkfloyd'), ('pinkie'), ('pinking'), ('pinkish'),
+    ('pinklady'), ('pinkmoon'), ('pinkpant'), ('pinkpink'), ('pinkpony'), ('pinkpuss'), ('pinkpussy'), ('pinkrose'),
+    ('pinkslip'), ('pinky'), ('pinkys'), ('pinkyy'), ('pinnacle'), ('pinned'), ('pinner'), ('pino'),
+    ('pinocchio'), ('pinokio'), ('pinot'), ('pinoy'), ('pinoyako'), ('pinpin'), ('pinpon'), ('pintail'),
+    ('pinto'), ('pintos'), ('pioli'), ('piolin'), ('pionee'), ('pioneer'), ('pioneers'), ('pioner'),
+    ('pionex'), ('piopio'), ('piotr'), ('piotrek'), ('piotrus'), ('pipa'), ('pipe'), ('pipefitt'),
+    ('pipeline'), ('pipeman'), ('piper'), ('pipers'), ('pipes'), ('pipetka'), ('pipeutvj'), ('pipi'),
+    ('pipicaca'), ('piping'), ('pipipi'), ('pipiska'), ('pipkin'), ('pipo'), ('pipoca'), ('pipopipo'),
+    ('pippa'), ('pippen'), ('pipper'), ('pippi'), ('pippin'), ('pippip'), ('pippo'), ('pippolo'),
+    ('pippone'), ('piramid'), ('piramida'), ('piramide'), ('piranha'), ('pirat'), ('pirata'), ('pirate'),
+    ('pirates'), ('pirelli'), ('piroca'), ('pirrello'), ('pisang'), ('pisces'), ('pisci'), ('pisello'),
+    ('piss'), ('pissant'), ('pissed'), ('pisser'), ('pissflap'), ('pisshead'), ('pissing'), ('pissoff'),
+    ('pissonme'), ('pissword'), ('pissy'), ('pistache'), ('pistol'), ('pistola'), ('pistols'), ('piston'),
+    ('pistons'), ('pita'), ('pitboss'), ('pitbul'), ('pitbull'), ('pitbulls'), ('pitch'), ('pitcher'),
+    ('pitchers'), ('piter'), ('pitman'), ('pitney'), ('pito'), ('pitpit'), ('pits'), ('pitstop'),
+    ('pitt'), ('pittbull'), ('pitter'), ('pittman'), ('pitts'), ('pittsbur'), ('pittsburgh'), ('pitufo'),
+    ('pitures'), ('pitviper'), ('pivkoo'), ('pivo'), ('pivopivo'), ('pixel'), ('pixels'), ('pixie'),
+    ('pixies'), ('pizarro'), ('pizda'), ('pizdec'), ('pizdets'), ('pizdez'), ('pizza'), ('pizzaa'),
+    ('pizzaboy'), ('pizzahut'), ('pizzaman'), ('pizzapie'), ('pizzas'), ('pizzle'), ('pjcgujrat'), ('pjflkork'),
+    ('pjkeirf'), ('pjkjnj'), ('pjkmabhz'), ('pjsheridan'), ('pktmxr'), ('pkunzip'), ('place'), ('placebo'),
+    ('placenta'), ('places'), ('placid'), ('plague'), ('plain'), ('plains'), ('plaisir'), ('plan'),
+    ('planar'), ('plane'), ('planes'), ('planet')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('planeta'), ('planetar'), ('planets'), ('planetx'), ('plank'), ('plankton'), ('planner'), ('planning'),
+    ('planot'), ('plans'), ('plant'), ('plante'), ('planter'), ('planters'), ('plants'), ('plapla'),
+    ('plasma'), ('plaster'), ('plastic'), ('plasticb'), ('plasticf'), ('plasticm'), ('plasticp'), ('plastics'),
+    ('plastik'), ('plat'), ('plat1num'), ('plate'), ('plateau'), ('plates'), ('platform'), ('platin'),
+    ('platina'), ('platini'), ('platinu'), ('platinum'), ('platipus'), ('plato'), ('platon'), ('platonic'),
+    ('platonov'), ('platoon'), ('platos'), ('platte'), ('platter'), ('platypus'), ('play'), ('play2win'),
+    ('playa'), ('playah'), ('playas'), ('playaz'), ('playball'), ('playbo'), ('playboy'), ('playboys'),
+    ('playe'), ('player'), ('players'), ('playful'), ('playgirl'), ('playgolf'), ('playgrou'), ('playground'),
+    ('playhard'), ('playhouse'), ('playing'), ('playit'), ('playlife'), ('playmate'), ('playme'), ('playoff'),
+    ('playoffs'), ('playplay'), ('playstat'), ('playstatio'), ('playstation'), ('playstation2'), ('playstation3'), ('playtim'),
+    ('playtime'), ('plaza'), ('plazma'), ('pleas'), ('pleasant'), ('please'), ('pleaseme'), ('pleaser'),
+    ('pleasur'), ('pleasure'), ('pledge'), ('plenty'), ('pleomax'), ('plethora'), ('plextor'), ('plextsofttm'),
+    ('plhfdcndeq'), ('plhy6hql'), ('pljhjdmt'), ('plmokn'), ('plokij'), ('plokiju'), ('plokijuh'), ('plokplok'),
+    ('plonker'), ('plop'), ('ploplo'), ('plopplop'), ('ploppy'), ('plot'), ('plough'), ('plover'),
+    ('plowboy'), ('plplpl'), ('pluck'), ('plucky'), ('plug'), ('plugger'), ('plugh'), ('plum'),
+    ('plumb'), ('plumber'), ('plumbing'), ('plumbum'), ('plummer'), ('plump'), ('plumper'), ('plumpers'),
+    ('plumpy'), ('plums'), ('plumtree'), ('plunge'), ('plunk'), ('plus'), ('plushka'), ('plutarch'),
+    ('pluto'), ('pluton'), ('plutos'), ('plymouth'), ('plywood'), ('pm209mt'), ('pmdmscts'), ('pmdmsctsk'),
+    ('pmedic'), ('pmtgjnbl'), ('pn5jvw'), ('pngfilt'), ('poacher'), ('pobeda'), ('pocahontas'), ('pochta'),
+    ('pocket'), ('pockets'), ('poco'), ('pocomoke'), ('pocono'), ('pocus'), ('podaria'), ('podarok'),
+    ('poderoso'), ('podiatry'), ('podium'), ('podonok'), ('podruga'), ('podsm'), ('podstava'), ('podunk'),
+    ('podvinsev'), ('poekie'), ('poep'), ('poepie'), ('poepoe'), ('poes'), ('poesje'), ('poet'),
+    ('poetic'), ('poetry'), ('poets'), ('pogiako'), ('pogo'), ('pogoda'), ('pogopogo'), ('pogosyan'),
+    ('pogues'), ('poidog'), ('poiiop'), ('poilkj'), ('point'), ('pointblank'), ('pointbreak'), ('pointe'),
+    ('pointer'), ('pointers'), ('pointman'), ('points'), ('pointy'), ('poipoi'), ('poiqwe'), ('poirot'),
+    ('poise'), ('poison'), ('poisson'), ('poiu'), ('poiulkjh'), ('poiupoiu'), ('poiuy'), ('poiuyt'),
+    ('poiuytr'), ('poiuytre'), ('poiuytrew'), ('poiuytrewq'), ('poke'), ('pokeman'), ('pokemo'), ('pokemon'),
+    ('pokemon123'), ('pokemons'), ('poker'), ('pokerface'), ('pokerman'), ('pokers'), ('pokesmot'), ('pokey'),
+    ('pokie'), ('poko'), ('pokopoko'), ('pokpok'), ('pokus'), ('polanco'), ('poland'), ('polanski'),
+    ('polar'), ('polara'), ('polarbea'), ('polarbear'), ('polaris'), ('polaroid'), ('pole'), ('polecat'),
+    ('polecatt'), ('polepole'), ('polgara'), ('poli'), ('polic'), ('police'), ('policema'), ('policeman'),
+    ('polici'), ('policia'), ('policy'), ('poligon'), ('polimer'), ('polin'), ('polina'), ('polina2005'),
+    ('polina2008'), ('polina2009'), ('polinka'), ('polino4ka'), ('polipo'), ('polipoli'), ('polis'), ('polish'),
+    ('polite'), ('politeh'), ('politic'), ('politica'), ('politics'), ('politika'), ('polito'), ('polizei'),
+    ('polk'), ('polka'), ('polkadot'), ('polkan'), ('polkaudi'), ('polkaudio'), ('polkilo'), ('polkmn'),
+    ('polkovnik'), ('polkpolk'), ('poll'), ('polla'), ('pollard'), ('pollen'), ('pollie'), ('pollit'),
+    ('pollito'), ('pollo'), ('pollock'), ('pollon'), ('pollop'), ('pollux'), ('polly'), ('pollys'),
+    ('polniypizdec0211'), ('polniypizdec1102'), ('polniypizdec110211'), ('polo'), ('polock'), ('pololo'), ('poloman'), ('polonais'),
+    ('polonia'), ('polopo'), ('polopol'), ('polopolo'), ('polopolo09'), ('polosport'), ('polpetta'), ('polpol'),
+    ('polpolpol'), ('polpot'), ('polsk'), ('polska'), ('poltava'), ('poly'), ('polyakov'), ('polyakova'),
+    ('polygon'), ('polymer'), ('pomada'), ('pomapoma'), ('pomidor'), ('pomme'), ('pommes'), ('pomodoro'),
+    ('pomona'), ('pompano'), ('pompey'), ('pompeyfc'), ('pompie'), ('pompier'), ('pompiers'), ('pompom'),
+    ('pompon'), ('ponce'), ('ponch'), ('ponchik'), ('poncho'), ('pond'), ('ponder'), ('pondscum'),
+    ('pondus'), ('pong'), ('pongo'), ('pongpong'), ('ponies'), ('ponomarenko'), ('ponomarev'), ('ponpon'),
+    ('pontia'), ('pontiac'), ('pontoon'), ('pony'), ('ponyboy'), ('ponygirl'), ('ponytail'), ('poobear'),
+    ('poobum'), ('pooch'), ('poochi'), ('poochie'), ('poochunk'), ('poochy'), ('pooder'), ('poodle'),
+    ('poodles'), ('poodoo'), ('poof'), ('pooh'), ('poohbea'), ('poohbear'), ('poohead'), ('poohpooh'),
+    ('pooja'), ('pook'), ('pooka'), ('pooker'), ('pookey'), ('pooki'), ('pookie'), ('pookster'),
+    ('pooky'), ('pool'), ('poolboy'), ('poole'), ('poolman'), ('poolpool'), ('pools'), ('poolside'),
+    ('poon'), ('poonam'), ('pooner'), ('poontang'), ('pooo'), ('poooop'), ('poop'), ('poopdick'),
+    ('pooped'), ('poopee'), ('pooper'), ('poopers'), ('poopface'), ('poophead'), ('poopi'), ('poopie'),
+    ('poopies'), ('poopman'), ('poopo'), ('poopoo'), ('poopoop'), ('pooppoop'), ('pooppy'), ('poops'),
+    ('poopsie'), ('poopster'), ('poopy'), ('poopypan'), ('poopypoo'), ('poor'), ('poorboy'), ('poorman'),
+    ('poot'), ('pootang'), ('pooter'), ('pooters'), ('pootie'), ('popa'), ('popapopa'), ('popart'),
+    ('popcor'), ('popcorn'), ('popcorns'), ('pope'), ('popey'), ('popeye'), ('popi'), ('popimp'),
+    ('popkorn'), ('poplar'), ('poplop'), ('popluv'), ('popmart'), ('popo'), ('popochka'), ('popol'),
+    ('popolo'), ('popop'), ('popopo'), ('popopopo'), ('popov'), ('popova'), ('popp'), ('poppa'),
+    ('poppe'), ('poppel'), ('poppen'), ('popper'), ('poppers'), ('poppet'), ('poppi'), ('poppie'),
+    ('poppies'), ('poppin'), ('popping'), ('poppins'), ('poppop'), ('poppos'), ('poppy'), ('poppydog'),
+    ('poppys'), ('pops'), ('popsicle'), ('popstar'), ('poptart'), ('poptarts'), ('poptop'), ('popular'),
+    ('popup'), ('porche'), ('porcupin'), ('pork'), ('porkchop'), ('porker'), ('porkpie'), ('porksoda'),
+    ('porky'), ('porkypig'), ('porn'), ('porn4life'), ('porn4me'), ('pornboy'), ('pornclub'), ('porndog'),
+    ('pornking'), ('pornlo'), ('pornlove'), ('pornlover')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('pornman'), ('porno'), ('pornog'), ('pornogra'), ('pornografia'), ('pornographic'), ('pornography'), ('pornoman'),
+    ('pornoo'), ('pornoporno'), ('pornos'), ('pornosta'), ('pornostar'), ('pornpass'), ('pornporn'), ('pornsite'),
+    ('pornsta'), ('pornstar'), ('porntube'), ('porosenok'), ('porovoz123'), ('porpoise'), ('porque'), ('porridge'),
+    ('porsch'), ('porsche'), ('porsche911'), ('porsches'), ('porshe'), ('port'), ('portable'), ('portal'),
+    ('porte'), ('porter'), ('portfoli'), ('porthole'), ('porthos'), ('portia'), ('portico'), ('portillo'),
+    ('portis'), ('portishead'), ('portland'), ('portman'), ('portnoy'), ('porto'), ('portofin'), ('portos'),
+    ('portrait'), ('portsmou'), ('portsmouth'), ('portuga'), ('portugal'), ('portugue'), ('portvale'), ('posaune'),
+    ('poseidon'), ('posey'), ('posh'), ('positano'), ('position'), ('positiv'), ('positive'), ('positivo'),
+    ('positron'), ('posse'), ('possible'), ('possum'), ('post'), ('posta'), ('postage'), ('postal'),
+    ('postbank'), ('postcard'), ('postel'), ('poster'), ('postie'), ('postit'), ('postman'), ('postov1000'),
+    ('posture'), ('potapov'), ('potapova'), ('potato'), ('potatoe'), ('potatoes'), ('potent'), ('potenza'),
+    ('pothead'), ('pothole'), ('potion'), ('potluck'), ('potolok'), ('potomac'), ('potpie'), ('potpot'),
+    ('potsdam'), ('potsmoke'), ('potte'), ('potter'), ('potters'), ('pottery'), ('potty'), ('potvin'),
+    ('pouch'), ('poul'), ('poulet'), ('poulette'), ('pounce'), ('pouncer'), ('pound'), ('pounded'),
+    ('pounder'), ('pounding'), ('pounds'), ('poupee'), ('poupou'), ('poupoune'), ('pourquoi'), ('poussin'),
+    ('poutana'), ('poutine'), ('powa'), ('powder'), ('powe'), ('powell'), ('power'), ('powerade'),
+    ('powerbal'), ('powerboo'), ('powered'), ('powerful'), ('powerhou'), ('powerlifting'), ('powermac'), ('powerman'),
+    ('powermax'), ('poweron'), ('powerpc'), ('powerpla'), ('powerplay'), ('powerpower'), ('powerpuf'), ('powerr'),
+    ('powerrangers'), ('powers'), ('powerstr'), ('powert'), ('powerup'), ('powmia'), ('powpow'), ('powwow'),
+    ('pozitiv'), ('poznan'), ('pp04a'), ('ppj22we'), ('ppooii'), ('pppooo'), ('pppp'), ('ppppp'),
+    ('pppppp'), ('ppppppp'), ('pppppppp'), ('ppppppppp'), ('pppppppppp'), ('ppspankp'), ('ppussy'), ('pqpqpq'),
+    ('pr1ncess'), ('prabhu'), ('practice'), ('pradeep'), ('prado'), ('praetorian'), ('pragmati'), ('prague'),
+    ('prairie'), ('praise'), ('prakash'), ('praline'), ('pranav'), ('prancer'), ('prank'), ('prapor'),
+    ('prasad'), ('prasanna'), ('prashant'), ('pratap1245'), ('pratibha'), ('pratt'), ('pravda'), ('praveen'),
+    ('praxis'), ('pray'), ('prayer'), ('prayers'), ('preach'), ('preacher'), ('preben'), ('precept'),
+    ('precios'), ('preciosa'), ('preciou'), ('precious'), ('precise'), ('precisio'), ('precision'), ('predator'),
+    ('predators'), ('preeti'), ('prefab'), ('prefect'), ('preggo'), ('pregnant'), ('prelest'), ('prelude'),
+    ('preludes'), ('prem'), ('premier'), ('premiere'), ('premio'), ('premium'), ('premiumcash'), ('prentice'),
+    ('preppy'), ('pres'), ('presari'), ('presario'), ('prescott'), ('presence'), ('present'), ('presents'),
+    ('preserve'), ('presiden'), ('president'), ('presidente'), ('presidio'), ('presley'), ('press'), ('pressed'),
+    ('pressman'), ('pressup'), ('pressure'), ('prestige'), ('prestigio'), ('presto'), ('preston'), ('preteen'),
+    ('pretende'), ('pretender'), ('pretoria'), ('prett'), ('pretty'), ('prettybo'), ('prettyboy'), ('prettygi'),
+    ('prettygirl'), ('pretzel'), ('pretzels'), ('prevail'), ('preved'), ('prevert'), ('preview'), ('prevost'),
+    ('prezident'), ('price'), ('pricilla'), ('prick'), ('pride'), ('pridurok'), ('priest'), ('prikol'),
+    ('prima'), ('primal'), ('primary'), ('primas'), ('primate'), ('primaver'), ('primavera'), ('primax'),
+    ('prime'), ('primer'), ('primera'), ('primes'), ('primetim'), ('primetime'), ('primetime21'), ('primo'),
+    ('primos'), ('primrose'), ('primus'), ('princ'), ('prince'), ('princes'), ('princesa'), ('princesit'),
+    ('princess'), ('princess12'), ('princessa'), ('princesse'), ('princeto'), ('princeton'), ('princip'), ('principa'),
+    ('principe'), ('princy'), ('pringle'), ('pringles'), ('print'), ('printer'), ('printers'), ('printing'),
+    ('prints'), ('prior'), ('priora'), ('priority'), ('priory'), ('priroda'), ('prisca'), ('priscila'),
+    ('priscill'), ('priscilla'), ('prism'), ('prisma'), ('prison'), ('prisonbreak'), ('prisoner'), ('priss'),
+    ('prissy'), ('pristine'), ('privacy'), ('privado'), ('privat'), ('private'), ('privates'), ('prive'),
+    ('privet'), ('privetik'), ('priya'), ('priyanka'), ('prize'), ('prizrak'), ('probably'), ('proball'),
+    ('probe'), ('probegt'), ('prober'), ('probert'), ('probes'), ('problem'), ('problema'), ('problemas'),
+    ('problems'), ('proceed'), ('process'), ('processor'), ('proctor'), ('procyon'), ('prodigy'), ('prodojo'),
+    ('produce'), ('producer'), ('product'), ('producti'), ('productid20f'), ('production'), ('products'), ('proekt'),
+    ('prof'), ('profesor'), ('profess'), ('professi'), ('professional'), ('professo'), ('professor'), ('profil'),
+    ('profile'), ('profiler'), ('profiles'), ('profit'), ('profits'), ('profound'), ('progamer'), ('proghouse'),
+    ('progon'), ('program'), ('programm'), ('programmer'), ('progres'), ('progress'), ('progressive'), ('prohor'),
+    ('project'), ('projects'), ('projekt'), ('prokopenko'), ('prokuror'), ('proline'), ('prolinea'), ('prolog'),
+    ('prolong'), ('promethe'), ('prometheus'), ('promise'), ('promises'), ('promo'), ('promod'), ('promopas'),
+    ('promote'), ('promoter'), ('promotio'), ('prompt'), ('pron'), ('prong'), ('pronger'), ('pronin'),
+    ('pronto'), ('proof'), ('propagan'), ('propane'), ('propel'), ('proper'), ('properties'), ('property'),
+    ('prophecy'), ('prophet'), ('propro'), ('prorok'), ('prosoft'), ('prospect'), ('prosper'), ('prosperity'),
+    ('prospero'), ('prosser'), ('prost'), ('prostaff'), ('prostar'), ('prosto'), ('prostock'), ('prostotak'),
+    ('prostreet'), ('protec'), ('protect'), ('protecte'), ('protected'), ('protecti'), ('protection'), ('protege'),
+    ('protein'), ('proteus'), ('protocol'), ('proton'), ('protools'), ('protos'), ('protoss'), ('prototyp'),
+    ('prototype'), ('protozoa'), ('proud'), ('proust'), ('prout'), ('prova'), ('provence'), ('proverb'),
+    ('proverbs'), ('proverka'), ('provide'), ('providen'), ('providence'), ('provider'), ('providia'), ('providian'),
+    ('proview'), ('provista'), ('provue'), ('prowler'), ('proxima'), ('proxy'), ('prozac'), ('prozak'),
+    ('prudence'), ('prufrock'), ('prune'), ('prunes'), ('prussia'), ('przemek'), ('psalms'), ('pseudo'),
+    ('psiholog'), ('psswrd'), ('psych'), ('psyche'), ('psychic'), ('psychnau'), ('psychnaut1'), ('psycho'),
+    ('psycholo'), ('psychotic'), ('psylocke'), ('psytrance')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('pt206ps'), ('ptbdhw'), ('ptcruise'), ('ptfe3xxp'), ('pthrfkj'), ('ptichka'), ('ptktysq'), ('ptybnxtvgbjy'),
+    ('puavbill'), ('public'), ('publish'), ('publius'), ('publix'), ('pucara'), ('pucci'), ('puccini'),
+    ('puce'), ('puck'), ('pucker'), ('puckett'), ('puckhead'), ('puckpuck'), ('pudder'), ('puddin'),
+    ('pudding'), ('puddle'), ('puddles'), ('puddy'), ('pudge'), ('pueblo'), ('puente'), ('puerto'),
+    ('puertori'), ('puertorico'), ('puff'), ('puffdadd'), ('puffdaddy'), ('puffer'), ('puffin'), ('puffpuff'),
+    ('puffy'), ('pufunga7782'), ('pugdog'), ('puggy'), ('pugsley'), ('pugsly'), ('pugster'), ('pugwash'),
+    ('puhlik'), ('puhpuh'), ('puissant'), ('pujols'), ('puke'), ('puki'), ('pukimak'), ('pukpuk'),
+    ('pulamea'), ('pulcino'), ('pulled'), ('puller'), ('pulley'), ('pullings'), ('pullman'), ('pullup'),
+    ('pulp'), ('pulpfict'), ('pulpfiction'), ('pulsar'), ('pulse'), ('puma'), ('pumapuma'), ('pumas'),
+    ('pumba'), ('pumbaa'), ('pumice'), ('pumkin'), ('pump'), ('pumped'), ('pumper'), ('pumping'),
+    ('pumpit'), ('pumpitup'), ('pumpk1n'), ('pumpki'), ('pumpkin'), ('pumpkins'), ('pumps'), ('pumpum'),
+    ('punahele'), ('punani'), ('punany'), ('punch'), ('punched'), ('punchy'), ('pundai'), ('puneet'),
+    ('punheta'), ('punica'), ('punish'), ('punisher'), ('punjab'), ('punjabi'), ('punk'), ('punkass'),
+    ('punker'), ('punkie'), ('punkin'), ('punkpunk'), ('punkrawk'), ('punkrock'), ('punksnotdead'), ('punkstar'),
+    ('punky'), ('punt'), ('punt0it'), ('puntang'), ('punter'), ('punto'), ('pupil'), ('pupkin'),
+    ('pupper'), ('puppet'), ('puppets'), ('puppie'), ('puppies'), ('puppy'), ('puppydog'), ('puppylov'),
+    ('puppylove'), ('puppys'), ('pupsik'), ('pupster'), ('pupuce'), ('puravida'), ('purcell'), ('purchase'),
+    ('purdey'), ('purdue'), ('purdy'), ('pure'), ('pureevil'), ('puregold'), ('purgator'), ('purge'),
+    ('purgen'), ('purina'), ('purity'), ('purpl'), ('purple'), ('purplehaze'), ('purpose'), ('pursuit'),
+    ('purzel'), ('puschel'), ('push'), ('pusher'), ('pushing'), ('pushistik'), ('pushit'), ('pushka'),
+    ('pushkin'), ('pushok'), ('pushpa'), ('puspus'), ('puss'), ('pusser'), ('pussey'), ('pussie'),
+    ('pussies'), ('pusspuss'), ('pusssy'), ('pussy'), ('pussy4me'), ('pussyass'), ('pussybitch'), ('pussyboy'),
+    ('pussyca'), ('pussycat'), ('pussydick'), ('pussyeat'), ('pussyeater'), ('pussyfuck'), ('pussygod'), ('pussyhole'),
+    ('pussykat'), ('pussylic'), ('pussylick'), ('pussylicker'), ('pussylip'), ('pussylips'), ('pussylov'), ('pussylover'),
+    ('pussyman'), ('pussypussy'), ('pussys'), ('pussyy'), ('pusyy'), ('puszek'), ('puta'), ('putain'),
+    ('putamadre'), ('putana'), ('putang'), ('putangina'), ('putaria'), ('putas'), ('pute'), ('putin'),
+    ('putnam'), ('putney'), ('puto'), ('putput'), ('putt'), ('puttana'), ('putter'), ('putters'),
+    ('puttputt'), ('putty'), ('putz'), ('puzzle'), ('puzzles'), ('pvjegu'), ('pw4sex'), ('pweepwee'),
+    ('pwnage'), ('pwned'), ('pword'), ('pwxd5x'), ('pxx3eftp'), ('pyf8ah'), ('pyfrjvcndf'), ('pyfrjvcndj'),
+    ('pygmy'), ('pynchon'), ('pyon'), ('pypsik'), ('pyramid'), ('pyramide'), ('pyramids'), ('pyrex'),
+    ('pyro'), ('pyroman'), ('python'), ('q111111q'), ('q1205199333'), ('q123123123'), ('q123321q'), ('q123456789'),
+    ('q1234567890'), ('q123456q'), ('q12345q'), ('q1234q'), ('q1q2q3q4q5'), ('q1q2q3q4q5q6'), ('q1w2e'), ('q1w2e3r'),
+    ('q1w2e3r4t'), ('q1w2e3r4t5'), ('q1w2e3r4t5y'), ('q1w2e3r4t5y6'), ('q1w2e3r4t5y6u7'), ('q1w2e3r4t5y6u7i8'), ('q1w2e3r4t5y6u7i8o9p0'), ('q2w3e4r'),
+    ('q2w3e4r5t6'), ('q2w3e4r5t6y7'), ('q4n2jdeh'), ('q80661658441'), ('q8zo8wzq'), ('q9umoz'), ('qader'), ('qagsud'),
+    ('qantas'), ('qapmoc'), ('qaqa'), ('qaqaqa'), ('qaqaqaqa'), ('qaswed'), ('qawsed'), ('qawsedr'),
+    ('qawsedrf'), ('qawsedrftg'), ('qawsedrftgyh'), ('qaywsx'), ('qaz123wsx'), ('qaz123wsx456'), ('qaz12wsx'), ('qaz1wsx2edc3'),
+    ('qaz26101778'), ('qazedc'), ('qazedctgb'), ('qazokm'), ('qazplm'), ('qazqa'), ('qazqaz'), ('qazqazqaz'),
+    ('qazqwe'), ('qazsedcft'), ('qazsew'), ('qazw'), ('qazwer'), ('qazws'), ('qazwsx'), ('qazwsx1234'),
+    ('qazwsx12345'), ('qazwsx123456'), ('qazwsxc'), ('qazwsxe'), ('qazwsxed'), ('qazwsxedc'), ('qazwsxedc1'), ('qazwsxedc12'),
+    ('qazwsxedc123'), ('qazwsxedcrf'), ('qazwsxedcrfv'), ('qazwsxedcrfvtgb'), ('qazwsxqazwsx'), ('qazx'), ('qazxc'), ('qazxcde'),
+    ('qazxcdew'), ('qazxcdews'), ('qazxcv'), ('qazxcvb'), ('qazxcvbn'), ('qazxcvbnm'), ('qazxdr'), ('qazxqazx'),
+    ('qazxs'), ('qazxsw'), ('qazxswe'), ('qazxswed'), ('qazxswedc'), ('qazxswedc123'), ('qazxswedcvfr'), ('qazzaq'),
+    ('qazzxc'), ('qball'), ('qbert'), ('qbg26i'), ('qcactw'), ('qcfmtz'), ('qcxdw8ry'), ('qdarcv'),
+    ('qeadzc'), ('qetuop'), ('qewret'), ('qguvyt'), ('qhxbij'), ('qian'), ('qiang'), ('qiao'),
+    ('qing'), ('qiong'), ('qmpq39zr'), ('qn632o'), ('qpalzm'), ('qpqpqp'), ('qpwoei'), ('qpwoeiru'),
+    ('qpwoeiruty'), ('qq123456789'), ('qqaazz'), ('qqh92r'), ('qqqaaa'), ('qqqq'), ('qqqqq'), ('qqqqqq'),
+    ('qqqqqqq'), ('qqqqqqqq'), ('qqqqqqqqq'), ('qqqqqqqqqq'), ('qqqqqqw'), ('qqqqwwww'), ('qqqwww'), ('qqqwwweee'),
+    ('qqwwee'), ('qqwweerr'), ('qrg7t8rhqy'), ('qrhmis'), ('qsawbbs'), ('qscesz'), ('qscwdv'), ('qsdfg'),
+    ('qsdfgh'), ('qsdfghjk'), ('qsefth'), ('qsefthuko'), ('quack'), ('quacker'), ('quackers'), ('quackqua'),
+    ('quad'), ('quadra'), ('quagmire'), ('quail'), ('quaint'), ('quake'), ('quaker'), ('qualcomm'),
+    ('quality'), ('quan'), ('quant4307s'), ('quanta'), ('quantex'), ('quantum'), ('quarantine'), ('quaresma'),
+    ('quark'), ('quarks'), ('quarry'), ('quart'), ('quarter'), ('quarters'), ('quartet'), ('quartz'),
+    ('quasar'), ('quasi'), ('quasimod'), ('quatro'), ('quattro'), ('queball'), ('quebec'), ('quedog'),
+    ('queen'), ('queenas8151'), ('queenb'), ('queenbee'), ('queenie'), ('queens'), ('queeny'), ('queequeg'),
+    ('queer'), ('queers'), ('quell'), ('quelle'), ('quenti'), ('quentin'), ('quepasa'), ('quercus'),
+    ('querida'), ('querty'), ('quesnel'), ('quest'), ('question'), ('questor'), ('quetal'), ('quetta'),
+    ('quetzal'), ('queue'), ('quiche'), ('quick'), ('quicken'), ('quickie'), ('quickly'), ('quicks'),
+    ('quicksan'), ('quicksand'), ('quicksil'), ('quicksilver'), ('quicky'), ('quiet'), ('quietkey'), ('quietman'),
+    ('quigley'), ('quijote'), ('quiksilv'), ('quiksilver'), ('quill'), ('quilt'), ('quilter'), ('quimby'),
+    ('quin'), ('quince'), ('quincey'), ('quincunx'), ('quincy'), ('quinlin'), ('quinn'), ('quint'),
+    ('quinta'), ('quintain'), ('quintana'), ('quinten'), ('quinton'), ('quique'), ('quirly'), ('quit'),
+    ('quite'), ('quiver'), ('quixote'), ('quixotic'), ('quixtar'), ('quorum'), ('quote'), ('quovadis'),
+    ('qureshi'), ('qw12er'), ('qw12er34ty56'), ('qw12qw')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('qwaqwa'), ('qwas'), ('qwaser'), ('qwasqwas'), ('qwasz'), ('qwaszx'), ('qwaszxedc'), ('qwaszxerdfcv'),
+    ('qwaszxqw'), ('qwaszxqwaszx'), ('qwe1234567'), ('qwe123asd'), ('qwe123qwe'), ('qwe123qwe123'), ('qwe123rty'), ('qweas'),
+    ('qweasd'), ('qweasdqwe'), ('qweasdzx'), ('qweasdzxc'), ('qweasdzxc1'), ('qweasdzxc12'), ('qweasdzxc123'), ('qweasz'),
+    ('qwedcxza'), ('qwedcxzas'), ('qwedsa'), ('qwedsazxc'), ('qweewq'), ('qwepoi'), ('qweqaz'), ('qweqw'),
+    ('qweqwe'), ('qweqweqw'), ('qweqweqwe'), ('qwer'), ('qweras'), ('qwerasd'), ('qwerasdf'), ('qwerasdfzxcv'),
+    ('qwerasdzx'), ('qwerewq'), ('qwerfdsa'), ('qwerpoiu'), ('qwerqwer'), ('qwerrewq'), ('qwert'), ('qwert12345'),
+    ('qwert54321'), ('qwerta'), ('qwertasd'), ('qwertasdfg'), ('qwertasdfgzxcvb'), ('qwertgfdsa'), ('qwertqwert'), ('qwerttrewq'),
+    ('qwerty'), ('qwerty123321'), ('qwerty1234'), ('qwerty12345'), ('qwerty123456'), ('qwerty123456789'), ('qwerty1992'), ('qwerty1993'),
+    ('qwerty2000'), ('qwerty2010'), ('qwerty54321'), ('qwertyas'), ('qwertyasd'), ('qwertyasdf'), ('qwertyasdfg'), ('qwertyasdfgh'),
+    ('qwertyqwerty'), ('qwertys'), ('qwertyu'), ('qwertyu123'), ('qwertyui'), ('qwertyuio'), ('qwertyuiop'), ('qwertyuiop1'),
+    ('qwertyuiop10'), ('qwertyuiop12'), ('qwertyuiop123'), ('qwertyuiop12345'), ('qwertyuiop123456789'), ('qwertyuiopasdfg'), ('qwertyuiopasdfgh'), ('qwertyuiopasdfghjkl'),
+    ('qwertyy'), ('qwertyytrewq'), ('qwertyz'), ('qwertz'), ('qwertzu'), ('qwertzui'), ('qwertzuiop'), ('qwerzxcv'),
+    ('qweszxc'), ('qwezxc'), ('qwqw'), ('qwqwqw'), ('qwqwqwqw'), ('qwqwqwqwqw'), ('qwsaqwsa'), ('qwsazx'),
+    ('qwsxza'), ('qzwxec'), ('qzwxecrv'), ('r0ckstar'), ('r1chard'), ('r1mini'), ('r29hqq'), ('r2d2c3po'),
+    ('r3ady41t'), ('r3r3vi3wacc3ss'), ('r3v59p'), ('r3vi3wpass'), ('r7112s'), ('r7ugnm'), ('rabat'), ('rabb1t'),
+    ('rabbi'), ('rabbit'), ('rabbits'), ('rabbitt'), ('rabid'), ('rabies'), ('rabit'), ('rabota'),
+    ('raccoon'), ('race'), ('racecar'), ('racecars'), ('racefan'), ('raceman'), ('raceme'), ('racer'),
+    ('racers'), ('racerx'), ('raceway'), ('rach'), ('rachae'), ('rachael'), ('rache'), ('racheal'),
+    ('rachel'), ('rachele'), ('rachell'), ('rachelle'), ('rachid'), ('racin'), ('racine'), ('racing'),
+    ('racism'), ('rackem'), ('racket'), ('rackham'), ('racoon'), ('racquel'), ('racsan'), ('rada'),
+    ('radagast'), ('radar'), ('radars'), ('raddad'), ('radeon'), ('rader'), ('radford'), ('radhika'),
+    ('radial'), ('radiance'), ('radiant'), ('radiate'), ('radiatio'), ('radiation'), ('radiator'), ('radical'),
+    ('radio'), ('radiohea'), ('radiohead'), ('radiolog'), ('radioman'), ('radion'), ('radios'), ('radish'),
+    ('radisson'), ('radist'), ('radium'), ('radius'), ('radley'), ('radman'), ('radmila'), ('radmir'),
+    ('radnor'), ('radost'), ('radrat'), ('radu'), ('raduga'), ('raekwon'), ('raerae'), ('rafa'),
+    ('rafae'), ('rafael'), ('rafaela'), ('rafal'), ('rafale'), ('rafanet'), ('raff'), ('raffael'),
+    ('raffaele'), ('raffaello'), ('rafferty'), ('raffle'), ('raffles'), ('rafiki'), ('rafter'), ('rafting'),
+    ('ragdoll'), ('rage'), ('ragerage'), ('ragers'), ('ragger'), ('raghav'), ('raging'), ('ragman'),
+    ('ragnar'), ('ragnaro'), ('ragnarok'), ('rags'), ('ragtime'), ('ragtop'), ('ragweed'), ('rahasia'),
+    ('raheem'), ('rahimov'), ('rahman'), ('rahmat'), ('rahrah'), ('rahul'), ('raid'), ('raide'),
+    ('raiden'), ('raider'), ('raiders'), ('raikkonen'), ('rail'), ('railroad'), ('railway'), ('rain'),
+    ('raina'), ('rainbird'), ('rainbo'), ('rainbow'), ('rainbows'), ('rainbowsix'), ('raincoat'), ('raindog'),
+    ('raindrop'), ('rainer'), ('raines'), ('rainey'), ('rainfall'), ('rainforest'), ('rainger'), ('rainier'),
+    ('raining'), ('rainking'), ('rainmake'), ('rainmaker'), ('rainman'), ('rainrain'), ('raintree'), ('rainy'),
+    ('rainyday'), ('raisa'), ('raiser'), ('raisin'), ('raissa'), ('raistlin'), ('raja'), ('rajah'),
+    ('rajan'), ('rajani'), ('rajeev'), ('rajendra'), ('rajesh'), ('rajini'), ('rajkumar'), ('rajput'),
+    ('raju'), ('rakas'), ('rakastan'), ('rake'), ('rakesh'), ('raketa'), ('rakkasan'), ('rakkaus'),
+    ('rakker'), ('raleigh'), ('ralf'), ('rallen'), ('ralliart'), ('rally'), ('rallye'), ('rallyman'),
+    ('ralph'), ('ralphie'), ('ralphs'), ('ralphy'), ('ralston'), ('rama'), ('ramada'), ('ramadan'),
+    ('ramage'), ('ramair'), ('raman'), ('ramana'), ('ramani'), ('ramarama'), ('ramarao'), ('ramazan'),
+    ('ramazi'), ('ramble'), ('rambler'), ('ramblers'), ('rambling'), ('rambo'), ('rambone'), ('rambos'),
+    ('rambow'), ('rambus'), ('ramcharg'), ('ramdisk'), ('ramesh'), ('ramfan'), ('rami'), ('ramil'),
+    ('ramin'), ('ramina'), ('ramir'), ('ramire'), ('ramirez'), ('ramiro'), ('ramjet'), ('ramman'),
+    ('rammer'), ('rammin'), ('rammramm'), ('rammstei'), ('rammstein'), ('rammstein1'), ('ramon'), ('ramona'),
+    ('ramone'), ('ramones'), ('ramos'), ('rampage'), ('rampant'), ('rampart'), ('ramram'), ('ramrod'),
+    ('rams'), ('ramsay'), ('ramse'), ('ramses'), ('ramsey'), ('ramstein'), ('ramteid'), ('ramtough'),
+    ('ramtruck'), ('ramzan'), ('ramzes'), ('rana'), ('ranch'), ('rancher'), ('ranchero'), ('rancho'),
+    ('rancid'), ('rancor'), ('rand'), ('randal'), ('randall'), ('randee'), ('randell'), ('randers'),
+    ('randi'), ('randie'), ('randle'), ('rando'), ('randolph'), ('random'), ('randrand'), ('randy'),
+    ('randyb'), ('randyman'), ('randys'), ('ranetka'), ('ranetki'), ('rang'), ('range'), ('ranged'),
+    ('ranger'), ('rangerov'), ('rangerover'), ('rangers'), ('rangersf'), ('rangersz'), ('rangy'), ('rani'),
+    ('rania'), ('ranier'), ('ranita'), ('ranjan'), ('rank'), ('rankin'), ('ranking'), ('ranma'),
+    ('ranman'), ('ransom'), ('ranxerox'), ('raoul'), ('rapala'), ('rape'), ('rapeme'), ('raphael'),
+    ('rapid'), ('rapide'), ('rapido'), ('rapids'), ('rapier'), ('rapper'), ('raprap'), ('raptor'),
+    ('raptors'), ('rapture'), ('rapunzel'), ('raque'), ('raquel'), ('rara'), ('rarara'), ('rare'),
+    ('raritan'), ('rasaki'), ('rasberry'), ('rasca'), ('rascal'), ('rasengan'), ('raser'), ('rash'),
+    ('rasha'), ('rashad'), ('rasheed'), ('rashid'), ('rashida'), ('rashley198'), ('rashmi'), ('rasmu'),
+    ('rasmus'), ('raspberr'), ('raspberry'), ('rasputin'), ('rassilon'), ('rassvet'), ('rasta'), ('rastafar'),
+    ('rastafari'), ('rastaman'), ('rastas'), ('raster'), ('rastlin'), ('rastro'), ('rastus'), ('rasul'),
+    ('rataros'), ('ratbag'), ('ratbert'), ('ratboy'), ('ratcat'), ('ratchet'), ('ratdog'), ('rate'),
+    ('rated'), ('ratface'), ('ratfink'), ('rathbone'), ('ratio'), ('rational'), ('ratiug'), ('ratliff'),
+    ('ratman'), ('ratmir'), ('ratpack'), ('ratrace'), ('ratrat'), ('rats'), ('ratt'), ('ratten'),
+    ('rattle'), ('rattler'), ('rattlers'), ('rattlesn')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('rattlesnake'), ('rattrace'), ('rattrap'), ('rattus'), ('ratty'), ('rauchen'), ('raul'), ('raulito'),
+    ('raunchy'), ('raushan'), ('ravage'), ('rave'), ('raven'), ('ravenlof'), ('ravenn'), ('ravenna'),
+    ('ravenous'), ('ravens'), ('raver'), ('ravers'), ('ravi'), ('ravinder'), ('raving'), ('ravioli'),
+    ('ravnos'), ('ravshan'), ('rawalpindi'), ('rawdog'), ('rawhide'), ('rawiswar'), ('rawks'), ('rawkus'),
+    ('rawr'), ('rayallen'), ('rayban'), ('rayburn'), ('rayden'), ('raygun'), ('rayjay'), ('raylene'),
+    ('rayman'), ('raymon'), ('raymond'), ('rayne'), ('rayner'), ('raynor'), ('rayra'), ('rayray'),
+    ('raytheon'), ('rayzor'), ('razdvatri'), ('razer'), ('raziel'), ('razina'), ('razor'), ('razorbac'),
+    ('razorblade'), ('razors'), ('razraz'), ('razvan'), ('razvedka'), ('razvod'), ('razz'), ('razzle'),
+    ('rb26dett'), ('rbcekz'), ('rbceyz'), ('rbcjymrf'), ('rbckjhjl'), ('rbgfhbc'), ('rbgtkjd'), ('rbhbkk'),
+    ('rbhgbx'), ('rbhjdf'), ('rbhjxrf'), ('rbkmrf'), ('rbrbvjhf'), ('rc.irf'), ('rc.itymrf'), ('rc10gt'),
+    ('rccola'), ('rcfhlfc'), ('rclaki'), ('rctybz'), ('rdfhnbhf'), ('rdflhfn'), ('rdgpl3ds'), ('rdpcfgex'),
+    ('rdq5ww4x'), ('reaccount'), ('reach'), ('reaction'), ('reactor'), ('read'), ('reader'), ('readers'),
+    ('reading'), ('readit'), ('readme'), ('readread'), ('ready'), ('ready2go'), ('ready4u'), ('readynow'),
+    ('reagan'), ('real'), ('realdeal'), ('realest'), ('realesta'), ('realgood'), ('realhard'), ('reality'),
+    ('reallove'), ('really'), ('realm'), ('realmadr'), ('realmadri'), ('realmadrid'), ('realman'), ('realms'),
+    ('realsex'), ('realtime'), ('realtor'), ('realtree'), ('realty'), ('reamer'), ('reanimator'), ('reape'),
+    ('reaper'), ('reason'), ('reaver'), ('reba'), ('rebate'), ('rebbecca'), ('rebec'), ('rebeca'),
+    ('rebecc'), ('rebecca'), ('rebeka'), ('rebekah'), ('rebel'), ('rebeld'), ('rebelde'), ('rebelins'),
+    ('rebell'), ('rebellio'), ('rebellion'), ('rebels'), ('rebelz'), ('rebenok'), ('rebirth'), ('rebon'),
+    ('reboot'), ('reborn'), ('rebound'), ('rebrov'), ('recall'), ('recchi'), ('reccos'), ('receiver'),
+    ('recent'), ('recently'), ('recess'), ('recife'), ('recipe'), ('reckless'), ('reckon'), ('recliner'),
+    ('recluse'), ('recneps'), ('recoba'), ('recoil'), ('recon'), ('record'), ('recorder'), ('records'),
+    ('recover'), ('recovery'), ('recruit'), ('recruiter'), ('rector'), ('rectum'), ('recycle'), ('red1sox'),
+    ('red5thx'), ('red7stork'), ('redalert'), ('redapple'), ('redarmy'), ('redass'), ('redball'), ('redbank'),
+    ('redbarch'), ('redbaron'), ('redbeard'), ('redbird'), ('redbirds'), ('redblue'), ('redbone'), ('redbook'),
+    ('redboy'), ('redbrick'), ('redbud'), ('redbul'), ('redbull'), ('redcap'), ('redcar'), ('redcard'),
+    ('redcat'), ('redcell'), ('redcloud'), ('redcoat'), ('redcross'), ('redd'), ('reddawg'), ('reddawn'),
+    ('redddd'), ('reddead'), ('redder'), ('reddevil'), ('reddevils'), ('reddick'), ('redding'), ('reddo'),
+    ('reddog'), ('reddot'), ('reddrago'), ('reddragon'), ('reddwarf'), ('reddy'), ('redeem'), ('redeemed'),
+    ('redeemer'), ('redemption'), ('redeye'), ('redeyes'), ('redfield'), ('redfire'), ('redfish'), ('redfive'),
+    ('redflag'), ('redford'), ('redfox'), ('redfred'), ('redgrave'), ('redgreen'), ('redhair'), ('redhat'),
+    ('redhawk'), ('redhawks'), ('redhea'), ('redhead'), ('redheads'), ('redheart'), ('redhed'), ('redhill'),
+    ('redhook'), ('redhorse'), ('redhot'), ('redhouse'), ('redial'), ('redips'), ('rediska'), ('redknapp'),
+    ('redlabel'), ('redlands'), ('redleg'), ('redlegs'), ('redlight'), ('redline'), ('redlion'), ('redlover'),
+    ('redma'), ('redman'), ('redmen'), ('redmond'), ('redmoon'), ('rednec'), ('redneck'), ('rednecks'),
+    ('rednef'), ('rednex'), ('rednight'), ('rednose'), ('redoak'), ('redoctob'), ('redondo'), ('redone'),
+    ('redpoint'), ('redqueen'), ('redrange'), ('redred'), ('redredre'), ('redredred'), ('redrider'), ('redriver'),
+    ('redrobin'), ('redrock'), ('redrocke'), ('redrocks'), ('redros'), ('redrose'), ('redroses'), ('redrover'),
+    ('redru'), ('redrum'), ('redryder'), ('reds'), ('redsand'), ('redsea'), ('redseal'), ('redseven'),
+    ('redshift'), ('redshirt'), ('redshoes'), ('redskin'), ('redskins'), ('redsky'), ('redso'), ('redsox'),
+    ('redsoxs'), ('redstar'), ('redstone'), ('redstorm'), ('redsun'), ('redtail'), ('redtide'), ('redtiger'),
+    ('redtop'), ('redtruck'), ('reduser'), ('redvette'), ('redwall'), ('redwhite'), ('redwin'), ('redwine'),
+    ('redwing'), ('redwings'), ('redwolf'), ('redwood'), ('redwoods'), ('reeb'), ('reebok'), ('reece'),
+    ('reed'), ('reeder'), ('reef'), ('reefer'), ('reel'), ('reeper'), ('reeree'), ('reese'),
+    ('reeses'), ('reeve'), ('reeves'), ('refer'), ('referee'), ('referenc'), ('refinnej'), ('reflect'),
+    ('reflex'), ('reform'), ('refresh'), ('refugee'), ('refused'), ('regal'), ('regan'), ('regatta'),
+    ('regedit'), ('regency'), ('regent'), ('reggae'), ('reggi'), ('reggie'), ('reggin'), ('reggio'),
+    ('reggit'), ('regime'), ('regiment'), ('regin'), ('regina'), ('reginald'), ('regine'), ('region'),
+    ('regional'), ('regis'), ('register'), ('registr'), ('registration'), ('regit'), ('reglisse'), ('regnar'),
+    ('regnig'), ('regor'), ('regret'), ('regula'), ('regular'), ('regulate'), ('rehana'), ('rehbwf'),
+    ('rehcfyn'), ('rehjgfnrf'), ('rehman'), ('rehnrf'), ('reid'), ('reign'), ('reiko'), ('reilly'),
+    ('reina'), ('reindeer'), ('reiner'), ('reinhard'), ('reinhold'), ('reisen'), ('reiter'), ('reject'),
+    ('rejoice'), ('rekbrjdf'), ('rekcuf'), ('reklam'), ('reklama'), ('reklaw'), ('rekmubyf'), ('rekord'),
+    ('reksio'), ('relapse'), ('relative'), ('relax'), ('relaxweb'), ('relayer'), ('release'), ('relentless'),
+    ('reliable'), ('reliance'), ('reliant'), ('relic'), ('relics'), ('relief'), ('religion'), ('relish'),
+    ('relisys'), ('rellek'), ('rellik'), ('rellim'), ('reload'), ('reloaded'), ('reman'), ('remark'),
+    ('remaro'), ('rembrand'), ('rembrandt'), ('remedios'), ('remedy'), ('remembe'), ('remember'), ('remi'),
+    ('remind'), ('remingto'), ('remington'), ('remix'), ('remmah'), ('remmus'), ('remont'), ('remorse'),
+    ('remote'), ('remove'), ('removed'), ('remrem'), ('remus'), ('remy'), ('rena'), ('renaldo'),
+    ('renard'), ('renat'), ('renata'), ('renate'), ('renato'), ('renaud'), ('renaul'), ('renault'),
+    ('render'), ('rendezvous'), ('rene'), ('renee'), ('reneee'), ('renegad'), ('renegade'), ('renfield'),
+    ('renfrew'), ('reng'), ('renner'), ('rennie'), ('reno'), ('renob'), ('renoir'), ('renown'),
+    ('renren'), ('renrew'), ('renrut'), ('renshi')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('rent'), ('rental'), ('renton'), ('renuka'), ('renwod'), ('renzo'), ('repair'), ('repeat'),
+    ('repent'), ('repete'), ('replace'), ('replay'), ('replica'), ('repmvbx'), ('repmvbyf'), ('repmvf'),
+    ('repmvtyrj'), ('repo'), ('repoman'), ('repooc'), ('report'), ('reporter'), ('reports'), ('reppep'),
+    ('reprah'), ('repsol'), ('reptile'), ('reptiles'), ('reptymrf'), ('republic'), ('repvtyrj'), ('repytwjd'),
+    ('repytwjdf'), ('repytxbr'), ('request'), ('requiem'), ('requin'), ('required'), ('rere'), ('rerecz'),
+    ('rerehepf'), ('rereirf'), ('rerere'), ('rererere'), ('rerfhfxf'), ('rerfhtre'), ('rerhsybrcs'), ('rerjkrf'),
+    ('rescue'), ('research'), ('reserve'), ('reserved'), ('reset'), ('resets'), ('reshma'), ('resident'),
+    ('residentevil'), ('resin'), ('resipsa'), ('resist'), ('resistance'), ('resolute'), ('resolve'), ('resort'),
+    ('resource'), ('resources'), ('respec'), ('respect'), ('respekt'), ('respond'), ('response'), ('respublika'),
+    ('rest'), ('restart'), ('restaura'), ('restless'), ('reston'), ('restore'), ('restrict'), ('results'),
+    ('resume'), ('retail'), ('retard'), ('retarded'), ('retep'), ('retina'), ('retire'), ('retired'),
+    ('retlaw'), ('retnuh'), ('retrac'), ('retraite'), ('retreat'), ('retribution'), ('retrieve'), ('retriver'),
+    ('retro'), ('retsam'), ('retsub'), ('retter'), ('retupmoc'), ('return'), ('returns'), ('retype'),
+    ('reuben'), ('reunion'), ('reuters'), ('reveal'), ('revel'), ('revelati'), ('revelation'), ('revell'),
+    ('revenant'), ('revenge'), ('revenue'), ('reverb'), ('revere'), ('reverend'), ('revers'), ('reverse'),
+    ('revert'), ('review'), ('reviewer'), ('reviewme'), ('reviewpa'), ('reviewpass'), ('reviews'), ('revilo'),
+    ('revival'), ('revlon'), ('revolt'), ('revoluti'), ('revolution'), ('revolver'), ('reward'), ('rewards'),
+    ('rewers'), ('rewind'), ('rewq'), ('rewster'), ('rexdog'), ('rexona'), ('rexrex'), ('rexton'),
+    ('rexx'), ('reyes'), ('reymisterio'), ('reymysterio'), ('reyna'), ('reynald'), ('reynaldo'), ('reynard'),
+    ('reynolds'), ('reyrey'), ('reza'), ('rezeda'), ('reznor'), ('rf101b'), ('rfatlhf'), ('rfcgth'),
+    ('rfcgthcrbq'), ('rfdrfp'), ('rfgbnfy'), ('rfgbnjirf'), ('rfgecnf'), ('rfgecnfcerf'), ('rfgexbyj'), ('rfghbp'),
+    ('rfghjy'), ('rfgrfy'), ('rfgtkmrf'), ('rfhbyf'), ('rfhbyjxrf'), ('rfhbyrf'), ('rfhectkm'), ('rfhfcbr'),
+    ('rfhfcm'), ('rfhfdfy'), ('rfhfgep'), ('rfhfnt'), ('rfhfntkm'), ('rfhfrfnbwf'), ('rfhfufylf'), ('rfhfvtkm'),
+    ('rfhfvtkmrf'), ('rfhfylfi'), ('rfhfynby'), ('rfhjkbyf'), ('rfhkcjy'), ('rfhlbyfk'), ('rfhnbyf'), ('rfhnjirf'),
+    ('rfhvfyftd'), ('rfinfy'), ('rfkbajhybz'), ('rfkbybyf'), ('rfkbybyuhfl'), ('rfkbyf'), ('rfkfiybrjd'), ('rfkmrekznjh'),
+    ('rfktylfhm'), ('rfltncndj'), ('rfn.irf'), ('rfnfcnhjaf'), ('rfnfgekmnf'), ('rfnfhbyf'), ('rfnfyf'), ('rfnhby'),
+    ('rfnhecz'), ('rfnmrf'), ('rfnthbyf'), ('rfnthbyf1988'), ('rfnthbyjxrf'), ('rfnthbyrf'), ('rfntyf'), ('rfntyjr'),
+    ('rfntymrf'), ('rfnz'), ('rfnzrfnz'), ('rfpfrjdf'), ('rfpfyjdf'), ('rfpfym'), ('rfpfynbg'), ('rfpone'),
+    ('rfpzdrf'), ('rfrfirf'), ('rfrfirf123'), ('rfrfitxrf'), ('rfrfrfrf'), ('rfrltkf'), ('rfrnec'), ('rfrnfr'),
+    ('rfvbgt'), ('rfvbkf'), ('rfvbkkf'), ('rfvbkm'), ('rfvbrflpt'), ('rfvfcenhf'), ('rfvtgb'), ('rfvtgbyhn'),
+    ('rfvtym'), ('rfvtyrf'), ('rfvxfnrf'), ('rfybreks'), ('rfycthdf'), ('rfyfgkz'), ('rhapsody'), ('rhbcnb'),
+    ('rhbcnbyf'), ('rhbcnbyf123'), ('rhbcnbyjxrf'), ('rhbcnbyrf'), ('rhbcnz'), ('rhbdtnrf'), ('rhbzxtgj'), ('rhenjq'),
+    ('rhett'), ('rhfcbdfz'), ('rhfcfdbwf'), ('rhfcfdxbr'), ('rhfcjnf'), ('rhfcjnrf'), ('rhfcyjlfh'), ('rhfcyjzhcr'),
+    ('rhfcysq'), ('rhfdxtyrj'), ('rhfgbdf'), ('rhfvfnjhcr'), ('rhianna'), ('rhiannon'), ('rhine'), ('rhino'),
+    ('rhinos'), ('rhjirf'), ('rhjkbr'), ('rhjrjlbk'), ('rhodan'), ('rhode'), ('rhodes'), ('rhodesia'),
+    ('rhonda'), ('rhtdtlrj'), ('rhtdtnrb'), ('rhtdtnrf'), ('rhtfnbd'), ('rhtgjcnm'), ('rhtyltkm'), ('rhubarb'),
+    ('rhumba'), ('rhythm'), ('ribalka'), ('ribbit'), ('ribbon'), ('ribeiro'), ('ribeye'), ('ribs'),
+    ('rica'), ('rican'), ('ricard'), ('ricardit'), ('ricardo'), ('riccard'), ('riccardo'), ('ricci'),
+    ('ricco'), ('rice'), ('riceman'), ('ricflair'), ('rich'), ('richar'), ('richard'), ('richardb'),
+    ('richardc'), ('richardl'), ('richardo'), ('richardp'), ('richardr'), ('richards'), ('richardson'), ('richboy'),
+    ('richelle'), ('richer'), ('riches'), ('richey'), ('richi'), ('richie'), ('richieri'), ('richland'),
+    ('richman'), ('richmond'), ('richrich'), ('richter'), ('richy'), ('rick'), ('rickard'), ('ricker'),
+    ('rickey'), ('rickie'), ('rickjame'), ('rickover'), ('rickrick'), ('rickshaw'), ('rickslic'), ('rickson'),
+    ('rickster'), ('ricky'), ('rickyb'), ('rickyd'), ('rico'), ('ricochet'), ('ricorico'), ('ridcully'),
+    ('ridden'), ('ridder'), ('riddick'), ('riddik'), ('riddle'), ('riddler'), ('ride'), ('rideau'),
+    ('ridebmx'), ('ridehard'), ('rideme'), ('rider'), ('ridered'), ('riders'), ('ridge'), ('ridgebac'),
+    ('ridges'), ('ridgeway'), ('riding'), ('ridley'), ('riesling'), ('rietriet'), ('riff'), ('riffraff'),
+    ('rifle'), ('rifleman'), ('rifles'), ('rifraf'), ('rigger'), ('rigging'), ('riggins'), ('riggs'),
+    ('right'), ('rightnow'), ('righto'), ('righton'), ('rights'), ('righty'), ('rigid'), ('rihanna'),
+    ('riker'), ('riki'), ('rikimaru'), ('rikitikitavi'), ('rilero'), ('riley'), ('rileydog'), ('rimbaud'),
+    ('rimini'), ('rimjob'), ('rimmer'), ('rimshot'), ('rinaldo'), ('rinat'), ('rincess'), ('rincewin'),
+    ('rincewind'), ('rincon'), ('ring'), ('ringbuch'), ('ringding'), ('ringer'), ('ringmast'), ('ringo'),
+    ('ringring'), ('rings'), ('ringwood'), ('rink'), ('rinker'), ('rino'), ('rintintin'), ('riobravo'),
+    ('riogrand'), ('riordan'), ('riorio'), ('riot'), ('ripazha'), ('ripclaw'), ('ripcord'), ('ripcurl'),
+    ('ripe'), ('ripken'), ('ripley'), ('ripoff'), ('riposte'), ('ripped'), ('ripper'), ('ripple'),
+    ('ripples'), ('riptide'), ('risa'), ('rise'), ('rising'), ('risk'), ('risky'), ('risolvop'),
+    ('rita'), ('ritarita'), ('ritchie'), ('rito'), ('ritter'), ('ritual'), ('ritz'), ('riva'),
+    ('rival'), ('rivaldo'), ('riven'), ('rivendel'), ('river'), ('rivera'), ('riverat'), ('riverman'),
+    ('riverplate'), ('riverrat'), ('rivers'), ('riversid'), ('riverside'), ('rivet'), ('riviera'), ('riyadh'),
+    ('rizla'), ('rizwan'), ('rizzo'), ('rjcnbr'), ('rjcnhjvf'), ('rjcntyrj'), ('rjcnzy'), ('rjcvjc'),
+    ('rjcvjyfdn'), ('rjcvtnbxrf'), ('rjdfkm'), ('rjdfkmxer'), ('rjdfktdf'), ('rjdfktyrj'), ('rjgtqrf'), ('rjhjdf'),
+    ('rjhjkm'), ('rjhjkmbien'), ('rjhjktd'), ('rjhjktdf'), ('rjhjyf'), ('rjifhf'), ('rjirf'), ('rjirfrgbde'),
+    ('rjitxrf'), ('rjkjrjk'), ('rjkjrjkmxbr'), ('rjkmwj')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('rjktcj'), ('rjktymrf'), ('rjnjatq'), ('rjnjgtc'), ('rjntyjr'), ('rjntyjxtr'), ('rjnzhf'), ('rjpjxrf'),
+    ('rjpkjdf'), ('rjpkjljq'), ('rjpthju'), ('rjpzdrf'), ('rjrfby'), ('rjrfrjkf'), ('rjvfhjdf'), ('rjvgfc'),
+    ('rjvgjn'), ('rjvgm.nth'), ('rjyatnf'), ('rjyatnrf'), ('rjycnbnewbz'), ('rjycnfynby'), ('rjyjdfkjdf'), ('rjyjgkz'),
+    ('rjynfrn'), ('rjynhjkm'), ('rjytwcdtnf'), ('rkbvtyrj'), ('rkelly'), ('rkfccbrf'), ('rkfdbfnehf'), ('rktjgfnhf'),
+    ('rmanis'), ('rmfidd'), ('rmpop'), ('rmracing'), ('roach'), ('roaches'), ('road'), ('roaddog'),
+    ('roaddogg'), ('roadhog'), ('roadie'), ('roadkill'), ('roadking'), ('roadrace'), ('roadrage'), ('roadrash'),
+    ('roadrun'), ('roadrunn'), ('roadrunner'), ('roads'), ('roadstar'), ('roadster'), ('roadtrip'), ('roadway'),
+    ('roamer'), ('roanoke'), ('roar'), ('roast'), ('robalo'), ('robb'), ('robben'), ('robber'),
+    ('robbert'), ('robbery'), ('robbi'), ('robbie'), ('robbieh'), ('robbin'), ('robbins'), ('robbo'),
+    ('robbob'), ('robby'), ('robe'), ('rober'), ('roberson'), ('robert'), ('roberta'), ('robertj'),
+    ('roberto'), ('robertos'), ('robertr'), ('roberts'), ('robertso'), ('robertson'), ('robi'), ('robin'),
+    ('robina'), ('robinb'), ('robinh'), ('robinho'), ('robinhoo'), ('robinhood'), ('robinn'), ('robins'),
+    ('robinso'), ('robinson'), ('robles'), ('roblox'), ('robo'), ('robocop'), ('robot'), ('robotec'),
+    ('robotech'), ('robotic'), ('robotics'), ('roboto'), ('robotron'), ('robots'), ('robrob'), ('robroy'),
+    ('robson'), ('robust'), ('robusta'), ('robvandam'), ('roby'), ('robyn'), ('rocawear'), ('rocco'),
+    ('rochard'), ('rochdale'), ('roche'), ('rochell'), ('rochelle'), ('rocheste'), ('rochester'), ('rocinant'),
+    ('rocio'), ('rock'), ('rockandr'), ('rockandroll'), ('rockbott'), ('rockbottom'), ('rockcity'), ('rockdog'),
+    ('rocke'), ('rocker'), ('rockers'), ('rocket'), ('rocketma'), ('rocketman'), ('rockets'), ('rockey'),
+    ('rockfish'), ('rockford'), ('rockhard'), ('rockhead'), ('rockhill'), ('rockhopper'), ('rockie'), ('rockies'),
+    ('rockin'), ('rocking'), ('rockish'), ('rockit'), ('rockland'), ('rocklee'), ('rockman'), ('rockme'),
+    ('rocknrol'), ('rocknroll'), ('rocko'), ('rockohamster'), ('rockon'), ('rockport'), ('rockrock'), ('rockroll'),
+    ('rocks'), ('rocksalt'), ('rockshox'), ('rockss'), ('rocksta'), ('rockstar'), ('rockster'), ('rockwell'),
+    ('rockwood'), ('rocky'), ('rockyb'), ('rockyboy'), ('rockydog'), ('rockyone'), ('rockyou'), ('rockys'),
+    ('rockytop'), ('rockyy'), ('rockz'), ('rodder'), ('rodders'), ('rodent'), ('rodents'), ('rodeo'),
+    ('rodeos'), ('roderick'), ('rodger'), ('rodgers'), ('rodina'), ('rodion'), ('rodionov'), ('rodman'),
+    ('rodne'), ('rodney'), ('rodnik'), ('rodolfo'), ('rodrig'), ('rodrigo'), ('rodrigue'), ('rodriguez'),
+    ('roebuck'), ('roenick'), ('rofl'), ('roflcopter'), ('roflmao'), ('roflol'), ('roflrofl'), ('rogelio'),
+    ('roger'), ('rogerg'), ('rogers'), ('rogets'), ('rogue'), ('rogues'), ('rohan'), ('roisin'),
+    ('rojo'), ('roksana'), ('rola'), ('rolan'), ('roland'), ('rolando'), ('roleguy'), ('roleplay'),
+    ('rolex'), ('rolf'), ('roli'), ('roll'), ('roller'), ('rollers'), ('rollie'), ('rollin'),
+    ('rolling'), ('rollins'), ('rollo'), ('rollon'), ('rollout'), ('rollover'), ('rollrock'), ('rolls'),
+    ('rolltide'), ('rolly'), ('rolo'), ('rolodex'), ('rolsen'), ('rolyat'), ('roma'), ('romain'),
+    ('roman'), ('romana'), ('romance'), ('romanenko'), ('romani'), ('romania'), ('romann'), ('romano'),
+    ('romanov'), ('romanova'), ('romanroman'), ('romans'), ('romanson'), ('romantic'), ('romantica'), ('romantik'),
+    ('romantika'), ('romario'), ('romaroma'), ('romashka'), ('romaska'), ('romawka'), ('romcops'), ('rome'),
+    ('romeo'), ('romeos'), ('romer'), ('romero'), ('romina'), ('rominet'), ('rommel'), ('romochka'),
+    ('romper'), ('romuald'), ('romulan'), ('romulus'), ('romy'), ('rona'), ('ronal'), ('ronald'),
+    ('ronaldin'), ('ronaldinho'), ('ronaldinho10'), ('ronaldo'), ('ronaldo123'), ('ronda'), ('rondo'), ('rong'),
+    ('roni'), ('ronin'), ('ronja'), ('ronjeremy'), ('ronjon'), ('ronni'), ('ronnie'), ('ronnoc'),
+    ('ronny'), ('rono'), ('ronron'), ('ronson'), ('ronster'), ('roodypoo'), ('roof'), ('roofer'),
+    ('roofing'), ('rooftop'), ('roofus'), ('rook'), ('rookie'), ('room'), ('roone'), ('rooney'),
+    ('rooroo'), ('roos'), ('roosevel'), ('roost'), ('rooste'), ('rooster'), ('roosters'), ('root'),
+    ('rootau'), ('rootbeer'), ('rootedit'), ('rooter'), ('rootroot'), ('roots'), ('rope'), ('roper'),
+    ('ropers'), ('roping'), ('roro'), ('rororo'), ('rory'), ('rosa'), ('rosado'), ('rosalba'),
+    ('rosale'), ('rosaleen'), ('rosales'), ('rosali'), ('rosalia'), ('rosalie'), ('rosalina'), ('rosalind'),
+    ('rosalita'), ('rosalyn'), ('rosamari'), ('rosana'), ('rosanna'), ('rosari'), ('rosaria'), ('rosario'),
+    ('rosarosa'), ('rosco'), ('roscoe'), ('rose'), ('roseann'), ('roseanne'), ('rosebowl'), ('rosebu'),
+    ('rosebud'), ('rosebudd'), ('rosebuds'), ('rosebush'), ('rosedale'), ('rosehill'), ('roseline'), ('rosella'),
+    ('roselle'), ('roselyn'), ('rosemari'), ('rosemarie'), ('rosemary'), ('rosemont'), ('rosen'), ('rosenrot'),
+    ('roserose'), ('roses'), ('rosetta'), ('rosette'), ('rosewood'), ('rosey'), ('roshan'), ('rosi'),
+    ('rosie'), ('rosiedog'), ('rosies'), ('rosina'), ('rosit'), ('rosita'), ('roskilde'), ('roslyn'),
+    ('ross'), ('rossco'), ('rossella'), ('rossi'), ('rossia'), ('rossie'), ('rossigno'), ('rossignol'),
+    ('rossini'), ('rossiya'), ('rossman'), ('rosso'), ('rossy'), ('rostik'), ('rostislav'), ('rostock'),
+    ('rostov'), ('roswell'), ('rosy'), ('rotary'), ('rotate'), ('rotciv'), ('roth'), ('rothmans'),
+    ('rotimi'), ('rotor'), ('rott'), ('rotten'), ('rotter'), ('rotterda'), ('rotterdam'), ('rottie'),
+    ('rottweil'), ('rottweiler'), ('rouge'), ('rouges'), ('rough'), ('roughrid'), ('roughsex'), ('roulette'),
+    ('round'), ('rounder'), ('rounders'), ('rounds'), ('roundup'), ('rouse'), ('rousseau'), ('route'),
+    ('router'), ('routine'), ('rover'), ('rovers'), ('rovert'), ('rovnogod'), ('rowboat'), ('rowdy'),
+    ('rowena'), ('rowing'), ('rowland'), ('rowley'), ('rowrow'), ('roxan'), ('roxana'), ('roxane'),
+    ('roxann'), ('roxanne'), ('roxbury'), ('roxette'), ('roxie'), ('roxy'), ('roxydog'), ('roxyroxy'),
+    ('royal'), ('royale'), ('royals'), ('royalty'), ('royboy'), ('royce'), ('roygbiv'), ('royhobbs'),
+    ('royjones'), ('roykeane'), ('royroy'), ('royston'), ('roza'), ('rreedd'), ('rrrr'), ('rrrrr'),
+    ('rrrrrr'), ('rrrrrrr'), ('rrrrrrrr'), ('rrrrrrrrr')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('rrrrrrrrrr'), ('rsalinas'), ('rstlne'), ('rsturbo'), ('rt6ytere'), ('rt934tt'), ('rtrt'), ('rtvthjdj'),
+    ('rtyfgh'), ('rtynfdh'), ('rtyuehe'), ('rtyui'), ('rtyuio'), ('rtyuiop'), ('ruan'), ('rubarb'),
+    ('rubber'), ('rubberdu'), ('rubberduck'), ('rubbers'), ('rubbing'), ('rubbish'), ('rubble'), ('rube'),
+    ('ruben'), ('rubens'), ('rubicon'), ('rubies'), ('rubikon'), ('rubin'), ('rubina'), ('rubleva'),
+    ('ruby'), ('rubydog'), ('rubyred'), ('rubyrose'), ('rubyruby'), ('rucker'), ('ruckus'), ('rudder'),
+    ('ruddy'), ('rude'), ('rudeboy'), ('rudedog'), ('rudenko'), ('rudi'), ('rudie'), ('rudiger'),
+    ('rudolf'), ('rudolph'), ('rudy'), ('rudyrudy'), ('rueben'), ('ruff'), ('ruffian'), ('ruffin'),
+    ('ruffles'), ('ruffneck'), ('ruffruff'), ('ruffryde'), ('ruffryders'), ('ruffus'), ('rufina'), ('rufino'),
+    ('rufus'), ('rufuss'), ('rugburn'), ('rugby'), ('rugbyman'), ('rugbys'), ('ruger'), ('ruger9mm'),
+    ('rugged'), ('rugger'), ('ruggiero'), ('ruggles'), ('rugrat'), ('rugrats'), ('ruiner'), ('ruiz'),
+    ('rul3z'), ('rule'), ('ruler'), ('rules'), ('rulesu'), ('rulesyou'), ('rulez'), ('rulezz'),
+    ('rulezzz'), ('rulz'), ('rumba'), ('rumble'), ('rumford'), ('rummy'), ('rumple'), ('rumpole'),
+    ('run4fun'), ('runamuck'), ('runaway'), ('rundll'), ('rundmc'), ('rune'), ('runescape'), ('runescape1'),
+    ('runescape123'), ('runfast'), ('runn'), ('runne'), ('runner'), ('runners'), ('runnin'), ('running'),
+    ('runo'), ('runoobe'), ('runrig'), ('runrun'), ('runs'), ('runt'), ('runvs'), ('runway'),
+    ('ruper'), ('rupert'), ('rurouni'), ('rururu'), ('rusalka'), ('rush'), ('rushan'), ('rusher'),
+    ('rushfan'), ('rushhour'), ('rushin'), ('rushing'), ('rushman'), ('rushmore'), ('rushrush'), ('ruskin'),
+    ('ruslan'), ('ruslan4ik'), ('ruslana'), ('rusrap'), ('russ'), ('russel'), ('russell'), ('russells'),
+    ('russi'), ('russia'), ('russian'), ('russians'), ('russland'), ('russo'), ('rust'), ('rustam'),
+    ('rustang'), ('rustem'), ('rustic'), ('rustie'), ('rustik'), ('rustin'), ('rustler'), ('rusty'),
+    ('rustyboy'), ('rustydog'), ('rustys'), ('rustyw'), ('rustyy'), ('rutabaga'), ('rutabega'), ('rutger'),
+    ('rutgers'), ('ruth'), ('ruthann'), ('rutherfo'), ('ruthie'), ('ruthless'), ('ruthruth'), ('rutland'),
+    ('rutledge'), ('rutter'), ('ruzanna'), ('rvdrvd'), ('rvgmw2gl'), ('rwuser'), ('rxmtkp'), ('ry65v3a'),
+    ('ryan'), ('ryanryan'), ('ryder'), ('ryebread'), ('ryjgjxrf'), ('ryjgrf'), ('rynner'), ('ryno'),
+    ('ryoohki'), ('ryryry'), ('ryslan'), ('ryuken'), ('rz93qpmq'), ('s0ccer'), ('s1107d'), ('s123456789'),
+    ('s123456s'), ('s1erra'), ('s1lver'), ('s1mple'), ('s3sav3d'), ('s4114d'), ('s456123789'), ('s4xnhsdn'),
+    ('s5r8ed67s'), ('s9te949f'), ('saab'), ('saab900s'), ('saabsaab'), ('saadmcfg'), ('saadmweb'), ('saavedra'),
+    ('saba'), ('sabado'), ('sabaka'), ('saban'), ('sabasaba'), ('sabbat'), ('sabbath'), ('sabber'),
+    ('sabbeth'), ('saber'), ('sabers'), ('sabian'), ('sabin'), ('sabina'), ('sabine'), ('sabirov'),
+    ('sable'), ('sabot'), ('sabotage'), ('sabra'), ('sabre'), ('sabres'), ('sabrin'), ('sabrina'),
+    ('sabrosa'), ('sacha'), ('sachas'), ('sachem'), ('sachiko'), ('sachin'), ('sack'), ('sacore'),
+    ('sacoremsg'), ('sacramen'), ('sacramento'), ('sacre'), ('sacred'), ('sacrific'), ('sacrifice'), ('sactown'),
+    ('sacura'), ('sada'), ('sadamaza'), ('sadattim'), ('saddam'), ('saddie'), ('saddle'), ('saddlers'),
+    ('saddles'), ('sade'), ('sadida'), ('sadie'), ('sadiedog'), ('sadiemae'), ('sadies'), ('sadist'),
+    ('sadler'), ('sadman'), ('sadness'), ('sadomaso'), ('sadsack'), ('sadsad'), ('sadsadsad'), ('sadvceid'),
+    ('safado'), ('safari'), ('safe'), ('safesex'), ('safet'), ('safety'), ('safeway'), ('saffrejo'),
+    ('saffron'), ('safina'), ('safrane'), ('safrcdlg'), ('safron'), ('safronova'), ('sagan'), ('sagapo'),
+    ('sagar'), ('sagara'), ('sage'), ('sager'), ('sagesse'), ('saginaw'), ('sagitari'), ('sagitario'),
+    ('sagitarius'), ('sagittarius'), ('sahalin'), ('sahar'), ('sahara'), ('sahelp'), ('sahil'), ('saibaba'),
+    ('saibot'), ('said'), ('saidin'), ('saigon'), ('sail'), ('sailaway'), ('sailboat'), ('sailer'),
+    ('sailfish'), ('sailing'), ('sailo'), ('sailon'), ('sailor'), ('sailormo'), ('sailormoon'), ('sailors'),
+    ('saimon'), ('saint'), ('sainte'), ('saintes'), ('saints'), ('saipan'), ('saira'), ('sairam'),
+    ('saisha'), ('saitek'), ('saiyajin'), ('saiyan'), ('sakana'), ('sakara'), ('saki'), ('sakic'),
+    ('sakina'), ('sakur'), ('sakura'), ('salaam'), ('salad'), ('saladin'), ('salah'), ('salam'),
+    ('salama'), ('salamanc'), ('salamand'), ('salamander'), ('salamandra'), ('salamat'), ('salami'), ('salamon'),
+    ('salary'), ('salas'), ('salasana'), ('salavat'), ('salazar'), ('sale'), ('saleem'), ('saleen'),
+    ('salem'), ('salerno'), ('sales'), ('salesman'), ('salford'), ('salgado'), ('salgar'), ('salguod'),
+    ('salida'), ('salim'), ('salima'), ('salina'), ('salinas'), ('saline'), ('salinger'), ('salisbur'),
+    ('saliva'), ('sallad'), ('sallas'), ('salle'), ('salli'), ('sallie'), ('sally'), ('sallyann'),
+    ('sallyb'), ('sallydog'), ('sallys'), ('salma'), ('salman'), ('salmankhan'), ('salmon'), ('salo'),
+    ('salocaluimsg'), ('salohcin'), ('salom'), ('salome'), ('salomo'), ('salomon'), ('salon'), ('saloon'),
+    ('salope'), ('salosalo'), ('salsa'), ('salsal'), ('salsas'), ('salsero'), ('salt'), ('salta'),
+    ('saltanat'), ('salter'), ('saltine'), ('saltlake'), ('saltwate'), ('saltwater'), ('salty'), ('saltydog'),
+    ('saluki'), ('salut'), ('salute'), ('salvado'), ('salvador'), ('salvage'), ('salvatio'), ('salvation'),
+    ('salvator'), ('salvatore'), ('salvia'), ('salvo'), ('salzburg'), ('sama'), ('samadams'), ('samadhi'),
+    ('samael'), ('saman'), ('samant'), ('samanta'), ('samanth'), ('samantha'), ('samapi'), ('samar'),
+    ('samara'), ('samarkand'), ('samat'), ('samatron'), ('samaya'), ('samba'), ('sambo'), ('sambora'),
+    ('samboy'), ('sambuca'), ('sambuka'), ('samcat'), ('samdog'), ('same'), ('sameas'), ('samedi'),
+    ('sameer'), ('samesame'), ('samfox'), ('samhain'), ('sami'), ('samia'), ('samiam'), ('samina'),
+    ('samir'), ('samira'), ('samjack'), ('samm'), ('samman'), ('sammas'), ('sammi'), ('sammie'),
+    ('sammilly'), ('sammmy'), ('sammons'), ('sammy'), ('sammyb'), ('sammyboy'), ('sammycat'), ('sammyd'),
+    ('sammydog'), ('sammyg'), ('sammyjo'), ('sammyp'), ('sammys'), ('sammysam'), ('sammysos'), ('sammyy'),
+    ('samo'), ('samoa'), ('samogon'), ('samoht')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('samolet'), ('samone'), ('samoth'), ('samoyed'), ('sampdoria'), ('sample'), ('samples'), ('sampras'),
+    ('sampson'), ('sams'), ('samsa'), ('samsam'), ('samsara'), ('samso'), ('samson'), ('samstag'),
+    ('samsun'), ('samsung'), ('samsung123'), ('samsungs5230'), ('samtheman'), ('samtron'), ('samual'), ('samue'),
+    ('samuel'), ('samuele'), ('samura'), ('samurai'), ('samuraix'), ('samuri'), ('samusara'), ('samvel'),
+    ('samwise'), ('samy'), ('sana'), ('sanan'), ('sanandreas'), ('sanane'), ('sananton'), ('sanborn'),
+    ('sanche'), ('sanches'), ('sanchez'), ('sanchin'), ('sancho'), ('sanction'), ('sanctuar'), ('sanctuary'),
+    ('sand'), ('sanda'), ('sandal'), ('sandals'), ('sandan'), ('sandbag'), ('sandberg'), ('sandbox'),
+    ('sandburg'), ('sande'), ('sandee'), ('sandeep'), ('sander'), ('sanders'), ('sanderso'), ('sanderson'),
+    ('sandhill'), ('sandhya'), ('sandi'), ('sandia'), ('sandie'), ('sandieg'), ('sandiego'), ('sandies'),
+    ('sandler'), ('sandlot'), ('sandma'), ('sandman'), ('sandmann'), ('sandokan'), ('sandor'), ('sandoval'),
+    ('sandown'), ('sandpipe'), ('sandr'), ('sandra'), ('sandrin'), ('sandrine'), ('sandrita'), ('sandro'),
+    ('sandrock'), ('sands'), ('sandusky'), ('sandwich'), ('sandy'), ('sandydog'), ('sandys'), ('sane4ek'),
+    ('sanek'), ('sanford'), ('sanfran'), ('sanfrancisco'), ('sang'), ('sangeeta'), ('sanger'), ('sangoku'),
+    ('sangria'), ('sanguine'), ('sanibel'), ('sanity'), ('sanja'), ('sanjana'), ('sanjar'), ('sanjay'),
+    ('sanjeev'), ('sanjos'), ('sanjose'), ('sanjuan'), ('sankofa'), ('sanman'), ('sanmarco'), ('sanna'),
+    ('sanne'), ('sanpedro'), ('sanremo'), ('sanrio'), ('sansan'), ('sanskrit'), ('sanson'), ('sansoo'),
+    ('santa'), ('santac'), ('santacla'), ('santaclaus'), ('santacru'), ('santacruz'), ('santafe'), ('santaklaus'),
+    ('santamaria'), ('santan'), ('santana'), ('santande'), ('santander'), ('santaros'), ('santas'), ('santer'),
+    ('santeria'), ('santhosh'), ('santi'), ('santiag'), ('santiago'), ('santini'), ('santino'), ('santo'),
+    ('santorin'), ('santorini'), ('santos'), ('santosh'), ('santro'), ('santtu'), ('sanya'), ('sanyco'),
+    ('sanyo'), ('sanyok'), ('saoirse'), ('saopaulo'), ('sapato'), ('sapfir'), ('saphir'), ('saphira'),
+    ('saphire'), ('sapiens'), ('sapito'), ('sapo'), ('sapper'), ('sapphic'), ('sapphir'), ('sapphira'),
+    ('sapphire'), ('sappho'), ('sapporo'), ('sapsap'), ('saqartvelo'), ('sara'), ('saraann'), ('saracen'),
+    ('sarada'), ('sarah'), ('saraha'), ('sarahann'), ('sarahb'), ('sarahc'), ('sarahd'), ('sarahh'),
+    ('sarahj'), ('sarahjan'), ('sarahjane'), ('sarahm'), ('sarahr'), ('sarahs'), ('saraht'), ('sarahw'),
+    ('sarajane'), ('sarajevo'), ('sarakawa'), ('saralee'), ('saran'), ('sarang'), ('saransk'), ('sarasara'),
+    ('sarasota'), ('saratoga'), ('saratov'), ('saravana'), ('sarcasm'), ('sardar'), ('sardegna'), ('sardor'),
+    ('sarenna'), ('saretta'), ('sarge'), ('sargeant'), ('sargent'), ('sargon'), ('sargsyan'), ('sari'),
+    ('sarina'), ('sarit'), ('sarita'), ('sarkis'), ('sarmat'), ('sarolta'), ('sartre'), ('saruman'),
+    ('sarvar'), ('sasa'), ('sasa123321'), ('sasafras'), ('sasaki'), ('sasami'), ('sasas'), ('sasasa'),
+    ('sasasasa'), ('sasasasasa'), ('sasch'), ('sascha'), ('sash'), ('sasha'), ('sasha12345'), ('sashaa'),
+    ('sashadog'), ('sashas'), ('sashasasha'), ('sashay'), ('sashenka'), ('sashimi'), ('sashka'), ('sashok'),
+    ('sasitare'), ('saskatoo'), ('saskia'), ('saspurs'), ('sasquatc'), ('sasquatch'), ('sass'), ('sassas'),
+    ('sassey'), ('sassie'), ('sassy'), ('sassycat'), ('sassydog'), ('sassys'), ('sasuk'), ('sasuke'),
+    ('satan'), ('satana'), ('satanas'), ('satanic'), ('sataniv1993'), ('satans'), ('satch'), ('satchel'),
+    ('satchmo'), ('satcom'), ('satelite'), ('satellit'), ('satellite'), ('sathya'), ('satin'), ('satine'),
+    ('satire'), ('satisfaction'), ('satisfy'), ('satish'), ('sativa'), ('satnam'), ('sato'), ('satori'),
+    ('satoshi'), ('satriani'), ('satsuma'), ('satur'), ('saturday'), ('saturn'), ('saturne'), ('saturnin'),
+    ('saturno'), ('saturnsl'), ('satyam'), ('satyr'), ('sauber'), ('sauce'), ('saucer'), ('sauces'),
+    ('saucony'), ('saudade'), ('saudan'), ('saudi'), ('saufen'), ('saul'), ('saule'), ('saun'),
+    ('saun24865709'), ('saunders'), ('sauron'), ('saurus'), ('sausage'), ('sausages'), ('saute'), ('savag'),
+    ('savage'), ('savages'), ('savana'), ('savanah'), ('savanna'), ('savannah'), ('savant'), ('savatage'),
+    ('savchenko'), ('save'), ('save13tx'), ('saved'), ('saveliy'), ('saveme'), ('saverio'), ('savin'),
+    ('savina'), ('saving'), ('savings'), ('saviola'), ('savior'), ('saviour'), ('savita'), ('savoie'),
+    ('savoy'), ('sawadee'), ('sawasawa'), ('sawblade'), ('sawdust'), ('sawmill'), ('sawsaw'), ('sawtooth'),
+    ('sawyer'), ('saxet'), ('saxman'), ('saxo'), ('saxon'), ('saxons'), ('saxophon'), ('saxophone'),
+    ('sayaka'), ('sayan'), ('sayana'), ('sayang'), ('sayangku'), ('sayonara'), ('saysay'), ('sayuri'),
+    ('saywhat'), ('sazd'), ('sazonov'), ('sb211st'), ('sbcgloba'), ('sc00by'), ('sc00ter'), ('sc0tland'),
+    ('scabby'), ('scaffold'), ('scale'), ('scales'), ('scalia'), ('scally'), ('scalp'), ('scalpel'),
+    ('scam'), ('scammell'), ('scammer'), ('scamp'), ('scamper'), ('scampi'), ('scampy'), ('scan'),
+    ('scandal'), ('scandinavian'), ('scania'), ('scanjet'), ('scanman'), ('scanner'), ('scanners'), ('scape'),
+    ('scapegl'), ('scar'), ('scarab'), ('scare'), ('scarecro'), ('scarecrow'), ('scared'), ('scarf'),
+    ('scarfac'), ('scarface'), ('scarlet'), ('scarlets'), ('scarlett'), ('scarpa'), ('scarred'), ('scary'),
+    ('scat'), ('scatman'), ('scatter'), ('scavenger'), ('scene'), ('scenery'), ('scenic'), ('sceptre'),
+    ('schaap'), ('schach'), ('schaefer'), ('schafer'), ('schalk'), ('schalke'), ('schastie'), ('schatje'),
+    ('schatz'), ('schatzi'), ('schecter'), ('schedule'), ('scheiss'), ('scheisse'), ('scheme'), ('schenker'),
+    ('schick'), ('schiffer'), ('schilder'), ('schiller'), ('schillin'), ('schism'), ('schlampe'), ('schlange'),
+    ('schlepp'), ('schlitz'), ('schlong'), ('schloss'), ('schlumpf'), ('schmid'), ('schmidt'), ('schmidty'),
+    ('schmitt'), ('schmoe'), ('schmoo'), ('schmuck'), ('schnapps'), ('schnecke'), ('schnee'), ('schneide'),
+    ('schneider'), ('schnell'), ('schnitze'), ('schnitzel'), ('schnucki'), ('schnuff'), ('schnuffe'), ('schnuffi'),
+    ('schnulli'), ('schoen'), ('schokk'), ('scholar'), ('scholes'), ('schoo'), ('school'), ('schoolgirlie'),
+    ('schools'), ('schooner'), ('schorsch'), ('schott'), ('schreibe'), ('schroede'), ('schroeder'), ('schubert'),
+    ('schuey'), ('schule'), ('schultz'), ('schulz')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('schulze'), ('schumach'), ('schumacher'), ('schumann'), ('schumi'), ('schuster'), ('schuyler'), ('schwab'),
+    ('schwag'), ('schwanz'), ('schwartz'), ('schwarz'), ('schweden'), ('schwein'), ('schweiz'), ('schwing'),
+    ('schwinn'), ('science'), ('scimitar'), ('scipio'), ('scirocco'), ('scissor'), ('scissors'), ('scitex'),
+    ('sclgntfy'), ('scofield'), ('scoob'), ('scooba'), ('scoobie'), ('scoobnot'), ('scooby'), ('scoobydo'),
+    ('scoobydoo'), ('scoop'), ('scooper'), ('scoops'), ('scoopy'), ('scoot'), ('scoote'), ('scooter'),
+    ('scooterb'), ('scooters'), ('scoots'), ('scope'), ('scops'), ('scorch'), ('scorcher'), ('score'),
+    ('scorelan'), ('scoreland'), ('scoremag'), ('scorer'), ('scores'), ('scorp'), ('scorpi'), ('scorpian'),
+    ('scorpio'), ('scorpion'), ('scorpions'), ('scorpius'), ('scorsese'), ('scot'), ('scotch'), ('scotia'),
+    ('scotlan'), ('scotland'), ('scotsman'), ('scott'), ('scott5r'), ('scottb'), ('scottd'), ('scotte'),
+    ('scotter'), ('scottg'), ('scotti'), ('scottie'), ('scottish'), ('scottm'), ('scotto'), ('scotts'),
+    ('scottsda'), ('scottt'), ('scotty'), ('scoubidou'), ('scoubidou2'), ('scoubidou6'), ('scouse'), ('scouser'),
+    ('scout'), ('scoutdog'), ('scouter'), ('scouting'), ('scouts'), ('scoutsou'), ('scrabble'), ('scram'),
+    ('scramble'), ('scranton'), ('scrap'), ('scrape'), ('scrapland'), ('scrapp'), ('scrapper'), ('scrapple'),
+    ('scrappy'), ('scraps'), ('scrapy'), ('scratch'), ('scratchman'), ('scratchy'), ('scream'), ('screamer'),
+    ('screamin'), ('scredir'), ('screech'), ('screen'), ('screw'), ('screwbal'), ('screwball'), ('screwed'),
+    ('screwme'), ('screws'), ('screwu'), ('screwy'), ('screwyou'), ('scribble'), ('scribe'), ('script'),
+    ('scripto'), ('scripts'), ('scroll'), ('scrooge'), ('scrotum'), ('scrub'), ('scrubber'), ('scrubs'),
+    ('scruff'), ('scruffy'), ('scrump'), ('scrumpy'), ('scsi'), ('scuba'), ('scubad'), ('scubadiv'),
+    ('scubadiver'), ('scubaman'), ('scubapro'), ('scubas'), ('scudder'), ('scuderia'), ('scull'), ('scully'),
+    ('sculpt'), ('scum'), ('scumbag'), ('scumdog'), ('scurlock'), ('scurvy'), ('scuttle'), ('scxakv'),
+    ('scylla'), ('scythe'), ('sd3lpgdr'), ('sd90mac'), ('sdbaker'), ('sdfg'), ('sdfghj'), ('sdfghjkl'),
+    ('sdfsd'), ('sdfsdf'), ('sdfsdfsd'), ('sdfsdfsdf'), ('sdh686drth'), ('sdicmt7seytn'), ('sdpass'), ('sdsd'),
+    ('sdsdsd'), ('sdsdsdsd'), ('sdswgh'), ('seabass'), ('seabee'), ('seabird'), ('seabrook'), ('seacrest'),
+    ('seadog'), ('seadoo'), ('seafood'), ('seafox'), ('seagate'), ('seagrams'), ('seagrave'), ('seagull'),
+    ('seagulls'), ('seahawk'), ('seahawks'), ('seahorse'), ('seaking'), ('seal'), ('sealed'), ('sealion'),
+    ('seals'), ('sealteam'), ('seaman'), ('seamaste'), ('seamless'), ('seamus'), ('sean'), ('seanjohn'),
+    ('seansean'), ('seaquest'), ('searay'), ('search'), ('searcher'), ('searchin'), ('searching'), ('searock'),
+    ('sears'), ('seasea'), ('seashell'), ('seashore'), ('seasick'), ('seaside'), ('season'), ('seasons'),
+    ('seat'), ('seatleon'), ('seaton'), ('seattle'), ('seaver'), ('seaview'), ('seaways'), ('seaweed'),
+    ('seawolf'), ('seaworld'), ('sebas'), ('sebast'), ('sebastia'), ('sebastian'), ('sebastian1'), ('sebastie'),
+    ('sebastien'), ('sebora'), ('sebring'), ('secbasic'), ('second'), ('seconds'), ('secre'), ('secret'),
+    ('secreta'), ('secretar'), ('secreto'), ('secrets'), ('section'), ('sector'), ('secure'), ('secured'),
+    ('securit'), ('security'), ('sedge'), ('sedona'), ('seducer'), ('seductive'), ('seeall'), ('seed'),
+    ('seedless'), ('seeds'), ('seeing'), ('seeitnow'), ('seek'), ('seeker'), ('seeking'), ('seekup'),
+    ('seeley'), ('seemann'), ('seeme'), ('seemee'), ('seemnemaailm'), ('seemore'), ('seen'), ('seenow'),
+    ('seesaw'), ('seether'), ('seeya'), ('seeyou'), ('sega'), ('segasega'), ('segeln'), ('segovia'),
+    ('segredo'), ('segreto'), ('segundo'), ('sehnsucht'), ('seifer'), ('seiko'), ('seinfeld'), ('seismic'),
+    ('seitnap'), ('sekirarr'), ('sekret'), ('sektor'), ('sektorgaza'), ('selacome'), ('selanne'), ('selassie'),
+    ('seldom'), ('seldon'), ('select'), ('selecta'), ('selector'), ('seledka'), ('selen'), ('selena'),
+    ('selene'), ('selfish'), ('selfmade'), ('selfok2013'), ('selhurst'), ('seliger'), ('selin'), ('selina'),
+    ('sell'), ('seller'), ('sellers'), ('selling'), ('sellit'), ('sellout'), ('selma'), ('selmer'),
+    ('selrahc'), ('seltzer'), ('selur'), ('selwyn'), ('semaj'), ('semarti'), ('semen'), ('semenov'),
+    ('semenova'), ('seminar'), ('seminole'), ('seminoles'), ('semmel'), ('sempai'), ('semper'), ('semperf'),
+    ('semperfi'), ('sempre'), ('semprini'), ('sempron'), ('semsem'), ('semtex'), ('senate'), ('senator'),
+    ('senators'), ('send'), ('sender'), ('sending'), ('seneca'), ('senegal'), ('seng'), ('senha'),
+    ('senhas'), ('senior'), ('seniors'), ('seniseviyor'), ('senna'), ('senor'), ('senorita'), ('sensatio'),
+    ('sensation'), ('sense'), ('sensei'), ('senses'), ('sensible'), ('sensitiv'), ('sensor'), ('sensual'),
+    ('senthil'), ('sentinal'), ('sentinel'), ('sentra'), ('sentry'), ('seo21saafd23'), ('seoul'), ('sephan'),
+    ('sephirot'), ('sephiroth'), ('sepia'), ('seppel'), ('sept'), ('septembe'), ('september'), ('septembr'),
+    ('septic'), ('septiembr'), ('septimus'), ('sepultur'), ('sepultura'), ('sequel'), ('sequence'), ('sequoia'),
+    ('serafim'), ('serafima'), ('serafin'), ('serafina'), ('seraph'), ('seraphim'), ('serbia'), ('serbian'),
+    ('serda'), ('serdar'), ('serdce'), ('serebro'), ('sereda'), ('sereg'), ('serega'), ('sereja'),
+    ('seren'), ('serena'), ('serenada'), ('serenade'), ('serendip'), ('serendipity'), ('serene'), ('serenit'),
+    ('serenity'), ('serezha'), ('serg'), ('serg123111'), ('sergant'), ('sergbest'), ('serge'), ('sergeant'),
+    ('sergeev'), ('sergeeva'), ('sergeevich'), ('sergeevna'), ('sergei'), ('sergej'), ('sergey'), ('sergey2010'),
+    ('serggalant'), ('sergi'), ('sergik'), ('sergio'), ('sergiu'), ('sergius'), ('sergiy'), ('sergserg'),
+    ('sergun'), ('serha'), ('serial'), ('series'), ('serik'), ('serina'), ('serious'), ('serjik'),
+    ('serkan'), ('seroga'), ('serotta'), ('serova'), ('serpent'), ('serpico'), ('serra'), ('serrano'),
+    ('serres'), ('serser'), ('serseri'), ('sersolution'), ('serswet'), ('serum'), ('serval'), ('servant'),
+    ('serve'), ('server'), ('servette'), ('servic'), ('service'), ('service321'), ('services'), ('servis'),
+    ('servo'), ('servus'), ('sesam'), ('sesame'), ('sesamo'), ('sesese'), ('session'), ('sessions'),
+    ('sesso'), ('sestra'), ('seth'), ('sethanon'), ('setset'), ('setter'), ('setting'), ('settings'),
+    ('settle'), ('settlers'), ('setup'), ('sevastopol')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('seve'), ('seven'), ('sevendus'), ('sevendust'), ('sevenn'), ('sevens'), ('seventee'), ('seventeen'),
+    ('seventh'), ('seventy'), ('sevenup'), ('sever'), ('several'), ('severe'), ('severian'), ('severin'),
+    ('severine'), ('severn'), ('severo'), ('severus'), ('sevilla'), ('seville'), ('sevinc'), ('sevisgur'),
+    ('seviyi'), ('sewanee'), ('seward'), ('sewell'), ('sewers'), ('sewing'), ('sex4ever'), ('sex4free'),
+    ('sex4fun'), ('sex4me'), ('sexaddict'), ('sexbomb'), ('sexboy'), ('sexdog'), ('sexdrive'), ('sexe'),
+    ('sexesexe'), ('sexfiend'), ('sexforme'), ('sexfreak'), ('sexfun'), ('sexgirl'), ('sexgod'), ('sexi'),
+    ('sexiest'), ('sexiness'), ('sexisfun'), ('sexisgood'), ('sexking'), ('sexkitte'), ('sexkitten'), ('sexlife'),
+    ('sexlover'), ('sexmachi'), ('sexmachine'), ('sexmad'), ('sexman'), ('sexmania'), ('sexme'), ('sexmeup'),
+    ('sexnow'), ('sexo'), ('sexosexo'), ('sexpics'), ('sexpistols'), ('sexpot'), ('sexrocks'), ('sexs'),
+    ('sexse'), ('sexsells'), ('sexsex'), ('sexsexse'), ('sexsexsex'), ('sexsite'), ('sexsites'), ('sexslave'),
+    ('sexstuff'), ('sextime'), ('sexton'), ('sextoy'), ('sexual'), ('sexwax'), ('sexx'), ('sexxes'),
+    ('sexxx'), ('sexxxx'), ('sexxxxxx'), ('sexxxy'), ('sexxy'), ('sexxybj'), ('sexy'), ('sexy4me'),
+    ('sexyass'), ('sexybab'), ('sexybabe'), ('sexybaby'), ('sexybeas'), ('sexybeast'), ('sexybitc'), ('sexybitch'),
+    ('sexybo'), ('sexybody'), ('sexyboy'), ('sexyboys'), ('sexybutt'), ('sexycat'), ('sexyfeet'), ('sexygir'),
+    ('sexygirl'), ('sexygirls'), ('sexygurl'), ('sexyguy'), ('sexylady'), ('sexylegs'), ('sexylove'), ('sexym'),
+    ('sexyma'), ('sexymama'), ('sexyman'), ('sexyme'), ('sexymf'), ('sexyone'), ('sexypass'), ('sexyred'),
+    ('sexyrexy'), ('sexysara'), ('sexysex'), ('sexysexy'), ('sexyslut'), ('sexystud'), ('sexytime'), ('sexywife'),
+    ('seyila'), ('seymore'), ('seymour'), ('seymur'), ('sf161pn'), ('sf49ers'), ('sfgiants'), ('sfgsfg'),
+    ('sfhj5484fgh'), ('sgegukbm'), ('sh1thead'), ('sh4d0w3d'), ('shaban'), ('shabazz'), ('shabba'), ('shabby'),
+    ('shabnam'), ('shack'), ('shad'), ('shad0w'), ('shaddy'), ('shade'), ('shader'), ('shades'),
+    ('shadey'), ('shado'), ('shadoe'), ('shadow'), ('shadow1212'), ('shadowfa'), ('shadowfax'), ('shadowma'),
+    ('shadowman'), ('shadowru'), ('shadowrun'), ('shadows'), ('shadrach'), ('shadrack'), ('shadwell'), ('shady'),
+    ('shae'), ('shafer'), ('shaffer'), ('shaft'), ('shafted'), ('shafter'), ('shafty'), ('shag'),
+    ('shagadel'), ('shagg'), ('shagger'), ('shaggy'), ('shagme'), ('shagwell'), ('shah'), ('shaheen'),
+    ('shahid'), ('shahin'), ('shahrukh'), ('shai'), ('shaikh'), ('shaila'), ('shaina'), ('shaitan'),
+    ('shaka'), ('shakal'), ('shakazul'), ('shake'), ('shakeel'), ('shakeela'), ('shakeit'), ('shaken'),
+    ('shaker'), ('shakers'), ('shakes'), ('shakespe'), ('shakespeare'), ('shakey'), ('shakir'), ('shakira'),
+    ('shakti'), ('shakur'), ('shaky'), ('shale'), ('shalimar'), ('shalini'), ('shallow'), ('shalo'),
+    ('shalom'), ('sham'), ('shama'), ('shamal'), ('shaman'), ('shamanking'), ('shambala'), ('shambles'),
+    ('shame'), ('shameles'), ('shameless'), ('shamen'), ('shami'), ('shamil'), ('shammy'), ('shampoo'),
+    ('shamroc'), ('shamrock'), ('shamu'), ('shamus'), ('shan'), ('shana'), ('shanae'), ('shanahan'),
+    ('shanda'), ('shandi'), ('shandor'), ('shandy'), ('shane'), ('shanee'), ('shanel'), ('shanelle'),
+    ('shaner'), ('shanes'), ('shaney'), ('shang'), ('shanghai'), ('shango'), ('shani'), ('shania'),
+    ('shanic'), ('shanice'), ('shank'), ('shankar'), ('shanker'), ('shankly'), ('shanks'), ('shann'),
+    ('shanna'), ('shannan'), ('shannara'), ('shanno'), ('shannon'), ('shanny'), ('shanon'), ('shant'),
+    ('shanta'), ('shante'), ('shantel'), ('shantell'), ('shanti'), ('shanty'), ('shao'), ('shaoli'),
+    ('shaolin'), ('shape'), ('shapes'), ('shapiro'), ('shaq'), ('shaqfu'), ('shaquill'), ('shar'),
+    ('shara'), ('sharan'), ('shards'), ('share'), ('shareef'), ('shares'), ('shari'), ('sharif'),
+    ('sharik'), ('sharing'), ('sharinga'), ('sharingan'), ('sharipov'), ('shark'), ('sharkbit'), ('sharkboy'),
+    ('sharkey'), ('sharkie'), ('sharkman'), ('sharks'), ('sharky'), ('sharla'), ('sharlene'), ('sharm'),
+    ('sharma'), ('sharmila'), ('sharo'), ('sharon'), ('sharona'), ('sharp'), ('sharpe'), ('sharpei'),
+    ('sharper'), ('sharpie'), ('sharps'), ('sharpy'), ('sharra'), ('sharron'), ('sharyn'), ('shash'),
+    ('shasha'), ('shashank'), ('shashi'), ('shasta'), ('shatner'), ('shatter'), ('shaun'), ('shauna'),
+    ('shaunc'), ('shauns'), ('shave'), ('shaved'), ('shaven'), ('shaver'), ('shavkat'), ('shavon'),
+    ('shaw'), ('shawarma'), ('shawn'), ('shawna'), ('shawnd'), ('shawnee'), ('shawns'), ('shawshan'),
+    ('shawty'), ('shay'), ('shayla'), ('shayna'), ('shayne'), ('shayshay'), ('shaz'), ('shazaam'),
+    ('shazam'), ('shazbot'), ('shazia'), ('shazza'), ('shazzam'), ('shdwlnds'), ('shea'), ('shear'),
+    ('shearer'), ('sheba'), ('shebadog'), ('shebas'), ('shecky'), ('shed'), ('shedevil'), ('sheeba'),
+    ('sheehan'), ('sheela'), ('sheen'), ('sheena'), ('sheep'), ('sheepdog'), ('sheeps'), ('sheer'),
+    ('sheet'), ('sheetal'), ('sheets'), ('sheetz'), ('sheffiel'), ('sheffield'), ('sheffwed'), ('shei'),
+    ('sheikh'), ('sheil'), ('sheila'), ('shekinah'), ('shel'), ('shelb'), ('shelbi'), ('shelbie'),
+    ('shelby'), ('shelbygt'), ('sheldon'), ('shelia'), ('shell'), ('shellac'), ('shelle'), ('shelley'),
+    ('shellfis'), ('shelli'), ('shellie'), ('shells'), ('shelly'), ('shelter'), ('sheltie'), ('shelton'),
+    ('shemale'), ('shemales'), ('shemp'), ('shen'), ('sheng'), ('shenlong'), ('shenmue'), ('shep'),
+    ('shepard'), ('shepherd'), ('sheppard'), ('sheppy'), ('sher'), ('sheraton'), ('sherbert'), ('sheree'),
+    ('shergar'), ('sheri'), ('sheridan'), ('sherif'), ('sheriff'), ('sherin'), ('sherlock'), ('sherm'),
+    ('sherma'), ('sherman'), ('sherpa'), ('sherr'), ('sherri'), ('sherrie'), ('sherry'), ('sherwin'),
+    ('sherwood'), ('sheryl'), ('sherzod'), ('sheshe'), ('shetland'), ('shevchenko'), ('shhh'), ('shianne'),
+    ('shiatsu'), ('shibainu'), ('shibby'), ('shibumi'), ('shibuya'), ('shiela'), ('shield'), ('shields'),
+    ('shift'), ('shifter'), ('shifty'), ('shihan'), ('shikamaru'), ('shikha'), ('shilling'), ('shilo'),
+    ('shiloh'), ('shilpa'), ('shimano'), ('shimmer'), ('shimmy'), ('shimsham'), ('shin'), ('shinchan'),
+    ('shine'), ('shinebox'), ('shineon'), ('shiner'), ('shines'), ('shiney'), ('shingle'), ('shingo'),
+    ('shinichi'), ('shinigam'), ('shinigami'), ('shining')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('shinji'), ('shinjuku'), ('shinning'), ('shinobi'), ('shinobu'), ('shinta'), ('shinto'), ('shiny'),
+    ('ship'), ('shipley'), ('shipman'), ('shipmate'), ('shipper'), ('shipping'), ('shippo'), ('shippuden'),
+    ('ships'), ('shipyard'), ('shirak'), ('shiraz'), ('shire'), ('shires'), ('shirin'), ('shirl'),
+    ('shirle'), ('shirley'), ('shirow'), ('shirt'), ('shirts'), ('shisha'), ('shishi'), ('shit'),
+    ('shitass'), ('shitbag'), ('shitball'), ('shitbird'), ('shitbox'), ('shitbrick'), ('shitface'), ('shitfire'),
+    ('shitfuck'), ('shithapp'), ('shithappens'), ('shithea'), ('shithead'), ('shithole'), ('shitman'), ('shits'),
+    ('shitshit'), ('shitt'), ('shitter'), ('shittt'), ('shitty'), ('shiva'), ('shivam'), ('shivan'),
+    ('shivani'), ('shiver'), ('shivers'), ('shiznit'), ('shizuka'), ('shizzle'), ('shkiper'), ('shkoda'),
+    ('shkola'), ('shlomo'), ('shlong'), ('shmily'), ('shmoo'), ('shmuck'), ('shoal'), ('shock'),
+    ('shocker'), ('shockers'), ('shockey'), ('shocking'), ('shocks'), ('shockwav'), ('shockwave'), ('shodan'),
+    ('shoe'), ('shoebox'), ('shoehorn'), ('shoelace'), ('shoeless'), ('shoeman'), ('shoes'), ('shogun'),
+    ('shojou'), ('shokolad'), ('shone'), ('shonuf'), ('shonuff'), ('shooby'), ('shoot'), ('shooter'),
+    ('shooters'), ('shooting'), ('shootist'), ('shootme'), ('shoots'), ('shop'), ('shopmenu'), ('shopper'),
+    ('shoppin'), ('shopping'), ('shore'), ('shorelin'), ('shores'), ('shorin'), ('shorinji'), ('short'),
+    ('shortcake'), ('shortcut'), ('shortdog'), ('shorter'), ('shortie'), ('shortman'), ('shorts'), ('shortsto'),
+    ('shorty'), ('shortys'), ('shoshana'), ('shoshone'), ('shot'), ('shotgu'), ('shotgun'), ('shotgunn'),
+    ('shotguns'), ('shotokan'), ('shotput'), ('shots'), ('shotta'), ('shou'), ('shouby'), ('shoulder'),
+    ('shout'), ('shovel'), ('show'), ('showbiz'), ('showboat'), ('showcase'), ('showdown'), ('shower'),
+    ('showers'), ('showgirl'), ('showing'), ('showit'), ('showme'), ('showmethemoney'), ('showoff'), ('showtime'),
+    ('shrdlu'), ('shred'), ('shredder'), ('shrek'), ('shrestha'), ('shrike'), ('shrimp'), ('shrine'),
+    ('shrink'), ('shriram'), ('shroom'), ('shrooms'), ('shrugged'), ('shsvcs'), ('shua'), ('shuai'),
+    ('shuan'), ('shuang'), ('shuffle'), ('shuhrat'), ('shui'), ('shulman'), ('shultz'), ('shumaher'),
+    ('shumway'), ('shun'), ('shuo'), ('shura'), ('shurik'), ('shuriken'), ('shushu'), ('shut'),
+    ('shutdown'), ('shutout'), ('shutter'), ('shuttle'), ('shutup'), ('shweta'), ('shwing'), ('shyanne'),
+    ('shyboy'), ('shyguy'), ('shylock'), ('shyone'), ('shyshy'), ('shyster'), ('si711ne'), ('siamese'),
+    ('sian'), ('sibelius'), ('siberia'), ('siberian'), ('sibley'), ('siccmade'), ('sicher'), ('sicilia'),
+    ('sicilian'), ('sicily'), ('sick'), ('sickan'), ('sickboy'), ('sickfuck'), ('sickle'), ('sickness'),
+    ('sicnarf'), ('siddartha'), ('siddhart'), ('siddis'), ('side'), ('sideburn'), ('sidekick'), ('sideout'),
+    ('sider'), ('sideshow'), ('sidewalk'), ('sideways'), ('sidewind'), ('sidewinder'), ('siding'), ('sidney'),
+    ('sidonie'), ('sidorov'), ('sidorova'), ('sieben'), ('siege'), ('siegel'), ('siegfrie'), ('siegheil'),
+    ('siegi'), ('siemen'), ('siemens'), ('siempre'), ('siena'), ('sienna'), ('sierr'), ('sierra'),
+    ('siesta'), ('siffredi'), ('sigchi'), ('sigep'), ('sight'), ('sigma'), ('sigmachi'), ('sigmanu'),
+    ('sigmapi'), ('sigmar'), ('sigmas'), ('sigmund'), ('sign'), ('signal'), ('signals'), ('signatur'),
+    ('signature'), ('signed'), ('signin'), ('signon'), ('signs'), ('signup'), ('sigrid'), ('sigsauer'),
+    ('sigtau'), ('sigurd'), ('sikici'), ('sikorsky'), ('silage'), ('silas'), ('silence'), ('silencer'),
+    ('silencio'), ('silent'), ('silentbo'), ('silenthill'), ('silentium'), ('silica'), ('silicon'), ('silicone'),
+    ('silikon'), ('silk'), ('silkcut'), ('silke'), ('silkeborg'), ('silkie'), ('silkman'), ('silkroad'),
+    ('silky'), ('silly'), ('sillybil'), ('sillyboy'), ('sillyman'), ('sillyme'), ('silmaril'), ('silmarillion'),
+    ('silva'), ('silvan'), ('silvana'), ('silvano'), ('silve'), ('silveira'), ('silver'), ('silverad'),
+    ('silverado'), ('silverbe'), ('silverbi'), ('silverch'), ('silverdo'), ('silverfi'), ('silverfo'), ('silverfox'),
+    ('silvergo'), ('silverha'), ('silveria'), ('silverki'), ('silverma'), ('silvermo'), ('silvermoon'), ('silvers'),
+    ('silversi'), ('silverst'), ('silverstar'), ('silverstone'), ('silvestr'), ('silvi'), ('silvia'), ('silvio'),
+    ('sima'), ('simba'), ('simbaa'), ('simbacat'), ('simbad'), ('simbadog'), ('simbas'), ('simcha'),
+    ('simcity'), ('simens'), ('simeon'), ('simferopol'), ('simhrq'), ('simian'), ('simmer'), ('simmons'),
+    ('simms'), ('simo'), ('simon'), ('simona'), ('simonb'), ('simoncat'), ('simone'), ('simonn'),
+    ('simonov'), ('simonova'), ('simonp'), ('simons'), ('simonsay'), ('simonsays'), ('simpl'), ('simple'),
+    ('simpleplan'), ('simples'), ('simplex'), ('simply'), ('simpso'), ('simpson'), ('simpsons'), ('simran'),
+    ('sims'), ('simsim'), ('simson'), ('simulator'), ('sina'), ('sinaloa'), ('sinatra'), ('sinbad'),
+    ('since'), ('sincere'), ('sincity'), ('sinclair'), ('sindhu'), ('sindy'), ('sinead'), ('sinfonia'),
+    ('sinful'), ('sing'), ('singapor'), ('singapore'), ('singapur'), ('singe'), ('singer'), ('singers'),
+    ('singh'), ('singing'), ('singl'), ('single'), ('singles'), ('singsing'), ('singular'), ('sinilill'),
+    ('sinister'), ('sinjin'), ('sink'), ('sinker'), ('sinne'), ('sinned'), ('sinner'), ('sinnet'),
+    ('sinnfein'), ('sinsin'), ('sintra'), ('sinus'), ('siobhan'), ('sioux'), ('siouxsie'), ('siren'),
+    ('sirena'), ('sirene'), ('sirens'), ('sirius'), ('sirocco'), ('sirrom'), ('sisi'), ('sisisi'),
+    ('siskin'), ('sisko'), ('sissi'), ('sissie'), ('sissinit'), ('sisson'), ('sissy'), ('sissyboy'),
+    ('siste'), ('sistem'), ('sistema'), ('sister'), ('sisters'), ('sisyphus'), ('site'), ('sitepass'),
+    ('sites'), ('sitges'), ('sith'), ('sithlord'), ('sito'), ('sitoweb'), ('sitruc'), ('sitt'),
+    ('sitter'), ('sitting'), ('situs'), ('siva'), ('sivart'), ('sixers'), ('sixflags'), ('sixgun'),
+    ('sixkids'), ('sixnine'), ('sixpac'), ('sixpack'), ('sixpak'), ('sixpence'), ('sixsix'), ('sixsixsix'),
+    ('sixstrin'), ('sixteen'), ('sixty'), ('sixtynin'), ('sixtynine'), ('sixtysix'), ('size'), ('sizemore'),
+    ('sizinici'), ('sizzle'), ('sizzlin'), ('sk84life'), ('sk8board'), ('sk8er'), ('sk8ing'), ('sk8ordie'),
+    ('sk8ter'), ('skagen'), ('skank'), ('skanky'), ('skapunk'), ('skarbek'), ('skarlett'), ('skaska'),
+    ('skate'), ('skateboa'), ('skateboard'), ('skateboarding')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('skateordie'), ('skater'), ('skaters'), ('skates'), ('skating'), ('skaven'), ('skazka'), ('skcus'),
+    ('skeet'), ('skeeter'), ('skeets'), ('skeeve'), ('skeleton'), ('skeletor'), ('skelly'), ('skelter'),
+    ('skelton'), ('skeptic'), ('sketch'), ('sketchy'), ('skibum'), ('skidder'), ('skidmark'), ('skidmore'),
+    ('skidog'), ('skidoo'), ('skidrow'), ('skier'), ('skiers'), ('skies'), ('skiff'), ('skiing'),
+    ('skill'), ('skilled'), ('skiller'), ('skillet'), ('skills'), ('skillz'), ('skillzz'), ('skiman'),
+    ('skimbo'), ('skimmer'), ('skin'), ('skindeep'), ('skinhead'), ('skinnass'), ('skinner'), ('skinny'),
+    ('skins'), ('skip'), ('skipjack'), ('skipp'), ('skippe'), ('skipper'), ('skipping'), ('skippy'),
+    ('skirt'), ('skirts'), ('skiski'), ('skittle'), ('skittles'), ('sklave'), ('skoal'), ('skoals'),
+    ('skolko'), ('skool'), ('skooter'), ('skorpio'), ('skorpion'), ('skorpion39'), ('skotina'), ('skrilla'),
+    ('skripka'), ('skrunt'), ('skubrick'), ('skull'), ('skulls'), ('skully'), ('skunk'), ('skunks'),
+    ('skunky'), ('skyblue'), ('skyblues'), ('skyclad'), ('skydive'), ('skydiver'), ('skydog'), ('skye'),
+    ('skyeseth'), ('skyfir'), ('skyhawk'), ('skyhigh'), ('skyhook'), ('skyking'), ('skylane'), ('skylar'),
+    ('skylark'), ('skyler'), ('skylight'), ('skylin'), ('skyline'), ('skylinegtr'), ('skyliner'), ('skyliner34'),
+    ('skyman'), ('skynard'), ('skynet'), ('skynyrd'), ('skypilot'), ('skyrider'), ('skytel'), ('skytommy'),
+    ('skywalk'), ('skywalke'), ('skywalker'), ('skywalker1'), ('slack'), ('slacker'), ('slackers'), ('slacking'),
+    ('slade'), ('sladkaya'), ('slagelse'), ('slaine'), ('slainte'), ('slalom'), ('slam'), ('slamdunk'),
+    ('slammed'), ('slammer'), ('slammin'), ('slamming'), ('slamslam'), ('slang'), ('slant'), ('slap'),
+    ('slaphead'), ('slapnuts'), ('slapnutz'), ('slapper'), ('slappers'), ('slappy'), ('slapshot'), ('slash'),
+    ('slasher'), ('slastena'), ('slater'), ('slava'), ('slave'), ('slaveboy'), ('slavej'), ('slavery'),
+    ('slaves'), ('slavic'), ('slavik'), ('slavka'), ('slavko'), ('slawek'), ('slaye'), ('slayer'),
+    ('slayers'), ('slbcsp'), ('sleaze'), ('sleazy'), ('sleddog'), ('sledge'), ('sledhead'), ('sleep'),
+    ('sleeper'), ('sleepers'), ('sleeping'), ('sleeps'), ('sleepy'), ('sleepyhollow'), ('sleeve'), ('sleigh'),
+    ('sleipnir'), ('slender'), ('sleutel'), ('sleuth'), ('slevin'), ('slice'), ('slicer'), ('slick'),
+    ('slickdog'), ('slicker'), ('slicko'), ('slickone'), ('slickric'), ('slickrick'), ('slicks'), ('slickster'),
+    ('slicky'), ('slide'), ('slider'), ('sliders'), ('slides'), ('slim'), ('slime'), ('slimer'),
+    ('slimey'), ('slimfast'), ('slimjim'), ('slimline'), ('slimmer'), ('slimshad'), ('slimshady'), ('sling'),
+    ('slinger'), ('slingsho'), ('slinky'), ('slip'), ('slipkno'), ('slipknot'), ('slipknot123'), ('slipknot66'),
+    ('slipknot666'), ('slipnot'), ('slipper'), ('slippers'), ('slippery'), ('slippy'), ('slit'), ('slither'),
+    ('sliver'), ('sllottery'), ('sloan'), ('sloane'), ('slobber'), ('sloboda'), ('slocum'), ('sloeber'),
+    ('slon'), ('sloneczko'), ('slonik'), ('slonko'), ('slonopotam'), ('sloogy'), ('sloop'), ('sloopy'),
+    ('slop'), ('slopes'), ('sloppy'), ('sloth'), ('slothrop'), ('slots'), ('slough'), ('slovak'),
+    ('slovakia'), ('slovenija'), ('slow'), ('slowhand'), ('slowly'), ('slowmo'), ('slowpoke'), ('slowride'),
+    ('sludge'), ('slug'), ('slugfest'), ('slugger'), ('sluggo'), ('sluggy'), ('slumber'), ('slurp'),
+    ('slurpee'), ('slurpy'), ('slurred'), ('slushslush'), ('slushy'), ('slut'), ('slut4u'), ('slutfuck'),
+    ('slutgirl'), ('slutpupp'), ('sluts'), ('slutslut'), ('sluttey'), ('slutty'), ('slutwife'), ('slutz'),
+    ('slyder'), ('slydog'), ('slyfox'), ('slysly'), ('sm4llvil'), ('sm4llville'), ('smabokk'), ('smack'),
+    ('smackdow'), ('smackdown'), ('smacker'), ('smacks'), ('smacky'), ('small'), ('smalldog'), ('smaller'),
+    ('smallfry'), ('smallman'), ('smallone'), ('smalls'), ('smalltit'), ('smallvil'), ('smallvill'), ('smallville'),
+    ('smallz'), ('smart'), ('smartass'), ('smarter'), ('smartguy'), ('smartie'), ('smarties'), ('smartnav'),
+    ('smartone'), ('smarts'), ('smarty'), ('smash'), ('smashed'), ('smasher'), ('smashing'), ('smeagol'),
+    ('smedley'), ('smeg'), ('smeghead'), ('smegma'), ('smell'), ('smeller'), ('smells'), ('smelly'),
+    ('smellyfe'), ('smeshariki'), ('smetana'), ('smile'), ('smile4me'), ('smile4u'), ('smiler'), ('smiles'),
+    ('smiley'), ('smilie'), ('smiling'), ('smirnof'), ('smirnoff'), ('smirnov'), ('smirnova'), ('smit'),
+    ('smite'), ('smith'), ('smithers'), ('smiths'), ('smithson'), ('smithy'), ('smitten'), ('smitty'),
+    ('smoke'), ('smoked'), ('smokedog'), ('smokee'), ('smokeit'), ('smoken'), ('smokeone'), ('smokepot'),
+    ('smoker'), ('smokers'), ('smokes'), ('smokewee'), ('smokeweed'), ('smokey'), ('smoki'), ('smokie'),
+    ('smokie1994'), ('smokin'), ('smoking'), ('smoky'), ('smolensk'), ('smooch'), ('smooches'), ('smoochie'),
+    ('smoopy'), ('smoot'), ('smooth'), ('smoothe'), ('smoothie'), ('smoothy'), ('smoove'), ('smother'),
+    ('smudge'), ('smudger'), ('smuggler'), ('smuggles'), ('smukke'), ('smurf'), ('smurfett'), ('smurfs'),
+    ('smurfy'), ('smurph'), ('smut'), ('smuthut'), ('smutman'), ('smutsmut'), ('smutt'), ('smutty'),
+    ('smyrna'), ('smythe'), ('sn00py'), ('sn121ma'), ('snack'), ('snacks'), ('snafu'), ('snaggle'),
+    ('snail'), ('snails'), ('snaiper'), ('snake'), ('snakebit'), ('snakeeye'), ('snakeeyes'), ('snakeman'),
+    ('snakepit'), ('snaker'), ('snakes'), ('snakey'), ('snakeyes'), ('snap'), ('snapdrag'), ('snapon'),
+    ('snapper'), ('snappers'), ('snapple'), ('snappy'), ('snapscan'), ('snapshot'), ('snare'), ('snares'),
+    ('snarf'), ('snark'), ('snatch'), ('snax'), ('snayper'), ('snazzy'), ('sneak'), ('sneaker'),
+    ('sneakers'), ('sneaks'), ('sneaky'), ('sneeky'), ('sneeze'), ('sneezy'), ('snegovik'), ('snejana'),
+    ('snejinka'), ('snh4life'), ('snick'), ('snicker'), ('snickers'), ('snider'), ('sniff'), ('sniffer'),
+    ('sniffing'), ('sniffles'), ('sniffpol'), ('sniffy'), ('snikers'), ('snipe'), ('sniper'), ('snipers'),
+    ('snipes'), ('snipper'), ('snippy'), ('snitch'), ('snoman'), ('snooch'), ('snoogans'), ('snoogins'),
+    ('snook'), ('snooker'), ('snookie'), ('snooks'), ('snookums'), ('snooky'), ('snoop'), ('snoopdog'),
+    ('snoopdogg'), ('snooper'), ('snoops'), ('snoopy'), ('snoopydo'), ('snooty'), ('snooze'), ('snoozer'),
+    ('snoppy'), ('snopro'), ('snorkel'), ('snort'), ('snot'), ('snotball'), ('snotty'), ('snouty'),
+    ('snow'), ('snowbal'), ('snowball'), ('snowbird')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('snowboar'), ('snowboard'), ('snowcat'), ('snowday'), ('snowden'), ('snowdog'), ('snowdon'), ('snowdrop'),
+    ('snowey'), ('snowfall'), ('snowflak'), ('snowflake'), ('snowhite'), ('snowie'), ('snowing'), ('snowma'),
+    ('snowman'), ('snowmass'), ('snowolf'), ('snowshoe'), ('snowsnow'), ('snowstor'), ('snowwhit'), ('snowwhite'),
+    ('snowy'), ('snuff'), ('snuffles'), ('snuffy'), ('snuggle'), ('snuggles'), ('snuisubu'), ('snusmumrik'),
+    ('snyder'), ('snyper'), ('soap'), ('soapy'), ('soarer'), ('soares'), ('soaring'), ('sobaka'),
+    ('sobeit'), ('sober'), ('sobolev'), ('soboleva'), ('sobriety'), ('socal'), ('socball'), ('socce'),
+    ('soccer'), ('soccerba'), ('social'), ('sociald'), ('society'), ('sock'), ('socken'), ('socket'),
+    ('sockeye'), ('socklint'), ('socks'), ('socool'), ('socorro'), ('socrate'), ('socrates'), ('soda'),
+    ('sodapop'), ('sodibe'), ('sodium'), ('sodoff'), ('sodom'), ('sodomy'), ('sofa'), ('sofaking'),
+    ('sofi'), ('sofia'), ('sofian'), ('sofie'), ('sofija'), ('sofiko'), ('sofiya'), ('soft'),
+    ('softail'), ('softbal'), ('softball'), ('softcore'), ('softer'), ('softtail'), ('software'), ('sofun'),
+    ('soggy'), ('sogood'), ('sohail'), ('soho'), ('sohorny'), ('sohot'), ('soiree'), ('sojdlg123aljg'),
+    ('sokada'), ('sokol'), ('sokolik'), ('sokolov'), ('sokolova'), ('sokrat'), ('sokrates'), ('solace'),
+    ('solan'), ('solana'), ('solange'), ('solano'), ('solar'), ('solara'), ('solare'), ('solaris'),
+    ('solcom'), ('sold'), ('soldat'), ('solder'), ('soldie'), ('soldier'), ('soldiers'), ('sole'),
+    ('soleda'), ('soledad'), ('solei'), ('soleil'), ('solene'), ('solid'), ('solids'), ('solidsna'),
+    ('solidsnake'), ('solidus'), ('solit'), ('solitair'), ('solitari'), ('solitario'), ('solito'), ('solitude'),
+    ('soller'), ('solly'), ('solnce'), ('solnishko'), ('solniwko'), ('solnushko'), ('solnyshko'), ('solnze'),
+    ('solo'), ('soloflex'), ('soloio'), ('soloma'), ('soloman'), ('solomio'), ('solomo'), ('solomon'),
+    ('solon'), ('solosolo'), ('solovei'), ('solovey'), ('soloy'), ('soloyo'), ('solrac'), ('solsol'),
+    ('solstice'), ('solter'), ('soltero'), ('solus'), ('solution'), ('solutions'), ('solveig'), ('soma'),
+    ('somali'), ('somalia'), ('sombra'), ('sombrero'), ('some'), ('somebody'), ('someday'), ('someguy'),
+    ('someone'), ('somers'), ('somerset'), ('somethin'), ('something'), ('something1'), ('sometime'), ('sometimes'),
+    ('sommar'), ('somme'), ('sommer'), ('sonali'), ('sonar'), ('sonata'), ('sondek'), ('sondheim'),
+    ('sondra'), ('sone4ka'), ('sone4ko'), ('sonechka'), ('sonechko'), ('song'), ('songbird'), ('songline'),
+    ('songohan'), ('songoku'), ('songs'), ('soni'), ('sonia'), ('sonic'), ('sonica'), ('sonics'),
+    ('sonicx'), ('sonja'), ('sonne'), ('sonnen'), ('sonnensc'), ('sonnenschein'), ('sonnet'), ('sonnie'),
+    ('sonntag'), ('sonny'), ('sonnyb'), ('sonnyboy'), ('sonnyg'), ('sonnys'), ('sonofa'), ('sonofgod'),
+    ('sonofsam'), ('sonoio'), ('sonoma'), ('sonora'), ('sonrisa'), ('sonshine'), ('sonson'), ('sonu'),
+    ('sony'), ('sonya'), ('sonyericsson'), ('sonyfuck'), ('sonysony'), ('sonyvaio'), ('sookie'), ('soon'),
+    ('sooner'), ('sooners'), ('sooty'), ('sophi'), ('sophia'), ('sophie'), ('soprano'), ('sopranos'),
+    ('sopwith'), ('soray'), ('soraya'), ('sorbet'), ('sorcerer'), ('sordfish'), ('sore'), ('soreilly'),
+    ('soren'), ('sorensen'), ('sorento'), ('sorghum'), ('soriano'), ('soroka'), ('sorokin'), ('sorokina'),
+    ('sorpresa'), ('sorrel'), ('sorrento'), ('sorrow'), ('sorry'), ('sort'), ('sorted'), ('sosa'),
+    ('sosexy'), ('sosiska'), ('soslite'), ('soso'), ('soso123aljg'), ('soso123bbb'), ('soso12eec'), ('sosodef'),
+    ('sososo'), ('sosososo'), ('sossina'), ('sossos'), ('sosweet'), ('soul'), ('souleater'), ('souledge'),
+    ('soulfly'), ('soulfood'), ('soulglo'), ('soulja'), ('souljah'), ('soulman'), ('soulmate'), ('soultake'),
+    ('sound'), ('soundman'), ('sounds'), ('soundwav'), ('soup'), ('souper'), ('soupnazi'), ('souppp'),
+    ('source'), ('sourire'), ('souris'), ('sousa'), ('souschef'), ('sousou'), ('south'), ('southamp'),
+    ('southampton'), ('southbay'), ('southbea'), ('southend'), ('southern'), ('southie'), ('southman'), ('southpar'),
+    ('southpark'), ('southpaw'), ('souths'), ('southsid'), ('southside'), ('southwes'), ('southwest'), ('souvenir'),
+    ('sovereig'), ('sovereign'), ('soviet'), ('sowhat'), ('soxfan'), ('soybean'), ('soyelmejo'), ('soylent'),
+    ('soysauce'), ('sp00ky'), ('sp1251dn'), ('sp1der'), ('space'), ('spaceace'), ('spacebal'), ('spacebar'),
+    ('spaceboy'), ('spaced'), ('spacedog'), ('spacejam'), ('spaceman'), ('spacer'), ('spaces'), ('spacey'),
+    ('spackle'), ('spade'), ('spader'), ('spades'), ('spagetti'), ('spaghett'), ('spaghetti'), ('spain'),
+    ('spalding'), ('spam'), ('spam967888'), ('spammer'), ('spammm'), ('spammy'), ('spamspam'), ('spandau'),
+    ('spandex'), ('spangle'), ('spaniard'), ('spaniel'), ('spanis'), ('spanish'), ('spank'), ('spanked'),
+    ('spanker'), ('spankey'), ('spankher'), ('spanking'), ('spankit'), ('spankme'), ('spanks'), ('spanky'),
+    ('spanner'), ('spanners'), ('spar'), ('sparco'), ('sparda'), ('spare'), ('spares'), ('sparhawk'),
+    ('spark'), ('sparkey'), ('sparkie'), ('sparkle'), ('sparkles'), ('sparkplu'), ('sparks'), ('sparky'),
+    ('sparrow'), ('sparrows'), ('sparta'), ('spartacu'), ('spartacus'), ('spartak'), ('spartak1922'), ('spartan'),
+    ('spartan117'), ('spartans'), ('sparticu'), ('sparty'), ('spasibo'), ('spasm'), ('spastic'), ('spatula'),
+    ('spawn'), ('spawns'), ('spaz'), ('spazz'), ('spazzy'), ('spazzz'), ('speak'), ('speaker'),
+    ('speakers'), ('speakes'), ('spear'), ('spearman'), ('spears'), ('spec'), ('specboot'), ('specia'),
+    ('special'), ('speciali'), ('specialinsta'), ('specialist'), ('specialized'), ('specialk'), ('specialp'), ('specials'),
+    ('species'), ('speck'), ('speckle'), ('speckles'), ('specops'), ('specter'), ('spector'), ('spectra'),
+    ('spectre'), ('spectrum'), ('speculum'), ('speech'), ('speed'), ('speedbal'), ('speedbir'), ('speedbum'),
+    ('speeder'), ('speedie'), ('speeding'), ('speedo'), ('speedrac'), ('speeds'), ('speedste'), ('speedster'),
+    ('speedway'), ('speedy'), ('speleo'), ('spelling'), ('spells'), ('spence'), ('spencer'), ('spender'),
+    ('spengler'), ('spenser'), ('sperling'), ('sperm'), ('sperma'), ('sperme'), ('sperry'), ('spesional'),
+    ('sphere'), ('sphincte'), ('sphinx'), ('sphynx'), ('spice'), ('spicedog'), ('spicer'), ('spices'),
+    ('spicey'), ('spicy'), ('spide'), ('spider'), ('spiderma'), ('spiderman'), ('spiderman1'), ('spiderman2'),
+    ('spiderman3'), ('spiders'), ('spidey'), ('spiegel')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('spieng'), ('spiff'), ('spiffy'), ('spike'), ('spiked'), ('spikee'), ('spikelee'), ('spiker'),
+    ('spikes'), ('spikey'), ('spill'), ('spiller'), ('spillo'), ('spin'), ('spinach'), ('spinal'),
+    ('spindle'), ('spine'), ('spinnake'), ('spinne'), ('spinner'), ('spinners'), ('spinney'), ('spinning'),
+    ('spinoza'), ('spionkop'), ('spiral'), ('spiri'), ('spirit'), ('spirits'), ('spiritus'), ('spiro'),
+    ('spiros'), ('spirou'), ('spit'), ('spitball'), ('spite'), ('spitfir'), ('spitfire'), ('spittle'),
+    ('spitz'), ('spitzer'), ('spjfet'), ('splash'), ('splashed'), ('splat'), ('splatt'), ('splatter'),
+    ('splean'), ('spleen'), ('splendid'), ('splendor'), ('splice'), ('splicer'), ('spliff'), ('splint'),
+    ('splinter'), ('split'), ('splits'), ('splitter'), ('splodge'), ('splooge'), ('splunge'), ('splurge'),
+    ('splurgeola'), ('spock'), ('spocky'), ('spoiled'), ('spoiler'), ('spokane'), ('spokes'), ('sponge'),
+    ('spongebo'), ('spongebob'), ('spongebob1'), ('spongy'), ('sponsor'), ('spooge'), ('spook'), ('spooker'),
+    ('spookie'), ('spooks'), ('spooky'), ('spoon'), ('spooner'), ('spoonman'), ('spoons'), ('spoony'),
+    ('spooty'), ('spore'), ('spork'), ('sport'), ('sportage'), ('sportin'), ('sporting'), ('sporto'),
+    ('sports'), ('sportsca'), ('sportsmen'), ('sportste'), ('sportster'), ('sporty'), ('spot'), ('spotdog'),
+    ('spotify'), ('spotligh'), ('spotlight'), ('spots'), ('spotted'), ('spotter'), ('spotty'), ('spray'),
+    ('sprayer'), ('spread'), ('spree'), ('sprewell'), ('sprin'), ('spring'), ('springbo'), ('springer'),
+    ('springfi'), ('springfield'), ('springs'), ('springst'), ('sprinkle'), ('sprinkler'), ('sprint'), ('sprinte'),
+    ('sprinter'), ('sprit'), ('sprite'), ('spritz'), ('spritzer'), ('sprock'), ('sprocket'), ('sprout'),
+    ('sprouts'), ('spruce'), ('sprugass'), ('sprung'), ('sprunt'), ('spud'), ('spudboy'), ('spuddy'),
+    ('spudley'), ('spudman'), ('spuds'), ('spukcab'), ('spumoni'), ('spunk'), ('spunker'), ('spunky'),
+    ('spur'), ('spurrier'), ('spurs'), ('spurss'), ('spurt'), ('sputnik'), ('spxports'), ('spycam'),
+    ('spycams'), ('spyder'), ('spyglass'), ('spyros'), ('sqdwfe'), ('sqloledb'), ('sqrunch'), ('squad'),
+    ('squadron'), ('squall'), ('square'), ('squared'), ('squares'), ('squash'), ('squat'), ('squats'),
+    ('squaw'), ('squawk'), ('squeak'), ('squeaker'), ('squeaky'), ('squeal'), ('squealer'), ('squeegee'),
+    ('squeek'), ('squeeky'), ('squeeze'), ('squerting'), ('squid'), ('squidly'), ('squids'), ('squiggle'),
+    ('squiggy'), ('squire'), ('squires'), ('squirrel'), ('squirt'), ('squirter'), ('squirtle'), ('squirts'),
+    ('squish'), ('squishy'), ('squonk'), ('sr20de'), ('sr20det'), ('sr20dett'), ('srawrats'), ('srbija'),
+    ('sregit'), ('sretep'), ('sridhar'), ('srikanth'), ('srilanka'), ('srinivas'), ('srvsrv'), ('ss6z2sw6lu'),
+    ('ss_pass'), ('ssap'), ('ssassa'), ('ssecca'), ('sseexx'), ('ssgohan'), ('ssgoku'), ('sslazio'),
+    ('ssnake'), ('ssomeone'), ('sssaaa'), ('sssata'), ('ssss'), ('sssss'), ('ssssss'), ('sssssss'),
+    ('ssssssss'), ('sssssssss'), ('ssssssssss'), ('ssvegeta'), ('st123st'), ('st801nyl'), ('stabbin'), ('stabilmente'),
+    ('stabilo'), ('stable'), ('stabler'), ('stac'), ('stace'), ('stacey'), ('staci'), ('stacia'),
+    ('stacie'), ('stack'), ('stacked'), ('stacker'), ('stacks'), ('stacy'), ('stadium'), ('staff'),
+    ('stafford'), ('stag'), ('stage'), ('stagger'), ('stagy'), ('stain'), ('staind'), ('stained'),
+    ('stainles'), ('stainless'), ('stair'), ('stairway'), ('stakan'), ('stal'), ('staley'), ('stalin'),
+    ('stalingr'), ('stalingrad'), ('stalion'), ('stalke'), ('stalker'), ('stalker123'), ('stalker2010'), ('stalker777'),
+    ('stall'), ('stallard'), ('stallion'), ('stallone'), ('stalport'), ('stamford'), ('stamina'), ('stamp'),
+    ('stampede'), ('stamps'), ('stampy'), ('stan'), ('stand'), ('standard'), ('standart'), ('standby'),
+    ('standing'), ('standrew'), ('stands'), ('standup'), ('stanford'), ('stang'), ('stanger'), ('stangs'),
+    ('stanhope'), ('stanisla'), ('stanislav'), ('stanky'), ('stanle'), ('stanlee'), ('stanley'), ('stanly'),
+    ('stanstan'), ('stanthem'), ('stanton'), ('stanza'), ('staple'), ('stapler'), ('staples'), ('star'),
+    ('starbase'), ('starbuck'), ('starbucks'), ('starburs'), ('starbury'), ('starch'), ('starchil'), ('starchild'),
+    ('starcraf'), ('starcraft'), ('starcraft1'), ('starcraft2'), ('stardog'), ('stardust'), ('starfire'), ('starfish'),
+    ('starflee'), ('starfleet'), ('starfox'), ('starfuck'), ('starfury'), ('stargat'), ('stargate'), ('stargatesg1'),
+    ('stargaze'), ('stargazer'), ('stargirl'), ('starhawk'), ('starik'), ('starion'), ('stark'), ('starkey'),
+    ('starks'), ('starla'), ('starlet'), ('starligh'), ('starlight'), ('starline'), ('starling'), ('starlite'),
+    ('starlog'), ('starman'), ('starosta'), ('starr'), ('starrr'), ('starrs'), ('starry'), ('stars'),
+    ('starscream'), ('starshin'), ('starship'), ('starsky'), ('starss'), ('starstar'), ('start'), ('startac'),
+    ('started'), ('starter'), ('starting'), ('startnow'), ('startre'), ('startrek'), ('starts'), ('startup'),
+    ('starwar'), ('starwars'), ('starwars12'), ('starwars123'), ('starwood'), ('starz'), ('starzz'), ('stas'),
+    ('stash'), ('stasha'), ('stasia'), ('stasik'), ('stasis'), ('stason'), ('stasstas'), ('stasya'),
+    ('stat'), ('state'), ('staten'), ('stater'), ('states'), ('static'), ('staticx'), ('station'),
+    ('statistika'), ('statue'), ('status'), ('stauffer'), ('stavange'), ('stavropol'), ('stavros'), ('stayaway'),
+    ('stayout'), ('stayrude'), ('stblow'), ('stcroix'), ('stead'), ('steady'), ('steak'), ('steaks'),
+    ('steal'), ('stealth'), ('stealthy'), ('steam'), ('steamboa'), ('steamboat'), ('steamer'), ('steamforums'),
+    ('steamy'), ('stearman'), ('steaua'), ('stedman'), ('steeda'), ('steel'), ('steelbed'), ('steeldoo'),
+    ('steele'), ('steeler'), ('steelers'), ('steelhea'), ('steelman'), ('steelroa'), ('steels'), ('steely'),
+    ('steen'), ('steep'), ('steeple'), ('steer'), ('stef'), ('stefa'), ('stefan'), ('stefanescu'),
+    ('stefani'), ('stefania'), ('stefanie'), ('stefano'), ('steff'), ('steffan'), ('steffe'), ('steffen'),
+    ('steffi'), ('steffie'), ('stein'), ('steiner'), ('steinway'), ('steklo'), ('stelios'), ('stelkhs'),
+    ('stell'), ('stella'), ('stellar'), ('stellina'), ('sten'), ('stensten12'), ('step'), ('stepan'),
+    ('stepanov'), ('stepanova'), ('stepashka'), ('steph'), ('stepha'), ('stephan'), ('stephane'), ('stephani'),
+    ('stephanie'), ('stephanie1'), ('stephany'), ('stephe'), ('stephen'), ('stephens'), ('stephi'), ('stephie'),
+    ('stephy'), ('stepka'), ('steps'), ('stepup')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('stereo'), ('sterlin'), ('sterling'), ('stern'), ('sterne'), ('sterno'), ('steroid'), ('steroids'),
+    ('sterva'), ('stesha'), ('stetson'), ('stev'), ('steve'), ('steveb'), ('stevec'), ('steveg'),
+    ('steveh'), ('stevek'), ('stevem'), ('stevemc'), ('steven'), ('stevenm'), ('stevens'), ('stevenso'),
+    ('stevenson'), ('steveo'), ('stever'), ('steves'), ('stevesmojo'), ('steveste'), ('stevevai'), ('stevey'),
+    ('stevie'), ('stevied'), ('steviera'), ('stevo'), ('stew'), ('stewar'), ('steward'), ('stewarde'),
+    ('stewart'), ('stewie'), ('stgeorge'), ('sthein'), ('sthgrtst'), ('stick'), ('stickboy'), ('stickdaddy77'),
+    ('sticker'), ('stickers'), ('stickit'), ('stickman'), ('sticks'), ('sticky'), ('stiefel'), ('stiff'),
+    ('stiffie'), ('stiffler'), ('stiffy'), ('stifler'), ('stigma'), ('stigmata'), ('stiles'), ('stiletto'),
+    ('stilgar'), ('still'), ('stiller'), ('stillers'), ('stillher'), ('stills'), ('stimorol'), ('stimpy'),
+    ('sting'), ('stinge'), ('stinger'), ('stingers'), ('stingray'), ('stings'), ('stingy'), ('stink'),
+    ('stinke'), ('stinker'), ('stinkpot'), ('stinks'), ('stinky'), ('stinkyfinger'), ('stinson'), ('stirling'),
+    ('stitch'), ('stitches'), ('stivone'), ('stix'), ('stixstix'), ('stjabn'), ('stjames'), ('stjohn'),
+    ('stjohns'), ('stjude'), ('stlblues'), ('stlouis'), ('stlucia'), ('stmartin'), ('stmirren'), ('stocazzo'),
+    ('stock'), ('stockcar'), ('stocker'), ('stockhol'), ('stockholm'), ('stocking'), ('stockings'), ('stockpor'),
+    ('stocks'), ('stockton'), ('stoffel'), ('stogie'), ('stoke'), ('stokecit'), ('stoked'), ('stoker'),
+    ('stokes'), ('stokrotka'), ('stolen'), ('stoli'), ('stomach'), ('stomat'), ('stomatolog'), ('stomp'),
+    ('stomper'), ('stone'), ('stonecol'), ('stonecold'), ('stoned'), ('stoneh'), ('stonehenge'), ('stoneman'),
+    ('stoner'), ('stoneros'), ('stones'), ('stonewal'), ('stonewall'), ('stoney'), ('stonie'), ('stony'),
+    ('stooge'), ('stooges'), ('stool'), ('stoop'), ('stoopid'), ('stoops'), ('stop'), ('stopit'),
+    ('stoppedb'), ('stoppedby'), ('stopper'), ('stopstop'), ('storage'), ('store'), ('stores'), ('storey'),
+    ('stories'), ('stork'), ('storm'), ('stormbri'), ('storme'), ('stormer'), ('stormie'), ('stormin'),
+    ('storming'), ('storms'), ('stormy'), ('story'), ('storys'), ('stosh'), ('stout'), ('stover'),
+    ('stpaul'), ('stpiliot'), ('stpstp'), ('str8edge'), ('strahd'), ('straight'), ('strain'), ('strait'),
+    ('straits'), ('strand'), ('strange'), ('strangel'), ('stranger'), ('strangers'), ('strangle'), ('strannik'),
+    ('strap'), ('strapon'), ('strasse'), ('strat'), ('strata'), ('stratcat'), ('strateg'), ('strategy'),
+    ('stratfor'), ('stratford'), ('stratman'), ('strato'), ('stratoca'), ('stratocaster'), ('stratos'), ('stratp'),
+    ('strats'), ('stratton'), ('stratus'), ('straus'), ('strauss'), ('straw'), ('strawber'), ('strawberr'),
+    ('strawberry'), ('strawman'), ('straws'), ('straycat'), ('straydog'), ('streak'), ('streaker'), ('stream'),
+    ('streamer'), ('streaming'), ('streams'), ('street'), ('streetball'), ('streeter'), ('streets'), ('strega'),
+    ('strekoza'), ('strela'), ('strelec'), ('strelka'), ('strelok'), ('strength'), ('stress'), ('stressed'),
+    ('stretch'), ('stricker'), ('strict'), ('stride'), ('strider'), ('strife'), ('strike'), ('striker'),
+    ('strikers'), ('strikes'), ('string'), ('stringer'), ('strings'), ('strip'), ('strip4me'), ('stripclub'),
+    ('stripe'), ('striper'), ('stripes'), ('stripped'), ('stripper'), ('strippers'), ('strips'), ('strobe'),
+    ('strohs'), ('stroitel'), ('stroke'), ('stroker'), ('strokes'), ('stroller'), ('strom'), ('stromb'),
+    ('stron'), ('strong'), ('strongbo'), ('stronger'), ('stronghold'), ('stronzo'), ('strosek'), ('stroud'),
+    ('strstr'), ('struan'), ('struck'), ('structur'), ('strudel'), ('struggle'), ('strum'), ('strummer'),
+    ('strumpf'), ('strungou'), ('strunz'), ('struppi'), ('strutter'), ('stryder'), ('stryke'), ('stryker'),
+    ('stryper'), ('stthomas'), ('stuart'), ('stubbs'), ('stubby'), ('stucco'), ('stuck'), ('stucker'),
+    ('stud'), ('studboy'), ('studen'), ('student'), ('studentka'), ('students'), ('studio'), ('studios'),
+    ('studioworks'), ('studley'), ('studly'), ('studman'), ('studmuff'), ('studmuffin'), ('studs'), ('studstud'),
+    ('study'), ('stuff'), ('stuffed'), ('stuffer'), ('stufff'), ('stuffing'), ('stuffit'), ('stuffs'),
+    ('stuffy'), ('stump'), ('stumper'), ('stumps'), ('stumpy'), ('stunna'), ('stunner'), ('stunning'),
+    ('stunt'), ('stuntman'), ('stunts'), ('stup1d'), ('stupi'), ('stupid'), ('stupidas'), ('stupor'),
+    ('sturgeon'), ('sturgis'), ('sturm'), ('stussy'), ('stutt'), ('stutter'), ('stuttgar'), ('stuttgart'),
+    ('style'), ('styles'), ('stylist'), ('stylus'), ('stymie'), ('styx'), ('styxstyx'), ('suan'),
+    ('suarez'), ('suave'), ('subaru'), ('subhanallah'), ('subito'), ('sublime'), ('submarin'), ('submarine'),
+    ('submissi'), ('submission'), ('submit'), ('subrosa'), ('subscriber'), ('subskin'), ('subspace'), ('subtle'),
+    ('suburb'), ('suburban'), ('subway'), ('subwoofer'), ('subzero'), ('succeed'), ('succes'), ('success'),
+    ('successful'), ('succubus'), ('sucess'), ('sucesso'), ('suchka'), ('suck'), ('sucka'), ('suckass'),
+    ('suckcock'), ('suckdick'), ('sucke'), ('sucked'), ('suckem'), ('sucker'), ('suckers'), ('suckfuck'),
+    ('sucking'), ('suckit'), ('suckme'), ('suckmeof'), ('suckmeoff'), ('suckmine'), ('suckmy'), ('suckmy1k'),
+    ('suckmyballs'), ('suckmyco'), ('suckmycock'), ('suckmydi'), ('suckmydic'), ('suckmydick'), ('suckoff'), ('sucks'),
+    ('suckscock'), ('suckss'), ('sucksuck'), ('suckthis'), ('sucky'), ('sucram'), ('sudden'), ('sudhakar'),
+    ('sudhir'), ('sueann'), ('suede'), ('suerte'), ('suesue'), ('suffer'), ('suffering'), ('suffocat'),
+    ('suffolk'), ('sugabear'), ('sugar'), ('sugarbea'), ('sugarbear'), ('sugardad'), ('sugardog'), ('sugaree'),
+    ('sugarman'), ('sugarray'), ('sugars'), ('sugary'), ('suger'), ('suggest'), ('suhrob'), ('suicidal'),
+    ('suicide'), ('suikoden'), ('suisse'), ('suit'), ('suitcase'), ('suite'), ('suites'), ('sujata'),
+    ('sujatha'), ('suka'), ('sukasuka'), ('sukebe'), ('suki'), ('sukisuki'), ('sukkel'), ('sukram'),
+    ('sukumar'), ('sulaco'), ('sulaiman'), ('suleiman'), ('sulfur'), ('sullivan'), ('sully'), ('sultan'),
+    ('sultana'), ('sultry'), ('suman'), ('sumatra'), ('sumerki'), ('sumitomo'), ('summary'), ('summe'),
+    ('summer'), ('summer2010'), ('summers'), ('summerti'), ('summertime'), ('summit'), ('summoner'), ('sumner'),
+    ('sumo'), ('sumsum'), ('sumsung'), ('sumter'), ('sunako'), ('sunbeam'), ('sunbelt'), ('sunbird'),
+    ('sunburn'), ('sunburst'), ('suncoast'), ('sunda')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('sundance'), ('sundaram'), ('sundari'), ('sunday'), ('sundaypunch'), ('sunder'), ('sunderla'), ('sunderland'),
+    ('sundevil'), ('sundial'), ('sundin'), ('sundog'), ('sundown'), ('sundrop'), ('sunfire'), ('sunfish'),
+    ('sunflowe'), ('sunflower'), ('sunflower1'), ('sung'), ('sungam'), ('sunghi'), ('sunghile'), ('sunglass'),
+    ('sunglasses'), ('sungod'), ('sunil'), ('sunita'), ('sunitha'), ('sunking'), ('sunkist'), ('sunlight'),
+    ('sunmoon'), ('sunn'), ('sunnie'), ('sunny'), ('sunnyb'), ('sunnyboy'), ('sunnyd'), ('sunnyday'),
+    ('sunnys'), ('sunnysid'), ('sunoco'), ('sunray'), ('sunrise'), ('suns'), ('sunse'), ('sunset'),
+    ('sunsets'), ('sunsh1ne'), ('sunshin'), ('sunshine'), ('sunshine69'), ('sunspot'), ('sunstar'), ('sunsun'),
+    ('suntan'), ('suntzu'), ('suomi'), ('supa'), ('supafly'), ('supaman'), ('supe'), ('super'),
+    ('supera'), ('superb'), ('superbad'), ('superbee'), ('superbik'), ('superbir'), ('superbob'), ('superbow'),
+    ('superbowl'), ('superboy'), ('supercal'), ('supercar'), ('supercat'), ('supercoo'), ('supercool'), ('supercop'),
+    ('superd'), ('superdan'), ('superdav'), ('superdave'), ('superdog'), ('superdude'), ('superdup'), ('superduper'),
+    ('superdut'), ('superflu'), ('superfly'), ('superfre'), ('superg'), ('supergas'), ('supergir'), ('supergirl'),
+    ('superhero'), ('superior'), ('superj'), ('superjet'), ('superk'), ('superkev'), ('superm'), ('superma'),
+    ('supermac'), ('superman'), ('superman12'), ('superman123'), ('superman69'), ('supermanboy'), ('supermar'), ('supermario'),
+    ('supermax'), ('superme'), ('supermen'), ('supermod'), ('supermodel'), ('supermom'), ('supernatural'), ('supernov'),
+    ('supernova'), ('superpass'), ('superpower'), ('superpuper'), ('superr'), ('supers'), ('supersex'), ('superson'),
+    ('supersonic'), ('supersport'), ('supersta'), ('superstar'), ('superstr'), ('supersuper'), ('supert'), ('supertec'),
+    ('superted'), ('supertra'), ('superuse'), ('supervis'), ('supervisor'), ('superx'), ('supper'), ('supple'),
+    ('supply'), ('support'), ('supra'), ('supras'), ('supratt'), ('supreme'), ('suprise'), ('surabaya'),
+    ('sure'), ('surefire'), ('sureno'), ('suresh'), ('sureshot'), ('surety'), ('surf'), ('surface'),
+    ('surfboar'), ('surfboard'), ('surfcity'), ('surfdog'), ('surfe'), ('surfer'), ('surfers'), ('surfin'),
+    ('surfing'), ('surfmore'), ('surfside'), ('surfsup'), ('surfsurf'), ('surge'), ('surgeon'), ('surgery'),
+    ('surgict'), ('surgut'), ('surprise'), ('surreal'), ('surrende'), ('surrender'), ('surrey'), ('surround'),
+    ('survey'), ('surveyor'), ('survival'), ('survive'), ('survivor'), ('surya'), ('susan'), ('susana'),
+    ('susanb'), ('susanm'), ('susann'), ('susanna'), ('susannah'), ('susanne'), ('susans'), ('susant'),
+    ('sushi'), ('sushis'), ('susi'), ('susie'), ('susieq'), ('susisusi'), ('suslik'), ('suspect'),
+    ('suspects'), ('suspend'), ('suspende'), ('sussex'), ('sussie'), ('sustanon'), ('susu'), ('susubaby'),
+    ('sutherla'), ('sutherland'), ('sutter'), ('sutton'), ('sutvsc5ysaa'), ('suvorov'), ('sux2bu'), ('suzan'),
+    ('suzana'), ('suzann'), ('suzanna'), ('suzanne'), ('suze'), ('suzenet'), ('suzette'), ('suzevide'),
+    ('suzi'), ('suzie'), ('suzieq'), ('suzuk'), ('suzuki'), ('suzukirm'), ('suzy'), ('suzyq'),
+    ('sv650s'), ('svadba'), ('svarog'), ('sveiks'), ('sven'), ('svenja'), ('svensk'), ('svenska'),
+    ('svensps820'), ('sverige'), ('sverre'), ('sveta'), ('svetasveta'), ('svetik'), ('svetka'), ('svetlana'),
+    ('svetlanka'), ('svetlova'), ('sveto4ka'), ('svetochka'), ('svintus'), ('svizzera'), ('svobod'), ('svoboda'),
+    ('svoloch'), ('svtcobra'), ('swain'), ('swallow'), ('swallows'), ('swami'), ('swamp'), ('swampfox'),
+    ('swampy'), ('swan'), ('swank'), ('swanky'), ('swanlake'), ('swanny'), ('swansea'), ('swanson'),
+    ('swansong'), ('swapna'), ('swart'), ('swaswa'), ('swat'), ('swatch'), ('swatteam'), ('swearer'),
+    ('sweat'), ('sweater'), ('sweaters'), ('sweaty'), ('swede'), ('sweden'), ('swedes'), ('swedish'),
+    ('swee'), ('sweeet'), ('sweeney'), ('sweep'), ('sweeper'), ('sweeps'), ('sweepstakes'), ('sweet'),
+    ('sweetass'), ('sweetboy'), ('sweetdream'), ('sweetdreams'), ('sweeter'), ('sweetest'), ('sweetgirl'), ('sweethea'),
+    ('sweethear'), ('sweetheart'), ('sweeti'), ('sweetie'), ('sweetiepie'), ('sweeties'), ('sweetkiss'), ('sweetlip'),
+    ('sweetman'), ('sweetnes'), ('sweetness'), ('sweetone'), ('sweetp'), ('sweetpe'), ('sweetpea'), ('sweetpus'),
+    ('sweetpussy'), ('sweets'), ('sweetsweet'), ('sweett'), ('sweetums'), ('sweety'), ('sweetz'), ('sweitz'),
+    ('swell'), ('swerve'), ('swetik'), ('swetlana'), ('swift'), ('swifts'), ('swifty'), ('swim'),
+    ('swimbike'), ('swimmer'), ('swimmin'), ('swimming'), ('swimteam'), ('swindon'), ('swine'), ('swing'),
+    ('swinger'), ('swingers'), ('swingin'), ('swinging'), ('swinglin'), ('swipe'), ('swisher'), ('swiss'),
+    ('swissair'), ('switch'), ('switcher'), ('switzer'), ('swivel'), ('swizzle'), ('swollen'), ('swoop'),
+    ('swoosh'), ('sword'), ('swordfis'), ('swordfish'), ('swords'), ('swpakey'), ('sxsxsx'), ('sybase'),
+    ('sybil'), ('sycamore'), ('syclone'), ('sydne'), ('sydnee'), ('sydney'), ('sydnie'), ('sykes'),
+    ('sylvain'), ('sylvan'), ('sylvania'), ('sylveste'), ('sylvester'), ('sylvi'), ('sylvia'), ('sylviahans'),
+    ('sylvie'), ('sylwia'), ('symantec'), ('symbiote'), ('symbol'), ('symmetry'), ('sympathy'), ('symphony'),
+    ('synapse'), ('synchro'), ('syncmast'), ('syncmaster'), ('syncmaster740n'), ('syncoo'), ('syndicat'), ('syndicate'),
+    ('syndikat'), ('syndrome'), ('synergy'), ('syntax'), ('syoung'), ('sypher'), ('syphon'), ('syracuse'),
+    ('syrinx'), ('syrup'), ('sysadmin'), ('sysman'), ('syssec'), ('syste'), ('system'), ('systemofadown'),
+    ('systems'), ('syzygy'), ('szevasz'), ('t123456789'), ('t34vfrc1991'), ('t3fkvkmj'), ('t5r4e3w2q1'), ('t66hks'),
+    ('ta8g4w'), ('taarna'), ('tabaco'), ('tabaluga'), ('tabarnac'), ('tabasco'), ('tabatha'), ('tabby'),
+    ('tabbycat'), ('tabitha'), ('tablada'), ('table'), ('table54781'), ('tables'), ('tabletop'), ('taboo'),
+    ('tabryant'), ('taburetka'), ('tachyon'), ('tacit'), ('tacitus'), ('tack'), ('tackle'), ('tacky'),
+    ('taco'), ('tacobell'), ('tacoma'), ('tacos'), ('tacotaco'), ('tactic'), ('tactical'), ('tactics'),
+    ('tadatada'), ('tadlock'), ('tadmichaels'), ('tadpole'), ('taekwon'), ('taekwond'), ('taekwondo'), ('taff'),
+    ('taffy'), ('tafkap'), ('tagada'), ('taganrog'), ('taggart'), ('tagheuer'), ('tagman'), ('tahir'),
+    ('tahira'), ('tahiti'), ('tahoe'), ('tahoes'), ('taichi'), ('taifun'), ('tail'), ('tailgate'),
+    ('tailhook'), ('tailor'), ('tails'), ('tailspin'), ('taint'), ('tainted'), ('taipan'), ('taipei'),
+    ('taisiya'), ('taison'), ('taitai'), ('taiwan')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('tajmahal'), ('taka'), ('takagi'), ('takahiro'), ('takako'), ('takamine'), ('takashi'), ('takataka'),
+    ('takayuki'), ('take'), ('takecare'), ('takeda'), ('takedown'), ('takefive'), ('takehana'), ('takeit'),
+    ('takeme'), ('taken'), ('takeoff'), ('takeout'), ('taker'), ('takeshi'), ('takethat'), ('takhisis'),
+    ('taktak'), ('takuang'), ('talant'), ('talavera'), ('talbert'), ('talbot'), ('talent'), ('talented'),
+    ('tales'), ('talgat'), ('talia'), ('taliban'), ('taliesin'), ('talisker'), ('talisman'), ('talitha'),
+    ('talk'), ('talker'), ('talking'), ('talks'), ('talktalk'), ('talktome'), ('tall'), ('tallboy'),
+    ('tallen'), ('taller'), ('tallest'), ('talley'), ('tallguy'), ('tallica'), ('tallinn'), ('tallis'),
+    ('tallman'), ('tallon'), ('tallulah'), ('tally'), ('tallyho'), ('talofa'), ('talon'), ('talonesi'),
+    ('talons'), ('talontsi'), ('taltos'), ('talula'), ('talus'), ('tamada'), ('tamar'), ('tamara'),
+    ('tamarack'), ('tambov'), ('tame'), ('tameka'), ('tamera'), ('tamere'), ('tamerlan'), ('tami'),
+    ('tamik'), ('tamika'), ('tamila'), ('tamiya'), ('tamm'), ('tammany'), ('tammi'), ('tammie'),
+    ('tammy'), ('tammyb'), ('tammys'), ('tampa'), ('tampabay'), ('tamper'), ('tampico'), ('tamplier'),
+    ('tampon'), ('tamtam'), ('tamu'), ('tamuna'), ('tamwsn3sja'), ('tana'), ('tanager'), ('tanaka'),
+    ('tandem'), ('tandy'), ('tane4ka'), ('tanechka'), ('tanelorn'), ('tang'), ('tangent'), ('tanger'),
+    ('tangerin'), ('tangerine'), ('tangle'), ('tangled'), ('tango'), ('tangos'), ('tangsoo'), ('tangtang'),
+    ('tanguy'), ('tani'), ('tania'), ('tanis'), ('tanisha'), ('tanita'), ('tanith'), ('tanja'),
+    ('tank'), ('tanka'), ('tankdog'), ('tanker'), ('tankers'), ('tankgirl'), ('tankist'), ('tankman'),
+    ('tanks'), ('tanlines'), ('tanman'), ('tanne'), ('tannenbau'), ('tanner'), ('tanning'), ('tanstaaf'),
+    ('tansy'), ('tantan'), ('tantor'), ('tantra'), ('tantric'), ('tantrum'), ('tanuki'), ('tanusha'),
+    ('tanushka'), ('tanya'), ('tanyas'), ('tanyshka'), ('tanzania'), ('tanzen'), ('taoist'), ('tape'),
+    ('tapestry'), ('tapeworm'), ('tapioca'), ('tapis'), ('tapout'), ('tapper'), ('taproot'), ('taptap'),
+    ('tara'), ('tarado'), ('tarah'), ('tarakan'), ('taran'), ('tarantas'), ('tarantin'), ('tarantino'),
+    ('tarantul'), ('tarantula'), ('taras'), ('tarasenko'), ('taraska'), ('tarasov'), ('tarasova'), ('taratara'),
+    ('taratata'), ('tarawa'), ('tarbaby'), ('tarbit'), ('tardis'), ('tarelka'), ('targa'), ('target'),
+    ('tarheel'), ('tarheels'), ('tariq'), ('tarkan'), ('tarkin'), ('tarkus'), ('tarmac'), ('tarnsman'),
+    ('taro'), ('tarot'), ('tarpon'), ('tarquin'), ('tarragon'), ('tarrant'), ('tart'), ('tartan'),
+    ('tartar'), ('tartaruga'), ('taryn'), ('tarza'), ('tarzan'), ('tascam'), ('tascha'), ('taser334455'),
+    ('tash'), ('tasha'), ('tashadog'), ('tashas'), ('tashia'), ('tashkent'), ('tasker'), ('tasman'),
+    ('tasmania'), ('tasmin'), ('tass'), ('tassadar'), ('tassen'), ('tassie'), ('tastatur'), ('taste'),
+    ('tastee'), ('taster'), ('tasty'), ('tata'), ('tatanka'), ('tatarin'), ('tatarka'), ('tatarstan'),
+    ('tatas'), ('tatata'), ('tatatata'), ('tate'), ('tater'), ('taterbug'), ('taters'), ('tatertot'),
+    ('tati'), ('tatian'), ('tatiana'), ('tatianna'), ('tatjana'), ('tatonka'), ('tatoo'), ('tatooine'),
+    ('tatoshka'), ('tatto'), ('tattoo'), ('tattooed'), ('tattoos'), ('tatum'), ('tatung'), ('tatyana'),
+    ('tatyo'), ('tauchen'), ('taucher'), ('taukappa'), ('taunt'), ('taunton'), ('taunus'), ('taureau'),
+    ('taurus'), ('taurussh'), ('tavasz'), ('tavern'), ('tawnee'), ('tawney'), ('tawny'), ('taxes'),
+    ('taxi'), ('taxicab'), ('taxman'), ('taxtax'), ('tayler'), ('taylo'), ('taylor'), ('taylorc'),
+    ('taylorma'), ('taylormade'), ('taylors'), ('tayson'), ('taytay'), ('tazdevil'), ('tazman'), ('tazmania'),
+    ('taztaz'), ('tazz'), ('tazzer'), ('tazzie'), ('tazzman'), ('tazztazz'), ('tazzy'), ('tazzzz'),
+    ('tbbucs'), ('tbear'), ('tbilisi'), ('tbird'), ('tbirds'), ('tbivbn'), ('tbone'), ('tboner'),
+    ('tbones'), ('tbontb'), ('tcglyued'), ('tdavis'), ('tdfyutkbjy'), ('tdhjctnm'), ('tdhjgf'), ('tdutif'),
+    ('tdutirf'), ('tdutyb'), ('tdutybq'), ('tdutybz'), ('tea4two'), ('teabag'), ('teabags'), ('teach'),
+    ('teache'), ('teacher'), ('teachers'), ('teaching'), ('teacup'), ('teagan'), ('teague'), ('teal'),
+    ('team'), ('team3x'), ('teamase'), ('teamlosi'), ('teamo'), ('teamomuch'), ('teamster'), ('teamwork'),
+    ('teaparty'), ('teapot'), ('teardrop'), ('tears'), ('tease'), ('teaseme'), ('teaser'), ('teatime'),
+    ('teatro'), ('tecate'), ('tech'), ('techdeck'), ('techie'), ('techman'), ('techn'), ('techn9ne'),
+    ('technic'), ('technica'), ('technical'), ('technici'), ('technician'), ('technics'), ('technik'), ('techniques'),
+    ('techno'), ('technolo'), ('technology'), ('tecktonik'), ('teclado'), ('tecum'), ('tecumseh'), ('tedbear'),
+    ('tedd'), ('teddie'), ('teddies'), ('teddy'), ('teddyb'), ('teddybea'), ('teddybear'), ('teddybeer'),
+    ('teddyboy'), ('teddys'), ('tedesco'), ('tedted'), ('tee0s'), ('teejay'), ('teen'), ('teenage'),
+    ('teenager'), ('teendrea'), ('teenfuck'), ('teengirl'), ('teenie'), ('teenies'), ('teenlove'), ('teens'),
+    ('teensex'), ('teenslut'), ('teenteen'), ('teeny'), ('teenz'), ('teeoff'), ('teepee'), ('teet'),
+    ('teetee'), ('teeter'), ('teeth'), ('teetime'), ('tefjps'), ('teflon'), ('tehran'), ('teiubesc'),
+    ('tejano'), ('teken'), ('tekila'), ('tekken'), ('tekkon'), ('teknik'), ('telaviv'), ('tele'),
+    ('telecast'), ('telecaster'), ('telecom'), ('telecono'), ('telefo'), ('telefon'), ('telefone'), ('telefono'),
+    ('telefoon'), ('telegrap'), ('telekom'), ('telemark'), ('telephon'), ('telephone'), ('teleport'), ('telescop'),
+    ('televisi'), ('television'), ('televizor'), ('telex'), ('teller'), ('tellme'), ('tellurid'), ('telman'),
+    ('telnet'), ('telstar'), ('temitope'), ('temp'), ('tempe'), ('temper'), ('tempest'), ('tempfire'),
+    ('tempgod'), ('templar'), ('template'), ('temple'), ('templer'), ('tempo'), ('tempor'), ('temporal'),
+    ('temporar'), ('temporary'), ('tempos'), ('temppass'), ('temppassword'), ('temptemp'), ('temptress'), ('tempus'),
+    ('temujin'), ('temuri'), ('tenafly'), ('tenbears'), ('tenchi'), ('tenchu'), ('tender'), ('tendulkar'),
+    ('tenerife'), ('tenfour'), ('teng'), ('tenn'), ('tenn1s'), ('tennesse'), ('tennessee'), ('tenni'),
+    ('tennis'), ('tennyson'), ('tenor'), ('tenore'), ('tenors'), ('tenorsax'), ('tenpin'), ('tenretni'),
+    ('tense'), ('tenshi'), ('tension'), ('tensor')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('tentacle'), ('tenten'), ('tenth'), ('teodor'), ('teodoro'), ('tequier'), ('tequiero'), ('tequil'),
+    ('tequila'), ('tequilas'), ('tequilla'), ('teratera'), ('terayon'), ('tercel'), ('terces'), ('terefon'),
+    ('teremok'), ('terence'), ('teres'), ('teresa'), ('terese'), ('teresita'), ('tereza'), ('teri'),
+    ('termin'), ('terminal'), ('terminat'), ('terminato'), ('terminator'), ('terminus'), ('termit'), ('termite'),
+    ('terorist'), ('terps'), ('terra'), ('terrace'), ('terrain'), ('terran'), ('terrance'), ('terrano'),
+    ('terranova'), ('terrapin'), ('terras'), ('terrell'), ('terrence'), ('terri'), ('terrible'), ('terrie'),
+    ('terrier'), ('terriers'), ('terrific'), ('terrill'), ('terris'), ('terro'), ('terror'), ('terrorist'),
+    ('terry'), ('terryc'), ('terrys'), ('terryter'), ('terse'), ('terter'), ('tescos'), ('tesla'),
+    ('tesoro'), ('tess'), ('tessa'), ('tessadog'), ('tessera'), ('tessie'), ('test'), ('testament'),
+    ('testdrive'), ('teste'), ('tested'), ('tester'), ('testerer'), ('testes'), ('testibil'), ('testicle'),
+    ('testify'), ('testin'), ('testing'), ('testing123'), ('testings'), ('testit'), ('testme'), ('testpass'),
+    ('testtest'), ('testuser'), ('testy'), ('tetas'), ('tetatet'), ('tete'), ('tetley'), ('tetons'),
+    ('tetra'), ('tetris'), ('tetsuo'), ('tettone'), ('teufel'), ('tevion'), ('texaco'), ('texan'),
+    ('texans'), ('texas'), ('texasboy'), ('texass'), ('texast'), ('texastec'), ('texmex'), ('text'),
+    ('textbook'), ('textex'), ('textile'), ('teymur'), ('tfjunwptzsjp'), ('tgacb'), ('tgbxtcrbq'), ('tgbyhn'),
+    ('tgif'), ('tgirls'), ('tgkbxfgy'), ('tgtgtg'), ('tgwdvu'), ('th0mas'), ('thaddeus'), ('thai'),
+    ('thailan'), ('thailand'), ('thaipron'), ('thales'), ('thalia'), ('thaman'), ('thames'), ('than'),
+    ('thanatos'), ('thanh'), ('thank'), ('thankful'), ('thankgod'), ('thanks'), ('thanku'), ('thankyou'),
+    ('thanos'), ('tharmika'), ('that'), ('thatcher'), ('thatguy'), ('thatsit'), ('thatsme'), ('thayer'),
+    ('thd1shr'), ('thea'), ('theand'), ('theanswer'), ('theater'), ('theatre'), ('thebaby'), ('theband'),
+    ('thebat'), ('thebeach'), ('thebean'), ('thebear'), ('thebears'), ('thebeast'), ('thebeatl'), ('thebeatles'),
+    ('thebends'), ('thebes'), ('thebest'), ('thebird'), ('thebitch'), ('theblack'), ('theblues'), ('thebomb'),
+    ('thebone'), ('theborg'), ('theboss'), ('theboy'), ('theboys'), ('thebrain'), ('thebull'), ('thebus'),
+    ('thecakeisalie'), ('thecat'), ('thechamp'), ('thechef'), ('theclash'), ('theclown'), ('thecount'), ('thecow'),
+    ('thecrow'), ('thecult'), ('thecure'), ('thedark'), ('thedead'), ('thedevil'), ('thedoc'), ('thedoctor'),
+    ('thedog'), ('thedon'), ('thedoors'), ('thedrago'), ('thedream'), ('thedude'), ('theduke'), ('theedge'),
+    ('theend'), ('thefall'), ('thefirm'), ('theflash'), ('thefly'), ('theforce'), ('thefox'), ('thefrog'),
+    ('thegam'), ('thegame'), ('theghost'), ('thegirl'), ('thegirls'), ('thegoat'), ('thegod'), ('thegoose'),
+    ('thegreat'), ('thegreatone'), ('thegreek'), ('theguy'), ('thehawk'), ('thehill'), ('thehip'), ('thehouse'),
+    ('thehulk'), ('thehun'), ('their'), ('thejam'), ('thejoker'), ('thekey'), ('thekid'), ('thekidd'),
+    ('thekids'), ('thekiller'), ('thekin'), ('theking'), ('thekop'), ('thelema'), ('thelion'), ('thelma'),
+    ('thelord'), ('thelove'), ('thema'), ('themack'), ('theman'), ('themann'), ('themask'), ('themaste'),
+    ('themaster'), ('thematri'), ('thematrix'), ('theme'), ('themes'), ('themis'), ('themoon'), ('themost'),
+    ('thenet'), ('thenight'), ('theo'), ('theodor'), ('theodora'), ('theodore'), ('theology'), ('theon'),
+    ('theone'), ('theory'), ('thepain'), ('thepope'), ('thepower'), ('thepro'), ('therams'), ('therapy'),
+    ('therat'), ('theraven'), ('there'), ('thered'), ('thereds'), ('theresa'), ('therese'), ('thering'),
+    ('therion'), ('theriver'), ('thermal'), ('thermo'), ('theroc'), ('therock'), ('therocks'), ('theron'),
+    ('thersh'), ('thesaint'), ('thesame'), ('these'), ('theseus'), ('thesheep'), ('theshit'), ('theshow'),
+    ('thesimpsons'), ('thesims'), ('thesis'), ('thesky'), ('thesmith'), ('thesnake'), ('thespian'), ('thespot'),
+    ('thestone'), ('thestuff'), ('thesun'), ('theta'), ('thetachi'), ('thetaxi'), ('thetaz'), ('thetford'),
+    ('thethe'), ('thething'), ('thethird'), ('thetick'), ('thetruth'), ('thetwins'), ('theused'), ('thewad'),
+    ('thewall'), ('theway'), ('thewho'), ('thewiz'), ('thewolf'), ('theword'), ('theworld'), ('theworm'),
+    ('thexfile'), ('thiago'), ('thiaguinho'), ('thibault'), ('thick'), ('thicker'), ('thicket'), ('thicknes'),
+    ('thickone'), ('thicluv'), ('thief'), ('thienthan'), ('thierry'), ('thighs'), ('thimble'), ('thin'),
+    ('thing'), ('things'), ('thingy'), ('think'), ('thinkbig'), ('thinker'), ('thinking'), ('thinkpad'),
+    ('thinks'), ('thinline'), ('thinner'), ('third'), ('thirdeye'), ('thirsty'), ('thirteen'), ('thirteen13'),
+    ('thirty'), ('this'), ('this4now'), ('thisis'), ('thisisit'), ('thisisme'), ('thisone'), ('thissite'),
+    ('thissuck'), ('thissucks'), ('thistle'), ('thnkuwap'), ('tho279z'), ('thom'), ('thoma'), ('thomas'),
+    ('thomasd'), ('thomasj'), ('thomass'), ('thommy'), ('thompson'), ('thomsen'), ('thomson'), ('thong'),
+    ('thongs'), ('thor'), ('thoradin'), ('thordog'), ('thorin'), ('thorn'), ('thorne'), ('thorns'),
+    ('thornton'), ('thorny'), ('thorpe'), ('thorsten'), ('thorthor'), ('thorvald'), ('thoth'), ('though'),
+    ('thought'), ('thoughts'), ('thousand'), ('thrall'), ('thrash'), ('thrasher'), ('thrawn'), ('thread'),
+    ('threads'), ('threat'), ('three'), ('threeday'), ('threee'), ('threekid'), ('threepio'), ('threesix'),
+    ('threesom'), ('threesome'), ('thresher'), ('thrice'), ('thrifty'), ('thrill'), ('thriller'), ('throat'),
+    ('throatfuck'), ('throb'), ('throbber'), ('throne'), ('throng'), ('throttle'), ('through'), ('throw'),
+    ('thrower'), ('thrush'), ('thrust'), ('thruster'), ('thtvtyrj'), ('thug'), ('thug4life'), ('thuggin'),
+    ('thuggish'), ('thuglife'), ('thuglove'), ('thugstools'), ('thumb'), ('thumbnils'), ('thumbs'), ('thump'),
+    ('thumper'), ('thunde'), ('thunder'), ('thunder123'), ('thunderb'), ('thunderbird'), ('thunderbolt'), ('thunderc'),
+    ('thundercat'), ('thunderr'), ('thunders'), ('thurber'), ('thurman'), ('thursday'), ('thurston'), ('thuy'),
+    ('thvfrjdf'), ('thwack'), ('tiamaria'), ('tiamat'), ('tian'), ('tianna'), ('tiao'), ('tiara'),
+    ('tibbar'), ('tiberian'), ('tiberiu'), ('tiberium'), ('tiberius'), ('tibet'), ('tibia'), ('tiburo'),
+    ('tiburon'), ('tical'), ('ticino'), ('tick'), ('ticker'), ('ticket'), ('ticketmaster'), ('tickets'),
+    ('tickle'), ('tickled'), ('tickleme'), ('tickler')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('tickles'), ('tickling'), ('ticklish'), ('ticktick'), ('ticktock'), ('tico'), ('ticonder'), ('ticotico'),
+    ('tictac'), ('tictoc'), ('tidbit'), ('tiddles'), ('tide'), ('tidwell'), ('tiedomi'), ('tiedup'),
+    ('tiemeup'), ('tiern'), ('tierr'), ('tierra'), ('tiesto'), ('tieten'), ('tiff'), ('tiffan'),
+    ('tiffani'), ('tiffanie'), ('tiffany'), ('tiffanys'), ('tiffer'), ('tiffin'), ('tiffy'), ('tifosi'),
+    ('tige'), ('tiger'), ('tigerboy'), ('tigercat'), ('tigereye'), ('tigerfan'), ('tigerlil'), ('tigerlily'),
+    ('tigerman'), ('tigern'), ('tigerpaw'), ('tigerr'), ('tigers'), ('tigersha'), ('tigertig'), ('tigertiger'),
+    ('tigerwoo'), ('tigerwoods'), ('tigerz'), ('tigge'), ('tigger'), ('tiggers'), ('tiggy'), ('tight'),
+    ('tightass'), ('tightcunt'), ('tightend'), ('tighthole'), ('tightpus'), ('tights'), ('tigr'), ('tigran'),
+    ('tigras'), ('tigre'), ('tigrenok'), ('tigres'), ('tigress'), ('tigris'), ('tigrou'), ('tihomirova'),
+    ('tihonov'), ('tiiger'), ('tiikeri'), ('tijean'), ('tijger'), ('tijuana'), ('tika'), ('tiki'),
+    ('tikitiki'), ('tiktak'), ('tiktonik'), ('tilburg'), ('tilden'), ('tile'), ('tileman'), ('till'),
+    ('tilleie'), ('tiller'), ('tilley'), ('tillie'), ('tillman'), ('tilly'), ('tima'), ('timati'),
+    ('timber'), ('timberla'), ('timberlake'), ('timberland'), ('timberwo'), ('timberwolf'), ('timbo'), ('timbre'),
+    ('timbuktu'), ('timdog'), ('time'), ('time2go'), ('timebomb'), ('timecop'), ('timeless'), ('timeline'),
+    ('timelord'), ('timeout'), ('timepass'), ('timeport'), ('timer'), ('timers'), ('times'), ('timetime'),
+    ('timetogo'), ('timewarp'), ('timex'), ('timexx'), ('timezone'), ('timid'), ('timing'), ('timm'),
+    ('timmay'), ('timmer'), ('timmie'), ('timmons'), ('timmy'), ('timmyd'), ('timmys'), ('timofeeva'),
+    ('timofei'), ('timofey'), ('timoha'), ('timon'), ('timosha'), ('timoshka'), ('timote'), ('timoteo'),
+    ('timoth'), ('timothy'), ('timoxa'), ('timpani'), ('tims'), ('timtim'), ('timtom'), ('timur'),
+    ('timurka'), ('tina'), ('tinatina'), ('tincan'), ('tinchair'), ('tincouch'), ('tincup'), ('tindoor'),
+    ('tine'), ('tinfloor'), ('ting'), ('tingle'), ('tingting'), ('tinhorse'), ('tink'), ('tinker'),
+    ('tinkerbe'), ('tinkerbel'), ('tinkerbell'), ('tinkle'), ('tinman'), ('tinmouse'), ('tinner'), ('tino'),
+    ('tinotino'), ('tinroof'), ('tinsel'), ('tintable'), ('tinti'), ('tintin'), ('tinuviel'), ('tiny'),
+    ('tinytim'), ('tioga'), ('tion'), ('tipper'), ('tippie'), ('tipple'), ('tippmann'), ('tippy'),
+    ('tippytoe'), ('tips'), ('tipsy'), ('tiptip'), ('tiptoe'), ('tipton'), ('tiptop'), ('tiramisu'),
+    ('tirana'), ('tiraspol'), ('tire'), ('tired'), ('tireman'), ('tires'), ('tirpitz'), ('tish'),
+    ('tisha'), ('tishka'), ('tissot'), ('tissue'), ('tita'), ('titan'), ('titani'), ('titania'),
+    ('titanic'), ('titanik'), ('titanium'), ('titans'), ('titfuck'), ('titi'), ('titian'), ('titicaca'),
+    ('tities'), ('titikaka'), ('tititi'), ('titititi'), ('title'), ('titleist'), ('titlover'), ('titman'),
+    ('titmouse'), ('tito'), ('titone'), ('titotito'), ('titova'), ('tits'), ('titsass'), ('titsnass'),
+    ('titstits'), ('titten'), ('titti'), ('tittie'), ('titties'), ('tittit'), ('titts'), ('titty'),
+    ('tittys'), ('titus'), ('tivoli'), ('tizian'), ('tiziana'), ('tiziano'), ('tjones'), ('tkachenko'),
+    ('tkachuk'), ('tkbpfdtnf'), ('tkfkdg'), ('tkfkdgo'), ('tkjxrf'), ('tktyf'), ('tktyrf'), ('tl1000s'),
+    ('tlaloc'), ('tlbyjhju'), ('tmac'), ('tman'), ('tmoney'), ('tn278sm'), ('tnttnt'), ('tnuc'),
+    ('tnvols'), ('toad'), ('toadfrog'), ('toadie'), ('toadman'), ('toadtoad'), ('toast'), ('toasted'),
+    ('toaster'), ('toasters'), ('toastie'), ('toasty'), ('tobacco'), ('tobago'), ('tobasco'), ('tobbie'),
+    ('tobe'), ('tobi'), ('tobia'), ('tobias'), ('tobie'), ('toblerone'), ('tobrin'), ('toby'),
+    ('tobyboy'), ('tobycat'), ('tobydog'), ('tobyto'), ('tobytoby'), ('toccata'), ('toccoa'), ('tochka'),
+    ('tocool'), ('toctoc'), ('today'), ('todays'), ('todd'), ('toddler'), ('toddly'), ('toddster'),
+    ('todiefor'), ('toejam'), ('toeman'), ('toenail'), ('toenails'), ('toering'), ('toes'), ('toetoe'),
+    ('tofast'), ('toffee'), ('tofu'), ('tofuck'), ('togepi'), ('together'), ('toggle'), ('togo'),
+    ('toilet'), ('tojiik85521133'), ('tojo'), ('tokamak'), ('tokarev'), ('toke'), ('token'), ('tokenbad'),
+    ('tokens'), ('toki'), ('tokiohotel'), ('toko'), ('tokyo'), ('toledo'), ('tolik'), ('tolkein'),
+    ('tolkie'), ('tolkien'), ('toll'), ('toller'), ('tolstoy'), ('toltec'), ('toluca'), ('toma'),
+    ('tomahawk'), ('tomas'), ('tomasa'), ('tomasito'), ('tomass'), ('tomasz'), ('tomat'), ('tomate'),
+    ('tomates'), ('tomato'), ('tomatoe'), ('tomatoes'), ('tomb'), ('tombola'), ('tomboy'), ('tombrady'),
+    ('tombraid'), ('tombraider'), ('tombston'), ('tombstone'), ('tomcat'), ('tomch'), ('tomcruis'), ('tomcruise'),
+    ('tome'), ('tomgreen'), ('tomi'), ('tomislav'), ('tomjerry'), ('tomjones'), ('tomkat'), ('tomm'),
+    ('tommaso'), ('tommi'), ('tommie'), ('tommot'), ('tommy'), ('tommyb'), ('tommyboy'), ('tommycat'),
+    ('tommyd'), ('tommyg'), ('tommygun'), ('tommyk'), ('tommylee'), ('tommys'), ('tommyt'), ('tommyw'),
+    ('tommyy'), ('tomoko'), ('tomomi'), ('tomorrow'), ('tompetty'), ('tompkins'), ('toms'), ('tomservo'),
+    ('tomson'), ('tomthumb'), ('tomto'), ('tomtom'), ('tomuch'), ('tomwaits'), ('tonchin'), ('tone'),
+    ('tonedup'), ('tong'), ('tongue'), ('toni'), ('tonic'), ('tonight'), ('tonino'), ('tonio'),
+    ('tonite'), ('tonitoni'), ('tonka'), ('tonna'), ('tonnie'), ('tonto'), ('tonton'), ('tontos'),
+    ('tony'), ('tony_t'), ('tonya'), ('tonyd'), ('tonyhawk'), ('tonystar'), ('tonytony'), ('toobad'),
+    ('toobig'), ('toocool'), ('toodles'), ('toofast'), ('toogood'), ('toohot'), ('tookie'), ('tool'),
+    ('toolband'), ('toolbox'), ('toolfan'), ('tooling'), ('toolkit'), ('toolman'), ('toolong'), ('tools'),
+    ('toolshed'), ('tooltime'), ('tooltool'), ('toomany'), ('toomuch'), ('toon'), ('toonami'), ('toonarmy'),
+    ('toonces'), ('toonporn'), ('toons'), ('toonsex'), ('toontoon'), ('toontown'), ('toools'), ('toor'),
+    ('toosexy'), ('tooshort'), ('toosweet'), ('toot'), ('tootall'), ('tooter'), ('tooth'), ('toothpic'),
+    ('toothy'), ('tootie'), ('tooting'), ('tootle'), ('tootoo'), ('toots'), ('tootsie'), ('toottoot'),
+    ('topanga'), ('topaz'), ('topaze'), ('topazz'), ('topcat'), ('topcon'), ('topcop'), ('topdawg'),
+    ('topdevice'), ('topdog'), ('topdogg'), ('topeka')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('topflite'), ('topfuel'), ('topgun'), ('tophat'), ('topher'), ('toplay'), ('topless'), ('topman'),
+    ('topnotch'), ('topolino'), ('toppdogg'), ('topper'), ('toppers'), ('topping'), ('tops'), ('topsecre'),
+    ('topsecret'), ('topshelf'), ('topside'), ('topspin'), ('topsy'), ('topten'), ('toptop'), ('toptotty'),
+    ('tora'), ('torana'), ('toratora'), ('torben'), ('torch'), ('tore'), ('toreador'), ('torero'),
+    ('torey'), ('tori'), ('toriamos'), ('toribi'), ('torie'), ('torin'), ('torino'), ('torito'),
+    ('toritori'), ('torment'), ('tormoz'), ('tornado'), ('tornados'), ('tornike'), ('toro'), ('torock'),
+    ('toront'), ('toronto'), ('toroto'), ('torotoro'), ('torpedo'), ('torquay'), ('torque'), ('torrance'),
+    ('torre'), ('torrejon'), ('torrent'), ('torrente'), ('torrents'), ('torres'), ('torrey'), ('torrid'),
+    ('torrie'), ('torsion'), ('torsten'), ('tort'), ('tortik'), ('tortilla'), ('tortoise'), ('tortola'),
+    ('tortor'), ('tortue'), ('tortuga'), ('torture'), ('tory'), ('tosca'), ('toscana'), ('tosh'),
+    ('toshi'), ('toshiaki'), ('toshib'), ('toshiba'), ('toshiro'), ('toshka'), ('toskana'), ('tosser'),
+    ('total'), ('totally'), ('totalwar'), ('totem'), ('totenkopf'), ('tothemax'), ('tothetop'), ('toto'),
+    ('totoro'), ('totosha'), ('tototo'), ('totototo'), ('totten'), ('tottenha'), ('tottenham'), ('tottenham1'),
+    ('totti'), ('tottie'), ('totty'), ('touareg'), ('toucan'), ('touch'), ('touchdow'), ('touchdown'),
+    ('touche'), ('touching'), ('touchit'), ('touchme'), ('touchy'), ('tough'), ('toughguy'), ('toulon'),
+    ('toulous'), ('toulouse'), ('tounge'), ('tour'), ('touring'), ('tourist'), ('toutou'), ('toutoune'),
+    ('tove'), ('towanda'), ('toward'), ('towel'), ('towels'), ('tower'), ('towerman'), ('towers'),
+    ('towing'), ('towman'), ('town'), ('towncar'), ('townsend'), ('townshen'), ('towser'), ('towson'),
+    ('towtruck'), ('toxic'), ('toxicity'), ('toybox'), ('toyboy'), ('toyman'), ('toyot'), ('toyota'),
+    ('toys'), ('toystory'), ('tplate'), ('tr0uble'), ('tr1n1ty'), ('trabajo'), ('trabant'), ('trac'),
+    ('traccount'), ('trace'), ('tracee'), ('tracer'), ('tracey'), ('traci'), ('tracie'), ('track'),
+    ('tracker'), ('tracking'), ('tracks'), ('tracksta'), ('tractor'), ('tractors'), ('tracy'), ('trade'),
+    ('trademan'), ('trader'), ('trading'), ('trafalga'), ('traffic'), ('trafficracer'), ('trafford'), ('tragedy'),
+    ('tragic'), ('trail'), ('trailer'), ('trailers'), ('traills'), ('trails'), ('train'), ('trainer'),
+    ('trainers'), ('training'), ('trainman'), ('trains'), ('traitor'), ('trajan'), ('traktor'), ('traktorist'),
+    ('traktorji'), ('tralala'), ('tralfaz'), ('tram'), ('trammell'), ('tramp'), ('trample'), ('tramps'),
+    ('tran'), ('trance'), ('trancer'), ('trandafir'), ('tranmere'), ('trannies'), ('tranny'), ('tranquil'),
+    ('trans'), ('transa'), ('transalp'), ('transam'), ('transcend'), ('transex'), ('transexual'), ('transfer'),
+    ('transfor'), ('transform'), ('transformer'), ('transformers'), ('transistor'), ('transit'), ('transits'), ('translator'),
+    ('transpor'), ('transport'), ('transporter'), ('transsex'), ('trantor'), ('tranzit'), ('trap'), ('trapdoor'),
+    ('trapped'), ('trapper'), ('trasfiv'), ('trash'), ('trashcan'), ('trashed'), ('trashman'), ('trashy'),
+    ('tratata'), ('tratra'), ('trauma'), ('travail'), ('trave'), ('travel'), ('traveler'), ('travelle'),
+    ('traveller'), ('travelmate'), ('travels'), ('travers'), ('traverse'), ('travesti'), ('travi'), ('travian'),
+    ('travies'), ('travieso'), ('travis'), ('travka'), ('travolta'), ('traxdata'), ('traxxas'), ('tray'),
+    ('trazom'), ('treacle'), ('treasure'), ('treasury'), ('treat'), ('treats'), ('treb'), ('trebla'),
+    ('treble'), ('trebor'), ('tree'), ('treebark'), ('treech'), ('treefrog'), ('treehous'), ('treehouse'),
+    ('treeman'), ('trees'), ('treess'), ('treetop'), ('treetops'), ('treetree'), ('trek'), ('trekbike'),
+    ('treker'), ('trekker'), ('trekkie'), ('trekstar'), ('trektrek'), ('tremblay'), ('tremble'), ('tremendo'),
+    ('tremere'), ('tremont'), ('tremor'), ('trench'), ('trend'), ('trendy'), ('trent'), ('trento'),
+    ('trenton'), ('tresor'), ('trespass'), ('tress'), ('tressa'), ('tretre'), ('trev'), ('trever'),
+    ('trevino'), ('treviso'), ('trevo'), ('trevoga'), ('trevon'), ('trevor'), ('trew'), ('trewq'),
+    ('trex'), ('trey'), ('trfnthby'), ('trfnthbyf'), ('triad'), ('triada'), ('triade'), ('trial'),
+    ('trials'), ('triangle'), ('triathlo'), ('triathlon'), ('tribal'), ('tribble'), ('tribbles'), ('tribe'),
+    ('tribeca'), ('tribes'), ('tribunal'), ('tribune'), ('tribute'), ('tricia'), ('trick'), ('trickle'),
+    ('tricks'), ('trickste'), ('trickster'), ('tricky'), ('tricolor'), ('trident'), ('trider'), ('trieste'),
+    ('trifecta'), ('trifle'), ('triforce'), ('trigga'), ('trigger'), ('trigun'), ('trill'), ('trillian'),
+    ('trillion'), ('trillium'), ('trilogy'), ('trim'), ('trim7gun'), ('trimix'), ('trimmer'), ('trimner'),
+    ('trina'), ('trini'), ('trinidad'), ('trinit'), ('triniti'), ('trinitro'), ('trinitron'), ('trinity'),
+    ('trinket'), ('trio'), ('trip'), ('triple'), ('tripleh'), ('triplet'), ('triplets'), ('triplex'),
+    ('tripod'), ('tripoli'), ('tripp'), ('trippe'), ('tripper'), ('trippin'), ('tripping'), ('trippy'),
+    ('trips'), ('tris'), ('trish'), ('trisha'), ('trishul'), ('trista'), ('tristan'), ('tristar'),
+    ('triste'), ('tristen'), ('tristian'), ('tristin'), ('triston'), ('tristram'), ('triton'), ('triumph'),
+    ('trivia'), ('trivial'), ('trivium'), ('trix'), ('trixi'), ('trixie'), ('trixter'), ('trodat'),
+    ('trofimov'), ('trogdor'), ('troi'), ('troika'), ('trojan'), ('trojans'), ('troll'), ('trolley'),
+    ('trolling'), ('trolls'), ('trolo'), ('trololo'), ('trombon'), ('trombone'), ('trompete'), ('tron'),
+    ('tronic'), ('trontron'), ('troop'), ('trooper'), ('troopers'), ('troper'), ('tropez'), ('trophy'),
+    ('tropic'), ('tropical'), ('tropicana'), ('tropico'), ('tropics'), ('troppus'), ('trot'), ('trotfox'),
+    ('trotsky'), ('trottel'), ('trotter'), ('trotters'), ('trottier'), ('troube'), ('troubl'), ('trouble'),
+    ('troubles'), ('trousers'), ('trout'), ('troutbum'), ('troutman'), ('trouts'), ('troy'), ('troyboy'),
+    ('troytroy'), ('truant'), ('truc'), ('truck'), ('trucker'), ('truckers'), ('truckin'), ('trucking'),
+    ('truckman'), ('trucks'), ('trudie'), ('trudy'), ('true'), ('trueblue'), ('truegrit'), ('truelies'),
+    ('truelov'), ('truelove'), ('trueman'), ('trueno'), ('truffle'), ('truffles'), ('truitt'), ('trujillo'),
+    ('truls'), ('truly'), ('truman'), ('trump')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('trumper'), ('trumpet'), ('trumpets'), ('trunk'), ('trunks'), ('trunte'), ('truong'), ('truskawka'),
+    ('trust'), ('trustee'), ('trusting'), ('trustme'), ('trustno'), ('trustnoo'), ('trustnoone'), ('trusty'),
+    ('truth'), ('truths'), ('tryagain'), ('tryfan'), ('trying'), ('tryit'), ('tryme'), ('tryout'),
+    ('trythis'), ('trytobra'), ('trytry'), ('tsadmin'), ('tsalagi'), ('tsclient'), ('tset'), ('tslabels'),
+    ('tsmith'), ('tsubasa'), ('tsunami'), ('tsutomu'), ('ttam'), ('ttigger'), ('ttocs'), ('tttt'),
+    ('ttttt'), ('tttttt'), ('ttttttt'), ('tttttttt'), ('ttttttttt'), ('tttttttttt'), ('tttyyy'), ('tuan'),
+    ('tuananh'), ('tuareg'), ('tuba'), ('tubaman'), ('tubbie'), ('tubby'), ('tube'), ('tubgtn'),
+    ('tubitzen'), ('tuborg'), ('tubular'), ('tucan'), ('tucano'), ('tuck'), ('tucke'), ('tucker'),
+    ('tucson'), ('tudor'), ('tuesday'), ('tuff'), ('tuffgong'), ('tuffguy'), ('tuffy'), ('tugboat'),
+    ('tugger'), ('tugnut'), ('tujazopi'), ('tujheirf'), ('tujhjdf'), ('tujhrf'), ('tujhsx'), ('tuktuk'),
+    ('tulane'), ('tulip'), ('tulipan'), ('tulips'), ('tull'), ('tuller'), ('tulley'), ('tulpan'),
+    ('tulsa'), ('tumadre'), ('tumbin'), ('tumble'), ('tumbleweed'), ('tumeio'), ('tummy'), ('tummybed'),
+    ('tums'), ('tumtum'), ('tuna'), ('tunafish'), ('tunatuna'), ('tundra'), ('tune'), ('tunes'),
+    ('tunguska'), ('tunica'), ('tunin'), ('tuning'), ('tunisia'), ('tunisie'), ('tunnel'), ('tuntun'),
+    ('tupac'), ('tupacs'), ('tupacshakur'), ('tupelo'), ('tuppence'), ('tupper'), ('tura'), ('tural'),
+    ('turambar'), ('turandot'), ('turbine'), ('turbo'), ('turbodog'), ('turboman'), ('turbos'), ('turbot'),
+    ('turboz'), ('turbulen'), ('turd'), ('turga'), ('turin'), ('turing'), ('turism'), ('turismo'),
+    ('turist'), ('turk'), ('turke'), ('turkey'), ('turkish'), ('turkiye'), ('turmoil'), ('turn'),
+    ('turnb'), ('turnbull'), ('turner'), ('turning'), ('turnip'), ('turnkey'), ('turnpike'), ('turntabl'),
+    ('turntable'), ('turok'), ('turret'), ('turtl'), ('turtle'), ('turtles'), ('turtoise'), ('tuscan'),
+    ('tuscany'), ('tuscl'), ('tushkan'), ('tusk'), ('tusker'), ('tusymo'), ('tute'), ('tutor'),
+    ('tuttar'), ('tutti'), ('tuttle'), ('tuttut'), ('tutu'), ('tututu'), ('tuvieja'), ('tuxedo'),
+    ('tuyy'), ('tv612se'), ('tvmarcia'), ('tvtvtv'), ('tvxtjk7r'), ('twain'), ('twat'), ('twats'),
+    ('tweaker'), ('tweedy'), ('tweek'), ('tweeker'), ('tweeling'), ('tweet'), ('tweeter'), ('tweetie'),
+    ('tweety'), ('tweezer'), ('twelve'), ('twenty'), ('twentyon'), ('twice'), ('twiddle'), ('twiggy'),
+    ('twiglet'), ('twilight'), ('twin'), ('twinboys'), ('twincam'), ('twincity'), ('twine'), ('twinge'),
+    ('twingo'), ('twink'), ('twinkie'), ('twinkies'), ('twinkle'), ('twinkles'), ('twinks'), ('twinky'),
+    ('twinpeaks'), ('twins'), ('twinsen'), ('twinss'), ('twinstar'), ('twinturb'), ('twinz'), ('twirl'),
+    ('twist'), ('twista'), ('twiste'), ('twisted'), ('twister'), ('twisters'), ('twisty'), ('twistys'),
+    ('twit'), ('twitch'), ('twitter'), ('twiztid'), ('twizzle'), ('twizzler'), ('twoboys'), ('twocats'),
+    ('twodogs'), ('twogirls'), ('twokids'), ('twolves'), ('twoods'), ('twoone'), ('twopac'), ('twostep'),
+    ('twothree'), ('twotone'), ('twotwo'), ('tybalt'), ('tycobb'), ('tycoon'), ('tyghbn'), ('tygrys'),
+    ('tylenol'), ('tyler'), ('tylerb'), ('tylerca310'), ('tylerd'), ('tylerj'), ('tylers'), ('tynio'),
+    ('type'), ('typer'), ('typhon'), ('typhoon'), ('typical'), ('tyra'), ('tyrant'), ('tyrell'),
+    ('tyrese'), ('tyrone'), ('tyson'), ('tysons'), ('tyty'), ('tytyty'), ('tytytyty'), ('tyui'),
+    ('tyuiop'), ('tyutyu'), ('tyvugq'), ('tzeentch'), ('tzewserr'), ('tzpvaw'), ('u4slpwra'), ('uaeuaeman'),
+    ('uandme'), ('uberl33t'), ('ubetcha'), ('ubique'), ('ubisoft'), ('ubitch'), ('ublhjgjybrf'), ('ubnfhf'),
+    ('ubnkthrfgen'), ('ubvyfcnbrf'), ('ubvyfpbz'), ('uchiha'), ('uchimata'), ('ucla'), ('uconn'), ('udacha'),
+    ('udbwsk'), ('udders'), ('udinese'), ('ue8fpw'), ('uehby92pac'), ('uekmyfhf'), ('ueptkm'), ('ufdhbkjdf'),
+    ('ufdhbr'), ('ufdibyjd'), ('ufdyfrecjr'), ('ufgyndmv'), ('ufhhbgjnnth'), ('ufhvjybz'), ('ufkbyf'), ('ufkfrnbrf'),
+    ('ufkjxrf'), ('ufkxjyjr'), ('ufptkm'), ('ufufhby'), ('ufyljy'), ('uganda'), ('ugejvp'), ('ugly'),
+    ('uhbujhbq'), ('uhbyuj'), ('uhfdbwfgf'), ('uhfvjnf'), ('uhfyfn'), ('uhjpysq'), ('uhoh'), ('uhtqneyu'),
+    ('uiop'), ('uiorew'), ('uiuiui'), ('ujhijr'), ('ujhjcrjg'), ('ujhjljr'), ('ujkjcf'), ('ujkjdf'),
+    ('ujkjdjkjvrf'), ('ujnbrf'), ('ujujkm'), ('ujyobr'), ('ujyxfhjdf'), ('ukcats'), ('ukflbfnjh'), ('ukflbjkec'),
+    ('ukfveh'), ('ukraina'), ('ukraine'), ('ulalas'), ('uliana'), ('ulises'), ('ulisse'), ('ullrich'),
+    ('ulrich'), ('ulrika'), ('ulrike'), ('ulster'), ('ultima'), ('ultimate'), ('ultimatum'), ('ultimo'),
+    ('ultra'), ('ultracash'), ('ultraman'), ('ultras'), ('ultravox'), ('ulugbek'), ('ulyana'), ('ulysse'),
+    ('ulysses'), ('umar'), ('umass'), ('umberto'), ('umbra'), ('umbrella'), ('umisushi'), ('umlaut'),
+    ('ummagumm'), ('ummagumma'), ('umpire'), ('un4given'), ('unable'), ('unb4g9ty'), ('unbelievable'), ('uncanny'),
+    ('uncencored'), ('uncle'), ('unclebob'), ('uncled'), ('uncles'), ('unclesam'), ('uncletom'), ('uncut'),
+    ('undead'), ('under'), ('underage'), ('undercover'), ('underdog'), ('undergro'), ('undergroun'), ('underground'),
+    ('underhil'), ('undernet'), ('underpar'), ('understand'), ('undertak'), ('undertake'), ('undertaker'), ('undertow'),
+    ('underwat'), ('underwater'), ('underwea'), ('underwear'), ('underwoo'), ('underwood'), ('underwor'), ('underworld'),
+    ('undies'), ('undne'), ('undone'), ('unforgiv'), ('unforgiven'), ('unhappy'), ('unholy'), ('unicor'),
+    ('unicorn'), ('unicorns'), ('unicron'), ('unicum'), ('uniden'), ('unified'), ('uniform'), ('uninstallsql'),
+    ('union'), ('unions'), ('uniqu'), ('unique'), ('uniqueness'), ('unisol'), ('unison'), ('unisys'),
+    ('unit'), ('unitas'), ('unite'), ('unitec'), ('united'), ('unity'), ('univer'), ('univers'),
+    ('universa'), ('universal'), ('universe'), ('universi'), ('universidad'), ('university'), ('universo'), ('unix'),
+    ('unknow'), ('unknown'), ('unleashed'), ('unlimite'), ('unlimited'), ('unlock'), ('unlucky'), ('unnamed'),
+    ('unreal'), ('unseen'), ('until'), ('untitled'), ('unusual'), ('up9x8rww'), ('upchuck'), ('update'),
+    ('updown'), ('updrop'), ('upfprjew'), ('upgrade'), ('upinya'), ('upiter'), ('upland'), ('uplink'),
+    ('upload'), ('uploadlb'), ('upnda1re'), ('upnfmc'), ('upper'), ('upright'), ('uproar'), ('upside'),
+    ('upsilon'), ('upskirt'), ('upsman'), ('uptheass')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('uptown'), ('upupup'), ('upward'), ('upyachka'), ('upyours'), ('uragan'), ('uranium'), ('uranus'),
+    ('urban'), ('urbana'), ('urchin'), ('urgent'), ('urinal'), ('urine'), ('urlacher'), ('urlaub'),
+    ('urlcache'), ('urlmon'), ('urology'), ('urracco'), ('ursitesux'), ('ursula'), ('ursus'), ('uruguay'),
+    ('usaf'), ('usafpaca'), ('usagi'), ('usarmy'), ('usausa'), ('usbank'), ('usbhub'), ('useful'),
+    ('useless'), ('user'), ('userexecute'), ('usermane'), ('username'), ('userpass'), ('users'), ('useruser'),
+    ('usgrant'), ('usher'), ('usmail'), ('usmarine'), ('usmc'), ('usmcusmc'), ('usnavy'), ('usnret'),
+    ('usopen'), ('ussy'), ('ustinov'), ('ustinova'), ('usual'), ('usuck'), ('usuckballz1'), ('utah'),
+    ('utahjazz'), ('utfp5e'), ('uthfcbv'), ('uthnhelf'), ('uthvbjyf'), ('uthvfy'), ('uthvfybz'), ('utica'),
+    ('utility'), ('utjhubq'), ('utjuhfabz'), ('utjvtnhbz'), ('utmost'), ('utopia'), ('utrecht'), ('utvols'),
+    ('utythfk'), ('utyyflbq'), ('utyyflmtdyf'), ('uuuu'), ('uuuuu'), ('uuuuuu'), ('uuuuuuu'), ('uuuuuuuu'),
+    ('uuuuuuuuu'), ('uuuuuuuuuu'), ('uvdwgt'), ('uvmrysez'), ('uvwxyz'), ('uwa2df2n'), ('uwrl7c'), ('uxmdzi4o'),
+    ('uyeptjnx'), ('uyjvbr'), ('uytrewq'), ('uyxnyd'), ('uzalknap'), ('uzasjhas'), ('uzumaki'), ('uzumymw'),
+    ('v123456789'), ('v2jmsz'), ('v5150h'), ('vacances'), ('vacation'), ('vacuum'), ('vader'), ('vaders'),
+    ('vadim'), ('vadimka'), ('vaduz'), ('vaffanculo'), ('vagabond'), ('vagina'), ('vagner'), ('vagrant'),
+    ('vahagngsg'), ('vaibhav'), ('vail'), ('vaillant'), ('vakantie'), ('vakula'), ('valakas'), ('valarie'),
+    ('valby'), ('valdemar'), ('valdepen'), ('valdes'), ('valdez'), ('vale'), ('valenci'), ('valencia'),
+    ('valenok'), ('valent'), ('valente'), ('valenti'), ('valentin'), ('valentina'), ('valentine'), ('valentinka'),
+    ('valentino'), ('valer'), ('valera'), ('valeri'), ('valeria'), ('valerian'), ('valerie'), ('valerija'),
+    ('valerik'), ('valerio'), ('valeriy'), ('valeriya'), ('valerka'), ('valeron'), ('valery'), ('valet'),
+    ('valetudo'), ('valhala'), ('valhalla'), ('valheru'), ('valiant'), ('valid'), ('validate'), ('validpwd'),
+    ('valium'), ('valjean'), ('valkerie'), ('valkiria'), ('valkyrie'), ('vallarta'), ('vallejo'), ('valley'),
+    ('valleywa'), ('vallon'), ('valmet'), ('valmont'), ('valter'), ('value'), ('values'), ('valusha'),
+    ('valuta'), ('valve'), ('valves'), ('valvoline'), ('valya'), ('vamos'), ('vamp'), ('vampir'),
+    ('vampire'), ('vampires'), ('vampiro'), ('vampyr'), ('vampyre'), ('vanburen'), ('vance'), ('vancouve'),
+    ('vancouver'), ('vandal'), ('vandam'), ('vandamme'), ('vandana'), ('vandelay'), ('vander'), ('vanderbilt'),
+    ('vandread'), ('vandy'), ('vandyke'), ('vane4ka'), ('vanechka'), ('vanes'), ('vanesa'), ('vaness'),
+    ('vanessa'), ('vangar'), ('vangelis'), ('vangog'), ('vangogh'), ('vanguard'), ('vanhalen'), ('vanhorn'),
+    ('vanila'), ('vanill'), ('vanilla'), ('vanille'), ('vanina'), ('vanish'), ('vanity'), ('vanman'),
+    ('vannasx'), ('vanner'), ('vano'), ('vanovano'), ('vanquish'), ('vans'), ('vantage'), ('vanvan'),
+    ('vanya'), ('vanyarespekt'), ('vaquero'), ('varadero'), ('vardan'), ('vardann'), ('varela'), ('varenik'),
+    ('vargas'), ('variable'), ('variant'), ('variety'), ('varken'), ('varsha'), ('varsity'), ('varvar'),
+    ('varvara'), ('vasco'), ('vaseline'), ('vasile'), ('vasilek'), ('vasilenko'), ('vasilev'), ('vasileva'),
+    ('vasili'), ('vasilii'), ('vasilina'), ('vasilisa'), ('vasilisk'), ('vasiliy'), ('vasily'), ('vasquez'),
+    ('vassago'), ('vassar'), ('vasser'), ('vasya'), ('vatech'), ('vatican'), ('vatoloco'), ('vatson'),
+    ('vaughan'), ('vaughn'), ('vault'), ('vaults'), ('vauxhall'), ('vava'), ('vavilon'), ('vavoom'),
+    ('vaxvax'), ('vazelin'), ('vazgen'), ('vball'), ('vbc7ui'), ('vbhevbh'), ('vbhjckfd'), ('vbhjckfdf'),
+    ('vbhjndjhtw'), ('vbhjyjdf'), ('vbhjytyrj'), ('vbhytuhfv'), ('vbienrf'), ('vbifyz'), ('vbitkm'), ('vbitymrf'),
+    ('vbkbwbz'), ('vbkfirf'), ('vbkfyf'), ('vbkkbjy'), ('vbkkbjyth'), ('vbktlb'), ('vbktyf'), ('vbkzdrf'),
+    ('vbnhjafy'), ('vbnm'), ('vbnmrf'), ('vbnvbn'), ('vbrbvfec'), ('vbrjkf'), ('vbscript'), ('vbvbvb'),
+    ('vbvjpf'), ('vbybcnthcndj'), ('vbyfcnbhbn'), ('vcradq'), ('vcxz'), ('vdlxuc'), ('vecmrf'), ('vecnfyu'),
+    ('vector'), ('vectra'), ('vedder'), ('veedub'), ('vef6g55frz'), ('vega'), ('vegas'), ('vegasman'),
+    ('vegavega'), ('veget'), ('vegeta'), ('vegetabl'), ('veggie'), ('vegita'), ('vegitta'), ('vegitto'),
+    ('vehfdtq'), ('vehfrfvb'), ('vehicle'), ('vehpbkrf'), ('vehpbr'), ('vehvfycr'), ('vehxbr'), ('vekmnbr'),
+    ('velcro'), ('velhjcnm'), ('velma'), ('veloce'), ('velocidade'), ('velocity'), ('velosiped'), ('velvet'),
+    ('vendetta'), ('vending'), ('venecia'), ('venedig'), ('venera'), ('venetian'), ('venezia'), ('venezuel'),
+    ('venezuela'), ('vengeanc'), ('vengeance'), ('vengence'), ('venger'), ('veniamin'), ('venice'), ('venise'),
+    ('venkat'), ('venkata'), ('venom'), ('venom121293'), ('venomous'), ('vent'), ('ventana'), ('ventrue'),
+    ('ventura'), ('venture'), ('venturi'), ('venus'), ('venuss'), ('vepsrf'), ('vepsrfyn'), ('vera'),
+    ('veracruz'), ('veranda'), ('veravera'), ('verbal'), ('verbati'), ('verbatim'), ('verbena'), ('verbier'),
+    ('verbose'), ('verboten'), ('verdad'), ('verde'), ('verdes'), ('verdi'), ('verdun'), ('verena'),
+    ('verga'), ('vergesse'), ('vergessen'), ('vergeten'), ('vergil'), ('verify'), ('veritas'), ('veritech'),
+    ('verity'), ('verizon'), ('verlaat'), ('vermeer'), ('vermin'), ('vermont'), ('vern'), ('verna'),
+    ('vernal'), ('verne'), ('verner'), ('vernice'), ('vernie'), ('vernon'), ('vernost'), ('vero'),
+    ('verochka'), ('verona'), ('veronda'), ('veronic'), ('veronica'), ('veronik'), ('veronika'), ('veroniqu'),
+    ('veronique'), ('versace'), ('verse'), ('verseau'), ('version'), ('versus'), ('vert'), ('vertex'),
+    ('vertical'), ('vertigo'), ('veruca'), ('verve'), ('very'), ('verycool'), ('verygood'), ('verygoodbot'),
+    ('veryhorn'), ('veryhot'), ('verymuch'), ('verynice'), ('verysexy'), ('verywell'), ('veselov'), ('vesna'),
+    ('vespa'), ('vesper'), ('vespucci'), ('vessel'), ('vesta'), ('vestal'), ('vestax'), ('vester'),
+    ('vesuvius'), ('vesy7csae64'), ('vetalik'), ('veteran'), ('veterok'), ('vetrov'), ('vett'), ('vette'),
+    ('vetteman'), ('vetter'), ('vettes'), ('vf279sm'), ('vfcmrf'), ('vfcnth'), ('vfctxrf'), ('vfczyz'),
+    ('vfdhif'), ('vfeukb'), ('vfhbegjkm'), ('vfhbfyyf'), ('vfhbif'), ('vfhbirf'), ('vfhbrf'), ('vfhbyf'),
+    ('vfhbyfvfhbyf'), ('vfhbyjxrf'), ('vfhbyrf'), ('vfhcbr'), ('vfhctkm'), ('vfhecmrf'), ('vfhecz'), ('vfhfnbr'),
+    ('vfhmzyf'), ('vfhnby'), ('vfhnbyb'), ('vfhnsirf')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('vfhnsyjdf'), ('vfhrbp'), ('vfhrbpf'), ('vfhreif'), ('vfhrtdbx'), ('vfhrtnbyu'), ('vfhufhbnf'), ('vfhufhbnrf'),
+    ('vfhujhbnf'), ('vfhujif'), ('vfhvsirf'), ('vfhvtkfl'), ('vfhvtkflrf'), ('vfibyf'), ('vfiekmrf'), ('vfiekz'),
+    ('vfieyz'), ('vfifvfif'), ('vfitymrf'), ('vfkbyf'), ('vfkbyrf'), ('vfkmdbyf'), ('vfkmlbds'), ('vfkmxbr'),
+    ('vfksi'), ('vfksijr'), ('vfksirf'), ('vfktymrbq'), ('vfktymrfz'), ('vfkzdrf'), ('vflbyf'), ('vflfufcrfh'),
+    ('vfnbkmlf'), ('vfndtq'), ('vfndttdf'), ('vfnehsv'), ('vfnhbwf'), ('vfnhjcrby'), ('vfnhtirf'), ('vfntvfnbrf'),
+    ('vfpfafrf'), ('vfqjytp'), ('vfrcb'), ('vfrcbr'), ('vfrcbv'), ('vfrcbvec'), ('vfrcbvev'), ('vfrcbvjd'),
+    ('vfrcbvjdf'), ('vfrcbvrf'), ('vfrcbvtyrj'), ('vfrcbvvfrcbv'), ('vfrfhjd'), ('vfrfhjdf'), ('vfrfhjys'), ('vfrfrf'),
+    ('vfubcnh'), ('vfuflfy'), ('vfufpby'), ('vfuybn'), ('vfuybnjajy'), ('vfuyjkbz'), ('vfvekbxrf'), ('vfvekmrf'),
+    ('vfvektxrf'), ('vfvekz'), ('vfvf'), ('vfvfbgfgf'), ('vfvfcdtnf'), ('vfvfgfgf'), ('vfvfgfgf123'), ('vfvfgfgfz'),
+    ('vfvfif'), ('vfvfktyf'), ('vfvfnfyz'), ('vfvfvbz'), ('vfvfvf'), ('vfvfvfvf'), ('vfvfvjz'), ('vfvfvskfhfve'),
+    ('vfvfxrf'), ('vfvfyz'), ('vfvjxrf'), ('vfvjyn'), ('vfylfhby'), ('vfylfhbyrf'), ('vfylhfujhf'), ('vfyxtcnth'),
+    ('vfyzif'), ('vgfun'), ('vgirl'), ('vgirls'), ('vhpuulf2k'), ('viagra'), ('vialli'), ('vibe'),
+    ('vibes'), ('viborg'), ('vibrate'), ('vibrator'), ('vice'), ('vicecity'), ('vicelord'), ('vicente'),
+    ('vicenza'), ('viceroy'), ('vicfirth'), ('vicious'), ('vickers'), ('vicki'), ('vickie'), ('vicky'),
+    ('vicodin'), ('victim'), ('victo'), ('victoire'), ('victor'), ('victori'), ('victoria'), ('victoriya'),
+    ('victory'), ('vida'), ('vidaloca'), ('vidaloka'), ('video'), ('videoes'), ('videogam'), ('videogame'),
+    ('videoman'), ('videos'), ('vides'), ('vieira'), ('vienna'), ('vietnam'), ('view'), ('viewer'),
+    ('viewsoni'), ('viewsonic'), ('viggen'), ('vigil'), ('vigilant'), ('viglen'), ('vigor'), ('vijay'),
+    ('vijaya'), ('vika'), ('vikavika'), ('vikes'), ('vikin'), ('viking'), ('vikings'), ('vikram'),
+    ('vikto'), ('viktor'), ('viktori'), ('viktoria'), ('viktorija'), ('viktoriy'), ('viktoriya'), ('viktorovich'),
+    ('viktory'), ('villa'), ('village'), ('villain'), ('villan'), ('villas'), ('ville'), ('villegas'),
+    ('villeneuve'), ('villevalo'), ('villian'), ('vilnius'), ('vinayaka'), ('vinbylrj'), ('vince'), ('vincen'),
+    ('vincent'), ('vincente'), ('vincenzo'), ('vindaloo'), ('vindiesel'), ('vinegar'), ('vineyard'), ('vinicius'),
+    ('vinipuh'), ('vinnie'), ('vinny'), ('vino'), ('vinograd'), ('vinogradov'), ('vinogradova'), ('vinson'),
+    ('vintage'), ('vintelok'), ('vinter'), ('vinyl'), ('viola'), ('violate'), ('violator'), ('viole'),
+    ('violence'), ('violent'), ('violentj'), ('violet'), ('violeta'), ('violets'), ('violett'), ('violetta'),
+    ('violette'), ('violin'), ('violine'), ('viorel'), ('viorica'), ('vipe'), ('viper'), ('vipergts'),
+    ('viperman'), ('vipers'), ('vipper'), ('vipvip'), ('virago'), ('virgil'), ('virgilio'), ('virgin'),
+    ('virgini'), ('virginia'), ('virginie'), ('virgins'), ('virgo'), ('virgos'), ('virtua'), ('virtuagirl'),
+    ('virtual'), ('virtue'), ('virtuoso'), ('virtus'), ('virus'), ('viruss'), ('visa'), ('visacard'),
+    ('visavisa'), ('visconti'), ('viscount'), ('vishal'), ('vishenka'), ('vishnu'), ('visible'), ('visigoth'),
+    ('vision'), ('visionar'), ('visions'), ('visit'), ('visited'), ('visiting'), ('visitor'), ('vista'),
+    ('visual'), ('vita'), ('vitae'), ('vital'), ('vitali'), ('vitalik'), ('vitalik123'), ('vitalina'),
+    ('vitaliy'), ('vitalogy'), ('vitaly'), ('vitalya'), ('vitamin'), ('vitamine'), ('vitamins'), ('vitara'),
+    ('vitebsk'), ('vitek'), ('vitesse'), ('vito'), ('vitoria'), ('vitriol'), ('vittoria'), ('vittorio'),
+    ('viva'), ('vivace'), ('vivahate'), ('vivaldi'), ('vivere'), ('vivi'), ('vivia'), ('vivian'),
+    ('viviana'), ('viviane'), ('vivid'), ('vivien'), ('vivienne'), ('vivitron'), ('vivo'), ('vixen'),
+    ('vixens'), ('vjbltnb'), ('vjcrdf'), ('vjhcrfz'), ('vjhjpjd'), ('vjhjpjdf'), ('vjhrjdrf'), ('vjkjltw'),
+    ('vjkjnjr'), ('vjkjrj'), ('vjkybz'), ('vjlthfnjh'), ('vjnjhjkf'), ('vjqfyutk'), ('vjqgfhjkm'), ('vjqvbh'),
+    ('vjwfhn'), ('vjybnjh'), ('vjybrf'), ('vjzctvmz'), ('vjzgjxnf'), ('vkaxcs'), ('vkontakte'), ('vlad'),
+    ('vlada'), ('vladik'), ('vladimi'), ('vladimir'), ('vladimirovna'), ('vladisla'), ('vladislav'), ('vladislava'),
+    ('vladivostok'), ('vladlen'), ('vladlena'), ('vladvlad'), ('vlasenko'), ('vlasov'), ('vlasova'), ('vmax'),
+    ('vmdnygfu'), ('vocals'), ('vodafone'), ('vodka'), ('vodkas'), ('vodolei'), ('vodoley'), ('voetbal'),
+    ('vogel'), ('vogue'), ('voice'), ('voices'), ('void'), ('voiture'), ('voivod'), ('voland'),
+    ('volante'), ('volare'), ('volcano'), ('volcom'), ('voldemar'), ('voldemor'), ('volfan'), ('volga'),
+    ('volgograd'), ('volition'), ('volk'), ('volker'), ('volkl'), ('volkodav'), ('volkov'), ('volkova'),
+    ('volks'), ('volkswag'), ('volkswagen'), ('volkswagon'), ('volley'), ('volleyba'), ('volleybal'), ('volleyball'),
+    ('volodia'), ('volodin'), ('volodja'), ('volodya'), ('vologda'), ('vols'), ('volt'), ('voltage'),
+    ('voltaire'), ('voltron'), ('volume'), ('volumes'), ('voluntee'), ('volunteer'), ('volv'), ('volvic'),
+    ('volvo'), ('volvos'), ('vomit'), ('vonnegut'), ('vonnie'), ('vonsclan'), ('voodoo'), ('voorhees'),
+    ('vorlon'), ('vorobei'), ('vorobey'), ('voron'), ('vorona'), ('voronin'), ('voronina'), ('voronov'),
+    ('voronova'), ('vorpal'), ('vortec'), ('vortech'), ('vortex'), ('voshod'), ('vostok'), ('vote'),
+    ('vova'), ('vovan'), ('vovan_lt'), ('vovavova'), ('vovchik'), ('vovo4ka'), ('vovochka'), ('voxstrange'),
+    ('voyage'), ('voyager'), ('voyageur'), ('voyeur'), ('vp3whbjvp8'), ('vpered'), ('vpmfsz'), ('vqsablpzla'),
+    ('vr265tu'), ('vr4m6d'), ('vre2nc3z'), ('vredina'), ('vrijheid'), ('vs310ct'), ('vs896ct'), ('vsajyjr'),
+    ('vsavb7rtui'), ('vsegda'), ('vsevolod'), ('vsijyjr'), ('vsjasnel12'), ('vtec'), ('vthctltc'), ('vthokies'),
+    ('vthrehbq'), ('vtkmybr'), ('vtkmybrjdf'), ('vtkrbq'), ('vtlbwbyf'), ('vtldtlm'), ('vtldtltd'), ('vtnfkk'),
+    ('vtnhjgjkbnty'), ('vtufajy'), ('vtufgjkbc'), ('vtvtvt'), ('vulcan'), ('vulcano'), ('vulgar'), ('vulkan'),
+    ('vulture'), ('vulva'), ('vv127pr'), ('vvvbbb'), ('vvvv'), ('vvvvv'), ('vvvvvv'), ('vvvvvvv'),
+    ('vvvvvvvv'), ('vvvvvvvvvv'), ('vw198m2n'), ('vwbeetle'), ('vwgolf'), ('vwjetta'), ('vwpassat'), ('vwpolo'),
+    ('vyjujltytu'), ('vyjujnjxbt'), ('vytautas'), ('w00t'), ('w00tw00t'), ('w123456789w'), ('w1408776w'), ('w1ll1am'),
+    ('w1w2w3w4w5'), ('w2dlww3v5p'), ('w46ws7ufs'), ('w4g8at'), ('w4nk3r'), ('w8woord'), ('w_pass'), ('waaagh'),
+    ('waar'), ('wabash'), ('wabbit'), ('wachovia')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('wachtwoord'), ('wack'), ('wacker'), ('wacko'), ('wacky'), ('waddle'), ('wade'), ('waderh'),
+    ('wafer'), ('waffen'), ('waffenss'), ('waffle'), ('waffles'), ('wage'), ('wagner'), ('wagon'),
+    ('wagoneer'), ('wagons'), ('wags'), ('waheguru'), ('wahine'), ('wahoo'), ('wahooo'), ('wahoos'),
+    ('wahwah'), ('waikiki'), ('waimea'), ('waite'), ('waiter'), ('waiting'), ('waitron'), ('waiwai'),
+    ('wakacje'), ('wakawaka'), ('wake'), ('wakeboar'), ('wakefiel'), ('wakefield'), ('wakeup'), ('waldemar'),
+    ('walden'), ('waldo'), ('waldorf'), ('waleed'), ('walentina'), ('walera'), ('wales'), ('walfisch'),
+    ('walhalla'), ('walk'), ('walker'), ('walkers'), ('walking'), ('walkman'), ('walkman555'), ('wall'),
+    ('wallaby'), ('wallac'), ('wallace'), ('waller'), ('wallet'), ('walley'), ('walleye'), ('wallie'),
+    ('wallis'), ('wallop'), ('wallow'), ('wallpape'), ('walls'), ('wallst'), ('wallstre'), ('wallstreet'),
+    ('wally'), ('wallys'), ('wallyy'), ('walmart'), ('walnut'), ('walnuts'), ('walpole'), ('walrus'),
+    ('walsall'), ('walsh'), ('walstib'), ('walt'), ('walte'), ('walter'), ('walters'), ('waltham'),
+    ('walther'), ('walton'), ('waltrip'), ('wamozart'), ('wanadoo'), ('wanda'), ('wander'), ('wanderer'),
+    ('wang'), ('wangchun'), ('wanger'), ('wank'), ('wankel'), ('wanker'), ('wankers'), ('wankher'),
+    ('wanking'), ('wanna'), ('wannabe'), ('wannasee'), ('wanrltw'), ('want'), ('wanted'), ('wanting'),
+    ('wantit'), ('wanton'), ('wantsex'), ('wantsome'), ('wapapapa'), ('wapbbs'), ('wapiti'), ('wapwap'),
+    ('waqw3p'), ('war3demo'), ('waratsea'), ('warbird'), ('warburg'), ('warchild'), ('warcraf'), ('warcraft'),
+    ('ward'), ('warden'), ('warder'), ('wardog'), ('ware'), ('wareagle'), ('warehous'), ('warehouse'),
+    ('warez'), ('warezz'), ('warfare'), ('wargames'), ('wargod'), ('warhamer'), ('warhamme'), ('warhammer'),
+    ('warhammer40k'), ('warhawk'), ('warhawks'), ('warhead'), ('warhol'), ('warhorse'), ('waring'), ('warior'),
+    ('warlock'), ('warlok'), ('warlord'), ('warlords'), ('warm'), ('warman'), ('warmth'), ('warner'),
+    ('warning'), ('warnow'), ('warp'), ('warpath'), ('warped'), ('warpig'), ('warpten'), ('warrant'),
+    ('warranty'), ('warre'), ('warren'), ('warrio'), ('warrior'), ('warriors'), ('wars'), ('warsaw'),
+    ('warspite'), ('warstein'), ('warszawa'), ('wartburg'), ('warthog'), ('warty'), ('warwagon'), ('warwar'),
+    ('warwick'), ('warzone'), ('was.here'), ('wasabi'), ('wasdqe'), ('wasdwasd'), ('wash'), ('washburn'),
+    ('washear'), ('washer'), ('washere'), ('washing'), ('washingt'), ('washingto'), ('washington'), ('wasp'),
+    ('wasser'), ('wassup'), ('waste'), ('wasted'), ('wastelan'), ('waster'), ('waswas'), ('watanabe'),
+    ('watashi'), ('watch'), ('watchdog'), ('watcher'), ('watchers'), ('watches'), ('watching'), ('watchman'),
+    ('watchme'), ('watchmen'), ('watchout'), ('water'), ('waterbed'), ('waterboy'), ('waterdog'), ('waterfal'),
+    ('waterfall'), ('waterfalls'), ('watergat'), ('watering'), ('waterloo'), ('waterman'), ('watermel'), ('watermelon'),
+    ('waterpol'), ('waterpolo'), ('waters'), ('waterski'), ('watford'), ('watkins'), ('watso'), ('watson'),
+    ('watt'), ('wattle'), ('watts'), ('waukesha'), ('wave'), ('wavemsp'), ('waveride'), ('waverley'),
+    ('waverly'), ('waves'), ('wavmanuk'), ('wavpzt'), ('wawa'), ('wawawa'), ('waxman'), ('way2cool'),
+    ('way2go'), ('waycool'), ('wayer'), ('wayfarer'), ('wayland'), ('waylande'), ('waylon'), ('wayne'),
+    ('waynee'), ('wayner'), ('waynes'), ('wayout'), ('wazoo'), ('wazza'), ('wazzkaprivet'), ('wazzup'),
+    ('wbemoc'), ('wbemsnmp'), ('wc4fun'), ('wcksdypk'), ('wcrfxtvgbjy'), ('wcwnwo'), ('wcwwwf'), ('wdsawdsa'),
+    ('wdtnjr'), ('wdtnjxtr'), ('we5471w'), ('weak'), ('weakness'), ('weaknesspays'), ('wealth'), ('wealthy'),
+    ('weapon'), ('weapons'), ('weaponx'), ('wear'), ('wearing'), ('weasel'), ('weasels'), ('weasle'),
+    ('weather'), ('weave'), ('weaver'), ('weazel'), ('web2age'), ('webb'), ('webber'), ('webbie'),
+    ('webby'), ('webcam'), ('weber'), ('webguy'), ('webhead'), ('webhompas'), ('webhompass'), ('webley'),
+    ('webman'), ('webmaste'), ('webmaster'), ('webpass'), ('websex'), ('website'), ('websolutions'), ('websolutionssu'),
+    ('webstar'), ('webste'), ('webster'), ('websters'), ('webtvs'), ('webuivalidat'), ('webweb'), ('wedding'),
+    ('wedge'), ('wedges'), ('wedgie'), ('wednesda'), ('wednesday'), ('weeble'), ('weed'), ('weeded'),
+    ('weeder'), ('weedhead'), ('weedman'), ('weeds'), ('weedweed'), ('weee'), ('weeeee'), ('weegee'),
+    ('week'), ('weekend'), ('weekly'), ('weeks'), ('weeman'), ('ween'), ('weener'), ('weenie'),
+    ('weetabix'), ('weewee'), ('weezer'), ('weezie'), ('wehttam'), ('weider'), ('weight'), ('weights'),
+    ('weihnachte'), ('weihnachten'), ('weihnachtsbau'), ('weiland'), ('weinberg'), ('weiner'), ('weird'), ('weirdal'),
+    ('weirdo'), ('weiser'), ('weiss'), ('weiwei'), ('wejrpfpu'), ('welch'), ('welcom'), ('welcome'),
+    ('welcome123'), ('welcome@123'), ('welcomes'), ('welder'), ('welding'), ('weldon'), ('welkom'), ('well'),
+    ('wellcome'), ('welldone'), ('weller'), ('welles'), ('wellhung'), ('wellingt'), ('wellington'), ('wellness'),
+    ('wells'), ('wellwell'), ('welsh'), ('welshman'), ('wembley'), ('wench'), ('wend'), ('wendall'),
+    ('wendel'), ('wendell'), ('wendigo'), ('wendy'), ('wendys'), ('wenef45313'), ('weng'), ('wenger'),
+    ('wentworth'), ('werd'), ('werder'), ('werdna'), ('were'), ('werewere'), ('werewol'), ('werewolf'),
+    ('werken'), ('werner'), ('weronika'), ('werrew'), ('wersdf'), ('wert'), ('werter'), ('werthrf'),
+    ('werthvfy'), ('wertwert'), ('werty'), ('werty12345'), ('wertyu'), ('wertyui'), ('wertyuio'), ('wertyuiop'),
+    ('wertz'), ('wertzu'), ('werule'), ('werwer'), ('werwolf'), ('wesdxc'), ('wesker'), ('wesle'),
+    ('wesley'), ('wesman'), ('wessel'), ('wesson'), ('wessonnn'), ('west'), ('westbrom'), ('westbrook'),
+    ('westbury'), ('westcoas'), ('westcoast'), ('westend'), ('wester'), ('western'), ('westerns'), ('westfiel'),
+    ('westgate'), ('westha'), ('westham'), ('westie'), ('westies'), ('westin'), ('westlake'), ('westlife'),
+    ('westminster'), ('weston'), ('westover'), ('westpac'), ('westpoin'), ('westport'), ('westsid'), ('westside'),
+    ('westward'), ('westwest'), ('westwind'), ('westwing'), ('westwood'), ('westy'), ('wetass'), ('wetcunt'),
+    ('wetdog'), ('wetdream'), ('weterok'), ('wethepeople'), ('wetland'), ('wetlands'), ('wetlips'), ('wetone'),
+    ('wetpus'), ('wetpuss'), ('wetpussy'), ('wetsex'), ('wetsuit'), ('wett'), ('wetter'), ('wetwet'),
+    ('wetwilly'), ('wetworks'), ('wetzlar'), ('wewe')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('wewewe'), ('wewewewe'), ('wewiz'), ('wewizcom'), ('wexford'), ('weyfvb'), ('weymouth'), ('wg8e3wjf'),
+    ('whack'), ('whacko'), ('whale'), ('whalen'), ('whaler'), ('whalers'), ('whales'), ('wham'),
+    ('wharfrat'), ('wharton'), ('whassup'), ('what'), ('whateva'), ('whateve'), ('whatever'), ('whatfor'),
+    ('whatif'), ('whatis'), ('whatisit'), ('whatisth'), ('whatisup'), ('whatluck'), ('whatnot'), ('whatnow'),
+    ('whatsup'), ('whatthe'), ('whatthef'), ('whatthefuck'), ('whattheh'), ('whatthehell'), ('whatup'), ('whatwhat'),
+    ('whdbtp'), ('wheat'), ('wheaties'), ('wheatley'), ('wheaton'), ('wheel'), ('wheeler'), ('wheelie'),
+    ('wheeling'), ('wheelman'), ('wheels'), ('wheezer'), ('whenever'), ('where'), ('whine'), ('whip'),
+    ('whipit'), ('whiplash'), ('whipme'), ('whipped'), ('whipper'), ('whippet'), ('whipple'), ('whirling'),
+    ('whirlwin'), ('whisk'), ('whiskas'), ('whiskers'), ('whiskey'), ('whisky'), ('whisper'), ('whistle'),
+    ('whistler'), ('whit'), ('whitaker'), ('white'), ('whiteboy'), ('whitecap'), ('whitecat'), ('whitedog'),
+    ('whitehea'), ('whitehouse'), ('whiteman'), ('whiteoak'), ('whiteout'), ('whitepower'), ('whiterab'), ('whiterabbit'),
+    ('whites'), ('whitesox'), ('whitesta'), ('whitestar'), ('whitetai'), ('whitetail'), ('whitewol'), ('whitewolf'),
+    ('whitey'), ('whiting'), ('whitley'), ('whitlock'), ('whitman'), ('whitne'), ('whitney'), ('whittier'),
+    ('whizbang'), ('whizzer'), ('whkzyc'), ('whoa'), ('whoami'), ('whoareyo'), ('whoareyou'), ('whocares'),
+    ('whodaman'), ('whodat'), ('whoisit'), ('whoknows'), ('whole'), ('wholesale'), ('whome'), ('whoop'),
+    ('whoopass'), ('whoopie'), ('whoops'), ('whoosh'), ('whopper'), ('whoppers'), ('whore'), ('whores'),
+    ('whosyourdaddy'), ('whowho'), ('whyme'), ('whynot'), ('whynotme'), ('whytesha'), ('whywhy'), ('wibble'),
+    ('wicca'), ('wiccan'), ('wichita'), ('wichsen'), ('wichser'), ('wick'), ('wicke'), ('wicked'),
+    ('wicker'), ('wicket'), ('widder'), ('wide'), ('wideglid'), ('wideglide'), ('wideopen'), ('widescreen'),
+    ('widespre'), ('widespread'), ('widew'), ('widget'), ('widmer'), ('widow'), ('widzew'), ('wiener'),
+    ('wiezda'), ('wife'), ('wifes'), ('wifey'), ('wifeyswo'), ('wigger'), ('wiggin'), ('wiggins'),
+    ('wiggle'), ('wiggles'), ('wiggly'), ('wiggum'), ('wiggy'), ('wigwam'), ('wiking'), ('wiktoria'),
+    ('wilber'), ('wilbert'), ('wilbur'), ('wilco'), ('wilcox'), ('wild'), ('wildbill'), ('wildblue'),
+    ('wildcard'), ('wildcat'), ('wildcats'), ('wildchil'), ('wildchild'), ('wilder'), ('wilderne'), ('wildfir'),
+    ('wildfire'), ('wildflower'), ('wildlife'), ('wildman'), ('wildon'), ('wildone'), ('wildroid'), ('wildrose'),
+    ('wildsex'), ('wildside'), ('wildstar'), ('wildthin'), ('wildthing'), ('wildwest'), ('wildwild'), ('wildwolf'),
+    ('wildwood'), ('wiley'), ('wilfred'), ('wilhelm'), ('wilkes'), ('wilkie'), ('wilkins'), ('wilkinso'),
+    ('will'), ('willa'), ('willard'), ('willee'), ('willem'), ('willer'), ('willey'), ('willi'),
+    ('willia'), ('william'), ('williamj'), ('williamm'), ('williams'), ('williamt'), ('willian'), ('willie'),
+    ('willing'), ('willis'), ('willo'), ('willow'), ('willows'), ('wills'), ('willson'), ('willwill'),
+    ('willy'), ('willyboy'), ('willys'), ('wilma'), ('wilmar'), ('wilmas'), ('wilmer'), ('wilmingt'),
+    ('wilshire'), ('wilso'), ('wilson'), ('wilton'), ('wimbledo'), ('wimbledon'), ('winam'), ('winamp'),
+    ('winbig'), ('winch'), ('winchest'), ('winchester'), ('wind'), ('winder'), ('windex'), ('windfall'),
+    ('windmill'), ('windom'), ('window'), ('windows'), ('windowsn'), ('windowsxp'), ('windsong'), ('windsor'),
+    ('windstar'), ('windsurf'), ('windward'), ('windy'), ('wine'), ('winery'), ('winfield'), ('wing'),
+    ('wingate'), ('wingchun'), ('wingding'), ('winged'), ('winger'), ('wingman'), ('wingnut'), ('wings'),
+    ('wingtip'), ('wingtsun'), ('wingzero'), ('winifred'), ('wink'), ('winkie'), ('winkle'), ('winkler'),
+    ('winky'), ('winne'), ('winner'), ('winners'), ('winni'), ('winnie'), ('winning'), ('winnipeg'),
+    ('winnipeg261'), ('winona'), ('wins'), ('winslet'), ('winslow'), ('winsome'), ('winsto'), ('winston'),
+    ('winstonone'), ('winstons'), ('wintcher'), ('winte'), ('winter'), ('wintermu'), ('winters'), ('winthrop'),
+    ('winton'), ('winwin'), ('winxclub'), ('wiosna'), ('wipeout'), ('wire'), ('wired'), ('wireless'),
+    ('wireman'), ('wirenut'), ('wisconsi'), ('wisconsin'), ('wisdom'), ('wise'), ('wiseass'), ('wiseguy'),
+    ('wiseman'), ('wish'), ('wishbone'), ('wishes'), ('wishing'), ('wishmaster'), ('wishy'), ('wiskers'),
+    ('wisper'), ('wisteria'), ('witch'), ('witchblade'), ('witcher'), ('witches'), ('witchy'), ('withe'),
+    ('within'), ('withlove'), ('withnail'), ('without'), ('withyou'), ('witness'), ('witter'), ('wittmann'),
+    ('wives'), ('wizar'), ('wizard'), ('wizardry'), ('wizards'), ('wizkid'), ('wizz'), ('wizzard'),
+    ('wizzer'), ('wkmcpmn'), ('wladimir'), ('wlafiga'), ('wltfg4ta'), ('wmegrfux'), ('wminet'), ('wnmaz7sd'),
+    ('woaini'), ('wobble'), ('wobbly'), ('wodahs'), ('wofford'), ('wojtek'), ('woking'), ('woland'),
+    ('wolcott'), ('wolf'), ('wolfdog'), ('wolfe'), ('wolfee'), ('wolfen'), ('wolfenstein'), ('wolfer'),
+    ('wolff'), ('wolfgang'), ('wolfgar'), ('wolfi'), ('wolfie'), ('wolflord'), ('wolfman'), ('wolfmann'),
+    ('wolfone'), ('wolford'), ('wolfpac'), ('wolfpack'), ('wolfpak'), ('wolfram'), ('wolfwolf'), ('wolfwood'),
+    ('wolfy'), ('wolley'), ('wolve'), ('wolverin'), ('wolverine'), ('wolverines'), ('wolves'), ('wolvie'),
+    ('womack'), ('womam'), ('woman'), ('womans'), ('womba'), ('wombat'), ('wombats'), ('womble'),
+    ('wombles'), ('women'), ('womens'), ('womersle'), ('wonder'), ('wonderbo'), ('wonderboy'), ('wonderbr'),
+    ('wonderfu'), ('wonderful'), ('wonderla'), ('wonderland'), ('wonders'), ('wonderwa'), ('wonderwall'), ('wonderwo'),
+    ('wonderwoman'), ('wong'), ('wonger'), ('wonka'), ('wonker'), ('wonkette'), ('wonton'), ('woobie'),
+    ('wood'), ('woodall'), ('woodbine'), ('woodbird'), ('woodbury'), ('woodchuc'), ('woodcock'), ('wooddoor'),
+    ('woodduck'), ('woodelf'), ('wooden'), ('woodfish'), ('woodford'), ('woodgoat'), ('woodhead'), ('woodie'),
+    ('woodland'), ('woodlands'), ('woodlawn'), ('woodman'), ('woodoo'), ('woodpeck'), ('woodpony'), ('woodroof'),
+    ('woodrose'), ('woodrow'), ('woodruff'), ('woods'), ('woodshed'), ('woodside'), ('woodsink'), ('woodson'),
+    ('woodster'), ('woodstoc'), ('woodstock'), ('woodsy'), ('woodtree'), ('woodward'), ('woodwind'), ('woodwood'),
+    ('woodwork'), ('woodworm'), ('woody'), ('woodys'), ('woof'), ('woofer'), ('woofwoof'), ('woogie'),
+    ('wooglin'), ('woohoo'), ('wookie'), ('wookiee')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('wool'), ('wooody'), ('wooster'), ('wootay'), ('wooten'), ('wootwoot'), ('woowoo'), ('worceste'),
+    ('word'), ('wordlife'), ('wordman'), ('wordpas'), ('wordpass'), ('words'), ('wordup'), ('wordword'),
+    ('wordz'), ('worf'), ('work'), ('worker'), ('workers'), ('workhard'), ('working'), ('workit'),
+    ('workman'), ('workout'), ('works'), ('workshop'), ('worksuck'), ('workwork'), ('world'), ('worldcom'),
+    ('worldcup'), ('worldnet'), ('worlds'), ('worldwar'), ('worldwid'), ('worldwide'), ('worm'), ('wormhole'),
+    ('wormix'), ('worms'), ('wormwood'), ('wormy'), ('worship'), ('worth'), ('worthing'), ('worthy'),
+    ('wotan'), ('wouter'), ('wowman'), ('wowowo'), ('wowser'), ('wowsers'), ('wowwow'), ('wp2003wp'),
+    ('wpaflag'), ('wpakey'), ('wpass'), ('wpatop'), ('wpf8eu'), ('wpoolejr'), ('wqmfuh'), ('wqsaxz'),
+    ('wqwqwq'), ('wqwqwqwq'), ('wraith'), ('wrangle'), ('wrangler'), ('wrapper'), ('wrath'), ('wreath'),
+    ('wreck'), ('wrecker'), ('wren'), ('wrench'), ('wrestle'), ('wrestler'), ('wrestlin'), ('wrestling'),
+    ('wrestling1'), ('wretch'), ('wretched'), ('wrexham'), ('wright'), ('wrigley'), ('wrinkle'), ('wrinkles'),
+    ('wrist'), ('write'), ('writer'), ('writerspace'), ('writing'), ('written'), ('wroclaw'), ('wrong'),
+    ('wrongway'), ('wrote'), ('wrxsti'), ('wsbadmin'), ('wsgktyjr'), ('wspanic'), ('wswsws'), ('wsx22wsx22'),
+    ('wsxcde'), ('wsxedc'), ('wsxqaz'), ('wsxwsx'), ('wsxzaq'), ('wtcacq'), ('wtfwtf'), ('wtfwtfwtf'),
+    ('wtiger'), ('wtpfhm'), ('wtpmjg'), ('wtpmjgda'), ('wu4etd'), ('wuhan'), ('wulfgar'), ('wunder'),
+    ('wurst'), ('wuschel'), ('wutang'), ('wutangcl'), ('wutangclan'), ('wvj5np'), ('wweraw'), ('wwewwe'),
+    ('wwewwewwe'), ('wwfraw'), ('wwfwcw'), ('wwjd'), ('wwr8x9pu'), ('wwweee'), ('wwwooo1234'), ('wwww'),
+    ('wwwww'), ('wwwwww'), ('wwwwwww'), ('wwwwwwww'), ('wwwwwwwww'), ('wwwwwwwwww'), ('wwwxxx'), ('wxcvb'),
+    ('wxcvbn'), ('wxyz'), ('wyatt'), ('wyclef'), ('wycombe'), ('wylde'), ('wynter'), ('wyoming'),
+    ('wysiwyg'), ('wyvern'), ('x123456x'), ('x35v8l'), ('x4ww5qdr'), ('x5dxwp'), ('x72jhhu3z'), ('xakepy'),
+    ('xanadu'), ('xander'), ('xandra'), ('xanth'), ('xantia'), ('xatuna'), ('xaverian'), ('xavie'),
+    ('xavier'), ('xaxaxa'), ('xbox'), ('xboxlive'), ('xc473tp'), ('xcalibur'), ('xcat'), ('xcat_xca'),
+    ('xcountry'), ('xcvbnm'), ('xcvxcv'), ('xcxc'), ('xdr5tgb'), ('xegfxegc'), ('xela'), ('xeljdbot'),
+    ('xena'), ('xenia'), ('xenocide'), ('xenogear'), ('xenon'), ('xenophon'), ('xeon'), ('xerox'),
+    ('xerxes'), ('xesxes'), ('xexeylhf'), ('xfactor'), ('xfhkbr'), ('xfiles'), ('xflavor'), ('xfqybr'),
+    ('xholes'), ('xian'), ('xiang'), ('xiao'), ('xiaomi'), ('xiaoyua123'), ('ximen'), ('ximena'),
+    ('xing'), ('xiomara'), ('xiong'), ('xirt2k'), ('xlanman'), ('xman'), ('xmas'), ('xmen'),
+    ('xmodem'), ('xngwoj'), ('xoxo'), ('xoxota'), ('xoxoxo'), ('xoxoxoxo'), ('xpcrew'), ('xplorer'),
+    ('xposter'), ('xpress'), ('xpressmusic'), ('xqgann'), ('xrated'), ('xray'), ('xrp23q'), ('xs4all'),
+    ('xsw21qaz'), ('xsw23edc'), ('xswqaz'), ('xswzaq'), ('xtcnth'), ('xtcxtc'), ('xterra'), ('xthntyjr'),
+    ('xthtgfirf'), ('xthysq'), ('xtkjdtr'), ('xtkjdtrgfer'), ('xtrem'), ('xtreme'), ('xtutdfhf'), ('xtvgbjy'),
+    ('xtvjlfy'), ('xuan'), ('xufrgemw'), ('xwing'), ('xxlolxx'), ('xxpa33bq.adna'), ('xxx69xxx'), ('xxxjay'),
+    ('xxxman'), ('xxxp455w0rd5'), ('xxxpass'), ('xxxsex'), ('xxxwow'), ('xxxx'), ('xxxxx'), ('xxxxxx'),
+    ('xxxxxxx'), ('xxxxxxxx'), ('xxxxxxxxx'), ('xxxxxxxxxx'), ('xxxyyy'), ('xxxzzz'), ('xxyyzz'), ('xyzpdq'),
+    ('xyzxyz'), ('xyzzy'), ('xyzzyxyz'), ('xzibit'), ('xzsawq'), ('xzxzxz'), ('y9enkj'), ('yabadaba'),
+    ('yabloko'), ('yacht'), ('yachts'), ('yackwin'), ('yad8yugg'), ('yadayada'), ('yadira'), ('yaglasph'),
+    ('yagodka'), ('yahweh'), ('yakima'), ('yakman'), ('yakudza'), ('yakumo'), ('yakuza'), ('yakyak'),
+    ('yama'), ('yamada'), ('yamah'), ('yamaha'), ('yamahar'), ('yamakasi'), ('yamama'), ('yamamoto'),
+    ('yamato'), ('yamazaki'), ('yamoon'), ('yamyam'), ('yana'), ('yanayana'), ('yancey'), ('yang'),
+    ('yanina'), ('yank'), ('yank33s'), ('yanke'), ('yankee'), ('yankeemp'), ('yankees'), ('yanks'),
+    ('yanni'), ('yannic'), ('yannick'), ('yannis'), ('yanochka'), ('yanshi1982'), ('yard'), ('yardbird'),
+    ('yarddog'), ('yardman'), ('yaroslav'), ('yaroslavl'), ('yarrak'), ('yarrum'), ('yasacrac'), ('yasemin'),
+    ('yashin'), ('yasmeen'), ('yasmi'), ('yasmin'), ('yasmina'), ('yasmine'), ('yasser'), ('yasuko'),
+    ('yatyas'), ('yawetag'), ('yaya'), ('yayaya'), ('ybhdfyf'), ('ybrbnby'), ('ybrbnbyf'), ('ybrbnf'),
+    ('ybrbnjc'), ('ybrbnjcbr'), ('ybrbnrf'), ('ybrecz'), ('ybrjkfbx'), ('ybrjkfq'), ('ybrjkftd'), ('ybrjkftdbx'),
+    ('ybrjkftdf'), ('ybrjkftdyf'), ('ybrjkm'), ('ybrjulf'), ('ybytkm'), ('ycwvrxxh'), ('ydnarb'), ('yeababy'),
+    ('yeager'), ('yeah'), ('yeahbaby'), ('yeahman'), ('yeahrigh'), ('yeahright'), ('yeahyeah'), ('year'),
+    ('yearight'), ('yeasty'), ('yeayea'), ('yecgaa'), ('yeehaa'), ('yeehaw'), ('yejntb'), ('yeknom'),
+    ('yelena'), ('yelhsa'), ('yell'), ('yeller'), ('yello'), ('yellow'), ('yelnats'), ('yelrah'),
+    ('yendor'), ('yensid'), ('yeoman'), ('yepyep'), ('yeryer'), ('yesenia'), ('yeshua'), ('yesiam'),
+    ('yesican'), ('yesman'), ('yesno'), ('yesplease'), ('yess'), ('yessir'), ('yessongs'), ('yessss'),
+    ('yesssss'), ('yesterda'), ('yesterday'), ('yesyes'), ('yesyesye'), ('yesyesyes'), ('yeti'), ('yfafyz'),
+    ('yfcmrf'), ('yfcn.irf'), ('yfcnfcmz'), ('yfcnhjtybt'), ('yfcntyf'), ('yfcntymrf'), ('yfcntyrf'), ('yfcnz'),
+    ('yfcnzvjz'), ('yfcnzyfcnz'), ('yfdbufnjh'), ('yfdctulf'), ('yfeiybrb'), ('yfevjdf'), ('yfgjktjy'), ('yfhenj'),
+    ('yfhrjnbrb'), ('yfhrjvfy'), ('yfifhfif'), ('yfl.irf'), ('yfltymrf'), ('yflz13041976'), ('yfnecbr'), ('yfnecz'),
+    ('yfnfi'), ('yfnfif'), ('yfnfif2010'), ('yfnfirf'), ('yfnfitymrf'), ('yfnfkb'), ('yfnfkbz'), ('yfnfkmz'),
+    ('yfnfkz'), ('yfxfkmybr'), ('ygfxbkgt'), ('yhntgb'), ('yhnujm'), ('yhwnqc'), ('yield'), ('yildiz'),
+    ('ying'), ('yingyang'), ('yinyan'), ('yinyang'), ('yippee'), ('yitbos'), ('yja3vo'), ('yjcjhju'),
+    ('yjdbrjd'), ('yjdbrjdf'), ('yjdjcnbf'), ('yjdjrepytwr'), ('yjdjvjcrjdcr'), ('yjdsqgfhjkm'), ('yjdsqujl'), ('yjdujhjl'),
+    ('yjhbkmcr'), ('yjhvfkmyj'), ('yjuufyj'), ('yk66o2kzpz'), ('yllek'), ('yloe'), ('ym3cautj'), ('yngwie'),
+    ('ynot'), ('yoass'), ('yobaby'), ('yocack'), ('yocrack'), ('yoda'), ('yodaddy'), ('yodaman'),
+    ('yodayoda'), ('yodude'), ('yogesh'), ('yoghurt'), ('yogi'), ('yogibear'), ('yogurt'), ('yohoho'),
+    ('yojimbo'), ('yoko'), ('yokohama'), ('yokosuka')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('yoland'), ('yolanda'), ('yolande'), ('yomama'), ('yomamma'), ('yoman'), ('yomismo'), ('yomomma'),
+    ('yonder'), ('yong'), ('yonkers'), ('yoohoo'), ('yooper'), ('york'), ('yorkie'), ('yorkshir'),
+    ('yorkshire'), ('yorktown'), ('yosemite'), ('yoshi'), ('yoshida'), ('yoshii'), ('yoshiko'), ('yoshimi'),
+    ('yoshimitsu'), ('yoshio'), ('yotefan'), ('youandme'), ('youare'), ('youbet'), ('youbitch'), ('youcef'),
+    ('youfuck'), ('yougotit'), ('youknow'), ('youknowi'), ('young'), ('young3st'), ('younger'), ('youngman'),
+    ('youngmoney'), ('youngone'), ('youngs'), ('youpi'), ('youporn'), ('your'), ('yourass'), ('yourface'),
+    ('yourmama'), ('yourmom'), ('yourmomma'), ('yourmother'), ('yourmum'), ('yourname'), ('yours'), ('yourself'),
+    ('yoursony'), ('youssef'), ('yousuck'), ('youth'), ('youtoo'), ('youtube'), ('youwish'), ('youyou'),
+    ('yoyo'), ('yoyoma'), ('yoyoy'), ('yoyoyo'), ('yoyoyoyo'), ('yqmbevgk'), ('yr8wdxcq'), ('yrogerg'),
+    ('yrrral'), ('yssup'), ('ytcnjh'), ('ytcnthjdf'), ('ytdpkjvfti'), ('ytdxz2ca'), ('ytgfhjkm'), ('ytkmpz'),
+    ('ytktpm'), ('ytngfhjkz'), ('ytnhjufnm'), ('ytpfdbcbvjcnm'), ('ytpyfrjvrf'), ('ytrcbz'), ('ytrew'), ('ytrewq'),
+    ('ytreza'), ('ytrhfcjdf'), ('ytrhjvfycth'), ('ytrhjvfyn'), ('ytrhjvfyn10'), ('ytyfdbcnm'), ('yuan'), ('yucca'),
+    ('yugioh'), ('yuhjnm'), ('yuiop'), ('yuka'), ('yukari'), ('yuki'), ('yukiko'), ('yukmouth'),
+    ('yukon'), ('yukons'), ('yuliya'), ('yulya'), ('yumiko'), ('yummie'), ('yummies'), ('yummmy'),
+    ('yummy'), ('yumyum'), ('yungyung'), ('yuppie'), ('yupyup'), ('yurkamaliy'), ('yuschen'), ('yusuke'),
+    ('yuyuyu'), ('yuyuyuyu'), ('yves'), ('yvette'), ('yvonne'), ('ywvxpz'), ('yxcvbn'), ('yxcvbnm'),
+    ('yxes'), ('yy5rbfsc'), ('yyyy'), ('yyyyy'), ('yyyyyy'), ('yyyyyyy'), ('yyyyyyyy'), ('yzerman'),
+    ('z123456789'), ('z1234567890'), ('z123456z'), ('z12345z'), ('z1sn8h6m'), ('z1x2c3v4b5'), ('z1x2c3v4b5n6'), ('z1x2c3v4b5n6m7'),
+    ('z1z2z3z4z5'), ('z3cn2erv'), ('zabava'), ('zach'), ('zachar'), ('zacharia'), ('zachary'), ('zachery'),
+    ('zachman'), ('zack'), ('zackary'), ('zacker'), ('zackery'), ('zackzack'), ('zaczac'), ('zadnica'),
+    ('zadrot'), ('zaebali'), ('zaebalo'), ('zafar'), ('zafhjdf'), ('zafira'), ('zagadka'), ('zagnut'),
+    ('zagreb'), ('zaharov'), ('zaharova'), ('zaibatsu'), ('zainab'), ('zaire'), ('zakaria'), ('zakary'),
+    ('zakhar'), ('zakzak'), ('zalina'), ('zalman'), ('zalupa'), ('zambia'), ('zamboni'), ('zamir'),
+    ('zamira'), ('zamora'), ('zamorano'), ('zamzam'), ('zanardi'), ('zander'), ('zane'), ('zang'),
+    ('zangetsu'), ('zanoza'), ('zantac'), ('zanuda'), ('zanzibar'), ('zaparilo'), ('zapat'), ('zapata'),
+    ('zapato'), ('zaphod'), ('zapidoo'), ('zapp'), ('zappa'), ('zapped'), ('zapper'), ('zapret'),
+    ('zaq!2wsx'), ('zaq11qaz'), ('zaq123wsx'), ('zaq12qaz'), ('zaq12w'), ('zaq12ws'), ('zaq12wsx'), ('zaq12wsxcde3'),
+    ('zaq1qaz'), ('zaq1xsw2cde3'), ('zaqqaz'), ('zaqwer'), ('zaqwerty'), ('zaqwsx'), ('zaqwsxcde'), ('zaqwsxcderfv'),
+    ('zaqxsw'), ('zaqxswcde'), ('zaqxswcde123'), ('zaqzaq'), ('zaqzaqzaq'), ('zara'), ('zaragoza'), ('zaratustra'),
+    ('zaraza'), ('zarazara'), ('zardoz'), ('zarema'), ('zaremba'), ('zargon'), ('zarina'), ('zasada'),
+    ('zaskar'), ('zasranec'), ('zasranka'), ('zastava'), ('zasxcd'), ('zasxcdfv'), ('zatoichi'), ('zavilov'),
+    ('zaxscd'), ('zaxscdvf'), ('zaxxon'), ('zaza'), ('zazar'), ('zazaza'), ('zazazaza'), ('zcegth'),
+    ('zcfvfzkexifz'), ('zcfvfzrhfcbdfz'), ('zcgihlke'), ('zcxfcnkbdf'), ('zcxfcnkbdfz'), ('zdenka'), ('zealand'), ('zealot'),
+    ('zealots'), ('zebedee'), ('zebra'), ('zebras'), ('zebulon'), ('zedzed'), ('zeek'), ('zeeman'),
+    ('zeeshan'), ('zeilboot'), ('zeitung'), ('zeke'), ('zekedog'), ('zelda'), ('zelenograd'), ('zemanova'),
+    ('zemfira'), ('zenden'), ('zeng'), ('zenit'), ('zenith'), ('zenitram'), ('zenner'), ('zenzen'),
+    ('zephyr'), ('zeppelin'), ('zepplin'), ('zeratul'), ('zergling'), ('zerkalo'), ('zermatt'), ('zero'),
+    ('zerocool'), ('zerohour'), ('zeroxm'), ('zerozero'), ('zesyrmvu'), ('zeta'), ('zetazeta'), ('zeus'),
+    ('zeuszeus'), ('zexts364325'), ('zeynep'), ('zghjcnjcegth'), ('zgjybz'), ('zgmf'), ('zhai'), ('zhan'),
+    ('zhang'), ('zhanna'), ('zhao'), ('zhei'), ('zhen'), ('zheng'), ('zhenya'), ('zhipo'),
+    ('zhjckfd'), ('zhjckfdf'), ('zhong'), ('zhongguo'), ('zhorik'), ('zhou'), ('zhua'), ('zhuai'),
+    ('zhuan'), ('zhuang'), ('zhui'), ('zhukov'), ('zhun'), ('zhuo'), ('zhv84kv'), ('ziadma'),
+    ('zidan'), ('zidane'), ('ziegler'), ('ziff'), ('ziffle'), ('zifnab'), ('zigazaga'), ('ziggie'),
+    ('ziggy'), ('ziggydog'), ('ziggys'), ('zigzag'), ('zildjian'), ('zilla'), ('zimarules'), ('zimbabwe'),
+    ('zimina'), ('zimmer'), ('zimmerma'), ('zimmerman'), ('zimzim'), ('zinaida'), ('zinedine'), ('zinger'),
+    ('ziomek'), ('zion'), ('zipcode'), ('zipdrive'), ('zipp'), ('zipper'), ('zippers'), ('zippie'),
+    ('zippo'), ('zippos'), ('zippy'), ('zipzap'), ('zipzip'), ('zircon'), ('zita'), ('zjhhjhkj'),
+    ('zjses9evpa'), ('zkexibq'), ('zkexifz'), ('zlatan'), ('zlozlo'), ('zlzfrh'), ('zman'), ('zmpimeje'),
+    ('zmxncbv'), ('zn87x54mxma'), ('znbvjd'), ('zobrdjlrb1'), ('zodiac'), ('zodiak'), ('zoedog'), ('zoey'),
+    ('zoezoe'), ('zofran'), ('zoidberg'), ('zoinks'), ('zola'), ('zoloft'), ('zoloto'), ('zolotoi'),
+    ('zoltan'), ('zoltar'), ('zolushka'), ('zombi'), ('zombie'), ('zombies'), ('zomu9q'), ('zone'),
+    ('zong'), ('zonk'), ('zonker'), ('zontik'), ('zooker'), ('zoom'), ('zoomer'), ('zoomzoom'),
+    ('zoopark'), ('zooropa'), ('zootsuit'), ('zoozoo'), ('zorba'), ('zorglub'), ('zorina'), ('zork'),
+    ('zoro'), ('zorr'), ('zorro'), ('zorrope'), ('zorros'), ('zoso'), ('zosozoso'), ('zotova'),
+    ('zoulou'), ('zounds'), ('zouzou'), ('zowie'), ('zozo'), ('zozozo'), ('zpdtplf'), ('zpxvwy'),
+    ('zqjphsyf6ctifgu'), ('zrjdktd'), ('zrjdktdf'), ('zsazsa'), ('zse45rdx'), ('zse4rfv'), ('zsergn'), ('zsexdr'),
+    ('zsfmpv'), ('zsmj2v'), ('zsxdcf'), ('zsxdcfv'), ('zsxmr7sztmr'), ('ztmfcq'), ('ztrewq'), ('zuan'),
+    ('zucchero'), ('zucker'), ('zuerich'), ('zues'), ('zugang'), ('zugzug'), ('zujlrf'), ('zulu'),
+    ('zuluzulu'), ('zuma'), ('zurich'), ('zuzana'), ('zuzanna'), ('zuzu'), ('zuzuzu'), ('zvbxrpl'),
+    ('zverek'), ('zverev'), ('zvereva'), ('zvezda'), ('zvfqrf'), ('zvfrfcb'), ('zw6syj'), ('zwezda'),
+    ('zwilling'), ('zwt2sbzl'), ('zx123456789'), ('zxasqw'), ('zxc123zxc'), ('zxcasd'), ('zxcasdqw'), ('zxcasdqwe'),
+    ('zxcasdqwe123'), ('zxcasq'), ('zxccxz'), ('zxcdsa'), ('zxcdsaqwe'), ('zxcqwe'), ('zxcqweasd'), ('zxcv'),
+    ('zxcvasdf'), ('zxcvasdfqwer'), ('zxcvb'), ('zxcvb09876')
+ON CONFLICT (password) DO NOTHING;
+
+INSERT INTO public.breached_passwords (password) VALUES
+    ('zxcvb12345'), ('zxcvbasdfg'), ('zxcvbn'), ('zxcvbn123456'), ('zxcvbn3215'), ('zxcvbnm'), ('zxcvbnm123'), ('zxcvbnm123456789'),
+    ('zxcvbnma'), ('zxcvbnmm'), ('zxcvbnmmnbvcxz'), ('zxcvbnmz'), ('zxcvbnmzxcvbnm'), ('zxcvbzxcvb'), ('zxcvfdsa'), ('zxcvqwer'),
+    ('zxcvvcxz'), ('zxcvzxcv'), ('zxczxc'), ('zxczxczxc'), ('zxgdqn'), ('zxzx'), ('zxzxzx'), ('zxzxzxzx'),
+    ('zydeco'), ('zydfhm'), ('zygote'), ('zyjxrf'), ('zyltrc'), ('zymurgy'), ('zyryab'), ('zz8807zpl'),
+    ('zzaaqq'), ('zztop'), ('zzxxcc'), ('zzxxccvv'), ('zzztop'), ('zzzxxx'), ('zzzxxxccc'), ('zzzz'),
+    ('zzzzxxxx'), ('zzzzz'), ('zzzzzz'), ('zzzzzzz'), ('zzzzzzzz'), ('zzzzzzzzz'), ('zzzzzzzzzz')
+ON CONFLICT (password) DO NOTHING;
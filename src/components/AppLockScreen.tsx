@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Image, Alert } from 'react-native';
+import { useAuth } from '../context/AuthContext';
+import { useAppLock } from '../context/AppLockContext';
+import { BiometricService } from '../services/biometricService';
+import { APP_PIN_LENGTH } from '../services/appLockService';
+import PinPad from './PinPad';
+
+// Full-screen overlay rendered by AppLockProvider while the app is locked
+const AppLockScreen: React.FC = () => {
+  const { signOut } = useAuth();
+  const { unlockWithPin, unlockWithBiometric } = useAppLock();
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [resetKey, setResetKey] = useState(0);
+  const [biometricIcon, setBiometricIcon] = useState<string | null>(null);
+
+  useEffect(() => {
+    const setupBiometric = async () => {
+      if (await BiometricService.isAvailable()) {
+        setBiometricIcon(await BiometricService.getBiometricIconName());
+        unlockWithBiometric();
+      }
+    };
+    setupBiometric();
+  }, []);
+
+  const handlePinComplete = async (pin: string) => {
+    setBusy(true);
+    try {
+      const result = await unlockWithPin(pin);
+      if (!result.success) {
+        setError(
+          result.attemptsLeft === 1
+            ? 'Incorrect PIN. 1 attempt left before you are signed out'
+            : `Incorrect PIN. ${result.attemptsLeft} attempts left`
+        );
+        setResetKey((key) => key + 1);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOut = () => {
+    Alert.alert('Sign Out', 'You will need to sign in with your email and password again.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Sign Out', style: 'destructive', onPress: () => signOut() },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Image
+        source={require('../../assets/android-chrome-192x192.png')}
+        style={styles.logo}
+        resizeMode="contain"
+      />
+
+      <PinPad
+        title="Enter App PIN"
+        subtitle="CoinSensei is locked"
+        error={error}
+        length={APP_PIN_LENGTH}
+        busy={busy}
+        resetKey={resetKey}
+        onComplete={handlePinComplete}
+        extraKey={biometricIcon ? { icon: biometricIcon, onPress: unlockWithBiometric } : undefined}
+      />
+
+      <TouchableOpacity style={styles.signOutButton} onPress={handleSignOut}>
+        <Text style={styles.signOutText}>Sign out</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#000000',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 10,
+  },
+  logo: {
+    width: 64,
+    height: 64,
+    marginBottom: 24,
+  },
+  signOutButton: {
+    marginTop: 20,
+    padding: 12,
+  },
+  signOutText: {
+    color: '#09d2fe',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default AppLockScreen;
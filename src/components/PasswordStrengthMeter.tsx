@@ -0,0 +1,60 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { getPasswordPolicyError, getPasswordStrength, PasswordContext } from '../services/passwordPolicy';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  context?: PasswordContext;
+}
+
+// Strength bar plus the first policy rule the password still breaks
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password, context = {} }) => {
+  if (!password) return null;
+
+  const strength = getPasswordStrength(password, context);
+  const policyError = getPasswordPolicyError(password, context);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.bar}>
+        <View
+          style={[
+            styles.fill,
+            { width: `${(strength.score / 4) * 100}%`, backgroundColor: strength.color },
+          ]}
+        />
+      </View>
+      <Text style={[styles.label, { color: strength.color }]}>{strength.label}</Text>
+      {policyError && <Text style={styles.hint}>{policyError}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  bar: {
+    width: '100%',
+    height: 4,
+    backgroundColor: '#333333',
+    borderRadius: 2,
+    marginBottom: 8,
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 2,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginTop: 4,
+  },
+});
+
+export default PasswordStrengthMeter;
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+interface PinPadProps {
+  title: string;
+  subtitle?: string;
+  error?: string;
+  length?: number;
+  busy?: boolean;
+  onComplete: (pin: string) => void;
+  // Optional key in the bottom-left slot (e.g. a biometric prompt)
+  extraKey?: { icon: string; onPress: () => void };
+  resetKey?: number;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+const PinPad: React.FC<PinPadProps> = ({
+  title,
+  subtitle,
+  error,
+  length = 6,
+  busy = false,
+  onComplete,
+  extraKey,
+  resetKey,
+}) => {
+  const [pin, setPin] = useState('');
+
+  // Parents bump resetKey to clear the entry (e.g. after a wrong PIN)
+  useEffect(() => {
+    setPin('');
+  }, [resetKey]);
+
+  const handleDigit = (digit: string) => {
+    if (busy || pin.length >= length) return;
+    const next = pin + digit;
+    setPin(next);
+    if (next.length === length) {
+      onComplete(next);
+    }
+  };
+
+  const handleBackspace = () => {
+    if (busy) return;
+    setPin((current) => current.slice(0, -1));
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+      {subtitle ? <Text style={styles.subtitle}>{subtitle}</Text> : null}
+
+      <View style={styles.dotsRow}>
+        {Array.from({ length }).map((_, idx) => (
+          <View
+            key={idx}
+            style={[styles.dot, idx < pin.length && styles.dotFilled, !!error && styles.dotError]}
+          />
+        ))}
+      </View>
+
+      <View style={styles.errorContainer}>
+        {busy ? (
+          <ActivityIndicator size="small" color="#09d2fe" />
+        ) : error ? (
+          <Text style={styles.errorText}>{error}</Text>
+        ) : null}
+      </View>
+
+      <View style={styles.keypad}>
+        {KEYS.map((digit) => (
+          <TouchableOpacity
+            key={digit}
+            style={styles.key}
+            onPress={() => handleDigit(digit)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.keyText}>{digit}</Text>
+          </TouchableOpacity>
+        ))}
+
+        {extraKey ? (
+          <TouchableOpacity style={styles.key} onPress={extraKey.onPress} activeOpacity={0.7}>
+            <Ionicons name={extraKey.icon as any} size={28} color="#09d2fe" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.keyPlaceholder} />
+        )}
+
+        <TouchableOpacity style={styles.key} onPress={() => handleDigit('0')} activeOpacity={0.7}>
+          <Text style={styles.keyText}>0</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.key} onPress={handleBackspace} activeOpacity={0.7}>
+          <Ionicons name="backspace-outline" size={26} color="#ffffff" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  title: {
+    color: '#ffffff',
+    fontSize: 22,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    color: '#9ca3af',
+    fontSize: 14,
+    textAlign: 'center',
+    lineHeight: 20,
+    paddingHorizontal: 20,
+  },
+  dotsRow: {
+    flexDirection: 'row',
+    marginTop: 30,
+  },
+  dot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#333333',
+    marginHorizontal: 8,
+  },
+  dotFilled: {
+    backgroundColor: '#09d2fe',
+    borderColor: '#09d2fe',
+  },
+  dotError: {
+    borderColor: '#ff4757',
+  },
+  errorContainer: {
+    height: 40,
+    justifyContent: 'center',
+  },
+  errorText: {
+    color: '#ff4757',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: 280,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#1a1a1a',
+    justifyContent: 'center',
+    alignItems: 'center',
+    margin: 10,
+  },
+  keyPlaceholder: {
+    width: 72,
+    height: 72,
+    margin: 10,
+  },
+  keyText: {
+    color: '#ffffff',
+    fontSize: 28,
+    fontWeight: '500',
+  },
+});
+
+export default PinPad;
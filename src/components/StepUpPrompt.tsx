@@ -0,0 +1,473 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ActivityIndicator,
+  Dimensions,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { StepUpAction, StepUpFactor } from '../types';
+import { STEP_UP_POLICY } from '../services/stepUpPolicy';
+import { StepUpService, StepUpFactorValues } from '../services/stepUpService';
+import { TransactionPinService, TRANSACTION_PIN_LENGTH } from '../services/transactionPinService';
+import { BiometricService } from '../services/biometricService';
+
+interface StepUpPromptProps {
+  visible: boolean;
+  action: StepUpAction;
+  factors: StepUpFactor[];
+  email?: string;
+  onVerified: (token: string) => void;
+  onCancel: () => void;
+}
+
+// Collects the factors the step-up policy requires for an action and
+// exchanges them for a step-up token. Rendered by StepUpProvider.
+const StepUpPrompt: React.FC<StepUpPromptProps> = ({
+  visible,
+  action,
+  factors,
+  email,
+  onVerified,
+  onCancel,
+}) => {
+  const [password, setPassword] = useState('');
+  const [pin, setPin] = useState('');
+  const [otp, setOtp] = useState('');
+  const [emailCode, setEmailCode] = useState('');
+  const [emailCodeSent, setEmailCodeSent] = useState(false);
+  const [isSendingCode, setIsSendingCode] = useState(false);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const policy = STEP_UP_POLICY[action];
+  const needs = (factor: StepUpFactor) => factors.includes(factor);
+
+  useEffect(() => {
+    if (visible) {
+      setPassword('');
+      setPin('');
+      setOtp('');
+      setEmailCode('');
+      setEmailCodeSent(false);
+      setError('');
+    }
+  }, [visible]);
+
+  const handleSendEmailCode = async () => {
+    setIsSendingCode(true);
+    try {
+      await StepUpService.sendReauthenticationCode();
+      setEmailCodeSent(true);
+      setError('');
+    } catch (error: any) {
+      setError(error.message || 'Failed to send code');
+    } finally {
+      setIsSendingCode(false);
+    }
+  };
+
+  const validateInputs = () => {
+    if (needs('password') && !password) {
+      setError('Enter your password');
+      return false;
+    }
+    if (needs('transaction_pin') && pin.length !== TRANSACTION_PIN_LENGTH) {
+      setError(`Enter your ${TRANSACTION_PIN_LENGTH}-digit transaction PIN`);
+      return false;
+    }
+    if (needs('totp') && otp.length !== 6 && otp.length !== 8) {
+      setError('Enter a 6-digit authenticator code or an 8-digit backup code');
+      return false;
+    }
+    if (needs('email_otp') && emailCode.length !== 6) {
+      setError(emailCodeSent ? 'Enter the 6-digit code from your email' : 'Send a code to your email first');
+      return false;
+    }
+    return true;
+  };
+
+  const handleFailure = (factor: StepUpFactor | null | undefined, message: string) => {
+    setError(message);
+    if (factor === 'password') setPassword('');
+    if (factor === 'transaction_pin') setPin('');
+    if (factor === 'totp') setOtp('');
+    if (factor === 'email_otp') {
+      setEmailCode('');
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!validateInputs()) return;
+
+    setIsLoading(true);
+    try {
+      const values: StepUpFactorValues = {
+        password: needs('password') ? password : undefined,
+        transactionPin: needs('transaction_pin') ? pin : undefined,
+        otp: needs('totp') ? otp : needs('email_otp') ? emailCode : undefined,
+      };
+
+      if (needs('biometric')) {
+        const credentials = await BiometricService.authenticateWithBiometric('Confirm it is you');
+        if (!credentials) {
+          setError('Biometric verification was cancelled');
+          return;
+        }
+        values.deviceId = credentials.deviceId;
+        values.biometricCredential = credentials.credential;
+      }
+
+      const result = await StepUpService.issueToken(action, values);
+      if (result.token) {
+        setError('');
+        onVerified(result.token);
+        return;
+      }
+
+      handleFailure(
+        result.factor,
+        result.factor === 'transaction_pin' && result.pin
+          ? TransactionPinService.describeFailure(result.pin)
+          : result.message || 'Verification failed'
+      );
+    } catch (error: any) {
+      setError(error.message || 'Verification failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (!isLoading) {
+      onCancel();
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={handleCancel}
+    >
+      <KeyboardAvoidingView 
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 0 : 20}
+      >
+        <TouchableOpacity 
+          style={styles.backdropTouch} 
+          activeOpacity={1} 
+          onPress={handleCancel}
+        >
+          <ScrollView 
+            contentContainerStyle={styles.scrollContainer}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            <TouchableOpacity activeOpacity={1} onPress={() => {}}>
+              <View style={styles.container}>
+                <View style={styles.header}>
+                  <Ionicons name="shield-checkmark" size={32} color="#09d2fe" />
+                  <Text style={styles.title}>{policy.title}</Text>
+                  <Text style={styles.message}>{policy.description}</Text>
+                </View>
+
+                {needs('password') && (
+                  <View style={styles.inputContainer}>
+                    <Text style={styles.inputLabel}>Password</Text>
+                    <TextInput
+                      style={styles.textInput}
+                      value={password}
+                      onChangeText={setPassword}
+                      placeholder="Enter your password"
+                      placeholderTextColor="#6b7280"
+                      secureTextEntry={true}
+                      autoCapitalize="none"
+                      autoFocus={true}
+                      editable={!isLoading}
+                    />
+                  </View>
+                )}
+
+                {needs('transaction_pin') && (
+                  <View style={styles.inputContainer}>
+                    <Text style={styles.inputLabel}>Transaction PIN</Text>
+                    <TextInput
+                      style={styles.pinInput}
+                      value={pin}
+                      onChangeText={(text) => setPin(text.replace(/[^0-9]/g, ''))}
+                      placeholder="••••••"
+                      placeholderTextColor="#6b7280"
+                      keyboardType="number-pad"
+                      maxLength={TRANSACTION_PIN_LENGTH}
+                      secureTextEntry={true}
+                      autoFocus={!needs('password')}
+                      editable={!isLoading}
+                    />
+                  </View>
+                )}
+
+                {needs('totp') && (
+                  <View style={styles.inputContainer}>
+                    <Text style={styles.inputLabel}>Authenticator Code</Text>
+                    <TextInput
+                      style={styles.pinInput}
+                      value={otp}
+                      onChangeText={(text) => setOtp(text.replace(/[^0-9]/g, '').slice(0, 8))}
+                      placeholder="000000"
+                      placeholderTextColor="#6b7280"
+                      keyboardType="number-pad"
+                      textContentType="oneTimeCode"
+                      maxLength={8}
+                      editable={!isLoading}
+                    />
+                    <Text style={styles.inputHint}>You can also use an 8-digit backup code</Text>
+                  </View>
+                )}
+
+                {needs('email_otp') && (
+                  <View style={styles.inputContainer}>
+                    <Text style={styles.inputLabel}>Email Code</Text>
+                    {emailCodeSent ? (
+                      <>
+                        <TextInput
+                          style={styles.pinInput}
+                          value={emailCode}
+                          onChangeText={(text) => setEmailCode(text.replace(/[^0-9]/g, '').slice(0, 6))}
+                          placeholder="000000"
+                          placeholderTextColor="#6b7280"
+                          keyboardType="number-pad"
+                          textContentType="oneTimeCode"
+                          maxLength={6}
+                          editable={!isLoading}
+                        />
+                        <TouchableOpacity onPress={handleSendEmailCode} disabled={isSendingCode}>
+                          <Text style={styles.linkText}>Resend code</Text>
+                        </TouchableOpacity>
+                      </>
+                    ) : (
+                      <TouchableOpacity
+                        style={styles.sendCodeButton}
+                        onPress={handleSendEmailCode}
+                        disabled={isSendingCode || isLoading}
+                      >
+                        {isSendingCode ? (
+                          <ActivityIndicator size="small" color="#09d2fe" />
+                        ) : (
+                          <Text style={styles.sendCodeText}>Send code to {email}</Text>
+                        )}
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                )}
+
+                {needs('biometric') && (
+                  <View style={styles.factorRow}>
+                    <Ionicons name="finger-print" size={20} color="#09d2fe" />
+                    <Text style={styles.factorText}>You'll confirm with biometrics next</Text>
+                  </View>
+                )}
+
+                {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+                <View style={styles.buttonContainer}>
+                  <TouchableOpacity
+                    style={styles.cancelButton}
+                    onPress={handleCancel}
+                    disabled={isLoading}
+                  >
+                    <Text style={styles.cancelButtonText}>Cancel</Text>
+                  </TouchableOpacity>
+
+                  <TouchableOpacity
+                    style={[styles.confirmButton, isLoading && styles.confirmButtonDisabled]}
+                    onPress={handleConfirm}
+                    disabled={isLoading}
+                  >
+                    {isLoading ? (
+                      <ActivityIndicator size="small" color="#ffffff" />
+                    ) : (
+                      <Text style={styles.confirmButtonText}>Confirm</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </TouchableOpacity>
+          </ScrollView>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const { width } = Dimensions.get('window');
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.85)',
+  },
+  backdropTouch: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 40,
+  },
+  container: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    padding: width < 400 ? 16 : 24,
+    width: width > 400 ? 400 : width * 0.9,
+    maxWidth: 400,
+    borderWidth: 1,
+    borderColor: '#333333',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 10,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 20,
+    elevation: 20,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    color: '#ffffff',
+    fontSize: width < 400 ? 18 : 20,
+    fontWeight: 'bold',
+    marginTop: 12,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  message: {
+    color: '#9ca3af',
+    fontSize: width < 400 ? 13 : 14,
+    textAlign: 'center',
+    lineHeight: width < 400 ? 18 : 20,
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#3a3a3a',
+    color: '#ffffff',
+    fontSize: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  pinInput: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#3a3a3a',
+    color: '#ffffff',
+    fontSize: 24,
+    letterSpacing: 12,
+    textAlign: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  inputHint: {
+    color: '#6b7280',
+    fontSize: 12,
+    marginTop: 6,
+    textAlign: 'center',
+  },
+  sendCodeButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#09d2fe',
+  },
+  sendCodeText: {
+    color: '#09d2fe',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  linkText: {
+    color: '#09d2fe',
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  factorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 20,
+  },
+  factorText: {
+    color: '#9ca3af',
+    fontSize: 14,
+    marginLeft: 8,
+  },
+  errorText: {
+    color: '#ff4757',
+    fontSize: 14,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: 'transparent',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#3a3a3a',
+  },
+  cancelButtonText: {
+    color: '#9ca3af',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: '#09d2fe',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  confirmButtonDisabled: {
+    backgroundColor: '#6b7280',
+  },
+  confirmButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default StepUpPrompt;
@@ -0,0 +1,490 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ActivityIndicator,
+  Dimensions,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { Ionicons } from '@expo/vector-icons';
+import { TwoFactorRecovery } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { StepUpService } from '../services/stepUpService';
+import { TwoFactorRecoveryService } from '../services/twoFactorRecoveryService';
+
+interface TwoFactorRecoveryPromptProps {
+  visible: boolean;
+  email: string;
+  userId: string;
+  onClose: () => void;
+}
+
+type RecoveryStep = 'loading' | 'intro' | 'email' | 'selfie' | 'status';
+
+// Lost-authenticator recovery, opened from the 2FA login step. Starts a
+// request (email code + selfie) or shows the one in progress, and finishes the
+// login once the server has turned 2FA off.
+const TwoFactorRecoveryPrompt: React.FC<TwoFactorRecoveryPromptProps> = ({
+  visible,
+  email,
+  userId,
+  onClose,
+}) => {
+  const { completeTwoFactorRecovery } = useAuth();
+  const [step, setStep] = useState<RecoveryStep>('loading');
+  const [recovery, setRecovery] = useState<TwoFactorRecovery | null>(null);
+  const [emailCode, setEmailCode] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setEmailCode('');
+      setError('');
+      loadStatus();
+    }
+  }, [visible]);
+
+  const loadStatus = async () => {
+    setStep('loading');
+    const status = await TwoFactorRecoveryService.getStatus();
+    setRecovery(status);
+    setStep(status && (status.status === 'pending' || status.status === 'approved') ? 'status' : 'intro');
+  };
+
+  const handleSendEmailCode = async () => {
+    setIsLoading(true);
+    try {
+      await StepUpService.sendEmailCode(email);
+      setError('');
+      setStep('email');
+    } catch (error: any) {
+      setError(error.message || 'Failed to send code');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleVerifyEmailCode = async () => {
+    if (emailCode.length !== 6) {
+      setError('Enter the 6-digit code from your email');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      if (!(await StepUpService.verifyEmailCode(email, emailCode))) {
+        setEmailCode('');
+        setError('The email code is incorrect or has expired');
+        return;
+      }
+      setError('');
+      setStep('selfie');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleTakeSelfie = async () => {
+    try {
+      const permission = await ImagePicker.requestCameraPermissionsAsync();
+      if (!permission.granted) {
+        setError('Camera access is needed to take a selfie');
+        return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        cameraType: ImagePicker.CameraType.front,
+        allowsEditing: true,
+        aspect: [1, 1],
+        quality: 0.8,
+      });
+      if (result.canceled || !result.assets[0]) return;
+
+      setIsLoading(true);
+      const selfieUrl = await TwoFactorRecoveryService.uploadSelfie(userId, result.assets[0].uri);
+      await TwoFactorRecoveryService.start(selfieUrl);
+      setError('');
+      await loadStatus();
+    } catch (error: any) {
+      setError(error.message || 'Failed to submit your request');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelRequest = () => {
+    Alert.alert(
+      'Cancel Recovery?',
+      'Two-factor authentication will stay on and you will need your authenticator app to sign in.',
+      [
+        { text: 'Keep Request', style: 'cancel' },
+        {
+          text: 'Cancel Request',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await TwoFactorRecoveryService.cancel();
+              await loadStatus();
+            } catch (error: any) {
+              setError(error.message || 'Failed to cancel the request');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleComplete = async () => {
+    setIsLoading(true);
+    try {
+      await completeTwoFactorRecovery();
+    } catch (error: any) {
+      setError(error.message || 'Recovery is not available yet');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      onClose();
+    }
+  };
+
+  const formatDate = (value: string) => new Date(value).toLocaleString();
+
+  const renderIntro = () => (
+    <>
+      <Text style={styles.bodyText}>
+        If you lost your authenticator app and your backup codes, you can ask for two-factor authentication to be turned off.
+      </Text>
+      <View style={styles.stepList}>
+        <Text style={styles.stepItem}>1. Confirm a code sent to {email}</Text>
+        <Text style={styles.stepItem}>2. Take a selfie that we compare with your verified ID</Text>
+        <Text style={styles.stepItem}>3. Wait 48 hours. We'll notify you, and withdrawals are paused until you set up 2FA again</Text>
+      </View>
+      {recovery?.status === 'rejected' && (
+        <Text style={styles.noticeText}>
+          Your last request was declined{recovery.reviewer_notes ? `: ${recovery.reviewer_notes}` : '.'}
+        </Text>
+      )}
+      <TouchableOpacity
+        style={[styles.confirmButton, isLoading && styles.confirmButtonDisabled]}
+        onPress={handleSendEmailCode}
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <ActivityIndicator size="small" color="#ffffff" />
+        ) : (
+          <Text style={styles.confirmButtonText}>Start Recovery</Text>
+        )}
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderEmail = () => (
+    <>
+      <Text style={styles.bodyText}>Enter the 6-digit code sent to {email}</Text>
+      <TextInput
+        style={styles.pinInput}
+        value={emailCode}
+        onChangeText={(text) => setEmailCode(text.replace(/[^0-9]/g, '').slice(0, 6))}
+        placeholder="000000"
+        placeholderTextColor="#6b7280"
+        keyboardType="number-pad"
+        textContentType="oneTimeCode"
+        maxLength={6}
+        autoFocus={true}
+        editable={!isLoading}
+      />
+      <TouchableOpacity onPress={handleSendEmailCode} disabled={isLoading}>
+        <Text style={styles.linkText}>Resend code</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={[styles.confirmButton, isLoading && styles.confirmButtonDisabled]}
+        onPress={handleVerifyEmailCode}
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <ActivityIndicator size="small" color="#ffffff" />
+        ) : (
+          <Text style={styles.confirmButtonText}>Verify Email</Text>
+        )}
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderSelfie = () => (
+    <>
+      <Text style={styles.bodyText}>
+        Take a clear selfie in good light, without a hat or sunglasses. It is compared with the face photo from your verified ID.
+      </Text>
+      <TouchableOpacity
+        style={[styles.confirmButton, isLoading && styles.confirmButtonDisabled]}
+        onPress={handleTakeSelfie}
+        disabled={isLoading}
+      >
+        {isLoading ? (
+          <ActivityIndicator size="small" color="#ffffff" />
+        ) : (
+          <Text style={styles.confirmButtonText}>Take Selfie</Text>
+        )}
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderStatus = (current: TwoFactorRecovery) => {
+    const waitOver = new Date(current.available_at).getTime() <= Date.now();
+    const ready = current.status === 'approved' && waitOver;
+
+    return (
+      <>
+        <View style={styles.factorRow}>
+          <Ionicons
+            name={ready ? 'checkmark-circle' : 'time-outline'}
+            size={20}
+            color={ready ? '#10b981' : '#f59e0b'}
+          />
+          <Text style={styles.factorText}>
+            {ready
+              ? 'Your request is ready'
+              : current.status === 'pending'
+                ? 'Your selfie is being reviewed'
+                : 'Your selfie was approved'}
+          </Text>
+        </View>
+        <Text style={styles.bodyText}>
+          {ready
+            ? 'Two-factor authentication will be turned off and you will be signed in. Set it up again to resume withdrawals.'
+            : `Two-factor authentication can be turned off after ${formatDate(current.available_at)}. Come back then to finish signing in.`}
+        </Text>
+        {ready && (
+          <TouchableOpacity
+            style={[styles.confirmButton, isLoading && styles.confirmButtonDisabled]}
+            onPress={handleComplete}
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <ActivityIndicator size="small" color="#ffffff" />
+            ) : (
+              <Text style={styles.confirmButtonText}>Turn Off 2FA & Sign In</Text>
+            )}
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity onPress={handleCancelRequest} disabled={isLoading}>
+          <Text style={styles.destructiveLinkText}>Cancel request</Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  const renderStep = () => {
+    switch (step) {
+      case 'loading':
+        return <ActivityIndicator size="large" color="#09d2fe" style={styles.loader} />;
+      case 'email':
+        return renderEmail();
+      case 'selfie':
+        return renderSelfie();
+      case 'status':
+        return recovery ? renderStatus(recovery) : renderIntro();
+      default:
+        return renderIntro();
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={handleClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 0 : 20}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContainer}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.container}>
+            <View style={styles.header}>
+              <Ionicons name="help-buoy" size={32} color="#09d2fe" />
+              <Text style={styles.title}>Lost Your Authenticator?</Text>
+            </View>
+
+            {renderStep()}
+
+            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={handleClose}
+              disabled={isLoading}
+            >
+              <Text style={styles.cancelButtonText}>Back to Verification</Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const { width } = Dimensions.get('window');
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.85)',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 40,
+  },
+  container: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    padding: width < 400 ? 16 : 24,
+    width: width > 400 ? 400 : width * 0.9,
+    maxWidth: 400,
+    borderWidth: 1,
+    borderColor: '#333333',
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 10,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 20,
+    elevation: 20,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    color: '#ffffff',
+    fontSize: width < 400 ? 18 : 20,
+    fontWeight: 'bold',
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  bodyText: {
+    color: '#9ca3af',
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  stepList: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  stepItem: {
+    color: '#ffffff',
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 6,
+  },
+  noticeText: {
+    color: '#f59e0b',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  pinInput: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#3a3a3a',
+    color: '#ffffff',
+    fontSize: 24,
+    letterSpacing: 12,
+    textAlign: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  linkText: {
+    color: '#09d2fe',
+    fontSize: 14,
+    marginTop: 8,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  destructiveLinkText: {
+    color: '#ff4757',
+    fontSize: 14,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  factorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  factorText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  loader: {
+    marginVertical: 24,
+  },
+  errorText: {
+    color: '#ff4757',
+    fontSize: 14,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  confirmButton: {
+    backgroundColor: '#09d2fe',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  confirmButtonDisabled: {
+    backgroundColor: '#6b7280',
+  },
+  confirmButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    backgroundColor: 'transparent',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#3a3a3a',
+    marginTop: 20,
+  },
+  cancelButtonText: {
+    color: '#9ca3af',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default TwoFactorRecoveryPrompt;
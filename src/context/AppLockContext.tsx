@@ -0,0 +1,182 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { AppState, AppStateStatus, View, StyleSheet, Image } from 'react-native';
+import { AppLockContextType } from '../types';
+import { useAuth } from './AuthContext';
+import { AppLockService, MAX_PIN_ATTEMPTS, DEFAULT_LOCK_TIMEOUT_SECONDS } from '../services/appLockService';
+import { BiometricService } from '../services/biometricService';
+import AppLockScreen from '../components/AppLockScreen';
+
+const IDLE_CHECK_INTERVAL_MS = 10000;
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+export const useAppLock = () => {
+  const context = useContext(AppLockContext);
+  if (!context) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+};
+
+// Locks the signed-in app after the configured idle/background period and hides
+// its contents from the app switcher. The lock only applies once a PIN is set.
+export const AppLockProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, signOut } = useAuth();
+  const [pinSet, setPinSet] = useState(false);
+  const [lockTimeout, setLockTimeoutState] = useState(DEFAULT_LOCK_TIMEOUT_SECONDS);
+  const [isLocked, setIsLocked] = useState(false);
+  const [isAppActive, setIsAppActive] = useState(AppState.currentState === 'active');
+  const lastActivityAt = useRef(Date.now());
+  const backgroundedAt = useRef<number | null>(null);
+
+  const lockEnabled = !!user && pinSet;
+
+  useEffect(() => {
+    loadSettings();
+  }, [user?.uid]);
+
+  // Never show the lock over the signed-out screens
+  useEffect(() => {
+    if (!user) {
+      setIsLocked(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    const handleAppStateChange = (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        setIsAppActive(true);
+        const awayFor = backgroundedAt.current ? Date.now() - backgroundedAt.current : 0;
+        backgroundedAt.current = null;
+        if (lockEnabled && awayFor >= lockTimeout * 1000) {
+          setIsLocked(true);
+        }
+        lastActivityAt.current = Date.now();
+      } else {
+        setIsAppActive(false);
+        if (backgroundedAt.current === null) {
+          backgroundedAt.current = Date.now();
+        }
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => subscription.remove();
+  }, [lockEnabled, lockTimeout]);
+
+  useEffect(() => {
+    if (!lockEnabled || isLocked) return;
+
+    lastActivityAt.current = Date.now();
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivityAt.current >= lockTimeout * 1000) {
+        setIsLocked(true);
+      }
+    }, IDLE_CHECK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [lockEnabled, isLocked, lockTimeout]);
+
+  const loadSettings = async () => {
+    setPinSet(await AppLockService.isPinSet());
+    setLockTimeoutState(await AppLockService.getLockTimeout());
+  };
+
+  const unlock = () => {
+    lastActivityAt.current = Date.now();
+    setIsLocked(false);
+  };
+
+  const unlockWithPin = async (pin: string): Promise<{ success: boolean; attemptsLeft: number }> => {
+    if (await AppLockService.verifyPin(pin)) {
+      unlock();
+      return { success: true, attemptsLeft: MAX_PIN_ATTEMPTS };
+    }
+
+    const attemptsLeft = MAX_PIN_ATTEMPTS - (await AppLockService.getFailedAttempts());
+    if (attemptsLeft <= 0) {
+      // Too many wrong PINs - end the session, the user must sign in again
+      await AppLockService.resetFailedAttempts();
+      setIsLocked(false);
+      await signOut();
+    }
+    return { success: false, attemptsLeft: Math.max(attemptsLeft, 0) };
+  };
+
+  const unlockWithBiometric = async (): Promise<boolean> => {
+    const success = await BiometricService.authenticate('Unlock CoinSensei');
+    if (success) {
+      await AppLockService.resetFailedAttempts();
+      unlock();
+    }
+    return success;
+  };
+
+  const setPin = async (pin: string) => {
+    await AppLockService.setPin(pin);
+    setPinSet(true);
+  };
+
+  const removePin = async () => {
+    await AppLockService.removePin();
+    setPinSet(false);
+  };
+
+  const setLockTimeout = async (seconds: number) => {
+    await AppLockService.setLockTimeout(seconds);
+    setLockTimeoutState(seconds);
+  };
+
+  const value: AppLockContextType = {
+    pinSet,
+    lockTimeout,
+    isLocked,
+    unlockWithPin,
+    unlockWithBiometric,
+    setPin,
+    removePin,
+    setLockTimeout,
+  };
+
+  return (
+    <AppLockContext.Provider value={value}>
+      <View
+        style={styles.container}
+        onStartShouldSetResponderCapture={() => {
+          lastActivityAt.current = Date.now();
+          return false;
+        }}
+      >
+        {children}
+        {lockEnabled && isLocked && <AppLockScreen />}
+        {/* Hide balances in the app switcher snapshot */}
+        {!!user && !isAppActive && (
+          <View style={styles.privacyCover}>
+            <Image
+              source={require('../../assets/android-chrome-192x192.png')}
+              style={styles.privacyLogo}
+              resizeMode="contain"
+            />
+          </View>
+        )}
+      </View>
+    </AppLockContext.Provider>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  privacyCover: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#000000',
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 20,
+  },
+  privacyLogo: {
+    width: 96,
+    height: 96,
+  },
+});
@@ -1,14 +1,25 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useContext, useEffect, useReducer, useState } from 'react';
+import { Alert, Linking } from 'react-native';
 import { supabase } from '../config/supabase';
 import { UserProfile, KYC, Wallet, AuthContextType } from '../types';
 import { BiometricService } from '../services/biometricService';
+import { TwoFactorService } from '../services/twoFactorService';
+import { DeviceService } from '../services/deviceService';
+import { LoginSecurityService } from '../services/loginSecurityService';
+import { PasswordResetService } from '../services/passwordResetService';
+import { TwoFactorRecoveryService } from '../services/twoFactorRecoveryService';
+import { NewDeviceAlertService } from '../services/newDeviceAlertService';
+import { PhoneVerificationService } from '../services/phoneVerificationService';
+import { loginTransition, initialLoginState } from './loginMachine';
 // import { walletService } from '../services/walletService';
 
-// Global storage for 2FA login credentials (temporary, cleared after use)
-let pending2FACredentials: { email: string; password: string } | null = null;
-
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Everything in UserProfile that lives in user_profile. select('*') is not
+// allowed there, since two_factor_secret is not readable by clients.
+const USER_PROFILE_COLUMNS =
+  'uid, full_name, username, phone_number, phone_verified_at, avatar_url, role, cnic_number, dob, address, two_factor_enabled, created_at, is_locked, lock_reason';
+
 export const useAuth = () => {
   const context = useContext(AuthContext);
   if (!context) {
@@ -20,185 +31,166 @@ export const useAuth = () => {
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<UserProfile | null>(null);
   const [wallet, setWallet] = useState<Wallet | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [pending2FA, setPending2FA] = useState<{ userId: string; show: boolean } | null>(null);
-  const [isBiometricLogin, setIsBiometricLogin] = useState(false);
-  const [suppress2FA, setSuppress2FA] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [loginState, dispatch] = useReducer(loginTransition, initialLoginState);
 
   useEffect(() => {
-    console.log('AuthContext: Setting up auth state listener');
     // Check active sessions and subscribe to auth changes
     supabase.auth.getSession().then(({ data: { session } }) => {
       if (session?.user && session.user.id) {
-        console.log('Found existing session for user:', session.user.id);
-        fetchUserData(session.user.id);
+        dispatch({ type: 'SESSION_FOUND', userId: session.user.id });
       } else {
-        console.log('No existing session found');
-        setLoading(false);
+        dispatch({ type: 'NO_SESSION' });
       }
     });
 
+    // Sign-ins are driven by the login actions below; the listener only needs to
+    // notice sessions ending (sign out, revoked elsewhere). The reducer decides
+    // whether the event matters for the current login step.
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      async (event, session) => {
-        console.log('Auth state changed:', event, session?.user?.id);
-        if (suppress2FA) {
-          console.log('Email OTP flow active - suppressing 2FA and data fetch for this auth event');
-          return;
+      (event) => {
+        if (event === 'SIGNED_OUT') {
+          dispatch({ type: 'SIGNED_OUT' });
         }
-        
-        if (session?.user && session.user.id) {
-          console.log('AuthContext: User authenticated, checking 2FA status');
-          
-          // Skip 2FA check for TOKEN_REFRESHED and USER_UPDATED events to prevent infinite loops
-          if (event === 'TOKEN_REFRESHED') {
-            console.log('Token refreshed, skipping 2FA check');
-            return;
-          }
-          
-          if (event === 'USER_UPDATED') {
-            console.log('User updated (e.g., password change), skipping 2FA check');
-            return;
-          }
-          
-          // Check if user has 2FA enabled
-          const { data: profile, error: profileError } = await supabase
-            .from('user_profile')
-            .select('two_factor_enabled')
-            .eq('uid', session.user.id)
-            .single();
-
-          if (profileError) {
-            console.error('Error checking 2FA status:', profileError);
-            // If we can't check 2FA status, proceed without 2FA
-            await fetchUserData(session.user.id);
-            return;
-          }
-
-          const requires2FA = profile?.two_factor_enabled || false;
-          console.log('2FA check result:', { userId: session.user.id, requires2FA });
-
-          if (requires2FA && event === 'SIGNED_IN' && !isBiometricLogin) {
-            // User has 2FA enabled and just signed in (not biometric), show 2FA modal
-            console.log('2FA required, showing verification modal');
-            setPending2FA({ userId: session.user.id, show: true });
-            setLoading(false);
-          } else {
-            // No 2FA required, biometric login, or this is not a fresh sign in, proceed normally
-            console.log('No 2FA required or biometric login or already verified, fetching user data');
-            setPending2FA(null);
-            
-            // Handle biometric login specially
-            if (isBiometricLogin) {
-              console.log('Biometric login detected - bypassing 2FA verification');
-              // Don't reset the flag here - let the signInWithBiometric function handle it
-              await fetchUserData(session.user.id);
-            } else {
-              await fetchUserData(session.user.id);
-            }
-          }
-              } else {
-        console.log('AuthContext: Clearing user data - no session');
-        console.log('Event that caused sign out:', event);
-        console.log('Current pending2FA state:', pending2FA);
-        
-        // Clear user data
-        setUser(null);
-        setWallet(null);
-        setPending2FA(null);
-        setLoading(false);
-      }
       }
     );
 
-    return () => subscription.unsubscribe();
+    // Password reset links open the app with a recovery session in the URL;
+    // "This wasn't me" links from new-device emails carry a one-time token
+    const handleUrl = ({ url }: { url: string }) => {
+      handleRecoveryLink(url);
+      handleSecureAccountLink(url);
+    };
+    Linking.getInitialURL().then((url) => {
+      if (url) handleUrl({ url });
+    });
+    const linkSubscription = Linking.addEventListener('url', handleUrl);
+
+    return () => {
+      subscription.unsubscribe();
+      linkSubscription.remove();
+    };
   }, []);
 
+  const handleRecoveryLink = async (url: string) => {
+    const tokens = PasswordResetService.parseRecoveryUrl(url);
+    if (!tokens) return;
+
+    try {
+      const { data, error } = await supabase.auth.setSession({
+        access_token: tokens.accessToken,
+        refresh_token: tokens.refreshToken,
+      });
+      if (error || !data.user) throw error || new Error('Invalid reset link');
+
+      const { data: profile } = await supabase
+        .from('user_profile')
+        .select('two_factor_enabled')
+        .eq('uid', data.user.id)
+        .single();
+
+      dispatch({
+        type: 'RECOVERY_LINK_OPENED',
+        email: data.user.email || '',
+        userId: data.user.id,
+        requiresSecondFactor: profile?.two_factor_enabled || false,
+      });
+    } catch (error: any) {
+      console.error('Password reset link error:', error);
+      Alert.alert('Reset Link Invalid', 'This password reset link is invalid or has expired. Please request a new one.');
+    }
+  };
+
+  const handleSecureAccountLink = (url: string) => {
+    const token = NewDeviceAlertService.parseSecureAccountUrl(url);
+    if (!token) return;
+
+    Alert.alert(
+      'Secure Your Account?',
+      'This signs out the device that just signed in and locks your account until you reset your password.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'This Wasn\'t Me',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const email = await NewDeviceAlertService.reportWithToken(token);
+              if (!email) {
+                Alert.alert('Link Expired', 'This link has already been used or has expired.');
+                return;
+              }
+              await finishAccountLockdown(email);
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to secure your account');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // After a new sign-in is reported: email a reset link and drop this session
+  const finishAccountLockdown = async (email: string) => {
+    try {
+      await PasswordResetService.requestReset(email);
+    } catch (error) {
+      // The account is already locked; the user can request a reset from the login screen
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (session) {
+      await supabase.auth.signOut();
+    }
+
+    Alert.alert(
+      'Account Locked',
+      `That device has been signed out and your account is locked. We've sent a password reset link to ${email}. Reset your password to unlock your account.`
+    );
+  };
+
+  const reportNewDevice = async (alertId: string): Promise<boolean> => {
+    const email = user?.email;
+    const reported = await NewDeviceAlertService.report(alertId);
+    if (reported && email) {
+      await finishAccountLockdown(email);
+    }
+    return reported;
+  };
+
+  // Load the profile once a session is established; clear it when back to idle
+  useEffect(() => {
+    if (loginState.status === 'sessionEstablished') {
+      if (loginState.freshLogin) {
+        LoginSecurityService.recordLoginSuccess();
+      }
+      fetchUserData(loginState.userId);
+    } else if (loginState.status === 'idle') {
+      setUser(null);
+      setWallet(null);
+    }
+  }, [loginState]);
+
   const fetchUserData = async (userId: string, showLoading: boolean = true) => {
     // Don't fetch data if no valid user ID
     if (!userId || userId.trim() === '') {
-      console.log('No valid userId provided, skipping data fetch');
       if (showLoading) setLoading(false);
       return;
     }
 
     try {
       if (showLoading) setLoading(true);
-      console.log('Fetching user data for userId:', userId);
-      
-      // Check current session for database queries
-      const { data: { session: currentSession } } = await supabase.auth.getSession();
-      console.log('Current session for DB queries:', {
-        hasSession: !!currentSession,
-        sessionUserId: currentSession?.user?.id,
-        accessToken: currentSession?.access_token ? 'Present' : 'Missing',
-        tokenType: currentSession?.token_type,
-        expiresAt: currentSession?.expires_at
-      });
-      
-      // Check if session is properly set for requests
-      console.log('Session details:', {
-        sessionValid: !!currentSession,
-        userMatches: currentSession?.user?.id === userId,
-        accessTokenLength: currentSession?.access_token?.length || 0
-      });
-      
-      // If no session but we have a userId, this might be a timing issue during 2FA
-      // Try to wait a bit and check again
-      if (!currentSession && userId) {
-        console.log('No session found, waiting 500ms and trying again...');
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        const { data: { session: retrySession } } = await supabase.auth.getSession();
-        console.log('Retry session check:', {
-          hasSession: !!retrySession,
-          sessionUserId: retrySession?.user?.id,
-          accessToken: retrySession?.access_token ? 'Present' : 'Missing'
-        });
-      }
-      
-      // Test database connection first
-      const { data: testData, error: testError } = await supabase
-        .from('user_profile')
-        .select('uid')
-        .limit(1);
-      
-      console.log('Database connection test:', { 
-        testData: testData ? testData.length : 0, 
-        testError 
-      });
-      
-      // Test if this specific user exists (debugging RLS)
-      const { data: specificUserTest, error: specificUserError } = await supabase
-        .from('user_profile')
-        .select('uid, full_name')
-        .eq('uid', userId);
-      
-      console.log('Specific user test (no .single()):', {
-        count: specificUserTest ? specificUserTest.length : 0,
-        data: specificUserTest,
-        error: specificUserError
-      });
-      
-      // Fetch user profile
-      console.log('Querying user_profile table with userId:', userId);
+
+      // Named columns only: the 2FA secret and replay marker are not readable
       const { data: profile, error: profileError } = await supabase
         .from('user_profile')
-        .select('*')
+        .select(USER_PROFILE_COLUMNS)
         .eq('uid', userId)
         .single();
-      
-      console.log('Profile query result:', { 
-        profile: profile ? 'Found' : 'Not found', 
-        profileError,
-        userId: userId,
-        profileId: profile?.uid 
-      });
 
       if (profileError) {
         console.error('Error fetching profile:', profileError);
         // Don't return early, try to fetch other data
-      } else {
-        console.log('Profile fetched successfully:', profile);
       }
 
       // Fetch KYC data
@@ -210,8 +202,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       if (kycError && kycError.code !== 'PGRST116') { // PGRST116 is "not found"
         console.error('Error fetching KYC:', kycError);
-      } else if (kyc) {
-        console.log('KYC fetched successfully:', kyc);
       }
 
       // Fetch wallet data
@@ -223,8 +213,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       if (walletError && walletError.code !== 'PGRST116') {
         console.error('Error fetching wallet:', walletError);
-      } else if (walletData) {
-        console.log('Wallet fetched successfully:', walletData);
+      }
+
+      if (profile?.is_locked) {
+        // Account was locked while this session was active - require a fresh unlock
+        setUser(null);
+        setWallet(null);
+        await supabase.auth.signOut();
+        return;
       }
 
       // Only set user if profile exists
@@ -243,27 +239,43 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         };
         setUser(userWithKYC);
         setWallet(walletData);
+
+        dispatch({ type: 'PROFILE_LOADED' });
+
+        // Record this device for the Devices & Sessions screen (non-blocking)
+        DeviceService.registerCurrentDevice();
       } else {
         console.error('No profile found for user:', userId);
         setUser(null);
         setWallet(null);
+        dispatch({ type: 'FAIL', message: 'Could not load your account. Please sign in again.', fatal: true });
       }
     } catch (error) {
       console.error('Error in fetchUserData:', error);
       setUser(null);
       setWallet(null);
+      dispatch({ type: 'FAIL', message: 'Could not load your account. Please sign in again.', fatal: true });
     } finally {
       if (showLoading) setLoading(false);
     }
   };
 
-  // Removed generateAndStoreWalletAddresses function - wallet creation is now handled by the database function
 
   const signUp = async (email: string, password: string, fullName: string) => {
     try {
       setLoading(true);
       
-      const { data, error } = await supabase.auth.signUp({
+      // The sign-up function enforces the password policy before creating the user
+      const { error: signUpError } = await supabase.functions.invoke('sign-up', {
+        body: { email, password, fullName },
+      });
+
+      if (signUpError) {
+        const body = await signUpError.context?.json?.().catch(() => null);
+        throw new Error(body?.error || 'Sign up failed. Please try again.');
+      }
+
+      const { data, error } = await supabase.auth.signInWithPassword({
         email,
         password,
       });
@@ -286,8 +298,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         // Add a small delay to ensure database operations are complete
         await new Promise(resolve => setTimeout(resolve, 1000));
 
-        // Fetch the complete user data
-        await fetchUserData(data.user.id);
+        // Loading the complete user data is handled by the login state effect
+        dispatch({ type: 'SIGNED_UP', userId: data.user.id });
       }
     } catch (error: any) {
       console.error('Sign up error:', error);
@@ -297,158 +309,194 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  // Simple sign in that triggers 2FA check in auth state listener
-  const signInWith2FA = async (email: string, password: string) => {
-    // Store credentials for potential re-authentication after 2FA
-    pending2FACredentials = { email, password };
-    
-    const { data, error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
+  // Step 1: check the password, then send the mandatory email OTP.
+  // The password session is signed out straight away so nothing is usable before the OTP.
+  const submitCredentials = async (email: string, password: string) => {
+    dispatch({ type: 'SUBMIT_CREDENTIALS', email });
 
-    if (error) {
-      pending2FACredentials = null; // Clear on error
-      throw error;
+    try {
+      // Locked and throttled accounts are rejected by the password verification hook
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+      await supabase.auth.signOut();
+
+      const { error: otpError } = await supabase.auth.signInWithOtp({
+        email,
+        options: { shouldCreateUser: false },
+      });
+      if (otpError) throw otpError;
+
+      dispatch({ type: 'CREDENTIALS_ACCEPTED' });
+    } catch (error: any) {
+      console.error('Sign in error:', error);
+      dispatch({ type: 'FAIL', message: error.message || 'Failed to sign in' });
     }
-    // Auth state listener will handle the rest including 2FA check
-    return data;
   };
 
-  const signIn = async (email: string, password: string) => {
+  // Send an email OTP to start unlocking a locked account
+  const startUnlock = async (email: string) => {
     try {
-      setLoading(true);
-      
-      const { data, error } = await supabase.auth.signInWithPassword({
+      const { error } = await supabase.auth.signInWithOtp({
         email,
-        password,
+        options: { shouldCreateUser: false },
       });
-
       if (error) throw error;
 
-      if (data.user) {
-        await fetchUserData(data.user.id);
-      }
+      dispatch({ type: 'START_UNLOCK', email });
     } catch (error: any) {
-      console.error('Sign in error:', error);
-      throw error;
-    } finally {
-      setLoading(false);
+      console.error('Start unlock error:', error);
+      dispatch({ type: 'FAIL', message: error.message || 'Failed to send code' });
     }
   };
 
-  // Complete login after 2FA verification with fresh authentication
-  const complete2FALogin = async () => {
-    if (pending2FA && pending2FACredentials) {
-      try {
-        console.log('2FA verification successful, performing fresh authentication...');
-        
-        // Store the user ID and clear pending2FA immediately
-        const userId = pending2FA.userId;
-        const credentials = pending2FACredentials;
-        setPending2FA(null);
-        
-        console.log('Re-authenticating with stored credentials...');
-        
-        // Perform fresh authentication with the stored credentials
-        const { data, error } = await supabase.auth.signInWithPassword({
-          email: credentials.email,
-          password: credentials.password,
-        });
-        
-        // Clear stored credentials after use
-        pending2FACredentials = null;
-        
-        if (error) {
-          console.error('Re-authentication failed:', error);
-          throw error;
-        }
-        
-        console.log('Fresh authentication successful, setting user data...');
-        
-        // Create user object from fresh session
-        if (data.session?.user) {
-          const user = data.session.user;
-          
-          // Check actual biometric state from secure storage
-          const actualBiometricEnabled = await BiometricService.isBiometricEnabled();
-          
-          const minimalUser: UserProfile = {
-            uid: user.id,
-            email: user.email,
-            full_name: user.user_metadata?.full_name || user.email || 'User',
-            username: user.user_metadata?.username,
-            phone_number: user.user_metadata?.phone_number,
-            avatar_url: user.user_metadata?.avatar_url,
-            role: 'user',
-            cnic_number: user.user_metadata?.cnic_number,
-            dob: user.user_metadata?.dob,
-            address: user.user_metadata?.address,
-            kyc_status: 'not_submitted',
-            two_factor_enabled: true,
-            biometric_enabled: actualBiometricEnabled, // Use actual state from secure storage
-            created_at: user.created_at,
-            is_locked: false
-          };
-          
-          setUser(minimalUser);
-          setLoading(false);
-          
-          console.log('User logged in successfully with fresh authentication');
-          
-          // Try to fetch complete profile data with the fresh session
-          console.log('Attempting to fetch complete profile with fresh session...');
-          try {
-            // Wait a bit for session to propagate
-            await new Promise(resolve => setTimeout(resolve, 1000));
-            await fetchUserData(user.id, false);
-            console.log('Complete profile fetched successfully with fresh session');
-          } catch (error) {
-            console.log('Profile fetch still failed with fresh session, using session metadata:', error);
-            // User stays logged in with session metadata regardless
-          }
-        } else {
-          throw new Error('No user data in fresh authentication response');
-        }
-        
-      } catch (error: any) {
-        console.error('Complete 2FA login error:', error);
-        // Clear everything on error
-        setPending2FA(null);
-        pending2FACredentials = null;
+  const resendEmailOtp = async () => {
+    if (loginState.status !== 'emailOtp') return;
+
+    const { error } = await supabase.auth.signInWithOtp({
+      email: loginState.email,
+      options: { shouldCreateUser: false },
+    });
+    if (error) throw error;
+  };
+
+  // Step 2: verify the email OTP, which establishes the session
+  const verifyEmailOtp = async (code: string) => {
+    if (loginState.status !== 'emailOtp') return;
+    const { email } = loginState;
+
+    try {
+      const { data, error } = await supabase.auth.verifyOtp({
+        email,
+        token: code,
+        type: 'email',
+      });
+
+      // Wrong codes are rate limited by Supabase Auth and don't count toward the lockout
+      if (error || !data.user) {
+        dispatch({ type: 'FAIL', message: error?.message || 'Failed to verify email code' });
+        return;
+      }
+
+      const { data: profile, error: profileError } = await supabase
+        .from('user_profile')
+        .select('two_factor_enabled, is_locked, lock_reason, lock_kind')
+        .eq('uid', data.user.id)
+        .single();
+
+      if (profileError) throw profileError;
+
+      const requiresSecondFactor = profile?.two_factor_enabled || false;
+      let locked = profile?.is_locked || false;
+
+      // A reported sign-in locks the account until the password is reset;
+      // no code from this session can lift it
+      if (locked && profile?.lock_kind === 'device_report') {
         await supabase.auth.signOut();
-        throw error;
+        dispatch({ type: 'FAIL', message: profile.lock_reason || 'Reset your password to unlock this account', fatal: true });
+        return;
+      }
+
+      // Without 2FA the email OTP alone is enough to unlock
+      if (locked && !requiresSecondFactor) {
+        locked = !(await LoginSecurityService.unlockAccount());
       }
-    } else {
-      console.error('No pending 2FA or stored credentials for completion');
+
+      dispatch({
+        type: 'EMAIL_OTP_VERIFIED',
+        userId: data.user.id,
+        requiresSecondFactor,
+        locked,
+        lockReason: profile?.lock_reason ?? null,
+      });
+    } catch (error: any) {
+      console.error('Email OTP verification error:', error);
+      await supabase.auth.signOut();
+      dispatch({ type: 'FAIL', message: error.message || 'Failed to verify email code', fatal: true });
     }
   };
 
-  // Cancel 2FA login and sign out
-  const cancel2FALogin = async () => {
-    setPending2FA(null);
-    pending2FACredentials = null;
-    await supabase.auth.signOut();
+  // Step 3: authenticator, backup or SMS code
+  const submitSecondFactor = async (code: string, viaSms = false): Promise<boolean> => {
+    if (loginState.status !== 'secondFactor') return false;
+    const { email, userId } = loginState;
+
+    const isValid = viaSms
+      ? await PhoneVerificationService.verifySecondFactorCode(code)
+      : await TwoFactorService.verifyOTP(userId, code);
+    if (isValid) {
+      dispatch({ type: 'SECOND_FACTOR_VERIFIED' });
+      return true;
+    }
+
+    // Wrong codes count toward the lockout; leave the 2FA step once locked
+    const status = await LoginSecurityService.getLoginStatus(email);
+    if (status?.locked) {
+      await supabase.auth.signOut();
+      dispatch({ type: 'FAIL', message: status.lock_reason || 'This account is locked', fatal: true });
+    }
+    return false;
   };
 
-  // Controls to suppress 2FA handling while we run email OTP first
-  const beginEmailOtpFlow = () => setSuppress2FA(true);
-  const endEmailOtpFlow = () => setSuppress2FA(false);
+  // Unlock a locked account from the session established by the email OTP step.
+  // Throws with the server message when the attempt is throttled.
+  const unlockAccount = async (code: string): Promise<boolean> => {
+    if (loginState.status !== 'locked') return false;
 
-  // Complete 2FA using the existing session (used when email OTP already established a session)
-  const complete2FAUsingExistingSession = async () => {
-    try {
-      const { data: { session } } = await supabase.auth.getSession();
-      const sessionUserId = session?.user?.id;
-      if (!sessionUserId) {
-        console.error('Complete 2FA using existing session failed: no active session');
-        return;
-      }
-      setPending2FA(null);
-      await fetchUserData(sessionUserId);
-    } catch (error) {
-      console.error('Error completing 2FA with existing session:', error);
+    const unlocked = await LoginSecurityService.unlockAccount(code);
+    if (unlocked) {
+      dispatch({ type: 'ACCOUNT_UNLOCKED' });
+    }
+    return unlocked;
+  };
+
+  // Finish a lost-authenticator recovery from the 2FA login step. Throws with
+  // the server message while the request is under review or still waiting.
+  const completeTwoFactorRecovery = async (): Promise<boolean> => {
+    if (loginState.status !== 'secondFactor') return false;
+
+    const recovered = await TwoFactorRecoveryService.complete();
+    if (recovered) {
+      dispatch({ type: 'TWO_FACTOR_RECOVERED' });
+    }
+    return recovered;
+  };
+
+  // Abandon the login at any step, ending a half-established session
+  const cancelLogin = async () => {
+    const hasSession =
+      loginState.status === 'secondFactor' ||
+      loginState.status === 'locked' ||
+      loginState.status === 'passwordRecovery';
+    dispatch({ type: 'CANCEL' });
+    if (hasSession) {
+      await supabase.auth.signOut();
+    }
+  };
+
+  // Set a new password from the recovery session. The server signs out every
+  // session, so only the local session and biometric credential are cleared here.
+  const completePasswordReset = async (newPassword: string, code?: string): Promise<boolean> => {
+    if (loginState.status !== 'passwordRecovery') return false;
+
+    const reset = await PasswordResetService.completeReset(newPassword, code);
+    if (reset) {
+      await BiometricService.clearLocalCredentials();
+      await supabase.auth.signOut();
+      dispatch({ type: 'PASSWORD_RESET' });
+    }
+    return reset;
+  };
+
+  // Verify a 2FA code (authenticator or backup code) via the verify_otp RPC.
+  // Falls back to the user in the 2FA login step, then the signed-in user.
+  const verify2FACode = async (code: string, userId?: string): Promise<boolean> => {
+    const loginUserId = loginState.status === 'secondFactor' ? loginState.userId : undefined;
+    const targetUserId = userId || loginUserId || user?.uid;
+    if (!targetUserId) {
+      console.error('No user available for 2FA verification');
+      return false;
     }
+    return TwoFactorService.verifyOTP(targetUserId, code);
   };
 
   const signOut = async () => {
@@ -458,7 +506,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (error) throw error;
       setUser(null);
       setWallet(null);
-      pending2FACredentials = null;
     } catch (error: any) {
       console.error('Sign out error:', error);
       throw error;
@@ -470,60 +517,62 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const signInWithBiometric = async (): Promise<boolean> => {
     try {
       setLoading(true);
-      console.log('Attempting biometric authentication...');
-      
       const credentials = await BiometricService.authenticateWithBiometric();
       if (!credentials) {
         return false;
       }
 
-      console.log('Biometric authentication successful, signing in...');
-      
-      // Set flag to bypass 2FA for this login
-      setIsBiometricLogin(true);
-      
-      // Sign in with retrieved credentials
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email: credentials.email,
-        password: credentials.password,
+      // Exchange the device credential for a one-time sign-in token
+      const { data: exchange, error: exchangeError } = await supabase.functions.invoke('biometric-sign-in', {
+        body: { deviceId: credentials.deviceId, credential: credentials.credential },
+      });
+
+      if (exchangeError?.context?.status === 423) {
+        // Account is locked - keep the credential, the user must unlock first
+        Alert.alert('Account Locked', 'Sign in with your email to unlock your account.');
+        return false;
+      }
+
+      if (exchangeError || !exchange?.tokenHash) {
+        console.error('Biometric credential rejected:', exchangeError);
+        // The credential was revoked (e.g. password changed) - remove it from this device
+        await BiometricService.clearLocalCredentials();
+        Alert.alert(
+          'Biometric Login Unavailable',
+          'Your biometric login is no longer valid. Please sign in with your password and enable it again.'
+        );
+        return false;
+      }
+
+      const { data, error } = await supabase.auth.verifyOtp({
+        token_hash: exchange.tokenHash,
+        type: 'magiclink',
       });
 
       if (error) {
         console.error('Sign in error after biometric auth:', error);
-        // Reset flag on error
-        setIsBiometricLogin(false);
         throw error;
       }
 
-      console.log('User signed in successfully with biometric');
-      
-      // Follow the same pattern as regular signIn - fetch user data directly
+      // Biometric login skips the email OTP and 2FA steps; the profile is loaded by the login state effect
       if (data.user) {
-        console.log('Fetching user data for biometric login...');
-        await fetchUserData(data.user.id);
-        console.log('Biometric login completed successfully');
-        // Reset biometric login flag after successful completion
-        setIsBiometricLogin(false);
+        dispatch({ type: 'BIOMETRIC_SIGNED_IN', userId: data.user.id });
         return true;
-      } else {
-        console.log('Biometric login failed - no user data in response');
-        // Reset biometric login flag on failure
-        setIsBiometricLogin(false);
-        return false;
       }
+      return false;
     } catch (error: any) {
       console.error('Biometric sign in error:', error);
-      // Reset flag on error
-      setIsBiometricLogin(false);
       return false;
     } finally {
       setLoading(false);
     }
   };
 
-  const enableBiometric = async (email: string, password: string): Promise<boolean> => {
+
+  const enableBiometric = async (): Promise<boolean> => {
     try {
-      const success = await BiometricService.enableBiometric(email, password);
+      if (!user) return false;
+      const success = await BiometricService.enableBiometric(user.uid);
       if (success && user) {
         // Update user profile to reflect biometric is enabled
         setUser({ ...user, biometric_enabled: true });
@@ -548,24 +597,34 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Apply a wallet row pushed by the realtime subscription
+  const updateWallet = (next: Wallet) => {
+    setWallet((current) => (current && current.uid === next.uid ? { ...current, ...next } : current));
+  };
+
   const value: AuthContextType = {
     user,
     wallet,
     loading,
-    pending2FA,
+    loginState,
     signUp,
-    signIn,
     signOut,
     fetchUserData,
-    signInWith2FA,
-    complete2FALogin,
-    cancel2FALogin,
-    beginEmailOtpFlow,
-    endEmailOtpFlow,
-    complete2FAUsingExistingSession,
+    submitCredentials,
+    verifyEmailOtp,
+    resendEmailOtp,
+    startUnlock,
+    submitSecondFactor,
+    unlockAccount,
+    completeTwoFactorRecovery,
+    reportNewDevice,
+    cancelLogin,
+    completePasswordReset,
+    verify2FACode,
     signInWithBiometric,
     enableBiometric,
     disableBiometric,
+    updateWallet,
   };
 
   return (
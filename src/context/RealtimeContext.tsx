@@ -0,0 +1,278 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { Animated, AppState, AppStateStatus, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../config/supabase';
+import { RealtimeChange, RealtimeContextType, RealtimeListener, RealtimeTable, Wallet } from '../types';
+import { useAuth } from './AuthContext';
+import { formatMoney, toMoney } from '../services/money';
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+const BANNER_MS = 4000;
+
+// Each table's column holding the owner's id. Transfers are watched from the
+// receiving side; the sender already knows about theirs.
+const OWNER_COLUMNS: Record<RealtimeTable, string> = {
+  wallets: 'uid',
+  pkr_deposits: 'user_id',
+  pkr_withdrawals: 'user_id',
+  pkr_transfers: 'recipient_id',
+};
+
+interface Banner {
+  title: string;
+  message: string;
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+export const useRealtime = () => {
+  const context = useContext(RealtimeContext);
+  if (!context) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+  return context;
+};
+
+// The banner for a change worth telling the user about, if any
+const getBanner = (change: RealtimeChange): Banner | null => {
+  const amount = formatMoney(toMoney(change.record.amount, 'PKR'));
+
+  if (change.table === 'pkr_transfers' && change.eventType === 'INSERT') {
+    return { title: 'PKR received', message: `₨${amount} has been added to your balance.` };
+  }
+
+  if (change.eventType !== 'UPDATE' || change.record.status !== 'completed') return null;
+
+  if (change.table === 'pkr_deposits') {
+    return { title: 'Deposit approved', message: `₨${amount} has been added to your balance.` };
+  }
+  if (change.table === 'pkr_withdrawals') {
+    return { title: 'Withdrawal completed', message: `₨${amount} has been sent to your bank account.` };
+  }
+  return null;
+};
+
+// Keeps the signed-in user's wallet, deposits, withdrawals and incoming
+// transfers live. Wallet changes go straight into AuthContext; screens
+// subscribe for the rest. The channel is dropped in the background and
+// reopened, with backoff on failure, when the app comes back, followed by a
+// refetch of anything missed.
+export const RealtimeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, updateWallet, fetchUserData } = useAuth();
+  const [banner, setBanner] = useState<Banner | null>(null);
+  const bannerAnim = useRef(new Animated.Value(0)).current;
+  const bannerTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const listeners = useRef(new Set<RealtimeListener>());
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const retryDelay = useRef(INITIAL_RETRY_MS);
+  const needsResync = useRef(false);
+  // Rows already announced, so later edits to them don't repeat the banner
+  const announced = useRef(new Set<string>());
+
+  // The auth callbacks change every render; the channel outlives them
+  const authRef = useRef({ updateWallet, fetchUserData });
+  authRef.current = { updateWallet, fetchUserData };
+
+  const userId = user?.uid;
+
+  const emit = (change: RealtimeChange | null) => {
+    listeners.current.forEach((listener) => listener(change));
+  };
+
+  const showBanner = (next: Banner) => {
+    if (bannerTimer.current) clearTimeout(bannerTimer.current);
+    setBanner(next);
+    Animated.timing(bannerAnim, { toValue: 1, duration: 250, useNativeDriver: true }).start();
+    bannerTimer.current = setTimeout(hideBanner, BANNER_MS);
+  };
+
+  const hideBanner = () => {
+    if (bannerTimer.current) clearTimeout(bannerTimer.current);
+    bannerTimer.current = null;
+    Animated.timing(bannerAnim, { toValue: 0, duration: 200, useNativeDriver: true }).start(() => {
+      setBanner(null);
+    });
+  };
+
+  const handleChange = (table: RealtimeTable) => (payload: RealtimePostgresChangesPayload<Record<string, any>>) => {
+    const change: RealtimeChange = {
+      table,
+      eventType: payload.eventType,
+      record: payload.eventType === 'DELETE' ? payload.old : payload.new,
+    };
+
+    if (table === 'wallets' && change.eventType === 'UPDATE') {
+      authRef.current.updateWallet(change.record as Wallet);
+    }
+
+    const next = getBanner(change);
+    const key = `${table}:${change.record.id}`;
+    if (next && !announced.current.has(key)) {
+      announced.current.add(key);
+      showBanner(next);
+    }
+
+    emit(change);
+  };
+
+  const disconnect = () => {
+    if (retryTimer.current) clearTimeout(retryTimer.current);
+    retryTimer.current = null;
+
+    const channel = channelRef.current;
+    // Cleared first so the CLOSED status this causes isn't taken for a failure
+    channelRef.current = null;
+    if (channel) {
+      supabase.removeChannel(channel);
+    }
+  };
+
+  const scheduleReconnect = (id: string) => {
+    if (retryTimer.current) return;
+
+    const delay = retryDelay.current;
+    retryDelay.current = Math.min(delay * 2, MAX_RETRY_MS);
+    retryTimer.current = setTimeout(() => {
+      retryTimer.current = null;
+      connect(id);
+    }, delay);
+  };
+
+  const connect = (id: string) => {
+    disconnect();
+
+    let channel = supabase.channel(`account:${id}`);
+    (Object.keys(OWNER_COLUMNS) as RealtimeTable[]).forEach((table) => {
+      channel = channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter: `${OWNER_COLUMNS[table]}=eq.${id}` },
+        handleChange(table)
+      );
+    });
+
+    channelRef.current = channel;
+    channel.subscribe((status) => {
+      if (channelRef.current !== channel) return;
+
+      if (status === 'SUBSCRIBED') {
+        retryDelay.current = INITIAL_RETRY_MS;
+        if (needsResync.current) {
+          needsResync.current = false;
+          authRef.current.fetchUserData(id, false);
+          emit(null);
+        }
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        needsResync.current = true;
+        scheduleReconnect(id);
+      }
+    });
+  };
+
+  useEffect(() => {
+    if (!userId) return;
+
+    announced.current.clear();
+    retryDelay.current = INITIAL_RETRY_MS;
+    needsResync.current = false;
+    connect(userId);
+
+    const handleAppStateChange = (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        if (!channelRef.current) {
+          retryDelay.current = INITIAL_RETRY_MS;
+          connect(userId);
+        }
+      } else if (nextState === 'background' && channelRef.current) {
+        // The OS suspends the socket anyway; start clean on return
+        needsResync.current = true;
+        disconnect();
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    return () => {
+      subscription.remove();
+      disconnect();
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    return () => {
+      if (bannerTimer.current) clearTimeout(bannerTimer.current);
+    };
+  }, []);
+
+  const subscribe = (listener: RealtimeListener) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  };
+
+  const value: RealtimeContextType = {
+    subscribe,
+  };
+
+  return (
+    <RealtimeContext.Provider value={value}>
+      {children}
+      {banner && (
+        <Animated.View
+          style={[
+            styles.banner,
+            {
+              opacity: bannerAnim,
+              transform: [{
+                translateY: bannerAnim.interpolate({ inputRange: [0, 1], outputRange: [-120, 0] }),
+              }],
+            },
+          ]}
+        >
+          <TouchableOpacity style={styles.bannerContent} onPress={hideBanner} activeOpacity={0.9}>
+            <Ionicons name="checkmark-circle" size={24} color="#10b981" />
+            <View style={styles.bannerText}>
+              <Text style={styles.bannerTitle}>{banner.title}</Text>
+              <Text style={styles.bannerMessage}>{banner.message}</Text>
+            </View>
+          </TouchableOpacity>
+        </Animated.View>
+      )}
+    </RealtimeContext.Provider>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    position: 'absolute',
+    top: 50,
+    left: 16,
+    right: 16,
+  },
+  bannerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#111',
+    borderWidth: 1,
+    borderColor: '#10b981',
+    borderRadius: 12,
+    padding: 16,
+  },
+  bannerText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  bannerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  bannerMessage: {
+    fontSize: 14,
+    color: '#d1d5db',
+    marginTop: 2,
+  },
+});
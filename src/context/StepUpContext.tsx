@@ -0,0 +1,85 @@
+import React, { createContext, useContext, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { StepUpAction, StepUpContextType, StepUpFactor } from '../types';
+import { useAuth } from './AuthContext';
+import { getRequiredFactors } from '../services/stepUpPolicy';
+import { BiometricService } from '../services/biometricService';
+import { TransactionPinService } from '../services/transactionPinService';
+import StepUpPrompt from '../components/StepUpPrompt';
+
+interface PendingStepUp {
+  action: StepUpAction;
+  factors: StepUpFactor[];
+}
+
+const StepUpContext = createContext<StepUpContextType | undefined>(undefined);
+
+export const useStepUp = () => {
+  const context = useContext(StepUpContext);
+  if (!context) {
+    throw new Error('useStepUp must be used within a StepUpProvider');
+  }
+  return context;
+};
+
+export const StepUpProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [pending, setPending] = useState<PendingStepUp | null>(null);
+  const resolveRef = useRef<((token: string | null) => void) | null>(null);
+
+  const finish = (token: string | null) => {
+    resolveRef.current?.(token);
+    resolveRef.current = null;
+    setPending(null);
+  };
+
+  // Ask for whatever the policy requires for this action. Resolves with a
+  // step-up token for the action's RPC, or null if the user backs out.
+  const requireStepUp = async (action: StepUpAction): Promise<string | null> => {
+    // Only one prompt at a time; a new request cancels the previous one
+    if (resolveRef.current) {
+      finish(null);
+    }
+
+    const factors = getRequiredFactors(action, {
+      twoFactorEnabled: !!user?.two_factor_enabled,
+      biometricEnabled: await BiometricService.isBiometricEnabled(),
+    });
+
+    if (factors.includes('transaction_pin')) {
+      const status = await TransactionPinService.getStatus();
+      if (status && !status.is_set) {
+        Alert.alert(
+          'Transaction PIN Required',
+          'Set up a transaction PIN in Account Settings > Transaction PIN to continue.'
+        );
+        return null;
+      }
+    }
+
+    return new Promise((resolve) => {
+      resolveRef.current = resolve;
+      setPending({ action, factors });
+    });
+  };
+
+  const value: StepUpContextType = {
+    requireStepUp,
+  };
+
+  return (
+    <StepUpContext.Provider value={value}>
+      {children}
+      {pending && (
+        <StepUpPrompt
+          visible={true}
+          action={pending.action}
+          factors={pending.factors}
+          email={user?.email}
+          onVerified={finish}
+          onCancel={() => finish(null)}
+        />
+      )}
+    </StepUpContext.Provider>
+  );
+};
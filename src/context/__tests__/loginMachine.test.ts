@@ -0,0 +1,226 @@
+import { LoginState } from '../../types';
+import { initialLoginState, LoginEvent, loginTransition } from '../loginMachine';
+
+const EMAIL = 'user@example.com';
+const USER_ID = 'user-1';
+
+const run = (state: LoginState, ...events: LoginEvent[]): LoginState =>
+  events.reduce(loginTransition, state);
+
+const otpVerified = (
+  overrides: Partial<Extract<LoginEvent, { type: 'EMAIL_OTP_VERIFIED' }>> = {}
+): LoginEvent => ({
+  type: 'EMAIL_OTP_VERIFIED',
+  userId: USER_ID,
+  requiresSecondFactor: false,
+  locked: false,
+  lockReason: null,
+  ...overrides,
+});
+
+describe('loginTransition', () => {
+  describe('session restore', () => {
+    it('resumes an existing session without marking it a fresh login', () => {
+      expect(run(initialLoginState, { type: 'SESSION_FOUND', userId: USER_ID })).toEqual({
+        status: 'sessionEstablished',
+        userId: USER_ID,
+        freshLogin: false,
+      });
+    });
+
+    it('goes idle when there is no session', () => {
+      expect(run(initialLoginState, { type: 'NO_SESSION' })).toEqual({ status: 'idle' });
+    });
+
+    it('ignores a late SESSION_FOUND once the flow has started', () => {
+      const state: LoginState = { status: 'verifyingCredentials', email: EMAIL };
+      expect(run(state, { type: 'SESSION_FOUND', userId: USER_ID })).toBe(state);
+    });
+  });
+
+  describe('credentials', () => {
+    it('moves from idle to the email code step once the password is accepted', () => {
+      const state = run(
+        { status: 'idle' },
+        { type: 'SUBMIT_CREDENTIALS', email: EMAIL },
+        { type: 'CREDENTIALS_ACCEPTED' }
+      );
+      expect(state).toEqual({ status: 'emailOtp', email: EMAIL, purpose: 'login' });
+    });
+
+    it('only accepts credentials from idle', () => {
+      const state: LoginState = { status: 'emailOtp', email: EMAIL, purpose: 'login' };
+      expect(run(state, { type: 'SUBMIT_CREDENTIALS', email: 'other@example.com' })).toBe(state);
+    });
+
+    it('stays put on the sign-out that follows the password check', () => {
+      const state: LoginState = { status: 'verifyingCredentials', email: EMAIL };
+      expect(run(state, { type: 'SIGNED_OUT' })).toBe(state);
+    });
+
+    it('returns to idle with the error when the password is rejected', () => {
+      const state = run(
+        { status: 'idle' },
+        { type: 'SUBMIT_CREDENTIALS', email: EMAIL },
+        { type: 'FAIL', message: 'Invalid login credentials' }
+      );
+      expect(state).toEqual({ status: 'idle', error: 'Invalid login credentials' });
+    });
+  });
+
+  describe('email OTP', () => {
+    const emailOtp: LoginState = { status: 'emailOtp', email: EMAIL, purpose: 'login' };
+
+    it('establishes the session when no second factor is needed', () => {
+      expect(run(emailOtp, otpVerified())).toEqual({
+        status: 'sessionEstablished',
+        userId: USER_ID,
+        freshLogin: true,
+      });
+    });
+
+    it('keeps the user on the step after a wrong code', () => {
+      expect(run(emailOtp, { type: 'FAIL', message: 'Invalid code' })).toEqual({
+        ...emailOtp,
+        error: 'Invalid code',
+      });
+    });
+
+    it('restarts on a fatal failure', () => {
+      expect(run(emailOtp, { type: 'FAIL', message: 'Too many attempts', fatal: true })).toEqual({
+        status: 'idle',
+        error: 'Too many attempts',
+      });
+    });
+
+    it('ignores a verified code outside the email step', () => {
+      const state: LoginState = { status: 'idle' };
+      expect(run(state, otpVerified())).toBe(state);
+    });
+
+    it('goes back to idle when cancelled', () => {
+      expect(run(emailOtp, { type: 'CANCEL' })).toEqual({ status: 'idle' });
+    });
+  });
+
+  describe('second factor', () => {
+    const secondFactor = run(
+      { status: 'emailOtp', email: EMAIL, purpose: 'login' },
+      otpVerified({ requiresSecondFactor: true })
+    );
+
+    it('asks for the second factor after the email code', () => {
+      expect(secondFactor).toEqual({ status: 'secondFactor', email: EMAIL, userId: USER_ID });
+    });
+
+    it('establishes the session once the code is verified', () => {
+      expect(run(secondFactor, { type: 'SECOND_FACTOR_VERIFIED' })).toEqual({
+        status: 'sessionEstablished',
+        userId: USER_ID,
+        freshLogin: true,
+      });
+    });
+
+    it('also finishes the step after a lost-authenticator recovery', () => {
+      expect(run(secondFactor, { type: 'TWO_FACTOR_RECOVERED' })).toEqual({
+        status: 'sessionEstablished',
+        userId: USER_ID,
+        freshLogin: true,
+      });
+    });
+
+    it('cannot be skipped from the email step', () => {
+      const state: LoginState = { status: 'emailOtp', email: EMAIL, purpose: 'login' };
+      expect(run(state, { type: 'SECOND_FACTOR_VERIFIED' })).toBe(state);
+    });
+
+    it('reaches authenticated once the profile loads', () => {
+      expect(run(secondFactor, { type: 'SECOND_FACTOR_VERIFIED' }, { type: 'PROFILE_LOADED' })).toEqual({
+        status: 'authenticated',
+        userId: USER_ID,
+      });
+    });
+
+    it('restarts when the session ends mid-step', () => {
+      expect(run(secondFactor, { type: 'SIGNED_OUT' })).toEqual({ status: 'idle' });
+    });
+  });
+
+  describe('locked', () => {
+    const locked = run(
+      { status: 'emailOtp', email: EMAIL, purpose: 'login' },
+      otpVerified({ locked: true, lockReason: 'Too many failed sign-in attempts', requiresSecondFactor: true })
+    );
+
+    it('takes precedence over the second factor', () => {
+      expect(locked).toEqual({
+        status: 'locked',
+        email: EMAIL,
+        userId: USER_ID,
+        lockReason: 'Too many failed sign-in attempts',
+      });
+    });
+
+    it('establishes the session once the account is unlocked', () => {
+      expect(run(locked, { type: 'ACCOUNT_UNLOCKED' })).toEqual({
+        status: 'sessionEstablished',
+        userId: USER_ID,
+        freshLogin: true,
+      });
+    });
+
+    it('can be reached from idle through the unlock flow', () => {
+      const state = run(
+        { status: 'idle' },
+        { type: 'START_UNLOCK', email: EMAIL },
+        otpVerified({ locked: true, lockReason: null })
+      );
+      expect(state).toEqual({ status: 'locked', email: EMAIL, userId: USER_ID, lockReason: null });
+    });
+
+    it('ignores an unlock outside the locked state', () => {
+      const state: LoginState = { status: 'secondFactor', email: EMAIL, userId: USER_ID };
+      expect(run(state, { type: 'ACCOUNT_UNLOCKED' })).toBe(state);
+    });
+  });
+
+  describe('password recovery', () => {
+    const recoveryLink: LoginEvent = {
+      type: 'RECOVERY_LINK_OPENED',
+      email: EMAIL,
+      userId: USER_ID,
+      requiresSecondFactor: true,
+    };
+
+    it.each<LoginState>([
+      { status: 'restoring' },
+      { status: 'idle' },
+      { status: 'emailOtp', email: EMAIL, purpose: 'login' },
+      { status: 'secondFactor', email: EMAIL, userId: USER_ID },
+      { status: 'locked', email: EMAIL, userId: USER_ID, lockReason: null },
+    ])('starts from $status', (state) => {
+      expect(run(state, recoveryLink)).toEqual({
+        status: 'passwordRecovery',
+        email: EMAIL,
+        userId: USER_ID,
+        requiresSecondFactor: true,
+      });
+    });
+
+    it.each<LoginState>([
+      { status: 'sessionEstablished', userId: USER_ID, freshLogin: true },
+      { status: 'authenticated', userId: USER_ID },
+    ])('does not interrupt a signed-in $status session', (state) => {
+      expect(run(state, recoveryLink)).toBe(state);
+    });
+
+    it('ends at idle once the new password is set', () => {
+      expect(run({ status: 'idle' }, recoveryLink, { type: 'PASSWORD_RESET' })).toEqual({ status: 'idle' });
+    });
+
+    it('ignores a password reset outside recovery', () => {
+      const state: LoginState = { status: 'authenticated', userId: USER_ID };
+      expect(run(state, { type: 'PASSWORD_RESET' })).toBe(state);
+    });
+  });
+});
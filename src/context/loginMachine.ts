@@ -0,0 +1,139 @@
+import { LoginState } from '../types';
+
+// Login flow state machine.
+//
+//   idle -> verifyingCredentials -> emailOtp -> secondFactor -> sessionEstablished -> authenticated
+//                                           \-> locked -------/
+//
+// A password reset link moves any signed-out state to passwordRecovery, which
+// ends back at idle once the new password is set.
+//
+// AuthContext feeds it events from the login actions and the Supabase auth
+// listener; screens render from the resulting state. Kept free of React Native
+// imports so it can be exercised on its own.
+
+export type LoginEvent =
+  | { type: 'SESSION_FOUND'; userId: string }
+  | { type: 'NO_SESSION' }
+  | { type: 'SUBMIT_CREDENTIALS'; email: string }
+  | { type: 'CREDENTIALS_ACCEPTED' }
+  | { type: 'START_UNLOCK'; email: string }
+  | {
+      type: 'EMAIL_OTP_VERIFIED';
+      userId: string;
+      requiresSecondFactor: boolean;
+      locked: boolean;
+      lockReason: string | null;
+    }
+  | { type: 'SECOND_FACTOR_VERIFIED' }
+  | { type: 'TWO_FACTOR_RECOVERED' }
+  | { type: 'ACCOUNT_UNLOCKED' }
+  | { type: 'BIOMETRIC_SIGNED_IN'; userId: string }
+  | { type: 'RECOVERY_LINK_OPENED'; email: string; userId: string; requiresSecondFactor: boolean }
+  | { type: 'PASSWORD_RESET' }
+  | { type: 'SIGNED_UP'; userId: string }
+  | { type: 'PROFILE_LOADED' }
+  | { type: 'FAIL'; message: string; fatal?: boolean }
+  | { type: 'CANCEL' }
+  | { type: 'SIGNED_OUT' };
+
+export const initialLoginState: LoginState = { status: 'restoring' };
+
+export function loginTransition(state: LoginState, event: LoginEvent): LoginState {
+  switch (event.type) {
+    case 'SESSION_FOUND':
+      return state.status === 'restoring'
+        ? { status: 'sessionEstablished', userId: event.userId, freshLogin: false }
+        : state;
+
+    case 'NO_SESSION':
+      return state.status === 'restoring' ? { status: 'idle' } : state;
+
+    case 'SUBMIT_CREDENTIALS':
+      return state.status === 'idle'
+        ? { status: 'verifyingCredentials', email: event.email }
+        : state;
+
+    case 'CREDENTIALS_ACCEPTED':
+      return state.status === 'verifyingCredentials'
+        ? { status: 'emailOtp', email: state.email, purpose: 'login' }
+        : state;
+
+    case 'START_UNLOCK':
+      return state.status === 'idle'
+        ? { status: 'emailOtp', email: event.email, purpose: 'unlock' }
+        : state;
+
+    case 'EMAIL_OTP_VERIFIED':
+      if (state.status !== 'emailOtp') return state;
+      if (event.locked) {
+        return { status: 'locked', email: state.email, userId: event.userId, lockReason: event.lockReason };
+      }
+      if (event.requiresSecondFactor) {
+        return { status: 'secondFactor', email: state.email, userId: event.userId };
+      }
+      return { status: 'sessionEstablished', userId: event.userId, freshLogin: true };
+
+    case 'SECOND_FACTOR_VERIFIED':
+    case 'TWO_FACTOR_RECOVERED':
+      // Lost-authenticator recovery turns 2FA off, which also ends this step
+      return state.status === 'secondFactor'
+        ? { status: 'sessionEstablished', userId: state.userId, freshLogin: true }
+        : state;
+
+    case 'ACCOUNT_UNLOCKED':
+      return state.status === 'locked'
+        ? { status: 'sessionEstablished', userId: state.userId, freshLogin: true }
+        : state;
+
+    case 'BIOMETRIC_SIGNED_IN':
+      return state.status === 'idle'
+        ? { status: 'sessionEstablished', userId: event.userId, freshLogin: true }
+        : state;
+
+    case 'RECOVERY_LINK_OPENED':
+      return state.status === 'sessionEstablished' || state.status === 'authenticated'
+        ? state
+        : {
+            status: 'passwordRecovery',
+            email: event.email,
+            userId: event.userId,
+            requiresSecondFactor: event.requiresSecondFactor,
+          };
+
+    case 'PASSWORD_RESET':
+      return state.status === 'passwordRecovery' ? { status: 'idle' } : state;
+
+    case 'SIGNED_UP':
+      return state.status === 'idle'
+        ? { status: 'sessionEstablished', userId: event.userId, freshLogin: false }
+        : state;
+
+    case 'PROFILE_LOADED':
+      // Also sent by profile refreshes while already authenticated
+      return state.status === 'sessionEstablished'
+        ? { status: 'authenticated', userId: state.userId }
+        : state;
+
+    case 'FAIL':
+      // A wrong email code keeps the user on the email step; anything else restarts
+      if (state.status === 'emailOtp' && !event.fatal) {
+        return { ...state, error: event.message };
+      }
+      return { status: 'idle', error: event.message };
+
+    case 'CANCEL':
+      return state.status === 'restoring' || state.status === 'authenticated'
+        ? state
+        : { status: 'idle' };
+
+    case 'SIGNED_OUT':
+      // The password check signs straight back out before the email OTP step
+      return state.status === 'verifyingCredentials' || state.status === 'idle'
+        ? state
+        : { status: 'idle' };
+
+    default:
+      return state;
+  }
+}
@@ -6,6 +6,8 @@ import { useAuth } from '../context/AuthContext';
 import LandingScreen from '../screens/LandingScreen';
 import LoginScreen from '../screens/LoginScreen';
 import SignUpScreen from '../screens/SignUpScreen';
+import ForgotPasswordScreen from '../screens/ForgotPasswordScreen';
+import ResetPasswordScreen from '../screens/ResetPasswordScreen';
 import HomeScreen from '../screens/HomeScreen';
 import AccountSettings from '../screens/AccountSettings';
 import KYCSubmission from '../screens/KYCSubmission';
@@ -14,10 +16,20 @@ import DepositPKRScreen from '../screens/DepositPKRScreen';
 import UserBankAccounts from '../screens/UserBankAccounts';
 import AddEditBankAccount from '../screens/AddEditBankAccount';
 import WithdrawPKR from '../screens/WithdrawPKR';
+import SendPKR from '../screens/SendPKR';
 import HistoryScreen from '../screens/HistoryScreen';
 import TwoFactorSetup from '../screens/TwoFactorSetup';
 import OTPVerificationScreen from '../screens/OTPVerificationScreen';
 import ChangePasswordScreen from '../screens/ChangePasswordScreen';
+import ChangeEmail from '../screens/ChangeEmail';
+import PhoneVerification from '../screens/PhoneVerification';
+import CloseAccount from '../screens/CloseAccount';
+import EditProfile from '../screens/EditProfile';
+import DevicesAndSessions from '../screens/DevicesAndSessions';
+import AppLockSettings from '../screens/AppLockSettings';
+import TransactionPinSetup from '../screens/TransactionPinSetup';
+import BackupCodes from '../screens/BackupCodes';
+import SecurityActivity from '../screens/SecurityActivity';
 import LoadingScreen from '../screens/LoadingScreen';
 import { RootStackParamList } from '../types';
 
@@ -27,12 +39,15 @@ const Stack = createStackNavigator<RootStackParamList>();
 
 const AppNavigator: React.FC = () => {
   try {
-    const { user, loading } = useAuth();
+    const { user, loading, loginState } = useAuth();
 
-    if (loading) {
+    if (loading || loginState.status === 'restoring' || loginState.status === 'sessionEstablished') {
       return <LoadingScreen />;
     }
 
+    const isAuthenticated = loginState.status === 'authenticated' && !!user;
+    const isRecoveringPassword = loginState.status === 'passwordRecovery';
+
     return (
       <NavigationContainer>
         <Stack.Navigator
@@ -40,9 +55,9 @@ const AppNavigator: React.FC = () => {
             headerShown: false,
             cardStyle: { backgroundColor: '#000000' },
           }}
-          initialRouteName={user ? "Home" : "Landing"}
+          initialRouteName={isAuthenticated ? "Home" : isRecoveringPassword ? "ResetPassword" : "Landing"}
         >
-          {user ? (
+          {isAuthenticated ? (
             // Authenticated screens
             <>
               <Stack.Screen name="Home" component={HomeScreen} />
@@ -53,17 +68,31 @@ const AppNavigator: React.FC = () => {
               <Stack.Screen name="UserBankAccounts" component={UserBankAccounts} />
               <Stack.Screen name="AddEditBankAccount" component={AddEditBankAccount} />
               <Stack.Screen name="WithdrawPKR" component={WithdrawPKR} />
+              <Stack.Screen name="SendPKR" component={SendPKR} />
               <Stack.Screen name="History" component={HistoryScreen} />
               <Stack.Screen name="TwoFactorSetup" component={TwoFactorSetup} />
               <Stack.Screen name="OTPVerification" component={OTPVerificationScreen} />
               <Stack.Screen name="ChangePassword" component={ChangePasswordScreen} />
+              <Stack.Screen name="ChangeEmail" component={ChangeEmail} />
+              <Stack.Screen name="PhoneVerification" component={PhoneVerification} />
+              <Stack.Screen name="CloseAccount" component={CloseAccount} />
+              <Stack.Screen name="EditProfile" component={EditProfile} />
+              <Stack.Screen name="DevicesAndSessions" component={DevicesAndSessions} />
+              <Stack.Screen name="AppLockSettings" component={AppLockSettings} />
+              <Stack.Screen name="TransactionPinSetup" component={TransactionPinSetup} />
+              <Stack.Screen name="BackupCodes" component={BackupCodes} />
+              <Stack.Screen name="SecurityActivity" component={SecurityActivity} />
             </>
+          ) : isRecoveringPassword ? (
+            // Opened from a password reset link
+            <Stack.Screen name="ResetPassword" component={ResetPasswordScreen} />
           ) : (
             // Unauthenticated screens
             <>
               <Stack.Screen name="Landing" component={LandingScreen} />
               <Stack.Screen name="Login" component={LoginScreen} />
               <Stack.Screen name="SignUp" component={SignUpScreen} />
+              <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
             </>
           )}
         </Stack.Navigator>
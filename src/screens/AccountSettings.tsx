@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -14,23 +14,28 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../types';
 import { useAuth } from '../context/AuthContext';
+import { useAppLock } from '../context/AppLockContext';
+import { useStepUp } from '../context/StepUpContext';
 import { TwoFactorService } from '../services/twoFactorService';
 import { BiometricService } from '../services/biometricService';
-import PasswordPrompt from '../components/PasswordPrompt';
+import { TransactionPinService } from '../services/transactionPinService';
+import { formatPakistaniPhone } from '../services/phoneNumber';
 
 type AccountSettingsNavigationProp = StackNavigationProp<RootStackParamList, 'AccountSettings'>;
 
 const AccountSettings: React.FC = () => {
   const navigation = useNavigation<AccountSettingsNavigationProp>();
   const { user, fetchUserData, enableBiometric, disableBiometric } = useAuth();
+  const { pinSet: appLockPinSet } = useAppLock();
+  const { requireStepUp } = useStepUp();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [biometricAvailable, setBiometricAvailable] = useState(false);
   const [biometricTypeName, setBiometricTypeName] = useState('Biometric');
-  const [showPasswordPrompt, setShowPasswordPrompt] = useState(false);
+  const [transactionPinSet, setTransactionPinSet] = useState(false);
   
   // Animation values
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -54,6 +59,15 @@ const AccountSettings: React.FC = () => {
     checkBiometricAvailability();
   }, []);
 
+  // Refresh after returning from the PIN setup screen
+  useFocusEffect(
+    useCallback(() => {
+      TransactionPinService.getStatus().then((status) => {
+        setTransactionPinSet(status?.is_set ?? false);
+      });
+    }, [])
+  );
+
   const checkBiometricAvailability = async () => {
     try {
       const available = await BiometricService.isAvailable();
@@ -86,34 +100,33 @@ const AccountSettings: React.FC = () => {
   };
 
   const handle2FADisable = async () => {
+    const stepUpToken = await requireStepUp('disable_2fa');
+    if (!stepUpToken) return;
+
     try {
-      await TwoFactorService.disable2FA(user?.uid || '');
+      await TwoFactorService.disable2FA(user?.uid || '', stepUpToken);
       // Refresh user data to update 2FA status
       if (user?.uid) {
         await fetchUserData(user.uid, false);
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error disabling 2FA:', error);
+      Alert.alert('Error', error.message || 'Failed to disable 2FA');
     }
   };
 
-  const handleChangePassword = () => {
-    // Check if user has 2FA enabled
-    if (user?.two_factor_enabled) {
-      console.log('2FA enabled, navigating to OTP verification...');
-      // Require 2FA verification before accessing Change Password screen
-      navigation.navigate('OTPVerification', {
-        action: 'change_password',
-        onSuccess: () => {
-          console.log('OTP verification successful, navigating to Change Password...');
-          // After successful verification, navigate to Change Password screen
-          navigation.navigate('ChangePassword');
-        }
-      });
-    } else {
-      console.log('No 2FA enabled, navigating directly to Change Password...');
-      // No 2FA enabled, directly navigate to Change Password screen
-      navigation.navigate('ChangePassword');
+  const handleChangePassword = async () => {
+    // Password and second factor (per the step-up policy) before the Change Password screen
+    const stepUpToken = await requireStepUp('change_password');
+    if (stepUpToken) {
+      navigation.navigate('ChangePassword', { stepUpToken });
+    }
+  };
+
+  const handleChangeEmail = async () => {
+    const stepUpToken = await requireStepUp('change_email');
+    if (stepUpToken) {
+      navigation.navigate('ChangeEmail', { stepUpToken });
     }
   };
 
@@ -137,50 +150,21 @@ const AccountSettings: React.FC = () => {
           ]
         );
       } else {
-        // Enable biometric - show password prompt
-        setShowPasswordPrompt(true);
+        // Enable biometric - registers a device credential, no password needed
+        const success = await enableBiometric();
+        if (success) {
+          Alert.alert(
+            'Success',
+            `${biometricTypeName} login has been enabled successfully!`,
+            [{ text: 'OK' }]
+          );
+        }
       }
     } catch (error) {
       console.error('Error toggling biometric:', error);
     }
   };
 
-  const handlePasswordConfirm = async (password: string): Promise<boolean> => {
-    try {
-      if (!user?.email) {
-        Alert.alert('Error', 'User email not found');
-        return false;
-      }
-
-      console.log('Attempting to enable biometric with provided credentials...');
-      const success = await enableBiometric(user.email, password);
-      
-      if (success) {
-        Alert.alert(
-          'Success',
-          `${biometricTypeName} login has been enabled successfully!`,
-          [{ text: 'OK' }]
-        );
-        setShowPasswordPrompt(false);
-        return true;
-      } else {
-        Alert.alert(
-          'Failed',
-          'Failed to enable biometric login. Please check your password and try again.'
-        );
-        return false;
-      }
-    } catch (error: any) {
-      console.error('Error enabling biometric:', error);
-      Alert.alert('Error', error.message || 'Failed to enable biometric login');
-      return false;
-    }
-  };
-
-  const handlePasswordCancel = () => {
-    setShowPasswordPrompt(false);
-  };
-
   const handleRefresh = async () => {
     setIsRefreshing(true);
     try {
@@ -260,11 +244,15 @@ const AccountSettings: React.FC = () => {
           {/* Profile Avatar */}
           <View style={styles.avatarContainer}>
             <View style={styles.avatar}>
-              <Image 
-                source={require('../../assets/android-chrome-192x192.png')} 
-                style={styles.avatarImage}
-                resizeMode="contain"
-              />
+              {user?.avatar_url ? (
+                <Image source={{ uri: user.avatar_url }} style={styles.profilePhoto} />
+              ) : (
+                <Image 
+                  source={require('../../assets/android-chrome-192x192.png')} 
+                  style={styles.avatarImage}
+                  resizeMode="contain"
+                />
+              )}
               <View style={[styles.verificationBadge, { backgroundColor: getVerificationIcon().color }]}>
                 <Ionicons 
                   name={getVerificationIcon().name as any} 
@@ -275,6 +263,10 @@ const AccountSettings: React.FC = () => {
             </View>
             <Text style={styles.userName}>{user?.full_name || 'User'}</Text>
             <Text style={styles.userEmail}>{user?.email}</Text>
+            <TouchableOpacity style={styles.editProfileButton} onPress={() => navigation.navigate('EditProfile')}>
+              <Ionicons name="create-outline" size={16} color="#09d2fe" />
+              <Text style={styles.editProfileText}>Edit Profile</Text>
+            </TouchableOpacity>
           </View>
 
           {/* KYC Status Card */}
@@ -342,13 +334,23 @@ const AccountSettings: React.FC = () => {
               </View>
             </View>
 
-            <View style={styles.detailItem}>
+            <TouchableOpacity
+              style={styles.detailItem}
+              onPress={() => navigation.navigate('PhoneVerification')}
+            >
               <Ionicons name="call-outline" size={20} color="#09d2fe" />
               <View style={styles.detailContent}>
                 <Text style={styles.detailLabel}>Phone Number</Text>
-                <Text style={styles.detailValue}>{user?.phone_number || 'Not provided'}</Text>
+                <Text style={styles.detailValue}>
+                  {user?.phone_number ? formatPakistaniPhone(user.phone_number) : 'Not provided'}
+                </Text>
               </View>
-            </View>
+              {user?.phone_verified_at ? (
+                <Ionicons name="checkmark-circle" size={20} color="#10b981" />
+              ) : (
+                <Text style={styles.verifyPhoneText}>Verify</Text>
+              )}
+            </TouchableOpacity>
 
             <View style={styles.detailItem}>
               <Ionicons name="card-outline" size={20} color="#09d2fe" />
@@ -388,6 +390,15 @@ const AccountSettings: React.FC = () => {
               <Ionicons name="chevron-forward" size={20} color="#94a3b8" />
             </TouchableOpacity>
 
+            <TouchableOpacity style={styles.securityItem} onPress={handleChangeEmail}>
+              <Ionicons name="mail-outline" size={20} color="#09d2fe" />
+              <View style={styles.securityContent}>
+                <Text style={styles.securityLabel}>Change Email</Text>
+                <Text style={styles.securityDescription}>Move your account to a new email address</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="#94a3b8" />
+            </TouchableOpacity>
+
             <View style={styles.securityItem}>
               <Ionicons 
                 name="finger-print-outline" 
@@ -422,6 +433,46 @@ const AccountSettings: React.FC = () => {
               />
             </View>
 
+            <TouchableOpacity style={styles.securityItem} onPress={() => navigation.navigate('TransactionPinSetup')}>
+              <Ionicons name="cash-outline" size={20} color="#09d2fe" />
+              <View style={styles.securityContent}>
+                <Text style={styles.securityLabel}>Transaction PIN</Text>
+                <Text style={styles.securityDescription}>
+                  {transactionPinSet ? 'Change the PIN that confirms withdrawals' : 'Set a PIN to confirm withdrawals and bank changes'}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="#94a3b8" />
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.securityItem} onPress={() => navigation.navigate('AppLockSettings')}>
+              <Ionicons name="keypad-outline" size={20} color="#09d2fe" />
+              <View style={styles.securityContent}>
+                <Text style={styles.securityLabel}>App Lock</Text>
+                <Text style={styles.securityDescription}>
+                  {appLockPinSet ? 'On - PIN required after inactivity' : 'Set a PIN to lock the app when idle'}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="#94a3b8" />
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.securityItem} onPress={() => navigation.navigate('DevicesAndSessions')}>
+              <Ionicons name="phone-portrait-outline" size={20} color="#09d2fe" />
+              <View style={styles.securityContent}>
+                <Text style={styles.securityLabel}>Devices & Sessions</Text>
+                <Text style={styles.securityDescription}>See where you're signed in and sign out devices</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="#94a3b8" />
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.securityItem} onPress={() => navigation.navigate('SecurityActivity')}>
+              <Ionicons name="time-outline" size={20} color="#09d2fe" />
+              <View style={styles.securityContent}>
+                <Text style={styles.securityLabel}>Security Activity</Text>
+                <Text style={styles.securityDescription}>Sign-ins and security changes on your account</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="#94a3b8" />
+            </TouchableOpacity>
+
             <TouchableOpacity style={styles.securityItem}>
               <Ionicons name="notifications-outline" size={20} color="#09d2fe" />
               <View style={styles.securityContent}>
@@ -463,18 +514,29 @@ const AccountSettings: React.FC = () => {
                 </TouchableOpacity>
               )}
             </View>
+
+            {user?.two_factor_enabled && (
+              <TouchableOpacity style={styles.securityItem} onPress={() => navigation.navigate('BackupCodes')}>
+                <Ionicons name="key-outline" size={20} color="#09d2fe" />
+                <View style={styles.securityContent}>
+                  <Text style={styles.securityLabel}>Backup Codes</Text>
+                  <Text style={styles.securityDescription}>See how many are left or generate new ones</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color="#94a3b8" />
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity style={styles.securityItem} onPress={() => navigation.navigate('CloseAccount')}>
+              <Ionicons name="trash-outline" size={20} color="#ff4757" />
+              <View style={styles.securityContent}>
+                <Text style={[styles.securityLabel, styles.closeAccountLabel]}>Close Account</Text>
+                <Text style={styles.securityDescription}>Permanently close your CoinSensei account</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color="#94a3b8" />
+            </TouchableOpacity>
           </View>
         </Animated.View>
       </ScrollView>
-
-      {/* Password Prompt Modal */}
-      <PasswordPrompt
-        visible={showPasswordPrompt}
-        title={`Enable ${biometricTypeName} Login`}
-        message="Please enter your current password to securely enable biometric authentication."
-        onConfirm={handlePasswordConfirm}
-        onCancel={handlePasswordCancel}
-      />
     </SafeAreaView>
   );
 };
@@ -537,6 +599,11 @@ const styles = StyleSheet.create({
     height: 64,
     borderRadius: 32,
   },
+  profilePhoto: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+  },
   verificationBadge: {
     position: 'absolute',
     bottom: -4,
@@ -559,6 +626,22 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#94a3b8',
   },
+  editProfileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#09d2fe',
+  },
+  editProfileText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#09d2fe',
+    marginLeft: 6,
+  },
   kycCard: {
     backgroundColor: '#1a1a1a',
     borderRadius: 16,
@@ -652,6 +735,14 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#ffffff',
   },
+  closeAccountLabel: {
+    color: '#ff4757',
+  },
+  verifyPhoneText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#f59e0b',
+  },
   securitySection: {
     marginBottom: 24,
   },
@@ -16,8 +16,7 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { supabase } from '../config/supabase';
 import { UserBankAccount, PakistaniBank, RootStackParamList } from '../types';
 import { TwoFactorService } from '../services/twoFactorService';
-import OTPVerification from './OTPVerification';
-import { useAuth } from '../context/AuthContext';
+import { useStepUp } from '../context/StepUpContext';
 
 type NavigationProp = StackNavigationProp<RootStackParamList, 'AddEditBankAccount'>;
 type RouteProp = RouteProp<RootStackParamList, 'AddEditBankAccount'>;
@@ -26,7 +25,7 @@ export default function AddEditBankAccount() {
   const navigation = useNavigation<NavigationProp>();
   const route = useRoute<RouteProp>();
   const { bankAccount } = route.params || {};
-  const { user } = useAuth();
+  const { requireStepUp } = useStepUp();
 
   const [bankName, setBankName] = useState(bankAccount?.bank_name || '');
   const [accountTitle, setAccountTitle] = useState(bankAccount?.account_title || '');
@@ -38,8 +37,6 @@ export default function AddEditBankAccount() {
   const [loading, setLoading] = useState(false);
   const [filteredBanks, setFilteredBanks] = useState<PakistaniBank[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
-  const [show2FAModal, setShow2FAModal] = useState(false);
-  const [pendingSaveData, setPendingSaveData] = useState<any>(null);
 
   const isEditing = !!bankAccount;
 
@@ -93,83 +90,35 @@ export default function AddEditBankAccount() {
       return;
     }
 
-    // Check if user has 2FA enabled
-    if (user?.two_factor_enabled) {
-      // Store save data and show 2FA modal
-      setPendingSaveData({
-        bankName,
-        accountTitle,
-        accountIban,
-        isActive,
-        isEditing,
-        bankAccountId: bankAccount?.id
-      });
-      setShow2FAModal(true);
-      return;
-    }
+    // Step-up verification (transaction PIN and second factor) before saving
+    const stepUpToken = await requireStepUp(isEditing ? 'edit_bank' : 'add_bank');
+    if (!stepUpToken) return;
 
-    // No 2FA required, proceed with save
-    await performSave();
+    await performSave(stepUpToken);
   };
 
-  const performSave = async () => {
+  const performSave = async (stepUpToken: string) => {
     setLoading(true);
 
     try {
-      const { data: { user: authUser } } = await supabase.auth.getUser();
-      if (!authUser) {
-        Alert.alert('Error', 'User not authenticated');
-        return;
-      }
-
-      const saveData = pendingSaveData || {
-        bankName,
-        accountTitle,
-        accountIban,
-        isActive,
-        isEditing,
-        bankAccountId: bankAccount?.id
-      };
-
-      if (saveData.isEditing) {
-        // Update existing bank account
-        const { error } = await supabase
-          .from('user_bank_accounts')
-          .update({
-            bank_name: saveData.bankName,
-            account_title: saveData.accountTitle,
-            account_iban: saveData.accountIban,
-            is_active: saveData.isActive,
-          })
-          .eq('id', saveData.bankAccountId);
-
-        if (error) {
-          console.error('Error updating bank account:', error);
-          Alert.alert('Error', 'Failed to update bank account');
-          return;
-        }
-      } else {
-        // Create new bank account
-        const { error } = await supabase
-          .from('user_bank_accounts')
-          .insert({
-            user_id: authUser.id,
-            bank_name: saveData.bankName,
-            account_title: saveData.accountTitle,
-            account_iban: saveData.accountIban,
-            is_active: saveData.isActive,
-          });
+      const { error } = await supabase.rpc('save_user_bank_account', {
+        p_step_up_token: stepUpToken,
+        p_bank_name: bankName,
+        p_account_title: accountTitle,
+        p_account_iban: accountIban,
+        p_is_active: isActive,
+        p_bank_account_id: bankAccount?.id ?? null,
+      });
 
-        if (error) {
-          console.error('Error creating bank account:', error);
-          Alert.alert('Error', 'Failed to create bank account');
-          return;
-        }
+      if (error) {
+        console.error('Error saving bank account:', error);
+        Alert.alert('Error', error.message || (isEditing ? 'Failed to update bank account' : 'Failed to create bank account'));
+        return;
       }
 
       Alert.alert(
         'Success',
-        saveData.isEditing ? 'Bank account updated successfully' : 'Bank account added successfully',
+        isEditing ? 'Bank account updated successfully' : 'Bank account added successfully',
         [
           {
             text: 'OK',
@@ -177,9 +126,6 @@ export default function AddEditBankAccount() {
           },
         ]
       );
-
-      // Clear pending save data
-      setPendingSaveData(null);
     } catch (error) {
       console.error('Error saving bank account:', error);
       Alert.alert('Error', 'Failed to save bank account');
@@ -188,16 +134,6 @@ export default function AddEditBankAccount() {
     }
   };
 
-  const handle2FASuccess = async () => {
-    setShow2FAModal(false);
-    await performSave();
-  };
-
-  const handle2FACancel = () => {
-    setShow2FAModal(false);
-    setPendingSaveData(null);
-  };
-
   const selectBank = (bank: PakistaniBank) => {
     setBankName(bank.bank_name);
     setShowBankDropdown(false);
@@ -372,16 +308,6 @@ export default function AddEditBankAccount() {
           />
         </View>
       </Modal>
-
-      {/* 2FA Verification Modal */}
-      <OTPVerification
-        visible={show2FAModal}
-        onClose={handle2FACancel}
-        onSuccess={handle2FASuccess}
-        action={isEditing ? "edit_bank" : "add_bank"}
-        title={isEditing ? "Update Bank Account" : "Add Bank Account"}
-        description="Please verify your identity with 2FA to continue"
-      />
     </View>
   );
 }
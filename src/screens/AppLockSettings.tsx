@@ -0,0 +1,297 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../types';
+import { useAppLock } from '../context/AppLockContext';
+import { AppLockService, APP_PIN_LENGTH, LOCK_TIMEOUT_OPTIONS } from '../services/appLockService';
+import PinPad from '../components/PinPad';
+
+type NavigationProp = StackNavigationProp<RootStackParamList, 'AppLockSettings'>;
+
+type PinStep =
+  | { step: 'none' }
+  | { step: 'current'; next: 'change' | 'remove' }
+  | { step: 'new' }
+  | { step: 'confirm'; pin: string };
+
+export default function AppLockSettings() {
+  const navigation = useNavigation<NavigationProp>();
+  const { pinSet, lockTimeout, setPin, removePin, setLockTimeout } = useAppLock();
+  const [pinStep, setPinStep] = useState<PinStep>({ step: 'none' });
+  const [pinError, setPinError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [resetKey, setResetKey] = useState(0);
+
+  const goToStep = (next: PinStep, error = '') => {
+    setPinStep(next);
+    setPinError(error);
+    setResetKey((key) => key + 1);
+  };
+
+  const handlePinComplete = async (pin: string) => {
+    setBusy(true);
+    try {
+      if (pinStep.step === 'current') {
+        if (!(await AppLockService.verifyPin(pin))) {
+          goToStep(pinStep, 'Incorrect PIN');
+          return;
+        }
+        if (pinStep.next === 'remove') {
+          await removePin();
+          goToStep({ step: 'none' });
+          Alert.alert('App Lock Off', 'The app will no longer ask for a PIN.');
+        } else {
+          goToStep({ step: 'new' });
+        }
+      } else if (pinStep.step === 'new') {
+        goToStep({ step: 'confirm', pin });
+      } else if (pinStep.step === 'confirm') {
+        if (pin !== pinStep.pin) {
+          goToStep({ step: 'new' }, 'PINs did not match. Try again');
+          return;
+        }
+        await setPin(pin);
+        goToStep({ step: 'none' });
+        Alert.alert('App Lock On', 'Your app PIN has been saved.');
+      }
+    } catch (error) {
+      console.error('Error updating app PIN:', error);
+      goToStep({ step: 'none' });
+      Alert.alert('Error', 'Failed to update app PIN');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleTimeoutSelect = async (seconds: number) => {
+    try {
+      await setLockTimeout(seconds);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update auto-lock time');
+    }
+  };
+
+  const getPinTitle = () => {
+    switch (pinStep.step) {
+      case 'current':
+        return 'Enter Current PIN';
+      case 'new':
+        return 'Choose a New PIN';
+      default:
+        return 'Confirm New PIN';
+    }
+  };
+
+  if (pinStep.step !== 'none') {
+    return (
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => goToStep({ step: 'none' })}>
+            <Ionicons name="close" size={24} color="#09d2fe" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>App PIN</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <View style={styles.pinContainer}>
+          <PinPad
+            title={getPinTitle()}
+            subtitle={pinStep.step === 'new' ? `Enter ${APP_PIN_LENGTH} digits you will use to unlock the app` : undefined}
+            error={pinError}
+            length={APP_PIN_LENGTH}
+            busy={busy}
+            resetKey={resetKey}
+            onComplete={handlePinComplete}
+          />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#09d2fe" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>App Lock</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content}>
+        <View style={styles.section}>
+          <View style={styles.statusCard}>
+            <Ionicons
+              name={pinSet ? 'lock-closed' : 'lock-open-outline'}
+              size={28}
+              color={pinSet ? '#10b981' : '#9ca3af'}
+            />
+            <View style={styles.statusContent}>
+              <Text style={styles.statusTitle}>{pinSet ? 'App lock is on' : 'App lock is off'}</Text>
+              <Text style={styles.statusDescription}>
+                {pinSet
+                  ? 'Your PIN or biometrics are required when you return to the app'
+                  : 'Set a PIN to lock the app when you leave it idle or in the background'}
+              </Text>
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={styles.optionItem}
+            onPress={() => goToStep(pinSet ? { step: 'current', next: 'change' } : { step: 'new' })}
+          >
+            <Ionicons name="keypad-outline" size={20} color="#09d2fe" />
+            <Text style={styles.optionLabel}>{pinSet ? 'Change PIN' : 'Set PIN'}</Text>
+            <Ionicons name="chevron-forward" size={20} color="#94a3b8" />
+          </TouchableOpacity>
+
+          {pinSet && (
+            <TouchableOpacity
+              style={styles.optionItem}
+              onPress={() => goToStep({ step: 'current', next: 'remove' })}
+            >
+              <Ionicons name="trash-outline" size={20} color="#ff4757" />
+              <Text style={[styles.optionLabel, styles.destructiveText]}>Turn Off App Lock</Text>
+              <Ionicons name="chevron-forward" size={20} color="#94a3b8" />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Lock after</Text>
+          {LOCK_TIMEOUT_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.seconds}
+              style={[styles.optionItem, !pinSet && styles.optionItemDisabled]}
+              onPress={() => handleTimeoutSelect(option.seconds)}
+              disabled={!pinSet}
+            >
+              <Text style={[styles.optionLabel, styles.timeoutLabel]}>{option.label}</Text>
+              {lockTimeout === option.seconds && (
+                <Ionicons name="checkmark" size={20} color="#09d2fe" />
+              )}
+            </TouchableOpacity>
+          ))}
+          <Text style={styles.sectionFooter}>
+            Applies to both inactivity and time spent in the background.
+          </Text>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  pinContainer: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  section: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#999',
+    marginBottom: 12,
+  },
+  sectionFooter: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+    lineHeight: 18,
+  },
+  statusCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#222',
+  },
+  statusContent: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  statusTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  statusDescription: {
+    fontSize: 14,
+    color: '#999',
+    lineHeight: 20,
+  },
+  optionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#111',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#222',
+  },
+  optionItemDisabled: {
+    opacity: 0.5,
+  },
+  optionLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#fff',
+    marginLeft: 12,
+  },
+  timeoutLabel: {
+    marginLeft: 0,
+  },
+  destructiveText: {
+    color: '#ff4757',
+  },
+});
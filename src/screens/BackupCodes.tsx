@@ -0,0 +1,430 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Clipboard,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../types';
+import { TwoFactorService } from '../services/twoFactorService';
+
+type NavigationProp = StackNavigationProp<RootStackParamList, 'BackupCodes'>;
+
+export default function BackupCodes() {
+  const navigation = useNavigation<NavigationProp>();
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [otp, setOtp] = useState('');
+  const [busy, setBusy] = useState(false);
+  // Plaintext codes exist only here, until the user leaves or taps Done
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    loadCount();
+  }, []);
+
+  const loadCount = async () => {
+    try {
+      setRemaining(await TwoFactorService.getBackupCodeCount());
+    } catch (error) {
+      setRemaining(0);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (otp.length !== 6) {
+      Alert.alert('Invalid Code', 'Please enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const codes = await TwoFactorService.regenerateBackupCodes(otp);
+      if (!codes) {
+        Alert.alert('Invalid Code', 'That code is incorrect or expired. Please try again.');
+        setOtp('');
+        return;
+      }
+
+      setNewCodes(codes);
+      setRemaining(codes.length);
+      setConfirming(false);
+      setOtp('');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to generate new backup codes');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDone = () => {
+    Alert.alert(
+      'Saved Your Codes?',
+      'These codes will not be shown again.',
+      [
+        { text: 'Go Back', style: 'cancel' },
+        { text: 'I Saved Them', onPress: () => setNewCodes(null) },
+      ]
+    );
+  };
+
+  const copyCodes = (text: string, label: string) => {
+    Clipboard.setString(text);
+    Alert.alert('Copied!', `${label} copied to clipboard`);
+  };
+
+  const renderNewCodes = (codes: string[]) => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Your new backup codes</Text>
+      <View style={styles.codesCard}>
+        {codes.map((code) => (
+          <TouchableOpacity
+            key={code}
+            style={styles.codeItem}
+            onPress={() => copyCodes(code, 'Backup code')}
+          >
+            <Text style={styles.codeText}>{code}</Text>
+            <Ionicons name="copy" size={16} color="#6b7280" />
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity style={styles.secondaryButton} onPress={() => copyCodes(codes.join('\n'), 'All codes')}>
+        <Ionicons name="copy-outline" size={18} color="#09d2fe" />
+        <Text style={styles.secondaryButtonText}>Copy All</Text>
+      </TouchableOpacity>
+
+      <View style={styles.warningContainer}>
+        <Ionicons name="warning" size={20} color="#f59e0b" />
+        <Text style={styles.warningText}>
+          Save these somewhere safe now. Each code works once, and they will not be shown again. Your old codes no longer work.
+        </Text>
+      </View>
+
+      <TouchableOpacity style={styles.primaryButton} onPress={handleDone}>
+        <Text style={styles.primaryButtonText}>Done</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#09d2fe" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Backup Codes</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {remaining === null ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#09d2fe" />
+        </View>
+      ) : (
+        <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+          {newCodes ? (
+            renderNewCodes(newCodes)
+          ) : (
+            <View style={styles.section}>
+              <View style={styles.statusCard}>
+                <Ionicons
+                  name="key"
+                  size={28}
+                  color={remaining > 2 ? '#10b981' : '#f59e0b'}
+                />
+                <View style={styles.statusContent}>
+                  <Text style={styles.statusTitle}>
+                    {remaining === 1 ? '1 code left' : `${remaining} codes left`}
+                  </Text>
+                  <Text style={styles.statusDescription}>
+                    Use a backup code instead of your authenticator app if you lose access to it. Each code works once.
+                  </Text>
+                </View>
+              </View>
+
+              {confirming ? (
+                <View style={styles.confirmCard}>
+                  <Text style={styles.confirmLabel}>
+                    Enter the 6-digit code from your authenticator app. Backup codes can't be used here.
+                  </Text>
+                  <TextInput
+                    style={styles.codeInput}
+                    value={otp}
+                    onChangeText={(text) => setOtp(text.replace(/[^0-9]/g, ''))}
+                    placeholder="000000"
+                    placeholderTextColor="#6b7280"
+                    keyboardType="numeric"
+                    maxLength={6}
+                    autoFocus={true}
+                    editable={!busy}
+                  />
+                  <View style={styles.confirmButtons}>
+                    <TouchableOpacity
+                      style={styles.cancelButton}
+                      onPress={() => {
+                        setConfirming(false);
+                        setOtp('');
+                      }}
+                      disabled={busy}
+                    >
+                      <Text style={styles.cancelButtonText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.confirmButton, busy && styles.buttonDisabled]}
+                      onPress={handleRegenerate}
+                      disabled={busy}
+                    >
+                      {busy ? (
+                        <ActivityIndicator size="small" color="#000" />
+                      ) : (
+                        <Text style={styles.primaryButtonText}>Confirm</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : (
+                <TouchableOpacity style={styles.optionItem} onPress={() => setConfirming(true)}>
+                  <Ionicons name="refresh" size={20} color="#09d2fe" />
+                  <Text style={styles.optionLabel}>Generate New Codes</Text>
+                  <Ionicons name="chevron-forward" size={20} color="#94a3b8" />
+                </TouchableOpacity>
+              )}
+
+              <Text style={styles.sectionFooter}>
+                Generating new codes replaces all of your current ones.
+              </Text>
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  placeholder: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#999',
+    marginBottom: 12,
+  },
+  sectionFooter: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+    lineHeight: 18,
+  },
+  statusCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#222',
+  },
+  statusContent: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  statusTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  statusDescription: {
+    fontSize: 14,
+    color: '#999',
+    lineHeight: 20,
+  },
+  optionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#111',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#222',
+  },
+  optionLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: '#fff',
+    marginLeft: 12,
+  },
+  confirmCard: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#222',
+  },
+  confirmLabel: {
+    fontSize: 14,
+    color: '#999',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  codeInput: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    paddingVertical: 14,
+    fontSize: 24,
+    color: '#fff',
+    textAlign: 'center',
+    letterSpacing: 8,
+    fontFamily: 'monospace',
+  },
+  confirmButtons: {
+    flexDirection: 'row',
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  confirmButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#09d2fe',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  codesCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    marginBottom: 12,
+  },
+  codeItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  codeText: {
+    fontSize: 16,
+    color: '#fff',
+    fontFamily: 'monospace',
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#09d2fe',
+    marginBottom: 16,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#09d2fe',
+    marginLeft: 8,
+  },
+  warningContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1f2937',
+    padding: 16,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#f59e0b',
+    marginBottom: 20,
+  },
+  warningText: {
+    color: '#f59e0b',
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 8,
+    flex: 1,
+  },
+  primaryButton: {
+    paddingVertical: 16,
+    borderRadius: 12,
+    backgroundColor: '#09d2fe',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+});
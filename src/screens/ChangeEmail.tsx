@@ -0,0 +1,344 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { EmailChangeService } from '../services/emailChangeService';
+
+type NavigationProp = StackNavigationProp<RootStackParamList, 'ChangeEmail'>;
+type ChangeEmailRouteProp = RouteProp<RootStackParamList, 'ChangeEmail'>;
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+const CODE_LENGTH = 6;
+
+export default function ChangeEmail() {
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<ChangeEmailRouteProp>();
+  // Issued by the change_email step-up in Account Settings
+  const { stepUpToken } = route.params;
+  const { user, fetchUserData } = useAuth();
+
+  const currentEmail = user?.email ?? '';
+  const [step, setStep] = useState<'email' | 'codes'>('email');
+  const [newEmail, setNewEmail] = useState('');
+  const [currentCode, setCurrentCode] = useState('');
+  const [newCode, setNewCode] = useState('');
+  // The auth server accepts the two codes one at a time; remember the first
+  // so a wrong second code doesn't ask for it again
+  const [currentConfirmed, setCurrentConfirmed] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleRequestChange = async () => {
+    const email = newEmail.trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      Alert.alert('Error', 'Please enter a valid email address');
+      return;
+    }
+    if (email === currentEmail.toLowerCase()) {
+      Alert.alert('Error', 'That is already your email address');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await EmailChangeService.requestChange(email, stepUpToken);
+      setStep('codes');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to start the email change');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if ((!currentConfirmed && currentCode.length !== CODE_LENGTH) || newCode.length !== CODE_LENGTH) {
+      Alert.alert('Error', `Enter the ${CODE_LENGTH}-digit code sent to each address`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (!currentConfirmed) {
+        await EmailChangeService.confirmCode(currentEmail, currentCode);
+        setCurrentConfirmed(true);
+      }
+      await EmailChangeService.confirmCode(newEmail, newCode);
+
+      if (user) {
+        await fetchUserData(user.uid, false);
+      }
+
+      Alert.alert(
+        'Email Changed',
+        `Your account email is now ${newEmail.trim().toLowerCase()}. For your security, withdrawals are paused for 24 hours.`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Invalid or expired code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setLoading(true);
+    try {
+      await EmailChangeService.resendCodes(newEmail);
+      Alert.alert('Codes Sent', 'We sent new codes to both addresses');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to resend the codes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#09d2fe" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Change Email</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.iconContainer}>
+          <Ionicons name="mail" size={48} color="#09d2fe" />
+        </View>
+
+        {step === 'email' ? (
+          <>
+            <Text style={styles.title}>New Email Address</Text>
+            <Text style={styles.subtitle}>
+              We'll send a confirmation code to {currentEmail} and to your new address.
+              The change applies once both are confirmed.
+            </Text>
+
+            <Text style={styles.inputLabel}>New Email</Text>
+            <TextInput
+              style={styles.input}
+              value={newEmail}
+              onChangeText={setNewEmail}
+              placeholder="name@example.com"
+              placeholderTextColor="#6b7280"
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!loading}
+            />
+
+            <View style={styles.noticeCard}>
+              <Ionicons name="time-outline" size={20} color="#f59e0b" />
+              <Text style={styles.noticeText}>
+                Withdrawals are paused for 24 hours after your email changes.
+              </Text>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, loading && styles.primaryButtonDisabled]}
+              onPress={handleRequestChange}
+              disabled={loading}
+            >
+              {loading ? (
+                <ActivityIndicator size="small" color="#000" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Send Codes</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.title}>Confirm Both Addresses</Text>
+            <Text style={styles.subtitle}>
+              Enter the codes we sent to your current and new email addresses.
+            </Text>
+
+            <Text style={styles.inputLabel}>Code sent to {currentEmail}</Text>
+            {currentConfirmed ? (
+              <View style={styles.confirmedRow}>
+                <Ionicons name="checkmark-circle" size={20} color="#10b981" />
+                <Text style={styles.confirmedText}>Confirmed</Text>
+              </View>
+            ) : (
+              <TextInput
+                style={styles.input}
+                value={currentCode}
+                onChangeText={(text) => setCurrentCode(text.replace(/[^0-9]/g, ''))}
+                placeholder="000000"
+                placeholderTextColor="#6b7280"
+                keyboardType="number-pad"
+                maxLength={CODE_LENGTH}
+                editable={!loading}
+              />
+            )}
+
+            <Text style={styles.inputLabel}>Code sent to {newEmail.trim().toLowerCase()}</Text>
+            <TextInput
+              style={styles.input}
+              value={newCode}
+              onChangeText={(text) => setNewCode(text.replace(/[^0-9]/g, ''))}
+              placeholder="000000"
+              placeholderTextColor="#6b7280"
+              keyboardType="number-pad"
+              maxLength={CODE_LENGTH}
+              editable={!loading}
+            />
+
+            <TouchableOpacity
+              style={[styles.primaryButton, loading && styles.primaryButtonDisabled]}
+              onPress={handleConfirm}
+              disabled={loading}
+            >
+              {loading ? (
+                <ActivityIndicator size="small" color="#000" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Confirm Change</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.linkButton} onPress={handleResend} disabled={loading}>
+              <Text style={styles.linkText}>Resend codes</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    padding: 20,
+  },
+  iconContainer: {
+    alignItems: 'center',
+    marginTop: 20,
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#9ca3af',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginBottom: 32,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#fff',
+    marginBottom: 20,
+  },
+  confirmedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  confirmedText: {
+    fontSize: 14,
+    color: '#10b981',
+    marginLeft: 8,
+  },
+  noticeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#111',
+    borderWidth: 1,
+    borderColor: '#222',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#9ca3af',
+    marginLeft: 12,
+    lineHeight: 18,
+  },
+  primaryButton: {
+    backgroundColor: '#09d2fe',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#09d2fe',
+  },
+});
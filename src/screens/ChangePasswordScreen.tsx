@@ -13,19 +13,25 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../types';
 import { supabase } from '../config/supabase';
 import { useAuth } from '../context/AuthContext';
+import { getPasswordPolicyError, PASSWORD_MIN_LENGTH } from '../services/passwordPolicy';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
 
 const { width } = Dimensions.get('window');
 
 type ChangePasswordNavigationProp = StackNavigationProp<RootStackParamList, 'ChangePassword'>;
+type ChangePasswordRouteProp = RouteProp<RootStackParamList, 'ChangePassword'>;
 
 const ChangePasswordScreen: React.FC = () => {
   const navigation = useNavigation<ChangePasswordNavigationProp>();
-  const { user } = useAuth();
+  const route = useRoute<ChangePasswordRouteProp>();
+  // Issued by the change_password step-up in Account Settings
+  const { stepUpToken } = route.params;
+  const { user, disableBiometric } = useAuth();
   
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -61,8 +67,9 @@ const ChangePasswordScreen: React.FC = () => {
       return false;
     }
 
-    if (newPassword.length < 6) {
-      Alert.alert('Error', 'New password must be at least 6 characters long');
+    const passwordError = getPasswordPolicyError(newPassword, { email: user?.email, fullName: user?.full_name });
+    if (passwordError) {
+      Alert.alert('Error', passwordError);
       return false;
     }
 
@@ -81,39 +88,25 @@ const ChangePasswordScreen: React.FC = () => {
     try {
       console.log('Attempting to change password...');
 
-      // Get current user session
-      const { data: { user: currentUser }, error: userError } = await supabase.auth.getUser();
-      
-      if (userError || !currentUser) {
-        throw new Error('No authenticated user found');
-      }
-
-      // For security, we'll proceed directly with password update
-      // Supabase Auth handles the current session validation
-      console.log('Updating password for authenticated user...');
-
-      // Update password using Supabase Auth
-      const { error: updateError } = await supabase.auth.updateUser({
-        password: newPassword
+      // The server checks the password policy and the step-up token
+      const { error: updateError } = await supabase.rpc('change_password', {
+        p_new_password: newPassword,
+        p_step_up_token: stepUpToken,
       });
 
       if (updateError) {
         console.error('Password update error:', updateError);
-        
-        // Handle specific error cases
-        if (updateError.message.includes('Password should be')) {
-          Alert.alert('Error', 'Password does not meet security requirements');
-          return;
-        } else if (updateError.message.includes('User not found') || updateError.message.includes('Invalid user')) {
-          Alert.alert('Error', 'Please sign in again and try updating your password');
-          return;
-        }
-        
-        throw updateError;
+        throw new Error(updateError.message);
       }
 
       console.log('Password updated successfully');
 
+      // The server revokes biometric device credentials on password change;
+      // clear the local copy so this device stops offering biometric login
+      if (user?.biometric_enabled) {
+        await disableBiometric();
+      }
+
       Alert.alert(
         'Success',
         'Your password has been changed successfully!',
@@ -182,7 +175,7 @@ const ChangePasswordScreen: React.FC = () => {
                 style={styles.passwordInput}
                 value={newPassword}
                 onChangeText={setNewPassword}
-                placeholder="Enter new password (min 6 characters)"
+                placeholder={`Enter new password (min ${PASSWORD_MIN_LENGTH} characters)`}
                 placeholderTextColor="#6b7280"
                 secureTextEntry={!showNewPassword}
                 autoCapitalize="none"
@@ -201,6 +194,11 @@ const ChangePasswordScreen: React.FC = () => {
             </View>
           </View>
 
+          <PasswordStrengthMeter
+            password={newPassword}
+            context={{ email: user?.email, fullName: user?.full_name }}
+          />
+
           {/* Confirm Password */}
           <View style={styles.inputContainer}>
             <Text style={styles.inputLabel}>Confirm New Password</Text>
@@ -233,7 +231,7 @@ const ChangePasswordScreen: React.FC = () => {
             <Text style={styles.tipsTitle}>Password Security Tips:</Text>
             <View style={styles.tipItem}>
               <Ionicons name="checkmark-circle" size={16} color="#10b981" />
-              <Text style={styles.tipText}>Use at least 8 characters</Text>
+              <Text style={styles.tipText}>Use at least {PASSWORD_MIN_LENGTH} characters</Text>
             </View>
             <View style={styles.tipItem}>
               <Ionicons name="checkmark-circle" size={16} color="#10b981" />
@@ -243,6 +241,10 @@ const ChangePasswordScreen: React.FC = () => {
               <Ionicons name="checkmark-circle" size={16} color="#10b981" />
               <Text style={styles.tipText}>Add numbers and special characters</Text>
             </View>
+            <View style={styles.tipItem}>
+              <Ionicons name="checkmark-circle" size={16} color="#10b981" />
+              <Text style={styles.tipText}>Avoid your name, email and common passwords</Text>
+            </View>
           </View>
 
           {/* Change Password Button */}
@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useAppLock } from '../context/AppLockContext';
+import { useStepUp } from '../context/StepUpContext';
+import { AccountClosureService } from '../services/accountClosureService';
+import { BiometricService } from '../services/biometricService';
+
+type NavigationProp = StackNavigationProp<RootStackParamList, 'CloseAccount'>;
+
+const CLOSURE_EFFECTS = [
+  'You will be signed out on every device and biometric login will be removed',
+  'You will not be able to sign in or open a new account with this email',
+  'Your identity (KYC) and transaction records are kept for the period the law requires',
+];
+
+export default function CloseAccount() {
+  const navigation = useNavigation<NavigationProp>();
+  const { signOut } = useAuth();
+  const { removePin } = useAppLock();
+  const { requireStepUp } = useStepUp();
+
+  const [blockers, setBlockers] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [closing, setClosing] = useState(false);
+
+  const loadBlockers = async () => {
+    try {
+      setBlockers(await AccountClosureService.getBlockers());
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to check your account');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBlockers();
+  }, []);
+
+  const closeAccount = async () => {
+    const stepUpToken = await requireStepUp('close_account');
+    if (!stepUpToken) return;
+
+    setClosing(true);
+    try {
+      await AccountClosureService.closeAccount(stepUpToken);
+    } catch (error: any) {
+      setClosing(false);
+      Alert.alert('Error', error.message || 'Failed to close your account');
+      loadBlockers();
+      return;
+    }
+
+    // The server already ended every session; clear what this device keeps
+    await BiometricService.clearLocalCredentials();
+    await removePin();
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Sign out after closing account failed:', error);
+    }
+
+    Alert.alert('Account Closed', 'Your account has been closed. Thank you for using CoinSensei.');
+  };
+
+  const handleClose = () => {
+    Alert.alert(
+      'Close Account',
+      'This cannot be undone. Are you sure you want to close your account?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Close Account', style: 'destructive', onPress: closeAccount },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#09d2fe" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Close Account</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#09d2fe" />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.iconContainer}>
+            <Ionicons name="warning" size={48} color="#ff4757" />
+          </View>
+          <Text style={styles.title}>Closing your account</Text>
+
+          <View style={styles.card}>
+            {CLOSURE_EFFECTS.map((effect) => (
+              <View key={effect} style={styles.row}>
+                <Ionicons name="information-circle-outline" size={18} color="#9ca3af" />
+                <Text style={styles.rowText}>{effect}</Text>
+              </View>
+            ))}
+          </View>
+
+          {blockers.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>Before you can close your account</Text>
+              <View style={[styles.card, styles.blockerCard]}>
+                {blockers.map((blocker) => (
+                  <View key={blocker} style={styles.row}>
+                    <Ionicons name="close-circle" size={18} color="#ff4757" />
+                    <Text style={styles.rowText}>{blocker}</Text>
+                  </View>
+                ))}
+              </View>
+            </>
+          )}
+
+          <TouchableOpacity
+            style={[styles.closeButton, (blockers.length > 0 || closing) && styles.closeButtonDisabled]}
+            onPress={handleClose}
+            disabled={blockers.length > 0 || closing}
+          >
+            {closing ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.closeButtonText}>Close My Account</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  placeholder: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 20,
+  },
+  iconContainer: {
+    alignItems: 'center',
+    marginTop: 20,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#111',
+    borderWidth: 1,
+    borderColor: '#222',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  blockerCard: {
+    borderColor: 'rgba(255, 71, 87, 0.4)',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 10,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#d1d5db',
+    marginLeft: 10,
+    lineHeight: 20,
+  },
+  closeButton: {
+    backgroundColor: '#ff4757',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  closeButtonDisabled: {
+    opacity: 0.4,
+  },
+  closeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
@@ -22,6 +22,7 @@ import { useAuth } from '../context/AuthContext';
 import { supabase } from '../config/supabase';
 import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system';
+import { formatMoney, isZeroMoney, parseMoney, toDecimalString } from '../services/money';
 
 const { width } = Dimensions.get('window');
 
@@ -50,6 +51,8 @@ const DepositPKRScreen: React.FC = () => {
   const [notificationMessage, setNotificationMessage] = useState('');
   const [showSuccessAnimation, setShowSuccessAnimation] = useState(false);
 
+  const depositAmount = parseMoney(amount, 'PKR');
+
   // Animations
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(50)).current;
@@ -173,7 +176,7 @@ const DepositPKRScreen: React.FC = () => {
 
   const handleNext = () => {
     if (step === 1) {
-      if (!amount || parseFloat(amount) <= 0) {
+      if (!depositAmount || isZeroMoney(depositAmount)) {
         Alert.alert('Error', 'Please enter a valid amount');
         return;
       }
@@ -212,6 +215,11 @@ const DepositPKRScreen: React.FC = () => {
   };
 
   const submitDeposit = async () => {
+    if (!depositAmount) {
+      Alert.alert('Error', 'Please enter a valid amount');
+      return;
+    }
+
     if (!screenshot) {
       Alert.alert('Error', 'Please upload a payment screenshot');
       return;
@@ -254,7 +262,7 @@ const DepositPKRScreen: React.FC = () => {
         .from('pkr_deposits')
         .insert({
           user_id: user?.uid,
-          amount: parseFloat(amount),
+          amount: toDecimalString(depositAmount),
           bank_account_id: selectedBank?.id,
           screenshot_url: screenshotUrl,
           status: 'pending'
@@ -492,7 +500,7 @@ const DepositPKRScreen: React.FC = () => {
                   
                   <View style={styles.amountSection}>
                     <Text style={styles.amountLabel}>Amount to Transfer</Text>
-                    <Text style={styles.amountDisplay}>₨{amount}</Text>
+                    <Text style={styles.amountDisplay}>₨{depositAmount && formatMoney(depositAmount)}</Text>
                   </View>
                   
                   <View style={styles.bankInfoSection}>
@@ -528,7 +536,7 @@ const DepositPKRScreen: React.FC = () => {
                   <View style={styles.instructionSection}>
                     <Ionicons name="information-circle" size={20} color="#f59e0b" />
                     <Text style={styles.instructionText}>
-                      Please transfer exactly ₨{amount} to the account above and upload the payment screenshot below.
+                      Please transfer exactly ₨{depositAmount && formatMoney(depositAmount)} to the account above and upload the payment screenshot below.
                     </Text>
                   </View>
                 </View>
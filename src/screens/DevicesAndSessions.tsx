@@ -0,0 +1,377 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { UserDevice, RootStackParamList } from '../types';
+import { useRefreshControl } from '../hooks/useRefreshControl';
+import { DeviceService } from '../services/deviceService';
+
+type NavigationProp = StackNavigationProp<RootStackParamList, 'DevicesAndSessions'>;
+
+export default function DevicesAndSessions() {
+  const navigation = useNavigation<NavigationProp>();
+  const [devices, setDevices] = useState<UserDevice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchDevices = async () => {
+    try {
+      const data = await DeviceService.getDevices();
+      setDevices(data);
+    } catch (error) {
+      console.error('Error fetching devices:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const { isRefreshing, handleRefresh } = useRefreshControl({ onRefresh: fetchDevices });
+
+  useEffect(() => {
+    fetchDevices();
+  }, []);
+
+  const revokeDevice = (device: UserDevice) => {
+    Alert.alert(
+      'Sign Out Device',
+      `Sign out ${device.device_name || 'this device'}? It will need to sign in again${device.biometric_enabled ? ' and biometric login will be disabled there' : ''}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            setRevokingId(device.device_id);
+            try {
+              await DeviceService.revokeDevice(device.device_id);
+              setDevices(prev => prev.filter(d => d.device_id !== device.device_id));
+            } catch (error) {
+              Alert.alert('Error', 'Failed to sign out device');
+            } finally {
+              setRevokingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const revokeOtherDevices = () => {
+    Alert.alert(
+      'Sign Out Other Devices',
+      'All other devices will be signed out and their biometric login disabled.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out All',
+          style: 'destructive',
+          onPress: async () => {
+            setRevokingId('others');
+            try {
+              await DeviceService.revokeOtherDevices();
+              setDevices(prev => prev.filter(d => d.is_current));
+            } catch (error) {
+              Alert.alert('Error', 'Failed to sign out other devices');
+            } finally {
+              setRevokingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const getPlatformIcon = (platform: string | null) => {
+    if (platform === 'ios') return 'logo-apple';
+    if (platform === 'android') return 'logo-android';
+    return 'phone-portrait-outline';
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const otherDevices = devices.filter(d => !d.is_current);
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#09d2fe" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Devices & Sessions</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor="#09d2fe"
+          />
+        }
+      >
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <Text style={styles.loadingText}>Loading devices...</Text>
+          </View>
+        ) : devices.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="phone-portrait-outline" size={64} color="#666" />
+            <Text style={styles.emptyTitle}>No Active Sessions</Text>
+            <Text style={styles.emptySubtitle}>
+              Devices you sign in on will appear here
+            </Text>
+          </View>
+        ) : (
+          <View style={styles.devicesList}>
+            {devices.map((device) => (
+              <View key={device.id} style={styles.deviceCard}>
+                <View style={styles.deviceHeader}>
+                  <View style={styles.deviceInfo}>
+                    <View style={styles.deviceIconContainer}>
+                      <Ionicons
+                        name={getPlatformIcon(device.platform) as any}
+                        size={20}
+                        color="#09d2fe"
+                      />
+                    </View>
+                    <View style={styles.deviceDetails}>
+                      <Text style={styles.deviceName}>{device.device_name || 'Unknown device'}</Text>
+                      <Text style={styles.deviceVersion}>
+                        App version {device.app_version || 'unknown'}
+                      </Text>
+                    </View>
+                  </View>
+                  {device.is_current ? (
+                    <View style={[styles.statusBadge, styles.currentBadge]}>
+                      <Text style={[styles.statusText, styles.currentText]}>This device</Text>
+                    </View>
+                  ) : (
+                    <TouchableOpacity
+                      style={styles.revokeButton}
+                      onPress={() => revokeDevice(device)}
+                      disabled={revokingId !== null}
+                    >
+                      <Ionicons name="log-out-outline" size={18} color="#ff4757" />
+                    </TouchableOpacity>
+                  )}
+                </View>
+
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>First seen</Text>
+                  <Text style={styles.detailValue}>{formatDate(device.first_seen_at)}</Text>
+                </View>
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Last active</Text>
+                  <Text style={styles.detailValue}>{formatDate(device.last_seen_at)}</Text>
+                </View>
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Biometric login</Text>
+                  <Text style={[styles.detailValue, device.biometric_enabled ? styles.enabledText : styles.disabledText]}>
+                    {device.biometric_enabled ? 'Enabled' : 'Disabled'}
+                  </Text>
+                </View>
+              </View>
+            ))}
+
+            {otherDevices.length > 0 && (
+              <TouchableOpacity
+                style={[styles.revokeAllButton, revokingId !== null && styles.revokeAllButtonDisabled]}
+                onPress={revokeOtherDevices}
+                disabled={revokingId !== null}
+              >
+                <Ionicons name="log-out-outline" size={20} color="#ff4757" />
+                <Text style={styles.revokeAllButtonText}>
+                  {revokingId === 'others' ? 'Signing out...' : 'Sign out all other devices'}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingTop: 100,
+  },
+  loadingText: {
+    color: '#666',
+    fontSize: 16,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+    paddingTop: 100,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#fff',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  devicesList: {
+    padding: 20,
+  },
+  deviceCard: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#222',
+  },
+  deviceHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  deviceInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  deviceIconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#1a1a1a',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  deviceDetails: {
+    flex: 1,
+  },
+  deviceName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  deviceVersion: {
+    fontSize: 14,
+    color: '#999',
+  },
+  revokeButton: {
+    padding: 8,
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  currentBadge: {
+    backgroundColor: 'rgba(9, 210, 254, 0.1)',
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  currentText: {
+    color: '#09d2fe',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  detailLabel: {
+    fontSize: 12,
+    color: '#666',
+  },
+  detailValue: {
+    fontSize: 12,
+    color: '#fff',
+  },
+  enabledText: {
+    color: '#10b981',
+  },
+  disabledText: {
+    color: '#999',
+  },
+  revokeAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#ff4757',
+    backgroundColor: 'rgba(255, 71, 87, 0.1)',
+  },
+  revokeAllButtonDisabled: {
+    opacity: 0.5,
+  },
+  revokeAllButtonText: {
+    color: '#ff4757',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
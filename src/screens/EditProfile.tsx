@@ -0,0 +1,511 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import * as ImagePicker from 'expo-image-picker';
+import { RootStackParamList } from '../types';
+import { useAuth } from '../context/AuthContext';
+import {
+  ProfileService,
+  ProfileUpdate,
+  formatCnic,
+  getCnicError,
+  getDobError,
+  getUsernameError,
+} from '../services/profileService';
+import { formatPakistaniPhone } from '../services/phoneNumber';
+
+type NavigationProp = StackNavigationProp<RootStackParamList, 'EditProfile'>;
+
+type UsernameStatus = 'idle' | 'checking' | 'available' | 'taken';
+
+const AVATAR_PICKER_OPTIONS: ImagePicker.ImagePickerOptions = {
+  mediaTypes: ImagePicker.MediaTypeOptions.Images,
+  allowsEditing: true,
+  aspect: [1, 1],
+  quality: 0.6,
+};
+
+export default function EditProfile() {
+  const navigation = useNavigation<NavigationProp>();
+  const { user, fetchUserData } = useAuth();
+  // Name, CNIC and date of birth were checked by KYC and are locked server-side
+  const kycLocked = user?.kyc_status === 'verified';
+
+  const [fullName, setFullName] = useState(user?.full_name ?? '');
+  const [username, setUsername] = useState(user?.username ?? '');
+  const [address, setAddress] = useState(user?.address ?? '');
+  const [cnic, setCnic] = useState(user?.cnic_number ?? '');
+  const [dob, setDob] = useState(user?.dob ?? '');
+  const [avatarUri, setAvatarUri] = useState<string | null>(null);
+  const [usernameStatus, setUsernameStatus] = useState<UsernameStatus>('idle');
+  const [saving, setSaving] = useState(false);
+
+  const initials = fullName.split(' ').map(n => n[0]).join('').toUpperCase() || 'U';
+  const avatarSource = avatarUri ?? user?.avatar_url;
+
+  const checkUsername = async () => {
+    const value = username.trim().toLowerCase();
+    if (!value || value === user?.username || getUsernameError(value)) {
+      setUsernameStatus('idle');
+      return;
+    }
+
+    setUsernameStatus('checking');
+    try {
+      const available = await ProfileService.isUsernameAvailable(value);
+      setUsernameStatus(available ? 'available' : 'taken');
+    } catch {
+      setUsernameStatus('idle');
+    }
+  };
+
+  const pickAvatar = async (source: 'camera' | 'library') => {
+    try {
+      const permission = source === 'camera'
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert('Permission Needed', `Allow access to your ${source === 'camera' ? 'camera' : 'photos'} to set a profile photo.`);
+        return;
+      }
+
+      const result = source === 'camera'
+        ? await ImagePicker.launchCameraAsync(AVATAR_PICKER_OPTIONS)
+        : await ImagePicker.launchImageLibraryAsync(AVATAR_PICKER_OPTIONS);
+
+      if (!result.canceled && result.assets[0]) {
+        setAvatarUri(result.assets[0].uri);
+      }
+    } catch (error) {
+      console.error('Error picking avatar:', error);
+      Alert.alert('Error', 'Failed to select image');
+    }
+  };
+
+  const handleChangeAvatar = () => {
+    Alert.alert('Profile Photo', undefined, [
+      { text: 'Take Photo', onPress: () => pickAvatar('camera') },
+      { text: 'Choose from Library', onPress: () => pickAvatar('library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const buildUpdate = async (): Promise<ProfileUpdate | null> => {
+    if (!user) return null;
+    const update: ProfileUpdate = {};
+
+    const newUsername = username.trim().toLowerCase();
+    if (newUsername !== (user.username ?? '')) {
+      if (newUsername) {
+        const usernameError = getUsernameError(newUsername);
+        if (usernameError) {
+          Alert.alert('Error', usernameError);
+          return null;
+        }
+        if (!(await ProfileService.isUsernameAvailable(newUsername))) {
+          setUsernameStatus('taken');
+          Alert.alert('Error', 'That username is already taken');
+          return null;
+        }
+      }
+      update.username = newUsername || null;
+    }
+
+    if (address.trim() !== (user.address ?? '')) {
+      update.address = address.trim() || null;
+    }
+
+    if (!kycLocked) {
+      if (!fullName.trim()) {
+        Alert.alert('Error', 'Please enter your full name');
+        return null;
+      }
+      if (fullName.trim() !== user.full_name) {
+        update.full_name = fullName.trim();
+      }
+
+      if (cnic !== (user.cnic_number ?? '')) {
+        const cnicError = cnic ? getCnicError(cnic) : null;
+        if (cnicError) {
+          Alert.alert('Error', cnicError);
+          return null;
+        }
+        update.cnic_number = cnic || null;
+      }
+
+      if (dob.trim() !== (user.dob ?? '')) {
+        const dobError = dob.trim() ? getDobError(dob.trim()) : null;
+        if (dobError) {
+          Alert.alert('Error', dobError);
+          return null;
+        }
+        update.dob = dob.trim() || null;
+      }
+    }
+
+    return update;
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const update = await buildUpdate();
+      if (!update) return;
+
+      if (avatarUri) {
+        update.avatar_url = await ProfileService.uploadAvatar(user.uid, avatarUri);
+      }
+
+      if (Object.keys(update).length > 0) {
+        await ProfileService.updateProfile(user.uid, update);
+        await fetchUserData(user.uid, false);
+      }
+
+      Alert.alert('Profile Updated', 'Your profile has been saved.', [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to update your profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderLockedHint = () =>
+    kycLocked ? (
+      <View style={styles.lockedHint}>
+        <Ionicons name="lock-closed" size={12} color="#9ca3af" />
+        <Text style={styles.lockedHintText}>Verified by KYC</Text>
+      </View>
+    ) : null;
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#09d2fe" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Edit Profile</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Avatar */}
+        <TouchableOpacity style={styles.avatarContainer} onPress={handleChangeAvatar} disabled={saving}>
+          <View style={styles.avatar}>
+            {avatarSource ? (
+              <Image source={{ uri: avatarSource }} style={styles.avatarImage} />
+            ) : (
+              <Text style={styles.avatarText}>{initials}</Text>
+            )}
+            <View style={styles.cameraBadge}>
+              <Ionicons name="camera" size={14} color="#000" />
+            </View>
+          </View>
+          <Text style={styles.changePhotoText}>Change Photo</Text>
+        </TouchableOpacity>
+
+        {/* Full Name */}
+        <View style={styles.labelRow}>
+          <Text style={styles.inputLabel}>Full Name</Text>
+          {renderLockedHint()}
+        </View>
+        <TextInput
+          style={[styles.input, kycLocked && styles.inputLocked]}
+          value={fullName}
+          onChangeText={setFullName}
+          placeholder="Your full name"
+          placeholderTextColor="#6b7280"
+          editable={!kycLocked && !saving}
+        />
+
+        {/* Username */}
+        <Text style={styles.inputLabel}>Username</Text>
+        <TextInput
+          style={styles.input}
+          value={username}
+          onChangeText={(text) => {
+            setUsername(text.toLowerCase());
+            setUsernameStatus('idle');
+          }}
+          onBlur={checkUsername}
+          placeholder="username"
+          placeholderTextColor="#6b7280"
+          autoCapitalize="none"
+          autoCorrect={false}
+          maxLength={20}
+          editable={!saving}
+        />
+        {usernameStatus !== 'idle' && (
+          <Text
+            style={[
+              styles.usernameStatus,
+              usernameStatus === 'available' && styles.usernameAvailable,
+              usernameStatus === 'taken' && styles.usernameTaken,
+            ]}
+          >
+            {usernameStatus === 'checking'
+              ? 'Checking...'
+              : usernameStatus === 'available'
+                ? 'Username is available'
+                : 'Username is already taken'}
+          </Text>
+        )}
+
+        {/* Phone: changed only through SMS verification */}
+        <Text style={styles.inputLabel}>Phone Number</Text>
+        <TouchableOpacity
+          style={[styles.input, styles.phoneRow]}
+          onPress={() => navigation.navigate('PhoneVerification')}
+          disabled={saving}
+        >
+          <Text style={user?.phone_number ? styles.phoneText : styles.phonePlaceholder}>
+            {user?.phone_number ? formatPakistaniPhone(user.phone_number) : 'Add and verify a number'}
+          </Text>
+          <Ionicons name="chevron-forward" size={18} color="#94a3b8" />
+        </TouchableOpacity>
+
+        {/* Address */}
+        <Text style={styles.inputLabel}>Address</Text>
+        <TextInput
+          style={[styles.input, styles.multilineInput]}
+          value={address}
+          onChangeText={setAddress}
+          placeholder="House, street, city"
+          placeholderTextColor="#6b7280"
+          multiline
+          editable={!saving}
+        />
+
+        {/* CNIC */}
+        <View style={styles.labelRow}>
+          <Text style={styles.inputLabel}>CNIC Number</Text>
+          {renderLockedHint()}
+        </View>
+        <TextInput
+          style={[styles.input, kycLocked && styles.inputLocked]}
+          value={cnic}
+          onChangeText={(text) => setCnic(formatCnic(text))}
+          placeholder="12345-1234567-1"
+          placeholderTextColor="#6b7280"
+          keyboardType="number-pad"
+          editable={!kycLocked && !saving}
+        />
+
+        {/* Date of Birth */}
+        <View style={styles.labelRow}>
+          <Text style={styles.inputLabel}>Date of Birth</Text>
+          {renderLockedHint()}
+        </View>
+        <TextInput
+          style={[styles.input, kycLocked && styles.inputLocked]}
+          value={dob}
+          onChangeText={setDob}
+          placeholder="YYYY-MM-DD"
+          placeholderTextColor="#6b7280"
+          keyboardType="numbers-and-punctuation"
+          maxLength={10}
+          editable={!kycLocked && !saving}
+        />
+
+        {kycLocked && (
+          <Text style={styles.lockedNote}>
+            To correct a verified field, contact support.
+          </Text>
+        )}
+
+        <TouchableOpacity
+          style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="#000" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save Changes</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  avatarContainer: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  avatar: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#333',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarImage: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+  },
+  avatarText: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  cameraBadge: {
+    position: 'absolute',
+    bottom: 0,
+    right: 0,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#09d2fe',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  changePhotoText: {
+    fontSize: 14,
+    color: '#09d2fe',
+    marginTop: 8,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 8,
+  },
+  lockedHint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  lockedHintText: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginLeft: 4,
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#fff',
+    marginBottom: 20,
+  },
+  inputLocked: {
+    color: '#9ca3af',
+    backgroundColor: '#111',
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  usernameStatus: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: -12,
+    marginBottom: 20,
+  },
+  usernameAvailable: {
+    color: '#10b981',
+  },
+  usernameTaken: {
+    color: '#ff4757',
+  },
+  phoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  phoneText: {
+    fontSize: 16,
+    color: '#fff',
+  },
+  phonePlaceholder: {
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  lockedNote: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: -8,
+    marginBottom: 24,
+  },
+  saveButton: {
+    backgroundColor: '#09d2fe',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+});
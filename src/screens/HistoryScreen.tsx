@@ -12,20 +12,29 @@ import {
   Modal,
   Dimensions,
   Image,
+  Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { supabase } from '../config/supabase';
-import { PKRDeposit, PKRWithdrawal, RootStackParamList } from '../types';
+import { Money, PKRDeposit, PKRWithdrawal, RootStackParamList } from '../types';
 import { useRefreshControl } from '../hooks/useRefreshControl';
+import { useRealtime } from '../context/RealtimeContext';
+import { LedgerService, getBalanceAfter } from '../services/ledgerService';
+import { WithdrawalService } from '../services/withdrawalService';
+import { TransferService } from '../services/transferService';
+import { formatMoney, toMoney } from '../services/money';
 
 type HistoryScreenNavigationProp = StackNavigationProp<RootStackParamList, 'History'>;
 
 interface HistoryItem {
   id: string;
-  type: 'deposit' | 'withdrawal';
-  amount: number;
+  // id of the deposit, withdrawal or transfer row
+  sourceId: string;
+  type: 'deposit' | 'withdrawal' | 'transfer';
+  amount: Money;
   status: string;
   date: string;
   reference?: string;
@@ -35,6 +44,11 @@ interface HistoryItem {
   screenshotUrl?: string;
   adminNotes?: string;
   processedAt?: string;
+  direction?: 'sent' | 'received';
+  counterpartyName?: string;
+  counterpartyAddress?: string;
+  note?: string | null;
+  balanceAfter?: Money | null;
 }
 
 export default function HistoryScreen() {
@@ -46,7 +60,9 @@ export default function HistoryScreen() {
   const [showModal, setShowModal] = useState(false);
   const [imageError, setImageError] = useState(false);
   const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
   const { isRefreshing, handleRefresh } = useRefreshControl();
+  const { subscribe } = useRealtime();
 
 
 
@@ -84,6 +100,15 @@ export default function HistoryScreen() {
     }, [activeTab])
   );
 
+  // Live status and balance updates
+  useEffect(() => {
+    return subscribe((change) => {
+      if (!change || change.table !== 'wallets') {
+        fetchPkrHistory();
+      }
+    });
+  }, []);
+
   useEffect(() => {
     // Tab indicator animation
     Animated.timing(tabIndicatorAnim, {
@@ -142,6 +167,12 @@ export default function HistoryScreen() {
         console.error('Error fetching withdrawals:', withdrawalsError);
       }
 
+      // Transfers sent and received
+      const transfers = await TransferService.getTransfers();
+
+      // Running balances from the ledger
+      const ledger = await LedgerService.getHistory('PKR');
+
       // Combine and format history items
       const historyItems: HistoryItem[] = [];
 
@@ -150,14 +181,16 @@ export default function HistoryScreen() {
         deposits.forEach(deposit => {
           historyItems.push({
             id: `deposit-${deposit.id}`,
+            sourceId: deposit.id,
             type: 'deposit',
-            amount: deposit.amount,
+            amount: toMoney(deposit.amount, 'PKR'),
             status: deposit.status,
             date: deposit.created_at,
             bankName: deposit.bank_accounts?.bank_name,
             bankAccountTitle: deposit.bank_accounts?.account_title,
             bankAccountIban: deposit.bank_accounts?.account_iban,
             screenshotUrl: deposit.screenshot_url,
+            balanceAfter: getBalanceAfter(ledger, 'PKR', 'deposit', deposit.id),
           });
         });
       }
@@ -167,17 +200,36 @@ export default function HistoryScreen() {
         withdrawals.forEach(withdrawal => {
           historyItems.push({
             id: `withdrawal-${withdrawal.id}`,
+            sourceId: withdrawal.id,
             type: 'withdrawal',
-            amount: withdrawal.amount,
+            amount: toMoney(withdrawal.amount, 'PKR'),
             status: withdrawal.status,
             date: withdrawal.created_at,
             bankName: withdrawal.user_bank_accounts?.bank_name,
             bankAccountTitle: withdrawal.user_bank_accounts?.account_title,
             bankAccountIban: withdrawal.user_bank_accounts?.account_iban,
+            balanceAfter: getBalanceAfter(ledger, 'PKR', 'withdrawal', withdrawal.id),
           });
         });
       }
 
+      // Add transfers; they settle instantly, so they are always completed
+      transfers.forEach(transfer => {
+        historyItems.push({
+          id: `transfer-${transfer.id}`,
+          sourceId: transfer.id,
+          type: 'transfer',
+          amount: toMoney(transfer.amount, 'PKR'),
+          status: 'completed',
+          date: transfer.created_at,
+          direction: transfer.direction,
+          counterpartyName: transfer.counterparty_name,
+          counterpartyAddress: transfer.counterparty_address,
+          note: transfer.note,
+          balanceAfter: getBalanceAfter(ledger, 'PKR', 'transfer', transfer.id),
+        });
+      });
+
       // Sort by date (newest first)
       historyItems.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
       console.log('Final history items:', historyItems);
@@ -269,6 +321,48 @@ export default function HistoryScreen() {
     });
   };
 
+  const cancelWithdrawal = async (item: HistoryItem) => {
+    setCancelling(true);
+    try {
+      await WithdrawalService.cancelWithdrawal(item.sourceId);
+      closeTransactionDetails();
+      Alert.alert('Withdrawal Cancelled', `₨${formatMoney(item.amount)} is back in your available balance.`);
+      fetchPkrHistory();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to cancel withdrawal');
+      // It may have moved to processing in the meantime
+      fetchPkrHistory();
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  const handleCancelWithdrawal = (item: HistoryItem) => {
+    Alert.alert(
+      'Cancel Withdrawal',
+      `Cancel your withdrawal of ₨${formatMoney(item.amount)}? The amount will be returned to your available balance.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Cancel Request', style: 'destructive', onPress: () => cancelWithdrawal(item) },
+      ]
+    );
+  };
+
+  // Money coming into the wallet: deposits and transfers received
+  const isIncoming = (item: HistoryItem) =>
+    item.type === 'deposit' || item.direction === 'received';
+
+  const getItemTitle = (item: HistoryItem) => {
+    switch (item.type) {
+      case 'deposit':
+        return 'PKR Deposit';
+      case 'withdrawal':
+        return 'PKR Withdrawal';
+      default:
+        return item.direction === 'received' ? 'PKR Received' : 'PKR Sent';
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed':
@@ -277,6 +371,8 @@ export default function HistoryScreen() {
         return '#f59e0b';
       case 'declined':
         return '#ef4444';
+      case 'cancelled':
+        return '#9ca3af';
       default:
         return '#6b7280';
     }
@@ -290,6 +386,8 @@ export default function HistoryScreen() {
         return 'time';
       case 'declined':
         return 'close-circle';
+      case 'cancelled':
+        return 'remove-circle';
       default:
         return 'help-circle';
     }
@@ -325,26 +423,32 @@ export default function HistoryScreen() {
         <View style={styles.historyItemLeft}>
           <View style={[
             styles.typeIcon,
-            { backgroundColor: item.type === 'deposit' ? '#10b981' : '#ef4444' }
+            { backgroundColor: isIncoming(item) ? '#10b981' : '#ef4444' }
           ]}>
             <Ionicons
-              name={item.type === 'deposit' ? 'arrow-down' : 'arrow-up'}
+              name={isIncoming(item) ? 'arrow-down' : 'arrow-up'}
               size={16}
               color="#ffffff"
             />
           </View>
           <View style={styles.historyItemInfo}>
-            <Text style={styles.historyItemTitle}>
-              {item.type === 'deposit' ? 'PKR Deposit' : 'PKR Withdrawal'}
-            </Text>
+            <Text style={styles.historyItemTitle}>{getItemTitle(item)}</Text>
             <Text style={styles.historyItemDate}>{formatDate(item.date)}</Text>
             {item.bankName && (
               <Text style={styles.historyItemBank}>{item.bankName}</Text>
             )}
+            {item.counterpartyName && (
+              <Text style={styles.historyItemBank}>
+                {item.direction === 'received' ? 'From' : 'To'} {item.counterpartyName}
+              </Text>
+            )}
+            {item.balanceAfter != null && (
+              <Text style={styles.historyItemBalance}>Balance after: ₨{formatMoney(item.balanceAfter)}</Text>
+            )}
           </View>
         </View>
         <View style={styles.historyItemRight}>
-          <Text style={styles.historyItemAmount}>₨{item.amount}</Text>
+          <Text style={styles.historyItemAmount}>₨{formatMoney(item.amount)}</Text>
           <View style={styles.statusContainer}>
             <Ionicons
               name={getStatusIcon(item.status) as any}
@@ -462,7 +566,7 @@ export default function HistoryScreen() {
               <Ionicons name="receipt-outline" size={64} color="#6b7280" />
               <Text style={styles.emptyTitle}>No Transactions Yet</Text>
               <Text style={styles.emptyText}>
-                Your PKR deposit and withdrawal history will appear here.
+                Your PKR deposits, withdrawals and transfers will appear here.
               </Text>
             </Animated.View>
           }
@@ -507,19 +611,17 @@ export default function HistoryScreen() {
                   <View style={styles.modalHeaderLeft}>
                     <View style={[
                       styles.modalTypeIcon,
-                      { backgroundColor: selectedItem.type === 'deposit' ? '#10b981' : '#ef4444' }
+                      { backgroundColor: isIncoming(selectedItem) ? '#10b981' : '#ef4444' }
                     ]}>
                       <Ionicons
-                        name={selectedItem.type === 'deposit' ? 'arrow-down' : 'arrow-up'}
+                        name={isIncoming(selectedItem) ? 'arrow-down' : 'arrow-up'}
                         size={20}
                         color="#ffffff"
                       />
                     </View>
                     <View>
-                      <Text style={styles.modalTitle}>
-                        {selectedItem.type === 'deposit' ? 'PKR Deposit' : 'PKR Withdrawal'}
-                      </Text>
-                      <Text style={styles.modalAmount}>₨{selectedItem.amount}</Text>
+                      <Text style={styles.modalTitle}>{getItemTitle(selectedItem)}</Text>
+                      <Text style={styles.modalAmount}>₨{formatMoney(selectedItem.amount)}</Text>
                     </View>
                   </View>
                   <TouchableOpacity
@@ -555,22 +657,55 @@ export default function HistoryScreen() {
                     <Text style={styles.modalDetailText}>{formatDate(selectedItem.date)}</Text>
                   </View>
 
-                  {/* Bank Details Section */}
-                  <View style={styles.modalSection}>
-                    <Text style={styles.modalSectionTitle}>Bank Details</Text>
-                    <View style={styles.bankDetailRow}>
-                      <Text style={styles.bankDetailLabel}>Bank:</Text>
-                      <Text style={styles.bankDetailValue}>{selectedItem.bankName || 'N/A'}</Text>
-                    </View>
-                    <View style={styles.bankDetailRow}>
-                      <Text style={styles.bankDetailLabel}>Account Title:</Text>
-                      <Text style={styles.bankDetailValue}>{selectedItem.bankAccountTitle || 'N/A'}</Text>
+                  {selectedItem.balanceAfter != null && (
+                    <View style={styles.modalSection}>
+                      <Text style={styles.modalSectionTitle}>Balance After</Text>
+                      <Text style={styles.modalDetailText}>₨{formatMoney(selectedItem.balanceAfter)}</Text>
                     </View>
-                    <View style={styles.bankDetailRow}>
-                      <Text style={styles.bankDetailLabel}>IBAN:</Text>
-                      <Text style={styles.bankDetailValue}>{selectedItem.bankAccountIban || 'N/A'}</Text>
+                  )}
+
+                  {selectedItem.type === 'transfer' ? (
+                    <>
+                      {/* Counterparty Section */}
+                      <View style={styles.modalSection}>
+                        <Text style={styles.modalSectionTitle}>
+                          {selectedItem.direction === 'received' ? 'Received From' : 'Sent To'}
+                        </Text>
+                        <View style={styles.bankDetailRow}>
+                          <Text style={styles.bankDetailLabel}>Name:</Text>
+                          <Text style={styles.bankDetailValue}>{selectedItem.counterpartyName || 'N/A'}</Text>
+                        </View>
+                        <View style={styles.bankDetailRow}>
+                          <Text style={styles.bankDetailLabel}>Wallet:</Text>
+                          <Text style={styles.bankDetailValue}>{selectedItem.counterpartyAddress || 'N/A'}</Text>
+                        </View>
+                      </View>
+
+                      {selectedItem.note && (
+                        <View style={styles.modalSection}>
+                          <Text style={styles.modalSectionTitle}>Note</Text>
+                          <Text style={styles.modalDetailText}>{selectedItem.note}</Text>
+                        </View>
+                      )}
+                    </>
+                  ) : (
+                    /* Bank Details Section */
+                    <View style={styles.modalSection}>
+                      <Text style={styles.modalSectionTitle}>Bank Details</Text>
+                      <View style={styles.bankDetailRow}>
+                        <Text style={styles.bankDetailLabel}>Bank:</Text>
+                        <Text style={styles.bankDetailValue}>{selectedItem.bankName || 'N/A'}</Text>
+                      </View>
+                      <View style={styles.bankDetailRow}>
+                        <Text style={styles.bankDetailLabel}>Account Title:</Text>
+                        <Text style={styles.bankDetailValue}>{selectedItem.bankAccountTitle || 'N/A'}</Text>
+                      </View>
+                      <View style={styles.bankDetailRow}>
+                        <Text style={styles.bankDetailLabel}>IBAN:</Text>
+                        <Text style={styles.bankDetailValue}>{selectedItem.bankAccountIban || 'N/A'}</Text>
+                      </View>
                     </View>
-                  </View>
+                  )}
                   
                   {selectedItem.type === 'deposit' && selectedItem.screenshotUrl && (
                     <View style={styles.screenshotContainer}>
@@ -606,6 +741,20 @@ export default function HistoryScreen() {
                       )}
                     </View>
                   )}
+
+                  {selectedItem.type === 'withdrawal' && selectedItem.status === 'pending' && (
+                    <TouchableOpacity
+                      style={[styles.cancelRequestButton, cancelling && styles.cancelRequestButtonDisabled]}
+                      onPress={() => handleCancelWithdrawal(selectedItem)}
+                      disabled={cancelling}
+                    >
+                      {cancelling ? (
+                        <ActivityIndicator size="small" color="#ff4757" />
+                      ) : (
+                        <Text style={styles.cancelRequestButtonText}>Cancel Request</Text>
+                      )}
+                    </TouchableOpacity>
+                  )}
                 </ScrollView>
               </>
             )}
@@ -725,6 +874,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#9ca3af',
   },
+  historyItemBalance: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
   historyItemRight: {
     alignItems: 'flex-end',
   },
@@ -855,6 +1009,21 @@ const styles = StyleSheet.create({
   modalBodyContent: {
     padding: 20,
   },
+  cancelRequestButton: {
+    borderWidth: 1,
+    borderColor: '#ff4757',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  cancelRequestButtonDisabled: {
+    opacity: 0.5,
+  },
+  cancelRequestButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#ff4757',
+  },
   modalSection: {
     marginBottom: 24,
     padding: 16,
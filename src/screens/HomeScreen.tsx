@@ -23,6 +23,9 @@ import { useAuth } from '../context/AuthContext';
 // import { balanceMonitor } from '../services/balanceMonitor';
 // import { useRefreshControl } from '../hooks/useRefreshControl';
 import { CustomRefreshControl } from '../components/RefreshControl';
+import { TwoFactorRecoveryService } from '../services/twoFactorRecoveryService';
+import { NewDeviceAlertService } from '../services/newDeviceAlertService';
+import { formatMoney, isZeroMoney, toMoney } from '../services/money';
 
 const { width } = Dimensions.get('window');
 
@@ -30,12 +33,12 @@ type HomeScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Home'>;
 
 const HomeScreen: React.FC = () => {
   try {
-    const { user, wallet, signOut, fetchUserData } = useAuth();
+    const { user, wallet, signOut, fetchUserData, reportNewDevice } = useAuth();
     
     // Use navigation hook with error handling
-    let navigation;
+    let navigation: HomeScreenNavigationProp;
     try {
-      navigation = useNavigation();
+      navigation = useNavigation<HomeScreenNavigationProp>();
     } catch (error) {
       console.error('Navigation hook error:', error);
       // Return a simple fallback UI if navigation fails
@@ -91,6 +94,72 @@ const HomeScreen: React.FC = () => {
     }
   }, []); // Empty dependency array - only run once on mount
 
+  // Warn about a 2FA recovery request so the owner can stop one they didn't make
+  useEffect(() => {
+    if (!user?.two_factor_enabled) return;
+
+    TwoFactorRecoveryService.getStatus().then((recovery) => {
+      if (!recovery || (recovery.status !== 'pending' && recovery.status !== 'approved')) return;
+
+      Alert.alert(
+        'Two-Factor Recovery Requested',
+        `Someone asked to turn off two-factor authentication on your account on ${new Date(recovery.requested_at).toLocaleString()}. ` +
+          'Withdrawals are paused. If this wasn\'t you, cancel the request and change your password.',
+        [
+          { text: 'It Was Me', style: 'cancel' },
+          {
+            text: 'Cancel Request',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await TwoFactorRecoveryService.cancel();
+                Alert.alert('Request Cancelled', 'Two-factor authentication stays on.');
+              } catch (error: any) {
+                Alert.alert('Error', error.message || 'Failed to cancel the request');
+              }
+            },
+          },
+        ]
+      );
+    });
+  }, [user?.uid]);
+
+  // Ask about sign-ins from devices this account hasn't used before
+  useEffect(() => {
+    if (!user?.uid) return;
+
+    NewDeviceAlertService.getOpenAlerts().then((alerts) => {
+      const alert = alerts[0];
+      if (!alert) return;
+
+      Alert.alert(
+        'New Sign-In Detected',
+        `Your account was signed in to from ${alert.device_name || 'an unrecognised device'}` +
+          `${alert.ip_address ? ` (${alert.ip_address})` : ''} on ${new Date(alert.created_at).toLocaleString()}. Was this you?`,
+        [
+          {
+            text: 'It Was Me',
+            style: 'cancel',
+            onPress: () => {
+              NewDeviceAlertService.confirm(alert.id).catch(() => {});
+            },
+          },
+          {
+            text: 'This Wasn\'t Me',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await reportNewDevice(alert.id);
+              } catch (error: any) {
+                Alert.alert('Error', error.message || 'Failed to secure your account');
+              }
+            },
+          },
+        ]
+      );
+    });
+  }, [user?.uid]);
+
   // Removed data loading useEffect - no longer needed
 
   // Removed loadWalletBalances function - using database values instead
@@ -236,6 +305,11 @@ const HomeScreen: React.FC = () => {
     );
   };
 
+  const pkrBalance = toMoney(wallet?.pkr_balance, 'PKR');
+  const pkrLocked = toMoney(wallet?.pkr_locked, 'PKR');
+  const usdtBalance = toMoney(wallet?.usdt_balance, 'USDT');
+  const usdtLocked = toMoney(wallet?.usdt_locked, 'USDT');
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar barStyle="light-content" backgroundColor="#000000" />
@@ -259,9 +333,13 @@ const HomeScreen: React.FC = () => {
       <View style={styles.header}>
         <TouchableOpacity style={styles.avatarContainer} onPress={handleAvatarPress}>
           <View style={styles.avatar}>
-            <Text style={styles.avatarText}>
-              {user?.full_name?.split(' ').map(n => n[0]).join('').toUpperCase() || 'U'}
-            </Text>
+            {user?.avatar_url ? (
+              <Image source={{ uri: user.avatar_url }} style={styles.avatarImage} />
+            ) : (
+              <Text style={styles.avatarText}>
+                {user?.full_name?.split(' ').map(n => n[0]).join('').toUpperCase() || 'U'}
+              </Text>
+            )}
             <View style={[styles.verificationBadge, { backgroundColor: getVerificationIcon().color }]}>
               <Ionicons 
                 name={getVerificationIcon().name as any} 
@@ -328,18 +406,18 @@ const HomeScreen: React.FC = () => {
           </View>
           <View style={styles.balanceRow}>
             <View style={styles.balanceItem}>
-              <Text style={styles.balanceAmount}>₨{wallet?.pkr_balance || '0.00'}</Text>
+              <Text style={styles.balanceAmount}>₨{formatMoney(pkrBalance)}</Text>
               <Text style={styles.balanceLabel}>PKR Balance</Text>
-              {wallet?.pkr_locked && wallet.pkr_locked > 0 && (
-                <Text style={styles.lockedBalanceText}>₨{wallet.pkr_locked} Locked</Text>
+              {!isZeroMoney(pkrLocked) && (
+                <Text style={styles.lockedBalanceText}>₨{formatMoney(pkrLocked)} Locked</Text>
               )}
             </View>
             <View style={styles.balanceDivider} />
             <View style={styles.balanceItem}>
-              <Text style={styles.balanceAmount}>${wallet?.usdt_balance?.toFixed(2) || '0.00'}</Text>
+              <Text style={styles.balanceAmount}>${formatMoney(usdtBalance)}</Text>
               <Text style={styles.balanceLabel}>USDT Balance</Text>
-              {wallet?.usdt_locked && wallet.usdt_locked > 0 && (
-                <Text style={styles.lockedBalanceText}>${wallet.usdt_locked} Locked</Text>
+              {!isZeroMoney(usdtLocked) && (
+                <Text style={styles.lockedBalanceText}>${formatMoney(usdtLocked)} Locked</Text>
               )}
             </View>
           </View>
@@ -445,11 +523,11 @@ const HomeScreen: React.FC = () => {
               onPress={() => {}}
             />
             <QuickActionButton
-              title="Transfer"
-              subtitle="Send USDT to others"
+              title="Send PKR"
+              subtitle="To another wallet address"
               icon="send"
               color="#8b5cf6"
-              onPress={() => {}}
+              onPress={() => navigation.navigate('SendPKR')}
             />
             <QuickActionButton
               title="History"
@@ -540,6 +618,11 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#ffffff',
   },
+  avatarImage: {
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+  },
   verificationBadge: {
     position: 'absolute',
     bottom: -2,
@@ -20,16 +20,27 @@ import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../types';
 import { useAuth } from '../context/AuthContext';
-import { TwoFactorService } from '../services/twoFactorService';
 import { BiometricService } from '../services/biometricService';
+import { ACCOUNT_LOCKED_MESSAGE } from '../services/loginSecurityService';
 import OTPVerification from './OTPVerification';
-import { supabase } from '../config/supabase';
+import TwoFactorRecoveryPrompt from '../components/TwoFactorRecoveryPrompt';
 
 type LoginScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Login'>;
 
 const LoginScreen: React.FC = () => {
   const navigation = useNavigation<LoginScreenNavigationProp>();
-  const { signInWith2FA, loading, pending2FA, complete2FALogin, cancel2FALogin, signInWithBiometric, complete2FAUsingExistingSession, beginEmailOtpFlow, endEmailOtpFlow } = useAuth();
+  const {
+    loading,
+    loginState,
+    submitCredentials,
+    verifyEmailOtp,
+    resendEmailOtp,
+    startUnlock,
+    submitSecondFactor,
+    unlockAccount,
+    cancelLogin,
+    signInWithBiometric,
+  } = useAuth();
   
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -38,13 +49,13 @@ const LoginScreen: React.FC = () => {
   const [biometricAvailable, setBiometricAvailable] = useState(false);
   const [biometricEnabled, setBiometricEnabled] = useState(false);
   const [biometricIconName, setBiometricIconName] = useState('scan-outline');
-  const [showEmailOtpModal, setShowEmailOtpModal] = useState(false);
   const [emailOtpCode, setEmailOtpCode] = useState('');
   const [sendingEmailOtp, setSendingEmailOtp] = useState(false);
   const [verifyingEmailOtp, setVerifyingEmailOtp] = useState(false);
   const [resendSecondsLeft, setResendSecondsLeft] = useState(0);
   const hiddenEmailInputRef = useRef<TextInput>(null);
-  const [showVerifyingOverlay, setShowVerifyingOverlay] = useState(false);
+  const [accountLocked, setAccountLocked] = useState(false);
+  const [showRecovery, setShowRecovery] = useState(false);
 
   const handlePasteEmailOtp = async () => {
     try {
@@ -56,6 +67,13 @@ const LoginScreen: React.FC = () => {
   };
   // Remove local 2FA state - now handled by AuthContext
 
+  // Recovery belongs to the 2FA step; start from the code entry next time
+  useEffect(() => {
+    if (loginState.status !== 'secondFactor') {
+      setShowRecovery(false);
+    }
+  }, [loginState.status]);
+
   // Animation values
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideUpAnim = useRef(new Animated.Value(50)).current;
@@ -207,50 +225,54 @@ const LoginScreen: React.FC = () => {
     }).start();
   };
 
+  const startResendTimer = () => {
+    setResendSecondsLeft(30);
+    const timer = setInterval(() => {
+      setResendSecondsLeft((s) => {
+        if (s <= 1) {
+          clearInterval(timer);
+          return 0;
+        }
+        return s - 1;
+      });
+    }, 1000);
+  };
+
+  // Reset the code entry whenever the email OTP step starts
+  useEffect(() => {
+    if (loginState.status === 'emailOtp') {
+      setEmailOtpCode('');
+      startResendTimer();
+    }
+  }, [loginState.status]);
+
+  // Surface login errors; lockouts are explained by the banner instead
+  useEffect(() => {
+    if (loginState.status !== 'idle' && loginState.status !== 'emailOtp') return;
+    const error = loginState.error;
+    if (!error) return;
+
+    // Only reported after the correct password, so the banner can offer unlocking
+    const locked = loginState.status === 'idle' && error === ACCOUNT_LOCKED_MESSAGE;
+    setAccountLocked(locked);
+    if (locked) return;
+
+    Alert.alert(loginState.status === 'emailOtp' ? 'Invalid Code' : 'Error', error);
+  }, [loginState]);
+
   const handleLogin = async () => {
     if (!email || !password) {
       alert('Please fill in all fields');
       return;
     }
 
-    try {
-      // Step 1: Verify password credentials without triggering 2FA yet
-      beginEmailOtpFlow && beginEmailOtpFlow();
-      setShowVerifyingOverlay(true);
-      const { data, error } = await supabase.auth.signInWithPassword({ email, password });
-      if (error) throw error;
-
-      // Immediately sign out to avoid establishing a session before OTP
-      await supabase.auth.signOut();
-      endEmailOtpFlow && endEmailOtpFlow();
-
-      // Step 2: Send Email OTP via Supabase (mandatory for all users)
-      setSendingEmailOtp(true);
-      const { error: otpError } = await supabase.auth.signInWithOtp({
-        email,
-        options: { shouldCreateUser: false },
-      });
-      setSendingEmailOtp(false);
-      if (otpError) throw otpError;
+    await submitCredentials(email, password);
+  };
 
-      // Show Email OTP modal
-      setShowEmailOtpModal(true);
-      setEmailOtpCode('');
-      setResendSecondsLeft(30);
-      const timer = setInterval(() => {
-        setResendSecondsLeft((s) => {
-          if (s <= 1) {
-            clearInterval(timer);
-            return 0;
-          }
-          return s - 1;
-        });
-      }, 1000);
-      setShowVerifyingOverlay(false);
-    } catch (error: any) {
-      setShowVerifyingOverlay(false);
-      alert(error.message);
-    }
+  const handleUnlockAccount = async () => {
+    setSendingEmailOtp(true);
+    await startUnlock(email);
+    setSendingEmailOtp(false);
   };
 
   const handleBiometricLogin = async () => {
@@ -281,65 +303,33 @@ const LoginScreen: React.FC = () => {
       Alert.alert('Error', 'Please enter the 6-digit code sent to your email');
       return;
     }
-    try {
-      setVerifyingEmailOtp(true);
-      const { data, error } = await supabase.auth.verifyOtp({
-        email,
-        token: emailOtpCode,
-        type: 'email',
-      });
-      setVerifyingEmailOtp(false);
-      if (error) throw error;
-      setShowEmailOtpModal(false);
-      setEmailOtpCode('');
-      // After email OTP success, auth state listener will show TOTP modal if enabled
-    } catch (err: any) {
-      setVerifyingEmailOtp(false);
-      Alert.alert('Invalid Code', err.message || 'Failed to verify email code');
-    }
+    setVerifyingEmailOtp(true);
+    await verifyEmailOtp(emailOtpCode);
+    setVerifyingEmailOtp(false);
+    setEmailOtpCode('');
   };
 
   const handleResendEmailOtp = async () => {
     try {
       if (resendSecondsLeft > 0) return;
       setSendingEmailOtp(true);
-      const { error } = await supabase.auth.signInWithOtp({
-        email,
-        options: { shouldCreateUser: false },
-      });
+      await resendEmailOtp();
       setSendingEmailOtp(false);
-      if (error) throw error;
       Alert.alert('Code Sent', 'We have resent the verification code to your email');
-      setResendSecondsLeft(30);
-      const timer = setInterval(() => {
-        setResendSecondsLeft((s) => {
-          if (s <= 1) {
-            clearInterval(timer);
-            return 0;
-          }
-          return s - 1;
-        });
-      }, 1000);
+      startResendTimer();
     } catch (err: any) {
       setSendingEmailOtp(false);
       Alert.alert('Error', err.message || 'Failed to resend code');
     }
   };
 
-  const handle2FASuccess = async () => {
-    try {
-      if (complete2FAUsingExistingSession) {
-        await complete2FAUsingExistingSession();
-      } else {
-        await complete2FALogin();
-      }
-    } catch (error: any) {
-      alert(error.message);
-    }
+  const handle2FASuccess = () => {
+    setAccountLocked(false);
   };
 
-  const handle2FACancel = () => {
-    cancel2FALogin();
+  const handleUnlockSuccess = () => {
+    setAccountLocked(false);
+    Alert.alert('Account Unlocked', 'Your account has been unlocked.');
   };
 
   const handleSignUp = () => {
@@ -477,6 +467,23 @@ const LoginScreen: React.FC = () => {
         <Text style={styles.title}>Welcome Back</Text>
         <Text style={styles.subtitle}>Sign in to your account</Text>
 
+        {accountLocked && (
+          <View style={styles.lockBanner}>
+            <Ionicons name="lock-closed" size={20} color="#ff4757" />
+            <View style={styles.lockBannerContent}>
+              <Text style={styles.lockBannerTitle}>Account locked</Text>
+              <Text style={styles.lockBannerText}>
+                This account has been locked. Verify your email to unlock it.
+              </Text>
+              <TouchableOpacity onPress={handleUnlockAccount} disabled={sendingEmailOtp}>
+                <Text style={styles.lockBannerAction}>
+                  {sendingEmailOtp ? 'Sending code…' : 'Unlock account'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
           <View style={styles.form}>
           <Animated.View 
             style={[
@@ -506,7 +513,10 @@ const LoginScreen: React.FC = () => {
               placeholder="Email address"
               placeholderTextColor="#94a3b8"
                 value={email}
-                onChangeText={setEmail}
+                onChangeText={(text) => {
+                  setEmail(text);
+                  setAccountLocked(false);
+                }}
               onFocus={() => {
                 setEmailFocused(true);
                 animateFieldFocus(emailAnim, emailScaleAnim);
@@ -564,6 +574,14 @@ const LoginScreen: React.FC = () => {
               />
           </Animated.View>
 
+          <TouchableOpacity
+            style={styles.forgotPasswordLink}
+            onPress={() => navigation.navigate('ForgotPassword')}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.forgotPasswordText}>Forgot password?</Text>
+          </TouchableOpacity>
+
             <TouchableOpacity 
               style={[styles.loginButton, loading && styles.loginButtonDisabled]}
               onPress={handleLogin}
@@ -642,24 +660,51 @@ const LoginScreen: React.FC = () => {
 
       {/* 2FA Verification Modal */}
       <OTPVerification
-        visible={pending2FA?.show || false}
-        onClose={handle2FACancel}
+        visible={loginState.status === 'secondFactor' && !showRecovery}
+        onClose={cancelLogin}
         onSuccess={handle2FASuccess}
         action="login"
         title="Complete Login"
         description="Please verify your identity with 2FA to continue"
-        userId={pending2FA?.userId}
+        verifyCode={submitSecondFactor}
+        onLostAuthenticator={() => setShowRecovery(true)}
+        allowSms
+      />
+
+      {/* Lost-authenticator recovery, from the 2FA step */}
+      {loginState.status === 'secondFactor' && (
+        <TwoFactorRecoveryPrompt
+          visible={showRecovery}
+          email={loginState.email}
+          userId={loginState.userId}
+          onClose={() => setShowRecovery(false)}
+        />
+      )}
+
+      {/* Unlock Modal (locked account, after email OTP) */}
+      <OTPVerification
+        visible={loginState.status === 'locked'}
+        onClose={cancelLogin}
+        onSuccess={handleUnlockSuccess}
+        action="unlock_account"
+        title="Unlock Account"
+        description="Enter your 2FA code to unlock your account"
+        verifyCode={unlockAccount}
       />
 
       {/* Email OTP Modal (mandatory step after password) */}
-      <Modal visible={showEmailOtpModal} transparent animationType="fade" onRequestClose={() => setShowEmailOtpModal(false)}>
+      <Modal visible={loginState.status === 'emailOtp'} transparent animationType="fade" onRequestClose={cancelLogin}>
         <KeyboardAvoidingView
           style={styles.emailModalOverlay}
           behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
           keyboardVerticalOffset={Platform.OS === 'ios' ? 60 : 0}
         >
           <View style={styles.emailModalContainer}>
-            <Text style={styles.emailModalTitle}>Verify your email</Text>
+            <Text style={styles.emailModalTitle}>
+              {loginState.status === 'emailOtp' && loginState.purpose === 'unlock'
+                ? 'Unlock your account'
+                : 'Verify your email'}
+            </Text>
             <Text style={styles.emailModalDesc}>Enter the 6-digit code sent to {email}</Text>
 
             {/* Hidden input captures digits */}
@@ -713,7 +758,7 @@ const LoginScreen: React.FC = () => {
                   : 'Resend code'}
               </Text>
             </TouchableOpacity>
-            <TouchableOpacity style={styles.emailCancelBtn} onPress={() => setShowEmailOtpModal(false)} disabled={verifyingEmailOtp}>
+            <TouchableOpacity style={styles.emailCancelBtn} onPress={cancelLogin} disabled={verifyingEmailOtp}>
               <Text style={styles.emailCancelText}>Cancel</Text>
             </TouchableOpacity>
           </View>
@@ -721,7 +766,7 @@ const LoginScreen: React.FC = () => {
       </Modal>
 
       {/* Verifying overlay to smooth the transition */}
-      <Modal visible={showVerifyingOverlay} transparent animationType="fade" onRequestClose={() => {}}>
+      <Modal visible={loginState.status === 'verifyingCredentials'} transparent animationType="fade" onRequestClose={() => {}}>
         <View style={styles.verifyingOverlay}>
           <View style={styles.verifyingCard}>
             <ActivityIndicator size="large" color="#09d2fe" />
@@ -823,6 +868,37 @@ const styles = StyleSheet.create({
     color: '#94a3b8',
     marginBottom: 40,
   },
+  lockBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: 'rgba(255, 71, 87, 0.1)',
+    borderWidth: 1,
+    borderColor: '#ff4757',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 20,
+  },
+  lockBannerContent: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  lockBannerTitle: {
+    color: '#ff4757',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  lockBannerText: {
+    color: '#cbd5e1',
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  lockBannerAction: {
+    color: '#09d2fe',
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 10,
+  },
   form: {
     width: '100%',
     zIndex: 2,
@@ -897,6 +973,16 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  forgotPasswordLink: {
+    alignSelf: 'flex-end',
+    marginTop: -8,
+    marginBottom: 20,
+  },
+  forgotPasswordText: {
+    fontSize: 14,
+    color: '#09d2fe',
+    fontWeight: '500',
+  },
   signUpLink: {
     alignItems: 'center',
     zIndex: 3,
@@ -18,8 +18,8 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import * as Clipboard from 'expo-clipboard';
 import { useAuth } from '../context/AuthContext';
-import { TwoFactorService } from '../services/twoFactorService';
-import { supabase } from '../config/supabase';
+import { PhoneVerificationService } from '../services/phoneVerificationService';
+import { maskPakistaniPhone } from '../services/phoneNumber';
 
 interface OTPVerificationProps {
   visible: boolean;
@@ -29,6 +29,9 @@ interface OTPVerificationProps {
   title?: string;
   description?: string;
   userId?: string; // Add userId prop for cases where user context isn't available yet
+  verifyCode?: (code: string, viaSms: boolean) => Promise<boolean>; // Override the default verify_otp check
+  onLostAuthenticator?: () => void; // Offer the lost-authenticator recovery flow
+  allowSms?: boolean; // Offer a code by SMS when the account has a verified phone (sign-in only, with verifyCode)
 }
 
 const OTPVerification: React.FC<OTPVerificationProps> = ({
@@ -39,12 +42,18 @@ const OTPVerification: React.FC<OTPVerificationProps> = ({
   title,
   description,
   userId,
+  verifyCode,
+  onLostAuthenticator,
+  allowSms = false,
 }) => {
-  const { user } = useAuth();
+  const { user, verify2FACode } = useAuth();
   const [otpCode, setOtpCode] = useState('');
   const [isVerifying, setIsVerifying] = useState(false);
   const [showBackupCode, setShowBackupCode] = useState(false);
   const [backupCode, setBackupCode] = useState('');
+  const [smsPhone, setSmsPhone] = useState<string | null>(null);
+  const [useSms, setUseSms] = useState(false);
+  const [isSendingSms, setIsSendingSms] = useState(false);
   const hiddenTotpInputRef = useRef<TextInput>(null);
   const handlePasteTotp = async () => {
     try {
@@ -66,8 +75,13 @@ const OTPVerification: React.FC<OTPVerificationProps> = ({
       setOtpCode('');
       setBackupCode('');
       setShowBackupCode(false);
+      setUseSms(false);
       setIsVerifying(false);
 
+      if (allowSms) {
+        PhoneVerificationService.getVerifiedPhone().then(setSmsPhone);
+      }
+
       // Animate in
       Animated.parallel([
         Animated.timing(fadeAnim, {
@@ -124,6 +138,21 @@ const OTPVerification: React.FC<OTPVerificationProps> = ({
     ]).start();
   };
 
+  // SMS codes are only offered with verifyCode, which is told the code came by SMS
+  const handleSendSms = async () => {
+    setIsSendingSms(true);
+    try {
+      await PhoneVerificationService.sendSecondFactorCode();
+      setUseSms(true);
+      setShowBackupCode(false);
+      setOtpCode('');
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to send the code. Please try again.');
+    } finally {
+      setIsSendingSms(false);
+    }
+  };
+
   const handleVerifyOTP = async () => {
     const code = showBackupCode ? backupCode : otpCode;
     
@@ -146,73 +175,18 @@ const OTPVerification: React.FC<OTPVerificationProps> = ({
 
     setIsVerifying(true);
     try {
-      let isValid = false;
-
       // Use passed userId or fallback to user context
       const currentUserId = userId || user?.uid;
       
-      console.log('OTP Verification Debug:', {
-        code,
-        codeLength: code.length,
-        showBackupCode,
-        userId: currentUserId,
-        userContextId: user?.uid,
-        passedUserId: userId
-      });
-
-      if (!currentUserId) {
+      if (!currentUserId && !verifyCode) {
         throw new Error('No user ID available for verification');
       }
 
-      if (!showBackupCode) {
-        // For TOTP codes, use local verification like in TwoFactorSetup
-        console.log('Attempting TOTP verification...');
-        
-        const { data: profile, error: profileError } = await supabase
-          .from('user_profile')
-          .select('two_factor_secret, two_factor_enabled')
-          .eq('uid', currentUserId)
-          .single();
-
-        console.log('Profile fetch result:', { profile, profileError });
+      // Authenticator and backup codes are both verified server-side
+      const isValid = verifyCode
+        ? await verifyCode(code, useSms && !showBackupCode)
+        : await verify2FACode(code, currentUserId);
 
-        if (profileError || !profile?.two_factor_secret) {
-          console.error('Failed to get 2FA secret:', profileError);
-          throw new Error('Unable to get 2FA secret');
-        }
-
-        // Use exact same logic as TwoFactorSetup
-        const secret = profile.two_factor_secret;
-        console.log('Using secret:', secret);
-        
-        // Debug: Log the TOTP generation details (same as TwoFactorSetup)
-        const debug = TwoFactorService.debugTOTP(secret);
-        console.log('TOTP Debug (OTPVerification):', {
-          secret,
-          currentTime: debug.currentTime,
-          counter: debug.counter,
-          result: debug.result,
-          inputCode: code
-        });
-        
-        // Generate current TOTP for comparison
-        const generatedTOTP = TwoFactorService.generateTOTP(secret);
-        console.log('TOTP Comparison:', {
-          generated: generatedTOTP,
-          userInput: code,
-          match: generatedTOTP === code
-        });
-        
-        // Use exact same verification as TwoFactorSetup
-        isValid = TwoFactorService.verifyTOTP(secret, code);
-        console.log('TOTP verification result:', isValid);
-      } else {
-        // For backup codes, use database verification
-        console.log('Attempting backup code verification...');
-        isValid = await TwoFactorService.verifyOTP(currentUserId, code);
-        console.log('Backup code verification result:', isValid);
-      }
-      
       if (isValid) {
         onSuccess();
         // Don't call onClose() here - let onSuccess handle navigation
@@ -224,7 +198,7 @@ const OTPVerification: React.FC<OTPVerificationProps> = ({
       }
     } catch (error) {
       console.error('Error verifying OTP:', error);
-      Alert.alert('Error', 'Failed to verify code. Please try again.');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to verify code. Please try again.');
       shakeAnimation();
     } finally {
       setIsVerifying(false);
@@ -325,7 +299,7 @@ const OTPVerification: React.FC<OTPVerificationProps> = ({
             <View style={styles.inputSection}>
               {!showBackupCode ? (
                 <>
-                  <Text style={styles.inputLabel}>Authenticator Code</Text>
+                  <Text style={styles.inputLabel}>{useSms ? 'SMS Code' : 'Authenticator Code'}</Text>
                   {/* Hidden input */}
                   <TextInput
                     ref={hiddenTotpInputRef}
@@ -361,7 +335,9 @@ const OTPVerification: React.FC<OTPVerificationProps> = ({
                     </TouchableOpacity>
                   </View>
                   <Text style={styles.inputHint}>
-                    Enter the 6-digit code from your authenticator app
+                    {useSms && smsPhone
+                      ? `Enter the 6-digit code sent to ${maskPakistaniPhone(smsPhone)}`
+                      : 'Enter the 6-digit code from your authenticator app'}
                   </Text>
                 </>
               ) : (
@@ -388,19 +364,46 @@ const OTPVerification: React.FC<OTPVerificationProps> = ({
               <TouchableOpacity
                 style={styles.switchButton}
                 onPress={() => {
-                  setShowBackupCode(!showBackupCode);
+                  setShowBackupCode(!showBackupCode && !useSms);
+                  setUseSms(false);
                   setOtpCode('');
                   setBackupCode('');
                 }}
                 disabled={isVerifying}
               >
                 <Text style={styles.switchButtonText}>
-                  {showBackupCode 
+                  {showBackupCode || useSms
                     ? 'Use authenticator app instead' 
                     : 'Use backup code instead'
                   }
                 </Text>
               </TouchableOpacity>
+
+              {smsPhone && (
+                <TouchableOpacity
+                  style={styles.switchButton}
+                  onPress={handleSendSms}
+                  disabled={isVerifying || isSendingSms}
+                >
+                  <Text style={styles.switchButtonText}>
+                    {isSendingSms
+                      ? 'Sending code...'
+                      : useSms
+                        ? 'Resend SMS code'
+                        : `Text a code to ${maskPakistaniPhone(smsPhone)}`}
+                  </Text>
+                </TouchableOpacity>
+              )}
+
+              {onLostAuthenticator && (
+                <TouchableOpacity
+                  style={styles.switchButton}
+                  onPress={onLostAuthenticator}
+                  disabled={isVerifying}
+                >
+                  <Text style={styles.lostAuthenticatorText}>Lost your authenticator and backup codes?</Text>
+                </TouchableOpacity>
+              )}
             </View>
 
             {/* Action Buttons */}
@@ -640,6 +643,11 @@ const styles = StyleSheet.create({
     color: '#09d2fe',
     fontWeight: '500',
   },
+  lostAuthenticatorText: {
+    fontSize: 14,
+    color: '#9ca3af',
+    fontWeight: '500',
+  },
   buttonSection: { gap: 12 },
   buttonSectionCompact: { gap: 8 },
   verifyButton: {
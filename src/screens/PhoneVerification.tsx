@@ -0,0 +1,327 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ScrollView,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useStepUp } from '../context/StepUpContext';
+import { PhoneVerificationService } from '../services/phoneVerificationService';
+import {
+  formatPakistaniPhone,
+  maskPakistaniPhone,
+  normalizePakistaniPhone,
+} from '../services/phoneNumber';
+
+type NavigationProp = StackNavigationProp<RootStackParamList, 'PhoneVerification'>;
+
+export default function PhoneVerification() {
+  const navigation = useNavigation<NavigationProp>();
+  const { user, fetchUserData } = useAuth();
+  const { requireStepUp } = useStepUp();
+
+  const [step, setStep] = useState<'number' | 'code'>('number');
+  const [phoneInput, setPhoneInput] = useState(formatPakistaniPhone(user?.phone_number ?? ''));
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const sendCode = async (number: string) => {
+    setLoading(true);
+    try {
+      await PhoneVerificationService.sendVerificationCode(number);
+      setPhoneNumber(number);
+      setCode('');
+      setStep('code');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to send the code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSendCode = () => {
+    const number = normalizePakistaniPhone(phoneInput);
+    if (!number) {
+      Alert.alert('Error', 'Please enter a valid Pakistani mobile number (+92 3XX XXXXXXX)');
+      return;
+    }
+    sendCode(number);
+  };
+
+  const handleVerify = async () => {
+    if (code.length !== 6) {
+      Alert.alert('Error', 'Please enter the 6-digit code');
+      return;
+    }
+
+    // Replacing a verified number needs the same checks as other security changes
+    let stepUpToken: string | undefined;
+    if (user?.phone_verified_at) {
+      const token = await requireStepUp('change_phone');
+      if (!token) return;
+      stepUpToken = token;
+    }
+
+    setLoading(true);
+    try {
+      const verified = await PhoneVerificationService.verifyCode(code, stepUpToken);
+      if (!verified) {
+        Alert.alert('Invalid Code', 'The code is incorrect or has expired. Please try again.');
+        setCode('');
+        return;
+      }
+
+      if (user) {
+        await fetchUserData(user.uid, false);
+      }
+
+      Alert.alert(
+        'Phone Verified',
+        'Your phone number is verified. You can now receive sign-in codes by SMS.',
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to verify the code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#09d2fe" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Phone Number</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.iconContainer}>
+          <Ionicons name="phone-portrait" size={48} color="#09d2fe" />
+        </View>
+
+        {user?.phone_verified_at && step === 'number' && (
+          <View style={styles.verifiedCard}>
+            <Ionicons name="checkmark-circle" size={20} color="#10b981" />
+            <Text style={styles.verifiedText}>
+              {formatPakistaniPhone(user.phone_number ?? '')} is verified
+            </Text>
+          </View>
+        )}
+
+        {step === 'number' ? (
+          <>
+            <Text style={styles.title}>
+              {user?.phone_verified_at ? 'Change Your Number' : 'Verify Your Number'}
+            </Text>
+            <Text style={styles.subtitle}>
+              We'll text a 6-digit code to confirm the number is yours.
+            </Text>
+
+            <Text style={styles.inputLabel}>Mobile Number</Text>
+            <TextInput
+              style={styles.input}
+              value={phoneInput}
+              onChangeText={(text) => setPhoneInput(formatPakistaniPhone(text))}
+              placeholder="+92 3XX XXXXXXX"
+              placeholderTextColor="#6b7280"
+              keyboardType="phone-pad"
+              textContentType="telephoneNumber"
+              editable={!loading}
+            />
+
+            <TouchableOpacity
+              style={[styles.primaryButton, loading && styles.primaryButtonDisabled]}
+              onPress={handleSendCode}
+              disabled={loading}
+            >
+              {loading ? (
+                <ActivityIndicator size="small" color="#000" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Send Code</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.title}>Enter the Code</Text>
+            <Text style={styles.subtitle}>
+              We sent a code to {maskPakistaniPhone(phoneNumber)}. It expires in 5 minutes.
+            </Text>
+
+            <Text style={styles.inputLabel}>Verification Code</Text>
+            <TextInput
+              style={[styles.input, styles.codeInput]}
+              value={code}
+              onChangeText={(text) => setCode(text.replace(/[^0-9]/g, '').slice(0, 6))}
+              placeholder="000000"
+              placeholderTextColor="#6b7280"
+              keyboardType="number-pad"
+              textContentType="oneTimeCode"
+              maxLength={6}
+              autoFocus
+              editable={!loading}
+            />
+
+            <TouchableOpacity
+              style={[styles.primaryButton, loading && styles.primaryButtonDisabled]}
+              onPress={handleVerify}
+              disabled={loading}
+            >
+              {loading ? (
+                <ActivityIndicator size="small" color="#000" />
+              ) : (
+                <Text style={styles.primaryButtonText}>Verify</Text>
+              )}
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={() => sendCode(phoneNumber)}
+              disabled={loading}
+            >
+              <Text style={styles.linkText}>Resend code</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={() => setStep('number')}
+              disabled={loading}
+            >
+              <Text style={styles.linkText}>Use a different number</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    padding: 20,
+  },
+  iconContainer: {
+    alignItems: 'center',
+    marginTop: 20,
+    marginBottom: 24,
+  },
+  verifiedCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#111',
+    borderWidth: 1,
+    borderColor: '#222',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  verifiedText: {
+    fontSize: 14,
+    color: '#10b981',
+    marginLeft: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#9ca3af',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginBottom: 32,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#fff',
+    marginBottom: 20,
+  },
+  codeInput: {
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#09d2fe',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#09d2fe',
+  },
+});
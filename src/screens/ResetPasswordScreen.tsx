@@ -0,0 +1,329 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../context/AuthContext';
+import OTPVerification from './OTPVerification';
+import { getPasswordPolicyError, PASSWORD_MIN_LENGTH } from '../services/passwordPolicy';
+import PasswordStrengthMeter from '../components/PasswordStrengthMeter';
+
+// Shown while the login state is passwordRecovery (opened from the reset email link)
+const ResetPasswordScreen: React.FC = () => {
+  const { loginState, completePasswordReset, cancelLogin } = useAuth();
+
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showNewPassword, setShowNewPassword] = useState(false);
+  const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [show2FAModal, setShow2FAModal] = useState(false);
+
+  const requiresSecondFactor =
+    loginState.status === 'passwordRecovery' && loginState.requiresSecondFactor;
+  // The server also checks the name on the profile
+  const recoveryEmail = loginState.status === 'passwordRecovery' ? loginState.email : undefined;
+
+  const validateInputs = () => {
+    if (!newPassword.trim()) {
+      Alert.alert('Error', 'Please enter a new password');
+      return false;
+    }
+
+    const passwordError = getPasswordPolicyError(newPassword, { email: recoveryEmail });
+    if (passwordError) {
+      Alert.alert('Error', passwordError);
+      return false;
+    }
+
+    if (newPassword !== confirmPassword) {
+      Alert.alert('Error', 'New password and confirmation do not match');
+      return false;
+    }
+
+    return true;
+  };
+
+  const showSuccess = () => {
+    Alert.alert(
+      'Password Reset',
+      'Your password has been reset and all devices have been signed out. Please sign in with your new password.'
+    );
+  };
+
+  const handleResetPassword = async () => {
+    if (!validateInputs()) return;
+
+    if (requiresSecondFactor) {
+      setShow2FAModal(true);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const reset = await completePasswordReset(newPassword);
+      if (reset) {
+        showSuccess();
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to reset password. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    Alert.alert('Cancel Reset', 'Your password will not be changed.', [
+      { text: 'Keep Going', style: 'cancel' },
+      { text: 'Cancel Reset', style: 'destructive', onPress: () => cancelLogin() },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor="#000000" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={handleCancel}>
+          <Ionicons name="close" size={24} color="#ffffff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Reset Password</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <View style={styles.content}>
+        <View style={styles.iconContainer}>
+          <Ionicons name="lock-open" size={48} color="#09d2fe" />
+        </View>
+
+        <Text style={styles.title}>Set a New Password</Text>
+        <Text style={styles.subtitle}>
+          {loginState.status === 'passwordRecovery' && loginState.email
+            ? `Choose a new password for ${loginState.email}`
+            : 'Choose a new password for your account'}
+        </Text>
+
+        {/* New Password */}
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>New Password</Text>
+          <View style={styles.passwordContainer}>
+            <TextInput
+              style={styles.passwordInput}
+              value={newPassword}
+              onChangeText={setNewPassword}
+              placeholder={`Enter new password (min ${PASSWORD_MIN_LENGTH} characters)`}
+              placeholderTextColor="#6b7280"
+              secureTextEntry={!showNewPassword}
+              autoCapitalize="none"
+              editable={!isLoading}
+            />
+            <TouchableOpacity
+              style={styles.eyeButton}
+              onPress={() => setShowNewPassword(!showNewPassword)}
+            >
+              <Ionicons
+                name={showNewPassword ? "eye-off" : "eye"}
+                size={24}
+                color="#6b7280"
+              />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <PasswordStrengthMeter password={newPassword} context={{ email: recoveryEmail }} />
+
+        {/* Confirm Password */}
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>Confirm New Password</Text>
+          <View style={styles.passwordContainer}>
+            <TextInput
+              style={styles.passwordInput}
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              placeholder="Confirm new password"
+              placeholderTextColor="#6b7280"
+              secureTextEntry={!showConfirmPassword}
+              autoCapitalize="none"
+              editable={!isLoading}
+            />
+            <TouchableOpacity
+              style={styles.eyeButton}
+              onPress={() => setShowConfirmPassword(!showConfirmPassword)}
+            >
+              <Ionicons
+                name={showConfirmPassword ? "eye-off" : "eye"}
+                size={24}
+                color="#6b7280"
+              />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.noticeContainer}>
+          <Ionicons name="information-circle" size={20} color="#09d2fe" />
+          <Text style={styles.noticeText}>
+            Resetting your password signs out all your devices and turns off biometric login.
+          </Text>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.resetButton, isLoading && styles.resetButtonDisabled]}
+          onPress={handleResetPassword}
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <ActivityIndicator size="small" color="#ffffff" />
+          ) : (
+            <>
+              <Ionicons name="shield-checkmark" size={20} color="#ffffff" />
+              <Text style={styles.resetButtonText}>Reset Password</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {/* 2FA is required to reset the password when enabled */}
+      <OTPVerification
+        visible={show2FAModal}
+        onClose={() => setShow2FAModal(false)}
+        onSuccess={() => {
+          setShow2FAModal(false);
+          showSuccess();
+        }}
+        action="reset_password"
+        title="Verify to Reset Password"
+        description="Enter your 2FA code to set your new password"
+        verifyCode={(code) => completePasswordReset(newPassword, code)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1a1a1a',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#1a1a1a',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 40,
+  },
+  iconContainer: {
+    alignItems: 'center',
+    marginBottom: 30,
+  },
+  title: {
+    color: '#ffffff',
+    fontSize: 28,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    color: '#9ca3af',
+    fontSize: 16,
+    textAlign: 'center',
+    marginBottom: 40,
+    lineHeight: 24,
+  },
+  inputContainer: {
+    marginBottom: 24,
+  },
+  inputLabel: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  passwordContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  passwordInput: {
+    flex: 1,
+    color: '#ffffff',
+    fontSize: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  eyeButton: {
+    padding: 16,
+  },
+  noticeContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 30,
+    borderLeftWidth: 4,
+    borderLeftColor: '#09d2fe',
+  },
+  noticeText: {
+    flex: 1,
+    color: '#9ca3af',
+    fontSize: 14,
+    marginLeft: 8,
+    lineHeight: 20,
+  },
+  resetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#09d2fe',
+    paddingVertical: 16,
+    borderRadius: 12,
+    marginTop: 'auto',
+    marginBottom: 40,
+  },
+  resetButtonDisabled: {
+    backgroundColor: '#6b7280',
+  },
+  resetButtonText: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
+
+export default ResetPasswordScreen;
@@ -0,0 +1,342 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { SecurityEvent, RootStackParamList } from '../types';
+import { useRefreshControl } from '../hooks/useRefreshControl';
+import {
+  SecurityEventService,
+  SecurityEventCategory,
+  SECURITY_EVENT_CATEGORIES,
+  getSecurityEventDisplay,
+} from '../services/securityEventService';
+
+type NavigationProp = StackNavigationProp<RootStackParamList, 'SecurityActivity'>;
+
+const PAGE_SIZE = 20;
+
+export default function SecurityActivity() {
+  const navigation = useNavigation<NavigationProp>();
+  const [category, setCategory] = useState<SecurityEventCategory>('all');
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+
+  const fetchEvents = async () => {
+    try {
+      const data = await SecurityEventService.getEvents(category, 0, PAGE_SIZE);
+      setEvents(data);
+      setHasMore(data.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching security activity:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const data = await SecurityEventService.getEvents(category, events.length, PAGE_SIZE);
+      setEvents(prev => [...prev, ...data]);
+      setHasMore(data.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching security activity:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const { isRefreshing, handleRefresh } = useRefreshControl({ onRefresh: fetchEvents });
+
+  useEffect(() => {
+    setLoading(true);
+    fetchEvents();
+  }, [category]);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const getEventDetail = (event: SecurityEvent): string | null => {
+    const details = event.details || {};
+    if (details.bank_name) {
+      return details.iban_last4 ? `${details.bank_name} •••• ${details.iban_last4}` : details.bank_name;
+    }
+    if (details.old_email) return `${details.old_email} → ${details.new_email}`;
+    if (details.new_email) return `To ${details.new_email}`;
+    if (details.phone_last4) return `Number ending ${details.phone_last4}`;
+    if (details.stage) return `Wrong ${details.stage}`;
+    if (details.reason) return details.reason;
+    if (details.device_name) return details.device_name;
+    return null;
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#09d2fe" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Security Activity</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filterRow}
+        >
+          {SECURITY_EVENT_CATEGORIES.map((c) => (
+            <TouchableOpacity
+              key={c.key}
+              style={[styles.filterChip, category === c.key && styles.filterChipActive]}
+              onPress={() => setCategory(c.key)}
+            >
+              <Text style={[styles.filterText, category === c.key && styles.filterTextActive]}>
+                {c.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor="#09d2fe"
+          />
+        }
+      >
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <Text style={styles.loadingText}>Loading activity...</Text>
+          </View>
+        ) : events.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="shield-checkmark-outline" size={64} color="#666" />
+            <Text style={styles.emptyTitle}>No Activity Yet</Text>
+            <Text style={styles.emptySubtitle}>
+              Sign-ins and changes to your security settings will appear here
+            </Text>
+          </View>
+        ) : (
+          <View style={styles.eventsList}>
+            {events.map((event) => {
+              const display = getSecurityEventDisplay(event.event_type);
+              const detail = getEventDetail(event);
+
+              return (
+                <View key={event.id} style={styles.eventCard}>
+                  <View style={styles.eventIconContainer}>
+                    <Ionicons name={display.icon as any} size={20} color={display.color} />
+                  </View>
+                  <View style={styles.eventDetails}>
+                    <Text style={styles.eventLabel}>{display.label}</Text>
+                    {detail && <Text style={styles.eventDetail}>{detail}</Text>}
+                    <Text style={styles.eventMeta}>
+                      {[event.device_name, event.ip_address].filter(Boolean).join(' • ') || 'Unknown device'}
+                    </Text>
+                    <Text style={styles.eventDate}>{formatDate(event.created_at)}</Text>
+                  </View>
+                </View>
+              );
+            })}
+
+            {hasMore && (
+              <TouchableOpacity
+                style={styles.loadMoreButton}
+                onPress={loadMore}
+                disabled={loadingMore}
+              >
+                {loadingMore ? (
+                  <ActivityIndicator size="small" color="#09d2fe" />
+                ) : (
+                  <Text style={styles.loadMoreText}>Load more</Text>
+                )}
+              </TouchableOpacity>
+            )}
+
+            <Text style={styles.footerText}>
+              Don't recognise something here? Change your password and sign out other devices.
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  placeholder: {
+    width: 40,
+  },
+  filterRow: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333',
+    marginRight: 8,
+  },
+  filterChipActive: {
+    backgroundColor: 'rgba(9, 210, 254, 0.1)',
+    borderColor: '#09d2fe',
+  },
+  filterText: {
+    fontSize: 14,
+    color: '#999',
+  },
+  filterTextActive: {
+    color: '#09d2fe',
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingTop: 100,
+  },
+  loadingText: {
+    color: '#666',
+    fontSize: 16,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+    paddingTop: 100,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#fff',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  eventsList: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  eventCard: {
+    flexDirection: 'row',
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#222',
+  },
+  eventIconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#1a1a1a',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  eventDetails: {
+    flex: 1,
+  },
+  eventLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 4,
+  },
+  eventDetail: {
+    fontSize: 14,
+    color: '#9ca3af',
+    marginBottom: 4,
+  },
+  eventMeta: {
+    fontSize: 13,
+    color: '#999',
+    marginBottom: 2,
+  },
+  eventDate: {
+    fontSize: 13,
+    color: '#666',
+  },
+  loadMoreButton: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  loadMoreText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#09d2fe',
+  },
+  footerText: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+    lineHeight: 18,
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,537 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Alert,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { CameraView, BarcodeScanningResult, useCameraPermissions } from 'expo-camera';
+import * as Crypto from 'expo-crypto';
+import { Money, RootStackParamList } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useStepUp } from '../context/StepUpContext';
+import {
+  NOTE_MAX_LENGTH,
+  TransferService,
+  isValidPkrAddress,
+  normalizePkrAddress,
+} from '../services/transferService';
+import { compareMoney, formatMoney, isZeroMoney, parseMoney, toMoney } from '../services/money';
+
+type NavigationProp = StackNavigationProp<RootStackParamList, 'SendPKR'>;
+
+// QR codes may hold the bare address or a longer string containing it
+const SCANNED_ADDRESS_PATTERN = /PKR-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}/i;
+
+export default function SendPKR() {
+  const navigation = useNavigation<NavigationProp>();
+  const { wallet } = useAuth();
+  const { requireStepUp } = useStepUp();
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+
+  const [address, setAddress] = useState('');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [recipientName, setRecipientName] = useState<string | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [lookingUp, setLookingUp] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  // One key per transfer: retries and double taps reuse it, so the server
+  // never sends the same transfer twice
+  const idempotencyKey = useRef('');
+  const scanHandled = useRef(false);
+
+  // Kept live by the realtime wallet updates
+  const availableBalance = toMoney(wallet?.pkr_balance, 'PKR');
+  const recipientAddress = normalizePkrAddress(address);
+  const addressComplete = isValidPkrAddress(recipientAddress);
+
+  // A different recipient or amount is a different transfer
+  useEffect(() => {
+    idempotencyKey.current = Crypto.randomUUID();
+  }, [recipientAddress, amount]);
+
+  useEffect(() => {
+    setRecipientName(null);
+    setLookupError(null);
+    setLookingUp(false);
+    if (!addressComplete) return;
+
+    let stale = false;
+    setLookingUp(true);
+    TransferService.lookupRecipient(recipientAddress)
+      .then((name) => {
+        if (!stale) setRecipientName(name);
+      })
+      .catch((error: any) => {
+        if (!stale) setLookupError(error.message || 'Could not find this wallet');
+      })
+      .finally(() => {
+        if (!stale) setLookingUp(false);
+      });
+
+    return () => {
+      stale = true;
+    };
+  }, [recipientAddress, addressComplete]);
+
+  const openScanner = async () => {
+    if (!cameraPermission?.granted) {
+      const result = await requestCameraPermission();
+      if (!result.granted) {
+        Alert.alert('Camera Access Needed', 'Allow camera access to scan a wallet address QR code.');
+        return;
+      }
+    }
+    scanHandled.current = false;
+    setShowScanner(true);
+  };
+
+  const handleBarcodeScanned = ({ data }: BarcodeScanningResult) => {
+    // The camera keeps reporting the same code until the modal closes
+    if (scanHandled.current) return;
+
+    const match = SCANNED_ADDRESS_PATTERN.exec(data);
+    if (!match) return;
+
+    scanHandled.current = true;
+    setAddress(match[0].toUpperCase());
+    setShowScanner(false);
+  };
+
+  const handleSend = async () => {
+    if (!addressComplete) {
+      Alert.alert('Error', 'Please enter a valid wallet address (PKR-XXXX-XXXX-XXXX)');
+      return;
+    }
+
+    if (!recipientName) {
+      Alert.alert('Error', lookupError || 'Please wait while we check the recipient');
+      return;
+    }
+
+    const transferAmount = parseMoney(amount, 'PKR');
+    if (!transferAmount || isZeroMoney(transferAmount)) {
+      Alert.alert('Error', 'Please enter a valid amount');
+      return;
+    }
+
+    if (compareMoney(transferAmount, availableBalance) > 0) {
+      Alert.alert('Error', 'Insufficient balance');
+      return;
+    }
+
+    Alert.alert(
+      'Send PKR',
+      `Send Rs. ${formatMoney(transferAmount)} to ${recipientName} (${recipientAddress})? Transfers can't be reversed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Send', onPress: () => sendTransfer(transferAmount) },
+      ]
+    );
+  };
+
+  const sendTransfer = async (transferAmount: Money) => {
+    const stepUpToken = await requireStepUp('send_pkr');
+    if (!stepUpToken) return;
+
+    setSending(true);
+
+    try {
+      // Debits this wallet and credits the recipient's in one transaction
+      await TransferService.sendPkr({
+        recipientAddress,
+        amount: transferAmount,
+        note,
+        idempotencyKey: idempotencyKey.current,
+        stepUpToken,
+      });
+
+      Alert.alert(
+        'Transfer Sent',
+        `Rs. ${formatMoney(transferAmount)} has been sent to ${recipientName}.`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to send PKR');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const canSend = !!recipientName && !!amount && !sending;
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#09d2fe" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Send PKR</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Balance Display */}
+        <View style={styles.balanceCard}>
+          <Text style={styles.balanceLabel}>Available Balance</Text>
+          <Text style={styles.balanceAmount}>Rs. {formatMoney(availableBalance)}</Text>
+        </View>
+
+        {/* Recipient Address */}
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Recipient Wallet Address *</Text>
+          <View style={styles.addressInputContainer}>
+            <TextInput
+              style={styles.addressInput}
+              value={address}
+              onChangeText={setAddress}
+              placeholder="PKR-XXXX-XXXX-XXXX"
+              placeholderTextColor="#666"
+              autoCapitalize="characters"
+              autoCorrect={false}
+              maxLength={18}
+            />
+            <TouchableOpacity style={styles.scanButton} onPress={openScanner}>
+              <Ionicons name="qr-code-outline" size={22} color="#09d2fe" />
+            </TouchableOpacity>
+          </View>
+
+          {lookingUp && (
+            <View style={styles.recipientRow}>
+              <ActivityIndicator size="small" color="#09d2fe" />
+              <Text style={styles.recipientChecking}>Checking wallet...</Text>
+            </View>
+          )}
+          {!lookingUp && recipientName && (
+            <View style={styles.recipientRow}>
+              <Ionicons name="person-circle" size={18} color="#10b981" />
+              <Text style={styles.recipientName}>{recipientName}</Text>
+            </View>
+          )}
+          {!lookingUp && lookupError && (
+            <View style={styles.recipientRow}>
+              <Ionicons name="alert-circle" size={18} color="#ff4757" />
+              <Text style={styles.recipientError}>{lookupError}</Text>
+            </View>
+          )}
+        </View>
+
+        {/* Amount Input */}
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Amount *</Text>
+          <View style={styles.amountInputContainer}>
+            <Text style={styles.currencySymbol}>Rs.</Text>
+            <TextInput
+              style={styles.amountInput}
+              value={amount}
+              onChangeText={setAmount}
+              placeholder="0.00"
+              placeholderTextColor="#666"
+              keyboardType="numeric"
+            />
+          </View>
+        </View>
+
+        {/* Note Input */}
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Note (optional)</Text>
+          <TextInput
+            style={styles.noteInput}
+            value={note}
+            onChangeText={setNote}
+            placeholder="What's this for?"
+            placeholderTextColor="#666"
+            maxLength={NOTE_MAX_LENGTH}
+            multiline
+          />
+          <Text style={styles.inputHint}>{note.length}/{NOTE_MAX_LENGTH}</Text>
+        </View>
+
+        {/* Send Button */}
+        <TouchableOpacity
+          style={[styles.sendButton, !canSend && styles.sendButtonDisabled]}
+          onPress={handleSend}
+          disabled={!canSend}
+        >
+          <Text style={styles.sendButtonText}>{sending ? 'Sending...' : 'Send PKR'}</Text>
+        </TouchableOpacity>
+
+        {/* Info Section */}
+        <View style={styles.infoSection}>
+          <Text style={styles.infoTitle}>Transfer Information</Text>
+          <View style={styles.infoItem}>
+            <Ionicons name="flash-outline" size={16} color="#666" />
+            <Text style={styles.infoText}>Transfers arrive instantly and can't be reversed</Text>
+          </View>
+          <View style={styles.infoItem}>
+            <Ionicons name="person-outline" size={16} color="#666" />
+            <Text style={styles.infoText}>Check the recipient's name before sending</Text>
+          </View>
+          <View style={styles.infoItem}>
+            <Ionicons name="pricetag-outline" size={16} color="#666" />
+            <Text style={styles.infoText}>No fees for transfers between CoinSensei wallets</Text>
+          </View>
+        </View>
+      </ScrollView>
+
+      {/* QR Scanner Modal */}
+      <Modal
+        visible={showScanner}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowScanner(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity
+              style={styles.modalCloseButton}
+              onPress={() => setShowScanner(false)}
+            >
+              <Ionicons name="close" size={24} color="#09d2fe" />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Scan Wallet Address</Text>
+            <View style={styles.placeholder} />
+          </View>
+
+          <CameraView
+            style={styles.camera}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={handleBarcodeScanned}
+          />
+          <Text style={styles.scannerHint}>Point the camera at a PKR wallet address QR code</Text>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  placeholder: {
+    width: 40,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  balanceCard: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 24,
+    borderWidth: 1,
+    borderColor: '#222',
+    alignItems: 'center',
+  },
+  balanceLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  balanceAmount: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#09d2fe',
+  },
+  inputGroup: {
+    marginBottom: 24,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#fff',
+    marginBottom: 8,
+  },
+  addressInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#111',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingLeft: 16,
+  },
+  addressInput: {
+    flex: 1,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#fff',
+    fontFamily: 'monospace',
+  },
+  scanButton: {
+    padding: 12,
+  },
+  recipientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  recipientChecking: {
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 8,
+  },
+  recipientName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#10b981',
+    marginLeft: 6,
+  },
+  recipientError: {
+    fontSize: 14,
+    color: '#ff4757',
+    marginLeft: 6,
+    flex: 1,
+  },
+  amountInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#111',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+  },
+  currencySymbol: {
+    fontSize: 18,
+    color: '#fff',
+    marginRight: 8,
+  },
+  amountInput: {
+    flex: 1,
+    paddingVertical: 14,
+    fontSize: 18,
+    color: '#fff',
+  },
+  noteInput: {
+    backgroundColor: '#111',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    color: '#fff',
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  inputHint: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+    textAlign: 'right',
+  },
+  sendButton: {
+    backgroundColor: '#09d2fe',
+    borderRadius: 8,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+  sendButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  infoSection: {
+    backgroundColor: '#111',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 24,
+    marginBottom: 40,
+    borderWidth: 1,
+    borderColor: '#222',
+  },
+  infoTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  infoItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#666',
+    marginLeft: 8,
+    flex: 1,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  modalCloseButton: {
+    padding: 8,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  camera: {
+    flex: 1,
+  },
+  scannerHint: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+});
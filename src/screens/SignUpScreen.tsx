@@ -17,6 +17,7 @@ import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../types';
 import { useAuth } from '../context/AuthContext';
+import { getPasswordPolicyError, getPasswordStrength } from '../services/passwordPolicy';
 
 const { width } = Dimensions.get('window');
 
@@ -166,12 +167,12 @@ const SignUpScreen: React.FC = () => {
   useEffect(() => {
     if (password.length > 0) {
       Animated.timing(strengthAnim, {
-        toValue: getPasswordStrength().strength / 4,
+        toValue: getPasswordStrength(password, { email, fullName }).score / 4,
         duration: 300,
         useNativeDriver: false,
       }).start();
     }
-  }, [password]);
+  }, [password, email, fullName]);
 
   const animateFieldFocus = (fieldAnim: Animated.Value, scaleAnim: Animated.Value) => {
     Animated.timing(scaleAnim, {
@@ -202,8 +203,9 @@ const SignUpScreen: React.FC = () => {
       alert('Please enter a valid email address');
       return false;
     }
-    if (password.length < 6) {
-      alert('Password must be at least 6 characters long');
+    const passwordError = getPasswordPolicyError(password, { email, fullName });
+    if (passwordError) {
+      alert(passwordError);
       return false;
     }
     if (password !== confirmPassword) {
@@ -231,24 +233,19 @@ const SignUpScreen: React.FC = () => {
     navigation.navigate('Landing');
   };
 
-  const getPasswordStrength = () => {
-    if (password.length === 0) return { strength: 0, color: '#94a3b8', text: '' };
-    if (password.length < 6) return { strength: 1, color: '#ef4444', text: 'Weak' };
-    if (password.length < 8) return { strength: 2, color: '#f59e0b', text: 'Fair' };
-    if (password.length < 10) return { strength: 3, color: '#09d2fe', text: 'Good' };
-    return { strength: 4, color: '#10b981', text: 'Strong' };
-  };
+  const passwordError = getPasswordPolicyError(password, { email, fullName });
+  const passwordValid = passwordError === null;
+  const passwordStrength = getPasswordStrength(password, { email, fullName });
 
   const getProgressStep = () => {
     let steps = 0;
     if (fullName.trim()) steps++;
     if (email.trim() && /\S+@\S+\.\S+/.test(email)) steps++;
-    if (password.length >= 6) steps++;
-    if (password === confirmPassword && password.length >= 6) steps++;
+    if (passwordValid) steps++;
+    if (password === confirmPassword && passwordValid) steps++;
     return steps;
   };
 
-  const passwordStrength = getPasswordStrength();
   const progressStep = getProgressStep();
 
   return (
@@ -527,7 +524,7 @@ const SignUpScreen: React.FC = () => {
               autoCapitalize="none"
               autoCorrect={false}
             />
-            {password.length >= 6 && (
+            {passwordValid && (
               <Ionicons name="checkmark-circle" size={20} color="#10b981" />
             )}
           </Animated.View>
@@ -560,8 +557,11 @@ const SignUpScreen: React.FC = () => {
                 />
               </View>
               <Text style={[styles.strengthText, { color: passwordStrength.color }]}>
-                {passwordStrength.text}
+                {passwordStrength.label}
               </Text>
+              {passwordError && (
+                <Text style={styles.passwordHint}>{passwordError}</Text>
+              )}
             </Animated.View>
           )}
 
@@ -605,7 +605,7 @@ const SignUpScreen: React.FC = () => {
               autoCapitalize="none"
               autoCorrect={false}
             />
-            {password === confirmPassword && password.length >= 6 && (
+            {password === confirmPassword && passwordValid && (
               <Ionicons name="checkmark-circle" size={20} color="#10b981" />
             )}
           </Animated.View>
@@ -808,6 +808,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textAlign: 'center',
   },
+  passwordHint: {
+    fontSize: 12,
+    color: '#94a3b8',
+    textAlign: 'center',
+    marginTop: 4,
+  },
   signUpButton: {
     backgroundColor: '#09d2fe',
     paddingVertical: 16,
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RootStackParamList } from '../types';
+import { TransactionPinService, TRANSACTION_PIN_LENGTH } from '../services/transactionPinService';
+import PinPad from '../components/PinPad';
+
+type NavigationProp = StackNavigationProp<RootStackParamList, 'TransactionPinSetup'>;
+
+type PinStep =
+  | { step: 'current' }
+  | { step: 'new'; currentPin?: string }
+  | { step: 'confirm'; currentPin?: string; pin: string };
+
+export default function TransactionPinSetup() {
+  const navigation = useNavigation<NavigationProp>();
+  const [pinSet, setPinSet] = useState<boolean | null>(null);
+  const [pinStep, setPinStep] = useState<PinStep>({ step: 'new' });
+  const [pinError, setPinError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [resetKey, setResetKey] = useState(0);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    const status = await TransactionPinService.getStatus();
+    const isSet = status?.is_set ?? false;
+    setPinSet(isSet);
+    setPinStep(isSet ? { step: 'current' } : { step: 'new' });
+  };
+
+  const goToStep = (next: PinStep, error = '') => {
+    setPinStep(next);
+    setPinError(error);
+    setResetKey((key) => key + 1);
+  };
+
+  const handlePinComplete = async (pin: string) => {
+    if (pinStep.step === 'current') {
+      goToStep({ step: 'new', currentPin: pin });
+      return;
+    }
+
+    if (pinStep.step === 'new') {
+      goToStep({ step: 'confirm', currentPin: pinStep.currentPin, pin });
+      return;
+    }
+
+    if (pin !== pinStep.pin) {
+      goToStep({ step: 'new', currentPin: pinStep.currentPin }, 'PINs did not match. Try again');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      // The current PIN is checked here, when the change is submitted
+      const result = await TransactionPinService.setPin(pin, pinStep.currentPin);
+      if (!result.valid) {
+        goToStep({ step: 'current' }, TransactionPinService.describeFailure(result));
+        return;
+      }
+
+      Alert.alert(
+        'Transaction PIN Saved',
+        'You will be asked for this PIN to confirm withdrawals and bank account changes.',
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error: any) {
+      goToStep({ step: pinSet ? 'current' : 'new' }, error.message || 'Failed to save PIN');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const getPinTitle = () => {
+    switch (pinStep.step) {
+      case 'current':
+        return 'Enter Current PIN';
+      case 'new':
+        return pinSet ? 'Choose a New PIN' : 'Create Transaction PIN';
+      default:
+        return 'Confirm PIN';
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#09d2fe" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Transaction PIN</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {pinSet === null ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#09d2fe" />
+        </View>
+      ) : (
+        <View style={styles.pinContainer}>
+          <PinPad
+            title={getPinTitle()}
+            subtitle={
+              pinStep.step === 'new'
+                ? `Used to confirm withdrawals and bank account changes. Don't reuse your app lock PIN.`
+                : undefined
+            }
+            error={pinError}
+            length={TRANSACTION_PIN_LENGTH}
+            busy={busy}
+            resetKey={resetKey}
+            onComplete={handlePinComplete}
+          />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingTop: 60,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  placeholder: {
+    width: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pinContainer: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+});
@@ -137,10 +137,9 @@ const TwoFactorSetup: React.FC = () => {
     try {
       setIsSettingUp(true);
       
-      // Enable 2FA and generate backup codes
-      await TwoFactorService.enable2FA(user?.uid || '', secret);
-      const generatedBackupCodes = await TwoFactorService.generateBackupCodes(user?.uid!);
-      setBackupCodes(generatedBackupCodes);
+      // Enable 2FA. The backup codes shown in step 3 stay valid; new ones
+      // can only be issued from the Backup Codes screen.
+      await TwoFactorService.enable2FA(user?.uid || '');
       
       Alert.alert(
         '2FA Enabled Successfully!',
@@ -173,8 +172,8 @@ const TwoFactorSetup: React.FC = () => {
 
     setIsVerifying(true);
     try {
-      // Use local TOTP verification with the secret
-      const isValid = TwoFactorService.verifyTOTP(secret, verificationCode);
+      // Verify against the pending secret on the server
+      const isValid = await TwoFactorService.verifySetupCode(user?.uid || '', verificationCode);
       
       if (isValid) {
         setIsCodeVerified(true);
@@ -14,19 +14,16 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { supabase } from '../config/supabase';
 import { UserBankAccount, RootStackParamList } from '../types';
 import { useRefreshControl } from '../hooks/useRefreshControl';
-import { useAuth } from '../context/AuthContext';
-import OTPVerification from './OTPVerification';
+import { useStepUp } from '../context/StepUpContext';
 
 type NavigationProp = StackNavigationProp<RootStackParamList, 'UserBankAccounts'>;
 
 export default function UserBankAccounts() {
   const navigation = useNavigation<NavigationProp>();
-  const { user } = useAuth();
+  const { requireStepUp } = useStepUp();
   const [bankAccounts, setBankAccounts] = useState<UserBankAccount[]>([]);
   const [loading, setLoading] = useState(true);
   const { isRefreshing, handleRefresh } = useRefreshControl();
-  const [show2FAModal, setShow2FAModal] = useState(false);
-  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
 
   const fetchBankAccounts = async () => {
     try {
@@ -65,15 +62,11 @@ export default function UserBankAccounts() {
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: () => {
-            // Check if user has 2FA enabled
-            if (user?.two_factor_enabled) {
-              // Store delete ID and show 2FA modal
-              setPendingDeleteId(accountId);
-              setShow2FAModal(true);
-            } else {
-              // No 2FA required, proceed with delete
-              performDelete(accountId);
+          onPress: async () => {
+            // Step-up verification (transaction PIN and second factor) before deleting
+            const stepUpToken = await requireStepUp('delete_bank');
+            if (stepUpToken) {
+              await performDelete(accountId, stepUpToken);
             }
           },
         },
@@ -81,16 +74,16 @@ export default function UserBankAccounts() {
     );
   };
 
-  const performDelete = async (accountId: string) => {
+  const performDelete = async (accountId: string, stepUpToken: string) => {
     try {
-      const { error } = await supabase
-        .from('user_bank_accounts')
-        .delete()
-        .eq('id', accountId);
+      const { error } = await supabase.rpc('delete_user_bank_account', {
+        p_step_up_token: stepUpToken,
+        p_bank_account_id: accountId,
+      });
 
       if (error) {
         console.error('Error deleting bank account:', error);
-        Alert.alert('Error', 'Failed to delete bank account');
+        Alert.alert('Error', error.message || 'Failed to delete bank account');
         return;
       }
 
@@ -101,19 +94,6 @@ export default function UserBankAccounts() {
     }
   };
 
-  const handle2FASuccess = async () => {
-    if (pendingDeleteId) {
-      setShow2FAModal(false);
-      await performDelete(pendingDeleteId);
-      setPendingDeleteId(null);
-    }
-  };
-
-  const handle2FACancel = () => {
-    setShow2FAModal(false);
-    setPendingDeleteId(null);
-  };
-
   useEffect(() => {
     fetchBankAccounts();
   }, []);
@@ -227,16 +207,6 @@ export default function UserBankAccounts() {
           </View>
         )}
       </ScrollView>
-
-      {/* 2FA Verification Modal */}
-      <OTPVerification
-        visible={show2FAModal}
-        onClose={handle2FACancel}
-        onSuccess={handle2FASuccess}
-        action="delete_bank"
-        title="Delete Bank Account"
-        description="Please verify your identity with 2FA to delete this bank account"
-      />
     </View>
   );
 }
@@ -15,12 +15,19 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
+import * as Crypto from 'expo-crypto';
 import { supabase } from '../config/supabase';
 import { UserBankAccount, PKRWithdrawal, RootStackParamList } from '../types';
 import { useRefreshControl } from '../hooks/useRefreshControl';
+import { useStepUp } from '../context/StepUpContext';
+import { WithdrawalService } from '../services/withdrawalService';
+import { compareMoney, formatMoney, isZeroMoney, parseMoney, toMoney, zeroMoney } from '../services/money';
 
 type NavigationProp = StackNavigationProp<RootStackParamList, 'WithdrawPKR'>;
 
+// Mirrors security_config.pkr_withdrawal_min_amount
+const MIN_WITHDRAWAL = toMoney(100, 'PKR');
+
 export default function WithdrawPKR() {
   const navigation = useNavigation<NavigationProp>();
   const [amount, setAmount] = useState('');
@@ -28,9 +35,14 @@ export default function WithdrawPKR() {
   const [bankAccounts, setBankAccounts] = useState<UserBankAccount[]>([]);
   const [showBankDropdown, setShowBankDropdown] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [userBalance, setUserBalance] = useState(0);
+  const [userBalance, setUserBalance] = useState(zeroMoney('PKR'));
   const [showSuccessAnimation, setShowSuccessAnimation] = useState(false);
   const { isRefreshing, handleRefresh } = useRefreshControl();
+  const { requireStepUp } = useStepUp();
+
+  // One key per withdrawal: retries and double taps reuse it, so the server
+  // never creates the same withdrawal twice
+  const idempotencyKey = useRef('');
 
   // Animation refs
   const scaleAnim = useRef(new Animated.Value(0)).current;
@@ -42,6 +54,11 @@ export default function WithdrawPKR() {
     fetchUserData();
   }, []);
 
+  // A different amount or account is a different withdrawal
+  useEffect(() => {
+    idempotencyKey.current = Crypto.randomUUID();
+  }, [amount, selectedBankAccount?.id]);
+
   const fetchUserData = async () => {
     await Promise.all([
       fetchBankAccounts(),
@@ -93,7 +110,7 @@ export default function WithdrawPKR() {
       }
 
       // PKR balance already represents available balance
-      setUserBalance(data?.pkr_balance || 0);
+      setUserBalance(toMoney(data?.pkr_balance, 'PKR'));
     } catch (error) {
       console.error('Error fetching user balance:', error);
     }
@@ -105,58 +122,43 @@ export default function WithdrawPKR() {
       return;
     }
 
-    const withdrawalAmount = parseFloat(amount);
-    if (isNaN(withdrawalAmount) || withdrawalAmount <= 0) {
+    const withdrawalAmount = parseMoney(amount, 'PKR');
+    if (!withdrawalAmount || isZeroMoney(withdrawalAmount)) {
       Alert.alert('Error', 'Please enter a valid amount');
       return;
     }
 
-    if (withdrawalAmount > userBalance) {
+    if (compareMoney(withdrawalAmount, userBalance) > 0) {
       Alert.alert('Error', 'Insufficient balance');
       return;
     }
 
-    if (withdrawalAmount < 100) {
-      Alert.alert('Error', 'Minimum withdrawal amount is Rs. 100');
+    if (compareMoney(withdrawalAmount, MIN_WITHDRAWAL) < 0) {
+      Alert.alert('Error', `Minimum withdrawal amount is Rs. ${formatMoney(MIN_WITHDRAWAL)}`);
       return;
     }
 
-    setLoading(true);
-
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        Alert.alert('Error', 'User not authenticated');
-        return;
-      }
-
-      // Process withdrawal using RPC function
-      const { data: processResult, error: processError } = await supabase
-        .rpc('process_pkr_withdrawal', {
-          user_id: user.id,
-          withdrawal_amount: withdrawalAmount
-        });
+    // Withdrawals can be paused on the account (e.g. after 2FA recovery)
+    const { data: blockReason } = await supabase.rpc('get_withdrawal_block_reason');
+    if (blockReason) {
+      Alert.alert('Withdrawals Paused', blockReason);
+      return;
+    }
 
-      if (processError || !processResult) {
-        console.error('Error processing withdrawal:', processError);
-        Alert.alert('Error', 'Failed to process withdrawal. Please check your balance.');
-        return;
-      }
+    // Step-up verification before any funds are locked
+    const stepUpToken = await requireStepUp('withdraw_pkr');
+    if (!stepUpToken) return;
 
-      // Create withdrawal request record
-      const { error: withdrawalError } = await supabase
-        .from('pkr_withdrawals')
-        .insert({
-          user_id: user.id,
-          user_bank_account_id: selectedBankAccount.id,
-          amount: withdrawalAmount,
-        });
+    setLoading(true);
 
-      if (withdrawalError) {
-        console.error('Error creating withdrawal request:', withdrawalError);
-        Alert.alert('Error', 'Failed to create withdrawal request');
-        return;
-      }
+    try {
+      // Locks the amount and creates the request in one transaction
+      await WithdrawalService.requestWithdrawal({
+        bankAccountId: selectedBankAccount.id,
+        amount: withdrawalAmount,
+        idempotencyKey: idempotencyKey.current,
+        stepUpToken,
+      });
 
       // Show custom success animation
       setShowSuccessAnimation(true);
@@ -212,9 +214,8 @@ export default function WithdrawPKR() {
           navigation.goBack();
         });
       }, 3000);
-    } catch (error) {
-      console.error('Error creating withdrawal request:', error);
-      Alert.alert('Error', 'Failed to create withdrawal request');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to create withdrawal request');
     } finally {
       setLoading(false);
     }
@@ -351,7 +352,7 @@ export default function WithdrawPKR() {
         {/* Balance Display */}
         <View style={styles.balanceCard}>
           <Text style={styles.balanceLabel}>Available Balance</Text>
-          <Text style={styles.balanceAmount}>Rs. {userBalance.toLocaleString()}</Text>
+          <Text style={styles.balanceAmount}>Rs. {formatMoney(userBalance)}</Text>
         </View>
 
         {/* Amount Input */}
@@ -368,7 +369,7 @@ export default function WithdrawPKR() {
               keyboardType="numeric"
             />
           </View>
-          <Text style={styles.inputHint}>Minimum: Rs. 100</Text>
+          <Text style={styles.inputHint}>Minimum: Rs. {formatMoney(MIN_WITHDRAWAL)}</Text>
         </View>
 
         {/* Bank Account Selection */}
@@ -441,7 +442,7 @@ export default function WithdrawPKR() {
           </View>
           <View style={styles.infoItem}>
             <Ionicons name="information-circle-outline" size={16} color="#666" />
-            <Text style={styles.infoText}>Minimum withdrawal: Rs. 100</Text>
+            <Text style={styles.infoText}>Minimum withdrawal: Rs. {formatMoney(MIN_WITHDRAWAL)}</Text>
           </View>
           <View style={styles.infoItem}>
             <Ionicons name="card-outline" size={16} color="#666" />
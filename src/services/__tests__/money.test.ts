@@ -0,0 +1,31 @@
+import { formatMoney, parseMoney, toDecimalString, toMoney } from '../money';
+
+describe('parseMoney', () => {
+  it('reads back what formatMoney writes', () => {
+    const money = toMoney('1234567.5', 'PKR');
+    expect(parseMoney(formatMoney(money), 'PKR')).toEqual(money);
+  });
+
+  it('rejects signs and extra decimals', () => {
+    expect(parseMoney('-5', 'PKR')).toBeNull();
+    expect(parseMoney('1.005', 'PKR')).toBeNull();
+  });
+});
+
+describe('toMoney', () => {
+  it('keeps the sign of ledger amounts', () => {
+    const money = toMoney(-1250.5, 'PKR');
+    expect(money.units).toBe(BigInt(-125050));
+    expect(toDecimalString(money)).toBe('-1250.50');
+    expect(formatMoney(money)).toBe('-1,250.50');
+  });
+
+  it('pads small negative USDT amounts', () => {
+    expect(toDecimalString(toMoney('-0.00000125', 'USDT'))).toBe('-0.00000125');
+  });
+
+  it('rejects anything that is not a plain decimal', () => {
+    expect(() => toMoney('1e5', 'PKR')).toThrow('Invalid PKR amount');
+    expect(() => toMoney('--1', 'PKR')).toThrow('Invalid PKR amount');
+  });
+});
@@ -0,0 +1,38 @@
+import { BREACHED_PASSWORDS } from '../breachedPasswords';
+import { getPasswordPolicyError } from '../passwordPolicy';
+
+const BREACHED = 'This password has appeared in data breaches. Please choose a different one';
+
+describe('breached password list', () => {
+  it.each(['password', 'qwertyuiop', 'sunshine', 'bismillah786', 'pakistan123', 'coinbase'])(
+    'contains %s',
+    (password) => {
+      expect(BREACHED_PASSWORDS.has(password)).toBe(true);
+    }
+  );
+
+  it('does not contain random strings', () => {
+    expect(BREACHED_PASSWORDS.has('vq7#kd93!xpl2m')).toBe(false);
+    expect(BREACHED_PASSWORDS.has('tlorvenquibash')).toBe(false);
+  });
+});
+
+describe('getPasswordPolicyError', () => {
+  it('rejects breached passwords ignoring case', () => {
+    expect(getPasswordPolicyError('PineApple123!')).toBe(BREACHED);
+  });
+
+  it('rejects a breached word wrapped in digits and symbols', () => {
+    expect(getPasswordPolicyError('2024Football!!')).toBe(BREACHED);
+  });
+
+  it('accepts a strong password', () => {
+    expect(getPasswordPolicyError('Tlorven-Quibash-42')).toBeNull();
+  });
+
+  it('rejects passwords containing the name or email', () => {
+    expect(getPasswordPolicyError('Zarghun#2024x', { email: 'zarghun@example.com' })).toBe(
+      'Password must not contain your name or email address'
+    );
+  });
+});
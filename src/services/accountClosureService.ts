@@ -0,0 +1,32 @@
+import { supabase } from '../config/supabase';
+
+export class AccountClosureService {
+  /**
+   * Reasons the account can't be closed yet (balance, locked funds, open
+   * deposits or withdrawals). Empty when it can be closed.
+   */
+  static async getBlockers(): Promise<string[]> {
+    const { data, error } = await supabase.rpc('get_account_closure_blockers');
+
+    if (error) {
+      console.error('Error checking account closure:', error);
+      throw new Error(error.message);
+    }
+    return data || [];
+  }
+
+  /**
+   * Close the account with a close_account step-up token. The server revokes
+   * every session and biometric credential, including this device's.
+   */
+  static async closeAccount(stepUpToken: string): Promise<void> {
+    const { error } = await supabase.rpc('close_account', {
+      p_step_up_token: stepUpToken,
+    });
+
+    if (error) {
+      console.error('Error closing account:', error);
+      throw new Error(error.message);
+    }
+  }
+}
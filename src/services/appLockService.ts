@@ -0,0 +1,122 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+
+const APP_LOCK_PIN_KEY = 'app_lock_pin';
+const APP_LOCK_TIMEOUT_KEY = 'app_lock_timeout';
+const APP_LOCK_FAILED_ATTEMPTS_KEY = 'app_lock_failed_attempts';
+
+export const APP_PIN_LENGTH = 6;
+export const MAX_PIN_ATTEMPTS = 5;
+export const DEFAULT_LOCK_TIMEOUT_SECONDS = 60;
+
+export const LOCK_TIMEOUT_OPTIONS = [
+  { seconds: 30, label: '30 seconds' },
+  { seconds: 60, label: '1 minute' },
+  { seconds: 300, label: '5 minutes' },
+  { seconds: 900, label: '15 minutes' },
+];
+
+/**
+ * Device-local app lock settings. The PIN never leaves the device; only a
+ * salted hash is kept in secure storage.
+ */
+export class AppLockService {
+  /**
+   * Check if an app PIN has been set on this device
+   */
+  static async isPinSet(): Promise<boolean> {
+    try {
+      const stored = await SecureStore.getItemAsync(APP_LOCK_PIN_KEY);
+      return !!stored;
+    } catch (error) {
+      console.error('Error checking app PIN:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Save a new 6-digit PIN, replacing any existing one
+   */
+  static async setPin(pin: string): Promise<void> {
+    if (!new RegExp(`^\\d{${APP_PIN_LENGTH}}$`).test(pin)) {
+      throw new Error(`PIN must be ${APP_PIN_LENGTH} digits`);
+    }
+
+    const salt = this.bytesToHex(Crypto.getRandomBytes(16));
+    const hash = await this.hashPin(pin, salt);
+    await SecureStore.setItemAsync(APP_LOCK_PIN_KEY, JSON.stringify({ salt, hash }));
+    await SecureStore.deleteItemAsync(APP_LOCK_FAILED_ATTEMPTS_KEY);
+  }
+
+  /**
+   * Remove the PIN, which turns the app lock off
+   */
+  static async removePin(): Promise<void> {
+    await SecureStore.deleteItemAsync(APP_LOCK_PIN_KEY);
+    await SecureStore.deleteItemAsync(APP_LOCK_FAILED_ATTEMPTS_KEY);
+  }
+
+  /**
+   * Check a PIN. Wrong entries are counted until the next correct one.
+   */
+  static async verifyPin(pin: string): Promise<boolean> {
+    try {
+      const stored = await SecureStore.getItemAsync(APP_LOCK_PIN_KEY);
+      if (!stored) {
+        return false;
+      }
+
+      const { salt, hash } = JSON.parse(stored);
+      const isValid = (await this.hashPin(pin, salt)) === hash;
+
+      if (isValid) {
+        await SecureStore.deleteItemAsync(APP_LOCK_FAILED_ATTEMPTS_KEY);
+      } else {
+        const attempts = (await this.getFailedAttempts()) + 1;
+        await SecureStore.setItemAsync(APP_LOCK_FAILED_ATTEMPTS_KEY, String(attempts));
+      }
+
+      return isValid;
+    } catch (error) {
+      console.error('Error verifying app PIN:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Number of wrong PIN entries since the last successful one
+   */
+  static async getFailedAttempts(): Promise<number> {
+    const stored = await SecureStore.getItemAsync(APP_LOCK_FAILED_ATTEMPTS_KEY);
+    return stored ? parseInt(stored, 10) || 0 : 0;
+  }
+
+  static async resetFailedAttempts(): Promise<void> {
+    await SecureStore.deleteItemAsync(APP_LOCK_FAILED_ATTEMPTS_KEY);
+  }
+
+  /**
+   * Idle/background time after which the app locks
+   */
+  static async getLockTimeout(): Promise<number> {
+    try {
+      const stored = await SecureStore.getItemAsync(APP_LOCK_TIMEOUT_KEY);
+      return stored ? parseInt(stored, 10) || DEFAULT_LOCK_TIMEOUT_SECONDS : DEFAULT_LOCK_TIMEOUT_SECONDS;
+    } catch (error) {
+      console.error('Error reading app lock timeout:', error);
+      return DEFAULT_LOCK_TIMEOUT_SECONDS;
+    }
+  }
+
+  static async setLockTimeout(seconds: number): Promise<void> {
+    await SecureStore.setItemAsync(APP_LOCK_TIMEOUT_KEY, String(seconds));
+  }
+
+  private static hashPin(pin: string, salt: string): Promise<string> {
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+  }
+
+  private static bytesToHex(bytes: Uint8Array): string {
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+}
@@ -1,13 +1,28 @@
 import * as LocalAuthentication from 'expo-local-authentication';
 import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
 import { Alert } from 'react-native';
+import { supabase } from '../config/supabase';
+import { DeviceService } from './deviceService';
 
 const BIOMETRIC_ENABLED_KEY = 'biometric_enabled';
 const BIOMETRIC_CREDENTIALS_KEY = 'biometric_credentials';
 
+// The credential can only be read after a biometric check by the OS keystore,
+// not just behind our own prompt, and never leaves this device
+const BIOMETRIC_CREDENTIALS_OPTIONS: SecureStore.SecureStoreOptions = {
+  requireAuthentication: true,
+  keychainAccessible: SecureStore.WHEN_PASSCODE_SET_THIS_DEVICE_ONLY,
+};
+
+/**
+ * Device-bound credential unlocked by biometrics. The secret is random and only
+ * its hash is registered server-side, so the account password is never stored.
+ */
 export interface BiometricCredentials {
-  email: string;
-  password: string;
+  userId: string;
+  deviceId: string;
+  credential: string;
 }
 
 export class BiometricService {
@@ -18,14 +33,7 @@ export class BiometricService {
     try {
       const hasHardware = await LocalAuthentication.hasHardwareAsync();
       const isEnrolled = await LocalAuthentication.isEnrolledAsync();
-      const supportedTypes = await LocalAuthentication.supportedAuthenticationTypesAsync();
-      
-      console.log('Biometric availability check:', {
-        hasHardware,
-        isEnrolled,
-        supportedTypes
-      });
-      
+
       return hasHardware && isEnrolled;
     } catch (error) {
       console.error('Error checking biometric availability:', error);
@@ -59,18 +67,13 @@ export class BiometricService {
   }
 
   /**
-   * Enable biometric login and store credentials securely
+   * Enable biometric login by registering a device credential for the signed-in user
    */
-  static async enableBiometric(email: string, password: string): Promise<boolean> {
+  static async enableBiometric(userId: string): Promise<boolean> {
     try {
-      console.log('Starting biometric enablement process...');
-      
-      // Check if biometric is available
+      // Check if biometric is available, including for keystore-protected items
       const isAvailable = await this.isAvailable();
-      console.log('Biometric availability:', isAvailable);
-      
-      if (!isAvailable) {
-        console.log('Biometric not available - showing alert');
+      if (!isAvailable || !SecureStore.canUseBiometricAuthentication()) {
         Alert.alert(
           'Biometric Not Available',
           'Biometric authentication is not available on this device or not set up.'
@@ -78,7 +81,6 @@ export class BiometricService {
         return false;
       }
 
-      console.log('Requesting biometric authentication...');
       // Authenticate with biometric to verify user can use it
       const result = await LocalAuthentication.authenticateAsync({
         promptMessage: 'Verify your identity to enable biometric login',
@@ -88,31 +90,35 @@ export class BiometricService {
         disableDeviceFallback: true,
       });
 
-      console.log('Biometric authentication result:', {
-        success: result.success,
-        error: result.error,
-        warning: result.warning,
-        type: result.type
-      });
-
       if (!result.success) {
-        console.log('Biometric authentication failed:', result.error);
         return false;
       }
 
-      console.log('Biometric authentication successful, storing credentials...');
-      
-      // Store credentials securely
-      const credentials: BiometricCredentials = { email, password };
+      // Generate a random device secret and register only its hash
+      const deviceId = await DeviceService.getDeviceId();
+      const credential = this.bytesToHex(Crypto.getRandomBytes(32));
+      const credentialHash = await Crypto.digestStringAsync(
+        Crypto.CryptoDigestAlgorithm.SHA256,
+        credential
+      );
+
+      const { error } = await supabase.rpc('register_biometric_credential', {
+        p_device_id: deviceId,
+        p_credential_hash: credentialHash,
+        p_device_name: DeviceService.getDeviceName(),
+      });
+
+      if (error) throw error;
+
+      const credentials: BiometricCredentials = { userId, deviceId, credential };
       await SecureStore.setItemAsync(
-        BIOMETRIC_CREDENTIALS_KEY, 
-        JSON.stringify(credentials)
+        BIOMETRIC_CREDENTIALS_KEY,
+        JSON.stringify(credentials),
+        BIOMETRIC_CREDENTIALS_OPTIONS
       );
       
       // Enable biometric flag
       await SecureStore.setItemAsync(BIOMETRIC_ENABLED_KEY, 'true');
-      
-      console.log('Biometric credentials stored successfully');
       return true;
     } catch (error) {
       console.error('Error enabling biometric login:', error);
@@ -122,9 +128,29 @@ export class BiometricService {
   }
 
   /**
-   * Disable biometric login and remove stored credentials
+   * Disable biometric login, revoke the device credential and remove it locally
    */
   static async disableBiometric(): Promise<void> {
+    try {
+      const deviceId = await DeviceService.getDeviceId();
+      const { error } = await supabase.rpc('revoke_biometric_credential', {
+        p_device_id: deviceId,
+      });
+      if (error) {
+        // The credential may already be revoked server-side (e.g. password change)
+        console.error('Error revoking biometric credential:', error);
+      }
+    } catch (error) {
+      console.error('Error revoking biometric credential:', error);
+    }
+
+    await this.clearLocalCredentials();
+  }
+
+  /**
+   * Remove the stored device credential without contacting the server
+   */
+  static async clearLocalCredentials(): Promise<void> {
     try {
       await SecureStore.deleteItemAsync(BIOMETRIC_ENABLED_KEY);
       await SecureStore.deleteItemAsync(BIOMETRIC_CREDENTIALS_KEY);
@@ -134,9 +160,12 @@ export class BiometricService {
   }
 
   /**
-   * Authenticate with biometric and return stored credentials
+   * Authenticate with biometric and return stored credentials. The OS shows
+   * the biometric prompt as part of reading the keystore item.
    */
-  static async authenticateWithBiometric(): Promise<BiometricCredentials | null> {
+  static async authenticateWithBiometric(
+    promptMessage: string = 'Sign in with biometric authentication'
+  ): Promise<BiometricCredentials | null> {
     try {
       // Check if biometric is enabled
       const isEnabled = await this.isBiometricEnabled();
@@ -154,32 +183,28 @@ export class BiometricService {
         return null;
       }
 
-      // Authenticate with biometric
-      const result = await LocalAuthentication.authenticateAsync({
-        promptMessage: 'Sign in with biometric authentication',
-        fallbackLabel: 'Use Password',
-        cancelLabel: 'Cancel',
-        // iOS: prevent falling back to device passcode so Face ID/Touch ID is used
-        disableDeviceFallback: true,
-      });
-
-      if (!result.success) {
-        console.log('Biometric authentication failed:', {
-          error: result.error,
-          warning: result.warning,
-          type: result.type
+      let credentialsString: string | null;
+      try {
+        credentialsString = await SecureStore.getItemAsync(BIOMETRIC_CREDENTIALS_KEY, {
+          ...BIOMETRIC_CREDENTIALS_OPTIONS,
+          authenticationPrompt: promptMessage,
         });
+      } catch {
+        // Cancelled, failed, or the enrolled biometrics changed since enabling
         return null;
       }
 
-      // Retrieve stored credentials
-      const credentialsString = await SecureStore.getItemAsync(BIOMETRIC_CREDENTIALS_KEY);
       if (!credentialsString) {
         console.error('No biometric credentials found');
         return null;
       }
 
       const credentials: BiometricCredentials = JSON.parse(credentialsString);
+      if (!credentials.deviceId || !credentials.credential) {
+        // Credentials from older app versions held the password - drop them
+        await this.clearLocalCredentials();
+        return null;
+      }
       return credentials;
     } catch (error) {
       console.error('Error authenticating with biometric:', error);
@@ -188,6 +213,36 @@ export class BiometricService {
     }
   }
 
+  /**
+   * Prompt for biometrics without touching stored credentials (e.g. to unlock the app)
+   */
+  static async authenticate(promptMessage: string): Promise<boolean> {
+    try {
+      const isAvailable = await this.isAvailable();
+      if (!isAvailable) {
+        return false;
+      }
+
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage,
+        cancelLabel: 'Use PIN',
+        disableDeviceFallback: true,
+      });
+
+      return result.success;
+    } catch (error) {
+      console.error('Error prompting for biometric:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Encode random bytes as a lowercase hex string
+   */
+  private static bytesToHex(bytes: Uint8Array): string {
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
   /**
    * Get the name of the primary biometric type for display
    */
@@ -0,0 +1,41 @@
+import { toUint8Array } from 'js-base64';
+
+// Set membership in a fixed bit array: has() can give a false positive at the
+// rate the filter was built for, never a false negative. Built offline by
+// scripts/generate-breached-passwords.js, which hashes with the same
+// functions - change both together.
+
+export interface BloomFilter {
+  has(value: string): boolean;
+}
+
+// 32-bit FNV-1a over UTF-16 code units
+const fnv1a = (value: string, seed: number): number => {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Bit positions for a value (double hashing: h1 + i * h2)
+ */
+export const bloomFilterIndexes = (value: string, hashCount: number, bitCount: number): number[] => {
+  const h1 = fnv1a(value, 0x811c9dc5);
+  const h2 = fnv1a(value, 0x5bd1e995) | 1;
+  const indexes: number[] = [];
+  for (let i = 0; i < hashCount; i++) {
+    indexes.push(((h1 + Math.imul(i, h2)) >>> 0) % bitCount);
+  }
+  return indexes;
+};
+
+export const createBloomFilter = (bitsBase64: string, bitCount: number, hashCount: number): BloomFilter => {
+  const bits = toUint8Array(bitsBase64);
+  return {
+    has: (value: string) =>
+      bloomFilterIndexes(value, hashCount, bitCount).every(index => (bits[index >> 3] & (1 << (index & 7))) !== 0),
+  };
+};
@@ -0,0 +1,1471 @@
+// Generated by scripts/generate-breached-passwords.js - do not edit.
+//
+// Bloom filter of 45547 breached passwords (lowercase): the SecLists
+// top-100k list and local additions, the same list as the breached_passwords
+// table (seed_breached_passwords.sql). About 1 in 10000 other passwords is
+// reported as breached; the server check is exact.
+import { createBloomFilter } from './bloomFilter';
+
+const BIT_COUNT = 873142;
+const HASH_COUNT = 13;
+
+const BITS = [
+  'DsBpobXAtV/KjCilh8DryjSzq46OezxB3YEid7qdG9daNCvmSGmt8RWKNFCWa/yeH7WZ6k6hDoJZ8Wn3JVxbYi/+J1lKNXiOdnfg',
+  'YS09ZXSFE446if5JFRO5RY6M3OykbAo7U1/W4SQM+oz1loakELfkyrEVDBkan3Z4R2F6JPIkWGupuHY6hdUk+9Gzy+jOhXALIEpH',
+  '89UVHlipYKx1GtqxB/KiZKzGuNV0kBR1BP+NXaawShQqfAR40PfEVD6lEwqetMf73ABLwh2LbxDwMNFRMJNXXRZokZNdUrAObRaM',
+  'tKcEan36FIvg22cU/oUE+PgGtHsFNh89+DNzGF/JpK9nMDSpvPKUft/jFLZnmUkQNccyx5U9GgS1ZcKXpYuzcYjCSibI1Fi14PAJ',
+  'V/TqVvT3ShODlbEFXD3o5QbIaj+GbGimSFUZ9nGamOAB5SkJDi1rbqaUpCNAhatwODN2DOlcM5dbGJHf1uyppERcHoEnav3byAxD',
+  'URwWxcnapaA5hzn5AJXjn1UmOn+d1Divaeii/Q4pg0efgAXIgUZ5nrq1tPBp0zSh+1G9GLSOVoWJb5xldDxpJ9YSAEF2/i6R/anO',
+  '39AfD+dZck+Z9X6odQ/OCyzqjSSSWhNkn6kKCvAHihHj21/0GpLu5uSFdjOfVekCrRAGUuBGfKP1KomRn7NaW5nZlXUj25vCx9JJ',
+  'm7Bjbesan2LGbzDqsfvoHAtb7u2MoATWL1Skv2v8C/0a20FZZQXs5Tw4dG8U0iPf1eTWp/xIDNrvjBEV8ypqgK3NvH9d8yY65VAJ',
+  'Nw/mfDS2BxX8fXF4xUt4jKXSqVsrcsSnr+ch2FQ4Ki0/lBahgAxeZOhI8WWDnqiCKmFSmkQNRZQHrrVjlTy0zFIqSJps+aFXos5i',
+  '/q3U6fE+VQ8nSs3xgJowatcpBsW+uQX4muBUVKHLqwKxuDyND6iiupcpWBE2a+8wGtTR0CC9xenRR+pMJLtkFnX8s8fayU7w3Goz',
+  'G3dzC7Gnr+Q+EcaxlsTgjJF3qfd3a9Vqgr4/LTLtQU9VTMaInAwK1RjutIBl0tX6Y3Wgsm4hq2Mq8jqYRS+WBWXEEGTn8E9AyKWB',
+  'qF9hosT16hVFLDeJQwuqZJUvzPjl3+6eux+KP0rTC/CPgQRBdgrL2P+a2+F5I00jUBRfoodpG+z70A2a80FFC93Gkf90RQ8AmTBO',
+  '3tPQlsL5AmGiYYVOpyO7/8z8sijHzQCwnfHiOXjN6A/0ISA87FyUKvuxS7h4UrWM0V9U6T4uIjiGBk23/PUnM5AKpyIIZ2HisRaD',
+  'eH/QNNy9Hvo0uvSPMwDPvZVEdIRS2WmRMh5jPbL0sbJ/UewG81vjB7Bf8giCho/19ApOh0F4SAAoci9BaIqKR6cEL0S/Q3UkkPzP',
+  'e7S07fxiiSdywvcfizJLiZesyWZ2dFWQmnY8fYTJ+wFD/1IzEgQ0IlOKBQfRBBy1TCDDbsAAG/K7XbVBw0yIFq4ZdT0+J+YsqKDG',
+  'ocYkDZunuv+Esqw2iE2P8pl5X4/L2Rt4QfF9vE04nGR+0d6dFcuru0K2gADtr68+g9JqC6hJatbB5h4knu+sfTUt0o5rCLKi0nGr',
+  '1Z8dS5WaBsvsVZX1zI9PXOAuIfwemU0eUiAb0Cvk3Cvw0KdBLv57riLO9MECkbjbOApcnkLSgJuN9jQoNzkZxXaFqcKRl1XiWt6r',
+  'mBw7kZjWMUHJiVsLi0wSANkX//1gzC9tkB2hvJ75sb20L2DLoxrGOYDCIsuk6tmLs2kP/vYrlVeevOwMf5Txza2SzadaFGIMGL+D',
+  'USGTuCBtHaNJ7ptGUDB1DbzQ2op2cUCyBWaaHjbBJmx4MxGiJ20jaRvaEHecVEZ1ETpoELM8RRoli+bcsqODJGO3BvFLxff9DAm2',
+  '4YKkSvAOUIDshkAfOAYHls/GmcBNuwV679h8U1C/NrbVibXhYa4eB4MBd5BVqiunI9Y9Q9PWCA9GUPNqYOLlhLl/sWFAtIk7XEJJ',
+  'QP1JAA0jXtw7+KVUeNJRI7Mb8qgmAL+1BJvMsCQd4rK1mRbCPcAnFW3qyNJi0PkKOMHq6J5hCdfRMJIsxbb9ToUnLiOAG1LvKFeV',
+  'MsY5yLFsGmv5y4ffYYSBgsd+S5mkAFlBCNT5kaEa+UH/qiiBTYTnDWjAnF7JVWmr9yivBsA/+ccaBnwMh5M9YJqEcx8XB8kq+epQ',
+  'izFxvkCKhJX9Wi0bPd/yRzYyDcKPgI3b8MggmYZfENNmOClArxjiU3OejDDuOGOcBI3KaL/cqQgkR4Ctz5755Acz92q8+1Def6Kp',
+  'WEwy+Lfe4mK+ey6Ax5Q/RV2bKMkyVXBGEVraOd2q6F0M3CJ72Fr9NFH3uW7K30gG3K0nugIGNrIeqJDS8voPg8Z5cr2VLasAYbnG',
+  'iJxN0NFLDCyo2M+/rBXBmgklDNiCs5hyZuP4zZ9TfgyZxJ52FnbHPfykER+rklWJkN8Or79Pdk9bA8GeWWO3BktJ7i2uqryfCA2i',
+  'R/j7NLt/6uznzWQbd6dPCvyfnQcUlOrdeFKV2ZPliBYa1btedv/iivqrCsEBvuokG6lK4E/wt4ysTv1z5Qi51aGlrh6o8Z1zX5GR',
+  'GNgAc+5W8u3tD6ocNJIfvcUzUJPPp7EDgYD7AsaTZpXptOsL40u2UjwvFGBS575Pl9sR/afK7Fj/dcY/ZG0cmpC5zUljMN2B8hEa',
+  '/booSy0/vPgaymsX1P1lJSmTTLUNqTttwKnmKIq68jvw/MG5Yaj2X6SiDaobiL5SCbSCmhmUNlhl4PU2Wc2BG68k4sewCLrPVDDG',
+  'cimq+cuPUq+rOmIQ/lMUez0686RBElq8b0fdWPKx5I+coYBChR1TdgXKCeOjYO28Mvkc9O/HCE+8pgYZHOxNI1XmYJNOPgbugGaL',
+  'uOVqZzznwuAi223fDzVBJgkfkIr3qi3nrgjOuqjpjmHqztskDBphqPH0f9r/4OxjstfYIzI/wUJ8pDrxBTquenSKZBInm6CjlCCb',
+  'Q+MCkkV3t+dVPFON1cQQd03tJcBhwJTAZpL3TQDL0Zdh23X2DYCA70VpF2mwWqFlZV4aLRg18UEEjl2QPViCN/4XSwJubYVgRZ0x',
+  'mFlYkA2WRijIiYOAtI7VBIhTEJ+ejdZCqpEKReP4CmCPVJVOgP0EDw99PrG2HjAvY7rUpvJ2X/lMfSov2y0uAi6HDR6ToqNvJT6m',
+  'CQZ2Lmps/LPFZk6mAopUfc+1NId6gPEf41JyrmO90ZbYT3h/hxEi2qYRunv10i+HTqek4/pYzyUE5SG9q2SkHU6hpCc9ru0Rbccl',
+  'OaHlI7jDtprcnEat/7mlTM6kKviCjq7HxPJw0hpTGZhA5/qfKMN78t9M0GnEwhg3apsJAIgi+HZWUmcnP6s+okH/AgvRsoSO2Odf',
+  'V35aNDVbG9KwG8t9/2ln76YJQhbS4UVugx1bBWXOho1QVTp1sq6pF9JrY+SSOBaINjk5GJ2h8ynQbd6fMeTzBfFCMtMj/dBHJT1w',
+  '8Jzw36YAiHLcAGpL0XzcFyU8myAWitgKpjESNYTGQRJ6qM7ljj20/4O55Av5i6q1Z7bvX10V5MVZ/L0sHWc8Hfdf+pbjCqQxNtDS',
+  'Xaoe6rYUVPY47S7QBUeFj3PVh0WWaNQuCRI1QpEgLxQSZem1XHESr/gi06w68xh6N1PQiMFftIGHcylWPGk0gDtskg8RXO+m2/1x',
+  'GdDC9HS3PDHoo3wWWF5ToDkLsrNwUbRVEIO6vgJy1WRnqj0x/gYGkGt0Uj1okO9+UJ9DiEuDRp5Skk8jxwt/h76UaggFhjDkVvkO',
+  'TbUtbeNoLzffolsrTL9F6Q3z/99PCXV61oBz7OpdWsTg00GsPWbGQwc5pUlUUVh+z6WE+KmJGgFP5hCDBxjjFgHKfNBMDFsGFfb5',
+  'SSekprVvzqG4tZbaKpk8zbmDjT2WnlrrkfMY/1wS0Nhj9WoPEFIYOioQHTEuAIvEukkXyEuGKlqS02tyCpcDL9A9CnX0P6HNXtyk',
+  '0yQqpzZulILFGJefJkmmFo5HcAzdg5F84yWjrACN8uoOqIODyX3RxqRykREU2ROuX49MVHtzAl/Icw40prlZt3B/TFZIOfAoNEIs',
+  'Ngv7ZH73tHNqhYSwgylUZSn3bNVscib59iwEGukL5HRIsO/P/pFH6UfnVDP1DEJf7frAkHfqGT2c+hPIHOUo3rnX1S7Yc/+dZxTI',
+  'dtmiJj9pElD2YxGmtL2crmxcUwHFLjtV6n13xHRycAU1S7yMlFxOZ/fxNvGJ4qdZTEFgqcwO14MOOALE6DpjXPnV9qJMcuDIv7Ze',
+  '+u+Dz/jIBtf4QQIIfACjyEMtT4tAlOYFIGzFK1NmeOnzK610Q43iSe9m5tJu0nazamUsLG+NCpt5LEclKnCGJCqpmux86NzZgE4n',
+  '+vcfXzLCYoTgpx1SZGDYmBpxCiw9ypOhQ2q5rp9J0/brTT754Mu1JhkMGabbsud1XCVg4oNW38O04+IiKiD0/84dPx+zDyhJ+S8R',
+  'Nx7LG8zelIYAUcuKwna+DOLI4C43Ck9HmJ0XPgPEqPCgr06U8/DFw/LSwd6i47mM1mKQULEBDSf7kMdymO+l5VwhxWovX7UP4ZTH',
+  'Nm0YoukJiP9gfCiTYLEmsX6onHVSe2GvuBILd6gtVVjsMYkJI+8ZgAbOORKJ72dG2nvtf13Vjbpq3ccVgGQA9TFdUvNzftyB4daY',
+  '2k2hetn6bQWyG0JLRctVLuTDiZzERcsMpjR+17qXXFjkTjcT/mX/hmt8CDV7oCtmgeRlaw5OtveIr0Ix1+BBb0gZvSLqcElUVP9q',
+  'T7U4kz/Haz9y8ZZpcNMMG6sYTGSL/nQeb/0O6UkkQw/UU6ywkZgCWpPtUcQCGHY4/ZhhkptMV3LhsaYr8XojKv14iOoH/HcxPuID',
+  'QUqMqGbXmprTy8Uu/GSw4Js150CsDZnsGhRW4UZiICSg9E5BBnkbje5TJ5qpTL8ia23cOqGN5AgOukyPE5Yf4U9CbwIY5KH4honW',
+  'eikILJMiPlgJAZdWotbFm7l+vAMuzcHA2xwZyf6EdQdE04cE+BrDiEaxv7Z/fCG5/Dgcx5FvC/4ruk1S7C+oT3+I8RlC9wZleCVO',
+  'qEsnsMLNi63szuVyr6+oTgWCSOTYZEjwzZ5jEvHrkPGWB6uSejrGTqo+q/OPNwF1OeNEiPiJDzQ2LxNrAQm6G8to3DDyvgksKzPj',
+  'izSUy25zNGXUcvAeKwtnCdiJvJkF+MDWDCrbRZfENDwCJC7lIRY3d8GVIiArQh0V6SdNNBOAP3KJxzECyIfT1GQX++W5yE8iW+RT',
+  'h0LuRwAicfPuvIAtOmYBR5s5WmbAXkfYEisg5ITvU5swaZqLSJLSmqCfUgGGDBniI+QwkXDEw8Xvm4qzV30gwuVNJBAm/5KA8/8N',
+  'IOrEFV6ROj2+uWEIh15fApj8I1tzuAl8OVkUXiDCHKGxOSwHRcGiLEh1W5JruLSczjAbHnMgJWYlQfQNGsg+Fd8SIyO4RjWcwiw6',
+  '0iR+iMUqgWERK6wisQ/RUJkvtCWQ2QG2uKidDhjy4srzseTNUggdvF042xl4u4U6MIdf5ppM2ylj4oPXiBV4DkjyrHisVOqJ1/Pv',
+  'ShE77nrb8yj8h5CcUZT1gZgYEHGcmpZEw4zjE/96kcnJt6Jj1d8NNnliYxzqOhywSDvQhf00meoBvawDT/CtCOnPdzYAiGVnG9DR',
+  'GzZNgXCM8uY6RzziDpTLuTXBlUduqwk2E4fHbxBEAGJx3ROFeIWRorvUR4UUMjUPw0/hE0TTMogkFdmMbhCYX82BnskqhOtyjc7A',
+  'DYB1mQ26IEkElJkG2DtqnbV/CrmlXZpUyl7POZlIK+dD0LUk2e0TS2VWYgBrFRZ/q3e3fltUw7pVQrtoOF/lZ5z73MqKq8CZ7ZoF',
+  'ddGCEecK05AtC8WvIuBOV1TEd/hZja8lPlHP0hy/yurmWOcd3E1SGHJXpaQJ+lTgq2ShvsaghT4U6k3u344vY0eiXh7IqxKFg1iI',
+  'U6NkhcsFlpcy7WekLJtj+BcDvLQyuuVAiIKxW4mEzn0vlP+cCN1paPKN6DMqMGcu4ZMYtU0LnMKkkhkW+JYVI642FZR/xC7HFCRp',
+  'lXXqKQG2oMwTjNrgq6YjtmbXAPnkuZxaGgDvjQXzrBflP3p8pTYDWrdBz4Y5EwUfUVc3cUQNPWeriUiw7Aq1ooMbG6fwYUp8H65L',
+  'LokN+5a1/hPFB5FninuS4788Q+VB3quirAyhgPtOEA02BqZDAsW19CkVZpu9pGqVRZJg+2xPM35i6ExIsTGxaRh1K7RCMGSj1v+T',
+  '2n7QDPVkNp96qc5Uk+dvHavtqoLXGvIEe3FEGBBmqin7FQSN+oB+3EhPUjoVkOIVKzm0JSyrQdfuF/6BBsM2sFa6EPILFTer8nIz',
+  'i8GEckeZLXFmuO6bokjzi6VAsYoaQ5UvCCLfwG0WH3ABXwwFKBPzE3rPZvCtZSz5CunEBRc0XyrjQEoxAYRd60XTebY268+7M+AC',
+  'xI0wcdVK+avmnSGQQqJA04YgL38ITW44m6Du+7V8b+jThsPj6vqVYtOiwnDDtgQBCsslXVQpYVW1L70aKJfwAO51580Z+EyI2Xg7',
+  '8o5PrIwogUpWQiNGgV9Lex6wg5idY2Krq4+EPtX8lTqLbCBQ+Aq1JeBr3LjD2kcmV1pHmnIlw8T32Yb2VxiYJdE+u0OxJpk35zkz',
+  '+595v2fn06/MhfVMg8EOtLQJqDxG3cxGE97CvNKLnBeCYH8mFgPDIAXcVY+GouuJqVvEP5CqcNBUCtgCH3l/eEH6B8GxwbJF1DZh',
+  'b0CBk+fLqf70ckGYvPNFX2cS7wzeK04J/BjkMy6HQST0sg4qXchhhBlA3a5KVUc58SRvy2VdSYXxyvEFpgDatkyeiZwFA31XJYra',
+  'drHs/cMa2xgWjw8KLMgKUhHHWlWbsKMccn4G22fIZkJFn5WW4oWphgQ3zQEVrMIQxrJS2VzNL2wYhyvJ7HqdZOo9es3fleIISu/J',
+  'ytyqceYH61dNFnT9OcPxNxq9eEknfr4OsewTPQqkTWuLHvkTf91J9C+MAvgUAiwELOklY+gdKs+42pyrqLR+FzdqBpNjUQC20BAO',
+  'lpDWoenY+Z05+rwgHF+pAYVog06p/xVLEz6G5KkrM1sWhsx96DvokBf1ZqHsCZqNnm8BUuRIFJqMyQppVJGE6YbeeyoQ95aTG58U',
+  '5VfBooZP/gHzy/k30QJ9hqXZ3GBHOdZUx12D1MYZWWmZ7OuZywRE0/wYBQ+LWTjZA6KUqQV/5ylzA7ajcfeC7B7Z7gSHXpsJU7v4',
+  'KjbQRXKXohID0ftIqWYy6fNZvglkqFTTvjuqfqiBrQPIOfeSaquCFeotzxVxSmJbOKyrysITtPixNzsnI7qJkiTktnvDm/qy9dk6',
+  'dDGhYTxiyPl8JikJLqca7pTes+nXNWUD6mPpBzuDvR3UluGMrTjqrgx5AlGijfOIUQEgnijyVzq1XTZN7rFonAFeSmTIFa471+gB',
+  'ZlBWy1OBNCD8vUKdPvJfe5w9D/YzNCMb8AFehK3PGNWk2ryoHABR6Ic+sMEr/igvBFLYG7fH1yDjkUpE3HAEBJd48u6G46xrBR/N',
+  'TJg5zOwvYMCUxDpsb4LteUEpa6c7ZcrtgYwGO41XegB72WYaQu5axwKNEJfAx9IUwN8tY0i2En8X7je/bF57SGRWtGvpV0auUNwC',
+  'WhiaF8JYubmO4DxOVJoY1Nrd3FTWQFY1vzfcbullQDMqnuxFYRIZ+wUvMfJ8DUqNIW5sJVS1sMTFYeJQXXqaSuQjJJxmZq1T67QG',
+  'Rez38dYwMCw2RYmMyys+bMIQ7mNvkNFwRIoGg4dWMLRjIT4r1qDtCaCuyppJKX3ylhgjJzzMKEs4mnFPNssWI8H0NqlmE+qISEUw',
+  'XhMzfKUztpnZ4owH5vOUylkf4QiGuiy5tw4YTrtC9w9ROVFcK7oiSMs9gudYd6GxJYXuget/9ZhNtdipVc/JPEMrclaS5PbGBlYb',
+  '7PnEL5T1schgo4Tj2kmLQiBpGzcpnfyXVOFJDP8nvDG7UUAOYKJo8W15c5wuHFFfxTy7N9ArkEJCxJz7AqKkOBOE1RWVlgve+s2d',
+  'J81AVH2hPdNcR6Hnj89pg+2rzOdLAbaSG7KXb2Zzp+2Og9iCR55vCw97/vmNbFFsxUwmA0JA45p/rBpSWwcQTK4cVopfG6VZBWDA',
+  '8ViiKJoOQe/umwmZOfTd0H2WP+kJI/z8e9v5jCcpOR3q2DxbOCF2WCcVvYYDWyXeKcNToQCtPKPR+zG70pZLMnkYMQ07PkaM9Dnq',
+  'gVSP0KiQp+O5Fk4js56XxPKCVzNT2Ci/hD7ro8KnPEwalqnyuBb/j50xCJgW0ivoruJ9n1gvZdd43M2/k5TabceyGZlUP+NPi6Wh',
+  '/IcuTB/ckX81mzrR4gG1J/y9uTqmJuM8fnkWMgq1pkR0JkfAb6/xQafcGS9xrJzYHnSaeK/e64Rzhe5QNqOriJYjFHGUlL0FG8Gt',
+  'COmLFscmbFf3a+N4+xiyu7pMYu72J5H4Wz1AssgFyF+jk3fBVfKAK3nwcnTmVL+byjxfXMsgIkJQMidzKjNQCPwl7yi/IqXFCvI2',
+  'KoLnfKqXTW/isHBeKKG61tmsVRdY5pUHI7yjwzxtYRIw2SZplPlmGZoL5Tq8toJnDWKPOnYFte/AyKVOyYJp9N07My47bYfrUKMl',
+  'x9GwfIzZVRZ3nAyhD7Yxz/ZNO6FQw8WUXTCDCoYWu8+vzmF3OR91J/2sdi2awk5tniF4Ni6+l3rn7Z3udbrMkpeBoTFO8+7qXMpl',
+  'mX8Abkq3CLSJiZ4zM7GYXOzkBBsvpfj0xOoRhE3+uS6d1EdOr/MfeodT7XiFhyY47iqyC2jrW4J10ljjS0unVBbTuMJVAFR7hkY5',
+  'OCzZ1shiwmPPAmEi8V/SdJ9fDj9lCAXsoaAISk/ECRxLVSOG6KUVcgkX8yYdrhkYGDHz3HHQyW6tAoIUDxv2zOu99J2Kjq75/rPM',
+  'Tk7gCWg93Wy2WA+49czSYE+XnM5sIIXTKcF4TlrIBPCNpvOupsnL7TS4foYBUV2f888LIrTzOg3LrnDjrk8iq3F0sKnYRuNbnJnO',
+  'WeS97SScyXk4AzXOVD+aaOhdzEaJiq8zAJ3f1bMyBPn9QkKA538r2VcLUomnZAlcxyLrFzq+1d6yt31aIIpQ05NylMPmtwgVJOUF',
+  'NEmKyvy6sfh+yZIbwCGxUjz0T+GGbD/8SLkqiaUnKcs0oXe0qmbz5RIoYawCZpIANOVYXB/J8Jv2tVCsuAPQw7ydPv8bdUGti2YF',
+  'AtnhgOQpSRM0IK18VEahYLn7maBrgtV3lC7p55qusFO0OqwtJNH3KXJ0NIlHOjDuHwZncAVC9uC1I5GWNC53u8zjAO9IPiTgO/h6',
+  'PqEPoMCzoK1lI+eAS0ravWz0rmqrxxBVtHgtwLPpyUbB0ReHpjQ8lsSo1i3p4jRD1lmE4A4vrtDSkLCQ3ARg2pjC7hIE16gM4bB9',
+  'kNIYMD4bVJQY/wsVBDjaemjN4WbIgyacnsjb0Yg/ZEscZMYrgHDpEXddobIVhZQxnTPne+vBeKSgnocZXKj9BKu0VtizyDKwZNMH',
+  'yhSHUmxbM96r6B+AxDbEipYcRMFwB+APYGliTI2SrdCDH3Qn+vw0GW1ZUsrogNaXLzO3W4sfhN4OEVW2ZYdvaDI4Ca+MNAG/Tx/D',
+  'TnMKPf25wl8H0SIJkRZj9Pz4ZHRCzHwDR8+dRk5/v6K4pyJIqHeTcC1FeitKjREiEUAJl6jn+vVwdIjW6H8EQJGdUwCS4TAIplQB',
+  'jdw0O3SISPjJE93k6E3zfZu7DaLrXYBYWzYaq/BiV907OBfSSp3rkj1HFAWdOVmdEu2SfA38V35UUZAx7Eew59oFc6+dbjK5d7U4',
+  '4D7COlioeXNtzikmR7ZIIJG1ZdmPR3xuRCPRicITMw/fqF8QABpvUDslgNNSsOoz0NmySPwfqxqMUnDi6ajA/W6NCppKYR4L1qhJ',
+  'CMasGRvzlNtql8oXIlodSsxRpZPWRYcjP4VztejVBINQvB0dzRSWB81JiczkC5f5hvN7gaBxd+nIJjB3cgdShk3oB6k6m78x2yqW',
+  'sSgrkjrd84fxKSt/2ZJwRwkWBE+vORadY9m366Hk/2FxPSUTiHXX/E+95W/dO0JGWVyi2Uqm0M5TxKCzKroHaDitCnB+BLdFEbXO',
+  'F4Pq/0PMJgmxl1D53dz62eFBj5FOnkrRdmspdWl8F3j9YT26BbyjQObk2wdCDYfYkL3WaPgojByh57xfVEzIDUYIMy4L0+94p1rR',
+  'QwWpKvghEB21Sgw2XZWoKwJhrInm6lSz97UPt9JWiRvoBSyPc663ok0FRfxSPdpQ7mXuIHJ4TcXY6sQkIxRl9d5VQCB8e3r+hkSd',
+  'Jwfn4xee2iqAAo/bhQMR6f/P8kDNFQ4dNubJpr+ZxoRT7UDaWyUHO5JNOb5ctsSy4Em3pMqRi4kbaubBpFgNgenj+iA7cY7Dy2Tz',
+  'YDuqbRsufdAF4FwqHkxBNGSA4UPg022veaJmAZswuLwVK8hi7Z+mI8qZAHo63Prnx+BjjMHYjEvn2ooVwYomhIsTLM3LCPFNG6Vd',
+  'H0iEBjwL5AjZgV5oP4Z7laXRlqPeDlrn7JIyxuYnHQp74Evlp2tJTf6HsTFeYyioe+7EeH+co4nIJ0WTu2bnMj5yO0V0Q7UxlNGv',
+  'FnaAFSUgy2QO9zoRdFm/Cs81UBF0DIeiXV/6nWKkE6eRoohEvXG2+Oh7WmLTxAqouiZUEIg6gvcxFbPfPWrIiTcz9blPqBDAsli/',
+  'L29YzHiMyckl/6JsUa1NSfiljRmfXZDKf0a8MFERtSBKR8JiSL2AaOBgZz1osw5XhLDMcs04bm633U3CU58QTmmrgzCUw45+wHP+',
+  '48kuwgGbD5Kg2ZE1baQe5RjXzaIkBZsKm4U0hS68uzEvZ6KnyQ92aJ9hd+OU6JRV/VEyAfrn8q6UV5kxLIDFikTGSKNM2ObUPr3u',
+  'gdCJg0l9y2HNCkotrD3POkSFcBBEPjSsRkeeSSELCQUWPmCFZ7F4LF5731ZhlpGZn82JbIMlI1AjP0ZCN4MZuXmq4VfB5yEOIoUz',
+  'UhuQYWAMkQpIVdHVm/rhSJjIUa86tnsjDnhMH40OPIk3dMel1qPXOZVhfz7omMK//CaIAQEO923B+EnJ+6jogo4qTkwwm37RFpcT',
+  'rpoG/m9JOKni1wN/YOExDgQH0kUTs+4NxpZecGmkrR0iEFGVE8fUs0fPGPD+oB8++lhtCCeF8+PWuOgsbPq7rRGQd8ds8PdjbWp3',
+  'S2qgNUGuXOjeByZp//Oy2vhVXZ5JVYhLaV/iAYyxFMycO3oJbDMIhy/ogqVRwJOhWfxEGScAHfexCGSs5msMxRAj1lLxtwm9wdTd',
+  'lx+PL8XBpmSZ/9f2KyvwGeBxi/gV0DVyIuJygHvXtF2WloGEN4S7F5pMnh5ZuPHu9gIj2zMIvkY59iP6dvPdel5+mke5kvBxKPcJ',
+  '+1pMnrsXbNaG4i/BYtC0ElGrB/XEeDdOkgZF8eloM8nXGkE679S0alpZjadaQUQNTlR1k26lxocwIg1UIQWUDdUeZydT5OLmk1yE',
+  'b+vWnK/TiNiC3TD+SnR1tp6aAqMDni7xeStDUrF2ZtjH3qLt9e8OW/9vQfNh51lwdSrfyED0rkeZ6FLLm+MiPEOoDdVqEcqXYfly',
+  'prKt58nyxm8qQ1WiN5euNuhZWhSokFgXuYtiTGqrcVJBeQcR9WyGHFIEHOYtBA65zBdiLDrhrNnS1G4O1v9nOMAw2kEiOI+Ooa4G',
+  'wZfmJHnp/5xbVLIXCQC9ZWi0WK4yVfbCkykn8gQ748IuFg1A/+LtlTZmQBRoNJHokYHEKNywe3Pi6bmqROcUvM/KBfVukuTSHeiV',
+  'm+cDgUFT2cyebrElkaz3WPpytxa69W700Qr0sheMUHUf4OaO3woiQjs/vRWud2D8bFm01w58J+TR/bm16Ck8kFDSMQ+iJhFmQ4GW',
+  'AVPnoudPPM2JpV5RGDTwE+xm6thLV9hSYtV4996AN/fI8l3uVlOdWoPFzKUDpBEQbb+gHn2q2ieWT4f06YysdnvUbGYBy/K9Pn74',
+  'cjAMSAoKu5g/PaqCEwRa9nZlgL72YLtmUuuRJaB4JHtxaj5WsFmB6w2GsRN6SqFM282ZstIj5KgYxBp2F5ytxkkiYKfgBmcgNLkY',
+  'NTqHg7p64/KQvUcbcmIsG8h3nOP2+mIs8MQBKa9zYnq1hY5uwnEBGsfIfYdu+ygr9y3cuuRABlGS3BDPDBsGSrpRw1LzIQvjw+4p',
+  'gK2FRBTz4fQFy8NiNazcBaqLqizZC2779GgqkmDww89NzG2bqQTfoDCAd4+IbFgvfIQZ9bnl9wZo6drPqfqK92GKaG9c0g2tOkmx',
+  'xgzC/6vobZnUaXUDN0vbag1Uw55AIbdw0CEaCOmu7x8PgKoIrSzEnSSHBuBvSKDRBHIgn2IHmh1weM0xEDlq3OG5WOipgApG9jyb',
+  'jsjyWGa22qaiY49MiebSNeWbDLzXZk+Ro0SpgoC3VVnMhlolV8PDabpdh7AcoDWANRI+QYez3U7OefvLey2bxAq8F/Mkw3usy61N',
+  'E+mq721MFwrqA954Rqwo4tZWFhS1pO29TNzZPrmK33vTJoFtptMPq9UmzD5ghCCZxamUspenogoECapZ3SZaapVNI4vCcAeDJptA',
+  'vckxCkkXDCDNMPNyB+nlYz99zDZld7wChJl/sgBX+5orR6TrugfFE5hjKKov28IC1AVtdby0T413Sr/tlL44rZD1UHcuIuBUGm3K',
+  '17/+nbdgka5/wCIMSXTbfLL4/1EQGn+I4ZPGg+7zbVsMGld9LFj3zckKoStlJ2NAR7C5bFGr39KF32lynDZmCFzBfC5Ok/i/YAMu',
+  '38hW73TTbOCAGCa4jIZe0EUsTJe54a5B7hT5q/dDEnL8e1fkYRlwSAZL3KVbdaVt+I/Ia7m2pao25OwDMJSF7NYWTpCTUlIJuF4c',
+  'FgVHra9Jc1QGke9rK7VsUy/fbaENn+yVMkj3AzfTW1v7igEiE/ty6LCiRw6qGpchkpAxBHOoNLLnXy55bCC78/X6OAL8UCVAJw4M',
+  'QFwGkOOJLFrWcFRUiMaGIIHeal4D6EQKnTX2qAjXJrJTNHzEp/KcXQhGVw/Vie/xYnlbkiCwZvfZfPeJ3DuUfzo3dTippuT9JXvS',
+  '4mBDrYfeK3o5vaaCJfgouphhukfEXmPmva8pbz2u0PI6wies1T+Ts+bUBJq3kphJb8/ZkNrZlMjl9+gSr3BeobFBRDpwdpTaRTyB',
+  'h4/UaweMA4wtq8P372RdPf7EoNknQbK5vQUKfDz2/mPZndf/ALDvrwsgdmLEl1+A8ox77aJNggDMCw0NI5lkbftOr41SsC1kWtky',
+  '/OpbPSy6QHHtD8ChHNndT1DGgCADBlM7gyQeqnVSMEDLQrJ3eE+sJKCpG6ldGE04wrKdIREaBf87jd3zWTaEsxbHP63Wk1ZIO/bI',
+  '1JZMJFkftNkb/g4iiuVgRl4P0pqDWXeo6aG17lB46ai2NjtCyDzJisfcqMQusEVGAkSQJLs+7FXiZ34tKV8FS3zx6WgEWAlJqEJE',
+  'zVmfPfeFaVPXx/R+XdOPrY4wbjcRlq4UFsclRneki34/DCtgLg+hb8HrqLfqcshnwckvHeoHSC+d7a37YKbUJUv2tpueNs24G0Ri',
+  'hRwoSWdhEIQvCzFKfq1HnW1ENMM7lBN+YnAz4r37TtGVCSJ5vcdalWUPcUN4cG/H2ZrEbskvVZ47HYC/EVGk59VLlrUQYU1qp3Tv',
+  'BmtQHhpae6Z7gB0XBNy2qwXdWwzKCh9ztCenD4omTEAtuSxHxKS5bjymtCCeWoSGpLoEUzds5dUJn5KAEoR6hxjujEqUjB0X9UI3',
+  'hcQjl8IU8LTClXr7xGQSuxKMINtkJo6V2g9qmI15mVPg+saJKYq0woYbxau6h/NiOBDTe1kw6GkqOut6MLAIWUrpoUwsNESilKvQ',
+  'rJ7QNSwMKSyCplJu1MmGUIZSDyO58b+Iz5szCAJ2YrVj/THvn/Rv2oObpXUMGy87Wk/JhDuXkM6df5FIlq+9xm87Hga7DpVwGuz9',
+  'LwmOAeOUsDdV49/s3rjo7RRICbFq8hHrMPVg6G+TzjvjqpkBLegKjHqHYbGf3t5OCrofPkBL/ogirheKLIYhtdJTnG3Bjj51CfeC',
+  'ftaOeRUN7VrOm2qUonhcFq/O44VwMsxfGLzS2Wvo03BzTLtZ06Qsz58z4cxooEks0DVgcHvoY4UHWLG3pzRGlGpxrBql0oqtwcNQ',
+  'p57XjC4HkBRMgQHxTYooWrj+uyZRr8uRqdGhzFyZnURxGk/WLnRibLlgKaUNOFGVDZV1AQRGMNBIgK6wImIOR7b5lC1VJkVAXKQC',
+  '8j7QgXVLWz0o6T0Fi9BLY0fKf9G1fW1Pi620l1SboHJ67qN4nt+TvQIZQgH2vN7PInli3G4YxN08wUFSsAa6J2gbayUSRA9tn0Zg',
+  'UyAhDgFJ/3YASJeOwvLi27mbGMvh7oN7qbZ6UWHg8hXXyoBbOnGOZ+unnFTHp2V0cg/2hejAeJ9CBBG+OM+edRrAqjwUGG/tFPQz',
+  'zyw7+Mhp5uSwNY84PBMUik77kQXQjx48OpKt+aWfqstoozV0BlEm4lkMCu5iwfBEWZhMy0d9VzPleI8jyI5WkcY1HiKDQUAG2+Dy',
+  'HxNTNZd2gsNGOMQdH4xc5JmJqLJ2TcEI6BBBVjwxBBdfK1HqXlHuDMI8noUpRRgJmmjYygaEkyn0FZshyn08C3geVzcIA6OAC0X5',
+  '0Q0TJHuhcwjymhbcFpz3Pf5YLZVHvdx4ppn0VNhcVHMLmDZjQ1rl18iWkTi/5aiJITO/puG7VGGmfdmls3+bxLA5nhS/1SySSDMI',
+  'KJiY1fWCQa4rlZLoQtEJOFB/QpHhnkG9bHLRO+0qWEjC42+nqSuWbhmvgo9vMDfoKnqazTa4OKf3UCYVGcMNn1KPoj0v+QFJjhn0',
+  'brY9fHcJmeBpotW8rApNJ5HooBSgYc4BqqC2mdhKVO08iMX+lhvgMa2ghCEX0YREIekUyl2B2TDQTC7yAUyMaUle/6n9yYzUTi9T',
+  'GDNpcUuA+rCku/umqnrK3aGDZ7dayhS3nnRyDfAKMQ1YL7JEMF6M1xOSLNeAp9fel0dmSzDFmIBlOjeRJjU4hnflvXHarUzTs4Hp',
+  'OdFPFsgOTWqUfO4Zsn+D1E6nVwwd8wbo5bAgjXbKcmxEXPbfZA9EzRI9r99zgrmwoTp+XAmPx4AmSiwFpmi5JBaSYKcDBKHuLAXi',
+  '72mnTJeY5JxlkeoBnUUq1GX1cus3I1ukWBGvLMAl9gF7Gpl61kV7wPJc3wz4meFXiEN5SR6d45tGj3HUhoFReSX2GHwGQnLHdJip',
+  '9tWRdJY8qlRnpsRdi40480J6iXT0u0kbbc8LYT3l/YQa+O9r+VEFmDnD96Nrhgd+pY0OOAMCxdKYDto9CdKBA071I7pBujo4tXPc',
+  '5zlMGsaoIBBrdLdn2AU1SyEvCmplKRE42ajgjEy7KhU5032GZ+uZ4EF4GuuhKLoOaDZ/VCFXpK4UAoqIRnpmv/c7aaJLSdrdaVR/',
+  'Dd+OdsyCaR8jWchvn2AIjWowS5D2KuOFWBLiv8pJXew/vfQ997yeyoKVb+yK+vs9sydPqGYuRCmtm2oypWGawzlgAOAdswf98jh6',
+  'lbBLqI0+GHFL4v52Qhtt/gv4CdQVIL7Www6PHUCV7CNcch/bvYUEVYfFeMtWxRCIrxsXeWWt6DrJicFUAhKsFes6jZKImaPRwmtb',
+  '6u8wnFoEQbDPnJLzrqFHpOX40/A7F3gKXjJ2RAkstW9vEt0rkUHZm2lrnsOr24vnEPwrdqp1JAq+mdNn0KcnK98oIENEqGjPNv/g',
+  'MUCt33U8jpUIKocvDkVRfR3KFsfcJllnLty6nIcdLH5aiEikh3YRmMqMrvCsfkbZgtJkV7UD3zFCXgOflHsGwFa10KTilAg13pKZ',
+  'fW2e4IhJ0NtbigFFI4GK7t/iDYW0GpuFbfDh5NzwMp5OqkIHJcDuG+QnxkQXFUAGmfVKBK9sQyyYxBA6tMDiByqAck9oBdGiJh9Q',
+  '6psUXT16mt90J8KtSX6w5laCH/zwaevHE+YP1QKcz9XTyiVuP2HLF+IIlXc9B9YGqpx4uBDBcXsG5RDIP2BIvwIFosG6trU4JpjD',
+  'MSQyUJvXWeTAFfp5qCFXYiewFO25+VMwBQcabRzXCU5yCcIlt5FjpmvdeE2MtoKdc5Tmq5o4bu0tN5/fgZfsQsc93odM08/FagDf',
+  'A+hZtJbciWRN1tIJNfKDC1s+iWnV1qOBhM7/AO29Ci8t9SWLOC8dGhcn4schO6UFXruYtJb76/2QInACSkieDKRBhxK1iyqSbCgU',
+  '1efPYtG39pG5X5x03/OWANSFCVvluScmR4nSPcdxzRFWT95YJzhWnnK+eceWna9B7RzEbBxcNSOpOVjwQ5x/N+3mguFf05kfi6H8',
+  'RXpJAh2tCPXK4ZWZ+DnAXu63GS10BN2isG6RTqwoq4tYdR13ObTRECqYJAtQZy/IBCtlqTWioQVHr1ymBaemEdUQMnaBe/PRc65q',
+  'oR2PVKf2Yn26ssBZWsROT3XEZhfBe/9/fVCLtu0cdcihH9+6YxZUSBmAiwZStpyHe05f4dUibdLrVkTEFRlakP44I22GgCzli6QE',
+  'XMDZALahqzjo1iUHNuizqCYPYBhMNNT11FI8XuLauteHJd2jFwJLz8mkd6+mt7cjkdCvrnsCaLfJXyYUWsKRanmjUImn3DwvLd4c',
+  'vPWpcgvJxwc2jF4nx5XB+v14Gj9MT0hf70cNTrVWYknev/SiCPQfsuPf5u0W3GGuJN4hmKOK5Rbt7JLl5OOup9YnAMf2we6Rsp5E',
+  'HF9BSkvnGRaajJ0fhbg6CyT+2NtgHBdZqT8GOOAHHyBzUmfhOjhp16bxVLsH2thtvPv7w3WFUAFXY3TSqsyrO3+5tprxvhtiIb8x',
+  '75ifxBbHxsANgoARI3Ie9n5TDFZov+6hl60tZhDgo7b50VR5919bNiJp5ccWdF254q1+E4Ao1OCkYU5lnm28egrkxDXUz2X9GQS0',
+  'ev6TE4ItB+TOrP8j14byIzjcTOLMCh1gblV08k8oqsO2dYFJCI3hBnbQhwd7RuzEF9iQvFQF7ANeBNyJDWmtKdNj0BXmI9KcGfcX',
+  'Nab8GwHYhObALzeAZrUn+8bU3pMcYzfseMrNFlODtWJlp834jc+AkVdiBw9sgVZ9p/AEnPC5aDgY0eW6C2WnOQ6uYi3A0W79o3gw',
+  'xeBQpepcfRFDZZu3OhsiXNv5IgEpTAepq+hUecBqL8lqTHOQEArs4vXa9/uI+nZth8dDU7kk/CujCQL4XHRpRertGpe98JChBvYD',
+  '6Np3DgsSB83P1i/YRsgeIczhoSqLprSM1leMp+lv4VRudmpYPc5i0kI38LTSTv8asf91SodRCm5bbiIPNrHLKhhZtR2a4fhysaIZ',
+  'fURTRv7UfCYW9ZTi/+TiR/4+2VbOYoDkkuDpo361xFEP4DCCOr0b1IkV5IjMKoLKWn0NgTwDJ+HYW3EnF5hCdV8800wN04Xi5qHq',
+  '5EN+gLYzwOdlByBQoUdPq3/MHqOX/mFSVmMhvtTD3FsR0g7zcEKmULAEU4GH9SXoS7qgVkZEKKlzhxlBRYnfBBkFUu0Fcx9KJ1vd',
+  'wdYkkm0gLh5x9yqi/WdMIIeNPb6MhUftU28+MgxGP+GepunEj/i0q45ClM7KgJkUsP2z5MwHd4gc/hkRkjFRmS585h81s1P7Srlw',
+  'g3OmDWydTGSkBXfO1P5oO5cHnmbwW8zy/uNzsbMpLg48DcDs3ggMOXF4+TOR9SeBgrPwD9oFkRLvzwuSMZOShQg8LfhePgTXhOsG',
+  '2TzbpziKD8KuLNapkqmFNgfHZDskUKCkGCHA8wK8j1P7cnRVhPDWpzUwVBwzdtXgN7Uft2ZCOoie3E7aLeBe1TzcOZmP2yIhAhjP',
+  'hpF7KuGfhFjXgdHRKI0J6ocljqfSSc5sGEc8eqJ8RPFeI9NHcnhq7Ng5DXwag4irM1ko0FYOufv+LDqZvM90WdfCa/nVPy2FdEXn',
+  '/S9fB6FHITiboRT4TUxtuB87hPX8mGuSyryVesIVDqbY+mlbecb6SjQkF1MYfpCsnjijcKUVhTvX2djyj4HTGCyswsIwyA5AQH1B',
+  'NfDDtz2a8inID0ufYohJbIeNSx7Kkeq5hksuXm1rG3CI52RScZul4/uQFv5Jx/8dJUjRHyOouEKpJsk2FcMfEO4h7ubUkXAVCAwb',
+  'lUsLRx0R5BPydRNuIqJGiUMX8dVw/j8W+r34iIGt9KYPCSjuaQG2vRMSCX6lropCkCb40Q8BVlxEC+6MmfqMEUQFxj5OW1rF1gKv',
+  'owT67iwM2aUfyxpwGAE6U4cwhVbfcD/2Q4Hzp2hKdyPZq4lN1xaan9V0sxHQMfAV4mX8UEVXBRGI//lF3B84rrnrCkIFQvdlh/lx',
+  'EHG0Vo42xp/1u4wcV1oil7qCdoqAOZGuM1jQc2FCGgmeidPEKfhBN0ISWG25vmE+3/bGXYESAROT9kswoJoKJw67NS1Jb/xeOk8A',
+  'pSVoIS5TRoGr8J2B3z9l813hyJXwhP3KFvqUDAafWuhfREc8nFSZGzYDcCHwM1NCiOyTSvl8grFNc5yQm1sVXpDrX2NX2t5DWjIW',
+  'JD5Sk+WJg4Lby1gflICDG7wMSgUujwX4hQ/22+YtI7OMkYZ77Xe+6jeAkHWGuD94Q3/fjaPBSjJaQEQTdYP20hTkC/oH+qn0oEUe',
+  'EnSEvIPMFzxr41oRvZm7CrOoMrdFeghVXGI0yA9qStl5rRzV6gsu8kOHVkMssl0YCuVYKeCL5mstC0f3EPVqP7QsogDlBaffUpRd',
+  'jQe8iitr8HxsDK2IE4AT2HQXxqXBoKN4N5RqiYqLTdO24HphVJTU6DyzAz0BP26MQbP1tpOJS3lwchcuYJRH6aZOxqV1tksLpEFf',
+  'd5EF1rZk1PMPixgHyOcDov9etAyjJIjj8XJLqGCc+0RX1vJVXRtt5qzVNF5dxHkuWKPHwRVYEWAozSl0iSfEAzLOFCkWd5Ll6vaY',
+  'N4LO6glaCgUMKqiZZNF7rXoaXSUToB3wCFew2wPW9UVpGAVNaaLp3G/d6ld6I0MW0MKRpbeqAofmYuUtwIjMCXjj+vJh2H+wZYH4',
+  '5+EKv6m70YH4d921EV+/s+RhEnmWyQCPyQhepZSizoQNnvQrAIA7GpZozipJLNI1Cq5MaAAzaVsE70JQ0oeJegwcwMM5T6xUkynz',
+  'bAoDszQf5xFK7p5OkPXQweg2IwAtWZng++PE/oaPE7qpoGJ3464G2wdbGOcjY7hVzFsLnVE5QVRjHXx76w5hdmXscNthBgMDffFH',
+  'hPLJTrjoteu0GC3ntxXwurDbqS5cIIBcrLfAonMz10ZSSkmp3xonBcmrUQ6mlyhVcRy+oK2jU2DZH3cOH6QWtdEgT3rZLu4qtIJY',
+  'cFKx+zrqIca8jOh8HuIIr8x7BVNFHg123Mm18qNGmyl3pZ2nsF8HWC/aLWADEprpJql3AXt/kaHGDeTK0Dq978hzrmnxnd02GLxX',
+  'IF0Ko4TeA9V7V//YT/AgNv5OEhiDscXDUhFPovfhTJRHGIxtjxDxC7XelM9RvoAvZ9ZHDhPYIT2HmzUGM8gUSSe7jmdANoPXDGGJ',
+  'YBjcKDZ5dkqbtyIWsOAVZ3+2jsPB7EnYsjTkAzd33bdKuNrsyJlg87Z6ngUB1btyRMuUCs2W3foYv0EwDJMznYtCVNIQGE/Suog2',
+  'ljTzq8EbKRNOr+SlG6N0OOrrHcTyKiWbYyW1sCHO+5WqNE4ivFEco8nAbPqCI9m3PZSidnJTarIfdJfnIr8kDEykNwMXCNgBkINx',
+  'reQBnD9oVtlbzbuSPjR6ELRrDuDZLc3v0RoAcSRgE1SWYqKtt14En9jWV/kMlAHxGSsa5TrvHPbVofdDzl7eRsd7u9FOMTMgpvux',
+  'j6oKb/bC7MkEh+NTMajC94ooDtOm5seExnzSAWPwCnmkkhOuS7nv+1AkvjjFMDSMinudeSd2jbS5do8mG62DQ4lwE7VfEe/ez1iQ',
+  'aSqUSZlHZq1HXkpQKTtDR/nG3DRq7ggut6bbOMQ2YDF9ZzdD0+7G2BSSMPb60+kMh+4z0nRw/pMWN5cLqdC1w3/QjE2DOJ+WGi8r',
+  'NiR5+pU+IQomcVlJkFIoNzSeNakokTNiYpwkfAqOdOjipOOzQyOtqSAjlsDpRpqH6uVjJ+Nkwzo+83oyx9UnaWdeTSeMu2uS+4zS',
+  'UaI1vUhIpg2OxHtOzBOK0bO7NMwLLF7iWZOnvYTtbpDmbIJQhwT9X/Otbfmit8UGMjzJUGgxklC/uIWx2xBgjc1hBH/fSBh3+9Z6',
+  'iPonc8VNTPLjXCVbma3EkRp9uEJCGwEvN9LOM5VIfkhJm1RvkzVqv+WNOHe4ERrQRt4JdAMbDtKMpcImgZx5RxIjTj+rKngryOD6',
+  '/Mh1NVUTNf+tGJ1L2o5VE125DoiVF/b02KTXvaeRY/SF1hHjzh6JpuKCsDBvFB70czOTM5FS+iFbf6pFVViI7dK+xfoniDulSx+Y',
+  '4QS6ZcFiaNEW1Lgb8v2G4MleH2r8I+pv5ZHV8POsQP5lXDo6YN6DSBGoCZY6b/CWl+bCNO7GB8IsGXtc2UDdFQ07Y221Yq+IK2Im',
+  '1fg4DN6D0eRJ8Tqq57yJbUozkO/czjK1fJMk2j4gJqfspwGcVuBF0YN9bkK/oVxIokLVocNOodVBjlj+qq93sK80j1GzxJZlb0JX',
+  'n9E3VEjO9+aNRQwPERoLLvP6LKU9y3TbjMc+EAvNzj80Yohh+WWMMhCMxarv9XdWUKxJFeoqACWuqcS7tvlj8a/Pk7+JcUb3DlLf',
+  'qKWvWhp5p8gidWMpV5BUtGuatalweIhtJhCw7PGcbgdtgQa8BiNWcLKIZflgvnTSYIcgEiFZeVoUMJFvEtnxPcYFRXaKJsOA6SS+',
+  'BhdPoQebyqf0XalxEF4EQLPUgycKP3KMipX6Wr39N5oifTiW2mXMUV5OkpufiUXXNHMwlKZ/VWBEC1LN5i3SlcDPCCQiuLK0f8+3',
+  'uVazwlV6/r6H1Z24wTTAGxSFKf8xb6BxbxUB/Jfp5jW9v6fP57m0x46F2Upxg8Y7bVBK9iof6og5vqUTh8u0kuNeLknGA3m+YRO2',
+  's7oD97ypPZiqJNEL1vWEEGAEPMnqtquC0afPgeQzg2oXAgS2Y0d3vTjTGuFD7eqHBXqTWYKCnflZZJgKitSlgNoffErXu3iSe+tM',
+  'ao/xi1MEDe2VfliVbUGWl//f/hd+9omwOocfV6PjPuQ84zTF8lXoIyUq0iehaQgbYHPfae5KSEH21mzH4o3XW9UbEKxowd/R7wni',
+  'Kr2Mj0dlL2Hi2GzMV9fX9O9P1UQW32l+IGFCK3EBsajU5VE6w9MrUy2iPzVLWpYdWKCMO512CKVUuwnDSkGId3ri7VUJjjj5tSgz',
+  'hhXDMXLFIk7hHJLTU5+/WEIABC04br5xHIGDe8mJri0S8hVX0Cu9U4XeROQBo225pGE8OiUFzX9W3XDC2boPbewCoFuBQjYEIGpg',
+  'yX+Y0IIHToReuD9Z/sdOHZmtANWXUyudUn0bzHFkHoFAy915kygUcBtvxoP98Cw9QHECgW7tIm9eIm2NyABP1cPYS+sQ7J6FXAX9',
+  '+K/73IBC43UcjrlzJjB1SOcYbVAxjuPpJhHP9H5c/zD9PrxtDCXtcp3JvrzS4S1rLAdSmgY8RL743F6s4f00yyTJuvG6XslAw7aQ',
+  'MShQURBqhT1O94p17KEuBVEnHMQRRgWB4Yqz5ntjSfnjwjVU3zGV+x+h1DA/PE9NmV49uTnNi1FJN1igNiMtP3tFH04kCs4wPW8Y',
+  'RC/wWTjuRA3SZIQpRaLf8E8eNBbUxE1OMrfMTUVp2fo2zlLTYVPZ4a67gzNkyoy/wNDdAqBMDJf0bTIBFhFi2UCkmULbe+t3Pro6',
+  'sME9/+MOxvC0qDRfH3A5RzufLbhJnlD+49Inqv9+I4vsvSMKP+AX/dyh1/BPYXkJiyz/j/CXHMk4UEAa+4jJWZDl37Jo6lMw2I3R',
+  '0RbHJwD1d3D2ba/DFMEqiaMbCE0P6paUE6agj6UIB5HNrN9t08p//g8dRABH4vLJ29ZaDmYZ0Z95TgXQ0NOX4EbxLBy2u4YrWUsT',
+  'sd5x6CFiwF2KRFh/78t213cvZ7zGmids/VmQxXLrEuDrgGPuFgRVnhXLEh73FHk1PhqehmhKceipIs1SfH2Jxd63HsXGQYVKbm7x',
+  'hjmgcMkch0CPOj+lT8wBFRaGE8CyBU5sUYXJPIKfnGF/JVYijK9uzG9bwsNVcu/VDMRx8Fq+FVEP0w1QugQvvmvXinTIBXOJQLYJ',
+  'KteRhmTcigGb5n7K3np40oi9O51JMhQBD27W2CUkfkBHoN87CORAJ8xQwHHwSNtlqYJCpnMwMvriqwUp9nerpyOQL+uMp+34T0Lo',
+  'CRqN4yevB0t+aJ1ASbbBrKsJg9JngFpMkkiICMNZOPnLNEYt1GV0dPJgvHcipSIK/jzUVf0MpQ0/pJEmFQjsayZJrVnFq4MvTZ5m',
+  '0hMzSXV4Idcl9STmtJEcjF+exIg+Li44RhWhDADF1bheXC9yn+zkQNiZdoqiUrKWlVSEaBzsHs+yU0LxO3clqg+zGCiUtI+o9Wu0',
+  '7mGrQhpeHt+arP/Rk049QEbsgG0gbT63uEChwJ0kPhHeejuKIsnmJuhS2HuKeCzYjI8RpLZo5jgIp7i0ammUo5YktaF7x+D2a3OO',
+  'kdioLgNTkU2KEjN6X3/KwaHEwqazGWMDgUpnOEovjs8pRUtBnoqjITAzr3WWPVLdSKFTBdpyJEf6GrrUUpmHfir+/MntEQWmDLnS',
+  '88NWV+5cptM3Bv38BXnO6H4MOn+FUczHiyODgk96lRFeJPAD5rVl2eX91DktKrRCTHuwzjstB6kd5FeJvzygMM5teCr9pDS+hyt4',
+  'iaUUgAsCG4HGg8nhIvzBEAudKaILJhz+ebRuI8p2IMEtT/LUM+45gV2P1DvvayF2din+d+BZgsKrucYrWYIVEFPUfYkCidIVsZXH',
+  'lq8NnUk4JcAb0kK4uHN8UWV5xCH4ZLks6D736hVIpVGIjPXIyYSYMvKxw3Avzk8Q9/ElXdmGkjxyqIartS2nc2QteTR+CJRNYtB6',
+  'a+KS3p2BCgJUWgFFPQ/COVOllEE9daeEz2VzLXNZ1GY/EcqZjHK4tDToyISeXgfRdKINOeH3lv/9PgNtefLGjjpclcAKMTj07aj9',
+  'jpopJ244R+oylyCDIAmZT3QOBke/9Dcwr+Asyre5gS22NL9uFeG9I9WMrts0XxuzxPfRLhmJGY+NRrG4eJYzBOUrJVvSeQCOF7Y6',
+  'zZ+OjvgdF+5KV7+SrM4M43vVSatreF6WY3sCRzr/PJqmJs23L7GCJQZzWoEiMlgAFTAnQjmJn+hRyxjSSoJZDNSMkNA5MjYp2IkU',
+  'KYpq/k81gDEaPjgCCYE6uG5krCjwd611H1TAVtGzslcFcZGqhZRTBS6VKeSQYYiXPDGL5qdDg00SzksxE898dA/RBCM1a4jKNvOE',
+  'Hx5H+O+XXD71jJ8MBBnVMXJDVTkyt8WrRw00q8IILjOYqlg4u0nFE5aWEjO7MCo/B4bCjt9j0U0mbfRB4ItDgn7x673XKYMNlb+v',
+  '/DBlu00yJazXlmu4ZyoODS9OvXmjuKsrkq9Zc7wFB9HdpSMQA2JMOyUMHZJHQKWzm8xxczGzvYhOoabpi8+GUqEEspWPsBX/4uX4',
+  'cUXRLGmdQLLgIcsuy4BHo8QNyg6Eq0uHiInVA7kFhQk0eT8NpsTh888N2453xoU8aCf+S1hfXpLFwtze0q2fi1DqjPB9iScQhKXc',
+  'bK1QCXszHbxti8f9nxR9EGL2msm5fvaDUokaaubNtqEaZrC4CiEmkHgTvyKfGhq8CDoSMwesLH2zaXIBJEfdOCUHeY+/FCJsRCu2',
+  'LOBsfNjPJNWwhuX2MWL4nL0OX8zJLN0wfK+38tpXwPaPgNfHiyAXPML5YpXpyHkwQ/fzrf9J++QakUUVPDav2bxXxiys1RqupNzY',
+  'TiqItT1d5BESkhryo8xdb1WMVDkh4UeW2DFqI/6dXAZ9TOQ4tkiUghVMeem/TBuI6+p4H8qTr0giUtB3up8QKGqHX/FWPNRb5/WW',
+  'LyDTRs+3jvXqNCqLVJKrguCChf5b9ooYYfSWKMkN5SmvEiyWDPS5bPSyK3+woD3X8GYEzqv/lKerzA5dQ9UwtwM3xZCzvos/3IpV',
+  'FidxYbEb6CHSmDAxOfvVOdmK2tahQcuSY5kS5trw4hdQ7Al5xFLAkUyqVmhK9+4Qmhe1kNWVOcnuLCC0/xspC6sZJus80mImTdsA',
+  'tX5BiyH/GB4yz4BvrjoKk9DouoZnuOIOK22StRJ/nxayHviFbPNKB9yuVmxjA2x9Js9Dz8zePaCKasAA0Gxcu8hPJZw7PCjGtG7C',
+  'oquIDuy9DFvE7Pv4dV4bHQ8O/cyJFnLEDM6mt9ZFta0grraCMIq+tSF3DuGCuq6vTaD4I3LPvcSq9Yp+jO7Yk/HulBJENmp8lF25',
+  'nB2GCbB4wAYY714ebZbBewB46OFbvnqNnxgcSa+5q4OE/PhfzXqJosZfRLhM0qWptm/AdFwLOXvsILzyilum9K/B63cxp83bdV85',
+  'yHV4hSCt2qg9d0XZ/hy5WU1jCCFB00DgjiiZanydHjpV/K41y26uBSf1ZkQO4faN/ZoQPIpAsIVS1qTI0DfZzpCdXVzmm4pGWBxf',
+  '8tLQgK4PcUlBjoIIh/4nAjh4H7huEbiKokO26MdBtiCgoNcMEvpav5/FlJf/OJ9thZ1k2uSIa405EFokSheFhKZb3OpsxaqOM8UM',
+  'Y2gQmtfL7Pu7tCy1CA4vZ+mu7NWtmHdZcWq5QB949xnK/6NHxAQCctbQbAKOUqWeGjeXUniLJNC5WoVKfDqXXXjYiWpGi9KN/aI0',
+  'kH845gei0NxZ0swbVpCIGdezNGVtkOn6wuKOtwHrD/cx0knRRjOsgaimrPq/IWNOTkAhM/qEWhbRrHoHrWzXElR8nlILFVqmIaPf',
+  'Gcil6XbdUBxqgjabpkIW29PcIg6e18OzFx12jDY+kIqLK6J9DWlhQuFKO4+cyGyHDGbf/S/3Ti77n4losyRR7JS0zyuSCsxgQqLD',
+  'vLXK2axuR+P8u8Ge9zWNOQXbhaQrd8Mpsju5xmWK1+dGKB/syim6U4Z2I7u5zwVfjIiZSkTKB/tEsGDSGNl90MVcqUpgUt7yBqia',
+  'qXWjxSqEmoghFlwh6XFm/yLks/03KyqawSO9cyGMQtJw5UPzYI6eWHFesCMPohrFJFYZxSmc8ijmmdTT3TzaUgWDwpopG4ffgntL',
+  '51PNGcVJp8fsLOhU/zAkAdTz6PzKBLCkPY3aXH71klJcOunYoHFKuLZNW4cc0pdKdhBpp+HWMYwJRecazk8i8dh8rRVeyZN+3/29',
+  '6G8tnqMnobkmRCN4SGjfH1ESl1aShBkXSbpJT7cZtYzwifTzvOskS68jdSFaynqagRN0ScPZeEexLZcKzGmFcasd8Z9mlix1247X',
+  'LhDBoFFETn5IQJ6MZdvzuefGbKAiFZok/4L2yvFOB5pSVa4E4ry534ixi9IoSWM0A24GmWHTNd4IzWJpRbFrDSpRLXBcAeqnLdNx',
+  '+KVgl5CAz/7d4hpaFeEJgOI0QYS2bupGCPhqCRcVC0x9zbpyPS7vIxOHapbaT92f9OJJwJVhBD+eTLkJEIS7xE/hJBhvvFd5rOS4',
+  'QTdVD7JF9seq/qf8oiuA3hpiYvzAiy5hzN4UavoOw89x9pnTILqHj3bZ9OLdxZi9XgTErRgpYe+zIBFXj/1kQibSZkPqXpK4VUhH',
+  '1W1HYlBNhMIpdRZsBgEDBtyjGBGqsJJvJtORko/sHd6XQ1/wSSq70HF61vtvXgvZU5vT/8fYYMhEq5TtCbIRsoFsWJmHmYT8zNUd',
+  'PICtKaHgbgk4FxZN+lyb7d+8NgkAD0+ElFe6HWkZBFc6DjPUl6F3/y65x/YpCr7CbyFc7l63tDMT2wE5s3+yYm/h+DR3O48N/I1O',
+  '+tOnul3psuerdEOsMy/Hv/tYKanWwTH7a+BDl0tWfDDLCHgDUKSzpOaj4AjPyA1t+g/iWmZb35RS72nT8diJ2QoatyELCgp2fF5g',
+  '79jUPfZaYqzqMPuQSEohfWDzg87YjaXy7TR4B9KcQbXcx1YHkJ+NAkB7WjqzII9bTj3zofHnrSPvh9AUB1kDayJ98lqCI9fs52yY',
+  '+t60uYOV2avA8Y1sgFXUYrUQXjIcV9ck3t82wDn/P792zH6onvBV9BUb4OUJzSFTOr/hg15Zg4w1bdBBXZGm8bAXuLQAosZbWuoc',
+  '1pRg4rROMyhZeYS3umw+///qdpDzhPjZpotWwb0FKJxtS1UvSZ6P/xUUI8P3v21ZW3TczLH5Cxlt5WdwTMXjyUMCtipLeZknrZTR',
+  'tjFFEHZs9eAuhFFAeABfw0W4hu0Ck7gIR2nYmk0Xpn4A2QVYTsCRG7oiVP370g/0B7ozUm/ZyNcnoPSLwqhm4AqWk+t08ME2FQSl',
+  'OsmKIP9qL0vhrBbew1YZXcIpqPE+oV97wDGdIpGLQEA4WizEsOXFoBDyhMPiGOmKXIp2ld5wZTCc4pazi/OW7bAr40smuc+u1yNb',
+  'DlCTdSdN9FXKauCsdxJvrxMdyL+5tIC3gHjfcqR5hbpGeBm6SpHCEUrGQZhBtQMpxeHaeZYO6MMRAyEW/9rqaSFvYv/4GN8wGswV',
+  'vu2WWC/4onNwMwCxa7QZD4V5qIJ45fbcFr9fgkjS8S/aNQoQikqMywEGmolyIRniVbJh/59Z2gvOP+NKlixEkgXskrwSQ9gTWEZs',
+  'OWwC9NAZ5gUSAVH5r4qe8BAykENfF2l8VX4UqP1BC/rOon6UNmSzRiR0JyvSjlSacEbHpzvGvWCliD2CtczJHsNIntTwEbQTpHEb',
+  'r0vqZUt+IT0z1EYjkm1kiiyyU4D7epAjsLVbklI1R2lQnM35v2+Ke6HRiJGFQnT1v1aZDbjRs1mcophmRQMIK2eqZ5n6a5az9Ri5',
+  'REcb0IJk/+IMb1vMHz/7IJDoAlbvCnK5iWD6VM0eguFl3navIiq+jM94FQTbacvalTFg/z1omgXfO/TxH8miay7haqYxAj8zpIEF',
+  'QRUi92yWfxYQEP1Vuugfsb8EN4yb+FKnS1kMb28TzCi5p8EuplO+xzfxY4hU+gsVsg6rOQ5NI+Z43fbpTQNVKYfAIOSRpHltdRoQ',
+  'Ry1ehA3VV0TA1NiIaTySLgpOjsPTCOcCO1aCQOL40uDKN06/TSEeAmx2yvrG5cAKn9mQYwOYBhfWA96BgfG9BNjmBDG718AQwjjL',
+  'AxZhVrBvUwMHFiFmas/Gt/VyRg1LuggBEgy6gt+7p0UL9bEUKcnTe4blGDRbDbU8hLwG1YDkVJSPaPmDS8wlSVjjQNIYb92JHh9W',
+  'fyRQjSd7hXMDhjgb8Aju3T/3TE0QijTO3okIraxO5JrG1u2XL+MNTEsNRSFcMPG4xOlKCJ3UTiqDo6PYYae7toI6YEQU6YraDRhf',
+  '7FDhDrodNVILDXR15U9Vy5srOvuvNVWcAzfzwrzsgp4sVROlX9FIMYtk0s/hckANrBnzc3mX5NmuOT1mae/6idn0uSaLeiWwkIMg',
+  'ntIXi7lt21wLSTae52mzJ5WOEjdLZ+R2WisVrfvhGAVp149IiyZPQh9m9KyF4LL9l7FiuU5SKLYbCaKoUBr5/oYNQ+FuRtgrQ4Cm',
+  '2HRXhp8LJvoYq7tMCkpKgneJhGEWpkBQ8FSbnF0xiNe9nZN+hscFc2zmQZRcYLd3cy7ZYBMt1i2SKNZc46D4k52UGn/BWVgmHtY5',
+  'oUzrkn9E6WyNCaT9ve8EACBnU8SAsZYJGWxzNAA+6UafRHZKlPN8jM2jRfdenWANdpxtSOObQy7a+JPwtCMNQ3Gj3kzv0Fq+uGiD',
+  'mmhHxCZNuJuHbWY0vsI5cu+Ul2oLYw8SNQepd9mVRFVNn1vZoAYPoy6tt/5kGFVvweGm1YO5xoyN/4cjkHQq7G9wdtWB5QPTKD+C',
+  '4AToHPJFRYYdcn3YNt5aaw6lQWTDhSEfjaK7+StmXXHtFTlC1NIxx5u3wzRg/8sE+j9/igwk1Reez7lm7JKNDZxib4AZNrDmBCci',
+  'miuUXTpun8NITrryyVxstG/wC5ytlJQeXOAmmQlihR7KhpYfCp1XSGTqRtEL/wbRhEXM7529gFu5jLg5HaKq3wNcQQDYyfTRFjkT',
+  'kfKLUMbh5dMLSs9ZGR2FnR6iCJD1+ViTK3fga2bSK15Uaz5DOwgzRFrjBTlO8CTFFyzRaxKEgh8A/WNJsx1NBpWKRM+YB3IrUeig',
+  'GyCkwQzjBWHGRKIzVLI2RuPlwFUZaOPS1NmpWZtWQ51RkWF9qIC3Dju5V17yhjDy/xLdNbEw+K6yfM2OkvxfnWfGTruFIgKYEuQN',
+  'VfVTnnGP/uJbLVurgx4gEUNA1ALs7ozaZWuSKWqDw2b4WPTuyjrkoUeXBBuohSuwEYOBVgSL4q36H7EHNcjeL44pOu+MVZUJQ+fR',
+  'mpNdN8dOGqXflA+TKqLB1b7LdVaS2eOHUPsmNRi44OLBgygdEssGi+ZNZz1nKC2hKfRHKKhhUZ/4t0f0R8uSThm86OnCcxMvg3BF',
+  'jC1Ljq1cF/ySZiC/HDyVHi08d03GsCtcIQwLoqBo4lmuev6UiTQBtLRExe6h4VVBSgUifFEjSrJQG4Ww2wFZ4UCHxh9V1EvJj0RZ',
+  'X7UAxPvV/FwdP3S2qh2yexOjDVKJY0VkdATCNU4Thgfm2CFqNalrRRv+2+qoeRz+k/sM2f7dp3JSq9K6ueDzrockorodKBqK+9DW',
+  '9sk0P3r7jkpitVh5duGgAdK2dgVBaZN2o5JQwFEO3aMwibY1mXTS0kBtWraT7rRU/2NdZO5UTM3IJMoKYx37Ti4SAyAXAhkw5/vd',
+  'Io75Aooe3wi6i64Ohw9YrdqActyE4bh7CpHE8QtITsStp9DNc6BVpOE6mwTXwuBHqTdqngOHpkwn4yjKkOrB/R6Ell46LJ8q8D6H',
+  'r8PFNYtFoiSsgL1wHn7uXChNMxxMwCO5wTerrlWsxVkkByazErmOEmCvAUnUsYtEu8trnC9Z1Aq5w+zI+Ov2ZXuyRbOPLDlePujV',
+  'btwSZ4ouZpvSHx2f0KlgCuOEQCIp7Ty5Fc66qH/lZJuf80lKCsN1OrKpqqmrdSnumzPJHCUSo6QHt24ASA03VjUhX6VlG35g2EAs',
+  'JsnP0N0gEL97mQcCR0teE1FEhSKrRT8Gkwur8WKj/uqS2DgS0QMputVpglp6/aIndPVLPmBV8EQ9rXS7Gjap1Ievl41v8f2cUjja',
+  'WAT52o+HivNYYGTvpSxGaMt/LAOBt0LHWPgGjmnHSsrL3GBwQ0g1uhisw85ZuqJK2C0FmHkToYu5/3Q+qOhPqtT//sRJPa8/8opz',
+  'larGtPkAWICYZtZw3324NJMsdLV+XFvCdMgEk25aGCAf/uv8eMavP7DKhXPjuY5YuHb/8HUgpIcopSJ/YS5X7M6WZpRx1rjk3Q4H',
+  'BL3sLcRFRcw8olO94N53FiOpAelwMM090PbZkxAh7yEa0lh+VCPduALO/liI4OMQJCececBsB1hqhN5JR+EGkGRqs2n9yri3NUJd',
+  '9uWEpE8tRLiDIci2sFPnpWyRADoCY6GNernsVLNvuOgzsmLT1CQ2tCefwp/j8aYRyerw8cU8+ft0rmZPxOF+h5wk6J/hr0r6luRT',
+  'sMqI9Ln4Ca4e/NvdABrNrJusAuzMwAay4ho2hq1sBp05a8MpLIDK59fIbR1lAN4/OLz8gSWHVG7zDmnpaHSKibibZe80AD61UHeX',
+  'YXa5vjcbCDwShCGgb5sdRLHNgQc5EVizpx71VhIlf6QAeSc5uZGx+b2m7MF9rbhBDnPCSk930dws+Uizs5qc7tGEXFOazzUv54C9',
+  'TVm1fCZJAfC/ylRP6tGfvIUZLhb5ZpkSw1MzQ7IhvaQTl94PlACVLFYfbYNGtmia/jgWCk1CS1VZ18pjJ6gcW8Sif+i3CgCKemUI',
+  'cvbEajVvj1aYCryDtSvTuAsCTV6mfyM0/67xMmFkBAXqEqxJvmHJNdbEi/GFT4EQB/JH4BaeC2LWNqvIWskzotP2DvxE1kgFjKpj',
+  'odr3wEhEf5ZrgTa/94opXhDhOaPk1YYuSYqYd1TC2Y0fXOo0Wjoy461v9mjIDa88qLP2KaQrqNzqJ4anS+JEPmAGgQzN67+Kb3+V',
+  'Wf97SMUpbErOmBduYXJXMOj14kC0s7gKVSUU8UWUIKmsQKUKYt/KED8lvcgon4SMOzESDAiyDmwfQEISk7afKaAkWMpbsJ2egyu7',
+  'WVI33FhUbTEkvU6q3WlbNhdZT0TxNLv4JpDMY8y62cQW52U8BZPcz0/LwLl0bKv4okapPXfC3zihR1f7zWOXLVZegby09fHrYU57',
+  'jzyyB0XGfC2KAOa4qew4Vdp+RMv6Er/MqzaYmNxDsqgQY8993BqUCII7RQHOs3JNa0oRAbNwmJYSW42kR9Gt8KZhYW9jLCtpNaLK',
+  'H5TrQWO54Mt5uYA+sLwVMNiYX4epg/XT0nmW/Ylm0GlaOLK5rS/YOVdMXilzmo0PHTNiQtWAJGY7NWmiZGHcR0J7FAqSR6xLS1ZO',
+  'VlZM0UzgXYV5b0kfSWLhN8cIQK33TgVGplb6YkCrzT2kDmiqoUa2TGb/9Aiqa6MldKSVt+kS53ZBk3NOuv3MUA2RXXQsGSPz2NU+',
+  '8RL9POVW38Xw7P7kIIyTYJKRFTq16SSGt2SLlTQ3MQFwdJBR+cDWa3/N7Z1TXhdk0EMlC2wX5DEJ5B9Fax9O74AT3BaNS8RIIFr1',
+  'RGvrjzByFp/StTPuF516r4fpVyPU2i1iHqb/0WDEDFCyLYYucOOs0HKHHS7lWpYMrMaEcapV6hfQ/5JCOx541L6d0kKlvLcGeZDq',
+  'mhSeWYJbsRnY27hs3riDuVdLmlGNE5iYl6d7fKwJETakUV/ywJYadzXh/lXhshJ3nyjprTov2v3AFct2rMlzxcxLIj+S759MXh72',
+  'r1Cez8sTw1JlHzKhldE65nXwM74FRI9i4lKZVOLHU7loRLkLlAX7qA9NJ7RmRcL6yysauJKxhj2goIwEYgah78VBKGGGzuo9EAkL',
+  '+fBwFw48KyLYGCTi4OIIn/eXDE7rLvenLn7oV+5ZPlpFkxD5zACyyraj6IMEEI0NXQm/FU1zhoqXTAeOMymN0lnnE0qOqiT6bWtS',
+  'mrYFLTILdexPin+TSnUwJYZ+tFYQ5aVMW0AFqIXtrG769CCGwJWZ2hyzeEMNvd1r7u6McKUfgnRKYMaobou0NMtmP0FgSTpe9Iac',
+  'jjm2AQDDw1oiK8S5q3S2kmc/RG8HSKBFNnDj8NbzCweIZLsddb5QZMnPKeSducqLEB/EoMJ5NdBQSdTE3QhYg7ChUDPcu7PCYOef',
+  'DYccg4ocqH3rltmC5GkNUN0CQiG6eXzcDyqSIujbvQkJ0dzDtSL/H+maQC3Oj+wQ/RmdDFk6asLRCHUtdDJ4l0Rw0VZsn1jFACm7',
+  'RJPT7e680K4V21Cy/gE0BodGQeKGxtCK6Y95W9ImodK2omhF1UfVchRK/3OEJX8ip1QIPVLps/7EfCFPO53LA9+tgdQNr7iXQEHD',
+  'qWjjt5xRCCGeYDITmlyDhLAAgMp3S+mlqW0kNlHyA6aV5gYoYMFq4mKYojfJbwA6MhK9fJ6rQMHbjf0+FBZkN3BpJHi1ivacIEzr',
+  'zZzRG+LVbr8JvbdPBUi1Mk/9i8buLlJFB+bEkinyZgfPSBo9ZoPMAdaxojpJAgSWVMyip1Jcl83xbjz7+ixllXtPcrw1QxdVoWPe',
+  'ApGZn6aWxfxlQ0/ZGsJlhQVKeqJKIO9pp7vBK2xGjUBlDqXl+Oy5P8pWl5/9INDmNMVDhKntcPsNRjx7jPs08rZUbSMiyKzz7Jv7',
+  'xULVNe6mi26GXTKfrn6iYJ9B5i/D/6A+fj3s7pFVgFRbGCwj5ByS0F9VsyJP1hQuKzJOI58C3s68D2ya3eldEnsRMkfvKBzwpIJZ',
+  'CKT8RPd265z9hDAI0ho6Jx4++NwkkjWmUSE4JgGu10Zob5NvshSFSkpLkgMEHBlEjpt+R2WW6/ttabv9+yIfcaYA2MFkEGOWEwAY',
+  'YTuQIgmbJNTJ+LpdLMqwRIYhxVlp3+AKx1K9UDMBbj3Bo62tljZ8gllJ/By+sKyW5SgUBiTsC/943rWUQtemOEpeaB2cMDiAxBqx',
+  '/UFKS1vYJajfRcdH8UNH3ARCRpPkMnUaA0pGI7ARqB2ytRrWRuKAEkr1cTqlCdxq/vay/xfHQtOlzXTg4m1zhdfLlJWcgXuMM6WU',
+  'iro0kZ3G1nIwYBKFwtoQUCd5/GNnaxRaZb5Ftp7ekr5LfolOmyJiOg/iAl6RrUwsO2i3U5ZG3Y7zeY5fYzTcpVB0wpbHNaMXv2Qf',
+  'HnWC3BHaA0+OsvinmT1IEe2eyxi2vjjEQEJpj8IpRjDt4by4l9A0EFrYE209Dc48sM+5RFoThhupIuGtfQrpPdp1XlOTCgp2RNbu',
+  'Yzxghv+5g7tAZEbyHQbdZvBcBLm22fn13+O16CFOXTJkWiXOpWmUTDSTXw4jAEZXCnDvFS5dusNQ15fa5Hz+I75DLFhJPD9BSueX',
+  'C7Cy9FcnfXgwku70S57Y+ItSbb9LJ+kTBi/S4tVP9tJEF8YCYZvJbj4afM9n9kkM2iScNAL53bF7nZGQGm9eR1O/xvBUcaQKTxxz',
+  'KaMUQ7K+0m2zIAQNhCgWNR1ZDHB2tjP666A3d4Sk4ULwOtSW6ljFzq1VdzDsxGfIqHQWENW9m/M+UgqCbNL9aMFCmlXzU7OBrrDQ',
+  'kocFYGXK3AaoBSV5nkWBWjRUj4hE5p7b+n8Hi46KkRHpAM+FqdHKz15LWLIpA7M0eYRluTAvwAp2k/DE451kzDOVfc6InMC8VoLB',
+  'IIJiEF5Dk2aHQDoFTBmtRhVv+foc44bMFRN0zTVsBppCr3aB0RcuXer9r4Cg01VWwyuBZUIgpOQug4GKcKRXtmjTU6WOJCFFeNug',
+  'vyxTAVJ4fnxCOXQIIY0SgPTYokoDCM5Smn/6Iw7CCWm4V5FcroCQc+GN/ONCPbFInbr0qXDPILNcyuh+iY2G5ulQAYJaaujLjSr2',
+  'ZRaVSFVW6WsuLHhvLSa8rodVrzI8bs5c10TyI+Gy/eJpGTqlVByfKRRutj3g04SB7eVXQW07fkW5CzsUWIZ5WqckgTgZTX+/6DTD',
+  'baLiUMKcs5a0Rblmu4GMewnz1moiKE1OqYo4E+hQKeCQCn3mhCetq+YX0Q5KW2Y6GPhsZe7v+5paEevaZk2JeReCxjMx76tkwfde',
+  'hiQgpTsG9Kx37srIKoi6IMbtaGj6FB0ZtZG6q3/xnyf2QseBBBpWW5fHe4P+Dw/HOxWP4vAyA6avj4dbNbB/rkGDx1KJoUGGNcJC',
+  'rkiiC4gukxjFN4FI/pw6Oybu4afXvmDAejDbTa10hIsSJ5HdG6cY0TatBctC5y2v4p/2R+4W0PgWtWyN1A8G9xIASaCctFU1HMAg',
+  'ZcMSFjmWtegdGx4goMwdkUcBOLJRYjDotWAafO00AcUR8comjGPxMBitAm1fvs4G4COYI8fCTOEpZVhwb9/WEWfZdnpbYF/wQj4A',
+  'A0pd49vAmGRzrGOhmWoftwJDoPvpdzZXHi54LXNSCbM8HwQG/bbChNGc54CpabQ9y5DOigsKGuwRk7VtYMfqHg4V2i2RAY1o4rUM',
+  'K35WLjuP5/ywdCbgnuTYBGdVvqoLy7ZwO4VcmI28+Ke3FZjYeZqA99wWg+p6moLPseiitH+7WajEENKz7yTjtqHP/G2Q2PrfCaIo',
+  'XABTIMHV64JjO7/o1/9y/rU5S1LxIwvY2OqJV9HZ8L+oYjDj8xWER6toxU4YlDj1dqaP4QAtJMbNEUYmeZ3dWgJaB4HxHdSFvQcT',
+  'S1KWPgHMth6pBnRoyrljpsbcBomRdLJnJN7niowAysInV7m9c2pk8Ya1/edu2XJGayIEob/fgUi85co0JaskGAX84VHSwmDQmsqQ',
+  'iIjE8gMXjYG/HpPi3nx1H0f1JIZ9iNcF5noYsaSZRVg/TP9EHwIORbfC+tyYR3Bo1sxQva0wtGBwNcelkw1IsJJcznJTr9PNWJe/',
+  'YRP0HR/+7ykiSSX3wYBiqmU8AjmBBahTJLBZ4W8o9SCWEw43IsZkymy+tjurT0V1bpbd/PATfbs8WxZiKZph+EWw0/lpw3PFVjri',
+  'QqsbvsIv8oVSITXk5vlEoBbJ2moQhVVS0gOFOB5sTUYpxOwghBZAE6lWd5i7ahrjJkxGwTrQTOIptdwARO9X9Is9lw4xbRSZ32VJ',
+  'aQEJsJxP8lvrG+SHmt2Ju88lJD3zduRxbq6/035yCjeB17D7asSKnx8MHoCKcPGuOtyKv6SsHyMnSuRJISyTfbrfAQDW0zoKHB0c',
+  'P0iVsfTUjjgeC1fb8ZwJpeME14vfqZIUhAaIpXlZqV48JBlKHlTr/Ra68TkBxHLUmoQujYGoZdYF5Qj6CPmr3cUaZFg4WK+xczkr',
+  'A1jis/ujvQkBgu5HyxcITZvPbTsmtP6iPIlsgEbXqaq/NOg84R3k6FGO42zxC9DsgQvkTjeX++0j9aGqjeI16CE9801ZWZTl/87H',
+  'TKWWQ0nywx6WkQa1BARhuZGRhAOHaxkHWrpJMlnvXJa+iuV+knayz5A4/gp213zjVzGzIluUA1ceRmSHbGI+s34piYapyDq29li0',
+  'PTVp/xOPRu4fiKnBEa+wFLg90SDz8SqnuJDgIfLw2MMGznDD6dIqPD2eumwQevLEvgksoBPZ0bKuMBSzSmofwPBDMPJK80VOlMJ3',
+  'Uejxgno5ae611BRLh8TCnyN8wSNh2kJDqUKO1Ca5E7jRkJ9+HzXmTg/6xeER/aj12PYj09KpGmbE2VAS5EEtDa+mRu1N8qwM6GcL',
+  'KssPWsR/TZXmfS6NdN7ik42MkPlWpc0iKUY0+IJbGBOg6SJ8pZJEiht3mQ3yafp8dQ1kFUSX9GlWc38/j7mq5IETlQGPoL9FrS9W',
+  'wUhbWjiRErt/UhjJMAUdwBS8v50m6pY1HEm8MTmrFbi6Dvaz/cbsUzjD+cfuinNpXAvS4x1gozvLZGlkA+8OIlLCnt9fGmL7ngFU',
+  '9NtyR1rf5NuBw8ih3YQyOl9WD6CCGVDXIQ2QvysA6uRA84DwVSW9Umdl3fAxUjctCu/BqnGTxXyfYQM3opJtM01wC/gFNzFF1j1z',
+  'Cw1ckLBzZMpl3l6lxUPnD92lJij1MtqzHt6ZEYPLdzH0Yoyz+G9GvDC0KZKITl727SJgQwUgBIIgr3AaDm/PHVSpDk9/IGBh86MG',
+  'mmAvTxEKYBxC/M2COP1WJ6RkT5lln3B7k2baDTxGAV1bhz4kkCYoW7NHn9UYQCsdVg4Jk1YAOzmjjhCl5cHeY5wtt36Il0AilNDF',
+  '0bB3H2oOBjAmZP/7V9vwECCNLPAtvnQjSGlyYpomSfwk70fyCTEQ0R/f1pDWSHKN9N02oRIuA4SCUFwMvF9P4LH+8J0y4r5QOfWs',
+  'dpiPv7qKzvabOs8pVg0Ut7U2CBplugAPCIn1BDpjDw1B+hGeSYNw1t91RM4UANc6r8qzBDqDFork83/BJmva7sbaqxj1S0Xa2KxA',
+  'jlZS0E7iDaCczxDxxmigCsGlBJJQzcwZYXraAuHP2KoSQji9TrL31KNsXxAx5EetcygyzK6q2Y2CZnuMmOydJRoDM8moRMvtijt6',
+  'uaFVXeP3C2IecwSzFEg2rrt7ttV2VDax1ynLKP+Vd4xWoDnf7zFGaJztPU6Eb6bkFPl6daMFqbjIH1izorw0vq0K9Nbj6GEM65j8',
+  'JlXfXYWiGl9fmbpMlKir0cZAkl7XnOfUn1h4pg4cTMY2u9q4/XtoQxs1CXwogKlke1AWc3txBHYZzk+skpJtHSFM3Ljz/3mGCp4W',
+  'gRNQ2uR4brPTcoBz3DHrZyvKHDucJwMnrq+WFOU/duJFuaK6AXxZnssOA6GLcF46Vh0Qm0e1atuqmhkmiwd5OjrkjU/VEAaoImZf',
+  'as9j/LKUkj6so03egDKD5N5OE+wseFXwhDEFUSWXWMCrcCYRSDgoXHdwacleLR6EyVALfoU70/wqIxLSelmv1QLNiRgl/N4rGSLE',
+  'pVti7c4Gwj/SKdMSaR50FpOfn7UFsvlYbOtFaMvKphkl0DJWJqLRM3KhS44sl6rQ9XKUUVCkmMzzt8CeYrWRf4uC3V/zgpEYPDn8',
+  'V1Kx1zFaW9JSQULU9HRiaKtkJer3+sWTtK8EwpcUpRaQza45jn1FMGw+VdPcFRvNzQ1h8INJ2GcxLEtsq8Z9FePhFU+c8B1F6dYh',
+  '67iuabVBeMwJWwDtmJQxPAWloIOAqCiv6BVHzOprvF+qsOnWLc70cr+JuvAObTkt2BUy/QcCaQKz+LYfCpmfuqs8TBdgjjJY3Sgo',
+  'aisalBLC8baxPcZwXVXa6hkrm9wLyqdJ0uAIbFUt5xFmZbopazNkICKFQmc6jIDlS81ZSIezjuEMv6VDx1lK/+qKhnwlA7s6RQe8',
+  'FRBZln5tt9uNlhTmLIACDCABcwSLcsOm5SMWm72orpdcOFdWuTxv6h4XUx1po/M7DXph9raT9KjXkdqllHlupJRUrcbxeHA8nt3c',
+  'CLzKXWdT+iPU597h+4rCllhfnMD1ET4r0+vIcP4jCEkIDBs+i6lHFccw1IbQlg0nKDhzyw0Vfc7ipm4ctNbGSnWQbHQnrGMFs8gC',
+  'rAwi5d3a6liJeD0FdArfKNJEKBGxc8sXkpHmCjm33Snwk7Ng896QHfrey8iqoIG3GakIwxxuG9sqRTuM/WdTKHOg0IZdxBzCu/1r',
+  'K5HLmZNh4E+FN8/Y9j6bU69NzdJQq0AL5bLeVOu8zOSoIqYengVxfmwTahiLi9eilMjFzoGVcvLD5KZMUbwHyf0TsJtcByo+u6tz',
+  '3akq18bSr8upxb8a6W9Z3QrQo9ACCHdSXdk5a/zov8GYEvznPPbEYCCkqR7pHGjMMFZjdiXMj+HKg5lZi2d3H3HOJS4PfCT92lKQ',
+  'jluQdGIKGhjLwGPmq9PUipZUYLPULfKxH45YpI8AZdnKw5x9lS8yDQxYf3odfffXaVONqXBTGyeGlmJZUeVXjfbRoBUH4NtSY3ex',
+  'Xq2qbtwftv0l1Gk8vJd8oGH20/wiSO1CnAkUSgcn0KSzHXpsVKwG0mfJvpUDuwAZFkIDhNiEu5FY+gJm1bgUyFdR75ENiiNHhZld',
+  '6uSg8Vn+ApdShbNp3D3EBHAV60gDGx1g8WAgxLTtEnjMfSmDKEL8D4p3AMpQZcm4Yzz4Uk+EZMBuynXbH6BR5IVuUKQLmbLn6dbO',
+  'PTPfqIP2EZ1ykiWQmlEYdf3Ir3L2BRu4jF+uSo3/Cs8NuECh22i2lX8uqDZ+8JmlOjPNxmnHGu9dL0oFLYL3ObFbcOZ/ZehCQ6G4',
+  'hnmqm8Mi17mrkPLyjp7QWrAUcFKNhSgXDSEwP8PxSyFznwPEMaa6FKk3CRf6IJZboGq6Zg5kVv1U/p9VR+pRSqcEgq9L6O+nKbtr',
+  'CqHflYhwtseEs2jnGkuSGGOYmMAg5XgpAApdxtCduh4PdsQRroSqPaxIyP1hjNbgz4oEIaHLwNg2PxXAghjxUD6IkbK+4R9i+hB5',
+  'ya7g6W5znREZwzDXrttGcTBgZviacS8bKhigfdEZUDS5veJQlr5E8t+yidIrzwuifhBx7/bcq6PGIwTikmXRAPXIBIiMrBp2bfDM',
+  'g9q73IxhtHA8u1JMfPlIPyqC0eZLP7CPry1Oo7kOWiz0xQb2nilT08oNwDEZCJnD6t9yfRN993wD+beoZiLZXLQtd4RwhVW/Shmh',
+  '1VhbKT1ASeIIoaIgh2SJksQMvnEQVMnJrjAMOdSi5kRpxWc4qbs1m1nLp2W3vGHWHC5/wzM4tcIOA4VMK8wBp4wb+B/yg/2V2lc7',
+  'm40YF5KfPgREsOK5x+WpIjJ2sl+gKjAghM5FRjqoLriyYwRrJQAGSWV/MFRVhDkpsscxvVo7wBi6xb+GVJxSqjN7azrQUeWQiNs+',
+  'wflAOpI2swOknRtN+QP9ZWH71fMZFyl9IIQ5hi2L2h4ap4Vv7AvSMJX7vjOFguzlJ90Ioq2r4T2B4Npkm4H453oMEqHqx77NROD6',
+  'UwmUZ8lcSGd/e6EtdWSzod8Uh73kkxPMHRDNXK78uB15rc81MPddoIB/ADZTDLjD03Yo68x+s2ulb/svzw+3SJDclzigO7H28Jox',
+  'TkFg9GZnhlCsX09pxZD77vCSAAVIBbH8ktw5iizP6xvL6G6vEjtkkrrEShJIQl4wxBmiw7kSVM2x/QsaVpgz2Y0OJvFtrZXeyVRB',
+  '2XYXH41X/b2YQvrApC+6Unz/BgL/ZHaC1aNWGduKY+PyVCYOUAcZGbueiuc2WbGOzCq7Um2tVzgXe6J85API6njCvH7H+x0Qtfj1',
+  'vWyymcidq8LtLXglgOsKbhIdHhin1xsC/iz1kpp6NUWzzeGAhXQao0e20a6Ad9lmg+e2pYiiFdqvZyK5In3E/s/7+v6OUy9GKYQ1',
+  'Yl67Tfpk1poX9jI9O0I8E9E/uIL+ZjUeLHvAJV/BAMAorx1WBJuYUX8i0fTlVdMFTxpAMr0LlOSCdMuIMDmnaKbsDkH1feAg8I+M',
+  'pQWYH7I8tLvSEK5puuWP9y4e5jT4Dawf4yulUCjuFP7O8duwysK6B523zNL3A8H3JluthgktHK5wco4m+YCDe6MeC40ZCPB+ig2c',
+  '/dnIKNvIJQZTlatzyTXua5qYzGgxUW2FHSWDTZCs5uUZdtsY85xpKY5p65XINAFMEU4z2JbFjpRzS0UQ/BwkKn/Okmo59jsuDGMH',
+  'LOUDNQAPQezdgslv5bm8cLGvVhs8pIbNtGHmvaCYZkFh4zHO/s7d9unVuJr2/T9G7/22As0Z79FYzjIDe0UOR+mPsQ5GFIXuIRl6',
+  'CdBJ/QzxBliEkD7akdCFoOpRFvYc9pFEj6wvTWdh33kJhNDl/2L0HnryQ3RnnZ+UQTHJinLZdqUMWto5K7PhNNRpInNTocQkxmUw',
+  'NpiD0D0xxfzslzU2KjgqpzDiPMJCdIMayCUFC4NIWdC/LDpoQ9wSlFbCjJhgeAQl6TCuptqH+vtgyv8KTrqB+T1ve995jecia4G6',
+  'teZRu7tiCvncu84sdDi/8GYuF9VWOpLliGj5W6OWQhuWTpiX49USwnMBHICb4rGhIbbw/TPRbFclP4pX9TokuRbncXT1LCq8cRVy',
+  'erQzMa3JyM8b4T+0HEcSW+GtUOoK1l+JNhs6S3fBXUohCYOaOYpbn5fy3xXunKpXvIQKNoQ8zTnBVpr6F85/17HOtEo6remq2NuZ',
+  'wvqvhZtEaIUKT8CmNFx4rs3lHxSVNE1FwMYWOl7iwxUkh91LheTILGYuIJJN0GevgaBWZ9n55xnDblF9BGOBR0fGMjRLlcdl3SIg',
+  'hh6IpFzRRKZ3dRj1IaXFs7qnXJ7yE6bprsy2EOldIWLIH7hQZTgwKmCs42Yz9xJuvK/jkG545E6ouJWG9cnGo3+XvgGy4CUuNfGl',
+  'yHvk9oYooOWvv4I+eg7iyrT45uoilvvKFuucAb8S1SGuaStYtupKlzOiQMSOcFgHShn7+0HK6FlbvxOS0Z3K8LvBBoqDTthY3nos',
+  'izCNWXqGOtKGKh38g3bxbpl4N7K/7KX16RGNlM2SmtS4UnAeHouDAp8U9ciIMiUQZa85KzmUiUCrRytw5twIroK6cTwzTkqSWN7P',
+  'MNlM430fuiMQZlOMBnW779Nfh/1V5PffUbtJr+8M/GXff+hdIN7fTA7CP3Eho3EF87dboF4aqantTHIEm/BZCm5ftXZrYzSjFUpK',
+  'hC10g77tEkWuJcnHWCXmoongo1HY6TGH354URzdYh9PNNhd+P/pJcoEPZpnA5g0K7jl6w8xFBiyTUc+fuLwXZ03VipqYAWQTlSYd',
+  'oeBkumbsJwPXVS+eaJFohYBA2EUR8AwPxXhOEpaRWQS7UeTqdwwne7k1L5u1Bbtfg+nzhw9qbN3PbDUqygVNStlw6z113Da7DZs2',
+  'CIotvyRrSZswGbwPZeyqByg9i7s3eTv5DOPdwgIUo47BkrJl+TwVVb051YA14lw3LEm8y5wzE9ph2Lp8JXMrauJPqCEEqfrNrlj6',
+  'SVMpezZ6dKuf4dVqKw+rDaqRk9uwJ/mTFZL3L+5ydICLgpfM68bGNCskAEAdKzaG3n/UVXXwchbX9hMxQr05MjCoBU61iyj5exIR',
+  'HoaPIGQg7vjFckS4HXXmECcKvcffGLhBHz5tnUj7YRvVZRDpnfqzEiXVcRoCeDdPDewtLDgFAbXa9sPpZ1dYfzGBf2DpwCtlQnvW',
+  'LVHMlsIPJMzCgmUQCwD1A2Bnj28eh9mq4OqxRnAqdGj6CiX2Hseq6arsjpF3G1gBIwHpFNMER7Ka97rHsYzqVEuSSCCumBDzDjNf',
+  'yTWaieAO4DVuKrq6eim0bDSGSLGSKwGAlfwj7yYDh5WdtUF/3kD4ZyugvtWaQyDlpbwjdfJO0fK0+GEfaoN2ppW0sgfbj6EG0ARV',
+  '1quKf2XEkC05ScEyskdbuqc0srBk18znGL/tRSO+3n03AeTmnD2WSYWlIdEABkSWQBmxz+4iYE+t5rbHMBWMMvdPou8ul+Odml9s',
+  'aLYQ7vkeSn+Nur4k23N+K1OW2Yt5sLgHlircGWTjKqSTf2uucq/PZaTF/0EQukDpoJysoSoIdHVMUvQpfqDZtUkLGSVGmBM+K58m',
+  'SIhkmyXX5DAr8fJKsFIoGX9Q9o8qJlryVDSiRyq3uKv9x+6HojWDM64TE82QxfhRIdOmh9zOOoYRo7eWblUiUcR8c9Fx0Btn9ZiZ',
+  'ZDQkv6mDKWQWySv9UbCpy8iCGOFE6A11MT/PVIMyG1VmlAGaHUNNSEnsR2G+yXyCNHM8Wa+gble/mBaX1CuuCuHyEstpSHRSE7jT',
+  'fA/HRcf77MGxqh/vRZnRA/Bpnia0pYsqmCOYkOR5uhZ/xIXhVv2kxNRXctgmNXYRsavBEm8MgplxT9LQIliJUTbtSEB0y9Lxbe/x',
+  'eOZTlJ2JFFQnkEAB+WyvI0irxXL4ZZw8+fjfOGlVqZlcYiWHvESW5ByUQpHqku/hnva/opNhmTFPKIFYkDaR3ubUMtcXvFg8ODhu',
+  'JHmkJD0IoMhBqTwp9bgR9uAMD331DJ0bDd/FW8mfqCN9TR1X05RqbFSe77EWpsGX1Qs8wRcJOEAMUGyYJJd9ghF7z8aqOd/RD0Ru',
+  'DgkzLiJLloHJUBCl0k43rNQMJbezS3W3tmIPBv1lbURWoNmj/VwMZZBpjJYcNdYj7QSLQEMuqCK1Kk8FsmDj9DsWdZ9Qs6+LCouP',
+  '+ZqAA3YcQDIDEtw1GzyHhn3aifszcGAj3psBjL+tFcd5AScgxDLtDhK/StBmOwyezxa/o2U9VZbBH6pHmU2UvJKp2WFIEu2DEhOX',
+  'mZm49H3Zi0k/6U2SdZ/80qCEmUxb+bP+faOnfCvAFqV5g/Ynqn7n3MDvYsqggqUZkw03QH8GnMeTvXY3IR0tpkSKrz2jqEHwTQ3b',
+  'zCl4UgiD9niUJqbjdyTTOlcsGWjRlaidyhm+cNAa5yUwR1PQE3p2iorXC7O+QLu/Lop7W4g9D1fNnI5qeKhxjJwzTGOFKVlEziYc',
+  'sszUC+GmXEQtjyZ+9UnHqGFnzr6okfa3YwCfJY77Uj3Ab+Q1Vs1fVEVWwOd1Tq82yAbYM/ExhupYx7XRNAipCOwim6f5dxsjQt3q',
+  'mRNJ7J9Sb+q3pKUKCCxrAIHjeMDME1gC2rNCLA176y8fvGz2UzbvsvepL/gq4ENhmuSaB04OlXVu3utifmWgwfc6wfpeZUTGHUj5',
+  'R4VcU79P4nzStGdKuO6UWxlUiLHvjfpiFoNiECOOE5s8hz+mI4gqDZmZlmGLFzGwdXwEoqa+wx0bOyYwNRE7dff0aafcSkP8Tut9',
+  '35wiQeJR+tNRQtiKQUugLnpej+35mxm8o4VkkRMznqK5pIOCvAO63I++fMFqtkPtsGToI3LpogxRQ4FX2bXNoe5jZBgKk26BwgXg',
+  'bHYsWMXzob50a2kVBVNqpAuszSO4bMFDXvGJosMThfwtDDKJYutQlXX5MP3AkMPGFeTKWNl8+bmVs+kxsO5ffH2SgGhWWk4IFHCu',
+  'QyhHV8xw8QA+oSXEaS+tSVNni0Pe8cflRsZB15dEkzGOChCK/t7XoEGl1ammx5s8QZxlpYRkOnnxWKHek/5ccTRRZjjPXRzezI6q',
+  'rwfpVhm6BLyo7nTo1IYsddEbv8RL62GTKjRKEL6NV3xYdEvXeBFibWjHeZR7QPH6s1M1fnMRaEDmGtarIUvWQgg6Pcr/5qByChZe',
+  'vSQzdhcR34ZoxK+Fj9jZOKBzP4bSD4LqGyb4QyAff6eQyXe+sNEkBNiPuklSNIQ88pkqE1tHc4iwN2dy0dc+qBo6zrb94A63QJVj',
+  'tl8iNXK/h3IbisQLhwmoiJ92AkgFlS8zT+x3MD98HbMeNRhhaNvpg7uENXg/9OjIMGjV3JsGI3iFqiEiBOrVVKqk3ippTP4TI7VJ',
+  '4Oj1XN9UJIcvzFw2b71dSJH0FoVprz+cupcellLcILO8ddy3u1oYelQJ0IYwHeVAiZkpeYG/SUQ6kt9ixRouxOpm+91qRKnoTRia',
+  'ISn2v4/+NGYc0Kk9J14J7FaZU1hNNRaFpBoTrd7jC4EPuSsT2/h+S4S0KZA5vuOdRTHpPjTzAs0ITN9gp/MHYljEFuwFAYg/NYab',
+  '2e9hi/Y/qSxtrCtqutOi01kdYINBGOH656kPKgOB/VjGYcSnlK84aE+z+NxGJfw3CSdswVE1e4ZyjGK9IyTH3FjH6ws8lNXxKm02',
+  'qJIqsm7CSNikDBmQPYGwV4bJurxPkX1vbCTQ/crkSw2TCKkoYpatn/iaGHd6Fe2HJhIevGeUSSeMKL4HQOJCl8c1SZHleDuFN0PX',
+  'TOaOpM5+YGtpc93SH5bGorJhSgIHY6IWwMKzhAUVO1m2XWN91ztCgA8hkBt/4FYNow28CXflJq8kYKRs4a/Bp93A87Y+K5OUA3+x',
+  'cIVP42dyEySec4H5wdmW5FT0AYkym8ZM479hk7eRyIAZe7lXMwn8/UNnokq0Tb9KzLMiKE5c2lA96xmTaRf/a/RMy7H8UV50UkGI',
+  'T4YvqvogZ5ljX4Oy8oZ2FMZCjBLV+XatqmXg3amb8DQhDkOtexFopp6zHMBXbOeXXR8DL3hYPGvCJfUKHmBwDrUyrK+3lJDHK4Sp',
+  'Tp+QvJGMoNC9RYnMWAxw/v34eXDtllXOnaNMMNz3MJaRiVzwQ4+zwQkYxAnTpVXdXZrVvh5lc7pJynnnO9fZYdMTdUvPw6/pI+Ed',
+  '+gSV7+ScCyCZ2TGC7w65vFQpQAvaTQDfSYwiE3AQIBt6aRs6lBcHrAoye+HVMYxMAscOUIhJ6aXwuZUYcvzjH9fkPYbzwgOP57pq',
+  'WzD/UnrBdUxOZMARcp2VaLWFbSoE7GGxw1/E4x5tee2tRUpCYIp3iYD1EhU7b5ztBx/88Alakng4S4R8jZmPT3T/NpwR3sT5sSLi',
+  '763iaMm05V6CcU424GUAUBpX+QV0iQ1isMMB9Dn4cLpNvgvMmw5nIPTfc8MoirIDTOsFCMXJQETNCjPB5KSk0H9bStArZAiqw9QP',
+  'llvNxiXk7x5AdHArKKzGQutwBpWpYxqv1KuK0J61lnpxcURJ7XMmXgnqMQv3wVgAUMqZdbok9LZCHjNfPssbYbVpsT8FJ6sg3rhB',
+  'weJRMSjbtok1feGRut+Xcepv3vsWPRNKKKn0IfMMX6vajnjO94IYaKBDWDc/OiFqF/zUSAbO5+rQF4fBo5m0RrtdOlgPnPS6euAg',
+  'q87QHy2lLzqFNLQuOpPSEeMAqekf1RgzsrVfbonxMZqHQAj3ExYVNNUv1mjRIkNm9kOLEwVJAt6QdUNW8b8NYoAytEa2YS6LdWB+',
+  'KJCpxq7GtSZCoa3VFLNfKsnaILPbKQ+RKsUDCWMknVGmX4tvY/XhGF+lveoVZBCyikHKN8/vsPwc8Xp6uj3tuuggpB+upoywZcaO',
+  'omRy/IqNS3Cmfiahn9AhqZeQwThlEyG0LHs5kZ7utWqr3s00a3IZL80YNkoQprYhVXToUZfFQF7JyawR+WX/ajmFgcpSRhh8DwKa',
+  '7fCozF2HYZsYaFCDJKc3htBhIhwMj2J3qjjDzFLPIXs/fkUgiqCvsbymecEY5b3utFKRbK15C7+GxkkmXrUxyDXRQyLMjnGbpx7u',
+  '64jiOP+RL8nrUrP4FlGw0FMdCXixv9xz4aE0fBNpFPYaQ3wF+3F1OCkdpa0zTor4pqYSHHBDoKqVOQEyveTieZq+R/BbXkREQ1N7',
+  'O9N3rUxzJ4stIc6UZJCVpdwB/5i13ZYZfrzpr6a5SMs8GKJV4dqI4QbgFsQimTYBJfquxKhvwTVV1ABneNSjkZiS1Sgle+BHXEM8',
+  'UiCX/mTUbcoizeBYCCzW3zFaI2k075mvAgF8DJroCgmGYjZT9h8KLfi6FMuCY6IA6AocsoUot3E7R1UDC+9KXtAFqd6zsLmFn5dZ',
+  'OsIkrNO1E8L/4SrGRFHe2LS8erBL+oUBD9YtcgYzghgSnwUJRXKinIOENDmedx5AIqaQVUAfpMWPJc+PI79vTFEAFSYyAOxv5P2x',
+  'KG+Ab4RMXrp8apyoxmRmmnTbzzogF9B5USgkovQZHMw+yn6wni4TDaeehJWeorrCQq8eTr2CaRhbBWnDKg1IpDceOwBuZBY6ytk4',
+  'P3bce+D964lV6QOwAQ9JfbTPdM4isauyyhduB+3R56L96c2YHM8U3i3sGnaegXrC9e8bcaxCF2lVpl1Sa0gtamRgusSg4S/7bOfS',
+  'tnEw9n+ZVI3yEOoDtpZyyrWq2KZB6nEuSALErzRZElvTqVF9zSna274NmPw/mb9dWk5Kzt4uLY4oMvI/yqQj89JXBVHfrcliy4VK',
+  'hA3YghD8kOQeBWsameXUiPAVMFojlPAB3+kQunwC55UvjMd6o3zNAXEO1jQneCDazQC6+CXNY4hVJnnUCJtG/kSlCvg1srf5a+sW',
+  '1pOTXzpK1AAQfsys1HrNVrWMQpqtuOtBAwfaObXE5HyVppJ9owkyd0lCvuigTi2hEkCg1L8CFXmKuSaohiyorkjF075doVukGawA',
+  'kE3DR9NWTBFpV4LoAyFIcJtAKUQi9TbERMD4lxBGHuWwFzDz0xFDCxzVRf9B4HTL/fYapDdHiBIS0cPRaN9W53sIl70UWNQRvYZI',
+  'lH1VNLWA+5vdAUZpe6JAIz7g1E36DR9VCXcSdM+fPqUl1N2/ChTPHDE5Gjm9YZp0az8RB5k6T19JCpjBFDEdSKW9n4LVhKOnKK2C',
+  'KYV6bhayUdlfdCBteEfFCyzEBK5YarE9eeadFHQ6Z3yASbYq8lOVb2AGVggB9PRe1aku7/ZG5MblZziw333p8ULJ2iWncxTWu++C',
+  '7p8Qjvuf9RNDMH94gscZ90xStnUt6qMnWTlgh/RYxqE7/AXAtHL9VW+XAlC1Y9Voy6aqxqMaT2M+Snh/DlU7VvX2Ah0+B2WgTJEA',
+  'yn4LTbtINE3EmQapVnTd5ngDf6/drpCX8s+knhGyn358nomSOiisDCBMxEGqIlLkEJCJaHSV7BMPBl+tWCzgpzJEe4xxsP/hoyru',
+  '4UFEF0wIGsZ1EOYMUR0F66xLjIity5J8O0q2hBozMoBZEnE+9QIbid/zubwFwdMk/2RF9nqtTKdxu4RGnYcGw8YM3fJfxvWxEH5z',
+  'mygu8nlkSks+004dcX3fBV1vqoVk2KRIqgeHiQr/9GXB3daR1h+PtV51bp5TMvMZbNlZwEmhKB2YqALbf3LyZW4GQMDKqI9f33qG',
+  'M9AxzMg/renS1hc2tfJK3bWaSHpiqG46JvXZzzN95AmBbSvXyU/WNkx+kkl/mquH6oFUnwSPoBP4I8gtX9MB8RNRrEEMv/CELAUL',
+  'uZcraCH/iVK2sB3BSKdn7pEoXNUmL9/SGntFJer7PREmYbFJ2JS4i7nmEgwXNfZZztDGljdo5Rg0x7y+h8KFfm+QxM7D4o+c5/HQ',
+  'V/Hz4M5VtJayY9p77ZHtWXVk8lzIDtqEPbCkw88G+HaAefFSMFNae+os4IsARwYAnGdtAh652Eo7X91hbEZ9Dk6xzSRiV8513WnH',
+  'lX/lYLWUOPBax6a06x0evlehf167T3dvVtK84CwKgPBaootkX2ACXBsHep/MXe2d/9xnCRiWIGES6iCN+64iO0q2S7FXFwObd/P4',
+  '1xOr2KHw/bJGALBXiS78262D3s2ktTU7b8RjpqrOCkSKGQUEvJG4dHmWxezBqYvoIwayNGgTU9hMdQGbr4U37+LA++T8cNktvK76',
+  'xOPcSC+SKwOsmyQDcpWzoNB3Iw6Au0owqLJBGH4hJAm2ZCTG+ia7NzlQqvgKqMNc8w6S0aSygp+/prCmgZLJUEjs3ra52/QIK80U',
+  'vYsm5IjUHYjp1kNEE8T9xeN8to316I9UkYiFj8Ph7mnzNPG/c1QSkaf8CFtbe7Ym6/DOscHPOEo2Yt8AkBRZOWxJVrXHiS5dGvHV',
+  'PDFbguwyEhhyfsBCtmtetcE7C+cycEGeNiDHdEPk4nfwd4a5DHBZeOm2oAAKulb9bCynWnsniUmRHfmBtylimyZuOziiBOz7Xwzp',
+  'AfKtZVW0ca+cD60+ivl2w7nvW6KC4EDGxBJhmIxjKRRKFflZKPtvoLqqvDI9rN5MWhrsvc22is1y2RKgFuF7U1DDwMdI6zL3kqTc',
+  'LzcSTPTVOdUul4tFWw0WN154rlis7lXOzya322cPkz8J8Lj+PmHWtJYeJbG+M3JGktx9nRnWosBpKCO6+kHAt98ungk82S+M6bAi',
+  'yRNm+IdQLfgbsgdLmdAixAphM1OVj+jzO7cVP9qGVubjoN55dbyEVhC2Zw8XRjUWW06iVfr5NYsQH8Ouz21SdI8TN5twItJq4Um4',
+  'OEqHY2AFAYU4fNivEhVZEBfeemk0ddYNH+fna+mFR1QOskiyxC8eboGz+V0mHzYCB0YLM0YQz4GkVHs427XOoOSYw5kBVBSqszFP',
+  'Da/jPiSa8tbebQBkpqLn6gFhuS9/w7G7cYQunsuURQHFWKl3aeQ4XJ6yDLqCmmKsuB6eUCm0RfUs980svqFOsRrV5ZFUGxnjnkV2',
+  'c1U1kjnadD3IKo5hKehqnLbRNNfpakKUFJPG1fzMEKN8gVzNEMYa+QG1IkYesf9PHUW49/8PhXBRwN8jXAoW08t1HSZjZSk6Dr6j',
+  '1XlbR6h9BCn+iDj33wtIDq6Y3DpZ4xlTISxO5dmjwDJufszTguhZV5iQ17DuEouhb4YjL3Bdyt8ZFo07C/w4LdsOr7k++3//ffUX',
+  'Y7lCB2WYInkbsaWBEji66naDuzeAI9aiFPLmC/O6BnMTHNVfL8rY+gelrkXDfOe9MaMRBd5Yd8rHtbcIOkGZRQeHEzemFoKPTVAu',
+  'KQRjhnDq17rK8z25ks5xAPz2J0mcJu1BbDwkDDB9D011ObbhYOTN6JlbMA2PR5cNjU20x+3AZZoTugA7R3nsGF4+WfZqEbYQSNO+',
+  'NFAR3w633MV2lDCbuRo1xUbqVJ4ClGHzp1k6AijKYhUojREi0euEJroT8xZYMPODIqi8qesqQnNqLPcC65bQA1yfRJP48p705z5A',
+  'PwSYNAvJESSipj0X5qk0f1T5buv2FQ7hoJYbrrVMS5DJoiFqjKO29fdrlpjI0Qvy9C7C7oEeVY8qgsoEkEyu3HUCJB5x/vbtoOYY',
+  'QbVUY/PoizPb0/2egJaAyVCNI6jAUFfgbZUtYvwya4CSgM5gWluPh0XiHsjmLi2avv2TJ2GhACm1gE3YdZgHEKF22X7rlBuFVfw0',
+  '26HtHLkmnyqu1JXuHHpMQrR7FOhhBHO6MziDL5gl1qT87QJNE2yQsubmk14fNypNjInqJbb/8rbKtbCjA0xZQBThiveVSdi3kabp',
+  '7G2QsO+/SQ+Y0RekJmPsb8ALDljASJef2rxNgjN2b15vYKoke4Z57k14Hd+nCN7KroZs/98M1jfGiY4nDSuxlaXf/oCQO7SGDSj0',
+  '8um7Tt+td40RP2HV1vw07era60xFZANezdUqhtTjB9rVkWCyEnhqf3zKxQrT6WYqSEEzsaLzupvad6KhW5mh2/U2Dvv1EFp7nVC4',
+  '4aV2nUgV8FDvlTQh2TwFk4zX4TMncX0S1fRxpxYwgv/mulsN+4WxlHa5WiiSIzX8MzerTHole+evKBiCdocpVgLf+NcHEQTsOnLT',
+  'uyvhOsrnyO+jP4Skzg/dqkzFOR3MwX5IllP1DHrE11FgFiczxNSp2UtAOxfvtAg+BkR3KGY8KrctJO2+k7tNGfD/iU6MezV6TLpd',
+  'miOpeih+CkZkOAPAQuhOVfAMhdmIdiF7le/Kpo3tRIsGEEHvO8JflryItNncqOZDXZPMKhvhEgMWCee+FzV4JvDzOQR87bNaPDSn',
+  'RDQM3IDNmhABWjSoaLCQCiMxqr1oIFbZconlD+xlLR6k4Lh2BdTcCwT8iAlROBOM2QDBQHYWs2HAmgERrBbzQvwleF1nqfrGYB7s',
+  'LQHq0SuBh4TIS3Egi96IJU3XmcSnBycItUY2TAgRDd/wV3pFlrv4VP4SmJect7WzbgNNnl9YrvSLZRguinBscdIf3r82rsBqMVLV',
+  'xNpA2aeX5NP9+md5WHoF1OyHq8nOvwgANTqR00EeLtF838ztmVKKGI7M2nJSy2FST7DN56OkFSsXd2xmNWoCiUCqKqrFdhghhbQB',
+  'o0JTORumDKua2a+iu0gw0RADoW0EO9Tkuh2IoUXiFdEQV0ci1kgPl8bRlhwNnxLLKOqGS7lWWxQp/SgykMvATzc6g/YAWTpNroIi',
+  'te78halop2gvrg74CYGB2991iUM2tP0JfqmUVydYyr++OC9fFnBxBwSQhuTcbGt+9dBYZMSsRkP2mdER5ycSedoXAZDOdPQXLgCw',
+  'zOzHk68efaIeS+SCUJkIp0aoteZp0/C4kwfkA6ohEC4B2uzmacygz2U1Q/SpEalP8LLi8R/pXd8QmJby1sk1doHBcI0R8t7ewcSm',
+  '/TZU0yMZ1bYVCetMEoqophAaFgW5p18U22L/GmtCGzAuVteTCI87ZQaTrM2ag/wLPXuE3pfn4ciCMSEZ/pLE7YYN4qR5xwASMjTf',
+  'NILuzJ4ADylyNdLVnQPl+LeuUFXKpzVZomGdOV/oN7I4isL6XgT9CUj7BXvBrRLr+czRRyHBMjlTLIUmDgrkZyfi61YU3SdHJNji',
+  '4SAUSXBACxdhAfpaLQRlj8LGim9Bfd7apZ9nGeMYeCpsvrIrLALxBwApat8rPji+iDGAWCY4NeJmOSCAhRIeMrBswZY2ddyeCdpg',
+  'XKqUrS3yKadanUa+DdlZPq3BderNTJBFvLoj3QZlh3DBti3RHbVePlB0PjUHTZKV61cIPT/K1LFkEby+Idzd/JR2/JeDjlONeui+',
+  'WbAfPGQbdVDB1IbfSLlUbt8n9vao0Jk0ZUdJ+qletDpV3ZqtKTNRh+he6hrd01GOlZF3qZZO4jXUSRIXCXlDMK1Df0D7zgbu3cTK',
+  'zAUowJSiWgxY3VIs7lAvRWuh5YwLt201hd24dAMv8giAI7EdOiUCCFsJ6wLebYAdVLuIYRFqQHfYdzEdJKVPuJ4vu3Sj6yh51LxF',
+  'Q8xCqL6XtmyP5LXGc/XSVpu7V6Oy7OGbV8gfMfQwcAyTfNRWvBbWEnmjHgQxY2qirB0t9AlX9d8FABoUdFYzas1oSqp6iwaAeXRo',
+  'ol1p5cyQ7TJYeXtd+HkB7zjUChjXz0Y0oYDXNzGQc9l87eEYGv6symbAKBPHNzyRnLP0bEXQoR57q6ZQQDrNP4Ejl7I15xPHihia',
+  '1zX5GGTQjs3eecY5hQ9OxNMGqsKxnlpN3UTdVzlOIAZcoJUyN4fQZZJeT1XMIps2/X2OmJpaBKebKrEmPBp4QZQdO6I/HphDJirf',
+  '3UUH2i5ArJ2v+zli0gcXGvkaZXmeWCHNrbvBINzj3Z8gv+R/GeobUB1hVwXfnGs2Cq0JLv1lj0VbcrpwIKnuoC+Uq3iAZ51gSlV5',
+  'MWs4Lt+AKIcgCY/SnsF+5RyuHacilQywg/Axq+i19LIcHixqoUd1njH8SUxbZj6zy7ajWqHBXBmoV0Y+hVNx+Sg61urAlRbJu9kE',
+  'jAHYyMMdmkhX0YytCVkGfsYjhGa+h8jKCbd+OsQGfjJRU1YRRhIramUqj/pdieAb3MjhmV1uELdrzRtVLze0LO6DcjMKgQzRKFjM',
+  'BfC6VLqDFnCsiRPvsb+3rd/x0gYaG/KlhBliLkHa4PTfPnAhXdtjNKbQlS4OLNaVmdZ8R5vWUo7vfdjPjYAUwIr8K76hU7MYJ+yi',
+  '8owP37ArKDo70AJHD8cH28pcQWxf/IeZuwieHb+orTpPTTnwe6OgNg3oC4pPXTuVjUXuItxBkA+kwZ5LwolEwAYrWeLPGAVkdDZm',
+  'xUUlk8JlabypweB5CHUpSkGyQNFx2tIsFFOABUWOHwsA1iRFK7QUd+rDCBxVlhPgZZSPlQYyfTEqtk1Z8pmtBHlGt94ySJWyp4LI',
+  'w4tiTq3BNo188oj9hgOuCIlQ43gIM7tVq0O404eAxRdHE6/cc6NVizFubgYAIsMqxDh/DJIs3e7+vtyspBqaASv25uX6LMxSgQRr',
+  'vSACeHYDlJsAdgfsrD2T9su4CECNFLVuTErF4RHPsf9p5hEdNtdPdwEFW4V5+Rq6df/7WAGQFkwE7WrzgxgRiAASLzASrw6K59EB',
+  'EuljFeFJod71Jht1nEe/GLEtGP2iBPsxQvTzUqBD1Ht/ADf71uaORKSi2rSnvALW1FNPs4DfpgRi0XUN9DPDTH9hvHNkrOtvV9gh',
+  'uiyhT5BOVm+gnLgC7PXy3OxihkV/1IBOdWQtRB4028P1J4JZlAyIjyXqRJg1eHCXbkYLzbZom5ILis33a+XnZDyZf1FHcITgFsdp',
+  'Mr6qthmgYCWMZHwkHkuLcLr2dxQAaxi/NQ5PhcRHmTZFPBk9njvbdsBXnFgEimejDewcMamNQL0zgU8gDAORcvsWJP4aCYeiKvVc',
+  'DF7HFND5wmBplrCkK+lGjk/CI94/eLUi9poJ+80ptkcawGdaS/DIq4y+OR8FlWDtkpgOqORt7ZsBIdsWrWjpVoi4FqEB0Eh+Xxrz',
+  'gRqig04Upb8+rykMcPk4DqUgj8vTtSmDY4idEUvFtJuQcKT0ReTemazEUupv3f0qZOaz6wYd4BlfuY0vNenYn+0JnnUYlIT7zGGR',
+  'dkoJ08HI5mP6HadDDpSOhpaxrrtEM+5ycexDDnPDrACIRhyRgnfsWkK0dVsCt5ovRkl9zyPnFYvwKnLsNQWhzbvSrpoiI8YzXVMm',
+  'tUt1qxIMM12cPHsJ657BxuQN3JTcUoK1se7XNJixWAYaGUhXG5y3oCv77Pt7v7a7sLqMRCugbY9Wyg9x/7unGW3XJDDjnaX3SBv5',
+  'CS0zdIMBITeng4y1L4j6ZSM9jZyjtWMFZkeECbbwLWVHQZPjLXJoQXr48j3AFbXhxnUjmXdT0A7W1vNRjchGvmOAw1PyII5eKOEW',
+  'JXRIlUyhLPN2oOjlWft78sBjlF4cLMNRbuY8Rtr8zERNwYLXaA88lEebOmL8eiSrcSSx9Yah8eaOPRc293maPnaeMGjzhz9NyRaJ',
+  'pNJvNnCCj3eSGfI7WY7i+5/9odqCeta35TrB5WddjEYYuYRMg2qu34S4YpkGFoeE7DyvElOABkiKMbIFfR+M5gm1z9TqkKOZO2Kd',
+  'UAICM1xkIUBfilSqw3fbUm1+QdauFQGPHBARfi54PQqfYmUFdOMGiy1aXXPmIydgxvpe4nFV0Q/SdzXaVFAg5OGOiMaym5O8nlkm',
+  'e9Zac6IMTaPcaUwOQgsh8FjsPy8yr2m+cJzbZxyFbD8k8HJYMLlalBTHuD5mIaz8SguSZGxnMtyIRVbaVtm9tFCGjhM1WxleQWEH',
+  'rt2T505aZwdR3klL4iWLXJ05a+3F8fKQgdeGtI7V5Mx7QfgYVs/qW9CKbwikHpzKPxTPUYjdCPb0F07fYv0xIheuSqXQjUkpSCxU',
+  'gM4GrQBbZwoMv4q2kXTsBI+Jmmjvv5qEvwgqpq1r6sTi5Ac5cAMqJG1Et4oidZWSca+6g6w8JzJ8yugxPOaNEaAlwlh1/mD5z052',
+  '2YAPBsk6e7CejWE5sdo9RIOynv0C2Euc21b7dO8PndYRtmt5E+tUAKexEtG7m/0MT/IMEmksXsjER3BAp7CXdodrvbq3tIq7hP7R',
+  'FmeOsymYHsM/bKV4HRN2HnTZYYOszkTMZBjfx6KTFKQX3nH7HJKjw67wKh6j86OWPmcP5vFnL0u6vvVmfzNGlUioDdzbiw/Ttbo7',
+  'TwsjpcBwAsegUcKy9r17bm+fcaAGLz+45b3AC4+b135BcyQ6vAL4PmapOWNvKhSPy7vou/Ru6S9/qn8DqUFVW0cY5XTBfIFMuo5T',
+  'xPxF3zw02EnFOb1Rm0bjijee5VBM1GkhnMV3+TIsCesnjGIjaBFAx4L8XHkIApn7O+sKToo6DlpWqnd4anCeYnJYuQsM/zm9M1BH',
+  'Epsmilg75+ziSonvJFD/kHZ97GQb1MGzsbGVGWKL8pwfOwNs/lJdsUsfSUyuVai/wKhgSGt8lFxifYM/e5ZCQw98AR2xwVP6YRQl',
+  '6CUlphyLuA05+Shk/xd38jD/jeMBbebeLZkcdjVTOU3otn3qUrFSClSYmUmhmQ35rjKZQhaAv2H1paMWzqqtK+vLNUPQq4qk4U4B',
+  'drrFQM3DAU0Du9D7BA26C3V1MMIkevvza0i9QvsTT0gxCp53DgrwEEM4hT5e5vvYixqZqgobxOgOkq6wJNcDk/yRU5msANB0enAr',
+  'KOPIzv6+Hi7pSqYM6WCwHSxIGFImbdXXaboodtD13+oHYMRTgM5VOgFbXrWl60VAGPPl/WaRca4GAiRVNl9Kf66PyoH+L1y0klFX',
+  'mk2AQcg4y/ZyGHxgN09yNeNuYso3OfSqz7nUpXlH3wAfyHrIFd7WLZ8x9Zd0ezn25PZxgqBFvr8ZW4HyKa8FernIU36IWg/IYRif',
+  'G3bYJQ8GTNFaTacLoRPT9NBU2xlBZIoK1ejBidtfwh+YHx/TYbdnjYu0KUcsw8LXEFFSCJgs1lZbxgKsfpTI1BzoJB23oQ+EuaR/',
+  'IGRTsmrV0KELj0rbmxnAOoOfXpPwY3S/Ng4ZMJ7uJdMtEZ1rHcboK1Od7bbPc4U8FA6i50Iu1b9Q1duO3LE30rdfa0DNvFa4/GlY',
+  'MLiN/SCsmx4b6AdraGxXdoJzGNGZ5pIsHpCIj1iVTnNM8CuGsQNNvPCCC1JL5ZjMCgzPbsLAqBJGYnUxKYP1O+qk9gZb8PaeSabw',
+  'IdCFfyU5fgMZN8pMHNT54ls1YL3Fj0dgznKLM32nD6r4hHNYtxQZurbJ9usLuxVj4MWpwAnx+o5lsPWrPsVq+IFydNQJvPRck0OA',
+  'ZiUloWfnMDI2v/qQBRnxiVnqwdxx/4MRY3HpHj8pkNKZvKsTTzglR3OKiV5eKuuzxQeakvaopJr64/VRm3DRWrDCFte38RnxhxIC',
+  'aAh/UyFqSLlyOT71LJFN2Jaa/LSBkExX8BzAezbIAnBwiwBK/kkEtIiBzSTJKopHjuLbQyTJ7WtTCM3nUTjZVGoYWAt4YAmcLhtG',
+  'RololBDdjkUzuvWB5CT+eTzEchBL3SVLEmwytSTdIKMrtSkG6XaqWZ1d2VDDusJV/bX4X3dZkXJoEOo7KleOIpk/bdYiPkOdSUg8',
+  'YzHayXPTIXhkIxWko/W5pvdLWfdO8UE3WzJUF54jcQF7Roa8dLXDOD9CCZoxASZ1O+zGFLvhnr0qNKzQk8ruAu9J6SMBsdhXuMlS',
+  'MjGYvmQ0Ss8d3XHNDv2dYak5y25gsJkowNgNBUCgURFJFDe9ak/JQRHH7JqNmpr7AtDe9xd4DvVyYARVA9GqSADHmoLxDvBK2har',
+  'JcbMUt6lUjktxgykvZiGm5na45MEVJZDJdW80FdbV3VBiTTACJBGGSFSGh3hLS/XFbg9c393VZDwx4981vDjbYcIieLQLaKdwsd4',
+  'iUefoxziRwtggLCjDphFbhEYuhD6FuH5kOk8DwQWsijtGVYCAjPDt/QrsCTWgrCrOBhmyFkpFcxmlcGMczTw0VpObpEZ4kqGYBHf',
+  'mzvV6VPpbcvDX/OhUy2mHXGRCFVolhlAAqZyhjvtqARh97Hp9fnxeMAYeUS8rRpLwq1ELeC6UVzuCXkI10yP8eKoRlrFxeWk/Hz6',
+  'Y/UkOaoLZ+Tnte8b6qIrHBZ7sR6rm++6pugU5OJyYB63pv58B5vL5ayEtknepvb40Dx/QZ6YnYSnzj+qE70Je4rqkF9laT/lbf+t',
+  'Y350TDjP4pMxFsRQnQGrylsAQq/ZVjnLaKR+ZdHU9EIwI69nmxPlJeMJq4aRPIGoaXPwd/W1fBzKLHjs6nQSaBqM3lwEGoZVcM7d',
+  'v+ZC35LSv/m/BH27wuS4zooXRagjqAEE0KHNRYbe5w4bNvi/DO8LzJjpnnNSP54nCRh9SeO1iuAoGIgIDlOqm63oTBtNiUCabiHZ',
+  'LUqSqE14NfBjhhZNd4gV4jzM1jllFebB8yHRSTifo7ExRC7ehiK2tsOEHVzg8gtBo7VaQUsOlL/UgImgF4l0fSXt5QdDIEK7AcJq',
+  'xP9xNgJBHBxD9kZbi85OCEnko1VNBVEq6LEN8gk/s3JQtMbj+9mWTOx1GC60aKKbkAfQghvbpxlAY9WKGlxiXvotuoauvnRoEh8Y',
+  '6L1bLwDQU1In7vbPb58O16MwMKwdLOPqRiXyWuRtmWEPaTtanu58SArD/Gq8QPVK6E4cJTqwI8TmzxscrXdG0EslliMvXxpyIMJY',
+  'RrQXJKy5q2p/5KArOHl2oGBPBtgehAnx5Z5lrKYkuBb/usXMrCj3iEKk2kVoVk3EdFZOXhZlU0Vvp7/HeEv2EEAhj7u2hyMRH+VA',
+  '4jQSIoCfCHcaB4tRQ/5MKlHCnkqvtGExIss0q4B4uYuxDRDudTFwYSyTfkjPwiyIev+zxaOqr60I6Wv/BO198OcQ2vw8HVv/L1A3',
+  'S5nrm62USBgheLCE0hSm69XxJgWYTEo98CoAftD9SUJqpOGFkpVKRubKK7b0oSy0VhIqCeNMxPo6EQcq82XdAEOPhbBCZCFxX4SQ',
+  'PdyizObNV6yrviaePK1BeGr9725HVytWBGYzRDfAzVDUPsFSBN6IUYCcLMgZ5QiiKVuTWgScBbKT/0xIGOa4GUBWXoK5Uh9uTAqf',
+  '84lnyVlud+pbR6cS+NlfILJOVY+Arm/46DgAK1aD0xz5HoTUlUsf60HA2odt7h5+9S3BKEay1MIWBwf7kLf5UVamO3xwyECFEsMT',
+  'HjmqIz623XlByi3Zygau2lCgiSztTgZsViMjqhhZdCQ7MKqsvJBGcCTIjYgDYSmtJRcn8RQzBVYQFH4Og62FrdazQVVpwICgceyf',
+  'FwUTTPIbL+1zAE0joGlTFuk6jP6rY81QwCSp7GUNU8gZX0Oo+O5Ttk1Q7yRW0f8prUUUSv4UYIlIiOLqnWIJHJeGhIinZPcKtlUP',
+  'Pj8h+x5Q7AjAN8M4Pw7DRAY89z+ghM/bSARKbNdLd+nq1R5eS8D3kGAziSNygYs+FMbCNKWvCS1OXN0ElPnsv5P2VbFMw1M1BkTc',
+  'ZNwBvLweprKYOfIZFvfO8AmmxMJ2JT6jox0yO0XToOjzKncm18XpCBF0DvySJax30L8XMsJfpcGcoTk70QjV2HrfYjmrzhgt0tW9',
+  'IMAahNUQ9rrtq+75O0TVCKU+ucxXj8ZLsApGY6GNKk30yRgu7bl04U0PaSBw64BAIzushfvj5IPXeoWoTdeNUUdkv4h2HQUbNofL',
+  'w2uv4CJwcDRcOEgDAQFnwO+7mkFV/y0VYWxvbXW6uV5SWVP0i6lySw6Pf2C9ZNUnQBks3FsW00I2l5UGVSF8QnxCmxDGPDaZsswo',
+  'Cen4P7BCCtvSuNQ7W7N7i4odVRmgMvkH3thob1cl1YchItsQ1P6g+iKPETye1gbJfO1MkmhNFZb27TV8ETiJYTDY+FHpoDlsN1SJ',
+  'SE+b8Cz2L8IYPCmDOfCF5hUk/lNy3iTyzswyWDxGFIUL/KsuwtLwZtsEkcm7jHdKl1SEgpQzzcyGFUk2T0+WSvNbYjtHlL3GPd/6',
+  'HWF+wfwRsRS3U2aAfvKsH3f9exYyoJTXgZ9TQOGxDgaUWZkQ12DFxSuhSxm1n62JbuFZXT1KyF83VKzwMFgej5h4ghOEO94CB3wD',
+  'exMNcwz2d5ve4HzvTAPxhFlnHsJhGRXwFFf1CgLTzXY3jrTKE9xiv45UB1ZwdaYQC3uT0F0WNC8K1toyD0+6PMyACgMTskjmQu/p',
+  '/jiM143u712op2bSWmhSDzdFSmygQ1wm5iD3c1hGPVXkEMMW/RPrTZEZMn941IgLABXrjAPsdx4MPNhtnBzy5H2cQfTu9F2nW5cm',
+  'PYCttjM710XEfHx3jpXCamvhKgTDuj4/1tb7A2txZnF2D+pHOqBcUpqoLeJCIPIYKB/kSPQgQhoOleLY7x1mxTiv/8GfG8gLvpXU',
+  'YA39q9HN++Xu3Sq50GtHheDVB0VZpYhAkS1q4VcRqMEj+PdlcxzRuUtSpzBQ59nyHuk0edmOyeyMubq+Yz9MmwkJMpUuOdpkDuMk',
+  'kmmwL8czrME5MLI3Ot0g8nlNTVS3rI9AvGQGkjW4biepF0D+ih5bEPAApk/QInNTJmkcYmf3BEVKnw+P2VpZp1PgI9DLZPjAVgxk',
+  'kCWwFcy05Uy3+lz9TLhpz/Q9Y+FXBD4himtVUX/JBg6uUI2Mb6Xg2aTqbSXyR0+quSFF7l5gJurrBD0+aCFLpeX3tsm3W1HI1zXc',
+  'j/c9zxsd5NMDS+Z0sDZ9YaJ8TanHTLd37FkJvssrZMBpuZhKN4U+wrQkrttddR41NXB8sXvKCL88lLEVkstm7cvasVMUmJlYiGZK',
+  '0hkh3CuuRA/a4xLRiUdHRZGOmocRrCBp5AM+zf5IYVp8IcmlA6pSFowwv2K38M93SC70CEgWVHxrfU48vmBhFlDfgsWFMp8AOPsX',
+  'pNtWo7XHZ/r9wT7iEKCrUfJNn96VXTH+K8ZuFI643HRWMF7ZHfRUbT4eZG9F1GF3oo49Tmb2Ti5h5zLP0uL01jWfXF+NjbzkSND1',
+  '4EfkbTLsidn+u8uhFcoBDrHdH0LlM/SAYAWUYaChLNNRYeE9L4ka+VGIdzTTt/rqYACfz0/xv3qBII4Co5Uy6hp44oXiW8JiJey5',
+  'Hq6A8BKShR+iQqMq23/DNQ39JVrJQCbE9uBMqBZXtiUM+8nqeaAPIa1Q4hSNFMo0Meq1PjaVhwT/F60r4UCOfuQEhrriGRi8UKKr',
+  'W7qxPT6EC7vdS8tTxGTBHIarjG1JtuEJjKtHP3Cmi73RlYRfqJJfGmcUMwkG7OJHx9sFpg8FhJpbGBH/TNUDUypNhVQUAyV33mDI',
+  'VOYVTjkReG90Z/tQIYhrkH5+N3lHjPPmwPWmhb3mJ1J5qMP0sKz8sEqLQE9kGIkkTwPPo3sE5wzymevsJwyapvEcXMvg2qYTqnFb',
+  'G2MwnKCyNzZswlw50nDlSfQVZipQIu1laoL8dh/v/cb5zFzXzSZAIetVp+qAeZzHW7VwnGDW++YELfPcI01O1yH29OmIKhjiYuyo',
+  'ioH5SEW3kIzt6xFHFWnK4ybrFyIY91M/7Cq/jroGq4yAlmCU5DCO43ZXlKt1YOZJcYqgVI/Iben5k/Rpm/o/XPlW9X0Xg0Z8GY2M',
+  'pW7MIpoQcKOHJeWl6uK182X4DnqFBuVR96UDjDf0ubIxsLnONdqzUI4JraY77q1OlVZIfpbUWt33wY6jqXUYBzKsBvBrSiCxSBZ0',
+  '/kgJmzgsAc0yzatZIeikEsb71d/YMug/gB+Nw4Q8/ZgWfDJu+UWOiU+O0tMJmfpXVIHaffV5WOHDsorvTZp6ms2IDTt1uKNhmb2y',
+  'yrlewVgm5RIbEgxVRivdoteqHXoSmayLexGE6pT4CE1TiArJFuw6C6CQ2hCmh8vXvx0DUTHXNy53qJMVA+s5tjcrvebGxZ9j3lo4',
+  'UVi1wPShbx8iB2uz3pqLoMMKPVgN05f0XuDMrC8u3CtVMnezeKuYwWgR2jQu1/+BQMOwOOtGNoVLO6Avl2EecwWdbm4wSxK4nZEg',
+  'vjcp5graJSeF2F2+SoukiR7rHFlFwW9b+zcGuvKSIZ1NwRFbNkeJiyBGVH8UslCF8OiKgjp5to7T2ojx/MXkdEA1Wxl9wPcI2dSK',
+  '5W+RC/Oz8aJqVmdCpMo5wdP1O4J5zL9teEfCZtRgE9sSPu/uhaTL1k/Rec+7m2cG8uH8DbZvOfBdzsFHFLWQJ949x+i0RK6yrTnq',
+  'dwYlSdYBkeczzWK4Ccm0sp/viEr9gh4Gp5w9AFE6SK7h72NVqxDnAvMDYmrgcZ0NPulthK/Htf3q/Tyko36XkH8jvNd8v9YVrDOB',
+  'TajQtK/uiIrsK1uJF4RhL0X+8akFBTQoES3HlH5D0Xz7yjw4wex77VhcHhzWV0ch7EJyGqnPnD+VoiTVAIrgyatYZjTIc2vmwZru',
+  '2sowK1fYeMjjnrAl4Sxm+owb2S4GVTUBiyiQn1Un8hhAprK5HLq9f+EmzwGphfu3O5VxKPIwhR60LZKiGOJt9Dvzwz72yXtAOyuY',
+  'EMLik7ruPwjiomKDlUhBk5dSWaKtaXNAVd01omDDF9uc/r4mPiNdaUy9NfpX39ZsFW//8xCb4tKpCwfeFFO2DXRbmtz4DH26b78d',
+  'IFQGr6lZUXs9hvpyT4ITDsDCmMCoxn9pqW5Feh22Jupb1n99wB2xmjTbQyMwLaD++TuWrhCic5pGWCAMrc1JvFoB1J8Kcee9hGLy',
+  '6CoYvfT9xK7sTbV52rBse83AF6jj6RSYait7QaR9wCSQGjIYoN41naCb1dSDphBhwfwBvN9nyQcboDvuyMP5ESJERdw0EKeEt2bm',
+  'igLz6O6Agk4Bdtq/ysg3ZlbzOf8an0IL7/wsIh5aVP+2TBLiQSaD8URevLxmlhudMbUmeW7ZQB9A4/KENBWH3AGg6uS2RRIvdkAt',
+  'MjtV4/QuA8rBDMngVIJUbvxI+3XI4HmritaOFjdioiLQsIx5yxebthPxWJkWOzwb6xsj1V8fBmXDoKRVYRHnVZJ8AxLd4Af0ZGn2',
+  'jzFoELSOJtQnbrSN1Go0wwsbX6oPy8zUfBqPQQZZsIO/IjcYNIA4/r+JWvptP3GlOJVuyMn/+/h4zYictSXHonk0R5qGldlzAqpj',
+  'QP2BKus/io2QLj5OBi2qhr+dhnywtCSYOnRJFlS75QEgkLenMbL/HnsO0RUmt6MsqEpju69E+k3n0UKdZqGk78NgrDi45VnDGYZ/',
+  'ALyyvGKJCELU5cbDusK8HSE6YadRbbFHKB/dCLhNvRPsNx9JcnaMcJvkBYyc7Vp+pFgYoEsGcitb3JOSiCFFjVcPXW6RYLqQa0Ne',
+  'hOIOe3REmsBZPbe+qgUWjQXXkEAFmt1vecmldzOBw9U8kit1/oSAHEG1oX5FgSmJ03+hu4wGP6sZc5vqWNkstsrO8+I3KZPxB8bb',
+  'JuFNP027tExrMkV/Yam+d0KYuqz2ew7OfNeqVf7PI7wI/ORz3jH92G2sTPwz+UuvCuIz0PdjXfMSo+duRVixFJvLXGgy5Rp2Ty5a',
+  'Q6LSq9AO0yaoyhXfFu3qQ7/TO3k0mzVEtPYBQRLLOGg2X0f+gzplO+JxAK4Z6oTNo5wk8ASJ8q3NHJyAy/dUxdjMJKBasLt+oQOL',
+  'hQqnahLJ67uKsXqssB4qM4LByKxyyRQnpdn3GahciOGG6lNvCrjucIFRJZ94XXBeUHtmBJ9E1u5/tM1qZd1lp0ROLWSVSxynbwXg',
+  'mq8w+bOITW3q3puv3FjnKzkoM12VR+nmuwH4Sv0dyDFgl4xO4MybIlLE6QgczbR0lBc+HCt1o30s6t8eTK7auAUp5ANIKnJv5sLD',
+  'pSJ0vLfyBFxLmh4JiC+8wZo722qMrjaWUOCmVHNA4eXjK01joDuk/kVLh1hJatOdQlNm4CFcFBtrx8FN5KS2sVZguoQCyyGzwJ/H',
+  'y+kITq6k/97k0FYlYQ1xDSXUhMeotpysdx/BrVRnLj9vrSfywvDcYnqqWDzkvXVmH1PPh07fxoEexS/53NxKTS2G9TpG8zAoEBEP',
+  'dhW/B+XAB/b+E9HnAkllQ8hfTABlw9c4IH0p6uwHlYk8kRqXUyPeL9Zr35RJ8UTp5YUFhI3ulbLj8/JqyetNKQt9Rxg8G7GgAdAA',
+  '8q4hDHqu2b4Cu33PqHcZ5HlWNuW/K36ieX6B8ZUYnk2zeb/SOpSvBRo5/RXUibqF2wgZAkkmSNx5T/CGg5AtP7FUYfLQqF+hRdS3',
+  'MAWIxANGsQovgTKe3+K6JIH2ZpszUVwDkD3oRbWg22QJvqTgD5xjpxOgGwSTVxH0zMX2aHDKaX7S34UBciLInwWTLrOMM7ssrCum',
+  'NOff+/CLMnqc8S3QXuGlfB4yPwKp9oOSAfgXnrEo4/OjqtfzkBHu/gudCDm9XS/3KoVKwChWKq80YaGZjqTzSUDbRvqjeo9S0L3D',
+  'cdhempMgX7Cf+xyuU7dc1rXSqM7L6PCM5+GDMBlmQQIuhI90KIYh7wO6NoIPw6GRLmk5wP9q3wjBh90H+NPDjJuFwJuIfr1ygmNI',
+  'ZOxceo5WSADIZRi84cr9TPUKfs48cM3beVutpn7ZC71JHhrzollx1gKfwYzR9kQ7PzPHGJ3mWwHYDZBcZx/GBC+JKRqWAYMqMIDY',
+  '4dPitmLTo7svcTdwGvMlqZbJmR0r9HXSLpCWuPgjz4id0Vx5dJhwkA169v4mBySdATC8uVx8CwuD+La9sA6JlEML+YgDQ7uZYxlg',
+  '8tv9Gy5jD1PiFNl0VkRfDSODsz0nc1TvZ5oD5Up00k4X/v/2kagEupLlCwUoP/ZogB9eAIDPY5KZ7DkLPvVeziaYJV0ST4eAp7eP',
+  'giXNanpqtgNQ33aKriBIMaBXqvXwRCliGhqhkYs6ahS/qL4EtnaeqA5Xcbtelaq20Xqj3RLYgJy/VODpeevprqOKTB4ryoCvwkSB',
+  'G2uzk3Z/mR2PTFG6Y6+0SvfSOQhJuLfwcdicDKIAxE+GtnKKaXnExZMkBNQ/qxO3hJnUJsmTz+NuYATip7ygRMaxXj0lcL3y5kRc',
+  '3yqOQJ4xVm0Ksw8uz2Xpu99wiOL5UMiMIPW0x4s/iJXRNzudcoOja4mFsCFnqNHayQaxCbv3BSi70mj70bzqjMXUOuFbPFv/v4Mk',
+  'wxzxGVfp91xY8ElXAaMNg8cgZhYZdrQQsM1NEZYV6gU6YPEFuaiTnu/mysVDrAwEjAmgxBAAqqJu9wpEq2RL1x+yjkBrjKP4JuQp',
+  'jbPEISGGDle1XGE/QWemGSJXW+utg72q87vgh6eRh9aBHCgQgCvwdlC0dmL6svJHLnRxXBosBcBq9yL9vkg56fkcRdgM6fvB7RhZ',
+  'voCXB3R+/cvGnOUHlpqzef3h5MLJ7HgQ58g31xzdku056XDaGfLTODF09hL3AkZ5f7PfjJuaV98opyAdu1mDP5ot+IiRfmGiSz7d',
+  '9+i3LrLl+RPLjG5nm5rMKjOTyO8VPkUGaoW+fR7l96A7AMgmDLoy2JGRJxjEJqMN7wr0qFa5cuxXWGcfOBkc8xmepQXFjMZRMZwp',
+  'BymgzVJ8ZORkY5IVe1QoiyPE/Rkj5Q0eWEMJYrdUEcM2dSeEWlR1uNgIfT9EQ6dv5E1MkePGiZIRk/ecxSSB/BhKp0pHWjjO9T9R',
+  '6fcOU3Zf0AYfBXTmlaTWXtArC1tKxFyml4/UkeWXt50507KQbhS51xmu6mK+cHHx18sdQL8eUZaK3bytMPiem/oiymCblp7WcHiI',
+  'rNgLD3Ohrj8PosLK8QR7d74LBFWgVr4eOfQCaysK6RuLwtSXRH1sKaad7UshYuPpAJfryNeR7Mw8vphQKKxU2vUf1PcvmRZCTgL5',
+  'BXvUtDeL6RVvVmeHOJqVitYcawT3oa3M6ORu5PcIg+Xpvw1CH9+ZFnSrSQSHJ1+DA3WMhHiv/atwRwoQlwdfjQYsDxgQBUifpQBZ',
+  'UVWOhkRwZ0tRkUt+iuq9KG/3hYOXAQKCUIn1EskZfkPS9jjGTzINb3UxgZTbinBnnQBmm0BgHg32c7V0EZoCP/exy7J/ET1kBhmP',
+  'vJBg4IPQlD9pO+f9KKj2R2+wknn4x8sSN+s51J4VCyUO34NaDshQEV4+UEjd4y/zVlUpk0dKkLHoX7bK9g7kKsNYxHR1avZaiLzx',
+  'JmGKTAHp85DYDK6zCxmNZZ6N0kWXJcrJnWjLR9bIC3RGi3sxNphIguyLyzWtBSjfRl8XLWKs4ee7REY8IQeuSVJGIqSX4tr6PWD8',
+  'eFgx8j8eBUyE9yPHPFYv2SGtIjDPO2wZrjeOPHKlImhWMELX3bAl20sSrWAsyNrXkMWV3vkYJlLuOEKaHbb9kO6g900/P6lIQDn4',
+  '3fzOiYddUntItnaCMu2gCLs0w3mFfbedFX7P1T6euUqobhYhAmZ4zOkgBSI52gE0iSJJe1YtzYrdHNuJevGM3vBIxHtMKuzKUtYX',
+  'bJ+Ua07+fx2nV2NpvzA1r8V2Hx9pPAY6vVqgHnuLgsVAI3n2kCymAEJEOZ4NNMuvAi+Em6d0tayAp6CeM+lTFq4o8gvSztl3VYbQ',
+  '63KeKKuTnhiLHkre6Zv0sqCrRFDqS/vQbEl6pD2QYF7vDc7QWWEGIYYt+8VhjZkL5w5EjzYbJINTRCFK0jYp+diqWLjYGTAXpF4L',
+  '7ViKZHwAH7o04n6AieqNfqQLWwAy0uc/OkF7NKOwi4HtxdiUxcmElugDmni5t5duweMK55hLUw6q1tbvc4gVJcV/0Uh7wiSzYUEy',
+  '0850fUSu06tAIQMoEXeyf6Q1E8VJvV5wjXF6Jyw3sBVqfwTSKHGu2v4at8g0QoK1tM0853q/nm2955grh4gEGPJ8WTY+4JxeoWK2',
+  'Bm1AA2lQLvt1U8vnpDqPVx8qAT61wsmQ0zbuvWj1fYCfS+w+g62ljB3rthDQE9tsh3WGjpzb6LE/Z/1UUrA2ZqIrVv5g1yaWgTE+',
+  '8tCZnsOnSY3RQjQt9zSYYZzIojBnnRGgltiPVRLrrqA0ZucD9PiocM5diwhPjm3n3iZnAfF61Pu3hxdzfOXOs5tHCo/jwb2xC4HY',
+  'znI1rawVAhzSbwE7XRKusMiPRqCDXbBkwAy561o2/WK3Eqt2Vw99wE0uAwfX992DJRj/taZ9fRc54+9UzeLDmlEOOyn6r3CotKUu',
+  'qOSrHeQ6TWQ4voJGa8gu7jphnrXcg5izQRiMWXRCldDd0hfapzVuaGYl8uJ4q1YFuXb1/ped/QepFsN6C1c6K4/f3pQBeFVWDLbL',
+  'VxK1jPWEyWK/+kxlYPcTE9vJZu7VhBiHFG7fToISS+rDewZGnHD47k4PQl9IhErj5sjvotrmh32ICCcDJnhckmThBrCWWFCKc8/O',
+  'UDEqW/hJnhbRRxIE2iV/0be66NFODqoNoxHa9/4ORqH+XGsaIR0WTHcY8qR6xXbXTDzM1KWwo7J3H3MmUN2BYXm90VjHHCcyu2lj',
+  'wLSuDB/zTOcXYEXcdBtnLhGDN1jBPVgYCVkb956zGj1vUfII/sN1NW4G4MXa21gWnv82dpQs5Jg4ZdJ3jU6CR7mqhD8gNFSHmKYp',
+  'oo1l9ZA9n4rm7ayvuw+/ta8sTXvyL1Q3je/1qyHcW/j840Lj6EbDcqVTmB2OkMZhGl3+dgk1k4JVOoQFpFDifbuUsh5WFtLZRdSX',
+  '/nm3oEiWhtJ2ec6TX5ucys8hreZuZslqcPE5fN75L6szJ8p3FYz6Dw7lXqFxZbRf+3YkOBuwsZ1oEI60eQ6CjYgMG0czD/W/jTuu',
+  '2arsFgWjhTpxWgyPdD2LHG7c10fAei9jJWtuFIPy52BQJuYFEBsNK70el+PSnoN9Avp/WgsuscanqhUSyQkg/6AoTdqgp9t6Q0hD',
+  'b8C8PKpFhz08C2Lm+sF2qMjVwBPqi+/CIxTwb6VXHkXVWXjimoMplKMvemB1uIUJex32FOQgIXAymOQ0b20bwux19cgnLRjRjJJ4',
+  'dkRI2ckwRvK1/M48FDdd9B2ZaQj2t5GneAZEczngaFt62vsLe6b+L5+qTQ/TNpsiBr4rJtSrH3Zz3RIm3osei0bRLy0cpVn6rhdu',
+  'XZ+waIecvkw8ro9e08GPBUUtKgncpY08XE8p5caHnft3n5S8d0xVkQC0IDwUaLmoWvvwSdvzJGQZgKHLaHQ7CgHx+eycQ6R5xVxw',
+  'RlMMOhmFxeMUCyDbv+JEbXfu2W1hvGbLKBVr5JhYAuD9BpF8Jasg+ErQlTaljCR98HAdksInEZw1GrxUZJy/A9MPdZIhhysVAMFs',
+  'bmmkK61DG7Ak+hAuYV1bpDeBMCS5XbZXHt6Yv+TcOwqQRZ0SdHKAVsadSATPeVcvuIkAd7EQ/jmh8++2P2obdI75SSogPp89wmMP',
+  'y+cyTzE7ik56B08IaiPmwE490Kdl0hCIH38a37B+nyMZ1yN2D1GHQmkXd9Rpci7H6rXhdhODOP3jY4Jg0ZlgJFn62MrEhmEesSQD',
+  '8hcMa4oMp1/GJ8XAAZ00WJv7l7jnbxUjv2FjHy982zOI9s3hhAoa6JYYSnNcvQ8kPSL+hatPiNHvzwGfJngn5AGQeG3hYvsxqhau',
+  '6SCcP0q/S83pdrlstn9eVC3ATMuMPeZ8UOvZJ+s4KskAc1aXw/blcIMOJ6bgGxn8pO4gOBlIrk87E70lMQCKuftRa3akBqxP+erP',
+  'xEueBjuQmpKaz6g+ink9jstaAIrxf9c1zkfm3GjrBDmREivXls3iIO00gkM/tMJywCFDLNs1XHaXwOPZmBFQjLhBTy4X0MxN26ew',
+  '9qv7R+agQwje5k4rPDewZpZizyGznaAdbSBwQWXkSzdgMhxN/U9tFAe2Uoo/Uj16fWiFs+00Lt+9KuyDm1qyx2CjYgBosPsu6oVQ',
+  '2txFipGtdIVx/fAuayWIpgAEGszjLAtVuA19T1/ocKpHEfWxk6BiG9z7aJpoyvQH52X76bHS/Qc7/ZgVyqzBDyghwnWKL5q20A25',
+  'cykuZKsbaQ2BljrFecaHeRMY0ZyEeXdQbu7B/9LukBY0IAKptLbX4fvYvIYwnbMGJ2P/jHbdcUAnwnl2KpCUXm1UCbDXLJtOpWxd',
+  'FYH0gOPmxSA0StL1dWMYFPRasaHZlkjVtMEECSR+VPgmmKROeclPfhcHU60oDiAIPk3R7t8zUmY4EqAoVPm1N+8U7v//MOxAQ/xj',
+  '3sMR5Q7Ups9E3j+MhGnfulNwFvsU4U04q7EJLSWMekzC9VzY4xWnyIipF1qqQ/eijBY3iBfa2NVTqy9dPncvJFEc3Kvo5N9r6Q6F',
+  'UDVkye9bA4D66UBJtUHHuQe4EVbwlKe21vmVmmaIsf6yDR0OIRhjvY+XVrWNlV9NONKbaIXyjVOQ40MMMWMoDiqYyhInuEjT3tQI',
+  '8n4nYaRZmfeoCgVXVz75ZNgUblhlpE7wPBMCurOATRmxe5bVU3vvIsWX2edVRgjht9lNQwtiwRxnvicDeTwW5/gJCy3uQRepv0jo',
+  'yYjaYbvwllUihcCXEyRu8rkbkVaKPwYUoQZleeRymIkAwDotjyx62V+DGwSs8CBH6nAsrNTPbAnAIBRLbgrw2o3oQK4x5ogLV9Vc',
+  'nZW4FxHIIe+r4gpTH48WMaGJ99wttguyK3ME9DIhDSyJsBPxtqzt8VDA/d/c1QMJigOwhjgRUYhakx6ZsUCeYbwNmhq42UZ0kXSU',
+  'Vr11kTnQWHJgdRpocOV+H9ijNqyWru3McGfJ8G4ugzKFpUcw+KjF/zRxqg/1A3svEhkZ3YhV6Nz6HIKOIniR/On2ofwYYEk8IQjl',
+  'HvtLSywz3xKpmf+Ta/ahOu9IeyQS/eOXWPpit1hhOElaAnReA6bnihXJOOGAvErHbUGQZYAF8DW2mASaKx/XbNve/iip6CYkkSQ6',
+  'O1/p4CGASfQbRFWVE01FRbRabGlJRctaBlesaoykiYMDJDSXr5mvZ6HqmC/pni8o6CCCnIcdkAkTm/7lCddq+x3J76nhzKtr+J5V',
+  '5bowpVjGpO1e3CRCWCA1TfCsEt3P1kxoeauTEqlFGqsXFXq6rDisro54IAejB37LA3r8mJ0ohtPW7JDoHN13M2MkFvK0cUVMYHe6',
+  'NGsulbP7NN5qEPHT5mRHIfahyAUjSY+tiVxDn9MdrT5GUOcjIZNCjwrKQGmP5aCzM1I3QPs4sM8YIE/ffwgNzeHEddJbKUb5aeSl',
+  'VzK+UZW9Ue8gyShFAdqsEZyIRc+aDdsE2oZejpzfyEYs8nyBnxIyiiwTI9fYbMUjFI0LpyAqVGrdzbiHVmwmNSYwMR6POrz/yzr1',
+  '52b/AJIP5Hbj26ztD7cHTbIxXVYlnHam/WXD9/TgYbt2Gz7u9WdCMhZfcF8OYy8SzhzQCqdzPamPJYgp/vhVlB3pxSeEKjmqMFMH',
+  '+G1uqQ6XSz1Usv1AxKkJF1BS6j3E+7dthT6Po+vMgLtvMOSjNouo6+F3JYAroRLWijPOCLkkJFMl1dYN1wwflrJHIhvAtILfu576',
+  'WXfAjFYQ5/r15hxbPlwiXCpilUIM0yn6HI2i0uQUWcrEuQjiOYI0xciqcqHEzh7ddma94Llg7HtRCkBCvZVj14OUWeqq6ID15lKt',
+  '/kRIpbdv9wr37P2EPqL/ElZzAzTTs5GPq2twRLKB03nngLDboHcW266tWgyLBKmOJmY6Hbgje6FE0k7J3h0qAOWdkMNUuwxRfxAG',
+  'rGOmcrXZiQVnol0WEkl+x92g4XL77kqhpkWuT1ERHjjZf4me/XtanqU5VM49LWjc6ekm7lCgUXeq5JKhVG3wTH3tj2wqk3QX4hxu',
+  'pDcQC8YH5VW9ZYEKE3U128SGC1Z+0m43T6RmIvHNuRLIeqywlY0qASxVG8JCLEIqiB7X21OJOoCfH8WuMWCK/KeRQi4xVXy7BwIW',
+  'MN+acGVC3OceKC3p2bDP0HwnY87FkEXmO/XbZ8vmoWFsib0k+4ZBKhkvJb1QKWBRe02CvOF3zpjpQLd6BAPacgpjg4eeAf2M9m6M',
+  '78dZPujmALFb0vln8ygTOVhAby2phIO38V6g/k9ktqNRgDkDt889GFFCHDVQl94M/uIRkCjLTHN957t5zRnCOnqyhQmERjLwdOUr',
+  'Yc7N30zWYXEDy426gYj+plxuopf64FumgK2a/RyTl/Fmy3EIRHPUUHcvDB9YAjleWnsujKlj4eEBY041VLoDZA89hUt6UItyLirv',
+  'hgjWusaj95IPBRhwSAdCZyPSh2r0czK7zU/pwpKdazq4Nd2ZzR+DsI3/db5PxduLAl3GmTuSMG1PNjMjOLPMuzAynkfB4YIczLA9',
+  'XlqNcQEQjjOM2WYr/FMBYTRCJYzZje8QM93A0KJAl+MSsUnMT1v66eDUgssjpHU2EnebOX1DwitQOAYAe4yAk0rnzcCIJ9H4MyIl',
+  'j9xxt1GkjtPB7LCS1jorizg1qeX09cbejWL59I57eM9TPbe44b6B/fEN20gbFbepSLiAmpJlhrQxplCG8MYbfeA2Jdtjhs1CbS7d',
+  'IKrTGTEnhVj7GKVPaAW5ibm3rLxzhhAMBWBVi2PnBhRNUEqoD5PriHTx7VmaW5OqW9ywkLMUIJvNJVkcEBG0BIslwOB8zlnuIOAM',
+  'n0pPYMA650DKNpTxZ4T00W00AC1OyoR2W0tJxfzmVFEclwnwVCZSgnd7p3ZpKsDGFJP0AThLM2bxO2CsIALUkn0qX12LVjgsjWmg',
+  'ekummQW6ajFbdZyE9bUf+Z6fe45Gz7DTFyEDXNdBVcU6X/MOFrGausAbh9cAqYRKKAqYAT5YvzrUh8FgTrTAEmb5K5KehobTLJk3',
+  'o8TOcifGGLO4YNH+TPkxQhUfnNLQ4NPS/YOoQ1YLX4Q2qNx/BRi9gaLWL/Q1cz3bxmaGT1qot5sWF6jTZAGEJAq6xApVH0hzT3TJ',
+  'fOsnSHagc2EcCKtkfIJWWZr8uehLy853VJX2x655GRkuNOoqh2n7f46+q+3eqRK/8V6dRpoqg4u3HK57xFo0L/xnWubX5HpGGwC/',
+  'n2jP5n6yAxNcwkAL5lapH8sT0ER1qP4i79w2tXD7UQiwrHKz2596hYKPNwqE/hNgVUAgDgwOEvvd4bBmNt1CSzf9Zt4Cs5wOAZKN',
+  'u0H452bEuuaA0q1RcSkslrGhsAyFuaqsbAyFEkm9F2+ai+cugRcmYlxQTbHupE6VFCr4Ew6zaa7MoK9zlXZIL+aUMxAwKjwrOlve',
+  '6GIHj5na4iCrpNO6xNkD1KApDRCP5pwwDeDOT/vREFoeYampXZW+FfpOZPNhpBFObQ1nMVvQLRpAc6bI2qMtXCtHmOVIlGRIKbSt',
+  'UK3Bl4NuBVNqGTCGCWbFN+/4u/IORdI4jJm0x/Cv5UHoRdvGffPuoubK1URmtYo1Zgd67WARGaETPHL8ASkoU373Y2AUnscnFVo0',
+  'c8jy4yNfiGNh+zUst79lGmWn+oO5YA9WIRY1uq0Y2v/dF/mwidKc9YecVV14czg6OC+9fEpJgIzMxNQKrKcEN/0eVCI1Q0QqhWgx',
+  'sWCdvMWUf+RbORkaV+uC16aR3J7om0AVRh+TqQTqejJqbWoTac1/pZ6rBZ9V2mbJfeSKamHgjI16uiqF613e1sGaydRxgiYSZ2QG',
+  'qApa/euY4jo6VITXak331Go6lkToZ7lh7JeJQdR5t4l0w7/Vk4ZMYfDGCP66YPAE9Pc5HSmC4C6SuD23A+ZuerIPfwX3Tj0jUMGi',
+  'ErnJ1FSXiOylCoFGFxA3lG98RZCzTbfukFeEr6nM4+d0Igs9x3IoEH/E8UWIj0rv2SNGTQj9pY+BAZ84QYZnpcpsKYDwI1AreQFR',
+  'q31Y1lMSOgHgymwmaYuY0diYRypzogRYntgWSYNIQGc+bGdFE9ZgrWORpyu0qwIcDfwR1oTfHkfKdY01QUJIb0JdNcgBLmveRlXj',
+  'VKDlPPh+F04E8HVyObo2C5S0QcA7NWJwRn7I/nT2lU6NOuVBirWyUfTj46CizKrBvBpjyh2SHAVYvA7PkPnAIY78Ht7nSymScPjf',
+  '6P2Z6vXmhfG4zE7cav+fIazgMgJsuDZEDLyP4BdnJ/ZJycHGBEJBIYM/rMKBrhycuimjNbugjAAb9+E1PfYcO9CtKV2drohPN4Kg',
+  'Fg0TVDc3krtF8gAVH5pUXeQ2HLYVfIlQnmx8TDftsRoTrdQxcwZs0hWq9RY6wOnTig2efJtwSZpISLfFCWHgNQ1nJf05Jz9Kbply',
+  'EQMldeBQztLq/h8S6gRUIAqTskuyME8Qqav5HxqP4kymO870A/4bLuEVqMQv9qiMPyk7XOMVSMNsyXB1IVd8sMYKnOc1m2xe1Gy0',
+  '7ydSPe7PECpR8/8BqUxfAymRbivMlZZR9B/kd1a3ibEghc4YyGQLsJmW6IjF70+0aYJkfORUD6pOy90sVyCILmHC+5RXpVFtC9p3',
+  'oPWllY9XtRbHzWeduegXDaQ1QZw3PvBRgiEybESGGBeI+FCdmtLqPh/9+ZXeI8d+sbwAjWoL2QJhTeILceVvZanpGXKhZywz8wov',
+  'XlTSwnphhLonVWFxvuJHL9zAUOBMELf36X93DQWEARdt0hWiocjkPDL1RuR6WTSGs6NU3YIv0rARrhLm76385vdyMzo30IqUL9ko',
+  '4iGLafuwkBTS5Ea1A51mFxZRZm+HUXSBGMHPuhxQc/NE2AWj0EI5buOI4eHrzqOgLweFgCffN1rU8nakNjltsGdhplEZhfQp2iXZ',
+  'ngjIykObA2CxpeZ3BxKR1FWmWgn+bIWzpmp9Ei/+RfZkCDZW10zQwgiaK6JcWhS4FDywyMGK0ZxSiIEmlLLoTKyixX9OLqPGPE+u',
+  'n0nFOurnMsp0C2VmraUkMPo8/MmxC4XtSX6+TnKjyjidHGaruUpzVgs5XjYz7dex7TL6Hh+feTc5PglVILpwQajqm6+w7uB02+Ww',
+  'UvgOW4vQ/A73mvHJpCh9A/xDn2Ipn6ix/lcNi7C3/u6BedvQNARHqgzboRZ9eIU0arTDti2JIo+j+KNWjzmMAMQoj6rk/xQdznmH',
+  '3ovrjxUbOS38idOnsJcEuiVN9H6l8naOtHpCdM+yhxqj+HkPYBVmL7ExNz+TMajcbCLx2LzCgrNawSTOyIvNvclRUvpPFkf5PHWM',
+  'f8QOWZJMU12ShdDvioUTWKwWq39IsID15jcQXupFKqVUvZ2xkgF6tJALLx/U3M1sgJa2aO7hmMIRvIiI9aMu2tknFrDLNf3IPuLq',
+  'HCsaYkW6mjAjLwPTCH0lWvLn1cCRwr3A0IK9qDuscSJ2EYc7acEFj7GuaEx+cKnDsqMxgT5nWoYG1p19OxEUiyyHNdBfeEIKStwM',
+  'ECeCyC0jzXOmt0Pp5bt7Ju0HUywwqH+TwSGjG9GhlH9D0s3ganer/1YschL0JB8l9sC4RH7Eq00ODZtwagsxO+0ks5Aa8EuXdk8S',
+  'RgD77ADnhNJSEMDGJmHibrVNRK5NguAe4UhboSNYHjhYiFbFKur7Howkus6tOwA/eCokeu054N/CCdgIVRNCZ8Zmvrll6I4KW+c+',
+  '2vEW0E8ge3VlDFA5kSMKp/3L0DZhFY1fE8eD3H3Q1NsWXYu6KMK3tDLovdUv4avq8AKGQdwuqr2civXffa3m+RMXhRTiFOUx48Jg',
+  'AOf/Q7e7bMUrHeHYZ0t2cV4f1bi4cfgCEg21NSlehm6CIIFAgJ6a8YIfPoKIWBfwJkHcQLiafNHaajvE69+Kh1qygHiHIHx0H+Zl',
+  'fmdYDpo5O7YlI2sFNCRI9BIhbkR0AbkTyYDVK992OMfz+C++3eNWpalmcw+9TwARydc6XLMhpW8ugtLscLfr1s96EMtVf8MjGCJ6',
+  'jNb1AP7UV7Ynk0578z9iuJtzTnEbym5xBcetHG5M/Hc98ai7CR0AkoiSvLZ6lE/90OzZGO/UFtgEMgrXFm9jV2SyTYH0BtMGCgZM',
+  'DHScCld0ChB3uZlw1pzMKV2axRGc0Ik/F6AMUCB1KVlbQaZv7kQcWczEembhI+u+4zw+kOLU9Iru7T77FX2GYgiUm5nGVw5rWvTB',
+  'PgJPKYjGOxKBEAl6Se6zga6i6uVk+lIoFxgX4P3IE9g737VVo+vgj6Wp+zykf9wLofiD8zcZGmMfs1fbwZtzZ7dRAi2UgFXKxUSW',
+  'f8O5hOUyXQs+flaD+ebmqRBveL19b6CZYarbOpT040+wxk1M1Sfsrs9zGo7RPghcF1TwVOuAfwbWapxX8OVDMt+dKtHqMQgfN78L',
+  'Jl4P+px3ETK9XWlyDqeYd1UQTF2klmN1ac0RkoiAJoNLk4AHo2Fa2NODp9OgaHApAPxHOSD0BvYZaxPqf9GKXTYR8tYXcsNjqIhZ',
+  '0E7Te1AVfU2Uu7TnbTBIourSYDBiO9xA8QkXfaKYc9zaf6Qxhn9LnqwYCW3OgcIEq9HMfYQll+1jC77IaAyUgyVOu/L13qgfM0bd',
+  'qvMdgT3qCsPfykGxr5+awyr0NyzMf7RBwpZBgBFUNpbNpUH17yioLeEJPrS2qPSCCUGKX/weaIO4MWx4D1Vhe3mDNyNco5RHcMPT',
+  'hcIa1cGNkohJhkYWWqXT4YQMLHtdWBg+hs+ByEBpD9VZYk+42ykalQm8HrrcvV5CRtExCsZbJK7z/4uu2z4Kfn/ouiwAg8WXSVjw',
+  'ZoN7b64SzaaySW9eR1p9DRjk2t4E6jhOX98g+CYbZHB6GNVhS/qM3lAXnT8UZLCx4XezO59jqzWomldZ4fclKInygjS6hyx/mtNi',
+  '2gCvcd4m/F/qCgPyV9g4TCcWWsaww/qBL9hgI+nDAjeFV4ydxkXxOm9GWU0Dfn2jPwZ9uLfOuT+KeNUzyL5yGEkhTX+MC79eIEN3',
+  'JwBMxm4qv7cGO2K5RRwJnVf2rOi5EehEMBrI9NezqKtcEN2Vdwjib/n3dGE/uadCjfVrhihUVXr8AR5mDwilIMqVYxG8JlrkYsrQ',
+  '3BEruIHsWhWipvUtPEJ9wn8Il1N/WiorM5N7FrWrB+gOj5EAP13h72T7l9NYE9nKv8MRp24Mgzv1UnZsscYn7PjejbpPRgb9ZF0G',
+  'OuyxVC4CNDUYhuPkHI6oAirMT6BGnXTfrZkE/tghYjscnt4wIBlizXlV1LHCFFZFdeBezfqakQ+Mj06KbGxUnvThtQKhBthKv05+',
+  'Z2jVp2/8gFEhUJnfpnNjiIbKXe4OzorF9ubTU4wUrtl87OoCXtnlw1vDpvhe3/lO0NWrzKgAEqdQyyi+bl+9WYGh8pLXdL1HnxiP',
+  'ZYNBTsNn/ZR8unI3codQJUA762P/IhzY3XozDgNGESnzf3YdGJdx9UXOpgVHVPmxwRyU9EcXlY3mEozkJdPtqCqAH7M8YmmFHklR',
+  'dxs6v0zdIQGhpvg0doPiLaXUwG+ZBqNTcGUGpPVN30RGaFv0Qydsk4Bn21Mzl661QgqgRCOyJCH4rOCf9Fx0F1UPgJMEbkNCFUsf',
+  'QW28a3dAm7K73cv1GIzxxF6WiJ7Dq7VKt+7VvhL1hFIIXSwgtPHX/tUG/RraalKvGLPgclkN5lcCXoYZhgvBHR9RhC2c6Gy6eTZv',
+  'JspWQJcsGWYBJLpozXvkQtyt2EicGHGGX3GXMIuiDj9k/MqhtnNGFSDkOlfxN6nB0KS3SW7WC93C8qmINeZwY3icdNj2TIPP12R7',
+  '4X1HVhWcKEmZXYZlYdkLpXaIwvDbI6HXnNWp0plHpASrM5ySkoQIsQIIM2gTRSgcmrLUBg5+IcqDva/fOXyOxyIgv5P51q0q21UD',
+  'T0JL5BvOurYABY4J/HDc8Ct9cLB2NM1AM5AQdoNULasEyGrTY0+RUN+mNfehuaeWOGXhQeujD9kU7hNmruVqITHG8s/AWaEa4hQW',
+  'pCKyYzPZPTgFOqfO5GBEefdYDNYhdTKd73UD0fR4lPep7lYJE8K5S35tfWu853AYl5W3Mrval62K8FAo07oeNIfV2U1A1WspWC0F',
+  'z1V4w0qL+ana1s31iay1i6ljqRJrqXe3pzpHKmqqIXRyrC/A5veEvI6P/SIKGXg3YaqoiCkcYatdQaazwg1n+FlvGW0LvZ64AB1U',
+  'a12z+VHMS23xthKvyI1DA3WwFOFuHD36GRFdq9xww+j9tVhdYM1xi7UuvDd7u+ykbT0rb83NyZHok52G9UhuF+LiPOgA+xYjDSLG',
+  'rF5GBmwt6JkgHjNh6Uk09KImrDQ/4S8SVb04D6clRVTRlvhdxaxyQppM8oE3ym143CJLhrbTua9dxAT9teZFKYRLQwTd06vJmx6Y',
+  '1Sm8WnsPqxzYNQpMiRHaN/u4IP/WBBDorfy6o+pjz+lopCVBDZ+cBYTJmy3qKAq7RzeSJMmcDEUXd4QsnsS/WpOx6JcdMDYf6vv6',
+  '7guHVi6KkEKymHG0zeRd3jxTBtTQi/jYnL7TzG2DObwohhva8gHl0mB0SGi4+XiFpbEatA9KXsylNhw7NJ9nnpa0z8kyZAehjKdg',
+  'OsmakFdTqRSbS7/NBJzQLOie8TpfVkGgiS8X9SpqbQ4DtidvK6MlO6XsIQidzn2mJ/YIagizl9pwkqs8/tCA9/vrJnWfZ1jp0GWW',
+  'qxwB6kSSdGCzgDNIYNvfA7RCosc0T9K6K6+OfkkEVYkKXpWfVu2T9+ZBEzBL5uPFnmrBB+6oks2gJCrYJqL3kv39m8TaIrQ87FjC',
+  'jVfUrcDP8B5woz2bvKHon73Iu16pbWpEphi6g9PNld2qvpd8IPLsu2heHjIch8Q1SBjTXMrew5QD7Ys0plHMFG5nDQA24UXKr6td',
+  '+Xwu+OXj5eNll37XZ1F/DYKAoI0xEJDOos5BbaflCEaI8Kc3PXGp9Z3qZsjvJqAFYgG0lLEY03iOtWFlY/dra0SiYEknD4MDheUp',
+  'JJX/jrZRjQHppJONBXe/Or6QBUNFenxs1wTj3YGihCpaD1dJZy+FSIhPAXimM94MK3Of0M2BE4yaaAiSZWYTpoAPPMPmpW5BJU8n',
+  'mp6vfJZJ9I7ZU/E3aNEwR6YnlLxpHYL8iHu9xVWX4u9nGnDB1VGGtx6J7rBlnZr7FU21BLH1CfNVy4ypp01A56ux922hgjK+Rg32',
+  'L5cY0rT6Zzpq00z8hW9SiCr6qu9nch3vN9UYmQQEFpYjqpU7J/JoU30/JG30TTEf3hDQ/Xh3JgJh/upqR8pfYwcFUKOyNvYmxlcH',
+  'fAX/9cLuwGJJEomp3Z6GqAJXSzTNgssGYmrL+GofEtfDUTpBPsltDZMJsHQMaCIQz5eEp2odXfNOBwFBXQskh42ZIE6TpsBuasvY',
+  'EozwKYESdZi+7wjttF1/ty5p6BtZGW8SdWUOHHpFLh06FnXsK7Ww2fvKQVowU5aPIYizclLkTDkOdVBwsqlCri7ksAbb7PFvpAVb',
+  'Fb2PFnnS4W0HqMt+4KSfUAG5li8a5t10cVx346xkztBBELXfPAPsQKMB+RUb0f3arpfBIh7mMaCQcvA58SGIJ/rQfyRGL77WiHS1',
+  's9LTrKfJvLuGFYgZ94YvqljvFy3DDMFIrt9caQkDlVDZ+3jzP/6nUY3hbTYAOJhoG9I0SSEI1cXrsByMZAyqHY6Bn7/e3xYpnpSc',
+  'Kyb8D2OnYi/nxEhC/DRDFrcr0K4bIOf5GyVk7wrAq5baijRR9qPH/h6NWO4/S1fiJMypuS0/mNuqar+2u3dlfxkjPFdq3d/zfysE',
+  'wIAmYue6XNtADgQUSGfPptPpxO65nCxp2NMkc8sx+kBs0GYdxuHS5hFgiGm+kAb5AOwvQ63AUAR17lPI7FoVBxPLskqhYsWGHL8X',
+  '7nj2bsGP0ztaHVxBQWQwYCykU0sksYDr1f1AZu7QiiDk1MOqgsARzeYxQoOhPgL88+9g6zUBoCOmbJxeWQ4P2YkYvFPPYf7pRd4V',
+  'dqH/I3B+HSSq7rQGic8bL/Upkcm9Xs4R0TZtpUw+Dv6iNtDUrx/7tP4YodoXFwn5F+kGK7FChywXdhyRRB6HxRUILMEf71mv0pX1',
+  '6ZDr+TSs1VF5ZOWBZTXlDCWohrveyqDJF2xNaJjUFE7hSOFtHbHQgI68n8BnZPo8BTjPylRxUIhfgNeDF3wmxX0nqpIVb3qQTUW2',
+  'MoKefK7sYTBbqbpBCDOVmCjfGu8dMGv0xhCsmFWwQYwTAMJrDcReBghywckyzcEd5G8QPjgQT2CnW7Zx2XzXZXC3upNiiq7NNSOE',
+  '58hBP3wdfTLgAHQYMwC0ZODd7EyFVBGhANJnMeCSEs2/y/VCBPDH2QqCBqKGyyGbmqxqbxpj5rDrbEUejaL19QS3vhDwb9/HETio',
+  'ag7Welww6rFp4ZkQyoEa+xwrQs3mTekmaCQtQsAf2TnGbLQhzKmFIuZW7yuSLV7l5ELt4lFL11fO6DTaNXxq9n2xmhKXkKoPQvaH',
+  'bWuTLS2u9MI1Q5QlAZwUNSgJdD93lxOyVeHuwQxv5vRuHo4JOGHtHWDxVshAHQ57cs9TVvUKIIuYR53l3oTuoA2c8ynIKJXTIhKv',
+  'uwIjQGlqRpR+ipt+j72bj5J7AgqnzitxzJLVPWU+8ZBzRcQMSwmcZg6f6gGotzx6KsusjlTjm8it0VvRaJLLXLFhQnHlgfQejaUW',
+  'xA+Blhs22KuL22Dh/vgghIOkLWFaRYuGT8I0SFN80afMiMaqnuUpgGbbfUwedvlDh6Eu6cUuDAvNKjk61r+AC0X3bLnUHitk16w9',
+  'A9gRZJUGqgw+1X8xeSQX3sl6CGNi5cYb6mqPZoM0ALJ7YiXMqmX1p5TBJnuQNqkA0zTHTfL7Zsz3B98p6Urlb3neGs1cBqzcKISt',
+  'xbsD1ErNzn4jRf8RUlHd0PS3kJ+TD6WTXqvN6ZBz7aPXIPNXVzIay6rUvogOkdShQow5MBqImv/1KkGXVB8hJJ519AZERA1ogrxn',
+  'aQDPCjRT4wJknT0I1d1U2/tyTVhoc2BO8WiJ24X0FOgN8npatzIUADehC7KguR1DgY2Dc9XSn599P5J5AXD43QmKBPBuohP2G8AO',
+  '1VxhCQADGh+UieEQe8L6yjIoAYZ120lTyyHw12OAEOfWmL1pakZPF7C6+k22ZHIKfxxFZIqwUb/6Bp9L/xRob2NVwuORrXBc0NGU',
+  'UsnEddYwg7cQ+K2O28xLxaDuNTGKB6tNmOHE6AqYO8oIur8HxcHgbABEi8sy2BezSKXErUlUsJgAeYdA3J6ogtVEFq05xJYcwjnj',
+  'OLfx7JRZZhv0gsKx2nLsbCwAc0VSP74pIGCvOWrySth5KeI0krIFTryea0xpy1WAI5mVQRKuJ1QvTyqRuJRUrGrdRE6T/zc89/pJ',
+  'O+y1ziiCHYyaEWbiNEb7EjYKxfUMEFr6yvbJHzyIgwFrv/RSJI04yqXK0tSVHWFwprdJmiWcNWqC6LxyyjRQEdyVOuLo9ldvm30j',
+  '8B8lrkB08pwS7SPkI1Fji3csJIK1V05Oas2JQWllUg6Ws+HSASdRb/+5kZEsOnVdB0uJfd4xlQ/jYTNng1BPoDvcKT/6QPJsGHhI',
+  'uWZhUh8tGQXP89BDZXT64PZGbQELSz19/HzyNHzi1ZYDbCsjj8rpr8RlXwaXIpKG+QJBMQRrN6TSkSpCfAwTu1zUjU5VfyPDqBbo',
+  'pVsm2NEIIsKtXlJwFjxkxlncseTDGdXWiqOlHa1PVTScCZV+pqC3LD8utX4B9YZYRBeSsBRNJ3whWOVLGSCjRMgapLj8EeWRJ6pE',
+  'F0odIGwoU9YFWuUaUv6Olcz6k+HNwUbmzcDZqN4TkJdx2ZB1FPMLfdx+d07/iTi0R6oYCUSS6L76PLjldjz3GZWcOIGJCFTlmDjn',
+  'eUnwyT5CVCIHWB4cKDf8FGRD5+PRhhBFXgAPQKQwVeL3HWSFzKrWZxkP4ZZTcAdvIroVuNFeuTBiCYMMruxyldGs/AGr1IM14tN9',
+  'HrqGHE/frfIeFz/QTJouJnxInMghjfNEEpu4gA7cxp9UdTr8cJSx3oOsMWIwSKevCiktpzwc4LaPdbBkS6K9/OkSL99UXJspe1/W',
+  'gR4LxK+KYcJGBGcUd8UlapTGqS/oTSgPR5+ma2FwK1SisP4SZXIL4hwAhWyzIcBDRrmk3lHqhEKZLG1OEh4shGNYS4MINWkGI8kK',
+  'DU1zHLcajLEnbHSssJV/upiPUPphnl6ZLr1x0LLFcc5hU/YHw/jjaJEc/4fUGBGJ+A8w8YnwP4aMJ4Zgtiu6bWNCETA1cRuVxRfs',
+  'fboPUMKINQEoxn+189MbuCH/3qk+y+PZZL25u7C2ARR5u0QzlX+hFoCuyvo88uiIA9lE8rCKhggF0eHRpPhgfCI/bTCVOqaNm9KL',
+  'V6vXNUH7KQnp2yLyydoF8hAFj8X4VoxurzvbpdU2Kypllr+JyjTcKRZzrZ0gZhP4ms1yIWMMT3aOqWCLOkZuicck2ZlyaPVNlU/O',
+  '0ltglryfHbYG5HSYZCl+9n6T38HKNTHhwD+lqy9h4/ID7nDaZVb3tZbLONk4mbsRDav7LxPjvKU375ktO/IUnAw1hTnwTq9AOjY+',
+  'XSJI+ZHK1KhuT/tGR6HnyZPoEvT7IEYjiIbeahkjLAFHOHG95pxjdp86iCnjEpZ77vTo/qQYQUNTYQdg6YbXkrqmjGfPcBzkAEgO',
+  'b5nMfgRWZS/PvhdNUhg9UYCIJWsSJmB2gIxzKYwJVoZXmxur+iTjC6r329pFCOHExH3UVY/rCZYWamgA1SUEpdPn5P0XnZA/xcQ3',
+  'cMP+XgaEBQs66OLF4njIhIKg8Bikddxl1n5xTUWhjbRs8bD58tPhVXDGiopecDld7yjX8ABCF2YpQX88Ui5iLcgt3AsG/178K4LM',
+  'eUFCNHVjq0B3/4CGqrhGIa1H+frj0ZONNvxgY7bJ5+YMuk237WXWUQI9+CA3HVi2kMjUP+TfBf89Y+sN/JdKAZn3FoSFKi17Lh99',
+  'nQ3c+QuJhK+evMjROOyBLIWg2ES/LfWbPNNB3rTN7hkNF49ce1LIGjj68Uj4AnceqDGnU9ZSyhH4rSG2wJQ/sjfUppdjkcullgFN',
+  'LgcurWE3T4hqedI81aK/Lwtt3GX/5eRdBoBicrkF6qZ7I2NUAAj7XWCSkHSZ5nhPGRE9+3tSRpfBqOK8TecO3ierMysTQfQzPLQu',
+  'pAtdXks0U+UYMJ2nnncVTFwWIUVC3FhMy+JoSjXE+KA4knTXV6kMutAR2F4d0+1HelDSYeyIKDnz5C8sDIeiytgCvTxnVsyThVRB',
+  'jw4t07klM7avChiIuRv5FxEt6iykMFe7pPPocbnGE5lTiI3amykX+2oOzmX87nO9s5jrhLEIuE5tjlzFsHEO/hZlSYQ1S7kcShrb',
+  'Qg5YSSvFh7l6QPSI3wX/FAMGUiI3GZBkKrsJaSjbbjRJx/JCLzqZAFEDclV9KmwNKOqaRs5cQmm2D21hLjEr0/pcXwKzzcdbgzaW',
+  'tQyb3duYy/cgw6WmmUvqvNSAXYz3dhjmzIygx+zIp8ZT/K/gqSxQHPQmvDttWtMYFgOYbnYmYGqho0CLn7Vwes8uWCt/sksBIMEM',
+  'ys95MaJRNyLcX2V99sUHPkZVpNJNcMBB3JqszfSTpTsq9w0euYwJXUrzULOH7sAn+TF4z+nqA6Z0P3yQu5kWeHAZtwWvED3/bdqQ',
+  'TyajGb4NaK7Jgq+c+pdnmfsBiATvHHHLgJa16vj95OIvNb8CKC6w8tUSiJjD5iUF0tBHPxN7nwvWwSyF2x1f5W9vUDWF+X6zUnEO',
+  'wB8eFImNQs8SQVrxqrql8zoZ+z+qQ1Z7n0FjtkliOGFF59AzUxRkjfXOs1XHXSZh48l8GTmnSXH08Cyr0jlhtobkVyiM4QXC8A9t',
+  'Y3tI7SpRFcdMgVNrZm+bjJphn+jEBYOaU97RaEuC0vmgkAly35nRxZavcl+5PD+RLC3+kG6op+1qAxp3SFwhP4OTlU4/0CNkMagD',
+  'Tt4EB1yvRPhJD5VyJiKjHXJhCLQ2Ag0FO3M1BzizNx2cDFAsJ3BQEqQW5Spw3+ghYkHZTWEihGGYBkEyC0NlO+cGyPeIddLTB/6U',
+  '6pCASz5cfbfE+8UohrmSuTNsn2Qa7E7FVEuPpA+0liB0kqWx3UJ1/BCk3Ix9bCqw8DrTkht6zHLhF6JvICIYrA4ndIDDDNiRr808',
+  'OVCLmhpx9qowHjkieMo8dt3jayV0FIrIM43axw1r0QlZ1T00tnMaQSNnJMyFsSZHVw4IfyYpuDQHjji60aPeMrdULwUs/YsVunOL',
+  'GASqDl6p+oBobIClNVQmv+RrJ8En/1mqkEADcTHsJHyNu70dEhIeSHjjk3tHNf8zCKemMtJPvV4f1YAXJQN5Lg6pxOi4y/Ra0lVd',
+  'F/MfodefJ7bMV262mdDGcx4tIV1QpKez31RXmN9r6mKuHBMYs6vSQvhmCDpLWdqwg5vz1t9YtuP1hhj7cj000iIyKn9UqbzQ958D',
+  'nK8VsptEtF10KGmIf3fkyPe5BSF1TmgTz2Ozgs1cNww5WMyzxUmTUujcRtyjwzqP8kFAms9mmCwXoRKIWtVj1LSnZbtNq2yVujoT',
+  'cnJpEYQHKYDoaNtZky3rjH7buBilxBpVYBCN1psmBqyNd3NaH5siD3lxh3MlXUqJGBAGbFJZQdL8WZoDmcygtX2hyx776z7koXFN',
+  'wRjEF5lV9mTC+pgHBzmUtguu8J+yuIdIrWB2lSxuscg9mjCHhGk6xrMgZknte8PG2jZ9iERi6ZyNPAwVeTX0Pb57lgfjiYsWNx7j',
+  '7gmQbCILU7cpOZw50Uo2IOWyRlw+GJTbmzh02nPmWUV1UqHSrCGKXWT7jwK3igCsk1diJ0S0JgWtzruizvvsUsVSA7CgT6GNbFU+',
+  'YGITvll6KJ8ZQEA0tcjUIIZKRNTc3VV1VrlUgnv9gf/kC+YZpiPJO2AkJOG6NrJiS5nDN2zXOSTzn2jObnyC28uNsQR7CQA8CIU2',
+  'xrCnkrlGUQGEc8+sLOn3SRDwJH/3MtPwvHYLO8S6/hb/KmrD6CYGcYF/uwXABAMm7hlprIKLDmHbxHDxuMK0rJem1KFVcbTlGqzG',
+  's5pqm/1BK4KN4v6GMIMEzpEot6GmWUbKDtdpvrGVVqI8Li5r9+/pyEph20efs6TnszC+XbhhUrBq3ariV3z4QOgd4VDQtpWkMj0t',
+  'KZyAYiCzbNIFdKFt8dVH9l19GNlqsrJpe2yneiNGsQVsJ4ZbPUGICYtSI84KxFHCvoSKIu1XT841tfwnLJY8ic7m5/EwVVP+8gh9',
+  '4HycEFWmObATglZYJ4lHAwN3i95Arbfj3mB6BTzWAiaUkSfeU40YBdOmaY2Tr+sDSWZAoFiftn0ZYbH8WPtGOwV+pNGPPVDuhrkc',
+  'zRxQauT6Ng3cLNhSU8o11knQEAahP7Unc6xMqJJKzfoZRmbPl8D7jmVtVs5jJGdFvJcyZiUg5OMohTLzwtbTwRHk+oYeMc2GzK/t',
+  'SO4l7Y14uxarcuoTz8cxEqivMi7f6EdJOvGSxgxsIL/YL0BAVj9um5dFsFdGj2FqVc2KQhls3kaEizT7vOcooiUnBEqugYHhEzvT',
+  'bMUMfLgCqOk2gF85LVj8MVVqk68Ej8pnZiNSZCY0HXwhXgUXE4y6YttQlRZytzMZpYMb2zJBnPbj58+6+a4Yh4bgmW5S0wTZKsRS',
+  'f0WAl0o9rWK4kLhHYkLziRWRFls52+nTBhc+pELDcHGe4MC/i16nLqcSHrL3AcMylImqUpcn0VmGLRpMhsXnCPGBdN95hW7D+8R1',
+  'AGBl6WRjBNw79KzivQAyY2Bf/dPrQGFtynzQGoLSExcOsYqAjAyTlZJhQeOq0yO1vQpoltC6E/pTF2OWK38aF1Idkwrchcu3wRle',
+  'K9xy0luKswQNDryD8mUl1iBX6p/XO249jDhLh3g+KwCNKujU5736D3CL0xJQf3MD7+H3G4SimpdRnQZQudis+4xQTIQeFVtyjKXY',
+  'n2RvqJAzV2TN9I2/Q8RfxlM0Hq+QMNAH4KTTsEtVvmWuU5+L4uD+HoNBEbHkexsYgNcLP8utRLHNqI/55yG+/e8coTg1LjwrBI7w',
+  'CYwH1xig+9rSmbdp87hOWaqsiwFOnwe0CGlIywGFcP4GoW7shr9jDpCVoSvr5NN/6+Am+ojrWMS5E7vGYVL4ze4T0fJBiKF4Q6r9',
+  'SSnhmqqyzwe+iFQwwhunYBf53egDiZf2j16pwb6qL996dzYBwLYD1FINh9NgEK3LiqaqnhaEjkARRADaF/VkwVUnkByt2H7qJyzQ',
+  '+rFmZFxqk18LJ4Yw+eG9ohli6z0BbRN2sBOpOQStoPOTw0XH8e5huU7rdwKaAAdXA3kYkefCAqbDrj2MzfGbSN/evrOOplVDIJWQ',
+  '4wov8PFIsJ7kIjLSGLQoLKr9AuoH6RR0RO4F6yS7+bceXKLCCKusM889n2vLL9IIFMNipfZdG7S7O8N5C5kGsVMj2Rxz3T4vtk8j',
+  'wcZG01JJicGstS7m6LpdmqOadTZOWcSfdGLOJD12Dpoo9bQfh/i31JApXyBB4KgZPFzpxCk/nep2X+K1DAfnx8fR8zFAseJcQAbe',
+  'vBSuJn96Chea2V/D0VRG95xTQIXpkFvnElbAi9+Kx710yQsmfcK2Qg4hwvCppgwq1YrzFqjsYEmICTK9NkGZd0qKy5ZQi5A7qdAw',
+  'QEoQGNVeAkGzSMa185d347yIeszpkH+J5Qs7W7wuUUcfT+9oH1Lh3jUSBtNsCKX5Re5/9itpAeLqqYItbq4q2dgaYf9KqxDSrhqs',
+  'cYg9rLRPSRh0X/RWCaUDE5lx9GMwikwWMPKsfsfg2WOeJzy2rKd2LSfLPFGdBPI8mR8kzjOhU4UwtmwSCZgZG38xkpHwT3pMm8ke',
+  'r1jRNKjUYZ2zgGr1wBczF/4JsC+81GSfjltJy4k3QoAtO8krM5OBVT1iDuKsobi0t+mX9SvGoc40V2SDHaKOopIGQJFp+beieUEr',
+  'SmpMRlBGDjOBw5vzrF7VXnmziYsKmcgQA0UmLTiiRhKWHatevzUZyWkwHOvXmDjhi7RTKkUgiJ9bTHs99Yixk4vsIPmQwYhVljEA',
+  'FoQpg42f5+UHSbd1VH7xkZ8v9gjVQQXZYSyjMfES6ocmdA89OJKHiHq3B6AMJu0a/Db+D5Cb2ygDGnZcqrXAwQFlmCYqK4CYuyP+',
+  'MgQ7oXTRq2mGEWmgUdaBAFBP+hAA2Xh+jrBz/se8hzfNZUy+mxcg1D23y1G82nK8ej1sWVWM0B+bcW4zBI5MaD2D82IGtGKJpXOx',
+  'kRcpzhHFigrzVSJJF7T1YrWq/AYD/MIiVBFiXVAL12XoVKIQdjI8OvC18RVqp9UQcvg20yKhyvj/mIU39GYKWir+jeUj55KoDb+X',
+  'NqhEqpV9nq/2L+P0yejjnoMVWF0xWTJAa2NFK/1jjCX0fCLnS6plwvzLI/rjEwMkQswFSWkwVdDgLqsJdXkoFAdPSGcgr5uMaJTr',
+  'xw4APwnx0uMyZOlDnhzVfRNM9e0X3TqtshAQExQ6XI9IYhdf28xDYKgdxtDzROhT0lnJfSjJ0kcfXedcGdvs84yduW9H6ozdkyse',
+  'MMrJG7avjXfrLkMxbPqBojxwLhZwcBKMIbMCsyhk68mm7KlGtUmbFoPf99ttLI2Y70najfKM+873i3NEU6LbGtL6at8gQVcx13US',
+  'AXc6PRVsGoaH7QjNT0qYjAV3XH1lC0YZEk0PCH0HnG3LYg0EeIZlkkWQntVXUAQEN73P8ZznAX6lJpy8PajxoeqngeLj7Sy12YsJ',
+  'TN7x2NYXhbGAxQJx8IHm4Q25l9pQox+XaqXj74QjepBbcC0PBxUMvSDFSPyXTDvKzH98T7grD/KoN/wIvJIgPRkju2MqFsWI3a8G',
+  'aL9J4fgtMlMzu3n4VxSQXPHoDbReYcBjWF5TH4Nh2wL/BtJ+ylq4atygBrX6560iJm9doQkyM833c052L2R9/WbzTcbE7EbUVXne',
+  'mgqhK8Ws6gUkrNloX9QA2v3Qjpzcpk1Q7D6PLEauTQGSd9ldbZfDi4STyXvqWE01BgmOTByZkc0pFHo5nXidGOPRORw21youTyp/',
+  'N9WLMyYfJvZtG02rMjDLq6LcAhX3V7IMKGdYm9moF8rX59qqswVkNrgyZlmrWgfbSS3AwmLNkxe2miGr5j5MjQdvZ6ED9U4uplQF',
+  'Jq9srqEWfO+yNzMTWnIx8HV3kX0gSjCYNT4C150LJ82DJInDDonMBntGTioDd9nzqw4e8Zx8y7LMqs+eJOKHi2B2z29Mr/N6CRRQ',
+  'Z11jQmZDSLn130GCU4eAdnuwZQ772Pp7K532ZOW8+L+mNSKPIiiekIft3Z8yFBPhB5UO+0HMoH0R6sBzQ17HetMMEc6KXWJHMOxY',
+  'txKjh55QoCCSVrsN9Bo1CxbeUneA/VmMKslr+FL9OD5sdDya/8oUrCukQz9pMYdyMJnrcqYKHsdi++g2jhF4jmp0QcZqnA51QQDp',
+  '8M1mbgBNIVotKj3/DuAEFZHFjmChWq8JQHiPYRJcMvyDXDiLW8U0g97tRphcmQee56Xtg/T5yzu2vipMEqX121HKwElhbzp9IQAV',
+  'XCMAEbv3lYjb3fakyyH9Hh8MbImpRlu77Eosa8Q99Qg8CuWbSHWyikohO47OdXA0DKoySHuXY5A2GZUZwhg+DmWXuuZEiTGr7CAC',
+  'zr4X5hLpiL2shQZFXWR26QkAKvLNXQ+idKCzMikyRjekocv29jLML/9ewguMxA7xTgAiYR3YWgSdRk4uBUp1x0hVrLB1RjZEuqrP',
+  'TbNqSB/qW4gBS4RkncWB0JjwiLI7pR7Z2knmZyb+Dh5YH9A0PqkIaXkQYeXrBByqSfxk9ODNd+EwVKKr1w8EB/Krer4u6PGugPYu',
+  '/iRWnCLP8ip3Kwpbmof2azRdR+DZrTL23ydEUDRTwjje5OpNjh3DDsv/4y4ovBMxPgGZFeqFc7rhCjN4P6V/Hi7Zpo3s5oegXF1D',
+  '80sRYXYqp2iqHLsvKqspscIjy8KmEmWSf4IzpYnn0CRnuVC93PKjxpQ7ZR7A8L5Xcl7oIQVXVDo0MVzxoJ4j5E6DyvRKYVk3xNRX',
+  'kzTYJ6BSCcw1GDyR0JhxaElGQpquFhqV6GKnGoCxJkZ7QPxS72Sn4+b5Od3Y13smI3x9s4MVxOut2B1HTs1Uqk0F7jLj4mZL0YzP',
+  'QS/Splt3DoEnG8+whKm5LcLGJYZG3yarA4XDbCEaQDcZwZUuVCnhAdGRpKwgKhjXYcgSF8SqvVY8oDmG5QCDAB3X3Z+pYGMxVKIh',
+  'YgPFBDKo7LIF3fLlgTp4mCeHRiicylNDohX2+/RMWnUZTodojht8WmwgbwwpW3g4EpGU5eGeH2y550AYCzN8+YNS4teAlJASSsKb',
+  'nEXIOvrEXvKGiEqooUi30sP6kDEJra0oulmVG1KFVGQeI3J+Tkg/ZnF/X2zbf2E9WIYl39G74Cf26/fsYDj+IWEfJ8hK88idCnog',
+  'XbOaOjcdhF8lZvoBNQZ+P26EGAyRGebT5/9jhKPlbweDXbW6SkMJbc2MIElQ94F7Yln3LhRFK+97mmoLqtZIPxIwoTEEvNc6L5Vk',
+  'MGDN47uL5T6IUcm/TZZjxTncjxgYm05YAJfF3J0xctVxW+kaudVOaP7MDH0nG4vDmHUV66W/G9tURTu/5nOUhrCC9En9kvlXU2Fs',
+  'gD8Y1EBafJZoCJ9v30mzEA0HNlF4IpbJYOF9EqgYiNAq5VPBTG9snpnyLqsOOgOd+6p1aPZ9j64NglJsU89Jwc/UyoHuj+RisGku',
+  'HR3bQQE5yNmHV6Uq8X04E1D5Znvt7cv2tgosfpCQy/OksQSKQXS+S5EFiSBQJSpS7uBgEiHZnzVhEeAVnZUclntWKSyMZKZN7GDU',
+  'ipN9QV4iET73U3igsEMjFKHUVIKP5Mop7EIDLeAo9cPv8DOSi6bVY92BCJja6eECfmf+AnkYqMqTM6+2q9QQn8nxvGXLPwttsrs7',
+  'iHGypBRYPLxfnLQ5HGq+1IZgCsEB9CQPtHd72RxCpg+fI+j20OygYsGIdNO7/k+lGH6ZRlGKGRPIgw5qkJ7twpNRTCzivuAxhHmD',
+  '68m7QaO5BPZULbz4mh6GhWRK7h0H+RuV/QYqZPsiNIkmyZ8RGW5vhTY5HLswr6itEocM3kMcFRw0BlT9/d2IqZFlt4VPjHWiXKl0',
+  'm1VZK6JO2V/KIqm1bpog8UH+A/kDY6HjtJJXoSGK07lxXlEoDJzXdqzvAgFjgMEuyGBE56W13S5JKcohfrOdg0a5hacUqmIQ1CTE',
+  'zr4FdDFtIlvhaHW2YFBCSzOFuoJHzykhdj9Jlzc3wMMVGKeklfr2r4TpT5Up1IsghPUTkvA82R/fjg+2dSWuplmbH6JhUWVMlYmV',
+  'JIQAaxk8qsmfnWSiMiAR2ztAaZHWYztvKD2vxfgCJCCTtx7P/xUme2BginOjklaOB4uGVB2TvM+rLhdaCTzqjBjS14UqiBd5/pyE',
+  'IbG1H1GVTWmDzz4w16srrQuT5wtzLsScjYNSujcU2cs2Wn9k2CNFHnQq0mtQyCMSQu0Bd7G/HhEUUDpm7QE5J9VyuIhbWgh1oPhP',
+  'cwpdk8ztPyasleQ644/3SR2u0CxVWdGg8IxWpGbKe/bfTxQL/G+wijQkZ4oKkHUZF99zy0al1H8DxscfY3VZDySCzzeryH9R/yix',
+  'Sv+HYWJfnJRrbL2w3lzeBqRlZJS1TuyYDKBqve4kwUXbNoJzUHu3fMG4aQVE/XmwJ+QIbjCNDQKlp3qZWFfTEDGGJqtT2E4Rtsia',
+  '06ZjBFSptxJ+ylGnvVR8TQAXuBfyjLNt6L7+YOcaf1aq93EyXyJKRznUpkCYkxEKFFVUPkaEIs321QaUCQXwSnJo2mA1jX1CPoGp',
+  'FxigzDeGsm/fr/SX/1a9MqX/Ga3vBpm9Jk7tlsuWuLwcPm+PT997S63pNC5x4aO00A0g6Xznwc5oUw6PsT+2Z4yNeW31WnF1syTB',
+  'OtbPOpGfiVlIx/TTu/ydLZ1EIJLZy7Zskc3Pr6r0b5p3mENhxciFiJ0XgB6yXmx2Q8Nyn6bYrGC81x0mC8se9q6UFGOKW5spIoqm',
+  'jrd2r5CQL1OoArTNcZaMzZBQnvEYKBY/n/0HpJYLKICMMAvrVrsOXMzl1EXjR4lp5LWh0kEyR+zt7SKgVkhPV09/VswfWacZspCY',
+  'qgaA5UNY+CZ3eImnbpPH8VERr1dH04y65kc8uWFgNqxcGGpR5YS6gsUOZAqWRSrr31cEgXOXqKh9ZZmT6/563Hs31GtUfVjTDk+L',
+  'rpjJvea2rtXWB/NL7Zjkl1nhR7+9l0DM65jYCJ8yMQ9NrtVFn2MWMK0oSJnlDo8SJSZQOTTquPdqedFAwqkgRS5xTXnrhJjss/8j',
+  '4I6RjTyFJ3X8s1hetPL3kP+P/+RaPyDNRHigLtslfx+zvqad79o/XrIlXVEJzW/2uiAOX1ujas/hwbi8Y1Ot/EdkUV4Fdkydve7N',
+  '3yL/oItpB7d/rKtCnlKG9R1nl1TJ2JWZLZbpySKBjFK69VCWkoRHRN0Cjb6iOBtO7yYPqITAdFQ3aWIEH9V4JsooaLnsZo7mvfc0',
+  'qNfJUYBd0vIhw79niSax4k06TB4kk0iWp0W1Uy33SgqvjzrkQw/hXrdS8r4pk9Nl1NyQUcowJxuYtmS1STo5OOi7praNhMOC1AVP',
+  'hRXDp4HKoGG7E2z38wwOMhfQlMSd4KOuMROtjSqAcMX6k0Q6m9nG2ejOZwEap4AoolqtfSHk508x2a7BPj94c3zcwj9jxhCr00Mb',
+  'zu+TD2R0OIKYLhYXVAwEXWeGABcM9TRVHfn1WgcrkHInvWD1FYRQQW3+2PCNPgTIZKEsiiemCZYtjnEfcIUouFA86HeHaqX+Eot5',
+  '9C4FWuLz3gnms1DDbcocXMGr5eSsf5fMY2dgmUbhgVDbCtsq8SFXQRx5avm+iU3oihmEAhBOwt9TOZ7XX/YypM93wPsqqaRovulC',
+  'f7L1v9/OqSt6IJAJ3xJIEB3qeV8CTnhl0H9t4pdWodpvjJkS26juR0tz8Vqf5w2A8JKlPmUR7YgYHqvZWI82A1n+fEa6CVjPRgcp',
+  'z07d7Oy9vZt0JmBDdbjASUBxpPlk2nRUqrMkMQkQ9CQhIAdYD8TxWiOevJlrNR+V2zM4AIVurw4nKGLWDVPvHIfpGib5MlK3si7V',
+  'EFtN0mGLvPHc9zQqEvNfIbM7UoVaI2KImBCvNYSyLRZ1uNYmLuPOfTewk/KO5Du2Cj226SGEFehFOun+u/j07r3Qne7K7RgYIAPa',
+  'LMe2kANtC+xdCNlLgB7w4vGU/uJFggdzu2pRuSud3Vy3IyT/+6ALvtzAWMBP4fC4MdCHyalZOFw+SpjRiRwm5NSSj72Tc5+BxiUq',
+  'C2RyDAMIBchaRBawGQer9RQj4zkwoolfx3IUiSJvORhNMtJb9sAtjOT0tR2dsUpszirQgvZGTdl0LOATxDYL/S8h1j/ySN/CT6Cu',
+  'K/aUVmZQQtXLNadYrxqiFGN0Eq7L1RCbyTfAOwQkiqR65pubJXMfXVT+uXsxGHeVkhHk+BqN4qBy2iEZ4UUGDzCv1O6Ac/bBjsgW',
+  'RsWrl4Wj3yWByDGGC/b/KoY4f7Atu1GuQGYdpx37ZKt9o/iLi2IqaYjDQ98rpaBtF1bhT8pLEDuPfUPXb5u6OPiV2coFQkSbO8dL',
+  'YbtjpMLt4zUGfYyu+pfgHkJvLCYq1y/S8pLFx1KSYMD4KNTOF7ocOr2Vasew10VYVBUlB4QRP5ON/R8kKQR/weVf9fBGXMJ1/mnf',
+  'GPSIJQZ4Qn50/XO41p5gA9ySB8oX2Bk28oYHICZ8IEd0nrPJn7FoKy1fqYkeWcU3/YNolbWzyiAH5ogMFWMsexZgNdkmpBMWXHD8',
+  'hIX5EMq6A6BCMhr43FKYKSbnvIdW495d0X7CZqtlWkiTw7I0rJE5XJ7+WAM3CCEJ3m647LRsI+DAXMC3VDCtPrUfv0xwurfSUv76',
+  'ZGguRAA8HKjsmGtluihS1UZO5M5B/4Yghtpa9J4n6EgmJfQDfsuE2Lrkz/KEsLPXQNgBdmoJc/sl6Q39LoAFSB0Gi6kI/T+b6Uf2',
+  'WUEHwhgh4IyF1Jo4LA6JtfBciJ90tmGuUfB7xLs9z3+WEBnZBtw8je3LGFuNaeomYuVASZKmsVMsXzaa7JbXMEIBd2hrCh5JkPoF',
+  '4qiGqCv4f1q+AL4cQmRdS8ARbWgFx9/03hizt2/Hj4Rnusumggc4JBtyEPW6w7d0HKbgsD7kEa3TEbgd/wCdC5f/gxf5IMXlBuXM',
+  'ytIs9LH+PudjTf3TLiJdBdN9YfLKwklGVISotMmJxapj01cAiXf3d5DQDVAA4qnpo5q1C1PUOghASmThrUrF2Vz1WtckLuNngEIX',
+  'lUMQpoV0RlJYdbfwp1IxFcgs9H85GgTQrbYZGi9tOOgxMG1M2Sl+2vIryez4GoChF8vKrjFjz0UR1ksLHpgFGnDOlkxRfXIjgB/U',
+  'ZL8jHTrAUyVsXAPGJni0L7rtCIRwSl5nRzAc9KfA+7w7/2ebmfIbsQ+xlzg3enUDKCZvo5MFNSSYSC3Ng4DZL8sb1ieMNWWI5cjH',
+  'ymhhfDzkw9ILiiILNM7cnm/f4FEt1IkjCnIjL2PMMwpiZk0A892ZBny1DpINLMaqYyWvECd6zezzGejVW1K3BC66pkncPw6ae6DB',
+  '2hah/6qutIeBaVw+wQXvH7Y7bbo1kZP6bm8dDRqPyI1M6JsBeCVytiRclHpvGAPQOhKRqiyxkkrE0gUD02eSkPBqvt7KsswSEKED',
+  'IUeXIu+5K7ep1ZviIrt09cn/ul658WuYQlQ67Qv3d7EnhvjA5PcHXD2w7gNUbZhu98pJkVIWJ4CzRHaC7yy89gaMQKGIlMlXuBCy',
+  'Q9qI7VdiKv2dIDKp6opBU51scD1uHghphfVLO2Q3bWDeQwC++m0a10T/r1PVic7mErTVIaaGtV8I/wTmbTd7Q9gIMGkVZEdmEXK0',
+  'oPHab3/kuYBZtyMUxdRpnfJrf+oRl8/iwurXqr3cov/RsSjixffxK1N/Vr7W1dLkOKiREx5rR3e2jhMXiVO+9vr0M7MIeGWWs+Dl',
+  'teYAEJimo/mvVOHcupENU5/Mma5deI19mBnGZyQcWS1bJjT29ky8mIDlCJ1YcJ2QglSEycr3Ww6o+8OD/KgdzjsWJ7UfewXFJFIK',
+  'uFoKrIXV+gRL0bdhicnhW536i3LqOwoOLoRcRZc9bnI6zW7AlY8oDBqPyz4OG+43eqoF+hTWp/ZKiy/geQ+RQJwk43LkfMkCWva7',
+  '0ufJCH0petgCPkw4oL2IuxJHO7DgGwiGp4OJgg/wP0Nr1RXg6BMNu6o9+Kq/ekdC6xqJnfpvdQ6XvkNdXy/xAwRxlcSSGZATksOW',
+  'LeYlg7pOPjpsxEYNhQlFwiWV6stGQOzKKLH1hZ+dBbaHH/cpIPWanISe662hCLpNQqgiwmlJ457qWVZG4CeOeFqXs4hzYGsRtIbS',
+  '9HQoHyvKwHCPDA2B1mVrqlifWAT4hAYIZ/Af8Ppm3680PY0HlV/OBbgjad5a3LjrJ9Z0aHHzZxxx/ORXal1yO7t8e0Xd5AZ1Jfr8',
+  'SRAqo/XheaRWhoD9quS6vOm0m+Bx0B1SiKza4Cz2hWihb4dj/PrN6CBmF48GRlLtumYRp5nOCFLro+OksAa5bbIz0N5D8hoOPWIB',
+  '4pJIEnjBSGSQ8i0IAZH+Ey1keNvbHuzOz52iEcJ0KY0vvQwlub0cnjgiTawkja77e4gd8Ga+qP43lv1S0+kLMs3qcFKtJaJbI+bT',
+  'httcY867bNRJTxJcf5JxSAJYDtFnLQhW9N+4XVNpL174CpgHQ85pVaSLMVlx1MjTGVLrzonxRezNZzxktVLGV1+QQxj7JD8lB4CT',
+  'SRlQNtXT0NpHCHWMVleXkHupZACLp5FsIaXs0NALJqHF9Q+nYcvMystWw3GZ/Lu0f3nAWrHHsUZmYM8qIjtwYNmfJOQH9XFSQ2ri',
+  '9gwCm73HmVSfOTzh3vmJ2s4zySfzIOyva00TJtwDsXKIfveH6F4+X9i/o80RINYDd4uyUUDYas7jCGlD4Je+4LF3F2arHEvXjgtY',
+  'AdcFriW3ygBpfyA3aVDFy4ix1U1b0Zm9VXrHZMDd9k/4xDsxjdMum7D+kg2/feHSfuAUGa+cex7vuCMUrL2/ogpcDhS0eY2YhG1n',
+  'NmkbRmVL54qEG11L9JSXrjqe9MPZ+MgkLCcxeJ7z6DHMhHLU8HYeGGNKnv0nn7jkwN2IfPJDatHKnLx2eqMkEsJuhYbkDAvE8gOE',
+  's0EYIiBCGymqPyYHQEZS2kmswrh7nDEsTjjHRVgFkzEYK0JlHNQZZKdtbEXaLW7TfqTmIYCBFkqhdeDhM3fBPC1rBJ3PamJr/a0X',
+  'UJ6PrBMqQPm3+EmFty8EHycAYuQWFHfzvVJnyys6p0p7eJN0DfMtXviK/hbK8PkdIpYTj22xy72nyIA9SSSRGduiRDqVb1oj7+Ph',
+  'Jq7dMmYBY7Nb+9ch4SKuGOOUKlF2Ag5RMMJgGwcHK3hV0krb11w/otih9nKU31C+Bp+iIPW3ClMo3ISZcpBn9kkvn0FfFMXZKX5M',
+  'aL4QZUuhnUDo0Av1phuSLfTwIuhbYMhA+yaQ+ZweEn9ivORg4yrXaeUcrUIrhnBA5w31UZD5gaFsmBTHG3HPy9nZ2Gk1H9tktITt',
+  'aA2FjPbXEbj0fgv0u3kZF4OHgC6gjYK/fA+S76FB65phAHjpMW7W2HPAnNx4ufGYSDn6bnIcMoJ0WEV2wAsJ9ZkN00pXXGXWmMvj',
+  'HTZNL/EBzLM5gyUj7hQQ5u+R4iAI9xoqVyYzgP3VOaKYkjCYlfzxFGEVZcDMbRyAaFoz6AWZfVYySQzgsNkArqulGCqaEBZdDjs7',
+  'hNz5S/rv0SxTdE8+nsZNcckhl3+GTVWjRECHfF8XQawdlGepjPPtGkMpWK9cEf/dXKE9GuaZdvCTYgJStR9yPIUj86HAYawJ9g7S',
+  'sJtchKrAlAzlh5bLJYPVCe01G4I8hIupvmTV/IYkjRT/WJijDEQxoBbzkER16iVPoKMaPpBwHQG22KqpPpUOeRnB6rakLlelExXu',
+  'oQLU+6AsRFIo03fNj0d3XGMdBOq0WO8gY29BxPwP7wQVN4KkHUrPeXpcbv9DXmpF/u++tXk7XP49MPmQcbrAyqJzKMlr4USxhtKI',
+  'EMjt/F/nv4G/bz13G4hVqaX/EY0IB1cTjSDSAYVgGCgMp/RLO2Loj5wplSp4rpMJN0Qs8kbKoNHSW2kMItMZE8gim3TNVJLwfJOb',
+  'OozKy2m8+xk3BLOpMoZSCFJZAoDsFG3l/Zad+DKWu7x2Xz7Iut1Qf+NmU0InI9nUyC8rAqMmTISK4KuVWQYNq87yHwBSgmou2C01',
+  'uFEZwDm4f7NRPK35DhBtHH0jkQyef9CJVkML66LvxXS7kT7SqG098zugcNtUK/PmA/7OD7eEJCELIKE44neIBLrYatyDnKgktZRU',
+  'jmC5iVbwcmdKmMI2vWInYtYQTSF8jlAkowta1HYNXItkZl+sOlmf5CtIYJaLnuB6O33CtG2PC2nB3xi2whqH5x4m3mkEabyfm9vA',
+  'nx4wESz1sFILM/4RHhxz9yuvlAaRxfcgVkPcrjIY79/I/xVrDqrkhiXnJKpDA8z22ifDEK+RPkn18dbHjhTFnNGSdPUjWjvRbq1G',
+  'lMdLwWC4rD92kOVEIkcSbaE5tHpxpx0rAH19NUhgtj7KLyUcaz1kaZSgQc0w+LDa+VWPqNn9cQ0fP8JxLYEsjqLQG+ZQeOVxOYAQ',
+  'GmlNw6fAshtgm0pJVQajAawbPJ8+kTwLK2fygo9Id/eUrX7FGFlC/hA+HmRzfk0rALK0ckW1hxqsdVO4bmsRVG2lcmj+Ir1oxqkg',
+  'ZxJMYQtmAcXozKPIi7U85sOm9zmA3Qz453jf1RYiCp7AyoHTmgBBdW3Vp1UTlkgKEcUl6XXRb0unMscGi9FDMdyjtyMqubDXdXcQ',
+  'mX3uQlYU7m+KnJrftoQ7qnh4Gt9BbKfStIiynTYrGdbqUmPtsCohJOj3emCCc+2sVyh0jEoXKBumJZy1XBITQA1ATtTIcNwEIcSr',
+  '2TeQGgJWAIo/fHOxr5Qgn+hiushyMEPOURM4qXlx/xBYG6IdHfe1VkNSZTqxWxQnHurFOcmUt0ChZbGaVuTOua/4oc7z+oLIjFqN',
+  'nnTOcQX4uEcNjjd2ijYylmjfXjZ9aAz2DKbWKmvF5fEepOlXV21/+5U1j3sUpLdJ9X5rVIR7uuK1I+bTA7MWFH4VRNerQgbFOw20',
+  'kTfpJDt75deRh2LcxHXpW6TS36y71b+0gGGThykPs679xHCnSQM4zivwOkd2jeCvKGhWzzCfTIJTvFgZrErryX5ia4ugD0+BaFX4',
+  'pNIan8PKXQ4b0tlOxpUWGb6qnAP4Mm71B3lrfwsGd+nYBkSSAoCbnVVf9UVjm8j10taATeKWRe2KqG0DqDcE6Kb2Cl0VuzoA3qtP',
+  'de4kaJFwtjrho0OQsvJlNaBM4sT4SUh9WHnthX5kETt+FMQnM22g8+kA3LWk7EhAcj2MQ1r9tjyTqGcqnca/nirjP4OLuLdk7lu1',
+  'qkwN9BxMuZo/vNbdhEMddkch9/S5ucTVB6VJ1C6FmD7HlmIa1kxhXLyK7ByfIM5yYQyc5YLgDT1fCwGqGiTO7CPkibkXOIpw1E/n',
+  'PdrQiApeIWG5OCwS8naU/K6n2ITDygXsrkkDujCOsjIR6cELkv9J7khUhkrZ8zkQw29DPkKo2UfXlT4HtSqd9yC4GRu+Bhc8WGXa',
+  'AeWwy7YjWwgvNWRi6TqsEs2tjSqhu2uZMLjLI9XCkGtUQp6hJt4Wjqy7rgbV251lrmVEPUVNMXzeelj/MvbWkcaXJuTGeCdwantN',
+  'wP209vQcvRA4GNODbWjInhRqbDt++b9cEXUNatjQoZQb3cdePfErSbZfnwmwGeUUezgGJAuTcFgx14FL0caOttSkCiUlk24CD3XI',
+  'Jz6LTg66QQiMeLcwrmJa8uQdOHgcPQdmOVQkfTO2z6090KY5Cr93vyO6VtlU3N45RM1dT0UUPQyIWl15Z4x+DkMbMGLGOMzF4M0A',
+  'kBSMrTE1SY8pBHgAr4STCBR2mTTMnI81M6WYVchXj2+OYPo06vJigiS3Ujk25Nl9evsv7diaeMOyiUkXvReKOpCFyAQEBhBwbwsA',
+  'M0G26U34SJCNwMaXr1TSNt1SXis2cTvKlWInAT2+B5CRkE7+u6yidqxpC/2OBfrJQrEF2U2Opo7LsQjg6rT/46A2PilnmskO5b0p',
+  'yMZvcEMXEjSVw8QUKVmE55ZZBCPGLyMRLKwyvcIxepTw60aCu/HIkmvyxblwb4/Y4F5EZeX9tcorLN223o3bHflFaCFCZwHT6Ezc',
+  '3ztcXKE52zYDXcuNJv4uOXHFxa4fjCDfScvkOWM2+W6H1rlJ81oDh5lSr9N1soc9iZRJWgdJG19x+eAM7FOHI5dY7PTaS1kV12oy',
+  'zxC9KQFYwQ9/Ha4WK9vJGH7Eza9azWUNm0TNmC3PsCLK7g2KHCnkyFtyOR/PnNAPcUjjpVQC3lUC9sfN4q8VLRDONy/wknPEldNX',
+  'PIogLKLf6VoIzj5EFIOYBBTKPXP3rs4u3hAGrYXsLkHf1uvSUWTeWuMzNUwr+g+w0ORNSBO7bfYXLUTEJv1JC/thJSHgQ5n0d8ZB',
+  'BYx2qUaH5o+dAMK9y1kenLsUlAFRgRLkWGudPUIQbwWBfoOl92RH8hD7xGh2C+t8vJvoRQ1e1iGlFER+dDdfmiFIB5UrPTBrPodj',
+  'BYo/ZFqeqeP2sIml4SseAOuFiQyrW4EwRKT8WKnB55on0nmwd2o1RvfCRIAExOUZtWcSZqODe6DIo0Wuj/44PHS/Wwq5KrjWxPxY',
+  'VHI2QEIJrh02eDJvUjCosCIRCwFCO5VPSL6vvB0RjtqS84Sn8BZK20WbSJ4y2S55NZ1BfmzUTyDxws3kwCeVy32rhS8tYAcvSlgk',
+  'agKkrZ8V7uM8SzSWEFy3fVzS/RR9dZTNJxT5mE0HmVt3Dswr738OxnD+l7b9B7pI/XOba8pAxUp8bwOVkrVSGmJE8y9sxpyNCgb+',
+  'JUW4hZedKGSLXkl9NkXMxtdrMuxijBoPL2aWU/slZaX2WuPUdD+fJSn5oaGoBMhu/wP3hclp5FzvfnHbEJq2479bgEWp9ljo5PYN',
+  'zIOStJTRNGQI5AZra8PicTb78vzx/T8SGxzTJekN2QTA8sDzIvtVQr2NDXjOEKGuOTf3afqbtaISc1oKEk5N6Sq6DVUBRGDzjjqP',
+  'D5W5vUs8fRlgJFiWHavnloexZwUQXK2VqERGLxMywnC78E93GyxYOsctqxKNdmHAAvgajWdYlDDxv4elr3LLbgtMN0ZK/eoUlpNM',
+  'iOjXSdRoP6lP8t9AwrK9NOZS5o9Dn2SL/NMyNf3B1RNipkrOiNARyFRS83fmwW1aY9/If1X2HttYPobSYMb5x4xebPKHj11TTiGx',
+  'Iz6Veo2VMJfhaFZUqlYt8wrfIwQ3Fm8wlNzHkhLznhhscE2zvDS328aelFRP81H1gzorYTFMhzB53m3EV/E9o1cAtN83n9RFci4p',
+  'ofkmBKaiz7DY1uSCZYa+RVdK2F6hM07B9wV2iAhirxP4hzz21RcEl37HVDf18L34xGFInnOhzFWnoemoOYhbFKhErOedqe13e2ec',
+  'M2p3aLQz4QbawaD55JL6ioGVnO5uICMNO9veN9IQpJxRp87SooA6BK7aZM9t0prcXPjaPAhgW4aAgR2RXRUHIQlKQSdlI+e5Hpk+',
+  'CEyv5MhRPClHWm7mW0eK7vOaYcoKotjlDYKp2Gr8yS13aLkj55N/huRUIRR1f8868Ced8oXnNQ/EgT15ib5s5Hi2svPExqKpxg8h',
+  'aCxBYVWq2W+VOaeuAfMaxEGHzt0uEEC6iXUvgwJ0L7StJX3LQSE10A7UujBXbfVTkyMxQxhffvvW1hOW4j6Xi0yHiE7j4ZEzx2eW',
+  'mSVnviC2G90WKoUaYC+ksfT+IepGw10FQYbzm/73pLiC/LPRgGLEiIcHxvKgA38nqIg0JsqS240kYzRg2tRni+oqyGdhHFFWQ1FK',
+  '7+KqiqFmqZNYmd4g2QikMUB7C9HK/h3DoG7AGot21Evl+T6gRJdu1PwILXAABLoZwtAjoOB0UOc+NyQlh60fvOiHfDAAXUvBbWPM',
+  'ux3pwi9jSmPpnOMAGvzHhiBdb3bvIA9QOeszkhjE+giEoGrQeC+fgdF3Af7gfR4GaJN33zXXA59P7kRJGeS9gFWpYgm/mj9xr32b',
+  'rpMphxzT4Le5/SGqt9bPEYC5zVDq+gc0l5VHPGsgeqHkSZ/sz9iPO7Qmz8lTDmUwxqyJIxpKXRzrrye9prlGKua7cT7Nj2ZaR1iO',
+  'c+BZrcQB7qnMAA3SpWkeWvQuGWKMZ+Gvq7cvVhA3GUYf8tV92kI1oxbqZTBlYE6vWJJ73ZkUcNBFk66rGTcckY4nwnAeC3MquifR',
+  'kFkU7FLgwWATHCe8shGveI9eHZcZU0XsKHuWmm/zt6EwpjlV39+Eft+kpsoEGpqT30yd6ofVvR+IIVR3jUH/syIpNgo3zmh+hGSZ',
+  'BDcNfC65QVC0GplhjW+QvAjq4j5AHsDyOLG0v16r+BUdBroEAVIhcYFSJ+vaW9T8qVHKt6nx2rX2+P3szmgrL2R+UuDhxNJKghdT',
+  'Hz3ov8C+VSourWdTBR3I+NMeywmLHeUSgIizE64/rHeCmnreP0MmcLzCjJrsp6OWuELP0hc5IACLxxCMYFF7Ioify4505F05JZwW',
+  '55G5lVuWb/Lllmly3dID8iqImUJ8WPRclH/n5kueVdKFH/yZxH6sbH5WwhDMl0FEpXXDLjoFUXRBMLu1DmgY6yisyUSXGSLhWdT6',
+  'BLBJ3PXVWg9dO0ljG3z402RpOT1tuSUTMHb1Y1OG3f6XNHhnCiM301cQ0EJgVY9bWTJnzpkZDo0rxSiJVP+gDAp6ZIELAt5q4Qtv',
+  'Zwlj2osIUkPy9rv8u8rDAj57HQDJcBhD+CnALW0WdAFDfEZQFrVYaZzKdqX1QEEsBNLTkd54huTdRkBbbqbjDMUDqUgFLMRgGA2f',
+  'KQGiE3Oo2hDzVZdwvekdoN0oh3N62NwLo+Lln7NX5HaBsXteEXJ/dk7iuuFbAVWsy6HPJAvuMVUpoQhs4ZJvqwesPWnm4bqD5Tk8',
+  'z0Mt9VYIIu0aINeG/iOoYJ0XYuTCorEuk/RxXWYVfaARvIXORUDuzQIzJeliZZ++9FoyxkDMQoRbZHN0cNO6wgEH+C/NlR1gf4CJ',
+  'omABawxJBYgP7qP5FgI8FzVxOfTpOufNU9/WneTXIImJ7vmhEmXrtsHcntL6ikVerjaA/Y2042CUP2JVyny/f7KWkARHipul/+vc',
+  'C51EIAeYy5MJ3N8N9BuXeZ6a4KM2nTkDAai3RSP9YRGjL0GgfTrss3GZv/AfimDu5Ap2TfO7Z23BXVZ0uNBGe4jMOqiXiUdU1seq',
+  't91qAqDPaVKDdU66lhtT4gnS1OCC1n0TsH28Kvfc8MYxHH+kxJ5NFWs6RmJGoEi2RTip87WXYCZqxcoVUlnh4KHDyORVIroAGq21',
+  'hrA9m4cpHNWEa1BMhYNs7N7PeUUw8xTsdZN8HFHF2xhcUE9JKBRVmTZ5gcBlntVve8IxAm16+aGE8HH0gLuxWOqw6CdFKXNdsC4M',
+  'Cpl1B0/KrmXEQUmp4Igh4QUxfkAKqC2W9cZKggLWA0BVdDYgs7iDWO5LxCc14za3HTGJMos+nLaWB+4Rhx3sqnyasu+aiTVNHMHU',
+  'qtJaJYMH/Vv8idmOfDcCw0F19pCG6+GAL2j9mXy9FAIoUnnfHx31E1hMJijNTWXojMAZtlNh7uBIWJP3D7seJPY1UsflpOsqR2hd',
+  '1NtuzcH3xJCgDbPJYXBse7iMfWJ7rmT05ssV/nSlbCaNTJ6MdKh60PpwlL4bFGaWYNXvIj+quCKdzIFevjcTfeU9mS2HKvBR0hhG',
+  'PgZ2RdgrULR/lTV+iPcePClrAAt8UGMcmu6AIG2CuMd1Cv1MgZU9F0eVC9MzBC8HE9eyhoMnIekbVYk6CmSkCHPehooz3GrnF6rh',
+  'JrGNL/eA8apjPBMRIqal2asYiSkMYEsOEIO15t/LE8TJ759VJatkH5OREhsaMmdISe+7ZLa5w+nGUIpjXnKVT6L2yoS6Vhgk/Y7i',
+  '6zAOrfDVarGossLpEjcW3qdqwnCdQ4QFYfcV9AG8B+T7x64sUY82k7HV2iBNPqSOoR3XtSjWHrr2X4ftCojusftOrF/RpsnXxvgV',
+  'QcljGFlLcesIxl0y4wfb6/XiyXdTiPYhMyLQ7LIna1Sq+il+ruBlSb5wMuHNTsNqWM3Ai1Pe7XSlIxZB6HmP/CIf0JK7yqRhgQMP',
+  'Ue5cKJjMKe0v0jSnDWxxz2EHMnak3YsTCNUn2/vGf8EwmJWj6dgOZvhORCp5F/4BxG+t6ZdjNj23Ktn2F1DycqvA9O7HD1J84RhW',
+  'z2nEGncBMxxIETojjjd8MxbRois5K81IQRpCAaoWPICZBq+R36LqVO7QHKKmGFL2dixWzBfBcHLfpdSjY6UVL04vSW+w485XVBJU',
+  'dXeP+GpxijmihySkUOwU4XrEVh9YUxSQ+k7nZhpZ1psMkX0XVNUC54F00UUuzPAIF85erjOaeBstWblvP3KUQIxIhwZhx3RPawWe',
+  'hyabiY4tIMOsyewrFUQztWpxYDwwkgTo5GBEBVMmUXX+d1TqH5fb0IRSEDqOC6HUwgqicicGHU7V+YnAxonAQKUpz80bjs0WHH4W',
+  'YgFBWD1SnIe1/ZyhCZJHGBbXrHa0vmwGZHBbprSXRBjkxiynkoxCEhLk7iYsDov0Vu1JtnNLyFncpUFDrkAxkpgzg+NES3t45yqN',
+  'rayJ7GEZckmyeINiZid65Y4goURBvXYtMel4pHmZKuMW03Q/9IWsE+OwvHSC2CMQjYhF/JcOXd2/owcfDrtrGghQTxD+qp4NI9Iw',
+  'ssUG9RMCnBUASCyFY7TgQUUXYF6OeebF2twJcGKt+fSIJ7aQDqkD0eS/wsTeMrvYnS2qywFKBa5X3I39JcN7ypr4GMKWJa/PaNhK',
+  'NXYUbdGua6nM6AySyQ9HANjC1XbxbGMkmXZfTSpWpqz9b4xAPT7OJu3bax1Uxdbtpue/nYzb24fxQk6LT4zCyekMzG+eI7OIY8UW',
+  'q6sB/FFZfVu1jbbrDrsrhRmBtQFynEbU0UtKWZOPFOgDPk9vQmr5DTeQhSpqEwM0iH1QutmFIXHtfbNUDFCjTiljmZnibWHWMywS',
+  'KNO3MbYdMrW/IYhcWVADIiKX+aCgqZwgiw6L5Wk4JU/o8e+BI3Ro/UyWNLb2KVOhKmQfKiHvTtB9ntm5tB5yD+TDl+TDl5eEN6tV',
+  'hFaSiFurUKg0qC05i99L4LcCQ33aXBLktQ3y83UtsVhkjo2iQ0eiRhVsRTNxLwsMF+9e0Z9PGF8HX6oVPzCMYf6r3Rcz18m+eHVd',
+  'iaQmTaGhYfE9J/USCCaytaLZ5l6Z5ELnUGft/WB0cb6k5KMJ7y7lqd0LH4ooAgHjgcbgtSUv7hDo8qpuLsCkSNaf7bY6Fs9iyqv/',
+  '4ZeRnN5PD1ByRCiCWpbnaJ2jPtxznnOyEHynffNAsZjKWCD+ZTpISpI9ouWluYXpP1bxvt+hTx4jz6ZBRbjSR48W0j4x/fZaIOth',
+  'eBJbBh1yS+/OFEMmSZhvrd/nOAWp7yLLBhXXxxWvzDpsQq6m0gLunLbTfd1vzv0MZPoCMHoKMFV4sKQsWUMwr/aCvdEo3YSTmwfc',
+  '5+UnbdagFpQUcWzkauWm9cF/9g73KVx2KkLzUESHLy8UqTPqR75nsnNXa8gyaUsjp/GBk6dZ0RDDva4trDg/NKsRdURvzkipBC3L',
+  'MosloiTRhcJh82CsbidDQ1kaMGwY+ol6GALAImzbFM00mncHMyyZ/rUXLywfEObJbxfhhGwikDoM7biyqpyC/x7ofHoXkqiR/bev',
+  'O60DnPxQZR1IX2otIi1TQEBFelSvcJAd00DQrfodDmjFg+Q8adF0K1QoBrJrpeWRz1LEO5njesaK2ZN04Hm4sQzEFQWd54uAkrX5',
+  'PnCSWjL5DlfoGEoELN7gVfhlS2A5REAjKtvBONoMvVA5gU+zVld7oxOmusU7h5Tj9yVBdCqi2vbJxufubCqmLZXBuRoAu/pHb4rE',
+  '1U6s0rFdnpi3IHgew8SfFkDTu3Sv0pv+OSPHV2+cgpj/Rw2ho004hwkuhzq5uMhKOUKMqBhVayc7FsDNl9Pl+m104hpkztt5vdwm',
+  'OC2wO4ekjAhYiGshaUwU+YFfk2lh7kO1D2IUD7ZoyVLQh2vdW/J6Fe58qXlS5MB1yjVAYydQ9LT5PtDVXPq12uC7rI1u3CcOB1EH',
+  '8O1ig7JbasDFcJN+lU3wRuPLez/M2PLopLB4y6TJADcV0WM2BnflltBsXDPoZwYeOaokMoCsKDILAkTlqZ79sUMuwXuwGEIcYIxy',
+  'JoTeD0tlomT9OD1k4zsYEIRQF85C5hZ2N8ReVK0SNQbx/J6C17akbRlTXP0WAdc3RURI945HjDrJ8ED7PFqDUjkPVF1z6YpBN+Po',
+  'nwSkqaD8A097W6+Ep1yaZaIlHCgMlsijfy6tGlmNLRwKrOcQHsSyjtabAgA/iLyqnDpBLyfAkH+QBx+PXCcOupx0t9TH5yFjSVyy',
+  'Vg9xlk4TyjWnVkIfJk7dw6zhfWjrVNTpuKrA18VPoiQruBba590jrWwT2A0J4aYt/f92pbXTt0EhMDzoYXTilI+DIKdc6QtOoyOf',
+  'IBC41eb5U9YY/nf8zbFDTLNSGER6vS0n6kkQpLPOTLsE+TkgaVRnGlof4fJyJG6vfg4gVwnyCEJzZzUpnVFMCtPFQLmtPLR8oUej',
+  'olr1DSyOoLc3vADCd8L0CBP/gfnxmtSKf4qKkUolnsuxLPcR2zeJz5bClAUl4L0gCu1iQE9PTHCdOPwc4POMO3pfvQEyWLsUyJlm',
+  'Xo/prndbrt4vOosqSdspBJ9+kyVU6HsF63oUlCA6qpOV43+mkN5HMWl2kXwxM9rgif25fbOT1F/wpVeoqGwd2J2cWnx5gpbAq5g1',
+  'qSBSXvte+MFMnf9fqFCEeZIWneYYEAb6LwcwTjLPQe7sLS9Kq0L88NAFIeK6BcDnGISLgsBACc7Z2ghXsvjmsQvVNzttN/EH+gSw',
+  'Y3lNzXi8XUefolNm1+Ee0v8KRASaJIpeKKQmoogx5AcdxPGHB9SYf6Kvt0VAae66b9utyHfIsgeUT85hwwWdmvFt1++MLxQ49KhD',
+  'EeMjjbH97XhY/pfzCwcqEsCA2A0J2b1RVx69ZL/m4E3jzKsdSqrEFw6QaR4IEDYuN3qf+UEe8CHV1+qQaXCV0R0GAkk8yuPpSD/c',
+  'rfbhPWtZhnQcBRo2MsJqmpzMCb8qbG2pQ3MuX9PRPVlkflZhVU7vbbnhsaQffw3BHi8xYZ/2pAaODFGVjkjtgnfD3Zx4mew4sYL+',
+  'WCwVhzSr/6jvCnYsDm04gnoP+r05WJG4YLMtbNLGPJimJGV7PVjq6qSqIo11ek9ROcZwcNJthS/uOeUPR1ioRVcro/RtXHbwnEM3',
+  'RT13/K21Qk4BTmrWA6eKZRsVdhIUrTzVw80VLnnZpBBV5SDDXXeDiU9KZPDX/AlF7VDQTy6s8y8ecP4CHHuP6lKVCogzlmYYYNfP',
+  'Xi4Ey8luclbaJMMWnlQRl+ACusQcNGI0DljKAXK1XoKQA++7j2ZOiI11LdIlAhRXT0a0KjUj5wqMILvsm3PNRtJRoPBq76uJLuwD',
+  'gwy9uNAoKapfsOse67hACLlcjUUgBbDhlqdlhokeKt/wVMk6LaQLxJa5W0N7pVwRQaUrhteaF2L5pMIPqStbz7/yFGTFmXhypNA9',
+  'mBgAT52+tBe4UiMM0zgRw+6PTALEIyMO7Cp+HMEkplAH9WdC0E/iAiUuuhoNO+DrsxduvBzitkoaWpxrvzar2X4niCD5DI6/eqq2',
+  'mUjxtGhNLEDk1hXJlpY2IGj26YByIpdqDjoH7R/atruapqRDLKcNkeUI/s+agdZIfW1K7jYcow25qa+8mK74R1vSDwQimGmE1Uai',
+  'P8JCP3U9r1zNbXtH/RHbGv4mAmTSxyGBTuZEGx7+EMFj7i/cwEE+TDMzwu+dyT6l1ZK+XibeRJVIABrAwFEIy5ksxUNJsrIMvJXM',
+  'KwoTIkmeWC4HmzabQnEkZJD+kzUNiC7DuHtbOHwAall74ngd1QZv8nYuSK03mCSRPk3BnOgeOxOj9HkoEZr3Oky6sefIaYZ+ur2W',
+  'IJPkCDeqo8gliDPDRJJqXjT5BPzv2oq4yjCx8uxHqGncFOhi0Lh20jGT8fexeQzJiyMM9q1bsln6nvAbzGZ7/u/AWTi4i0NiLP6E',
+  'T5tJEH1x7amvXtngvCzM5AESO/fcV0ygRWZamc6RnKqAupPdVdzhCeMw4m4Cx++wmNoyIEMxxr9FmN7D3j8R4yUn8TRD7xlF6cjv',
+  'iN119eDWs/CrceumOiUAraLtGPGnsqH5QnaKOJHNmI0hI7bmfdFABTYA9QC48AFdsuo0qZfya5khqdFqVU7NOYhEDlpFbT9pEqn7',
+  'z1h7OuxsQ6+XltZGB2Mj3Chqjq5MpXHD3lYhMdYwjtFl3cBjcohBJu7vXuC+eSEDn6o5lmnKVgIj5YMHs7hGaF8FlLzxT5zCMIrx',
+  'PXGeRD9AYGfAyuFLNA7UGoho8TITbiFMnHaV4vMuQWOo1rhv4LBqKZWzaRnRqOXP0wcMd1o/Vo+fEAeM6sdRk3BCbxlEWxCH5XqA',
+  'ekj8ORkYJrsvNo6m9QGwmyVWN8Yn9eBGYiqWW1W25NaqSU0XPwjLnujxXUXCh4JAN51HKYXCWEB/dtCF/guMLbShvscHVsSRePWM',
+  'tP44PXVf1n/pkW0ghXNUdRJGVljS201VXG34ycGJsj2cX4ZOIeDiEGp4W+JwZ0S7rnyojSyZZ1c6USDlpHNJIqL1ywWzXmWX+2iD',
+  'jjfZxardfsb3GkxD0cEKCQmM5PMk7LDdMWq9IPDt5WYh0EUW6kuDDU6EK5XF8oR7LBIz8iUTAM3hSdeqBkF/CFd2HWjC3jxzLKhO',
+  'Y0ruOdqZPt3IuAikKWOkkLCtuNNpMOfnUjc7JOjQSOLdmnRBuwWAumIfKJVlJZBUs5qNmlylQqLgPQZ2XWDXnaQXDqExGcQKDyBc',
+  '2G6ZALq/YeickF7WLvZFuWBHDwNPgBFICnsx1XQQVSeWm4VjUW9AOlL7PzGB2jAOd8uhgRkdkukEZTtTJuXgms8XcVWY5N+Qxz25',
+  'LlixvF+4rayTyAqx6vmHaBDGhi3VP3AVdhNe9h98MSRz40TGTbQP6mJOyRvLRMvmvJ4QAK9F/fS3p9MT2bdWh//jwgG66tv/fBhz',
+  'LPPlM7VtXNl3LqknEB8xRtEoRB/VywB273bSSKBq1JJEKXj8YpDPI2BmNCgXWW1klNml577OnUEwmfRBTFqi+JoQ2YHTATy0W3KC',
+  'Os4Iqq0eMpEM7abYIKHpmBXEOF3PAHJG5HlQAopqawqFWSLOEGbYIX2jCUzzM4PdpA/O8iCaggxVJtFynFjtplovwcIZoQUi8yzI',
+  'wLuthZRXwrrphqiOKj/nAqkPQDoxFczDYIIuQTO44TgGm8o8xaTi0d6/2mWFlfIQA9J65+5Ms1JBFnGy0h0+udf9yAjRPO+SXWIJ',
+  'uhT42KapgGrgZmNGbv9mAiv//KshoqU65xw+qPuwf49R4sUptbQPdW/z7AkyS4/lg7xQgUahiI8DSVGHZB3oFYQAvBckasr68BdR',
+  'nyFZHsqMX5cwTDj/i6O+g8/yAOrH0eDG8FPcbWghVpsb1dkPyjMozepbvnQNU31XMADci1oJUSqhjsJ1cKzVfflEr2sCuRdI/xvx',
+  'QCsK+QhgiSFIAZibdBeoy0CRejpQVx4ukwH3nuvedJIZJziMoyPBlpIciMai+7gy9vWB289fxbnMB4GJeg670HjFZFk6BD6cG2/m',
+  '34fu8Reda2SVIM4K5TBGaBf0MWtJZ5CY6QitFvnxR/mFwMRNGnxnv8cJTq7PNV2RmvVNJPdVtnvSNjGEubxtkoDIYQgOZWnEkaro',
+  '1gf4mMnfj4sGjxn8dYNcL5XOih63A3VHoxbCcTQGntgA7eQE2EIugz6I5pVwmk4HsjXlKiMD0h26Ylp3cRSmSOkvlTgoU/9nSgA/',
+  '16PfMU4pJopRElfSNJHzd2IC5qrKzWGRkA42zdMCz+KO3hXq+TSZF3Q28QRB6yugmafaQCzX8JRQ6CDEpbYv+7lQhwbvX8ZUo7w3',
+  'h+DKPCyz5bE/4CZDCmV37O1xyWl5bdvoW+a8wvx/gM5SMfKsQf02vlHIzulSUI5DDrc7IXOYBew1oKUTfYhqmUgqVWfQLxCAKSBc',
+  'D1i7wBe6s7lKUcSjuTWz2/bJoSBE7R1Dipk6qWs0URXamKaquIDwBrdUD7zfTg6jImVuLp6GYTVUjLK5GufyoOwBE3XnD7zgXnBu',
+  'SzPQGZQCrXboAJms82LWFhRYyNJqyypkjLwTD6PrOOE/RCEO0eEbwui3gVyxt2GiZ5q60E9jAHBejz9U6AkkFLNGmwrcPx3WgBFE',
+  'g6B/fB8niCqhPntI6cadKvAEq8OC3fvyH3A5ECSH6Kv5nTQUYLhKoOohUGuJ8QsPlaJR12wm21pnNBmP3J2K6PWH33iZVa2ku0rn',
+  'bMtdEln/uQ3+XINYIitWzW4XLP7ZpKOttuWt0oLUYgb/uocnqm932N2SiG7ndMUvJr4OvlO3FirhNe6BMK0NTJ+KsiJ9orKqzixe',
+  'vZ5Vqb6R15vZB55v8qC4Ye1nNFcWKGyb0jO2OrOcLpPANag9/oWEbZv8T8NLJs2S2eVwLZ7/qTlOQl7AC2gThU+IEWMjIpkt7lpu',
+  '2dubaasA+u0aDfjBiVm/QeLhmQT0TkTc7bL1XqGSlaIUPxMbrI/J2xDdARDVOPOUoqWdm3NpQuKH7g7NJO+PQ3oaAgL6d1kHMlaQ',
+  'c1stazYfuOJ0n+NgC69NliCJ9cB7oM81ChjVIlwOEh8xUhKO8JmE+N9vJAYXVleR0Cb+rMtBqWI9Afgt3hzpa4NBmTV77OO5FWbb',
+  'x4kX1J8+I2wgmtZA3LomSeOucCMUSwCxBJl14LPhmAWTm9kZuKj2c8+GH9/zAgJBWQ3KlnqtePwOl6wXhRpekKp/2uto1wiYF1wT',
+  '9T0anPaOWr81lxCfUAGecrs30z5S1iGUqdibMUKyXKkoYoWryHbXOnh/ZTeEEBKmU2S6/eXFl6bKjcK+wQaztHGfzukWKb43dCv9',
+  'z2G3z1aj7hlV2isCHyCa1dzDWKAxyD4vJUNFfsUxeYeUW3tRVtJZTE2w2erwQBrrW3CtjmtCQ7Clm4rONH5hz5sO4EWAc6q833ph',
+  'W2Gnli3tmmT5TcZruEf6W1dS8rkQEgk38vC02W9viGCy+wbsU4ZpMkJszvbF+/le91ozkmz0HNJZZ5iCd3wGmHMOfS57pYF7SH2w',
+  'NhbpHLq+TASohrf31+BIybSw2Ro8q3pk2R59KvJ52weJphLxCmjOim/BTAyHGAFJtWPn4Lqis+KwP7p926lAr2DfxuxAL5MBcSi3',
+  'YrhZF/iA777knmdpGBH3kc/PQ7Y5929L2kxc1NY4nwKl5sJkCnafQzXzW6LG3x/9dN5+rpR3IbpNN9aF1EBQM8tPXBYRpGdK0k9Q',
+  'lpzuS8uWg7IRngRpk9VjQXNdpBaNHEHcVcHLE1+miuW5T1u/wNQ8SbIIlZqef9pEJK5eSKQ5Ku6QArHkaXYUMd6PJEuTa0L0zFuB',
+  'xdrreTRo+Bnsm8zWHSzMUXk4rktZSpm+RYG64DUG+XtqddkEgp06aat2/iRBaxF0VO+GrmB9UuACoRR9XIjopkbfKegkHIOtW9B2',
+  'i1e7i7+pNAbfhxcUTSEiHhmHJcjVCcvI/G/VYP4gk9oWx1ODIQl0K4NBXHwtbbn92F40QsXlywu9IiHX/7jQlKxvqcUtDpaN/G6H',
+  'D2ORKPZ6lkjoO26i5e+MwZQ9bgDAEgSyk7gea2TXJxI5Rv1S8xoPCOm9V4+aSSg+d2KsSqICkP4fBCnT9nOkyOni0ltHpT2cuGMm',
+  'iqaF8MnkZ9YF/6pVxcO9LjqYJMJKz0hXTODuEMfK9lShvxEwzS7fVyZWS1RDeuoqM8MMUyJajGt9n7fdc3IpyHyvOyM9boIRKojO',
+  'fngMHMF9aZNq20kmKqUV1JhR/nVgs5Zni+jyuoHZ6/cAhggLXDoh64KAkr1bN/3I3/QJnvAkB72PChbRG4UvsF5qxCMF8CHU6bcn',
+  'h/m8Hoboa2G5rtdzWnBySYmxZBSEeH/xguJGMAh1LfBZ/57GxPYu2itETSYmjDY+R3EQGc40695ArvmZr0SYriz4DapNXhNmCsoM',
+  '4TexcsjRaH85wLw4IB/aBSYB9mCH7FZxJDe1bnJyj3YJYWPpJ0sOpb13n66d8Rqg/Usx++RcF2WwQu25NdpN4vuvBRL2xjVrNdQ6',
+  'Fv83RU4YcPUDwbv+16XZA5dWnwQichVQmRsZMzCJfbQhagRzcPsKXRwO7axVFCuhB62eIRWkdyuVLUpih1hl3hD/3SRaJQNiv0z2',
+  'MFNkXTPcsAFH+SqTTiqeUO5au1C/h/ZimrQVEQDK3eL/4OSyqHPb4bIsrerg2zXBeGNzOsM3HtiF3AeMaa2R3ibrw09hQchx8FUU',
+  'IqBYr6n0tEeP8Hlx28JyAGAQrKPM0DABQ60lpXQol9d1aTawo5bNxlFXDod6QZobRMK/0KNIbOFb+VOTYNNo+ZZinbxT4cTcoTvv',
+  'dlhfy6NGTi4tQE4Zn0VPD7mQZUFgNWiJTvj6IORaWAKzYstaz3XYPw6luPp70+5Xdn2puV4TH6IIAhgMK/zWzkg/+4hujoqhOIYE',
+  '4mBYFC4lFiwUvnWCBF1QGvAwVHxx1zEcTmR4nTuNxY/TNldBJWISjwKgMLB2sZM3dacspmQdan39TC/jfnVwihv9X5hL1ksToUms',
+  '5ApHlYAjDrSCaUaLsn2uVTgdkJcIA8pp0Uzxdrgo+TYxHP0O8hF6bTGv1spttgt5Vq4bAiGJ2vAcB/zNl1QGkyGQuOr1obRkiZhT',
+  'DvbE5ZHzzK5jlfFOPXCwknVNUlR7vfOO8b7XSz9Drl/lYHj+we/FD6r/rYcTOaVtMMuYIrUSirUbViaVaHmGWjKy64nJggVDg71n',
+  'gMMkUcUlisQcfyjC/E8LxLS5/Lmbk8RoF9GdrBnTTaelCLGETtrlCVQqOeWNTnepmXEqew7IA9PRS1xZXVP5akPEjcxa3hRnGfBm',
+  'BtaaKJTE+fhXl8VsMD/+uEzMzBdSq8SmdqEgEVMHEZgGpBGzBtYfH9EMwEq/icBHSX/s8bdm1TpyNyGL7omDrp/Ah5A5pgcdqEbi',
+  'gGJuSfeFOHX6JtrhNDarHvrnaihqdLNMTKg1OwR7YePFQX0fEKnRzRDoUpmfCtc44BvzOnLn/IAt2Dvc7AOK0igyScet30kpC08Y',
+  '8Qc5Cqjjeylp8utdDPbSW9YvsfSfxggTrDZuSVnDv8W9vTtDAADN0/4uDfQbAHQe3MyH3WfJ8cnfYEBwsmH8sWXV1bWuVTDfmX6d',
+  'xbobSyfTU0eezTtC7yoek9oTzNWvEMEAmsOwy48izFDV7AMThM6qsCkDG5jkkYEEXHNIb3ddkej1fh0wVasM9wAhqDvk6SNmjGIs',
+  'bXv1D3I3UYSYshwma04Q1W1NAY/baWEWjyDDrDbtId4rsIfPILVYWOdoEb+4oBwiuf22oMAPxlf2v7EriZYaLAUdklpHRVZihaI6',
+  'ET+lYA7b7zeRFJbouDd6plYEVlBWOveiDGEdIHnthU8wCVCqyl1vRuO3XamBOjtKNamhxqsNDjMbcDz/6XVbnjGtiyHLtyXSArVm',
+  'Vs6shpkt+T7kAocwvQy4RSWq40fMI7uoDoRFq3CQC29sZZiqms0HL3uCXY8zDYwnWzg525+orINsa9bPeIJKTdPTztYkveHRBf4O',
+  'KOHeJQFRLOB1lvXUbBl1kcdTBNKBb++Dey3cmEiSgXWkeSc1sSHk/eThzYdw96VDGJijB1lOS5qM/nM4Cegq2unQBYIyDuaY819E',
+  'P7iqnFx7kSBFjZr409s0F5RPHqI4AeItCseoWv5wsKpLXk12KQxmp7LkQcpmfHv+nN/MIVtgVPF0hZ9E5a7i+E2lvR6i38koPxcd',
+  'aFHmWtGCpiFm3fXShQIKSePl9s9NcspUsYfuDjKfuT7x7eQN0qugaDT1XYZh4aF9t5XEbEMgYaoLnKbwxOmLN11+pqoahUAnDInY',
+  '2aJlkePW9XC5VOJ1qAJUFZ0Sgv6zD3pquuxJ+Uq+y12cAPr0YcU0n+kKVsOpx/7hPXfdAzgGsg7ZqAPX59/YoxEbiI4ax3t71u8H',
+  'sajFXXLKCTMxtpR9ge5rxrnomAcbSWtA5zICKVBbLbEbKpM8vzjUkSa6RvXDpGAouIKH9qiTNZmmtk6krJ7lrbvCWXhXTadVIqhI',
+  'BdCpBK+/O0kWzjlptdhMibX2ovUNiegU0sJQ4GLQzXCLXdjzZpvKkFJl+2+CgjByn5aIEYL6aAiQJR5QesPaH7an1Jk9BUni8Q7r',
+  'j0gDGEAPlCn/qDhbonVQaAGV7lPVChyvBU3HMuWYSNaFWfC3NJxPYG7Ja7ACwOXUnlodDe2xd6SC7ZJLSkpgIsca3f503YI/fO6+',
+  'HMKriBwPD+O11nYU5EEuFC3tUBL9eodKMQRqiE2b7u5PzzgfvhJUNyRVGzQT+52L2m/q/0mgbHllRlkmoqJGFJfVS7CqkTleH9/k',
+  '/KrOPYWjOvZd8DoMsOeNigaPxs1OvQxdJEwfwZOr7pCVvHNm6ev+DSCmRj5hynjcOxHCrgFFRoS4HM3UneXPAO9pxhlKAFODE2hO',
+  'M0y/IURBjlz+pr7gp5DEJ4iuXOmOCuwJtnQWxopawC0HJF2lBRYP+GNIG34SYSZemgR734IDcBNclY3iRddBahVDCNPKxGICkJZs',
+  'CEngGmzfxF+fO83zwRiMgS+OnlIY5Hlb/o7UTKRP+ivfe86StVnBe7R1NC8uyiBSPSR2iJnow0edrkrLCKDICx/e14Ps3QnVF4Kv',
+  '0qvJheMMIp2J09QX/MSwNhX/6vLQBRfzvkDGS1NW68vqARmVyzs2haZ535B8RWShWODZTp7bWLF77DdEAR8eVoII1jIzp4VcH8ga',
+  '/r5QsyqcsqTq0cjR3rXc9mn4Nk4ktExX+gCvz9GnoKxEQet8iCD3eKI6mIXwFsRPnBxb04UzD13o2L/cZ0yE7rsb33qpFX6OjZdB',
+  '0ZNiK2Y5PDz0E/ClZbi67SeL2ZnC0gwvnGhlrB1gIq7Wu6oMokeP2b7+++xmwlTBFdNyLPWpjORdQ4747LKNQCcsPzdTiMvMhMS6',
+  'NeBfWnXNa3UBswgFEAS3dTMz1JQTw6hvfXmL5ltOXIngDlLq3eIIS7vW6LMgFls+kAHB7hHPB8eEq+ohO/5jNGkbodmMKPRpM7Tf',
+  'n02OYKIkK2nfSFPnnA4OAaE8sPCHLgGcXpZlqBBO3u2IyVEFioFU6uooJR28c8pA1EHGNZMrSQe2GiEbPObKx/B6EtwGo6Xf8lro',
+  'U5/WWwAsIRXeZVRYA7wYY/uhmMuz0hkJedYt6O8jY/5IdRCqPNic/RrofTXiDYcPkj7bbNB1QTJlJtfshdu+3ACDOi0zJAvT56Ed',
+  'jH9/lCy0CCMMrYzigsibslz1FPVYXymgfsm+NVa1OzT9pZWXYZVgLiyOALtM8w6L8UuYpP0UY2mgMySaBHMeETiLddFMqaD981o8',
+  'JvUAA0OZPPQcaZbHVNHXAVz3eJkPIkOsHciOv5PDLbOVr7QPPmMKhEPZ8R/pm2ulff/k89z3Dcil8TBp9ueP2pgkkQB38/GNcHXB',
+  'YkjWJLnW16EVViwVC8irLwv6e6MCJxFs6qbjsz+ZQoIrDt0KNAX8RDPbEDuYpnh0Rdtpd/4pDdv7xDb+EiFYynDFcQDYf1v2BX6q',
+  'NsYwJP4PGhYKq3Akiz+29B6k+xDZJs2fVobFvKLlMuK/EBymxd3ujmjGBqfUTNhx/ZFdGXtH5Er5mMhL4VM2Y0QssZQ4cAFSFo+6',
+  'XfBNQglmEWGLp5b1OkMp8yuiwNsJA3NsvJDKvPsGOF1cenpscilZtYf+0rYahTd5pxKNULgsQ95A1ASkn320DiPvl6Cp7uJL0KDJ',
+  '6gzj4oI3vGCJJ8vX4y46pq+bfQ06yDCFvkVihl+KZwsmtDTT2UDR45qB4srQOu8bvXChKQe35RRGccwD1Kn4YQ74bXYrlrGmSA0E',
+  '9eaNdqz9IHfAvJiYp+rfa5H5Q6JwzCLYaYQCBuyfsWqxgd7MkZ6O/7K/yZ4kdeMStCHn500DKo7InQXdVXRpS+0J/0XfFd2Ry2U9',
+  'AiM2I0yyYW63GijYCasE/GbFQG5+t8zIK6aYpwgUr4xn6F31CAAWD8+fuvCHJqvaVYLnQNgqJEsXg/dKVHx55wQWTyr2x1emGAnb',
+  '78IHUEPaI98jNUsAcBRomXygTOZ7u3PoDOMNG74IMBlnBV6OQMXhucSeGvAkphehwV/nxqTqJ5hHCrodfuPsA/tCdCGojo1sj8Rc',
+  'n2CvCVSJLAPLXs0fNWfm6lx4kK+zPbdrt5GSETisONIdjRh70+q5b+Yak/GKLA7KSJqCqPGvW7i2yptSWrXF4g6jygeoOzOahd9+',
+  '5QqwR0PWsT4gkeQSFsyoLGUmZcQ/1cBX7MPdk560gIBgYcr5thijX/aWT1Oib1mZyBJJdlpSwMBImc+tf41E5TIRKoacs/oEF3zn',
+  'o/rduLeRqo7R5qqOKj1r6fdQPpbBwJXbR7T4sv2pzIF4WK/Gf25ISKnB05A04iC9VkYJi7jZtYLGwkKym6cLtWdfUPC5oavBMeJa',
+  'eOpIKoeNePnauqPLiOGqnH1mVI7Fukdk4nkJ51dC6DAwbgKjhcwP2c9CMVGitnVmo/eoMH5C11XhSf7cAX/vYQzjG0rydX7Fw+pC',
+  'mDo+9Xlscp2otjD6zx2Kx1jsrbZUQNPv4amMEcFNUv4Aj7PElO1D07lssSenELwAKtXuCAYHoPtTB3fyTtN5ohUgzSAWXt2YFihg',
+  '+4/Ym2vg23wcHe8yDvYljxQVI/K/oil4nw8hSl5BqQc4+nJc/kn6T7qUwWGQLk0F5h0QwB+DceV4yYRijrJCo0kxV1LqStXc8CLY',
+  'TEzjEubgBbDfJAmzXD3zYrGf4x2UAxKq5lsyLoop4DDM6M0tdcwCIEzVoDHJMM8mTQx03fwe+8BSJgIMC2ISOqzXBAYCuP7+3DJd',
+  'bPSGhpy6gDtgA1D9o6Rrim+FUG5WUXP7Y3XwHgsBcoh9Jrq3RunmVLwxwzlqULL85z34b5W9Anr9z2Y+R/vKO4JpPODyHgBrlkez',
+  'OTW+nyrDi9iQ1QV09Eha0ohd9SelVuADe1W/hr26WDI7+M15bwzJeuZmQalTdE+QAAmHZIlW4WZURZ7gTPjgEqNQfC+8MRbTPn1E',
+  'zVX2PKrciVrllquDbOARyt4ghP147zk+pMOlTFu/1mXOQJw+F9fTMJ+YtenoQewr2ghXA5DQTSPWKr6UGy3twdcsRUvIpC1VEX+I',
+  'lr9rrCHF2KsV16lhDnCTtFcAEcA/bjRiUyuGYC25jO8H0KrCg34M06wTBcmowynnuz2Qa0jlfpi2VChd65DQgG6eC9zYZnv/pjai',
+  'LPtqhE/EvOH8XcnBmWtgx/GFvFSOOZBpFZgNfUEEqCtGNQWN0zU5OdGhL8A+PKor5OHNYPGuYYaXP2h2+EfLyxILrsCVKHocaQSV',
+  'lp3eANsRZrtILJgYNRaDKqFuXzG+1ogcdiTIgmdI2qhgQnUbA9mqk/Yo64x1ZxRCSgEX8Hp/dCGgjY0JaDrN4IfSJ5lWG6jom8Pt',
+  'nCTiiLzQEOKP7eJJe8ZOna+Z+ny95HdqrNYO9bpAOPijwUJ8xSM4k3mxYDjjbI/nENjPJMvKmJa2EKqwdFcGOMPI9n5v8mVvkHxt',
+  'hLbztmFLR4IGRFG0fKsQzzZBEFzIp30RFSTjj75JZ1oSL2vfjUw6vEdRc0k/2tjmLrqP3KYXshbuRqjKhPcvU9b02YMwkxLI0Mgd',
+  '4zBufMU9V+2F/J8fcC4nTf9/ueH5SEgWrgPQiyuxGHC9/p5CG9aE3IBQF731DUiSLbo9nviAuay2SjwvQBSwgaOLzLY/aDl7vVPf',
+  '1Nqrr4teI5AQigRlIowu0qbMkcEHTnXxlN1joPli1QjSWWl1utnP1z3bUvDGWYom6+jJxopoe/2iSHOHydyUwzEASxxJtcPzOVua',
+  'Xfz+AONDF6ZVRSCHkT7VCGMea4xFPieNJmzV1CJlz0vFRhDT2ZkN4I4W9BSLmF4OJYk4u8cmITYMtsS4dOJpKAOygaG8vqqFnm9+',
+  'gCY9SWW/yfg/fRGgJjc6pk5ccnz4bi3rAAtFa6ic7idacmtAWd7j7/iqXRgX9/CcD6HM1ZwEtCbKzEfw/sASoovRwc9VMjAaSFFK',
+  '1oJcDy9gqOylw+QdpwewtFQAGZapEcVXIl8dCs/IkcvbUjhWQb2Ok3KvM8ldndhaWRcdh98zOMiaXRjRR4mTWT1ViVfh7ScIjaxD',
+  'bT4Fg+eqFBJsyD6PBCYl8IebLiJ/AhgEAYfxlTZLLxRiDvoNjqfj1RXwcBb5SUWnQL37jyINEmy53LGRx/cCuAjaYRceGuiogzy7',
+  'OD71sFKxuo19VQ7bTQk0i7CxhfBtwDSX65XwVDrdRW5ZBKJMIH6O0IFqpZeKRQSV/k2faNZPtFvlS6YYvPVV5DtYqb3JgVAonCvD',
+  'ZXhuOnv5Cs2EcqbKW2OLkB/vB/aYhLi5eJouUSlCiwr3prPR1chIffcuogRLZvL4iO87W14W84tVXOFqXfUf3zB4dx2z/+a93quN',
+  '49Z7CS5IK7r8TPMJWPFCCt0F1LACp5LX1Wnh1I7V24uj8LcgfrBtPY2brSwAkQOIGnRlyiOoBBY8n2VlrbotyVu8jQtShV1QNPdI',
+  'rSjVuDsTosyXXgFSpn3k51PoI3/h9DsiYsQQ27ICci2Lkk/rqKBwR0rd+4cf+Zl7y9jwO/Rmkqob14O+OXS8mlXDcbKBoB1iVxYU',
+  'LEUj+Gm9KYDSKnfsl7UNlQTgJcxt8xZl6rNCA61LtT/STb2bEzEwLMHPvGqmFTVmBdhY80Z3POHpnuB8vjIZl4U9vUal74UoX7n7',
+  'jKGl+DqMm7spu6j2kuMNv0kH3Z98ORCo2FHYzM8oMlcCKFrkiftTxXTJEjSviqRM7aqX8nhyP9dKOmL4ouveMU3OJM0gxHSxBu0D',
+  'lHOAabVnlUDOqXHGyi2bsGr2jHK9IMXx6xvn1UaiMcN2F//8sgFeMqqMHIYsegiPsXJfdtgCuwcTgdIRh79xB3CQ4hV+EjNncpIx',
+  'FpH3bm7Y4Ha/7u4KbH3AZNoLvOkWIYj5M5rK9XwAajCjLL4A641pqgmY0tiY34ZwQfmQY/+T811OWtmkhD+KkMUjBmUqQHm3TND3',
+  'LjHtIyJOqXbdSMQqXBiTQZJrr3z5xHrdVlD0LePSFmeCOZt/GsvoMfOwFdp4p7H0kzh2+c7biOoi5p+7xsVLJ1IH4o5MZsn46hDY',
+  'PTJiMI09OKOgc0tOPqbjElBZ7U0mblGTznMlvEWe94WlvqW3m1yLGufEi0dJorBVIAyZgLC4Hzg4Nx0b+I0gMxLZmYhGStIRAbiA',
+  'fFkTHa7vwU1TbaH/+jwYPyy25FePYB+69ADuokTzgd1kS8XUAXPTgd1SdUwIsDcsNRwZuZiD4lLRjFi+Sl1HdtPScf5CZBWN9IgA',
+  'MnMiQ9siT8nZ/8LIzQ4CYvE+AiA77NPB6YPEd0yvw/w1TX3zQ5DJoAAl6Z8uW/cGF/suFp+xCN1lia01RVr1tjh+6j3rCicsoafC',
+  'UNlKiiUU1boeu82gCX3DThOqypzEwbHNVpob3GN7mBbtY1EQSaGeuLQiY2nJdqxG7tlfMl2nPTwD7yjdG+byerQjgWWlTpiN0uCj',
+  'zaPAQa7F8D4AlEhCyzplZ4JgqHbV7XdePdE6v4whzUEty+i3W4Zyy5BQe/kXwF4/3aICVdJaq9HXRo0VPquIYfQHI8NC5IITRDur',
+  'zc1we2R3x+QRO5Hik6ODelrGs9KV4rjPdwxts/fohmhc3B0HbXNgFjr3cph8xU2k2W+jtiSCMYpUWpmvdoNp8I9a9sBvURKBHBiD',
+  'nDOyhRnWS7QgdbTh2olmhsEQNjD/zLO3iexTeP8EDYAarEaBEE0qgeuquirOgGKF7LOw2gBf51z0CXrkjs2VSy+Ms3PH8UJ5Y8T5',
+  'S+ChztiZ274xSfSvPLQAHysrt6On3d8Nl5PohmSyOPcpowUIcmn0E01TOs26z7A3zXyki/49aMiEJHrvaBxnXnZU50Tgh1M+ny56',
+  'KTceMxpnD78+JJr15wjgSjVsX0Bc1EkBN3iCWuNfkRpykDrXwlwsn6mP8Jj9G886oErgcAd4c+2Iq8VoRBh9lAeDEEvffCvCzmfK',
+  'I5+m87P3I7NBsAZmAiqULpDA6mPnSsnQvdqcAJVy2lgYZEOUfqdF+UcvCYZhFlyh+ZyvvBHD2cv3hEGG6qTCjtCLG8lBSfHzH+ZI',
+  '8UCdON9eGpsoGXDR+Qp9EQ4st0QsHz0XkGkjOXs1aD9Xvzddmqwyf89NlAjoCfFJBk+2KThcyMIiFOb//1i10hPvzEnxG8vMzjvt',
+  'j2a/8orH4f40SFh81jPcv1FEJ1rkhplkGwyhFigEA3W+329EKq5D6qPHwsr1PcckFQ8xGpYSbLmaem9PAwu/nZqdH7HV5Xdnjo7/',
+  'UvK/YzVbcADCNx7PT3fz2cIqWQVuAuNYCMiu+yQm++cy9UDuvCWQKmtiWASzsr981mvB1EPQzJc1WOwNuDMOnmRKhOZ3DjTu84Fu',
+  'Cofft13dX5fnHIeJ0y6qnpKkZlZLkemPStL5VBVQq7XPcNyuojSxA3hZqkHpSBxoOZcDfDCXkLiaY3Q5yazhNocUvLgvB9PwiIrI',
+  'RLIGoyHFZfzJVPBXZRkWKq950Ja4JYB0j92ccCWsOyHfe2z18xH0qCc68dp7E8ecYvl8TBLzk47yTsoAztfUIDqUWcY3nOrPTcLE',
+  'bBi/qAvdZ5ocMwxCy3GEBKquGXMI0WmCmo5sqQX7rXr5zhzigsKs+X6y3+6LtvfMStwdmqKhdLTpNItGRHakGeqlK4uOtl+NrLUq',
+  'GPxpc0M2PldREJJ2O5zEQXwEFASiZ1LZbhkNDIpXMHBkoJv4pLcbTezY/ayL8szLcODf4RddCbG1V/MTe8lqW2dEdgxKicgR3oBW',
+  'V8VXXbJDRvAspt0uylcix7hxwoHSuuUmb+HXYmD3OE2MLUqlYb1rgKmC7wwjO2gbctJ6Tdjk4CIyuncLHuZyQsOp9aDbAHwOybn/',
+  'Z+qulBwKgwLhE4myWwokgOk5zTAzdbM0I492qegY0kDnzlt/BDFaJehLCCx2wsd6o3VJhuhKf3afpDnm767Or0qJHOj2GhPzpYSS',
+  'LNCLfyAvD2QbJiYauhwlh3W5jwlRg8X0BO7URLsW0JDrz9kx/QiEIOp1v4phmJU5icRTBSHIAvPHS6V+KprSfRDgLqfSuTQbKQvJ',
+  'EnH4oAuIUNyRunzw4iI1c7pGuLElfcpcKjmkS2L3dk2QfS/+R88pJdKajTkMr3C+9xy+eUh+E0s2JcBEZZ6eAjEHizO2ohnuhsgz',
+  'U7enozU9ukdW0Zg3xI9A5hAe1E3sCj3va8BJQnahv+7eE9EubsUCXNJwCq5RIbpHewcV0oPTkmMfyMvDTX+OmQazgye07e10X1OT',
+  'hGW9sdPW8NL5vbijxcVvXkZpksGQk7FaKWNl8RDvvXPewYkZs0cXChUej+fUMH33kj0I+mNA3/2WBZoBNjTaXyPa6+wgXoEfpYQ6',
+  'cxuKbowGSXwJ3jkRFs42ScgKvkgxsAA4OYIGYfXI1y1Szw5tRUg51m5pZnjCvcnqEoEEmGl+7NGsrCbdioe5xZFRLWmUngK2cvMG',
+  '4V847qmxKq+vZWqjKt+qVzjAz1NdYyrDVQ4LMrjGC4OBEiOY+dJWO49YXzgKLYEDY4YxBnL+ZrP5a8zJgXjHyvIbm70l+Vwux54u',
+  'ypPeHiMAND1GjiBtmQqU5byW8DnNTwVPG2+QlTOr3BwzQwqpZPpbX/1IFINr+J5ZojaqAwGQxT6Sw9iyotlSzvPG1H5YS+O7N6I2',
+  'yxK67oY9XWwRPOy7vyFuDTnQyuv+BwTbiBORABwI0YzIv8NK95aLg1X6m1+w4ccnAj677fkmkFMdwiMBM7/GBSjhWkArvR+WzbQA',
+  'iwbSxvGPFEINuTurs8KLHsz2AzN1oZVz0FScygT8qYMOOrMPBo9HsYUcgVnkZvehFi2ZTZNQYcjKShE+iNsCfYwWUlcvVd0Sgpun',
+  '3F21kHDxDrqY/EoMLj85MHscgJEuWJ04husYFjCO6Y3E1RoEQEx4f1lRH+JwTGThkaCU70A/MQNqHZv7YoCW+GPrjDFRgFy4Jq0/',
+  'nf7Yqo2BOgZJ0Z3cmjOS+D4QATGJwfLlcOZRkuUmHC8ZE8MP07O7YBpgw7nqAjKlEYH6+M+s4TsjIoiz/I9ENQWr96C/ZB1VzyrP',
+  'bAhGcRhDV8rKgBd2gnx+o39jX2i4g2R2nVlejAzQ3hvae3ObD1iYVwbTwY4SsaOuUTtYjgGq027nrYhOVzI1VKWRSfhyikk7+W1R',
+  'qh4SrjdMt7Bk39x3fMNIlQ9jd+vqri9pTR5iEEN6iFKpHdjYm4IpaVDRw/ulKIPhuBqikdNKaFCVU3L5vb+ItYbWBk6Dm3j145zp',
+  '8+9+x49WngUU+zWta1znm7a+6e4dGFBz/5rP/xiOIkV9HNfZUdYyZ/I+J8mIFSifUKi2zoWIMvoUYLy+vk0HQm9H0XTq918hRZXs',
+  'GpoouCj/Zb0xfXfqiqpuVLNuIoFzvclJhGL45LvovDrSfIiYam+7NUDEG7I2CZqFC8f4LbT1Ykn4yE4U/bQHcyxjkKd7M79/AOIR',
+  'dwf2XWBivqL4wsMCJL9wHkEg2gSXaev4zytRmZz7VGPPK1yqynbpU2yyeZ/5a4+hB2r7RnGEv81vEmENy/2gZu8Scc176f7RaomS',
+  '8rclkJlCNipL3en7gT0+SV15/VH/xdKs7DAoneadegXnAGHQaF2iX6evpVk+7nOjxR0NJj58EohmNAJQd4L/YuUNBsxWL7UMcVug',
+  'yWc9oUxMYSqLJfoPEyAaxFzmdnVTVCvoN7ATB4FzcQQN/1PS9XFIh3UMbvaKD/ri+G3kbjzdFSWq+CImSynUSVYk8x/r0fE2bECk',
+  'dcqX12ayR5k4WBfLc4MuJBpI1R6F27OHFGIyhSBvMegkzXoqSYV+1FlBbProZpQntxXKTzWs+GfN4KsHU7Niw/fTXEWkHiZNADV8',
+  'J88b1Y0ffJCK46mRrTODafYrfDMNZoJB3z1eXDBYYtEKgKg/jQQ7Dr2/Z/FtAZE+maemElO/YNfIrQHv6yUHjSJaqRKapigPY56f',
+  'BqpiYGsxR8cuMOjYXojQUDlgzYRCRoFdtIhNUeNOUEYAKXFP35GinRv+2GvSjDv7BhgZdS+sqQ819No8CIhexDWKqgtISaqMaRgR',
+  'VvhyN4WUYcbFMfUQSpE6VxdJn/qedpwoyESAwYQm8Q0I0DIxhN2B1EjvFCOhY8e/67t+sTNGjpJ3W4OJUE7len9XPTUTy8qm+2Cl',
+  '4UMMKx6RjomSc6Ex1p/n+klYoBCTaL79wfuHvp4GmDsRbYKQgyKfjYAq0o589XLna8lynpWu/2tPTmCX8Vkxmp2FF+ZewnsFtDZS',
+  'Gus25/lKSb29VWpcTp0MTY2co4oKRMKpjtUMfMYYq0QFiGafkGeadzSHguwI+12VvIl+YcXeffwoiFt0zPW9wqR+HoORpzgIZeo2',
+  'kTWiIbbg4R5XVgbjCNuEz0nx8Xo9rYfOmAC/A9+chOfWMHfDTa5lnC7tc5TRNEiMwfy2i2imuyF4zkkN5sq+I96LQbhzckq0JJ7V',
+  'xHW4YAsG1eDp6ljxm01ERd9uYH2JyDm/kX/MtM5L0rRSEhpY4I0DQ8smugQpRHxKiNnrzmxiN5kD0TW2ReRMShP2GfY4mPl3Abqb',
+  'XIfNLFGN2Nfi1l1RSnwpl5YBQIQ1+9wgGSVU18U4g7rh/jJ/2c5oAnY+3c1AoNE0Ju9CJqTkzJocOCVbFEkhN+m40OkfDzAPxx5E',
+  'Q3beGm8O3eXjyTzOYU7Ru7qQDCqAjDXakY8v1t2WLeAgogxz13MNJPqgQCBY0Aw8Q4u4LzoV1wmFPsnSnMwHXwPV05M8GvhMomYV',
+  'uq1tSPZyKGK7yJiXJSN3LLPK82UNYvIKDgHayUf73gt4Dnyh1pCzyZ2sLIzkjuIcguu0FgbHCKd8EXhAxJgQlYIVlAoJZAGcdNX+',
+  '05X5fL1KmUcp1Ecgt27dhiZK4JlPbGozZxZixJJra95pFcWH+98YiAVU9ybum016u3q0BMouJonKmaCLfSaNUcvMt9KikzKcRzxf',
+  '/Xr6DXXzR6ATkT3TpdRRLSzmQoiB7iNM5OC8Qse4OseCYEk7NOexyjdI2XBBe8kMpObefJtqvxM/mrltfBGMMaccgmnbCn0Dav0J',
+  '4lolAj8/ZB3BekZZL3syukjcqKhtdKojBRI5mTEgi88Um3XZaNEUUCtX/3Hph0fEGvFHAhvb5lQVbKtjucDgwfHvchpAhMLAEOeF',
+  'K1/y3ttLDNUORHn86dmyKgPnZda9dSKYnHFXpi12wE+XTeSJx8gGlXiMYDsNM/Jii9iR0NajMIm6S1eDNnO4b6/skcyiTN1piV/6',
+  'zXu9Wkc0WOVa4obGMyYc+LWjVAGmAIqG7wedWMfVnWI4XtAz/TX2O4cbCbPiJBrNIfeKv6gGCpuyKlHLxh+zlEZ2hw/sOXNQrFSh',
+  'nz5SrfC4vEvUvN+mT/yhLdwbI6h/iLDq6dxhQ1/TtyTrECD1MdDLTsmCmoCwOtsBdGe6f6qnm8hA2waJ97oXiZdISFB+giCAmt6l',
+  'G/MH7QWG4v3Ac9xd25SiRpj2AYlVfY//0MfDoPTXmwbe1NbToYBVD/AGOQ25vO3hv36E3CaqznFrCCzzEa3SfsmHIWS/wArBbRYr',
+  '6pdZIPYCrkgajRuPf9/L2KDeW/Q4qMryLYIshx8Qy9E8s3Gz1U52yV1cjg5fYNPHSXscFu9i5lVGLiL/7Q9c+NDk6mVwFPcbfioT',
+  'TgTby18FqzP/tcoXP45fbDmWTyILvwgxstgQn3EGdf+c5DOUua7b7OEKNzo6lSq7pNFpaBmH4hIlX/cUw42Kt+GuRQ/d+HvE9IIh',
+  '75SRjfIyBzp0e996q7Aij+akz5fFxGZPRdufM+xXcJxG0k6Je7C1tHZIVZAlbmMM2u+0O+X5lnY9O+wZ1M6To+GDfGgaxaikVmr7',
+  'CgU8bk4fh7R+no2MyqPhOhmhTqBhMPD7ZL3bjiLJAfibavhsE7zxkuWJU3AsmIuqLmnRaPzel7VdZLcVV2vhmNBsvdpPCCZl2Fpw',
+  'cUmdA0YiY0EGhoeUaF8qHEJZgglo+EhI3/4MMR/tkLi9dQ7ha/ZOwiiGSydEM5ws+pXOyBrkl826qB4c2csjGlu8vprjv2xOUg0s',
+  '+qoXdkjPyMd+BfD9/6Ql4SErAli4DYb+uSyxKV94MkkM5AetmhCM1StlIXPtraGiK0PDO6ikg2q30mcS5OZsBdt2ndQuQ3NcGHbo',
+  'OdMzu5UL3cuYIKgDzwmCw837Gms0OMRGWrltZ8mRpd5WwHArZqbg52J01Hq+O1NWN66uWWreAqyA1JcCerEBJeJtaCS3qTU6wHTc',
+  'JXB9C0nF39lZ8OyPSkgaPsmdOgU4plotFW6t8JIMAlNaax0aqQgHkEfafB/ftTOnneWNAteFTpS5OJzrVuDcebvbifcnWlnzKqMb',
+  'Cu2VLocNQL3YqiskAXk1luGYz3v0PyGhh1dsK5OJFiDffz6FzSHVhGgoQ2ZiWKaDuNXGvs76m6Fp4Skkl1k1CVAO1tZrqsFxp77V',
+  'oa3o/lPJOFKgjILQ2buijzbnI1sT7Waq76DilSvflFFLv/r4/CEH2aYbIg8pYEFUIIxQWLXhPrgqKCVxuup+Kh0QmuMqsbg2T05T',
+  'WyfNEjPuXksZQzdmGtGXxIoXDAoP9YjnOD5zoyhWQl0UkKAJYRZq2xvr4PAgmaatEHzUjwYA1aVYU877Zc9TXovK9HRWyD7PzuiJ',
+  'mAO0IfooFp1ghuCzP+he4n5W+Ia3r3fg5gSmLC8+sijCJ5av5Moe84pKypNrk0KKUtR/GJOFo2bu2A49hoddcpT4bR+KfWAJTomx',
+  '8ksouidC4zuLkit657quowzOGupLTyirnMlbbWbfZYIiyRC1T0sLTjJ/mdZxdapNhlAsbAqWh4afky7zXCVtkMGro2wL+jViGv1Z',
+  'LSJnYmQZMCtTq0THTSodF5keybS8UnqXZgAr4ScGudQzfZPTFQqwKSC/G14qVd6j1nf5kLUSCivHnRfc/WptPQS3dekLFM0Kfxap',
+  'aUVCHWC3YnPJ5SUBQp2C+n2UEvZuZ2TKm/icjGqDN6mqiiAvS05bdTuS94O6ZCoQyJuDam2xoxQqYRDLKyi94toc3y7MOdjksLJZ',
+  'wtz5N9T9H8XyffjPm68KfQji3bDQZyqZ/+xHUGw/tlvrKCRCvjG6gbUxrmmLqh/TW6v7bxKHH96T+5D8l4dUNn0XYYOlOo5kzyYo',
+  'qMotWyXS9Rn09wH4vJqy//PuSFgVff5bDqIqg5z2JOFtVEtZ3Cmf+L/DsQNGmPHtlCFtXufpeOWGAwqnHXYuwvyuo9+YWTcQcuAH',
+  'axS28+by97eRfD8+wiKisVKMLcsg9fe7lsUJYXwV4F1MJCx6DrErqceG7sa5DaN7hNeO2+rCDxY/PmoOk5zC8V98rWjabkBhlSeZ',
+  '/2aMKyqDf0dtEG3MSApBhGhc3O1CCTOmx4qYhBAeYySDBC7hoBDh3+P5fUvDsxVBK4QbzUQaJoi2eDAuChv/Lu4W2IDFFwG0BYrf',
+  '27CZmtPcvD/k4izsZWZec5BBOHBJ5bjDJwsTut1EYiV7w4bjl4Fgeh1ZT2/KrsxIY92R5wU8q9Gk/4h3IvgwdFsSoF89uKeCoVIk',
+  'bvETEiE0gGriy5WKRO5hueUbARaFQFWvAzpmWpnwwTG3g7Y51y2ODIuHWCWEtosIRu9GW0HJh4DcrtEM0mCA6q5CV4l+214ppj3I',
+  'kjNruVt3keyWCDhx20RcKVajWnX+99cjkLf1pmOmYEo1kg6jbBdp9//IutEjhr0zT3Enq3ln+f35+2IDaqTI17rmLsIwHc85s5iT',
+  '/fbgGKrQbk0MXKo77elHqpZfpSNVICHWvBnrC99lK6n2gUQNimUPTwT8IeHVVAvTL7dl+jhIBwjvTVtdCi5cnxkt41YOSzgx8GPx',
+  'XQ2XdcgVBjLLsA8Ch+BI3ffRAP/RR3AttsmLPDwiFpRzAQn+ZdR8W/hDu2jadspz6dkaR0rfQCPTu9adFTf04yny6zNwhIEDI4A7',
+  '0ZRkRi0JeGvoiW3KFi5MXh9AS4FtHnw+AMmmqsq2el8tLWX4EbXu/HsWQpZr8DbbjBVznIPMyJcSVWK+YIF7D44run8Ot0hSN7K2',
+  'qjpED+QiqSPkmyiifFi0sWO3BbHl1lZTCAnlDzcjdn1bpr/fL/vg/V5gXfoNDvV5HVxkPx6oAxWE2yWN9UZsjUXSE0foPX1xasKs',
+  'gBQKhg3WwrDkqtJcI4foj1NBdGp06LWdvKoHBEFGsFJ/3DXZmIGOefjC2Ff3UMPvCOk+s2wdRAfBjY28FDrat/4xgtWw3YBZOHPV',
+  'wZdEJiDxnerQBZvT8+KU4B31iUO0+WOGLzGCJtp1AGI+0+sfuvuMxZE6lZvZenfIy0IkLn4U2UV2OZr7oElFPRGIqEuv1I/4WEf2',
+  'r0/t9rLpZI1A5ozU6smxptBR5pexqK3e5OBIWfD6xvElHpX1Rp24sfIw8a99PdvNqIu1lEpjk/d+DSfn0xPFYmBieuJ6J/4qtaxl',
+  'L6+azhbadGllBnqU3uTwTcQqWXqdcGsJyv/DogMmaY4Ogdx+CFd+Zdh5iL5VEz1i5IO3PJTWpRjIyUTwanEbCaYIjplgBdXmi3Z+',
+  'Z4c7QBWlcpDXlD/i3Ch5TzChr/5USGUjSTkatbgN32xcht3z1HlYsLYYlDl2mFsdc/FWJUvW5UX8Zqh+lqgEZThpnyJx8INRCS2w',
+  '5/Dyd1E56gihiaOQgeR/FzJ3UVG3FgmXjPSgXSCSva+GUbsk3drtB88s95xpkmM7dZbM3A2O8DLQbOtWWDb4wwMYVQyWf5EBkwE+',
+  'oMPcXYazuuXOC8+GOl4nAB1/9G5REuE65pXEjnuVQh+0O+eK3iXjrzU6XGwh/XitoVN26/W9ivmBX4lTyLOH1XrT25kT+fNjlAat',
+  'yl5eSnn8iJoXqWbsbBa0+eK2AM/PWZUnlg1lIJ6iDPSiDw55iK9zIsgYlkFJMGQLsvyVxhv8PEgGMYpevHX66MX+4HhJoZy398rN',
+  'f0G+ebbRQNWdjiBxaIoJyYT0yg47/ixiQPwduFneVbOgde3bXBllKsHi17Ps3ojvIgzOMfohke/OAYD5W0GzJ8/7sL573x+raWT/',
+  'NwKTIvwB7mwiqnLwYUrwlFkHOquklvFpB9gsz0+hpwYmBnF6FMGZxFSv/gKgeNcoDYq+F8inTkhxUZv7zuLEqIDUZvN4pnPrxjE5',
+  'CzHOKn4v6L7jo+Xr6umUhGru+mPgr5AtribHZSqyQnoVTN+Qemm2j5RyIgNi0aLA/KmURBVrXbMPQoQNISDGHFjREEtJOjI3LaNe',
+  'kYLd8tX9USnqPqyxwHg0eEvEZqPA9OXJS8K5l4GvBShSj4/MOtB+QWP9fh+KTXWDZq7g/6NEoGDpPxqPSu0PAqBmSwir27AOvZ22',
+  'F57JIPj/kbBm1rNAgdPqnKusDjyKTrJWBq2lXyumxtRDZ9wWJbmdNbuNfPck0/2eCUKms/RhkUQEuiVC622En3T9SAZQnho+yRQr',
+  '/tLnYvNAAyPsnbcyov4DPR7CxiQjz4pmO/qLlWGfX7yq70I13JJG67DeHFRLiTsFbXzeW9leaWGfiIqAwoWypDuViEIR6IvcV5nn',
+  '5BnOHBc7EmCY4ycj/FbCuZtL5PVntzQiqJhC6FA2ra8sdrg4C1W5TAMaPFsN0zkoxZBfnDaXykuC9hP+hEAnSZnfujr6YDgEsNio',
+  'GIhyicfg207ncXjAQKVo+A6i7A8J28T0rUWb/drsK1lSlQmD1l2VOeDGOiI9XpmCfSBCGTBlNZhvrjQSazsrJjDoB8fbXMvBo5HE',
+  'V5+823kIFvsFlVhD13bVEkVnmDlAGKUbY8CHJ5ZTBxbzTTa5yf+bxrDiY/+15mjKHBd6oa5vKDGXdUcO2wqL3dpwsIngBK9dLlj+',
+  'FsEfzTkyZBzEobpuddAFkFd1YYQCcYxtqvJJGUjaQraXo3hojNHU77QtAlVtzzaTlsM78KMhMwlmy8x1HFCt2E1Z8ZRFit7UMOqP',
+  't5eCpTc3FrXAk/GAWx+sag74CLVQhncEzoxLE0HCaa6VLXhJlS6vwJnUp2IH1GDYW/sAS98NUmGrOzsb9zZYDAAgkRTwDEOHx1m8',
+  'i7s8ggieJlqSatlIcgdyTH78zYMSbPEZ+C3HeMoEUSxEn70Nna9NmfRdtQ7Jl+KHrsgjyRuMm87xuaJ8GZGrfDiUp0TeLbKXBjLE',
+  'teBFTNtZkZHugQLi2lnNHwT3aULo/7KMxkNUhiSrpGJw0BDAeqt8edVcvTZxgnPsb62FEunUjN0yAO/il25o/bDPgMdZ9uIkMsuB',
+  'IEIGsDBaXvdTuK9iayn6ESpOAP14+X+ZnUtLGzL6DEqoqcYC6hOt9fv/1HM+w1SjafPftqpx4tujhP/sQLXQORXy1UH83+By7btc',
+  'DbTGq/MsZUOEYS8CxZ5nwDvRY11Ss5Yh5eD8arJgVnUwsDE/NDxCX4Pvm1bp2x6mfluzARNIdHvPUT3Co7z02GGx6EdeEPduDSAl',
+  'QJm5lWQuHRCVihomb9PsTvkekVnZRkoGsb4wuKN3KN0/bbfqsy2mUVdodUzcnPfsubiKbIIHFwtMmVMsGZUm+kKCNhXgPjN5xOXF',
+  'mYEvVM4rYOdNztK4puFIRuk5EMJVUUQ3nfzgxEV+l+IRmvLcckGj79RAq7Azl9g0knUCo4z9BzVzxnP5+B0kYMzD50eNujmuJN0W',
+  'N/8ShDEyAnrztPenAiqyHdV+c4Z7Thh+63QXYfSiM8v7t3FR1xzslFft1hl93ryYdMlM9KqHJrrcrww/ghBj4Gm1n2B4gZtTApPh',
+  'sB2g+//QA7C17eEynttkmHGTaEayQ68E28HRl34lJ1hkzg5LHyHlggEr21MPSLPFVcNNDczZIRZ0Mgc75AXV7Ox5Fxle2rtyTr/w',
+  'cse7HmeWuoqHMCtTy2Zuh2e/wlSldCcTfJ87T7Ii9L6TLOuG67E9Tv8iTYRCeNU3J26lDzALsJZ9mKzgpq4ehuu2q+/qiENK5Ifb',
+  'UY+QaKALfIiy5eSR5GvUJKSjPE1UO6QRoKRNbeIyJ5QdSBwM1GDzBEtfz1R+X4u/GdnxgVwdr3KlNK4vGj5DJ6MvEfcPZurK/n7C',
+  'cZGUnISDnSIEecg39kM9Fyg9B+KWibynr/FMIa51zQCWRGPFci1kPGDBUQArZNscT+Lq40FUbHhHKWoOhG9uXAirF5VP0L2BH0Pk',
+  'BTQWSWa+6PPp/RdR6ibs+x6BYTB4ldGko/89TdwMlkrqp78Sqriazsxhl6wrb4LYJ1EhSD1bWjTqYu3cDiwiGB1gCtIJDACi0d3c',
+  '01Ux1lIYA+uvCr8pmxDu+Dh6k7i82Bo8AhPoZ7L7tuFF8jSrDd3e3Q1j93TMK5U2fdQ+kMArDkPhCW0fwJY5tHTPcWMXTNoNQrgn',
+  'C7Lg2nh8EElfCdOTOefzInGFrjfaJG7ZGrWCk5JEIaYZXqR5vc3NUq3sMxuClpd1FpGITP8s5gRYhsKXMsIX9hwd4HZ8R0oSL0nS',
+  'qfPTjjwk83OtthxWU8Isp9/Bv+kH1R6W3Ikppy7MTK1l2roGmpsSC+Z7LH/8m/4VfUbqTDGWkG6WdcHszfCem935U6VJbuZ3ZUUl',
+  '55l5ZeqaV92taMFz/EgIAjTb7KHOn4ebb9HbI3V7nCDvJ0rDxyJ56ua3z3HCE4u4ACXBnyYdHVJOph+QZIZUsv6+LKntTAHut7jy',
+  '4EdxnA1KHa4Bv0NEMR6p5s2ogj6ba8rVBxOzcaffrNviGXZ94n+eIyqOuTlPFVCS2uG/6oU/Axkb4iwEZest3KvbXkQtvB8wtOxr',
+  '03AXUimf9Lto9kuwjeq75FrgLfuhIBAmcjf4Al4YiOH5DECQYtlPjPSelCHIIJue5D44pX1IATvfnWPEFKhfEi3fQF+6BUH6T01I',
+  'U6yIzB/e329zZ0SgXPN4IHqmaPhEiUzUe2OM7c9gQpOdICIe/44GPUoOI94BcwiPSvGi/hGaS9PrUg+KvYmdjLAt1By0DJhC+lkI',
+  'C7iXePNh8+JdvF11/PEn6PZEOhOxliIBvVfSJ85Z7nOS/L/vS8k4SXfibeHJRVonBC7lH+Hx+NDaEpBLrBSfui4BEDcTa9G+Kh6F',
+  'RTJ65UOYPXL5G30Dz7cUCdKiTaxwV9zA4pqsuIDxOIE71yzSwI/82EsyVa2JjcfKPfWLjDze0OQ3uKIHMQAK2hPZGMLtCN+lyrUB',
+  'ASNp8RzQDppKUpeRk01ozCcJ/nErbQWkenGwSUEVmk17HKTLu9qzqHyHq9jA2LhvTwfh24jfEm4h8MmUuWMX1Qgtf6UUPQDK4Hk1',
+  'wX9D4DAhpPkadWDqEBNq+urGIyJALscr0ZPyxQSWDAaJWcwumWxi57eTA/v/E3yEshQ3hBPwYwCLcWi9shpJmvs5mhF041VcnQT2',
+  'OCTVDz0B5ojiwUz8H7p+bU7aYA1RPpXLlZrnew0sB56QZUMxXSP4qgBiKYKC8VNMpO+LP2QoXMVj07VooVMNAPD7UPIi1i970KqQ',
+  'eQwJVbAKr8PvfFammkNRp3Tu9r4mlif0OlWjmnI5XZAXBsJSodDW4NHuoZgF5a+DBvL6qB6zDkrNfsVMaXuNRgzz3IRKjbk8S3CR',
+  'x3toPlmJQwMCVCXwZV22GaKkfwM6+6X6XmYHYAh7dzOERPP6pRNEGqykM91DDHFyooSNcvAmo1Oy0HLjvkmMoFQqEa5894esB63U',
+  'DvDDJNKsdfbnDjH+IYNbGj8XVmyG9eTJuOZU94gwkSvNgzycubAIWcep5BJJAuhAlw8pjq9MQpdhllh64QZ+d+9fy+JAVcQ4I1Y8',
+  '6uOZqHYDbAn8qrYc5MsUITZl9IvH03EKihnI3RAlI2fAGF5JIGE20G1fkWlLIR1JSH3iGbnI+ZSSP1phboZlCQbLiY9Q18HKkEJE',
+  'MUmxcR4ZI2aFwolICRDCi3Bd9n7JvFYjTXlnDkZC9ELL2sCzq5iAVKRPCCXCEjJirvWKNbeNhhhzg+Gyp3o/RDJHnjFGSA02PM4d',
+  'MxpUWx+KUAqAZZKeyDjiXuE9Z0R/9RfNqRnYIsLfM8UHu4yjI1OZbPceI5l4gIA0mbgYBkWRDCzU1aYnBk8RXuwq5AziYuQtr998',
+  '4rsEYgD+Ls9Ob3RlRMhaJq8cF2EBIW4+XT52czpollv0Nd3L9l+EfZOmxgk8IkrwrD3IeK4G4+LFApeM7fpg3PTSO2XEhQ0MMSJL',
+  'eyji5mCe+ewnaR8GBGSEaPvWHtlpR/EdSSVKBOfWZjzHGSzLhlI53bC5cK+094tvPo3kq3oAYRs62y8uulE3ufTE9lCpze9HfA6c',
+  'dTETzEOxpDrVOr18TXe3smG8Gakxv4RdIZn1bRZwev7X2eW+mM0oNXLKH9K8J7BtmWHVrZ06iSCLMULbGNcgNYptYio4Nykeb9hi',
+  'R+JD5uRUXPNWuAeKRIznU0gdc+gxKJTvJ1K6WkiUXQB7ElBS0tHoUkcxo3ZX32zq4BJwZElZ66HOLzPy9c3M46+2ZY9YmYUnyAuG',
+  'dPrVTF/s01NSHw6gDhgdPGRGE19T1wHTt9BlFoj06qBG1cforZHgJo3SiQ8al3+FZsv1JCIIP4hyX/u+IooSO0ZfShNr9GzIODC1',
+  'q2kVlzEKs5K59KyNGLJRSmw5odaU/qloEpyDET0wxVluFEadKV92FTxMEuf8NrcCP7QaI2fGI7EHwu/MRc7aelb1w5SCjUIZ1vPy',
+  'z548GLlgzgn/YB28aIWOL9PpodVAJUst7qz9aKYtJSGhGIZhB/LHaFO9fzlZN0aKuNZH3PVjOoQkn5aemLLxvS4kXP6UnFIObrfD',
+  'RVYRApqOmazvmLfAtbm13XAaJpFF0SE/FNLaA5kvcfzsjOfk6WjVghsoxlphf27eXFSnV1iqC2KHVDm/7YQj65LR2YJUTBKLQWa2',
+  'QP32wT+JTSbw0nHfTyvglhzhMP+uy/zJ/4EWGxMZYIFGDeian0s0gA73u1s+VMy4bTVYBubDmbUkNvZQGa0D38QPjP9Hj8At/hgr',
+  'DyKdE3x8pNN3ggSK+hHZYmDMGNIQUi4lcaL7dXyy1/AJYFKyJl4jD/DzS26i0ZBrjGjip7XrQ6omVCcyGKyVFwE0bnkkaE5VLUrp',
+  'SXNRNf6g31BMwF964sVzexD1WdZkJKTo7yiyDJF0yrcAI4C622otyqXWUVqDVUs2U33JAybjupJVkbcQpbHtLJ4/HKE5wzSWbIaB',
+  'VAjWjCJXHkZVgpzFJawELo+RzVeMfmzPW6ANgwIF+1cLixgykA6GYkeEoRN8REXivE/0kfswSnbscwdJCivnKmGZm6o2wPko8MVJ',
+  'Q6g8l9N156vrrCVE94wLsZID07RIubZfeM65VDKbXoAA/HhCS6qOUCN71GvSJXKgrTf25rM4jNtciA856IJAiQNF2paljMbck9Sp',
+  'pr60XHNUKydMb5ip3jTAYRLnuwSAzNJ4lyklmByypPh4pQccOW8RKsdJQCRsq1JchfZ2glKzDRoSGYqzzZNYF4v6vp1UP2kjSRW8',
+  'RHPwRkA7DlFeoWNxIzl4I7l2xrEX7pnzq1zfxnYJ6Z4wdB7ZPy8+4LKWvUkkWOkEXcMUXNpU2G2tUrQo9H3QU5LoIsgG+/jRDtve',
+  'oeS33XiJ2CqrwY9qL1iEu/QiLRKym/ShtwGiFUCDP5oLpPG467kG2y4F8lRItmiCSVN4T/tC7UPsYRx0A0AUaHmvlW4G7MWDZjtp',
+  '/gDORDs3l6LK8egncWXdVHhhszq0xihQkaojGyd4JI2s1C8Hm32zbzqfpPT+Rutk2nRqidyZLyVUu/5lvEoFHpw3xEyuedKsPz9C',
+  'ZKL7YCsQjSuJY9xY95XEVMkv0AIdaZo7h8WAmvWRr+2KJbe1iLUbYgpTmXE9TOMdLphFe7XNXZ3mNger6Pg5j4At3PJE6HZFWTjD',
+  'g6+nrIRgGo4kTzcQGsH4esEH+VJOMqK2Ndhh+W9tj0EG1xN65wbMsDB0dFy427wG18wePY2Fjb/kEmcqvNLGFjNCCY9cgl/515pR',
+  '+XI2QxmcfBi+bH8acb6SVBHPa86RX+wo/Pz0el6dZoV6uw8U6xcyuIduVBza5hhmtcpxV05zRsmATIKuSchfbYwZ42ZciOJtE23q',
+  'urTisRSRt/Tfuu0v7A3Z4OCpB4mSqihef6dDtGnH/9TDAu8L3NNU+DCxYLB+IhiHMuiO3odjteNGq5A8JNX3G/yTnHtrk4ax2kYY',
+  'SqCadwzUHTVaUNE/GL92yEp4qUmzwiMpicOoat0qnXOdCuYZRRal4vx2SmKLiIFE+XmPCTlXPK3UR9r5Oifyn5b2jci/VLMQjYAa',
+  'yJnJqlv1djv9kiw3fTyee8txsF7WagnUQBQA6WKamFFddm5xNpJhHNpB9V5slprs3bANjiEtiT7dBLBwxiB9bqwmuuTQ7YG2TzmO',
+  'gQCOUsvkYbUOv5j3lyHfVU7BNgczKtJ8Z/gN8aCVs1Rmgp3M1d8X9xU2X5IHopwzxQrK6I/QHIu5NBOH7afMFzVFUYFMiRWV8DAL',
+  'iFJoNkjMzbte63lsFgi5gUkXUpENYla3T35xlal6sOjhtMf8aBU/UmMp90EYIB8giQzwHxmx0Q6gMJ5TJwVPoZrWlx9AQIsHmlLd',
+  'A6GNHzCYGQ0bYa4mzB413QrqiyKuD/mvW9Snx+OezR/Q8xQTgGIO8bdBBjkpSZD1BTpcgzWOAXlk/tJQGTm+DcdxP/VDEwsV4wBV',
+  'K5NlP415zYB4+EnK2EGLN1GGj4DoWsG0Vu8nNatXkr/k8jmoqGEtBvMZp8XaDObBx/A68KzFmsvVsX2PAeOzMD8Mje/pF2KkgauO',
+  'Ae0nnNBgfxU2JV/tqmreop1HGEnOoLja98cjHWslomvuzl5nNvvBHtcB5H6I0i+5Vd8tIXEq2PFMgrx9cMH+n9jZ0UFTMhGroIlU',
+  'yI4rgUD8xkjZGXAhZDPBHnEdQGbi72Flk478j9fDHo/IloKvnWxUFJ1uDQ8OREawgZO+kJLvOeDMaHxZ60pQ21yJ3O7TtxrwdB8m',
+  '4ZHUWB7VyG/x4Xtqy/KJdTMxRxduAKlGwuIXRsT5x37BWc4Lh7Oz7HVRrUc3fBgwgJqtNv29qWbvTBueYI2yhl+vmweRMROwz810',
+  'U7RcJc1efTFxqUYG8qLTDCD9PZRfx5Owq/FejjKZARQsDToXdfQ4N5yVBGG6gVpIKWoArUr72yijf0Ehy4NMuV4QA+A+dofpGaSj',
+  '9HFT4GndhaQmST74iRRwXwc1C9AVAGdS6Dh133cA2GBglF46YQQnhcCjOA8NGzYPGBCEDd7/zgo3xkiPaldSPw5qA83xC/NZWPk+',
+  'BzP9OcyarolfXA3y76fsaDJtI/pXFOa++ihKPnwYZapofNkS+vOnhZnoIL2EihA0F/LOrp1WDsEtN9GCwT1p4vnRzm+ALu6z2y5o',
+  '/QwSeF3vX4p6d0+s07LTyWuKPTS9Kj/ixhcGClZlRjos53kTtWoULkMw0S6P0J2q+Mbj/q6kOOxbJMUJo5vk8KQpoIV9oMddNbFv',
+  '0RMKMB79DQgYJhCUaBCHaLWtB3+HBaoF1kO06VlS884swy5biz+kx9RvgCcKExaOBEqEAhZuZ6hiIZXKEaivsiuG/ixBaxwBfAO0',
+  '9pFR/dBKemrOddJ1HjhtUQXiAaEjXhZBEeRu3+z9q0SB76Bit4kO6BesA964HnaTGm+714JxV1d8zfMhFY1y7TzEIVwuWNZXVffA',
+  '5NjVStczHCV9xs1gSJuPEai5reNzXBZaw9BrHtxwgQRZi1CnwUKVDmxjGgjjMjmMdIhcJjwZk2wbQrat84XWwVdMsZesz2+qPytG',
+  '9UNTYfyh7UKysBpwbKQCCNqdk39VfwTl0rM2SOcsHxo0eyPaFmg/QhiwDN4Nq6a1GTR136DoVAaCsog+9JIphn8Xrbw31qgBvaQ9',
+  'D/w3I37ASmFR/VhAaCOM0gO175pwsUMbbP2FyDP+UmEjEgmi41QAs4e6OU+xPZUANS73PloWN/aX50fRQJ9dKfKviovx2ON8xW5i',
+  '+w4IAE78UMdvcxCgHOKVONHmk7WRoxmI28zU3DDAD/ry5LTd4GtilnHhsYVLR5yIgOatwAByRdCyRB3mVQEImiEQJ/lLg8+waxUJ',
+  'n0o8B1KeVgjXI1SMnlNY9yIvqrxIkSm0UxHk3Sr45ASU4jYUjrzJ6Rz7U80CURY4xtPSSfFNsk5hP7qNYMD/5dFdrK/CMGOY+Evc',
+  '4IG6ipwtBRbK2AsJbixeMPAlfnThzkupds5iSOyBAin5CrSOmWJsiXqlxM+ok+jHmTr68p78oN9CG/1Q7ZSU7f7B44hxfM9iFz18',
+  '7ztAs469xJ4PewZXPjy5woJhgbRGJArfqiE26WvwRqvj4CCuawyedg9605FCGqFe/T9HFM0kHE1fT0OGquwYKGcKSovZkLyIZbvH',
+  '9PyGJ3eBLkWsXZEcQbMn35xKynZC0iE9CgjL9nmpC1Pc/QijllYFeNrt7jWx/uwA9n2ssZhTAmzMGBQyUvqxiWykaiXiivOIkBPJ',
+  'lzU8yBYAXnHAG+QEtZ47cMefZtc93fht4aozgRFq7GJfobJ6BDP8/hKYaVVw6/lvYIEGPcrrfpa1tfW6/5ziUezTeVQlMXp1oLcr',
+  '6C3IQ6Lic4tcebP7dgLzIz63HEQyP4MAyxhEDCHx1WEObE06vW4+XuAo80yVnsXvdWrDfNUiUzNRx7VvuAy5yyqZfzIXHZOOwp4v',
+  'vOLSDfqikWKCXakWtybTfuJvX5uGm5jPSI+4A0gu7dQFOTTymF2APNrpNkBQ57IUDNLVDJCWNEtoa9H++RwG1tlFw1uIQjjqQvov',
+  'rXhARirHT8bhzG/XpEu/foQWWTSbotYyXtoM6A1LoZWlU6j8TeQcUV39T8AQSchKQ+6AkpdbiTjqtoX3qX3QleTx6ZLXg1NNNHf9',
+  'nIuQjSc5jMauUruuryF4y9O2JZx6YrrHCBehxXBMPpM6OBrQJ1D2hCUMf3AffE765O65wRdBpXBo5/MHjgNcs6WWfLGo8f/FMs5O',
+  'vhhouL+rQsqaE0FHUGb0CkzzCl8GEns9z1HUsDVvFU504W0haYW9vEAAt3Ad344iszwNL0qWhnBoactamButPbwZtKRuXacLTmCB',
+  'e+G/1RfVRqtfzgbm6DL9Q+fwS7FerL1uVDbtpx4cMgNumSIQNn7lyB3gh7Rqi0zRBpGg6/yNO+KExz/qbSf8iEmdGJfdGEsrBJWN',
+  'y6BC3xH2uxCUvSDoxzOzK0PH3ObiNKVwBAWUExTHKyN6Azqpk5PnO+i14Mo13s7mOb53l1sLvIXok6cWYMhOtBpLqMMLFvkdr3Jy',
+  'hkXYgrUXwrrMd+kYa1BdBAkS/jPZzybdqoopGfpU09Ew3ZxUMW9IBdY9j1CSFwtYrLu4KkWpmwDiNKJhtvyXrs+J4+nvW6LZ0Aoc',
+  'sHka5DI4hJe9DDPioCEZQ3RA1Ko+V7cklbJToXhp35aZANXc5ccK/l+1zmWifokG9fQCNtvGOE/upgzNi7Q2ANLAQeBKFVj5QsIU',
+  'JB4+oiejjqK/yubaVAcpohbuiE/pVZKrrjIFzvWMG2WOeEiKq3s0Ychwx2BoOxOGXUI+1/AmeKAoU5Xg7/wF83dAfkjGDPbKvdSv',
+  'LZQ57HtNQLOLwyik3/4q0IE1USoyBST3F1AOsDgIAOxZVsqyGsHSKjZ0tMLr7HBWJXFBjrZts/8HrfD9Z4bsu3r67TGI5jVFpJkB',
+  'Mo5RoBEirNx7TbrIbV/AZ8EQ4KcKK32vMFnuHvPnYi9wntoiLlk8HWcJ+QBMWO5QlWrnc0Z+kOVer7w6yiHyNvgENutgRZaJQArB',
+  'mx4sORBuLPDKCFfGrm09qyWjA4RFMFM2G/5QQQlpv0OK1GlMjQVP46RbQvsVq08deYTZ97XWs0es31m3AIdfvsarQeWEbraUQZ5/',
+  'rgKB3B7UU4iQ3CjBweYsMTV1YC7olOQpIAr/ZmJZlsbZVT9n6CDFdO5uidQLCi7NU1wzr3kKor1cv39V95jIRR3ATmjZajCQ8sfd',
+  '67iY511pWH6IEtNdBrvR4oqO5DzlmASyZNmJwj1c3hglDGPN3uyxXQsLHA11d6nIVDSz6WTtiy6APirGhsFax/roHIOKCLqJ427X',
+  'mYxNQ9XVQLoZtqb9yGEeNKh0Q0fijvGW6s/ahbnqO5Ew3Rh95owkLmAJHaPZ/ZHd8z+iku+KSp2iphztZOvbEKAFq/RjQdg2j7p+',
+  'z81DhpYfR5ZCSImskyXzRx3e4zv1NYSdMkK/GpBhIBXPF2zr95SqD5P5I7iEj4CdvPIMVZdWHId44OiGGRVgA17Lqsgst52S1AHf',
+  'AJBu0s/XxnIck7L9kN7wXiOx/8ugSoVoaYfKOhf5CRE90KP9RyLPhh8FT44caSa+YatOXGET7+GqvZyWKHV6di0BEgooaxNpDcC9',
+  'uRnXEBVyX6zTiPALzIsvHyYI2jIiUc604Gruzzerb/G7DPJZDAV9GMfzdPOUjQ+7xTl1VqrJSlsIov17rMjAIGV6pK/ZxxDMcNtf',
+  'I2ZrStNOiPIEjic9eVJxLF2XaX5x2obyqYHRZbMI5GtP5LtcKq1H4S3kqa6dZu5R0pXHS6zE8Mr5uGifkFfPfwhv9RaOcbb8LBiy',
+  'lN9UZpObqs9kejmxRNpiR85HpjFdUovDwY0w+ATOHc8bUsjgHZf4hUp1/p1IXUg9QF159N9ykQIxPbugcFgN2KmSkWHXdhpYX6vu',
+  'j5U8KRKOcCcPZCaZyqVGyZpiCdMXmXVCsZtVQU5IWBwfJ0Jwz0JkxAG1CyZbDjYaHQJueIk54ZDJ3d9RU2KIe8zZixL5zL5nHATj',
+  'zGJFBGtVTkVQBNTakLBHwcYN9C/NnKwABAeyrRFD/Qh/1o9XDzpYn0LbugM5grDrOnbqbtr8rMMQHR34bMLFgdnfOLu1XnL6mrA6',
+  'BlokLD6/H4JsxN9GNbzq4C+Nj0jIUkhgQeM2flaUYVc0jrpcmksxUiny0+QNKqOwEG0hpL1WgVT5Gl0eoyvzj3igcl506g9IIDcL',
+  'M8ARHCMk2v8SKKErbnSesVgELJY1UgfMzUdZIEDchF8cTGeINc4BfgcM5244ZYvisTSUe5PNqef/76r1EI1KdxQT791NxtAMuEY0',
+  'xysOe/14LK1m74QsSC+y7Yble16zIxd3HRHmxahSE8lNtChcgQMERrPhIor+KU5gaqxxvW2qUAdjLnYj92ddIbLqhMdyx42cJqSv',
+  'OWbZp0BOXpP1z+JTgGX2V3fiEqft2I8Wh/p4G+zAMIZnKzywDGils2608elwKj0DIRVCQWT3PgKHDvp6+dkt+hfQrGzcTAqshhgg',
+  'QTLNkQWLc9cdAG8xVqz82f389c4M3ScoRytlqYFip6L/UCLzp9buRgzPYwgu9Q84Uzbjpq40c2djLgeAdhc2JbQZATG1GWuTCLXd',
+  'kgUsRrtqYbe18CjvNKqtppF048lDWaz3mZrGx4eDvOqdEEK5VH8rBdhsd0h29H9JuoTUHKFk/MXFQOTE1QmmP1Ls/b3c0DNOVsqL',
+  'hzCQKEYTjZ+IlAU+hyfw/i1D5mPAzNCzejoXB1MIcHi84iGUe+zDQm8PpV5RiKIciutQzn16ob2JX7zPsUjtNdql0LnhIvXIjUt3',
+  'xcLY2vLcCi4iQnkMRLeBFS04OxS+5AOr8/5YS4i3N7hoCqfgiZn6aA0Srwwb5OwXumVlRF0gybqMeQdflMmtB+KhiMq0DwHLfV03',
+  'f5iRPertjpEl4d9YCwRKk91tASLcE81lV2flvMYSJn9pdblJoTEVMLCao516p7KrVFMoNJ07xnvwR1MNa93Oew3vfJ1FAxotkPhd',
+  'cJkNdFNGWFQ5VnBOkHvg384p7OGgs1YM2CVd1EHo4mX0gb7lEH4SHFbj9Y/PjErbEfmvSgvE37h9SRFETZ4ZH4KPl63B1aKacwhp',
+  'sejEzAAEktt4DbvsKqiqe25NEdYuC+TXJfhAtrh+/U6GCtvobj9TmGLt2ExXt31JnVZjWCZyXa9sCm93wYh9oWvjzQrQtlrcIvI1',
+  'dPx26kTXx7wzV03mhSy2lG4+pcUdF2zT+2kUxpYohu3CzGyjZjJbF473SqmEqwZc1Ym99sqRtlX2XbZG/eXo/8NaERwbeJlBxcfM',
+  'GZraA8xTuyufZ9ZdaARpNpELOpU2I6XXw4QRdo91CZ3BiOmgvAhpf4AL3/zCmkijzoW/9fLwrjh8cFrLhqEjvUw0hObIgQhBFYqI',
+  '83lSHp4EjoN9y66lBf9hwrXUldY8B3GyNmWlIsrzOcXMetSXoP3Goy1ZrQxzrO2LLyZejHVcLaVDugaHub3ZlXDC4u4M/tEFQaY1',
+  'cDZzaEL4QfoHaC25bWNDLDyYY9npHiposNNGZ2QKq7j/G73KArSSoZZo7sbLFWTVxWPGRRqJ0DFx1jYkItU6qiXpSvoTbl0bLR7f',
+  'iOK8vpRYvUwDIVj4urpxkwykNO9cLIomGims7sCEzlnYdmKb6QGbBoZvvRCXGa7TEh35b5nuCgFQj8MdDglD/L6y14/ux8iABcLY',
+  'F2n89WSLHADuQoRgjLak9BdOnAYdvFThN3GsumJO3YvacCpUcvIRJd9MZr+OzLdMSZvTupRW7/zI1HmhiIyq33nCMEH+sBMTTUgO',
+  'DOL9xGkTH8rCL8PHNso3QXFLt7Mx/Sl4nsceAil5YYSp+p3COXrqI2zL8P0juPHWOQ8ZGYIhOW1F/aYRwSwadxxGeoQrpCFoCrp+',
+  'RdxggXAHvAZVefUPYVr1c0FbFxL5H6up2I4nod+v6QJnXqDCgtXDoPIsD4xHcVHr+KZd4eGLiKmn99a5qK40yRcvkriHS11e4PaX',
+  'IDwjq6TfbKJhAUJI1Q4xDHQP3PoShQn4vjDgouk/6kYvu8kXyK1FDpfymdg6DRkyfI5LXTZiwAEHk8wbqLakbCDfamR03HmnoIuH',
+  'HoUcfkuFK54iwQPI73UtcOUNh1n/mZxOz8HAH/OBnHEyqtwDSw6fxwEDa9hDb8z71eTZCFqKud2oAAPcIz6rCMpIxvA8mE0mYpja',
+  'WTveqXEiqeEJSz3OHW2WZNKny+EKJhmYJ1qWopm32ruMxbxuo86Z6OE+sxL9J/lJH9LdJKvJxDFvpUGO+aNdGrZbO8NYmng2wpRZ',
+  'zB4/dUs1337HN3mO8gWJQiQq8cqBXQPa7/bhzMyvHXd6kGcnhDkBMx9CYpnN5D6yxxwulgFSUeBwLOMXxmPPtWjmgAVlRqm+ENne',
+  '9uzPzoFN2r1EaChkegbLMSxF5ZtuYVeDaEZ1WIZY6wZs4NE/btNp3Q0H0m79ATe2DIh6tX/q7mxdvNWlhYmhSauuBi6gnPzVDkhl',
+  '/4Fw3sLrEw5rGO+qrTiQeMepAMmUzku49+WfgrYKVQYH6x4TdUSv+IuYnq3psyYWPhd6pw1Aw0BqWNiDzQh5E2JF0e1UDxp+gjRO',
+  'FjtkpX/B12JibsjvZ8eb7gRvIzkDLM/R+rm7sDpCJD2KmnG1yDDbT+prTurB4LsA8VAOoHqaYqcOF3ZWRNGxUQ/0Nv0vzm1rlxQ0',
+  'K/5JllBN4Ye74AVjvFe656w7fH89SfKv2nF0JLZyoZQSBUJWvLV2VhCcNR2+otyTbSHlc14aObl12NBF1iEt9vWMIlDAFDEE4kHg',
+  'mrg2QdfiPWPvdTucFUa2RInZshEPyvwAbRNZOk1LULSwdEKLIQxpyOklrxdJM2xsLyyWwVGn3G+TldKQQO51v/ldl85m5DJEf3nA',
+  '5wkDLffrT4B81eUupCng2nSTERHnPHsm+s4PIspwWsyiMjTAbtYfH7AmMqL2Vq2poBtb3Wkj2fw4trSM1XjEUMZM5F7EX6Ows7ws',
+  'h+ZJMwku3PbXg87IeWw5c8su7dUkVbV4pgmqQ41psmXbGVHzMstLLh+vOsOO+agmaDLaK2aDYPolCXoQF+svUhl+Oi3GEzKdGyug',
+  'xmQ949CjTKtztzHzlw8WGKWtBh9fjliWodjHBIdAUgGFQEp8LfaRnHp5lbTcQmESWU4RYaCJJ/mj6iWLHjJcbNMseoKQC0hg+uDj',
+  'dH/kvmuAnRg50o/pITEJeOVdn/KiuzhGfEtc5dv9Dr8u8EFgGPlhL7Elrs4vfEbKuqjVktickig9iWLz48GdXz0v3/vBNlP6RCZ5',
+  'Cld+TqsjHws4uWK6XSBWsBXyaVan5AMe4M1ksY5KWL7PBmGpxKlnyBOapoPscgNzm1MjmVKC1qH4ZqR+VR6Up4yI0xabKp/qNYBZ',
+  'v7vinTrhqU2zy7wiUCPcGgyKnGY/RKk2i8qOG+JUbnQtKbCDLytotZcmy1/vyGpRGTeZ6c0hMj0yCDVicLEq5uXIIb28I1iGAugw',
+  'NsjmeOfNDBYsUMlvrbVzewtq11Z1A+N5OV/9NWLkhY/JNd6ETiLr6zjMjUvZQGCmEUAoVCoGNDaT/gl7jbx90FFXVhtXTS76Mpg5',
+  'keJ57er/a/klwXhy6DKz5XTqzdpDi0a+Qt7k/vv+aB3M+CbtajxfJsPqwV53rDCm2Zo2SAndLxhzv5vEAV8+PeIMAFouV3NCvnHa',
+  '1CxTD5U/cOn8qbxVrO524U82AydHHXDPGAmcGGlqVRirJWv6dZrqAPJB3uzZ/EyZvOJRu+HLjy8h1PCt+zhcyjHorj7oK0NKQGvo',
+  'edNllqkQCG9Hjcb9CCxMTf4zz1dO5DPDsRE+gWaS5ufPSFr0py9CGjPsX4q1+BnX6uKGpla87tdeRhB+8mVYLTCp0Y4eRhqLRvm8',
+  '2HOUXCIlLdnORzhgQZvhWBydbw28EgQEzxHoSkyOokYjWk0DTHI85/umthCBKLoBLtV6lQpHj2htvIcue2hRF5PN7Hy9Ga7k0EQY',
+  'iuM57vfOC4j5fNviTDOkAK+lKw1XgdpOeiWAMJbdWNA/e0yY4+brwaKWgTpzCOZwit6yWwg5OcEkHiMpHaLiQXhC2engo14tQBUs',
+  '15zm4/uwBkwcj825kFCaZgkYGvJme7MfiHuTy0VT0FmrjZavSY5sWoyRlP1QocWw2agBctSP8MmOCz5RsrDspBtYz2rnngbFSosz',
+  '20Wv+A4KijhCB2mxAUM/u17dQ4zpro8Te1Cq5YPunNJuDNLMAZfYSAYpynGXhK1Wq/AltiGZOmTJdITRRdiTyz9nqHJhjpkRiRzq',
+  '3UKFSwpIna/gxphBVopYQYAiyxYmewxVDlsceZJp78Bo7ROqzL5JW0tzvc12H4h+Rz/1Ko5yi+xEj1hZp5qLevGIIab29BqfJfZo',
+  'p4VXT0Mrng8WUkCle2KEd4IEt8GMCOHkgcyB+hd36QRdLsc2pAVM1pueZRjjvUjTKRMzVLVKDGzK/y5PAuAckbDIUbvAwyG6lpcD',
+  '0XKIXkuH+/rOqTZFuCoSdTtISWmwoTavGDla9RDuM8SAnQNHmRyy9fZnuBmF4/SSSIDoEsXCfxQOFQlBpJEAU6m4UyLkF94zIgqN',
+  '4dUFtE9ph6+28LRcoL5XAbenaZgq2lOuDmixesO5Xruh8Y+O3fsNi8ir7b1PBcVPe1umL5cFbKrzaG9v5B0oXYq7KrQtL2uo8uxk',
+  '9m6lypBkgCVJ0YIS8SKF04TzPHATZSVzylmO11KWZTEAaUPs68JnTS7zh+aaMe+psx2j9+9ft+tsMK0f3wwdKi5yxkWEZMUOrLsu',
+  'LOGta6ImSoMfcBFYNOhmxaNzRSS4mtvy20TzqbDbMn06E8ahmVijHl7jFzsWB398fo4eeEr+WaZS5IE3uVojwJY+VyArQa31JxZw',
+  'iCBJCRDiLEOpyWTZVfT1daFu54BntWcLBH0Im4uS7l5mKm7rAdm3HsIG6Tx0w0zPuZMRhgel7PtogCOZU4ddSeZ6lFd3QU4dxLQh',
+  'g8JWbRcaJGi8cU5GD8/q7wCwcQD3rBvZcHCX7NFZXsCNb70q76ds8lkp6WDbWql2g2GEbxi/tYrXX6MojOylOod7+MrjmfOjkZPK',
+  'VGxgOPU/B3XlXNdQ65M5DukKbaQS3h/SkZYbg7Lmv5LbdbOU5yMEjdniDxV8ETIX9TMpDM/f+3L7e23e3aLi0BdE/8EONKYYNZHF',
+  'i2xkxF+nvxwdjaxD5dAt4zNUkfjHO18AlP34z+vTQJCuouxfiVQD970Qm+0qq8jTgVLClDap4q8WTm3glSyg/W0d476NOUMwSZB5',
+  'SLsnwGJL8bBA4j1zH89ZJ9jRI/shj6X1xlvmgXzaLqMS/iHDNKapmaV/3YUHt4KWZ7aK7odpw1DOO6hvdklTvhLHjvxvYDA2t8+9',
+  '41n6IxzYiFqAmpC3RKnU46IXGouIJvlMIIFjEjMvS7m3HOJiyidxZURuNDoG1szgQTCGbqzYGe+yPxJzVr3A2Kj3qlTHm43Ib26z',
+  'KWmgdu4IjL+yTP50EzdozgDYW4DJrGEE3ffGOvN0kiglAVF0KfB+bsUW8hZJ3G2fqmQ0tbs/x5gSQrkvJH9xTQVzAuGUty+lkhmE',
+  'jzm61HEfbIh0xKBbhdxNyaHnzWDUYTi2SjgSGLC3ACUO6g476cWttXgsbhnE9yGWyI/gff4ywWehfsEK5UXk1d0ez/LZxRCQZq+E',
+  'qZaJtIYXsFAClTIRVausqyBevwzg8eDmIDR3lnTqFXidKZXeq2vo2eU2rcbsh3FjrQHSoPdAYXcZP5hRi8NLuqcyQ5nE8FOixd0G',
+  'T8MLIpdTzTSIjTFh50ZeNA2F4R6SHnZZDLAuBRRNY4VKx04LdtHeY98FFXOybPYum8jeGB6/ogJj7MFIouIa49THUWElAYYEN+mu',
+  'Uq+nUEMI0P/mdALsC/A/4cUvGMPZgyXnhBbEDRSvrTOboOlr6IQ6bv7tU88IGO6TD2qgJlqxM2J4GMf6dVkH2tdJR8Hc30Va86n0',
+  'NnT/B2CUmxD9p+kn6o/ITFG5Y2wGimRKdpXYQag3j6iMAEzO2L8COUduKmWqycGorBqogUBfaX5wmTiabWIbCQ1TN+A3s+aUSJPh',
+  'JlJ3GLPeumjAljxF/M34kF5ynV5m7GFCBbKZ1Kr0I3dhsxWqA4z+AOI2kJdi8kRZImnxwOBRHxHh38+N2yzYYNhbyXKSLx/E2RlK',
+  'p7qBSOcFMTR+L84cOFHeT1gSc5GSjCgNWjxHEyTTIxGUiinWE183gdvCWa6rT4utfcfR8RC1AlQeCP/IOpq5XODfzBexUoxFhkZ2',
+  'UUVxOReaimq50sN7YiILNTFnHqeusYzNHBmO3bAQAp7HQFtaBFEerFMBLgviGoyTYOk5fUDWzgErYQg84bxUEzMmQU0IqrvnR0BL',
+  'UprF8G4TgvddRqtElI4FPMT73CgZdygIaBkg5n34IBagtNcIXyi7yDm5Y9ZyahpV9IggUh7q+mHMuzhlLSplPYH4jWNRFKVMHOqe',
+  'SMj6gtZrf8F7A7YgLqM6tKjFcsyn1ZRpqrCtwx32gbwloLlsG5jSX5NYInkkun+9EUrBWPu/JjZy1Tye4nskDa9G27zy86IWecuo',
+  'BXA0oVjmh2sE9UvEkficvUm8RsE8bUoZYrP/YHypucXtWLmqvsfrVaZCjkBkWACcUACaCPUe+PjncKuokWu1bppStlXwdVqqKyog',
+  '6ihBNTRuNVeeFJh3CXtDyLG7f5G3oEp34AwyAn/ZJ66BDZfGwm24H9xQWRidigJKHJ+m5uYNdIZgV9ZY6MslIHI1ZplItHrFMwFa',
+  'nTpxCWCjKqiu8EqPaGhmk9bl6IIFrAxfzHSuQSX5CHMoXGpASU/WSyTkrNVZG67yntuhBoNCtWt3Q8OBIi31pEGO++bqppXaaYXo',
+  'cUDagfQ10f/zDBASGBvrd/GW3w6qFHhReKIZGWYc81G3RPp9UkS+IL+ICStoOIpWIc+N4CvncXB4qLaee626diGUYpnbSsa6L5qh',
+  'sWYMp1ts9muEk14+l9F3UUCOin7UET8236SLnlQrlk4Q3J9XFA3ruVqrSZaOvygcv/sdZ95mCBON1BOWmqmGT3W1aldE4G7R53fK',
+  'x3gcqaEiudhKlE//zwaI4S8OW/2HG1w6SWSnnQWrsn7m88UOyplbqFZ3c8CbBYSTdSaEudKv869dcRnQvU8+4JIQNkJV2N9PVouk',
+  '8zZhOGW2DeOZgQnCY7LQKZIm4agTc+TNr6WjuNTeiNfGARnx8Yaojs+GiicjUWEd8UDgznYFQAr9jG8BeZJYAdTjXgsGOTpPf8kf',
+  'cTIf1k3dkSEyCVwABuPiTxKkF3GCDqyGSw5zbQaUbZXD+zor0DIOuEYdVHV70pvJPwjHwsuBuagz//06WlY+SvbCcMjwkhHtHJPM',
+  'X5p9IxIs4zgPGjI4YZhUansr8RvssI8ukax90yi36b552G5G2RTLPCcwX89t6bF6fEtOZdpQLiRH5RWg76nMOsJ4EaV+U7a5rPWY',
+  'ZU8pJiMoYbU12RLsGxE1qPQxPee9kKr6vsnawnZYQ6BblNbCb8dt50y+wjAlI2cZzjbaV5PcvcR2uDU4iMp7pKdXM0BMOLBiuIKf',
+  'SNnlVKDUMkq2UFsz635q0s3BM4GTWLUe8fetB6Pempbj0JYvxRcRChiqIFQAeNJcAKtItOqKt2m4aK33a6b177orBOZ94lODqA/v',
+  'GaoqbBXIEQYs4HZgQBkubYxkZ3ipW5/Ew3P2qwmxz8kbvBx+qJ5izylFuvpd6XF+ahswrl+UEEPq68QBNGGoPiTG/J/ZVF9IZsM/',
+  '+nmSmZrjM+TVDeDZkcvwwq9HWxOUzhND11RsJlCmxWlopN7YwGKMOnsrkVpll8L6ioqYa4bL6r2H2ahY0pY4z1zDT3h29LgYZhrO',
+  'Am8YBPbZ34bM8molfU2dZ6ujSlbwmydqBYiXYh5769LSlEpYCW3EoQUWTfOnazlyVErE36ojoCXPfB7n+HQ17Xg1Qz4GwI7H8iXW',
+  'fj5Qs5N2XxxnENhKwwtWA3QCXn6YY2jNyeINcEHYOReweV5P3HoXcFVlDVdlqS8rYPp8OQ9uwmFD7TOvBIiHIcgTHPfbHRXhcMCf',
+  'upupcWHQr+2AHjYOvomrV9OJAqli5/JeHMG9VuIkonvvuIlWMSG3FXNImHlcBEgfVSC66+DuaBbLm+8Bf8cMiWHNgaZhWpyxBzrk',
+  'otbkhOg5NR3pf72hI0IDPhuxSqWojB6eFNomOXzj+B5h5LcE0DCn32uljwaYytexnjK0nKQJUGmHuIjl03npkn4VRuGF5LmUhDh8',
+  '3Lsgwp3As4IRi139RHzCZ9SWb1CqPnOSsEvol+qIaRYVWdmVgforM7ImT8XDynZMU+ZAKnzKwDmDJ+kyNK13xOgHd1JEglw/Z+VQ',
+  'HqoEQvr+ps8EOjn//YkaljEnRto3gQ5XLeu/SwIa1ryTnfszRg1qk4DSedckEQKpB6okE227gO4r2Io3Q88/ZnJEQFnbZf5ZGcBk',
+  '/j2BFhXZeOnXOeOgcxcUAsIqikuvDwwCQaAoZEWvdKwguyzsSJPLjoJw5B5EHkMAASxock1p2RNYekfq0NgmriBJNVynSqcxbti9',
+  'ygfGf9lX2Wj2EEeNYqyZUmNaMSMIyjLdZ7c8X3qyA6mMigZaEVc3Xt6tbfJcoM5rdmhyouk3BRbHBfYyj0qmiCt+UJlMDKr/PQ7d',
+  'vkFlvhkP4YO0yBNqRZWOfMJgiry5jKgSQORKX7JlwFAF90mEymSB4cppryTa55HlYjyDlRXZlD/gL5T2CxaxcAXtyLfknVEkD3G4',
+  'ycWTHG/GOMLIAqf9SJn/sbNA9KjFU/mGkRNOnAGAHBRumYHkUFjlCOS7Sf28OyhMaOv8/HPqgF74BnL6vPkl5j3aPsGPbZMkxVbv',
+  'kUbNU0PhlGUvEFvE+bAA87DDNfq8HErnbrtwK3E6u3IG6bLcS4wH2aiYve3gslKkOdLX0OwuFoJWnxJ9Rgqbb4xjQN/eKtkrgqtA',
+  '3YYBKEmtKXhGQb2VEXPzEXoADMRyZ6OMeJyKsKxO3GGHq4093iD5sez7flks7Rp6GYo2sgUYz/LjxfbSoLsdD/fA3MBTaNe4twyz',
+  's901NM9k9CBZzN6vth4q+GNjny64PjnOA1hqMymbKKHnMqCYkHoqtW5gXYSdcuuqNvFT3YrobX2qvf2V5Utgsyt0R+bgalcJYEug',
+  'IF3z02ENZ7/pq4SfpGOcKk5LMo1IqkKBQBlJP9lfDeqnYw86mXWy47wiUru9D8xuRgiltO4rQLARCihvPkSahe0Ll7aF2Y8YCO7p',
+  'AIrTh7OWrPDyTJytQVW8a25M7S4Ac61io+jaPnQDdtQCq+WVkauI6QUlKRrjKP/EG1hq91aY61ONKFZttxmjGGTTsxSLXW69sccs',
+  'Ak+bChJbWom2pc2nHDLWQ8KRKYOz7a9xC+4h+wXoGmfSlFDT1VBVlUrvM2ljuelliMbELkpFpvj9lv9rY86YAVJnTlax/c1LL22X',
+  '06Qjk6Kikloc4E0ZIkK9f23FqL/H+XmBMvQzY9RLxBJor4GcsW9z7G8xGbT7HTwRKr/LUcy7vwc0GbxzPHCeNzT0f5pVeatIAIe6',
+  'uAQz8pIc+7s2zt4oHlY31EJ3agcIJgPfcdJf5mf0bpF1Nd7C6K4jvG7NVrSXo5E8P7pNKxcah/23t3jK/DPKvDXVazdBGKSrs3V1',
+  'TBvNYHlT/Pn1stQgifJhr3NI6JiSWpW4nMlVqD+GYvH5vPqnHw54BVPRTuZci7GCpyyNBwxCUw7N0aFCP46Lqcn9j8iyBHesFB3x',
+  'XQ86OTiGTZl/NesgwXaKvzcOqTPHWR7EA+LEJKJ8hxvJMBnWyRtxM/P17MyO7MzDIlvSxWKqoSUx46em0u6MOWqjEnEmwFILAzqb',
+  'OIHk1FrKE0Hv8chfDAOtbvWon2ZrUCE8xTUG0p3bB6fyHINbLSH/iS8XHJU3cooONCuf0m7F0oCTon3ZvWp9FfdURLEhLNUBBcw9',
+  '88bhblRA6mDAyfBDd8LNlcE2eHStqx+DTup0huikqMz2y+oYGhzbXVB+o78WvC68yqgE411l+akcwniY+iTjV+teM1dsAvB5mn8v',
+  'CwNlxpIg2QrL6wVwSdLBzWHeZZalAJoF1fsYnz4DbANm6V8D+oOgd40oZWc/S4bS9gFqo6GiaUG/d9ghHKmrygQi5ytSjyi9P/jR',
+  'sLIVlIwiLOhVxXKKkki04mn32HDvmyj/FJjSHFt08jIR47bS+Z5KQlsdCfoPkl70Tr8q1Rn7AhvwU7d2ncGFHQXtmaatbp7loVU3',
+  'sGsOb2Z2q+CDdCCui0gQOnRdM/48bRJkLsYelDSRMt9VWlZjx9rZcg8uEuKk+pLj7kSQQo4+Q0/Tzs0d8mCZGc5fPAkmRYzDrBs/',
+  'Wlu3YFc7nfqaacLZW4iXjpSao2G01lBQf/LgT2QPj+WhVYG/C+JR9cDosRsYetgXTOJwpDJYCJxhV4y8nkH+Yj/iT7rOr007c4zO',
+  'LtgXFqBSnqduvEkdg4tp86jIZLY4e6cKteUmXS2BZxSEF8R87LlObG+A9izUz3mHHa+r35xQnrycTKzsmRfNFuMLIRpZDILICzQa',
+  '+m7ot26zCKzjFrz9b+ttauvvA9WZs+Vpe0X2llxBWy/TE4QFCtUcwcia17kV55lhPWmisVh9j+36NFj1dk3SYwR9L5VmZ0V23E20',
+  'kSRE8CsO6Kxxd7B8TN/H4Qi4CChgtjZRZ0laugqOk24nJoCJBgrWLJr7N4r3TR8pBzGgRkDNniFqFDdEAjRnZt0qIe1jyckYOdV1',
+  'cxcKFS7SMRBMCQNKGm1BF/em+GohoqbMMCgBig0E53z9WKnhs2/gAGX5MVMiXrVpr4jysAD4VFKCEXkWCq0ahDUprFXvoSNUUaMl',
+  'XT3jELLle4PpDk1YrnK9y0EgMw2tiJXcCh7O5vFTSoCQD0zUAU0lLPmIrALTiQSSGWx9N9WRzi0P2666Xz7D+SVdiDjwbMcNbRYN',
+  'c/g99wWTFbGV7CLVKcFpk8zTD9esIxNBSY8bqZNxLtEMkVQUaZRB1DAIwm4vPSx1GiaTkXeYBQJ5RKBKs6xirDXiE7irfMLv1i7j',
+  'gHtGESmkOIukm8mIvZQzI24FUQwast5rZiBAVtdSHRMWkg0VFc2fCKc2gIya+aO8v6LVyDMcnmZDQZg5pyRsVE5Kor2uzcpBB3dU',
+  'YIwVN+eR9AcFYhGSioUVnlPxHhX8utcpzFpixtbX6VaX2WgWrpGmNrWkRRmKtt9/7jhBpAh6phraRxt0Y/EYk/eR70TNUI0+8yp6',
+  'Fatswjk03ruxXQAGryKn/sGuKN3oGpT4Kd1X7PkFjHjZdLXyDNxTA2Gngy5ajyOvuhI7tE4qj1ruGbwOPmPxmeB9hYxwmNJSI8oB',
+  '5S1zxAoej5tAqvoAWo8jN60MfBnA3Do+TFj5rB0AnghcDZHebgZTBRZyq7rhynHPMpyz+APt4ds6J020DM9T9vlpoGcSTi7Nge5d',
+  '+yJnAJzsUGkpG5vD55Nmm4C8Pq4o7SIh9+HzEqJDGU3BLmEi3bSa0BWEOvZYbgp5ph2LMHsMmIaL79CnXFoGnvG+TgYedSmG2rru',
+  'HGIH1r5Q6BM/uM+d9GrktllZqupl0TyW1Bv4IafQlenrP3w5yNsbMYXGYBjK2cYYJw4tXT6a0boA/yopS9zCBAdpmB1UAcoilYzc',
+  'MUxunFuZsSAHx0mmlSwZSFy7SIHdlc096mszDgIAJA4Et7lVMBKFsAuSWWcC7V5Nqz/7IO6HgADaijQWlRAJRUOIPhNA/VueEU1Y',
+  '5Mknl2GF43Gyk4+MNtsno6quh/WXUStd85/ZoJDVm9IxiUKzFoUAq5FHVo7YURUttGRUe9BrwnaV9rgBydjGCYfkyaT+gogy8xWI',
+  'eZd9fw5x+qDDSnDKyt70AVXxq/nzi8mPrgSn+PiBATvOjaiXbag6OEThyCOH6yULHZBnZthO83plDbjpuKY3CF+RaBxoigcIzK7T',
+  '4SwE/wxJKdc9+eMB5+bPCLadvFI4pTEMWfEThKwKx5gZM+yVl5IXXhtwwJKbl9j9FItcruqszvKrwDE1tGZrKp9bu1Kr5ubDnQfY',
+  'i1WNXr/m8YnEZdSUUo6V6g89zlbdoWhkzFlo6/GmJ2FWxtlFohThEQ3G48ahAyFva7Q341z3p7pTTmNGZYcB1z54kb6cJqeSj6Rp',
+  'UrBVXVqj5Ae1Pyax5KOIdWK5PwU584lOW1WsHrsG3+y1xT9k+A7r+iDGsylrGnpIhH1TtoOANDc5dQMaOAFgtqlZar2ZhfDvfenF',
+  'Adj9pI7LvcCZ1KDBsAHjCsboZBGWCPVA5GkRTxS/pcalBR7/tGmMmtFT5oxYUAGfH1V26WBqpBBYSYVUTCRODX6xcRkK9moLp/Hs',
+  'IRRulA9RI0L0Ii93JrdVy1uCUVxD0xAlt7e+QLJXiZL5PE2RMsme/FQtu8b5K5lvE+UhiFnuVjbxp4CySIq+1Mzk5+jj7HB7dZ1e',
+  '+31YOoCpozwuaJb8ARYDSqr4/SnFVe4MeJBTAyysiJMEfQ4Uw+nzYu+4xmCjz0Ik384DfOI4CE7YRH9b0tPoEPwK9TPqAsnB1DbG',
+  'rfYQg1H7xYGbpkVDBCxPJ4Y98+WYabD7uDCpmHnIVQ/u3eiUb0A74g9YiWrsOX1wKE++SaJopMdsKjiyOKrWhXGJGSIlJtMiQht2',
+  'hP9OsiBsgp7Pm2R7/EMjUWShwcTCaY9fTQoydTxMy2B1fPdsMpAMS55gv6ioV9jaJp4zxJYdTmJfl6hKkE88DpoHnYH3Fw1N2609',
+  '0ie5EQRsD53QZlUttzh/wLKHkc8EADDJzixBtz8BZKqCYJlVPw87g39xNOfDSdUMw7yhqEyHHYym+4u40sweT1AZBmQNd0UB6c33',
+  'FkQKEzSIHxinrxs8On6575lqZkD0TVcVA61hBqOyPfbGdxU+/+is1AoLbLuoMv25pHOWm1QAeDl2sADeIyIHGRRv8BRWCSPtrnCf',
+  'Crljki+N6ykls2QZACBHvB1Z89sjrwuasb3yD80Jx6lbOb0zm3BAUhNrXs7VzpV4L4sN3FtwdvdXFupncO7MnSwxytsYKLDXId3O',
+  'Wdyzwe6ae3G8er2JZ4cTAS1HITIll1FHPshQD+uMLmZZK2SWBayJsbABTGvGEqPFoIYp1+IykWwSDuPQFmutnQYC/ZYLAylkzBTD',
+  'YFdI332zqRJ7mMl970Vfl6ovLPbK2dUS7FAvvPuzkzNI1n6r3OjaNtoZCiHDaa3XCuTzvD6H4UHHt5MH0J5hXnNsaAy0hgnJi4Hh',
+  'BgzQabYYZ4tgLzqHjSQeIn8+',
+].join('');
+
+export const BREACHED_PASSWORDS = createBloomFilter(BITS, BIT_COUNT, HASH_COUNT);
@@ -0,0 +1,105 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import Constants from 'expo-constants';
+import { Platform } from 'react-native';
+import { supabase } from '../config/supabase';
+import { UserDevice } from '../types';
+
+const DEVICE_ID_KEY = 'device_id';
+
+export class DeviceService {
+  /**
+   * Get the persistent identifier for this app install, creating it on first use
+   */
+  static async getDeviceId(): Promise<string> {
+    const existing = await SecureStore.getItemAsync(DEVICE_ID_KEY);
+    if (existing) {
+      return existing;
+    }
+
+    const deviceId = Crypto.randomUUID();
+    await SecureStore.setItemAsync(DEVICE_ID_KEY, deviceId);
+    return deviceId;
+  }
+
+  /**
+   * Get a human readable label for this device
+   */
+  static getDeviceName(): string {
+    const platformName = Platform.OS === 'ios' ? 'iOS' : Platform.OS === 'android' ? 'Android' : Platform.OS;
+    return `${platformName} ${Platform.Version}`;
+  }
+
+  /**
+   * Record this device against the current session (called after sign-in).
+   * A session on a device that was signed out from elsewhere is ended here.
+   */
+  static async registerCurrentDevice(): Promise<void> {
+    try {
+      const deviceId = await this.getDeviceId();
+      const { error } = await supabase.rpc('register_user_device', {
+        p_device_id: deviceId,
+        p_device_name: this.getDeviceName(),
+        p_platform: Platform.OS,
+        p_app_version: Constants.expoConfig?.version ?? null,
+      });
+
+      if (error) {
+        // The server refuses sessions from before the device was revoked
+        if (error.code === '28000') {
+          await supabase.auth.signOut();
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error('Error registering device:', error);
+    }
+  }
+
+  /**
+   * List the active devices/sessions for the signed-in user
+   */
+  static async getDevices(): Promise<UserDevice[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_user_devices');
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching devices:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sign out a single device and disable its biometric login
+   */
+  static async revokeDevice(deviceId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('revoke_user_device', {
+        p_device_id: deviceId,
+      });
+
+      if (error) throw error;
+      return data === true;
+    } catch (error) {
+      console.error('Error revoking device:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sign out every device except this one
+   */
+  static async revokeOtherDevices(): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('revoke_other_user_devices');
+
+      if (error) throw error;
+      return data || 0;
+    } catch (error) {
+      console.error('Error revoking other devices:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { supabase } from '../config/supabase';
+
+export class EmailChangeService {
+  /**
+   * Start a change to newEmail. The server records the request against the
+   * change_email step-up token, then the auth server emails a code to both
+   * the current and the new address.
+   */
+  static async requestChange(newEmail: string, stepUpToken: string): Promise<void> {
+    const email = newEmail.trim().toLowerCase();
+
+    const { error: requestError } = await supabase.rpc('begin_email_change', {
+      p_new_email: email,
+      p_step_up_token: stepUpToken,
+    });
+
+    if (requestError) {
+      console.error('Error starting email change:', requestError);
+      throw new Error(requestError.message);
+    }
+
+    const { error } = await supabase.auth.updateUser({ email });
+
+    if (error) {
+      console.error('Error requesting email change:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Confirm the code sent to one of the two addresses. The email switches
+   * once both codes are confirmed.
+   */
+  static async confirmCode(email: string, code: string): Promise<void> {
+    const { error } = await supabase.auth.verifyOtp({
+      email: email.trim().toLowerCase(),
+      token: code,
+      type: 'email_change',
+    });
+
+    if (error) {
+      console.error('Error confirming email change code:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Send both codes again for the pending change
+   */
+  static async resendCodes(newEmail: string): Promise<void> {
+    const { error } = await supabase.auth.resend({
+      type: 'email_change',
+      email: newEmail.trim().toLowerCase(),
+    });
+
+    if (error) {
+      console.error('Error resending email change codes:', error);
+      throw new Error(error.message);
+    }
+  }
+}
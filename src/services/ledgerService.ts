@@ -0,0 +1,38 @@
+import { supabase } from '../config/supabase';
+import { Asset, LedgerEntry, LedgerSourceType, Money } from '../types';
+import { toMoney } from './money';
+
+/**
+ * Available balance right after the latest entry posted for a deposit,
+ * withdrawal or transfer, or null if nothing has been posted for it yet.
+ * Expects entries newest first, as getHistory returns them.
+ */
+export const getBalanceAfter = (
+  entries: LedgerEntry[],
+  asset: Asset,
+  sourceType: LedgerSourceType,
+  sourceId: string
+): Money | null => {
+  const entry = entries.find(
+    (e) => e.source_type === sourceType && e.source_id === sourceId && e.account === 'available'
+  );
+  return entry ? toMoney(entry.available_balance, asset) : null;
+};
+
+export class LedgerService {
+  /**
+   * The user's ledger entries for one asset, newest first, each with the
+   * running balances behind it
+   */
+  static async getHistory(asset: Asset): Promise<LedgerEntry[]> {
+    const { data, error } = await supabase.rpc('get_ledger_history', {
+      p_asset: asset,
+    });
+
+    if (error) {
+      console.error('Error fetching ledger history:', error);
+      return [];
+    }
+    return data || [];
+  }
+}
@@ -0,0 +1,55 @@
+import { supabase } from '../config/supabase';
+import { LoginStatus } from '../types';
+
+// What sign-in fails with when the password is right but the account is
+// locked (see hook_password_verification_attempt)
+export const ACCOUNT_LOCKED_MESSAGE = 'This account is locked';
+
+export class LoginSecurityService {
+  /**
+   * Lockout/throttle status of the signed-in account. Before sign-in it
+   * always reports an unlocked account, whatever the email.
+   */
+  static async getLoginStatus(email: string): Promise<LoginStatus | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_login_status', {
+        p_email: email,
+      });
+
+      if (error) throw error;
+      return data as LoginStatus;
+    } catch (error) {
+      console.error('Error fetching login status:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Reset the failed attempt counter once every login step has passed
+   */
+  static async recordLoginSuccess(): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('record_login_success');
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error recording login success:', error);
+    }
+  }
+
+  /**
+   * Unlock the signed-in account. An authenticator or backup code is required
+   * when 2FA is enabled.
+   */
+  static async unlockAccount(otp?: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('unlock_account', {
+      otp: otp ?? null,
+    });
+
+    if (error) {
+      console.error('Error unlocking account:', error);
+      throw new Error(error.message);
+    }
+    return data === true;
+  }
+}
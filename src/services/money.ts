@@ -0,0 +1,112 @@
+import { Asset, DecimalValue, Money } from '../types';
+
+// Decimal places stored in the database and the ledger
+export const ASSET_DECIMALS: Record<Asset, number> = {
+  PKR: 2,
+  USDT: 8,
+};
+
+// Decimal places a user can type. USDT tokens settle with 6 decimals on
+// TRC20, so finer amounts couldn't be sent anywhere.
+export const INPUT_DECIMALS: Record<Asset, number> = {
+  PKR: 2,
+  USDT: 6,
+};
+
+// Decimal places shown. USDT drops trailing zeros down to the minimum, and
+// digits past the maximum are cut rather than rounded so a balance is never
+// shown as more than it is.
+const DISPLAY_DECIMALS: Record<Asset, { min: number; max: number }> = {
+  PKR: { min: 2, max: 2 },
+  USDT: { min: 2, max: 6 },
+};
+
+// Amounts are typed and shown as 1,234.5 whatever the device locale, so
+// parseMoney reads back exactly what formatMoney writes
+const GROUP_SEPARATOR = ',';
+const DECIMAL_SEPARATOR = '.';
+
+// Plain digits, or digits grouped in threes with commas, and an optional fraction
+const AMOUNT_PATTERN = /^(\d+|\d{1,3}(,\d{3})+)(\.(\d+))?$/;
+
+const fromParts = (whole: string, fraction: string, asset: Asset, negative = false): Money => {
+  const decimals = ASSET_DECIMALS[asset];
+  const units = BigInt(whole + fraction.padEnd(decimals, '0'));
+  return {
+    asset,
+    units: negative ? -units : units,
+  };
+};
+
+/**
+ * Parse what the user typed, e.g. "1,250.50". Returns null for anything that
+ * isn't a plain non-negative amount with at most the asset's input decimals:
+ * no signs, exponents, stray separators or extra digits to round away.
+ */
+export const parseMoney = (input: string, asset: Asset): Money | null => {
+  const match = AMOUNT_PATTERN.exec(input.trim());
+  if (!match) return null;
+
+  const fraction = match[4] || '';
+  if (fraction.length > INPUT_DECIMALS[asset]) return null;
+
+  return fromParts(match[1].replace(/,/g, ''), fraction, asset);
+};
+
+/**
+ * An amount from the database or a constant. Numeric columns arrive as JSON
+ * numbers; every balance we hold is well inside the range a double
+ * represents exactly at the asset's precision, so rounding to it recovers
+ * the stored value. Ledger amounts are signed, so a leading '-' is kept.
+ */
+export const toMoney = (value: DecimalValue | null | undefined, asset: Asset): Money => {
+  if (value === null || value === undefined) return zeroMoney(asset);
+
+  const text = typeof value === 'number' ? value.toFixed(ASSET_DECIMALS[asset]) : value.trim();
+  const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(text);
+  if (!match || (match[3] || '').length > ASSET_DECIMALS[asset]) {
+    throw new Error(`Invalid ${asset} amount: ${value}`);
+  }
+  return fromParts(match[2], match[3] || '', asset, match[1] === '-');
+};
+
+export const zeroMoney = (asset: Asset): Money => ({ asset, units: BigInt(0) });
+
+/**
+ * Exact decimal string for RPC arguments and inserts, e.g. "1250.50"
+ */
+export const toDecimalString = (money: Money): string => {
+  const decimals = ASSET_DECIMALS[money.asset];
+  const sign = money.units < BigInt(0) ? '-' : '';
+  const magnitude = sign ? -money.units : money.units;
+  const digits = magnitude.toString().padStart(decimals + 1, '0');
+  return `${sign}${digits.slice(0, -decimals)}.${digits.slice(-decimals)}`;
+};
+
+export const compareMoney = (a: Money, b: Money): number => {
+  if (a.asset !== b.asset) {
+    throw new Error(`Cannot compare ${a.asset} with ${b.asset}`);
+  }
+  return a.units === b.units ? 0 : a.units > b.units ? 1 : -1;
+};
+
+export const isZeroMoney = (money: Money): boolean => money.units === BigInt(0);
+
+/**
+ * Amount for display, e.g. "1,250.50", "-40.00", or "0.125" for USDT. No
+ * currency symbol; screens add their own.
+ */
+export const formatMoney = (money: Money): string => {
+  const decimal = toDecimalString(money);
+  const sign = decimal.startsWith('-') ? '-' : '';
+  const [whole, fraction] = decimal.slice(sign.length).split('.');
+  const { min, max } = DISPLAY_DECIMALS[money.asset];
+
+  let shown = fraction.slice(0, max);
+  while (shown.length > min && shown.endsWith('0')) {
+    shown = shown.slice(0, -1);
+  }
+
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, GROUP_SEPARATOR);
+  return sign + (shown ? `${grouped}${DECIMAL_SEPARATOR}${shown}` : grouped);
+};
@@ -0,0 +1,80 @@
+import { supabase } from '../config/supabase';
+import { NewDeviceAlert } from '../types';
+
+// Deep link in the new-device email's "This wasn't me" button
+export const SECURE_ACCOUNT_URL = 'coinsensei://secure-account';
+
+export class NewDeviceAlertService {
+  /**
+   * Open alerts for sign-ins on the user's other devices
+   */
+  static async getOpenAlerts(): Promise<NewDeviceAlert[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_new_device_alerts');
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching new device alerts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * "It was me": dismiss the alert
+   */
+  static async confirm(alertId: string): Promise<void> {
+    const { error } = await supabase.rpc('confirm_new_device_login', {
+      p_alert_id: alertId,
+    });
+
+    if (error) {
+      console.error('Error confirming new device:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * "This wasn't me": sign that device out and lock the account.
+   * Returns false if the alert was already handled.
+   */
+  static async report(alertId: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('report_new_device_login', {
+      p_alert_id: alertId,
+    });
+
+    if (error) {
+      console.error('Error reporting new device:', error);
+      throw new Error(error.message);
+    }
+    return data === true;
+  }
+
+  /**
+   * Same as report, from the emailed link (no session needed). Returns the
+   * account email for the password reset, or null for a used/expired link.
+   */
+  static async reportWithToken(token: string): Promise<string | null> {
+    const { data, error } = await supabase.rpc('report_new_device_login_by_token', {
+      p_token: token,
+    });
+
+    if (error) {
+      console.error('Error reporting new device:', error);
+      throw new Error(error.message);
+    }
+    return data ?? null;
+  }
+
+  /**
+   * Pull the token out of a "This wasn't me" link. Returns null for any other URL.
+   */
+  static parseSecureAccountUrl(url: string): string | null {
+    if (!url.startsWith(SECURE_ACCOUNT_URL)) {
+      return null;
+    }
+
+    const match = url.match(/[?&]token=([0-9a-f]+)/);
+    return match ? match[1] : null;
+  }
+}
@@ -0,0 +1,112 @@
+import { BREACHED_PASSWORDS } from './breachedPasswords';
+
+// Password rules shared by sign-up, change password and password reset.
+// Mirrors password_policy_violation() in create_password_policy.sql, which
+// enforces the same rules server-side - change both together.
+
+export const PASSWORD_MIN_LENGTH = 10;
+export const PASSWORD_MAX_LENGTH = 128;
+const MIN_CHARACTER_CLASSES = 3;
+
+export interface PasswordContext {
+  email?: string | null;
+  fullName?: string | null;
+}
+
+export interface PasswordStrength {
+  score: 0 | 1 | 2 | 3 | 4;
+  bits: number;
+  label: string;
+  color: string;
+}
+
+const CHARACTER_CLASSES = [
+  { pattern: /[a-z]/, size: 26 },
+  { pattern: /[A-Z]/, size: 26 },
+  { pattern: /[0-9]/, size: 10 },
+  { pattern: /[^a-zA-Z0-9]/, size: 33 },
+];
+
+const countCharacterClasses = (password: string) =>
+  CHARACTER_CLASSES.filter(c => c.pattern.test(password)).length;
+
+// Pieces of the email and name that must not appear in the password
+const getPersonalTokens = ({ email, fullName }: PasswordContext): string[] => {
+  const tokens: string[] = [];
+  const localPart = email?.trim().split('@')[0];
+  if (localPart) {
+    tokens.push(localPart, ...localPart.split(/[^a-zA-Z0-9]+/));
+  }
+  if (fullName) {
+    tokens.push(...fullName.trim().split(/\s+/));
+  }
+  return tokens.map(t => t.toLowerCase()).filter(t => t.length >= 3);
+};
+
+// "Summer2024!" is as guessable as "summer": also check the word without the
+// digits and symbols around it
+const isBreached = (password: string) => {
+  const lower = password.toLowerCase();
+  const core = lower.replace(/^[^a-z]+|[^a-z]+$/g, '');
+  return BREACHED_PASSWORDS.has(lower) || (core.length >= 4 && BREACHED_PASSWORDS.has(core));
+};
+
+/**
+ * The first rule the password breaks, as a message for the user, or null if it passes
+ */
+export const getPasswordPolicyError = (password: string, context: PasswordContext = {}): string | null => {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters long`;
+  }
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    return `Password must be at most ${PASSWORD_MAX_LENGTH} characters long`;
+  }
+  if (countCharacterClasses(password) < MIN_CHARACTER_CLASSES) {
+    return 'Password must use at least 3 of: lowercase letters, uppercase letters, numbers and symbols';
+  }
+
+  const lower = password.toLowerCase();
+  if (getPersonalTokens(context).some(token => lower.includes(token))) {
+    return 'Password must not contain your name or email address';
+  }
+  if (isBreached(password)) {
+    return 'This password has appeared in data breaches. Please choose a different one';
+  }
+  return null;
+};
+
+/**
+ * Estimated entropy in bits: character pool size per character, not counting
+ * characters that repeat or continue a run (aaa, abc, 321) from the previous one
+ */
+export const estimatePasswordEntropy = (password: string): number => {
+  if (!password) return 0;
+
+  const poolSize = CHARACTER_CLASSES
+    .filter(c => c.pattern.test(password))
+    .reduce((sum, c) => sum + c.size, 0);
+
+  let effectiveLength = 1;
+  for (let i = 1; i < password.length; i++) {
+    const step = password.charCodeAt(i) - password.charCodeAt(i - 1);
+    if (Math.abs(step) > 1) effectiveLength++;
+  }
+
+  return Math.round(effectiveLength * Math.log2(poolSize));
+};
+
+/**
+ * Strength meter for the password fields. Anything that fails the policy is
+ * capped at Weak, however long it is.
+ */
+export const getPasswordStrength = (password: string, context: PasswordContext = {}): PasswordStrength => {
+  if (!password) return { score: 0, bits: 0, label: '', color: '#94a3b8' };
+
+  const bits = estimatePasswordEntropy(password);
+  if (getPasswordPolicyError(password, context) || bits < 40) {
+    return { score: 1, bits, label: 'Weak', color: '#ef4444' };
+  }
+  if (bits < 60) return { score: 2, bits, label: 'Fair', color: '#f59e0b' };
+  if (bits < 80) return { score: 3, bits, label: 'Good', color: '#09d2fe' };
+  return { score: 4, bits, label: 'Strong', color: '#10b981' };
+};
@@ -0,0 +1,61 @@
+import { supabase } from '../config/supabase';
+
+// Deep link the reset email sends the user back to (scheme is set in app.json)
+export const PASSWORD_RESET_REDIRECT_URL = 'coinsensei://reset-password';
+
+export class PasswordResetService {
+  /**
+   * Email a password reset link to the given address
+   */
+  static async requestReset(email: string): Promise<void> {
+    const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+      redirectTo: PASSWORD_RESET_REDIRECT_URL,
+    });
+
+    if (error) {
+      console.error('Error requesting password reset:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pull the recovery session tokens out of a reset deep link.
+   * Returns null for any other URL.
+   */
+  static parseRecoveryUrl(url: string): { accessToken: string; refreshToken: string } | null {
+    if (!url.startsWith(PASSWORD_RESET_REDIRECT_URL)) {
+      return null;
+    }
+
+    // Supabase puts the tokens in the fragment: #access_token=...&refresh_token=...&type=recovery
+    const fragment = url.split('#')[1] || url.split('?')[1] || '';
+    const params: Record<string, string> = {};
+    fragment.split('&').forEach((pair) => {
+      const [key, value] = pair.split('=');
+      if (key) params[key] = decodeURIComponent(value || '');
+    });
+
+    if (params.type !== 'recovery' || !params.access_token || !params.refresh_token) {
+      return null;
+    }
+
+    return { accessToken: params.access_token, refreshToken: params.refresh_token };
+  }
+
+  /**
+   * Set the new password from the recovery session. Returns false when the
+   * 2FA code is wrong; throws for anything else (expired link, weak password).
+   */
+  static async completeReset(newPassword: string, otp?: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('complete_password_reset', {
+      p_new_password: newPassword,
+      p_otp: otp ?? null,
+    });
+
+    if (error) {
+      console.error('Error completing password reset:', error);
+      throw new Error(error.message);
+    }
+    return data === true;
+  }
+}
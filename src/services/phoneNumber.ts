@@ -0,0 +1,42 @@
+// Pakistani mobile numbers. Stored in E.164 (+923001234567), shown as
+// +92 300 1234567. issue_sms_code in create_phone_verification.sql accepts
+// only the stored form.
+
+const PK_MOBILE_PATTERN = /^3\d{9}$/;
+
+/**
+ * E.164 form of a Pakistani mobile number typed in any of the usual ways
+ * (0300 1234567, 300-1234567, +92 300 1234567, 0092300...), or null
+ */
+export const normalizePakistaniPhone = (input: string): string | null => {
+  let digits = input.replace(/\D/g, '');
+
+  if (digits.startsWith('0092')) {
+    digits = digits.slice(4);
+  } else if (digits.startsWith('92') && digits.length === 12) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith('0')) {
+    digits = digits.slice(1);
+  }
+
+  return PK_MOBILE_PATTERN.test(digits) ? `+92${digits}` : null;
+};
+
+/**
+ * +92 3XX XXXXXXX for display. Partial input is formatted as far as it goes,
+ * so this also works as the text input's formatter.
+ */
+export const formatPakistaniPhone = (input: string): string => {
+  const digits = input.replace(/\D/g, '').replace(/^(0092|92|0)/, '').slice(0, 10);
+  if (!digits) return '+92 ';
+  if (digits.length <= 3) return `+92 ${digits}`;
+  return `+92 ${digits.slice(0, 3)} ${digits.slice(3)}`;
+};
+
+/**
+ * +92 3XX •••• 567, for telling the user where a code went
+ */
+export const maskPakistaniPhone = (phone: string): string => {
+  const digits = phone.replace(/\D/g, '').replace(/^92/, '');
+  return `+92 ${digits.slice(0, 3)} •••• ${digits.slice(-3)}`;
+};
@@ -0,0 +1,84 @@
+import { supabase } from '../config/supabase';
+
+type SmsCodePurpose = 'verify_phone' | 'second_factor';
+
+const sendSmsCode = async (purpose: SmsCodePurpose, phoneNumber?: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke('send-sms-otp', {
+    body: { purpose, phoneNumber },
+  });
+
+  if (error) {
+    console.error('Error sending SMS code:', error);
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || 'Failed to send the code. Please try again.');
+  }
+};
+
+export class PhoneVerificationService {
+  /**
+   * Text a code to a number being added to the account (E.164 form)
+   */
+  static async sendVerificationCode(phoneNumber: string): Promise<void> {
+    await sendSmsCode('verify_phone', phoneNumber);
+  }
+
+  /**
+   * Confirm the code; the server then saves the number as verified.
+   * Replacing an already verified number needs a change_phone step-up token.
+   * Returns false for a wrong or expired code.
+   */
+  static async verifyCode(code: string, stepUpToken?: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('verify_phone_code', {
+      p_code: code,
+      p_step_up_token: stepUpToken ?? null,
+    });
+
+    if (error) {
+      console.error('Error verifying phone code:', error);
+      throw new Error(error.message);
+    }
+    return data === true;
+  }
+
+  /**
+   * Text a second-factor code to the verified number. It only completes the
+   * sign-in second factor (verifySecondFactorCode); step-up actions still
+   * need an authenticator or backup code.
+   */
+  static async sendSecondFactorCode(): Promise<void> {
+    await sendSmsCode('second_factor');
+  }
+
+  /**
+   * Check an SMS code at the sign-in second-factor step. Wrong codes count
+   * toward the login lockout. Returns false for a wrong or expired code.
+   */
+  static async verifySecondFactorCode(code: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('verify_sms_second_factor', {
+        p_code: code,
+      });
+
+      if (error) throw error;
+      return data === true;
+    } catch (error) {
+      console.error('Error verifying SMS code:', error);
+      return false;
+    }
+  }
+
+  /**
+   * The signed-in user's verified number, or null if there is none
+   */
+  static async getVerifiedPhone(): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_verified_phone');
+
+      if (error) throw error;
+      return data ?? null;
+    } catch (error) {
+      console.error('Error fetching verified phone:', error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import * as FileSystem from 'expo-file-system';
+import { supabase } from '../config/supabase';
+
+// Mirrors user_profile_username_format in create_profile_editing.sql
+const USERNAME_PATTERN = /^[a-z0-9_]{3,20}$/;
+const CNIC_PATTERN = /^\d{5}-\d{7}-\d$/;
+const DOB_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ProfileUpdate {
+  full_name?: string;
+  username?: string | null;
+  address?: string | null;
+  cnic_number?: string | null;
+  dob?: string | null;
+  avatar_url?: string | null;
+}
+
+/**
+ * Why a username can't be used, or null if its format is fine
+ */
+export const getUsernameError = (username: string): string | null => {
+  if (!USERNAME_PATTERN.test(username)) {
+    return 'Usernames are 3-20 characters: lowercase letters, numbers and underscores';
+  }
+  return null;
+};
+
+export const getCnicError = (cnic: string): string | null =>
+  CNIC_PATTERN.test(cnic) ? null : 'CNIC must be in the format 12345-1234567-1';
+
+export const getDobError = (dob: string): string | null => {
+  const date = new Date(dob);
+  if (!DOB_PATTERN.test(dob) || isNaN(date.getTime())) {
+    return 'Date of birth must be in the format YYYY-MM-DD';
+  }
+  if (date > new Date()) {
+    return 'Date of birth cannot be in the future';
+  }
+  return null;
+};
+
+/**
+ * 12345-1234567-1 as the user types
+ */
+export const formatCnic = (input: string): string => {
+  const digits = input.replace(/\D/g, '').slice(0, 13);
+  if (digits.length <= 5) return digits;
+  if (digits.length <= 12) return `${digits.slice(0, 5)}-${digits.slice(5)}`;
+  return `${digits.slice(0, 5)}-${digits.slice(5, 12)}-${digits.slice(12)}`;
+};
+
+export class ProfileService {
+  /**
+   * Whether nobody else has taken the username (case-insensitive)
+   */
+  static async isUsernameAvailable(username: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('is_username_available', {
+      p_username: username,
+    });
+
+    if (error) {
+      console.error('Error checking username:', error);
+      throw new Error(error.message);
+    }
+    return data === true;
+  }
+
+  /**
+   * Upload a cropped avatar, replacing the previous one, and return its URL.
+   * The URL carries a version so cached copies of the old image are skipped.
+   */
+  static async uploadAvatar(userId: string, imageUri: string): Promise<string> {
+    const base64 = await FileSystem.readAsStringAsync(imageUri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+
+    const fileName = `${userId}/avatar.jpg`;
+    const { error } = await supabase.storage
+      .from('avatars')
+      .upload(fileName, bytes.buffer, {
+        contentType: 'image/jpeg',
+        upsert: true,
+      });
+
+    if (error) {
+      console.error('Error uploading avatar:', error);
+      throw new Error('Failed to upload photo');
+    }
+
+    const { publicUrl } = supabase.storage.from('avatars').getPublicUrl(fileName).data;
+    return `${publicUrl}?v=${Date.now()}`;
+  }
+
+  /**
+   * Save profile fields. The server rejects changes to KYC-verified fields
+   * and usernames that are taken.
+   */
+  static async updateProfile(userId: string, update: ProfileUpdate): Promise<void> {
+    const { error } = await supabase
+      .from('user_profile')
+      .update(update)
+      .eq('uid', userId);
+
+    if (error) {
+      console.error('Error updating profile:', error);
+      // Unique index on lower(username)
+      if (error.code === '23505') {
+        throw new Error('That username is already taken');
+      }
+      throw new Error(error.message);
+    }
+  }
+}
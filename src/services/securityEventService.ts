@@ -0,0 +1,128 @@
+import { supabase } from '../config/supabase';
+import { SecurityEvent } from '../types';
+
+export type SecurityEventCategory = 'all' | 'signins' | 'two_factor' | 'password' | 'contact' | 'biometric' | 'bank';
+
+export const SECURITY_EVENT_CATEGORIES: { key: SecurityEventCategory; label: string; types: string[] }[] = [
+  { key: 'all', label: 'All', types: [] },
+  {
+    key: 'signins',
+    label: 'Sign-ins',
+    types: [
+      'login',
+      'login_failed',
+      'new_device_login',
+      'new_device_reported',
+      'account_locked',
+      'account_unlocked',
+      'device_signed_out',
+      'account_closed',
+    ],
+  },
+  {
+    key: 'two_factor',
+    label: 'Two-factor',
+    types: [
+      'two_factor_enabled',
+      'two_factor_disabled',
+      'two_factor_recovery_requested',
+      'two_factor_recovery_approved',
+      'two_factor_recovery_rejected',
+      'two_factor_recovery_cancelled',
+      'two_factor_recovery_completed',
+    ],
+  },
+  {
+    key: 'password',
+    label: 'Password & PIN',
+    types: ['password_changed', 'transaction_pin_set', 'transaction_pin_changed'],
+  },
+  {
+    key: 'contact',
+    label: 'Email & phone',
+    types: ['email_change_requested', 'email_changed', 'phone_verified'],
+  },
+  { key: 'biometric', label: 'Biometric', types: ['biometric_enabled', 'biometric_disabled'] },
+  {
+    key: 'bank',
+    label: 'Bank accounts',
+    types: ['bank_account_added', 'bank_account_updated', 'bank_account_deleted'],
+  },
+];
+
+const EVENT_DISPLAY: Record<string, { label: string; icon: string; color: string }> = {
+  login: { label: 'Signed in', icon: 'log-in-outline', color: '#09d2fe' },
+  login_failed: { label: 'Failed sign-in attempt', icon: 'alert-circle-outline', color: '#ff4757' },
+  new_device_login: { label: 'Signed in on a new device', icon: 'phone-portrait-outline', color: '#f59e0b' },
+  new_device_reported: { label: 'New device reported as not you', icon: 'warning-outline', color: '#ff4757' },
+  account_locked: { label: 'Account locked', icon: 'lock-closed-outline', color: '#ff4757' },
+  account_unlocked: { label: 'Account unlocked', icon: 'lock-open-outline', color: '#10b981' },
+  device_signed_out: { label: 'Device signed out', icon: 'log-out-outline', color: '#f59e0b' },
+  account_closed: { label: 'Account closed', icon: 'trash-outline', color: '#ff4757' },
+  two_factor_enabled: { label: 'Two-factor authentication turned on', icon: 'shield-checkmark-outline', color: '#10b981' },
+  two_factor_disabled: { label: 'Two-factor authentication turned off', icon: 'shield-outline', color: '#f59e0b' },
+  two_factor_recovery_requested: { label: '2FA recovery requested', icon: 'help-buoy-outline', color: '#f59e0b' },
+  two_factor_recovery_approved: { label: '2FA recovery approved', icon: 'help-buoy-outline', color: '#f59e0b' },
+  two_factor_recovery_rejected: { label: '2FA recovery rejected', icon: 'help-buoy-outline', color: '#9ca3af' },
+  two_factor_recovery_cancelled: { label: '2FA recovery cancelled', icon: 'help-buoy-outline', color: '#9ca3af' },
+  two_factor_recovery_completed: { label: '2FA recovery completed', icon: 'help-buoy-outline', color: '#ff4757' },
+  password_changed: { label: 'Password changed', icon: 'key-outline', color: '#f59e0b' },
+  transaction_pin_set: { label: 'Transaction PIN set', icon: 'keypad-outline', color: '#09d2fe' },
+  transaction_pin_changed: { label: 'Transaction PIN changed', icon: 'keypad-outline', color: '#f59e0b' },
+  email_change_requested: { label: 'Email change requested', icon: 'mail-outline', color: '#f59e0b' },
+  email_changed: { label: 'Email address changed', icon: 'mail-outline', color: '#ff4757' },
+  phone_verified: { label: 'Phone number verified', icon: 'call-outline', color: '#10b981' },
+  biometric_enabled: { label: 'Biometric login turned on', icon: 'finger-print-outline', color: '#09d2fe' },
+  biometric_disabled: { label: 'Biometric login turned off', icon: 'finger-print-outline', color: '#9ca3af' },
+  bank_account_added: { label: 'Bank account added', icon: 'card-outline', color: '#09d2fe' },
+  bank_account_updated: { label: 'Bank account updated', icon: 'card-outline', color: '#f59e0b' },
+  bank_account_deleted: { label: 'Bank account removed', icon: 'card-outline', color: '#9ca3af' },
+};
+
+/**
+ * Label, icon and colour for an event type, with a readable fallback for types
+ * this version of the app does not know about yet
+ */
+export const getSecurityEventDisplay = (eventType: string) => {
+  const display = EVENT_DISPLAY[eventType];
+  if (display) return display;
+
+  const label = eventType.replace(/_/g, ' ');
+  return {
+    label: label.charAt(0).toUpperCase() + label.slice(1),
+    icon: 'shield-outline',
+    color: '#9ca3af',
+  };
+};
+
+export class SecurityEventService {
+  /**
+   * Get a page of the signed-in user's security events, newest first
+   */
+  static async getEvents(
+    category: SecurityEventCategory = 'all',
+    offset: number = 0,
+    limit: number = 20
+  ): Promise<SecurityEvent[]> {
+    try {
+      let query = supabase
+        .from('security_events')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      const types = SECURITY_EVENT_CATEGORIES.find(c => c.key === category)?.types ?? [];
+      if (types.length > 0) {
+        query = query.in('event_type', types);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching security events:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { StepUpAction, StepUpFactor } from '../types';
+
+// Which factors each sensitive action needs. Mirrors step_up_requirements()
+// in create_step_up_auth.sql, which enforces it - change both together.
+//
+// 'second_factor' resolves from the user's configuration: TOTP (or a backup
+// code) when 2FA is enabled, otherwise this device's biometric login if it is
+// set up, otherwise a one-time code sent to the account email.
+type StepUpRequirement = 'password' | 'transaction_pin' | 'second_factor';
+
+interface StepUpPolicyEntry {
+  title: string;
+  description: string;
+  requirements: StepUpRequirement[];
+}
+
+export const STEP_UP_POLICY: Record<StepUpAction, StepUpPolicyEntry> = {
+  withdraw_pkr: {
+    title: 'Confirm Withdrawal',
+    description: 'Verify it is you before funds leave your wallet',
+    requirements: ['transaction_pin', 'second_factor'],
+  },
+  send_pkr: {
+    title: 'Confirm Transfer',
+    description: 'Verify it is you before sending PKR to another wallet',
+    requirements: ['transaction_pin', 'second_factor'],
+  },
+  add_bank: {
+    title: 'Add Bank Account',
+    description: 'Verify it is you before adding a withdrawal account',
+    requirements: ['transaction_pin', 'second_factor'],
+  },
+  edit_bank: {
+    title: 'Update Bank Account',
+    description: 'Verify it is you before changing a withdrawal account',
+    requirements: ['transaction_pin', 'second_factor'],
+  },
+  delete_bank: {
+    title: 'Delete Bank Account',
+    description: 'Verify it is you before deleting this bank account',
+    requirements: ['transaction_pin', 'second_factor'],
+  },
+  change_password: {
+    title: 'Change Password',
+    description: 'Verify it is you before changing your password',
+    requirements: ['password', 'second_factor'],
+  },
+  disable_2fa: {
+    title: 'Disable 2FA',
+    description: 'Verify it is you before turning off two-factor authentication',
+    requirements: ['password', 'second_factor'],
+  },
+  change_email: {
+    title: 'Change Email',
+    description: 'Verify it is you before changing your email address',
+    requirements: ['password', 'second_factor'],
+  },
+  change_phone: {
+    title: 'Change Phone Number',
+    description: 'Verify it is you before replacing your verified phone number',
+    requirements: ['password', 'second_factor'],
+  },
+  close_account: {
+    title: 'Close Account',
+    description: 'Verify it is you before closing your account',
+    requirements: ['password', 'second_factor'],
+  },
+};
+
+export interface StepUpUserConfig {
+  twoFactorEnabled: boolean;
+  biometricEnabled: boolean;
+}
+
+export const getRequiredFactors = (
+  action: StepUpAction,
+  config: StepUpUserConfig
+): StepUpFactor[] =>
+  STEP_UP_POLICY[action].requirements.map((requirement) => {
+    if (requirement !== 'second_factor') {
+      return requirement;
+    }
+    if (config.twoFactorEnabled) {
+      return 'totp';
+    }
+    return config.biometricEnabled ? 'biometric' : 'email_otp';
+  });
@@ -0,0 +1,83 @@
+import { supabase } from '../config/supabase';
+import { StepUpAction, StepUpResult } from '../types';
+
+export interface StepUpFactorValues {
+  password?: string;
+  transactionPin?: string;
+  otp?: string;
+  deviceId?: string;
+  biometricCredential?: string;
+}
+
+/**
+ * Exchanges verified factors for a short-lived, single-use step-up token that
+ * the RPC performing the sensitive action consumes.
+ */
+export class StepUpService {
+  /**
+   * Verify the factors for an action. A rejected factor is reported in the
+   * result; only request errors throw.
+   */
+  static async issueToken(action: StepUpAction, values: StepUpFactorValues): Promise<StepUpResult> {
+    const { data, error } = await supabase.rpc('issue_step_up_token', {
+      p_action: action,
+      p_password: values.password ?? null,
+      p_transaction_pin: values.transactionPin ?? null,
+      p_otp: values.otp ?? null,
+      p_device_id: values.deviceId ?? null,
+      p_biometric_credential: values.biometricCredential ?? null,
+    });
+
+    if (error) {
+      console.error('Error issuing step-up token:', error);
+      throw new Error(error.message);
+    }
+    return data as StepUpResult;
+  }
+
+  /**
+   * Email the signed-in user a reauthentication code for the step-up email
+   * factor. issueToken checks it on the server; the sign-in OTP is not accepted.
+   */
+  static async sendReauthenticationCode(): Promise<void> {
+    const { error } = await supabase.auth.reauthenticate();
+
+    if (error) {
+      console.error('Error sending step-up reauthentication code:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Email a one-time sign-in code to the signed-in user (2FA recovery)
+   */
+  static async sendEmailCode(email: string): Promise<void> {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false },
+    });
+
+    if (error) {
+      console.error('Error sending step-up email code:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Verify the emailed sign-in code. This refreshes the session, which is
+   * what start_two_factor_recovery checks.
+   */
+  static async verifyEmailCode(email: string, code: string): Promise<boolean> {
+    const { error } = await supabase.auth.verifyOtp({
+      email,
+      token: code,
+      type: 'email',
+    });
+
+    if (error) {
+      console.error('Error verifying step-up email code:', error);
+      return false;
+    }
+    return true;
+  }
+}
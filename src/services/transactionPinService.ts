@@ -0,0 +1,60 @@
+import { supabase } from '../config/supabase';
+import { TransactionPinStatus, TransactionPinResult } from '../types';
+
+export const TRANSACTION_PIN_LENGTH = 6;
+
+/**
+ * Server-side transaction PIN used to confirm withdrawals and bank account
+ * changes. Only a hash is stored, and wrong entries are counted by the server.
+ * The PIN itself is checked as a step-up factor (see StepUpService).
+ */
+export class TransactionPinService {
+  /**
+   * Whether the user has set a PIN, and when any cooldown ends
+   */
+  static async getStatus(): Promise<TransactionPinStatus | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_transaction_pin_status');
+
+      if (error) throw error;
+      return data as TransactionPinStatus;
+    } catch (error) {
+      console.error('Error fetching transaction PIN status:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Set a new PIN. The current PIN is required when one already exists.
+   */
+  static async setPin(newPin: string, currentPin?: string): Promise<TransactionPinResult> {
+    const { data, error } = await supabase.rpc('set_transaction_pin', {
+      p_new_pin: newPin,
+      p_current_pin: currentPin ?? null,
+    });
+
+    if (error) {
+      console.error('Error setting transaction PIN:', error);
+      throw new Error(error.message);
+    }
+    return data as TransactionPinResult;
+  }
+
+  /**
+   * User-facing message for a rejected PIN
+   */
+  static describeFailure(result: TransactionPinResult): string {
+    if (!result.is_set) {
+      return 'Set up a transaction PIN in Account Settings first';
+    }
+
+    if (result.locked_until) {
+      const minutes = Math.max(1, Math.ceil((new Date(result.locked_until).getTime() - Date.now()) / 60000));
+      return `Too many wrong entries. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}`;
+    }
+
+    return result.attempts_left === 1
+      ? 'Incorrect PIN. 1 attempt left before a cooldown'
+      : `Incorrect PIN. ${result.attempts_left} attempts left`;
+  }
+}
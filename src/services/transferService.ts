@@ -0,0 +1,77 @@
+import { supabase } from '../config/supabase';
+import { Money, PKRTransfer } from '../types';
+import { toDecimalString } from './money';
+
+const PKR_ADDRESS_PATTERN = /^PKR-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}$/;
+
+export const NOTE_MAX_LENGTH = 140;
+
+/**
+ * An address as typed or scanned, e.g. " pkr-1a2b-3c4d-5e6f", in the form
+ * wallets store it
+ */
+export const normalizePkrAddress = (input: string): string => input.trim().toUpperCase();
+
+export const isValidPkrAddress = (address: string): boolean =>
+  PKR_ADDRESS_PATTERN.test(normalizePkrAddress(address));
+
+export interface TransferRequest {
+  recipientAddress: string;
+  amount: Money;
+  note: string;
+  // Generated once per transfer and reused on retries
+  idempotencyKey: string;
+  stepUpToken: string;
+}
+
+export class TransferService {
+  /**
+   * The masked name of the wallet owner behind an address, e.g. "A*** K***".
+   * Fails for unknown, inactive or the user's own addresses.
+   */
+  static async lookupRecipient(address: string): Promise<string> {
+    const { data, error } = await supabase.rpc('lookup_pkr_recipient', {
+      p_address: normalizePkrAddress(address),
+    });
+
+    if (error) {
+      console.error('Error looking up recipient:', error);
+      throw new Error(error.message);
+    }
+    return data;
+  }
+
+  /**
+   * Move PKR to another user's wallet, returning the transfer id. Both
+   * balances change together. Repeating a request with the same idempotency
+   * key returns the transfer it already made.
+   */
+  static async sendPkr(request: TransferRequest): Promise<string> {
+    const { data, error } = await supabase.rpc('transfer_pkr_internal', {
+      p_recipient_address: normalizePkrAddress(request.recipientAddress),
+      p_amount: toDecimalString(request.amount),
+      p_note: request.note.trim() || null,
+      p_idempotency_key: request.idempotencyKey,
+      p_step_up_token: request.stepUpToken,
+    });
+
+    if (error) {
+      console.error('Error sending PKR:', error);
+      throw new Error(error.message);
+    }
+    return data;
+  }
+
+  /**
+   * Transfers the user sent or received, newest first
+   */
+  static async getTransfers(): Promise<PKRTransfer[]> {
+    const { data, error } = await supabase.rpc('get_pkr_transfers');
+
+    if (error) {
+      console.error('Error fetching transfers:', error);
+      return [];
+    }
+    return data || [];
+  }
+}
@@ -0,0 +1,95 @@
+import * as FileSystem from 'expo-file-system';
+import { supabase } from '../config/supabase';
+import { TwoFactorRecovery } from '../types';
+
+/**
+ * Self-service recovery for users who lost their authenticator and backup
+ * codes. The server enforces the email code, selfie review and waiting period.
+ */
+export class TwoFactorRecoveryService {
+  /**
+   * The open recovery request, or the latest closed one; null if none
+   */
+  static async getStatus(): Promise<TwoFactorRecovery | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_two_factor_recovery_status');
+
+      if (error) throw error;
+      return (data as TwoFactorRecovery) ?? null;
+    } catch (error) {
+      console.error('Error fetching 2FA recovery status:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Upload a recovery selfie to the user's KYC folder and return its URL
+   */
+  static async uploadSelfie(userId: string, imageUri: string): Promise<string> {
+    const base64 = await FileSystem.readAsStringAsync(imageUri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+
+    const fileName = `${userId}/recovery_${Date.now()}.jpg`;
+    const { error } = await supabase.storage
+      .from('kyc-documents')
+      .upload(fileName, bytes.buffer, {
+        contentType: 'image/jpeg',
+        upsert: false,
+      });
+
+    if (error) {
+      console.error('Error uploading recovery selfie:', error);
+      throw new Error('Failed to upload selfie');
+    }
+
+    return supabase.storage.from('kyc-documents').getPublicUrl(fileName).data.publicUrl;
+  }
+
+  /**
+   * Open a recovery request. The session must have been confirmed with an
+   * email code in the last few minutes.
+   */
+  static async start(selfieUrl: string): Promise<void> {
+    const { error } = await supabase.rpc('start_two_factor_recovery', {
+      p_selfie_url: selfieUrl,
+    });
+
+    if (error) {
+      console.error('Error starting 2FA recovery:', error);
+      throw new Error(error.message);
+    }
+  }
+
+  /**
+   * Cancel the open request, if any
+   */
+  static async cancel(): Promise<boolean> {
+    const { data, error } = await supabase.rpc('cancel_two_factor_recovery');
+
+    if (error) {
+      console.error('Error cancelling 2FA recovery:', error);
+      throw new Error(error.message);
+    }
+    return data === true;
+  }
+
+  /**
+   * Turn off 2FA once the request is approved and the waiting period is over
+   */
+  static async complete(): Promise<boolean> {
+    const { data, error } = await supabase.rpc('complete_two_factor_recovery');
+
+    if (error) {
+      console.error('Error completing 2FA recovery:', error);
+      throw new Error(error.message);
+    }
+    return data === true;
+  }
+}
@@ -1,5 +1,4 @@
 import { supabase } from '../config/supabase';
-import { TOTP } from 'totp-generator';
 
 export class TwoFactorService {
   // Generate 2FA secret
@@ -28,12 +27,12 @@ export class TwoFactorService {
     }
   }
 
-  // Enable 2FA
-  static async enable2FA(userId: string, secret: string): Promise<boolean> {
+  // Enable 2FA with the secret from generateSecret. The server only allows
+  // this after a code from that secret has been verified (verifySetupCode).
+  static async enable2FA(userId: string): Promise<boolean> {
     try {
       const { data, error } = await supabase.rpc('enable_2fa', {
-        user_id: userId,
-        secret: secret
+        user_id: userId
       });
 
       if (error) throw error;
@@ -45,10 +44,11 @@ export class TwoFactorService {
   }
 
   // Disable 2FA
-  static async disable2FA(userId: string): Promise<boolean> {
+  static async disable2FA(userId: string, stepUpToken: string): Promise<boolean> {
     try {
       const { data, error } = await supabase.rpc('disable_2fa', {
-        user_id: userId
+        user_id: userId,
+        step_up_token: stepUpToken
       });
 
       if (error) throw error;
@@ -59,7 +59,8 @@ export class TwoFactorService {
     }
   }
 
-  // Generate backup codes
+  // Generate backup codes during setup, before 2FA is enabled.
+  // The server keeps only hashes, so these are the only copy of the codes.
   static async generateBackupCodes(userId: string): Promise<string[]> {
     try {
       const { data, error } = await supabase.rpc('generate_backup_codes', {
@@ -74,132 +75,90 @@ export class TwoFactorService {
     }
   }
 
-  // Verify OTP
-  static async verifyOTP(userId: string, otp: string): Promise<boolean> {
+  // Replace all backup codes once 2FA is on. Needs a current authenticator
+  // code; returns null if that code was wrong.
+  static async regenerateBackupCodes(otp: string): Promise<string[] | null> {
     try {
-      // If it's a 6-digit code, try local TOTP verification first
-      if (otp.length === 6) {
-        // Get user's 2FA secret for local verification
-        const { data: profile, error: profileError } = await supabase
-          .from('user_profile')
-          .select('two_factor_secret')
-          .eq('uid', userId)
-          .single();
-
-        if (profile?.two_factor_secret) {
-          const isValidTOTP = this.verifyTOTP(profile.two_factor_secret, otp);
-          console.log('TOTP verification result:', {
-            inputCode: otp,
-            generatedCode: this.generateTOTP(profile.two_factor_secret),
-            isValid: isValidTOTP
-          });
-          if (isValidTOTP) {
-            return true;
-          }
-        }
-      }
-
-      // If local TOTP verification failed or it's an 8-digit backup code,
-      // try database verification for backup codes
-      const { data, error } = await supabase.rpc('verify_otp', {
-        user_id: userId,
-        otp: otp
+      const { data, error } = await supabase.rpc('regenerate_backup_codes', {
+        p_otp: otp
       });
 
       if (error) throw error;
-      return data;
+      return data ?? null;
     } catch (error) {
-      console.error('Error verifying OTP:', error);
-      return false; // Return false instead of throwing to allow graceful handling
+      console.error('Error regenerating backup codes:', error);
+      throw error;
     }
   }
 
-  // Verify TOTP locally
-  static verifyTOTP(secret: string, token: string): boolean {
+  // Number of unused backup codes left
+  static async getBackupCodeCount(): Promise<number> {
     try {
-      const generatedToken = this.generateTOTP(secret);
-      console.log('verifyTOTP Debug:', {
-        secret,
-        generatedToken,
-        userToken: token,
-        match: token === generatedToken
-      });
-      return token === generatedToken;
+      const { data, error } = await supabase.rpc('get_backup_code_count');
+
+      if (error) throw error;
+      return data ?? 0;
     } catch (error) {
-      console.error('Error verifying TOTP:', error);
-      return false;
+      console.error('Error getting backup code count:', error);
+      throw error;
     }
   }
 
-  // Generate TOTP using totp-generator (guaranteed to match Google Authenticator)
-  static generateTOTP(secret: string): string {
+  // Verify OTP (authenticator code or 8-digit backup code) on the server
+  static async verifyOTP(userId: string, otp: string): Promise<boolean> {
     try {
-      const result = TOTP.generate(secret);
-      return result.otp;
+      const { data, error } = await supabase.rpc('verify_otp', {
+        user_id: userId,
+        otp: otp
+      });
+
+      if (error) throw error;
+      return data === true;
     } catch (error) {
-      console.error('Error generating TOTP:', error);
-      throw error;
+      console.error('Error verifying OTP:', error);
+      return false; // Return false instead of throwing to allow graceful handling
     }
   }
 
-  // Generate TOTP for a specific time (for testing)
-  static generateTOTPForTime(secret: string, time: number): string {
+  // Verify a 6-digit code from the new secret during setup, before 2FA is on.
+  // Accepts ±1 time step of clock drift and rejects codes that were already used.
+  static async verifySetupCode(userId: string, token: string): Promise<boolean> {
     try {
-      const result = TOTP.generate(secret);
-      return result.otp;
+      const { data, error } = await supabase.rpc('verify_2fa_setup_code', {
+        user_id: userId,
+        otp: token
+      });
+
+      if (error) throw error;
+      return data === true;
     } catch (error) {
-      console.error('Error generating TOTP for time:', error);
-      throw error;
+      console.error('Error verifying setup code:', error);
+      return false;
     }
   }
 
   // Get user's 2FA status
   static async get2FAStatus(userId: string): Promise<{
     enabled: boolean;
-    secret?: string;
-    backupCodes?: string[];
+    backupCodesRemaining: number;
   }> {
     try {
       const { data, error } = await supabase
         .from('user_profile')
-        .select('two_factor_enabled, two_factor_secret, backup_codes')
+        .select('two_factor_enabled')
         .eq('uid', userId)
         .single();
 
       if (error) throw error;
 
+      const enabled = data.two_factor_enabled || false;
       return {
-        enabled: data.two_factor_enabled || false,
-        secret: data.two_factor_secret,
-        backupCodes: data.backup_codes
+        enabled,
+        backupCodesRemaining: enabled ? await this.getBackupCodeCount() : 0
       };
     } catch (error) {
       console.error('Error getting 2FA status:', error);
       throw error;
     }
   }
-
-  // Debug function to test TOTP generation
-  static debugTOTP(secret: string): {
-    currentTime: number;
-    counter: number;
-    result: string;
-  } {
-    try {
-      const now = Math.floor(Date.now() / 1000);
-      const timeStep = 30;
-      const counter = Math.floor(now / timeStep);
-      
-      const result = TOTP.generate(secret);
-      
-      return {
-        currentTime: now,
-        counter,
-        result: result.otp
-      };
-    } catch (error) {
-      console.error('Error in debugTOTP:', error);
-      throw error;
-    }
-  }
-} 
\ No newline at end of file
+}
\ No newline at end of file
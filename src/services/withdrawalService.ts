@@ -0,0 +1,48 @@
+import { supabase } from '../config/supabase';
+import { Money } from '../types';
+import { toDecimalString } from './money';
+
+export interface WithdrawalRequest {
+  bankAccountId: string;
+  amount: Money;
+  // Generated once per withdrawal and reused on retries
+  idempotencyKey: string;
+  stepUpToken: string;
+}
+
+export class WithdrawalService {
+  /**
+   * Lock the amount and create the withdrawal in one step, returning its id.
+   * Repeating a request with the same idempotency key returns the withdrawal
+   * it already created.
+   */
+  static async requestWithdrawal(request: WithdrawalRequest): Promise<string> {
+    const { data, error } = await supabase.rpc('request_pkr_withdrawal', {
+      p_bank_account_id: request.bankAccountId,
+      p_amount: toDecimalString(request.amount),
+      p_idempotency_key: request.idempotencyKey,
+      p_step_up_token: request.stepUpToken,
+    });
+
+    if (error) {
+      console.error('Error requesting withdrawal:', error);
+      throw new Error(error.message);
+    }
+    return data;
+  }
+
+  /**
+   * Cancel a withdrawal that is still pending; the amount goes back to the
+   * available balance. Fails once the withdrawal is being processed.
+   */
+  static async cancelWithdrawal(withdrawalId: string): Promise<void> {
+    const { error } = await supabase.rpc('cancel_pkr_withdrawal', {
+      p_withdrawal_id: withdrawalId,
+    });
+
+    if (error) {
+      console.error('Error cancelling withdrawal:', error);
+      throw new Error(error.message);
+    }
+  }
+}
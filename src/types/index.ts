@@ -4,6 +4,7 @@ export interface UserProfile {
   full_name: string;
   username?: string;
   phone_number?: string;
+  phone_verified_at?: string | null;
   avatar_url?: string;
   role: string;
   cnic_number?: string;
@@ -11,11 +12,11 @@ export interface UserProfile {
   address?: string;
   kyc_status: 'not_submitted' | 'pending' | 'verified' | 'rejected';
   two_factor_enabled?: boolean;
-  two_factor_secret?: string;
-  backup_codes?: string[];
   biometric_enabled?: boolean;
   created_at?: string;
   is_locked?: boolean;
+  lock_reason?: string | null;
+  lock_kind?: 'device_report' | null; // Set when a lock needs a password reset to lift
 }
 
 export interface KYC {
@@ -32,40 +33,177 @@ export interface KYC {
   updated_at?: string;
 }
 
+export type Asset = 'PKR' | 'USDT';
+
+// A numeric column as the API returns it
+export type DecimalValue = number | string;
+
+// An exact amount in the asset's smallest unit (paisa, or 1e-8 USDT); see
+// services/money.ts
+export interface Money {
+  asset: Asset;
+  units: bigint;
+}
+
 export interface Wallet {
   id: string;
   uid: string;
   pkr_wallet_address: string;
   trc20_wallet_address?: string;
   bep20_wallet_address?: string;
-  pkr_balance: number;
-  usdt_balance: number;
-  pkr_locked: number;
-  usdt_locked: number;
+  pkr_balance: DecimalValue;
+  usdt_balance: DecimalValue;
+  pkr_locked: DecimalValue;
+  usdt_locked: DecimalValue;
   is_active: boolean;
   created_at?: string;
   updated_at?: string;
 }
 
+export interface UserDevice {
+  id: string;
+  device_id: string;
+  device_name: string | null;
+  platform: string | null;
+  app_version: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  biometric_enabled: boolean;
+  is_current: boolean;
+}
+
+export interface SecurityEvent {
+  id: string;
+  event_type: string;
+  details: Record<string, any>;
+  device_id: string | null;
+  device_name: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export interface NewDeviceAlert {
+  id: string;
+  device_name: string | null;
+  platform: string | null;
+  ip_address: string | null;
+  created_at: string;
+}
+
+export interface LoginStatus {
+  locked: boolean;
+  lock_reason: string | null;
+  retry_after_seconds: number;
+}
+
+export interface TransactionPinStatus {
+  is_set: boolean;
+  locked_until: string | null;
+}
+
+export interface TransactionPinResult {
+  valid: boolean;
+  is_set: boolean;
+  attempts_left: number | null;
+  locked_until: string | null;
+}
+
+export interface TwoFactorRecovery {
+  id: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  requested_at: string;
+  available_at: string;
+  reviewer_notes: string | null;
+}
+
+export type StepUpAction =
+  | 'withdraw_pkr'
+  | 'send_pkr'
+  | 'add_bank'
+  | 'edit_bank'
+  | 'delete_bank'
+  | 'change_password'
+  | 'disable_2fa'
+  | 'change_email'
+  | 'change_phone'
+  | 'close_account';
+
+export type StepUpFactor = 'password' | 'transaction_pin' | 'totp' | 'email_otp' | 'biometric';
+
+export interface StepUpResult {
+  token: string | null;
+  expires_at?: string;
+  factor?: StepUpFactor | null;
+  message?: string | null;
+  pin?: TransactionPinResult;
+}
+
+export type LoginState =
+  | { status: 'restoring' }
+  | { status: 'idle'; error?: string }
+  | { status: 'verifyingCredentials'; email: string }
+  | { status: 'emailOtp'; email: string; purpose: 'login' | 'unlock'; error?: string }
+  | { status: 'secondFactor'; email: string; userId: string }
+  | { status: 'locked'; email: string; userId: string; lockReason: string | null }
+  | { status: 'passwordRecovery'; email: string; userId: string; requiresSecondFactor: boolean }
+  | { status: 'sessionEstablished'; userId: string; freshLogin: boolean }
+  | { status: 'authenticated'; userId: string };
+
 export interface AuthContextType {
   user: UserProfile | null;
   wallet: Wallet | null;
   loading: boolean;
-  pending2FA: { userId: string; show: boolean } | null;
+  loginState: LoginState;
   signUp: (email: string, password: string, fullName: string) => Promise<void>;
-  signIn: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
   fetchUserData: (userId: string, showLoading?: boolean) => Promise<void>;
-  signInWith2FA: (email: string, password: string) => Promise<any>;
-  complete2FALogin: () => Promise<void>;
-  cancel2FALogin: () => Promise<void>;
+  submitCredentials: (email: string, password: string) => Promise<void>;
+  verifyEmailOtp: (code: string) => Promise<void>;
+  resendEmailOtp: () => Promise<void>;
+  startUnlock: (email: string) => Promise<void>;
+  submitSecondFactor: (code: string, viaSms?: boolean) => Promise<boolean>;
+  unlockAccount: (code: string) => Promise<boolean>;
+  completeTwoFactorRecovery: () => Promise<boolean>;
+  reportNewDevice: (alertId: string) => Promise<boolean>;
+  cancelLogin: () => Promise<void>;
+  completePasswordReset: (newPassword: string, code?: string) => Promise<boolean>;
+  verify2FACode: (code: string, userId?: string) => Promise<boolean>;
   signInWithBiometric: () => Promise<boolean>;
-  enableBiometric: (email: string, password: string) => Promise<boolean>;
+  enableBiometric: () => Promise<boolean>;
   disableBiometric: () => Promise<void>;
-  prepare2FACompletion?: (email: string, password: string) => void;
-  complete2FAUsingExistingSession?: () => Promise<void>;
-  beginEmailOtpFlow?: () => void;
-  endEmailOtpFlow?: () => void;
+  updateWallet: (wallet: Wallet) => void;
+}
+
+export interface AppLockContextType {
+  pinSet: boolean;
+  lockTimeout: number;
+  isLocked: boolean;
+  unlockWithPin: (pin: string) => Promise<{ success: boolean; attemptsLeft: number }>;
+  unlockWithBiometric: () => Promise<boolean>;
+  setPin: (pin: string) => Promise<void>;
+  removePin: () => Promise<void>;
+  setLockTimeout: (seconds: number) => Promise<void>;
+}
+
+export interface StepUpContextType {
+  requireStepUp: (action: StepUpAction) => Promise<string | null>;
+}
+
+export type RealtimeTable = 'wallets' | 'pkr_deposits' | 'pkr_withdrawals' | 'pkr_transfers';
+
+export interface RealtimeChange {
+  table: RealtimeTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  record: Record<string, any>;
+}
+
+// Called with each change, or with null after a reconnect, when changes may
+// have been missed and the listener should refetch
+export type RealtimeListener = (change: RealtimeChange | null) => void;
+
+export interface RealtimeContextType {
+  subscribe: (listener: RealtimeListener) => () => void;
 }
 
 export interface BankAccount {
@@ -81,7 +219,7 @@ export interface BankAccount {
 export interface PKRDeposit {
   id: string;
   user_id: string;
-  amount: number;
+  amount: DecimalValue;
   bank_account_id: string;
   screenshot_url: string | null;
   status: 'pending' | 'completed' | 'declined';
@@ -105,14 +243,41 @@ export interface PKRWithdrawal {
   id: string;
   user_id: string;
   user_bank_account_id: string;
-  amount: number;
-  status: 'pending' | 'processing' | 'completed' | 'declined';
+  amount: DecimalValue;
+  status: 'pending' | 'processing' | 'completed' | 'declined' | 'cancelled';
   admin_notes: string | null;
   processed_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// A row from get_pkr_transfers, seen from the caller's side
+export interface PKRTransfer {
+  id: string;
+  direction: 'sent' | 'received';
+  amount: DecimalValue;
+  note: string | null;
+  counterparty_address: string;
+  counterparty_name: string;
+  created_at: string;
+}
+
+export type LedgerSourceType = 'deposit' | 'withdrawal' | 'transfer' | 'trade' | 'adjustment';
+
+// A row from get_ledger_history, with the balances right after it was posted
+export interface LedgerEntry {
+  id: number;
+  journal_id: string;
+  account: 'available' | 'locked';
+  amount: DecimalValue;
+  source_type: LedgerSourceType;
+  source_id: string | null;
+  description: string | null;
+  available_balance: DecimalValue;
+  locked_balance: DecimalValue;
+  created_at: string;
+}
+
 export interface PakistaniBank {
   id: number;
   bank_name: string;
@@ -123,6 +288,8 @@ export interface PakistaniBank {
 export type RootStackParamList = {
   Landing: undefined;
   Login: undefined;
+  ForgotPassword: undefined;
+  ResetPassword: undefined;
   SignUp: undefined;
   Home: undefined;
   AccountSettings: undefined;
@@ -132,8 +299,18 @@ export type RootStackParamList = {
   UserBankAccounts: undefined;
   AddEditBankAccount: { bankAccount?: UserBankAccount };
   WithdrawPKR: undefined;
+  SendPKR: undefined;
   History: undefined;
   TwoFactorSetup: undefined;
   OTPVerification: { action: 'login' | 'add_bank' | 'delete_bank' | 'enable_2fa' | 'change_password'; onSuccess: () => void };
-  ChangePassword: undefined;
+  ChangePassword: { stepUpToken: string };
+  ChangeEmail: { stepUpToken: string };
+  PhoneVerification: undefined;
+  CloseAccount: undefined;
+  EditProfile: undefined;
+  DevicesAndSessions: undefined;
+  AppLockSettings: undefined;
+  TransactionPinSetup: undefined;
+  BackupCodes: undefined;
+  SecurityActivity: undefined;
 }; 
\ No newline at end of file
@@ -0,0 +1,66 @@
+// SMS delivery behind one interface so the provider can be swapped without
+// touching the functions that send codes. Pick one with the SMS_PROVIDER
+// secret. There is no default: without it sending fails rather than quietly
+// writing codes to the logs. 'console' is for local development only and
+// also needs ALLOW_CONSOLE_SMS=true.
+
+export interface SmsProvider {
+  send(to: string, message: string): Promise<void>;
+}
+
+// Local development: read the code from `supabase functions serve` output
+class ConsoleSmsProvider implements SmsProvider {
+  async send(to: string, message: string): Promise<void> {
+    console.log(`[sms] to ${to}: ${message}`);
+  }
+}
+
+// Needs TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER
+class TwilioSmsProvider implements SmsProvider {
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private fromNumber: string
+  ) {}
+
+  async send(to: string, message: string): Promise<void> {
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ To: to, From: this.fromNumber, Body: message }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Twilio returned ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+export const getSmsProvider = (): SmsProvider => {
+  const provider = Deno.env.get('SMS_PROVIDER');
+
+  switch (provider) {
+    case undefined:
+    case '':
+      throw new Error('SMS_PROVIDER is not set');
+    case 'console':
+      if (Deno.env.get('ALLOW_CONSOLE_SMS') !== 'true') {
+        throw new Error('The console SMS provider is for local development; set ALLOW_CONSOLE_SMS=true to use it');
+      }
+      return new ConsoleSmsProvider();
+    case 'twilio':
+      return new TwilioSmsProvider(
+        Deno.env.get('TWILIO_ACCOUNT_SID')!,
+        Deno.env.get('TWILIO_AUTH_TOKEN')!,
+        Deno.env.get('TWILIO_FROM_NUMBER')!
+      );
+    default:
+      throw new Error(`Unknown SMS_PROVIDER: ${provider}`);
+  }
+};
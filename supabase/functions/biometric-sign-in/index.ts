@@ -0,0 +1,75 @@
+// Exchanges a device-bound biometric credential for a one-time sign-in token.
+// The app sends the device id and the secret it unlocked with biometrics; if the
+// secret matches an active credential we return a magic-link token hash that the
+// app redeems with supabase.auth.verifyOtp. No password is involved.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { deviceId, credential } = await req.json();
+    if (!deviceId || !credential) {
+      return jsonResponse({ error: 'Missing device credential' }, 400);
+    }
+
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { persistSession: false, autoRefreshToken: false } }
+    );
+
+    const { data: userId, error: findError } = await admin.rpc('find_biometric_credential_user', {
+      p_device_id: deviceId,
+      p_credential: credential,
+    });
+
+    if (findError) throw findError;
+    if (!userId) {
+      return jsonResponse({ error: 'Biometric credential is invalid or has been revoked' }, 401);
+    }
+
+    // Locked accounts must go through the email OTP unlock flow; turn them
+    // away before the credential is used or a sign-in token is minted
+    const { data: profile, error: profileError } = await admin
+      .from('user_profile')
+      .select('is_locked, lock_reason')
+      .eq('uid', userId)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+    if (profile?.is_locked) {
+      return jsonResponse({ error: profile.lock_reason || 'This account is locked' }, 423);
+    }
+
+    const { data: email, error: consumeError } = await admin.rpc('consume_biometric_credential', {
+      p_device_id: deviceId,
+      p_credential: credential,
+    });
+
+    if (consumeError) throw consumeError;
+    if (!email) {
+      return jsonResponse({ error: 'Biometric credential is invalid or has been revoked' }, 401);
+    }
+
+    const { data: link, error: linkError } = await admin.auth.admin.generateLink({
+      type: 'magiclink',
+      email,
+    });
+
+    if (linkError) throw linkError;
+
+    return jsonResponse({ tokenHash: link.properties.hashed_token });
+  } catch (error) {
+    console.error('biometric-sign-in error:', error);
+    return jsonResponse({ error: 'Biometric sign in failed' }, 500);
+  }
+});
@@ -0,0 +1,71 @@
+// Sends a one-time code by SMS to the signed-in user. purpose 'verify_phone'
+// sends to the number in the body, which is being added to the account, and
+// warns the verified number it would replace; 'second_factor' sends to the
+// account's verified number. issue_sms_code (create_phone_verification.sql)
+// creates the code and enforces the limits.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { getSmsProvider } from '../_shared/smsProvider.ts';
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { purpose, phoneNumber } = await req.json();
+    if (purpose !== 'verify_phone' && purpose !== 'second_factor') {
+      return jsonResponse({ error: 'Unknown purpose' }, 400);
+    }
+
+    // Resolve the provider first so a misconfigured one fails before a code is used up
+    const sms = getSmsProvider();
+
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { persistSession: false, autoRefreshToken: false } }
+    );
+
+    const jwt = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+    const { data: { user }, error: userError } = await admin.auth.getUser(jwt);
+    if (userError || !user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const { data: issued, error: issueError } = await admin.rpc('issue_sms_code', {
+      p_user_id: user.id,
+      p_purpose: purpose,
+      p_phone_number: purpose === 'verify_phone' ? phoneNumber : null,
+    });
+
+    if (issueError) {
+      // Invalid number, rate limit, no verified number
+      return jsonResponse({ error: issueError.message }, 400);
+    }
+
+    // Validity comes from security_config.sms_code_seconds
+    const minutes = Math.max(1, Math.floor(issued.expires_in_seconds / 60));
+    await sms.send(
+      issued.phone_number,
+      `Your CoinSensei verification code is ${issued.code}. It expires in ${minutes} minute${minutes === 1 ? '' : 's'}. Never share it with anyone.`
+    );
+
+    if (issued.previous_phone_number) {
+      await sms.send(
+        issued.previous_phone_number,
+        'A request was made to replace this number on your CoinSensei account. If this was not you, change your password and contact support right away.'
+      );
+    }
+
+    return jsonResponse({ sent: true });
+  } catch (error) {
+    console.error('send-sms-otp error:', error);
+    return jsonResponse({ error: 'Failed to send the code' }, 500);
+  }
+});
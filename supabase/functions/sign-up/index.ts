@@ -0,0 +1,57 @@
+// Creates an account after checking the password against the password policy
+// (password_policy_violation in create_password_policy.sql). Public sign-ups
+// are switched off in the Auth settings, so this is the only way to register;
+// the app signs in with the new password straight after.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { email, password, fullName } = await req.json();
+    if (!email || !password || !fullName) {
+      return jsonResponse({ error: 'Missing email, password or name' }, 400);
+    }
+
+    const admin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { persistSession: false, autoRefreshToken: false } }
+    );
+
+    const { data: violation, error: policyError } = await admin.rpc('password_policy_violation', {
+      p_password: password,
+      p_email: email,
+      p_full_name: fullName,
+    });
+
+    if (policyError) throw policyError;
+    if (violation) {
+      return jsonResponse({ error: violation }, 400);
+    }
+
+    const { data, error: createError } = await admin.auth.admin.createUser({
+      email,
+      password,
+      email_confirm: true,
+    });
+
+    if (createError) {
+      // Most likely an address that is already registered
+      return jsonResponse({ error: createError.message }, 422);
+    }
+
+    return jsonResponse({ userId: data.user.id });
+  } catch (error) {
+    console.error('sign-up error:', error);
+    return jsonResponse({ error: 'Sign up failed' }, 500);
+  }
+});